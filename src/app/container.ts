@@ -7,25 +7,49 @@ import {
 } from "@modules/calendar";
 import { CommitRepository, CommitService, createCommitModule } from "@modules/commits";
 import { CryptoService } from "@modules/crypto";
-import { DollarService } from "@modules/dollar";
+import { DocumentTextService } from "@modules/documents";
+import { DollarService, ExchangeRateRepository, ExchangeRateService } from "@modules/dollar";
 import {
   UserRepository,
   UserService,
   GmailAuthRepository,
   GmailAuthService,
   GmailService,
+  ImapAccountRepository,
+  ImapService,
+  MailboxService,
   EmailAnalyzerService,
   ProcessedEmailRepository,
   EmailProcessorService,
   EmailSyncService,
   EmailReplyService,
-  createEmailModule
+  EmailRuleRepository,
+  EmailRuleService,
+  EmailDigestService,
+  createEmailModule,
+  createGmailPushModule,
+  createImapModule
 } from "@modules/email";
 import {
+  BudgetRepository,
+  BudgetService,
+  CashFlowService,
+  CategoryRuleRepository,
+  CustomCategoryRepository,
+  ExpenseAnomalyRepository,
+  ExpenseAnomalyService,
+  ExpenseExportService,
+  ExpenseGroupRepository,
+  ExpenseGroupService,
   ExpenseRepository,
   ExpenseService,
   ExpenseSummaryService,
-  FinancialAdviceService
+  FinancialAdviceService,
+  IncomeRepository,
+  IncomeService,
+  RecurringChargeRepository,
+  RecurringChargeService,
+  createExpenseModule
 } from "@modules/expenses";
 import { LinkingCodeRepository, LinkingCodeService, createLinkingModule } from "@modules/linking";
 import { MapsService } from "@modules/maps";
@@ -44,15 +68,19 @@ import {
   ReminderService,
   ReminderRepository,
   SchedulerService,
-  DigestService
+  DigestService,
+  CalendarSyncService
 } from "@modules/reminders";
 import { SubscriptionRepository, SubscriptionService } from "@modules/subscription";
+import { TimezoneService } from "@modules/timezone";
 import {
   WhatsAppClient,
   SessionService,
   SessionRepository,
   QRHandler,
-  MessageHandler
+  MessageHandler,
+  ConversationStateRepository,
+  ConversationStateService
 } from "@modules/whatsapp";
 import { getPrismaClient } from "@shared/database";
 import { env } from "@shared/env/env";
@@ -68,13 +96,24 @@ export function buildApp() {
   const reminderRepository = new ReminderRepository(prisma);
   const userRepository = new UserRepository(prisma);
   const gmailAuthRepository = new GmailAuthRepository(prisma);
+  const imapAccountRepository = new ImapAccountRepository(prisma);
   const processedEmailRepository = new ProcessedEmailRepository(prisma);
+  const emailRuleRepository = new EmailRuleRepository(prisma);
   const linkingCodeRepository = new LinkingCodeRepository(prisma);
   const subscriptionRepository = new SubscriptionRepository(prisma);
   const commitRepository = new CommitRepository(prisma);
   const meliAuthRepository = new MeliAuthRepository(prisma);
   const expenseRepository = new ExpenseRepository(prisma);
+  const budgetRepository = new BudgetRepository(prisma);
+  const recurringChargeRepository = new RecurringChargeRepository(prisma);
+  const categoryRuleRepository = new CategoryRuleRepository(prisma);
+  const customCategoryRepository = new CustomCategoryRepository(prisma);
+  const expenseGroupRepository = new ExpenseGroupRepository(prisma);
+  const incomeRepository = new IncomeRepository(prisma);
+  const expenseAnomalyRepository = new ExpenseAnomalyRepository(prisma);
+  const exchangeRateRepository = new ExchangeRateRepository(prisma);
   const scheduledPaymentRepository = new ScheduledPaymentRepository(prisma);
+  const conversationStateRepository = new ConversationStateRepository(prisma);
 
   // AI Services
   const groqClient = new GroqClient();
@@ -85,12 +124,16 @@ export function buildApp() {
   const googleAuthService = new GoogleAuthService(googleAuthRepository);
   const googleCalendarService = new GoogleCalendarService(googleAuthService);
 
-  // Reminder Service
-  const reminderService = new ReminderService(reminderRepository, googleCalendarService);
-
   // User Service
   const userService = new UserService(userRepository);
 
+  // Reminder Service
+  const reminderService = new ReminderService(
+    reminderRepository,
+    googleCalendarService,
+    userService
+  );
+
   // Linking Service
   const linkingCodeService = new LinkingCodeService(linkingCodeRepository);
 
@@ -100,15 +143,23 @@ export function buildApp() {
   // Gmail Services
   const gmailAuthService = new GmailAuthService(gmailAuthRepository);
   const gmailService = new GmailService(gmailAuthService);
+  const imapService = new ImapService(imapAccountRepository);
+  // Gmail first: a user with both keeps the OAuth mailbox
+  const mailboxService = new MailboxService([gmailService, imapService]);
   const emailAnalyzerService = new EmailAnalyzerService(groqClient);
   const emailReplyService = new EmailReplyService(groqClient);
 
   // Product Search
   const productSearchService = new ProductSearchService();
 
-  // Dollar / Crypto (no API key required)
+  // Dollar / Crypto / Timezone lookup (no API key required)
   const dollarService = new DollarService();
   const cryptoService = new CryptoService();
+  const timezoneService = new TimezoneService();
+  const exchangeRateService = new ExchangeRateService(exchangeRateRepository, dollarService);
+
+  // Receipt / invoice reading (poppler-utils and tesseract on the host)
+  const documentTextService = new DocumentTextService();
 
   // News (optional — requires NEWS_API_KEY)
   const newsService = env().NEWS_API_KEY ? new NewsService(env().NEWS_API_KEY!) : undefined;
@@ -116,12 +167,13 @@ export function buildApp() {
   // Maps (optional — requires ORS_API_KEY from openrouteservice.org)
   const mapsService = env().ORS_API_KEY ? new MapsService(env().ORS_API_KEY!) : undefined;
 
-  // Expense Services
-  const expenseService = new ExpenseService(expenseRepository);
   const financialAdviceService = new FinancialAdviceService(groqClient);
 
   // Scheduled Payment Services
-  const scheduledPaymentService = new ScheduledPaymentService(scheduledPaymentRepository);
+  const scheduledPaymentService = new ScheduledPaymentService(
+    scheduledPaymentRepository,
+    userService
+  );
 
   // MercadoLibre Services (optional — only if MELI_APP_ID configured)
   const meliAuthService = env().MELI_APP_ID ? new MeliAuthService(meliAuthRepository) : undefined;
@@ -134,35 +186,98 @@ export function buildApp() {
   const sessionService = new SessionService(sessionRepository);
   const qrHandler = new QRHandler();
   const whatsappClient = new WhatsAppClient(sessionService, qrHandler);
+  const conversationStateService = new ConversationStateService(conversationStateRepository);
+
+  // Expense Services (budget alerts need whatsappClient)
+  const budgetService = new BudgetService(
+    budgetRepository,
+    expenseRepository,
+    whatsappClient,
+    userRepository
+  );
+  const expenseAnomalyService = new ExpenseAnomalyService(
+    expenseAnomalyRepository,
+    expenseRepository,
+    whatsappClient,
+    userRepository
+  );
+  const expenseService = new ExpenseService(
+    expenseRepository,
+    budgetService,
+    exchangeRateService,
+    categoryRuleRepository,
+    customCategoryRepository,
+    expenseAnomalyService
+  );
+  const expenseExportService = new ExpenseExportService(expenseRepository);
+  const recurringChargeService = new RecurringChargeService(
+    recurringChargeRepository,
+    expenseRepository,
+    whatsappClient,
+    userRepository,
+    reminderService
+  );
+  const expenseGroupService = new ExpenseGroupService(
+    expenseGroupRepository,
+    userRepository,
+    whatsappClient
+  );
+  const incomeService = new IncomeService(incomeRepository, exchangeRateService);
+  const cashFlowService = new CashFlowService(
+    incomeRepository,
+    expenseRepository,
+    exchangeRateService
+  );
+
+  // Email notification rules
+  const emailRuleService = new EmailRuleService(emailRuleRepository);
 
   // Email Processor (needs whatsappClient)
   const emailProcessorService = new EmailProcessorService(
-    gmailService,
+    mailboxService,
     emailAnalyzerService,
     processedEmailRepository,
     reminderService,
     whatsappClient,
     userService,
-    expenseService
+    expenseService,
+    incomeService,
+    emailRuleService
   );
 
   // Email Sync Service
   const emailSyncService = new EmailSyncService(
     userRepository,
     emailProcessorService,
-    gmailAuthService,
+    mailboxService,
+    subscriptionRepository
+  );
+
+  // Calendar Sync Service (imports Google Calendar events as reminders)
+  const calendarSyncService = new CalendarSyncService(
+    googleAuthRepository,
+    googleCalendarService,
+    reminderRepository,
     subscriptionRepository
   );
 
   // Digest Service
   const digestService = new DigestService(reminderRepository, userRepository, whatsappClient);
+  const emailDigestService = new EmailDigestService(
+    processedEmailRepository,
+    userRepository,
+    whatsappClient
+  );
 
   // Expense Summary Service (depends on whatsappClient, created before messageHandler)
   const expenseSummaryService = new ExpenseSummaryService(
     expenseService,
     expenseRepository,
     financialAdviceService,
-    whatsappClient
+    whatsappClient,
+    userRepository,
+    budgetService,
+    cashFlowService
   );
 
   // Message Handler (connects all services)
@@ -171,12 +286,12 @@ export function buildApp() {
     transcriptionService,
     intentService,
     reminderService,
+    conversationStateService,
     userService,
-    gmailAuthService,
+    mailboxService,
     linkingCodeService,
     subscriptionService,
     emailReplyService,
-    gmailService,
     processedEmailRepository,
     productSearchService,
     meliAuthService,
@@ -189,7 +304,19 @@ export function buildApp() {
     newsService,
     mapsService,
     meliTransferService,
-    scheduledPaymentService
+    scheduledPaymentService,
+    timezoneService,
+    documentTextService,
+    emailProcessorService,
+    budgetService,
+    expenseExportService,
+    recurringChargeService,
+    expenseGroupService,
+    incomeService,
+    cashFlowService,
+    expenseAnomalyService,
+    emailRuleService,
+    emailDigestService
   );
 
   // Scheduler
@@ -198,17 +325,35 @@ export function buildApp() {
     whatsappClient,
     digestService,
     expenseSummaryService,
-    scheduledPaymentService
+    scheduledPaymentService,
+    conversationStateService,
+    meliTransferService,
+    userService,
+    recurringChargeService,
+    emailDigestService
   );
 
   // Commit Service
   const commitService = new CommitService(commitRepository);
 
   // Elysia modules
-  const calendarModule = createCalendarModule(googleAuthService);
-  const emailModule = createEmailModule(gmailAuthService, userService);
-  const linkingModule = createLinkingModule(whatsappClient);
+  const calendarModule = createCalendarModule(googleAuthService, userService);
+  const emailModule = createEmailModule(
+    gmailAuthService,
+    userService,
+    mailboxService,
+    subscriptionService
+  );
+  const imapModule = createImapModule(
+    imapService,
+    userService,
+    mailboxService,
+    subscriptionService
+  );
+  const gmailPushModule = createGmailPushModule(gmailService, env().GMAIL_PUSH_TOKEN);
+  const linkingModule = createLinkingModule(whatsappClient, userService);
   const notificationModule = createNotificationModule(whatsappClient, prisma);
+  const expenseModule = createExpenseModule(expenseExportService, userService);
   const commitModule = createCommitModule(commitService, env().GITHUB_WEBHOOK_SECRET);
   const mercadoLibreModule = meliAuthService
     ? createMercadoLibreModule(meliAuthService, userService)
@@ -230,6 +375,9 @@ export function buildApp() {
     // Start email sync
     emailSyncService.start();
 
+    // Start calendar sync
+    calendarSyncService.start();
+
     logger.info("All services started");
   };
 
@@ -238,6 +386,7 @@ export function buildApp() {
     logger.info("Stopping services...");
     schedulerService.stop();
     emailSyncService.stop();
+    calendarSyncService.stop();
     await whatsappClient.disconnect();
     await prisma.$disconnect();
     logger.info("All services stopped");
@@ -248,8 +397,11 @@ export function buildApp() {
     modules: [
       calendarModule,
       emailModule,
+      imapModule,
+      gmailPushModule,
       linkingModule,
       notificationModule,
+      expenseModule,
       commitModule,
       ...(mercadoLibreModule ? [mercadoLibreModule] : [])
     ],
@@ -1,6 +1,7 @@
+import type { Locale } from "@shared/i18n/i18n";
 import { createLogger } from "@shared/logger/logger";
 
-import { buildReminderIntentPrompt, FUN_REMINDER_SYSTEM_PROMPT } from "./prompts";
+import { buildFunReminderPrompt, buildReminderIntentPrompt } from "./prompts";
 import type { GroqClient } from "../groq/groq.client";
 
 export type RecurrenceType = "NONE" | "DAILY" | "WEEKLY" | "MONTHLY";
@@ -11,9 +12,51 @@ export interface ReminderDetail {
   recurrence: RecurrenceType;
   recurrenceDay: number | null;
   recurrenceTime: string | null;
+  /** RFC 5545 RRULE as written by the LLM (not yet validated) */
+  rrule: string | null;
+  /** Keep re-sending until the user confirms (medication, rent, deadlines...) */
+  insist: boolean;
   funMessage: string | null;
 }
 
+/** Expense typed or dictated in chat; on edits only the changed fields are set */
+export interface ExpenseDetail {
+  amount: number | null;
+  /** ISO 4217 code */
+  currency: string | null;
+  merchant: string | null;
+  category: string | null;
+  date: Date | null;
+  description: string | null;
+  /** One of the user's own category names */
+  customCategory: string | null;
+  tags: string[] | null;
+}
+
+/** Income typed or dictated in chat ("cobré el sueldo") */
+export interface IncomeDetail {
+  amount: number | null;
+  /** ISO 4217 code */
+  currency: string | null;
+  /** Employer, client or person who paid */
+  source: string | null;
+  category: string | null;
+  date: Date | null;
+  description: string | null;
+}
+
+export interface EmailRuleDetail {
+  action: "allow" | "block";
+  sender: string | null;
+  /** Email analyzer types (DELIVERY, SECURITY...) */
+  emailTypes: string[];
+  /** "solo X": silence everything else in the window */
+  only: boolean;
+  /** Local hours of the window, 0-23 */
+  fromHour: number | null;
+  toHour: number | null;
+}
+
 export type IntentType =
   | "create_reminder"
   | "list_tasks"
@@ -40,6 +83,43 @@ export type IntentType =
   | "schedule_payment"
   | "list_scheduled_payments"
   | "cancel_scheduled_payment"
+  | "set_timezone"
+  | "set_language"
+  | "snooze_reminder"
+  | "complete_reminder"
+  | "set_escalation_contact"
+  | "remove_escalation_contact"
+  | "log_expense"
+  | "edit_expense"
+  | "delete_expense"
+  | "recent_expenses"
+  | "set_budget"
+  | "list_budgets"
+  | "delete_budget"
+  | "set_currency"
+  | "export_expenses"
+  | "recategorize_merchant"
+  | "list_recurring_charges"
+  | "remind_recurring_charge"
+  | "create_category"
+  | "delete_category"
+  | "list_categories"
+  | "create_group"
+  | "invite_to_group"
+  | "join_group"
+  | "share_expense"
+  | "group_balance"
+  | "settle_group"
+  | "set_payment_alias"
+  | "log_income"
+  | "cash_flow"
+  | "resolve_expense_alert"
+  | "add_email_rule"
+  | "list_email_rules"
+  | "delete_email_rule"
+  | "enable_email_digest"
+  | "disable_email_digest"
+  | "set_calendar_lead"
   | "unknown";
 
 export interface ParsedIntent {
@@ -52,9 +132,14 @@ export interface ParsedIntent {
   emailReplyInstruction?: string;
   emailSearchQuery?: string;
   emailExtractionQuery?: string;
+  /** Label of the mailbox to use ("trabajo"), for users with several */
+  emailAccount?: string;
   productSearchQuery?: string;
   digestHour?: number;
   expensePeriod?: "day" | "week" | "month";
+  /** check_expenses filters */
+  expenseTag?: string;
+  expenseCustomCategory?: string;
   newsQuery?: string;
   newsCategory?: string;
   coins?: string[];
@@ -73,6 +158,41 @@ export interface ParsedIntent {
   paymentTime?: string;
   paymentTotalCount?: number;
   paymentIndex?: number;
+  timezone?: string;
+  language?: string;
+  escalationPhone?: string;
+  expenseDetails?: ExpenseDetail;
+  /** 1 = most recently recorded expense */
+  expenseIndex?: number;
+  expenseCount?: number;
+  budgetCategory?: string;
+  budgetAmount?: number;
+  budgetCurrency?: string;
+  currency?: string;
+  exportFormat?: "csv" | "xlsx" | "ofx";
+  /** Local days, YYYY-MM-DD (inclusive) */
+  exportFrom?: string;
+  exportTo?: string;
+  chargeMerchant?: string;
+  ruleMerchant?: string;
+  ruleCategory?: string;
+  categoryName?: string;
+  groupName?: string;
+  groupPhone?: string;
+  /** Part of a shared expense the payer keeps, 0-100 */
+  sharePercent?: number;
+  incomeDetails?: IncomeDetail;
+  /** Month of the cash-flow report, YYYY-MM */
+  cashFlowMonth?: string;
+  /** Answer to the latest unusual-expense alert */
+  alertAction?: "dismiss" | "fraud";
+  emailRule?: EmailRuleDetail;
+  /** 1-based, as listed */
+  emailRuleIndex?: number;
+  /** Local hours (0-23) of the email summary */
+  emailDigestHours?: number[];
+  /** Minutes before a Google Calendar event its imported reminder fires */
+  calendarLeadMinutes?: number;
   confidence: number;
 }
 
@@ -83,8 +203,10 @@ interface IntentResponse {
     description: string;
     dateTime: string | null;
     recurrence: RecurrenceType;
-    recurrenceDay: number | null;
+    recurrenceDay?: number | null;
     recurrenceTime: string | null;
+    rrule?: string | null;
+    insist?: boolean;
     funMessage: string | null;
   }> | null;
   newDateTime: string | null;
@@ -92,9 +214,12 @@ interface IntentResponse {
   emailReplyInstruction: string | null;
   emailSearchQuery: string | null;
   emailExtractionQuery: string | null;
+  emailAccount?: string | null;
   productSearchQuery: string | null;
   digestHour: number | null;
   expensePeriod: "day" | "week" | "month" | null;
+  expenseTag?: string | null;
+  expenseCustomCategory?: string | null;
   newsQuery: string | null;
   newsCategory: string | null;
   coins: string[] | null;
@@ -113,18 +238,74 @@ interface IntentResponse {
   paymentTime: string | null;
   paymentTotalCount: number | null;
   paymentIndex: number | null;
+  timezone: string | null;
+  language: string | null;
+  escalationPhone?: string | null;
+  expenseDetails?: {
+    amount?: number | null;
+    currency?: string | null;
+    merchant?: string | null;
+    category?: string | null;
+    date?: string | null;
+    description?: string | null;
+    customCategory?: string | null;
+    tags?: string[] | null;
+  } | null;
+  expenseIndex?: number | null;
+  expenseCount?: number | null;
+  budgetCategory?: string | null;
+  budgetAmount?: number | null;
+  budgetCurrency?: string | null;
+  currency?: string | null;
+  exportFormat?: "csv" | "xlsx" | "ofx" | null;
+  exportFrom?: string | null;
+  exportTo?: string | null;
+  chargeMerchant?: string | null;
+  ruleMerchant?: string | null;
+  ruleCategory?: string | null;
+  categoryName?: string | null;
+  groupName?: string | null;
+  groupPhone?: string | null;
+  sharePercent?: number | null;
+  incomeDetails?: {
+    amount?: number | null;
+    currency?: string | null;
+    source?: string | null;
+    category?: string | null;
+    date?: string | null;
+    description?: string | null;
+  } | null;
+  cashFlowMonth?: string | null;
+  alertAction?: "dismiss" | "fraud" | null;
+  emailRule?: {
+    action?: "allow" | "block" | null;
+    sender?: string | null;
+    emailTypes?: string[] | null;
+    only?: boolean | null;
+    fromHour?: number | null;
+    toHour?: number | null;
+  } | null;
+  emailRuleIndex?: number | null;
+  emailDigestHours?: number[] | null;
+  calendarLeadMinutes?: number | null;
   confidence: number;
 }
 
+/** Uppercased ISO 4217-shaped code, or null for anything Intl would reject ("pesos", "$") */
+function parseCurrencyCode(value: string | null | undefined): string | null {
+  const code = value?.trim().toUpperCase();
+  return code && /^[A-Z]{3}$/.test(code) ? code : null;
+}
+
 export class IntentService {
   private readonly logger = createLogger("intent");
 
   constructor(private readonly groqClient: GroqClient) {}
 
-  async parseIntent(text: string): Promise<ParsedIntent> {
+  async parseIntent(text: string, timezone?: string, locale?: Locale): Promise<ParsedIntent> {
     this.logger.info(`Parsing intent for: "${text.substring(0, 50)}..."`);
 
-    const systemPrompt = buildReminderIntentPrompt();
+    const systemPrompt = buildReminderIntentPrompt(timezone, locale);
 
     try {
       const response = await this.groqClient.chatJSON<IntentResponse>(systemPrompt, text);
@@ -166,6 +347,11 @@ export class IntentService {
         result.emailExtractionQuery = response.emailExtractionQuery;
       }
 
+      // Handle which mailbox the email intent refers to
+      if (response.emailAccount) {
+        result.emailAccount = response.emailAccount;
+      }
+
       // Handle product search query
       if (response.productSearchQuery) {
         result.productSearchQuery = response.productSearchQuery;
@@ -180,6 +366,10 @@ export class IntentService {
       if (response.expensePeriod) {
         result.expensePeriod = response.expensePeriod;
       }
+      if (response.expenseTag) result.expenseTag = response.expenseTag;
+      if (response.expenseCustomCategory) {
+        result.expenseCustomCategory = response.expenseCustomCategory;
+      }
 
       // Handle news fields
       if (response.newsQuery) result.newsQuery = response.newsQuery;
@@ -211,6 +401,113 @@ export class IntentService {
       if (response.paymentTotalCount) result.paymentTotalCount = response.paymentTotalCount;
       if (response.paymentIndex) result.paymentIndex = response.paymentIndex;
 
+      // Handle timezone change
+      if (response.timezone) result.timezone = response.timezone;
+
+      // Handle language change
+      if (response.language) result.language = response.language;
+
+      // Handle escalation contact
+      if (response.escalationPhone) result.escalationPhone = response.escalationPhone;
+
+      // Handle manual expense fields
+      if (response.expenseDetails) {
+        const detail = response.expenseDetails;
+        const date = detail.date ? new Date(detail.date) : null;
+        result.expenseDetails = {
+          amount: typeof detail.amount === "number" ? detail.amount : null,
+          currency: parseCurrencyCode(detail.currency),
+          merchant: detail.merchant || null,
+          category: detail.category || null,
+          date: date && !isNaN(date.getTime()) ? date : null,
+          description: detail.description || null,
+          customCategory: detail.customCategory || null,
+          tags: Array.isArray(detail.tags) && detail.tags.length > 0 ? detail.tags : null
+        };
+      }
+      if (response.expenseIndex) result.expenseIndex = response.expenseIndex;
+      if (response.expenseCount) result.expenseCount = response.expenseCount;
+
+      // Handle budget fields
+      if (response.budgetCategory) result.budgetCategory = response.budgetCategory;
+      if (response.budgetAmount) result.budgetAmount = response.budgetAmount;
+      const budgetCurrency = parseCurrencyCode(response.budgetCurrency);
+      if (budgetCurrency) result.budgetCurrency = budgetCurrency;
+
+      // Handle preferred currency change
+      if (response.currency) result.currency = response.currency;
+
+      // Handle expense export
+      if (response.exportFormat) result.exportFormat = response.exportFormat;
+      if (response.exportFrom) result.exportFrom = response.exportFrom;
+      if (response.exportTo) result.exportTo = response.exportTo;
+
+      // Handle recurring charge reminders
+      if (response.chargeMerchant) result.chargeMerchant = response.chargeMerchant;
+
+      // Handle merchant category rules
+      if (response.ruleMerchant) result.ruleMerchant = response.ruleMerchant;
+      if (response.ruleCategory) result.ruleCategory = response.ruleCategory;
+
+      // Handle custom categories
+      if (response.categoryName) result.categoryName = response.categoryName;
+
+      // Handle shared expense groups
+      if (response.groupName) result.groupName = response.groupName;
+      if (response.groupPhone) result.groupPhone = response.groupPhone;
+      if (typeof response.sharePercent === "number") result.sharePercent = response.sharePercent;
+
+      // Handle income and cash flow
+      if (response.incomeDetails) {
+        const detail = response.incomeDetails;
+        const date = detail.date ? new Date(detail.date) : null;
+        result.incomeDetails = {
+          amount: typeof detail.amount === "number" ? detail.amount : null,
+          currency: parseCurrencyCode(detail.currency),
+          source: detail.source || null,
+          category: detail.category || null,
+          date: date && !isNaN(date.getTime()) ? date : null,
+          description: detail.description || null
+        };
+      }
+      if (response.cashFlowMonth && /^\d{4}-\d{2}$/.test(response.cashFlowMonth)) {
+        result.cashFlowMonth = response.cashFlowMonth;
+      }
+
+      // Handle expense alert answers
+      if (response.alertAction === "dismiss" || response.alertAction === "fraud") {
+        result.alertAction = response.alertAction;
+      }
+
+      // Handle email notification rules
+      if (response.emailRule) {
+        const rule = response.emailRule;
+        result.emailRule = {
+          action: rule.action === "allow" ? "allow" : "block",
+          sender: rule.sender || null,
+          emailTypes: Array.isArray(rule.emailTypes) ? rule.emailTypes : [],
+          only: rule.only === true,
+          fromHour: typeof rule.fromHour === "number" ? rule.fromHour : null,
+          toHour: typeof rule.toHour === "number" ? rule.toHour : null
+        };
+      }
+      if (typeof response.emailRuleIndex === "number") {
+        result.emailRuleIndex = response.emailRuleIndex;
+      }
+
+      // Handle email summary mode
+      if (Array.isArray(response.emailDigestHours)) {
+        const hours = response.emailDigestHours.filter(
+          (hour) => Number.isInteger(hour) && hour >= 0 && hour < 24
+        );
+        if (hours.length > 0) result.emailDigestHours = hours;
+      }
+
+      // Handle calendar reminder lead time
+      if (typeof response.calendarLeadMinutes === "number") {
+        result.calendarLeadMinutes = response.calendarLeadMinutes;
+      }
+
       // Handle reminder details for create (supports multiple reminders)
       if (
         response.intentType === "create_reminder" &&
@@ -237,8 +534,10 @@ export class IntentService {
             description: detail.description,
             dateTime,
             recurrence: detail.recurrence || "NONE",
-            recurrenceDay: detail.recurrenceDay,
+            recurrenceDay: detail.recurrenceDay ?? null,
             recurrenceTime: detail.recurrenceTime,
+            rrule: detail.rrule || null,
+            insist: detail.insist === true,
             funMessage: detail.funMessage || null
           };
         });
@@ -263,11 +562,11 @@ export class IntentService {
     }
   }
 
-  async generateFunReminderMessage(description: string): Promise<string> {
+  async generateFunReminderMessage(description: string, locale?: Locale): Promise<string> {
     this.logger.debug(`Generating fun reminder for: "${description}"`);
 
     const message = await this.groqClient.chat(
-      FUN_REMINDER_SYSTEM_PROMPT,
+      buildFunReminderPrompt(locale),
       `Genera un mensaje de recordatorio para: ${description}`
     );
 
@@ -1,16 +1,30 @@
 import { Elysia } from "elysia";
 
+import type { UserService } from "@modules/email/user/user.service";
 import { createLogger } from "@shared/logger/logger";
 
 import type { GoogleAuthService } from "./google/google-auth.service";
 
 const logger = createLogger("calendar-module");
 
-export function createCalendarModule(authService: GoogleAuthService) {
+export function createCalendarModule(authService: GoogleAuthService, userService: UserService) {
   return new Elysia({ prefix: "/auth/google" })
-    .get("/", () => {
-      const authUrl = authService.getAuthUrl();
-      logger.info("Redirecting to Google OAuth...");
+    .get("/", async ({ query }) => {
+      const userId = query.userId;
+
+      if (!userId || typeof userId !== "string") {
+        return { ok: false, error: "Missing userId parameter" };
+      }
+
+      // Verify user exists
+      const user = await userService.getUserById(userId);
+      if (!user) {
+        return { ok: false, error: "User not found" };
+      }
+
+      const authUrl = authService.getAuthUrl(user.id);
+      logger.info(`Redirecting to Google Calendar OAuth for user: ${user.id}`);
+
       return new Response(null, {
         status: 302,
         headers: { Location: authUrl }
@@ -18,13 +32,18 @@ export function createCalendarModule(authService: GoogleAuthService) {
     })
     .get("/callback", async ({ query }) => {
       const code = query.code;
+      const state = query.state; // userId passed in state parameter
 
       if (!code || typeof code !== "string") {
         return { ok: false, error: "Missing authorization code" };
       }
 
+      if (!state || typeof state !== "string") {
+        return { ok: false, error: "Missing state parameter (userId)" };
+      }
+
       try {
-        await authService.handleCallback(code);
+        await authService.handleCallback(code, state);
         return {
           ok: true,
           message:
@@ -35,14 +54,42 @@ export function createCalendarModule(authService: GoogleAuthService) {
         return { ok: false, error: "Failed to authenticate with Google" };
       }
     })
-    .get("/status", async () => {
-      const isAuthenticated = await authService.isAuthenticated();
+    .get("/status", async ({ query }) => {
+      const chatId = query.chatId;
+
+      if (!chatId || typeof chatId !== "string") {
+        return { ok: false, error: "Missing chatId parameter" };
+      }
+
+      const user = await userService.getUserByChatId(chatId);
+      const isAuthenticated = user ? await authService.isAuthenticated(user.id) : false;
+
       return {
         ok: true,
         authenticated: isAuthenticated,
         message: isAuthenticated
           ? "Google Calendar esta conectado"
-          : "Google Calendar no esta conectado. Visita /auth/google para conectar."
+          : "Google Calendar no esta conectado. Visita /auth/google?userId=... para conectar."
+      };
+    })
+    .delete("/", async ({ query }) => {
+      const chatId = query.chatId;
+
+      if (!chatId || typeof chatId !== "string") {
+        return { ok: false, error: "Missing chatId parameter" };
+      }
+
+      const user = await userService.getUserByChatId(chatId);
+
+      if (!user) {
+        return { ok: false, error: "User not found" };
+      }
+
+      await authService.revokeAccess(user.id);
+
+      return {
+        ok: true,
+        message: "Google Calendar desconectado exitosamente"
       };
     });
 }
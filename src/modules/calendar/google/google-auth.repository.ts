@@ -8,16 +8,25 @@ export interface TokenData {
   tokenType?: string;
 }
 
+export interface CalendarSyncTarget {
+  userId: string;
+  chatId: string;
+  calendarLeadMinutes: number;
+  locale: string;
+  syncToken: string | null;
+  lastFullSyncAt: Date | null;
+}
+
 export class GoogleAuthRepository {
   constructor(private readonly prisma: PrismaClient) {}
 
-  async findToken(): Promise<GoogleAuthToken | null> {
-    return this.prisma.googleAuthToken.findUnique({ where: { id: "default" } });
+  async findByUserId(userId: string): Promise<GoogleAuthToken | null> {
+    return this.prisma.googleAuthToken.findUnique({ where: { userId } });
   }
 
-  async saveToken(data: TokenData): Promise<GoogleAuthToken> {
+  async saveToken(userId: string, data: TokenData): Promise<GoogleAuthToken> {
     return this.prisma.googleAuthToken.upsert({
-      where: { id: "default" },
+      where: { userId },
       update: {
         accessToken: data.accessToken,
         refreshToken: data.refreshToken,
@@ -26,7 +35,7 @@ export class GoogleAuthRepository {
         tokenType: data.tokenType || "Bearer"
       },
       create: {
-        id: "default",
+        userId,
         accessToken: data.accessToken,
         refreshToken: data.refreshToken,
         expiresAt: data.expiresAt,
@@ -36,8 +45,46 @@ export class GoogleAuthRepository {
     });
   }
 
-  async deleteToken(): Promise<void> {
-    await this.prisma.googleAuthToken.delete({ where: { id: "default" } }).catch(() => {
+  /**
+   * Get all connected calendars whose user is linked to a WhatsApp chat
+   */
+  async findAllForSync(): Promise<CalendarSyncTarget[]> {
+    const tokens = await this.prisma.googleAuthToken.findMany({
+      where: { user: { chatId: { not: null } } },
+      select: {
+        userId: true,
+        syncToken: true,
+        lastFullSyncAt: true,
+        user: { select: { chatId: true, calendarLeadMinutes: true, locale: true } }
+      }
+    });
+
+    return tokens.map((t) => ({
+      userId: t.userId,
+      chatId: t.user.chatId!,
+      calendarLeadMinutes: t.user.calendarLeadMinutes,
+      locale: t.user.locale,
+      syncToken: t.syncToken,
+      lastFullSyncAt: t.lastFullSyncAt
+    }));
+  }
+
+  async updateSyncState(
+    userId: string,
+    syncToken: string | null,
+    fullSync: boolean
+  ): Promise<void> {
+    await this.prisma.googleAuthToken.update({
+      where: { userId },
+      data: {
+        syncToken,
+        ...(fullSync && { lastFullSyncAt: new Date() })
+      }
+    });
+  }
+
+  async deleteByUserId(userId: string): Promise<void> {
+    await this.prisma.googleAuthToken.delete({ where: { userId } }).catch(() => {
       // Ignore if not found
     });
   }
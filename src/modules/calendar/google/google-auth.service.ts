@@ -8,37 +8,38 @@ import type { GoogleAuthRepository } from "./google-auth.repository";
 const SCOPES = ["https://www.googleapis.com/auth/calendar"];
 
 export class GoogleAuthService {
-  private oauth2Client: Auth.OAuth2Client;
   private readonly logger = createLogger("google-auth");
 
-  constructor(private readonly repository: GoogleAuthRepository) {
+  constructor(private readonly repository: GoogleAuthRepository) {}
+
+  private createOAuth2Client(): Auth.OAuth2Client {
     const { GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET, GOOGLE_REDIRECT_URI } = env();
 
-    this.oauth2Client = new google.auth.OAuth2(
-      GOOGLE_CLIENT_ID,
-      GOOGLE_CLIENT_SECRET,
-      GOOGLE_REDIRECT_URI
-    );
+    return new google.auth.OAuth2(GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET, GOOGLE_REDIRECT_URI);
   }
 
-  getAuthUrl(): string {
-    return this.oauth2Client.generateAuthUrl({
+  getAuthUrl(userId: string): string {
+    const oauth2Client = this.createOAuth2Client();
+
+    return oauth2Client.generateAuthUrl({
       access_type: "offline",
       scope: SCOPES,
-      prompt: "consent" // Force to get refresh token
+      prompt: "consent", // Force to get refresh token
+      state: userId
     });
   }
 
-  async handleCallback(code: string): Promise<void> {
-    this.logger.info("Handling OAuth callback...");
+  async handleCallback(code: string, userId: string): Promise<void> {
+    this.logger.info(`Handling Google Calendar OAuth callback for user: ${userId}`);
 
-    const { tokens } = await this.oauth2Client.getToken(code);
+    const oauth2Client = this.createOAuth2Client();
+    const { tokens } = await oauth2Client.getToken(code);
 
     if (!tokens.access_token || !tokens.refresh_token) {
       throw new Error("Failed to get tokens from Google");
     }
 
-    await this.repository.saveToken({
+    await this.repository.saveToken(userId, {
       accessToken: tokens.access_token,
       refreshToken: tokens.refresh_token,
       expiresAt: new Date(tokens.expiry_date || Date.now() + 3600000),
@@ -46,20 +47,19 @@ export class GoogleAuthService {
       tokenType: tokens.token_type || "Bearer"
     });
 
-    this.oauth2Client.setCredentials(tokens);
-    this.logger.info("Google OAuth tokens saved successfully");
+    this.logger.info(`Google Calendar OAuth tokens saved for user: ${userId}`);
   }
 
-  async getAuthClient(): Promise<Auth.OAuth2Client> {
-    const token = await this.repository.findToken();
+  async getAuthClient(userId: string): Promise<Auth.OAuth2Client> {
+    const token = await this.repository.findByUserId(userId);
 
     if (!token) {
-      throw new Error(
-        "Google Calendar not authenticated. Please visit /auth/google to authenticate."
-      );
+      throw new Error("Google Calendar not authenticated for this user");
     }
 
-    this.oauth2Client.setCredentials({
+    const oauth2Client = this.createOAuth2Client();
+
+    oauth2Client.setCredentials({
       access_token: token.accessToken,
       refresh_token: token.refreshToken,
       expiry_date: token.expiresAt.getTime(),
@@ -67,36 +67,57 @@ export class GoogleAuthService {
       scope: token.scope
     });
 
-    // Check if token needs refresh
+    // Check if token needs refresh (within 1 minute of expiry)
     if (token.expiresAt.getTime() < Date.now() + 60000) {
-      await this.refreshToken();
+      await this.refreshToken(userId, oauth2Client);
     }
 
-    return this.oauth2Client;
+    return oauth2Client;
   }
 
-  private async refreshToken(): Promise<void> {
-    this.logger.info("Refreshing Google OAuth token...");
+  private async refreshToken(userId: string, oauth2Client: Auth.OAuth2Client): Promise<void> {
+    this.logger.info(`Refreshing Google Calendar OAuth token for user: ${userId}`);
 
-    const { credentials } = await this.oauth2Client.refreshAccessToken();
+    const { credentials } = await oauth2Client.refreshAccessToken();
 
     if (!credentials.access_token) {
       throw new Error("Failed to refresh Google token");
     }
 
-    await this.repository.saveToken({
+    const currentToken = await this.repository.findByUserId(userId);
+
+    await this.repository.saveToken(userId, {
       accessToken: credentials.access_token,
-      refreshToken: credentials.refresh_token || "",
+      refreshToken: credentials.refresh_token || currentToken?.refreshToken || "",
       expiresAt: new Date(credentials.expiry_date || Date.now() + 3600000),
       scope: credentials.scope || SCOPES.join(" "),
       tokenType: credentials.token_type || "Bearer"
     });
 
-    this.logger.info("Google OAuth token refreshed");
+    this.logger.info(`Google Calendar OAuth token refreshed for user: ${userId}`);
   }
 
-  async isAuthenticated(): Promise<boolean> {
-    const token = await this.repository.findToken();
+  async isAuthenticated(userId: string): Promise<boolean> {
+    const token = await this.repository.findByUserId(userId);
     return !!token;
   }
+
+  async revokeAccess(userId: string): Promise<void> {
+    this.logger.info(`Revoking Google Calendar access for user: ${userId}`);
+
+    const token = await this.repository.findByUserId(userId);
+
+    if (token) {
+      try {
+        const oauth2Client = this.createOAuth2Client();
+        await oauth2Client.revokeToken(token.accessToken);
+      } catch (error) {
+        this.logger.warn(`Failed to revoke token on Google side: ${error}`);
+      }
+
+      await this.repository.deleteByUserId(userId);
+    }
+
+    this.logger.info(`Google Calendar access revoked for user: ${userId}`);
+  }
 }
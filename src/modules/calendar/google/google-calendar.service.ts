@@ -1,6 +1,7 @@
 import { google, type calendar_v3 } from "googleapis";
 
 import { createLogger } from "@shared/logger/logger";
+import { DEFAULT_TIMEZONE } from "@shared/timezone/timezone";
 
 import type { GoogleAuthService } from "./google-auth.service";
 
@@ -9,6 +10,27 @@ export interface CreateEventInput {
   description?: string;
   startTime: Date;
   endTime?: Date;
+  timeZone?: string;
+  /** RRULE lines for a recurring event, e.g. ["RRULE:FREQ=WEEKLY;BYDAY=MO"] */
+  recurrence?: string[];
+}
+
+export interface EventChanges {
+  events: calendar_v3.Schema$Event[];
+  nextSyncToken: string | null;
+  fullSync: boolean;
+}
+
+// Private extended property that marks events pushed by the bot itself
+const BOT_EVENT_PROPERTY = "memorialReminder";
+
+export function isBotCreatedEvent(event: calendar_v3.Schema$Event): boolean {
+  return event.extendedProperties?.private?.[BOT_EVENT_PROPERTY] === "true";
+}
+
+/** Google answers 410 Gone when a sync token is too old and a full sync is needed */
+function isSyncTokenExpired(error: unknown): boolean {
+  return (error as { code?: number | string }).code == 410;
 }
 
 export class GoogleCalendarService {
@@ -16,18 +38,23 @@ export class GoogleCalendarService {
 
   constructor(private readonly authService: GoogleAuthService) {}
 
-  private async getCalendar(): Promise<calendar_v3.Calendar> {
-    const auth = await this.authService.getAuthClient();
+  private async getCalendar(userId: string): Promise<calendar_v3.Calendar> {
+    const auth = await this.authService.getAuthClient(userId);
     return google.calendar({ version: "v3", auth });
   }
 
-  async createEvent(input: CreateEventInput): Promise<string> {
-    this.logger.info(`Creating calendar event: ${input.summary}`);
+  async isConnected(userId: string): Promise<boolean> {
+    return this.authService.isAuthenticated(userId);
+  }
 
-    const calendar = await this.getCalendar();
+  async createEvent(userId: string, input: CreateEventInput): Promise<string> {
+    this.logger.info(`Creating calendar event for user ${userId}: ${input.summary}`);
+
+    const calendar = await this.getCalendar(userId);
 
     // Default duration is 30 minutes
     const endTime = input.endTime || new Date(input.startTime.getTime() + 30 * 60 * 1000);
+    const timeZone = input.timeZone ?? DEFAULT_TIMEZONE;
 
     const event = await calendar.events.insert({
       calendarId: "primary",
@@ -36,18 +63,22 @@ export class GoogleCalendarService {
         description: input.description || "Recordatorio creado por Memorial AI Bot",
         start: {
           dateTime: input.startTime.toISOString(),
-          timeZone: "America/Argentina/Buenos_Aires"
+          timeZone
         },
         end: {
           dateTime: endTime.toISOString(),
-          timeZone: "America/Argentina/Buenos_Aires"
+          timeZone
         },
+        recurrence: input.recurrence,
         reminders: {
           useDefault: false,
           overrides: [
             { method: "popup", minutes: 10 },
             { method: "popup", minutes: 0 }
           ]
+        },
+        extendedProperties: {
+          private: { [BOT_EVENT_PROPERTY]: "true" }
         }
       }
     });
@@ -61,10 +92,10 @@ export class GoogleCalendarService {
     return eventId;
   }
 
-  async deleteEvent(eventId: string): Promise<void> {
+  async deleteEvent(userId: string, eventId: string): Promise<void> {
     this.logger.info(`Deleting calendar event: ${eventId}`);
 
-    const calendar = await this.getCalendar();
+    const calendar = await this.getCalendar(userId);
 
     await calendar.events.delete({
       calendarId: "primary",
@@ -75,24 +106,26 @@ export class GoogleCalendarService {
   }
 
   async updateEvent(
+    userId: string,
     eventId: string,
-    updates: { startTime?: Date; endTime?: Date; summary?: string }
+    updates: { startTime?: Date; endTime?: Date; summary?: string; timeZone?: string }
   ): Promise<void> {
     this.logger.info(`Updating calendar event: ${eventId}`);
 
-    const calendar = await this.getCalendar();
+    const calendar = await this.getCalendar(userId);
 
     const requestBody: calendar_v3.Schema$Event = {};
 
     if (updates.startTime) {
       const endTime = updates.endTime || new Date(updates.startTime.getTime() + 30 * 60 * 1000);
+      const timeZone = updates.timeZone ?? DEFAULT_TIMEZONE;
       requestBody.start = {
         dateTime: updates.startTime.toISOString(),
-        timeZone: "America/Argentina/Buenos_Aires"
+        timeZone
       };
       requestBody.end = {
         dateTime: endTime.toISOString(),
-        timeZone: "America/Argentina/Buenos_Aires"
+        timeZone
       };
     }
 
@@ -109,10 +142,10 @@ export class GoogleCalendarService {
     this.logger.info("Calendar event updated");
   }
 
-  async checkAvailability(startTime: Date, endTime: Date): Promise<boolean> {
+  async checkAvailability(userId: string, startTime: Date, endTime: Date): Promise<boolean> {
     this.logger.debug(`Checking availability from ${startTime} to ${endTime}`);
 
-    const calendar = await this.getCalendar();
+    const calendar = await this.getCalendar(userId);
 
     const events = await calendar.events.list({
       calendarId: "primary",
@@ -126,8 +159,11 @@ export class GoogleCalendarService {
     return isFree;
   }
 
-  async getUpcomingEvents(maxResults: number = 10): Promise<calendar_v3.Schema$Event[]> {
-    const calendar = await this.getCalendar();
+  async getUpcomingEvents(
+    userId: string,
+    maxResults: number = 10
+  ): Promise<calendar_v3.Schema$Event[]> {
+    const calendar = await this.getCalendar(userId);
 
     const events = await calendar.events.list({
       calendarId: "primary",
@@ -139,4 +175,48 @@ export class GoogleCalendarService {
 
     return events.data.items || [];
   }
+
+  /**
+   * List events changed since the given sync token. Without a token (or when
+   * Google has expired it) this does a full sync of upcoming events instead.
+   */
+  async listEventChanges(userId: string, syncToken: string | null): Promise<EventChanges> {
+    const calendar = await this.getCalendar(userId);
+
+    const listAll = async (token: string | null) => {
+      const events: calendar_v3.Schema$Event[] = [];
+      let nextSyncToken: string | null = null;
+      let pageToken: string | undefined;
+
+      do {
+        const response = await calendar.events.list({
+          calendarId: "primary",
+          singleEvents: true,
+          maxResults: 250,
+          pageToken,
+          // Incremental syncs always report cancellations; full ones only when asked
+          ...(token
+            ? { syncToken: token }
+            : { timeMin: new Date().toISOString(), showDeleted: true })
+        });
+
+        events.push(...(response.data.items || []));
+        pageToken = response.data.nextPageToken || undefined;
+        nextSyncToken = response.data.nextSyncToken || nextSyncToken;
+      } while (pageToken);
+
+      return { events, nextSyncToken };
+    };
+
+    if (syncToken) {
+      try {
+        return { ...(await listAll(syncToken)), fullSync: false };
+      } catch (error) {
+        if (!isSyncTokenExpired(error)) throw error;
+        this.logger.info(`Sync token expired for user ${userId}, doing a full sync`);
+      }
+    }
+
+    return { ...(await listAll(null)), fullSync: true };
+  }
 }
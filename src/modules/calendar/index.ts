@@ -1,4 +1,9 @@
 export { GoogleAuthService } from "./google/google-auth.service";
-export { GoogleAuthRepository } from "./google/google-auth.repository";
-export { GoogleCalendarService, type CreateEventInput } from "./google/google-calendar.service";
+export { GoogleAuthRepository, type CalendarSyncTarget } from "./google/google-auth.repository";
+export {
+  GoogleCalendarService,
+  isBotCreatedEvent,
+  type CreateEventInput,
+  type EventChanges
+} from "./google/google-calendar.service";
 export { createCalendarModule } from "./calendar.module";
@@ -1,3 +1,4 @@
+import { DEFAULT_LOCALE, getMessages, type Locale } from "@shared/i18n/i18n";
 import { createLogger } from "@shared/logger/logger";
 
 interface CoinGeckoPrice {
@@ -75,20 +76,21 @@ export class CryptoService {
     }
   }
 
-  formatMessage(prices: CoinPrice[]): string {
+  formatMessage(prices: CoinPrice[], locale: Locale = DEFAULT_LOCALE): string {
+    const t = getMessages(locale).crypto;
     const fmtUsd = (n: number) =>
       n.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
     const fmtArs = (n: number) =>
       n.toLocaleString("es-AR", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
 
-    let message = `🪙 *Precios Cripto*\n\n`;
+    let message = `${t.title}\n\n`;
 
     for (const coin of prices) {
       const symbol = COIN_SYMBOLS[coin.id] || "•";
       message += `${symbol} *${coin.name}:* $${fmtUsd(coin.usd)} USD | $${fmtArs(coin.ars)} ARS\n`;
     }
 
-    message += `\n📊 CoinGecko · ahora`;
+    message += `\n${t.footer}`;
     return message;
   }
 }
@@ -0,0 +1,88 @@
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { env } from "@shared/env/env";
+import { createLogger } from "@shared/logger/logger";
+
+// Fewer characters than this in the text layer means a scanned PDF
+const MIN_TEXT_LAYER_CHARS = 40;
+const OCR_MAX_PAGES = 3;
+const COMMAND_TIMEOUT_MS = 60_000;
+
+/**
+ * Extracts text from images and PDFs locally, using poppler-utils
+ * (pdftotext, pdftoppm) and tesseract from the host.
+ */
+export class DocumentTextService {
+  private readonly logger = createLogger("document-text");
+
+  isSupported(mimeType: string): boolean {
+    return mimeType === "application/pdf" || mimeType.startsWith("image/");
+  }
+
+  async extractText(buffer: Buffer, mimeType: string): Promise<string> {
+    this.logger.info(`Extracting text (${buffer.length} bytes, ${mimeType})`);
+
+    const text =
+      mimeType === "application/pdf" ? await this.extractFromPdf(buffer) : await this.ocr(buffer);
+
+    return text.replace(/[ \t]+/g, " ").trim();
+  }
+
+  private async extractFromPdf(buffer: Buffer): Promise<string> {
+    try {
+      const text = await this.run(["pdftotext", "-layout", "-", "-"], buffer);
+      if (text.trim().length >= MIN_TEXT_LAYER_CHARS) return text;
+    } catch (error) {
+      this.logger.warn("pdftotext failed, falling back to OCR", error);
+    }
+
+    // No usable text layer (scanned document): render the first pages and OCR them
+    const dir = await mkdtemp(join(tmpdir(), "memorial-ocr-"));
+    try {
+      await this.run(
+        ["pdftoppm", "-png", "-r", "200", "-l", String(OCR_MAX_PAGES), "-", join(dir, "page")],
+        buffer
+      );
+
+      const pages = (await readdir(dir)).filter((f) => f.endsWith(".png")).sort();
+      const texts: string[] = [];
+      for (const page of pages) {
+        texts.push(await this.run(["tesseract", join(dir, page), "stdout", "-l", this.languages]));
+      }
+      return texts.join("\n");
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  private async ocr(buffer: Buffer): Promise<string> {
+    return this.run(["tesseract", "stdin", "stdout", "-l", this.languages], buffer);
+  }
+
+  private get languages(): string {
+    return env().OCR_LANGUAGES;
+  }
+
+  private async run(command: string[], input?: Buffer): Promise<string> {
+    const proc = Bun.spawn(command, {
+      stdin: input ?? "ignore",
+      stdout: "pipe",
+      stderr: "pipe",
+      timeout: COMMAND_TIMEOUT_MS
+    });
+
+    const [stdout, stderr, exitCode] = await Promise.all([
+      new Response(proc.stdout).text(),
+      new Response(proc.stderr).text(),
+      proc.exited
+    ]);
+
+    if (exitCode !== 0) {
+      throw new Error(`${command[0]} exited with ${exitCode}: ${stderr.trim().slice(0, 200)}`);
+    }
+
+    return stdout;
+  }
+}
@@ -0,0 +1 @@
+export { DocumentTextService } from "./document-text.service";
@@ -1,2 +1,9 @@
 export { DollarService } from "./services/dollar.service";
 export type { DollarRates } from "./services/dollar.service";
+export { ExchangeRateRepository } from "./rates/exchange-rate.repository";
+export {
+  CONVERTIBLE_CURRENCIES,
+  convertAmount,
+  ExchangeRateService,
+  type RateKind
+} from "./rates/exchange-rate.service";
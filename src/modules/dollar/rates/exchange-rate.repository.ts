@@ -0,0 +1,24 @@
+import type { ExchangeRate, PrismaClient } from "@prisma-module/generated/client";
+
+export interface ExchangeRateData {
+  officialUsd: number;
+  blueUsd: number;
+  officialEur: number;
+  blueEur: number;
+}
+
+export class ExchangeRateRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async findByDay(day: string): Promise<ExchangeRate | null> {
+    return this.prisma.exchangeRate.findUnique({ where: { day } });
+  }
+
+  async upsert(day: string, data: ExchangeRateData): Promise<ExchangeRate> {
+    return this.prisma.exchangeRate.upsert({
+      where: { day },
+      create: { day, ...data },
+      update: {}
+    });
+  }
+}
@@ -0,0 +1,86 @@
+import type { ExchangeRate } from "@prisma-module/generated/client";
+import { createLogger } from "@shared/logger/logger";
+import { getZonedParts } from "@shared/timezone/timezone";
+
+import type { ExchangeRateRepository } from "./exchange-rate.repository";
+import type { DollarService } from "../services/dollar.service";
+
+/** Bluelytics quotes are Argentine, so days are counted in Argentina */
+const RATES_TIMEZONE = "America/Argentina/Buenos_Aires";
+
+export type RateKind = "official" | "blue";
+
+/** Currencies that can be converted with the daily rates */
+export const CONVERTIBLE_CURRENCIES = ["ARS", "USD", "EUR"];
+
+/** ARS per unit of `currency` on that day, or null if we have no quote for it */
+function arsPerUnit(currency: string, rate: ExchangeRate, kind: RateKind): number | null {
+  switch (currency.toUpperCase()) {
+    case "ARS":
+      return 1;
+    case "USD":
+      return Number(kind === "official" ? rate.officialUsd : rate.blueUsd);
+    case "EUR":
+      return Number(kind === "official" ? rate.officialEur : rate.blueEur);
+    default:
+      return null;
+  }
+}
+
+/** Convert through ARS using one day's rates; null if either currency has no quote */
+export function convertAmount(
+  amount: number,
+  from: string,
+  to: string,
+  rate: ExchangeRate,
+  kind: RateKind
+): number | null {
+  if (from.toUpperCase() === to.toUpperCase()) return amount;
+
+  const fromArs = arsPerUnit(from, rate, kind);
+  const toArs = arsPerUnit(to, rate, kind);
+  if (!fromArs || !toArs) return null;
+
+  return (amount * fromArs) / toArs;
+}
+
+export class ExchangeRateService {
+  private readonly logger = createLogger("exchange-rates");
+
+  constructor(
+    private readonly exchangeRateRepository: ExchangeRateRepository,
+    private readonly dollarService: DollarService
+  ) {}
+
+  /**
+   * Rates for the Argentine day containing `date`, fetched once and cached.
+   * Returns null when the quote isn't available (API down, day too old).
+   */
+  async getForDate(date: Date): Promise<ExchangeRate | null> {
+    const day = this.dayKey(date);
+
+    const cached = await this.exchangeRateRepository.findByDay(day);
+    if (cached) return cached;
+
+    try {
+      const isToday = day === this.dayKey(new Date());
+      const rates = await this.dollarService.getRates(isToday ? undefined : day);
+
+      this.logger.info(`Caching exchange rates for ${day}`);
+      return await this.exchangeRateRepository.upsert(day, {
+        officialUsd: rates.oficial.sell,
+        blueUsd: rates.blue.sell,
+        officialEur: rates.oficialEuro.sell,
+        blueEur: rates.blueEuro.sell
+      });
+    } catch (error) {
+      this.logger.warn(`No exchange rates for ${day}`, error);
+      return null;
+    }
+  }
+
+  private dayKey(date: Date): string {
+    const { year, month, day } = getZonedParts(date, RATES_TIMEZONE);
+    return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+  }
+}
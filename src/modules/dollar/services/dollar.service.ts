@@ -1,4 +1,6 @@
+import { DEFAULT_LOCALE, getMessages, type Locale, toIntlLocale } from "@shared/i18n/i18n";
 import { createLogger } from "@shared/logger/logger";
+import { DEFAULT_TIMEZONE } from "@shared/timezone/timezone";
 
 interface BluelyticsResponse {
   oficial: { value_buy: number; value_sell: number };
@@ -18,14 +20,16 @@ export interface DollarRates {
 
 export class DollarService {
   private readonly logger = createLogger("dollar");
-  private readonly apiUrl = "https://api.bluelytics.com.ar/v2/latest";
+  private readonly apiUrl = "https://api.bluelytics.com.ar/v2";
 
-  async getRates(): Promise<DollarRates> {
+  /** Latest rates, or the closing rates of a past day ("YYYY-MM-DD") */
+  async getRates(day?: string): Promise<DollarRates> {
     const controller = new AbortController();
     const timeout = setTimeout(() => controller.abort(), 8000);
+    const url = day ? `${this.apiUrl}/historical?day=${day}` : `${this.apiUrl}/latest`;
 
     try {
-      const response = await fetch(this.apiUrl, { signal: controller.signal });
+      const response = await fetch(url, { signal: controller.signal });
       clearTimeout(timeout);
 
       if (!response.ok) {
@@ -48,24 +52,30 @@ export class DollarService {
     }
   }
 
-  formatMessage(rates: DollarRates): string {
+  formatMessage(
+    rates: DollarRates,
+    timezone: string = DEFAULT_TIMEZONE,
+    locale: Locale = DEFAULT_LOCALE
+  ): string {
+    const t = getMessages(locale).dollar;
+    const intlLocale = toIntlLocale(locale);
     const fmt = (n: number) =>
-      n.toLocaleString("es-AR", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+      n.toLocaleString(intlLocale, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
 
     const updateDate = new Date(rates.lastUpdate);
-    const timeStr = updateDate.toLocaleTimeString("es-AR", {
-      timeZone: "America/Argentina/Buenos_Aires",
+    const timeStr = updateDate.toLocaleTimeString(intlLocale, {
+      timeZone: timezone,
       hour: "2-digit",
       minute: "2-digit"
     });
 
     return (
-      `💵 *Cotización del Dólar*\n\n` +
-      `🏦 *Oficial:* $${fmt(rates.oficial.sell)} venta | $${fmt(rates.oficial.buy)} compra\n` +
-      `🔵 *Blue:* $${fmt(rates.blue.sell)} venta | $${fmt(rates.blue.buy)} compra\n` +
-      `💶 *Euro Oficial:* $${fmt(rates.oficialEuro.sell)} venta\n` +
-      `💙 *Euro Blue:* $${fmt(rates.blueEuro.sell)} venta\n\n` +
-      `🕐 Actualizado: ${timeStr} hs`
+      `${t.title}\n\n` +
+      `🏦 *${t.official}:* $${fmt(rates.oficial.sell)} ${t.sell} | $${fmt(rates.oficial.buy)} ${t.buy}\n` +
+      `🔵 *${t.blue}:* $${fmt(rates.blue.sell)} ${t.sell} | $${fmt(rates.blue.buy)} ${t.buy}\n` +
+      `💶 *${t.euroOfficial}:* $${fmt(rates.oficialEuro.sell)} ${t.sell}\n` +
+      `💙 *${t.euroBlue}:* $${fmt(rates.blueEuro.sell)} ${t.sell}\n\n` +
+      t.updated(timeStr)
     );
   }
 }
@@ -1,3 +1,11 @@
+import { DEFAULT_LOCALE, getLanguageName, type Locale } from "@shared/i18n/i18n";
+import {
+  DEFAULT_TIMEZONE,
+  formatUtcOffset,
+  getZonedParts,
+  zonedTimeToUtc
+} from "@shared/timezone/timezone";
+
 export const EMAIL_ANALYSIS_SYSTEM_PROMPT = `Eres un asistente experto que analiza emails para detectar informacion importante, especialmente en el ambito legal/juridico y profesional.
 
 Tu tarea:
@@ -6,7 +14,8 @@ Tu tarea:
 3. Determinar si amerita crear un recordatorio
 
 Fecha y hora actual: {{currentDateTime}}
-Zona horaria: America/Argentina/Buenos_Aires
+Zona horaria: {{timezone}} (usá el offset {{utcOffset}} en todas las fechas ISO 8601; los ejemplos usan -03:00)
+Idioma del usuario: {{language}} (escribí "summary" y "suggestedReminderText" en este idioma, aunque el email esté en otro)
 
 Tipos de email (ordenados por prioridad de deteccion):
 
@@ -55,6 +64,10 @@ PURCHASE: Confirmaciones de compra, recibos, ordenes
 - Palabras clave: compra, orden, pedido, factura, recibo, pago confirmado
 - Ejemplos: "Gracias por tu compra", "Orden #...", "Factura adjunta"
 
+INCOME: Avisos de dinero recibido por el usuario (NO compras ni pagos que hizo)
+- Palabras clave: te transfirieron, recibiste dinero, recibiste una transferencia, acreditacion de sueldo, cobraste
+- Ejemplos: "Te transfirieron $50.000" (Mercado Pago), "Recibiste una transferencia", "Se acreditó tu sueldo"
+
 FLIGHT: Confirmaciones de vuelo, itinerarios, boarding pass
 - Palabras clave: vuelo, aerolinea, boarding, itinerario, reserva de vuelo
 - Ejemplos: "Confirmacion de vuelo", "Tu itinerario", "Boarding pass"
@@ -73,6 +86,7 @@ IMPORTANTE - Reglas de recordatorio:
 - DELIVERY: recordatorio en la fecha estimada de entrega a las 10:00
 - FLIGHT: recordatorio 3 horas antes (internacionales) o 2 horas (nacionales)
 - PURCHASE sin fecha de entrega: no crear recordatorio
+- INCOME: no crear recordatorio
 - LEGAL_INFO: crear recordatorio para revisar al dia siguiente a las 10:00
 - Para newsletters, promociones, spam: type=OTHER, shouldCreateReminder=false
 
@@ -87,7 +101,7 @@ Si un email podria pertenecer a multiples categorias, usa este orden de priorida
 
 Responde UNICAMENTE con JSON valido (sin markdown, sin explicaciones):
 {
-  "type": "PURCHASE" | "DELIVERY" | "APPOINTMENT" | "MEETING" | "FLIGHT" | "LEGAL_HEARING" | "SECURITY" | "DEADLINE" | "COURSE" | "TASK" | "LEGAL_INFO" | "EVENT" | "OTHER",
+  "type": "PURCHASE" | "INCOME" | "DELIVERY" | "APPOINTMENT" | "MEETING" | "FLIGHT" | "LEGAL_HEARING" | "SECURITY" | "DEADLINE" | "COURSE" | "TASK" | "LEGAL_INFO" | "EVENT" | "OTHER",
   "confidence": number (0-1),
   "summary": "string - resumen corto del email (max 100 chars)",
 
@@ -228,10 +242,13 @@ Email de MercadoLibre: "Tu pedido de Auriculares Bluetooth esta en camino. Llega
 Email de promocion: "50% OFF en toda la tienda! Solo por hoy."
 -> {"type": "OTHER", "confidence": 0.90, "summary": "Promocion de tienda", "deliveryInfo": null, "appointmentInfo": null, "meetingInfo": null, "purchaseInfo": null, "flightInfo": null, "legalHearingInfo": null, "securityInfo": null, "deadlineInfo": null, "courseInfo": null, "taskInfo": null, "legalInfoData": null, "eventInfo": null, "shouldCreateReminder": false, "suggestedReminderDateTime": null, "suggestedReminderText": null}`;
 
-export function buildEmailAnalysisPrompt(): string {
+export function buildEmailAnalysisPrompt(
+  timezone: string = DEFAULT_TIMEZONE,
+  locale: Locale = DEFAULT_LOCALE
+): string {
   const now = new Date();
   const currentDateTime = now.toLocaleString("es-AR", {
-    timeZone: "America/Argentina/Buenos_Aires",
+    timeZone: timezone,
     weekday: "long",
     year: "numeric",
     month: "long",
@@ -240,16 +257,21 @@ export function buildEmailAnalysisPrompt(): string {
     minute: "2-digit"
   });
 
-  // Calculate tomorrow at 9 AM and 10 AM for task/legal info reminders
-  const tomorrow = new Date(now);
-  tomorrow.setDate(tomorrow.getDate() + 1);
-  tomorrow.setHours(9, 0, 0, 0);
-  const tomorrowAt9AM = tomorrow.toISOString();
-
-  tomorrow.setHours(10, 0, 0, 0);
-  const tomorrowAt10AM = tomorrow.toISOString();
+  // Calculate tomorrow at 9 AM and 10 AM (user's local time) for task/legal info reminders
+  const { year, month, day } = getZonedParts(now, timezone);
+  const tomorrowAt9AM = zonedTimeToUtc(
+    { year, month, day: day + 1, hour: 9 },
+    timezone
+  ).toISOString();
+  const tomorrowAt10AM = zonedTimeToUtc(
+    { year, month, day: day + 1, hour: 10 },
+    timezone
+  ).toISOString();
 
   return EMAIL_ANALYSIS_SYSTEM_PROMPT.replace("{{currentDateTime}}", currentDateTime)
+    .replace("{{timezone}}", timezone)
+    .replace("{{utcOffset}}", formatUtcOffset(now, timezone))
+    .replace("{{language}}", getLanguageName(locale))
     .replace(/\{\{tomorrowAt9AM\}\}/g, tomorrowAt9AM)
     .replace(/\{\{tomorrowAt10AM\}\}/g, tomorrowAt10AM);
 }
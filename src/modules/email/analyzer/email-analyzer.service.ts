@@ -1,11 +1,13 @@
 import type { GroqClient } from "@modules/ai/groq/groq.client";
+import type { Locale } from "@shared/i18n/i18n";
 import { createLogger } from "@shared/logger/logger";
 
 import { buildEmailAnalysisPrompt } from "./email-analyzer.prompts";
-import type { EmailMessage } from "../gmail/gmail.service";
+import type { EmailMessage } from "../provider/mail-provider";
 
 export type EmailType =
   | "PURCHASE"
+  | "INCOME"
   | "DELIVERY"
   | "APPOINTMENT"
   | "MEETING"
@@ -65,6 +67,17 @@ export interface ExpenseExtraction {
   amount: number | null;
   currency: string | null;
   category: ExpenseCategoryType;
+  /** Purchase day printed on the receipt, YYYY-MM-DD */
+  date?: string | null;
+}
+
+/** Money received, e.g. a Mercado Pago "te transfirieron" notice */
+export interface IncomeExtraction {
+  /** Person or company that sent the money */
+  payer: string | null;
+  amount: number | null;
+  currency: string | null;
+  category: "SALARY" | "FREELANCE" | "TRANSFER" | "INVESTMENT" | "RENTAL" | "REFUND" | "OTHER";
 }
 
 export interface FlightInfo {
@@ -288,7 +301,21 @@ export class EmailAnalyzerService {
 
   constructor(private readonly groqClient: GroqClient) {}
 
-  async extractExpenseData(emailContent: string): Promise<ExpenseExtraction | null> {
+  /**
+   * `categoryRules` are the user's own merchant → category choices, which
+   * take priority over the generic category list below.
+   */
+  async extractExpenseData(
+    emailContent: string,
+    categoryRules: { merchant: string; category: string }[] = []
+  ): Promise<ExpenseExtraction | null> {
+    const rulesSection =
+      categoryRules.length > 0
+        ? `\n\nCategorias elegidas por el usuario (tienen prioridad sobre la lista de arriba):\n${categoryRules
+            .map((r) => `- ${r.merchant}: ${r.category}`)
+            .join("\n")}`
+        : "";
+
     const systemPrompt = `Eres un extractor de datos de compras. Dado el contenido de un email de compra/factura, extrae los datos del gasto.
 
 Responde UNICAMENTE con JSON valido (sin markdown, sin explicaciones):
@@ -296,7 +323,8 @@ Responde UNICAMENTE con JSON valido (sin markdown, sin explicaciones):
   "merchant": "nombre del comercio o tienda, o null si no se puede determinar",
   "amount": 1234.56 o null (numero decimal, sin simbolos de moneda),
   "currency": "ARS" | "USD" | "EUR" | "BRL" | null,
-  "category": "FOOD" | "TRANSPORT" | "SHOPPING" | "UTILITIES" | "ENTERTAINMENT" | "HEALTH" | "EDUCATION" | "TRAVEL" | "SERVICES" | "OTHER"
+  "category": "FOOD" | "TRANSPORT" | "SHOPPING" | "UTILITIES" | "ENTERTAINMENT" | "HEALTH" | "EDUCATION" | "TRAVEL" | "SERVICES" | "OTHER",
+  "date": "YYYY-MM-DD de la compra si figura en el comprobante, o null"
 }
 
 Categorias:
@@ -309,10 +337,10 @@ Categorias:
 - EDUCATION: cursos, libros, plataformas educativas
 - TRAVEL: hoteles, vuelos, airbnb, agencias de viaje
 - SERVICES: suscripciones, software, servicios profesionales
-- OTHER: cualquier otra cosa
+- OTHER: cualquier otra cosa${rulesSection}
 
 Si el monto tiene separador de miles (ej: 1.234,56 o 1,234.56), interpretalo correctamente como numero decimal.
-Si no es un email de compra/pago, responde con: {"merchant": null, "amount": null, "currency": null, "category": "OTHER"}`;
+Si no es un email de compra/pago, responde con: {"merchant": null, "amount": null, "currency": null, "category": "OTHER", "date": null}`;
 
     try {
       const result = await this.groqClient.chatJSON<ExpenseExtraction>(systemPrompt, emailContent);
@@ -326,10 +354,49 @@ Si no es un email de compra/pago, responde con: {"merchant": null, "amount": nul
     }
   }
 
-  async analyzeEmail(email: EmailMessage): Promise<AnalyzedEmail> {
+  async extractIncomeData(emailContent: string): Promise<IncomeExtraction | null> {
+    const systemPrompt = `Eres un extractor de datos de ingresos. Dado el contenido de un email que avisa que el usuario recibio dinero (transferencia, sueldo, cobro), extrae los datos del ingreso.
+
+Responde UNICAMENTE con JSON valido (sin markdown, sin explicaciones):
+{
+  "payer": "nombre de quien envio el dinero, o null si no se puede determinar",
+  "amount": 1234.56 o null (numero decimal, sin simbolos de moneda),
+  "currency": "ARS" | "USD" | "EUR" | "BRL" | null,
+  "category": "SALARY" | "FREELANCE" | "TRANSFER" | "INVESTMENT" | "RENTAL" | "REFUND" | "OTHER"
+}
+
+Categorias:
+- SALARY: sueldo, haberes, acreditacion de sueldo
+- FREELANCE: cobro por un trabajo o factura emitida por el usuario
+- TRANSFER: transferencia de una persona ("te transfirieron", "recibiste dinero")
+- INVESTMENT: rendimientos, plazo fijo, dividendos, intereses
+- RENTAL: cobro de alquiler
+- REFUND: devolucion o reintegro de una compra
+- OTHER: cualquier otro ingreso
+
+Si el monto tiene separador de miles (ej: 1.234,56 o 1,234.56), interpretalo correctamente como numero decimal.
+Si el email no avisa que el usuario recibio dinero, responde con: {"payer": null, "amount": null, "currency": null, "category": "OTHER"}`;
+
+    try {
+      const result = await this.groqClient.chatJSON<IncomeExtraction>(systemPrompt, emailContent);
+      if (result.amount === null) {
+        return null;
+      }
+      return result;
+    } catch (error) {
+      this.logger.error(`Failed to extract income data: ${error}`);
+      return null;
+    }
+  }
+
+  async analyzeEmail(
+    email: EmailMessage,
+    timezone?: string,
+    locale?: Locale
+  ): Promise<AnalyzedEmail> {
     this.logger.info(`Analyzing email: "${email.subject?.substring(0, 50)}..."`);
 
-    const systemPrompt = buildEmailAnalysisPrompt();
+    const systemPrompt = buildEmailAnalysisPrompt(timezone, locale);
 
     // Build the user message with email content
     const userMessage = this.buildEmailContent(email);
@@ -9,6 +9,7 @@ export {
   type FlightInfo,
   type SecurityInfo,
   type ExpenseExtraction,
+  type IncomeExtraction,
   type ExpenseCategoryType
 } from "./email-analyzer.service";
 export { buildEmailAnalysisPrompt } from "./email-analyzer.prompts";
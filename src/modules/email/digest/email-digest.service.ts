@@ -0,0 +1,189 @@
+import type { WhatsAppClient } from "@modules/whatsapp/client/whatsapp.client";
+import type { ProcessedEmail } from "@prisma-module/generated/client";
+import { getMessages, type Locale, resolveLocale } from "@shared/i18n/i18n";
+import { createLogger } from "@shared/logger/logger";
+import { getZonedParts } from "@shared/timezone/timezone";
+
+import type { AnalyzedEmail } from "../analyzer/email-analyzer.service";
+import type { ProcessedEmailRepository } from "../processor/processed-email.repository";
+import type { UserRepository } from "../user/user.repository";
+
+/** Noon and evening, when the user turns the summary on without naming hours */
+export const DEFAULT_EMAIL_DIGEST_HOURS = [12, 20];
+
+const ACTION_PREFIX = "email_digest_";
+// WhatsApp list limits
+const MAX_ROWS = 10;
+const ROW_TITLE_LENGTH = 24;
+const ROW_DESCRIPTION_LENGTH = 72;
+// Appointments and meetings closer than this are notified right away
+const NEAR_TERM_MS = 24 * 60 * 60 * 1000;
+
+const DIGEST_TYPES = ["DELIVERY", "PURCHASE", "COURSE", "EVENT", "LEGAL_INFO"];
+
+const TYPE_ICONS: Record<string, string> = {
+  DELIVERY: "📦",
+  PURCHASE: "🛒",
+  COURSE: "📚",
+  EVENT: "🎯",
+  LEGAL_INFO: "📜",
+  APPOINTMENT: "📅",
+  MEETING: "🗓️"
+};
+
+function typeIcon(type: string): string {
+  return TYPE_ICONS[type] ?? "✉️";
+}
+
+/** Option id for a summary row; carries the processed email id so a tap opens it */
+export function emailDigestActionId(processedEmailId: string): string {
+  return `${ACTION_PREFIX}${processedEmailId}`;
+}
+
+/** Parse an option id built above; null if it isn't a summary row */
+export function parseEmailDigestActionId(id: string): string | null {
+  return id.startsWith(ACTION_PREFIX) ? id.slice(ACTION_PREFIX.length) || null : null;
+}
+
+/** Non-urgent emails, and appointments or meetings that are still more than a day away */
+export function canWaitForDigest(analysis: AnalyzedEmail, now: Date = new Date()): boolean {
+  if (DIGEST_TYPES.includes(analysis.type)) return true;
+
+  const dateTime =
+    analysis.type === "APPOINTMENT"
+      ? analysis.appointmentInfo?.dateTime
+      : analysis.type === "MEETING"
+        ? analysis.meetingInfo?.dateTime
+        : undefined;
+  return !!dateTime && dateTime.getTime() - now.getTime() > NEAR_TERM_MS;
+}
+
+/** "Amazon" from '"Amazon" <envios@amazon.com>' */
+function senderName(sender: string): string {
+  return (
+    sender
+      .replace(/<[^>]*>/g, "")
+      .replace(/"/g, "")
+      .trim() || sender
+  );
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+function summaryOf(email: ProcessedEmail): string | null {
+  const data = email.extractedData;
+  if (!data || typeof data !== "object" || Array.isArray(data)) return null;
+  const summary = (data as Record<string, unknown>).summary;
+  return typeof summary === "string" ? summary : null;
+}
+
+/**
+ * Sends the emails held back for users in summary mode as list messages
+ * at each of their chosen local hours, instead of one message per email.
+ */
+export class EmailDigestService {
+  private readonly logger = createLogger("email-digest");
+  /** Last hour slot each chat got its summary in, so every slot sends once */
+  private readonly sentSlots = new Map<string, string>();
+
+  constructor(
+    private readonly processedEmailRepository: ProcessedEmailRepository,
+    private readonly userRepository: UserRepository,
+    private readonly whatsappClient: WhatsAppClient
+  ) {}
+
+  async sendDueDigests(now: Date = new Date()): Promise<void> {
+    const users = await this.userRepository.findUsersForEmailDigest();
+
+    for (const user of users) {
+      const chatId = user.chatId;
+      if (!chatId) continue;
+
+      const { year, month, day, hour } = getZonedParts(now, user.timezone);
+      if (!user.emailDigestHours.includes(hour)) continue;
+
+      const slot = `${year}-${month}-${day} ${hour}`;
+      if (this.sentSlots.get(chatId) === slot) continue;
+
+      try {
+        await this.sendPending(user.id, chatId, resolveLocale(user.locale));
+        this.sentSlots.set(chatId, slot);
+      } catch (error) {
+        this.logger.error(`Failed to send email summary to ${chatId}`, error);
+      }
+    }
+  }
+
+  /**
+   * Sends everything held for the user now, newest first, one list message per
+   * page of rows. Each page is marked delivered once it's sent.
+   */
+  async sendPending(userId: string, chatId: string, locale: Locale): Promise<number> {
+    const emails = (await this.processedEmailRepository.findDigestPending(userId)).reverse();
+    if (emails.length === 0) return 0;
+
+    const pages: ProcessedEmail[][] = [];
+    for (let i = 0; i < emails.length; i += MAX_ROWS) {
+      pages.push(emails.slice(i, i + MAX_ROWS));
+    }
+
+    for (const [index, page] of pages.entries()) {
+      await this.sendPage(chatId, page, locale, {
+        total: emails.length,
+        page: index + 1,
+        pages: pages.length
+      });
+      await this.processedEmailRepository.clearDigestPending(page.map((e) => e.id));
+    }
+
+    this.logger.info(`Email summary sent to ${chatId} (${emails.length} emails)`);
+    return emails.length;
+  }
+
+  private async sendPage(
+    chatId: string,
+    emails: ProcessedEmail[],
+    locale: Locale,
+    position: { total: number; page: number; pages: number }
+  ): Promise<void> {
+    const t = getMessages(locale).emailDigest;
+
+    const lines = emails.map((email) => {
+      const sender = email.sender ? ` - ${senderName(email.sender)}` : "";
+      return `${typeIcon(email.emailType)} *${email.subject || t.noSubject}*${sender}`;
+    });
+    const heading =
+      position.page === 1 ? t.header(position.total) : t.page(position.page, position.pages);
+    const body = heading + lines.join("\n");
+
+    try {
+      await this.whatsappClient.sendList(
+        chatId,
+        "",
+        body,
+        t.button,
+        [
+          {
+            rows: emails.map((email) => ({
+              id: emailDigestActionId(email.id),
+              title: truncate(
+                `${typeIcon(email.emailType)} ${email.subject || t.noSubject}`,
+                ROW_TITLE_LENGTH
+              ),
+              description: truncate(
+                summaryOf(email) ?? senderName(email.sender ?? ""),
+                ROW_DESCRIPTION_LENGTH
+              )
+            }))
+          }
+        ],
+        t.footer
+      );
+    } catch (error) {
+      this.logger.warn(`Interactive email summary failed for ${chatId}, sending plain text`, error);
+      await this.whatsappClient.sendMessage(chatId, `${body}\n\n_${t.textHint}_`);
+    }
+  }
+}
@@ -0,0 +1,7 @@
+export {
+  DEFAULT_EMAIL_DIGEST_HOURS,
+  EmailDigestService,
+  canWaitForDigest,
+  emailDigestActionId,
+  parseEmailDigestActionId
+} from "./email-digest.service";
@@ -1,13 +1,25 @@
 import { Elysia } from "elysia";
 
+import type { SubscriptionService } from "@modules/subscription/subscription.service";
 import { createLogger } from "@shared/logger/logger";
 
 import type { GmailAuthService } from "./gmail/gmail-auth.service";
+import type { MailboxService } from "./provider/mailbox.service";
 import type { UserService } from "./user/user.service";
 
 const logger = createLogger("email-module");
 
-export function createEmailModule(authService: GmailAuthService, userService: UserService) {
+/**
+ * Gmail OAuth. GET /auth/gmail?userId=...&label=trabajo links another
+ * mailbox under that label; authorizing an address that's already linked
+ * refreshes its tokens instead.
+ */
+export function createEmailModule(
+  authService: GmailAuthService,
+  userService: UserService,
+  mailboxService: MailboxService,
+  subscriptionService?: SubscriptionService
+) {
   return new Elysia({ prefix: "/auth/gmail" })
     .get("/", async ({ query }) => {
       const userId = query.userId;
@@ -22,7 +34,9 @@ export function createEmailModule(authService: GmailAuthService, userService: Us
         return { ok: false, error: "User not found" };
       }
 
-      const authUrl = authService.getAuthUrl(user.id);
+      const includeSend = query.includeSend === "true";
+      const label = typeof query.label === "string" ? query.label : undefined;
+      const authUrl = authService.getAuthUrl(user.id, includeSend, label);
       logger.info(`Redirecting to Gmail OAuth for user: ${user.id}`);
 
       return new Response(null, {
@@ -32,7 +46,7 @@ export function createEmailModule(authService: GmailAuthService, userService: Us
     })
     .get("/callback", async ({ query }) => {
       const code = query.code;
-      const state = query.state; // userId passed in state parameter
+      const state = query.state; // "userId" or "userId:label"
 
       if (!code || typeof code !== "string") {
         return { ok: false, error: "Missing authorization code" };
@@ -43,7 +57,31 @@ export function createEmailModule(authService: GmailAuthService, userService: Us
       }
 
       try {
-        await authService.handleCallback(code, state);
+        const { userId, label } = authService.parseState(state);
+        const user = await userService.getUserById(userId);
+        if (!user) {
+          return { ok: false, error: "User not found" };
+        }
+
+        const grant = await authService.exchangeCode(code);
+        const existing = await authService.findAccountByEmail(user.id, grant.email);
+
+        // New mailboxes count against the plan; re-authorizing one doesn't
+        if (!existing && user.chatId && subscriptionService) {
+          const accounts = await mailboxService.listAccounts(user.id);
+          const access = await subscriptionService.checkCanLinkEmailAccount(
+            user.chatId,
+            accounts.length
+          );
+          if (!access.allowed) {
+            return { ok: false, error: access.message };
+          }
+        }
+
+        const accountLabel =
+          existing?.label ??
+          (await mailboxService.labelForNewAccount(user.id, grant.email ?? "gmail", label));
+        await authService.saveAccount(user.id, accountLabel, grant);
         return {
           ok: true,
           message:
@@ -72,10 +110,12 @@ export function createEmailModule(authService: GmailAuthService, userService: Us
       }
 
       const isAuthenticated = await authService.isAuthenticated(user.id);
+      const accounts = await authService.getAccounts(user.id);
 
       return {
         ok: true,
         authenticated: isAuthenticated,
+        accounts: accounts.map(({ label, email }) => ({ label, email })),
         message: isAuthenticated ? "Gmail esta conectado" : "Gmail no esta conectado"
       };
     })
@@ -92,7 +132,20 @@ export function createEmailModule(authService: GmailAuthService, userService: Us
         return { ok: false, error: "User not found" };
       }
 
-      await authService.revokeAccess(user.id);
+      // Without a label every Gmail account is unlinked
+      const label = typeof query.label === "string" ? query.label : undefined;
+      const accounts = (await mailboxService.listAccounts(user.id)).filter(
+        (account) => account.provider === "gmail"
+      );
+      const match = label ? mailboxService.findByLabel(accounts, label) : null;
+      const targets = label ? (match ? [match] : []) : accounts;
+      if (targets.length === 0) {
+        return { ok: false, error: "Account not found" };
+      }
+
+      for (const account of targets) {
+        await authService.revokeAccess(account.id);
+      }
 
       return {
         ok: true,
@@ -0,0 +1,63 @@
+import { Elysia } from "elysia";
+
+import { createLogger } from "@shared/logger/logger";
+
+import type { GmailService } from "./gmail/gmail.service";
+
+const logger = createLogger("gmail-push-module");
+
+function jsonError(status: number, error: string): Response {
+  return new Response(JSON.stringify({ ok: false, error }), {
+    status,
+    headers: { "Content-Type": "application/json" }
+  });
+}
+
+interface PubSubPushBody {
+  message?: { data?: string; messageId?: string };
+  subscription?: string;
+}
+
+/** Gmail publishes {"emailAddress","historyId"} as the base64 message data */
+function decodeNotification(body: unknown): { emailAddress: string; historyId: string } | null {
+  const data = (body as PubSubPushBody | null)?.message?.data;
+  if (!data) return null;
+
+  try {
+    const parsed = JSON.parse(Buffer.from(data, "base64").toString("utf-8"));
+    if (typeof parsed?.emailAddress !== "string") return null;
+    return { emailAddress: parsed.emailAddress, historyId: String(parsed.historyId ?? "") };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Gmail push notifications, delivered by a Pub/Sub push subscription on
+ * GMAIL_PUBSUB_TOPIC. The subscription's endpoint carries the shared token:
+ * POST /webhook/gmail?token=<GMAIL_PUSH_TOKEN>
+ */
+export function createGmailPushModule(gmailService: GmailService, pushToken?: string) {
+  return new Elysia({ prefix: "/webhook" }).post("/gmail", async ({ body, query }) => {
+    if (!pushToken) {
+      logger.warn("GMAIL_PUSH_TOKEN not configured, rejecting request");
+      return jsonError(503, "Webhook not configured");
+    }
+
+    if (query.token !== pushToken) {
+      return jsonError(401, "Unauthorized");
+    }
+
+    // Malformed messages are acknowledged too, or Pub/Sub would redeliver them forever
+    const notification = decodeNotification(body);
+    if (!notification) {
+      return { ok: true, skipped: true };
+    }
+
+    logger.debug(
+      `Gmail push for ${notification.emailAddress} (historyId ${notification.historyId})`
+    );
+    const notified = await gmailService.handlePush(notification.emailAddress);
+    return { ok: true, notified };
+  });
+}
@@ -11,22 +11,50 @@ export interface EmailTokenData {
 export class GmailAuthRepository {
   constructor(private readonly prisma: PrismaClient) {}
 
-  async findByUserId(userId: string): Promise<EmailToken | null> {
-    return this.prisma.emailToken.findUnique({ where: { userId } });
+  async findById(id: string): Promise<EmailToken | null> {
+    return this.prisma.emailToken.findUnique({ where: { id } });
   }
 
-  async saveToken(userId: string, data: EmailTokenData): Promise<EmailToken> {
-    return this.prisma.emailToken.upsert({
+  async findByUserId(userId: string): Promise<EmailToken[]> {
+    return this.prisma.emailToken.findMany({
       where: { userId },
-      update: {
+      orderBy: { createdAt: "asc" }
+    });
+  }
+
+  async findByUserAndEmail(userId: string, email: string): Promise<EmailToken | null> {
+    return this.prisma.emailToken.findFirst({ where: { userId, email } });
+  }
+
+  /** Several users may have linked the same address */
+  async findByEmail(email: string): Promise<EmailToken[]> {
+    return this.prisma.emailToken.findMany({ where: { email } });
+  }
+
+  async create(
+    userId: string,
+    label: string,
+    email: string | null,
+    data: EmailTokenData
+  ): Promise<EmailToken> {
+    return this.prisma.emailToken.create({
+      data: {
+        userId,
+        label,
+        email,
         accessToken: data.accessToken,
         refreshToken: data.refreshToken,
         expiresAt: data.expiresAt,
         scope: data.scope,
         tokenType: data.tokenType || "Bearer"
-      },
-      create: {
-        userId,
+      }
+    });
+  }
+
+  async saveToken(id: string, data: EmailTokenData): Promise<EmailToken> {
+    return this.prisma.emailToken.update({
+      where: { id },
+      data: {
         accessToken: data.accessToken,
         refreshToken: data.refreshToken,
         expiresAt: data.expiresAt,
@@ -36,22 +64,30 @@ export class GmailAuthRepository {
     });
   }
 
-  async updateHistoryId(userId: string, historyId: string): Promise<EmailToken> {
+  async updateHistoryId(id: string, historyId: string): Promise<EmailToken> {
     return this.prisma.emailToken.update({
-      where: { userId },
+      where: { id },
       data: { historyId, lastSyncAt: new Date() }
     });
   }
 
-  async updateLastSync(userId: string): Promise<void> {
+  /** `email` backfills accounts linked before the address was stored */
+  async updateWatch(id: string, watchExpiresAt: Date | null, email?: string): Promise<void> {
     await this.prisma.emailToken.update({
-      where: { userId },
+      where: { id },
+      data: { watchExpiresAt, ...(email && { email }) }
+    });
+  }
+
+  async updateLastSync(id: string): Promise<void> {
+    await this.prisma.emailToken.update({
+      where: { id },
       data: { lastSyncAt: new Date() }
     });
   }
 
-  async deleteByUserId(userId: string): Promise<void> {
-    await this.prisma.emailToken.delete({ where: { userId } }).catch(() => {
+  async delete(id: string): Promise<void> {
+    await this.prisma.emailToken.delete({ where: { id } }).catch(() => {
       // Ignore if not found
     });
   }
@@ -1,9 +1,10 @@
 import { google, type Auth } from "googleapis";
 
+import type { EmailToken } from "@prisma-module/generated/client";
 import { env } from "@shared/env/env";
 import { createLogger } from "@shared/logger/logger";
 
-import type { GmailAuthRepository } from "./gmail-auth.repository";
+import type { EmailTokenData, GmailAuthRepository } from "./gmail-auth.repository";
 
 const GMAIL_READONLY_SCOPE = "https://www.googleapis.com/auth/gmail.readonly";
 const GMAIL_SEND_SCOPE = "https://www.googleapis.com/auth/gmail.send";
@@ -16,6 +17,12 @@ function getGmailScopes(includeSend: boolean): string[] {
   return scopes;
 }
 
+/** Tokens from a completed OAuth flow, with the address they belong to */
+export interface GmailGrant {
+  email: string | null;
+  token: EmailTokenData;
+}
+
 export class GmailAuthService {
   private readonly logger = createLogger("gmail-auth");
 
@@ -27,20 +34,26 @@ export class GmailAuthService {
     return new google.auth.OAuth2(GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET, GMAIL_REDIRECT_URI);
   }
 
-  getAuthUrl(userId: string, includeSend: boolean = false): string {
+  /** The requested label travels in the OAuth state, after the user id */
+  getAuthUrl(userId: string, includeSend: boolean = false, label?: string): string {
     const oauth2Client = this.createOAuth2Client();
 
     return oauth2Client.generateAuthUrl({
       access_type: "offline",
       scope: getGmailScopes(includeSend),
       prompt: "consent",
-      state: userId 
+      state: label ? `${userId}:${label}` : userId
     });
   }
 
-  async handleCallback(code: string, userId: string): Promise<void> {
-    this.logger.info(`Handling Gmail OAuth callback for user: ${userId}`);
+  parseState(state: string): { userId: string; label?: string } {
+    const separator = state.indexOf(":");
+    if (separator === -1) return { userId: state };
+    return { userId: state.slice(0, separator), label: state.slice(separator + 1) || undefined };
+  }
 
+  /** Exchanges the callback code and reads which address was authorized */
+  async exchangeCode(code: string): Promise<GmailGrant> {
     const oauth2Client = this.createOAuth2Client();
     const { tokens } = await oauth2Client.getToken(code);
 
@@ -48,22 +61,59 @@ export class GmailAuthService {
       throw new Error("Failed to get tokens from Google");
     }
 
-    await this.repository.saveToken(userId, {
-      accessToken: tokens.access_token,
-      refreshToken: tokens.refresh_token,
-      expiresAt: new Date(tokens.expiry_date || Date.now() + 3600000),
-      scope: tokens.scope || getGmailScopes(false).join(" "),
-      tokenType: tokens.token_type || "Bearer"
-    });
+    oauth2Client.setCredentials(tokens);
+    const profile = await google
+      .gmail({ version: "v1", auth: oauth2Client })
+      .users.getProfile({ userId: "me" })
+      .catch((error: unknown) => {
+        this.logger.warn(`Failed to read Gmail address: ${error}`);
+        return null;
+      });
+
+    return {
+      email: profile?.data.emailAddress ?? null,
+      token: {
+        accessToken: tokens.access_token,
+        refreshToken: tokens.refresh_token,
+        expiresAt: new Date(tokens.expiry_date || Date.now() + 3600000),
+        scope: tokens.scope || getGmailScopes(false).join(" "),
+        tokenType: tokens.token_type || "Bearer"
+      }
+    };
+  }
+
+  /** Re-authorizing an address that's already linked refreshes that account */
+  async saveAccount(userId: string, label: string, grant: GmailGrant): Promise<EmailToken> {
+    const existing = await this.findAccountByEmail(userId, grant.email);
+    const account = existing
+      ? await this.repository.saveToken(existing.id, grant.token)
+      : await this.repository.create(userId, label, grant.email, grant.token);
+
+    this.logger.info(`Gmail OAuth tokens saved for user ${userId} (${account.label})`);
+    return account;
+  }
 
-    this.logger.info(`Gmail OAuth tokens saved for user: ${userId}`);
+  async findAccountByEmail(userId: string, email: string | null): Promise<EmailToken | null> {
+    return email ? this.repository.findByUserAndEmail(userId, email) : null;
   }
 
-  async getAuthClient(userId: string): Promise<Auth.OAuth2Client> {
-    const token = await this.repository.findByUserId(userId);
+  async findAccountsByAddress(email: string): Promise<EmailToken[]> {
+    return this.repository.findByEmail(email);
+  }
+
+  async getAccounts(userId: string): Promise<EmailToken[]> {
+    return this.repository.findByUserId(userId);
+  }
+
+  async getAccount(accountId: string): Promise<EmailToken | null> {
+    return this.repository.findById(accountId);
+  }
+
+  async getAuthClient(accountId: string): Promise<Auth.OAuth2Client> {
+    const token = await this.repository.findById(accountId);
 
     if (!token) {
-      throw new Error("Gmail not authenticated for this user");
+      throw new Error("Gmail account not found");
     }
 
     const oauth2Client = this.createOAuth2Client();
@@ -78,14 +128,14 @@ export class GmailAuthService {
 
     // Check if token needs refresh (within 1 minute of expiry)
     if (token.expiresAt.getTime() < Date.now() + 60000) {
-      await this.refreshToken(userId, oauth2Client);
+      await this.refreshToken(token, oauth2Client);
     }
 
     return oauth2Client;
   }
 
-  private async refreshToken(userId: string, oauth2Client: Auth.OAuth2Client): Promise<void> {
-    this.logger.info(`Refreshing Gmail OAuth token for user: ${userId}`);
+  private async refreshToken(token: EmailToken, oauth2Client: Auth.OAuth2Client): Promise<void> {
+    this.logger.info(`Refreshing Gmail OAuth token for account: ${token.id}`);
 
     const { credentials } = await oauth2Client.refreshAccessToken();
 
@@ -93,34 +143,33 @@ export class GmailAuthService {
       throw new Error("Failed to refresh Gmail token");
     }
 
-    const currentToken = await this.repository.findByUserId(userId);
-
-    await this.repository.saveToken(userId, {
+    await this.repository.saveToken(token.id, {
       accessToken: credentials.access_token,
-      refreshToken: credentials.refresh_token || currentToken?.refreshToken || "",
+      refreshToken: credentials.refresh_token || token.refreshToken,
       expiresAt: new Date(credentials.expiry_date || Date.now() + 3600000),
       scope: credentials.scope || getGmailScopes(false).join(" "),
       tokenType: credentials.token_type || "Bearer"
     });
 
-    this.logger.info(`Gmail OAuth token refreshed for user: ${userId}`);
+    this.logger.info(`Gmail OAuth token refreshed for account: ${token.id}`);
   }
 
+  /** Whether the user has at least one Gmail account linked */
   async isAuthenticated(userId: string): Promise<boolean> {
-    const token = await this.repository.findByUserId(userId);
-    return !!token;
+    const tokens = await this.repository.findByUserId(userId);
+    return tokens.length > 0;
   }
 
-  async hasSendScope(userId: string): Promise<boolean> {
-    const token = await this.repository.findByUserId(userId);
+  async hasSendScope(accountId: string): Promise<boolean> {
+    const token = await this.repository.findById(accountId);
     if (!token) return false;
     return token.scope.includes(GMAIL_SEND_SCOPE);
   }
 
-  async revokeAccess(userId: string): Promise<void> {
-    this.logger.info(`Revoking Gmail access for user: ${userId}`);
+  async revokeAccess(accountId: string): Promise<void> {
+    this.logger.info(`Revoking Gmail access for account: ${accountId}`);
 
-    const token = await this.repository.findByUserId(userId);
+    const token = await this.repository.findById(accountId);
 
     if (token) {
       try {
@@ -131,18 +180,22 @@ export class GmailAuthService {
         this.logger.warn(`Failed to revoke token on Google side: ${error}`);
       }
 
-      await this.repository.deleteByUserId(userId);
+      await this.repository.delete(accountId);
     }
 
-    this.logger.info(`Gmail access revoked for user: ${userId}`);
+    this.logger.info(`Gmail access revoked for account: ${accountId}`);
   }
 
-  async getHistoryId(userId: string): Promise<string | null> {
-    const token = await this.repository.findByUserId(userId);
+  async getHistoryId(accountId: string): Promise<string | null> {
+    const token = await this.repository.findById(accountId);
     return token?.historyId || null;
   }
 
-  async updateHistoryId(userId: string, historyId: string): Promise<void> {
-    await this.repository.updateHistoryId(userId, historyId);
+  async updateHistoryId(accountId: string, historyId: string): Promise<void> {
+    await this.repository.updateHistoryId(accountId, historyId);
+  }
+
+  async updateWatch(accountId: string, watchExpiresAt: Date | null, email?: string): Promise<void> {
+    await this.repository.updateWatch(accountId, watchExpiresAt, email);
   }
 }
@@ -1,32 +1,152 @@
 import { google, type gmail_v1 } from "googleapis";
 
+import type { EmailToken } from "@prisma-module/generated/client";
+import { env } from "@shared/env/env";
 import { createLogger } from "@shared/logger/logger";
 
 import type { GmailAuthService } from "./gmail-auth.service";
+import type {
+  EmailMessage,
+  MailAccount,
+  MailProvider,
+  ReplyContent
+} from "../provider/mail-provider";
 
-export interface EmailMessage {
-  id: string;
-  threadId: string;
-  subject: string;
-  from: string;
-  to: string;
-  date: Date;
-  snippet: string;
-  body: string;
-}
+/** Gmail drops watches after 7 days; renew the ones expiring within a day */
+const WATCH_RENEW_MARGIN_MS = 24 * 60 * 60 * 1000;
+
+export class GmailService implements MailProvider {
+  readonly name = "gmail";
 
-export class GmailService {
   private readonly logger = createLogger("gmail");
+  private readonly pubsubTopic = env().GMAIL_PUBSUB_TOPIC;
+  /** historyId each account reaches once the messages last listed are all synced */
+  private readonly pendingSyncs = new Map<string, { historyId: string; messageIds: string[] }>();
+  private readonly listeners = new Map<string, () => void>();
 
   constructor(private readonly authService: GmailAuthService) {}
 
-  private async getGmail(userId: string): Promise<gmail_v1.Gmail> {
-    const auth = await this.authService.getAuthClient(userId);
+  async listAccounts(userId: string): Promise<MailAccount[]> {
+    const tokens = await this.authService.getAccounts(userId);
+    return tokens.map((token) => this.toAccount(token));
+  }
+
+  async getAccount(accountId: string): Promise<MailAccount | null> {
+    const token = await this.authService.getAccount(accountId);
+    return token ? this.toAccount(token) : null;
+  }
+
+  async canSend(accountId: string): Promise<boolean> {
+    return this.authService.hasSendScope(accountId);
+  }
+
+  /**
+   * Advances the stored historyId past the last listing once every message in
+   * it is synced. The cursor can't stop halfway, so a partial sync keeps it
+   * and the next one lists the same messages again.
+   */
+  async markSynced(accountId: string, messageIds: string[]): Promise<void> {
+    const pending = this.pendingSyncs.get(accountId);
+    if (!pending) return;
+
+    this.pendingSyncs.delete(accountId);
+    if (!pending.messageIds.every((id) => messageIds.includes(id))) return;
+
+    await this.authService.updateHistoryId(accountId, pending.historyId);
+  }
+
+  async disconnect(accountId: string): Promise<void> {
+    await this.unwatch(accountId).catch((error) =>
+      this.logger.warn(`Failed to stop Gmail watch for account ${accountId}: ${error}`)
+    );
+    await this.authService.revokeAccess(accountId);
+  }
+
+  /**
+   * With GMAIL_PUBSUB_TOPIC set, has Gmail publish inbox changes to the topic
+   * and calls `onNewMail` when the push for this account arrives
+   * (`handlePush`). Each sync renews the watch before it expires.
+   */
+  async watch(accountId: string, onNewMail: () => void): Promise<void> {
+    if (!this.pubsubTopic) return;
+
+    this.listeners.set(accountId, onNewMail);
+
+    const token = await this.authService.getAccount(accountId);
+    if (!token) return;
+    if (
+      token.watchExpiresAt &&
+      token.watchExpiresAt.getTime() - Date.now() > WATCH_RENEW_MARGIN_MS
+    ) {
+      return;
+    }
+
+    const gmail = await this.getGmail(accountId);
+    const response = await gmail.users.watch({
+      userId: "me",
+      requestBody: {
+        topicName: this.pubsubTopic,
+        labelIds: ["INBOX"],
+        labelFilterBehavior: "include"
+      }
+    });
+
+    // Pushes only carry the address, so accounts linked without one need it now
+    const email = token.email
+      ? undefined
+      : ((await gmail.users.getProfile({ userId: "me" })).data.emailAddress ?? undefined);
+
+    const expiresAt = new Date(Number(response.data.expiration));
+    await this.authService.updateWatch(accountId, expiresAt, email);
+    this.logger.info(
+      `Gmail watch for account ${accountId} renewed until ${expiresAt.toISOString()}`
+    );
+  }
+
+  async unwatch(accountId: string): Promise<void> {
+    this.listeners.delete(accountId);
+
+    const token = await this.authService.getAccount(accountId);
+    if (!token?.watchExpiresAt) return;
+
+    const gmail = await this.getGmail(accountId);
+    await gmail.users.stop({ userId: "me" });
+    await this.authService.updateWatch(accountId, null);
+    this.logger.info(`Gmail watch for account ${accountId} stopped`);
+  }
+
+  /** Gmail keeps publishing; the next start registers the listeners again */
+  async stopWatching(): Promise<void> {
+    this.listeners.clear();
+  }
+
+  /**
+   * Pub/Sub notification that the mailbox at `emailAddress` changed. Wakes
+   * the watched accounts linked to it; returns how many there were.
+   */
+  async handlePush(emailAddress: string): Promise<number> {
+    const tokens = await this.authService.findAccountsByAddress(emailAddress);
+
+    let notified = 0;
+    for (const token of tokens) {
+      const onNewMail = this.listeners.get(token.id);
+      if (onNewMail) {
+        onNewMail();
+        notified++;
+      }
+    }
+
+    this.logger.debug(`Gmail push for ${emailAddress} woke ${notified} account(s)`);
+    return notified;
+  }
+
+  private async getGmail(accountId: string): Promise<gmail_v1.Gmail> {
+    const auth = await this.authService.getAuthClient(accountId);
     return google.gmail({ version: "v1", auth });
   }
 
-  async getCurrentHistoryId(userId: string): Promise<string> {
-    const gmail = await this.getGmail(userId);
+  async getCurrentHistoryId(accountId: string): Promise<string> {
+    const gmail = await this.getGmail(accountId);
 
     const profile = await gmail.users.getProfile({ userId: "me" });
 
@@ -37,10 +157,32 @@ export class GmailService {
     return profile.data.historyId;
   }
 
-  async listNewMessageIds(userId: string, maxResults: number = 10): Promise<string[]> {
-    this.logger.debug(`Listing new message IDs for user: ${userId}`);
+  /**
+   * Inbox messages added since the stored historyId. Without one (first sync,
+   * or Gmail no longer has that far back) it lists the unread inbox instead.
+   */
+  async listNewMessageIds(accountId: string, maxResults: number = 10): Promise<string[]> {
+    this.logger.debug(`Listing new message IDs for account: ${accountId}`);
 
-    const gmail = await this.getGmail(userId);
+    const gmail = await this.getGmail(accountId);
+
+    const startHistoryId = await this.authService.getHistoryId(accountId);
+    if (startHistoryId) {
+      try {
+        const { messageIds, historyId } = await this.listHistory(gmail, startHistoryId, maxResults);
+        this.pendingSyncs.set(accountId, { historyId, messageIds });
+        return messageIds;
+      } catch (error: unknown) {
+        // If historyId is too old, Gmail returns 404
+        if (!(error && typeof error === "object" && "code" in error && error.code === 404)) {
+          throw error;
+        }
+        this.logger.warn(`History ID too old for account ${accountId}, listing unread instead`);
+      }
+    }
+
+    // Taken before listing, so mail arriving meanwhile shows up in the next history
+    const historyId = await this.getCurrentHistoryId(accountId);
 
     const response = await gmail.users.messages.list({
       userId: "me",
@@ -49,13 +191,60 @@ export class GmailService {
       q: "is:unread"
     });
 
-    return (response.data.messages || []).map((m) => m.id).filter((id): id is string => !!id);
+    const messageIds = (response.data.messages || [])
+      .map((m) => m.id)
+      .filter((id): id is string => !!id);
+    this.pendingSyncs.set(accountId, { historyId, messageIds });
+    return messageIds;
   }
 
-  async getNewMessages(userId: string, maxResults: number = 10): Promise<EmailMessage[]> {
-    this.logger.debug(`Fetching new messages for user: ${userId}`);
+  /**
+   * Message ids from the history after `startHistoryId`, and the historyId to
+   * resume from. Stops at a record boundary when `maxResults` is reached, so
+   * the rest comes in the next sync.
+   */
+  private async listHistory(
+    gmail: gmail_v1.Gmail,
+    startHistoryId: string,
+    maxResults: number
+  ): Promise<{ messageIds: string[]; historyId: string }> {
+    const messageIds: string[] = [];
+    let resumeFrom = startHistoryId;
+    let pageToken: string | undefined;
+
+    do {
+      const response = await gmail.users.history.list({
+        userId: "me",
+        startHistoryId,
+        historyTypes: ["messageAdded"],
+        labelId: "INBOX",
+        pageToken
+      });
+
+      for (const record of response.data.history || []) {
+        const added = (record.messagesAdded || [])
+          .map((m) => m.message?.id)
+          .filter((id): id is string => !!id && !messageIds.includes(id));
+
+        if (messageIds.length > 0 && messageIds.length + added.length > maxResults) {
+          return { messageIds, historyId: resumeFrom };
+        }
+
+        messageIds.push(...added);
+        if (record.id) resumeFrom = record.id;
+      }
+
+      pageToken = response.data.nextPageToken ?? undefined;
+      if (!pageToken && response.data.historyId) resumeFrom = response.data.historyId;
+    } while (pageToken);
 
-    const gmail = await this.getGmail(userId);
+    return { messageIds, historyId: resumeFrom };
+  }
+
+  async getNewMessages(accountId: string, maxResults: number = 10): Promise<EmailMessage[]> {
+    this.logger.debug(`Fetching new messages for account: ${accountId}`);
+
+    const gmail = await this.getGmail(accountId);
 
     // Get recent unread messages from inbox
     const response = await gmail.users.messages.list({
@@ -77,7 +266,7 @@ export class GmailService {
       if (!id) continue;
 
       try {
-        const message = await this.getMessage(userId, id);
+        const message = await this.getMessage(accountId, id);
         messages.push(message);
       } catch (error) {
         this.logger.warn(`Failed to fetch message ${id}: ${error}`);
@@ -88,13 +277,13 @@ export class GmailService {
   }
 
   async searchMessages(
-    userId: string,
+    accountId: string,
     query: string,
     maxResults: number = 5
   ): Promise<EmailMessage[]> {
-    this.logger.debug(`Searching messages for user ${userId}: "${query}"`);
+    this.logger.debug(`Searching messages for account ${accountId}: "${query}"`);
 
-    const gmail = await this.getGmail(userId);
+    const gmail = await this.getGmail(accountId);
 
     const response = await gmail.users.messages.list({
       userId: "me",
@@ -114,7 +303,7 @@ export class GmailService {
       if (!id) continue;
 
       try {
-        const message = await this.getMessage(userId, id);
+        const message = await this.getMessage(accountId, id);
         messages.push(message);
       } catch (error) {
         this.logger.warn(`Failed to fetch message ${id}: ${error}`);
@@ -124,8 +313,8 @@ export class GmailService {
     return messages;
   }
 
-  async getMessage(userId: string, messageId: string): Promise<EmailMessage> {
-    const gmail = await this.getGmail(userId);
+  async getMessage(accountId: string, messageId: string): Promise<EmailMessage> {
+    const gmail = await this.getGmail(accountId);
 
     const response = await gmail.users.messages.get({
       userId: "me",
@@ -156,12 +345,12 @@ export class GmailService {
   }
 
   async getMessagesSinceHistoryId(
-    userId: string,
+    accountId: string,
     startHistoryId: string
   ): Promise<{ messages: EmailMessage[]; newHistoryId: string }> {
     this.logger.debug(`Fetching messages since historyId: ${startHistoryId}`);
 
-    const gmail = await this.getGmail(userId);
+    const gmail = await this.getGmail(accountId);
 
     try {
       const response = await gmail.users.history.list({
@@ -189,7 +378,7 @@ export class GmailService {
 
       for (const id of messageIds) {
         try {
-          const message = await this.getMessage(userId, id);
+          const message = await this.getMessage(accountId, id);
           messages.push(message);
         } catch (error) {
           this.logger.warn(`Failed to fetch message ${id}: ${error}`);
@@ -202,8 +391,8 @@ export class GmailService {
       // In this case, fall back to getting recent messages
       if (error && typeof error === "object" && "code" in error && error.code === 404) {
         this.logger.warn("History ID too old, fetching recent messages instead");
-        const messages = await this.getNewMessages(userId, 5);
-        const newHistoryId = await this.getCurrentHistoryId(userId);
+        const messages = await this.getNewMessages(accountId, 5);
+        const newHistoryId = await this.getCurrentHistoryId(accountId);
         return { messages, newHistoryId };
       }
       throw error;
@@ -211,14 +400,14 @@ export class GmailService {
   }
 
   async sendReply(
-    userId: string,
+    accountId: string,
     originalMessageId: string,
     threadId: string,
-    replyContent: { to: string; subject: string; body: string }
+    replyContent: ReplyContent
   ): Promise<string> {
-    this.logger.info(`Sending reply for user ${userId} to thread ${threadId}`);
+    this.logger.info(`Sending reply for account ${accountId} to thread ${threadId}`);
 
-    const gmail = await this.getGmail(userId);
+    const gmail = await this.getGmail(accountId);
 
     // Build RFC 2822 formatted email
     const messageParts = [
@@ -251,6 +440,17 @@ export class GmailService {
     return sentId;
   }
 
+  private toAccount(token: EmailToken): MailAccount {
+    return {
+      id: token.id,
+      userId: token.userId,
+      provider: "gmail",
+      label: token.label,
+      email: token.email,
+      createdAt: token.createdAt
+    };
+  }
+
   private extractBody(payload: gmail_v1.Schema$MessagePart | undefined): string {
     if (!payload) return "";
 
@@ -1,3 +1,3 @@
 export { GmailAuthRepository, type EmailTokenData } from "./gmail-auth.repository";
 export { GmailAuthService } from "./gmail-auth.service";
-export { GmailService, type EmailMessage } from "./gmail.service";
+export { GmailService } from "./gmail.service";
@@ -0,0 +1,104 @@
+import { Elysia } from "elysia";
+
+import type { SubscriptionService } from "@modules/subscription/subscription.service";
+import { isSecretEncryptionConfigured } from "@shared/crypto/secret";
+import { env } from "@shared/env/env";
+import { createLogger } from "@shared/logger/logger";
+
+import { resolveServerSettings } from "./imap/imap-presets";
+import type { ImapService } from "./imap/imap.service";
+import type { MailboxService } from "./provider/mailbox.service";
+import type { UserService } from "./user/user.service";
+
+const logger = createLogger("imap-module");
+
+function jsonError(status: number, error: string): Response {
+  return new Response(JSON.stringify({ ok: false, error }), {
+    status,
+    headers: { "Content-Type": "application/json" }
+  });
+}
+
+interface ConnectImapBody {
+  userId?: string;
+  email?: string;
+  password?: string;
+  /** Name for the mailbox ("trabajo"); defaults to "personal", then the address */
+  label?: string;
+  username?: string;
+  imapHost?: string;
+  imapPort?: number;
+  smtpHost?: string;
+  smtpPort?: number;
+}
+
+/**
+ * IMAP/SMTP mailboxes for providers without the Gmail API. Credentials come
+ * from the website (website → bot, authenticated with WEBHOOK_SECRET).
+ * POST /auth/imap { userId, email, password, label?, username?, imapHost?, imapPort?, smtpHost?, smtpPort? }
+ */
+export function createImapModule(
+  imapService: ImapService,
+  userService: UserService,
+  mailboxService: MailboxService,
+  subscriptionService?: SubscriptionService
+) {
+  const { WEBHOOK_SECRET } = env();
+
+  return new Elysia({ prefix: "/auth/imap" }).post("/", async ({ body, headers }) => {
+    if (headers["x-webhook-secret"] !== WEBHOOK_SECRET) {
+      return jsonError(401, "Unauthorized");
+    }
+
+    if (!isSecretEncryptionConfigured()) {
+      return jsonError(503, "IMAP is not configured (IMAP_ENCRYPTION_KEY missing)");
+    }
+
+    const { userId, email, password, label, username, ...servers } = (body ??
+      {}) as ConnectImapBody;
+    if (!userId || !email || !password) {
+      return jsonError(400, "Missing userId, email or password");
+    }
+
+    const user = await userService.getUserById(userId);
+    if (!user) {
+      return jsonError(404, "User not found");
+    }
+
+    // Known providers only need the address; corporate domains need their servers
+    const settings = resolveServerSettings(email, servers);
+    if (!settings) {
+      return jsonError(400, "Unknown mail provider, imapHost and smtpHost are required");
+    }
+
+    const existing = await imapService.findAccountByEmail(user.id, email);
+
+    // New mailboxes count against the plan; updating credentials doesn't
+    if (!existing && user.chatId && subscriptionService) {
+      const accounts = await mailboxService.listAccounts(user.id);
+      const access = await subscriptionService.checkCanLinkEmailAccount(
+        user.chatId,
+        accounts.length
+      );
+      if (!access.allowed) {
+        return jsonError(403, access.message);
+      }
+    }
+
+    const accountLabel =
+      existing?.label ?? (await mailboxService.labelForNewAccount(user.id, email, label));
+
+    try {
+      await imapService.connect(user.id, accountLabel, {
+        email,
+        username: username || email,
+        password,
+        ...settings
+      });
+      return { ok: true, message: "Email conectado exitosamente" };
+    } catch (error) {
+      logger.error(`IMAP connection failed for user ${user.id}`, error);
+      return jsonError(400, "Could not log in to the mail servers, check the credentials");
+    }
+  });
+}
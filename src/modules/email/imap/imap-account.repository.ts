@@ -0,0 +1,56 @@
+import type { ImapAccount, PrismaClient } from "@prisma-module/generated/client";
+
+export interface ImapAccountData {
+  email: string;
+  username: string;
+  /** Encrypted with encryptSecret, never the plain password */
+  password: string;
+  imapHost: string;
+  imapPort: number;
+  smtpHost: string;
+  smtpPort: number;
+}
+
+export class ImapAccountRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async findById(id: string): Promise<ImapAccount | null> {
+    return this.prisma.imapAccount.findUnique({ where: { id } });
+  }
+
+  async findByUserId(userId: string): Promise<ImapAccount[]> {
+    return this.prisma.imapAccount.findMany({
+      where: { userId },
+      orderBy: { createdAt: "asc" }
+    });
+  }
+
+  async findByUserAndEmail(userId: string, email: string): Promise<ImapAccount | null> {
+    return this.prisma.imapAccount.findFirst({ where: { userId, email } });
+  }
+
+  async create(userId: string, label: string, data: ImapAccountData): Promise<ImapAccount> {
+    return this.prisma.imapAccount.create({ data: { userId, label, ...data } });
+  }
+
+  /** New credentials may point to another server, so the sync state starts over */
+  async updateCredentials(id: string, data: ImapAccountData): Promise<ImapAccount> {
+    return this.prisma.imapAccount.update({
+      where: { id },
+      data: { ...data, uidValidity: null, lastUid: null, lastSyncAt: null }
+    });
+  }
+
+  async updateSyncState(id: string, uidValidity: string, lastUid: number): Promise<void> {
+    await this.prisma.imapAccount.update({
+      where: { id },
+      data: { uidValidity, lastUid, lastSyncAt: new Date() }
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.prisma.imapAccount.delete({ where: { id } }).catch(() => {
+      // Ignore if not found
+    });
+  }
+}
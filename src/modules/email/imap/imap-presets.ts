@@ -0,0 +1,84 @@
+/**
+ * Server settings for common providers, so most users only need their
+ * address and an app password.
+ */
+
+export interface MailServerSettings {
+  imapHost: string;
+  imapPort: number;
+  smtpHost: string;
+  smtpPort: number;
+}
+
+const MICROSOFT: MailServerSettings = {
+  imapHost: "outlook.office365.com",
+  imapPort: 993,
+  smtpHost: "smtp.office365.com",
+  smtpPort: 587
+};
+
+const YAHOO: MailServerSettings = {
+  imapHost: "imap.mail.yahoo.com",
+  imapPort: 993,
+  smtpHost: "smtp.mail.yahoo.com",
+  smtpPort: 465
+};
+
+const ICLOUD: MailServerSettings = {
+  imapHost: "imap.mail.me.com",
+  imapPort: 993,
+  smtpHost: "smtp.mail.me.com",
+  smtpPort: 587
+};
+
+const PRESETS: Record<string, MailServerSettings> = {
+  "outlook.com": MICROSOFT,
+  "hotmail.com": MICROSOFT,
+  "hotmail.com.ar": MICROSOFT,
+  "live.com": MICROSOFT,
+  "msn.com": MICROSOFT,
+  "yahoo.com": YAHOO,
+  "yahoo.com.ar": YAHOO,
+  "ymail.com": YAHOO,
+  "icloud.com": ICLOUD,
+  "me.com": ICLOUD,
+  "mac.com": ICLOUD,
+  "aol.com": {
+    imapHost: "imap.aol.com",
+    imapPort: 993,
+    smtpHost: "smtp.aol.com",
+    smtpPort: 465
+  },
+  "zoho.com": {
+    imapHost: "imap.zoho.com",
+    imapPort: 993,
+    smtpHost: "smtp.zoho.com",
+    smtpPort: 465
+  }
+};
+
+const DEFAULT_IMAP_PORT = 993;
+const DEFAULT_SMTP_PORT = 465;
+
+/**
+ * Settings for `email`, with explicit values taking precedence over the
+ * provider preset. Null when the servers are unknown (corporate domains).
+ */
+export function resolveServerSettings(
+  email: string,
+  overrides: Partial<MailServerSettings> = {}
+): MailServerSettings | null {
+  const domain = email.split("@")[1]?.toLowerCase() ?? "";
+  const preset = PRESETS[domain];
+
+  const imapHost = overrides.imapHost ?? preset?.imapHost;
+  const smtpHost = overrides.smtpHost ?? preset?.smtpHost;
+  if (!imapHost || !smtpHost) return null;
+
+  return {
+    imapHost,
+    imapPort: overrides.imapPort ?? preset?.imapPort ?? DEFAULT_IMAP_PORT,
+    smtpHost,
+    smtpPort: overrides.smtpPort ?? preset?.smtpPort ?? DEFAULT_SMTP_PORT
+  };
+}
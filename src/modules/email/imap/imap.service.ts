@@ -0,0 +1,367 @@
+import { ImapFlow, type MailboxObject, type SearchObject } from "imapflow";
+import { simpleParser, type AddressObject } from "mailparser";
+import { createTransport } from "nodemailer";
+
+import type { ImapAccount } from "@prisma-module/generated/client";
+import { decryptSecret, encryptSecret } from "@shared/crypto/secret";
+import { createLogger } from "@shared/logger/logger";
+
+import type { ImapAccountData, ImapAccountRepository } from "./imap-account.repository";
+import type {
+  EmailMessage,
+  MailAccount,
+  MailProvider,
+  ReplyContent
+} from "../provider/mail-provider";
+
+const INBOX = "INBOX";
+const SNIPPET_LENGTH = 200;
+
+/**
+ * Generic mailbox over IMAP (reading, IDLE) and SMTP (replies), for
+ * providers without the Gmail API. Message ids are "<uidValidity>:<uid>"
+ * of the inbox, so they stay valid until the server renumbers it.
+ */
+export class ImapService implements MailProvider {
+  readonly name = "imap";
+
+  private readonly logger = createLogger("imap");
+  private readonly watchers = new Map<string, ImapFlow>();
+
+  constructor(private readonly repository: ImapAccountRepository) {}
+
+  /**
+   * Checks the login on both servers before storing the account. Connecting
+   * an address that's already linked updates its credentials. `data.password`
+   * is the plain password; only its encrypted form is kept.
+   */
+  async connect(userId: string, label: string, data: ImapAccountData): Promise<ImapAccount> {
+    const credentials = { ...data, password: encryptSecret(data.password) };
+
+    const client = this.createClient(credentials);
+    await client.connect();
+    await client.logout();
+
+    await this.createTransport(credentials).verify();
+
+    const existing = await this.repository.findByUserAndEmail(userId, data.email);
+    if (existing) {
+      await this.unwatch(existing.id);
+    }
+    const account = existing
+      ? await this.repository.updateCredentials(existing.id, credentials)
+      : await this.repository.create(userId, label, credentials);
+
+    this.logger.info(
+      `IMAP account ${data.imapHost} connected for user ${userId} (${account.label})`
+    );
+    return account;
+  }
+
+  async findAccountByEmail(userId: string, email: string): Promise<ImapAccount | null> {
+    return this.repository.findByUserAndEmail(userId, email);
+  }
+
+  async listAccounts(userId: string): Promise<MailAccount[]> {
+    const accounts = await this.repository.findByUserId(userId);
+    return accounts.map((account) => this.toAccount(account));
+  }
+
+  async getAccount(accountId: string): Promise<MailAccount | null> {
+    const account = await this.repository.findById(accountId);
+    return account ? this.toAccount(account) : null;
+  }
+
+  async canSend(accountId: string): Promise<boolean> {
+    return !!(await this.repository.findById(accountId));
+  }
+
+  /**
+   * Inbox UIDs above the last synced one, oldest first. The first sync (or
+   * one after the server renumbered the inbox) starts from the unread mail.
+   */
+  async listNewMessageIds(accountId: string, maxResults: number = 10): Promise<string[]> {
+    const account = await this.repository.findById(accountId);
+    if (!account) return [];
+
+    return this.withInbox(account, async (client, mailbox) => {
+      const uidValidity = mailbox.uidValidity.toString();
+      const lastUid = account.uidValidity === uidValidity ? account.lastUid : null;
+
+      let uids: number[];
+      if (lastUid === null) {
+        this.logger.info(
+          `Starting IMAP sync of account ${accountId} at UID ${mailbox.uidNext - 1}`
+        );
+        await this.repository.updateSyncState(accountId, uidValidity, mailbox.uidNext - 1);
+        uids = ((await client.search({ seen: false }, { uid: true })) || []).slice(-maxResults);
+      } else {
+        // "n:*" always includes the newest message, even when it's below n
+        const found = (await client.search({ uid: `${lastUid + 1}:*` }, { uid: true })) || [];
+        uids = found.filter((uid) => uid > lastUid).slice(0, maxResults);
+      }
+
+      return uids.map((uid) => `${uidValidity}:${uid}`);
+    });
+  }
+
+  async markSynced(accountId: string, messageIds: string[]): Promise<void> {
+    const account = await this.repository.findById(accountId);
+    if (!account?.uidValidity) return;
+
+    const uids = messageIds
+      .map((id) => this.parseId(id))
+      .filter((ref) => ref?.uidValidity === account.uidValidity)
+      .map((ref) => ref?.uid ?? 0);
+
+    const lastUid = Math.max(account.lastUid ?? 0, ...uids);
+    await this.repository.updateSyncState(accountId, account.uidValidity, lastUid);
+  }
+
+  async getMessage(accountId: string, messageId: string): Promise<EmailMessage> {
+    const account = await this.requireAccount(accountId);
+    const ref = this.parseId(messageId);
+    if (!ref) {
+      throw new Error(`Invalid IMAP message id: ${messageId}`);
+    }
+
+    return this.withInbox(account, async (client, mailbox) => {
+      if (mailbox.uidValidity.toString() !== ref.uidValidity) {
+        throw new Error(`Message ${messageId} is gone (inbox UIDVALIDITY changed)`);
+      }
+
+      const message = await this.fetchMessage(client, ref.uidValidity, ref.uid);
+      if (!message) {
+        throw new Error(`Message ${messageId} not found`);
+      }
+      return message;
+    });
+  }
+
+  async searchMessages(
+    accountId: string,
+    query: string,
+    maxResults: number = 5
+  ): Promise<EmailMessage[]> {
+    this.logger.debug(`Searching messages for account ${accountId}: "${query}"`);
+
+    const account = await this.requireAccount(accountId);
+
+    return this.withInbox(account, async (client, mailbox) => {
+      const uidValidity = mailbox.uidValidity.toString();
+      const uids = ((await client.search(this.toSearch(query), { uid: true })) || [])
+        // Newest first, like Gmail results
+        .slice(-maxResults)
+        .reverse();
+
+      const messages: EmailMessage[] = [];
+      for (const uid of uids) {
+        try {
+          const message = await this.fetchMessage(client, uidValidity, uid);
+          if (message) messages.push(message);
+        } catch (error) {
+          this.logger.warn(`Failed to fetch message ${uid}: ${error}`);
+        }
+      }
+      return messages;
+    });
+  }
+
+  /** Sends over SMTP, threaded under the original with In-Reply-To/References */
+  async sendReply(
+    accountId: string,
+    originalMessageId: string,
+    threadId: string,
+    replyContent: ReplyContent
+  ): Promise<string> {
+    this.logger.info(`Sending reply for account ${accountId} to thread ${threadId}`);
+
+    const account = await this.requireAccount(accountId);
+    const original = await this.getMessage(accountId, originalMessageId);
+    const references = [...(original.references ?? [])];
+    if (original.messageId && !references.includes(original.messageId)) {
+      references.push(original.messageId);
+    }
+
+    const info = await this.createTransport(account).sendMail({
+      from: account.email,
+      to: replyContent.to,
+      subject: replyContent.subject,
+      text: replyContent.body,
+      inReplyTo: original.messageId,
+      references
+    });
+
+    this.logger.info(`Reply sent successfully: ${info.messageId}`);
+    return info.messageId;
+  }
+
+  async disconnect(accountId: string): Promise<void> {
+    this.logger.info(`Removing IMAP account: ${accountId}`);
+    await this.unwatch(accountId);
+    await this.repository.delete(accountId);
+  }
+
+  /**
+   * Keeps a connection IDLE on the inbox and calls `onNewMail` when messages
+   * arrive. A dropped connection is picked up again on the next call.
+   */
+  async watch(accountId: string, onNewMail: () => void): Promise<void> {
+    if (this.watchers.has(accountId)) return;
+
+    const account = await this.repository.findById(accountId);
+    if (!account) return;
+
+    const client = this.createClient(account);
+    client.on("exists", (event) => {
+      if (event.count > event.prevCount) onNewMail();
+    });
+    client.on("error", (error) => {
+      this.logger.warn(`IMAP watch error for account ${accountId}: ${error.message}`);
+    });
+    client.on("close", () => {
+      if (this.watchers.get(accountId) === client) this.watchers.delete(accountId);
+    });
+
+    this.watchers.set(accountId, client);
+    try {
+      await client.connect();
+      // With the inbox selected and no commands pending, imapflow issues IDLE
+      await client.mailboxOpen(INBOX, { readOnly: true });
+      this.logger.debug(`Watching inbox of account ${accountId}`);
+    } catch (error) {
+      this.watchers.delete(accountId);
+      client.close();
+      throw error;
+    }
+  }
+
+  async unwatch(accountId: string): Promise<void> {
+    const client = this.watchers.get(accountId);
+    if (!client) return;
+
+    this.watchers.delete(accountId);
+    await client.logout().catch(() => client.close());
+  }
+
+  async stopWatching(): Promise<void> {
+    await Promise.all([...this.watchers.keys()].map((accountId) => this.unwatch(accountId)));
+  }
+
+  private async requireAccount(accountId: string): Promise<ImapAccountData> {
+    const account = await this.repository.findById(accountId);
+    if (!account) {
+      throw new Error(`IMAP account ${accountId} not found`);
+    }
+    return account;
+  }
+
+  private toAccount(account: ImapAccount): MailAccount {
+    return {
+      id: account.id,
+      userId: account.userId,
+      provider: "imap",
+      label: account.label,
+      email: account.email,
+      createdAt: account.createdAt
+    };
+  }
+
+  /** Short-lived connection with the inbox open read-only, so nothing is marked as seen */
+  private async withInbox<T>(
+    account: ImapAccountData,
+    fn: (client: ImapFlow, mailbox: MailboxObject) => Promise<T>
+  ): Promise<T> {
+    const client = this.createClient(account);
+    await client.connect();
+
+    try {
+      const mailbox = await client.mailboxOpen(INBOX, { readOnly: true });
+      return await fn(client, mailbox);
+    } finally {
+      await client.logout().catch(() => client.close());
+    }
+  }
+
+  private async fetchMessage(
+    client: ImapFlow,
+    uidValidity: string,
+    uid: number
+  ): Promise<EmailMessage | null> {
+    const fetched = await client.fetchOne(
+      String(uid),
+      { source: true, internalDate: true },
+      { uid: true }
+    );
+    if (!fetched || !fetched.source) return null;
+
+    const parsed = await simpleParser(fetched.source);
+    const body = parsed.text?.trim() ?? "";
+    const references =
+      typeof parsed.references === "string" ? [parsed.references] : (parsed.references ?? []);
+    const id = `${uidValidity}:${uid}`;
+
+    return {
+      id,
+      // IMAP has no threads: the first message of the conversation stands in for one
+      threadId: references[0] ?? parsed.inReplyTo ?? parsed.messageId ?? id,
+      subject: parsed.subject ?? "",
+      from: parsed.from?.text ?? "",
+      to: this.addressText(parsed.to),
+      date: parsed.date ?? new Date(fetched.internalDate ?? Date.now()),
+      snippet: body.replace(/\s+/g, " ").slice(0, SNIPPET_LENGTH),
+      body,
+      messageId: parsed.messageId,
+      references
+    };
+  }
+
+  /** Supports the Gmail-style "from:" and "subject:" operators the intent parser produces */
+  private toSearch(query: string): SearchObject {
+    const search: SearchObject = {};
+    const text = query
+      .replace(/\b(from|subject):("[^"]*"|\S+)/gi, (_, key: string, value: string) => {
+        const term = value.replace(/"/g, "");
+        if (key.toLowerCase() === "from") search.from = term;
+        else search.subject = term;
+        return "";
+      })
+      .replace(/\s+/g, " ")
+      .trim();
+
+    if (text) search.text = text;
+    return search;
+  }
+
+  private parseId(messageId: string): { uidValidity: string; uid: number } | null {
+    const match = /^(\d+):(\d+)$/.exec(messageId);
+    return match ? { uidValidity: match[1], uid: Number(match[2]) } : null;
+  }
+
+  private addressText(address: AddressObject | AddressObject[] | undefined): string {
+    if (!address) return "";
+    return Array.isArray(address) ? address.map((a) => a.text).join(", ") : address.text;
+  }
+
+  /** The stored password is decrypted here and nowhere else */
+  private createClient(account: ImapAccountData): ImapFlow {
+    return new ImapFlow({
+      host: account.imapHost,
+      port: account.imapPort,
+      secure: account.imapPort === 993,
+      auth: { user: account.username, pass: decryptSecret(account.password) },
+      logger: false
+    });
+  }
+
+  /** Implicit TLS on 465, STARTTLS otherwise */
+  private createTransport(account: ImapAccountData) {
+    return createTransport({
+      host: account.smtpHost,
+      port: account.smtpPort,
+      secure: account.smtpPort === 465,
+      requireTLS: account.smtpPort !== 465,
+      auth: { user: account.username, pass: decryptSecret(account.password) }
+    });
+  }
+}
@@ -0,0 +1,3 @@
+export { ImapAccountRepository, type ImapAccountData } from "./imap-account.repository";
+export { resolveServerSettings, type MailServerSettings } from "./imap-presets";
+export { ImapService } from "./imap.service";
@@ -1,8 +1,48 @@
 // User
 export { UserRepository, UserService } from "./user";
 
+// Mail providers
+export {
+  DEFAULT_ACCOUNT_LABEL,
+  MailboxService,
+  type EmailMessage,
+  type MailAccount,
+  type MailProvider,
+  type MailProviderName,
+  type ReplyContent
+} from "./provider";
+
 // Gmail
-export { GmailAuthRepository, GmailAuthService, GmailService, type EmailMessage } from "./gmail";
+export { GmailAuthRepository, GmailAuthService, GmailService } from "./gmail";
+
+// IMAP/SMTP
+export {
+  ImapAccountRepository,
+  ImapService,
+  resolveServerSettings,
+  type ImapAccountData,
+  type MailServerSettings
+} from "./imap";
+
+// Notification rules
+export {
+  EMAIL_RULE_TYPES,
+  EmailRuleRepository,
+  EmailRuleService,
+  parseEmailRuleType,
+  type EmailRuleData,
+  type EmailRuleDecision,
+  type EmailRuleInput
+} from "./rules";
+
+// Summary mode
+export {
+  DEFAULT_EMAIL_DIGEST_HOURS,
+  EmailDigestService,
+  canWaitForDigest,
+  emailDigestActionId,
+  parseEmailDigestActionId
+} from "./digest";
 
 // Analyzer
 export {
@@ -26,5 +66,7 @@ export { EmailSyncService } from "./sync";
 // Reply
 export { EmailReplyService, type OriginalEmail } from "./reply";
 
-// Module
+// Modules
 export { createEmailModule } from "./email.module";
+export { createGmailPushModule } from "./gmail-push.module";
+export { createImapModule } from "./imap.module";
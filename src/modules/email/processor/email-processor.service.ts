@@ -1,8 +1,11 @@
 import type { ExpenseService } from "@modules/expenses/expense.service";
+import type { IncomeService } from "@modules/expenses/income/income.service";
 import type { ReminderService } from "@modules/reminders/reminder.service";
 import type { WhatsAppClient } from "@modules/whatsapp/client/whatsapp.client";
-import type { ProcessedEmail, EmailType } from "@prisma-module/generated/client";
+import type { Expense, Income, ProcessedEmail, EmailType } from "@prisma-module/generated/client";
+import { getMessages, type Locale, toIntlLocale } from "@shared/i18n/i18n";
 import { createLogger } from "@shared/logger/logger";
+import { zonedTimeToUtc } from "@shared/timezone/timezone";
 
 function isUniqueConstraintError(error: unknown): boolean {
   return (
@@ -13,40 +16,74 @@ function isUniqueConstraintError(error: unknown): boolean {
   );
 }
 
+// Syncs an email is retried in before the cursor moves past it
+const MAX_PROCESS_ATTEMPTS = 3;
+
+/**
+ * Midday of the receipt's local purchase day, so the expense lands on that
+ * day in every report. Null if missing, malformed or in the future.
+ */
+function parseReceiptDate(
+  value: string | null | undefined,
+  timezone: string,
+  now: Date
+): Date | null {
+  const match = value ? /^(\d{4})-(\d{2})-(\d{2})$/.exec(value) : null;
+  if (!match) return null;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  const date = zonedTimeToUtc({ year, month, day, hour: 12 }, timezone);
+  return date <= now ? date : null;
+}
+
+// Missing a hearing or a legal deadline is costly: keep insisting until confirmed
+function shouldInsist(type: string): boolean {
+  return type === "LEGAL_HEARING" || type === "DEADLINE";
+}
+
 import type { ProcessedEmailRepository } from "./processed-email.repository";
 import type { EmailAnalyzerService, AnalyzedEmail } from "../analyzer/email-analyzer.service";
-import type { GmailService, EmailMessage } from "../gmail/gmail.service";
+import { canWaitForDigest } from "../digest/email-digest.service";
+import type { EmailMessage, MailAccount } from "../provider/mail-provider";
+import type { MailboxService } from "../provider/mailbox.service";
+import type { EmailRuleService } from "../rules/email-rule.service";
 import type { UserService } from "../user/user.service";
 
 export class EmailProcessorService {
   private readonly logger = createLogger("email-processor");
+  /** Failed attempts per "<accountId>:<messageId>" still being retried */
+  private readonly failedAttempts = new Map<string, number>();
 
   constructor(
-    private readonly gmailService: GmailService,
+    private readonly mailboxService: MailboxService,
     private readonly emailAnalyzerService: EmailAnalyzerService,
     private readonly processedEmailRepository: ProcessedEmailRepository,
     private readonly reminderService: ReminderService,
     private readonly whatsappClient: WhatsAppClient,
     private readonly userService: UserService,
-    private readonly expenseService?: ExpenseService
+    private readonly expenseService?: ExpenseService,
+    private readonly incomeService?: IncomeService,
+    private readonly emailRuleService?: EmailRuleService
   ) {}
 
   async processEmail(
     userId: string,
     chatId: string,
-    email: EmailMessage
+    email: EmailMessage,
+    accountId?: string
   ): Promise<ProcessedEmail | null> {
     this.logger.info(`Processing email ${email.id} for user ${userId}`);
 
     // Check if already processed
-    const exists = await this.processedEmailRepository.existsByGmailId(userId, email.id);
+    const exists = await this.processedEmailRepository.existsByGmailId(userId, email.id, accountId);
     if (exists) {
       this.logger.debug(`Email ${email.id} already processed, skipping`);
       return null;
     }
 
     try {
-      return await this.processEmailInner(userId, chatId, email);
+      return await this.processEmailInner(userId, chatId, email, accountId);
     } catch (error) {
       // Handle race condition: another sync cycle processed this email while we were waiting
       if (isUniqueConstraintError(error)) {
@@ -60,13 +97,21 @@ export class EmailProcessorService {
   private async processEmailInner(
     userId: string,
     chatId: string,
-    email: EmailMessage
+    email: EmailMessage,
+    accountId?: string
   ): Promise<ProcessedEmail | null> {
-    // Pre-filter obvious non-actionable emails to save AI calls
-    if (this.shouldSkipEmail(email)) {
+    const { locale, timezone } = await this.userService.getPreferences(chatId);
+    const rules = this.emailRuleService
+      ? await this.emailRuleService.getActiveRules(userId, timezone)
+      : [];
+
+    // Pre-filter obvious non-actionable emails and the user's blocked ones to save AI calls
+    const early = this.emailRuleService?.decideBeforeAnalysis(rules, email.from) ?? null;
+    if (early === "BLOCK" || (early !== "ALLOW" && this.shouldSkipEmail(email))) {
       this.logger.debug(`Email ${email.id} pre-filtered as non-actionable, skipping AI analysis`);
       return this.processedEmailRepository.create({
         userId,
+        accountId,
         gmailMessageId: email.id,
         threadId: email.threadId,
         subject: email.subject,
@@ -77,17 +122,24 @@ export class EmailProcessorService {
       });
     }
 
-    // Analyze the email with AI
-    const analysis = await this.emailAnalyzerService.analyzeEmail(email);
+    // Analyze the email with AI, resolving relative dates in the user's timezone
+    const analysis = await this.emailAnalyzerService.analyzeEmail(email, timezone, locale);
 
     this.logger.info(`Email classified as ${analysis.type} with confidence ${analysis.confidence}`);
 
-    // Skip if it's OTHER type or low confidence
-    if (analysis.type === "OTHER" || analysis.confidence < 0.7) {
+    const decision = this.emailRuleService?.decide(rules, email.from, analysis.type) ?? null;
+    const muted = decision === "BLOCK";
+    if (decision) {
+      this.logger.debug(`Email ${email.id} matched a user rule: ${decision}`);
+    }
+
+    // Skip if it's OTHER type or low confidence, unless the user asked to always hear about it
+    if (decision !== "ALLOW" && (analysis.type === "OTHER" || analysis.confidence < 0.7)) {
       this.logger.debug(`Email ${email.id} is type OTHER or low confidence, skipping reminder`);
 
       return this.processedEmailRepository.create({
         userId,
+        accountId,
         gmailMessageId: email.id,
         threadId: email.threadId,
         subject: email.subject,
@@ -99,29 +151,35 @@ export class EmailProcessorService {
       });
     }
 
+    // In summary mode, non-urgent emails wait for the user's next summary
+    const batched = !muted && canWaitForDigest(analysis) && (await this.inDigestMode(userId));
+
     // Create reminder if suggested
     let reminderId: string | undefined;
+    let notified = false;
 
-    if (analysis.shouldCreateReminder && analysis.suggestedReminderDateTime) {
+    if (!muted && analysis.shouldCreateReminder && analysis.suggestedReminderDateTime) {
       try {
         const reminder = await this.reminderService.createReminder({
           originalText: `[Email] ${email.subject}`,
           reminderText: analysis.suggestedReminderText || analysis.summary,
           scheduledAt: analysis.suggestedReminderDateTime,
-          chatId
+          chatId,
+          insist: shouldInsist(analysis.type),
+          timezone
         });
 
         reminderId = reminder.id;
         this.logger.info(`Created reminder ${reminderId} from email ${email.id}`);
 
         // Notify user about the new reminder
-        await this.notifyUser(chatId, analysis);
+        if (!batched) notified = await this.notifyUser(chatId, analysis, timezone, locale);
       } catch (error) {
         this.logger.error(`Failed to create reminder for email ${email.id}: ${error}`);
       }
-    } else if (analysis.type === "SECURITY") {
+    } else if (!muted && analysis.type === "SECURITY") {
       // Security alerts are always notified even without reminders
-      await this.notifyUser(chatId, analysis);
+      notified = await this.notifyUser(chatId, analysis, timezone, locale);
     }
 
     // For PURCHASE emails, extract structured expense data
@@ -129,18 +187,33 @@ export class EmailProcessorService {
     if (analysis.type === "PURCHASE" && this.expenseService) {
       try {
         const emailContent = this.buildEmailContentString(email);
-        const expenseData = await this.emailAnalyzerService.extractExpenseData(emailContent);
+        const expenseData = await this.emailAnalyzerService.extractExpenseData(
+          emailContent,
+          await this.expenseService.getCategoryRules(userId)
+        );
         if (expenseData) {
           extractedData = { ...extractedData, expenseData };
         }
       } catch (error) {
         this.logger.error(`Failed to extract expense data for email ${email.id}`, error);
       }
+    } else if (analysis.type === "INCOME" && this.incomeService) {
+      try {
+        const incomeData = await this.emailAnalyzerService.extractIncomeData(
+          this.buildEmailContentString(email)
+        );
+        if (incomeData) {
+          extractedData = { ...extractedData, incomeData };
+        }
+      } catch (error) {
+        this.logger.error(`Failed to extract income data for email ${email.id}`, error);
+      }
     }
 
     // Save processed email
     const processedEmail = await this.processedEmailRepository.create({
       userId,
+      accountId,
       gmailMessageId: email.id,
       threadId: email.threadId,
       subject: email.subject,
@@ -149,7 +222,8 @@ export class EmailProcessorService {
       emailType: analysis.type as EmailType,
       extractedData,
       reminderId,
-      status: reminderId ? "REMINDER_CREATED" : "PROCESSED"
+      status: reminderId ? "REMINDER_CREATED" : "PROCESSED",
+      digestPending: batched
     });
 
     // Create expense record for PURCHASE emails
@@ -159,25 +233,124 @@ export class EmailProcessorService {
       });
     }
 
+    // Create income record for money received ("te transfirieron")
+    if (analysis.type === "INCOME" && this.incomeService) {
+      const income = await this.incomeService
+        .createFromEmail(processedEmail)
+        .catch((error: unknown) => {
+          this.logger.error(`Failed to create income from email ${email.id}`, error);
+          return null;
+        });
+      if (income && !muted) {
+        await this.notifyIncome(chatId, income, locale);
+        notified = true;
+      }
+    }
+
+    if (decision === "ALLOW" && !notified && !batched) {
+      await this.notifyAllowed(chatId, email, analysis, locale);
+    }
+
     return processedEmail;
   }
 
-  async processNewEmailsForUser(userId: string, chatId: string): Promise<ProcessedEmail[]> {
-    this.logger.info(`Processing new emails for user ${userId}`);
+  /**
+   * Run text read from a document the user sent (receipt photo, PDF invoice or
+   * ticket) through the same pipeline as emails: dated items become a reminder
+   * and purchases an expense. Returns false if nothing actionable was found.
+   */
+  async processDocument(
+    chatId: string,
+    document: { title: string; text: string }
+  ): Promise<boolean> {
+    const { locale, timezone } = await this.userService.getPreferences(chatId);
+    const now = new Date();
+
+    const analysis = await this.emailAnalyzerService.analyzeEmail(
+      {
+        id: "",
+        threadId: "",
+        subject: document.title,
+        from: "WhatsApp",
+        to: "",
+        date: now,
+        snippet: "",
+        body: document.text
+      },
+      timezone,
+      locale
+    );
+
+    this.logger.info(
+      `Document classified as ${analysis.type} with confidence ${analysis.confidence}`
+    );
+
+    let handled = false;
+
+    if (
+      analysis.confidence >= 0.7 &&
+      analysis.shouldCreateReminder &&
+      analysis.suggestedReminderDateTime &&
+      analysis.suggestedReminderDateTime > now
+    ) {
+      const reminder = await this.reminderService.createReminder({
+        originalText: `[Documento] ${document.title}`,
+        reminderText: analysis.suggestedReminderText || analysis.summary,
+        scheduledAt: analysis.suggestedReminderDateTime,
+        chatId,
+        insist: shouldInsist(analysis.type),
+        timezone
+      });
+
+      this.logger.info(`Created reminder ${reminder.id} from document`);
+      await this.notifyUser(chatId, analysis, timezone, locale, true);
+      handled = true;
+    }
+
+    // Receipts are often classified as OTHER, so try extracting an expense from those too
+    if (this.expenseService && (analysis.type === "PURCHASE" || analysis.type === "OTHER")) {
+      const user = await this.userService.getOrCreateUser(chatId);
+      const expenseData = await this.emailAnalyzerService.extractExpenseData(
+        `Archivo: ${document.title}\n\n${document.text.substring(0, 3000)}`,
+        await this.expenseService.getCategoryRules(user.id)
+      );
+
+      if (expenseData) {
+        const expense = await this.expenseService.createFromExtraction(
+          user.id,
+          expenseData,
+          parseReceiptDate(expenseData.date, timezone, now) ?? now,
+          document.title
+        );
+
+        if (expense) {
+          await this.notifyExpense(chatId, expense, locale);
+          handled = true;
+        }
+      }
+    }
+
+    return handled;
+  }
+
+  async processNewEmails(account: MailAccount, chatId: string): Promise<ProcessedEmail[]> {
+    const { userId } = account;
+    this.logger.info(`Processing new emails for user ${userId} (${account.label})`);
 
     try {
       // Step 1: Get only message IDs (lightweight, no body fetching)
-      const messageIds = await this.gmailService.listNewMessageIds(userId, 10);
+      const messageIds = await this.mailboxService.listNewMessageIds(account.id, 10);
 
       if (messageIds.length === 0) {
-        this.logger.info(`No new emails for user ${userId}`);
+        this.logger.info(`No new emails for user ${userId} (${account.label})`);
         return [];
       }
 
       // Step 2: Batch-check which are already processed
       const alreadyProcessed = await this.processedEmailRepository.existsByGmailIds(
         userId,
-        messageIds
+        messageIds,
+        account.id
       );
 
       const newIds = messageIds.filter((id) => !alreadyProcessed.has(id));
@@ -187,24 +360,46 @@ export class EmailProcessorService {
       );
 
       if (newIds.length === 0) {
+        await this.mailboxService.markSynced(account.id, messageIds);
         return [];
       }
 
       // Step 3: Fetch full content and process only truly new emails
       const processed: ProcessedEmail[] = [];
+      const handled = new Set(alreadyProcessed);
 
       for (const id of newIds) {
+        const attemptKey = `${account.id}:${id}`;
         try {
-          const email = await this.gmailService.getMessage(userId, id);
-          const result = await this.processEmail(userId, chatId, email);
+          const email = await this.mailboxService.getMessage(account.id, id);
+          const result = await this.processEmail(userId, chatId, email, account.id);
           if (result) {
             processed.push(result);
           }
+          handled.add(id);
+          this.failedAttempts.delete(attemptKey);
         } catch (error) {
-          this.logger.error(`Failed to process email ${id}: ${error}`);
+          const attempts = (this.failedAttempts.get(attemptKey) ?? 0) + 1;
+          this.logger.error(`Failed to process email ${id} (attempt ${attempts}): ${error}`);
+
+          // Don't let one broken email hold the cursor back forever
+          if (attempts >= MAX_PROCESS_ATTEMPTS) {
+            this.logger.warn(`Giving up on email ${id} after ${attempts} attempts`);
+            this.failedAttempts.delete(attemptKey);
+            handled.add(id);
+          } else {
+            this.failedAttempts.set(attemptKey, attempts);
+          }
         }
       }
 
+      // Stop the cursor at the first email that failed, so the next sync retries it
+      const firstFailed = messageIds.findIndex((id) => !handled.has(id));
+      await this.mailboxService.markSynced(
+        account.id,
+        firstFailed === -1 ? messageIds : messageIds.slice(0, firstFailed)
+      );
+
       return processed;
     } catch (error) {
       this.logger.error(`Failed to fetch emails for user ${userId}: ${error}`);
@@ -212,112 +407,153 @@ export class EmailProcessorService {
     }
   }
 
-  private async notifyUser(chatId: string, analysis: AnalyzedEmail): Promise<void> {
+  private async notifyExpense(chatId: string, expense: Expense, locale: Locale): Promise<void> {
+    const t = getMessages(locale);
+    const amount = Number(expense.amount).toLocaleString(toIntlLocale(locale), {
+      style: "currency",
+      currency: expense.currency
+    });
+    const category = t.expenses.categories[expense.category] ?? expense.category;
+
+    try {
+      await this.whatsappClient.sendMessage(
+        chatId,
+        t.documents.expenseSaved(amount, expense.merchant, category)
+      );
+    } catch (error) {
+      this.logger.error(`Failed to notify user ${chatId}: ${error}`);
+    }
+  }
+
+  private async notifyIncome(chatId: string, income: Income, locale: Locale): Promise<void> {
+    const t = getMessages(locale).income;
+    const amount = Number(income.amount).toLocaleString(toIntlLocale(locale), {
+      style: "currency",
+      currency: income.currency
+    });
+
+    try {
+      await this.whatsappClient.sendMessage(
+        chatId,
+        t.fromEmail(amount, income.source, t.categories[income.category] ?? income.category)
+      );
+    } catch (error) {
+      this.logger.error(`Failed to notify user ${chatId}: ${error}`);
+    }
+  }
+
+  private async notifyUser(
+    chatId: string,
+    analysis: AnalyzedEmail,
+    timezone: string,
+    locale: Locale,
+    fromDocument: boolean = false
+  ): Promise<boolean> {
+    const t = getMessages(locale).email.notify;
+    const intlLocale = toIntlLocale(locale);
+    // Titles that say "in your email" have a variant for documents sent in the chat
+    const title = (emailTitle: string) =>
+      (fromDocument && t.documentTitles[analysis.type]) || emailTitle;
     let message = "";
 
     switch (analysis.type) {
       case "DELIVERY":
-        message = `📦 Encontre un email sobre una entrega!\n\n`;
+        message = `${title(t.delivery.title)}\n\n`;
         message += `${analysis.summary}\n`;
         if (analysis.deliveryInfo?.estimatedDelivery) {
-          const date = analysis.deliveryInfo.estimatedDelivery.toLocaleDateString("es-AR", {
+          const date = analysis.deliveryInfo.estimatedDelivery.toLocaleDateString(intlLocale, {
+            timeZone: timezone,
             weekday: "long",
             day: "numeric",
             month: "long"
           });
-          message += `Llega: ${date}\n`;
+          message += `${t.delivery.arrives}: ${date}\n`;
         }
-        message += `\nTe voy a avisar cuando sea el momento!`;
+        message += `\n${t.delivery.footer}`;
         break;
 
       case "APPOINTMENT":
-        message = `📅 Encontre un turno/cita en tu email!\n\n`;
+        message = `${title(t.appointment.title)}\n\n`;
         message += `${analysis.summary}\n`;
         if (analysis.appointmentInfo) {
-          const date = analysis.appointmentInfo.dateTime.toLocaleString("es-AR", {
+          const date = analysis.appointmentInfo.dateTime.toLocaleString(intlLocale, {
+            timeZone: timezone,
             weekday: "long",
             day: "numeric",
             month: "long",
             hour: "2-digit",
             minute: "2-digit"
           });
-          message += `Cuando: ${date}\n`;
+          message += `${t.appointment.when}: ${date}\n`;
           if (analysis.appointmentInfo.location) {
-            message += `Donde: ${analysis.appointmentInfo.location}\n`;
+            message += `${t.appointment.where}: ${analysis.appointmentInfo.location}\n`;
           }
         }
-        message += `\nTe aviso antes para que no te olvides!`;
+        message += `\n${t.appointment.footer}`;
         break;
 
       case "MEETING":
-        message = `🗓️ Encontre una reunion en tu email!\n\n`;
+        message = `${title(t.meeting.title)}\n\n`;
         message += `${analysis.summary}\n`;
         if (analysis.meetingInfo) {
-          const date = analysis.meetingInfo.dateTime.toLocaleString("es-AR", {
+          const date = analysis.meetingInfo.dateTime.toLocaleString(intlLocale, {
+            timeZone: timezone,
             weekday: "long",
             day: "numeric",
             month: "long",
             hour: "2-digit",
             minute: "2-digit"
           });
-          message += `Cuando: ${date}\n`;
-          message += `Organiza: ${analysis.meetingInfo.organizer}\n`;
+          message += `${t.meeting.when}: ${date}\n`;
+          message += `${t.meeting.organizer}: ${analysis.meetingInfo.organizer}\n`;
           if (analysis.meetingInfo.meetingLink) {
-            message += `Link: ${analysis.meetingInfo.meetingLink}\n`;
+            message += `${t.meeting.link}: ${analysis.meetingInfo.meetingLink}\n`;
           }
         }
-        message += `\nTe aviso unos minutos antes!`;
+        message += `\n${t.meeting.footer}`;
         break;
 
       case "FLIGHT":
-        message = `✈️ Encontre un vuelo en tu email!\n\n`;
+        message = `${title(t.flight.title)}\n\n`;
         message += `${analysis.summary}\n`;
         if (analysis.flightInfo) {
-          const date = analysis.flightInfo.departure.dateTime.toLocaleString("es-AR", {
+          const date = analysis.flightInfo.departure.dateTime.toLocaleString(intlLocale, {
+            timeZone: timezone,
             weekday: "long",
             day: "numeric",
             month: "long",
             hour: "2-digit",
             minute: "2-digit"
           });
-          message += `Vuelo: ${analysis.flightInfo.airline} ${analysis.flightInfo.flightNumber}\n`;
-          message += `Sale: ${date} desde ${analysis.flightInfo.departure.airport}\n`;
+          message += `${t.flight.flight}: ${analysis.flightInfo.airline} ${analysis.flightInfo.flightNumber}\n`;
+          message += `${t.flight.departs(date, analysis.flightInfo.departure.airport)}\n`;
         }
-        message += `\nTe aviso con tiempo para que llegues al aeropuerto!`;
+        message += `\n${t.flight.footer}`;
         break;
 
-      case "SECURITY": {
-        const alertTypeLabels: Record<string, string> = {
-          login_suspicious: "Inicio de sesion sospechoso",
-          password_change: "Cambio de contraseña",
-          phishing: "Posible phishing",
-          data_breach: "Brecha de datos",
-          unrecognized_transaction: "Transaccion no reconocida",
-          new_device: "Nuevo dispositivo",
-          unauthorized_access: "Acceso no autorizado",
-          unknown_subscription: "Suscripcion desconocida"
-        };
-        message = `🚨 *ALERTA DE SEGURIDAD*\n\n`;
+      case "SECURITY":
+        message = `${t.security.title}\n\n`;
         message += `${analysis.summary}\n`;
         if (analysis.securityInfo) {
-          message += `🔐 Servicio: ${analysis.securityInfo.service}\n`;
+          message += `🔐 ${t.security.service}: ${analysis.securityInfo.service}\n`;
           const alertLabel =
-            alertTypeLabels[analysis.securityInfo.alertType] || analysis.securityInfo.alertType;
-          message += `⚠️ Tipo: ${alertLabel}\n`;
+            t.security.alertTypes[analysis.securityInfo.alertType] ||
+            analysis.securityInfo.alertType;
+          message += `⚠️ ${t.security.type}: ${alertLabel}\n`;
           if (analysis.securityInfo.ipOrLocation) {
-            message += `📍 Ubicacion/IP: ${analysis.securityInfo.ipOrLocation}\n`;
+            message += `📍 ${t.security.location}: ${analysis.securityInfo.ipOrLocation}\n`;
           }
-          message += `\n*Accion recomendada:* ${analysis.securityInfo.actionRequired}\n`;
+          message += `\n*${t.security.action}:* ${analysis.securityInfo.actionRequired}\n`;
         }
-        message += `\n_Si no fuiste vos, actua de inmediato._`;
+        message += `\n${t.security.footer}`;
         break;
-      }
 
       case "LEGAL_HEARING":
-        message = `⚖️ AUDIENCIA JUDICIAL detectada!\n\n`;
+        message = `${t.legalHearing.title}\n\n`;
         message += `${analysis.summary}\n`;
         if (analysis.legalHearingInfo) {
-          const date = analysis.legalHearingInfo.dateTime.toLocaleString("es-AR", {
+          const date = analysis.legalHearingInfo.dateTime.toLocaleString(intlLocale, {
+            timeZone: timezone,
             weekday: "long",
             day: "numeric",
             month: "long",
@@ -327,98 +563,101 @@ export class EmailProcessorService {
           message += `📍 ${analysis.legalHearingInfo.court}\n`;
           message += `📅 ${date}\n`;
           if (analysis.legalHearingInfo.caseNumber) {
-            message += `📁 Exp: ${analysis.legalHearingInfo.caseNumber}\n`;
+            message += `📁 ${t.legalHearing.caseNumber}: ${analysis.legalHearingInfo.caseNumber}\n`;
           }
           if (analysis.legalHearingInfo.caseName) {
             message += `📋 ${analysis.legalHearingInfo.caseName}\n`;
           }
           if (analysis.legalHearingInfo.hearingType) {
-            message += `Tipo: ${analysis.legalHearingInfo.hearingType}\n`;
+            message += `${t.legalHearing.type}: ${analysis.legalHearingInfo.hearingType}\n`;
           }
           if (analysis.legalHearingInfo.location) {
-            message += `Direccion: ${analysis.legalHearingInfo.location}\n`;
+            message += `${t.legalHearing.address}: ${analysis.legalHearingInfo.location}\n`;
           }
         }
-        message += `\nTe aviso 24 horas antes!`;
+        message += `\n${t.legalHearing.footer}`;
         break;
 
       case "DEADLINE":
-        message = `⏰ VENCIMIENTO detectado!\n\n`;
+        message = `${t.deadline.title}\n\n`;
         message += `${analysis.summary}\n`;
         if (analysis.deadlineInfo) {
-          const date = analysis.deadlineInfo.dueDate.toLocaleDateString("es-AR", {
+          const date = analysis.deadlineInfo.dueDate.toLocaleDateString(intlLocale, {
+            timeZone: timezone,
             weekday: "long",
             day: "numeric",
             month: "long"
           });
-          message += `📅 Vence: ${date}\n`;
-          message += `📝 Accion: ${analysis.deadlineInfo.action}\n`;
+          message += `📅 ${t.deadline.due}: ${date}\n`;
+          message += `📝 ${t.deadline.action}: ${analysis.deadlineInfo.action}\n`;
           if (analysis.deadlineInfo.caseNumber) {
-            message += `📁 Exp: ${analysis.deadlineInfo.caseNumber}\n`;
+            message += `📁 ${t.deadline.caseNumber}: ${analysis.deadlineInfo.caseNumber}\n`;
           }
-          message += `Tipo: ${analysis.deadlineInfo.deadlineType}\n`;
+          message += `${t.deadline.type}: ${analysis.deadlineInfo.deadlineType}\n`;
         }
-        message += `\nTe aviso 48 horas antes para que tengas tiempo de actuar!`;
+        message += `\n${t.deadline.footer}`;
         break;
 
       case "COURSE":
-        message = `📚 Encontre un curso/capacitacion!\n\n`;
+        message = `${t.course.title}\n\n`;
         message += `${analysis.summary}\n`;
         if (analysis.courseInfo) {
-          const date = analysis.courseInfo.dateTime.toLocaleString("es-AR", {
+          const date = analysis.courseInfo.dateTime.toLocaleString(intlLocale, {
+            timeZone: timezone,
             weekday: "long",
             day: "numeric",
             month: "long",
             hour: "2-digit",
             minute: "2-digit"
           });
-          message += `📅 Inicio: ${date}\n`;
-          message += `🏛️ Organiza: ${analysis.courseInfo.organizer}\n`;
+          message += `📅 ${t.course.start}: ${date}\n`;
+          message += `🏛️ ${t.course.organizer}: ${analysis.courseInfo.organizer}\n`;
           if (analysis.courseInfo.instructor) {
-            message += `👨‍🏫 Instructor: ${analysis.courseInfo.instructor}\n`;
+            message += `👨‍🏫 ${t.course.instructor}: ${analysis.courseInfo.instructor}\n`;
           }
           if (analysis.courseInfo.meetingLink) {
-            message += `🔗 Link: ${analysis.courseInfo.meetingLink}\n`;
+            message += `🔗 ${t.course.link}: ${analysis.courseInfo.meetingLink}\n`;
           }
           if (analysis.courseInfo.location) {
-            message += `📍 Lugar: ${analysis.courseInfo.location}\n`;
+            message += `📍 ${t.course.place}: ${analysis.courseInfo.location}\n`;
           }
         }
-        message += `\nTe aviso 1 hora antes!`;
+        message += `\n${t.course.footer}`;
         break;
 
       case "TASK":
-        message = `✅ Nueva tarea detectada!\n\n`;
+        message = `${t.task.title}\n\n`;
         message += `${analysis.summary}\n`;
         if (analysis.taskInfo) {
           message += `📝 ${analysis.taskInfo.title}\n`;
           if (analysis.taskInfo.dueDate) {
-            const date = analysis.taskInfo.dueDate.toLocaleDateString("es-AR", {
+            const date = analysis.taskInfo.dueDate.toLocaleDateString(intlLocale, {
+              timeZone: timezone,
               weekday: "long",
               day: "numeric",
               month: "long"
             });
-            message += `📅 Para: ${date}\n`;
+            message += `📅 ${t.task.due}: ${date}\n`;
           }
           if (analysis.taskInfo.relatedCase) {
-            message += `📁 Caso: ${analysis.taskInfo.relatedCase}\n`;
+            message += `📁 ${t.task.relatedCase}: ${analysis.taskInfo.relatedCase}\n`;
           }
           if (analysis.taskInfo.assignedBy) {
-            message += `👤 Asignado por: ${analysis.taskInfo.assignedBy}\n`;
+            message += `👤 ${t.task.assignedBy}: ${analysis.taskInfo.assignedBy}\n`;
           }
           if (analysis.taskInfo.priority) {
-            message += `🔴 Prioridad: ${analysis.taskInfo.priority}\n`;
+            message += `🔴 ${t.task.priority}: ${analysis.taskInfo.priority}\n`;
           }
         }
-        message += `\nTe recuerdo mañana para que no se te pase!`;
+        message += `\n${t.task.footer}`;
         break;
 
       case "LEGAL_INFO":
-        message = `📜 Informacion juridica relevante!\n\n`;
+        message = `${t.legalInfo.title}\n\n`;
         message += `${analysis.summary}\n`;
         if (analysis.legalInfoData) {
           message += `📑 ${analysis.legalInfoData.title}\n`;
-          message += `🏛️ Fuente: ${analysis.legalInfoData.source}\n`;
+          message += `🏛️ ${t.legalInfo.source}: ${analysis.legalInfoData.source}\n`;
           if (analysis.legalInfoData.summary) {
             message += `📝 ${analysis.legalInfoData.summary}\n`;
           }
@@ -429,40 +668,67 @@ export class EmailProcessorService {
             message += `🔗 ${analysis.legalInfoData.link}\n`;
           }
         }
-        message += `\nTe recuerdo mañana para que lo revises!`;
+        message += `\n${t.legalInfo.footer}`;
         break;
 
       case "EVENT":
-        message = `🎯 Encontre un evento!\n\n`;
+        message = `${t.event.title}\n\n`;
         message += `${analysis.summary}\n`;
         if (analysis.eventInfo) {
-          const date = analysis.eventInfo.dateTime.toLocaleString("es-AR", {
+          const date = analysis.eventInfo.dateTime.toLocaleString(intlLocale, {
+            timeZone: timezone,
             weekday: "long",
             day: "numeric",
             month: "long",
             hour: "2-digit",
             minute: "2-digit"
           });
-          message += `📅 Cuando: ${date}\n`;
+          message += `📅 ${t.event.when}: ${date}\n`;
           if (analysis.eventInfo.organizer) {
-            message += `🏛️ Organiza: ${analysis.eventInfo.organizer}\n`;
+            message += `🏛️ ${t.event.organizer}: ${analysis.eventInfo.organizer}\n`;
           }
           if (analysis.eventInfo.location) {
-            message += `📍 Lugar: ${analysis.eventInfo.location}\n`;
+            message += `📍 ${t.event.place}: ${analysis.eventInfo.location}\n`;
           }
           if (analysis.eventInfo.meetingLink) {
-            message += `🔗 Link: ${analysis.eventInfo.meetingLink}\n`;
+            message += `🔗 ${t.event.link}: ${analysis.eventInfo.meetingLink}\n`;
           }
         }
-        message += `\nTe aviso 30 minutos antes!`;
+        message += `\n${t.event.footer}`;
         break;
 
       default:
-        return; // Don't notify for other types
+        return false; // Don't notify for other types
     }
 
     try {
       await this.whatsappClient.sendMessage(chatId, message);
+      return true;
+    } catch (error) {
+      this.logger.error(`Failed to notify user ${chatId}: ${error}`);
+      return false;
+    }
+  }
+
+  private async inDigestMode(userId: string): Promise<boolean> {
+    const user = await this.userService.getUserById(userId);
+    return (user?.emailDigestHours.length ?? 0) > 0;
+  }
+
+  /** For emails a rule says to always notify that have no type-specific message */
+  private async notifyAllowed(
+    chatId: string,
+    email: EmailMessage,
+    analysis: AnalyzedEmail,
+    locale: Locale
+  ): Promise<void> {
+    const t = getMessages(locale).email.notify;
+
+    try {
+      await this.whatsappClient.sendMessage(
+        chatId,
+        t.allowed(email.from, email.subject, analysis.summary)
+      );
     } catch (error) {
       this.logger.error(`Failed to notify user ${chatId}: ${error}`);
     }
@@ -8,6 +8,7 @@ import type {
 
 export interface CreateProcessedEmailData {
   userId: string;
+  accountId?: string;
   gmailMessageId: string;
   threadId?: string;
   subject?: string;
@@ -17,6 +18,7 @@ export interface CreateProcessedEmailData {
   extractedData?: Record<string, unknown>;
   reminderId?: string;
   status?: ProcessedEmailStatus;
+  digestPending?: boolean;
 }
 
 export class ProcessedEmailRepository {
@@ -26,6 +28,7 @@ export class ProcessedEmailRepository {
     return this.prisma.processedEmail.create({
       data: {
         userId: data.userId,
+        accountId: data.accountId,
         gmailMessageId: data.gmailMessageId,
         threadId: data.threadId,
         subject: data.subject,
@@ -34,19 +37,34 @@ export class ProcessedEmailRepository {
         emailType: data.emailType,
         extractedData: data.extractedData as Prisma.InputJsonValue | undefined,
         reminderId: data.reminderId,
-        status: data.status || "PROCESSED"
+        status: data.status || "PROCESSED",
+        digestPending: data.digestPending ?? false
       }
     });
   }
 
+  async findById(id: string): Promise<ProcessedEmail | null> {
+    return this.prisma.processedEmail.findUnique({ where: { id } });
+  }
+
+  /** Emails waiting for the user's next summary, oldest first */
+  async findDigestPending(userId: string): Promise<ProcessedEmail[]> {
+    return this.prisma.processedEmail.findMany({
+      where: { userId, digestPending: true },
+      orderBy: { receivedAt: "asc" }
+    });
+  }
+
+  async clearDigestPending(ids: string[]): Promise<void> {
+    await this.prisma.processedEmail.updateMany({
+      where: { id: { in: ids } },
+      data: { digestPending: false }
+    });
+  }
+
   async findByGmailId(userId: string, gmailMessageId: string): Promise<ProcessedEmail | null> {
-    return this.prisma.processedEmail.findUnique({
-      where: {
-        userId_gmailMessageId: {
-          userId,
-          gmailMessageId
-        }
-      }
+    return this.prisma.processedEmail.findFirst({
+      where: { userId, gmailMessageId }
     });
   }
 
@@ -72,9 +90,13 @@ export class ProcessedEmailRepository {
     });
   }
 
-  async findRecentForChat(userId: string, limit: number = 1): Promise<ProcessedEmail[]> {
+  async findRecentForChat(
+    userId: string,
+    limit: number = 1,
+    accountIds?: (string | null)[]
+  ): Promise<ProcessedEmail[]> {
     return this.prisma.processedEmail.findMany({
-      where: { userId, status: { not: "SKIPPED" } },
+      where: { userId, status: { not: "SKIPPED" }, ...this.accountFilter(accountIds) },
       orderBy: { processedAt: "desc" },
       take: limit
     });
@@ -83,7 +105,8 @@ export class ProcessedEmailRepository {
   async searchByKeywords(
     userId: string,
     keywords: string,
-    limit: number = 5
+    limit: number = 5,
+    accountIds?: (string | null)[]
   ): Promise<ProcessedEmail[]> {
     // Clean Gmail operators and extract raw terms
     const terms = keywords
@@ -115,6 +138,7 @@ export class ProcessedEmailRepository {
     return this.prisma.processedEmail.findMany({
       where: {
         userId,
+        ...this.accountFilter(accountIds),
         OR: conditions
       },
       orderBy: { receivedAt: "desc" },
@@ -122,27 +146,48 @@ export class ProcessedEmailRepository {
     });
   }
 
-  async existsByGmailId(userId: string, gmailMessageId: string): Promise<boolean> {
+  /** Emails stored before multi-account (no accountId) count for every account */
+  async existsByGmailId(
+    userId: string,
+    gmailMessageId: string,
+    accountId?: string
+  ): Promise<boolean> {
     const count = await this.prisma.processedEmail.count({
       where: {
         userId,
-        gmailMessageId
+        gmailMessageId,
+        ...(accountId ? this.accountFilter([accountId, null]) : {})
       }
     });
     return count > 0;
   }
 
-  async existsByGmailIds(userId: string, gmailMessageIds: string[]): Promise<Set<string>> {
+  async existsByGmailIds(
+    userId: string,
+    gmailMessageIds: string[],
+    accountId?: string
+  ): Promise<Set<string>> {
     if (gmailMessageIds.length === 0) return new Set();
 
     const existing = await this.prisma.processedEmail.findMany({
       where: {
         userId,
-        gmailMessageId: { in: gmailMessageIds }
+        gmailMessageId: { in: gmailMessageIds },
+        ...(accountId ? this.accountFilter([accountId, null]) : {})
       },
       select: { gmailMessageId: true }
     });
 
     return new Set(existing.map((e) => e.gmailMessageId));
   }
+
+  /** `null` in the list matches emails stored before multi-account */
+  private accountFilter(accountIds?: (string | null)[]): Prisma.ProcessedEmailWhereInput {
+    if (!accountIds) return {};
+
+    const ids = accountIds.filter((id): id is string => id !== null);
+    return accountIds.includes(null)
+      ? { AND: [{ OR: [{ accountId: { in: ids } }, { accountId: null }] }] }
+      : { accountId: { in: ids } };
+  }
 }
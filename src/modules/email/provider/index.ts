@@ -0,0 +1,8 @@
+export {
+  type EmailMessage,
+  type MailAccount,
+  type MailProvider,
+  type MailProviderName,
+  type ReplyContent
+} from "./mail-provider";
+export { DEFAULT_ACCOUNT_LABEL, MailboxService } from "./mailbox.service";
@@ -0,0 +1,78 @@
+export type MailProviderName = "gmail" | "imap";
+
+/** One linked mailbox; a user can have several, told apart by label */
+export interface MailAccount {
+  id: string;
+  userId: string;
+  provider: MailProviderName;
+  label: string;
+  email: string | null;
+  createdAt: Date;
+}
+
+export interface EmailMessage {
+  /** Provider-specific id, stable for the same mailbox */
+  id: string;
+  threadId: string;
+  subject: string;
+  from: string;
+  to: string;
+  date: Date;
+  snippet: string;
+  body: string;
+  /** RFC 5322 Message-ID, used to thread replies sent over SMTP */
+  messageId?: string;
+  references?: string[];
+}
+
+export interface ReplyContent {
+  to: string;
+  subject: string;
+  body: string;
+}
+
+/**
+ * A mailbox backend (Gmail API, IMAP/SMTP...). Operations take the id of one
+ * of the user's accounts; message ids are opaque and only meaningful to the
+ * account that returned them.
+ */
+export interface MailProvider {
+  readonly name: MailProviderName;
+
+  listAccounts(userId: string): Promise<MailAccount[]>;
+
+  getAccount(accountId: string): Promise<MailAccount | null>;
+
+  /** Whether replies can be sent (Gmail needs the send scope) */
+  canSend(accountId: string): Promise<boolean>;
+
+  /** Messages that arrived since the last sync, at most `maxResults` */
+  listNewMessageIds(accountId: string, maxResults?: number): Promise<string[]>;
+
+  /**
+   * Records listed messages as handled so the next sync starts after them.
+   * Gets the handled prefix of the listing; the rest must be listed again.
+   */
+  markSynced(accountId: string, messageIds: string[]): Promise<void>;
+
+  getMessage(accountId: string, messageId: string): Promise<EmailMessage>;
+
+  searchMessages(accountId: string, query: string, maxResults?: number): Promise<EmailMessage[]>;
+
+  sendReply(
+    accountId: string,
+    originalMessageId: string,
+    threadId: string,
+    replyContent: ReplyContent
+  ): Promise<string>;
+
+  disconnect(accountId: string): Promise<void>;
+
+  /** Calls `onNewMail` whenever the mailbox changes, when the provider can push */
+  watch?(accountId: string, onNewMail: () => void): Promise<void>;
+
+  unwatch?(accountId: string): Promise<void>;
+
+  /** Drops every open watch (shutdown) */
+  stopWatching?(): Promise<void>;
+}
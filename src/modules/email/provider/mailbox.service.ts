@@ -0,0 +1,139 @@
+import type { EmailMessage, MailAccount, MailProvider, ReplyContent } from "./mail-provider";
+
+/** Label of the first mailbox a user links when they don't name it */
+export const DEFAULT_ACCOUNT_LABEL = "personal";
+
+function normalizeLabel(label: string): string {
+  return label
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * The user's mailboxes across providers, and operations routed to the
+ * provider that owns each account.
+ */
+export class MailboxService {
+  constructor(private readonly providers: MailProvider[]) {}
+
+  /** Oldest first, so the first one is the user's main mailbox */
+  async listAccounts(userId: string): Promise<MailAccount[]> {
+    const accounts = await Promise.all(this.providers.map((p) => p.listAccounts(userId)));
+    return accounts.flat().sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async hasAccounts(userId: string): Promise<boolean> {
+    return (await this.listAccounts(userId)).length > 0;
+  }
+
+  async getAccount(accountId: string): Promise<MailAccount | null> {
+    for (const provider of this.providers) {
+      const account = await provider.getAccount(accountId);
+      if (account) return account;
+    }
+    return null;
+  }
+
+  /** Account by label ("trabajo" matches "Trabajo" and "mail del trabajo") or address */
+  findByLabel(accounts: MailAccount[], label: string): MailAccount | null {
+    const wanted = normalizeLabel(label);
+    if (!wanted) return null;
+
+    return (
+      accounts.find((a) => normalizeLabel(a.label) === wanted) ??
+      accounts.find((a) => a.email && normalizeLabel(a.email) === wanted) ??
+      accounts.find(
+        (a) => normalizeLabel(a.label).includes(wanted) || wanted.includes(normalizeLabel(a.label))
+      ) ??
+      null
+    );
+  }
+
+  /** The requested label if free, else "personal" for a first mailbox, else the address */
+  async labelForNewAccount(userId: string, email: string, requested?: string): Promise<string> {
+    const accounts = await this.listAccounts(userId);
+    const taken = new Set(accounts.map((a) => normalizeLabel(a.label)));
+
+    const candidates = [requested?.trim(), accounts.length === 0 ? DEFAULT_ACCOUNT_LABEL : null];
+    for (const candidate of candidates) {
+      if (candidate && !taken.has(normalizeLabel(candidate))) return candidate;
+    }
+    return email;
+  }
+
+  async canSend(accountId: string): Promise<boolean> {
+    const provider = await this.getProvider(accountId);
+    return provider ? provider.canSend(accountId) : false;
+  }
+
+  async listNewMessageIds(accountId: string, maxResults?: number): Promise<string[]> {
+    const provider = await this.requireProvider(accountId);
+    return provider.listNewMessageIds(accountId, maxResults);
+  }
+
+  async markSynced(accountId: string, messageIds: string[]): Promise<void> {
+    const provider = await this.requireProvider(accountId);
+    await provider.markSynced(accountId, messageIds);
+  }
+
+  async getMessage(accountId: string, messageId: string): Promise<EmailMessage> {
+    const provider = await this.requireProvider(accountId);
+    return provider.getMessage(accountId, messageId);
+  }
+
+  async searchMessages(
+    accountId: string,
+    query: string,
+    maxResults?: number
+  ): Promise<EmailMessage[]> {
+    const provider = await this.requireProvider(accountId);
+    return provider.searchMessages(accountId, query, maxResults);
+  }
+
+  async sendReply(
+    accountId: string,
+    originalMessageId: string,
+    threadId: string,
+    replyContent: ReplyContent
+  ): Promise<string> {
+    const provider = await this.requireProvider(accountId);
+    return provider.sendReply(accountId, originalMessageId, threadId, replyContent);
+  }
+
+  async disconnect(accountId: string): Promise<void> {
+    const provider = await this.getProvider(accountId);
+    await provider?.disconnect(accountId);
+  }
+
+  /** No-op for providers that can't push; the periodic sync covers them */
+  async watch(account: MailAccount, onNewMail: () => void): Promise<void> {
+    await this.providerFor(account)?.watch?.(account.id, onNewMail);
+  }
+
+  async unwatch(account: MailAccount): Promise<void> {
+    await this.providerFor(account)?.unwatch?.(account.id);
+  }
+
+  async stopWatching(): Promise<void> {
+    await Promise.all(this.providers.map((provider) => provider.stopWatching?.()));
+  }
+
+  private providerFor(account: MailAccount): MailProvider | undefined {
+    return this.providers.find((provider) => provider.name === account.provider);
+  }
+
+  private async getProvider(accountId: string): Promise<MailProvider | null> {
+    const account = await this.getAccount(accountId);
+    return account ? (this.providerFor(account) ?? null) : null;
+  }
+
+  private async requireProvider(accountId: string): Promise<MailProvider> {
+    const provider = await this.getProvider(accountId);
+    if (!provider) {
+      throw new Error(`Mail account ${accountId} not found`);
+    }
+    return provider;
+  }
+}
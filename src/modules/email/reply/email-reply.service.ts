@@ -1,5 +1,7 @@
 import type { GroqClient } from "@modules/ai/groq/groq.client";
+import { getLanguageName, type Locale } from "@shared/i18n/i18n";
 import { createLogger } from "@shared/logger/logger";
+import { DEFAULT_TIMEZONE } from "@shared/timezone/timezone";
 
 import { EMAIL_REPLY_SYSTEM_PROMPT } from "./email-reply.prompts";
 
@@ -19,7 +21,7 @@ const EMAIL_EXTRACT_SYSTEM_PROMPT = `Eres un asistente que extrae información e
 El usuario quiere que encuentres y extraigas un dato puntual del email proporcionado.
 Si encontras la información pedida, respondela de forma directa y concisa (solo el dato, sin rodeos).
 Si no encontras la información, decí claramente que no está en el email.
-Responde en español rioplatense.`;
+Responde en {{language}}.`;
 
 export class EmailReplyService {
   private readonly logger = createLogger("email-reply");
@@ -32,6 +34,8 @@ export class EmailReplyService {
     subject: string;
     date: Date;
     extractionQuery: string;
+    timezone?: string;
+    locale?: Locale;
   }): Promise<string> {
     this.logger.info(
       `Extracting "${params.extractionQuery}" from "${params.subject?.substring(0, 50)}"`
@@ -40,7 +44,7 @@ export class EmailReplyService {
     const userMessage = [
       `De: ${params.from}`,
       `Asunto: ${params.subject}`,
-      `Fecha: ${params.date.toLocaleString("es-AR", { timeZone: "America/Argentina/Buenos_Aires" })}`,
+      `Fecha: ${params.date.toLocaleString("es-AR", { timeZone: params.timezone ?? DEFAULT_TIMEZONE })}`,
       ``,
       `Contenido del email:`,
       params.emailBody.substring(0, 5000),
@@ -49,13 +53,18 @@ export class EmailReplyService {
       `Dato que necesito encontrar: ${params.extractionQuery}`
     ].join("\n");
 
-    return this.groqClient.chat(EMAIL_EXTRACT_SYSTEM_PROMPT, userMessage);
+    const systemPrompt = EMAIL_EXTRACT_SYSTEM_PROMPT.replace(
+      "{{language}}",
+      getLanguageName(params.locale)
+    );
+    return this.groqClient.chat(systemPrompt, userMessage);
   }
 
   async composeReply(params: {
     originalEmail: OriginalEmail;
     userInstruction: string;
     locale: string;
+    timezone?: string;
   }): Promise<ComposedReply> {
     this.logger.info(`Composing reply to "${params.originalEmail.subject?.substring(0, 50)}..."`);
 
@@ -63,14 +72,14 @@ export class EmailReplyService {
       `Email original:`,
       `De: ${params.originalEmail.from}`,
       `Asunto: ${params.originalEmail.subject}`,
-      `Fecha: ${params.originalEmail.date.toLocaleString("es-AR", { timeZone: "America/Argentina/Buenos_Aires" })}`,
+      `Fecha: ${params.originalEmail.date.toLocaleString("es-AR", { timeZone: params.timezone ?? DEFAULT_TIMEZONE })}`,
       ``,
       `Contenido:`,
       params.originalEmail.body.substring(0, 3000),
       ``,
       `---`,
       `Instruccion del usuario: ${params.userInstruction}`,
-      `Idioma preferido: ${params.locale === "es" ? "español" : "english"}`
+      `Idioma preferido: ${getLanguageName(params.locale)}`
     ].join("\n");
 
     const response = await this.groqClient.chatJSON<ComposedReply>(
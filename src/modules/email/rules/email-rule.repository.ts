@@ -0,0 +1,39 @@
+import type {
+  EmailRule,
+  EmailRuleAction,
+  EmailType,
+  PrismaClient
+} from "@prisma-module/generated/client";
+
+export interface EmailRuleData {
+  action: EmailRuleAction;
+  sender: string | null;
+  emailType: EmailType | null;
+  startHour: number | null;
+  endHour: number | null;
+  ruleKey: string;
+}
+
+export class EmailRuleRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /** A rule with the same key (same target and hours) is replaced */
+  async upsert(userId: string, data: EmailRuleData): Promise<EmailRule> {
+    return this.prisma.emailRule.upsert({
+      where: { userId_ruleKey: { userId, ruleKey: data.ruleKey } },
+      create: { userId, ...data },
+      update: { action: data.action }
+    });
+  }
+
+  async findByUser(userId: string): Promise<EmailRule[]> {
+    return this.prisma.emailRule.findMany({
+      where: { userId },
+      orderBy: { createdAt: "asc" }
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.prisma.emailRule.delete({ where: { id } });
+  }
+}
@@ -0,0 +1,144 @@
+import type { EmailRule, EmailRuleAction, EmailType } from "@prisma-module/generated/client";
+import { getZonedParts } from "@shared/timezone/timezone";
+
+import type { EmailRuleRepository } from "./email-rule.repository";
+
+/** ALLOW notifies even what would be skipped, BLOCK silences it, null keeps the default */
+export type EmailRuleDecision = EmailRuleAction | null;
+
+export interface EmailRuleInput {
+  action: EmailRuleAction;
+  sender?: string | null;
+  emailType?: EmailType | null;
+  startHour?: number | null;
+  endHour?: number | null;
+}
+
+/** Types a rule can target; OTHER is covered by catch-all rules */
+export const EMAIL_RULE_TYPES: EmailType[] = [
+  "PURCHASE",
+  "INCOME",
+  "DELIVERY",
+  "APPOINTMENT",
+  "MEETING",
+  "FLIGHT",
+  "LEGAL_HEARING",
+  "SECURITY",
+  "DEADLINE",
+  "COURSE",
+  "TASK",
+  "LEGAL_INFO",
+  "EVENT"
+];
+
+export function parseEmailRuleType(raw: string): EmailType | null {
+  const upper = raw.trim().toUpperCase() as EmailType;
+  return EMAIL_RULE_TYPES.includes(upper) ? upper : null;
+}
+
+function normalizeSender(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .trim()
+    .toLowerCase();
+}
+
+function isValidHour(hour: number | null | undefined): hour is number {
+  return typeof hour === "number" && Number.isInteger(hour) && hour >= 0 && hour < 24;
+}
+
+/** Explicit "siempre" wins over "nunca" among rules of the same kind */
+function decideBy(rules: EmailRule[]): EmailRuleDecision {
+  if (rules.length === 0) return null;
+  return rules.some((rule) => rule.action === "ALLOW") ? "ALLOW" : "BLOCK";
+}
+
+/**
+ * Per-user rules over which emails get a WhatsApp notification. A rule
+ * matches a sender, an email type or every email, optionally only within
+ * some local hours. Sender rules beat type rules, which beat catch-all ones.
+ */
+export class EmailRuleService {
+  constructor(private readonly repository: EmailRuleRepository) {}
+
+  async addRule(userId: string, input: EmailRuleInput): Promise<EmailRule> {
+    const sender = input.sender ? normalizeSender(input.sender) : null;
+    const emailType = sender ? null : (input.emailType ?? null);
+    const { startHour, endHour } = input;
+    const hours =
+      isValidHour(startHour) && isValidHour(endHour) && startHour !== endHour
+        ? { startHour, endHour }
+        : null;
+
+    const target = sender ? `sender:${sender}` : emailType ? `type:${emailType}` : "all";
+    const ruleKey = hours ? `${target}@${hours.startHour}-${hours.endHour}` : target;
+
+    return this.repository.upsert(userId, {
+      action: input.action,
+      sender,
+      emailType,
+      startHour: hours?.startHour ?? null,
+      endHour: hours?.endHour ?? null,
+      ruleKey
+    });
+  }
+
+  /** Oldest first, the order they're listed and deleted by */
+  async listRules(userId: string): Promise<EmailRule[]> {
+    return this.repository.findByUser(userId);
+  }
+
+  /** `index` is 1-based, as listed */
+  async deleteRule(userId: string, index: number): Promise<EmailRule | null> {
+    const rules = await this.repository.findByUser(userId);
+    const rule = rules[index - 1];
+    if (!rule) return null;
+
+    await this.repository.delete(rule.id);
+    return rule;
+  }
+
+  /** Rules in effect at `now` in the user's timezone */
+  async getActiveRules(
+    userId: string,
+    timezone: string,
+    now: Date = new Date()
+  ): Promise<EmailRule[]> {
+    const rules = await this.repository.findByUser(userId);
+    const { hour } = getZonedParts(now, timezone);
+
+    return rules.filter((rule) => {
+      if (rule.startHour === null || rule.endHour === null) return true;
+      return rule.startHour < rule.endHour
+        ? hour >= rule.startHour && hour < rule.endHour
+        : hour >= rule.startHour || hour < rule.endHour;
+    });
+  }
+
+  /**
+   * Before analysis only the sender is known. A catch-all block applies this
+   * early only when no type rule could still let the email through.
+   */
+  decideBeforeAnalysis(rules: EmailRule[], from: string): EmailRuleDecision {
+    const bySender = decideBy(this.senderRules(rules, from));
+    if (bySender) return bySender;
+
+    const catchAll = decideBy(rules.filter((rule) => !rule.sender && !rule.emailType));
+    const typeMayAllow = rules.some((rule) => rule.emailType && rule.action === "ALLOW");
+    return catchAll === "BLOCK" && !typeMayAllow ? "BLOCK" : null;
+  }
+
+  decide(rules: EmailRule[], from: string, type: string): EmailRuleDecision {
+    return (
+      decideBy(this.senderRules(rules, from)) ??
+      decideBy(rules.filter((rule) => rule.emailType === type)) ??
+      decideBy(rules.filter((rule) => !rule.sender && !rule.emailType))
+    );
+  }
+
+  private senderRules(rules: EmailRule[], from: string): EmailRule[] {
+    const sender = normalizeSender(from);
+    return rules.filter((rule) => rule.sender && sender.includes(rule.sender));
+  }
+}
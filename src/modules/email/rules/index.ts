@@ -0,0 +1,8 @@
+export { EmailRuleRepository, type EmailRuleData } from "./email-rule.repository";
+export {
+  EMAIL_RULE_TYPES,
+  EmailRuleService,
+  parseEmailRuleType,
+  type EmailRuleDecision,
+  type EmailRuleInput
+} from "./email-rule.service";
@@ -2,8 +2,9 @@ import type { SubscriptionRepository } from "@modules/subscription/subscription.
 import { env } from "@shared/env/env";
 import { createLogger } from "@shared/logger/logger";
 
-import type { GmailAuthService } from "../gmail/gmail-auth.service";
 import type { EmailProcessorService } from "../processor/email-processor.service";
+import type { MailAccount } from "../provider/mail-provider";
+import type { MailboxService } from "../provider/mailbox.service";
 import type { UserRepository } from "../user/user.repository";
 
 export class EmailSyncService {
@@ -11,14 +12,21 @@ export class EmailSyncService {
   private readonly syncIntervalMs: number;
   private readonly logger = createLogger("email-sync");
   private isRunning = false;
+  private readonly syncing = new Set<string>();
+  /** Accounts that got new mail while a sync of theirs was running */
+  private readonly resync = new Set<string>();
 
   constructor(
     private readonly userRepository: UserRepository,
     private readonly emailProcessorService: EmailProcessorService,
-    private readonly gmailAuthService: GmailAuthService,
+    private readonly mailboxService: MailboxService,
     private readonly subscriptionRepository?: SubscriptionRepository
   ) {
-    this.syncIntervalMs = env().EMAIL_SYNC_INTERVAL_MS;
+    // With Gmail push, polling only catches missed pushes and renews the watches
+    const { EMAIL_SYNC_INTERVAL_MS, EMAIL_PUSH_FALLBACK_INTERVAL_MS, GMAIL_PUBSUB_TOPIC } = env();
+    this.syncIntervalMs = GMAIL_PUBSUB_TOPIC
+      ? EMAIL_PUSH_FALLBACK_INTERVAL_MS
+      : EMAIL_SYNC_INTERVAL_MS;
   }
 
   start(): void {
@@ -42,6 +50,10 @@ export class EmailSyncService {
       this.intervalId = null;
       this.logger.info("Email sync stopped");
     }
+
+    this.mailboxService
+      .stopWatching()
+      .catch((error) => this.logger.error("Failed to close mailbox watches", error));
   }
 
   private async tick(): Promise<void> {
@@ -62,7 +74,7 @@ export class EmailSyncService {
   }
 
   async syncAllUsers(): Promise<void> {
-    const users = await this.userRepository.findAllWithEmailTokens();
+    const users = await this.userRepository.findAllWithMailbox();
 
     if (users.length === 0) {
       this.logger.debug("No users with email linked");
@@ -79,6 +91,9 @@ export class EmailSyncService {
         const info = await this.subscriptionRepository.getUserSubscriptionInfo(user.chatId);
         if (!info.hasActiveSubscription || !info.hasEmailSync) {
           this.logger.debug(`Skipping user ${user.id}: plan does not include email sync`);
+          for (const account of await this.mailboxService.listAccounts(user.id)) {
+            await this.mailboxService.unwatch(account);
+          }
           continue;
         }
       }
@@ -94,18 +109,57 @@ export class EmailSyncService {
   async syncUser(userId: string, chatId: string): Promise<void> {
     this.logger.debug(`Syncing emails for user ${userId}`);
 
-    // Check if user is still authenticated
-    const isAuth = await this.gmailAuthService.isAuthenticated(userId);
-    if (!isAuth) {
-      this.logger.warn(`User ${userId} is not authenticated with Gmail`);
+    const accounts = await this.mailboxService.listAccounts(userId);
+    if (accounts.length === 0) {
+      this.logger.warn(`User ${userId} has no mailbox connected`);
+      return;
+    }
+
+    for (const account of accounts) {
+      try {
+        await this.syncAccount(account, chatId);
+      } catch (error) {
+        this.logger.error(`Failed to sync account ${account.id} of user ${userId}: ${error}`);
+      }
+    }
+  }
+
+  private async syncAccount(account: MailAccount, chatId: string): Promise<void> {
+    // A push and the interval can land together; mail that arrives mid-sync gets another pass
+    if (this.syncing.has(account.id)) {
+      this.logger.debug(`Sync already running for account ${account.id}`);
+      this.resync.add(account.id);
       return;
     }
 
-    // Process new emails
-    const processed = await this.emailProcessorService.processNewEmailsForUser(userId, chatId);
+    this.syncing.add(account.id);
+    try {
+      // Mailboxes that can push (IMAP IDLE, Gmail Pub/Sub) sync as soon as mail arrives
+      await this.mailboxService
+        .watch(account, () => this.onNewMail(account, chatId))
+        .catch((error) => this.logger.warn(`Failed to watch mailbox ${account.id}: ${error}`));
+
+      // Process new emails
+      const processed = await this.emailProcessorService.processNewEmails(account, chatId);
+
+      if (processed.length > 0) {
+        this.logger.info(
+          `Processed ${processed.length} email(s) for user ${account.userId} (${account.label})`
+        );
+      }
+    } finally {
+      this.syncing.delete(account.id);
+    }
 
-    if (processed.length > 0) {
-      this.logger.info(`Processed ${processed.length} email(s) for user ${userId}`);
+    if (this.resync.delete(account.id)) {
+      await this.syncAccount(account, chatId);
     }
   }
+
+  private onNewMail(account: MailAccount, chatId: string): void {
+    this.logger.debug(`New mail in account ${account.id}`);
+    this.syncAccount(account, chatId).catch((error) =>
+      this.logger.error(`Failed to sync account ${account.id}: ${error}`)
+    );
+  }
 }
@@ -19,25 +19,64 @@ export class UserRepository {
     });
   }
 
-  async findAllWithEmailTokens(): Promise<User[]> {
+  /** Users with Gmail or an IMAP account connected */
+  async findAllWithMailbox(): Promise<User[]> {
     return this.prisma.user.findMany({
       where: {
-        emailToken: { isNot: null }
-      },
-      include: { emailToken: true }
+        OR: [{ emailTokens: { some: {} } }, { imapAccounts: { some: {} } }]
+      }
+    });
+  }
+
+  /** Digest hours are local to each user, so filtering by hour happens in the caller */
+  async findUsersForDigest(): Promise<User[]> {
+    return this.prisma.user.findMany({
+      where: {
+        chatId: { not: null },
+        digestEnabled: true
+      }
     });
   }
 
-  async findUsersForDigest(hour: number): Promise<User[]> {
+  async findUsersForEmailDigest(): Promise<User[]> {
     return this.prisma.user.findMany({
       where: {
         chatId: { not: null },
-        digestEnabled: true,
-        digestHour: hour
+        emailDigestHours: { isEmpty: false }
       }
     });
   }
 
+  async findDistinctTimezones(): Promise<string[]> {
+    const rows = await this.prisma.user.findMany({
+      where: { chatId: { not: null } },
+      select: { timezone: true },
+      distinct: ["timezone"]
+    });
+    return rows.map((r) => r.timezone);
+  }
+
+  async updateTimezone(chatId: string, timezone: string): Promise<User> {
+    return this.prisma.user.update({
+      where: { chatId },
+      data: { timezone }
+    });
+  }
+
+  async updateLocale(chatId: string, locale: string): Promise<User> {
+    return this.prisma.user.update({
+      where: { chatId },
+      data: { locale }
+    });
+  }
+
+  async updateCurrency(chatId: string, currency: string): Promise<User> {
+    return this.prisma.user.update({
+      where: { chatId },
+      data: { currency }
+    });
+  }
+
   async updateDigest(chatId: string, enabled: boolean, hour?: number): Promise<User> {
     return this.prisma.user.update({
       where: { chatId },
@@ -48,6 +87,34 @@ export class UserRepository {
     });
   }
 
+  async updateEmailDigestHours(chatId: string, emailDigestHours: number[]): Promise<User> {
+    return this.prisma.user.update({
+      where: { chatId },
+      data: { emailDigestHours }
+    });
+  }
+
+  async updateCalendarLeadMinutes(chatId: string, calendarLeadMinutes: number): Promise<User> {
+    return this.prisma.user.update({
+      where: { chatId },
+      data: { calendarLeadMinutes }
+    });
+  }
+
+  async updateEscalationPhone(chatId: string, escalationPhone: string | null): Promise<User> {
+    return this.prisma.user.update({
+      where: { chatId },
+      data: { escalationPhone }
+    });
+  }
+
+  async updatePaymentAlias(chatId: string, paymentAlias: string): Promise<User> {
+    return this.prisma.user.update({
+      where: { chatId },
+      data: { paymentAlias }
+    });
+  }
+
   async delete(id: string): Promise<void> {
     await this.prisma.user.delete({ where: { id } });
   }
@@ -1,10 +1,17 @@
 import type { User } from "@prisma-module/generated/client";
+import { type Locale, resolveLocale } from "@shared/i18n/i18n";
 import { createLogger } from "@shared/logger/logger";
+import { DEFAULT_TIMEZONE } from "@shared/timezone/timezone";
 
 import type { UserRepository } from "./user.repository";
 
 const logger = createLogger("user-service");
 
+export interface UserPreferences {
+  locale: Locale;
+  timezone: string;
+}
+
 export class UserService {
   constructor(private readonly userRepository: UserRepository) {}
 
@@ -22,12 +29,73 @@ export class UserService {
   }
 
   async hasEmailLinked(chatId: string): Promise<boolean> {
-    const users = await this.userRepository.findAllWithEmailTokens();
+    const users = await this.userRepository.findAllWithMailbox();
     return users.some((user) => user.chatId === chatId);
   }
 
   async getUsersWithEmailLinked(): Promise<User[]> {
-    return this.userRepository.findAllWithEmailTokens();
+    return this.userRepository.findAllWithMailbox();
+  }
+
+  async getTimezone(chatId: string): Promise<string> {
+    const user = await this.userRepository.findByChatId(chatId);
+    return user?.timezone ?? DEFAULT_TIMEZONE;
+  }
+
+  async updateTimezone(chatId: string, timezone: string): Promise<User> {
+    logger.info(`Updating timezone for ${chatId} to ${timezone}`);
+    await this.userRepository.findOrCreate(chatId);
+    return this.userRepository.updateTimezone(chatId, timezone);
+  }
+
+  /** Language and timezone used to render replies, with defaults for unknown chats */
+  async getPreferences(chatId: string): Promise<UserPreferences> {
+    const user = await this.userRepository.findByChatId(chatId);
+    return {
+      locale: resolveLocale(user?.locale),
+      timezone: user?.timezone ?? DEFAULT_TIMEZONE
+    };
+  }
+
+  async updateLocale(chatId: string, locale: Locale): Promise<User> {
+    logger.info(`Updating locale for ${chatId} to ${locale}`);
+    await this.userRepository.findOrCreate(chatId);
+    return this.userRepository.updateLocale(chatId, locale);
+  }
+
+  /** Second contact for unacknowledged insistent reminders (null removes it) */
+  async updateEscalationPhone(chatId: string, phone: string | null): Promise<User> {
+    logger.info(`Updating escalation contact for ${chatId}`);
+    await this.userRepository.findOrCreate(chatId);
+    return this.userRepository.updateEscalationPhone(chatId, phone);
+  }
+
+  /** Where expense group members settle up to this user */
+  async updatePaymentAlias(chatId: string, alias: string): Promise<User> {
+    logger.info(`Updating payment alias for ${chatId}`);
+    await this.userRepository.findOrCreate(chatId);
+    return this.userRepository.updatePaymentAlias(chatId, alias);
+  }
+
+  /** Currency expense totals are consolidated into */
+  async updateCurrency(chatId: string, currency: string): Promise<User> {
+    logger.info(`Updating currency for ${chatId} to ${currency}`);
+    await this.userRepository.findOrCreate(chatId);
+    return this.userRepository.updateCurrency(chatId, currency);
+  }
+
+  /** Local hours of the email summary; an empty list notifies each email right away */
+  async updateEmailDigestHours(chatId: string, hours: number[]): Promise<User> {
+    logger.info(`Updating email summary hours for ${chatId} to [${hours.join(", ")}]`);
+    await this.userRepository.findOrCreate(chatId);
+    return this.userRepository.updateEmailDigestHours(chatId, hours);
+  }
+
+  /** How long before each Google Calendar event its imported reminder fires */
+  async updateCalendarLeadMinutes(chatId: string, minutes: number): Promise<User> {
+    logger.info(`Updating calendar lead time for ${chatId} to ${minutes} minutes`);
+    await this.userRepository.findOrCreate(chatId);
+    return this.userRepository.updateCalendarLeadMinutes(chatId, minutes);
   }
 
   async updateDigestSettings(chatId: string, enabled: boolean, hour?: number): Promise<User> {
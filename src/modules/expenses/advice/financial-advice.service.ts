@@ -1,6 +1,8 @@
 import type { GroqClient } from "@modules/ai/groq/groq.client";
+import { DEFAULT_LOCALE, getLanguageName, getMessages, type Locale } from "@shared/i18n/i18n";
 import { createLogger } from "@shared/logger/logger";
 
+import type { CashFlowReport } from "../cashflow/cash-flow.service";
 import type { ExpenseSummary } from "../expense.service";
 
 const CATEGORY_LABELS: Record<string, string> = {
@@ -21,17 +23,26 @@ export class FinancialAdviceService {
 
   constructor(private readonly groqClient: GroqClient) {}
 
-  async generateAdvice(summary: ExpenseSummary, period: string): Promise<string> {
+  async generateAdvice(
+    summary: ExpenseSummary,
+    period: string,
+    locale: Locale = DEFAULT_LOCALE,
+    cashFlow?: CashFlowReport | null
+  ): Promise<string> {
+    const t = getMessages(locale).advice;
+
     if (summary.transactionCount === 0) {
-      return "No hay suficientes datos de gastos para generar consejos personalizados.";
+      return t.notEnoughData;
     }
 
-    const summaryText = this.buildSummaryText(summary, period);
+    let summaryText = this.buildSummaryText(summary, period);
+    if (cashFlow) summaryText += this.buildCashFlowText(cashFlow);
 
-    const systemPrompt = `Sos un asesor financiero personal amigable y cercano que ayuda a personas en Argentina a mejorar sus finanzas. Usas espanol rioplatense (vos en lugar de tu).
+    const systemPrompt = `Sos un asesor financiero personal amigable y cercano que ayuda a personas en Argentina a mejorar sus finanzas. Respondé en ${getLanguageName(locale)}.
 
-Dado el resumen de gastos del usuario, genera 3-4 consejos personalizados, concretos y accionables sobre:
+Dado el resumen de gastos del usuario (y sus ingresos y tasa de ahorro, si los tiene), genera 3-4 consejos personalizados, concretos y accionables sobre:
 - Patrones de gastos y donde puede ahorrar
+- Cuanto ahorra de lo que gana y como viene evolucionando mes a mes
 - Categorias donde esta gastando mucho
 - Recomendaciones practicas para Argentina (contexto de inflacion, economia local)
 - Un consejo positivo de refuerzo
@@ -48,7 +59,7 @@ IMPORTANTE:
       return advice;
     } catch (error) {
       this.logger.error("Failed to generate financial advice", error);
-      return "No pude generar consejos en este momento. Intenta mas tarde.";
+      return t.generationFailed;
     }
   }
 
@@ -62,6 +73,13 @@ IMPORTANTE:
       }
     }
 
+    if (summary.consolidated) {
+      const { currency, official, blue } = summary.consolidated;
+      lines.push(`\nTotal consolidado en ${currency}:`);
+      lines.push(`  Al dolar oficial: ${this.formatAmount(official, currency)}`);
+      lines.push(`  Al dolar blue: ${this.formatAmount(blue, currency)}`);
+    }
+
     if (summary.categoryBreakdown.length > 0) {
       lines.push("\nPor categoria:");
       for (const c of summary.categoryBreakdown) {
@@ -82,6 +100,24 @@ IMPORTANTE:
     return lines.join("\n");
   }
 
+  /** Income, savings rate and trend; months are oldest first */
+  private buildCashFlowText(report: CashFlowReport): string {
+    const lines: string[] = [`\n\nFlujo de caja (en ${report.currency}, al dolar oficial):`];
+
+    for (const m of report.months) {
+      const month = `${m.year}-${String(m.month).padStart(2, "0")}`;
+      const rate =
+        m.savingsRate !== null
+          ? `, tasa de ahorro ${m.savingsRate}%`
+          : ", sin ingresos registrados";
+      lines.push(
+        `  ${month}: ingresos ${this.formatAmount(m.income, report.currency)}, gastos ${this.formatAmount(m.expenses, report.currency)}${rate}`
+      );
+    }
+
+    return lines.join("\n");
+  }
+
   private formatAmount(amount: number, currency: string): string {
     if (currency === "ARS") {
       return `$${amount.toLocaleString("es-AR", { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ARS`;
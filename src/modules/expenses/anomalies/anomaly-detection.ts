@@ -0,0 +1,110 @@
+import type { AnomalyReason, Expense } from "@prisma-module/generated/client";
+
+import { matchesMerchant, normalizeMerchant } from "../merchant";
+
+/**
+ * Flags a new expense against the user's recent history: far above what
+ * they usually pay at the merchant (or in the category), a repeat of a
+ * charge recorded minutes before, or a large first purchase somewhere new.
+ */
+
+export interface DetectedAnomaly {
+  reasons: AnomalyReason[];
+  /** Median amount the comparison was made against (unusual amounts) */
+  usualAmount: number | null;
+  /** Earlier expense this one seems to repeat */
+  duplicateOf: Expense | null;
+}
+
+/** History considered "usual" */
+export const ANOMALY_LOOKBACK_DAYS = 180;
+
+// Same merchant and amount this close together: the same purchase twice
+const DUPLICATE_WINDOW_MS = 15 * 60 * 1000;
+// Past charges needed before an amount can be unusual
+const MIN_MERCHANT_SAMPLES = 3;
+const MIN_CATEGORY_SAMPLES = 5;
+// How many times the median counts as "far above"; categories vary more
+const MERCHANT_RATIO = 3;
+const CATEGORY_RATIO = 4;
+// New users have only first-time merchants; wait for some history
+const MIN_HISTORY_FOR_NEW_MERCHANT = 10;
+// First purchase at a merchant worth a heads-up, per currency
+const NEW_MERCHANT_THRESHOLDS: Record<string, number> = {
+  ARS: 150000,
+  USD: 150,
+  EUR: 150,
+  BRL: 750
+};
+
+/** `history` is the user's other expenses (the new one may be included, it is skipped) */
+export function detectAnomalies(expense: Expense, history: Expense[]): DetectedAnomaly | null {
+  const others = history.filter((e) => e.id !== expense.id);
+  const amount = Number(expense.amount);
+  const key = expense.merchant ? normalizeMerchant(expense.merchant) : "";
+
+  const sameMerchant = key
+    ? others.filter((e) => e.merchant && isSameMerchant(normalizeMerchant(e.merchant), key))
+    : [];
+
+  const reasons: AnomalyReason[] = [];
+  let usualAmount: number | null = null;
+
+  // Only the later copy is flagged, even if both are checked at the same time
+  const duplicateOf =
+    sameMerchant.find(
+      (e) =>
+        e.createdAt < expense.createdAt &&
+        e.currency === expense.currency &&
+        Math.abs(Number(e.amount) - amount) < 0.01 &&
+        Math.abs(e.date.getTime() - expense.date.getTime()) <= DUPLICATE_WINDOW_MS
+    ) ?? null;
+  if (duplicateOf) reasons.push("DUPLICATE");
+
+  const merchantAmounts = sameMerchant
+    .filter((e) => e.currency === expense.currency && e.id !== duplicateOf?.id)
+    .map((e) => Number(e.amount));
+  const categoryAmounts = others
+    .filter((e) => e.category === expense.category && e.currency === expense.currency)
+    .map((e) => Number(e.amount));
+
+  if (merchantAmounts.length >= MIN_MERCHANT_SAMPLES) {
+    const usual = median(merchantAmounts);
+    if (amount >= usual * MERCHANT_RATIO) {
+      reasons.push("UNUSUAL_FOR_MERCHANT");
+      usualAmount = usual;
+    }
+  } else if (categoryAmounts.length >= MIN_CATEGORY_SAMPLES) {
+    const usual = median(categoryAmounts);
+    if (amount >= usual * CATEGORY_RATIO) {
+      reasons.push("UNUSUAL_FOR_CATEGORY");
+      usualAmount = usual;
+    }
+  }
+
+  const threshold = NEW_MERCHANT_THRESHOLDS[expense.currency];
+  if (
+    key &&
+    sameMerchant.length === 0 &&
+    others.length >= MIN_HISTORY_FOR_NEW_MERCHANT &&
+    threshold !== undefined &&
+    amount >= threshold
+  ) {
+    reasons.push("NEW_MERCHANT");
+  }
+
+  return reasons.length > 0 ? { reasons, usualAmount, duplicateOf } : null;
+}
+
+/** "Mercado Libre" and "MercadoLibre" (two emails for one purchase) match too */
+function isSameMerchant(a: string, b: string): boolean {
+  return (
+    matchesMerchant(a, b) || matchesMerchant(b, a) || a.replace(/ /g, "") === b.replace(/ /g, "")
+  );
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
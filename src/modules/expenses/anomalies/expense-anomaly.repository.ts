@@ -0,0 +1,54 @@
+import type {
+  AnomalyReason,
+  AnomalyStatus,
+  Expense,
+  ExpenseAnomaly,
+  PrismaClient
+} from "@prisma-module/generated/client";
+
+export interface CreateAnomalyData {
+  userId: string;
+  expenseId: string;
+  reasons: AnomalyReason[];
+  usualAmount?: number | null;
+  duplicateOfId?: string | null;
+}
+
+export type ExpenseAnomalyWithExpense = ExpenseAnomaly & { expense: Expense };
+
+export class ExpenseAnomalyRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async create(data: CreateAnomalyData): Promise<ExpenseAnomaly> {
+    return this.prisma.expenseAnomaly.create({
+      data: {
+        userId: data.userId,
+        expenseId: data.expenseId,
+        reasons: data.reasons,
+        usualAmount: data.usualAmount ?? null,
+        duplicateOfId: data.duplicateOfId ?? null
+      }
+    });
+  }
+
+  async findById(id: string): Promise<ExpenseAnomalyWithExpense | null> {
+    return this.prisma.expenseAnomaly.findUnique({ where: { id }, include: { expense: true } });
+  }
+
+  /** Most recent alert the user hasn't answered yet */
+  async findLatestOpen(userId: string): Promise<ExpenseAnomalyWithExpense | null> {
+    return this.prisma.expenseAnomaly.findFirst({
+      where: { userId, status: "OPEN" },
+      orderBy: { createdAt: "desc" },
+      include: { expense: true }
+    });
+  }
+
+  async resolve(id: string, status: AnomalyStatus): Promise<ExpenseAnomalyWithExpense> {
+    return this.prisma.expenseAnomaly.update({
+      where: { id },
+      data: { status, resolvedAt: new Date() },
+      include: { expense: true }
+    });
+  }
+}
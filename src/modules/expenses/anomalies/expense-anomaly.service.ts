@@ -0,0 +1,149 @@
+import type { UserRepository } from "@modules/email/user/user.repository";
+import type { WhatsAppClient } from "@modules/whatsapp/client/whatsapp.client";
+import type { Expense } from "@prisma-module/generated/client";
+import { getMessages, type Locale, resolveLocale, toIntlLocale } from "@shared/i18n/i18n";
+import { createLogger } from "@shared/logger/logger";
+
+import type { ExpenseRepository } from "../expense.repository";
+import { ANOMALY_LOOKBACK_DAYS, type DetectedAnomaly, detectAnomalies } from "./anomaly-detection";
+import type {
+  ExpenseAnomalyRepository,
+  ExpenseAnomalyWithExpense
+} from "./expense-anomaly.repository";
+
+export type AnomalyAction = "dismiss" | "fraud";
+
+const ACTION_PREFIX = "anomaly_";
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** Option id for the alert buttons; carries the anomaly id so a tap targets its alert */
+export function anomalyActionId(anomalyId: string, action: AnomalyAction): string {
+  return `${ACTION_PREFIX}${action}_${anomalyId}`;
+}
+
+/** Parse an option id built above; null if it isn't an anomaly action */
+export function parseAnomalyActionId(
+  id: string
+): { anomalyId: string; action: AnomalyAction } | null {
+  const match = /^anomaly_(dismiss|fraud)_(.+)$/.exec(id);
+  return match ? { anomalyId: match[2], action: match[1] as AnomalyAction } : null;
+}
+
+/**
+ * Checks each new expense for unusual amounts, duplicates and large
+ * first-time merchants, and asks the user to confirm or report it.
+ */
+export class ExpenseAnomalyService {
+  private readonly logger = createLogger("expense-anomaly");
+
+  constructor(
+    private readonly anomalyRepository: ExpenseAnomalyRepository,
+    private readonly expenseRepository: ExpenseRepository,
+    private readonly whatsappClient: WhatsAppClient,
+    private readonly userRepository: UserRepository
+  ) {}
+
+  async checkExpense(expense: Expense): Promise<void> {
+    const from = new Date(expense.date.getTime() - ANOMALY_LOOKBACK_DAYS * MS_PER_DAY);
+    const history = await this.expenseRepository.findByUserAndDateRange(
+      expense.userId,
+      from,
+      new Date()
+    );
+
+    const detected = detectAnomalies(expense, history);
+    if (!detected) return;
+
+    const user = await this.userRepository.findById(expense.userId);
+    if (!user?.chatId) return;
+
+    const anomaly = await this.anomalyRepository.create({
+      userId: expense.userId,
+      expenseId: expense.id,
+      reasons: detected.reasons,
+      usualAmount: detected.usualAmount,
+      duplicateOfId: detected.duplicateOf?.id
+    });
+    this.logger.info(`Expense ${expense.id} flagged: ${detected.reasons.join(", ")}`);
+
+    const locale = resolveLocale(user.locale);
+    const t = getMessages(locale).anomalies;
+    const text = this.formatAlert(expense, detected, user.timezone, locale);
+
+    try {
+      await this.whatsappClient.sendButtons(
+        user.chatId,
+        text,
+        [
+          { id: anomalyActionId(anomaly.id, "dismiss"), text: t.dismissButton },
+          { id: anomalyActionId(anomaly.id, "fraud"), text: t.fraudButton }
+        ],
+        t.footer
+      );
+    } catch (error) {
+      this.logger.warn(`Anomaly buttons for ${anomaly.id} failed, sending plain text`, error);
+      await this.whatsappClient.sendMessage(user.chatId, `${text}\n\n${t.textHint}`);
+    }
+  }
+
+  /**
+   * The user's answer to an alert: the tapped one, or their latest open
+   * alert when they reply in words. Null if there is nothing to resolve.
+   */
+  async resolve(
+    userId: string,
+    action: AnomalyAction,
+    anomalyId?: string
+  ): Promise<ExpenseAnomalyWithExpense | null> {
+    const anomaly = anomalyId
+      ? await this.anomalyRepository.findById(anomalyId)
+      : await this.anomalyRepository.findLatestOpen(userId);
+    if (!anomaly || anomaly.userId !== userId) return null;
+    // A second tap on an answered alert changes nothing
+    if (anomaly.status !== "OPEN") return anomaly;
+
+    const resolved = await this.anomalyRepository.resolve(
+      anomaly.id,
+      action === "fraud" ? "FRAUD" : "DISMISSED"
+    );
+    this.logger.info(`Anomaly ${anomaly.id} resolved as ${resolved.status} by user ${userId}`);
+    return resolved;
+  }
+
+  private formatAlert(
+    expense: Expense,
+    detected: DetectedAnomaly,
+    timezone: string,
+    locale: Locale
+  ): string {
+    const { anomalies: t, expenses } = getMessages(locale);
+    const intlLocale = toIntlLocale(locale);
+    const amount = (value: number) =>
+      value.toLocaleString(intlLocale, { style: "currency", currency: expense.currency });
+    const merchant = expense.merchant ?? expenses.categories[expense.category] ?? expense.category;
+
+    const lines = detected.reasons.map((reason) => {
+      switch (reason) {
+        case "DUPLICATE":
+          return t.duplicate(
+            (detected.duplicateOf?.date ?? expense.date).toLocaleTimeString(intlLocale, {
+              timeZone: timezone,
+              hour: "2-digit",
+              minute: "2-digit"
+            })
+          );
+        case "UNUSUAL_FOR_MERCHANT":
+          return t.unusualForMerchant(amount(detected.usualAmount ?? 0));
+        case "UNUSUAL_FOR_CATEGORY":
+          return t.unusualForCategory(
+            expenses.categories[expense.category] ?? expense.category,
+            amount(detected.usualAmount ?? 0)
+          );
+        case "NEW_MERCHANT":
+          return t.newMerchant;
+      }
+    });
+
+    return `${t.title(amount(Number(expense.amount)), merchant)}\n${lines.map((l) => `• ${l}`).join("\n")}`;
+  }
+}
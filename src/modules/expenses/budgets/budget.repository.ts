@@ -0,0 +1,59 @@
+import type { Budget, ExpenseCategory, PrismaClient } from "@prisma-module/generated/client";
+
+export class BudgetRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /** Create or replace the limit; a new limit re-arms this month's alerts */
+  async upsert(
+    userId: string,
+    category: ExpenseCategory,
+    currency: string,
+    amount: number
+  ): Promise<Budget> {
+    return this.prisma.budget.upsert({
+      where: { userId_category_currency: { userId, category, currency } },
+      create: { userId, category, currency, amount },
+      update: { amount, alertedPercent: 0, alertedPeriod: null }
+    });
+  }
+
+  async findOne(
+    userId: string,
+    category: ExpenseCategory,
+    currency: string
+  ): Promise<Budget | null> {
+    return this.prisma.budget.findUnique({
+      where: { userId_category_currency: { userId, category, currency } }
+    });
+  }
+
+  async findByUser(userId: string): Promise<Budget[]> {
+    return this.prisma.budget.findMany({
+      where: { userId },
+      orderBy: [{ currency: "asc" }, { category: "asc" }]
+    });
+  }
+
+  /** Without a currency, removes the category's budget in every currency */
+  async delete(userId: string, category: ExpenseCategory, currency?: string): Promise<number> {
+    const result = await this.prisma.budget.deleteMany({
+      where: { userId, category, ...(currency && { currency }) }
+    });
+    return result.count;
+  }
+
+  /**
+   * Atomically records `percent` as alerted for `period`.
+   * Returns false if that threshold (or a higher one) was already recorded.
+   */
+  async recordAlert(id: string, percent: number, period: string): Promise<boolean> {
+    const result = await this.prisma.budget.updateMany({
+      where: {
+        id,
+        NOT: { alertedPeriod: period, alertedPercent: { gte: percent } }
+      },
+      data: { alertedPercent: percent, alertedPeriod: period }
+    });
+    return result.count > 0;
+  }
+}
@@ -0,0 +1,171 @@
+import type { UserRepository } from "@modules/email/user/user.repository";
+import type { WhatsAppClient } from "@modules/whatsapp/client/whatsapp.client";
+import type { Budget, Expense, ExpenseCategory } from "@prisma-module/generated/client";
+import {
+  DEFAULT_LOCALE,
+  getMessages,
+  type Locale,
+  resolveLocale,
+  toIntlLocale
+} from "@shared/i18n/i18n";
+import { createLogger } from "@shared/logger/logger";
+import { getZonedMonthRange, getZonedParts } from "@shared/timezone/timezone";
+
+import type { BudgetRepository } from "./budget.repository";
+import type { ExpenseRepository } from "../expense.repository";
+
+/** Share of a budget (in %) at which the user is alerted, once per month each */
+export const BUDGET_THRESHOLDS = [50, 80, 100];
+
+export interface BudgetStatus {
+  category: ExpenseCategory;
+  currency: string;
+  amount: number;
+  spent: number;
+  percent: number;
+}
+
+export class BudgetService {
+  private readonly logger = createLogger("budget");
+
+  constructor(
+    private readonly budgetRepository: BudgetRepository,
+    private readonly expenseRepository: ExpenseRepository,
+    private readonly whatsappClient: WhatsAppClient,
+    private readonly userRepository: UserRepository
+  ) {}
+
+  async setBudget(
+    userId: string,
+    category: ExpenseCategory,
+    currency: string,
+    amount: number
+  ): Promise<Budget> {
+    if (!(amount > 0)) {
+      throw new Error(`Invalid budget amount: ${amount}`);
+    }
+
+    const budget = await this.budgetRepository.upsert(
+      userId,
+      category,
+      currency.toUpperCase(),
+      amount
+    );
+    this.logger.info(`Budget set for user ${userId}: ${category} ${amount} ${budget.currency}`);
+    return budget;
+  }
+
+  async deleteBudget(
+    userId: string,
+    category: ExpenseCategory,
+    currency?: string
+  ): Promise<number> {
+    return this.budgetRepository.delete(userId, category, currency?.toUpperCase());
+  }
+
+  /** Spending against each budget for a calendar month in the user's timezone */
+  async getStatus(
+    userId: string,
+    year: number,
+    month: number,
+    timezone: string
+  ): Promise<BudgetStatus[]> {
+    const budgets = await this.budgetRepository.findByUser(userId);
+    if (budgets.length === 0) return [];
+
+    const { start, end } = getZonedMonthRange(year, month, timezone);
+    const breakdown = await this.expenseRepository.getCategoryBreakdown(userId, start, end);
+
+    return budgets.map((budget) => {
+      const amount = Number(budget.amount);
+      // Custom categories count toward the built-in category they sit on
+      const spent = breakdown
+        .filter((b) => b.category === budget.category && b.currency === budget.currency)
+        .reduce((sum, b) => sum + b.total, 0);
+      return {
+        category: budget.category,
+        currency: budget.currency,
+        amount,
+        spent,
+        percent: Math.round((spent / amount) * 100)
+      };
+    });
+  }
+
+  async getCurrentStatus(userId: string, timezone: string): Promise<BudgetStatus[]> {
+    const { year, month } = getZonedParts(new Date(), timezone);
+    return this.getStatus(userId, year, month, timezone);
+  }
+
+  /**
+   * Alert the user when an expense pushes its category past the next
+   * threshold of this month's budget. Each threshold is sent once per month.
+   */
+  async checkExpense(expense: Expense): Promise<void> {
+    const budget = await this.budgetRepository.findOne(
+      expense.userId,
+      expense.category,
+      expense.currency
+    );
+    if (!budget) return;
+
+    const user = await this.userRepository.findById(expense.userId);
+    if (!user?.chatId) return;
+
+    const { year, month } = getZonedParts(new Date(), user.timezone);
+    const period = `${year}-${String(month).padStart(2, "0")}`;
+
+    const status = (await this.getStatus(user.id, year, month, user.timezone)).find(
+      (s) => s.category === budget.category && s.currency === budget.currency
+    );
+    if (!status) return;
+
+    const crossed = BUDGET_THRESHOLDS.filter((threshold) => status.percent >= threshold).at(-1);
+    const alreadyAlerted = budget.alertedPeriod === period ? budget.alertedPercent : 0;
+    if (!crossed || crossed <= alreadyAlerted) return;
+
+    // Claim the threshold before sending so concurrent expenses don't send the same alert twice
+    if (!(await this.budgetRepository.recordAlert(budget.id, crossed, period))) return;
+
+    const locale = resolveLocale(user.locale);
+    const { budgets: t, expenses } = getMessages(locale);
+    const intlLocale = toIntlLocale(locale);
+    await this.whatsappClient.sendMessage(
+      user.chatId,
+      t.alert(
+        crossed,
+        expenses.categories[status.category] ?? status.category,
+        this.formatAmount(status.spent, status.currency, intlLocale),
+        this.formatAmount(status.amount, status.currency, intlLocale)
+      )
+    );
+    this.logger.info(`Budget alert (${crossed}%) sent to ${user.chatId} for ${budget.category}`);
+  }
+
+  /** One line per budget: "🟡 Comida: $150.000 de $200.000 (75%)" */
+  formatStatus(statuses: BudgetStatus[], locale: Locale = DEFAULT_LOCALE): string {
+    const { budgets: t, expenses } = getMessages(locale);
+    const intlLocale = toIntlLocale(locale);
+
+    return statuses
+      .map((s) => {
+        const icon = s.percent >= 100 ? "🔴" : s.percent >= 80 ? "🟡" : "🟢";
+        return t.statusLine(
+          icon,
+          expenses.categories[s.category] ?? s.category,
+          this.formatAmount(s.spent, s.currency, intlLocale),
+          this.formatAmount(s.amount, s.currency, intlLocale),
+          s.percent
+        );
+      })
+      .join("\n");
+  }
+
+  private formatAmount(amount: number, currency: string, intlLocale: string): string {
+    return amount.toLocaleString(intlLocale, {
+      style: "currency",
+      currency,
+      maximumFractionDigits: 0
+    });
+  }
+}
@@ -0,0 +1,191 @@
+import {
+  convertAmount,
+  type ExchangeRateService
+} from "@modules/dollar/rates/exchange-rate.service";
+import type { ExchangeRate } from "@prisma-module/generated/client";
+import { DEFAULT_LOCALE, getMessages, type Locale, toIntlLocale } from "@shared/i18n/i18n";
+import { createLogger } from "@shared/logger/logger";
+import { DEFAULT_TIMEZONE, getZonedMonthRange } from "@shared/timezone/timezone";
+
+import type { ExpenseRepository } from "../expense.repository";
+import type { IncomeRepository } from "../income/income.repository";
+
+/** Months shown in the trend, the reported one included */
+const TREND_MONTHS = 3;
+
+export interface CashFlowMonth {
+  year: number;
+  month: number;
+  income: number;
+  expenses: number;
+  net: number;
+  /** Share of income left after expenses, in %; null without income */
+  savingsRate: number | null;
+}
+
+/** Income and spending per month, all in the user's currency at the official rate */
+export interface CashFlowReport {
+  currency: string;
+  /** Oldest first; the last one is the reported month */
+  months: CashFlowMonth[];
+  /** Movements in currencies we have no quote for, left out of the totals */
+  unconverted: number;
+}
+
+/** Money in vs. money out: savings rate and how it moves month to month */
+export class CashFlowService {
+  private readonly logger = createLogger("cash-flow");
+
+  constructor(
+    private readonly incomeRepository: IncomeRepository,
+    private readonly expenseRepository: ExpenseRepository,
+    private readonly exchangeRateService?: ExchangeRateService
+  ) {}
+
+  async getReport(
+    userId: string,
+    year: number,
+    month: number,
+    timezone: string = DEFAULT_TIMEZONE,
+    months: number = TREND_MONTHS
+  ): Promise<CashFlowReport> {
+    const currency = await this.expenseRepository.getPreferredCurrency(userId);
+    const report: CashFlowReport = { currency, months: [], unconverted: 0 };
+    // Movements recorded before rates were stored use today's quote
+    let todayRate: ExchangeRate | null | undefined;
+
+    const toCurrency = async (
+      amount: number,
+      from: string,
+      rate: ExchangeRate | null
+    ): Promise<number | null> => {
+      if (from === currency) return amount;
+      if (!rate && this.exchangeRateService) {
+        if (todayRate === undefined) {
+          todayRate = await this.exchangeRateService.getForDate(new Date());
+        }
+        rate = todayRate;
+      }
+      return rate && convertAmount(amount, from, currency, rate, "official");
+    };
+
+    for (let offset = months - 1; offset >= 0; offset--) {
+      // Date.UTC normalizes months below 1 into the previous year
+      const date = new Date(Date.UTC(year, month - 1 - offset, 1));
+      const entry: CashFlowMonth = {
+        year: date.getUTCFullYear(),
+        month: date.getUTCMonth() + 1,
+        income: 0,
+        expenses: 0,
+        net: 0,
+        savingsRate: null
+      };
+
+      const { start, end } = getZonedMonthRange(entry.year, entry.month, timezone);
+      const [incomes, expenses] = await Promise.all([
+        this.incomeRepository.findWithRatesByUserAndDateRange(userId, start, end),
+        this.expenseRepository.findWithRatesByUserAndDateRange(userId, start, end)
+      ]);
+
+      for (const income of incomes) {
+        const amount = await toCurrency(
+          Number(income.amount),
+          income.currency,
+          income.exchangeRate
+        );
+        if (amount == null) report.unconverted++;
+        else entry.income += amount;
+      }
+      for (const expense of expenses) {
+        const amount = await toCurrency(
+          Number(expense.amount),
+          expense.currency,
+          expense.exchangeRate
+        );
+        if (amount == null) report.unconverted++;
+        else entry.expenses += amount;
+      }
+
+      entry.net = entry.income - entry.expenses;
+      entry.savingsRate = entry.income > 0 ? Math.round((entry.net / entry.income) * 100) : null;
+      report.months.push(entry);
+    }
+
+    const current = report.months[report.months.length - 1];
+    this.logger.debug(
+      `Cash flow for user ${userId} ${current.year}-${current.month}: +${current.income} -${current.expenses}`
+    );
+    return report;
+  }
+
+  /** False until the user logs some income: without it there is no savings rate */
+  hasIncome(report: CashFlowReport): boolean {
+    return report.months.some((m) => m.income > 0);
+  }
+
+  /** True when the reported month has neither income nor expenses */
+  isEmpty(report: CashFlowReport): boolean {
+    const current = report.months[report.months.length - 1];
+    return !current || (current.income === 0 && current.expenses === 0);
+  }
+
+  formatReport(
+    report: CashFlowReport,
+    timezone: string = DEFAULT_TIMEZONE,
+    locale: Locale = DEFAULT_LOCALE
+  ): string {
+    const t = getMessages(locale).cashFlow;
+    const current = report.months[report.months.length - 1];
+    const previous = report.months[report.months.length - 2];
+    const amount = (value: number) => this.formatAmount(value, report.currency, locale);
+
+    let message = t.title(this.monthLabel(current, timezone, locale, "long"));
+    message += t.income(amount(current.income));
+    message += t.expenses(amount(current.expenses));
+    message += t.net(amount(current.net), current.net >= 0);
+    message += current.savingsRate !== null ? t.savingsRate(current.savingsRate) : t.noIncome;
+
+    if (previous) {
+      if (current.savingsRate !== null && previous.savingsRate !== null) {
+        message += t.rateChange(current.savingsRate - previous.savingsRate);
+      }
+      if (previous.expenses > 0) {
+        message += t.expensesChange(Math.round((current.expenses / previous.expenses - 1) * 100));
+      }
+
+      message += t.trendTitle;
+      for (const entry of report.months) {
+        message += t.trendLine(
+          this.monthLabel(entry, timezone, locale, "short"),
+          amount(entry.income),
+          amount(entry.expenses),
+          entry.savingsRate
+        );
+      }
+    }
+
+    if (report.unconverted > 0) message += t.unconverted(report.unconverted);
+    return message.trimEnd();
+  }
+
+  private monthLabel(
+    entry: CashFlowMonth,
+    timezone: string,
+    locale: Locale,
+    style: "long" | "short"
+  ): string {
+    const label = getZonedMonthRange(entry.year, entry.month, timezone).start.toLocaleString(
+      toIntlLocale(locale),
+      { timeZone: timezone, month: style, year: "numeric" }
+    );
+    return label.charAt(0).toUpperCase() + label.slice(1);
+  }
+
+  private formatAmount(amount: number, currency: string, locale: Locale): string {
+    return amount.toLocaleString(toIntlLocale(locale), {
+      style: "currency",
+      currency,
+      maximumFractionDigits: 0
+    });
+  }
+}
@@ -0,0 +1,25 @@
+import type { CategoryRule, ExpenseCategory, PrismaClient } from "@prisma-module/generated/client";
+
+export class CategoryRuleRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async upsert(
+    userId: string,
+    merchantKey: string,
+    merchant: string,
+    category: ExpenseCategory
+  ): Promise<CategoryRule> {
+    return this.prisma.categoryRule.upsert({
+      where: { userId_merchantKey: { userId, merchantKey } },
+      create: { userId, merchantKey, merchant, category },
+      update: { merchant, category }
+    });
+  }
+
+  async findByUser(userId: string): Promise<CategoryRule[]> {
+    return this.prisma.categoryRule.findMany({
+      where: { userId },
+      orderBy: { merchant: "asc" }
+    });
+  }
+}
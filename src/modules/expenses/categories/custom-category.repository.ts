@@ -0,0 +1,26 @@
+import type { CustomCategory, PrismaClient } from "@prisma-module/generated/client";
+
+export class CustomCategoryRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async create(userId: string, key: string, name: string): Promise<CustomCategory> {
+    return this.prisma.customCategory.create({ data: { userId, key, name } });
+  }
+
+  async findByKey(userId: string, key: string): Promise<CustomCategory | null> {
+    return this.prisma.customCategory.findUnique({ where: { userId_key: { userId, key } } });
+  }
+
+  async findByUser(userId: string): Promise<CustomCategory[]> {
+    return this.prisma.customCategory.findMany({
+      where: { userId },
+      orderBy: { name: "asc" }
+    });
+  }
+
+  /** Its expenses fall back to their built-in category */
+  async delete(userId: string, key: string): Promise<number> {
+    const result = await this.prisma.customCategory.deleteMany({ where: { userId, key } });
+    return result.count;
+  }
+}
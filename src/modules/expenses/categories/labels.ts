@@ -0,0 +1,10 @@
+/** Tag or custom category name as stored and matched: "#Viaje Bariloche" → "viaje-bariloche" */
+export function normalizeLabel(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/^#+/, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
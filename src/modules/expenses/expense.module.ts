@@ -0,0 +1,77 @@
+import { Elysia } from "elysia";
+
+import type { UserService } from "@modules/email/user/user.service";
+import { env } from "@shared/env/env";
+import { resolveLocale } from "@shared/i18n/i18n";
+import { createLogger } from "@shared/logger/logger";
+
+import {
+  EXPORT_FORMATS,
+  resolveExportRange,
+  type ExpenseExportService,
+  type ExportFormat
+} from "./export/expense-export.service";
+
+const logger = createLogger("expense-module");
+
+function jsonError(status: number, error: string): Response {
+  return new Response(JSON.stringify({ ok: false, error }), {
+    status,
+    headers: { "Content-Type": "application/json" }
+  });
+}
+
+/**
+ * Expense export for the website (website → bot, authenticated with the
+ * shared WEBHOOK_SECRET like the other server-to-server routes).
+ * GET /expenses/export?userId=...&format=csv|xlsx|ofx&from=YYYY-MM-DD&to=YYYY-MM-DD
+ */
+export function createExpenseModule(exportService: ExpenseExportService, userService: UserService) {
+  const { WEBHOOK_SECRET } = env();
+
+  return new Elysia({ prefix: "/expenses" }).get("/export", async ({ query, headers }) => {
+    if (headers["x-webhook-secret"] !== WEBHOOK_SECRET) {
+      return jsonError(401, "Unauthorized");
+    }
+
+    const { userId, format = "csv", from, to } = query;
+    if (!userId || typeof userId !== "string") {
+      return jsonError(400, "Missing userId parameter");
+    }
+    if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+      return jsonError(400, `Invalid format, expected one of: ${EXPORT_FORMATS.join(", ")}`);
+    }
+
+    const user = await userService.getUserById(userId);
+    if (!user) {
+      return jsonError(404, "User not found");
+    }
+
+    // Days are local to the user; defaults to the current month
+    const range = resolveExportRange(from, to, user.timezone);
+    if (!range) {
+      return jsonError(400, "Invalid date range, expected from/to as YYYY-MM-DD");
+    }
+
+    try {
+      const file = await exportService.export(
+        user.id,
+        range.start,
+        range.end,
+        format as ExportFormat,
+        resolveLocale(user.locale),
+        user.timezone
+      );
+
+      return new Response(new Uint8Array(file.data), {
+        headers: {
+          "Content-Type": file.mimeType,
+          "Content-Disposition": `attachment; filename="${file.fileName}"`
+        }
+      });
+    } catch (error) {
+      logger.error(`Expense export failed for user ${user.id}`, error);
+      return jsonError(500, "Export failed");
+    }
+  });
+}
@@ -1,4 +1,11 @@
-import type { Expense, ExpenseCategory, PrismaClient } from "@prisma-module/generated/client";
+import type {
+  CustomCategory,
+  ExchangeRate,
+  Expense,
+  ExpenseCategory,
+  Prisma,
+  PrismaClient
+} from "@prisma-module/generated/client";
 import { createLogger } from "@shared/logger/logger";
 
 export interface CreateExpenseData {
@@ -10,22 +17,53 @@ export interface CreateExpenseData {
   category: ExpenseCategory;
   description?: string | null;
   date: Date;
+  exchangeRateId?: string | null;
+  customCategoryId?: string | null;
+  tags?: string[];
 }
 
+export type ExpenseWithRate = Expense & { exchangeRate: ExchangeRate | null };
+
+export type ExpenseWithCategory = Expense & { customCategory: CustomCategory | null };
+
+export type UpdateExpenseData = Partial<
+  Pick<
+    CreateExpenseData,
+    | "merchant"
+    | "amount"
+    | "currency"
+    | "category"
+    | "description"
+    | "date"
+    | "exchangeRateId"
+    | "customCategoryId"
+    | "tags"
+  >
+>;
+
 export interface ExpenseTotals {
   currency: string;
   total: number;
 }
 
 export interface CategoryBreakdown {
-  category: string;
+  category: ExpenseCategory;
+  /** Name of the user's own category, when the expense has one */
+  customCategory: string | null;
   currency: string;
   total: number;
 }
 
+/** Narrows queries to one tag or one custom category */
+export interface ExpenseFilter {
+  tag?: string;
+  customCategoryId?: string;
+}
+
 export interface UserWithChat {
   userId: string;
   chatId: string;
+  locale: string;
 }
 
 export class ExpenseRepository {
@@ -33,7 +71,7 @@ export class ExpenseRepository {
 
   constructor(private readonly prisma: PrismaClient) {}
 
-  async create(data: CreateExpenseData): Promise<Expense> {
+  async create(data: CreateExpenseData): Promise<ExpenseWithCategory> {
     return this.prisma.expense.create({
       data: {
         userId: data.userId,
@@ -43,32 +81,107 @@ export class ExpenseRepository {
         currency: data.currency,
         category: data.category,
         description: data.description ?? null,
-        date: data.date
-      }
+        date: data.date,
+        exchangeRateId: data.exchangeRateId ?? null,
+        customCategoryId: data.customCategoryId ?? null,
+        tags: data.tags ?? []
+      },
+      include: { customCategory: true }
     });
   }
 
-  async findByUserAndDateRange(userId: string, from: Date, to: Date): Promise<Expense[]> {
+  async findById(id: string): Promise<ExpenseWithCategory | null> {
+    return this.prisma.expense.findUnique({ where: { id }, include: { customCategory: true } });
+  }
+
+  /** Most recently recorded first (by creation, not by purchase date) */
+  async findRecentByUser(userId: string, limit: number): Promise<ExpenseWithCategory[]> {
     return this.prisma.expense.findMany({
-      where: {
-        userId,
-        date: { gte: from, lte: to }
-      },
+      where: { userId },
+      orderBy: { createdAt: "desc" },
+      take: limit,
+      include: { customCategory: true }
+    });
+  }
+
+  /** The user's expenses among `ids`, most recently recorded first */
+  async findByIdsForUser(userId: string, ids: string[]): Promise<ExpenseWithCategory[]> {
+    return this.prisma.expense.findMany({
+      where: { userId, id: { in: ids } },
+      orderBy: { createdAt: "desc" },
+      include: { customCategory: true }
+    });
+  }
+
+  async update(id: string, data: UpdateExpenseData): Promise<ExpenseWithCategory> {
+    return this.prisma.expense.update({ where: { id }, data, include: { customCategory: true } });
+  }
+
+  async deleteMany(ids: string[]): Promise<number> {
+    const result = await this.prisma.expense.deleteMany({ where: { id: { in: ids } } });
+    return result.count;
+  }
+
+  /** Every merchant the user spent at, with the expense ids (for re-labelling) */
+  async findMerchantsByUser(
+    userId: string
+  ): Promise<{ id: string; merchant: string; category: ExpenseCategory }[]> {
+    const expenses = await this.prisma.expense.findMany({
+      where: { userId, merchant: { not: null } },
+      select: { id: true, merchant: true, category: true }
+    });
+    return expenses.filter((e): e is typeof e & { merchant: string } => e.merchant !== null);
+  }
+
+  async updateCategory(ids: string[], category: ExpenseCategory): Promise<number> {
+    const result = await this.prisma.expense.updateMany({
+      where: { id: { in: ids } },
+      data: { category }
+    });
+    return result.count;
+  }
+
+  async findByUserAndDateRange(
+    userId: string,
+    from: Date,
+    to: Date,
+    filter?: ExpenseFilter
+  ): Promise<Expense[]> {
+    return this.prisma.expense.findMany({
+      where: this.rangeWhere(userId, from, to, filter),
       orderBy: { date: "desc" }
     });
   }
 
+  async findWithRatesByUserAndDateRange(
+    userId: string,
+    from: Date,
+    to: Date,
+    filter?: ExpenseFilter
+  ): Promise<ExpenseWithRate[]> {
+    return this.prisma.expense.findMany({
+      where: this.rangeWhere(userId, from, to, filter),
+      include: { exchangeRate: true }
+    });
+  }
+
+  async getPreferredCurrency(userId: string): Promise<string> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { currency: true }
+    });
+    return user?.currency ?? "ARS";
+  }
+
   async getTotalsByCurrencyAndPeriod(
     userId: string,
     from: Date,
-    to: Date
+    to: Date,
+    filter?: ExpenseFilter
   ): Promise<ExpenseTotals[]> {
     const result = await this.prisma.expense.groupBy({
       by: ["currency"],
-      where: {
-        userId,
-        date: { gte: from, lte: to }
-      },
+      where: this.rangeWhere(userId, from, to, filter),
       _sum: { amount: true }
     });
 
@@ -78,18 +191,36 @@ export class ExpenseRepository {
     }));
   }
 
-  async getCategoryBreakdown(userId: string, from: Date, to: Date): Promise<CategoryBreakdown[]> {
+  /** One row per built-in category, custom category and currency */
+  async getCategoryBreakdown(
+    userId: string,
+    from: Date,
+    to: Date,
+    filter?: ExpenseFilter
+  ): Promise<CategoryBreakdown[]> {
     const result = await this.prisma.expense.groupBy({
-      by: ["category", "currency"],
-      where: {
-        userId,
-        date: { gte: from, lte: to }
-      },
+      by: ["category", "customCategoryId", "currency"],
+      where: this.rangeWhere(userId, from, to, filter),
       _sum: { amount: true }
     });
 
+    const customIds = [
+      ...new Set(result.map((r) => r.customCategoryId).filter((id): id is string => !!id))
+    ];
+    const customNames = new Map(
+      customIds.length > 0
+        ? (
+            await this.prisma.customCategory.findMany({
+              where: { id: { in: customIds } },
+              select: { id: true, name: true }
+            })
+          ).map((c) => [c.id, c.name])
+        : []
+    );
+
     return result.map((r) => ({
       category: r.category,
+      customCategory: r.customCategoryId ? (customNames.get(r.customCategoryId) ?? null) : null,
       currency: r.currency,
       total: Number(r._sum.amount ?? 0)
     }));
@@ -99,13 +230,13 @@ export class ExpenseRepository {
     userId: string,
     from: Date,
     to: Date,
-    limit = 5
+    limit = 5,
+    filter?: ExpenseFilter
   ): Promise<{ merchant: string; currency: string; total: number }[]> {
     const result = await this.prisma.expense.groupBy({
       by: ["merchant", "currency"],
       where: {
-        userId,
-        date: { gte: from, lte: to },
+        ...this.rangeWhere(userId, from, to, filter),
         merchant: { not: null }
       },
       _sum: { amount: true },
@@ -122,31 +253,34 @@ export class ExpenseRepository {
       }));
   }
 
-  async countByUserAndDateRange(userId: string, from: Date, to: Date): Promise<number> {
+  async countByUserAndDateRange(
+    userId: string,
+    from: Date,
+    to: Date,
+    filter?: ExpenseFilter
+  ): Promise<number> {
     return this.prisma.expense.count({
-      where: {
-        userId,
-        date: { gte: from, lte: to }
-      }
+      where: this.rangeWhere(userId, from, to, filter)
     });
   }
 
-  async findUsersWithExpenses(from: Date, to: Date): Promise<UserWithChat[]> {
+  async findUsersWithExpenses(from: Date, to: Date, timezone?: string): Promise<UserWithChat[]> {
     const users = await this.prisma.user.findMany({
       where: {
         chatId: { not: null },
+        ...(timezone && { timezone }),
         expenses: {
           some: {
             date: { gte: from, lte: to }
           }
         }
       },
-      select: { id: true, chatId: true }
+      select: { id: true, chatId: true, locale: true }
     });
 
     return users
       .filter((u): u is typeof u & { chatId: string } => u.chatId !== null)
-      .map((u) => ({ userId: u.id, chatId: u.chatId }));
+      .map((u) => ({ userId: u.id, chatId: u.chatId, locale: u.locale }));
   }
 
   async existsByProcessedEmailId(processedEmailId: string): Promise<boolean> {
@@ -155,4 +289,20 @@ export class ExpenseRepository {
     });
     return count > 0;
   }
+
+  /** Charges the user reported as fraud are left out of totals, budgets and reports */
+  private rangeWhere(
+    userId: string,
+    from: Date,
+    to: Date,
+    filter?: ExpenseFilter
+  ): Prisma.ExpenseWhereInput {
+    return {
+      userId,
+      date: { gte: from, lte: to },
+      NOT: { anomaly: { is: { status: "FRAUD" } } },
+      ...(filter?.tag && { tags: { has: filter.tag } }),
+      ...(filter?.customCategoryId && { customCategoryId: filter.customCategoryId })
+    };
+  }
 }
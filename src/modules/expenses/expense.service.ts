@@ -1,10 +1,49 @@
-import type { Expense, ExpenseCategory } from "@prisma-module/generated/client";
+import {
+  convertAmount,
+  type ExchangeRateService
+} from "@modules/dollar/rates/exchange-rate.service";
+import type {
+  CategoryRule,
+  CustomCategory,
+  ExchangeRate,
+  Expense,
+  ExpenseCategory
+} from "@prisma-module/generated/client";
 import { createLogger } from "@shared/logger/logger";
+import {
+  DEFAULT_TIMEZONE,
+  getZonedMonthRange,
+  getZonedParts,
+  zonedTimeToUtc
+} from "@shared/timezone/timezone";
 
-import type { ExpenseRepository } from "./expense.repository";
+import type { ExpenseAnomalyService } from "./anomalies/expense-anomaly.service";
+import type { BudgetService } from "./budgets/budget.service";
+import type { CategoryRuleRepository } from "./categories/category-rule.repository";
+import type { CustomCategoryRepository } from "./categories/custom-category.repository";
+import { normalizeLabel } from "./categories/labels";
+import type {
+  ExpenseFilter,
+  ExpenseRepository,
+  ExpenseWithCategory,
+  UpdateExpenseData
+} from "./expense.repository";
+import { matchesMerchant, normalizeMerchant } from "./merchant";
+
+/** Every expense converted to the user's currency with the rates of its date */
+export interface ConsolidatedTotal {
+  currency: string;
+  official: number;
+  blue: number;
+  /** Expenses in currencies we have no quote for, left out of the totals */
+  unconverted: number;
+}
 
 export interface ExpenseSummary {
   totals: { currency: string; amount: number }[];
+  /** Null when everything was already spent in the user's currency */
+  consolidated: ConsolidatedTotal | null;
+  /** Built-in category, or the user's own category name when the expense has one */
   categoryBreakdown: { category: string; currency: string; amount: number }[];
   transactionCount: number;
   topMerchants: { merchant: string; amount: number; currency: string }[];
@@ -24,10 +63,60 @@ interface StoredExpenseData {
   category?: string | null;
 }
 
+/** Expense typed or dictated in chat ("gaste 4500 en el super") */
+export interface ManualExpenseInput {
+  amount: number;
+  currency: string;
+  merchant?: string | null;
+  category?: string | null;
+  description?: string | null;
+  date: Date;
+  /** Name of one of the user's own categories */
+  customCategory?: string | null;
+  tags?: string[] | null;
+}
+
+export type ManualExpenseChanges = Partial<ManualExpenseInput>;
+
+/** Summary filter as the user says it: a tag and/or one of their category names */
+export interface ExpenseFilterInput {
+  tag?: string | null;
+  customCategory?: string | null;
+}
+
+/** How far back "the last N expenses" can reach when editing or deleting */
+const MAX_RECENT_EXPENSES = 20;
+
+export const EXPENSE_CATEGORIES: ExpenseCategory[] = [
+  "FOOD",
+  "TRANSPORT",
+  "SHOPPING",
+  "UTILITIES",
+  "ENTERTAINMENT",
+  "HEALTH",
+  "EDUCATION",
+  "TRAVEL",
+  "SERVICES",
+  "OTHER"
+];
+
+/** Category as written by the LLM, or null if it isn't one of ours */
+export function parseExpenseCategory(raw: string): ExpenseCategory | null {
+  const upper = raw.trim().toUpperCase() as ExpenseCategory;
+  return EXPENSE_CATEGORIES.includes(upper) ? upper : null;
+}
+
 export class ExpenseService {
   private readonly logger = createLogger("expense-service");
 
-  constructor(private readonly expenseRepository: ExpenseRepository) {}
+  constructor(
+    private readonly expenseRepository: ExpenseRepository,
+    private readonly budgetService?: BudgetService,
+    private readonly exchangeRateService?: ExchangeRateService,
+    private readonly categoryRuleRepository?: CategoryRuleRepository,
+    private readonly customCategoryRepository?: CustomCategoryRepository,
+    private readonly anomalyService?: ExpenseAnomalyService
+  ) {}
 
   async createFromEmail(processedEmail: ProcessedEmailData): Promise<Expense | null> {
     // Avoid creating duplicate expenses
@@ -59,7 +148,11 @@ export class ExpenseService {
       return null;
     }
 
-    const category = this.mapCategory(expenseData.category ?? "OTHER");
+    const category = await this.resolveCategory(
+      processedEmail.userId,
+      expenseData.merchant,
+      expenseData.category
+    );
 
     try {
       const expense = await this.expenseRepository.create({
@@ -69,12 +162,15 @@ export class ExpenseService {
         amount,
         currency,
         category,
-        date: processedEmail.receivedAt
+        date: processedEmail.receivedAt,
+        exchangeRateId: await this.getRateId(processedEmail.receivedAt)
       });
 
       this.logger.info(
         `Created expense ${expense.id}: ${amount} ${currency} @ ${expenseData.merchant ?? "unknown"}`
       );
+      this.checkBudget(expense);
+      this.checkAnomalies(expense);
 
       return expense;
     } catch (error) {
@@ -83,55 +179,324 @@ export class ExpenseService {
     }
   }
 
-  async getMonthlySummary(userId: string, year: number, month: number): Promise<ExpenseSummary> {
-    const { from, to } = this.getMonthRange(year, month);
-    return this.getSummaryForRange(userId, from, to);
+  /** Expense read from a receipt or invoice the user sent (not linked to an email) */
+  async createFromExtraction(
+    userId: string,
+    expenseData: StoredExpenseData,
+    date: Date,
+    description?: string
+  ): Promise<Expense | null> {
+    const { amount, currency } = expenseData;
+
+    if (!amount || amount <= 0 || !currency) {
+      this.logger.debug(`Invalid extracted expense (amount=${amount}, currency=${currency})`);
+      return null;
+    }
+
+    const expense = await this.expenseRepository.create({
+      userId,
+      merchant: expenseData.merchant ?? null,
+      amount,
+      currency,
+      category: await this.resolveCategory(userId, expenseData.merchant, expenseData.category),
+      description,
+      date,
+      exchangeRateId: await this.getRateId(date)
+    });
+
+    this.logger.info(
+      `Created expense ${expense.id}: ${amount} ${currency} @ ${expenseData.merchant ?? "unknown"}`
+    );
+    this.checkBudget(expense);
+    this.checkAnomalies(expense);
+
+    return expense;
+  }
+
+  async createManual(userId: string, input: ManualExpenseInput): Promise<ExpenseWithCategory> {
+    if (!(input.amount > 0)) {
+      throw new Error(`Invalid expense amount: ${input.amount}`);
+    }
+
+    const customCategory = input.customCategory
+      ? await this.findCustomCategory(userId, input.customCategory)
+      : null;
+
+    const expense = await this.expenseRepository.create({
+      userId,
+      merchant: input.merchant ?? null,
+      amount: input.amount,
+      currency: input.currency.toUpperCase(),
+      category: await this.resolveCategory(userId, input.merchant, input.category),
+      description: input.description ?? null,
+      date: input.date,
+      exchangeRateId: await this.getRateId(input.date),
+      customCategoryId: customCategory?.id ?? null,
+      tags: this.normalizeTags(input.tags)
+    });
+
+    this.logger.info(
+      `Logged expense ${expense.id}: ${input.amount} ${input.currency} @ ${input.merchant ?? "unknown"}`
+    );
+    this.checkBudget(expense);
+    this.checkAnomalies(expense);
+
+    return expense;
+  }
+
+  async getRecentExpenses(userId: string, limit: number = 5): Promise<ExpenseWithCategory[]> {
+    return this.expenseRepository.findRecentByUser(userId, Math.min(limit, MAX_RECENT_EXPENSES));
+  }
+
+  /**
+   * Edit one of the user's latest expenses; `position` is 1 for the most
+   * recently recorded. Returns null if there is no expense at that position.
+   */
+  async updateRecentExpense(
+    userId: string,
+    position: number,
+    changes: ManualExpenseChanges
+  ): Promise<ExpenseWithCategory | null> {
+    if (position < 1 || position > MAX_RECENT_EXPENSES) return null;
+
+    const recent = await this.expenseRepository.findRecentByUser(userId, position);
+    const expense = recent[position - 1];
+    if (!expense) return null;
+
+    const data: UpdateExpenseData = {};
+    if (changes.amount !== undefined && changes.amount > 0) data.amount = changes.amount;
+    if (changes.currency) data.currency = changes.currency.toUpperCase();
+    if (changes.merchant !== undefined) data.merchant = changes.merchant;
+    if (changes.category) data.category = this.mapCategory(changes.category);
+    if (changes.description !== undefined) data.description = changes.description;
+    if (changes.date) {
+      data.date = changes.date;
+      data.exchangeRateId = await this.getRateId(changes.date);
+    }
+    if (changes.customCategory !== undefined) {
+      const customCategory = changes.customCategory
+        ? await this.findCustomCategory(userId, changes.customCategory)
+        : null;
+      data.customCategoryId = customCategory?.id ?? null;
+    }
+    // New tags are added to the ones the expense already has
+    const tags = this.normalizeTags(changes.tags);
+    if (tags.some((tag) => !expense.tags.includes(tag))) {
+      data.tags = [...new Set([...expense.tags, ...tags])];
+    }
+
+    if (Object.keys(data).length === 0) return expense;
+
+    this.logger.info(`Updating expense ${expense.id}: ${Object.keys(data).join(", ")}`);
+    const updated = await this.expenseRepository.update(expense.id, data);
+    this.checkBudget(updated);
+
+    // A corrected category is remembered for the merchant's future expenses
+    if (data.category && updated.merchant) {
+      await this.learnCategory(userId, updated.merchant, data.category);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Remember the category of a merchant ("lo de Rappi es comida") and
+   * re-label the user's existing expenses there. Returns how many changed.
+   */
+  async setCategoryRule(
+    userId: string,
+    merchant: string,
+    category: ExpenseCategory
+  ): Promise<{ rule: CategoryRule; relabelled: number } | null> {
+    const rule = await this.learnCategory(userId, merchant, category);
+    if (!rule) return null;
+
+    // Expenses a more specific rule covers ("rappi turbo" vs "rappi") keep theirs
+    const rules = await this.getCategoryRules(userId);
+    const ids = (await this.expenseRepository.findMerchantsByUser(userId))
+      .filter(
+        (e) =>
+          e.category !== category &&
+          this.findRule(rules, normalizeMerchant(e.merchant))?.id === rule.id
+      )
+      .map((e) => e.id);
+    const relabelled =
+      ids.length > 0 ? await this.expenseRepository.updateCategory(ids, category) : 0;
+
+    this.logger.info(`Re-labelled ${relabelled} expense(s) at ${merchant} as ${category}`);
+    return { rule, relabelled };
+  }
+
+  /** The user's merchant → category rules, as hints for the expense extractor */
+  async getCategoryRules(userId: string): Promise<CategoryRule[]> {
+    return this.categoryRuleRepository?.findByUser(userId) ?? [];
+  }
+
+  /** A category of the user's own ("viaje a Bariloche"); null if one with that name exists */
+  async createCustomCategory(userId: string, name: string): Promise<CustomCategory | null> {
+    if (!this.customCategoryRepository) return null;
+    const key = normalizeLabel(name);
+    if (!key || (await this.customCategoryRepository.findByKey(userId, key))) return null;
+
+    const category = await this.customCategoryRepository.create(userId, key, name.trim());
+    this.logger.info(`Created custom category "${category.name}" for user ${userId}`);
+    return category;
+  }
+
+  /** Removes the category; its expenses keep their built-in category */
+  async deleteCustomCategory(userId: string, name: string): Promise<boolean> {
+    if (!this.customCategoryRepository) return false;
+    const key = normalizeLabel(name);
+    if (!key) return false;
+
+    const deleted = await this.customCategoryRepository.delete(userId, key);
+    if (deleted > 0) this.logger.info(`Deleted custom category "${key}" for user ${userId}`);
+    return deleted > 0;
+  }
+
+  async getCustomCategories(userId: string): Promise<CustomCategory[]> {
+    return this.customCategoryRepository?.findByUser(userId) ?? [];
+  }
+
+  async findCustomCategory(userId: string, name: string): Promise<CustomCategory | null> {
+    const key = normalizeLabel(name);
+    if (!key || !this.customCategoryRepository) return null;
+    return this.customCategoryRepository.findByKey(userId, key);
+  }
+
+  /**
+   * Turns what the user asked for into a repository filter. Null when they
+   * named a category of their own that doesn't exist.
+   */
+  async resolveFilter(
+    userId: string,
+    input: ExpenseFilterInput
+  ): Promise<ExpenseFilter | undefined | null> {
+    const tag = input.tag ? normalizeLabel(input.tag) : "";
+    let customCategoryId: string | undefined;
+    if (input.customCategory) {
+      const category = await this.findCustomCategory(userId, input.customCategory);
+      if (!category) return null;
+      customCategoryId = category.id;
+    }
+
+    if (!tag && !customCategoryId) return undefined;
+    return { tag: tag || undefined, customCategoryId };
+  }
+
+  /**
+   * Delete the given expenses; ids that are gone or belong to someone else
+   * are skipped. Returns the ones removed.
+   */
+  async deleteExpenses(userId: string, expenseIds: string[]): Promise<ExpenseWithCategory[]> {
+    const expenses = await this.expenseRepository.findByIdsForUser(userId, expenseIds);
+    if (expenses.length === 0) return [];
+
+    await this.expenseRepository.deleteMany(expenses.map((e) => e.id));
+    this.logger.info(`Deleted ${expenses.length} expense(s) for user ${userId}`);
+    return expenses;
+  }
+
+  /** Undo a just-logged expense; only the owner can remove it */
+  async deleteExpense(userId: string, expenseId: string): Promise<ExpenseWithCategory | null> {
+    const expense = await this.expenseRepository.findById(expenseId);
+    if (!expense || expense.userId !== userId) return null;
+
+    await this.expenseRepository.deleteMany([expense.id]);
+    this.logger.info(`Deleted expense ${expense.id} for user ${userId}`);
+    return expense;
+  }
+
+  async getMonthlySummary(
+    userId: string,
+    year: number,
+    month: number,
+    timezone: string = DEFAULT_TIMEZONE,
+    filter?: ExpenseFilter
+  ): Promise<ExpenseSummary> {
+    const { start, end } = getZonedMonthRange(year, month, timezone);
+    return this.getSummaryForRange(userId, start, end, filter);
   }
 
-  async getWeeklySummary(userId: string, weekStart: Date): Promise<ExpenseSummary> {
-    const from = new Date(weekStart);
-    from.setHours(0, 0, 0, 0);
-    const to = new Date(from);
-    to.setDate(to.getDate() + 6);
-    to.setHours(23, 59, 59, 999);
-    return this.getSummaryForRange(userId, from, to);
+  /** `weekStart` is expected to be local midnight (see getZonedWeekStart) */
+  async getWeeklySummary(
+    userId: string,
+    weekStart: Date,
+    timezone: string = DEFAULT_TIMEZONE,
+    filter?: ExpenseFilter
+  ): Promise<ExpenseSummary> {
+    const { year, month, day } = getZonedParts(weekStart, timezone);
+    const to = new Date(zonedTimeToUtc({ year, month, day: day + 7 }, timezone).getTime() - 1);
+    return this.getSummaryForRange(userId, weekStart, to, filter);
   }
 
-  async getSummaryForDateRange(userId: string, from: Date, to: Date): Promise<ExpenseSummary> {
-    return this.getSummaryForRange(userId, from, to);
+  async getSummaryForDateRange(
+    userId: string,
+    from: Date,
+    to: Date,
+    filter?: ExpenseFilter
+  ): Promise<ExpenseSummary> {
+    return this.getSummaryForRange(userId, from, to, filter);
   }
 
-  async getCurrentMonthSummary(userId: string): Promise<ExpenseSummary> {
-    const now = new Date();
-    return this.getMonthlySummary(userId, now.getFullYear(), now.getMonth() + 1);
+  async getCurrentMonthSummary(
+    userId: string,
+    timezone: string = DEFAULT_TIMEZONE,
+    filter?: ExpenseFilter
+  ): Promise<ExpenseSummary> {
+    const { year, month } = getZonedParts(new Date(), timezone);
+    return this.getMonthlySummary(userId, year, month, timezone, filter);
   }
 
-  async getLastMonthSummary(userId: string): Promise<ExpenseSummary> {
-    const now = new Date();
-    let year = now.getFullYear();
-    let month = now.getMonth(); // 0-indexed, so this is last month
+  async getLastMonthSummary(
+    userId: string,
+    timezone: string = DEFAULT_TIMEZONE
+  ): Promise<ExpenseSummary> {
+    const now = getZonedParts(new Date(), timezone);
+    let year = now.year;
+    let month = now.month - 1;
     if (month === 0) {
       month = 12;
       year--;
     }
-    return this.getMonthlySummary(userId, year, month);
+    return this.getMonthlySummary(userId, year, month, timezone);
   }
 
-  private async getSummaryForRange(userId: string, from: Date, to: Date): Promise<ExpenseSummary> {
-    const [totals, categoryBreakdown, topMerchants, transactionCount] = await Promise.all([
-      this.expenseRepository.getTotalsByCurrencyAndPeriod(userId, from, to),
-      this.expenseRepository.getCategoryBreakdown(userId, from, to),
-      this.expenseRepository.getTopMerchants(userId, from, to),
-      this.expenseRepository.countByUserAndDateRange(userId, from, to)
+  private async getSummaryForRange(
+    userId: string,
+    from: Date,
+    to: Date,
+    filter?: ExpenseFilter
+  ): Promise<ExpenseSummary> {
+    const [totals, breakdown, topMerchants, transactionCount] = await Promise.all([
+      this.expenseRepository.getTotalsByCurrencyAndPeriod(userId, from, to, filter),
+      this.expenseRepository.getCategoryBreakdown(userId, from, to, filter),
+      this.expenseRepository.getTopMerchants(userId, from, to, 5, filter),
+      this.expenseRepository.countByUserAndDateRange(userId, from, to, filter)
     ]);
 
+    const consolidated = await this.getConsolidatedTotal(
+      userId,
+      from,
+      to,
+      totals.map((t) => t.currency),
+      filter
+    );
+
+    // A custom category replaces the built-in one it was recorded under
+    const categoryBreakdown = new Map<string, ExpenseSummary["categoryBreakdown"][number]>();
+    for (const row of breakdown) {
+      const category = row.customCategory ?? row.category;
+      const key = `${category}|${row.currency}`;
+      const entry = categoryBreakdown.get(key) ?? { category, currency: row.currency, amount: 0 };
+      entry.amount += row.total;
+      categoryBreakdown.set(key, entry);
+    }
+
     return {
       totals: totals.map((t) => ({ currency: t.currency, amount: t.total })),
-      categoryBreakdown: categoryBreakdown.map((c) => ({
-        category: c.category,
-        currency: c.currency,
-        amount: c.total
-      })),
+      consolidated,
+      categoryBreakdown: [...categoryBreakdown.values()],
       transactionCount,
       topMerchants: topMerchants.map((m) => ({
         merchant: m.merchant,
@@ -141,26 +506,111 @@ export class ExpenseService {
     };
   }
 
-  private getMonthRange(year: number, month: number): { from: Date; to: Date } {
-    const from = new Date(year, month - 1, 1, 0, 0, 0, 0);
-    const to = new Date(year, month, 0, 23, 59, 59, 999);
-    return { from, to };
+  private async getConsolidatedTotal(
+    userId: string,
+    from: Date,
+    to: Date,
+    currencies: string[],
+    filter?: ExpenseFilter
+  ): Promise<ConsolidatedTotal | null> {
+    if (!this.exchangeRateService || currencies.length === 0) return null;
+
+    const currency = await this.expenseRepository.getPreferredCurrency(userId);
+    if (currencies.length === 1 && currencies[0] === currency) return null;
+
+    const expenses = await this.expenseRepository.findWithRatesByUserAndDateRange(
+      userId,
+      from,
+      to,
+      filter
+    );
+    const total: ConsolidatedTotal = { currency, official: 0, blue: 0, unconverted: 0 };
+    // Expenses recorded before rates were stored use today's quote
+    let todayRate: ExchangeRate | null | undefined;
+
+    for (const expense of expenses) {
+      let rate = expense.exchangeRate;
+      if (!rate) {
+        if (todayRate === undefined) {
+          todayRate = await this.exchangeRateService.getForDate(new Date());
+        }
+        rate = todayRate;
+      }
+
+      const amount = Number(expense.amount);
+      const official = rate && convertAmount(amount, expense.currency, currency, rate, "official");
+      const blue = rate && convertAmount(amount, expense.currency, currency, rate, "blue");
+      if (official == null || blue == null) {
+        total.unconverted++;
+        continue;
+      }
+
+      total.official += official;
+      total.blue += blue;
+    }
+
+    return total;
+  }
+
+  /** Lowercase, without "#", deduplicated */
+  private normalizeTags(tags: string[] | null | undefined): string[] {
+    return [...new Set((tags ?? []).map(normalizeLabel).filter(Boolean))];
+  }
+
+  private async getRateId(date: Date): Promise<string | null> {
+    if (!this.exchangeRateService) return null;
+    return (await this.exchangeRateService.getForDate(date))?.id ?? null;
+  }
+
+  /** Budget alerts go out in the background so they never delay or fail the expense */
+  private checkBudget(expense: Expense): void {
+    this.budgetService?.checkExpense(expense).catch((error) => {
+      this.logger.error(`Budget check failed for expense ${expense.id}`, error);
+    });
+  }
+
+  /** New expenses only: unusual amounts, duplicates and large first-time merchants */
+  private checkAnomalies(expense: Expense): void {
+    this.anomalyService?.checkExpense(expense).catch((error) => {
+      this.logger.error(`Anomaly check failed for expense ${expense.id}`, error);
+    });
+  }
+
+  private async learnCategory(
+    userId: string,
+    merchant: string,
+    category: ExpenseCategory
+  ): Promise<CategoryRule | null> {
+    const key = normalizeMerchant(merchant);
+    if (!this.categoryRuleRepository || !key) return null;
+
+    this.logger.info(`Learned category ${category} for ${merchant} (user ${userId})`);
+    return this.categoryRuleRepository.upsert(userId, key, merchant, category);
+  }
+
+  /** The user's rule for the merchant wins over the category the LLM guessed */
+  private async resolveCategory(
+    userId: string,
+    merchant: string | null | undefined,
+    raw: string | null | undefined
+  ): Promise<ExpenseCategory> {
+    const key = merchant ? normalizeMerchant(merchant) : "";
+    if (key && this.categoryRuleRepository) {
+      const rule = this.findRule(await this.categoryRuleRepository.findByUser(userId), key);
+      if (rule) return rule.category;
+    }
+
+    return this.mapCategory(raw ?? "OTHER");
+  }
+
+  /** Most specific rule matching the merchant ("rappi turbo" over "rappi") */
+  private findRule(rules: CategoryRule[], merchantKey: string): CategoryRule | undefined {
+    return rules
+      .filter((r) => matchesMerchant(merchantKey, r.merchantKey))
+      .sort((a, b) => b.merchantKey.length - a.merchantKey.length)[0];
   }
 
   private mapCategory(raw: string): ExpenseCategory {
-    const valid = [
-      "FOOD",
-      "TRANSPORT",
-      "SHOPPING",
-      "UTILITIES",
-      "ENTERTAINMENT",
-      "HEALTH",
-      "EDUCATION",
-      "TRAVEL",
-      "SERVICES",
-      "OTHER"
-    ];
-    const upper = raw.toUpperCase();
-    return (valid.includes(upper) ? upper : "OTHER") as ExpenseCategory;
+    return parseExpenseCategory(raw) ?? "OTHER";
   }
 }
@@ -0,0 +1,195 @@
+import type { Expense } from "@prisma-module/generated/client";
+import { DEFAULT_LOCALE, getMessages, type Locale } from "@shared/i18n/i18n";
+import { createLogger } from "@shared/logger/logger";
+import {
+  DEFAULT_TIMEZONE,
+  getZonedMonthRange,
+  getZonedParts,
+  zonedTimeToUtc
+} from "@shared/timezone/timezone";
+
+import { buildXlsx, escapeXml, type XlsxCell } from "./xlsx";
+import type { ExpenseRepository } from "../expense.repository";
+
+export type ExportFormat = "csv" | "xlsx" | "ofx";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "xlsx", "ofx"];
+
+export interface ExportFile {
+  data: Buffer;
+  fileName: string;
+  mimeType: string;
+  /** Number of expenses in the file */
+  count: number;
+}
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ofx: "application/x-ofx"
+};
+
+/**
+ * Export period from local "YYYY-MM-DD" days (both inclusive), defaulting to
+ * the current month. Null when a day is malformed or the range is empty.
+ */
+export function resolveExportRange(
+  from: string | undefined,
+  to: string | undefined,
+  timezone: string
+): { start: Date; end: Date } | null {
+  const parseDay = (value: string, offset: number): Date | null => {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+    if (!match) return null;
+    const [year, month, day] = match.slice(1).map(Number);
+    return zonedTimeToUtc({ year, month, day: day + offset }, timezone);
+  };
+
+  const now = getZonedParts(new Date(), timezone);
+  const month = getZonedMonthRange(now.year, now.month, timezone);
+
+  const start = from ? parseDay(from, 0) : month.start;
+  const nextDay = to ? parseDay(to, 1) : null;
+  const end = nextDay ? new Date(nextDay.getTime() - 1) : to ? null : month.end;
+
+  if (!start || !end || end <= start) return null;
+  return { start, end };
+}
+
+/**
+ * Raw expense data for accountants and personal finance apps: CSV and XLSX
+ * with one row per expense, OFX as one statement per currency.
+ */
+export class ExpenseExportService {
+  private readonly logger = createLogger("expense-export");
+
+  constructor(private readonly expenseRepository: ExpenseRepository) {}
+
+  async export(
+    userId: string,
+    from: Date,
+    to: Date,
+    format: ExportFormat,
+    locale: Locale = DEFAULT_LOCALE,
+    timezone: string = DEFAULT_TIMEZONE
+  ): Promise<ExportFile> {
+    const expenses = (await this.expenseRepository.findByUserAndDateRange(userId, from, to))
+      // Oldest first, the way statements read
+      .reverse();
+
+    const data =
+      format === "csv"
+        ? this.toCsv(expenses, locale, timezone)
+        : format === "xlsx"
+          ? this.toXlsx(expenses, locale, timezone)
+          : this.toOfx(expenses, from, to, locale);
+
+    const prefix = getMessages(locale).expenses.export.filePrefix;
+    const fileName = `${prefix}_${this.formatDay(from, timezone)}_${this.formatDay(to, timezone)}.${format}`;
+
+    this.logger.info(`Exported ${expenses.length} expenses for user ${userId} as ${format}`);
+    return { data, fileName, mimeType: MIME_TYPES[format], count: expenses.length };
+  }
+
+  private toRows(expenses: Expense[], locale: Locale, timezone: string): XlsxCell[][] {
+    const t = getMessages(locale).expenses;
+    const c = t.export.columns;
+
+    return [
+      [c.date, c.merchant, c.category, c.description, c.amount, c.currency, c.source],
+      ...expenses.map((e) => [
+        this.formatDay(e.date, timezone),
+        e.merchant ?? "",
+        t.categories[e.category] ?? e.category,
+        e.description ?? "",
+        Number(e.amount),
+        e.currency,
+        e.processedEmailId ? t.export.sourceEmail : t.export.sourceManual
+      ])
+    ];
+  }
+
+  private toCsv(expenses: Expense[], locale: Locale, timezone: string): Buffer {
+    const quote = (value: XlsxCell) => {
+      let text = value === null ? "" : String(value);
+      // Merchants and descriptions come from emails: keep spreadsheets from running them as formulas
+      if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+      return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    const csv = this.toRows(expenses, locale, timezone)
+      .map((row) => row.map(quote).join(","))
+      .join("\r\n");
+
+    // BOM so Excel opens accents correctly
+    return Buffer.from(`\uFEFF${csv}\r\n`, "utf8");
+  }
+
+  private toXlsx(expenses: Expense[], locale: Locale, timezone: string): Buffer {
+    const sheetName = getMessages(locale).expenses.export.filePrefix;
+    return buildXlsx(this.toRows(expenses, locale, timezone), sheetName);
+  }
+
+  private toOfx(expenses: Expense[], from: Date, to: Date, locale: Locale): Buffer {
+    const t = getMessages(locale).expenses;
+    const byCurrency = new Map<string, Expense[]>();
+    for (const expense of expenses) {
+      const list = byCurrency.get(expense.currency) ?? [];
+      list.push(expense);
+      byCurrency.set(expense.currency, list);
+    }
+
+    const statements = [...byCurrency].map(([currency, items], index) => {
+      const total = items.reduce((sum, e) => sum + Number(e.amount), 0);
+      const transactions = items
+        .map((e) => {
+          const memo = [t.categories[e.category] ?? e.category, e.description]
+            .filter(Boolean)
+            .join(" - ");
+          return (
+            `<STMTTRN><TRNTYPE>DEBIT</TRNTYPE>` +
+            `<DTPOSTED>${this.ofxDate(e.date)}</DTPOSTED>` +
+            `<TRNAMT>-${Number(e.amount).toFixed(2)}</TRNAMT>` +
+            `<FITID>${e.id}</FITID>` +
+            `<NAME>${escapeXml((e.merchant ?? memo).slice(0, 32))}</NAME>` +
+            (memo ? `<MEMO>${escapeXml(memo.slice(0, 255))}</MEMO>` : "") +
+            `</STMTTRN>`
+          );
+        })
+        .join("\n");
+
+      return (
+        `<STMTTRNRS><TRNUID>${index + 1}</TRNUID>` +
+        `<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>` +
+        `<STMTRS><CURDEF>${currency}</CURDEF>` +
+        `<BANKACCTFROM><BANKID>MEMORIAL</BANKID><ACCTID>EXPENSES-${currency}</ACCTID>` +
+        `<ACCTTYPE>CHECKING</ACCTTYPE></BANKACCTFROM>` +
+        `<BANKTRANLIST><DTSTART>${this.ofxDate(from)}</DTSTART><DTEND>${this.ofxDate(to)}</DTEND>\n` +
+        `${transactions}\n</BANKTRANLIST>` +
+        `<LEDGERBAL><BALAMT>-${total.toFixed(2)}</BALAMT><DTASOF>${this.ofxDate(to)}</DTASOF></LEDGERBAL>` +
+        `</STMTRS></STMTTRNRS>`
+      );
+    });
+
+    const ofx =
+      `<?xml version="1.0" encoding="UTF-8" standalone="no"?>\n` +
+      `<?OFX OFXHEADER="200" VERSION="220" SECURITY="NONE" OLDFILEUID="NONE" NEWFILEUID="NONE"?>\n` +
+      `<OFX>\n<SIGNONMSGSRSV1><SONRS>` +
+      `<STATUS><CODE>0</CODE><SEVERITY>INFO</SEVERITY></STATUS>` +
+      `<DTSERVER>${this.ofxDate(new Date())}</DTSERVER>` +
+      `<LANGUAGE>${locale === "en" ? "ENG" : "SPA"}</LANGUAGE>` +
+      `</SONRS></SIGNONMSGSRSV1>\n` +
+      `<BANKMSGSRSV1>\n${statements.join("\n")}\n</BANKMSGSRSV1>\n</OFX>\n`;
+
+    return Buffer.from(ofx, "utf8");
+  }
+
+  /** OFX datetime in UTC: YYYYMMDDHHMMSS[0:GMT] */
+  private ofxDate(date: Date): string {
+    return `${date.toISOString().replace(/[-:T]/g, "").slice(0, 14)}[0:GMT]`;
+  }
+
+  private formatDay(date: Date, timezone: string): string {
+    const { year, month, day } = getZonedParts(date, timezone);
+    return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+  }
+}
@@ -0,0 +1,69 @@
+import type { GroupShareRow } from "./expense-group.repository";
+
+/** Settle-up step: `fromUserId` pays `amount` to `toUserId` */
+export interface GroupDebt {
+  fromUserId: string;
+  toUserId: string;
+  currency: string;
+  amount: number;
+}
+
+// Leftover cents from splitting are not worth a transfer
+const MIN_DEBT = 0.01;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Who owes whom in a group, per currency: each member's net position
+ * (shares owed on others' expenses minus settlements) paired greedily, so
+ * there are at most members - 1 transfers per currency.
+ */
+export function simplifyDebts(
+  shares: GroupShareRow[],
+  settlements: { fromUserId: string; toUserId: string; currency: string; amount: number }[]
+): GroupDebt[] {
+  // currency → userId → balance (positive: is owed money)
+  const net = new Map<string, Map<string, number>>();
+  const add = (currency: string, userId: string, amount: number) => {
+    const balances = net.get(currency) ?? new Map<string, number>();
+    balances.set(userId, (balances.get(userId) ?? 0) + amount);
+    net.set(currency, balances);
+  };
+
+  for (const share of shares) {
+    if (share.userId === share.paidById) continue;
+    add(share.currency, share.paidById, share.amount);
+    add(share.currency, share.userId, -share.amount);
+  }
+  for (const settlement of settlements) {
+    add(settlement.currency, settlement.fromUserId, settlement.amount);
+    add(settlement.currency, settlement.toUserId, -settlement.amount);
+  }
+
+  const debts: GroupDebt[] = [];
+  for (const [currency, balances] of net) {
+    const entries = [...balances].map(([userId, amount]) => ({ userId, amount: round(amount) }));
+    const creditors = entries
+      .filter((e) => e.amount >= MIN_DEBT)
+      .sort((a, b) => b.amount - a.amount);
+    const debtors = entries
+      .filter((e) => e.amount <= -MIN_DEBT)
+      .sort((a, b) => a.amount - b.amount);
+
+    let c = 0;
+    for (const debtor of debtors) {
+      let owed = -debtor.amount;
+      while (owed >= MIN_DEBT && c < creditors.length) {
+        const creditor = creditors[c];
+        const amount = round(Math.min(owed, creditor.amount));
+        debts.push({ fromUserId: debtor.userId, toUserId: creditor.userId, currency, amount });
+
+        owed = round(owed - amount);
+        creditor.amount = round(creditor.amount - amount);
+        if (creditor.amount < MIN_DEBT) c++;
+      }
+    }
+  }
+
+  return debts;
+}
@@ -0,0 +1,118 @@
+import type {
+  ExpenseGroup,
+  ExpenseGroupMember,
+  GroupMemberStatus,
+  GroupSettlement,
+  PrismaClient,
+  User
+} from "@prisma-module/generated/client";
+
+export type ExpenseGroupWithMembers = ExpenseGroup & {
+  members: (ExpenseGroupMember & { user: User })[];
+};
+
+export interface GroupShareRow {
+  /** Member who owes the share */
+  userId: string;
+  /** Member who paid the expense */
+  paidById: string;
+  currency: string;
+  amount: number;
+}
+
+const WITH_MEMBERS = {
+  members: { include: { user: true }, orderBy: { createdAt: "asc" as const } }
+};
+
+export class ExpenseGroupRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /** The creator joins as an active member */
+  async create(name: string, userId: string): Promise<ExpenseGroupWithMembers> {
+    return this.prisma.expenseGroup.create({
+      data: {
+        name,
+        createdById: userId,
+        members: { create: { userId, status: "ACTIVE" } }
+      },
+      include: WITH_MEMBERS
+    });
+  }
+
+  async findById(id: string): Promise<ExpenseGroupWithMembers | null> {
+    return this.prisma.expenseGroup.findUnique({ where: { id }, include: WITH_MEMBERS });
+  }
+
+  async findByMember(
+    userId: string,
+    status: GroupMemberStatus = "ACTIVE"
+  ): Promise<ExpenseGroupWithMembers[]> {
+    return this.prisma.expenseGroup.findMany({
+      where: { members: { some: { userId, status } } },
+      include: WITH_MEMBERS,
+      orderBy: { createdAt: "asc" }
+    });
+  }
+
+  /** Invites the user unless they are already in the group */
+  async addMember(groupId: string, userId: string): Promise<ExpenseGroupMember> {
+    return this.prisma.expenseGroupMember.upsert({
+      where: { groupId_userId: { groupId, userId } },
+      create: { groupId, userId },
+      update: {}
+    });
+  }
+
+  async activateMember(groupId: string, userId: string): Promise<void> {
+    await this.prisma.expenseGroupMember.update({
+      where: { groupId_userId: { groupId, userId } },
+      data: { status: "ACTIVE" }
+    });
+  }
+
+  async removeMember(groupId: string, userId: string): Promise<void> {
+    await this.prisma.expenseGroupMember.deleteMany({ where: { groupId, userId } });
+  }
+
+  /** Replaces whatever the expense was split into before */
+  async replaceShares(
+    groupId: string,
+    expenseId: string,
+    shares: { userId: string; amount: number }[]
+  ): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.expenseShare.deleteMany({ where: { expenseId } }),
+      this.prisma.expenseShare.createMany({
+        data: shares.map((s) => ({ groupId, expenseId, userId: s.userId, amount: s.amount }))
+      })
+    ]);
+  }
+
+  async findShares(groupId: string): Promise<GroupShareRow[]> {
+    const shares = await this.prisma.expenseShare.findMany({
+      where: { groupId },
+      include: { expense: { select: { userId: true, currency: true } } }
+    });
+
+    return shares.map((s) => ({
+      userId: s.userId,
+      paidById: s.expense.userId,
+      currency: s.expense.currency,
+      amount: Number(s.amount)
+    }));
+  }
+
+  async createSettlement(data: {
+    groupId: string;
+    fromUserId: string;
+    toUserId: string;
+    amount: number;
+    currency: string;
+  }): Promise<GroupSettlement> {
+    return this.prisma.groupSettlement.create({ data });
+  }
+
+  async findSettlements(groupId: string): Promise<GroupSettlement[]> {
+    return this.prisma.groupSettlement.findMany({ where: { groupId } });
+  }
+}
@@ -0,0 +1,229 @@
+import type { UserRepository } from "@modules/email/user/user.repository";
+import { phoneToChatId } from "@modules/reminders/scheduler/nagging";
+import type { WhatsAppClient } from "@modules/whatsapp/client/whatsapp.client";
+import type { Expense, User } from "@prisma-module/generated/client";
+import {
+  getMessages,
+  type Locale,
+  type Messages,
+  resolveLocale,
+  toIntlLocale
+} from "@shared/i18n/i18n";
+import { createLogger } from "@shared/logger/logger";
+
+import { type GroupDebt, simplifyDebts } from "./balances";
+import type { ExpenseGroupRepository, ExpenseGroupWithMembers } from "./expense-group.repository";
+import { normalizeLabel } from "../categories/labels";
+
+export type GroupInviteResult =
+  | { status: "invited"; invitee: User }
+  | { status: "already_member"; invitee: User }
+  | { status: "not_linked" }
+  | { status: "self" };
+
+export interface ExpenseShareResult {
+  /** What each of the other members owes for the expense */
+  shares: { user: User; amount: number }[];
+}
+
+/** Name to show for a member: profile name or WhatsApp number */
+export function memberName(user: User): string {
+  return user.name ?? `+${(user.chatId ?? "").replace(/\D/g, "")}`;
+}
+
+export function activeMembers(group: ExpenseGroupWithMembers): User[] {
+  return group.members.filter((m) => m.status === "ACTIVE").map((m) => m.user);
+}
+
+/**
+ * Expenses shared between linked users (partners, roommates): members
+ * invite each other by phone, split expenses by ratio and settle up.
+ */
+export class ExpenseGroupService {
+  private readonly logger = createLogger("expense-group");
+
+  constructor(
+    private readonly groupRepository: ExpenseGroupRepository,
+    private readonly userRepository: UserRepository,
+    private readonly whatsappClient: WhatsAppClient
+  ) {}
+
+  async createGroup(userId: string, name: string): Promise<ExpenseGroupWithMembers> {
+    const group = await this.groupRepository.create(name.trim(), userId);
+    this.logger.info(`Created expense group ${group.id} "${group.name}" for user ${userId}`);
+    return group;
+  }
+
+  async getGroups(userId: string): Promise<ExpenseGroupWithMembers[]> {
+    return this.groupRepository.findByMember(userId);
+  }
+
+  async getGroup(id: string): Promise<ExpenseGroupWithMembers | null> {
+    return this.groupRepository.findById(id);
+  }
+
+  /** Groups the user was invited to and hasn't answered */
+  async getInvitations(userId: string): Promise<ExpenseGroupWithMembers[]> {
+    return this.groupRepository.findByMember(userId, "INVITED");
+  }
+
+  /** Picks a group by (part of) its name; without a name, the only one the user has */
+  findGroup(
+    groups: ExpenseGroupWithMembers[],
+    name?: string | null
+  ): ExpenseGroupWithMembers | null {
+    if (!name) return groups.length === 1 ? groups[0] : null;
+
+    const key = normalizeLabel(name);
+    if (!key) return null;
+    return (
+      groups.find((g) => normalizeLabel(g.name) === key) ??
+      groups.find((g) => normalizeLabel(g.name).includes(key)) ??
+      null
+    );
+  }
+
+  /** Invites the bot user with that phone; the handler asks them to accept */
+  async invite(
+    group: ExpenseGroupWithMembers,
+    inviterId: string,
+    phone: string
+  ): Promise<GroupInviteResult> {
+    const invitee = await this.userRepository.findByChatId(phoneToChatId(phone));
+    if (!invitee) return { status: "not_linked" };
+    if (invitee.id === inviterId) return { status: "self" };
+
+    if (group.members.some((m) => m.userId === invitee.id)) {
+      return { status: "already_member", invitee };
+    }
+
+    await this.groupRepository.addMember(group.id, invitee.id);
+    this.logger.info(`Invited user ${invitee.id} to expense group ${group.id}`);
+    return { status: "invited", invitee };
+  }
+
+  /** Null when the user has no pending invitation to the group */
+  async acceptInvitation(userId: string, groupId: string): Promise<ExpenseGroupWithMembers | null> {
+    const group = await this.groupRepository.findById(groupId);
+    const member = group?.members.find((m) => m.userId === userId);
+    if (!group || member?.status !== "INVITED") return null;
+
+    await this.groupRepository.activateMember(groupId, userId);
+    this.logger.info(`User ${userId} joined expense group ${groupId}`);
+
+    for (const other of activeMembers(group)) {
+      await this.notify(other, (t) => t.memberJoined(memberName(member.user), group.name));
+    }
+    return group;
+  }
+
+  async declineInvitation(
+    userId: string,
+    groupId: string
+  ): Promise<ExpenseGroupWithMembers | null> {
+    const group = await this.groupRepository.findById(groupId);
+    const member = group?.members.find((m) => m.userId === userId);
+    if (!group || member?.status !== "INVITED") return null;
+
+    await this.groupRepository.removeMember(groupId, userId);
+    return group;
+  }
+
+  /**
+   * Splits an expense the user paid with the group's other active members.
+   * `payerPercent` is the part the payer keeps (default: equal parts).
+   * Null when the payer is the only active member.
+   */
+  async shareExpense(
+    expense: Expense,
+    group: ExpenseGroupWithMembers,
+    payerPercent?: number | null
+  ): Promise<ExpenseShareResult | null> {
+    const members = activeMembers(group);
+    const payer = members.find((u) => u.id === expense.userId);
+    const others = members.filter((u) => u.id !== expense.userId);
+    if (!payer || others.length === 0) return null;
+
+    const payerShare =
+      payerPercent != null ? Math.min(Math.max(payerPercent, 0), 100) / 100 : 1 / members.length;
+    const rest = Number(expense.amount) * (1 - payerShare);
+    const each = Math.floor((rest / others.length) * 100) / 100;
+    // The first member takes the leftover cents
+    const shares = others.map((user, index) => ({
+      user,
+      amount: index === 0 ? Math.round((rest - each * (others.length - 1)) * 100) / 100 : each
+    }));
+
+    await this.groupRepository.replaceShares(
+      group.id,
+      expense.id,
+      shares.map((s) => ({ userId: s.user.id, amount: s.amount }))
+    );
+    this.logger.info(`Expense ${expense.id} shared in group ${group.id} among ${members.length}`);
+
+    for (const share of shares) {
+      await this.notify(share.user, (t, locale) =>
+        t.expenseShared(
+          memberName(payer),
+          group.name,
+          this.formatAmount(Number(expense.amount), expense.currency, locale),
+          expense.merchant ?? expense.description,
+          this.formatAmount(share.amount, expense.currency, locale)
+        )
+      );
+    }
+
+    return { shares };
+  }
+
+  /** Transfers that would leave everyone even */
+  async getBalances(groupId: string): Promise<GroupDebt[]> {
+    const [shares, settlements] = await Promise.all([
+      this.groupRepository.findShares(groupId),
+      this.groupRepository.findSettlements(groupId)
+    ]);
+
+    return simplifyDebts(
+      shares,
+      settlements.map((s) => ({ ...s, amount: Number(s.amount) }))
+    );
+  }
+
+  /** Records a payment between members and tells the one who got it */
+  async recordSettlement(group: ExpenseGroupWithMembers, debt: GroupDebt): Promise<void> {
+    await this.groupRepository.createSettlement({ groupId: group.id, ...debt });
+    this.logger.info(`Settlement of ${debt.amount} ${debt.currency} recorded in group ${group.id}`);
+
+    const from = group.members.find((m) => m.userId === debt.fromUserId)?.user;
+    const to = group.members.find((m) => m.userId === debt.toUserId)?.user;
+    if (from && to) {
+      await this.notify(to, (t, locale) =>
+        t.settlementReceived(
+          memberName(from),
+          this.formatAmount(debt.amount, debt.currency, locale),
+          group.name
+        )
+      );
+    }
+  }
+
+  formatAmount(amount: number, currency: string, locale: Locale): string {
+    return amount.toLocaleString(toIntlLocale(locale), { style: "currency", currency });
+  }
+
+  private async notify(
+    user: User,
+    message: (t: Messages["groups"], locale: Locale) => string
+  ): Promise<void> {
+    if (!user.chatId) return;
+    const locale = resolveLocale(user.locale);
+    try {
+      await this.whatsappClient.sendMessage(
+        user.chatId,
+        message(getMessages(locale).groups, locale)
+      );
+    } catch (error) {
+      this.logger.error(`Failed to notify group member ${user.id}`, error);
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import type {
+  ExchangeRate,
+  Income,
+  IncomeCategory,
+  PrismaClient
+} from "@prisma-module/generated/client";
+
+export interface CreateIncomeData {
+  userId: string;
+  processedEmailId?: string | null;
+  source?: string | null;
+  amount: number;
+  currency: string;
+  category: IncomeCategory;
+  description?: string | null;
+  date: Date;
+  exchangeRateId?: string | null;
+}
+
+export type IncomeWithRate = Income & { exchangeRate: ExchangeRate | null };
+
+export class IncomeRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async create(data: CreateIncomeData): Promise<Income> {
+    return this.prisma.income.create({
+      data: {
+        userId: data.userId,
+        processedEmailId: data.processedEmailId ?? null,
+        source: data.source ?? null,
+        amount: data.amount,
+        currency: data.currency,
+        category: data.category,
+        description: data.description ?? null,
+        date: data.date,
+        exchangeRateId: data.exchangeRateId ?? null
+      }
+    });
+  }
+
+  async findById(id: string): Promise<Income | null> {
+    return this.prisma.income.findUnique({ where: { id } });
+  }
+
+  async findWithRatesByUserAndDateRange(
+    userId: string,
+    from: Date,
+    to: Date
+  ): Promise<IncomeWithRate[]> {
+    return this.prisma.income.findMany({
+      where: { userId, date: { gte: from, lte: to } },
+      include: { exchangeRate: true },
+      orderBy: { date: "desc" }
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.prisma.income.delete({ where: { id } });
+  }
+
+  async existsByProcessedEmailId(processedEmailId: string): Promise<boolean> {
+    const count = await this.prisma.income.count({
+      where: { processedEmailId }
+    });
+    return count > 0;
+  }
+}
@@ -0,0 +1,137 @@
+import type { ExchangeRateService } from "@modules/dollar/rates/exchange-rate.service";
+import type { Income, IncomeCategory } from "@prisma-module/generated/client";
+import { createLogger } from "@shared/logger/logger";
+
+import type { IncomeRepository } from "./income.repository";
+
+interface ProcessedEmailData {
+  id: string;
+  userId: string;
+  receivedAt: Date;
+  extractedData: unknown;
+}
+
+interface StoredIncomeData {
+  payer?: string | null;
+  amount?: number | null;
+  currency?: string | null;
+  category?: string | null;
+}
+
+/** Income typed or dictated in chat ("cobré el sueldo, 850000") */
+export interface ManualIncomeInput {
+  amount: number;
+  currency: string;
+  source?: string | null;
+  category?: string | null;
+  description?: string | null;
+  date: Date;
+}
+
+export const INCOME_CATEGORIES: IncomeCategory[] = [
+  "SALARY",
+  "FREELANCE",
+  "TRANSFER",
+  "INVESTMENT",
+  "RENTAL",
+  "REFUND",
+  "OTHER"
+];
+
+/** Category as written by the LLM, or null if it isn't one of ours */
+export function parseIncomeCategory(raw: string): IncomeCategory | null {
+  const upper = raw.trim().toUpperCase() as IncomeCategory;
+  return INCOME_CATEGORIES.includes(upper) ? upper : null;
+}
+
+/** Money coming in: salary, freelance work, transfers received */
+export class IncomeService {
+  private readonly logger = createLogger("income-service");
+
+  constructor(
+    private readonly incomeRepository: IncomeRepository,
+    private readonly exchangeRateService?: ExchangeRateService
+  ) {}
+
+  /** Income from a "te transfirieron" style email; null if already recorded or unusable */
+  async createFromEmail(processedEmail: ProcessedEmailData): Promise<Income | null> {
+    const exists = await this.incomeRepository.existsByProcessedEmailId(processedEmail.id);
+    if (exists) {
+      this.logger.debug(`Income already exists for processedEmail ${processedEmail.id}`);
+      return null;
+    }
+
+    const data = processedEmail.extractedData as Record<string, unknown> | null;
+    const incomeData = data?.incomeData as StoredIncomeData | undefined;
+    if (!incomeData) {
+      this.logger.debug(`No incomeData in extractedData for processedEmail ${processedEmail.id}`);
+      return null;
+    }
+
+    const { amount, currency } = incomeData;
+    if (!amount || amount <= 0 || !currency) {
+      this.logger.debug(
+        `Invalid income data (amount=${amount}, currency=${currency}) for ${processedEmail.id}`
+      );
+      return null;
+    }
+
+    try {
+      const income = await this.incomeRepository.create({
+        userId: processedEmail.userId,
+        processedEmailId: processedEmail.id,
+        source: incomeData.payer ?? null,
+        amount,
+        currency,
+        category: parseIncomeCategory(incomeData.category ?? "") ?? "TRANSFER",
+        date: processedEmail.receivedAt,
+        exchangeRateId: await this.getRateId(processedEmail.receivedAt)
+      });
+
+      this.logger.info(
+        `Created income ${income.id}: ${amount} ${currency} from ${incomeData.payer ?? "unknown"}`
+      );
+      return income;
+    } catch (error) {
+      this.logger.error(`Failed to create income for processedEmail ${processedEmail.id}`, error);
+      return null;
+    }
+  }
+
+  async createManual(userId: string, input: ManualIncomeInput): Promise<Income> {
+    if (!(input.amount > 0)) {
+      throw new Error(`Invalid income amount: ${input.amount}`);
+    }
+
+    const income = await this.incomeRepository.create({
+      userId,
+      source: input.source ?? null,
+      amount: input.amount,
+      currency: input.currency.toUpperCase(),
+      category: parseIncomeCategory(input.category ?? "") ?? "OTHER",
+      description: input.description ?? null,
+      date: input.date,
+      exchangeRateId: await this.getRateId(input.date)
+    });
+
+    this.logger.info(
+      `Logged income ${income.id}: ${input.amount} ${input.currency} from ${input.source ?? "unknown"}`
+    );
+    return income;
+  }
+
+  /** Undo a just-logged income; only the owner can remove it */
+  async deleteIncome(userId: string, incomeId: string): Promise<Income | null> {
+    const income = await this.incomeRepository.findById(incomeId);
+    if (!income || income.userId !== userId) return null;
+
+    await this.incomeRepository.delete(income.id);
+    this.logger.info(`Deleted income ${income.id} for user ${userId}`);
+    return income;
+  }
+
+  private async getRateId(date: Date): Promise<string | null> {
+    if (!this.exchangeRateService) return null;
+    return (await this.exchangeRateService.getForDate(date))?.id ?? null;
+  }
+}
@@ -1,4 +1,81 @@
-export { ExpenseRepository, type CreateExpenseData } from "./expense.repository";
-export { ExpenseService, type ExpenseSummary } from "./expense.service";
+export {
+  ExpenseRepository,
+  type CreateExpenseData,
+  type ExpenseFilter,
+  type ExpenseWithCategory,
+  type ExpenseWithRate,
+  type UpdateExpenseData
+} from "./expense.repository";
+export {
+  EXPENSE_CATEGORIES,
+  ExpenseService,
+  parseExpenseCategory,
+  type ConsolidatedTotal,
+  type ExpenseFilterInput,
+  type ExpenseSummary,
+  type ManualExpenseChanges,
+  type ManualExpenseInput
+} from "./expense.service";
+export { BudgetRepository } from "./budgets/budget.repository";
+export { CategoryRuleRepository } from "./categories/category-rule.repository";
+export { CustomCategoryRepository } from "./categories/custom-category.repository";
+export { normalizeLabel } from "./categories/labels";
+export { BudgetService, type BudgetStatus } from "./budgets/budget.service";
 export { ExpenseSummaryService } from "./summary/expense-summary.service";
 export { FinancialAdviceService } from "./advice/financial-advice.service";
+export {
+  EXPORT_FORMATS,
+  ExpenseExportService,
+  resolveExportRange,
+  type ExportFile,
+  type ExportFormat
+} from "./export/expense-export.service";
+export { createExpenseModule } from "./expense.module";
+export { RecurringChargeRepository } from "./recurring/recurring-charge.repository";
+export {
+  RecurringChargeService,
+  type RecurringChargeReminder
+} from "./recurring/recurring-charge.service";
+export { detectRecurringCharges, type DetectedCharge } from "./recurring/recurring-detection";
+export { matchesMerchant, normalizeMerchant } from "./merchant";
+export {
+  ExpenseGroupRepository,
+  type ExpenseGroupWithMembers,
+  type GroupShareRow
+} from "./groups/expense-group.repository";
+export {
+  ExpenseGroupService,
+  activeMembers,
+  memberName,
+  type ExpenseShareResult,
+  type GroupInviteResult
+} from "./groups/expense-group.service";
+export { simplifyDebts, type GroupDebt } from "./groups/balances";
+export {
+  IncomeRepository,
+  type CreateIncomeData,
+  type IncomeWithRate
+} from "./income/income.repository";
+export {
+  INCOME_CATEGORIES,
+  IncomeService,
+  parseIncomeCategory,
+  type ManualIncomeInput
+} from "./income/income.service";
+export {
+  CashFlowService,
+  type CashFlowMonth,
+  type CashFlowReport
+} from "./cashflow/cash-flow.service";
+export {
+  ExpenseAnomalyRepository,
+  type CreateAnomalyData,
+  type ExpenseAnomalyWithExpense
+} from "./anomalies/expense-anomaly.repository";
+export {
+  ExpenseAnomalyService,
+  anomalyActionId,
+  parseAnomalyActionId,
+  type AnomalyAction
+} from "./anomalies/expense-anomaly.service";
+export { detectAnomalies, type DetectedAnomaly } from "./anomalies/anomaly-detection";
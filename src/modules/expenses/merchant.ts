@@ -0,0 +1,16 @@
+/** "NETFLIX.COM", "Netflix Inc." and "netflix" are the same merchant */
+export function normalizeMerchant(merchant: string): string {
+  return merchant
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\.(com|net)(\.ar)?\b/g, "")
+    .replace(/\b(inc|llc|sa|srl|ltd)\b\.?/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/** Whether a normalized merchant contains `key` as whole words ("rappi" matches "rappi argentina") */
+export function matchesMerchant(merchantKey: string, key: string): boolean {
+  return ` ${merchantKey} `.includes(` ${key} `);
+}
@@ -0,0 +1,71 @@
+import type { PrismaClient, RecurringCharge } from "@prisma-module/generated/client";
+
+import type { DetectedCharge } from "./recurring-detection";
+
+export class RecurringChargeRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /** Refresh a detected charge, keeping alerts and the reminder */
+  async upsert(userId: string, charge: DetectedCharge): Promise<RecurringCharge> {
+    const data = {
+      merchant: charge.merchant,
+      period: charge.period,
+      amount: charge.amount,
+      previousAmount: charge.previousAmount,
+      lastChargeAt: charge.lastChargeAt,
+      nextExpectedAt: charge.nextExpectedAt
+    };
+
+    return this.prisma.recurringCharge.upsert({
+      where: {
+        userId_merchantKey_currency: {
+          userId,
+          merchantKey: charge.merchantKey,
+          currency: charge.currency
+        }
+      },
+      create: { userId, merchantKey: charge.merchantKey, currency: charge.currency, ...data },
+      update: data
+    });
+  }
+
+  async findById(id: string): Promise<RecurringCharge | null> {
+    return this.prisma.recurringCharge.findUnique({ where: { id } });
+  }
+
+  async findByUser(userId: string): Promise<RecurringCharge[]> {
+    return this.prisma.recurringCharge.findMany({
+      where: { userId },
+      orderBy: { nextExpectedAt: "asc" }
+    });
+  }
+
+  /** Drops charges that no longer show up in the history (cancelled subscriptions) */
+  async deleteExcept(userId: string, keepIds: string[]): Promise<number> {
+    const result = await this.prisma.recurringCharge.deleteMany({
+      where: { userId, id: { notIn: keepIds } }
+    });
+    return result.count;
+  }
+
+  async markPriceAlerted(id: string, chargeAt: Date): Promise<void> {
+    await this.prisma.recurringCharge.update({
+      where: { id },
+      data: { priceAlertedAt: chargeAt }
+    });
+  }
+
+  async markMissedAlerted(id: string, expectedAt: Date): Promise<void> {
+    await this.prisma.recurringCharge.update({
+      where: { id },
+      data: { missedAlertedFor: expectedAt }
+    });
+  }
+
+  async setReminder(id: string, reminderId: string): Promise<void> {
+    await this.prisma.recurringCharge.update({
+      where: { id },
+      data: { reminderId }
+    });
+  }
+}
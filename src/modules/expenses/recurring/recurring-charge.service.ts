@@ -0,0 +1,289 @@
+import type { UserRepository } from "@modules/email/user/user.repository";
+import type { ReminderService } from "@modules/reminders/reminder.service";
+import type { WhatsAppClient } from "@modules/whatsapp/client/whatsapp.client";
+import type { RecurringCharge, Reminder } from "@prisma-module/generated/client";
+import {
+  DEFAULT_LOCALE,
+  getMessages,
+  type Locale,
+  resolveLocale,
+  toIntlLocale
+} from "@shared/i18n/i18n";
+import { createLogger } from "@shared/logger/logger";
+import { getZonedParts, zonedTimeToUtc } from "@shared/timezone/timezone";
+
+import type { ExpenseRepository } from "../expense.repository";
+import { matchesMerchant, normalizeMerchant } from "../merchant";
+import type { RecurringChargeRepository } from "./recurring-charge.repository";
+import {
+  DETECTION_LOOKBACK_DAYS,
+  detectRecurringCharges,
+  missedAfter,
+  monthlyCost,
+  nextChargeDate
+} from "./recurring-detection";
+
+/** Local hour at which price increases and missing charges are reported */
+const CHECK_HOUR = 9;
+/** Local time of the reminder sent the day before a charge */
+const REMINDER_TIME = "10:00";
+
+const DAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export interface RecurringChargeReminder {
+  charge: RecurringCharge;
+  reminder: Reminder;
+  /** False when the charge already had an active reminder */
+  created: boolean;
+}
+
+/**
+ * Subscriptions and other repeating charges found in the expense history:
+ * monthly cost, price increases, missing charges and reminders before each one.
+ */
+export class RecurringChargeService {
+  private readonly logger = createLogger("recurring-charge");
+  private readonly checkedToday = new Map<string, string>(); // userId → YYYY-MM-DD
+
+  constructor(
+    private readonly recurringChargeRepository: RecurringChargeRepository,
+    private readonly expenseRepository: ExpenseRepository,
+    private readonly whatsappClient: WhatsAppClient,
+    private readonly userRepository: UserRepository,
+    private readonly reminderService: ReminderService
+  ) {}
+
+  /** Re-runs detection over the user's history and returns the current charges */
+  async getCharges(userId: string, now: Date = new Date()): Promise<RecurringCharge[]> {
+    const from = new Date(now.getTime() - DETECTION_LOOKBACK_DAYS * MS_PER_DAY);
+    const expenses = await this.expenseRepository.findByUserAndDateRange(userId, from, now);
+
+    const charges: RecurringCharge[] = [];
+    for (const detected of detectRecurringCharges(expenses, now)) {
+      charges.push(await this.recurringChargeRepository.upsert(userId, detected));
+    }
+
+    const removed = await this.recurringChargeRepository.deleteExcept(
+      userId,
+      charges.map((c) => c.id)
+    );
+    if (removed > 0) {
+      this.logger.info(`Dropped ${removed} recurring charge(s) no longer seen for user ${userId}`);
+    }
+
+    return charges;
+  }
+
+  /** Finds one of the user's charges by (part of) its merchant name */
+  async findByMerchant(userId: string, merchant: string): Promise<RecurringCharge | null> {
+    const key = normalizeMerchant(merchant);
+    if (!key) return null;
+
+    const charges = await this.getCharges(userId);
+    return (
+      charges.find((c) => c.merchantKey === key) ??
+      charges.find(
+        (c) => matchesMerchant(c.merchantKey, key) || matchesMerchant(key, c.merchantKey)
+      ) ??
+      null
+    );
+  }
+
+  /**
+   * Reports price increases and charges that didn't arrive, once a day at
+   * CHECK_HOUR local time. Each alert is sent once per charge.
+   */
+  async checkAll(now: Date = new Date()): Promise<void> {
+    const timezones = (await this.userRepository.findDistinctTimezones()).filter(
+      (timezone) => getZonedParts(now, timezone).hour === CHECK_HOUR
+    );
+
+    for (const timezone of timezones) {
+      const { year, month, day } = getZonedParts(now, timezone);
+      const dayKey = `${year}-${month}-${day}`;
+      const from = new Date(now.getTime() - DETECTION_LOOKBACK_DAYS * MS_PER_DAY);
+      const users = await this.expenseRepository.findUsersWithExpenses(from, now, timezone);
+
+      for (const user of users) {
+        if (this.checkedToday.get(user.userId) === dayKey) continue;
+        this.checkedToday.set(user.userId, dayKey);
+
+        try {
+          const charges = await this.getCharges(user.userId, now);
+          const locale = resolveLocale(user.locale);
+          for (const charge of charges) {
+            await this.alertPriceIncrease(user.chatId, charge, locale);
+            await this.alertMissedCharge(user.chatId, charge, timezone, locale, now);
+          }
+        } catch (error) {
+          this.logger.error(`Failed to check recurring charges for user ${user.userId}`, error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Creates a reminder at REMINDER_TIME the day before each expected charge,
+   * repeating with the charge (yearly charges get a one-off reminder).
+   */
+  async createReminder(
+    userId: string,
+    chargeId: string,
+    chatId: string,
+    timezone: string,
+    locale: Locale = DEFAULT_LOCALE
+  ): Promise<RecurringChargeReminder | null> {
+    const charge = await this.recurringChargeRepository.findById(chargeId);
+    if (!charge || charge.userId !== userId) return null;
+
+    if (charge.reminderId) {
+      const existing = await this.reminderService.getReminder(charge.reminderId);
+      if (existing?.status === "PENDING") {
+        return { charge, reminder: existing, created: false };
+      }
+    }
+
+    // The next charge whose eve is still ahead
+    const now = new Date();
+    let chargeAt = charge.nextExpectedAt;
+    let remindAt = this.eveOf(chargeAt, timezone);
+    while (remindAt <= now) {
+      chargeAt = nextChargeDate(chargeAt, charge.period);
+      remindAt = this.eveOf(chargeAt, timezone);
+    }
+
+    const eve = getZonedParts(remindAt, timezone);
+    const chargeDay = getZonedParts(chargeAt, timezone).day;
+    const rrule =
+      charge.period === "WEEKLY"
+        ? `FREQ=WEEKLY;BYDAY=${DAY_CODES[eve.weekday]}`
+        : charge.period === "MONTHLY"
+          ? `FREQ=MONTHLY;BYMONTHDAY=${chargeDay === 1 ? -1 : chargeDay - 1}`
+          : undefined;
+
+    const text = getMessages(locale).recurring.reminderText(
+      charge.merchant,
+      this.formatAmount(Number(charge.amount), charge.currency, locale)
+    );
+    const reminder = await this.reminderService.createReminder({
+      originalText: text,
+      reminderText: text,
+      scheduledAt: remindAt,
+      chatId,
+      recurrence: charge.period === "YEARLY" ? "NONE" : charge.period,
+      recurrenceTime: rrule ? REMINDER_TIME : undefined,
+      rrule,
+      timezone
+    });
+    await this.recurringChargeRepository.setReminder(charge.id, reminder.id);
+
+    this.logger.info(`Reminder ${reminder.id} created before ${charge.merchant} charges`);
+    return { charge, reminder, created: true };
+  }
+
+  /** List with monthly cost per charge and the estimated monthly total per currency */
+  formatCharges(
+    charges: RecurringCharge[],
+    timezone: string,
+    locale: Locale = DEFAULT_LOCALE
+  ): string {
+    const t = getMessages(locale).recurring;
+    const intlLocale = toIntlLocale(locale);
+
+    const totals = new Map<string, number>();
+    const lines = charges.map((charge, index) => {
+      const amount = Number(charge.amount);
+      totals.set(
+        charge.currency,
+        (totals.get(charge.currency) ?? 0) + monthlyCost(amount, charge.period)
+      );
+
+      const previous = charge.previousAmount ? Number(charge.previousAmount) : null;
+      return t.line(
+        index + 1,
+        charge.merchant,
+        this.formatAmount(amount, charge.currency, locale),
+        t.periods[charge.period],
+        charge.nextExpectedAt.toLocaleDateString(intlLocale, {
+          timeZone: timezone,
+          day: "numeric",
+          month: "short"
+        }),
+        previous ? this.formatAmount(previous, charge.currency, locale) : null
+      );
+    });
+
+    const totalLines = [...totals].map(([currency, total]) =>
+      t.monthlyTotal(this.formatAmount(total, currency, locale))
+    );
+
+    return `${t.header}${lines.join("\n")}\n\n${totalLines.join("\n")}`;
+  }
+
+  private async alertPriceIncrease(
+    chatId: string,
+    charge: RecurringCharge,
+    locale: Locale
+  ): Promise<void> {
+    if (!charge.previousAmount) return;
+    if (charge.priceAlertedAt?.getTime() === charge.lastChargeAt.getTime()) return;
+
+    await this.recurringChargeRepository.markPriceAlerted(charge.id, charge.lastChargeAt);
+
+    const amount = Number(charge.amount);
+    const previous = Number(charge.previousAmount);
+    await this.whatsappClient.sendMessage(
+      chatId,
+      getMessages(locale).recurring.priceIncrease(
+        charge.merchant,
+        this.formatAmount(previous, charge.currency, locale),
+        this.formatAmount(amount, charge.currency, locale),
+        Math.round((amount / previous - 1) * 100)
+      )
+    );
+    this.logger.info(`Price increase alert sent to ${chatId} for ${charge.merchant}`);
+  }
+
+  private async alertMissedCharge(
+    chatId: string,
+    charge: RecurringCharge,
+    timezone: string,
+    locale: Locale,
+    now: Date
+  ): Promise<void> {
+    if (now < missedAfter(charge.nextExpectedAt, charge.period)) return;
+    if (charge.missedAlertedFor?.getTime() === charge.nextExpectedAt.getTime()) return;
+
+    await this.recurringChargeRepository.markMissedAlerted(charge.id, charge.nextExpectedAt);
+
+    await this.whatsappClient.sendMessage(
+      chatId,
+      getMessages(locale).recurring.missed(
+        charge.merchant,
+        this.formatAmount(Number(charge.amount), charge.currency, locale),
+        charge.nextExpectedAt.toLocaleDateString(toIntlLocale(locale), {
+          timeZone: timezone,
+          day: "numeric",
+          month: "long"
+        })
+      )
+    );
+    this.logger.info(`Missed charge alert sent to ${chatId} for ${charge.merchant}`);
+  }
+
+  /** REMINDER_TIME on the local day before `chargeAt` */
+  private eveOf(chargeAt: Date, timezone: string): Date {
+    const { year, month, day } = getZonedParts(chargeAt, timezone);
+    const [hour, minute] = REMINDER_TIME.split(":").map(Number);
+    return zonedTimeToUtc({ year, month, day: day - 1, hour, minute }, timezone);
+  }
+
+  private formatAmount(amount: number, currency: string, locale: Locale): string {
+    return amount.toLocaleString(toIntlLocale(locale), {
+      style: "currency",
+      currency,
+      maximumFractionDigits: 0
+    });
+  }
+}
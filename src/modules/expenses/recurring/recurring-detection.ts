@@ -0,0 +1,162 @@
+import type { Expense, RecurringPeriod } from "@prisma-module/generated/client";
+
+import { normalizeMerchant } from "../merchant";
+
+/**
+ * Finds charges that repeat from expense history: the same merchant and
+ * currency at a regular interval with a stable amount.
+ */
+
+export interface DetectedCharge {
+  merchantKey: string;
+  merchant: string;
+  currency: string;
+  period: RecurringPeriod;
+  amount: number;
+  /** Set when the latest charge costs more than the one before */
+  previousAmount: number | null;
+  lastChargeAt: Date;
+  nextExpectedAt: Date;
+}
+
+interface PeriodRule {
+  /** Accepted gap between charges, in days */
+  minDays: number;
+  maxDays: number;
+  /** Charges needed before calling it recurring */
+  minCharges: number;
+  /** Days a charge may run late before it counts as missing */
+  graceDays: number;
+}
+
+const PERIOD_RULES: Record<RecurringPeriod, PeriodRule> = {
+  WEEKLY: { minDays: 5, maxDays: 9, minCharges: 3, graceDays: 2 },
+  MONTHLY: { minDays: 25, maxDays: 35, minCharges: 3, graceDays: 5 },
+  YEARLY: { minDays: 340, maxDays: 390, minCharges: 2, graceDays: 10 }
+};
+
+/** How far back to look so yearly charges show up twice */
+export const DETECTION_LOOKBACK_DAYS = 400;
+
+// Consecutive charges further apart than this are not "the same price"
+const MAX_PRICE_RATIO = 1.5;
+// Ignore rounding and small FX noise when flagging increases
+const MIN_INCREASE_RATIO = 1.02;
+// Share of gaps that must fit the period (one skipped or doubled charge is fine)
+const MIN_REGULAR_SHARE = 0.75;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** Equivalent monthly cost, for totals across periods */
+export function monthlyCost(amount: number, period: RecurringPeriod): number {
+  switch (period) {
+    case "WEEKLY":
+      return (amount * 52) / 12;
+    case "YEARLY":
+      return amount / 12;
+    default:
+      return amount;
+  }
+}
+
+/** When a charge due at `expectedAt` counts as missing */
+export function missedAfter(expectedAt: Date, period: RecurringPeriod): Date {
+  return new Date(expectedAt.getTime() + PERIOD_RULES[period].graceDays * MS_PER_DAY);
+}
+
+/** Same day next week/month/year (Jan 31 → Feb 28, not Mar 3) */
+export function nextChargeDate(last: Date, period: RecurringPeriod): Date {
+  if (period === "WEEKLY") {
+    return new Date(last.getTime() + 7 * MS_PER_DAY);
+  }
+
+  const months = period === "MONTHLY" ? 1 : 12;
+  const year = last.getUTCFullYear();
+  const month = last.getUTCMonth() + months;
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+  const next = new Date(last);
+  next.setUTCFullYear(year, month, Math.min(last.getUTCDate(), daysInMonth));
+  return next;
+}
+
+export function detectRecurringCharges(
+  expenses: Expense[],
+  now: Date = new Date()
+): DetectedCharge[] {
+  const groups = new Map<string, Expense[]>();
+  for (const expense of expenses) {
+    if (!expense.merchant) continue;
+    const key = normalizeMerchant(expense.merchant);
+    if (!key) continue;
+
+    const groupKey = `${key}|${expense.currency}`;
+    const group = groups.get(groupKey) ?? [];
+    group.push(expense);
+    groups.set(groupKey, group);
+  }
+
+  const detected: DetectedCharge[] = [];
+  for (const [groupKey, group] of groups) {
+    const charge = detectInGroup(groupKey.split("|")[0], group, now);
+    if (charge) detected.push(charge);
+  }
+
+  return detected.sort((a, b) => a.nextExpectedAt.getTime() - b.nextExpectedAt.getTime());
+}
+
+function detectInGroup(merchantKey: string, group: Expense[], now: Date): DetectedCharge | null {
+  const charges = [...group].sort((a, b) => a.date.getTime() - b.date.getTime());
+  if (charges.length < 2) return null;
+
+  const gaps = charges
+    .slice(1)
+    .map((charge, i) => (charge.date.getTime() - charges[i].date.getTime()) / MS_PER_DAY);
+  const gap = median(gaps);
+
+  const period = (Object.keys(PERIOD_RULES) as RecurringPeriod[]).find(
+    (p) => gap >= PERIOD_RULES[p].minDays && gap <= PERIOD_RULES[p].maxDays
+  );
+  if (!period) return null;
+
+  const rule = PERIOD_RULES[period];
+  if (charges.length < rule.minCharges) return null;
+
+  const regular = gaps.filter((g) => g >= rule.minDays && g <= rule.maxDays).length;
+  if (regular / gaps.length < MIN_REGULAR_SHARE) return null;
+
+  const amounts = charges.map((c) => Number(c.amount));
+  const stable = amounts
+    .slice(1)
+    .every(
+      (amount, i) => Math.max(amount, amounts[i]) / Math.min(amount, amounts[i]) <= MAX_PRICE_RATIO
+    );
+  if (!stable) return null;
+
+  const last = charges[charges.length - 1];
+  const nextExpectedAt = nextChargeDate(last.date, period);
+
+  // Two periods without a charge: most likely cancelled
+  const staleAt = missedAfter(nextChargeDate(nextExpectedAt, period), period);
+  if (now > staleAt) return null;
+
+  const amount = amounts[amounts.length - 1];
+  const previous = amounts[amounts.length - 2];
+
+  return {
+    merchantKey,
+    merchant: last.merchant ?? merchantKey,
+    currency: last.currency,
+    period,
+    amount,
+    previousAmount: amount >= previous * MIN_INCREASE_RATIO ? previous : null,
+    lastChargeAt: last.date,
+    nextExpectedAt
+  };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
@@ -1,7 +1,23 @@
+import type { UserRepository } from "@modules/email/user/user.repository";
 import type { WhatsAppClient } from "@modules/whatsapp/client/whatsapp.client";
+import {
+  DEFAULT_LOCALE,
+  getMessages,
+  type Locale,
+  resolveLocale,
+  toIntlLocale
+} from "@shared/i18n/i18n";
 import { createLogger } from "@shared/logger/logger";
+import {
+  getZonedMonthRange,
+  getZonedParts,
+  getZonedWeekStart,
+  zonedTimeToUtc
+} from "@shared/timezone/timezone";
 
 import type { FinancialAdviceService } from "../advice/financial-advice.service";
+import type { BudgetService, BudgetStatus } from "../budgets/budget.service";
+import type { CashFlowReport, CashFlowService } from "../cashflow/cash-flow.service";
 import type { ExpenseRepository } from "../expense.repository";
 import type { ExpenseService, ExpenseSummary } from "../expense.service";
 
@@ -18,18 +34,8 @@ const CATEGORY_EMOJI: Record<string, string> = {
   OTHER: "📦"
 };
 
-const CATEGORY_LABELS: Record<string, string> = {
-  FOOD: "Comida",
-  TRANSPORT: "Transporte",
-  SHOPPING: "Compras",
-  UTILITIES: "Servicios",
-  ENTERTAINMENT: "Entretenimiento",
-  HEALTH: "Salud",
-  EDUCATION: "Educacion",
-  TRAVEL: "Viajes",
-  SERVICES: "Servicios prof.",
-  OTHER: "Otros"
-};
+/** Local hour at which weekly/monthly summaries go out */
+const SUMMARY_HOUR = 8;
 
 export class ExpenseSummaryService {
   private readonly logger = createLogger("expense-summary");
@@ -40,93 +46,142 @@ export class ExpenseSummaryService {
     private readonly expenseService: ExpenseService,
     private readonly expenseRepository: ExpenseRepository,
     private readonly financialAdviceService: FinancialAdviceService,
-    private readonly whatsappClient: WhatsAppClient
+    private readonly whatsappClient: WhatsAppClient,
+    private readonly userRepository: UserRepository,
+    private readonly budgetService?: BudgetService,
+    private readonly cashFlowService?: CashFlowService
   ) {}
 
-  async sendWeeklySummaries(): Promise<void> {
-    const now = new Date();
-    const bsAsNow = new Date(
-      now.toLocaleString("en-US", { timeZone: "America/Argentina/Buenos_Aires" })
-    );
-
-    // Find the start of the current week (Monday)
-    const weekStart = new Date(bsAsNow);
-    const dayOfWeek = weekStart.getDay(); // 0=Sun, 1=Mon
-    const daysToMonday = dayOfWeek === 0 ? 6 : dayOfWeek - 1;
-    weekStart.setDate(weekStart.getDate() - daysToMonday);
-    weekStart.setHours(0, 0, 0, 0);
-
-    const weekKey = this.getWeekKey(weekStart);
-    const weekEnd = new Date(weekStart);
-    weekEnd.setDate(weekEnd.getDate() + 6);
-
-    const users = await this.expenseRepository.findUsersWithExpenses(weekStart, weekEnd);
-
-    for (const user of users) {
-      if (this.sentThisWeek.get(user.chatId) === weekKey) {
-        this.logger.debug(`Weekly summary already sent to ${user.chatId} for week ${weekKey}`);
-        continue;
-      }
-
-      try {
-        const summary = await this.expenseService.getWeeklySummary(user.userId, weekStart);
-
-        if (summary.transactionCount === 0) continue;
-
-        const periodLabel = this.formatWeekLabel(weekStart, weekEnd);
-        const message = await this.formatSummaryMessage(summary, `Semana del ${periodLabel}`, true);
+  /** Sends the weekly summary to users whose local time is Monday at SUMMARY_HOUR */
+  async sendWeeklySummaries(now: Date = new Date()): Promise<void> {
+    const timezones = await this.getTimezonesAt(now, (local) => local.weekday === 1);
+
+    for (const timezone of timezones) {
+      // Find the start of the current week (Monday)
+      const weekStart = getZonedWeekStart(now, timezone);
+      const { year, month, day } = getZonedParts(weekStart, timezone);
+      const weekKey = this.getWeekKey(year, month, day);
+      const weekEnd = new Date(
+        zonedTimeToUtc({ year, month, day: day + 7 }, timezone).getTime() - 1
+      );
+
+      const users = await this.expenseRepository.findUsersWithExpenses(
+        weekStart,
+        weekEnd,
+        timezone
+      );
+
+      for (const user of users) {
+        if (this.sentThisWeek.get(user.chatId) === weekKey) {
+          this.logger.debug(`Weekly summary already sent to ${user.chatId} for week ${weekKey}`);
+          continue;
+        }
 
-        await this.whatsappClient.sendMessage(user.chatId, message);
-        this.sentThisWeek.set(user.chatId, weekKey);
-        this.logger.info(`Weekly expense summary sent to ${user.chatId}`);
-      } catch (error) {
-        this.logger.error(`Failed to send weekly summary to ${user.chatId}`, error);
+        try {
+          const summary = await this.expenseService.getWeeklySummary(
+            user.userId,
+            weekStart,
+            timezone
+          );
+
+          if (summary.transactionCount === 0) continue;
+
+          const locale = resolveLocale(user.locale);
+          const periodLabel = this.formatWeekLabel(weekStart, weekEnd, timezone, locale);
+          // Budgets are monthly: show how the current month is going
+          const local = getZonedParts(now, timezone);
+          const budgets = await this.getBudgetStatus(
+            user.userId,
+            local.year,
+            local.month,
+            timezone
+          );
+          const message = await this.formatSummaryMessage(
+            summary,
+            periodLabel,
+            true,
+            locale,
+            budgets
+          );
+
+          await this.whatsappClient.sendMessage(user.chatId, message);
+          this.sentThisWeek.set(user.chatId, weekKey);
+          this.logger.info(`Weekly expense summary sent to ${user.chatId}`);
+        } catch (error) {
+          this.logger.error(`Failed to send weekly summary to ${user.chatId}`, error);
+        }
       }
     }
   }
 
-  async sendMonthlySummaries(): Promise<void> {
-    const now = new Date();
-    const bsAsNow = new Date(
-      now.toLocaleString("en-US", { timeZone: "America/Argentina/Buenos_Aires" })
-    );
-
-    // Last month
-    let year = bsAsNow.getFullYear();
-    let month = bsAsNow.getMonth(); // 0-indexed → previous month
-    if (month === 0) {
-      month = 12;
-      year--;
-    }
-
-    const monthKey = `${year}-${String(month).padStart(2, "0")}`;
-    const monthStart = new Date(year, month - 1, 1);
-    const monthEnd = new Date(year, month, 0, 23, 59, 59, 999);
-
-    const users = await this.expenseRepository.findUsersWithExpenses(monthStart, monthEnd);
-
-    for (const user of users) {
-      if (this.sentThisMonth.get(user.chatId) === monthKey) {
-        this.logger.debug(`Monthly summary already sent to ${user.chatId} for ${monthKey}`);
-        continue;
+  /** Sends last month's summary to users whose local time is the 1st at SUMMARY_HOUR */
+  async sendMonthlySummaries(now: Date = new Date()): Promise<void> {
+    const timezones = await this.getTimezonesAt(now, (local) => local.day === 1);
+
+    for (const timezone of timezones) {
+      // Last month
+      const local = getZonedParts(now, timezone);
+      let year = local.year;
+      let month = local.month - 1;
+      if (month === 0) {
+        month = 12;
+        year--;
       }
 
-      try {
-        const summary = await this.expenseService.getMonthlySummary(user.userId, year, month);
+      const monthKey = `${year}-${String(month).padStart(2, "0")}`;
+      const { start: monthStart, end: monthEnd } = getZonedMonthRange(year, month, timezone);
 
-        if (summary.transactionCount === 0) continue;
+      const users = await this.expenseRepository.findUsersWithExpenses(
+        monthStart,
+        monthEnd,
+        timezone
+      );
 
-        const monthName = new Date(year, month - 1, 1).toLocaleString("es-AR", {
-          month: "long",
-          year: "numeric"
-        });
-        const message = await this.formatSummaryMessage(summary, this.capitalize(monthName), true);
+      for (const user of users) {
+        if (this.sentThisMonth.get(user.chatId) === monthKey) {
+          this.logger.debug(`Monthly summary already sent to ${user.chatId} for ${monthKey}`);
+          continue;
+        }
 
-        await this.whatsappClient.sendMessage(user.chatId, message);
-        this.sentThisMonth.set(user.chatId, monthKey);
-        this.logger.info(`Monthly expense summary sent to ${user.chatId}`);
-      } catch (error) {
-        this.logger.error(`Failed to send monthly summary to ${user.chatId}`, error);
+        try {
+          const summary = await this.expenseService.getMonthlySummary(
+            user.userId,
+            year,
+            month,
+            timezone
+          );
+
+          if (summary.transactionCount === 0) continue;
+
+          const locale = resolveLocale(user.locale);
+          const monthName = monthStart.toLocaleString(toIntlLocale(locale), {
+            timeZone: timezone,
+            month: "long",
+            year: "numeric"
+          });
+          const budgets = await this.getBudgetStatus(user.userId, year, month, timezone);
+          const cashFlow = await this.cashFlowService?.getReport(
+            user.userId,
+            year,
+            month,
+            timezone
+          );
+          const message = await this.formatSummaryMessage(
+            summary,
+            this.capitalize(monthName),
+            true,
+            locale,
+            budgets,
+            cashFlow,
+            timezone
+          );
+
+          await this.whatsappClient.sendMessage(user.chatId, message);
+          this.sentThisMonth.set(user.chatId, monthKey);
+          this.logger.info(`Monthly expense summary sent to ${user.chatId}`);
+        } catch (error) {
+          this.logger.error(`Failed to send monthly summary to ${user.chatId}`, error);
+        }
       }
     }
   }
@@ -134,20 +189,35 @@ export class ExpenseSummaryService {
   async formatSummaryMessage(
     summary: ExpenseSummary,
     period: string,
-    includeAdvice: boolean
+    includeAdvice: boolean,
+    locale: Locale = DEFAULT_LOCALE,
+    budgets: BudgetStatus[] = [],
+    cashFlow?: CashFlowReport | null,
+    timezone?: string
   ): Promise<string> {
-    let message = `📊 *Resumen de gastos - ${period}*\n\n`;
+    const { expenses: t } = getMessages(locale);
+    const intlLocale = toIntlLocale(locale);
+    let message = t.summaryTitle(period);
 
     if (summary.totals.length > 0) {
-      message += `💰 *Total gastado:*\n`;
-      for (const t of summary.totals) {
-        message += `• ${this.formatAmount(t.amount, t.currency)}\n`;
+      message += t.totalSpent;
+      for (const total of summary.totals) {
+        message += `• ${this.formatAmount(total.amount, total.currency, intlLocale)}\n`;
+      }
+      if (summary.consolidated) {
+        const { currency, official, blue, unconverted } = summary.consolidated;
+        message += t.consolidated(
+          currency,
+          this.formatAmount(official, currency, intlLocale),
+          this.formatAmount(blue, currency, intlLocale)
+        );
+        if (unconverted > 0) message += t.unconverted(unconverted);
       }
       message += "\n";
     }
 
     if (summary.categoryBreakdown.length > 0) {
-      message += `📂 *Por categoria:*\n`;
+      message += t.byCategory;
       // Group by currency, show top categories
       const byCurrency = new Map<string, { category: string; amount: number }[]>();
       for (const c of summary.categoryBreakdown) {
@@ -158,28 +228,48 @@ export class ExpenseSummaryService {
       for (const [currency, categories] of byCurrency) {
         const sorted = categories.sort((a, b) => b.amount - a.amount).slice(0, 5);
         for (const c of sorted) {
-          const emoji = CATEGORY_EMOJI[c.category] ?? "📦";
-          const label = CATEGORY_LABELS[c.category] ?? c.category;
-          message += `• ${emoji} ${label}: ${this.formatAmount(c.amount, currency)}\n`;
+          // User-defined categories have no emoji of their own
+          const emoji = CATEGORY_EMOJI[c.category] ?? "🏷️";
+          const label = t.categories[c.category] ?? c.category;
+          message += `• ${emoji} ${label}: ${this.formatAmount(c.amount, currency, intlLocale)}\n`;
         }
       }
       message += "\n";
     }
 
     if (summary.topMerchants.length > 0) {
-      message += `🏪 *Principales comercios:*\n`;
+      message += t.topMerchants;
       for (const m of summary.topMerchants) {
-        message += `• ${m.merchant}: ${this.formatAmount(m.amount, m.currency)}\n`;
+        message += `• ${m.merchant}: ${this.formatAmount(m.amount, m.currency, intlLocale)}\n`;
       }
       message += "\n";
     }
 
-    message += `📈 *${summary.transactionCount} transaccion${summary.transactionCount !== 1 ? "es" : ""} procesada${summary.transactionCount !== 1 ? "s" : ""}*`;
+    message += t.transactions(summary.transactionCount);
+
+    if (budgets.length > 0 && this.budgetService) {
+      message += getMessages(locale).budgets.summarySection(
+        this.budgetService.formatStatus(budgets, locale)
+      );
+    }
+
+    // Only worth a section once the user logs what comes in
+    const hasIncome = !!cashFlow && !!this.cashFlowService?.hasIncome(cashFlow);
+    if (cashFlow && hasIncome && this.cashFlowService) {
+      message += getMessages(locale).cashFlow.summarySection(
+        this.cashFlowService.formatReport(cashFlow, timezone, locale)
+      );
+    }
 
     if (includeAdvice && summary.transactionCount > 0) {
       try {
-        const advice = await this.financialAdviceService.generateAdvice(summary, period);
-        message += `\n\n💡 *Consejos personalizados:*\n${advice}`;
+        const advice = await this.financialAdviceService.generateAdvice(
+          summary,
+          period,
+          locale,
+          hasIncome ? cashFlow : null
+        );
+        message += t.adviceSection(advice);
       } catch (error) {
         this.logger.error("Failed to include advice in summary", error);
       }
@@ -188,27 +278,57 @@ export class ExpenseSummaryService {
     return message;
   }
 
-  private formatAmount(amount: number, currency: string): string {
+  private formatAmount(amount: number, currency: string, intlLocale: string): string {
     if (currency === "ARS") {
-      return `$${amount.toLocaleString("es-AR", { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ARS`;
+      return `$${amount.toLocaleString(intlLocale, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ARS`;
     }
     if (currency === "USD") {
       return `US$${amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
     }
-    return `${amount.toLocaleString("es-AR", { minimumFractionDigits: 2 })} ${currency}`;
+    return `${amount.toLocaleString(intlLocale, { minimumFractionDigits: 2 })} ${currency}`;
+  }
+
+  private async getBudgetStatus(
+    userId: string,
+    year: number,
+    month: number,
+    timezone: string
+  ): Promise<BudgetStatus[]> {
+    if (!this.budgetService) return [];
+    try {
+      return await this.budgetService.getStatus(userId, year, month, timezone);
+    } catch (error) {
+      this.logger.error(`Failed to load budgets for summary of user ${userId}`, error);
+      return [];
+    }
+  }
+
+  /** User timezones whose local time is SUMMARY_HOUR on a day matching `isDue` */
+  private async getTimezonesAt(
+    now: Date,
+    isDue: (local: ReturnType<typeof getZonedParts>) => boolean
+  ): Promise<string[]> {
+    const timezones = await this.userRepository.findDistinctTimezones();
+    return timezones.filter((timezone) => {
+      const local = getZonedParts(now, timezone);
+      return local.hour === SUMMARY_HOUR && isDue(local);
+    });
   }
 
-  private formatWeekLabel(start: Date, end: Date): string {
-    const startStr = start.toLocaleDateString("es-AR", { day: "numeric", month: "short" });
-    const endStr = end.toLocaleDateString("es-AR", { day: "numeric", month: "short" });
-    return `${startStr} al ${endStr}`;
+  private formatWeekLabel(start: Date, end: Date, timezone: string, locale: Locale): string {
+    const options: Intl.DateTimeFormatOptions = {
+      timeZone: timezone,
+      day: "numeric",
+      month: "short"
+    };
+    const intlLocale = toIntlLocale(locale);
+    const startStr = start.toLocaleDateString(intlLocale, options);
+    const endStr = end.toLocaleDateString(intlLocale, options);
+    return getMessages(locale).expenses.weekPeriod(startStr, endStr);
   }
 
-  private getWeekKey(weekStart: Date): string {
-    const y = weekStart.getFullYear();
-    const m = String(weekStart.getMonth() + 1).padStart(2, "0");
-    const d = String(weekStart.getDate()).padStart(2, "0");
-    return `${y}-${m}-${d}`;
+  private getWeekKey(year: number, month: number, day: number): string {
+    return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
   }
 
   private capitalize(str: string): string {
@@ -1,7 +1,9 @@
 import { Elysia } from "elysia";
 
+import type { UserService } from "@modules/email/user/user.service";
 import type { WhatsAppClient } from "@modules/whatsapp";
 import { env } from "@shared/env/env";
+import { DEFAULT_LOCALE, getMessages, type Messages } from "@shared/i18n/i18n";
 import { createLogger } from "@shared/logger/logger";
 
 const logger = createLogger("linking-module");
@@ -12,25 +14,25 @@ interface GeoLocation {
   country?: string;
 }
 
-async function resolveLocation(ip: string): Promise<string> {
+async function resolveLocation(ip: string, t: Messages["linking"]): Promise<string> {
   try {
     // Skip geolocation for localhost/private IPs
     if (ip === "127.0.0.1" || ip === "::1" || ip.startsWith("192.168.") || ip.startsWith("10.")) {
-      return "Red local";
+      return t.localNetwork;
     }
 
     const response = await fetch(`http://ip-api.com/json/${ip}?fields=city,regionName,country`);
-    if (!response.ok) return "Desconocida";
+    if (!response.ok) return t.unknown;
 
     const data = (await response.json()) as GeoLocation;
     const parts = [data.city, data.regionName, data.country].filter(Boolean);
-    return parts.length > 0 ? parts.join(", ") : "Desconocida";
+    return parts.length > 0 ? parts.join(", ") : t.unknown;
   } catch {
-    return "Desconocida";
+    return t.unknown;
   }
 }
 
-export function createLinkingModule(whatsappClient: WhatsAppClient) {
+export function createLinkingModule(whatsappClient: WhatsAppClient, userService?: UserService) {
   const { WEBHOOK_SECRET } = env();
 
   return new Elysia({ prefix: "/webhook" }).post("/linked", async ({ body, headers }) => {
@@ -53,15 +55,11 @@ export function createLinkingModule(whatsappClient: WhatsAppClient) {
       return { ok: false, error: "Missing chatId or username" };
     }
 
-    const location = await resolveLocation(ip || "unknown");
+    const locale = userService ? (await userService.getPreferences(chatId)).locale : DEFAULT_LOCALE;
+    const t = getMessages(locale).linking;
+    const location = await resolveLocation(ip || "unknown", t);
 
-    const message =
-      `✅ *Cuenta vinculada exitosamente*\n\n` +
-      `Tu WhatsApp se ha vinculado con la cuenta:\n\n` +
-      `👤 *Usuario:* ${username}\n` +
-      `🌐 *IP:* ${ip || "Desconocida"}\n` +
-      `📍 *Ubicación:* ${location}\n\n` +
-      `Si no fuiste tú, desvincula tu cuenta desde la web inmediatamente.`;
+    const message = t.accountLinked({ username, ip: ip || t.unknown, location });
 
     try {
       await whatsappClient.sendMessage(chatId, message);
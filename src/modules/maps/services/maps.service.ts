@@ -1,3 +1,4 @@
+import { DEFAULT_LOCALE, getMessages, type Locale } from "@shared/i18n/i18n";
 import { createLogger } from "@shared/logger/logger";
 
 export type TravelMode = "driving" | "transit" | "walking" | "bicycling";
@@ -17,13 +18,6 @@ const MODE_ICONS: Record<TravelMode, string> = {
   bicycling: "🚲"
 };
 
-const MODE_LABELS: Record<TravelMode, string> = {
-  driving: "En auto",
-  transit: "En auto",
-  walking: "Caminando",
-  bicycling: "En bicicleta"
-};
-
 interface GeocodeResponse {
   features: Array<{
     geometry: { coordinates: [number, number] };
@@ -96,7 +90,8 @@ export class MapsService {
   async getDirectionsFromCoords(
     originCoords: Coordinates,
     destination: string,
-    mode: TravelMode = "transit"
+    mode: TravelMode = "transit",
+    locale: Locale = DEFAULT_LOCALE
   ): Promise<RouteResult> {
     const destCoords = await this.geocode(destination);
     return this.fetchRoute(
@@ -104,14 +99,16 @@ export class MapsService {
       destCoords,
       originCoords.label ?? `${originCoords.lat},${originCoords.lon}`,
       destination,
-      mode
+      mode,
+      locale
     );
   }
 
   async getDirections(
     origin: string,
     destination: string,
-    mode: TravelMode = "transit"
+    mode: TravelMode = "transit",
+    locale: Locale = DEFAULT_LOCALE
   ): Promise<RouteResult> {
     const controller = new AbortController();
     const timeout = setTimeout(() => controller.abort(), 10000);
@@ -123,7 +120,7 @@ export class MapsService {
         this.geocode(destination)
       ]);
 
-      return this.fetchRoute(originCoords, destCoords, origin, destination, mode);
+      return this.fetchRoute(originCoords, destCoords, origin, destination, mode, locale);
     } catch (error) {
       clearTimeout(timeout);
       this.logger.error("Failed to get directions", error);
@@ -136,7 +133,8 @@ export class MapsService {
     destCoords: [number, number],
     originLabel: string,
     destLabel: string,
-    mode: TravelMode
+    mode: TravelMode,
+    locale: Locale
   ): Promise<RouteResult> {
     const controller = new AbortController();
     const timeout = setTimeout(() => controller.abort(), 10000);
@@ -153,7 +151,7 @@ export class MapsService {
         },
         body: JSON.stringify({
           coordinates: [originCoords, destCoords],
-          language: "es",
+          language: locale,
           instructions: true
         }),
         signal: controller.signal
@@ -205,26 +203,27 @@ export class MapsService {
     return `${(meters / 1000).toFixed(1)} km`;
   }
 
-  formatMessage(route: RouteResult): string {
+  formatMessage(route: RouteResult, locale: Locale = DEFAULT_LOCALE): string {
+    const t = getMessages(locale).directions;
     const icon = MODE_ICONS[route.mode];
-    const modeLabel = MODE_LABELS[route.mode];
+    const modeLabel = t.modes[route.mode];
 
     const osmUrl = `https://www.openstreetmap.org/directions?from=${encodeURIComponent(route.origin)}&to=${encodeURIComponent(route.destination)}`;
 
     let message =
-      `🗺️ *Cómo llegar*\n` +
-      `📍 *De:* ${route.origin} → *A:* ${route.destination}\n\n` +
+      `${t.title}\n` +
+      `${t.fromTo(route.origin, route.destination)}\n\n` +
       `${icon} *${modeLabel}:* ${route.duration} (${route.distance})\n\n`;
 
     if (route.steps.length > 0) {
-      message += `📋 *Pasos:*\n`;
+      message += `${t.steps}\n`;
       route.steps.forEach((step, i) => {
         message += `${i + 1}. ${step}\n`;
       });
       message += "\n";
     }
 
-    message += `🔗 Ver en mapa: ${osmUrl}`;
+    message += t.viewOnMap(osmUrl);
     return message;
   }
 }
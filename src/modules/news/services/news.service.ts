@@ -1,3 +1,4 @@
+import { DEFAULT_LOCALE, getMessages, type Locale } from "@shared/i18n/i18n";
 import { createLogger } from "@shared/logger/logger";
 
 interface NewsApiArticle {
@@ -100,11 +101,12 @@ export class NewsService {
     }
   }
 
-  formatMessage(articles: NewsArticle[], query?: string): string {
-    const header = query ? `📰 *Noticias sobre "${query}"*` : `📰 *Noticias de hoy*`;
+  formatMessage(articles: NewsArticle[], query?: string, locale: Locale = DEFAULT_LOCALE): string {
+    const t = getMessages(locale).news;
+    const header = query ? t.headerQuery(query) : t.headerToday;
 
     if (articles.length === 0) {
-      return `${header}\n\nNo encontre noticias en este momento.`;
+      return `${header}\n\n${t.empty}`;
     }
 
     const now = new Date();
@@ -114,7 +116,7 @@ export class NewsService {
       const ageMs = now.getTime() - article.publishedAt.getTime();
       const ageHours = Math.floor(ageMs / 3600000);
       const ageMin = Math.floor(ageMs / 60000);
-      const ageStr = ageHours >= 1 ? `hace ${ageHours}h` : `hace ${ageMin} min`;
+      const ageStr = ageHours >= 1 ? t.hoursAgo(ageHours) : t.minutesAgo(ageMin);
 
       message += `*${index + 1}.* ${article.title}\n`;
       message += `   📺 ${article.source} · ${ageStr}\n`;
@@ -1,11 +1,14 @@
 import type {
   PrismaClient,
   RecurrenceType,
-  ScheduledPayment
+  ScheduledPayment,
+  ScheduledPaymentMode
 } from "@prisma-module/generated/client";
 
 export interface CreateScheduledPaymentData {
   chatId: string;
+  userId?: string;
+  mode?: ScheduledPaymentMode;
   recipient: string;
   amount: number;
   description?: string;
@@ -23,6 +26,8 @@ export class ScheduledPaymentRepository {
     return this.prisma.scheduledPayment.create({
       data: {
         chatId: data.chatId,
+        userId: data.userId,
+        mode: data.mode,
         recipient: data.recipient,
         amount: data.amount,
         description: data.description,
@@ -52,27 +57,63 @@ export class ScheduledPaymentRepository {
     });
   }
 
-  async cancel(id: string): Promise<ScheduledPayment> {
+  /**
+   * Cancels a payment only while it's still ACTIVE.
+   * Returns false if the scheduler already claimed it for execution.
+   */
+  async cancel(id: string): Promise<boolean> {
+    const result = await this.prisma.scheduledPayment.updateMany({
+      where: { id, status: "ACTIVE" },
+      data: { status: "CANCELLED" }
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Atomically moves an ACTIVE payment to PROCESSING.
+   * Returns false if another tick already claimed it (or it was cancelled).
+   */
+  async claim(id: string): Promise<boolean> {
+    const result = await this.prisma.scheduledPayment.updateMany({
+      where: { id, status: "ACTIVE" },
+      data: { status: "PROCESSING" }
+    });
+    return result.count > 0;
+  }
+
+  async markFailed(id: string, error: string): Promise<ScheduledPayment> {
     return this.prisma.scheduledPayment.update({
       where: { id },
-      data: { status: "CANCELLED" }
+      data: { status: "FAILED", lastError: error }
+    });
+  }
+
+  async recordTransaction(
+    id: string,
+    transactionId: string | undefined,
+    error: string
+  ): Promise<ScheduledPayment> {
+    return this.prisma.scheduledPayment.update({
+      where: { id },
+      data: { lastTransactionId: transactionId, lastError: error }
     });
   }
 
   async updateAfterPayment(
     id: string,
     nextPaymentAt: Date | null,
-    paidCount: number
+    paidCount: number,
+    transactionId?: string
   ): Promise<ScheduledPayment> {
     if (nextPaymentAt === null) {
       return this.prisma.scheduledPayment.update({
         where: { id },
-        data: { paidCount, status: "COMPLETED" }
+        data: { paidCount, status: "COMPLETED", lastTransactionId: transactionId }
       });
     }
     return this.prisma.scheduledPayment.update({
       where: { id },
-      data: { paidCount, nextPaymentAt }
+      data: { paidCount, nextPaymentAt, status: "ACTIVE", lastTransactionId: transactionId }
     });
   }
 }
@@ -1,5 +1,11 @@
-import type { RecurrenceType, ScheduledPayment } from "@prisma-module/generated/client";
+import type { UserService } from "@modules/email/user/user.service";
+import type {
+  RecurrenceType,
+  ScheduledPayment,
+  ScheduledPaymentMode
+} from "@prisma-module/generated/client";
 import { createLogger } from "@shared/logger/logger";
+import { DEFAULT_TIMEZONE, getZonedParts, zonedTimeToUtc } from "@shared/timezone/timezone";
 
 import type { CreateScheduledPaymentData, ScheduledPaymentRepository } from "./payment.repository";
 
@@ -7,6 +13,8 @@ const logger = createLogger("payment-service");
 
 export interface CreatePaymentScheduleInput {
   chatId: string;
+  userId?: string;
+  mode?: ScheduledPaymentMode;
   recipient: string;
   amount: number;
   description?: string;
@@ -15,16 +23,22 @@ export interface CreatePaymentScheduleInput {
   recurrenceTime?: string;
   totalPayments?: number;
   firstPaymentAt?: Date;
+  timezone?: string;
 }
 
 export class ScheduledPaymentService {
-  constructor(private readonly repository: ScheduledPaymentRepository) {}
+  constructor(
+    private readonly repository: ScheduledPaymentRepository,
+    private readonly userService: UserService
+  ) {}
 
   async createSchedule(input: CreatePaymentScheduleInput): Promise<ScheduledPayment> {
     const nextPaymentAt = input.firstPaymentAt ?? this.calcFirstDate(input);
 
     const data: CreateScheduledPaymentData = {
       chatId: input.chatId,
+      userId: input.userId,
+      mode: input.mode,
       recipient: input.recipient,
       amount: input.amount,
       description: input.description,
@@ -40,6 +54,28 @@ export class ScheduledPaymentService {
     return schedule;
   }
 
+  /** One-off transfer executed automatically by the scheduler at `scheduledAt` */
+  async createScheduledTransfer(input: {
+    chatId: string;
+    userId: string;
+    recipient: string;
+    amount: number;
+    description?: string;
+    scheduledAt: Date;
+  }): Promise<ScheduledPayment> {
+    return this.createSchedule({
+      chatId: input.chatId,
+      userId: input.userId,
+      mode: "TRANSFER",
+      recipient: input.recipient,
+      amount: input.amount,
+      description: input.description,
+      recurrence: "NONE",
+      totalPayments: 1,
+      firstPaymentAt: input.scheduledAt
+    });
+  }
+
   async getPendingPayments(before: Date): Promise<ScheduledPayment[]> {
     return this.repository.findPendingBefore(before);
   }
@@ -48,18 +84,48 @@ export class ScheduledPaymentService {
     return this.repository.findByChat(chatId);
   }
 
-  async cancelByIndex(chatId: string, index: number): Promise<ScheduledPayment | null> {
+  /**
+   * Null if there is no payment at that position; `cancelled` is false when it
+   * was already being executed and can no longer be stopped
+   */
+  async cancelByIndex(
+    chatId: string,
+    index: number
+  ): Promise<{ payment: ScheduledPayment; cancelled: boolean } | null> {
     const schedules = await this.repository.findByChat(chatId);
     const schedule = schedules[index - 1];
     if (!schedule) return null;
-    return this.repository.cancel(schedule.id);
+    return { payment: schedule, cancelled: await this.repository.cancel(schedule.id) };
+  }
+
+  /** Claims a payment before executing it so it can never run twice */
+  async claimForExecution(id: string): Promise<boolean> {
+    return this.repository.claim(id);
+  }
+
+  async markFailed(id: string, error: string): Promise<void> {
+    await this.repository.markFailed(id, error);
+    logger.warn(`Scheduled payment ${id} failed: ${error}`);
   }
 
   /**
-   * Called after sending a payment notification.
+   * A transfer that went through but couldn't be rescheduled: keeps it out of
+   * the queue (still PROCESSING) with the transaction id for manual follow-up
+   */
+  async markForReconciliation(
+    id: string,
+    transactionId: string | undefined,
+    error: string
+  ): Promise<void> {
+    await this.repository.recordTransaction(id, transactionId, error);
+    logger.error(`Scheduled payment ${id} needs reconciliation: ${error}`);
+  }
+
+  /**
+   * Called after sending a payment notification (or executing a transfer).
    * Reschedules or marks as completed.
    */
-  async processPayment(payment: ScheduledPayment): Promise<void> {
+  async processPayment(payment: ScheduledPayment, transactionId?: string): Promise<void> {
     const newPaidCount = payment.paidCount + 1;
     const isDone =
       payment.totalPayments !== null &&
@@ -67,69 +133,68 @@ export class ScheduledPaymentService {
       newPaidCount >= payment.totalPayments;
 
     if (isDone || payment.recurrence === "NONE") {
-      await this.repository.updateAfterPayment(payment.id, null, newPaidCount);
+      await this.repository.updateAfterPayment(payment.id, null, newPaidCount, transactionId);
       logger.info(`Scheduled payment ${payment.id} completed after ${newPaidCount} payments`);
       return;
     }
 
-    const nextDate = this.calcNextDate(payment);
-    await this.repository.updateAfterPayment(payment.id, nextDate, newPaidCount);
+    const timezone = await this.userService.getTimezone(payment.chatId);
+    const nextDate = this.calcNextDate(payment, timezone);
+    await this.repository.updateAfterPayment(payment.id, nextDate, newPaidCount, transactionId);
     logger.info(`Scheduled payment ${payment.id} rescheduled to ${nextDate.toISOString()}`);
   }
 
   private calcFirstDate(input: CreatePaymentScheduleInput): Date {
     const [h, m] = (input.recurrenceTime ?? "09:00").split(":").map(Number);
+    const timezone = input.timezone ?? DEFAULT_TIMEZONE;
     const now = new Date();
+    const local = getZonedParts(now, timezone);
+    const at = (day: number, monthOffset = 0): Date =>
+      zonedTimeToUtc(
+        { year: local.year, month: local.month + monthOffset, day, hour: h, minute: m },
+        timezone
+      );
 
     if (input.recurrence === "DAILY") {
-      const d = new Date(now);
-      d.setHours(h, m, 0, 0);
-      if (d <= now) d.setDate(d.getDate() + 1);
-      return d;
+      const d = at(local.day);
+      return d <= now ? at(local.day + 1) : d;
     }
 
     if (input.recurrence === "WEEKLY") {
       const dayTarget = input.recurrenceDay ?? 1;
-      const d = new Date(now);
-      d.setHours(h, m, 0, 0);
-      const diff = (dayTarget - d.getDay() + 7) % 7 || 7;
-      d.setDate(d.getDate() + diff);
-      return d;
+      const diff = (dayTarget - local.weekday + 7) % 7 || 7;
+      return at(local.day + diff);
     }
 
     if (input.recurrence === "MONTHLY") {
       const dayOfMonth = input.recurrenceDay ?? 1;
-      const d = new Date(now.getFullYear(), now.getMonth(), dayOfMonth, h, m, 0);
-      if (d <= now) d.setMonth(d.getMonth() + 1);
-      return d;
+      const d = at(dayOfMonth);
+      return d <= now ? at(dayOfMonth, 1) : d;
     }
 
     // NONE — one-time payment 1 minute from now (fallback)
     return new Date(now.getTime() + 60_000);
   }
 
-  private calcNextDate(payment: ScheduledPayment): Date {
+  private calcNextDate(payment: ScheduledPayment, timezone: string): Date {
     const [h, m] = (payment.recurrenceTime ?? "09:00").split(":").map(Number);
-    const base = new Date(payment.nextPaymentAt);
-
-    if (payment.recurrence === "DAILY") {
-      base.setDate(base.getDate() + 1);
-      base.setHours(h, m, 0, 0);
-      return base;
-    }
-
-    if (payment.recurrence === "WEEKLY") {
-      base.setDate(base.getDate() + 7);
-      base.setHours(h, m, 0, 0);
-      return base;
-    }
-
-    if (payment.recurrence === "MONTHLY") {
-      base.setMonth(base.getMonth() + 1);
-      base.setHours(h, m, 0, 0);
-      return base;
-    }
-
-    return base;
+    const base = getZonedParts(payment.nextPaymentAt, timezone);
+    const at = (dayOffset: number, monthOffset = 0): Date =>
+      zonedTimeToUtc(
+        {
+          year: base.year,
+          month: base.month + monthOffset,
+          day: base.day + dayOffset,
+          hour: h,
+          minute: m
+        },
+        timezone
+      );
+
+    if (payment.recurrence === "DAILY") return at(1);
+    if (payment.recurrence === "WEEKLY") return at(7);
+    if (payment.recurrence === "MONTHLY") return at(0, 1);
+
+    return new Date(payment.nextPaymentAt);
   }
 }
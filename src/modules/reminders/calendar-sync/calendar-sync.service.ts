@@ -0,0 +1,241 @@
+import type { calendar_v3 } from "googleapis";
+
+import {
+  isBotCreatedEvent,
+  type CalendarSyncTarget,
+  type GoogleAuthRepository,
+  type GoogleCalendarService
+} from "@modules/calendar";
+import type { SubscriptionRepository } from "@modules/subscription/subscription.repository";
+import { env } from "@shared/env/env";
+import { getMessages, resolveLocale } from "@shared/i18n/i18n";
+import { createLogger } from "@shared/logger/logger";
+
+import type { ReminderRepository } from "../reminder.repository";
+
+// Re-list all upcoming events once a day so events entering the import
+// horizon get picked up (incremental syncs only report changed events)
+const FULL_SYNC_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const IMPORT_HORIZON_MS = 30 * 24 * 60 * 60 * 1000;
+
+export class CalendarSyncService {
+  private intervalId: Timer | null = null;
+  private readonly syncIntervalMs: number;
+  private readonly logger = createLogger("calendar-sync");
+  private isRunning = false;
+
+  constructor(
+    private readonly googleAuthRepository: GoogleAuthRepository,
+    private readonly calendarService: GoogleCalendarService,
+    private readonly reminderRepository: ReminderRepository,
+    private readonly subscriptionRepository?: SubscriptionRepository
+  ) {
+    this.syncIntervalMs = env().CALENDAR_SYNC_INTERVAL_MS;
+  }
+
+  start(): void {
+    if (this.intervalId) {
+      this.logger.warn("Calendar sync already running");
+      return;
+    }
+
+    this.logger.info(`Calendar sync started (checking every ${this.syncIntervalMs / 1000}s)`);
+
+    // Run immediately on start
+    this.tick();
+
+    // Then run on interval
+    this.intervalId = setInterval(() => this.tick(), this.syncIntervalMs);
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      this.logger.info("Calendar sync stopped");
+    }
+  }
+
+  private async tick(): Promise<void> {
+    if (this.isRunning) {
+      this.logger.debug("Calendar sync tick skipped (previous tick still running)");
+      return;
+    }
+
+    this.isRunning = true;
+
+    try {
+      await this.syncAllUsers();
+    } catch (error) {
+      this.logger.error("Error in calendar sync tick", error);
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  async syncAllUsers(): Promise<void> {
+    const targets = await this.googleAuthRepository.findAllForSync();
+
+    if (targets.length === 0) {
+      this.logger.debug("No users with Google Calendar linked");
+      return;
+    }
+
+    for (const target of targets) {
+      // Check if user's plan includes calendar sync
+      if (this.subscriptionRepository) {
+        const info = await this.subscriptionRepository.getUserSubscriptionInfo(target.chatId);
+        if (!info.hasActiveSubscription || !info.hasCalendarSync) {
+          this.logger.debug(`Skipping user ${target.userId}: plan does not include calendar sync`);
+          continue;
+        }
+      }
+
+      try {
+        await this.syncUser(target);
+      } catch (error) {
+        this.logger.error(`Failed to sync calendar for user ${target.userId}: ${error}`);
+      }
+    }
+  }
+
+  async syncUser(target: CalendarSyncTarget): Promise<void> {
+    const needsFullSync =
+      !target.syncToken ||
+      !target.lastFullSyncAt ||
+      Date.now() - target.lastFullSyncAt.getTime() > FULL_SYNC_INTERVAL_MS;
+
+    const changes = await this.calendarService.listEventChanges(
+      target.userId,
+      needsFullSync ? null : target.syncToken
+    );
+
+    for (const event of changes.events) {
+      try {
+        await this.applyEvent(target, event);
+      } catch (error) {
+        this.logger.error(`Failed to apply calendar event ${event.id}: ${error}`);
+      }
+    }
+
+    if (changes.fullSync) {
+      await this.cancelMissingImports(target, changes.events);
+    }
+
+    await this.googleAuthRepository.updateSyncState(
+      target.userId,
+      changes.nextSyncToken,
+      changes.fullSync
+    );
+
+    if (changes.events.length > 0) {
+      this.logger.debug(
+        `Applied ${changes.events.length} calendar change(s) for user ${target.userId}`
+      );
+    }
+  }
+
+  /**
+   * A full sync lists every upcoming event, so an imported reminder whose event
+   * isn't among them was deleted at some point the incremental syncs missed
+   */
+  private async cancelMissingImports(
+    target: CalendarSyncTarget,
+    events: calendar_v3.Schema$Event[]
+  ): Promise<void> {
+    const listed = new Set(
+      events.filter((event) => event.id && event.status !== "cancelled").map((event) => event.id)
+    );
+
+    for (const reminder of await this.reminderRepository.findPendingCalendarImports(
+      target.chatId
+    )) {
+      if (reminder.calendarEventId && !listed.has(reminder.calendarEventId)) {
+        await this.reminderRepository.updateStatus(reminder.id, "CANCELLED");
+        this.logger.info(`Reminder ${reminder.id} cancelled (calendar event no longer listed)`);
+      }
+    }
+  }
+
+  /**
+   * Create, move or cancel the reminder linked to a calendar event
+   */
+  private async applyEvent(
+    target: CalendarSyncTarget,
+    event: calendar_v3.Schema$Event
+  ): Promise<void> {
+    if (!event.id) return;
+
+    const linked = await this.reminderRepository.findLatestByCalendarEventId(
+      target.chatId,
+      event.id
+    );
+    const pending = linked?.status === "PENDING" ? linked : null;
+
+    // All-day events have no start time to remind before
+    const startTime = event.start?.dateTime ? new Date(event.start.dateTime) : null;
+
+    if (event.status === "cancelled" || !startTime) {
+      if (pending) {
+        await this.reminderRepository.updateStatus(pending.id, "CANCELLED");
+        this.logger.info(`Reminder ${pending.id} cancelled (calendar event removed)`);
+      }
+      return;
+    }
+
+    const summary =
+      event.summary ||
+      getMessages(resolveLocale(target.locale)).reminders.calendarLead.untitledEvent;
+    const leadMs = target.calendarLeadMinutes * 60 * 1000;
+
+    if (pending) {
+      // Reminders we pushed fire at the event start; imported ones fire before it
+      const scheduledAt =
+        pending.source === "BOT" ? startTime : new Date(startTime.getTime() - leadMs);
+      const textChanged = pending.source === "CALENDAR" && pending.reminderText !== summary;
+
+      if (pending.scheduledAt.getTime() !== scheduledAt.getTime() || textChanged) {
+        await this.reminderRepository.updateFromCalendar(pending.id, {
+          scheduledAt,
+          ...(pending.source === "CALENDAR" && { reminderText: summary })
+        });
+        this.logger.info(`Reminder ${pending.id} updated from calendar event ${event.id}`);
+      }
+      return;
+    }
+
+    // Events we created ourselves are already covered by their own reminder
+    if (isBotCreatedEvent(event)) return;
+
+    const scheduledAt = new Date(startTime.getTime() - leadMs);
+    const now = Date.now();
+    if (scheduledAt.getTime() <= now || startTime.getTime() > now + IMPORT_HORIZON_MS) return;
+
+    // Don't bring back reminders the user cancelled or that already fired for this time
+    if (linked?.status === "CANCELLED") return;
+    if (linked && linked.scheduledAt.getTime() === scheduledAt.getTime()) return;
+
+    // Imported reminders count toward the plan's limit like the ones asked for in chat
+    if (!(await this.hasReminderRoom(target.chatId))) {
+      this.logger.debug(`Skipping calendar event ${event.id}: reminder limit reached`);
+      return;
+    }
+
+    const reminder = await this.reminderRepository.create({
+      originalText: summary,
+      reminderText: summary,
+      scheduledAt,
+      chatId: target.chatId,
+      calendarEventId: event.id,
+      source: "CALENDAR"
+    });
+    this.logger.info(`Imported calendar event ${event.id} as reminder ${reminder.id}`);
+  }
+
+  private async hasReminderRoom(chatId: string): Promise<boolean> {
+    if (!this.subscriptionRepository) return true;
+
+    const info = await this.subscriptionRepository.getUserSubscriptionInfo(chatId);
+    return info.maxReminders === null || info.currentReminderCount < info.maxReminders;
+  }
+}
@@ -1,6 +1,8 @@
 import type { WhatsAppClient } from "@modules/whatsapp";
 import type { Reminder } from "@prisma-module/generated/client";
+import { getMessages, type Locale, resolveLocale, toIntlLocale } from "@shared/i18n/i18n";
 import { createLogger } from "@shared/logger/logger";
+import { getZonedDayRange, getZonedParts } from "@shared/timezone/timezone";
 
 import type { UserRepository } from "../../email/user/user.repository";
 import type { ReminderRepository } from "../reminder.repository";
@@ -42,18 +44,18 @@ export class DigestService {
     private readonly whatsappClient: WhatsAppClient
   ) {}
 
-  async sendDailyDigests(currentHourBsAs: number): Promise<void> {
-    const users = await this.userRepository.findUsersForDigest(currentHourBsAs);
-
-    if (users.length === 0) return;
-
-    const now = new Date();
-    const { startOfDay, endOfDay } = this.getTodayRange(now);
-    const dateKey = this.getDateKey(now);
+  /** Sends the digest to every user whose local hour matches their digest hour */
+  async sendDailyDigests(now: Date = new Date()): Promise<void> {
+    const users = await this.userRepository.findUsersForDigest();
 
     for (const user of users) {
       const chatId = user.chatId!;
-      const dedupKey = `${chatId}:${dateKey}`;
+      const timezone = user.timezone;
+
+      if (getZonedParts(now, timezone).hour !== user.digestHour) continue;
+
+      const { startOfDay, endOfDay } = this.getTodayRange(now, timezone);
+      const dateKey = this.getDateKey(now, timezone);
 
       if (this.sentToday.get(chatId) === dateKey) {
         this.logger.debug(`Digest already sent to ${chatId} today, skipping`);
@@ -66,7 +68,7 @@ export class DigestService {
           startOfDay,
           endOfDay
         );
-        const message = this.formatDigest(reminders, now);
+        const message = this.formatDigest(reminders, now, timezone, resolveLocale(user.locale));
 
         await this.whatsappClient.sendMessage(chatId, message);
         this.sentToday.set(chatId, dateKey);
@@ -74,34 +76,31 @@ export class DigestService {
       } catch (error) {
         this.logger.error(`Failed to send digest to ${chatId}`, error);
       }
-
-      // Silence unused variable warning
-      void dedupKey;
     }
   }
 
-  private formatDigest(reminders: Reminder[], now: Date): string {
-    const dateStr = now.toLocaleDateString("es-AR", {
-      timeZone: "America/Argentina/Buenos_Aires",
+  private formatDigest(reminders: Reminder[], now: Date, timezone: string, locale: Locale): string {
+    const t = getMessages(locale).digest;
+    const intlLocale = toIntlLocale(locale);
+    const dateStr = now.toLocaleDateString(intlLocale, {
+      timeZone: timezone,
       weekday: "long",
       day: "numeric",
       month: "long"
     });
 
     if (reminders.length === 0) {
-      return `🌅 *Buenos días!*\n\nNo tenés recordatorios para hoy. ¡Que tengas un excelente día! ✨`;
+      return t.empty;
     }
 
-    let message = `🌅 *Buenos días!*\n\nTus recordatorios para hoy, ${dateStr}:\n\n`;
+    let message = t.header(dateStr);
 
     reminders.forEach((reminder, index) => {
-      const hour = reminder.scheduledAt.getUTCHours();
-      // Convert UTC to Buenos Aires (UTC-3)
-      const bsAsHour = (hour - 3 + 24) % 24;
-      const clockIcon = CLOCK_ICONS[bsAsHour] ?? "🕐";
+      const localHour = getZonedParts(reminder.scheduledAt, timezone).hour;
+      const clockIcon = CLOCK_ICONS[localHour] ?? "🕐";
 
-      const timeStr = reminder.scheduledAt.toLocaleTimeString("es-AR", {
-        timeZone: "America/Argentina/Buenos_Aires",
+      const timeStr = reminder.scheduledAt.toLocaleTimeString(intlLocale, {
+        timeZone: timezone,
         hour: "2-digit",
         minute: "2-digit"
       });
@@ -109,35 +108,18 @@ export class DigestService {
       message += `${index + 1}. ${clockIcon} ${timeStr} - ${reminder.reminderText}\n`;
     });
 
-    const count = reminders.length;
-    message += `\nTenés ${count} recordatorio${count > 1 ? "s" : ""} hoy. ¡A darle con todo! 💪`;
+    message += t.footer(reminders.length);
 
     return message;
   }
 
-  private getTodayRange(now: Date): { startOfDay: Date; endOfDay: Date } {
-    // Get today's date in Buenos Aires time (UTC-3)
-    const bsAsOffset = -3 * 60 * 60 * 1000;
-    const bsAsNow = new Date(now.getTime() + bsAsOffset);
-
-    const year = bsAsNow.getUTCFullYear();
-    const month = bsAsNow.getUTCMonth();
-    const day = bsAsNow.getUTCDate();
-
-    // Start of day in BsAs = midnight BsAs = 03:00 UTC
-    const startOfDay = new Date(Date.UTC(year, month, day, 3, 0, 0, 0));
-    // End of day in BsAs = 23:59:59 BsAs = 02:59:59 next day UTC
-    const endOfDay = new Date(Date.UTC(year, month, day + 1, 2, 59, 59, 999));
-
-    return { startOfDay, endOfDay };
+  private getTodayRange(now: Date, timezone: string): { startOfDay: Date; endOfDay: Date } {
+    const { start, end } = getZonedDayRange(now, timezone);
+    return { startOfDay: start, endOfDay: end };
   }
 
-  private getDateKey(now: Date): string {
-    const bsAsOffset = -3 * 60 * 60 * 1000;
-    const bsAsNow = new Date(now.getTime() + bsAsOffset);
-    const year = bsAsNow.getUTCFullYear();
-    const month = String(bsAsNow.getUTCMonth() + 1).padStart(2, "0");
-    const day = String(bsAsNow.getUTCDate()).padStart(2, "0");
-    return `${year}-${month}-${day}`;
+  private getDateKey(now: Date, timezone: string): string {
+    const { year, month, day } = getZonedParts(now, timezone);
+    return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
   }
 }
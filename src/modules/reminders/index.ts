@@ -2,3 +2,4 @@ export { ReminderService, type CreateReminderInput } from "./reminder.service";
 export { ReminderRepository, type CreateReminderData } from "./reminder.repository";
 export { SchedulerService } from "./scheduler/scheduler.service";
 export { DigestService } from "./digest/digest.service";
+export { CalendarSyncService } from "./calendar-sync/calendar-sync.service";
@@ -0,0 +1,341 @@
+import type { RecurrenceType } from "@prisma-module/generated/client";
+import { getMessages, toIntlLocale } from "@shared/i18n/i18n";
+import { getZonedParts, zonedTimeToUtc } from "@shared/timezone/timezone";
+
+/**
+ * Subset of RFC 5545 RRULE supported for reminders:
+ * FREQ (DAILY/WEEKLY/MONTHLY), INTERVAL, BYDAY (with ordinals for MONTHLY,
+ * e.g. -1FR), BYMONTHDAY (negative = from month end), UNTIL and COUNT.
+ * The time of day lives in Reminder.recurrenceTime, not in the rule.
+ */
+export type RRuleFrequency = Exclude<RecurrenceType, "NONE">;
+
+export interface RRuleWeekday {
+  /** 0=Sun, 1=Mon ... 6=Sat */
+  weekday: number;
+  /** For MONTHLY: 1 = first, -1 = last ... */
+  nth?: number;
+}
+
+export interface RRule {
+  freq: RRuleFrequency;
+  interval: number;
+  byDay: RRuleWeekday[];
+  byMonthDay: number[];
+  until?: Date;
+  count?: number;
+}
+
+const DAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const FREQUENCIES: RRuleFrequency[] = ["DAILY", "WEEKLY", "MONTHLY"];
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+// Far enough for "every 12 months on the last Friday" style rules
+const MAX_LOOKAHEAD_DAYS = 5 * 366;
+
+export function parseRRule(value: string): RRule {
+  const fields = new Map<string, string>();
+  for (const part of value.replace(/^RRULE:/i, "").split(";")) {
+    const [key, val] = part.split("=");
+    if (key && val) fields.set(key.trim().toUpperCase(), val.trim().toUpperCase());
+  }
+
+  const freq = fields.get("FREQ") as RRuleFrequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) {
+    throw new Error(`Unsupported RRULE frequency: ${value}`);
+  }
+
+  const interval = Number(fields.get("INTERVAL") ?? 1);
+  if (!Number.isInteger(interval) || interval < 1) {
+    throw new Error(`Invalid RRULE interval: ${value}`);
+  }
+
+  const byDay = (fields.get("BYDAY")?.split(",") ?? []).map((code) => {
+    const match = /^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/.exec(code);
+    if (!match) throw new Error(`Invalid RRULE BYDAY: ${value}`);
+    return {
+      weekday: DAY_CODES.indexOf(match[2]),
+      ...(match[1] && { nth: Number(match[1]) })
+    };
+  });
+
+  const byMonthDay = (fields.get("BYMONTHDAY")?.split(",") ?? []).map((day) => {
+    const n = Number(day);
+    if (!Number.isInteger(n) || n === 0 || n < -31 || n > 31) {
+      throw new Error(`Invalid RRULE BYMONTHDAY: ${value}`);
+    }
+    return n;
+  });
+
+  const untilValue = fields.get("UNTIL");
+  const count = fields.has("COUNT") ? Number(fields.get("COUNT")) : undefined;
+  if (count !== undefined && (!Number.isInteger(count) || count < 1)) {
+    throw new Error(`Invalid RRULE count: ${value}`);
+  }
+
+  return {
+    freq,
+    interval,
+    byDay,
+    byMonthDay,
+    ...(untilValue && { until: parseUntil(untilValue) }),
+    ...(count !== undefined && { count })
+  };
+}
+
+/** Date-only UNTIL values mean "through the end of that day" */
+function parseUntil(value: string, timezone?: string): Date {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(value);
+  if (!match) throw new Error(`Invalid RRULE UNTIL: ${value}`);
+
+  const [, y, m, d, hh, mm, ss] = match.map(Number);
+  if (match[4]) {
+    return new Date(Date.UTC(y, m - 1, d, hh, mm, ss));
+  }
+
+  const nextDay = timezone
+    ? zonedTimeToUtc({ year: y, month: m, day: d + 1 }, timezone).getTime()
+    : Date.UTC(y, m - 1, d + 1);
+  return new Date(nextDay - 1000);
+}
+
+export function formatRRule(rule: RRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map((d) => `${d.nth ?? ""}${DAY_CODES[d.weekday]}`).join(",")}`);
+  }
+  if (rule.byMonthDay.length > 0) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  if (rule.until) {
+    parts.push(
+      `UNTIL=${rule.until
+        .toISOString()
+        .replace(/[-:]/g, "")
+        .replace(/\.\d{3}/, "")}`
+    );
+  }
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+
+  return parts.join(";");
+}
+
+/**
+ * Parse and canonicalize a rule as written by the LLM, resolving a date-only
+ * UNTIL to the end of that day in the user's timezone
+ */
+export function normalizeRRule(value: string, timezone: string): string {
+  const rule = parseRRule(value);
+  const untilValue = /UNTIL=(\d{8})(?:;|$)/i.exec(value)?.[1];
+  if (untilValue) {
+    rule.until = parseUntil(untilValue, timezone);
+  }
+  return formatRRule(rule);
+}
+
+/** Rule for reminders created before RRULE support (recurrence + recurrenceDay) */
+export function legacyToRRule(
+  recurrence: RecurrenceType,
+  recurrenceDay: number | null
+): RRule | null {
+  switch (recurrence) {
+    case "DAILY":
+      return { freq: "DAILY", interval: 1, byDay: [], byMonthDay: [] };
+    case "WEEKLY":
+      return {
+        freq: "WEEKLY",
+        interval: 1,
+        byDay: [{ weekday: recurrenceDay ?? 0 }],
+        byMonthDay: []
+      };
+    case "MONTHLY":
+      return { freq: "MONTHLY", interval: 1, byDay: [], byMonthDay: [recurrenceDay ?? 1] };
+    default:
+      return null;
+  }
+}
+
+/** Effective rule of a reminder, or null if it doesn't repeat */
+export function getReminderRRule(reminder: {
+  recurrence: RecurrenceType;
+  recurrenceDay?: number | null;
+  rrule?: string | null;
+}): RRule | null {
+  if (reminder.recurrence === "NONE") return null;
+  return reminder.rrule
+    ? parseRRule(reminder.rrule)
+    : legacyToRRule(reminder.recurrence, reminder.recurrenceDay ?? null);
+}
+
+interface CalendarDay {
+  year: number;
+  month: number;
+  day: number;
+  weekday: number;
+  /** Days since the Unix epoch, for interval arithmetic */
+  index: number;
+}
+
+function toCalendarDay(year: number, month: number, day: number): CalendarDay {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    weekday: date.getUTCDay(),
+    index: Math.round(date.getTime() / MS_PER_DAY)
+  };
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/** Index of the Monday starting the week (RFC 5545 default WKST=MO) */
+function weekStart(d: CalendarDay): number {
+  return d.index - ((d.weekday + 6) % 7);
+}
+
+function isMultipleOf(value: number, interval: number): boolean {
+  return ((value % interval) + interval) % interval === 0;
+}
+
+function matchesDay(rule: RRule, d: CalendarDay, anchor: CalendarDay): boolean {
+  const weekdays = rule.byDay.map((b) => b.weekday);
+
+  switch (rule.freq) {
+    case "DAILY":
+      return (
+        isMultipleOf(d.index - anchor.index, rule.interval) &&
+        (weekdays.length === 0 || weekdays.includes(d.weekday))
+      );
+
+    case "WEEKLY":
+      return (
+        isMultipleOf((weekStart(d) - weekStart(anchor)) / 7, rule.interval) &&
+        (weekdays.length > 0 ? weekdays : [anchor.weekday]).includes(d.weekday)
+      );
+
+    case "MONTHLY": {
+      const months = d.year * 12 + d.month - (anchor.year * 12 + anchor.month);
+      if (!isMultipleOf(months, rule.interval)) return false;
+
+      const monthLength = daysInMonth(d.year, d.month);
+      if (rule.byMonthDay.length > 0) {
+        return rule.byMonthDay.some((md) => (md > 0 ? md : monthLength + md + 1) === d.day);
+      }
+      if (rule.byDay.length > 0) {
+        return rule.byDay.some((b) => {
+          if (b.weekday !== d.weekday) return false;
+          if (!b.nth) return true;
+          return b.nth > 0
+            ? Math.ceil(d.day / 7) === b.nth
+            : Math.floor((monthLength - d.day) / 7) === -b.nth - 1;
+        });
+      }
+      return d.day === anchor.day;
+    }
+  }
+}
+
+/**
+ * First occurrence strictly after `after`, at `time` (wall clock in
+ * `timezone`). INTERVAL is counted from `anchor` (the previous occurrence,
+ * or now for a new series). Returns null once UNTIL has passed.
+ */
+export function nextOccurrence(
+  rule: RRule,
+  options: {
+    time: { hour: number; minute: number };
+    timezone: string;
+    after: Date;
+    anchor?: Date;
+  }
+): Date | null {
+  const { time, timezone, after } = options;
+  const start = getZonedParts(after, timezone);
+  const anchorParts = getZonedParts(options.anchor ?? after, timezone);
+  const anchor = toCalendarDay(anchorParts.year, anchorParts.month, anchorParts.day);
+
+  for (let offset = 0; offset <= MAX_LOOKAHEAD_DAYS; offset++) {
+    const d = toCalendarDay(start.year, start.month, start.day + offset);
+    if (!matchesDay(rule, d, anchor)) continue;
+
+    const candidate = zonedTimeToUtc(
+      { year: d.year, month: d.month, day: d.day, hour: time.hour, minute: time.minute },
+      timezone
+    );
+    if (candidate <= after) continue;
+    if (rule.until && candidate > rule.until) return null;
+
+    return candidate;
+  }
+
+  return null;
+}
+
+/**
+ * Human-readable schedule, e.g. "todos los lunes y jueves" / "every 2 weeks on Tuesday".
+ * Rules without BYDAY/BYMONTHDAY repeat on the weekday or day of `occurrence`
+ * (any date of the series), as in nextOccurrence.
+ */
+export function describeRRule(
+  rule: RRule,
+  locale: string,
+  timezone: string,
+  occurrence?: Date
+): string {
+  const { weekdays, recurrence: t } = getMessages(locale).reminders;
+  const anchorParts = getZonedParts(occurrence ?? new Date(), timezone);
+  const anchor = toCalendarDay(anchorParts.year, anchorParts.month, anchorParts.day);
+  const joinList = (items: string[]) =>
+    items.length > 1 ? `${items.slice(0, -1).join(", ")} ${t.and} ${items.at(-1)}` : items[0];
+  const dayNames = rule.byDay.map((b) => t.dayNames[b.weekday]);
+  const isWorkweek =
+    rule.byDay.length === 5 &&
+    [1, 2, 3, 4, 5].every((wd) => rule.byDay.some((b) => b.weekday === wd && !b.nth));
+
+  let text: string;
+  switch (rule.freq) {
+    case "DAILY":
+      text = isWorkweek ? t.weekdays : rule.interval > 1 ? t.everyNDays(rule.interval) : t.daily;
+      break;
+
+    case "WEEKLY":
+      if (isWorkweek && rule.interval === 1) {
+        text = t.weekdays;
+      } else {
+        const days = joinList(dayNames.length > 0 ? dayNames : [t.dayNames[anchor.weekday]]);
+        text = rule.interval > 1 ? t.everyNWeeks(rule.interval, days) : t.weekly(days);
+      }
+      break;
+
+    case "MONTHLY": {
+      const detail =
+        rule.byMonthDay.length > 0
+          ? joinList(rule.byMonthDay.map((md) => t.monthDay(md)))
+          : rule.byDay.length > 0
+            ? joinList(
+                rule.byDay.map((b) =>
+                  b.nth ? t.nthWeekday(b.nth, weekdays[b.weekday]) : t.weekly(t.dayNames[b.weekday])
+                )
+              )
+            : t.monthDay(anchor.day);
+      text = rule.interval > 1 ? t.everyNMonths(rule.interval, detail) : t.monthly(detail);
+      break;
+    }
+  }
+
+  if (rule.until) {
+    const date = rule.until.toLocaleDateString(toIntlLocale(locale), {
+      timeZone: timezone,
+      day: "numeric",
+      month: "long"
+    });
+    text += ` ${t.until(date)}`;
+  }
+  if (rule.count) {
+    text += ` (${t.times(rule.count)})`;
+  }
+
+  return text;
+}
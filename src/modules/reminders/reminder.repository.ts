@@ -1,6 +1,7 @@
 import type {
   PrismaClient,
   Reminder,
+  ReminderSource,
   ReminderStatus,
   RecurrenceType
 } from "@prisma-module/generated/client";
@@ -14,6 +15,10 @@ export interface CreateReminderData {
   recurrence?: RecurrenceType;
   recurrenceDay?: number;
   recurrenceTime?: string;
+  rrule?: string;
+  occurrenceIndex?: number;
+  source?: ReminderSource;
+  insist?: boolean;
 }
 
 export class ReminderRepository {
@@ -46,7 +51,11 @@ export class ReminderRepository {
         calendarEventId: data.calendarEventId,
         recurrence: data.recurrence || "NONE",
         recurrenceDay: data.recurrenceDay,
-        recurrenceTime: data.recurrenceTime
+        recurrenceTime: data.recurrenceTime,
+        rrule: data.rrule,
+        occurrenceIndex: data.occurrenceIndex,
+        source: data.source,
+        insist: data.insist
       }
     });
   }
@@ -55,6 +64,49 @@ export class ReminderRepository {
     return this.prisma.reminder.findUnique({ where: { id } });
   }
 
+  /**
+   * Most recent reminder of a chat linked to a Google Calendar event, in any
+   * status. Everyone invited to a meeting shares its event id
+   */
+  async findLatestByCalendarEventId(
+    chatId: string,
+    calendarEventId: string
+  ): Promise<Reminder | null> {
+    return this.prisma.reminder.findFirst({
+      where: { chatId, calendarEventId },
+      orderBy: { createdAt: "desc" }
+    });
+  }
+
+  /** Pending reminders imported from the chat's Google Calendar */
+  async findPendingCalendarImports(chatId: string): Promise<Reminder[]> {
+    return this.prisma.reminder.findMany({
+      where: { chatId, status: "PENDING", source: "CALENDAR", calendarEventId: { not: null } }
+    });
+  }
+
+  /**
+   * Reminder whose notification is the given WhatsApp message (quoted replies)
+   */
+  async findByNotificationMessageId(
+    chatId: string,
+    notificationMessageId: string
+  ): Promise<Reminder | null> {
+    return this.prisma.reminder.findFirst({
+      where: { chatId, notificationMessageId }
+    });
+  }
+
+  async updateFromCalendar(
+    id: string,
+    data: { scheduledAt: Date; reminderText?: string }
+  ): Promise<Reminder> {
+    return this.prisma.reminder.update({
+      where: { id },
+      data
+    });
+  }
+
   async findPendingBefore(beforeTime: Date): Promise<Reminder[]> {
     return this.prisma.reminder.findMany({
       where: {
@@ -75,6 +127,72 @@ export class ReminderRepository {
     });
   }
 
+  /**
+   * Mark as delivered, restarting the repeat cycle of insistent reminders
+   * (nextNagAt stays null for normal ones)
+   */
+  async markSent(
+    id: string,
+    notificationMessageId?: string,
+    nextNagAt: Date | null = null
+  ): Promise<Reminder> {
+    return this.prisma.reminder.update({
+      where: { id },
+      data: {
+        status: "SENT",
+        sentAt: new Date(),
+        notificationMessageId,
+        nagCount: 0,
+        nextNagAt
+      }
+    });
+  }
+
+  /**
+   * Insistent reminders delivered but not acknowledged whose next repeat is due
+   */
+  async findDueNags(beforeTime: Date): Promise<Reminder[]> {
+    return this.prisma.reminder.findMany({
+      where: {
+        status: "SENT",
+        nextNagAt: { lte: beforeTime }
+      },
+      orderBy: { nextNagAt: "asc" }
+    });
+  }
+
+  async recordNag(
+    id: string,
+    nagCount: number,
+    nextNagAt: Date,
+    notificationMessageId?: string
+  ): Promise<Reminder> {
+    return this.prisma.reminder.update({
+      where: { id },
+      data: { nagCount, nextNagAt, notificationMessageId }
+    });
+  }
+
+  async stopNagging(id: string, escalated: boolean = false): Promise<Reminder> {
+    return this.prisma.reminder.update({
+      where: { id },
+      data: {
+        nextNagAt: null,
+        ...(escalated && { escalatedAt: new Date() })
+      }
+    });
+  }
+
+  /**
+   * Put a delivered reminder back in the queue for a later time
+   */
+  async snooze(id: string, scheduledAt: Date): Promise<Reminder> {
+    return this.prisma.reminder.update({
+      where: { id },
+      data: { status: "PENDING", scheduledAt }
+    });
+  }
+
   async findByChat(chatId: string, limit: number = 10): Promise<Reminder[]> {
     return this.prisma.reminder.findMany({
       where: { chatId },
@@ -168,6 +286,27 @@ export class ReminderRepository {
     };
   }
 
+  /**
+   * Get the userId whose Google Calendar should receive this chat's reminders,
+   * or null if the user's active plan doesn't include calendar sync
+   */
+  async findCalendarSyncUserId(chatId: string): Promise<string | null> {
+    const user = await this.prisma.user.findUnique({
+      where: { chatId },
+      select: {
+        id: true,
+        subscription: {
+          select: { status: true, plan: { select: { hasCalendarSync: true } } }
+        }
+      }
+    });
+
+    const sub = user?.subscription;
+    const isActive = sub?.status === "ACTIVE" || sub?.status === "TRIALING";
+
+    return user && isActive && sub?.plan.hasCalendarSync ? user.id : null;
+  }
+
   /**
    * Check if user can create more reminders based on their plan
    */
@@ -1,8 +1,12 @@
 import type { GoogleCalendarService } from "@modules/calendar";
+import type { UserService } from "@modules/email/user/user.service";
 import type { Reminder, RecurrenceType } from "@prisma-module/generated/client";
 import { createLogger } from "@shared/logger/logger";
+import { DEFAULT_TIMEZONE } from "@shared/timezone/timezone";
 
+import { formatRRule, getReminderRRule, nextOccurrence } from "./recurrence/rrule";
 import type { ReminderRepository, CreateReminderData } from "./reminder.repository";
+import { nagDelayMs } from "./scheduler/nagging";
 
 export interface CreateReminderInput {
   originalText: string;
@@ -12,14 +16,25 @@ export interface CreateReminderInput {
   recurrence?: RecurrenceType;
   recurrenceDay?: number;
   recurrenceTime?: string;
+  /** Normalized RRULE (see normalizeRRule); legacy recurrenceDay is used if absent */
+  rrule?: string;
+  /** Re-send until acknowledged (see scheduler/nagging) */
+  insist?: boolean;
+  timezone?: string;
 }
 
+export type RecurrenceRule = Pick<
+  Reminder,
+  "recurrence" | "recurrenceDay" | "recurrenceTime" | "rrule"
+>;
+
 export class ReminderService {
   private readonly logger = createLogger("reminder");
 
   constructor(
     private readonly repository: ReminderRepository,
-    private readonly calendarService: GoogleCalendarService | null
+    private readonly calendarService: GoogleCalendarService | null,
+    private readonly userService: UserService
   ) {}
 
   async createReminder(input: CreateReminderInput): Promise<Reminder> {
@@ -27,13 +42,22 @@ export class ReminderService {
 
     let calendarEventId: string | undefined;
 
-    // Try to create calendar event if calendar service is available
-    if (this.calendarService) {
+    const rrule = getReminderRRule({
+      recurrence: input.recurrence ?? "NONE",
+      recurrenceDay: input.recurrenceDay,
+      rrule: input.rrule
+    });
+
+    // Try to create the event in the owner's calendar if their plan includes it
+    const calendarUserId = await this.getCalendarUserId(input.chatId);
+    if (this.calendarService && calendarUserId) {
       try {
-        calendarEventId = await this.calendarService.createEvent({
+        calendarEventId = await this.calendarService.createEvent(calendarUserId, {
           summary: `Recordatorio: ${input.reminderText.substring(0, 50)}`,
           description: input.originalText,
-          startTime: input.scheduledAt
+          startTime: input.scheduledAt,
+          timeZone: input.timezone,
+          recurrence: rrule ? [`RRULE:${formatRRule(rrule)}`] : undefined
         });
         this.logger.info(`Calendar event created: ${calendarEventId}`);
       } catch (error) {
@@ -49,7 +73,9 @@ export class ReminderService {
       calendarEventId,
       recurrence: input.recurrence,
       recurrenceDay: input.recurrenceDay,
-      recurrenceTime: input.recurrenceTime
+      recurrenceTime: input.recurrenceTime,
+      rrule: input.rrule,
+      insist: input.insist
     };
 
     const reminder = await this.repository.create(data);
@@ -58,9 +84,77 @@ export class ReminderService {
     return reminder;
   }
 
-  async markAsSent(id: string): Promise<void> {
-    await this.repository.updateStatus(id, "SENT", new Date());
-    this.logger.debug(`Reminder ${id} marked as sent`);
+  async markAsSent(reminder: Reminder, notificationMessageId?: string): Promise<void> {
+    const nextNagAt = reminder.insist ? new Date(Date.now() + nagDelayMs(0)) : null;
+    await this.repository.markSent(reminder.id, notificationMessageId, nextNagAt);
+    this.logger.debug(`Reminder ${reminder.id} marked as sent`);
+  }
+
+  async getDueNags(beforeTime: Date): Promise<Reminder[]> {
+    return this.repository.findDueNags(beforeTime);
+  }
+
+  /** Record a repeat of an insistent reminder and schedule the following one */
+  async recordNag(reminder: Reminder, notificationMessageId?: string): Promise<void> {
+    const nagCount = reminder.nagCount + 1;
+    const nextNagAt = new Date(Date.now() + nagDelayMs(nagCount));
+    await this.repository.recordNag(reminder.id, nagCount, nextNagAt, notificationMessageId);
+    this.logger.debug(
+      `Reminder ${reminder.id} repeated (${nagCount}), next at ${nextNagAt.toISOString()}`
+    );
+  }
+
+  async stopNagging(id: string, escalated: boolean = false): Promise<void> {
+    await this.repository.stopNagging(id, escalated);
+    this.logger.info(`Reminder ${id} stopped repeating${escalated ? " (escalated)" : ""}`);
+  }
+
+  /**
+   * Mark a delivered reminder as done, so it's distinguishable from merely sent
+   */
+  async acknowledgeReminder(id: string): Promise<void> {
+    await this.repository.updateStatus(id, "ACKNOWLEDGED");
+    this.logger.info(`Reminder ${id} acknowledged`);
+  }
+
+  /**
+   * Deliver a reminder again at `until`. A one-off reminder goes back to
+   * PENDING; a recurring one already has its next occurrence queued, so the
+   * snooze is a one-off copy and the series is left untouched.
+   */
+  async snoozeReminder(id: string, until: Date): Promise<Reminder> {
+    const reminder = await this.repository.findById(id);
+
+    if (!reminder) {
+      throw new Error(`Reminder ${id} not found`);
+    }
+
+    if (reminder.recurrence === "NONE") {
+      const snoozed = await this.repository.snooze(id, until);
+      this.logger.info(`Reminder ${id} snoozed until ${until.toISOString()}`);
+      return snoozed;
+    }
+
+    // The copy carries the insisting; the delivered occurrence stops repeating
+    await this.repository.stopNagging(id);
+    const copy = await this.repository.create({
+      originalText: reminder.originalText,
+      reminderText: reminder.reminderText,
+      scheduledAt: until,
+      chatId: reminder.chatId,
+      source: reminder.source,
+      insist: reminder.insist
+    });
+    this.logger.info(`Recurring reminder ${id} snoozed as ${copy.id} until ${until.toISOString()}`);
+    return copy;
+  }
+
+  async getReminder(id: string): Promise<Reminder | null> {
+    return this.repository.findById(id);
+  }
+
+  async findByNotification(chatId: string, messageId: string): Promise<Reminder | null> {
+    return this.repository.findByNotificationMessageId(chatId, messageId);
   }
 
   async markAsFailed(id: string): Promise<void> {
@@ -75,10 +169,15 @@ export class ReminderService {
       throw new Error(`Reminder ${id} not found`);
     }
 
-    // Delete calendar event if exists
-    if (reminder.calendarEventId && this.calendarService) {
+    // Delete calendar event if we created it (imported events stay in the user's calendar)
+    if (
+      reminder.calendarEventId &&
+      reminder.userId &&
+      reminder.source === "BOT" &&
+      this.calendarService
+    ) {
       try {
-        await this.calendarService.deleteEvent(reminder.calendarEventId);
+        await this.calendarService.deleteEvent(reminder.userId, reminder.calendarEventId);
       } catch (error) {
         this.logger.warn("Failed to delete calendar event", error);
       }
@@ -107,11 +206,19 @@ export class ReminderService {
       throw new Error(`Reminder ${id} not found`);
     }
 
-    // Update calendar event if exists
-    if (reminder.calendarEventId && this.calendarService) {
+    // Update calendar event if we created it (moving a recurring one would move the series)
+    if (
+      reminder.calendarEventId &&
+      reminder.userId &&
+      reminder.source === "BOT" &&
+      reminder.recurrence === "NONE" &&
+      this.calendarService
+    ) {
       try {
-        await this.calendarService.updateEvent(reminder.calendarEventId, {
-          startTime: newScheduledAt
+        const timeZone = await this.getTimezone(reminder.chatId);
+        await this.calendarService.updateEvent(reminder.userId, reminder.calendarEventId, {
+          startTime: newScheduledAt,
+          timeZone
         });
       } catch (error) {
         this.logger.warn("Failed to update calendar event", error);
@@ -125,81 +232,94 @@ export class ReminderService {
   }
 
   /**
-   * Calculate next occurrence for a recurring reminder
+   * Calculate next occurrence for a recurring reminder, using the wall-clock
+   * time in the user's timezone. Returns null once the rule's UNTIL has passed.
    */
-  calculateNextOccurrence(reminder: Reminder): Date {
-    const now = new Date();
-    let nextDate: Date;
+  calculateNextOccurrence(
+    rule: RecurrenceRule,
+    timezone: string = DEFAULT_TIMEZONE,
+    after: Date = new Date(),
+    anchor?: Date
+  ): Date | null {
+    const rrule = getReminderRRule(rule);
+    if (!rrule) {
+      throw new Error(`Unknown recurrence type: ${rule.recurrence}`);
+    }
 
     // Parse recurrence time (HH:MM format)
-    const [hours, minutes] = (reminder.recurrenceTime || "09:00").split(":").map(Number);
-
-    switch (reminder.recurrence) {
-      case "DAILY":
-        nextDate = new Date(now);
-        nextDate.setHours(hours, minutes, 0, 0);
-        // If time already passed today, schedule for tomorrow
-        if (nextDate <= now) {
-          nextDate.setDate(nextDate.getDate() + 1);
-        }
-        break;
-
-      case "WEEKLY":
-        nextDate = new Date(now);
-        nextDate.setHours(hours, minutes, 0, 0);
-        const targetDay = reminder.recurrenceDay ?? 0;
-        const currentDay = nextDate.getDay();
-        let daysUntilTarget = targetDay - currentDay;
-
-        if (daysUntilTarget < 0 || (daysUntilTarget === 0 && nextDate <= now)) {
-          daysUntilTarget += 7;
-        }
-
-        nextDate.setDate(nextDate.getDate() + daysUntilTarget);
-        break;
-
-      case "MONTHLY":
-        nextDate = new Date(now);
-        nextDate.setHours(hours, minutes, 0, 0);
-        const targetDayOfMonth = reminder.recurrenceDay ?? 1;
-        nextDate.setDate(targetDayOfMonth);
-
-        // If the date already passed this month, go to next month
-        if (nextDate <= now) {
-          nextDate.setMonth(nextDate.getMonth() + 1);
-        }
-        break;
-
-      default:
-        throw new Error(`Unknown recurrence type: ${reminder.recurrence}`);
-    }
+    const [hour, minute] = (rule.recurrenceTime || "09:00").split(":").map(Number);
 
-    return nextDate;
+    return nextOccurrence(rrule, { time: { hour, minute }, timezone, after, anchor });
   }
 
   /**
-   * Reschedule a recurring reminder for its next occurrence
+   * Reschedule a recurring reminder for its next occurrence. Returns null when
+   * the series is over (UNTIL passed or COUNT reached).
    */
-  async rescheduleRecurringReminder(reminder: Reminder): Promise<Reminder> {
-    if (reminder.recurrence === "NONE") {
+  async rescheduleRecurringReminder(reminder: Reminder): Promise<Reminder | null> {
+    const rrule = getReminderRRule(reminder);
+    if (!rrule) {
       throw new Error("Cannot reschedule non-recurring reminder");
     }
 
-    const nextDate = this.calculateNextOccurrence(reminder);
+    if (rrule.count && reminder.occurrenceIndex >= rrule.count) {
+      this.logger.info(`Recurring reminder ${reminder.id} finished after ${rrule.count} times`);
+      return null;
+    }
+
+    const timezone = await this.getTimezone(reminder.chatId);
+    const nextDate = this.calculateNextOccurrence(
+      reminder,
+      timezone,
+      new Date(),
+      reminder.scheduledAt
+    );
+
+    if (!nextDate) {
+      this.logger.info(`Recurring reminder ${reminder.id} reached its end date`);
+      return null;
+    }
 
     this.logger.info(`Rescheduling recurring reminder ${reminder.id} to ${nextDate.toISOString()}`);
 
-    // Create a new reminder for the next occurrence
+    // Create a new reminder for the next occurrence, still linked to the
+    // recurring calendar event so cancelling it removes the whole series
     const newReminder = await this.repository.create({
       originalText: reminder.originalText,
       reminderText: reminder.reminderText,
       scheduledAt: nextDate,
       chatId: reminder.chatId,
+      calendarEventId: reminder.calendarEventId ?? undefined,
       recurrence: reminder.recurrence,
       recurrenceDay: reminder.recurrenceDay ?? undefined,
-      recurrenceTime: reminder.recurrenceTime ?? undefined
+      recurrenceTime: reminder.recurrenceTime ?? undefined,
+      rrule: reminder.rrule ?? undefined,
+      occurrenceIndex: reminder.occurrenceIndex + 1,
+      source: reminder.source,
+      insist: reminder.insist
     });
 
     return newReminder;
   }
+
+  /**
+   * Resolve the user whose calendar should get this chat's reminders: their
+   * plan must include calendar sync and they must have connected Google Calendar
+   */
+  private async getCalendarUserId(chatId: string): Promise<string | null> {
+    if (!this.calendarService) return null;
+
+    try {
+      const userId = await this.repository.findCalendarSyncUserId(chatId);
+      if (!userId || !(await this.calendarService.isConnected(userId))) return null;
+      return userId;
+    } catch (error) {
+      this.logger.warn("Failed to resolve calendar owner", error);
+      return null;
+    }
+  }
+
+  async getTimezone(chatId: string): Promise<string> {
+    return this.userService.getTimezone(chatId);
+  }
 }
@@ -0,0 +1,20 @@
+/**
+ * Timing for insistent reminders: after delivery they are re-sent at a
+ * doubling interval until acknowledged, then escalated once the repeats
+ * run out.
+ */
+
+export const NAG_MAX_REPEATS = 5;
+
+const NAG_BASE_DELAY_MS = 10 * 60 * 1000;
+const NAG_MAX_DELAY_MS = 2 * 60 * 60 * 1000;
+
+/** Wait before the next repeat, given how many were already sent (10m, 20m, 40m, ... 2h) */
+export function nagDelayMs(nagCount: number): number {
+  return Math.min(NAG_BASE_DELAY_MS * 2 ** nagCount, NAG_MAX_DELAY_MS);
+}
+
+/** WhatsApp chat id for a phone number, ignoring formatting ("+54 9 11 ...") */
+export function phoneToChatId(phone: string): string {
+  return `${phone.replace(/\D/g, "")}@s.whatsapp.net`;
+}
@@ -0,0 +1,76 @@
+/**
+ * Snooze / done options attached to delivered reminder notifications.
+ * Option ids carry the reminder id, so a tap always targets the reminder
+ * it was sent with.
+ */
+
+import { getZonedParts, zonedTimeToUtc } from "@shared/timezone/timezone";
+
+export type SnoozePreset = "10m" | "1h" | "tomorrow";
+
+export type ReminderAction = { type: "snooze"; preset: SnoozePreset } | { type: "done" };
+
+const SNOOZE_PRESETS: SnoozePreset[] = ["10m", "1h", "tomorrow"];
+const ACTION_PREFIX = "reminder_";
+
+export function snoozeActionId(reminderId: string, preset: SnoozePreset): string {
+  return `${ACTION_PREFIX}snooze_${preset}_${reminderId}`;
+}
+
+export function doneActionId(reminderId: string): string {
+  return `${ACTION_PREFIX}done_${reminderId}`;
+}
+
+/** Parse an option id built above; null if it isn't a reminder action */
+export function parseReminderActionId(
+  id: string
+): { reminderId: string; action: ReminderAction } | null {
+  if (!id.startsWith(ACTION_PREFIX)) return null;
+  const rest = id.slice(ACTION_PREFIX.length);
+
+  if (rest.startsWith("done_")) {
+    return { reminderId: rest.slice("done_".length), action: { type: "done" } };
+  }
+
+  const match = /^snooze_([^_]+)_(.+)$/.exec(rest);
+  if (match && SNOOZE_PRESETS.includes(match[1] as SnoozePreset)) {
+    return {
+      reminderId: match[2],
+      action: { type: "snooze", preset: match[1] as SnoozePreset }
+    };
+  }
+
+  return null;
+}
+
+/**
+ * When a snooze preset fires again. "tomorrow" keeps the reminder's
+ * original wall-clock time in the user's timezone.
+ */
+export function resolveSnoozeTime(
+  preset: SnoozePreset,
+  scheduledAt: Date,
+  timezone: string,
+  now: Date = new Date()
+): Date {
+  switch (preset) {
+    case "10m":
+      return new Date(now.getTime() + 10 * 60 * 1000);
+    case "1h":
+      return new Date(now.getTime() + 60 * 60 * 1000);
+    case "tomorrow": {
+      const today = getZonedParts(now, timezone);
+      const time = getZonedParts(scheduledAt, timezone);
+      return zonedTimeToUtc(
+        {
+          year: today.year,
+          month: today.month,
+          day: today.day + 1,
+          hour: time.hour,
+          minute: time.minute
+        },
+        timezone
+      );
+    }
+  }
+}
@@ -1,11 +1,27 @@
+import type { EmailDigestService } from "@modules/email/digest/email-digest.service";
+import type { UserService } from "@modules/email/user/user.service";
+import type { RecurringChargeService } from "@modules/expenses/recurring/recurring-charge.service";
 import type { ExpenseSummaryService } from "@modules/expenses/summary/expense-summary.service";
+import type {
+  MeliTransferService,
+  TransferResult
+} from "@modules/mercadolibre/transfers/transfer.service";
 import type { ScheduledPaymentService } from "@modules/payments/payment.service";
-import type { WhatsAppClient } from "@modules/whatsapp";
+import type { ConversationStateService, WhatsAppClient } from "@modules/whatsapp";
 import type { Reminder, ScheduledPayment } from "@prisma-module/generated/client";
+import {
+  DEFAULT_LOCALE,
+  getMessages,
+  type Locale,
+  resolveLocale,
+  toIntlLocale
+} from "@shared/i18n/i18n";
 import { createLogger } from "@shared/logger/logger";
 
 import type { DigestService } from "../digest/digest.service";
 import type { ReminderService } from "../reminder.service";
+import { NAG_MAX_REPEATS, phoneToChatId } from "./nagging";
+import { doneActionId, snoozeActionId } from "./reminder-actions";
 import { buildReminderNotification } from "./reminder-notification";
 
 const DB_RETRY_DELAY_MS = 3_000;
@@ -60,7 +76,12 @@ export class SchedulerService {
     private readonly whatsappClient: WhatsAppClient,
     private readonly digestService?: DigestService,
     private readonly expenseSummaryService?: ExpenseSummaryService,
-    private readonly scheduledPaymentService?: ScheduledPaymentService
+    private readonly scheduledPaymentService?: ScheduledPaymentService,
+    private readonly conversationStateService?: ConversationStateService,
+    private readonly meliTransferService?: MeliTransferService,
+    private readonly userService?: UserService,
+    private readonly recurringChargeService?: RecurringChargeService,
+    private readonly emailDigestService?: EmailDigestService
   ) {}
 
   start(): void {
@@ -110,32 +131,44 @@ export class SchedulerService {
         await this.sendReminder(reminder);
       }
 
-      const nowBsAs = new Date(
-        now.toLocaleString("en-US", { timeZone: "America/Argentina/Buenos_Aires" })
+      // Repeat insistent reminders nobody acknowledged yet
+      const dueNags = await withRetry(
+        () => this.reminderService.getDueNags(now),
+        this.logger,
+        "getDueNags"
       );
-      const hourBsAs = nowBsAs.getHours();
-      const dayOfWeek = nowBsAs.getDay(); // 0=Sun, 1=Mon
-      const dayOfMonth = nowBsAs.getDate();
+      for (const reminder of dueNags) {
+        await this.sendNag(reminder);
+      }
 
-      // Send daily digests
+      // Daily digests and expense summaries check each user's local time
       if (this.digestService) {
-        await this.digestService.sendDailyDigests(hourBsAs);
+        await this.digestService.sendDailyDigests(now);
       }
 
-      // Weekly expense summary (Monday at digest hour 8)
-      if (this.expenseSummaryService && dayOfWeek === 1 && hourBsAs === 8) {
-        await this.expenseSummaryService.sendWeeklySummaries().catch((error) => {
-          this.logger.error("Error sending weekly expense summaries", error);
+      // Emails held back for users in summary mode
+      if (this.emailDigestService) {
+        await this.emailDigestService.sendDueDigests(now).catch((error) => {
+          this.logger.error("Error sending email summaries", error);
         });
       }
 
-      // Monthly expense summary (1st of month at digest hour 8)
-      if (this.expenseSummaryService && dayOfMonth === 1 && hourBsAs === 8) {
-        await this.expenseSummaryService.sendMonthlySummaries().catch((error) => {
+      if (this.expenseSummaryService) {
+        await this.expenseSummaryService.sendWeeklySummaries(now).catch((error) => {
+          this.logger.error("Error sending weekly expense summaries", error);
+        });
+        await this.expenseSummaryService.sendMonthlySummaries(now).catch((error) => {
           this.logger.error("Error sending monthly expense summaries", error);
         });
       }
 
+      // Subscription price increases and charges that didn't arrive
+      if (this.recurringChargeService) {
+        await this.recurringChargeService.checkAll(now).catch((error) => {
+          this.logger.error("Error checking recurring charges", error);
+        });
+      }
+
       // Process scheduled payments
       if (this.scheduledPaymentService) {
         const pendingPayments = await withRetry(
@@ -147,9 +180,20 @@ export class SchedulerService {
           this.logger.info(`Found ${pendingPayments.length} pending scheduled payment(s)`);
         }
         for (const payment of pendingPayments) {
-          await this.sendPaymentReminder(payment);
+          if (payment.mode === "TRANSFER") {
+            await this.executeScheduledTransfer(payment);
+          } else {
+            await this.sendPaymentReminder(payment);
+          }
         }
       }
+
+      // Drop expired conversation states (abandoned confirmations, old locations)
+      if (this.conversationStateService) {
+        await this.conversationStateService.purgeExpired().catch((error) => {
+          this.logger.error("Error purging expired conversation states", error);
+        });
+      }
     } catch (error) {
       this.logger.error("Error in scheduler tick", error);
     } finally {
@@ -162,25 +206,22 @@ export class SchedulerService {
 
     try {
       const amount = Number(payment.amount);
-      const amountStr = amount.toLocaleString("es-AR", { minimumFractionDigits: 2 });
+      const locale = await this.getLocale(payment.chatId);
+      const amountStr = amount.toLocaleString(toIntlLocale(locale), { minimumFractionDigits: 2 });
 
       // Build MP deep link
       const isAlias = !/^\d{22}$/.test(payment.recipient);
       const mpParam = isAlias ? `alias=${payment.recipient}` : `cbu=${payment.recipient}`;
       const mpLink = `https://www.mercadopago.com.ar/money-transfer/send?${mpParam}&amount=${amount}`;
 
-      let message = `💸 *Recordatorio de pago programado*\n\n`;
-      message += `💰 *Monto:* $${amountStr}\n`;
-      message += `👤 *Destinatario:* ${payment.recipient}\n`;
-      if (payment.description) message += `📝 *Descripción:* ${payment.description}\n`;
-
-      if (payment.totalPayments) {
-        const paymentNum = payment.paidCount + 1;
-        message += `📊 Pago ${paymentNum} de ${payment.totalPayments}\n`;
-      }
-
-      message += `\n🔗 *Pagá con Mercado Pago:*\n${mpLink}\n\n`;
-      message += `_Para cancelar: "cancela el pago recurrente 1"_`;
+      const message = getMessages(locale).payments.reminder({
+        amount: amountStr,
+        recipient: payment.recipient,
+        description: payment.description ?? undefined,
+        paymentNumber: payment.totalPayments ? payment.paidCount + 1 : undefined,
+        totalPayments: payment.totalPayments ?? undefined,
+        link: mpLink
+      });
 
       await this.whatsappClient.sendMessage(payment.chatId, message);
       await this.scheduledPaymentService!.processPayment(payment);
@@ -191,22 +232,142 @@ export class SchedulerService {
     }
   }
 
+  private async executeScheduledTransfer(payment: ScheduledPayment): Promise<void> {
+    const service = this.scheduledPaymentService!;
+
+    // Claim first: a transfer must never be executed twice
+    const claimed = await service.claimForExecution(payment.id);
+    if (!claimed) {
+      this.logger.debug(`Scheduled transfer ${payment.id} already claimed, skipping`);
+      return;
+    }
+
+    this.logger.info(`Executing scheduled transfer ${payment.id} for ${payment.chatId}`);
+
+    const amount = Number(payment.amount);
+    const locale = await this.getLocale(payment.chatId);
+    const amountStr = amount.toLocaleString(toIntlLocale(locale), { minimumFractionDigits: 2 });
+    const t = getMessages(locale).transfers;
+
+    if (!this.meliTransferService || !payment.userId) {
+      await service.markFailed(payment.id, "Transfer service not available");
+      await this.whatsappClient
+        .sendMessage(payment.chatId, t.scheduledNotExecuted(amountStr, payment.recipient))
+        .catch((error) => this.logger.error(`Failed to notify ${payment.chatId}`, error));
+      return;
+    }
+
+    let result: TransferResult;
+    try {
+      result = await this.meliTransferService.sendTransfer(payment.userId, {
+        recipient: payment.recipient,
+        amount,
+        description: payment.description ?? undefined
+      });
+    } catch (error) {
+      this.logger.error(`Failed to execute scheduled transfer ${payment.id}`, error);
+      await service.markFailed(payment.id, String(error)).catch(() => {});
+      await this.whatsappClient
+        .sendMessage(payment.chatId, t.scheduledError(amountStr, payment.recipient))
+        .catch(() => {});
+      return;
+    }
+
+    if (!result.success) {
+      await service.markFailed(payment.id, result.message).catch((error) => {
+        this.logger.error(`Failed to mark scheduled transfer ${payment.id} as failed`, error);
+      });
+      await this.whatsappClient
+        .sendMessage(
+          payment.chatId,
+          t.scheduledFailed(amountStr, payment.recipient, result.message)
+        )
+        .catch((error) => this.logger.error(`Failed to notify ${payment.chatId}`, error));
+      return;
+    }
+
+    // The money already moved: from here on the transfer is never reported as failed
+    this.logger.info(`Scheduled transfer ${payment.id} executed successfully`);
+    await this.whatsappClient
+      .sendMessage(
+        payment.chatId,
+        t.scheduledExecuted(amountStr, payment.recipient, result.transactionId)
+      )
+      .catch((error) => this.logger.error(`Failed to notify ${payment.chatId}`, error));
+
+    try {
+      await withRetry(
+        () => service.processPayment(payment, result.transactionId),
+        this.logger,
+        "processPayment"
+      );
+    } catch (error) {
+      // Stays PROCESSING so it never runs again until someone reconciles it
+      this.logger.error(
+        `Scheduled transfer ${payment.id} sent (${result.transactionId}) but bookkeeping failed`,
+        error
+      );
+      await service
+        .markForReconciliation(payment.id, result.transactionId, String(error))
+        .catch(() => {});
+    }
+  }
+
+  /**
+   * Send the notification with snooze / done options, falling back to plain
+   * text if the interactive message is rejected. Returns the message id.
+   */
+  private async sendReminderWithActions(
+    reminder: Reminder,
+    message: string,
+    locale: Locale
+  ): Promise<string | undefined> {
+    const t = getMessages(locale).reminders.actions;
+
+    try {
+      return await this.whatsappClient.sendList(
+        reminder.chatId,
+        "",
+        message,
+        t.menuButton,
+        [
+          {
+            rows: [
+              { id: snoozeActionId(reminder.id, "10m"), title: t.snooze10m },
+              { id: snoozeActionId(reminder.id, "1h"), title: t.snooze1h },
+              { id: snoozeActionId(reminder.id, "tomorrow"), title: t.snoozeTomorrow },
+              { id: doneActionId(reminder.id), title: t.done }
+            ]
+          }
+        ],
+        t.footer
+      );
+    } catch (error) {
+      this.logger.warn(`Interactive reminder ${reminder.id} failed, sending plain text`, error);
+      return this.whatsappClient.sendMessage(reminder.chatId, `${message}\n\n_${t.footer}_`);
+    }
+  }
+
   private async sendReminder(reminder: Reminder): Promise<void> {
     this.logger.info(`Sending reminder ${reminder.id} to ${reminder.chatId}`);
 
     try {
-      const message = buildReminderNotification(reminder.reminderText);
-      await this.whatsappClient.sendMessage(reminder.chatId, message);
-      await this.reminderService.markAsSent(reminder.id);
+      const locale = await this.getLocale(reminder.chatId);
+      const message = buildReminderNotification(reminder.reminderText, locale);
+      const messageId = await this.sendReminderWithActions(reminder, message, locale);
+      await this.reminderService.markAsSent(reminder, messageId);
       this.logger.info(`Reminder ${reminder.id} sent successfully`);
+      await this.rememberDelivered(reminder);
 
       // If this is a recurring reminder, schedule the next occurrence
       if (reminder.recurrence !== "NONE") {
         try {
           const nextReminder = await this.reminderService.rescheduleRecurringReminder(reminder);
-          this.logger.info(
-            `Recurring reminder rescheduled: ${nextReminder.id} for ${nextReminder.scheduledAt.toISOString()}`
-          );
+          if (nextReminder) {
+            this.logger.info(
+              `Recurring reminder rescheduled: ${nextReminder.id} for ${nextReminder.scheduledAt.toISOString()}`
+            );
+          }
         } catch (error) {
           this.logger.error(`Failed to reschedule recurring reminder ${reminder.id}`, error);
         }
@@ -216,4 +377,79 @@ export class SchedulerService {
       await this.reminderService.markAsFailed(reminder.id);
     }
   }
+
+  /**
+   * Re-send an insistent reminder, or escalate once the repeats run out
+   */
+  private async sendNag(reminder: Reminder): Promise<void> {
+    if (reminder.nagCount >= NAG_MAX_REPEATS) {
+      try {
+        await this.escalateReminder(reminder);
+      } catch (error) {
+        this.logger.error(`Failed to escalate reminder ${reminder.id}`, error);
+        // Never retry: a retry could message the contact again on every tick
+        await this.reminderService.stopNagging(reminder.id).catch(() => {});
+      }
+      return;
+    }
+
+    try {
+      const locale = await this.getLocale(reminder.chatId);
+      const message = getMessages(locale).reminders.nagging.repeat(
+        buildReminderNotification(reminder.reminderText, locale),
+        reminder.nagCount + 1,
+        NAG_MAX_REPEATS
+      );
+      const messageId = await this.sendReminderWithActions(reminder, message, locale);
+      await this.reminderService.recordNag(reminder, messageId);
+      this.logger.info(`Reminder ${reminder.id} repeated (${reminder.nagCount + 1})`);
+      await this.rememberDelivered(reminder);
+    } catch (error) {
+      this.logger.error(`Failed to repeat reminder ${reminder.id}`, error);
+      // Count the attempt anyway so a failing chat still backs off and ends
+      await this.reminderService.recordNag(reminder).catch(() => {});
+    }
+  }
+
+  /**
+   * Repeats ran out without an acknowledgement: tell the user's escalation
+   * contact, if they set one, and stop insisting
+   */
+  private async escalateReminder(reminder: Reminder): Promise<void> {
+    const user = await this.userService?.getUserByChatId(reminder.chatId);
+
+    if (!user?.escalationPhone) {
+      await this.reminderService.stopNagging(reminder.id);
+      return;
+    }
+
+    const t = getMessages(resolveLocale(user.locale)).reminders.nagging;
+    const who = user.name ?? `+${reminder.chatId.split("@")[0]}`;
+
+    // Stop first so the contact is messaged at most once, whatever fails below
+    await this.reminderService.stopNagging(reminder.id, true);
+    await this.whatsappClient.sendMessage(
+      phoneToChatId(user.escalationPhone),
+      t.escalatedContact(who, reminder.reminderText)
+    );
+    this.logger.info(`Reminder ${reminder.id} escalated to the user's contact`);
+    await this.whatsappClient.sendMessage(reminder.chatId, t.escalatedUser(user.escalationPhone));
+  }
+
+  /** Unquoted "listo" / "en media hora" replies apply to the latest notification */
+  private async rememberDelivered(reminder: Reminder): Promise<void> {
+    if (!this.conversationStateService) return;
+
+    await this.conversationStateService
+      .set(reminder.chatId, "deliveredReminder", { reminderId: reminder.id })
+      .catch((error) => {
+        this.logger.error(`Failed to save delivered reminder for ${reminder.chatId}`, error);
+      });
+  }
+
+  private async getLocale(chatId: string): Promise<Locale> {
+    if (!this.userService) return DEFAULT_LOCALE;
+    const { locale } = await this.userService.getPreferences(chatId);
+    return locale;
+  }
 }
@@ -10,6 +10,7 @@ export interface UserSubscriptionInfo {
   hasCalendarSync: boolean;
   maxReminders: number | null;
   currentReminderCount: number;
+  maxEmailAccounts: number | null;
   periodEnd: Date | null;
   trialEndsAt: Date | null;
 }
@@ -32,6 +33,7 @@ export class SubscriptionRepository {
               select: {
                 name: true,
                 maxReminders: true,
+                maxEmailAccounts: true,
                 hasEmailSync: true,
                 hasEmailReply: true,
                 hasCalendarSync: true
@@ -53,6 +55,7 @@ export class SubscriptionRepository {
         hasCalendarSync: false,
         maxReminders: null,
         currentReminderCount: 0,
+        maxEmailAccounts: null,
         periodEnd: null,
         trialEndsAt: null
       };
@@ -77,6 +80,7 @@ export class SubscriptionRepository {
       hasCalendarSync: sub?.plan.hasCalendarSync ?? false,
       maxReminders: sub?.plan.maxReminders ?? null,
       currentReminderCount,
+      maxEmailAccounts: sub?.plan.maxEmailAccounts ?? null,
       periodEnd: sub?.currentPeriodEnd ?? null,
       trialEndsAt: sub?.trialEndsAt ?? null
     };
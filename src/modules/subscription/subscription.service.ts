@@ -1,3 +1,5 @@
+import { DEFAULT_LOCALE, getMessages, type Locale } from "@shared/i18n/i18n";
+
 import type { SubscriptionRepository, UserSubscriptionInfo } from "./subscription.repository";
 
 export type AccessResult =
@@ -26,18 +28,15 @@ export class SubscriptionService {
     return info;
   }
 
-  async checkBotAccess(chatId: string): Promise<AccessResult> {
+  async checkBotAccess(chatId: string, locale: Locale = DEFAULT_LOCALE): Promise<AccessResult> {
     const info = await this.getCachedInfo(chatId);
+    const t = getMessages(locale).subscription;
 
     if (!info.hasLinkedAccount) {
       return {
         allowed: false,
         reason: "no_linked_account",
-        message:
-          "Para usar el bot, primero necesitas vincular tu cuenta.\n\n" +
-          "1. Registrate en la web\n" +
-          "2. Escribi /connect aca para vincular tu WhatsApp\n\n" +
-          "Si ya tenes cuenta, escribi /connect para vincularla."
+        message: t.noLinkedAccount
       };
     }
 
@@ -45,17 +44,18 @@ export class SubscriptionService {
       return {
         allowed: false,
         reason: "no_active_subscription",
-        message:
-          "No tenes una suscripcion activa.\n\n" +
-          "Ingresa a la web para elegir un plan y empezar a usar el bot."
+        message: t.noActiveSubscription
       };
     }
 
     return { allowed: true, info };
   }
 
-  async checkCanCreateReminder(chatId: string): Promise<AccessResult> {
-    const access = await this.checkBotAccess(chatId);
+  async checkCanCreateReminder(
+    chatId: string,
+    locale: Locale = DEFAULT_LOCALE
+  ): Promise<AccessResult> {
+    const access = await this.checkBotAccess(chatId, locale);
     if (!access.allowed) return access;
 
     const { info } = access;
@@ -63,17 +63,45 @@ export class SubscriptionService {
       return {
         allowed: false,
         reason: "reminder_limit_reached",
-        message:
-          `Llegaste al limite de ${info.maxReminders} recordatorios de tu plan ${info.planName}.\n\n` +
-          "Cancela algun recordatorio o mejora tu plan para crear mas."
+        message: getMessages(locale).subscription.reminderLimit(
+          info.maxReminders,
+          info.planName ?? ""
+        )
+      };
+    }
+
+    return access;
+  }
+
+  /** `linkedCount` is how many mailboxes the user already has */
+  async checkCanLinkEmailAccount(
+    chatId: string,
+    linkedCount: number,
+    locale: Locale = DEFAULT_LOCALE
+  ): Promise<AccessResult> {
+    const access = await this.checkEmailAccess(chatId, locale);
+    if (!access.allowed) return access;
+
+    const { info } = access;
+    if (info.maxEmailAccounts !== null && linkedCount >= info.maxEmailAccounts) {
+      return {
+        allowed: false,
+        reason: "email_account_limit_reached",
+        message: getMessages(locale).subscription.emailAccountLimit(
+          info.maxEmailAccounts,
+          info.planName ?? ""
+        )
       };
     }
 
     return access;
   }
 
-  async checkEmailReplyAccess(chatId: string): Promise<AccessResult> {
-    const access = await this.checkBotAccess(chatId);
+  async checkEmailReplyAccess(
+    chatId: string,
+    locale: Locale = DEFAULT_LOCALE
+  ): Promise<AccessResult> {
+    const access = await this.checkBotAccess(chatId, locale);
     if (!access.allowed) return access;
 
     const { info } = access;
@@ -81,17 +109,15 @@ export class SubscriptionService {
       return {
         allowed: false,
         reason: "email_reply_not_included",
-        message:
-          "Tu plan no incluye respuesta de emails.\n\n" +
-          "Mejora tu plan para responder emails desde WhatsApp."
+        message: getMessages(locale).subscription.emailReplyNotIncluded
       };
     }
 
     return access;
   }
 
-  async checkEmailAccess(chatId: string): Promise<AccessResult> {
-    const access = await this.checkBotAccess(chatId);
+  async checkEmailAccess(chatId: string, locale: Locale = DEFAULT_LOCALE): Promise<AccessResult> {
+    const access = await this.checkBotAccess(chatId, locale);
     if (!access.allowed) return access;
 
     const { info } = access;
@@ -99,9 +125,7 @@ export class SubscriptionService {
       return {
         allowed: false,
         reason: "email_not_included",
-        message:
-          `Tu plan ${info.planName} no incluye integracion con email.\n\n` +
-          "Mejora a Pro para conectar tu Gmail y recibir notificaciones."
+        message: getMessages(locale).subscription.emailNotIncluded(info.planName ?? "")
       };
     }
 
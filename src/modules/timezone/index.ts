@@ -0,0 +1 @@
+export { TimezoneService } from "./services/timezone.service";
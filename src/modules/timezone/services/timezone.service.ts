@@ -0,0 +1,40 @@
+import { createLogger } from "@shared/logger/logger";
+import { isValidTimezone } from "@shared/timezone/timezone";
+
+interface TimeApiCoordinateResponse {
+  timeZone?: string;
+}
+
+export class TimezoneService {
+  private readonly logger = createLogger("timezone");
+  private readonly apiUrl = "https://timeapi.io/api/TimeZone/coordinate";
+
+  /** Resolves the IANA timezone for a point, or null if the lookup fails */
+  async resolveFromCoordinates(lat: number, lon: number): Promise<string | null> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), 8000);
+
+    try {
+      const url = `${this.apiUrl}?latitude=${lat}&longitude=${lon}`;
+      const response = await fetch(url, { signal: controller.signal });
+      clearTimeout(timeout);
+
+      if (!response.ok) {
+        throw new Error(`TimeAPI error: ${response.status}`);
+      }
+
+      const data = (await response.json()) as TimeApiCoordinateResponse;
+
+      if (!data.timeZone || !isValidTimezone(data.timeZone)) {
+        this.logger.warn(`No valid timezone for ${lat},${lon}`);
+        return null;
+      }
+
+      return data.timeZone;
+    } catch (error) {
+      clearTimeout(timeout);
+      this.logger.error("Failed to resolve timezone from coordinates", error);
+      return null;
+    }
+  }
+}
@@ -10,7 +10,12 @@ import makeWASocket, {
 import { env } from "@shared/env/env";
 import { createLogger } from "@shared/logger/logger";
 
-import type { ButtonOption, ListSection, MessageContent } from "./whatsapp.types";
+import {
+  MAX_MEDIA_BYTES,
+  type ButtonOption,
+  type ListSection,
+  type MessageContent
+} from "./whatsapp.types";
 import type { QRHandler } from "../handlers/qr.handler";
 import type { SessionService } from "../session/session.service";
 
@@ -84,13 +89,15 @@ export class WhatsAppClient {
     this.messageHandler = handler;
   }
 
-  async sendMessage(chatId: string, text: string): Promise<void> {
+  /** Returns the id of the sent message, for matching quoted replies */
+  async sendMessage(chatId: string, text: string): Promise<string | undefined> {
     if (!this.socket) {
       throw new Error("WhatsApp not connected");
     }
 
-    await this.socket.sendMessage(chatId, { text });
+    const sent = await this.socket.sendMessage(chatId, { text });
     this.logger.debug(`Message sent to ${chatId}`);
+    return sent?.key.id ?? undefined;
   }
 
   async sendButtons(
@@ -125,12 +132,12 @@ export class WhatsAppClient {
     buttonText: string,
     sections: ListSection[],
     footer?: string
-  ): Promise<void> {
+  ): Promise<string | undefined> {
     if (!this.socket) {
       throw new Error("WhatsApp not connected");
     }
 
-    await this.socket.sendMessage(chatId, {
+    const sent = await this.socket.sendMessage(chatId, {
       listMessage: {
         title,
         description: body,
@@ -144,6 +151,29 @@ export class WhatsAppClient {
       }
     } as any); // eslint-disable-line @typescript-eslint/no-explicit-any
     this.logger.debug(`List message sent to ${chatId}`);
+    return sent?.key.id ?? undefined;
+  }
+
+  /** Sends a file as a WhatsApp document, shown with its name and an optional caption */
+  async sendDocument(
+    chatId: string,
+    data: Buffer,
+    fileName: string,
+    mimeType: string,
+    caption?: string
+  ): Promise<string | undefined> {
+    if (!this.socket) {
+      throw new Error("WhatsApp not connected");
+    }
+
+    const sent = await this.socket.sendMessage(chatId, {
+      document: data,
+      fileName,
+      mimetype: mimeType,
+      caption
+    });
+    this.logger.debug(`Document ${fileName} sent to ${chatId}`);
+    return sent?.key.id ?? undefined;
   }
 
   private handleConnectionUpdate(update: BaileysEventMap["connection.update"]): void {
@@ -252,6 +282,7 @@ export class WhatsAppClient {
       return {
         type: "text",
         text: message.conversation ?? message.extendedTextMessage?.text ?? undefined,
+        quotedMessageId: message.extendedTextMessage?.contextInfo?.stanzaId ?? undefined,
         chatId,
         messageId,
         fromMe,
@@ -267,6 +298,7 @@ export class WhatsAppClient {
           type: "audio",
           audioBuffer: buffer as Buffer,
           mimeType: message.audioMessage.mimetype ?? "audio/ogg",
+          quotedMessageId: message.audioMessage.contextInfo?.stanzaId ?? undefined,
           chatId,
           messageId,
           fromMe,
@@ -278,6 +310,45 @@ export class WhatsAppClient {
       }
     }
 
+    // Image or document (receipt photos, PDF invoices/tickets)
+    const image = message.imageMessage;
+    const document =
+      message.documentMessage ?? message.documentWithCaptionMessage?.message?.documentMessage;
+    if (image || document) {
+      const fileSize = Number((image ?? document)?.fileLength ?? 0);
+      if (fileSize > MAX_MEDIA_BYTES) {
+        return {
+          type: image ? "image" : "document",
+          fileSize,
+          mimeType: (image ?? document)?.mimetype ?? "application/octet-stream",
+          fileName: document?.fileName ?? undefined,
+          chatId,
+          messageId,
+          fromMe,
+          timestamp
+        };
+      }
+
+      try {
+        const buffer = await downloadMediaMessage(msg, "buffer", {});
+        return {
+          type: image ? "image" : "document",
+          mediaBuffer: buffer as Buffer,
+          fileSize: (buffer as Buffer).length,
+          mimeType: (image ?? document)?.mimetype ?? "application/octet-stream",
+          fileName: document?.fileName ?? undefined,
+          text: (image ?? document)?.caption ?? undefined,
+          chatId,
+          messageId,
+          fromMe,
+          timestamp
+        };
+      } catch (error) {
+        this.logger.error("Failed to download media", error);
+        return null;
+      }
+    }
+
     // Button response
     if (message.buttonsResponseMessage) {
       return {
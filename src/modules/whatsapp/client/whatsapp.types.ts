@@ -2,6 +2,9 @@ import type { proto } from "@whiskeysockets/baileys";
 
 export type WAMessage = proto.IWebMessageInfo;
 
+/** Photos and documents above this aren't downloaded (receipts are far smaller) */
+export const MAX_MEDIA_BYTES = 10 * 1024 * 1024;
+
 export interface MessageContent {
   type:
     | "text"
@@ -15,9 +18,16 @@ export interface MessageContent {
     | "unknown";
   text?: string;
   audioBuffer?: Buffer;
+  /** Image or document content (text holds the caption, if any) */
+  mediaBuffer?: Buffer;
+  /** Declared size; set without `mediaBuffer` when it exceeds MAX_MEDIA_BYTES */
+  fileSize?: number;
+  fileName?: string;
   mimeType?: string;
   selectedButtonId?: string;
   selectedRowId?: string;
+  /** Id of the message this one replies to (WhatsApp "quote") */
+  quotedMessageId?: string;
   latitude?: number;
   longitude?: number;
   locationName?: string;
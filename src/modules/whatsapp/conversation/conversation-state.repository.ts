@@ -0,0 +1,37 @@
+import type { ConversationState, Prisma, PrismaClient } from "@prisma-module/generated/client";
+
+export class ConversationStateRepository {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async findActiveByChat(chatId: string): Promise<ConversationState[]> {
+    return this.prisma.conversationState.findMany({
+      where: { chatId, expiresAt: { gt: new Date() } }
+    });
+  }
+
+  async upsert(
+    chatId: string,
+    type: string,
+    data: unknown,
+    expiresAt: Date
+  ): Promise<ConversationState> {
+    return this.prisma.conversationState.upsert({
+      where: { chatId_type: { chatId, type } },
+      update: { data: data as Prisma.InputJsonValue, expiresAt },
+      create: { chatId, type, data: data as Prisma.InputJsonValue, expiresAt }
+    });
+  }
+
+  async deleteByChat(chatId: string, types: string[]): Promise<void> {
+    await this.prisma.conversationState.deleteMany({
+      where: { chatId, type: { in: types } }
+    });
+  }
+
+  async deleteExpired(): Promise<number> {
+    const result = await this.prisma.conversationState.deleteMany({
+      where: { expiresAt: { lte: new Date() } }
+    });
+    return result.count;
+  }
+}
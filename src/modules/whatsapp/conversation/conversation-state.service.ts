@@ -0,0 +1,132 @@
+import type { Coordinates } from "@modules/maps/services/maps.service";
+import { createLogger } from "@shared/logger/logger";
+
+import type { ConversationStateRepository } from "./conversation-state.repository";
+
+export interface PendingReplyState {
+  userId: string;
+  /** Mailbox the reply is sent from */
+  accountId: string;
+  messageId: string;
+  threadId: string;
+  to: string;
+  subject: string;
+  body: string;
+}
+
+export interface ViewedEmailState {
+  accountId: string;
+  gmailMessageId: string;
+  threadId: string;
+  from: string;
+  subject: string;
+}
+
+export interface PendingTransferState {
+  userId: string;
+  recipient: string;
+  amount: number;
+  description?: string;
+  /** ISO date string (JSON-safe) */
+  scheduledAt?: string;
+  /** Settling an expense group debt: recorded once the transfer goes through */
+  settlement?: { groupId: string; toUserId: string; currency: string };
+}
+
+/** Expenses the user asked to delete, waiting for a yes */
+export interface PendingExpenseDeleteState {
+  userId: string;
+  expenseIds: string[];
+}
+
+export interface ModifyTaskState {
+  taskNumber: number;
+}
+
+/** Last reminder notification, target of unquoted "listo" / "en media hora" replies */
+export interface DeliveredReminderState {
+  reminderId: string;
+}
+
+/** Flag-only states carry no payload */
+export type EmptyState = Record<string, never>;
+
+/** Typed payload for every pending flow a chat can be in */
+export interface ConversationStateMap {
+  pendingReply: PendingReplyState;
+  viewedEmail: ViewedEmailState;
+  awaitingSearchReply: EmptyState;
+  awaitingReplyInstruction: EmptyState;
+  awaitingModifyTime: ModifyTaskState;
+  pendingTransfer: PendingTransferState;
+  pendingExpenseDelete: PendingExpenseDeleteState;
+  deliveredReminder: DeliveredReminderState;
+  location: Coordinates;
+}
+
+export type ConversationStateType = keyof ConversationStateMap;
+
+export type ActiveConversationState = Partial<ConversationStateMap>;
+
+const MINUTE_MS = 60 * 1000;
+
+const STATE_TTL_MS: Record<ConversationStateType, number> = {
+  pendingReply: 30 * MINUTE_MS,
+  viewedEmail: 30 * MINUTE_MS,
+  awaitingSearchReply: 15 * MINUTE_MS,
+  awaitingReplyInstruction: 15 * MINUTE_MS,
+  awaitingModifyTime: 15 * MINUTE_MS,
+  pendingTransfer: 10 * MINUTE_MS,
+  pendingExpenseDelete: 10 * MINUTE_MS,
+  deliveredReminder: 60 * MINUTE_MS,
+  location: 30 * MINUTE_MS
+};
+
+export class ConversationStateService {
+  private readonly logger = createLogger("conversation-state");
+
+  constructor(private readonly repository: ConversationStateRepository) {}
+
+  /** Loads every non-expired state for a chat in a single query */
+  async getActive(chatId: string): Promise<ActiveConversationState> {
+    const rows = await this.repository.findActiveByChat(chatId);
+    const state: Record<string, unknown> = {};
+
+    for (const row of rows) {
+      state[row.type] = row.data;
+    }
+
+    return state as ActiveConversationState;
+  }
+
+  async get<T extends ConversationStateType>(
+    chatId: string,
+    type: T
+  ): Promise<ConversationStateMap[T] | null> {
+    const state = await this.getActive(chatId);
+    return (state[type] as ConversationStateMap[T] | undefined) ?? null;
+  }
+
+  async set<T extends ConversationStateType>(
+    chatId: string,
+    type: T,
+    data: ConversationStateMap[T],
+    ttlMs: number = STATE_TTL_MS[type]
+  ): Promise<void> {
+    const expiresAt = new Date(Date.now() + ttlMs);
+    await this.repository.upsert(chatId, type, data, expiresAt);
+    this.logger.debug(`State ${type} set for ${chatId} (expires ${expiresAt.toISOString()})`);
+  }
+
+  async clear(chatId: string, ...types: ConversationStateType[]): Promise<void> {
+    if (types.length === 0) return;
+    await this.repository.deleteByChat(chatId, types);
+  }
+
+  async purgeExpired(): Promise<void> {
+    const count = await this.repository.deleteExpired();
+    if (count > 0) {
+      this.logger.info(`Purged ${count} expired conversation state(s)`);
+    }
+  }
+}
@@ -0,0 +1,10 @@
+export { ConversationStateRepository } from "./conversation-state.repository";
+export {
+  ConversationStateService,
+  type ConversationStateMap,
+  type ConversationStateType,
+  type ActiveConversationState,
+  type PendingReplyState,
+  type ViewedEmailState,
+  type PendingTransferState
+} from "./conversation-state.service";
@@ -1,14 +1,58 @@
-import type { IntentService, ReminderDetail } from "@modules/ai/intent/intent.service";
+import type {
+  EmailRuleDetail,
+  ExpenseDetail,
+  IncomeDetail,
+  IntentService,
+  ReminderDetail
+} from "@modules/ai/intent/intent.service";
 import type { TranscriptionService } from "@modules/ai/transcription/transcription.service";
 import type { CryptoService } from "@modules/crypto/services/crypto.service";
+import type { DocumentTextService } from "@modules/documents/document-text.service";
+import { CONVERTIBLE_CURRENCIES } from "@modules/dollar/rates/exchange-rate.service";
 import type { DollarService } from "@modules/dollar/services/dollar.service";
-import type { GmailAuthService } from "@modules/email/gmail/gmail-auth.service";
-import type { GmailService } from "@modules/email/gmail/gmail.service";
+import {
+  DEFAULT_EMAIL_DIGEST_HOURS,
+  type EmailDigestService,
+  parseEmailDigestActionId
+} from "@modules/email/digest/email-digest.service";
+import type { EmailProcessorService } from "@modules/email/processor/email-processor.service";
 import type { ProcessedEmailRepository } from "@modules/email/processor/processed-email.repository";
+import type { MailAccount } from "@modules/email/provider/mail-provider";
+import type { MailboxService } from "@modules/email/provider/mailbox.service";
 import type { EmailReplyService } from "@modules/email/reply/email-reply.service";
+import {
+  parseEmailRuleType,
+  type EmailRuleInput,
+  type EmailRuleService
+} from "@modules/email/rules/email-rule.service";
 import type { UserService } from "@modules/email/user/user.service";
 import type { FinancialAdviceService } from "@modules/expenses/advice/financial-advice.service";
-import type { ExpenseService } from "@modules/expenses/expense.service";
+import {
+  parseAnomalyActionId,
+  type AnomalyAction,
+  type ExpenseAnomalyService
+} from "@modules/expenses/anomalies/expense-anomaly.service";
+import type { BudgetService } from "@modules/expenses/budgets/budget.service";
+import type { CashFlowReport, CashFlowService } from "@modules/expenses/cashflow/cash-flow.service";
+import type { ExpenseWithCategory } from "@modules/expenses/expense.repository";
+import {
+  EXPENSE_CATEGORIES,
+  parseExpenseCategory,
+  type ExpenseFilterInput,
+  type ExpenseService
+} from "@modules/expenses/expense.service";
+import {
+  resolveExportRange,
+  type ExpenseExportService,
+  type ExportFormat
+} from "@modules/expenses/export/expense-export.service";
+import type { ExpenseGroupWithMembers } from "@modules/expenses/groups/expense-group.repository";
+import {
+  memberName,
+  type ExpenseGroupService
+} from "@modules/expenses/groups/expense-group.service";
+import type { IncomeService } from "@modules/expenses/income/income.service";
+import type { RecurringChargeService } from "@modules/expenses/recurring/recurring-charge.service";
 import type { ExpenseSummaryService } from "@modules/expenses/summary/expense-summary.service";
 import type { LinkingCodeService } from "@modules/linking/linking.service";
 import type { Coordinates, MapsService, TravelMode } from "@modules/maps/services/maps.service";
@@ -18,23 +62,75 @@ import type { MeliTransferService } from "@modules/mercadolibre/transfers/transf
 import type { NewsCategory, NewsService } from "@modules/news/services/news.service";
 import type { ScheduledPaymentService } from "@modules/payments/payment.service";
 import type { ProductSearchService } from "@modules/product-search/product-search.service";
+import {
+  describeRRule,
+  formatRRule,
+  getReminderRRule,
+  legacyToRRule,
+  normalizeRRule,
+  parseRRule
+} from "@modules/reminders/recurrence/rrule";
 import type { ReminderService } from "@modules/reminders/reminder.service";
+import {
+  parseReminderActionId,
+  resolveSnoozeTime,
+  type ReminderAction
+} from "@modules/reminders/scheduler/reminder-actions";
 import type { SubscriptionService } from "@modules/subscription/subscription.service";
-import type { RecurrenceType } from "@prisma-module/generated/client";
+import type { TimezoneService } from "@modules/timezone/services/timezone.service";
+import type {
+  EmailRule,
+  Income,
+  ProcessedEmail,
+  RecurrenceType,
+  Reminder,
+  User
+} from "@prisma-module/generated/client";
 import { env } from "@shared/env/env";
+import {
+  DEFAULT_LOCALE,
+  getMessages,
+  isSupportedLocale,
+  type Locale,
+  type Messages,
+  SUPPORTED_LOCALES,
+  toIntlLocale
+} from "@shared/i18n/i18n";
 import { createLogger } from "@shared/logger/logger";
+import {
+  DEFAULT_TIMEZONE,
+  getZonedDayRange,
+  getZonedParts,
+  getZonedWeekStart,
+  isValidTimezone,
+  zonedTimeToUtc
+} from "@shared/timezone/timezone";
 
 import type { WhatsAppClient } from "../client/whatsapp.client";
-import type { MessageContent } from "../client/whatsapp.types";
+import { MAX_MEDIA_BYTES, type MessageContent } from "../client/whatsapp.types";
+import type {
+  ConversationStateService,
+  PendingExpenseDeleteState,
+  PendingReplyState,
+  PendingTransferState,
+  ViewedEmailState
+} from "../conversation/conversation-state.service";
 
-const DAYS_OF_WEEK = ["domingo", "lunes", "martes", "miercoles", "jueves", "viernes", "sabado"];
 const CONNECT_COMMANDS = ["/connect", "/link", "/conectar"];
 const CONFIRM_SEND = ["enviar", "si", "send", "yes"];
 const CANCEL_SEND = ["cancelar", "cancel", "no"];
-
-function formatReminderDate(date: Date): string {
+const CONFIRM_DELETE = ["si", "sí", "yes", "borrar", "borralos", "delete"];
+const EXPENSE_UNDO_PREFIX = "expense_undo_";
+const INCOME_UNDO_PREFIX = "income_undo_";
+const RECURRING_REMIND_PREFIX = "recurring_remind_";
+const GROUP_JOIN_PREFIX = "group_join_";
+const GROUP_DECLINE_PREFIX = "group_decline_";
+// Same default as the Expense.currency column
+const DEFAULT_EXPENSE_CURRENCY = "ARS";
+
+function formatReminderDate(date: Date, timezone: string = DEFAULT_TIMEZONE): string {
   return date.toLocaleString("es-AR", {
-    timeZone: "America/Argentina/Buenos_Aires",
+    timeZone: timezone,
     weekday: "short",
     day: "numeric",
     month: "short",
@@ -43,7 +139,25 @@ function formatReminderDate(date: Date): string {
   });
 }
 
-function extractRateLimitWait(error: unknown): string | null {
+/** An email picked from a search or a summary, shown with the option to reply */
+interface FoundEmail {
+  accountId: string;
+  gmailMessageId: string;
+  threadId: string;
+  from: string;
+  subject: string;
+  content: string;
+  date: Date;
+}
+
+/** Per-message user preferences, loaded once and threaded through the handlers */
+interface ChatContext {
+  locale: Locale;
+  timezone: string;
+  t: Messages;
+}
+
+function extractRateLimitWait(error: unknown, t: Messages): string | null {
   if (typeof error !== "object" || error === null) return null;
 
   const err = error as Record<string, unknown>;
@@ -62,10 +176,10 @@ function extractRateLimitWait(error: unknown): string | null {
     const minutes = m ? parseInt(m[1]) : 0;
 
     const parts: string[] = [];
-    if (hours > 0) parts.push(`${hours} hora${hours > 1 ? "s" : ""}`);
-    if (minutes > 0) parts.push(`${minutes} minuto${minutes > 1 ? "s" : ""}`);
-    if (parts.length === 0 && s) parts.push(`${parseInt(s[1])} segundos`);
-    if (parts.length > 0) return parts.join(" y ");
+    if (hours > 0) parts.push(t.common.hours(hours));
+    if (minutes > 0) parts.push(t.common.minutes(minutes));
+    if (parts.length === 0 && s) parts.push(t.common.seconds(parseInt(s[1])));
+    if (parts.length > 0) return parts.join(t.common.durationSeparator);
   }
 
   // Fallback: try Retry-After header (seconds)
@@ -77,68 +191,56 @@ function extractRateLimitWait(error: unknown): string | null {
       const h = Math.floor(totalSeconds / 3600);
       const m = Math.floor((totalSeconds % 3600) / 60);
       const parts: string[] = [];
-      if (h > 0) parts.push(`${h} hora${h > 1 ? "s" : ""}`);
-      if (m > 0) parts.push(`${m} minuto${m > 1 ? "s" : ""}`);
-      if (parts.length === 0) parts.push(`${totalSeconds} segundos`);
-      return parts.join(" y ");
+      if (h > 0) parts.push(t.common.hours(h));
+      if (m > 0) parts.push(t.common.minutes(m));
+      if (parts.length === 0) parts.push(t.common.seconds(totalSeconds));
+      return parts.join(t.common.durationSeparator);
     }
   }
 
   return null;
 }
 
-function isRateLimitError(error: unknown): boolean {
-  if (typeof error !== "object" || error === null) return false;
-  return (error as Record<string, unknown>).status === 429;
-}
-
-interface PendingReply {
-  userId: string;
-  messageId: string;
-  threadId: string;
-  to: string;
-  subject: string;
-  body: string;
+/** "trabajo (ana@empresa.com)", or just the label when it is the address */
+function describeMailAccount(account: MailAccount): string {
+  return account.email && account.email !== account.label
+    ? `${account.label} (${account.email})`
+    : account.label;
 }
 
-interface ViewedEmail {
-  gmailMessageId: string;
-  threadId: string;
-  from: string;
-  subject: string;
+/** "Nunca te aviso de mails de *rappi* entre las 22:00 y las 07:00" */
+function describeEmailRule(rule: EmailRule, t: Messages["emailRules"]): string {
+  const allow = rule.action === "ALLOW";
+  const text = rule.sender
+    ? t.ruleSender(allow, rule.sender)
+    : rule.emailType
+      ? t.ruleType(allow, t.types[rule.emailType] ?? rule.emailType)
+      : t.ruleAll(allow);
+
+  if (rule.startHour === null || rule.endHour === null) return text;
+  const hour = (h: number) => `${String(h).padStart(2, "0")}:00`;
+  return t.ruleWindow(text, hour(rule.startHour), hour(rule.endHour));
 }
 
-interface PendingTransfer {
-  userId: string;
-  recipient: string;
-  amount: number;
-  description?: string;
-  scheduledAt?: Date;
+function isRateLimitError(error: unknown): boolean {
+  if (typeof error !== "object" || error === null) return false;
+  return (error as Record<string, unknown>).status === 429;
 }
 
 export class MessageHandler {
   private readonly logger = createLogger("message-handler");
-  private readonly pendingReplies = new Map<string, PendingReply>();
-  private readonly lastViewedEmail = new Map<string, ViewedEmail>();
-  private readonly pendingSearchReply = new Set<string>();
-  private readonly pendingReplyInstruction = new Set<string>();
-  private readonly pendingModifyTask = new Map<string, number>();
-  private readonly pendingTransfers = new Map<string, PendingTransfer>();
-  private readonly scheduledTransfers = new Map<string, ReturnType<typeof setTimeout>>();
-  // Stores the last location shared by the user (expires after 30 minutes)
-  private readonly userLocations = new Map<string, { coords: Coordinates; savedAt: Date }>();
 
   constructor(
     private readonly whatsappClient: WhatsAppClient,
     private readonly transcriptionService: TranscriptionService,
     private readonly intentService: IntentService,
     private readonly reminderService: ReminderService,
+    private readonly conversationState: ConversationStateService,
     private readonly userService?: UserService,
-    private readonly gmailAuthService?: GmailAuthService,
+    private readonly mailboxService?: MailboxService,
     private readonly linkingCodeService?: LinkingCodeService,
     private readonly subscriptionService?: SubscriptionService,
     private readonly emailReplyService?: EmailReplyService,
-    private readonly gmailService?: GmailService,
     private readonly processedEmailRepository?: ProcessedEmailRepository,
     private readonly productSearchService?: ProductSearchService,
     private readonly meliAuthService?: MeliAuthService,
@@ -151,7 +253,19 @@ export class MessageHandler {
     private readonly newsService?: NewsService,
     private readonly mapsService?: MapsService,
     private readonly meliTransferService?: MeliTransferService,
-    private readonly scheduledPaymentService?: ScheduledPaymentService
+    private readonly scheduledPaymentService?: ScheduledPaymentService,
+    private readonly timezoneService?: TimezoneService,
+    private readonly documentTextService?: DocumentTextService,
+    private readonly emailProcessorService?: EmailProcessorService,
+    private readonly budgetService?: BudgetService,
+    private readonly expenseExportService?: ExpenseExportService,
+    private readonly recurringChargeService?: RecurringChargeService,
+    private readonly expenseGroupService?: ExpenseGroupService,
+    private readonly incomeService?: IncomeService,
+    private readonly cashFlowService?: CashFlowService,
+    private readonly anomalyService?: ExpenseAnomalyService,
+    private readonly emailRuleService?: EmailRuleService,
+    private readonly emailDigestService?: EmailDigestService
   ) {}
 
   async handle(message: MessageContent): Promise<void> {
@@ -168,15 +282,26 @@ export class MessageHandler {
 
     this.logger.info(`Received ${message.type} message from ${message.chatId}`);
 
+    const ctx = await this.getChatContext(message.chatId);
+
     // Handle interactive responses (button taps, list selections)
     if (message.type === "buttonResponse" || message.type === "listResponse") {
-      await this.handleInteractiveResponse(message);
+      await this.handleInteractiveResponse(message, ctx);
       return;
     }
 
     // Handle location messages
     if (message.type === "location") {
-      await this.handleLocationMessage(message);
+      await this.handleLocationMessage(message, ctx);
+      return;
+    }
+
+    // Receipts, tickets and invoices sent as photos or PDFs (too large ones get a notice)
+    if (
+      (message.type === "image" || message.type === "document") &&
+      (message.mediaBuffer || message.fileSize)
+    ) {
+      await this.handleDocumentMessage(message, ctx);
       return;
     }
 
@@ -194,16 +319,10 @@ export class MessageHandler {
       } catch (error) {
         this.logger.error("Failed to transcribe audio", error);
         if (isRateLimitError(error)) {
-          const wait = extractRateLimitWait(error) || "unos minutos";
-          await this.whatsappClient.sendMessage(
-            message.chatId,
-            `Llegué al límite de consultas 😬 Vas a tener que esperar ${wait} para volver a usarme.`
-          );
+          const wait = extractRateLimitWait(error, ctx.t) || ctx.t.common.rateLimitDefaultWait;
+          await this.whatsappClient.sendMessage(message.chatId, ctx.t.common.rateLimited(wait));
         } else {
-          await this.whatsappClient.sendMessage(
-            message.chatId,
-            "No pude entender el audio. Por favor intenta de nuevo."
-          );
+          await this.whatsappClient.sendMessage(message.chatId, ctx.t.audio.notUnderstood);
         }
         return;
       }
@@ -213,144 +332,130 @@ export class MessageHandler {
       return;
     }
 
-    // Check for pending modify task (from list interaction)
-    if (this.pendingModifyTask.has(message.chatId)) {
-      await this.handlePendingModifyTaskResponse(message.chatId, text);
-      return;
-    }
-
-    // Check for pending email reply confirmation
-    if (this.pendingReplies.has(message.chatId)) {
-      await this.handlePendingReplyResponse(message.chatId, text);
-      return;
-    }
-
-    // Check for pending search reply ("queres responder?")
-    if (this.pendingSearchReply.has(message.chatId)) {
-      await this.handlePendingSearchReplyResponse(message.chatId, text);
-      return;
-    }
-
-    // Check for pending reply instruction (user said "si", now we need the instruction)
-    if (this.pendingReplyInstruction.has(message.chatId)) {
-      await this.handleReplyToViewedEmail(message.chatId, text);
-      return;
-    }
-
-    // Check for pending transfer confirmation
-    if (this.pendingTransfers.has(message.chatId)) {
-      await this.handlePendingTransferResponse(message.chatId, text);
+    // Resume any pending conversational flow (persisted, survives restarts)
+    if (await this.handlePendingState(message.chatId, text, ctx)) {
       return;
     }
 
     // Check for /connect command before LLM parsing
     if (CONNECT_COMMANDS.includes(text.trim().toLowerCase())) {
-      await this.handleConnect(message.chatId);
+      await this.handleConnect(message.chatId, ctx);
       return;
     }
 
     // Check subscription access (linked account + active plan)
     if (this.subscriptionService) {
-      const access = await this.subscriptionService.checkBotAccess(message.chatId);
+      const access = await this.subscriptionService.checkBotAccess(message.chatId, ctx.locale);
       if (!access.allowed) {
         await this.whatsappClient.sendMessage(message.chatId, access.message);
         return;
       }
     }
 
-    // Parse intent
+    // Parse intent (relative dates are resolved in the user's timezone)
     try {
-      const intent = await this.intentService.parseIntent(text);
+      const intent = await this.intentService.parseIntent(text, ctx.timezone, ctx.locale);
       this.logger.info(`Parsed intent: ${intent.type} (confidence: ${intent.confidence})`);
 
       switch (intent.type) {
         case "create_reminder":
-          await this.handleCreateReminder(message.chatId, text, intent);
+          await this.handleCreateReminder(message.chatId, text, intent, ctx);
           break;
 
         case "list_tasks":
-          await this.handleListTasks(message.chatId);
+          await this.handleListTasks(message.chatId, ctx);
           break;
 
         case "cancel_task":
-          await this.handleCancelTask(message.chatId, intent.taskNumber);
+          await this.handleCancelTask(message.chatId, ctx, intent.taskNumber);
           break;
 
         case "modify_task":
-          await this.handleModifyTask(message.chatId, intent.taskNumber, intent.newDateTime);
+          await this.handleModifyTask(message.chatId, ctx, intent.taskNumber, intent.newDateTime);
           break;
 
         case "link_email":
-          await this.handleLinkEmail(message.chatId);
+          await this.handleLinkEmail(message.chatId, ctx, intent.emailAccount);
           break;
 
         case "unlink_email":
-          await this.handleUnlinkEmail(message.chatId);
+          await this.handleUnlinkEmail(message.chatId, ctx, intent.emailAccount);
           break;
 
         case "email_status":
-          await this.handleEmailStatus(message.chatId);
+          await this.handleEmailStatus(message.chatId, ctx);
           break;
 
         case "reply_email":
-          await this.handleReplyEmail(message.chatId, intent.emailReplyInstruction);
+          await this.handleReplyEmail(
+            message.chatId,
+            ctx,
+            intent.emailReplyInstruction,
+            intent.emailAccount
+          );
           break;
 
         case "search_email":
           await this.handleSearchEmail(
             message.chatId,
+            ctx,
             intent.emailSearchQuery,
-            intent.emailExtractionQuery
+            intent.emailExtractionQuery,
+            intent.emailAccount
           );
           break;
 
         case "search_product":
-          await this.handleSearchProduct(message.chatId, intent.productSearchQuery);
+          await this.handleSearchProduct(message.chatId, ctx, intent.productSearchQuery);
           break;
 
         case "link_mercadolibre":
-          await this.handleLinkMercadoLibre(message.chatId);
+          await this.handleLinkMercadoLibre(message.chatId, ctx);
           break;
 
         case "unlink_mercadolibre":
-          await this.handleUnlinkMercadoLibre(message.chatId);
+          await this.handleUnlinkMercadoLibre(message.chatId, ctx);
           break;
 
         case "track_order":
-          await this.handleTrackOrder(message.chatId);
+          await this.handleTrackOrder(message.chatId, ctx);
           break;
 
         case "enable_digest":
-          await this.handleEnableDigest(message.chatId, intent.digestHour);
+          await this.handleEnableDigest(message.chatId, ctx, intent.digestHour);
           break;
 
         case "disable_digest":
-          await this.handleDisableDigest(message.chatId);
+          await this.handleDisableDigest(message.chatId, ctx);
           break;
 
         case "check_expenses":
-          await this.handleCheckExpenses(message.chatId, intent.expensePeriod ?? "month");
+          await this.handleCheckExpenses(message.chatId, ctx, intent.expensePeriod ?? "month", {
+            tag: intent.expenseTag,
+            customCategory: intent.expenseCustomCategory
+          });
           break;
 
         case "financial_advice":
-          await this.handleFinancialAdvice(message.chatId);
+          await this.handleFinancialAdvice(message.chatId, ctx);
           break;
 
         case "check_dollar":
-          await this.handleCheckDollar(message.chatId);
+          await this.handleCheckDollar(message.chatId, ctx);
           break;
 
         case "get_news":
-          await this.handleGetNews(message.chatId, intent.newsQuery, intent.newsCategory);
+          await this.handleGetNews(message.chatId, ctx, intent.newsQuery, intent.newsCategory);
           break;
 
         case "check_crypto":
-          await this.handleCheckCrypto(message.chatId, intent.coins);
+          await this.handleCheckCrypto(message.chatId, ctx, intent.coins);
           break;
 
         case "get_directions":
           await this.handleGetDirections(
             message.chatId,
+            ctx,
             intent.directionsOrigin,
             intent.directionsDestination,
             intent.travelMode as TravelMode | undefined
@@ -360,6 +465,7 @@ export class MessageHandler {
         case "send_money":
           await this.handleSendMoney(
             message.chatId,
+            ctx,
             intent.transferRecipient,
             intent.transferAmount,
             intent.transferDescription,
@@ -370,6 +476,7 @@ export class MessageHandler {
         case "schedule_payment":
           await this.handleSchedulePayment(
             message.chatId,
+            ctx,
             intent.paymentAlias,
             intent.paymentAmount,
             intent.paymentDescription,
@@ -381,69 +488,287 @@ export class MessageHandler {
           break;
 
         case "list_scheduled_payments":
-          await this.handleListScheduledPayments(message.chatId);
+          await this.handleListScheduledPayments(message.chatId, ctx);
           break;
 
         case "cancel_scheduled_payment":
-          await this.handleCancelScheduledPayment(message.chatId, intent.paymentIndex);
+          await this.handleCancelScheduledPayment(message.chatId, ctx, intent.paymentIndex);
           break;
 
-        default:
-          await this.whatsappClient.sendMessage(
+        case "set_timezone":
+          await this.handleSetTimezone(message.chatId, ctx, intent.timezone);
+          break;
+
+        case "set_language":
+          await this.handleSetLanguage(message.chatId, ctx, intent.language);
+          break;
+
+        case "set_escalation_contact":
+          await this.handleSetEscalationContact(message.chatId, ctx, intent.escalationPhone);
+          break;
+
+        case "remove_escalation_contact":
+          await this.handleSetEscalationContact(message.chatId, ctx, null);
+          break;
+
+        case "set_calendar_lead":
+          await this.handleSetCalendarLead(message.chatId, ctx, intent.calendarLeadMinutes);
+          break;
+
+        case "snooze_reminder":
+          await this.handleReminderReply(message, ctx, intent.newDateTime ?? null);
+          break;
+
+        case "complete_reminder":
+          await this.handleReminderReply(message, ctx, "done");
+          break;
+
+        case "log_expense":
+          await this.handleLogExpense(message.chatId, ctx, intent.expenseDetails, {
+            groupName: intent.groupName,
+            sharePercent: intent.sharePercent
+          });
+          break;
+
+        case "edit_expense":
+          await this.handleEditExpense(
+            message.chatId,
+            ctx,
+            intent.expenseIndex ?? 1,
+            intent.expenseDetails
+          );
+          break;
+
+        case "delete_expense":
+          await this.handleDeleteExpenses(message.chatId, ctx, intent.expenseCount ?? 1);
+          break;
+
+        case "recent_expenses":
+          await this.handleRecentExpenses(message.chatId, ctx, intent.expenseCount ?? 5);
+          break;
+
+        case "set_budget":
+          await this.handleSetBudget(
+            message.chatId,
+            ctx,
+            intent.budgetCategory,
+            intent.budgetAmount,
+            intent.budgetCurrency
+          );
+          break;
+
+        case "list_budgets":
+          await this.handleListBudgets(message.chatId, ctx);
+          break;
+
+        case "delete_budget":
+          await this.handleDeleteBudget(message.chatId, ctx, intent.budgetCategory);
+          break;
+
+        case "set_currency":
+          await this.handleSetCurrency(message.chatId, ctx, intent.currency);
+          break;
+
+        case "export_expenses":
+          await this.handleExportExpenses(
+            message.chatId,
+            ctx,
+            intent.exportFormat,
+            intent.exportFrom,
+            intent.exportTo
+          );
+          break;
+
+        case "recategorize_merchant":
+          await this.handleRecategorizeMerchant(
+            message.chatId,
+            ctx,
+            intent.ruleMerchant,
+            intent.ruleCategory
+          );
+          break;
+
+        case "list_recurring_charges":
+          await this.handleListRecurringCharges(message.chatId, ctx);
+          break;
+
+        case "create_category":
+          await this.handleCreateCategory(message.chatId, ctx, intent.categoryName);
+          break;
+
+        case "delete_category":
+          await this.handleDeleteCategory(message.chatId, ctx, intent.categoryName);
+          break;
+
+        case "list_categories":
+          await this.handleListCategories(message.chatId, ctx);
+          break;
+
+        case "create_group":
+          await this.handleCreateGroup(message.chatId, ctx, intent.groupName);
+          break;
+
+        case "invite_to_group":
+          await this.handleInviteToGroup(message.chatId, ctx, intent.groupName, intent.groupPhone);
+          break;
+
+        case "join_group":
+          await this.handleJoinGroup(message.chatId, ctx, intent.groupName);
+          break;
+
+        case "share_expense":
+          await this.handleShareExpense(
+            message.chatId,
+            ctx,
+            intent.expenseIndex ?? 1,
+            intent.groupName,
+            intent.sharePercent
+          );
+          break;
+
+        case "group_balance":
+          await this.handleGroupBalance(message.chatId, ctx, intent.groupName);
+          break;
+
+        case "settle_group":
+          await this.handleSettleGroup(
             message.chatId,
-            "No entendí bien 😅 Puedo ayudarte con:\n" +
-              "• Recordatorios: 'recuerdame mañana a las 3 llamar a mamá'\n" +
-              "• Recordatorios recurrentes: 'recuerdame todos los días a las 8 tomar la pastilla'\n" +
-              "• Ver tareas: 'qué tareas tengo'\n" +
-              "• Cancelar: 'cancela la tarea 2'\n" +
-              "• Cambiar hora: 'cambia la tarea 1 a las 5pm'\n" +
-              "• Conectar email: 'conecta mi email'\n" +
-              "• Responder email: 'respondele al mail diciendo que acepto'\n" +
-              "• Buscar email: 'buscá el mail de Juan sobre el presupuesto'\n" +
-              "• Buscar productos: 'buscame auriculares bluetooth'\n" +
-              "• Conectar MercadoLibre: 'conecta mi mercado libre'\n" +
-              "• Rastrear pedido: 'dónde está mi paquete'\n" +
-              "• Resumen diario: 'activar resumen diario' / 'desactivar resumen diario'\n" +
-              "• Ver gastos: 'cuánto gasté este mes'\n" +
-              "• Consejos financieros: 'dame consejos de ahorro'\n" +
-              "• Dólar: '¿a cuánto está el dólar?'\n" +
-              "• Noticias: '¿qué noticias hay hoy?'\n" +
-              "• Cripto: '¿a cuánto está el bitcoin?'\n" +
-              "• Cómo llegar: 'cómo llego de Palermo a Recoleta'\n" +
-              "• Pagos recurrentes: 'pagale 5000 todos los lunes al alias gonzalez.mp'\n" +
-              "• Ver pagos: 'mis pagos programados'\n" +
-              "• Cancelar pago: 'cancela el pago recurrente 1'\n" +
-              "• Vincular con la web: /connect"
+            ctx,
+            intent.groupName,
+            intent.transferRecipient
           );
+          break;
+
+        case "set_payment_alias":
+          await this.handleSetPaymentAlias(message.chatId, ctx, intent.paymentAlias);
+          break;
+
+        case "log_income":
+          await this.handleLogIncome(message.chatId, ctx, intent.incomeDetails);
+          break;
+
+        case "cash_flow":
+          await this.handleCashFlow(message.chatId, ctx, intent.cashFlowMonth);
+          break;
+
+        case "resolve_expense_alert":
+          // Guessing "dismiss" could wave off a fraud report, so ask instead
+          if (intent.alertAction) {
+            await this.handleExpenseAlertAnswer(message.chatId, ctx, intent.alertAction);
+          } else {
+            await this.whatsappClient.sendMessage(message.chatId, ctx.t.anomalies.askAction);
+          }
+          break;
+
+        case "remind_recurring_charge":
+          await this.handleRemindRecurringCharge(message.chatId, ctx, {
+            merchant: intent.chargeMerchant
+          });
+          break;
+
+        case "add_email_rule":
+          await this.handleAddEmailRule(message.chatId, ctx, intent.emailRule);
+          break;
+
+        case "list_email_rules":
+          await this.handleListEmailRules(message.chatId, ctx);
+          break;
+
+        case "delete_email_rule":
+          await this.handleDeleteEmailRule(message.chatId, ctx, intent.emailRuleIndex);
+          break;
+
+        case "enable_email_digest":
+          await this.handleSetEmailDigest(message.chatId, ctx, intent.emailDigestHours);
+          break;
+
+        case "disable_email_digest":
+          await this.handleSetEmailDigest(message.chatId, ctx, []);
+          break;
+
+        default:
+          await this.whatsappClient.sendMessage(message.chatId, ctx.t.help);
       }
     } catch (error) {
       this.logger.error("Failed to process message", error);
       if (isRateLimitError(error)) {
-        const wait = extractRateLimitWait(error) || "unos minutos";
-        await this.whatsappClient.sendMessage(
-          message.chatId,
-          `Llegué al límite de consultas 😬 Vas a tener que esperar ${wait} para volver a usarme.`
-        );
+        const wait = extractRateLimitWait(error, ctx.t) || ctx.t.common.rateLimitDefaultWait;
+        await this.whatsappClient.sendMessage(message.chatId, ctx.t.common.rateLimited(wait));
       } else {
-        await this.whatsappClient.sendMessage(
-          message.chatId,
-          "Hubo un error procesando tu mensaje. Intentá de nuevo más tarde."
-        );
+        await this.whatsappClient.sendMessage(message.chatId, ctx.t.common.processingError);
       }
     }
   }
 
+  /**
+   * Looks up the chat's persisted conversation state once and dispatches to the
+   * flow that is waiting for an answer. Returns true if the message was consumed.
+   */
+  private async handlePendingState(
+    chatId: string,
+    text: string,
+    ctx: ChatContext
+  ): Promise<boolean> {
+    const state = await this.conversationState.getActive(chatId);
+
+    // Pending modify task (from list interaction)
+    if (state.awaitingModifyTime) {
+      await this.handlePendingModifyTaskResponse(
+        chatId,
+        text,
+        state.awaitingModifyTime.taskNumber,
+        ctx
+      );
+      return true;
+    }
+
+    // Pending email reply confirmation
+    if (state.pendingReply) {
+      await this.handlePendingReplyResponse(chatId, text, state.pendingReply, ctx);
+      return true;
+    }
+
+    // Pending search reply ("queres responder?")
+    if (state.awaitingSearchReply) {
+      await this.handlePendingSearchReplyResponse(chatId, text, ctx);
+      return true;
+    }
+
+    // Pending reply instruction (user said "si", now we need the instruction)
+    if (state.awaitingReplyInstruction) {
+      await this.handleReplyToViewedEmail(chatId, text, state.viewedEmail, ctx);
+      return true;
+    }
+
+    // Pending transfer confirmation
+    if (state.pendingTransfer) {
+      await this.handlePendingTransferResponse(chatId, text, state.pendingTransfer, ctx);
+      return true;
+    }
+
+    // Pending expense deletion confirmation
+    if (state.pendingExpenseDelete) {
+      await this.handlePendingExpenseDeleteResponse(chatId, text, state.pendingExpenseDelete, ctx);
+      return true;
+    }
+
+    return false;
+  }
+
   private async handleCreateReminder(
     chatId: string,
     originalText: string,
     intent: {
       reminderDetails?: ReminderDetail[];
       missingDateTime?: boolean;
-    }
+    },
+    ctx: ChatContext
   ): Promise<void> {
+    const { t, timezone } = ctx;
+
     // Check reminder limit
     if (this.subscriptionService) {
-      const access = await this.subscriptionService.checkCanCreateReminder(chatId);
+      const access = await this.subscriptionService.checkCanCreateReminder(chatId, ctx.locale);
       if (!access.allowed) {
         await this.whatsappClient.sendMessage(chatId, access.message);
         return;
@@ -452,52 +777,63 @@ export class MessageHandler {
 
     // Check if missing date/time
     if (intent.missingDateTime) {
-      const description = intent.reminderDetails?.[0]?.description || "lo que me pediste";
-      await this.whatsappClient.sendMessage(
-        chatId,
-        `Anotado! Pero necesito saber *cuándo* querés que te recuerde "${description}" 📅\n\n` +
-          "Por ejemplo:\n" +
-          "• 'mañana a las 3'\n" +
-          "• 'el viernes a las 10'\n" +
-          "• 'todos los días a las 8'\n" +
-          "• 'todos los lunes a las 9'"
-      );
+      const description =
+        intent.reminderDetails?.[0]?.description || t.reminders.defaultDescription;
+      await this.whatsappClient.sendMessage(chatId, t.reminders.missingDateTime(description));
       return;
     }
 
     if (!intent.reminderDetails || intent.reminderDetails.length === 0) {
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "No entendí bien qué querés recordar 😅 Contame de nuevo: ¿qué y cuándo?"
-      );
+      await this.whatsappClient.sendMessage(chatId, t.reminders.notUnderstood);
       return;
     }
 
     const createdReminders: Array<{
       description: string;
       dateTime: Date | null;
-      recurrence: string;
-      recurrenceDay: number | null;
+      rrule: string | null;
+      insist: boolean;
     }> = [];
 
     for (const detail of intent.reminderDetails) {
+      const rrule = this.resolveReminderRRule(detail, timezone);
+      const recurrence: RecurrenceType = rrule ? parseRRule(rrule).freq : "NONE";
+      const recurrenceTime =
+        detail.recurrenceTime ??
+        (detail.dateTime
+          ? detail.dateTime.toLocaleTimeString("en-GB", {
+              timeZone: timezone,
+              hour: "2-digit",
+              minute: "2-digit"
+            })
+          : "09:00");
+
       // Calculate scheduledAt based on recurrence or specific date
       let scheduledAt: Date;
 
-      if (detail.recurrence !== "NONE" && detail.recurrenceTime) {
-        // For recurring reminders, calculate the first occurrence
-        scheduledAt = this.calculateFirstOccurrence(
-          detail.recurrence as RecurrenceType,
-          detail.recurrenceDay,
-          detail.recurrenceTime
+      if (rrule) {
+        // For recurring reminders, calculate the first occurrence (from the
+        // given start date, if any)
+        const now = new Date();
+        const after =
+          detail.dateTime && detail.dateTime > now ? new Date(detail.dateTime.getTime() - 1) : now;
+        const first = this.reminderService.calculateNextOccurrence(
+          { recurrence, recurrenceDay: null, recurrenceTime, rrule },
+          timezone,
+          after
         );
+
+        if (!first) {
+          await this.whatsappClient.sendMessage(chatId, t.reminders.notUnderstood);
+          continue;
+        }
+        scheduledAt = first;
       } else if (detail.dateTime) {
         scheduledAt = detail.dateTime;
       } else {
         // Shouldn't happen, but fallback to tomorrow 9am
-        scheduledAt = new Date();
-        scheduledAt.setDate(scheduledAt.getDate() + 1);
-        scheduledAt.setHours(9, 0, 0, 0);
+        const { year, month, day } = getZonedParts(new Date(), timezone);
+        scheduledAt = zonedTimeToUtc({ year, month, day: day + 1, hour: 9 }, timezone);
       }
 
       const reminder = await this.reminderService.createReminder({
@@ -505,189 +841,163 @@ export class MessageHandler {
         reminderText: detail.description,
         scheduledAt,
         chatId,
-        recurrence: (detail.recurrence as RecurrenceType) || "NONE",
-        recurrenceDay: detail.recurrenceDay ?? undefined,
-        recurrenceTime: detail.recurrenceTime ?? undefined
+        recurrence,
+        recurrenceTime: rrule ? recurrenceTime : undefined,
+        rrule: rrule ?? undefined,
+        insist: detail.insist,
+        timezone
       });
 
       createdReminders.push({
         description: detail.description,
         dateTime: scheduledAt,
-        recurrence: detail.recurrence,
-        recurrenceDay: detail.recurrenceDay
+        rrule,
+        insist: detail.insist
       });
 
       this.logger.info(`Reminder created: ${reminder.id}`);
     }
 
+    if (createdReminders.length === 0) return;
+
     // Build confirmation message
     if (createdReminders.length === 1) {
       const r = createdReminders[0];
-      await this.whatsappClient.sendMessage(chatId, this.buildConfirmationMessage(r));
+      const suffix = r.insist ? t.reminders.nagging.confirmSuffix : "";
+      await this.whatsappClient.sendMessage(chatId, this.buildConfirmationMessage(r, ctx) + suffix);
     } else {
-      let message = `✅ Listo! Te creé ${createdReminders.length} recordatorios:\n\n`;
+      let message = t.reminders.createdMany(createdReminders.length);
       createdReminders.forEach((r, index) => {
-        message += `${index + 1}. ${this.buildConfirmationMessageShort(r)}\n`;
+        const mark = r.insist ? t.reminders.nagging.shortMark : "";
+        message += `${index + 1}. ${this.buildConfirmationMessageShort(r, ctx)}${mark}\n`;
       });
       await this.whatsappClient.sendMessage(chatId, message);
     }
   }
 
-  private calculateFirstOccurrence(
-    recurrence: RecurrenceType,
-    recurrenceDay: number | null,
-    recurrenceTime: string
-  ): Date {
-    const now = new Date();
-    const [hours, minutes] = recurrenceTime.split(":").map(Number);
-    let nextDate = new Date(now);
-    nextDate.setHours(hours, minutes, 0, 0);
-
-    switch (recurrence) {
-      case "DAILY":
-        if (nextDate <= now) {
-          nextDate.setDate(nextDate.getDate() + 1);
-        }
-        break;
-
-      case "WEEKLY":
-        const targetDay = recurrenceDay ?? 0;
-        const currentDay = nextDate.getDay();
-        let daysUntilTarget = targetDay - currentDay;
-        if (daysUntilTarget < 0 || (daysUntilTarget === 0 && nextDate <= now)) {
-          daysUntilTarget += 7;
-        }
-        nextDate.setDate(nextDate.getDate() + daysUntilTarget);
-        break;
-
-      case "MONTHLY":
-        const targetDayOfMonth = recurrenceDay ?? 1;
-        nextDate.setDate(targetDayOfMonth);
-        if (nextDate <= now) {
-          nextDate.setMonth(nextDate.getMonth() + 1);
-        }
-        break;
+  /**
+   * Normalized RRULE for a parsed reminder: the LLM's rule if valid, else one
+   * built from the simple recurrence/recurrenceDay fields
+   */
+  private resolveReminderRRule(
+    detail: { recurrence: string; recurrenceDay: number | null; rrule: string | null },
+    timezone: string
+  ): string | null {
+    if (detail.rrule) {
+      try {
+        return normalizeRRule(detail.rrule, timezone);
+      } catch (error) {
+        this.logger.warn(`Ignoring invalid RRULE "${detail.rrule}": ${error}`);
+      }
     }
 
-    return nextDate;
+    const legacy = legacyToRRule(detail.recurrence as RecurrenceType, detail.recurrenceDay);
+    return legacy ? formatRRule(legacy) : null;
   }
 
-  private buildConfirmationMessage(r: {
-    description: string;
-    dateTime: Date | null;
-    recurrence: string;
-    recurrenceDay: number | null;
-  }): string {
-    if (r.recurrence === "DAILY") {
-      const timeStr = r.dateTime?.toLocaleTimeString("es-AR", {
-        timeZone: "America/Argentina/Buenos_Aires",
-        hour: "2-digit",
-        minute: "2-digit"
-      });
-      return `✅ Listo! Todos los días a las ${timeStr} te recuerdo "${r.description}" 🔁`;
-    }
-
-    if (r.recurrence === "WEEKLY" && r.recurrenceDay !== null) {
-      const dayName = DAYS_OF_WEEK[r.recurrenceDay];
-      const timeStr = r.dateTime?.toLocaleTimeString("es-AR", {
-        timeZone: "America/Argentina/Buenos_Aires",
-        hour: "2-digit",
-        minute: "2-digit"
-      });
-      return `✅ Listo! Todos los ${dayName} a las ${timeStr} te recuerdo "${r.description}" 🔁`;
-    }
-
-    if (r.recurrence === "MONTHLY" && r.recurrenceDay !== null) {
-      const timeStr = r.dateTime?.toLocaleTimeString("es-AR", {
-        timeZone: "America/Argentina/Buenos_Aires",
-        hour: "2-digit",
-        minute: "2-digit"
-      });
-      return `✅ Listo! El día ${r.recurrenceDay} de cada mes a las ${timeStr} te recuerdo "${r.description}" 🔁`;
+  private buildConfirmationMessage(
+    r: {
+      description: string;
+      dateTime: Date | null;
+      rrule: string | null;
+    },
+    ctx: ChatContext
+  ): string {
+    const { t, timezone } = ctx;
+    const intlLocale = toIntlLocale(ctx.locale);
+
+    if (r.rrule) {
+      const timeStr =
+        r.dateTime?.toLocaleTimeString(intlLocale, {
+          timeZone: timezone,
+          hour: "2-digit",
+          minute: "2-digit"
+        }) ?? "";
+      const schedule = describeRRule(
+        parseRRule(r.rrule),
+        ctx.locale,
+        timezone,
+        r.dateTime ?? undefined
+      );
+      return t.reminders.confirmRecurring(schedule, timeStr, r.description);
     }
 
     // Non-recurring
-    const confirmationTime = r.dateTime?.toLocaleString("es-AR", {
-      timeZone: "America/Argentina/Buenos_Aires",
-      weekday: "long",
-      day: "numeric",
-      month: "long",
-      hour: "2-digit",
-      minute: "2-digit"
-    });
-    return `✅ Listo! El ${confirmationTime} te recuerdo "${r.description}" 🗓️`;
-  }
-
-  private buildConfirmationMessageShort(r: {
-    description: string;
-    dateTime: Date | null;
-    recurrence: string;
-    recurrenceDay: number | null;
-  }): string {
-    if (r.recurrence === "DAILY") {
-      const timeStr = r.dateTime?.toLocaleTimeString("es-AR", {
-        timeZone: "America/Argentina/Buenos_Aires",
+    const confirmationTime =
+      r.dateTime?.toLocaleString(intlLocale, {
+        timeZone: timezone,
+        weekday: "long",
+        day: "numeric",
+        month: "long",
         hour: "2-digit",
         minute: "2-digit"
-      });
-      return `"${r.description}" — todos los días a las ${timeStr} 🔁`;
+      }) ?? "";
+    return t.reminders.confirmOnce(confirmationTime, r.description);
+  }
+
+  private buildConfirmationMessageShort(
+    r: {
+      description: string;
+      dateTime: Date | null;
+      rrule: string | null;
+    },
+    ctx: ChatContext
+  ): string {
+    const { t, timezone } = ctx;
+    const intlLocale = toIntlLocale(ctx.locale);
+
+    if (r.rrule) {
+      const timeStr =
+        r.dateTime?.toLocaleTimeString(intlLocale, {
+          timeZone: timezone,
+          hour: "2-digit",
+          minute: "2-digit"
+        }) ?? "";
+      const schedule = describeRRule(
+        parseRRule(r.rrule),
+        ctx.locale,
+        timezone,
+        r.dateTime ?? undefined
+      );
+      return t.reminders.shortRecurring(r.description, schedule, timeStr);
     }
 
-    if (r.recurrence === "WEEKLY" && r.recurrenceDay !== null) {
-      const dayName = DAYS_OF_WEEK[r.recurrenceDay];
-      const timeStr = r.dateTime?.toLocaleTimeString("es-AR", {
-        timeZone: "America/Argentina/Buenos_Aires",
+    const dateStr =
+      r.dateTime?.toLocaleString(intlLocale, {
+        timeZone: timezone,
+        weekday: "short",
+        day: "numeric",
+        month: "short",
         hour: "2-digit",
         minute: "2-digit"
-      });
-      return `"${r.description}" — todos los ${dayName} a las ${timeStr} 🔁`;
-    }
-
-    const timeStr = r.dateTime?.toLocaleString("es-AR", {
-      timeZone: "America/Argentina/Buenos_Aires",
-      weekday: "short",
-      day: "numeric",
-      month: "short",
-      hour: "2-digit",
-      minute: "2-digit"
-    });
-    return `"${r.description}" - ${timeStr}`;
+      }) ?? "";
+    return t.reminders.shortOnce(r.description, dateStr);
   }
 
-  private async handleListTasks(chatId: string): Promise<void> {
+  private async handleListTasks(chatId: string, ctx: ChatContext): Promise<void> {
+    const { t, timezone } = ctx;
     const reminders = await this.reminderService.getPendingRemindersOrdered(chatId);
 
     if (reminders.length === 0) {
-      await this.whatsappClient.sendMessage(chatId, "No tenes tareas pendientes! 🎉");
+      await this.whatsappClient.sendMessage(chatId, t.reminders.listEmpty);
       return;
     }
 
-    let response = "📋 *Tus tareas pendientes:*\n\n";
+    let response = t.reminders.listHeader;
 
     reminders.forEach((reminder, index) => {
-      const isRecurring = reminder.recurrence !== "NONE";
-      const recurrenceIcon = isRecurring ? " 🔁" : "";
+      const rrule = getReminderRRule(reminder);
+      const recurrenceIcon = rrule ? " 🔁" : "";
 
       let dateStr: string;
-      if (isRecurring) {
-        const timeStr = reminder.recurrenceTime || "09:00";
-        if (reminder.recurrence === "DAILY") {
-          dateStr = `Todos los días ${timeStr}`;
-        } else if (reminder.recurrence === "WEEKLY" && reminder.recurrenceDay !== null) {
-          dateStr = `${DAYS_OF_WEEK[reminder.recurrenceDay]} ${timeStr}`;
-        } else {
-          dateStr = reminder.scheduledAt.toLocaleString("es-AR", {
-            timeZone: "America/Argentina/Buenos_Aires",
-            weekday: "short",
-            day: "numeric",
-            month: "short",
-            hour: "2-digit",
-            minute: "2-digit"
-          });
-        }
+      if (rrule) {
+        dateStr = t.reminders.listRecurring(
+          describeRRule(rrule, ctx.locale, timezone, reminder.scheduledAt),
+          reminder.recurrenceTime || "09:00"
+        );
       } else {
-        dateStr = reminder.scheduledAt.toLocaleString("es-AR", {
-          timeZone: "America/Argentina/Buenos_Aires",
+        dateStr = reminder.scheduledAt.toLocaleString(toIntlLocale(ctx.locale), {
+          timeZone: timezone,
           weekday: "short",
           day: "numeric",
           month: "short",
@@ -699,16 +1009,17 @@ export class MessageHandler {
       response += `*${index + 1}.* ${reminder.reminderText}${recurrenceIcon}\n   📅 ${dateStr}\n\n`;
     });
 
-    response += `_Para cancelar: "cancela la tarea 2" • Para cambiar hora: "cambia la tarea 1 a las 5pm"_`;
+    response += t.reminders.listFooter;
     await this.whatsappClient.sendMessage(chatId, response);
   }
 
-  private async handleCancelTask(chatId: string, taskNumber?: number): Promise<void> {
+  private async handleCancelTask(
+    chatId: string,
+    ctx: ChatContext,
+    taskNumber?: number
+  ): Promise<void> {
     if (!taskNumber) {
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "Decime el número de tarea a cancelar. Ej: 'cancela la tarea 2'"
-      );
+      await this.whatsappClient.sendMessage(chatId, ctx.t.reminders.cancelAskNumber);
       return;
     }
 
@@ -717,7 +1028,7 @@ export class MessageHandler {
     if (taskNumber < 1 || taskNumber > reminders.length) {
       await this.whatsappClient.sendMessage(
         chatId,
-        `No existe la tarea ${taskNumber} 🤔 Tenés ${reminders.length} tarea(s) pendiente(s).`
+        ctx.t.reminders.notFound(taskNumber, reminders.length)
       );
       return;
     }
@@ -726,33 +1037,29 @@ export class MessageHandler {
     const wasRecurring = reminder.recurrence !== "NONE";
     await this.reminderService.cancelReminder(reminder.id);
 
-    const cancelMsg = wasRecurring
-      ? `Listo! Cancelé la tarea ${taskNumber}: "${reminder.reminderText}" ❌\n_(Ya no se va a repetir)_`
-      : `Listo! Cancelé la tarea ${taskNumber}: "${reminder.reminderText}" ❌`;
-
-    await this.whatsappClient.sendMessage(chatId, cancelMsg);
+    await this.whatsappClient.sendMessage(
+      chatId,
+      ctx.t.reminders.cancelled(taskNumber, reminder.reminderText, wasRecurring)
+    );
 
     this.logger.info(`Reminder ${reminder.id} cancelled by user`);
   }
 
   private async handleModifyTask(
     chatId: string,
+    ctx: ChatContext,
     taskNumber?: number,
     newDateTime?: Date
   ): Promise<void> {
+    const { t } = ctx;
+
     if (!taskNumber) {
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "Decime el número de tarea a modificar. Ej: 'cambia la tarea 2 a las 5pm'"
-      );
+      await this.whatsappClient.sendMessage(chatId, t.reminders.modifyAskNumber);
       return;
     }
 
     if (!newDateTime) {
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "Decime la nueva hora. Ej: 'cambia la tarea 2 a las 5 de la tarde'"
-      );
+      await this.whatsappClient.sendMessage(chatId, t.reminders.modifyAskTime);
       return;
     }
 
@@ -761,7 +1068,7 @@ export class MessageHandler {
     if (taskNumber < 1 || taskNumber > reminders.length) {
       await this.whatsappClient.sendMessage(
         chatId,
-        `No existe la tarea ${taskNumber} 🤔 Tenés ${reminders.length} tarea(s) pendiente(s).`
+        t.reminders.notFound(taskNumber, reminders.length)
       );
       return;
     }
@@ -769,8 +1076,8 @@ export class MessageHandler {
     const reminder = reminders[taskNumber - 1];
     await this.reminderService.modifyReminderTime(reminder.id, newDateTime);
 
-    const newTimeStr = newDateTime.toLocaleString("es-AR", {
-      timeZone: "America/Argentina/Buenos_Aires",
+    const newTimeStr = newDateTime.toLocaleString(toIntlLocale(ctx.locale), {
+      timeZone: ctx.timezone,
       weekday: "long",
       day: "numeric",
       month: "long",
@@ -778,26 +1085,20 @@ export class MessageHandler {
       minute: "2-digit"
     });
 
-    await this.whatsappClient.sendMessage(
-      chatId,
-      `✅ Listo! Moví la tarea ${taskNumber} para el ${newTimeStr}`
-    );
+    await this.whatsappClient.sendMessage(chatId, t.reminders.modified(taskNumber, newTimeStr));
 
     this.logger.info(`Reminder ${reminder.id} rescheduled to ${newDateTime.toISOString()}`);
   }
 
-  private async handleLinkEmail(chatId: string): Promise<void> {
-    if (!this.userService || !this.gmailAuthService) {
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "La funcion de email no esta disponible en este momento."
-      );
+  private async handleLinkEmail(chatId: string, ctx: ChatContext, label?: string): Promise<void> {
+    if (!this.userService || !this.mailboxService) {
+      await this.whatsappClient.sendMessage(chatId, ctx.t.email.unavailable);
       return;
     }
 
     // Check email access on plan
     if (this.subscriptionService) {
-      const access = await this.subscriptionService.checkEmailAccess(chatId);
+      const access = await this.subscriptionService.checkEmailAccess(chatId, ctx.locale);
       if (!access.allowed) {
         await this.whatsappClient.sendMessage(chatId, access.message);
         return;
@@ -808,22 +1109,30 @@ export class MessageHandler {
       // Get or create user
       const user = await this.userService.getOrCreateUser(chatId);
 
-      // Check if already linked
-      const isLinked = await this.gmailAuthService.isAuthenticated(user.id);
-      if (isLinked) {
-        await this.whatsappClient.sendMessage(
+      // Without a name, any linked mailbox counts as "already linked"
+      const accounts = await this.mailboxService.listAccounts(user.id);
+      const linked = label ? this.mailboxService.findByLabel(accounts, label) : accounts[0];
+      if (linked) {
+        await this.whatsappClient.sendMessage(chatId, ctx.t.email.alreadyLinked(linked.label));
+        return;
+      }
+
+      if (this.subscriptionService) {
+        const access = await this.subscriptionService.checkCanLinkEmailAccount(
           chatId,
-          "Ya tenes tu email conectado! 📧\n\n" +
-            "Te aviso automaticamente de entregas, citas y reuniones.\n\n" +
-            "Si queres desconectarlo, decime 'desconecta mi email'."
+          accounts.length,
+          ctx.locale
         );
-        return;
+        if (!access.allowed) {
+          await this.whatsappClient.sendMessage(chatId, access.message);
+          return;
+        }
       }
 
       // Check if user's plan includes email reply to decide scopes
       let includeReply = false;
       if (this.subscriptionService) {
-        const info = await this.subscriptionService.checkBotAccess(chatId);
+        const info = await this.subscriptionService.checkBotAccess(chatId, ctx.locale);
         if (info.allowed && info.info.hasEmailReply) {
           includeReply = true;
         }
@@ -831,54 +1140,29 @@ export class MessageHandler {
 
       // Generate OAuth URL using userId (clean cuid, no special chars)
       const hostUrl = env().HOST_URL;
+      const labelParam = label ? `&label=${encodeURIComponent(label)}` : "";
       const authUrl = includeReply
-        ? `${hostUrl}/auth/gmail?userId=${user.id}&includeSend=true`
-        : `${hostUrl}/auth/gmail?userId=${user.id}`;
-
-      const replyLine = includeReply ? "📧 Responder emails desde WhatsApp\n" : "";
-      const privacyLine = includeReply
-        ? "_Tu privacidad es importante: solo accedo a lo necesario para leer y responder._"
-        : "_Tu privacidad es importante: solo leo los emails, nunca envio nada._";
+        ? `${hostUrl}/auth/gmail?userId=${user.id}&includeSend=true${labelParam}`
+        : `${hostUrl}/auth/gmail?userId=${user.id}${labelParam}`;
 
-      await this.whatsappClient.sendMessage(
-        chatId,
-        `📧 *Conectar tu Gmail*
-
-Para vincular tu email, hace click en este link:
-
-${authUrl}
-
-Una vez que autorices, voy a poder avisarte de:
-📦 Entregas de compras
-📅 Turnos y citas
-🗓️ Reuniones
-✈️ Vuelos
-${replyLine}
-${privacyLine}`
-      );
+      await this.whatsappClient.sendMessage(chatId, ctx.t.email.link(authUrl, includeReply));
 
       this.logger.info(`Email link URL sent to ${chatId}`);
     } catch (error) {
       this.logger.error(`Failed to handle link email for ${chatId}`, error);
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "Hubo un error generando el link. Intentá de nuevo más tarde."
-      );
+      await this.whatsappClient.sendMessage(chatId, ctx.t.common.linkError);
     }
   }
 
-  private async handleUnlinkEmail(chatId: string): Promise<void> {
-    if (!this.userService || !this.gmailAuthService) {
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "La funcion de email no esta disponible en este momento."
-      );
+  private async handleUnlinkEmail(chatId: string, ctx: ChatContext, label?: string): Promise<void> {
+    if (!this.userService || !this.mailboxService) {
+      await this.whatsappClient.sendMessage(chatId, ctx.t.email.unavailable);
       return;
     }
 
     // Check email access on plan
     if (this.subscriptionService) {
-      const access = await this.subscriptionService.checkEmailAccess(chatId);
+      const access = await this.subscriptionService.checkEmailAccess(chatId, ctx.locale);
       if (!access.allowed) {
         await this.whatsappClient.sendMessage(chatId, access.message);
         return;
@@ -889,85 +1173,110 @@ ${privacyLine}`
       const user = await this.userService.getUserByChatId(chatId);
 
       if (!user) {
-        await this.whatsappClient.sendMessage(chatId, "No tenes ningun email conectado.");
+        await this.whatsappClient.sendMessage(chatId, ctx.t.email.noneLinked);
         return;
       }
 
-      const isLinked = await this.gmailAuthService.isAuthenticated(user.id);
+      const accounts = await this.mailboxService.listAccounts(user.id);
 
-      if (!isLinked) {
-        await this.whatsappClient.sendMessage(chatId, "No tenes ningun email conectado.");
+      if (accounts.length === 0) {
+        await this.whatsappClient.sendMessage(chatId, ctx.t.email.noneLinked);
         return;
       }
 
-      await this.gmailAuthService.revokeAccess(user.id);
+      const account = await this.pickMailAccount(chatId, accounts, ctx, label);
+      if (!account) return;
 
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "Email desconectado exitosamente. ✅\n\n" +
-          "Ya no voy a recibir notificaciones de tu correo.\n" +
-          "Si queres volver a conectarlo, decime 'conecta mi email'."
-      );
+      await this.mailboxService.disconnect(account.id);
+
+      await this.whatsappClient.sendMessage(chatId, ctx.t.email.unlinked);
 
       this.logger.info(`Email unlinked for ${chatId}`);
     } catch (error) {
       this.logger.error(`Failed to unlink email for ${chatId}`, error);
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "Hubo un error desconectando el email. Intentá de nuevo más tarde."
-      );
+      await this.whatsappClient.sendMessage(chatId, ctx.t.email.unlinkError);
+    }
+  }
+
+  /**
+   * The mailbox an email request refers to: the one the user named, or their
+   * only one. Tells the user and returns null when it's unknown or ambiguous.
+   */
+  private async pickMailAccount(
+    chatId: string,
+    accounts: MailAccount[],
+    ctx: ChatContext,
+    label?: string
+  ): Promise<MailAccount | null> {
+    const descriptions = accounts.map(describeMailAccount);
+
+    if (label) {
+      const account = this.mailboxService?.findByLabel(accounts, label) ?? null;
+      if (!account) {
+        await this.whatsappClient.sendMessage(
+          chatId,
+          ctx.t.email.accountNotFound(label, descriptions)
+        );
+      }
+      return account;
     }
+
+    if (accounts.length === 1) return accounts[0];
+
+    await this.whatsappClient.sendMessage(chatId, ctx.t.email.whichAccount(descriptions));
+    return null;
+  }
+
+  /** Emails processed before multiple mailboxes have no account: they came from this one */
+  private legacyMailAccount(accounts: MailAccount[]): MailAccount {
+    return accounts.find((account) => account.provider === "gmail") ?? accounts[0];
   }
 
-  private async handleConnect(chatId: string): Promise<void> {
+  /** Processed-email account filter for one mailbox, including its pre-multi-account rows */
+  private processedEmailAccountIds(
+    account: MailAccount,
+    accounts: MailAccount[]
+  ): (string | null)[] {
+    return account.id === this.legacyMailAccount(accounts).id ? [account.id, null] : [account.id];
+  }
+
+  private async handleConnect(chatId: string, ctx: ChatContext): Promise<void> {
     if (!this.linkingCodeService) {
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "La funcion de vinculacion no esta disponible en este momento."
-      );
+      await this.whatsappClient.sendMessage(chatId, ctx.t.connect.unavailable);
       return;
     }
 
     try {
       const code = await this.linkingCodeService.generateCode(chatId);
 
-      await this.whatsappClient.sendMessage(
-        chatId,
-        `🔗 *Vincular con la web*\n\n` +
-          `Tu codigo de vinculacion es:\n\n` +
-          `*${code}*\n\n` +
-          `Ingresalo en la pagina de conexiones de tu cuenta.\n\n` +
-          `⏳ Este codigo expira en 5 minutos.`
-      );
+      await this.whatsappClient.sendMessage(chatId, ctx.t.connect.code(code));
 
       this.logger.info(`Linking code sent to ${chatId}`);
     } catch (error) {
       this.logger.error(`Failed to generate linking code for ${chatId}`, error);
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "Hubo un error generando el codigo. Intentá de nuevo más tarde."
-      );
+      await this.whatsappClient.sendMessage(chatId, ctx.t.connect.error);
     }
   }
 
-  private async handleReplyEmail(chatId: string, instruction?: string): Promise<void> {
+  private async handleReplyEmail(
+    chatId: string,
+    ctx: ChatContext,
+    instruction?: string,
+    label?: string
+  ): Promise<void> {
     if (
       !this.emailReplyService ||
-      !this.gmailService ||
+      !this.mailboxService ||
       !this.processedEmailRepository ||
-      !this.userService ||
-      !this.gmailAuthService
+      !this.userService
     ) {
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "La funcion de respuesta de email no esta disponible en este momento."
-      );
+      await this.whatsappClient.sendMessage(chatId, ctx.t.email.replyUnavailable);
       return;
     }
 
     // Check email reply access on plan
     if (this.subscriptionService) {
-      const access = await this.subscriptionService.checkEmailReplyAccess(chatId);
+      const access = await this.subscriptionService.checkEmailReplyAccess(chatId, ctx.locale);
       if (!access.allowed) {
         await this.whatsappClient.sendMessage(chatId, access.message);
         return;
@@ -975,59 +1284,68 @@ ${privacyLine}`
     }
 
     if (!instruction) {
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "Decime que queres responder. Ej: 'respondele al mail diciendo que acepto la reunion'"
-      );
+      await this.whatsappClient.sendMessage(chatId, ctx.t.email.replyAskInstruction);
       return;
     }
 
     try {
       const user = await this.userService.getUserByChatId(chatId);
       if (!user) {
-        await this.whatsappClient.sendMessage(chatId, "No tenes cuenta vinculada.");
+        await this.whatsappClient.sendMessage(chatId, ctx.t.common.noLinkedAccount);
         return;
       }
 
-      // Check if user has send scope
-      const hasSend = await this.gmailAuthService.hasSendScope(user.id);
-      if (!hasSend) {
-        const hostUrl = env().HOST_URL;
-        const authUrl = `${hostUrl}/auth/gmail?userId=${user.id}&includeSend=true`;
-        await this.whatsappClient.sendMessage(
-          chatId,
-          "Para responder emails, necesitas re-autorizar tu Gmail con permisos de envio.\n\n" +
-            `Hace click aca: ${authUrl}\n\n` +
-            "Una vez autorizado, volveme a pedir que responda el email."
-        );
+      const accounts = await this.mailboxService.listAccounts(user.id);
+      if (accounts.length === 0) {
+        await this.whatsappClient.sendMessage(chatId, ctx.t.email.notConnected);
         return;
       }
 
+      // Naming a mailbox narrows the reply to its latest email
+      let named: MailAccount | null = null;
+      if (label) {
+        named = await this.pickMailAccount(chatId, accounts, ctx, label);
+        if (!named) return;
+      }
+
       // Check if there's a viewed email from search first
-      const viewed = this.lastViewedEmail.get(chatId);
+      const viewed = await this.conversationState.get(chatId, "viewedEmail");
+      let accountId: string;
       let gmailMessageId: string;
       let threadId: string;
 
-      if (viewed) {
+      if (viewed && (!named || viewed.accountId === named.id)) {
+        accountId = viewed.accountId;
         gmailMessageId = viewed.gmailMessageId;
         threadId = viewed.threadId;
-        this.lastViewedEmail.delete(chatId);
+        await this.conversationState.clear(chatId, "viewedEmail");
       } else {
         // Get most recent processed email
-        const recentEmails = await this.processedEmailRepository.findRecentForChat(user.id, 1);
+        const recentEmails = await this.processedEmailRepository.findRecentForChat(
+          user.id,
+          1,
+          named ? this.processedEmailAccountIds(named, accounts) : undefined
+        );
         if (recentEmails.length === 0) {
-          await this.whatsappClient.sendMessage(
-            chatId,
-            "No tengo un email reciente al que responder."
-          );
+          await this.whatsappClient.sendMessage(chatId, ctx.t.email.noRecentEmail);
           return;
         }
+        accountId = recentEmails[0].accountId ?? this.legacyMailAccount(accounts).id;
         gmailMessageId = recentEmails[0].gmailMessageId;
         threadId = recentEmails[0].threadId || "";
       }
 
-      // Fetch full email from Gmail
-      const fullEmail = await this.gmailService.getMessage(user.id, gmailMessageId);
+      // Check if the mailbox can send (Gmail needs the send scope)
+      const hasSend = await this.mailboxService.canSend(accountId);
+      if (!hasSend) {
+        const hostUrl = env().HOST_URL;
+        const authUrl = `${hostUrl}/auth/gmail?userId=${user.id}&includeSend=true`;
+        await this.whatsappClient.sendMessage(chatId, ctx.t.email.needsSendScope(authUrl));
+        return;
+      }
+
+      // Fetch full email from the mailbox
+      const fullEmail = await this.mailboxService.getMessage(accountId, gmailMessageId);
 
       // Compose reply using AI
       const reply = await this.emailReplyService.composeReply({
@@ -1038,22 +1356,20 @@ ${privacyLine}`
           date: fullEmail.date
         },
         userInstruction: instruction,
-        locale: user.locale || "es"
+        locale: ctx.locale,
+        timezone: user.timezone
       });
 
       // Show preview
       await this.whatsappClient.sendMessage(
         chatId,
-        `*Preview de tu respuesta:*\n\n` +
-          `*Para:* ${fullEmail.from}\n` +
-          `*Asunto:* ${reply.subject}\n\n` +
-          `${reply.body}\n\n` +
-          `_Respondé "enviar" para enviar o "cancelar" para descartar._`
+        ctx.t.email.replyPreview(fullEmail.from, reply.subject, reply.body)
       );
 
       // Store pending reply
-      this.pendingReplies.set(chatId, {
+      await this.conversationState.set(chatId, "pendingReply", {
         userId: user.id,
+        accountId,
         messageId: gmailMessageId,
         threadId,
         to: fullEmail.from,
@@ -1064,75 +1380,70 @@ ${privacyLine}`
       this.logger.info(`Pending reply set for ${chatId}`);
     } catch (error) {
       this.logger.error(`Failed to handle reply email for ${chatId}`, error);
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "Hubo un error preparando la respuesta. Intentá de nuevo más tarde."
-      );
+      await this.whatsappClient.sendMessage(chatId, ctx.t.email.replyError);
     }
   }
 
-  private async handlePendingReplyResponse(chatId: string, text: string): Promise<void> {
-    const pending = this.pendingReplies.get(chatId);
-    if (!pending) return;
-
+  private async handlePendingReplyResponse(
+    chatId: string,
+    text: string,
+    pending: PendingReplyState,
+    ctx: ChatContext
+  ): Promise<void> {
     const normalized = text.trim().toLowerCase();
 
     if (CONFIRM_SEND.includes(normalized)) {
       // Send the email
       try {
-        if (!this.gmailService) {
-          await this.whatsappClient.sendMessage(chatId, "Error: servicio de Gmail no disponible.");
-          this.pendingReplies.delete(chatId);
+        if (!this.mailboxService) {
+          await this.whatsappClient.sendMessage(chatId, ctx.t.email.gmailUnavailable);
+          await this.conversationState.clear(chatId, "pendingReply");
           return;
         }
 
-        await this.gmailService.sendReply(pending.userId, pending.messageId, pending.threadId, {
-          to: pending.to,
-          subject: pending.subject,
-          body: pending.body
-        });
+        await this.mailboxService.sendReply(
+          pending.accountId,
+          pending.messageId,
+          pending.threadId,
+          {
+            to: pending.to,
+            subject: pending.subject,
+            body: pending.body
+          }
+        );
 
-        await this.whatsappClient.sendMessage(chatId, "Email enviado exitosamente!");
+        await this.whatsappClient.sendMessage(chatId, ctx.t.email.sent);
         this.logger.info(`Email reply sent for ${chatId}`);
       } catch (error) {
         this.logger.error(`Failed to send email reply for ${chatId}`, error);
-        await this.whatsappClient.sendMessage(
-          chatId,
-          "Hubo un error enviando el email. Intentá de nuevo más tarde."
-        );
+        await this.whatsappClient.sendMessage(chatId, ctx.t.email.sendError);
       }
-      this.pendingReplies.delete(chatId);
+      await this.conversationState.clear(chatId, "pendingReply");
     } else if (CANCEL_SEND.includes(normalized)) {
-      await this.whatsappClient.sendMessage(chatId, "Respuesta descartada.");
-      this.pendingReplies.delete(chatId);
+      await this.whatsappClient.sendMessage(chatId, ctx.t.email.replyDiscarded);
+      await this.conversationState.clear(chatId, "pendingReply");
     } else {
       // Treat as new instruction — re-compose
-      this.pendingReplies.delete(chatId);
-      await this.handleReplyEmail(chatId, text);
+      await this.conversationState.clear(chatId, "pendingReply");
+      await this.handleReplyEmail(chatId, ctx, text);
     }
   }
 
   private async handleSearchEmail(
     chatId: string,
+    ctx: ChatContext,
     searchQuery?: string,
-    extractionQuery?: string
+    extractionQuery?: string,
+    label?: string
   ): Promise<void> {
-    if (
-      !this.gmailService ||
-      !this.processedEmailRepository ||
-      !this.userService ||
-      !this.gmailAuthService
-    ) {
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "La funcion de email no esta disponible en este momento."
-      );
+    if (!this.mailboxService || !this.processedEmailRepository || !this.userService) {
+      await this.whatsappClient.sendMessage(chatId, ctx.t.email.unavailable);
       return;
     }
 
     // Check email access on plan
     if (this.subscriptionService) {
-      const access = await this.subscriptionService.checkEmailAccess(chatId);
+      const access = await this.subscriptionService.checkEmailAccess(chatId, ctx.locale);
       if (!access.allowed) {
         await this.whatsappClient.sendMessage(chatId, access.message);
         return;
@@ -1140,69 +1451,61 @@ ${privacyLine}`
     }
 
     if (!searchQuery) {
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "Decime que email buscas. Ej: 'busca el mail de Juan sobre el presupuesto'"
-      );
+      await this.whatsappClient.sendMessage(chatId, ctx.t.email.searchAskQuery);
       return;
     }
 
     try {
       const user = await this.userService.getUserByChatId(chatId);
       if (!user) {
-        await this.whatsappClient.sendMessage(chatId, "No tenes cuenta vinculada.");
+        await this.whatsappClient.sendMessage(chatId, ctx.t.common.noLinkedAccount);
         return;
       }
 
-      const isLinked = await this.gmailAuthService.isAuthenticated(user.id);
-      if (!isLinked) {
-        await this.whatsappClient.sendMessage(
-          chatId,
-          "No tenes email conectado. Decime 'conecta mi email' para vincularlo."
-        );
+      const accounts = await this.mailboxService.listAccounts(user.id);
+      if (accounts.length === 0) {
+        await this.whatsappClient.sendMessage(chatId, ctx.t.email.notConnected);
         return;
       }
 
-      await this.whatsappClient.sendMessage(chatId, "Buscando en tus emails... 🔍");
+      // "buscá en el mail del trabajo" searches only that mailbox
+      let named: MailAccount | null = null;
+      if (label) {
+        named = await this.pickMailAccount(chatId, accounts, ctx, label);
+        if (!named) return;
+      }
+
+      await this.whatsappClient.sendMessage(chatId, ctx.t.email.searching);
 
       // Stage 1: Local search
-      let foundEmail: {
-        gmailMessageId: string;
-        threadId: string;
-        from: string;
-        subject: string;
-        content: string;
-        date: Date;
-      } | null = null;
+      let foundEmail: FoundEmail | null = null;
 
       const localResults = await this.processedEmailRepository.searchByKeywords(
         user.id,
-        searchQuery
+        searchQuery,
+        undefined,
+        named ? this.processedEmailAccountIds(named, accounts) : undefined
       );
 
       if (localResults.length > 0) {
-        const best = localResults[0];
-        const summary =
-          best.extractedData && typeof best.extractedData === "object"
-            ? (best.extractedData as Record<string, unknown>).summary
-            : null;
-        foundEmail = {
-          gmailMessageId: best.gmailMessageId,
-          threadId: best.threadId || "",
-          from: best.sender || "Desconocido",
-          subject: best.subject || "(sin asunto)",
-          content: typeof summary === "string" ? summary : "",
-          date: best.receivedAt
-        };
-      }
-
-      // Stage 2: Gmail API search if nothing local
-      if (!foundEmail) {
-        const gmailResults = await this.gmailService.searchMessages(user.id, searchQuery, 1);
-        if (gmailResults.length > 0) {
-          const msg = gmailResults[0];
+        foundEmail = this.toFoundEmail(localResults[0], accounts, ctx);
+      }
+
+      // Stage 2: mailbox search if nothing local, one mailbox at a time
+      for (const account of named ? [named] : accounts) {
+        if (foundEmail) break;
+
+        const mailboxResults = await this.mailboxService
+          .searchMessages(account.id, searchQuery, 1)
+          .catch((error) => {
+            this.logger.warn(`Failed to search mailbox ${account.id}: ${error}`);
+            return [];
+          });
+        if (mailboxResults.length > 0) {
+          const msg = mailboxResults[0];
           const content = msg.snippet || msg.body.substring(0, 500);
           foundEmail = {
+            accountId: account.id,
             gmailMessageId: msg.id,
             threadId: msg.threadId,
             from: msg.from,
@@ -1214,142 +1517,160 @@ ${privacyLine}`
       }
 
       if (!foundEmail) {
-        await this.whatsappClient.sendMessage(
-          chatId,
-          "No encontre ningun email que coincida con tu busqueda. Intenta con otros terminos."
-        );
+        await this.whatsappClient.sendMessage(chatId, ctx.t.email.searchNoResults);
         return;
       }
 
       // If extraction requested, fetch full body and extract specific info
-      if (extractionQuery && this.emailReplyService && this.gmailService) {
+      if (extractionQuery && this.emailReplyService && this.mailboxService) {
         try {
-          const fullEmail = await this.gmailService.getMessage(user.id, foundEmail.gmailMessageId);
+          const fullEmail = await this.mailboxService.getMessage(
+            foundEmail.accountId,
+            foundEmail.gmailMessageId
+          );
 
           const extracted = await this.emailReplyService.extractInfo({
             emailBody: fullEmail.body,
             from: foundEmail.from,
             subject: foundEmail.subject,
             date: foundEmail.date,
-            extractionQuery
+            extractionQuery,
+            timezone: ctx.timezone,
+            locale: ctx.locale
           });
 
-          await this.whatsappClient.sendMessage(chatId, `🔍 *${extractionQuery}:*\n\n${extracted}`);
+          await this.whatsappClient.sendMessage(
+            chatId,
+            ctx.t.email.extracted(extractionQuery, extracted)
+          );
         } catch (extractError) {
           this.logger.error("Failed to extract info from email", extractError);
           // Fall through to show normal email preview
         }
       }
 
-      // Format result
-      const dateStr = foundEmail.date.toLocaleString("es-AR", {
-        timeZone: "America/Argentina/Buenos_Aires",
-        weekday: "short",
-        day: "numeric",
-        month: "short",
-        hour: "2-digit",
-        minute: "2-digit"
-      });
-
-      const contentPreview =
-        foundEmail.content.length > 500
-          ? foundEmail.content.substring(0, 500) + "..."
-          : foundEmail.content;
-
-      let message = `📧 *Email encontrado:*\n\n`;
-      message += `*De:* ${foundEmail.from}\n`;
-      message += `*Asunto:* ${foundEmail.subject}\n`;
-      message += `*Fecha:* ${dateStr}\n`;
-      if (contentPreview) {
-        message += `\n${contentPreview}`;
-      }
-
-      message += `\n\n_¿Querés responder? Decime "si" o "no"._`;
-      await this.whatsappClient.sendMessage(chatId, message);
-
-      // Save state
-      this.lastViewedEmail.set(chatId, {
-        gmailMessageId: foundEmail.gmailMessageId,
-        threadId: foundEmail.threadId,
-        from: foundEmail.from,
-        subject: foundEmail.subject
-      });
-      this.pendingSearchReply.add(chatId);
+      await this.showFoundEmail(chatId, foundEmail, ctx);
 
       this.logger.info(`Email search result shown for ${chatId}`);
     } catch (error) {
       this.logger.error(`Failed to search emails for ${chatId}`, error);
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "Hubo un error buscando emails. Intentá de nuevo más tarde."
-      );
+      await this.whatsappClient.sendMessage(chatId, ctx.t.email.searchError);
     }
   }
 
-  private async handlePendingSearchReplyResponse(chatId: string, text: string): Promise<void> {
-    this.pendingSearchReply.delete(chatId);
+  /** A stored email, with the analysis summary as its content */
+  private toFoundEmail(
+    email: ProcessedEmail,
+    accounts: MailAccount[],
+    ctx: ChatContext
+  ): FoundEmail {
+    const summary =
+      email.extractedData && typeof email.extractedData === "object"
+        ? (email.extractedData as Record<string, unknown>).summary
+        : null;
+    return {
+      accountId: email.accountId ?? this.legacyMailAccount(accounts).id,
+      gmailMessageId: email.gmailMessageId,
+      threadId: email.threadId || "",
+      from: email.sender || ctx.t.common.unknownSender,
+      subject: email.subject || ctx.t.common.noSubject,
+      content: typeof summary === "string" ? summary : "",
+      date: email.receivedAt
+    };
+  }
+
+  /** Shows the email and offers to reply to it */
+  private async showFoundEmail(chatId: string, email: FoundEmail, ctx: ChatContext): Promise<void> {
+    const dateStr = email.date.toLocaleString(toIntlLocale(ctx.locale), {
+      timeZone: ctx.timezone,
+      weekday: "short",
+      day: "numeric",
+      month: "short",
+      hour: "2-digit",
+      minute: "2-digit"
+    });
+
+    const contentPreview =
+      email.content.length > 500 ? email.content.substring(0, 500) + "..." : email.content;
+
+    const message = ctx.t.email.found({
+      from: email.from,
+      subject: email.subject,
+      date: dateStr,
+      preview: contentPreview
+    });
+    await this.whatsappClient.sendMessage(chatId, message);
+
+    // Save state
+    await this.conversationState.set(chatId, "viewedEmail", {
+      accountId: email.accountId,
+      gmailMessageId: email.gmailMessageId,
+      threadId: email.threadId,
+      from: email.from,
+      subject: email.subject
+    });
+    await this.conversationState.set(chatId, "awaitingSearchReply", {});
+  }
+
+  private async handlePendingSearchReplyResponse(
+    chatId: string,
+    text: string,
+    ctx: ChatContext
+  ): Promise<void> {
+    await this.conversationState.clear(chatId, "awaitingSearchReply");
     const normalized = text.trim().toLowerCase();
 
     if (["si", "sí", "yes"].includes(normalized)) {
-      this.pendingReplyInstruction.add(chatId);
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "Decime que queres responder. Ej: 'decile que acepto la propuesta'"
-      );
+      await this.conversationState.set(chatId, "awaitingReplyInstruction", {});
+      await this.whatsappClient.sendMessage(chatId, ctx.t.email.replyAskInstructionShort);
     } else {
-      this.lastViewedEmail.delete(chatId);
-      await this.whatsappClient.sendMessage(chatId, "OK!");
+      await this.conversationState.clear(chatId, "viewedEmail");
+      await this.whatsappClient.sendMessage(chatId, ctx.t.common.ok);
     }
   }
 
-  private async handleReplyToViewedEmail(chatId: string, instruction: string): Promise<void> {
-    this.pendingReplyInstruction.delete(chatId);
+  private async handleReplyToViewedEmail(
+    chatId: string,
+    instruction: string,
+    viewed: ViewedEmailState | undefined,
+    ctx: ChatContext
+  ): Promise<void> {
+    await this.conversationState.clear(chatId, "awaitingReplyInstruction");
 
-    if (
-      !this.emailReplyService ||
-      !this.gmailService ||
-      !this.userService ||
-      !this.gmailAuthService
-    ) {
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "La funcion de respuesta de email no esta disponible en este momento."
-      );
-      this.lastViewedEmail.delete(chatId);
+    if (!this.emailReplyService || !this.mailboxService || !this.userService) {
+      await this.whatsappClient.sendMessage(chatId, ctx.t.email.replyUnavailable);
+      await this.conversationState.clear(chatId, "viewedEmail");
       return;
     }
 
-    const viewed = this.lastViewedEmail.get(chatId);
     if (!viewed) {
-      await this.whatsappClient.sendMessage(chatId, "No tengo un email guardado para responder.");
+      await this.whatsappClient.sendMessage(chatId, ctx.t.email.noViewedEmail);
       return;
     }
 
     try {
       const user = await this.userService.getUserByChatId(chatId);
       if (!user) {
-        await this.whatsappClient.sendMessage(chatId, "No tenes cuenta vinculada.");
-        this.lastViewedEmail.delete(chatId);
+        await this.whatsappClient.sendMessage(chatId, ctx.t.common.noLinkedAccount);
+        await this.conversationState.clear(chatId, "viewedEmail");
         return;
       }
 
       // Check send scope
-      const hasSend = await this.gmailAuthService.hasSendScope(user.id);
+      const hasSend = await this.mailboxService.canSend(viewed.accountId);
       if (!hasSend) {
         const hostUrl = env().HOST_URL;
         const authUrl = `${hostUrl}/auth/gmail?userId=${user.id}&includeSend=true`;
-        await this.whatsappClient.sendMessage(
-          chatId,
-          "Para responder emails, necesitas re-autorizar tu Gmail con permisos de envio.\n\n" +
-            `Hace click aca: ${authUrl}\n\n` +
-            "Una vez autorizado, volveme a pedir que responda el email."
-        );
-        this.lastViewedEmail.delete(chatId);
+        await this.whatsappClient.sendMessage(chatId, ctx.t.email.needsSendScope(authUrl));
+        await this.conversationState.clear(chatId, "viewedEmail");
         return;
       }
 
       // Fetch full email
-      const fullEmail = await this.gmailService.getMessage(user.id, viewed.gmailMessageId);
+      const fullEmail = await this.mailboxService.getMessage(
+        viewed.accountId,
+        viewed.gmailMessageId
+      );
 
       // Compose reply
       const reply = await this.emailReplyService.composeReply({
@@ -1360,22 +1681,20 @@ ${privacyLine}`
           date: fullEmail.date
         },
         userInstruction: instruction,
-        locale: user.locale || "es"
+        locale: ctx.locale,
+        timezone: user.timezone
       });
 
       // Show preview
       await this.whatsappClient.sendMessage(
         chatId,
-        `*Preview de tu respuesta:*\n\n` +
-          `*Para:* ${fullEmail.from}\n` +
-          `*Asunto:* ${reply.subject}\n\n` +
-          `${reply.body}\n\n` +
-          `_Respondé "enviar" para enviar o "cancelar" para descartar._`
+        ctx.t.email.replyPreview(fullEmail.from, reply.subject, reply.body)
       );
 
       // Store pending reply (reuses existing send/cancel flow)
-      this.pendingReplies.set(chatId, {
+      await this.conversationState.set(chatId, "pendingReply", {
         userId: user.id,
+        accountId: viewed.accountId,
         messageId: viewed.gmailMessageId,
         threadId: viewed.threadId,
         to: fullEmail.from,
@@ -1383,37 +1702,32 @@ ${privacyLine}`
         body: reply.body
       });
 
-      this.lastViewedEmail.delete(chatId);
+      await this.conversationState.clear(chatId, "viewedEmail");
       this.logger.info(`Reply preview from search shown for ${chatId}`);
     } catch (error) {
       this.logger.error(`Failed to compose reply to viewed email for ${chatId}`, error);
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "Hubo un error preparando la respuesta. Intentá de nuevo más tarde."
-      );
-      this.lastViewedEmail.delete(chatId);
+      await this.whatsappClient.sendMessage(chatId, ctx.t.email.replyError);
+      await this.conversationState.clear(chatId, "viewedEmail");
     }
   }
 
-  private async handleSearchProduct(chatId: string, query?: string): Promise<void> {
+  private async handleSearchProduct(
+    chatId: string,
+    ctx: ChatContext,
+    query?: string
+  ): Promise<void> {
     if (!this.productSearchService) {
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "La funcion de busqueda de productos no esta disponible en este momento."
-      );
+      await this.whatsappClient.sendMessage(chatId, ctx.t.products.unavailable);
       return;
     }
 
     if (!query) {
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "Decime que producto buscas. Ej: 'buscame auriculares bluetooth'"
-      );
+      await this.whatsappClient.sendMessage(chatId, ctx.t.products.askQuery);
       return;
     }
 
     try {
-      await this.whatsappClient.sendMessage(chatId, "Buscando productos... 🔍");
+      await this.whatsappClient.sendMessage(chatId, ctx.t.products.searching);
 
       // Try to get ML access token for authenticated search
       let mlAccessToken: string | undefined;
@@ -1432,18 +1746,15 @@ ${privacyLine}`
       const results = await this.productSearchService.search(query, mlAccessToken);
 
       if (results.length === 0) {
-        await this.whatsappClient.sendMessage(
-          chatId,
-          "No encontre resultados para tu busqueda. Intenta con otros terminos."
-        );
+        await this.whatsappClient.sendMessage(chatId, ctx.t.products.noResults);
         return;
       }
 
-      let message = `🛒 *Mejores precios para "${query}":*\n\n`;
+      let message = ctx.t.products.header(query);
 
       results.forEach((product, index) => {
-        const priceStr = this.formatPrice(product.price, product.currency);
-        const bestTag = index === 0 ? " 🏷️ *Mejor precio!*" : "";
+        const priceStr = this.formatPrice(product.price, product.currency, ctx.locale);
+        const bestTag = index === 0 ? ctx.t.products.bestPrice : "";
 
         message += `*${index + 1}.* ${product.title}\n`;
         message += `   💰 ${priceStr}${bestTag}\n`;
@@ -1451,26 +1762,20 @@ ${privacyLine}`
         message += `   🔗 ${product.link}\n\n`;
       });
 
-      message += `_Mostrando ${results.length} resultado${results.length > 1 ? "s" : ""} ordenados por precio._`;
+      message += ctx.t.products.footer(results.length);
 
       await this.whatsappClient.sendMessage(chatId, message);
 
       this.logger.info(`Product search results sent for "${query}" to ${chatId}`);
     } catch (error) {
       this.logger.error(`Failed to search products for ${chatId}`, error);
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "Hubo un error buscando productos. Intentá de nuevo más tarde."
-      );
+      await this.whatsappClient.sendMessage(chatId, ctx.t.products.error);
     }
   }
 
-  private async handleLinkMercadoLibre(chatId: string): Promise<void> {
+  private async handleLinkMercadoLibre(chatId: string, ctx: ChatContext): Promise<void> {
     if (!this.userService || !this.meliAuthService) {
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "La funcion de MercadoLibre no esta disponible en este momento."
-      );
+      await this.whatsappClient.sendMessage(chatId, ctx.t.meli.unavailable);
       return;
     }
 
@@ -1479,45 +1784,25 @@ ${privacyLine}`
 
       const isLinked = await this.meliAuthService.isAuthenticated(user.id);
       if (isLinked) {
-        await this.whatsappClient.sendMessage(
-          chatId,
-          "Ya tenes tu MercadoLibre conectado! 🛒\n\n" +
-            "Puedo buscar productos y rastrear tus pedidos.\n\n" +
-            "Si queres desconectarlo, decime 'desconecta mercado libre'."
-        );
+        await this.whatsappClient.sendMessage(chatId, ctx.t.meli.alreadyLinked);
         return;
       }
 
       const hostUrl = env().HOST_URL;
       const authUrl = `${hostUrl}/auth/mercadolibre?userId=${user.id}`;
 
-      await this.whatsappClient.sendMessage(
-        chatId,
-        `🛒 *Conectar MercadoLibre*\n\n` +
-          `Para vincular tu cuenta, hace click en este link:\n\n` +
-          `${authUrl}\n\n` +
-          `Una vez que autorices, voy a poder:\n` +
-          `🔍 Buscar productos con tu cuenta\n` +
-          `📦 Rastrear tus pedidos y envios\n\n` +
-          `_Tu privacidad es importante: solo accedo a tus compras y busquedas._`
-      );
+      await this.whatsappClient.sendMessage(chatId, ctx.t.meli.link(authUrl));
 
       this.logger.info(`MercadoLibre link URL sent to ${chatId}`);
     } catch (error) {
       this.logger.error(`Failed to handle link MercadoLibre for ${chatId}`, error);
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "Hubo un error generando el link. Intentá de nuevo más tarde."
-      );
+      await this.whatsappClient.sendMessage(chatId, ctx.t.common.linkError);
     }
   }
 
-  private async handleUnlinkMercadoLibre(chatId: string): Promise<void> {
+  private async handleUnlinkMercadoLibre(chatId: string, ctx: ChatContext): Promise<void> {
     if (!this.userService || !this.meliAuthService) {
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "La funcion de MercadoLibre no esta disponible en este momento."
-      );
+      await this.whatsappClient.sendMessage(chatId, ctx.t.meli.unavailable);
       return;
     }
 
@@ -1525,42 +1810,31 @@ ${privacyLine}`
       const user = await this.userService.getUserByChatId(chatId);
 
       if (!user) {
-        await this.whatsappClient.sendMessage(chatId, "No tenes MercadoLibre conectado.");
+        await this.whatsappClient.sendMessage(chatId, ctx.t.meli.notLinked);
         return;
       }
 
       const isLinked = await this.meliAuthService.isAuthenticated(user.id);
 
       if (!isLinked) {
-        await this.whatsappClient.sendMessage(chatId, "No tenes MercadoLibre conectado.");
+        await this.whatsappClient.sendMessage(chatId, ctx.t.meli.notLinked);
         return;
       }
 
       await this.meliAuthService.revokeAccess(user.id);
 
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "MercadoLibre desconectado exitosamente. ✅\n\n" +
-          "Ya no voy a poder rastrear tus pedidos.\n" +
-          "Si queres volver a conectarlo, decime 'conecta mi mercado libre'."
-      );
+      await this.whatsappClient.sendMessage(chatId, ctx.t.meli.unlinked);
 
       this.logger.info(`MercadoLibre unlinked for ${chatId}`);
     } catch (error) {
       this.logger.error(`Failed to unlink MercadoLibre for ${chatId}`, error);
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "Hubo un error desconectando MercadoLibre. Intentá de nuevo más tarde."
-      );
+      await this.whatsappClient.sendMessage(chatId, ctx.t.meli.unlinkError);
     }
   }
 
-  private async handleTrackOrder(chatId: string): Promise<void> {
+  private async handleTrackOrder(chatId: string, ctx: ChatContext): Promise<void> {
     if (!this.userService || !this.meliAuthService || !this.meliApiService) {
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "La funcion de rastreo de pedidos no esta disponible en este momento."
-      );
+      await this.whatsappClient.sendMessage(chatId, ctx.t.meli.trackUnavailable);
       return;
     }
 
@@ -1568,55 +1842,47 @@ ${privacyLine}`
       const user = await this.userService.getUserByChatId(chatId);
 
       if (!user) {
-        await this.whatsappClient.sendMessage(
-          chatId,
-          "No tenes cuenta vinculada. Decime 'conecta mi mercado libre' para empezar."
-        );
+        await this.whatsappClient.sendMessage(chatId, ctx.t.meli.trackNoAccount);
         return;
       }
 
       const isLinked = await this.meliAuthService.isAuthenticated(user.id);
 
       if (!isLinked) {
-        await this.whatsappClient.sendMessage(
-          chatId,
-          "No tenes MercadoLibre conectado. Decime 'conecta mi mercado libre' para vincularlo."
-        );
+        await this.whatsappClient.sendMessage(chatId, ctx.t.meli.trackNotLinked);
         return;
       }
 
-      await this.whatsappClient.sendMessage(chatId, "Buscando tus pedidos recientes... 📦");
+      await this.whatsappClient.sendMessage(chatId, ctx.t.meli.trackSearching);
 
       const orders = await this.meliApiService.getRecentOrders(user.id, 5);
 
       if (orders.length === 0) {
-        await this.whatsappClient.sendMessage(
-          chatId,
-          "No encontre pedidos recientes en tu cuenta de MercadoLibre."
-        );
+        await this.whatsappClient.sendMessage(chatId, ctx.t.meli.noOrders);
         return;
       }
 
-      let message = "📦 *Tus pedidos recientes:*\n\n";
+      const intlLocale = toIntlLocale(ctx.locale);
+      let message = ctx.t.meli.ordersHeader;
 
       for (let i = 0; i < orders.length; i++) {
         const order = orders[i];
         const itemNames = order.order_items.map((oi) => oi.item.title).join(", ");
-        const dateStr = new Date(order.date_created).toLocaleDateString("es-AR", {
-          timeZone: "America/Argentina/Buenos_Aires",
+        const dateStr = new Date(order.date_created).toLocaleDateString(intlLocale, {
+          timeZone: ctx.timezone,
           day: "numeric",
           month: "short"
         });
 
         message += `*${i + 1}.* ${itemNames}\n`;
-        message += `   💰 $${order.total_amount.toLocaleString("es-AR")} ${order.currency_id}\n`;
+        message += `   💰 $${order.total_amount.toLocaleString(intlLocale)} ${order.currency_id}\n`;
         message += `   📅 ${dateStr}\n`;
 
         // Get shipment info if available
         if (order.shipping?.id) {
           const shipment = await this.meliApiService.getShipment(user.id, order.shipping.id);
           if (shipment) {
-            const statusText = this.translateShipmentStatus(shipment.status);
+            const statusText = ctx.t.meli.shipmentStatus[shipment.status] || shipment.status;
             message += `   🚚 ${statusText}`;
             if (shipment.tracking_number) {
               message += ` (${shipment.tracking_number})`;
@@ -1633,29 +1899,13 @@ ${privacyLine}`
       this.logger.info(`Order tracking results sent to ${chatId}`);
     } catch (error) {
       this.logger.error(`Failed to track orders for ${chatId}`, error);
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "Hubo un error consultando tus pedidos. Intentá de nuevo más tarde."
-      );
+      await this.whatsappClient.sendMessage(chatId, ctx.t.meli.trackError);
     }
   }
 
-  private translateShipmentStatus(status: string): string {
-    const statusMap: Record<string, string> = {
-      pending: "Pendiente",
-      handling: "En preparacion",
-      ready_to_ship: "Listo para enviar",
-      shipped: "En camino 🚚",
-      delivered: "Entregado ✅",
-      not_delivered: "No entregado ❌",
-      cancelled: "Cancelado"
-    };
-    return statusMap[status] || status;
-  }
-
-  private formatPrice(price: number, currency: string): string {
+  private formatPrice(price: number, currency: string, locale: Locale): string {
     if (currency === "ARS") {
-      return `$${price.toLocaleString("es-AR")} ARS`;
+      return `$${price.toLocaleString(toIntlLocale(locale))} ARS`;
     }
     if (currency === "USD") {
       return `US$${price.toLocaleString("en-US", { minimumFractionDigits: 2 })}`;
@@ -1663,12 +1913,13 @@ ${privacyLine}`
     return `${price.toLocaleString()} ${currency}`;
   }
 
-  private async handleEnableDigest(chatId: string, hour?: number | null): Promise<void> {
+  private async handleEnableDigest(
+    chatId: string,
+    ctx: ChatContext,
+    hour?: number | null
+  ): Promise<void> {
     if (!this.userService) {
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "La funcion de resumen diario no esta disponible en este momento."
-      );
+      await this.whatsappClient.sendMessage(chatId, ctx.t.digest.unavailable);
       return;
     }
 
@@ -1677,393 +1928,1982 @@ ${privacyLine}`
     try {
       await this.userService.updateDigestSettings(chatId, true, digestHour);
       const hourStr = String(digestHour).padStart(2, "0");
-      await this.whatsappClient.sendMessage(
-        chatId,
-        `✅ Resumen diario activado a las ${hourStr}:00 hs.\n\nCada mañana te voy a mandar un resumen con tus recordatorios del dia.`
-      );
+      await this.whatsappClient.sendMessage(chatId, ctx.t.digest.enabled(hourStr));
       this.logger.info(`Digest enabled for ${chatId} at hour ${digestHour}`);
     } catch (error) {
       this.logger.error(`Failed to enable digest for ${chatId}`, error);
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "Hubo un error activando el resumen diario. Intentá de nuevo más tarde."
-      );
+      await this.whatsappClient.sendMessage(chatId, ctx.t.digest.enableError);
     }
   }
 
-  private async handleDisableDigest(chatId: string): Promise<void> {
+  private async handleDisableDigest(chatId: string, ctx: ChatContext): Promise<void> {
     if (!this.userService) {
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "La funcion de resumen diario no esta disponible en este momento."
-      );
+      await this.whatsappClient.sendMessage(chatId, ctx.t.digest.unavailable);
       return;
     }
 
     try {
       await this.userService.updateDigestSettings(chatId, false);
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "✅ Resumen diario desactivado.\n\nYa no voy a mandarte el resumen matutino. Podes volver a activarlo cuando quieras."
-      );
+      await this.whatsappClient.sendMessage(chatId, ctx.t.digest.disabled);
       this.logger.info(`Digest disabled for ${chatId}`);
     } catch (error) {
       this.logger.error(`Failed to disable digest for ${chatId}`, error);
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "Hubo un error desactivando el resumen diario. Intentá de nuevo más tarde."
-      );
+      await this.whatsappClient.sendMessage(chatId, ctx.t.digest.disableError);
     }
   }
 
-  private async handleInteractiveResponse(message: MessageContent): Promise<void> {
-    const chatId = message.chatId;
-    // polls and buttons share selectedButtonId; lists use selectedRowId
-    const selectedId = message.selectedButtonId ?? message.selectedRowId ?? "";
-
-    // Email flows: pending reply confirmation (enviar / cancelar)
-    if (this.pendingReplies.has(chatId)) {
-      await this.handlePendingReplyResponse(chatId, selectedId);
+  private async handleSetTimezone(
+    chatId: string,
+    ctx: ChatContext,
+    timezone?: string
+  ): Promise<void> {
+    if (!this.userService) {
+      await this.whatsappClient.sendMessage(chatId, ctx.t.timezone.unavailable);
       return;
     }
 
-    // Email flows: pending search reply (si / no)
-    if (this.pendingSearchReply.has(chatId)) {
-      await this.handlePendingSearchReplyResponse(chatId, selectedId);
+    if (!timezone || !isValidTimezone(timezone)) {
+      await this.whatsappClient.sendMessage(chatId, ctx.t.timezone.notRecognized);
       return;
     }
 
-    // Task actions from polls/lists (cancel_N, modify_N)
-    if (selectedId.startsWith("cancel_") && selectedId !== "cancel_none") {
-      const idx = parseInt(selectedId.replace("cancel_", ""), 10);
-      await this.handleCancelTask(chatId, idx + 1);
-      return;
+    try {
+      await this.userService.updateTimezone(chatId, timezone);
+      await this.whatsappClient.sendMessage(chatId, this.buildTimezoneMessage(timezone, ctx));
+    } catch (error) {
+      this.logger.error(`Failed to update timezone for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, ctx.t.timezone.error);
+    }
+  }
+
+  private buildTimezoneMessage(timezone: string, ctx: ChatContext): string {
+    const localTime = new Date().toLocaleString(toIntlLocale(ctx.locale), {
+      timeZone: timezone,
+      weekday: "long",
+      hour: "2-digit",
+      minute: "2-digit"
+    });
+    return ctx.t.timezone.updated(timezone, localTime);
+  }
+
+  private async handleSetLanguage(
+    chatId: string,
+    ctx: ChatContext,
+    language?: string
+  ): Promise<void> {
+    if (!this.userService) {
+      await this.whatsappClient.sendMessage(chatId, ctx.t.language.unavailable);
+      return;
+    }
+
+    const locale = language?.trim().toLowerCase();
+    if (!locale || !isSupportedLocale(locale)) {
+      const available = SUPPORTED_LOCALES.map((l) => ctx.t.language.names[l]).join(", ");
+      await this.whatsappClient.sendMessage(chatId, ctx.t.language.notSupported(available));
+      return;
+    }
+
+    try {
+      await this.userService.updateLocale(chatId, locale);
+      // Confirm in the new language so the switch is visible right away
+      await this.whatsappClient.sendMessage(chatId, getMessages(locale).language.updated);
+    } catch (error) {
+      this.logger.error(`Failed to update language for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, ctx.t.language.error);
+    }
+  }
+
+  private async handleSetCurrency(
+    chatId: string,
+    ctx: ChatContext,
+    currency?: string
+  ): Promise<void> {
+    if (!this.userService) {
+      await this.whatsappClient.sendMessage(chatId, ctx.t.currency.unavailable);
+      return;
+    }
+
+    const code = currency?.trim().toUpperCase();
+    if (!code || !CONVERTIBLE_CURRENCIES.includes(code)) {
+      await this.whatsappClient.sendMessage(
+        chatId,
+        ctx.t.currency.notSupported(CONVERTIBLE_CURRENCIES.join(", "))
+      );
+      return;
+    }
+
+    try {
+      await this.userService.updateCurrency(chatId, code);
+      await this.whatsappClient.sendMessage(chatId, ctx.t.currency.updated(code));
+    } catch (error) {
+      this.logger.error(`Failed to update currency for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, ctx.t.currency.error);
+    }
+  }
+
+  /**
+   * Set (or remove, with null) the contact told about insistent reminders the
+   * user never acknowledges. `undefined` means the number wasn't understood.
+   */
+  private async handleSetEscalationContact(
+    chatId: string,
+    ctx: ChatContext,
+    phone: string | null | undefined
+  ): Promise<void> {
+    const t = ctx.t.reminders.nagging;
+
+    if (!this.userService) {
+      await this.whatsappClient.sendMessage(chatId, t.contactUnavailable);
+      return;
+    }
+
+    const digits = phone?.replace(/\D/g, "");
+    if (phone !== null && (!digits || digits.length < 8 || digits.length > 15)) {
+      await this.whatsappClient.sendMessage(chatId, t.contactAskPhone);
+      return;
+    }
+
+    try {
+      const normalized = digits ? `+${digits}` : null;
+      await this.userService.updateEscalationPhone(chatId, normalized);
+      await this.whatsappClient.sendMessage(
+        chatId,
+        normalized ? t.contactSet(normalized) : t.contactRemoved
+      );
+    } catch (error) {
+      this.logger.error(`Failed to update escalation contact for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, t.contactError);
+    }
+  }
+
+  private async handleSetCalendarLead(
+    chatId: string,
+    ctx: ChatContext,
+    minutes: number | undefined
+  ): Promise<void> {
+    const t = ctx.t.reminders.calendarLead;
+
+    if (!this.userService) {
+      await this.whatsappClient.sendMessage(chatId, t.unavailable);
+      return;
+    }
+
+    if (minutes === undefined || !Number.isInteger(minutes) || minutes < 0 || minutes > 24 * 60) {
+      await this.whatsappClient.sendMessage(chatId, t.askMinutes);
+      return;
+    }
+
+    try {
+      await this.userService.updateCalendarLeadMinutes(chatId, minutes);
+      await this.whatsappClient.sendMessage(chatId, t.set(minutes));
+    } catch (error) {
+      this.logger.error(`Failed to update calendar lead time for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, t.error);
+    }
+  }
+
+  /**
+   * Read a photo or PDF locally and turn it into an expense or a reminder,
+   * the same way as emails
+   */
+  private async handleDocumentMessage(message: MessageContent, ctx: ChatContext): Promise<void> {
+    const chatId = message.chatId;
+    const t = ctx.t.documents;
+
+    if (message.fileSize && message.fileSize > MAX_MEDIA_BYTES) {
+      await this.whatsappClient.sendMessage(chatId, t.tooLarge(MAX_MEDIA_BYTES / (1024 * 1024)));
+      return;
+    }
+
+    if (!this.documentTextService || !this.emailProcessorService || !message.mediaBuffer) {
+      await this.whatsappClient.sendMessage(chatId, t.unavailable);
+      return;
+    }
+
+    const mimeType = message.mimeType ?? "";
+    if (!this.documentTextService.isSupported(mimeType)) {
+      await this.whatsappClient.sendMessage(chatId, t.unsupported);
+      return;
+    }
+
+    if (this.subscriptionService) {
+      const access = await this.subscriptionService.checkBotAccess(chatId, ctx.locale);
+      if (!access.allowed) {
+        await this.whatsappClient.sendMessage(chatId, access.message);
+        return;
+      }
+    }
+
+    try {
+      await this.whatsappClient.sendMessage(chatId, t.reading);
+
+      const text = await this.documentTextService.extractText(message.mediaBuffer, mimeType);
+      if (text.length < 10) {
+        await this.whatsappClient.sendMessage(chatId, t.noText);
+        return;
+      }
+
+      const caption = message.text?.trim();
+      const handled = await this.emailProcessorService.processDocument(chatId, {
+        title: caption || message.fileName || message.type,
+        text: caption ? `${caption}\n\n${text}` : text
+      });
+
+      if (!handled) {
+        await this.whatsappClient.sendMessage(chatId, t.nothingFound);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to process ${message.type} from ${chatId}`, error);
+      if (isRateLimitError(error)) {
+        const wait = extractRateLimitWait(error, ctx.t) || ctx.t.common.rateLimitDefaultWait;
+        await this.whatsappClient.sendMessage(chatId, ctx.t.common.rateLimited(wait));
+      } else {
+        await this.whatsappClient.sendMessage(chatId, t.error);
+      }
+    }
+  }
+
+  private async getChatContext(chatId: string): Promise<ChatContext> {
+    const preferences = this.userService
+      ? await this.userService.getPreferences(chatId)
+      : { locale: DEFAULT_LOCALE, timezone: DEFAULT_TIMEZONE };
+    return { ...preferences, t: getMessages(preferences.locale) };
+  }
+
+  private async handleInteractiveResponse(
+    message: MessageContent,
+    ctx: ChatContext
+  ): Promise<void> {
+    const chatId = message.chatId;
+    // polls and buttons share selectedButtonId; lists use selectedRowId
+    const selectedId = message.selectedButtonId ?? message.selectedRowId ?? "";
+    // Snooze / done options on a delivered reminder (the id names the reminder)
+    const reminderAction = parseReminderActionId(selectedId);
+    if (reminderAction) {
+      await this.handleReminderAction(
+        chatId,
+        reminderAction.reminderId,
+        reminderAction.action,
+        ctx
+      );
+      return;
+    }
+
+    // Undo button on a just-logged expense
+    if (selectedId.startsWith(EXPENSE_UNDO_PREFIX)) {
+      await this.handleUndoExpense(chatId, selectedId.slice(EXPENSE_UNDO_PREFIX.length), ctx);
+      return;
+    }
+
+    // Dismiss / fraud buttons on an unusual-expense alert
+    const anomalyAction = parseAnomalyActionId(selectedId);
+    if (anomalyAction) {
+      await this.handleExpenseAlertAnswer(
+        chatId,
+        ctx,
+        anomalyAction.action,
+        anomalyAction.anomalyId
+      );
+      return;
+    }
+
+    // An email picked from the email summary list
+    const digestEmailId = parseEmailDigestActionId(selectedId);
+    if (digestEmailId) {
+      await this.handleOpenDigestEmail(chatId, digestEmailId, ctx);
+      return;
+    }
+
+    // Undo button on a just-logged income
+    if (selectedId.startsWith(INCOME_UNDO_PREFIX)) {
+      await this.handleUndoIncome(chatId, selectedId.slice(INCOME_UNDO_PREFIX.length), ctx);
+      return;
+    }
+
+    // Reminder before a recurring charge, picked from the subscriptions list
+    if (selectedId.startsWith(RECURRING_REMIND_PREFIX)) {
+      await this.handleRemindRecurringCharge(chatId, ctx, {
+        chargeId: selectedId.slice(RECURRING_REMIND_PREFIX.length)
+      });
+      return;
+    }
+
+    // Answer to an expense group invitation
+    if (selectedId.startsWith(GROUP_JOIN_PREFIX) || selectedId.startsWith(GROUP_DECLINE_PREFIX)) {
+      const accept = selectedId.startsWith(GROUP_JOIN_PREFIX);
+      const groupId = selectedId.slice((accept ? GROUP_JOIN_PREFIX : GROUP_DECLINE_PREFIX).length);
+      await this.handleGroupInvitationResponse(chatId, ctx, groupId, accept);
+      return;
+    }
+
+    const state = await this.conversationState.getActive(chatId);
+
+    // Email flows: pending reply confirmation (enviar / cancelar)
+    if (state.pendingReply) {
+      await this.handlePendingReplyResponse(chatId, selectedId, state.pendingReply, ctx);
+      return;
+    }
+
+    // Email flows: pending search reply (si / no)
+    if (state.awaitingSearchReply) {
+      await this.handlePendingSearchReplyResponse(chatId, selectedId, ctx);
+      return;
+    }
+
+    // Task actions from polls/lists (cancel_N, modify_N)
+    if (selectedId.startsWith("cancel_") && selectedId !== "cancel_none") {
+      const idx = parseInt(selectedId.replace("cancel_", ""), 10);
+      await this.handleCancelTask(chatId, ctx, idx + 1);
+      return;
     }
 
     if (selectedId.startsWith("modify_") && selectedId !== "modify_none") {
       const idx = parseInt(selectedId.replace("modify_", ""), 10);
-      this.pendingModifyTask.set(chatId, idx + 1);
+      await this.conversationState.set(chatId, "awaitingModifyTime", { taskNumber: idx + 1 });
+      await this.whatsappClient.sendMessage(chatId, ctx.t.reminders.modifyAskNewTime);
+    }
+  }
+
+  private async handleReminderAction(
+    chatId: string,
+    reminderId: string,
+    action: ReminderAction,
+    ctx: ChatContext
+  ): Promise<void> {
+    const reminder = await this.reminderService.getReminder(reminderId);
+
+    if (action.type === "done") {
+      await this.applyReminderReply(chatId, reminder, "done", ctx);
+      return;
+    }
+
+    const until = reminder
+      ? resolveSnoozeTime(action.preset, reminder.scheduledAt, ctx.timezone)
+      : null;
+    await this.applyReminderReply(chatId, reminder, until, ctx);
+  }
+
+  /**
+   * Text reply to a reminder notification ("listo", "en media hora"). A quoted
+   * reply targets that notification's reminder; otherwise the latest one sent.
+   */
+  private async handleReminderReply(
+    message: MessageContent,
+    ctx: ChatContext,
+    reply: Date | "done" | null
+  ): Promise<void> {
+    const chatId = message.chatId;
+    let reminder: Reminder | null = null;
+
+    if (message.quotedMessageId) {
+      reminder = await this.reminderService.findByNotification(chatId, message.quotedMessageId);
+    }
+
+    if (!reminder) {
+      const delivered = await this.conversationState.get(chatId, "deliveredReminder");
+      if (delivered) {
+        reminder = await this.reminderService.getReminder(delivered.reminderId);
+      }
+    }
+
+    if (!reminder) {
+      await this.whatsappClient.sendMessage(chatId, ctx.t.reminders.actions.noTarget);
+      return;
+    }
+
+    if (!reply) {
+      await this.whatsappClient.sendMessage(chatId, ctx.t.reminders.actions.snoozeAskTime);
+      return;
+    }
+
+    await this.applyReminderReply(chatId, reminder, reply, ctx);
+  }
+
+  private async applyReminderReply(
+    chatId: string,
+    reminder: Reminder | null,
+    reply: Date | "done" | null,
+    ctx: ChatContext
+  ): Promise<void> {
+    const t = ctx.t.reminders.actions;
+
+    // Only delivered (or already snoozed) reminders of this chat can be acted on
+    if (
+      !reminder ||
+      !reply ||
+      reminder.chatId !== chatId ||
+      (reminder.status !== "SENT" && reminder.status !== "PENDING")
+    ) {
+      await this.whatsappClient.sendMessage(chatId, t.inactive);
+      return;
+    }
+
+    await this.conversationState.clear(chatId, "deliveredReminder");
+
+    if (reply === "done") {
+      await this.reminderService.acknowledgeReminder(reminder.id);
+      await this.whatsappClient.sendMessage(chatId, t.acknowledged(reminder.reminderText));
+      return;
+    }
+
+    await this.reminderService.snoozeReminder(reminder.id, reply);
+
+    const untilStr = reply.toLocaleString(toIntlLocale(ctx.locale), {
+      timeZone: ctx.timezone,
+      weekday: "long",
+      day: "numeric",
+      month: "long",
+      hour: "2-digit",
+      minute: "2-digit"
+    });
+    await this.whatsappClient.sendMessage(chatId, t.snoozed(untilStr));
+  }
+
+  private async handlePendingModifyTaskResponse(
+    chatId: string,
+    text: string,
+    taskNumber: number,
+    ctx: ChatContext
+  ): Promise<void> {
+    await this.conversationState.clear(chatId, "awaitingModifyTime");
+
+    try {
+      const syntheticText = `cambia la tarea ${taskNumber} a ${text}`;
+      const intent = await this.intentService.parseIntent(syntheticText, ctx.timezone, ctx.locale);
+
+      if (intent.type === "modify_task" && intent.newDateTime) {
+        await this.handleModifyTask(chatId, ctx, taskNumber, intent.newDateTime);
+      } else {
+        await this.whatsappClient.sendMessage(chatId, ctx.t.reminders.modifyTimeNotUnderstood);
+      }
+    } catch (error) {
+      this.logger.error("Failed to parse modify time from pending task", error);
+      await this.whatsappClient.sendMessage(chatId, ctx.t.reminders.modifyTimeError);
+    }
+  }
+
+  private async handleCheckExpenses(
+    chatId: string,
+    ctx: ChatContext,
+    period: "day" | "week" | "month",
+    filterInput: ExpenseFilterInput = {}
+  ): Promise<void> {
+    const { t, timezone } = ctx;
+    const intlLocale = toIntlLocale(ctx.locale);
+
+    if (!this.expenseService || !this.userService) {
+      await this.whatsappClient.sendMessage(chatId, t.expenses.unavailable);
+      return;
+    }
+
+    try {
+      const user = await this.userService.getUserByChatId(chatId);
+      if (!user) {
+        await this.whatsappClient.sendMessage(chatId, ctx.t.common.noLinkedAccountConnect);
+        return;
+      }
+
+      const filter = await this.expenseService.resolveFilter(user.id, filterInput);
+      if (filter === null) {
+        await this.whatsappClient.sendMessage(
+          chatId,
+          t.expenses.custom.notFound(filterInput.customCategory ?? "")
+        );
+        return;
+      }
+      const filterLabel = [filterInput.customCategory, filter?.tag ? `#${filter.tag}` : null]
+        .filter(Boolean)
+        .join(" ");
+
+      let summary;
+      let periodLabel: string;
+
+      const now = new Date();
+      if (period === "day") {
+        const { start, end } = getZonedDayRange(now, timezone);
+        summary = await this.expenseService.getSummaryForDateRange(user.id, start, end, filter);
+        periodLabel = now.toLocaleDateString(intlLocale, {
+          timeZone: timezone,
+          weekday: "long",
+          day: "numeric",
+          month: "long"
+        });
+      } else if (period === "week") {
+        // Start of this week (Monday)
+        const weekStart = getZonedWeekStart(now, timezone);
+        summary = await this.expenseService.getWeeklySummary(user.id, weekStart, timezone, filter);
+        const { year, month, day } = getZonedParts(weekStart, timezone);
+        const weekEnd = zonedTimeToUtc({ year, month, day: day + 6 }, timezone);
+        const startStr = weekStart.toLocaleDateString(intlLocale, {
+          timeZone: timezone,
+          day: "numeric",
+          month: "short"
+        });
+        const endStr = weekEnd.toLocaleDateString(intlLocale, {
+          timeZone: timezone,
+          day: "numeric",
+          month: "short"
+        });
+        periodLabel = t.expenses.weekPeriod(startStr, endStr);
+      } else {
+        summary = await this.expenseService.getCurrentMonthSummary(user.id, timezone, filter);
+        periodLabel = now.toLocaleString(intlLocale, {
+          timeZone: timezone,
+          month: "long",
+          year: "numeric"
+        });
+      }
+
+      if (summary.transactionCount === 0) {
+        await this.whatsappClient.sendMessage(
+          chatId,
+          filter ? t.expenses.noFilteredExpenses(filterLabel) : t.expenses.noExpenses
+        );
+        return;
+      }
+      if (filter) periodLabel = t.expenses.filteredPeriod(periodLabel, filterLabel);
+
+      if (!this.expenseSummaryService) {
+        await this.whatsappClient.sendMessage(chatId, t.expenses.summaryUnavailable);
+        return;
+      }
+
+      // Budgets are monthly over everything, so they only fit the unfiltered month view
+      const budgets =
+        period === "month" && !filter && this.budgetService
+          ? await this.budgetService.getCurrentStatus(user.id, timezone)
+          : [];
+      const message = await this.expenseSummaryService.formatSummaryMessage(
+        summary,
+        periodLabel,
+        false,
+        ctx.locale,
+        budgets
+      );
+
+      await this.whatsappClient.sendMessage(chatId, message);
+      await this.whatsappClient.sendMessage(chatId, t.expenses.adviceHint);
+    } catch (error) {
+      this.logger.error(`Failed to check expenses for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, t.expenses.error);
+    }
+  }
+
+  /**
+   * Expense paid in cash or by card without an email receipt
+   * ("gasté 4500 en el super"), confirmed with an undo button
+   */
+  private async handleLogExpense(
+    chatId: string,
+    ctx: ChatContext,
+    details?: ExpenseDetail,
+    share?: { groupName?: string; sharePercent?: number }
+  ): Promise<void> {
+    const t = ctx.t.expenses.manual;
+
+    if (!details?.amount || details.amount <= 0) {
+      await this.whatsappClient.sendMessage(chatId, t.missingAmount);
+      return;
+    }
+
+    const userId = await this.getExpenseUserId(chatId, ctx);
+    if (!userId || !this.expenseService) return;
+
+    try {
+      const now = new Date();
+      const expense = await this.expenseService.createManual(userId, {
+        amount: details.amount,
+        currency: details.currency ?? DEFAULT_EXPENSE_CURRENCY,
+        merchant: details.merchant,
+        category: details.category,
+        description: details.description,
+        // No future-dated spending: "el viernes" means the last one
+        date: details.date && details.date <= now ? details.date : now,
+        customCategory: details.customCategory,
+        tags: details.tags
+      });
+
+      let text = t.saved(this.formatExpenseLine(expense, ctx));
+      // Saved under its built-in category; say so instead of creating one by surprise
+      if (details.customCategory && !expense.customCategory) {
+        text += `\n${ctx.t.expenses.custom.notFound(details.customCategory)}`;
+      }
+      try {
+        await this.whatsappClient.sendButtons(
+          chatId,
+          text,
+          [{ id: `${EXPENSE_UNDO_PREFIX}${expense.id}`, text: t.undoButton }],
+          t.footer
+        );
+      } catch (error) {
+        this.logger.warn(`Undo button for expense ${expense.id} failed, sending plain text`, error);
+        await this.whatsappClient.sendMessage(chatId, `${text}\n\n${t.undoHint}`);
+      }
+
+      // "gasté 80000 en el super, a medias con la casa"
+      if (share?.groupName || share?.sharePercent != null) {
+        await this.shareInGroup(chatId, ctx, expense, share.groupName, share.sharePercent);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to log expense for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, t.error);
+    }
+  }
+
+  private async handleUndoExpense(
+    chatId: string,
+    expenseId: string,
+    ctx: ChatContext
+  ): Promise<void> {
+    const t = ctx.t.expenses.manual;
+
+    const userId = await this.getExpenseUserId(chatId, ctx);
+    if (!userId || !this.expenseService) return;
+
+    try {
+      const expense = await this.expenseService.deleteExpense(userId, expenseId);
+      await this.whatsappClient.sendMessage(
+        chatId,
+        expense ? t.undone(this.formatExpenseLine(expense, ctx)) : t.undoNotFound
+      );
+    } catch (error) {
+      this.logger.error(`Failed to undo expense ${expenseId} for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, t.error);
+    }
+  }
+
+  /** Salary, transfers received and other money in ("cobré el sueldo, 850000") */
+  private async handleLogIncome(
+    chatId: string,
+    ctx: ChatContext,
+    details?: IncomeDetail
+  ): Promise<void> {
+    const t = ctx.t.income;
+
+    if (!this.incomeService) {
+      await this.whatsappClient.sendMessage(chatId, t.unavailable);
+      return;
+    }
+    if (!details?.amount || details.amount <= 0) {
+      await this.whatsappClient.sendMessage(chatId, t.missingAmount);
+      return;
+    }
+
+    const userId = await this.getExpenseUserId(chatId, ctx);
+    if (!userId) return;
+
+    try {
+      const now = new Date();
+      const income = await this.incomeService.createManual(userId, {
+        amount: details.amount,
+        currency: details.currency ?? DEFAULT_EXPENSE_CURRENCY,
+        source: details.source,
+        category: details.category,
+        description: details.description,
+        date: details.date && details.date <= now ? details.date : now
+      });
+
+      const text = t.saved(this.formatIncomeLine(income, ctx));
+      try {
+        await this.whatsappClient.sendButtons(
+          chatId,
+          text,
+          [{ id: `${INCOME_UNDO_PREFIX}${income.id}`, text: t.undoButton }],
+          t.footer
+        );
+      } catch (error) {
+        this.logger.warn(`Undo button for income ${income.id} failed, sending plain text`, error);
+        await this.whatsappClient.sendMessage(chatId, `${text}\n\n${t.undoHint}`);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to log income for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, t.error);
+    }
+  }
+
+  private async handleUndoIncome(
+    chatId: string,
+    incomeId: string,
+    ctx: ChatContext
+  ): Promise<void> {
+    const t = ctx.t.income;
+
+    const userId = await this.getExpenseUserId(chatId, ctx);
+    if (!userId || !this.incomeService) return;
+
+    try {
+      const income = await this.incomeService.deleteIncome(userId, incomeId);
+      await this.whatsappClient.sendMessage(
+        chatId,
+        income ? t.undone(this.formatIncomeLine(income, ctx)) : t.undoNotFound
+      );
+    } catch (error) {
+      this.logger.error(`Failed to undo income ${incomeId} for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, t.error);
+    }
+  }
+
+  /** The user recognizes a flagged expense or reports it as fraud */
+  private async handleExpenseAlertAnswer(
+    chatId: string,
+    ctx: ChatContext,
+    action: AnomalyAction,
+    anomalyId?: string
+  ): Promise<void> {
+    const t = ctx.t.anomalies;
+
+    if (!this.anomalyService) {
+      await this.whatsappClient.sendMessage(chatId, t.unavailable);
+      return;
+    }
+
+    const userId = await this.getExpenseUserId(chatId, ctx);
+    if (!userId) return;
+
+    try {
+      const anomaly = await this.anomalyService.resolve(userId, action, anomalyId);
+      await this.whatsappClient.sendMessage(
+        chatId,
+        !anomaly ? t.notFound : anomaly.status === "FRAUD" ? t.fraud : t.dismissed
+      );
+    } catch (error) {
+      this.logger.error(`Failed to resolve expense alert for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, t.error);
+    }
+  }
+
+  /** Income vs. expenses for a month (YYYY-MM, default the current one) with the trend */
+  private async handleCashFlow(chatId: string, ctx: ChatContext, month?: string): Promise<void> {
+    const t = ctx.t.cashFlow;
+
+    if (!this.cashFlowService) {
+      await this.whatsappClient.sendMessage(chatId, t.unavailable);
+      return;
+    }
+
+    const userId = await this.getExpenseUserId(chatId, ctx);
+    if (!userId) return;
+
+    try {
+      const now = getZonedParts(new Date(), ctx.timezone);
+      const [year, monthNumber] = month ? month.split("-").map(Number) : [now.year, now.month];
+      const report = await this.cashFlowService.getReport(
+        userId,
+        year,
+        monthNumber >= 1 && monthNumber <= 12 ? monthNumber : now.month,
+        ctx.timezone
+      );
+
+      await this.whatsappClient.sendMessage(
+        chatId,
+        this.cashFlowService.isEmpty(report)
+          ? t.noData
+          : this.cashFlowService.formatReport(report, ctx.timezone, ctx.locale)
+      );
+    } catch (error) {
+      this.logger.error(`Failed to build cash flow for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, t.error);
+    }
+  }
+
+  /** Correct one of the latest expenses; `position` 1 is the most recently logged */
+  private async handleEditExpense(
+    chatId: string,
+    ctx: ChatContext,
+    position: number,
+    details?: ExpenseDetail
+  ): Promise<void> {
+    const t = ctx.t.expenses.manual;
+
+    const changes = {
+      ...(details?.amount && details.amount > 0 && { amount: details.amount }),
+      ...(details?.currency && { currency: details.currency }),
+      ...(details?.merchant && { merchant: details.merchant }),
+      ...(details?.category && { category: details.category }),
+      ...(details?.description && { description: details.description }),
+      ...(details?.date && details.date <= new Date() && { date: details.date }),
+      ...(details?.customCategory && { customCategory: details.customCategory }),
+      ...(details?.tags && { tags: details.tags })
+    };
+    if (Object.keys(changes).length === 0) {
+      await this.whatsappClient.sendMessage(chatId, t.editNothing);
+      return;
+    }
+
+    const userId = await this.getExpenseUserId(chatId, ctx);
+    if (!userId || !this.expenseService) return;
+
+    try {
+      const expense = await this.expenseService.updateRecentExpense(userId, position, changes);
+      if (!expense) {
+        await this.whatsappClient.sendMessage(chatId, t.notFound(position));
+        return;
+      }
+
+      let response = t.edited(this.formatExpenseLine(expense, ctx));
+      // The service remembers a corrected category for the merchant
+      if (changes.category && expense.merchant) {
+        response += `\n${t.learned(expense.merchant, ctx.t.expenses.categories[expense.category] ?? expense.category)}`;
+      }
+      await this.whatsappClient.sendMessage(chatId, response);
+    } catch (error) {
+      this.logger.error(`Failed to edit expense ${position} for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, t.error);
+    }
+  }
+
+  private async handleRecategorizeMerchant(
+    chatId: string,
+    ctx: ChatContext,
+    merchant?: string,
+    rawCategory?: string
+  ): Promise<void> {
+    const t = ctx.t.expenses.rules;
+
+    if (!merchant) {
+      await this.whatsappClient.sendMessage(chatId, t.missingMerchant);
+      return;
+    }
+    const category = rawCategory ? parseExpenseCategory(rawCategory) : null;
+    if (!category) {
+      await this.whatsappClient.sendMessage(chatId, t.invalidCategory(this.categoryList(ctx)));
+      return;
+    }
+
+    const userId = await this.getExpenseUserId(chatId, ctx);
+    if (!userId || !this.expenseService) return;
+
+    try {
+      const result = await this.expenseService.setCategoryRule(userId, merchant, category);
+      if (!result) {
+        await this.whatsappClient.sendMessage(chatId, t.error);
+        return;
+      }
+
+      await this.whatsappClient.sendMessage(
+        chatId,
+        t.saved(
+          result.rule.merchant,
+          ctx.t.expenses.categories[category] ?? category,
+          result.relabelled
+        )
+      );
+    } catch (error) {
+      this.logger.error(`Failed to recategorize ${merchant} for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, t.error);
+    }
+  }
+
+  private async handleCreateCategory(
+    chatId: string,
+    ctx: ChatContext,
+    name?: string
+  ): Promise<void> {
+    const t = ctx.t.expenses.custom;
+
+    if (!name?.trim()) {
+      await this.whatsappClient.sendMessage(chatId, t.missingName);
+      return;
+    }
+
+    const userId = await this.getExpenseUserId(chatId, ctx);
+    if (!userId || !this.expenseService) return;
+
+    try {
+      const category = await this.expenseService.createCustomCategory(userId, name);
+      await this.whatsappClient.sendMessage(
+        chatId,
+        category ? t.created(category.name) : t.exists(name.trim())
+      );
+    } catch (error) {
+      this.logger.error(`Failed to create category for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, t.error);
+    }
+  }
+
+  private async handleDeleteCategory(
+    chatId: string,
+    ctx: ChatContext,
+    name?: string
+  ): Promise<void> {
+    const t = ctx.t.expenses.custom;
+
+    if (!name?.trim()) {
+      await this.whatsappClient.sendMessage(chatId, t.missingName);
+      return;
+    }
+
+    const userId = await this.getExpenseUserId(chatId, ctx);
+    if (!userId || !this.expenseService) return;
+
+    try {
+      const deleted = await this.expenseService.deleteCustomCategory(userId, name);
+      await this.whatsappClient.sendMessage(
+        chatId,
+        deleted ? t.deleted(name.trim()) : t.notFound(name.trim())
+      );
+    } catch (error) {
+      this.logger.error(`Failed to delete category for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, t.error);
+    }
+  }
+
+  private async handleListCategories(chatId: string, ctx: ChatContext): Promise<void> {
+    const t = ctx.t.expenses.custom;
+
+    const userId = await this.getExpenseUserId(chatId, ctx);
+    if (!userId || !this.expenseService) return;
+
+    try {
+      const categories = await this.expenseService.getCustomCategories(userId);
+      if (categories.length === 0) {
+        await this.whatsappClient.sendMessage(chatId, t.listEmpty);
+        return;
+      }
+
+      const lines = categories.map((c) => `• ${c.name}`).join("\n");
+      await this.whatsappClient.sendMessage(chatId, `${t.listHeader}${lines}\n${t.listFooter}`);
+    } catch (error) {
+      this.logger.error(`Failed to list categories for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, t.error);
+    }
+  }
+
+  private async handleDeleteExpenses(
+    chatId: string,
+    ctx: ChatContext,
+    count: number
+  ): Promise<void> {
+    const t = ctx.t.expenses.manual;
+
+    const userId = await this.getExpenseUserId(chatId, ctx);
+    if (!userId || !this.expenseService) return;
+
+    try {
+      const recent = await this.expenseService.getRecentExpenses(userId, Math.max(count, 1));
+      if (recent.length === 0) {
+        await this.whatsappClient.sendMessage(chatId, t.noneToDelete);
+        return;
+      }
+
+      // Several at once, or one read from an email, is hard to recreate if misheard
+      if (recent.length > 1 || recent.some((e) => e.processedEmailId)) {
+        await this.conversationState.set(chatId, "pendingExpenseDelete", {
+          userId,
+          expenseIds: recent.map((e) => e.id)
+        });
+        await this.whatsappClient.sendMessage(
+          chatId,
+          t.confirmDelete(recent.map((e) => this.formatExpenseLine(e, ctx)))
+        );
+        return;
+      }
+
+      await this.deleteExpenses(
+        chatId,
+        userId,
+        recent.map((e) => e.id),
+        ctx
+      );
+    } catch (error) {
+      this.logger.error(`Failed to delete expenses for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, t.error);
+    }
+  }
+
+  private async handlePendingExpenseDeleteResponse(
+    chatId: string,
+    text: string,
+    pending: PendingExpenseDeleteState,
+    ctx: ChatContext
+  ): Promise<void> {
+    const t = ctx.t.expenses.manual;
+
+    await this.conversationState.clear(chatId, "pendingExpenseDelete");
+
+    if (!CONFIRM_DELETE.includes(text.trim().toLowerCase())) {
+      await this.whatsappClient.sendMessage(chatId, t.deleteCancelled);
+      return;
+    }
+
+    try {
+      await this.deleteExpenses(chatId, pending.userId, pending.expenseIds, ctx);
+    } catch (error) {
+      this.logger.error(`Failed to delete expenses for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, t.error);
+    }
+  }
+
+  private async deleteExpenses(
+    chatId: string,
+    userId: string,
+    expenseIds: string[],
+    ctx: ChatContext
+  ): Promise<void> {
+    if (!this.expenseService) return;
+
+    const t = ctx.t.expenses.manual;
+    const deleted = await this.expenseService.deleteExpenses(userId, expenseIds);
+    await this.whatsappClient.sendMessage(
+      chatId,
+      deleted.length > 0
+        ? t.deleted(deleted.map((e) => this.formatExpenseLine(e, ctx)))
+        : t.noneToDelete
+    );
+  }
+
+  /** Numbered list of the latest expenses, so edits can refer to them by position */
+  private async handleRecentExpenses(
+    chatId: string,
+    ctx: ChatContext,
+    count: number
+  ): Promise<void> {
+    const t = ctx.t.expenses.manual;
+
+    const userId = await this.getExpenseUserId(chatId, ctx);
+    if (!userId || !this.expenseService) return;
+
+    try {
+      const expenses = await this.expenseService.getRecentExpenses(userId, count);
+      if (expenses.length === 0) {
+        await this.whatsappClient.sendMessage(chatId, t.recentEmpty);
+        return;
+      }
+
+      let response = t.recentHeader;
+      expenses.forEach((expense, index) => {
+        response += `*${index + 1}.* ${this.formatExpenseLine(expense, ctx)}\n`;
+      });
+      response += t.recentFooter;
+
+      await this.whatsappClient.sendMessage(chatId, response);
+    } catch (error) {
+      this.logger.error(`Failed to list recent expenses for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, ctx.t.expenses.error);
+    }
+  }
+
+  private async handleExportExpenses(
+    chatId: string,
+    ctx: ChatContext,
+    format: ExportFormat = "xlsx",
+    from?: string,
+    to?: string
+  ): Promise<void> {
+    const t = ctx.t.expenses.export;
+
+    const userId = await this.getExpenseUserId(chatId, ctx);
+    if (!userId) return;
+    if (!this.expenseExportService) {
+      await this.whatsappClient.sendMessage(chatId, ctx.t.expenses.unavailable);
+      return;
+    }
+
+    const range = resolveExportRange(from, to, ctx.timezone);
+    if (!range) {
+      await this.whatsappClient.sendMessage(chatId, t.invalidRange);
+      return;
+    }
+
+    const formatDay = (date: Date) =>
+      date.toLocaleDateString(toIntlLocale(ctx.locale), {
+        timeZone: ctx.timezone,
+        day: "numeric",
+        month: "short",
+        year: "numeric"
+      });
+    const fromLabel = formatDay(range.start);
+    const toLabel = formatDay(range.end);
+
+    try {
+      await this.whatsappClient.sendMessage(chatId, t.generating);
+      const file = await this.expenseExportService.export(
+        userId,
+        range.start,
+        range.end,
+        format,
+        ctx.locale,
+        ctx.timezone
+      );
+      if (file.count === 0) {
+        await this.whatsappClient.sendMessage(chatId, t.empty(fromLabel, toLabel));
+        return;
+      }
+
+      await this.whatsappClient.sendDocument(
+        chatId,
+        file.data,
+        file.fileName,
+        file.mimeType,
+        t.caption(file.count, fromLabel, toLabel)
+      );
+    } catch (error) {
+      this.logger.error(`Failed to export expenses for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, t.error);
+    }
+  }
+
+  private async handleListRecurringCharges(chatId: string, ctx: ChatContext): Promise<void> {
+    const t = ctx.t.recurring;
+
+    if (!this.recurringChargeService) {
+      await this.whatsappClient.sendMessage(chatId, t.unavailable);
+      return;
+    }
+
+    const userId = await this.getExpenseUserId(chatId, ctx);
+    if (!userId) return;
+
+    try {
+      await this.whatsappClient.sendMessage(chatId, t.analyzing);
+      const charges = await this.recurringChargeService.getCharges(userId);
+      if (charges.length === 0) {
+        await this.whatsappClient.sendMessage(chatId, t.empty);
+        return;
+      }
+
+      const text = this.recurringChargeService.formatCharges(charges, ctx.timezone, ctx.locale);
+      try {
+        await this.whatsappClient.sendList(
+          chatId,
+          "",
+          text,
+          t.remindButton,
+          [
+            {
+              title: t.remindTitle,
+              rows: charges.map((charge) => ({
+                id: `${RECURRING_REMIND_PREFIX}${charge.id}`,
+                title: charge.merchant.slice(0, 24),
+                description: t.remindRow
+              }))
+            }
+          ],
+          t.remindFooter
+        );
+      } catch (error) {
+        this.logger.warn(`Recurring charges list failed for ${chatId}, sending plain text`, error);
+        await this.whatsappClient.sendMessage(chatId, `${text}\n\n${t.remindHint}`);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to list recurring charges for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, t.error);
+    }
+  }
+
+  /** Picked from the list (chargeId) or asked for by name (merchant) */
+  private async handleRemindRecurringCharge(
+    chatId: string,
+    ctx: ChatContext,
+    target: { chargeId?: string; merchant?: string }
+  ): Promise<void> {
+    const t = ctx.t.recurring;
+
+    if (!this.recurringChargeService) {
+      await this.whatsappClient.sendMessage(chatId, t.unavailable);
+      return;
+    }
+    if (!target.chargeId && !target.merchant) {
+      await this.whatsappClient.sendMessage(chatId, t.missingMerchant);
+      return;
+    }
+
+    const userId = await this.getExpenseUserId(chatId, ctx);
+    if (!userId) return;
+
+    try {
+      const chargeId =
+        target.chargeId ??
+        (await this.recurringChargeService.findByMerchant(userId, target.merchant!))?.id;
+      const result = chargeId
+        ? await this.recurringChargeService.createReminder(
+            userId,
+            chargeId,
+            chatId,
+            ctx.timezone,
+            ctx.locale
+          )
+        : null;
+      if (!result) {
+        await this.whatsappClient.sendMessage(chatId, t.notFound(target.merchant ?? ""));
+        return;
+      }
+
+      const { charge, reminder, created } = result;
+      await this.whatsappClient.sendMessage(
+        chatId,
+        created
+          ? t.reminderSet(
+              charge.merchant,
+              reminder.scheduledAt.toLocaleString(toIntlLocale(ctx.locale), {
+                timeZone: ctx.timezone,
+                weekday: "long",
+                day: "numeric",
+                month: "long",
+                hour: "2-digit",
+                minute: "2-digit"
+              })
+            )
+          : t.reminderExists(charge.merchant)
+      );
+    } catch (error) {
+      this.logger.error(`Failed to create recurring charge reminder for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, t.error);
+    }
+  }
+
+  private async handleSetBudget(
+    chatId: string,
+    ctx: ChatContext,
+    rawCategory?: string,
+    amount?: number,
+    currency?: string
+  ): Promise<void> {
+    const t = ctx.t.budgets;
+
+    if (!this.budgetService) {
+      await this.whatsappClient.sendMessage(chatId, t.unavailable);
+      return;
+    }
+
+    const category = rawCategory ? parseExpenseCategory(rawCategory) : null;
+    if (!category) {
+      await this.whatsappClient.sendMessage(chatId, t.invalidCategory(this.categoryList(ctx)));
+      return;
+    }
+    if (!amount || amount <= 0) {
+      await this.whatsappClient.sendMessage(chatId, t.missingAmount);
+      return;
+    }
+
+    const userId = await this.getExpenseUserId(chatId, ctx);
+    if (!userId) return;
+
+    try {
+      const budget = await this.budgetService.setBudget(
+        userId,
+        category,
+        currency ?? DEFAULT_EXPENSE_CURRENCY,
+        amount
+      );
+      const formatted = amount.toLocaleString(toIntlLocale(ctx.locale), {
+        style: "currency",
+        currency: budget.currency,
+        maximumFractionDigits: 0
+      });
+      await this.whatsappClient.sendMessage(
+        chatId,
+        t.set(ctx.t.expenses.categories[category] ?? category, formatted)
+      );
+    } catch (error) {
+      this.logger.error(`Failed to set budget for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, t.error);
+    }
+  }
+
+  private async handleListBudgets(chatId: string, ctx: ChatContext): Promise<void> {
+    const t = ctx.t.budgets;
+
+    if (!this.budgetService) {
+      await this.whatsappClient.sendMessage(chatId, t.unavailable);
+      return;
+    }
+
+    const userId = await this.getExpenseUserId(chatId, ctx);
+    if (!userId) return;
+
+    try {
+      const statuses = await this.budgetService.getCurrentStatus(userId, ctx.timezone);
+      await this.whatsappClient.sendMessage(
+        chatId,
+        statuses.length > 0
+          ? t.listHeader + this.budgetService.formatStatus(statuses, ctx.locale) + t.listFooter
+          : t.listEmpty
+      );
+    } catch (error) {
+      this.logger.error(`Failed to list budgets for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, t.error);
+    }
+  }
+
+  private async handleDeleteBudget(
+    chatId: string,
+    ctx: ChatContext,
+    rawCategory?: string
+  ): Promise<void> {
+    const t = ctx.t.budgets;
+
+    if (!this.budgetService) {
+      await this.whatsappClient.sendMessage(chatId, t.unavailable);
+      return;
+    }
+
+    const category = rawCategory ? parseExpenseCategory(rawCategory) : null;
+    if (!category) {
+      await this.whatsappClient.sendMessage(chatId, t.invalidCategory(this.categoryList(ctx)));
+      return;
+    }
+
+    const userId = await this.getExpenseUserId(chatId, ctx);
+    if (!userId) return;
+
+    try {
+      const deleted = await this.budgetService.deleteBudget(userId, category);
+      const label = ctx.t.expenses.categories[category] ?? category;
       await this.whatsappClient.sendMessage(
         chatId,
-        "¿A qué hora querés cambiar la tarea? Ej: 'mañana a las 5pm'"
+        deleted > 0 ? t.deleted(label) : t.notFound(label)
       );
+    } catch (error) {
+      this.logger.error(`Failed to delete budget for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, t.error);
     }
   }
 
-  private async handlePendingModifyTaskResponse(chatId: string, text: string): Promise<void> {
-    const taskNumber = this.pendingModifyTask.get(chatId)!;
-    this.pendingModifyTask.delete(chatId);
+  private async handleCreateGroup(chatId: string, ctx: ChatContext, name?: string): Promise<void> {
+    const t = ctx.t.groups;
+
+    if (!this.expenseGroupService) {
+      await this.whatsappClient.sendMessage(chatId, t.unavailable);
+      return;
+    }
+    if (!name?.trim()) {
+      await this.whatsappClient.sendMessage(chatId, t.missingName);
+      return;
+    }
+
+    const userId = await this.getExpenseUserId(chatId, ctx);
+    if (!userId) return;
 
     try {
-      const syntheticText = `cambia la tarea ${taskNumber} a ${text}`;
-      const intent = await this.intentService.parseIntent(syntheticText);
+      const group = await this.expenseGroupService.createGroup(userId, name);
+      await this.whatsappClient.sendMessage(chatId, t.created(group.name));
+    } catch (error) {
+      this.logger.error(`Failed to create expense group for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, t.error);
+    }
+  }
 
-      if (intent.type === "modify_task" && intent.newDateTime) {
-        await this.handleModifyTask(chatId, taskNumber, intent.newDateTime);
-      } else {
+  /** Invites a linked user by phone; they get buttons to join or decline */
+  private async handleInviteToGroup(
+    chatId: string,
+    ctx: ChatContext,
+    groupName?: string,
+    phone?: string
+  ): Promise<void> {
+    const t = ctx.t.groups;
+
+    const digits = phone?.replace(/\D/g, "");
+    if (!digits || digits.length < 8 || digits.length > 15) {
+      await this.whatsappClient.sendMessage(chatId, t.askPhone);
+      return;
+    }
+
+    const userId = await this.getExpenseUserId(chatId, ctx);
+    if (!userId || !this.expenseGroupService) return;
+
+    try {
+      const group = await this.resolveGroup(chatId, ctx, userId, groupName);
+      if (!group) return;
+
+      const result = await this.expenseGroupService.invite(group, userId, digits);
+      if (result.status === "not_linked") {
+        await this.whatsappClient.sendMessage(chatId, t.notLinked(`+${digits}`));
+        return;
+      }
+      if (result.status === "self") {
+        await this.whatsappClient.sendMessage(chatId, t.inviteSelf);
+        return;
+      }
+      if (result.status === "already_member") {
         await this.whatsappClient.sendMessage(
           chatId,
-          "No pude entender el horario. Intentá de nuevo con 'cambia la tarea N a las Xpm'."
+          t.alreadyMember(memberName(result.invitee), group.name)
         );
+        return;
       }
-    } catch (error) {
-      this.logger.error("Failed to parse modify time from pending task", error);
+
+      await this.sendGroupInvitation(group, userId, result.invitee.chatId, result.invitee.locale);
       await this.whatsappClient.sendMessage(
         chatId,
-        "Hubo un error procesando el horario. Intentá de nuevo."
+        t.invited(memberName(result.invitee), group.name)
       );
+    } catch (error) {
+      this.logger.error(`Failed to invite to expense group for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, t.error);
     }
   }
 
-  private async handleCheckExpenses(
+  private async sendGroupInvitation(
+    group: ExpenseGroupWithMembers,
+    inviterId: string,
+    inviteeChatId: string | null,
+    inviteeLocale: string
+  ): Promise<void> {
+    if (!inviteeChatId) return;
+
+    // The invitation goes out in the invitee's language
+    const t = getMessages(inviteeLocale).groups;
+    const inviter = group.members.find((m) => m.userId === inviterId)?.user;
+    const text = t.invitation(inviter ? memberName(inviter) : "", group.name);
+    try {
+      await this.whatsappClient.sendButtons(
+        inviteeChatId,
+        text,
+        [
+          { id: `${GROUP_JOIN_PREFIX}${group.id}`, text: t.acceptButton },
+          { id: `${GROUP_DECLINE_PREFIX}${group.id}`, text: t.declineButton }
+        ],
+        t.invitationFooter
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Invitation buttons for group ${group.id} failed, sending plain text`,
+        error
+      );
+      await this.whatsappClient.sendMessage(
+        inviteeChatId,
+        `${text}\n\n${t.invitationHint(group.name)}`
+      );
+    }
+  }
+
+  private async handleJoinGroup(
     chatId: string,
-    period: "day" | "week" | "month"
+    ctx: ChatContext,
+    groupName?: string
   ): Promise<void> {
-    if (!this.expenseService || !this.userService) {
+    const userId = await this.getExpenseUserId(chatId, ctx);
+    if (!userId || !this.expenseGroupService) return;
+
+    try {
+      const invitations = await this.expenseGroupService.getInvitations(userId);
+      const group = this.expenseGroupService.findGroup(invitations, groupName);
+      if (!group) {
+        await this.whatsappClient.sendMessage(chatId, ctx.t.groups.noInvitation);
+        return;
+      }
+
+      await this.handleGroupInvitationResponse(chatId, ctx, group.id, true);
+    } catch (error) {
+      this.logger.error(`Failed to join expense group for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, ctx.t.groups.error);
+    }
+  }
+
+  private async handleGroupInvitationResponse(
+    chatId: string,
+    ctx: ChatContext,
+    groupId: string,
+    accept: boolean
+  ): Promise<void> {
+    const t = ctx.t.groups;
+
+    const userId = await this.getExpenseUserId(chatId, ctx);
+    if (!userId || !this.expenseGroupService) return;
+
+    try {
+      const group = accept
+        ? await this.expenseGroupService.acceptInvitation(userId, groupId)
+        : await this.expenseGroupService.declineInvitation(userId, groupId);
+      if (!group) {
+        await this.whatsappClient.sendMessage(chatId, t.noInvitation);
+        return;
+      }
+
       await this.whatsappClient.sendMessage(
         chatId,
-        "La funcion de gastos no esta disponible en este momento."
+        accept ? t.joined(group.name) : t.declined(group.name)
       );
+    } catch (error) {
+      this.logger.error(`Failed to answer group invitation ${groupId} for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, t.error);
+    }
+  }
+
+  /** Marks one of the latest expenses as shared; `position` 1 is the most recent */
+  private async handleShareExpense(
+    chatId: string,
+    ctx: ChatContext,
+    position: number,
+    groupName?: string,
+    sharePercent?: number
+  ): Promise<void> {
+    const userId = await this.getExpenseUserId(chatId, ctx);
+    if (!userId || !this.expenseService) return;
+
+    try {
+      const recent = await this.expenseService.getRecentExpenses(userId, position);
+      const expense = recent[position - 1];
+      if (!expense) {
+        await this.whatsappClient.sendMessage(chatId, ctx.t.groups.noExpense);
+        return;
+      }
+
+      await this.shareInGroup(chatId, ctx, expense, groupName, sharePercent);
+    } catch (error) {
+      this.logger.error(`Failed to share expense ${position} for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, ctx.t.groups.error);
+    }
+  }
+
+  private async shareInGroup(
+    chatId: string,
+    ctx: ChatContext,
+    expense: ExpenseWithCategory,
+    groupName?: string,
+    sharePercent?: number
+  ): Promise<void> {
+    const t = ctx.t.groups;
+    const groupService = this.expenseGroupService;
+
+    if (!groupService) {
+      await this.whatsappClient.sendMessage(chatId, t.unavailable);
+      return;
+    }
+
+    const group = await this.resolveGroup(chatId, ctx, expense.userId, groupName);
+    if (!group) return;
+
+    const result = await groupService.shareExpense(expense, group, sharePercent);
+    if (!result) {
+      await this.whatsappClient.sendMessage(chatId, t.needMembers(group.name));
       return;
     }
 
+    const lines = result.shares.map((s) =>
+      t.shareLine(
+        memberName(s.user),
+        groupService.formatAmount(s.amount, expense.currency, ctx.locale)
+      )
+    );
+    await this.whatsappClient.sendMessage(chatId, t.shared(group.name, lines));
+  }
+
+  private async handleGroupBalance(
+    chatId: string,
+    ctx: ChatContext,
+    groupName?: string
+  ): Promise<void> {
+    const t = ctx.t.groups;
+    const groupService = this.expenseGroupService;
+
+    const userId = await this.getExpenseUserId(chatId, ctx);
+    if (!userId || !groupService) return;
+
     try {
-      const user = await this.userService.getUserByChatId(chatId);
-      if (!user) {
-        await this.whatsappClient.sendMessage(
-          chatId,
-          "No tenes cuenta vinculada. Usa /connect para vincularla."
-        );
+      const group = await this.resolveGroup(chatId, ctx, userId, groupName);
+      if (!group) return;
+
+      const debts = await groupService.getBalances(group.id);
+      if (debts.length === 0) {
+        await this.whatsappClient.sendMessage(chatId, t.even(group.name));
         return;
       }
 
-      let summary;
-      let periodLabel: string;
+      const name = (id: string) => {
+        if (id === userId) return t.you;
+        const user = group.members.find((m) => m.userId === id)?.user;
+        return user ? memberName(user) : "?";
+      };
+      const lines = debts.map((d) =>
+        t.balanceLine(
+          name(d.fromUserId),
+          name(d.toUserId),
+          groupService.formatAmount(d.amount, d.currency, ctx.locale)
+        )
+      );
+      const footer = debts.some((d) => d.fromUserId === userId) ? t.balanceFooter : "";
+      await this.whatsappClient.sendMessage(
+        chatId,
+        `${t.balanceHeader(group.name)}${lines.join("\n")}${footer}`
+      );
+    } catch (error) {
+      this.logger.error(`Failed to get group balance for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, t.error);
+    }
+  }
 
-      const now = new Date();
-      if (period === "day") {
-        const from = new Date(now);
-        from.setHours(0, 0, 0, 0);
-        const to = new Date(now);
-        to.setHours(23, 59, 59, 999);
-        summary = await this.expenseService.getSummaryForDateRange(user.id, from, to);
-        periodLabel = now.toLocaleDateString("es-AR", {
-          timeZone: "America/Argentina/Buenos_Aires",
-          weekday: "long",
-          day: "numeric",
-          month: "long"
-        });
-      } else if (period === "week") {
-        // Start of this week (Monday)
-        const weekStart = new Date(now);
-        const dayOfWeek = weekStart.getDay();
-        const daysToMonday = dayOfWeek === 0 ? 6 : dayOfWeek - 1;
-        weekStart.setDate(weekStart.getDate() - daysToMonday);
-        weekStart.setHours(0, 0, 0, 0);
-        summary = await this.expenseService.getWeeklySummary(user.id, weekStart);
-        const weekEnd = new Date(weekStart);
-        weekEnd.setDate(weekEnd.getDate() + 6);
-        const startStr = weekStart.toLocaleDateString("es-AR", {
-          day: "numeric",
-          month: "short"
-        });
-        const endStr = weekEnd.toLocaleDateString("es-AR", { day: "numeric", month: "short" });
-        periodLabel = `semana del ${startStr} al ${endStr}`;
-      } else {
-        summary = await this.expenseService.getCurrentMonthSummary(user.id);
-        periodLabel = now.toLocaleString("es-AR", {
-          timeZone: "America/Argentina/Buenos_Aires",
-          month: "long",
-          year: "numeric"
-        });
+  /**
+   * Pays the user's largest peso debt in the group through the regular
+   * transfer confirmation; the settlement is recorded once it goes through.
+   */
+  private async handleSettleGroup(
+    chatId: string,
+    ctx: ChatContext,
+    groupName?: string,
+    recipient?: string
+  ): Promise<void> {
+    const t = ctx.t.groups;
+
+    const userId = await this.getExpenseUserId(chatId, ctx);
+    if (!userId || !this.expenseGroupService) return;
+
+    try {
+      const group = await this.resolveGroup(chatId, ctx, userId, groupName);
+      if (!group) return;
+
+      const debts = (await this.expenseGroupService.getBalances(group.id)).filter(
+        (d) => d.fromUserId === userId
+      );
+      if (debts.length === 0) {
+        await this.whatsappClient.sendMessage(chatId, t.nothingToSettle(group.name));
+        return;
       }
 
-      if (summary.transactionCount === 0) {
-        await this.whatsappClient.sendMessage(
-          chatId,
-          "No encontre gastos registrados para este periodo.\n\n" +
-            "Conecto tu Gmail para que pueda analizar tus compras: decime 'conecta mi email'."
-        );
+      // Mercado Pago transfers are in pesos only
+      const debt = debts
+        .filter((d) => d.currency === DEFAULT_EXPENSE_CURRENCY)
+        .sort((a, b) => b.amount - a.amount)[0];
+      if (!debt) {
+        await this.whatsappClient.sendMessage(chatId, t.onlyPesos);
         return;
       }
 
-      if (!this.expenseSummaryService) {
+      const creditor = group.members.find((m) => m.userId === debt.toUserId)?.user;
+      const alias = recipient ?? creditor?.paymentAlias;
+      if (!alias) {
         await this.whatsappClient.sendMessage(
           chatId,
-          "La funcion de resumen de gastos no esta disponible."
+          t.askAlias(creditor ? memberName(creditor) : "")
         );
         return;
       }
 
-      const message = await this.expenseSummaryService.formatSummaryMessage(
-        summary,
-        periodLabel,
-        false
-      );
-
-      await this.whatsappClient.sendMessage(chatId, message);
-      await this.whatsappClient.sendMessage(
+      await this.handleSendMoney(
         chatId,
-        "Queres consejos personalizados basados en tus gastos? Decime *dame consejos de ahorro*."
+        ctx,
+        alias,
+        debt.amount,
+        t.settleDescription(group.name),
+        null,
+        { groupId: group.id, toUserId: debt.toUserId, currency: debt.currency }
       );
     } catch (error) {
-      this.logger.error(`Failed to check expenses for ${chatId}`, error);
+      this.logger.error(`Failed to settle expense group for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, t.error);
+    }
+  }
+
+  private async handleSetPaymentAlias(
+    chatId: string,
+    ctx: ChatContext,
+    alias?: string
+  ): Promise<void> {
+    const t = ctx.t.groups;
+
+    if (!this.userService) {
+      await this.whatsappClient.sendMessage(chatId, t.unavailable);
+      return;
+    }
+    if (!alias?.trim()) {
+      await this.whatsappClient.sendMessage(chatId, t.aliasMissing);
+      return;
+    }
+
+    try {
+      await this.userService.updatePaymentAlias(chatId, alias.trim());
+      await this.whatsappClient.sendMessage(chatId, t.aliasSet(alias.trim()));
+    } catch (error) {
+      this.logger.error(`Failed to update payment alias for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, t.error);
+    }
+  }
+
+  /**
+   * The user's group by name, or their only one; tells the user why when
+   * there is none to pick
+   */
+  private async resolveGroup(
+    chatId: string,
+    ctx: ChatContext,
+    userId: string,
+    name?: string
+  ): Promise<ExpenseGroupWithMembers | null> {
+    const t = ctx.t.groups;
+    if (!this.expenseGroupService) return null;
+
+    const groups = await this.expenseGroupService.getGroups(userId);
+    if (groups.length === 0) {
+      await this.whatsappClient.sendMessage(chatId, t.noGroups);
+      return null;
+    }
+
+    const group = this.expenseGroupService.findGroup(groups, name);
+    if (!group) {
       await this.whatsappClient.sendMessage(
         chatId,
-        "Hubo un error consultando tus gastos. Intentá de nuevo más tarde."
+        name ? t.notFound(name) : t.pickGroup(groups.map((g) => g.name).join(", "))
       );
     }
+    return group;
+  }
+
+  private categoryList(ctx: ChatContext): string {
+    return EXPENSE_CATEGORIES.map((c) => ctx.t.expenses.categories[c] ?? c).join(", ");
+  }
+
+  /**
+   * User id for expense commands, created on first use: tracking expenses
+   * doesn't need a linked web account or mailbox
+   */
+  private async getExpenseUserId(chatId: string, ctx: ChatContext): Promise<string | null> {
+    if (!this.expenseService || !this.userService) {
+      await this.whatsappClient.sendMessage(chatId, ctx.t.expenses.unavailable);
+      return null;
+    }
+
+    const user = await this.userService.getOrCreateUser(chatId);
+    return user.id;
+  }
+
+  /** Rows saved before currency codes were validated may hold codes Intl rejects */
+  private formatMoney(amount: number, currency: string, ctx: ChatContext): string {
+    const intlLocale = toIntlLocale(ctx.locale);
+    try {
+      return amount.toLocaleString(intlLocale, { style: "currency", currency });
+    } catch {
+      return `${amount.toLocaleString(intlLocale)} ${currency}`;
+    }
+  }
+
+  private formatExpenseLine(expense: ExpenseWithCategory, ctx: ChatContext): string {
+    const intlLocale = toIntlLocale(ctx.locale);
+    const amount = this.formatMoney(Number(expense.amount), expense.currency, ctx);
+    const date = expense.date.toLocaleDateString(intlLocale, {
+      timeZone: ctx.timezone,
+      day: "numeric",
+      month: "short"
+    });
+
+    return ctx.t.expenses.manual.line(
+      amount,
+      expense.merchant,
+      expense.customCategory?.name ??
+        ctx.t.expenses.categories[expense.category] ??
+        expense.category,
+      date,
+      expense.tags
+    );
+  }
+
+  private formatIncomeLine(income: Income, ctx: ChatContext): string {
+    const intlLocale = toIntlLocale(ctx.locale);
+    const amount = this.formatMoney(Number(income.amount), income.currency, ctx);
+    const date = income.date.toLocaleDateString(intlLocale, {
+      timeZone: ctx.timezone,
+      day: "numeric",
+      month: "short"
+    });
+
+    return ctx.t.income.line(
+      amount,
+      income.source,
+      ctx.t.income.categories[income.category] ?? income.category,
+      date
+    );
+  }
+
+  /** The month's cash flow when the user logs income, so advice can weigh savings */
+  private async getAdviceCashFlow(
+    userId: string,
+    year: number,
+    month: number,
+    timezone: string
+  ): Promise<CashFlowReport | null> {
+    if (!this.cashFlowService) return null;
+    const report = await this.cashFlowService.getReport(userId, year, month, timezone);
+    return this.cashFlowService.hasIncome(report) ? report : null;
   }
 
-  private async handleFinancialAdvice(chatId: string): Promise<void> {
+  private async handleFinancialAdvice(chatId: string, ctx: ChatContext): Promise<void> {
+    const { t, timezone } = ctx;
+
     if (!this.financialAdviceService || !this.expenseService || !this.userService) {
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "La funcion de consejos financieros no esta disponible en este momento."
-      );
+      await this.whatsappClient.sendMessage(chatId, t.advice.unavailable);
       return;
     }
 
     try {
       const user = await this.userService.getUserByChatId(chatId);
       if (!user) {
-        await this.whatsappClient.sendMessage(
-          chatId,
-          "No tenes cuenta vinculada. Usa /connect para vincularla."
-        );
+        await this.whatsappClient.sendMessage(chatId, ctx.t.common.noLinkedAccountConnect);
         return;
       }
 
       // Use last month for advice (more complete data)
-      const summary = await this.expenseService.getLastMonthSummary(user.id);
+      const summary = await this.expenseService.getLastMonthSummary(user.id, timezone);
 
       if (summary.transactionCount === 0) {
         // Try current month as fallback
-        const currentSummary = await this.expenseService.getCurrentMonthSummary(user.id);
+        const currentSummary = await this.expenseService.getCurrentMonthSummary(user.id, timezone);
         if (currentSummary.transactionCount === 0) {
-          await this.whatsappClient.sendMessage(
-            chatId,
-            "No tengo suficientes datos de gastos para generar consejos personalizados.\n\n" +
-              "Conecta tu Gmail para que pueda analizar tus compras: decime 'conecta mi email'."
-          );
+          await this.whatsappClient.sendMessage(chatId, t.advice.noData);
           return;
         }
 
         const now = new Date();
-        const periodLabel = now.toLocaleString("es-AR", {
-          timeZone: "America/Argentina/Buenos_Aires",
+        const periodLabel = now.toLocaleString(toIntlLocale(ctx.locale), {
+          timeZone: timezone,
           month: "long",
           year: "numeric"
         });
+        const local = getZonedParts(now, timezone);
         const advice = await this.financialAdviceService.generateAdvice(
           currentSummary,
-          periodLabel
+          periodLabel,
+          ctx.locale,
+          await this.getAdviceCashFlow(user.id, local.year, local.month, timezone)
         );
-        await this.whatsappClient.sendMessage(chatId, `💡 *Consejos financieros:*\n\n${advice}`);
+        await this.whatsappClient.sendMessage(chatId, t.advice.result(advice));
         return;
       }
 
-      const now = new Date();
-      let year = now.getFullYear();
-      let month = now.getMonth();
+      const now = getZonedParts(new Date(), timezone);
+      let year = now.year;
+      let month = now.month - 1;
       if (month === 0) {
         month = 12;
         year--;
       }
-      const periodLabel = new Date(year, month - 1, 1).toLocaleString("es-AR", {
-        month: "long",
-        year: "numeric"
-      });
+      const periodLabel = zonedTimeToUtc({ year, month, day: 1 }, timezone).toLocaleString(
+        toIntlLocale(ctx.locale),
+        {
+          timeZone: timezone,
+          month: "long",
+          year: "numeric"
+        }
+      );
 
-      await this.whatsappClient.sendMessage(chatId, "Analizando tus gastos... 📊");
-      const advice = await this.financialAdviceService.generateAdvice(summary, periodLabel);
-      await this.whatsappClient.sendMessage(chatId, `💡 *Consejos financieros:*\n\n${advice}`);
+      await this.whatsappClient.sendMessage(chatId, t.advice.analyzing);
+      const advice = await this.financialAdviceService.generateAdvice(
+        summary,
+        periodLabel,
+        ctx.locale,
+        await this.getAdviceCashFlow(user.id, year, month, timezone)
+      );
+      await this.whatsappClient.sendMessage(chatId, t.advice.result(advice));
     } catch (error) {
       this.logger.error(`Failed to generate financial advice for ${chatId}`, error);
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "Hubo un error generando los consejos. Intentá de nuevo más tarde."
-      );
+      await this.whatsappClient.sendMessage(chatId, t.advice.error);
     }
   }
 
-  private async handleCheckDollar(chatId: string): Promise<void> {
+  private async handleCheckDollar(chatId: string, ctx: ChatContext): Promise<void> {
     if (!this.dollarService) {
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "La funcion de cotizacion no esta disponible en este momento."
-      );
+      await this.whatsappClient.sendMessage(chatId, ctx.t.dollar.unavailable);
       return;
     }
 
     try {
-      await this.whatsappClient.sendMessage(chatId, "Consultando cotizacion... 💵");
+      await this.whatsappClient.sendMessage(chatId, ctx.t.dollar.fetching);
       const rates = await this.dollarService.getRates();
-      await this.whatsappClient.sendMessage(chatId, this.dollarService.formatMessage(rates));
-    } catch (error) {
-      this.logger.error(`Failed to fetch dollar rates for ${chatId}`, error);
       await this.whatsappClient.sendMessage(
         chatId,
-        "No pude obtener la cotizacion en este momento. Intentá de nuevo más tarde."
+        this.dollarService.formatMessage(rates, ctx.timezone, ctx.locale)
       );
+    } catch (error) {
+      this.logger.error(`Failed to fetch dollar rates for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, ctx.t.dollar.error);
     }
   }
 
-  private async handleGetNews(chatId: string, query?: string, category?: string): Promise<void> {
+  private async handleGetNews(
+    chatId: string,
+    ctx: ChatContext,
+    query?: string,
+    category?: string
+  ): Promise<void> {
     if (!this.newsService) {
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "La funcion de noticias no esta configurada. Se necesita una NEWS_API_KEY."
-      );
+      await this.whatsappClient.sendMessage(chatId, ctx.t.news.notConfigured);
       return;
     }
 
     try {
-      await this.whatsappClient.sendMessage(chatId, "Buscando noticias... 📰");
+      await this.whatsappClient.sendMessage(chatId, ctx.t.news.fetching);
       const articles = await this.newsService.getTopHeadlines({
         query: query || undefined,
         category: (category as NewsCategory) || undefined
       });
       await this.whatsappClient.sendMessage(
         chatId,
-        this.newsService.formatMessage(articles, query || undefined)
+        this.newsService.formatMessage(articles, query || undefined, ctx.locale)
       );
     } catch (error) {
       this.logger.error(`Failed to fetch news for ${chatId}`, error);
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "No pude obtener las noticias en este momento. Intentá de nuevo más tarde."
-      );
+      await this.whatsappClient.sendMessage(chatId, ctx.t.news.error);
     }
   }
 
-  private async handleCheckCrypto(chatId: string, coins?: string[]): Promise<void> {
+  private async handleCheckCrypto(
+    chatId: string,
+    ctx: ChatContext,
+    coins?: string[]
+  ): Promise<void> {
     if (!this.cryptoService) {
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "La funcion de cripto no esta disponible en este momento."
-      );
+      await this.whatsappClient.sendMessage(chatId, ctx.t.crypto.unavailable);
       return;
     }
 
     try {
-      await this.whatsappClient.sendMessage(chatId, "Consultando precios cripto... 🪙");
+      await this.whatsappClient.sendMessage(chatId, ctx.t.crypto.fetching);
       const prices = await this.cryptoService.getPrices(coins);
-      await this.whatsappClient.sendMessage(chatId, this.cryptoService.formatMessage(prices));
-    } catch (error) {
-      this.logger.error(`Failed to fetch crypto prices for ${chatId}`, error);
       await this.whatsappClient.sendMessage(
         chatId,
-        "No pude obtener los precios en este momento. Intentá de nuevo más tarde."
+        this.cryptoService.formatMessage(prices, ctx.locale)
       );
+    } catch (error) {
+      this.logger.error(`Failed to fetch crypto prices for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, ctx.t.crypto.error);
     }
   }
 
   private async handleGetDirections(
     chatId: string,
+    ctx: ChatContext,
     origin?: string,
     destination?: string,
     mode?: TravelMode
   ): Promise<void> {
     if (!this.mapsService) {
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "La funcion de mapas no esta configurada. Se necesita una ORS_API_KEY (openrouteservice.org)."
-      );
+      await this.whatsappClient.sendMessage(chatId, ctx.t.directions.notConfigured);
       return;
     }
 
     if (!destination) {
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "Decime adonde querés ir. Ej: 'cómo llego a Recoleta'"
-      );
+      await this.whatsappClient.sendMessage(chatId, ctx.t.directions.askDestination);
       return;
     }
 
     try {
-      await this.whatsappClient.sendMessage(chatId, "Buscando la ruta... 🗺️");
+      await this.whatsappClient.sendMessage(chatId, ctx.t.directions.searching);
 
       let route;
-      const savedLocation = this.getSavedLocation(chatId);
+      const savedLocation = await this.conversationState.get(chatId, "location");
 
       if (!origin && savedLocation) {
         route = await this.mapsService.getDirectionsFromCoords(
           savedLocation,
           destination,
-          mode ?? "transit"
+          mode ?? "transit",
+          ctx.locale
         );
       } else if (origin) {
-        route = await this.mapsService.getDirections(origin, destination, mode ?? "transit");
-      } else {
-        await this.whatsappClient.sendMessage(
-          chatId,
-          "Decime de dónde salís o compartí tu ubicación 📍 y luego pedime las indicaciones."
+        route = await this.mapsService.getDirections(
+          origin,
+          destination,
+          mode ?? "transit",
+          ctx.locale
         );
+      } else {
+        await this.whatsappClient.sendMessage(chatId, ctx.t.directions.askOrigin);
         return;
       }
 
-      await this.whatsappClient.sendMessage(chatId, this.mapsService.formatMessage(route));
+      await this.whatsappClient.sendMessage(
+        chatId,
+        this.mapsService.formatMessage(route, ctx.locale)
+      );
     } catch (error) {
       this.logger.error(`Failed to get directions for ${chatId}`, error);
       const msg =
@@ -2071,66 +3911,49 @@ ${privacyLine}`
           ? String((error as { message: string }).message)
           : "";
       if (msg.includes("No se encontró ruta") || msg.includes("No se encontró la dirección")) {
-        await this.whatsappClient.sendMessage(
-          chatId,
-          "No encontré una ruta entre esos puntos. Verificá las ubicaciones e intentalo de nuevo."
-        );
+        await this.whatsappClient.sendMessage(chatId, ctx.t.directions.noRoute);
       } else {
-        await this.whatsappClient.sendMessage(
-          chatId,
-          "No pude obtener las indicaciones en este momento. Intentá de nuevo más tarde."
-        );
+        await this.whatsappClient.sendMessage(chatId, ctx.t.directions.error);
       }
     }
   }
 
   private async handleSendMoney(
     chatId: string,
+    ctx: ChatContext,
     recipient?: string | null,
     amount?: number | null,
     description?: string | null,
-    scheduledAt?: string | null
+    scheduledAt?: string | null,
+    settlement?: PendingTransferState["settlement"]
   ): Promise<void> {
+    const { t } = ctx;
+
     if (!this.meliTransferService || !this.userService || !this.meliAuthService) {
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "La función de transferencias no está disponible. Necesitás conectar tu cuenta de Mercado Pago."
-      );
+      await this.whatsappClient.sendMessage(chatId, t.transfers.unavailable);
       return;
     }
 
     if (!amount || amount <= 0) {
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "Decime el monto a transferir. Ej: _'pagale 5000 pesos al alias gonzalez.mp'_"
-      );
+      await this.whatsappClient.sendMessage(chatId, t.transfers.askAmount);
       return;
     }
 
     if (!recipient) {
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "Decime el alias, CVU o CBU del destinatario. Ej: _'pagale 5000 a gonzalez.mp'_"
-      );
+      await this.whatsappClient.sendMessage(chatId, t.transfers.askRecipient);
       return;
     }
 
     try {
       const user = await this.userService.getUserByChatId(chatId);
       if (!user) {
-        await this.whatsappClient.sendMessage(
-          chatId,
-          "No tenés cuenta vinculada. Usá /connect para vincularla."
-        );
+        await this.whatsappClient.sendMessage(chatId, t.transfers.noLinkedAccount);
         return;
       }
 
       const isLinked = await this.meliAuthService.isAuthenticated(user.id);
       if (!isLinked) {
-        await this.whatsappClient.sendMessage(
-          chatId,
-          "No tenés Mercado Pago conectado. Decime _'conecta mi mercado libre'_ para vincularlo."
-        );
+        await this.whatsappClient.sendMessage(chatId, t.transfers.notLinked);
         return;
       }
 
@@ -2143,65 +3966,87 @@ ${privacyLine}`
         }
       }
 
-      const amountStr = amount.toLocaleString("es-AR", { minimumFractionDigits: 2 });
-      const descLine = description ? `\n📝 *Descripción:* ${description}` : "";
-
-      let confirmMsg =
-        `💸 *Confirmación de transferencia*\n\n` +
-        `💰 *Monto:* $${amountStr}\n` +
-        `👤 *Destinatario:* ${recipient}${descLine}`;
-
-      if (scheduledDate) {
-        const dateStr = scheduledDate.toLocaleString("es-AR", {
-          timeZone: "America/Argentina/Buenos_Aires",
+      const intlLocale = toIntlLocale(ctx.locale);
+      const confirmMsg = t.transfers.confirm({
+        amount: amount.toLocaleString(intlLocale, { minimumFractionDigits: 2 }),
+        recipient,
+        description: description ?? undefined,
+        scheduledAt: scheduledDate?.toLocaleString(intlLocale, {
+          timeZone: ctx.timezone,
           weekday: "long",
           day: "numeric",
           month: "long",
           hour: "2-digit",
           minute: "2-digit"
-        });
-        confirmMsg += `\n🕐 *Programada para:* ${dateStr}`;
-      }
-
-      confirmMsg += `\n\n_Respondé *confirmar* para ejecutar o *cancelar* para descartar._`;
+        })
+      });
 
       await this.whatsappClient.sendMessage(chatId, confirmMsg);
 
-      this.pendingTransfers.set(chatId, {
+      await this.conversationState.set(chatId, "pendingTransfer", {
         userId: user.id,
         recipient,
         amount,
         description: description ?? undefined,
-        scheduledAt: scheduledDate
+        scheduledAt: scheduledDate?.toISOString(),
+        settlement
       });
     } catch (error) {
       this.logger.error(`Failed to prepare transfer for ${chatId}`, error);
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "Hubo un error preparando la transferencia. Intentá de nuevo más tarde."
-      );
+      await this.whatsappClient.sendMessage(chatId, t.transfers.prepareError);
     }
   }
 
-  private async handlePendingTransferResponse(chatId: string, text: string): Promise<void> {
-    const pending = this.pendingTransfers.get(chatId);
-    if (!pending) return;
-
+  private async handlePendingTransferResponse(
+    chatId: string,
+    text: string,
+    pending: PendingTransferState,
+    ctx: ChatContext
+  ): Promise<void> {
     const normalized = text.trim().toLowerCase();
 
+    await this.conversationState.clear(chatId, "pendingTransfer");
+
     if (!["confirmar", "confirm", "si", "sí", "yes"].includes(normalized)) {
-      this.pendingTransfers.delete(chatId);
-      await this.whatsappClient.sendMessage(chatId, "Transferencia cancelada. ❌");
+      await this.whatsappClient.sendMessage(chatId, ctx.t.transfers.cancelled);
+      return;
+    }
+
+    // Scheduled transfer (persisted, executed by the scheduler)
+    const scheduledAt = pending.scheduledAt ? new Date(pending.scheduledAt) : null;
+    if (scheduledAt && scheduledAt > new Date()) {
+      await this.scheduleTransfer(chatId, pending, scheduledAt, ctx);
+      return;
+    }
+
+    // Immediate transfer
+    await this.executeTransfer(chatId, pending, ctx);
+  }
+
+  private async scheduleTransfer(
+    chatId: string,
+    pending: PendingTransferState,
+    scheduledAt: Date,
+    ctx: ChatContext
+  ): Promise<void> {
+    if (!this.scheduledPaymentService) {
+      await this.whatsappClient.sendMessage(chatId, ctx.t.transfers.scheduledUnavailable);
       return;
     }
 
-    this.pendingTransfers.delete(chatId);
+    try {
+      await this.scheduledPaymentService.createScheduledTransfer({
+        chatId,
+        userId: pending.userId,
+        recipient: pending.recipient,
+        amount: pending.amount,
+        description: pending.description,
+        scheduledAt
+      });
 
-    // Scheduled transfer
-    if (pending.scheduledAt && pending.scheduledAt > new Date()) {
-      const delay = pending.scheduledAt.getTime() - Date.now();
-      const dateStr = pending.scheduledAt.toLocaleString("es-AR", {
-        timeZone: "America/Argentina/Buenos_Aires",
+      const intlLocale = toIntlLocale(ctx.locale);
+      const dateStr = scheduledAt.toLocaleString(intlLocale, {
+        timeZone: ctx.timezone,
         weekday: "long",
         day: "numeric",
         month: "long",
@@ -2209,30 +4054,28 @@ ${privacyLine}`
         minute: "2-digit"
       });
 
-      const timer = setTimeout(async () => {
-        this.scheduledTransfers.delete(chatId);
-        await this.executeTransfer(chatId, pending);
-      }, delay);
-
-      this.scheduledTransfers.set(chatId, timer);
-
       await this.whatsappClient.sendMessage(
         chatId,
-        `✅ *Transferencia programada*\n\n` +
-          `Se va a ejecutar el ${dateStr}.\n` +
-          `Monto: $${pending.amount.toLocaleString("es-AR")} → ${pending.recipient}`
+        ctx.t.transfers.scheduled(
+          dateStr,
+          pending.amount.toLocaleString(intlLocale),
+          pending.recipient
+        )
       );
-      return;
+    } catch (error) {
+      this.logger.error(`Failed to schedule transfer for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, ctx.t.transfers.scheduleError);
     }
-
-    // Immediate transfer
-    await this.executeTransfer(chatId, pending);
   }
 
-  private async executeTransfer(chatId: string, pending: PendingTransfer): Promise<void> {
+  private async executeTransfer(
+    chatId: string,
+    pending: PendingTransferState,
+    ctx: ChatContext
+  ): Promise<void> {
     if (!this.meliTransferService) return;
 
-    await this.whatsappClient.sendMessage(chatId, "Procesando transferencia... ⏳");
+    await this.whatsappClient.sendMessage(chatId, ctx.t.transfers.processing);
 
     try {
       const result = await this.meliTransferService.sendTransfer(pending.userId, {
@@ -2242,30 +4085,55 @@ ${privacyLine}`
       });
 
       if (result.success) {
-        const amountStr = pending.amount.toLocaleString("es-AR", { minimumFractionDigits: 2 });
+        const amountStr = pending.amount.toLocaleString(toIntlLocale(ctx.locale), {
+          minimumFractionDigits: 2
+        });
         await this.whatsappClient.sendMessage(
           chatId,
-          `✅ *Transferencia exitosa!*\n\n` +
-            `💰 $${amountStr} enviados a *${pending.recipient}*\n` +
-            (result.transactionId ? `🔖 ID: ${result.transactionId}` : "")
+          ctx.t.transfers.success(amountStr, pending.recipient, result.transactionId)
         );
+        if (pending.settlement) await this.recordGroupSettlement(chatId, pending, ctx);
       } else {
-        await this.whatsappClient.sendMessage(
-          chatId,
-          `❌ *Error en la transferencia*\n\n${result.message}\n\n` +
-            `Verificá que tenés saldo suficiente y que el alias/CVU es correcto.`
-        );
+        await this.whatsappClient.sendMessage(chatId, ctx.t.transfers.failed(result.message));
       }
     } catch (error) {
       this.logger.error(`Failed to execute transfer for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, ctx.t.transfers.executeError);
+    }
+  }
+
+  private async recordGroupSettlement(
+    chatId: string,
+    pending: PendingTransferState,
+    ctx: ChatContext
+  ): Promise<void> {
+    if (!pending.settlement || !this.expenseGroupService) return;
+    const { groupId, toUserId, currency } = pending.settlement;
+
+    try {
+      const group = await this.expenseGroupService.getGroup(groupId);
+      if (!group) return;
+
+      await this.expenseGroupService.recordSettlement(group, {
+        fromUserId: pending.userId,
+        toUserId,
+        currency,
+        amount: pending.amount
+      });
+      const creditor = group.members.find((m) => m.userId === toUserId)?.user;
       await this.whatsappClient.sendMessage(
         chatId,
-        "Hubo un error ejecutando la transferencia. Verificá tu saldo e intentá de nuevo."
+        ctx.t.groups.settlementRecorded(
+          creditor ? memberName(creditor) : pending.recipient,
+          this.expenseGroupService.formatAmount(pending.amount, currency, ctx.locale)
+        )
       );
+    } catch (error) {
+      this.logger.error(`Failed to record settlement in group ${groupId} for ${chatId}`, error);
     }
   }
 
-  private async handleLocationMessage(message: MessageContent): Promise<void> {
+  private async handleLocationMessage(message: MessageContent, ctx: ChatContext): Promise<void> {
     const { chatId, latitude, longitude, locationName } = message;
 
     if (latitude == null || longitude == null) return;
@@ -2273,38 +4141,39 @@ ${privacyLine}`
     const coords: Coordinates = {
       lat: latitude,
       lon: longitude,
-      label: locationName ?? "Tu ubicación"
+      label: locationName ?? ctx.t.location.defaultLabel
     };
-    this.userLocations.set(chatId, { coords, savedAt: new Date() });
+    await this.conversationState.set(chatId, "location", coords);
 
     this.logger.info(`Location saved for ${chatId}: ${latitude},${longitude}`);
 
-    await this.whatsappClient.sendMessage(
-      chatId,
-      `📍 *Ubicación guardada!*\n\n` +
-        (locationName ? `*Lugar:* ${locationName}\n\n` : "") +
-        `Ahora podés pedirme indicaciones sin especificar el origen. Ej:\n` +
-        `_"¿Cómo llego a Recoleta?"_\n` +
-        `_"¿Cuánto tarda a Constitución caminando?"_\n\n` +
-        `⏳ La ubicación se recuerda por 30 minutos.`
-    );
+    await this.whatsappClient.sendMessage(chatId, ctx.t.location.saved(locationName));
+
+    await this.updateTimezoneFromLocation(chatId, latitude, longitude, ctx);
   }
 
-  private getSavedLocation(chatId: string): Coordinates | null {
-    const entry = this.userLocations.get(chatId);
-    if (!entry) return null;
+  private async updateTimezoneFromLocation(
+    chatId: string,
+    lat: number,
+    lon: number,
+    ctx: ChatContext
+  ): Promise<void> {
+    if (!this.timezoneService || !this.userService) return;
 
-    const ageMs = Date.now() - entry.savedAt.getTime();
-    if (ageMs > 30 * 60 * 1000) {
-      this.userLocations.delete(chatId);
-      return null;
-    }
+    try {
+      const timezone = await this.timezoneService.resolveFromCoordinates(lat, lon);
+      if (!timezone || timezone === ctx.timezone) return;
 
-    return entry.coords;
+      await this.userService.updateTimezone(chatId, timezone);
+      await this.whatsappClient.sendMessage(chatId, this.buildTimezoneMessage(timezone, ctx));
+    } catch (error) {
+      this.logger.error(`Failed to update timezone from location for ${chatId}`, error);
+    }
   }
 
   private async handleSchedulePayment(
     chatId: string,
+    ctx: ChatContext,
     alias?: string | null,
     amount?: number | null,
     description?: string | null,
@@ -2313,35 +4182,25 @@ ${privacyLine}`
     time?: string | null,
     totalCount?: number | null
   ): Promise<void> {
+    const { t, timezone } = ctx;
+
     if (!this.scheduledPaymentService) {
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "La función de pagos programados no está disponible en este momento."
-      );
+      await this.whatsappClient.sendMessage(chatId, t.payments.unavailable);
       return;
     }
 
     if (!amount || amount <= 0) {
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "Decime el monto a pagar. Ej: _'pagale 5000 todos los lunes al alias gonzalez.mp'_"
-      );
+      await this.whatsappClient.sendMessage(chatId, t.payments.askAmount);
       return;
     }
 
     if (!alias) {
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "Decime el alias, CVU o CBU del destinatario. Ej: _'pagale 5000 mensual a gonzalez.mp'_"
-      );
+      await this.whatsappClient.sendMessage(chatId, t.payments.askRecipient);
       return;
     }
 
     if (!recurrence || recurrence === "NONE") {
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "Decime cada cuánto: 'todos los lunes', 'mensual', 'todos los días'. Ej: _'pagale 5000 todos los lunes a gonzalez.mp'_"
-      );
+      await this.whatsappClient.sendMessage(chatId, t.payments.askRecurrence);
       return;
     }
 
@@ -2354,12 +4213,13 @@ ${privacyLine}`
         recurrence: recurrence as "DAILY" | "WEEKLY" | "MONTHLY",
         recurrenceDay: day ?? undefined,
         recurrenceTime: time ?? undefined,
-        totalPayments: totalCount ?? undefined
+        totalPayments: totalCount ?? undefined,
+        timezone
       });
 
-      const amountStr = amount.toLocaleString("es-AR", { minimumFractionDigits: 2 });
-      const nextDate = schedule.nextPaymentAt.toLocaleString("es-AR", {
-        timeZone: "America/Argentina/Buenos_Aires",
+      const intlLocale = toIntlLocale(ctx.locale);
+      const nextDate = schedule.nextPaymentAt.toLocaleString(intlLocale, {
+        timeZone: timezone,
         weekday: "long",
         day: "numeric",
         month: "long",
@@ -2367,40 +4227,28 @@ ${privacyLine}`
         minute: "2-digit"
       });
 
-      const recurrenceLabels: Record<string, string> = {
-        DAILY: "Todos los días",
-        WEEKLY: "Semanal",
-        MONTHLY: "Mensual"
-      };
-      const recurrenceLabel = recurrenceLabels[recurrence] ?? recurrence;
-
-      let msg = `✅ *Pago programado creado!*\n\n`;
-      msg += `💰 *Monto:* $${amountStr}\n`;
-      msg += `👤 *Destinatario:* ${alias}\n`;
-      if (description) msg += `📝 *Descripción:* ${description}\n`;
-      msg += `🔁 *Frecuencia:* ${recurrenceLabel}\n`;
-      if (totalCount) msg += `📊 *Total de pagos:* ${totalCount}\n`;
-      msg += `\n📅 *Primer recordatorio:* ${nextDate}\n\n`;
-      msg += `_Cuando llegue la fecha te mando un mensaje con el link para pagar con un tap en Mercado Pago._\n`;
-      msg += `_Para ver tus pagos: "mis pagos programados"_`;
+      const msg = t.payments.created({
+        amount: amount.toLocaleString(intlLocale, { minimumFractionDigits: 2 }),
+        recipient: alias,
+        description: description ?? undefined,
+        recurrence: t.payments.recurrence[recurrence] ?? recurrence,
+        totalCount: totalCount ?? undefined,
+        nextDate
+      });
 
       await this.whatsappClient.sendMessage(chatId, msg);
       this.logger.info(`Scheduled payment created: ${schedule.id} for ${chatId}`);
     } catch (error) {
       this.logger.error(`Failed to create scheduled payment for ${chatId}`, error);
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "Hubo un error creando el pago programado. Intentá de nuevo más tarde."
-      );
+      await this.whatsappClient.sendMessage(chatId, t.payments.createError);
     }
   }
 
-  private async handleListScheduledPayments(chatId: string): Promise<void> {
+  private async handleListScheduledPayments(chatId: string, ctx: ChatContext): Promise<void> {
+    const { t } = ctx;
+
     if (!this.scheduledPaymentService) {
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "La función de pagos programados no está disponible en este momento."
-      );
+      await this.whatsappClient.sendMessage(chatId, t.payments.unavailable);
       return;
     }
 
@@ -2408,22 +4256,18 @@ ${privacyLine}`
       const schedules = await this.scheduledPaymentService.getActiveSchedules(chatId);
 
       if (schedules.length === 0) {
-        await this.whatsappClient.sendMessage(
-          chatId,
-          "No tenés pagos programados activos.\n\n_Para crear uno: 'pagale 5000 todos los lunes a gonzalez.mp'_"
-        );
+        await this.whatsappClient.sendMessage(chatId, t.payments.listEmpty);
         return;
       }
 
-      const DAYS = ["dom", "lun", "mar", "mié", "jue", "vie", "sáb"];
-
-      let msg = `💸 *Tus pagos programados:*\n\n`;
+      const intlLocale = toIntlLocale(ctx.locale);
+      let msg = t.payments.listHeader;
 
       schedules.forEach((s, idx) => {
         const amount = Number(s.amount);
-        const amountStr = amount.toLocaleString("es-AR", { minimumFractionDigits: 2 });
-        const nextDate = s.nextPaymentAt.toLocaleString("es-AR", {
-          timeZone: "America/Argentina/Buenos_Aires",
+        const amountStr = amount.toLocaleString(intlLocale, { minimumFractionDigits: 2 });
+        const nextDate = s.nextPaymentAt.toLocaleString(intlLocale, {
+          timeZone: ctx.timezone,
           day: "numeric",
           month: "short",
           hour: "2-digit",
@@ -2431,89 +4275,86 @@ ${privacyLine}`
         });
 
         let freq = "";
-        if (s.recurrence === "DAILY") freq = "Todos los días";
+        if (s.mode === "TRANSFER" && s.recurrence === "NONE") freq = t.payments.frequency.transfer;
+        else if (s.recurrence === "NONE") freq = t.payments.frequency.once;
+        else if (s.recurrence === "DAILY") freq = t.payments.frequency.daily;
         else if (s.recurrence === "WEEKLY" && s.recurrenceDay !== null)
-          freq = `Todos los ${DAYS[s.recurrenceDay]}`;
-        else if (s.recurrence === "MONTHLY") freq = "Mensual";
+          freq = t.payments.frequency.weekly(t.payments.weekdaysShort[s.recurrenceDay]);
+        else if (s.recurrence === "MONTHLY") freq = t.payments.frequency.monthly;
 
         const progress = s.totalPayments ? ` (${s.paidCount}/${s.totalPayments})` : "";
 
         msg += `*${idx + 1}.* $${amountStr} → ${s.recipient}\n`;
         msg += `   🔁 ${freq}${progress}\n`;
         if (s.description) msg += `   📝 ${s.description}\n`;
-        msg += `   📅 Próx: ${nextDate}\n\n`;
+        msg += `   📅 ${t.payments.next(nextDate)}\n\n`;
       });
 
-      msg += `_Para cancelar: "cancela el pago recurrente 1"_`;
+      msg += t.payments.listFooter;
 
       await this.whatsappClient.sendMessage(chatId, msg);
     } catch (error) {
       this.logger.error(`Failed to list scheduled payments for ${chatId}`, error);
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "Hubo un error consultando tus pagos. Intentá de nuevo más tarde."
-      );
+      await this.whatsappClient.sendMessage(chatId, t.payments.listError);
     }
   }
 
-  private async handleCancelScheduledPayment(chatId: string, index?: number | null): Promise<void> {
+  private async handleCancelScheduledPayment(
+    chatId: string,
+    ctx: ChatContext,
+    index?: number | null
+  ): Promise<void> {
+    const { t } = ctx;
+
     if (!this.scheduledPaymentService) {
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "La función de pagos programados no está disponible en este momento."
-      );
+      await this.whatsappClient.sendMessage(chatId, t.payments.unavailable);
       return;
     }
 
     if (!index) {
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "Decime el número de pago a cancelar. Ej: _'cancela el pago recurrente 1'_"
-      );
+      await this.whatsappClient.sendMessage(chatId, t.payments.cancelAskIndex);
       return;
     }
 
     try {
-      const cancelled = await this.scheduledPaymentService.cancelByIndex(chatId, index);
+      const result = await this.scheduledPaymentService.cancelByIndex(chatId, index);
 
-      if (!cancelled) {
+      if (!result) {
         const schedules = await this.scheduledPaymentService.getActiveSchedules(chatId);
+        await this.whatsappClient.sendMessage(chatId, t.payments.notFound(index, schedules.length));
+        return;
+      }
+
+      const { payment, cancelled } = result;
+      const amount = Number(payment.amount).toLocaleString(toIntlLocale(ctx.locale));
+      if (!cancelled) {
         await this.whatsappClient.sendMessage(
           chatId,
-          `No existe el pago programado ${index} 🤔 Tenés ${schedules.length} pago(s) activo(s).`
+          t.payments.cancelTooLate(amount, payment.recipient)
         );
         return;
       }
 
-      const amount = Number(cancelled.amount);
       await this.whatsappClient.sendMessage(
         chatId,
-        `✅ Pago programado cancelado!\n\n` +
-          `$${amount.toLocaleString("es-AR")} → ${cancelled.recipient} ❌\n\n` +
-          `_Ya no se van a enviar más recordatorios de este pago._`
+        t.payments.cancelled(amount, payment.recipient, payment.mode === "TRANSFER")
       );
-      this.logger.info(`Scheduled payment ${cancelled.id} cancelled for ${chatId}`);
+      this.logger.info(`Scheduled payment ${payment.id} cancelled for ${chatId}`);
     } catch (error) {
       this.logger.error(`Failed to cancel scheduled payment for ${chatId}`, error);
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "Hubo un error cancelando el pago. Intentá de nuevo más tarde."
-      );
+      await this.whatsappClient.sendMessage(chatId, t.payments.cancelError);
     }
   }
 
-  private async handleEmailStatus(chatId: string): Promise<void> {
-    if (!this.userService || !this.gmailAuthService) {
-      await this.whatsappClient.sendMessage(
-        chatId,
-        "La funcion de email no esta disponible en este momento."
-      );
+  private async handleEmailStatus(chatId: string, ctx: ChatContext): Promise<void> {
+    if (!this.userService || !this.mailboxService) {
+      await this.whatsappClient.sendMessage(chatId, ctx.t.email.unavailable);
       return;
     }
 
     // Check email access on plan
     if (this.subscriptionService) {
-      const access = await this.subscriptionService.checkEmailAccess(chatId);
+      const access = await this.subscriptionService.checkEmailAccess(chatId, ctx.locale);
       if (!access.allowed) {
         await this.whatsappClient.sendMessage(chatId, access.message);
         return;
@@ -2524,38 +4365,226 @@ ${privacyLine}`
       const user = await this.userService.getUserByChatId(chatId);
 
       if (!user) {
-        await this.whatsappClient.sendMessage(
-          chatId,
-          "📧 *Estado del Email*\n\n" +
-            "No tenes email conectado.\n\n" +
-            "Decime 'conecta mi email' para vincularlo."
-        );
+        await this.whatsappClient.sendMessage(chatId, ctx.t.email.statusNoUser);
         return;
       }
 
-      const isLinked = await this.gmailAuthService.isAuthenticated(user.id);
+      const accounts = await this.mailboxService.listAccounts(user.id);
 
-      if (isLinked) {
-        await this.whatsappClient.sendMessage(
-          chatId,
-          "📧 *Estado del Email*\n\n" +
-            "✅ Tu email esta conectado!\n\n" +
-            "Estoy monitoreando tus emails para avisarte de entregas, citas, reuniones y vuelos."
-        );
-      } else {
-        await this.whatsappClient.sendMessage(
-          chatId,
-          "📧 *Estado del Email*\n\n" +
-            "❌ Tu email no esta conectado.\n\n" +
-            "Decime 'conecta mi email' para vincularlo."
-        );
-      }
+      await this.whatsappClient.sendMessage(
+        chatId,
+        accounts.length > 0
+          ? ctx.t.email.statusConnected(accounts.map(describeMailAccount))
+          : ctx.t.email.statusDisconnected
+      );
     } catch (error) {
       this.logger.error(`Failed to check email status for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, ctx.t.email.statusError);
+    }
+  }
+
+  private async getEmailRuleUserId(chatId: string, ctx: ChatContext): Promise<string | null> {
+    if (!this.emailRuleService || !this.userService) {
+      await this.whatsappClient.sendMessage(chatId, ctx.t.emailRules.unavailable);
+      return null;
+    }
+
+    if (this.subscriptionService) {
+      const access = await this.subscriptionService.checkEmailAccess(chatId, ctx.locale);
+      if (!access.allowed) {
+        await this.whatsappClient.sendMessage(chatId, access.message);
+        return null;
+      }
+    }
+
+    const user = await this.userService.getUserByChatId(chatId);
+    if (!user) {
+      await this.whatsappClient.sendMessage(chatId, ctx.t.common.noLinkedAccountConnect);
+      return null;
+    }
+
+    return user.id;
+  }
+
+  /**
+   * "Solo X" silences every email in the window except X; otherwise one rule
+   * for the sender, or one per email type, or one for every email.
+   */
+  private async handleAddEmailRule(
+    chatId: string,
+    ctx: ChatContext,
+    detail?: EmailRuleDetail
+  ): Promise<void> {
+    const t = ctx.t.emailRules;
+
+    const types = (detail?.emailTypes ?? [])
+      .map(parseEmailRuleType)
+      .filter((type) => type !== null);
+    // "Solo" needs something to keep; anything else without a target covers every email
+    if (!detail || (detail.only && !detail.sender && types.length === 0)) {
+      await this.whatsappClient.sendMessage(chatId, t.missingTarget);
+      return;
+    }
+
+    const userId = await this.getEmailRuleUserId(chatId, ctx);
+    if (!userId || !this.emailRuleService) return;
+
+    const window = { startHour: detail.fromHour, endHour: detail.toHour };
+    const action = detail.action === "allow" ? "ALLOW" : "BLOCK";
+    const inputs: EmailRuleInput[] = [];
+
+    if (detail.only) {
+      inputs.push({ action: "BLOCK", ...window });
+    }
+    if (detail.sender) {
+      inputs.push({ action: detail.only ? "ALLOW" : action, sender: detail.sender, ...window });
+    } else if (types.length > 0) {
+      for (const emailType of types) {
+        inputs.push({ action: detail.only ? "ALLOW" : action, emailType, ...window });
+      }
+    } else {
+      inputs.push({ action, ...window });
+    }
+
+    try {
+      const rules = [];
+      for (const input of inputs) {
+        rules.push(await this.emailRuleService.addRule(userId, input));
+      }
+      await this.whatsappClient.sendMessage(
+        chatId,
+        t.added(rules.map((rule) => describeEmailRule(rule, t)))
+      );
+    } catch (error) {
+      this.logger.error(`Failed to add email rule for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, t.error);
+    }
+  }
+
+  private async handleListEmailRules(chatId: string, ctx: ChatContext): Promise<void> {
+    const t = ctx.t.emailRules;
+
+    const userId = await this.getEmailRuleUserId(chatId, ctx);
+    if (!userId || !this.emailRuleService) return;
+
+    try {
+      const rules = await this.emailRuleService.listRules(userId);
+      await this.whatsappClient.sendMessage(
+        chatId,
+        rules.length > 0 ? t.list(rules.map((rule) => describeEmailRule(rule, t))) : t.listEmpty
+      );
+    } catch (error) {
+      this.logger.error(`Failed to list email rules for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, t.error);
+    }
+  }
+
+  private async handleDeleteEmailRule(
+    chatId: string,
+    ctx: ChatContext,
+    index?: number
+  ): Promise<void> {
+    // Without a number, show the list so the user can pick one
+    if (!index) {
+      await this.handleListEmailRules(chatId, ctx);
+      return;
+    }
+
+    const t = ctx.t.emailRules;
+
+    const userId = await this.getEmailRuleUserId(chatId, ctx);
+    if (!userId || !this.emailRuleService) return;
+
+    try {
+      const rule = await this.emailRuleService.deleteRule(userId, index);
+      await this.whatsappClient.sendMessage(
+        chatId,
+        rule ? t.deleted(describeEmailRule(rule, t)) : t.notFound(index)
+      );
+    } catch (error) {
+      this.logger.error(`Failed to delete email rule for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, t.error);
+    }
+  }
+
+  /** Summary mode at the given local hours (noon and evening by default); none turns it off */
+  private async handleSetEmailDigest(
+    chatId: string,
+    ctx: ChatContext,
+    hours: number[] = DEFAULT_EMAIL_DIGEST_HOURS
+  ): Promise<void> {
+    const t = ctx.t.emailDigest;
+
+    if (!this.userService) {
+      await this.whatsappClient.sendMessage(chatId, t.unavailable);
+      return;
+    }
+
+    if (this.subscriptionService && hours.length > 0) {
+      const access = await this.subscriptionService.checkEmailAccess(chatId, ctx.locale);
+      if (!access.allowed) {
+        await this.whatsappClient.sendMessage(chatId, access.message);
+        return;
+      }
+    }
+
+    const sorted = [...new Set(hours)].sort((a, b) => a - b);
+
+    let user: User;
+    try {
+      user = await this.userService.updateEmailDigestHours(chatId, sorted);
       await this.whatsappClient.sendMessage(
         chatId,
-        "Hubo un error verificando el estado. Intentá de nuevo más tarde."
+        sorted.length > 0
+          ? t.enabled(sorted.map((hour) => `${String(hour).padStart(2, "0")}:00`))
+          : t.disabled
       );
+    } catch (error) {
+      this.logger.error(`Failed to update email summary for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, t.error);
+      return;
+    }
+
+    // No more summaries are coming, so hand over whatever was being held now
+    if (sorted.length === 0 && this.emailDigestService) {
+      try {
+        await this.emailDigestService.sendPending(user.id, chatId, ctx.locale);
+      } catch (error) {
+        this.logger.error(`Failed to send held emails to ${chatId}`, error);
+      }
+    }
+  }
+
+  private async handleOpenDigestEmail(
+    chatId: string,
+    processedEmailId: string,
+    ctx: ChatContext
+  ): Promise<void> {
+    const t = ctx.t.emailDigest;
+
+    if (!this.userService || !this.mailboxService || !this.processedEmailRepository) {
+      await this.whatsappClient.sendMessage(chatId, t.unavailable);
+      return;
+    }
+
+    try {
+      const user = await this.userService.getUserByChatId(chatId);
+      const email = await this.processedEmailRepository.findById(processedEmailId);
+      const accounts = user ? await this.mailboxService.listAccounts(user.id) : [];
+
+      // The mailbox may have been unlinked since the summary was sent
+      const linked = email?.accountId
+        ? accounts.some((account) => account.id === email.accountId)
+        : accounts.length > 0;
+      if (!user || !email || email.userId !== user.id || !linked) {
+        await this.whatsappClient.sendMessage(chatId, t.openError);
+        return;
+      }
+
+      await this.showFoundEmail(chatId, this.toFoundEmail(email, accounts, ctx), ctx);
+    } catch (error) {
+      this.logger.error(`Failed to open summary email for ${chatId}`, error);
+      await this.whatsappClient.sendMessage(chatId, t.openError);
     }
   }
 }
@@ -4,3 +4,9 @@ export { SessionService } from "./session/session.service";
 export { SessionRepository } from "./session/session.repository";
 export { QRHandler } from "./handlers/qr.handler";
 export { MessageHandler } from "./handlers/message.handler";
+export {
+  ConversationStateRepository,
+  ConversationStateService,
+  type ConversationStateType,
+  type ActiveConversationState
+} from "./conversation";
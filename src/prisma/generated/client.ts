@@ -87,6 +87,11 @@ export type Reminder = Prisma.ReminderModel;
  *
  */
 export type WhatsAppSession = Prisma.WhatsAppSessionModel;
+/**
+ * Model ConversationState
+ *
+ */
+export type ConversationState = Prisma.ConversationStateModel;
 /**
  * Model GoogleAuthToken
  *
@@ -97,6 +102,11 @@ export type GoogleAuthToken = Prisma.GoogleAuthTokenModel;
  *
  */
 export type EmailToken = Prisma.EmailTokenModel;
+/**
+ * Model ImapAccount
+ *
+ */
+export type ImapAccount = Prisma.ImapAccountModel;
 /**
  * Model MercadoLibreToken
  *
@@ -112,6 +122,66 @@ export type ProcessedEmail = Prisma.ProcessedEmailModel;
  *
  */
 export type Expense = Prisma.ExpenseModel;
+/**
+ * Model ExpenseAnomaly
+ *
+ */
+export type ExpenseAnomaly = Prisma.ExpenseAnomalyModel;
+/**
+ * Model Income
+ *
+ */
+export type Income = Prisma.IncomeModel;
+/**
+ * Model CustomCategory
+ *
+ */
+export type CustomCategory = Prisma.CustomCategoryModel;
+/**
+ * Model ExpenseGroup
+ *
+ */
+export type ExpenseGroup = Prisma.ExpenseGroupModel;
+/**
+ * Model ExpenseGroupMember
+ *
+ */
+export type ExpenseGroupMember = Prisma.ExpenseGroupMemberModel;
+/**
+ * Model ExpenseShare
+ *
+ */
+export type ExpenseShare = Prisma.ExpenseShareModel;
+/**
+ * Model GroupSettlement
+ *
+ */
+export type GroupSettlement = Prisma.GroupSettlementModel;
+/**
+ * Model ExchangeRate
+ *
+ */
+export type ExchangeRate = Prisma.ExchangeRateModel;
+/**
+ * Model Budget
+ *
+ */
+export type Budget = Prisma.BudgetModel;
+/**
+ * Model CategoryRule
+ *
+ */
+export type CategoryRule = Prisma.CategoryRuleModel;
+/**
+ * Model RecurringCharge
+ *
+ */
+export type RecurringCharge = Prisma.RecurringChargeModel;
+/**
+ * Model EmailRule
+ *
+ */
+export type EmailRule = Prisma.EmailRuleModel;
 /**
  * Model ScheduledPayment
  *
@@ -350,6 +350,13 @@ export type EnumReminderStatusFilter<$PrismaModel = never> = {
   not?: Prisma.NestedEnumReminderStatusFilter<$PrismaModel> | $Enums.ReminderStatus;
 };
 
+export type EnumReminderSourceFilter<$PrismaModel = never> = {
+  equals?: $Enums.ReminderSource | Prisma.EnumReminderSourceFieldRefInput<$PrismaModel>;
+  in?: $Enums.ReminderSource[] | Prisma.ListEnumReminderSourceFieldRefInput<$PrismaModel>;
+  notIn?: $Enums.ReminderSource[] | Prisma.ListEnumReminderSourceFieldRefInput<$PrismaModel>;
+  not?: Prisma.NestedEnumReminderSourceFilter<$PrismaModel> | $Enums.ReminderSource;
+};
+
 export type EnumRecurrenceTypeFilter<$PrismaModel = never> = {
   equals?: $Enums.RecurrenceType | Prisma.EnumRecurrenceTypeFieldRefInput<$PrismaModel>;
   in?: $Enums.RecurrenceType[] | Prisma.ListEnumRecurrenceTypeFieldRefInput<$PrismaModel>;
@@ -367,6 +374,16 @@ export type EnumReminderStatusWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedEnumReminderStatusFilter<$PrismaModel>;
 };
 
+export type EnumReminderSourceWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.ReminderSource | Prisma.EnumReminderSourceFieldRefInput<$PrismaModel>;
+  in?: $Enums.ReminderSource[] | Prisma.ListEnumReminderSourceFieldRefInput<$PrismaModel>;
+  notIn?: $Enums.ReminderSource[] | Prisma.ListEnumReminderSourceFieldRefInput<$PrismaModel>;
+  not?: Prisma.NestedEnumReminderSourceWithAggregatesFilter<$PrismaModel> | $Enums.ReminderSource;
+  _count?: Prisma.NestedIntFilter<$PrismaModel>;
+  _min?: Prisma.NestedEnumReminderSourceFilter<$PrismaModel>;
+  _max?: Prisma.NestedEnumReminderSourceFilter<$PrismaModel>;
+};
+
 export type EnumRecurrenceTypeWithAggregatesFilter<$PrismaModel = never> = {
   equals?: $Enums.RecurrenceType | Prisma.EnumRecurrenceTypeFieldRefInput<$PrismaModel>;
   in?: $Enums.RecurrenceType[] | Prisma.ListEnumRecurrenceTypeFieldRefInput<$PrismaModel>;
@@ -614,6 +631,239 @@ export type EnumExpenseCategoryWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedEnumExpenseCategoryFilter<$PrismaModel>;
 };
 
+export type DecimalNullableFilter<$PrismaModel = never> = {
+  equals?:
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | Prisma.DecimalFieldRefInput<$PrismaModel>
+    | null;
+  in?:
+    | runtime.Decimal[]
+    | runtime.DecimalJsLike[]
+    | number[]
+    | string[]
+    | Prisma.ListDecimalFieldRefInput<$PrismaModel>
+    | null;
+  notIn?:
+    | runtime.Decimal[]
+    | runtime.DecimalJsLike[]
+    | number[]
+    | string[]
+    | Prisma.ListDecimalFieldRefInput<$PrismaModel>
+    | null;
+  lt?:
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | Prisma.DecimalFieldRefInput<$PrismaModel>;
+  lte?:
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | Prisma.DecimalFieldRefInput<$PrismaModel>;
+  gt?:
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | Prisma.DecimalFieldRefInput<$PrismaModel>;
+  gte?:
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | Prisma.DecimalFieldRefInput<$PrismaModel>;
+  not?:
+    | Prisma.NestedDecimalNullableFilter<$PrismaModel>
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+};
+
+export type EnumAnomalyStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.AnomalyStatus | Prisma.EnumAnomalyStatusFieldRefInput<$PrismaModel>;
+  in?: $Enums.AnomalyStatus[] | Prisma.ListEnumAnomalyStatusFieldRefInput<$PrismaModel>;
+  notIn?: $Enums.AnomalyStatus[] | Prisma.ListEnumAnomalyStatusFieldRefInput<$PrismaModel>;
+  not?: Prisma.NestedEnumAnomalyStatusFilter<$PrismaModel> | $Enums.AnomalyStatus;
+};
+
+export type DecimalNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?:
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | Prisma.DecimalFieldRefInput<$PrismaModel>
+    | null;
+  in?:
+    | runtime.Decimal[]
+    | runtime.DecimalJsLike[]
+    | number[]
+    | string[]
+    | Prisma.ListDecimalFieldRefInput<$PrismaModel>
+    | null;
+  notIn?:
+    | runtime.Decimal[]
+    | runtime.DecimalJsLike[]
+    | number[]
+    | string[]
+    | Prisma.ListDecimalFieldRefInput<$PrismaModel>
+    | null;
+  lt?:
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | Prisma.DecimalFieldRefInput<$PrismaModel>;
+  lte?:
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | Prisma.DecimalFieldRefInput<$PrismaModel>;
+  gt?:
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | Prisma.DecimalFieldRefInput<$PrismaModel>;
+  gte?:
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | Prisma.DecimalFieldRefInput<$PrismaModel>;
+  not?:
+    | Prisma.NestedDecimalNullableWithAggregatesFilter<$PrismaModel>
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>;
+  _avg?: Prisma.NestedDecimalNullableFilter<$PrismaModel>;
+  _sum?: Prisma.NestedDecimalNullableFilter<$PrismaModel>;
+  _min?: Prisma.NestedDecimalNullableFilter<$PrismaModel>;
+  _max?: Prisma.NestedDecimalNullableFilter<$PrismaModel>;
+};
+
+export type EnumAnomalyStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.AnomalyStatus | Prisma.EnumAnomalyStatusFieldRefInput<$PrismaModel>;
+  in?: $Enums.AnomalyStatus[] | Prisma.ListEnumAnomalyStatusFieldRefInput<$PrismaModel>;
+  notIn?: $Enums.AnomalyStatus[] | Prisma.ListEnumAnomalyStatusFieldRefInput<$PrismaModel>;
+  not?: Prisma.NestedEnumAnomalyStatusWithAggregatesFilter<$PrismaModel> | $Enums.AnomalyStatus;
+  _count?: Prisma.NestedIntFilter<$PrismaModel>;
+  _min?: Prisma.NestedEnumAnomalyStatusFilter<$PrismaModel>;
+  _max?: Prisma.NestedEnumAnomalyStatusFilter<$PrismaModel>;
+};
+
+export type EnumIncomeCategoryFilter<$PrismaModel = never> = {
+  equals?: $Enums.IncomeCategory | Prisma.EnumIncomeCategoryFieldRefInput<$PrismaModel>;
+  in?: $Enums.IncomeCategory[] | Prisma.ListEnumIncomeCategoryFieldRefInput<$PrismaModel>;
+  notIn?: $Enums.IncomeCategory[] | Prisma.ListEnumIncomeCategoryFieldRefInput<$PrismaModel>;
+  not?: Prisma.NestedEnumIncomeCategoryFilter<$PrismaModel> | $Enums.IncomeCategory;
+};
+
+export type EnumIncomeCategoryWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.IncomeCategory | Prisma.EnumIncomeCategoryFieldRefInput<$PrismaModel>;
+  in?: $Enums.IncomeCategory[] | Prisma.ListEnumIncomeCategoryFieldRefInput<$PrismaModel>;
+  notIn?: $Enums.IncomeCategory[] | Prisma.ListEnumIncomeCategoryFieldRefInput<$PrismaModel>;
+  not?: Prisma.NestedEnumIncomeCategoryWithAggregatesFilter<$PrismaModel> | $Enums.IncomeCategory;
+  _count?: Prisma.NestedIntFilter<$PrismaModel>;
+  _min?: Prisma.NestedEnumIncomeCategoryFilter<$PrismaModel>;
+  _max?: Prisma.NestedEnumIncomeCategoryFilter<$PrismaModel>;
+};
+
+export type EnumGroupMemberStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.GroupMemberStatus | Prisma.EnumGroupMemberStatusFieldRefInput<$PrismaModel>;
+  in?: $Enums.GroupMemberStatus[] | Prisma.ListEnumGroupMemberStatusFieldRefInput<$PrismaModel>;
+  notIn?: $Enums.GroupMemberStatus[] | Prisma.ListEnumGroupMemberStatusFieldRefInput<$PrismaModel>;
+  not?: Prisma.NestedEnumGroupMemberStatusFilter<$PrismaModel> | $Enums.GroupMemberStatus;
+};
+
+export type EnumGroupMemberStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.GroupMemberStatus | Prisma.EnumGroupMemberStatusFieldRefInput<$PrismaModel>;
+  in?: $Enums.GroupMemberStatus[] | Prisma.ListEnumGroupMemberStatusFieldRefInput<$PrismaModel>;
+  notIn?: $Enums.GroupMemberStatus[] | Prisma.ListEnumGroupMemberStatusFieldRefInput<$PrismaModel>;
+  not?:
+    | Prisma.NestedEnumGroupMemberStatusWithAggregatesFilter<$PrismaModel>
+    | $Enums.GroupMemberStatus;
+  _count?: Prisma.NestedIntFilter<$PrismaModel>;
+  _min?: Prisma.NestedEnumGroupMemberStatusFilter<$PrismaModel>;
+  _max?: Prisma.NestedEnumGroupMemberStatusFilter<$PrismaModel>;
+};
+
+export type EnumRecurringPeriodFilter<$PrismaModel = never> = {
+  equals?: $Enums.RecurringPeriod | Prisma.EnumRecurringPeriodFieldRefInput<$PrismaModel>;
+  in?: $Enums.RecurringPeriod[] | Prisma.ListEnumRecurringPeriodFieldRefInput<$PrismaModel>;
+  notIn?: $Enums.RecurringPeriod[] | Prisma.ListEnumRecurringPeriodFieldRefInput<$PrismaModel>;
+  not?: Prisma.NestedEnumRecurringPeriodFilter<$PrismaModel> | $Enums.RecurringPeriod;
+};
+
+export type EnumRecurringPeriodWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.RecurringPeriod | Prisma.EnumRecurringPeriodFieldRefInput<$PrismaModel>;
+  in?: $Enums.RecurringPeriod[] | Prisma.ListEnumRecurringPeriodFieldRefInput<$PrismaModel>;
+  notIn?: $Enums.RecurringPeriod[] | Prisma.ListEnumRecurringPeriodFieldRefInput<$PrismaModel>;
+  not?: Prisma.NestedEnumRecurringPeriodWithAggregatesFilter<$PrismaModel> | $Enums.RecurringPeriod;
+  _count?: Prisma.NestedIntFilter<$PrismaModel>;
+  _min?: Prisma.NestedEnumRecurringPeriodFilter<$PrismaModel>;
+  _max?: Prisma.NestedEnumRecurringPeriodFilter<$PrismaModel>;
+};
+
+export type EnumEmailRuleActionFilter<$PrismaModel = never> = {
+  equals?: $Enums.EmailRuleAction | Prisma.EnumEmailRuleActionFieldRefInput<$PrismaModel>;
+  in?: $Enums.EmailRuleAction[] | Prisma.ListEnumEmailRuleActionFieldRefInput<$PrismaModel>;
+  notIn?: $Enums.EmailRuleAction[] | Prisma.ListEnumEmailRuleActionFieldRefInput<$PrismaModel>;
+  not?: Prisma.NestedEnumEmailRuleActionFilter<$PrismaModel> | $Enums.EmailRuleAction;
+};
+
+export type EnumEmailTypeNullableFilter<$PrismaModel = never> = {
+  equals?: $Enums.EmailType | Prisma.EnumEmailTypeFieldRefInput<$PrismaModel> | null;
+  in?: $Enums.EmailType[] | Prisma.ListEnumEmailTypeFieldRefInput<$PrismaModel> | null;
+  notIn?: $Enums.EmailType[] | Prisma.ListEnumEmailTypeFieldRefInput<$PrismaModel> | null;
+  not?: Prisma.NestedEnumEmailTypeNullableFilter<$PrismaModel> | $Enums.EmailType | null;
+};
+
+export type EnumEmailRuleActionWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.EmailRuleAction | Prisma.EnumEmailRuleActionFieldRefInput<$PrismaModel>;
+  in?: $Enums.EmailRuleAction[] | Prisma.ListEnumEmailRuleActionFieldRefInput<$PrismaModel>;
+  notIn?: $Enums.EmailRuleAction[] | Prisma.ListEnumEmailRuleActionFieldRefInput<$PrismaModel>;
+  not?: Prisma.NestedEnumEmailRuleActionWithAggregatesFilter<$PrismaModel> | $Enums.EmailRuleAction;
+  _count?: Prisma.NestedIntFilter<$PrismaModel>;
+  _min?: Prisma.NestedEnumEmailRuleActionFilter<$PrismaModel>;
+  _max?: Prisma.NestedEnumEmailRuleActionFilter<$PrismaModel>;
+};
+
+export type EnumEmailTypeNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.EmailType | Prisma.EnumEmailTypeFieldRefInput<$PrismaModel> | null;
+  in?: $Enums.EmailType[] | Prisma.ListEnumEmailTypeFieldRefInput<$PrismaModel> | null;
+  notIn?: $Enums.EmailType[] | Prisma.ListEnumEmailTypeFieldRefInput<$PrismaModel> | null;
+  not?:
+    | Prisma.NestedEnumEmailTypeNullableWithAggregatesFilter<$PrismaModel>
+    | $Enums.EmailType
+    | null;
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>;
+  _min?: Prisma.NestedEnumEmailTypeNullableFilter<$PrismaModel>;
+  _max?: Prisma.NestedEnumEmailTypeNullableFilter<$PrismaModel>;
+};
+
+export type EnumScheduledPaymentModeFilter<$PrismaModel = never> = {
+  equals?: $Enums.ScheduledPaymentMode | Prisma.EnumScheduledPaymentModeFieldRefInput<$PrismaModel>;
+  in?:
+    | $Enums.ScheduledPaymentMode[]
+    | Prisma.ListEnumScheduledPaymentModeFieldRefInput<$PrismaModel>;
+  notIn?:
+    | $Enums.ScheduledPaymentMode[]
+    | Prisma.ListEnumScheduledPaymentModeFieldRefInput<$PrismaModel>;
+  not?: Prisma.NestedEnumScheduledPaymentModeFilter<$PrismaModel> | $Enums.ScheduledPaymentMode;
+};
+
 export type EnumScheduledPaymentStatusFilter<$PrismaModel = never> = {
   equals?:
     | $Enums.ScheduledPaymentStatus
@@ -627,6 +877,22 @@ export type EnumScheduledPaymentStatusFilter<$PrismaModel = never> = {
   not?: Prisma.NestedEnumScheduledPaymentStatusFilter<$PrismaModel> | $Enums.ScheduledPaymentStatus;
 };
 
+export type EnumScheduledPaymentModeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.ScheduledPaymentMode | Prisma.EnumScheduledPaymentModeFieldRefInput<$PrismaModel>;
+  in?:
+    | $Enums.ScheduledPaymentMode[]
+    | Prisma.ListEnumScheduledPaymentModeFieldRefInput<$PrismaModel>;
+  notIn?:
+    | $Enums.ScheduledPaymentMode[]
+    | Prisma.ListEnumScheduledPaymentModeFieldRefInput<$PrismaModel>;
+  not?:
+    | Prisma.NestedEnumScheduledPaymentModeWithAggregatesFilter<$PrismaModel>
+    | $Enums.ScheduledPaymentMode;
+  _count?: Prisma.NestedIntFilter<$PrismaModel>;
+  _min?: Prisma.NestedEnumScheduledPaymentModeFilter<$PrismaModel>;
+  _max?: Prisma.NestedEnumScheduledPaymentModeFilter<$PrismaModel>;
+};
+
 export type EnumScheduledPaymentStatusWithAggregatesFilter<$PrismaModel = never> = {
   equals?:
     | $Enums.ScheduledPaymentStatus
@@ -960,6 +1226,13 @@ export type NestedEnumReminderStatusFilter<$PrismaModel = never> = {
   not?: Prisma.NestedEnumReminderStatusFilter<$PrismaModel> | $Enums.ReminderStatus;
 };
 
+export type NestedEnumReminderSourceFilter<$PrismaModel = never> = {
+  equals?: $Enums.ReminderSource | Prisma.EnumReminderSourceFieldRefInput<$PrismaModel>;
+  in?: $Enums.ReminderSource[] | Prisma.ListEnumReminderSourceFieldRefInput<$PrismaModel>;
+  notIn?: $Enums.ReminderSource[] | Prisma.ListEnumReminderSourceFieldRefInput<$PrismaModel>;
+  not?: Prisma.NestedEnumReminderSourceFilter<$PrismaModel> | $Enums.ReminderSource;
+};
+
 export type NestedEnumRecurrenceTypeFilter<$PrismaModel = never> = {
   equals?: $Enums.RecurrenceType | Prisma.EnumRecurrenceTypeFieldRefInput<$PrismaModel>;
   in?: $Enums.RecurrenceType[] | Prisma.ListEnumRecurrenceTypeFieldRefInput<$PrismaModel>;
@@ -977,6 +1250,16 @@ export type NestedEnumReminderStatusWithAggregatesFilter<$PrismaModel = never> =
   _max?: Prisma.NestedEnumReminderStatusFilter<$PrismaModel>;
 };
 
+export type NestedEnumReminderSourceWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.ReminderSource | Prisma.EnumReminderSourceFieldRefInput<$PrismaModel>;
+  in?: $Enums.ReminderSource[] | Prisma.ListEnumReminderSourceFieldRefInput<$PrismaModel>;
+  notIn?: $Enums.ReminderSource[] | Prisma.ListEnumReminderSourceFieldRefInput<$PrismaModel>;
+  not?: Prisma.NestedEnumReminderSourceWithAggregatesFilter<$PrismaModel> | $Enums.ReminderSource;
+  _count?: Prisma.NestedIntFilter<$PrismaModel>;
+  _min?: Prisma.NestedEnumReminderSourceFilter<$PrismaModel>;
+  _max?: Prisma.NestedEnumReminderSourceFilter<$PrismaModel>;
+};
+
 export type NestedEnumRecurrenceTypeWithAggregatesFilter<$PrismaModel = never> = {
   equals?: $Enums.RecurrenceType | Prisma.EnumRecurrenceTypeFieldRefInput<$PrismaModel>;
   in?: $Enums.RecurrenceType[] | Prisma.ListEnumRecurrenceTypeFieldRefInput<$PrismaModel>;
@@ -1188,6 +1471,239 @@ export type NestedEnumExpenseCategoryWithAggregatesFilter<$PrismaModel = never>
   _max?: Prisma.NestedEnumExpenseCategoryFilter<$PrismaModel>;
 };
 
+export type NestedDecimalNullableFilter<$PrismaModel = never> = {
+  equals?:
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | Prisma.DecimalFieldRefInput<$PrismaModel>
+    | null;
+  in?:
+    | runtime.Decimal[]
+    | runtime.DecimalJsLike[]
+    | number[]
+    | string[]
+    | Prisma.ListDecimalFieldRefInput<$PrismaModel>
+    | null;
+  notIn?:
+    | runtime.Decimal[]
+    | runtime.DecimalJsLike[]
+    | number[]
+    | string[]
+    | Prisma.ListDecimalFieldRefInput<$PrismaModel>
+    | null;
+  lt?:
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | Prisma.DecimalFieldRefInput<$PrismaModel>;
+  lte?:
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | Prisma.DecimalFieldRefInput<$PrismaModel>;
+  gt?:
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | Prisma.DecimalFieldRefInput<$PrismaModel>;
+  gte?:
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | Prisma.DecimalFieldRefInput<$PrismaModel>;
+  not?:
+    | Prisma.NestedDecimalNullableFilter<$PrismaModel>
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+};
+
+export type NestedEnumAnomalyStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.AnomalyStatus | Prisma.EnumAnomalyStatusFieldRefInput<$PrismaModel>;
+  in?: $Enums.AnomalyStatus[] | Prisma.ListEnumAnomalyStatusFieldRefInput<$PrismaModel>;
+  notIn?: $Enums.AnomalyStatus[] | Prisma.ListEnumAnomalyStatusFieldRefInput<$PrismaModel>;
+  not?: Prisma.NestedEnumAnomalyStatusFilter<$PrismaModel> | $Enums.AnomalyStatus;
+};
+
+export type NestedDecimalNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?:
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | Prisma.DecimalFieldRefInput<$PrismaModel>
+    | null;
+  in?:
+    | runtime.Decimal[]
+    | runtime.DecimalJsLike[]
+    | number[]
+    | string[]
+    | Prisma.ListDecimalFieldRefInput<$PrismaModel>
+    | null;
+  notIn?:
+    | runtime.Decimal[]
+    | runtime.DecimalJsLike[]
+    | number[]
+    | string[]
+    | Prisma.ListDecimalFieldRefInput<$PrismaModel>
+    | null;
+  lt?:
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | Prisma.DecimalFieldRefInput<$PrismaModel>;
+  lte?:
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | Prisma.DecimalFieldRefInput<$PrismaModel>;
+  gt?:
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | Prisma.DecimalFieldRefInput<$PrismaModel>;
+  gte?:
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | Prisma.DecimalFieldRefInput<$PrismaModel>;
+  not?:
+    | Prisma.NestedDecimalNullableWithAggregatesFilter<$PrismaModel>
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>;
+  _avg?: Prisma.NestedDecimalNullableFilter<$PrismaModel>;
+  _sum?: Prisma.NestedDecimalNullableFilter<$PrismaModel>;
+  _min?: Prisma.NestedDecimalNullableFilter<$PrismaModel>;
+  _max?: Prisma.NestedDecimalNullableFilter<$PrismaModel>;
+};
+
+export type NestedEnumAnomalyStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.AnomalyStatus | Prisma.EnumAnomalyStatusFieldRefInput<$PrismaModel>;
+  in?: $Enums.AnomalyStatus[] | Prisma.ListEnumAnomalyStatusFieldRefInput<$PrismaModel>;
+  notIn?: $Enums.AnomalyStatus[] | Prisma.ListEnumAnomalyStatusFieldRefInput<$PrismaModel>;
+  not?: Prisma.NestedEnumAnomalyStatusWithAggregatesFilter<$PrismaModel> | $Enums.AnomalyStatus;
+  _count?: Prisma.NestedIntFilter<$PrismaModel>;
+  _min?: Prisma.NestedEnumAnomalyStatusFilter<$PrismaModel>;
+  _max?: Prisma.NestedEnumAnomalyStatusFilter<$PrismaModel>;
+};
+
+export type NestedEnumIncomeCategoryFilter<$PrismaModel = never> = {
+  equals?: $Enums.IncomeCategory | Prisma.EnumIncomeCategoryFieldRefInput<$PrismaModel>;
+  in?: $Enums.IncomeCategory[] | Prisma.ListEnumIncomeCategoryFieldRefInput<$PrismaModel>;
+  notIn?: $Enums.IncomeCategory[] | Prisma.ListEnumIncomeCategoryFieldRefInput<$PrismaModel>;
+  not?: Prisma.NestedEnumIncomeCategoryFilter<$PrismaModel> | $Enums.IncomeCategory;
+};
+
+export type NestedEnumIncomeCategoryWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.IncomeCategory | Prisma.EnumIncomeCategoryFieldRefInput<$PrismaModel>;
+  in?: $Enums.IncomeCategory[] | Prisma.ListEnumIncomeCategoryFieldRefInput<$PrismaModel>;
+  notIn?: $Enums.IncomeCategory[] | Prisma.ListEnumIncomeCategoryFieldRefInput<$PrismaModel>;
+  not?: Prisma.NestedEnumIncomeCategoryWithAggregatesFilter<$PrismaModel> | $Enums.IncomeCategory;
+  _count?: Prisma.NestedIntFilter<$PrismaModel>;
+  _min?: Prisma.NestedEnumIncomeCategoryFilter<$PrismaModel>;
+  _max?: Prisma.NestedEnumIncomeCategoryFilter<$PrismaModel>;
+};
+
+export type NestedEnumGroupMemberStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.GroupMemberStatus | Prisma.EnumGroupMemberStatusFieldRefInput<$PrismaModel>;
+  in?: $Enums.GroupMemberStatus[] | Prisma.ListEnumGroupMemberStatusFieldRefInput<$PrismaModel>;
+  notIn?: $Enums.GroupMemberStatus[] | Prisma.ListEnumGroupMemberStatusFieldRefInput<$PrismaModel>;
+  not?: Prisma.NestedEnumGroupMemberStatusFilter<$PrismaModel> | $Enums.GroupMemberStatus;
+};
+
+export type NestedEnumGroupMemberStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.GroupMemberStatus | Prisma.EnumGroupMemberStatusFieldRefInput<$PrismaModel>;
+  in?: $Enums.GroupMemberStatus[] | Prisma.ListEnumGroupMemberStatusFieldRefInput<$PrismaModel>;
+  notIn?: $Enums.GroupMemberStatus[] | Prisma.ListEnumGroupMemberStatusFieldRefInput<$PrismaModel>;
+  not?:
+    | Prisma.NestedEnumGroupMemberStatusWithAggregatesFilter<$PrismaModel>
+    | $Enums.GroupMemberStatus;
+  _count?: Prisma.NestedIntFilter<$PrismaModel>;
+  _min?: Prisma.NestedEnumGroupMemberStatusFilter<$PrismaModel>;
+  _max?: Prisma.NestedEnumGroupMemberStatusFilter<$PrismaModel>;
+};
+
+export type NestedEnumRecurringPeriodFilter<$PrismaModel = never> = {
+  equals?: $Enums.RecurringPeriod | Prisma.EnumRecurringPeriodFieldRefInput<$PrismaModel>;
+  in?: $Enums.RecurringPeriod[] | Prisma.ListEnumRecurringPeriodFieldRefInput<$PrismaModel>;
+  notIn?: $Enums.RecurringPeriod[] | Prisma.ListEnumRecurringPeriodFieldRefInput<$PrismaModel>;
+  not?: Prisma.NestedEnumRecurringPeriodFilter<$PrismaModel> | $Enums.RecurringPeriod;
+};
+
+export type NestedEnumRecurringPeriodWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.RecurringPeriod | Prisma.EnumRecurringPeriodFieldRefInput<$PrismaModel>;
+  in?: $Enums.RecurringPeriod[] | Prisma.ListEnumRecurringPeriodFieldRefInput<$PrismaModel>;
+  notIn?: $Enums.RecurringPeriod[] | Prisma.ListEnumRecurringPeriodFieldRefInput<$PrismaModel>;
+  not?: Prisma.NestedEnumRecurringPeriodWithAggregatesFilter<$PrismaModel> | $Enums.RecurringPeriod;
+  _count?: Prisma.NestedIntFilter<$PrismaModel>;
+  _min?: Prisma.NestedEnumRecurringPeriodFilter<$PrismaModel>;
+  _max?: Prisma.NestedEnumRecurringPeriodFilter<$PrismaModel>;
+};
+
+export type NestedEnumEmailRuleActionFilter<$PrismaModel = never> = {
+  equals?: $Enums.EmailRuleAction | Prisma.EnumEmailRuleActionFieldRefInput<$PrismaModel>;
+  in?: $Enums.EmailRuleAction[] | Prisma.ListEnumEmailRuleActionFieldRefInput<$PrismaModel>;
+  notIn?: $Enums.EmailRuleAction[] | Prisma.ListEnumEmailRuleActionFieldRefInput<$PrismaModel>;
+  not?: Prisma.NestedEnumEmailRuleActionFilter<$PrismaModel> | $Enums.EmailRuleAction;
+};
+
+export type NestedEnumEmailTypeNullableFilter<$PrismaModel = never> = {
+  equals?: $Enums.EmailType | Prisma.EnumEmailTypeFieldRefInput<$PrismaModel> | null;
+  in?: $Enums.EmailType[] | Prisma.ListEnumEmailTypeFieldRefInput<$PrismaModel> | null;
+  notIn?: $Enums.EmailType[] | Prisma.ListEnumEmailTypeFieldRefInput<$PrismaModel> | null;
+  not?: Prisma.NestedEnumEmailTypeNullableFilter<$PrismaModel> | $Enums.EmailType | null;
+};
+
+export type NestedEnumEmailRuleActionWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.EmailRuleAction | Prisma.EnumEmailRuleActionFieldRefInput<$PrismaModel>;
+  in?: $Enums.EmailRuleAction[] | Prisma.ListEnumEmailRuleActionFieldRefInput<$PrismaModel>;
+  notIn?: $Enums.EmailRuleAction[] | Prisma.ListEnumEmailRuleActionFieldRefInput<$PrismaModel>;
+  not?: Prisma.NestedEnumEmailRuleActionWithAggregatesFilter<$PrismaModel> | $Enums.EmailRuleAction;
+  _count?: Prisma.NestedIntFilter<$PrismaModel>;
+  _min?: Prisma.NestedEnumEmailRuleActionFilter<$PrismaModel>;
+  _max?: Prisma.NestedEnumEmailRuleActionFilter<$PrismaModel>;
+};
+
+export type NestedEnumEmailTypeNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.EmailType | Prisma.EnumEmailTypeFieldRefInput<$PrismaModel> | null;
+  in?: $Enums.EmailType[] | Prisma.ListEnumEmailTypeFieldRefInput<$PrismaModel> | null;
+  notIn?: $Enums.EmailType[] | Prisma.ListEnumEmailTypeFieldRefInput<$PrismaModel> | null;
+  not?:
+    | Prisma.NestedEnumEmailTypeNullableWithAggregatesFilter<$PrismaModel>
+    | $Enums.EmailType
+    | null;
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>;
+  _min?: Prisma.NestedEnumEmailTypeNullableFilter<$PrismaModel>;
+  _max?: Prisma.NestedEnumEmailTypeNullableFilter<$PrismaModel>;
+};
+
+export type NestedEnumScheduledPaymentModeFilter<$PrismaModel = never> = {
+  equals?: $Enums.ScheduledPaymentMode | Prisma.EnumScheduledPaymentModeFieldRefInput<$PrismaModel>;
+  in?:
+    | $Enums.ScheduledPaymentMode[]
+    | Prisma.ListEnumScheduledPaymentModeFieldRefInput<$PrismaModel>;
+  notIn?:
+    | $Enums.ScheduledPaymentMode[]
+    | Prisma.ListEnumScheduledPaymentModeFieldRefInput<$PrismaModel>;
+  not?: Prisma.NestedEnumScheduledPaymentModeFilter<$PrismaModel> | $Enums.ScheduledPaymentMode;
+};
+
 export type NestedEnumScheduledPaymentStatusFilter<$PrismaModel = never> = {
   equals?:
     | $Enums.ScheduledPaymentStatus
@@ -1201,6 +1717,22 @@ export type NestedEnumScheduledPaymentStatusFilter<$PrismaModel = never> = {
   not?: Prisma.NestedEnumScheduledPaymentStatusFilter<$PrismaModel> | $Enums.ScheduledPaymentStatus;
 };
 
+export type NestedEnumScheduledPaymentModeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.ScheduledPaymentMode | Prisma.EnumScheduledPaymentModeFieldRefInput<$PrismaModel>;
+  in?:
+    | $Enums.ScheduledPaymentMode[]
+    | Prisma.ListEnumScheduledPaymentModeFieldRefInput<$PrismaModel>;
+  notIn?:
+    | $Enums.ScheduledPaymentMode[]
+    | Prisma.ListEnumScheduledPaymentModeFieldRefInput<$PrismaModel>;
+  not?:
+    | Prisma.NestedEnumScheduledPaymentModeWithAggregatesFilter<$PrismaModel>
+    | $Enums.ScheduledPaymentMode;
+  _count?: Prisma.NestedIntFilter<$PrismaModel>;
+  _min?: Prisma.NestedEnumScheduledPaymentModeFilter<$PrismaModel>;
+  _max?: Prisma.NestedEnumScheduledPaymentModeFilter<$PrismaModel>;
+};
+
 export type NestedEnumScheduledPaymentStatusWithAggregatesFilter<$PrismaModel = never> = {
   equals?:
     | $Enums.ScheduledPaymentStatus
@@ -44,6 +44,7 @@ export type PaymentStatus = (typeof PaymentStatus)[keyof typeof PaymentStatus];
 export const ReminderStatus = {
   PENDING: "PENDING",
   SENT: "SENT",
+  ACKNOWLEDGED: "ACKNOWLEDGED",
   FAILED: "FAILED",
   CANCELLED: "CANCELLED"
 } as const;
@@ -59,6 +60,57 @@ export const RecurrenceType = {
 
 export type RecurrenceType = (typeof RecurrenceType)[keyof typeof RecurrenceType];
 
+export const ReminderSource = {
+  BOT: "BOT",
+  CALENDAR: "CALENDAR"
+} as const;
+
+export type ReminderSource = (typeof ReminderSource)[keyof typeof ReminderSource];
+
+export const AnomalyReason = {
+  UNUSUAL_FOR_MERCHANT: "UNUSUAL_FOR_MERCHANT",
+  UNUSUAL_FOR_CATEGORY: "UNUSUAL_FOR_CATEGORY",
+  DUPLICATE: "DUPLICATE",
+  NEW_MERCHANT: "NEW_MERCHANT"
+} as const;
+
+export type AnomalyReason = (typeof AnomalyReason)[keyof typeof AnomalyReason];
+
+export const AnomalyStatus = {
+  OPEN: "OPEN",
+  DISMISSED: "DISMISSED",
+  FRAUD: "FRAUD"
+} as const;
+
+export type AnomalyStatus = (typeof AnomalyStatus)[keyof typeof AnomalyStatus];
+
+export const IncomeCategory = {
+  SALARY: "SALARY",
+  FREELANCE: "FREELANCE",
+  TRANSFER: "TRANSFER",
+  INVESTMENT: "INVESTMENT",
+  RENTAL: "RENTAL",
+  REFUND: "REFUND",
+  OTHER: "OTHER"
+} as const;
+
+export type IncomeCategory = (typeof IncomeCategory)[keyof typeof IncomeCategory];
+
+export const GroupMemberStatus = {
+  INVITED: "INVITED",
+  ACTIVE: "ACTIVE"
+} as const;
+
+export type GroupMemberStatus = (typeof GroupMemberStatus)[keyof typeof GroupMemberStatus];
+
+export const RecurringPeriod = {
+  WEEKLY: "WEEKLY",
+  MONTHLY: "MONTHLY",
+  YEARLY: "YEARLY"
+} as const;
+
+export type RecurringPeriod = (typeof RecurringPeriod)[keyof typeof RecurringPeriod];
+
 export const ExpenseCategory = {
   FOOD: "FOOD",
   TRANSPORT: "TRANSPORT",
@@ -76,6 +128,7 @@ export type ExpenseCategory = (typeof ExpenseCategory)[keyof typeof ExpenseCateg
 
 export const EmailType = {
   PURCHASE: "PURCHASE",
+  INCOME: "INCOME",
   DELIVERY: "DELIVERY",
   APPOINTMENT: "APPOINTMENT",
   MEETING: "MEETING",
@@ -92,6 +145,13 @@ export const EmailType = {
 
 export type EmailType = (typeof EmailType)[keyof typeof EmailType];
 
+export const EmailRuleAction = {
+  ALLOW: "ALLOW",
+  BLOCK: "BLOCK"
+} as const;
+
+export type EmailRuleAction = (typeof EmailRuleAction)[keyof typeof EmailRuleAction];
+
 export const ProcessedEmailStatus = {
   PROCESSED: "PROCESSED",
   REMINDER_CREATED: "REMINDER_CREATED",
@@ -103,9 +163,18 @@ export type ProcessedEmailStatus = (typeof ProcessedEmailStatus)[keyof typeof Pr
 
 export const ScheduledPaymentStatus = {
   ACTIVE: "ACTIVE",
+  PROCESSING: "PROCESSING",
   CANCELLED: "CANCELLED",
-  COMPLETED: "COMPLETED"
+  COMPLETED: "COMPLETED",
+  FAILED: "FAILED"
 } as const;
 
 export type ScheduledPaymentStatus =
   (typeof ScheduledPaymentStatus)[keyof typeof ScheduledPaymentStatus];
+
+export const ScheduledPaymentMode = {
+  REMINDER: "REMINDER",
+  TRANSFER: "TRANSFER"
+} as const;
+
+export type ScheduledPaymentMode = (typeof ScheduledPaymentMode)[keyof typeof ScheduledPaymentMode];
@@ -19,7 +19,7 @@ const config: runtime.GetPrismaClientConfig = {
   engineVersion: "9d6ad21cbbceab97458517b147a6a09ff43aa735",
   activeProvider: "postgresql",
   inlineSchema:
-    'generator client {\n  provider = "prisma-client"\n  output   = "./generated"\n}\n\ndatasource db {\n  provider = "postgresql"\n}\n\n// =============================================\n// USER & AUTH (Auth.js v5)\n// =============================================\n\nmodel User {\n  id String @id @default(cuid())\n\n  // Auth fields\n  email         String?   @unique\n  emailVerified DateTime? @map("email_verified")\n  passwordHash  String?   @map("password_hash")\n  name          String?\n  image         String?\n  role          UserRole  @default(USER)\n\n  // WhatsApp (connection with bot)\n  chatId String? @unique @map("chat_id")\n  locale String  @default("es")\n\n  // Daily digest settings\n  digestEnabled Boolean @default(true) @map("digest_enabled")\n  digestHour    Int     @default(8) @map("digest_hour")\n\n  createdAt DateTime @default(now()) @map("created_at")\n  updatedAt DateTime @updatedAt @map("updated_at")\n\n  // Auth.js relations\n  accounts Account[]\n  sessions Session[]\n\n  // App relations\n  reminders         Reminder[]\n  subscription      Subscription?\n  emailToken        EmailToken?\n  mercadoLibreToken MercadoLibreToken?\n  processedEmails   ProcessedEmail[]\n  expenses          Expense[]\n\n  @@map("users")\n}\n\nenum UserRole {\n  USER\n  ADMIN\n}\n\nmodel Account {\n  id                String  @id @default(cuid())\n  userId            String  @map("user_id")\n  type              String\n  provider          String\n  providerAccountId String  @map("provider_account_id")\n  refresh_token     String? @db.Text\n  access_token      String? @db.Text\n  expires_at        Int?\n  token_type        String?\n  scope             String?\n  id_token          String? @db.Text\n  session_state     String?\n\n  user User @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@unique([provider, providerAccountId])\n  @@map("accounts")\n}\n\nmodel Session {\n  id           String   @id @default(cuid())\n  sessionToken String   @unique @map("session_token")\n  userId       String   @map("user_id")\n  expires      DateTime\n  user         User     @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@map("sessions")\n}\n\nmodel VerificationToken {\n  identifier String\n  token      String   @unique\n  expires    DateTime\n\n  @@unique([identifier, token])\n  @@map("verification_tokens")\n}\n\n// =============================================\n// PLANS & SUBSCRIPTIONS\n// =============================================\n\nmodel Plan {\n  id          String  @id @default(cuid())\n  name        String\n  description String?\n\n  // Prices in cents\n  priceMonthly Int    @map("price_monthly")\n  priceYearly  Int    @map("price_yearly")\n  currency     String @default("ARS")\n\n  // Mercado Pago Plan IDs\n  mpPlanIdMonthly String? @unique @map("mp_plan_id_monthly")\n  mpPlanIdYearly  String? @unique @map("mp_plan_id_yearly")\n\n  // Features and limits\n  features         Json    @default("[]")\n  maxReminders     Int?    @map("max_reminders")\n  maxEmailAccounts Int?    @map("max_email_accounts")\n  hasCalendarSync  Boolean @default(false) @map("has_calendar_sync")\n  hasEmailSync     Boolean @default(false) @map("has_email_sync")\n  hasEmailReply    Boolean @default(false) @map("has_email_reply")\n\n  trialDays Int     @default(0) @map("trial_days")\n  isActive  Boolean @default(true) @map("is_active")\n  sortOrder Int     @default(0) @map("sort_order")\n\n  createdAt DateTime @default(now()) @map("created_at")\n  updatedAt DateTime @updatedAt @map("updated_at")\n\n  subscriptions Subscription[]\n\n  @@map("plans")\n}\n\nmodel Subscription {\n  id     String @id @default(cuid())\n  userId String @unique @map("user_id")\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  planId String @map("plan_id")\n  plan   Plan   @relation(fields: [planId], references: [id])\n\n  status       SubscriptionStatus @default(TRIALING)\n  billingCycle BillingCycle       @map("billing_cycle")\n\n  // Mercado Pago\n  mpSubscriptionId String? @unique @map("mp_subscription_id")\n  mpPayerId        String? @map("mp_payer_id")\n\n  // Periods\n  currentPeriodStart DateTime  @map("current_period_start")\n  currentPeriodEnd   DateTime  @map("current_period_end")\n  trialEndsAt        DateTime? @map("trial_ends_at")\n  cancelledAt        DateTime? @map("cancelled_at")\n\n  createdAt DateTime @default(now()) @map("created_at")\n  updatedAt DateTime @updatedAt @map("updated_at")\n\n  payments Payment[]\n\n  @@map("subscriptions")\n}\n\nenum SubscriptionStatus {\n  TRIALING\n  ACTIVE\n  PAST_DUE\n  CANCELLED\n  PAUSED\n}\n\nenum BillingCycle {\n  MONTHLY\n  YEARLY\n}\n\nmodel Payment {\n  id             String       @id @default(cuid())\n  subscriptionId String       @map("subscription_id")\n  subscription   Subscription @relation(fields: [subscriptionId], references: [id], onDelete: Cascade)\n\n  amount   Int // Cents\n  currency String        @default("ARS")\n  status   PaymentStatus\n\n  mpPaymentId String? @unique @map("mp_payment_id")\n  mpStatus    String? @map("mp_status")\n\n  paidAt    DateTime? @map("paid_at")\n  createdAt DateTime  @default(now()) @map("created_at")\n\n  @@index([subscriptionId, createdAt])\n  @@map("payments")\n}\n\nenum PaymentStatus {\n  PENDING\n  APPROVED\n  REJECTED\n  REFUNDED\n}\n\n// =============================================\n// REMINDERS (Updated with FK to User)\n// =============================================\n\nmodel Reminder {\n  id           String   @id @default(cuid())\n  originalText String   @map("original_text")\n  reminderText String   @map("reminder_text")\n  scheduledAt  DateTime @map("scheduled_at")\n\n  // FK to User\n  userId String? @map("user_id")\n  user   User?   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  // Keep chatId for bot compatibility\n  chatId String @map("chat_id")\n\n  status          ReminderStatus @default(PENDING)\n  calendarEventId String?        @map("calendar_event_id")\n\n  recurrence     RecurrenceType @default(NONE)\n  recurrenceDay  Int?           @map("recurrence_day")\n  recurrenceTime String?        @map("recurrence_time")\n\n  createdAt DateTime  @default(now()) @map("created_at")\n  updatedAt DateTime  @updatedAt @map("updated_at")\n  sentAt    DateTime? @map("sent_at")\n\n  @@index([status, scheduledAt])\n  @@index([chatId, recurrence])\n  @@index([userId, status])\n  @@map("reminders")\n}\n\nenum ReminderStatus {\n  PENDING\n  SENT\n  FAILED\n  CANCELLED\n}\n\nenum RecurrenceType {\n  NONE\n  DAILY\n  WEEKLY\n  MONTHLY\n}\n\n// =============================================\n// BOT-SPECIFIC MODELS\n// =============================================\n\n// WhatsApp session storage for baileys\nmodel WhatsAppSession {\n  id        String   @id @default("default")\n  data      Json\n  createdAt DateTime @default(now()) @map("created_at")\n  updatedAt DateTime @updatedAt @map("updated_at")\n\n  @@map("whatsapp_sessions")\n}\n\n// Google OAuth tokens storage (for Calendar)\nmodel GoogleAuthToken {\n  id           String   @id @default("default")\n  accessToken  String   @map("access_token")\n  refreshToken String   @map("refresh_token")\n  expiresAt    DateTime @map("expires_at")\n  scope        String\n  tokenType    String   @default("Bearer") @map("token_type")\n  createdAt    DateTime @default(now()) @map("created_at")\n  updatedAt    DateTime @updatedAt @map("updated_at")\n\n  @@map("google_auth_tokens")\n}\n\n// Gmail OAuth tokens (per user, separate from calendar tokens)\nmodel EmailToken {\n  id     String @id @default(cuid())\n  userId String @unique @map("user_id")\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  accessToken  String    @map("access_token")\n  refreshToken String    @map("refresh_token")\n  expiresAt    DateTime  @map("expires_at")\n  scope        String\n  tokenType    String    @default("Bearer") @map("token_type")\n  historyId    String?   @map("history_id")\n  lastSyncAt   DateTime? @map("last_sync_at")\n\n  createdAt DateTime @default(now()) @map("created_at")\n  updatedAt DateTime @updatedAt @map("updated_at")\n\n  @@map("email_tokens")\n}\n\n// MercadoLibre OAuth tokens (per user)\nmodel MercadoLibreToken {\n  id           String   @id @default(cuid())\n  userId       String   @unique @map("user_id")\n  user         User     @relation(fields: [userId], references: [id], onDelete: Cascade)\n  accessToken  String   @map("access_token")\n  refreshToken String   @map("refresh_token")\n  expiresAt    DateTime @map("expires_at")\n  scope        String   @default("")\n  tokenType    String   @default("Bearer") @map("token_type")\n  mlUserId     String   @map("ml_user_id")\n  createdAt    DateTime @default(now()) @map("created_at")\n  updatedAt    DateTime @updatedAt @map("updated_at")\n\n  @@map("mercadolibre_tokens")\n}\n\n// Track processed emails to avoid duplicates\nmodel ProcessedEmail {\n  id     String @id @default(cuid())\n  userId String @map("user_id")\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  gmailMessageId String   @map("gmail_message_id")\n  threadId       String?  @map("thread_id")\n  subject        String?\n  sender         String?\n  receivedAt     DateTime @map("received_at")\n  processedAt    DateTime @default(now()) @map("processed_at")\n\n  emailType     EmailType @map("email_type")\n  extractedData Json?     @map("extracted_data")\n\n  reminderId String?              @unique @map("reminder_id")\n  status     ProcessedEmailStatus @default(PROCESSED)\n\n  expense Expense?\n\n  @@unique([userId, gmailMessageId])\n  @@index([userId, processedAt])\n  @@map("processed_emails")\n}\n\n// =============================================\n// EXPENSES (from Gmail purchase emails)\n// =============================================\n\nmodel Expense {\n  id     String @id @default(cuid())\n  userId String @map("user_id")\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  processedEmailId String?         @unique @map("processed_email_id")\n  processedEmail   ProcessedEmail? @relation(fields: [processedEmailId], references: [id])\n\n  merchant    String?\n  amount      Decimal         @db.Decimal(12, 2)\n  currency    String          @default("ARS")\n  category    ExpenseCategory @default(OTHER)\n  description String?\n  date        DateTime\n\n  createdAt DateTime @default(now()) @map("created_at")\n  updatedAt DateTime @updatedAt @map("updated_at")\n\n  @@index([userId, date])\n  @@index([userId, currency, date])\n  @@map("expenses")\n}\n\nenum ExpenseCategory {\n  FOOD\n  TRANSPORT\n  SHOPPING\n  UTILITIES\n  ENTERTAINMENT\n  HEALTH\n  EDUCATION\n  TRAVEL\n  SERVICES\n  OTHER\n}\n\nenum EmailType {\n  PURCHASE\n  DELIVERY\n  APPOINTMENT\n  MEETING\n  FLIGHT\n  LEGAL_HEARING\n  SECURITY\n  DEADLINE\n  COURSE\n  TASK\n  LEGAL_INFO\n  EVENT\n  OTHER\n}\n\nenum ProcessedEmailStatus {\n  PROCESSED\n  REMINDER_CREATED\n  SKIPPED\n  FAILED\n}\n\n// =============================================\n// SCHEDULED PAYMENTS (recurring MP transfer reminders)\n// =============================================\n\nmodel ScheduledPayment {\n  id          String  @id @default(cuid())\n  chatId      String  @map("chat_id")\n  recipient   String // alias, CVU or CBU\n  amount      Decimal @db.Decimal(12, 2)\n  description String?\n\n  recurrence     RecurrenceType @default(NONE)\n  recurrenceDay  Int?           @map("recurrence_day")\n  recurrenceTime String?        @map("recurrence_time")\n\n  nextPaymentAt DateTime               @map("next_payment_at")\n  totalPayments Int?                   @map("total_payments")\n  paidCount     Int                    @default(0) @map("paid_count")\n  status        ScheduledPaymentStatus @default(ACTIVE)\n\n  createdAt DateTime @default(now()) @map("created_at")\n  updatedAt DateTime @updatedAt @map("updated_at")\n\n  @@index([status, nextPaymentAt])\n  @@index([chatId, status])\n  @@map("scheduled_payments")\n}\n\nenum ScheduledPaymentStatus {\n  ACTIVE\n  CANCELLED\n  COMPLETED\n}\n\n// =============================================\n// COMMITS (GitHub webhook tracking)\n// =============================================\n\nmodel Commit {\n  id         String   @id @default(cuid())\n  sha        String   @unique\n  message    String\n  author     String\n  url        String\n  repository String\n  branch     String\n  timestamp  DateTime\n\n  createdAt DateTime @default(now()) @map("created_at")\n\n  @@index([repository, timestamp])\n  @@map("commits")\n}\n\n// =============================================\n// LINKING CODES (WhatsApp ↔ Website)\n// =============================================\n\nmodel LinkingCode {\n  id        String    @id @default(cuid())\n  code      String    @unique\n  chatId    String    @map("chat_id")\n  expiresAt DateTime  @map("expires_at")\n  usedAt    DateTime? @map("used_at")\n  usedBy    String?   @map("used_by")\n  createdAt DateTime  @default(now()) @map("created_at")\n\n  @@index([code, expiresAt])\n  @@map("linking_codes")\n}\n',
+    'generator client {\n  provider = "prisma-client"\n  output   = "./generated"\n}\n\ndatasource db {\n  provider = "postgresql"\n}\n\n// =============================================\n// USER & AUTH (Auth.js v5)\n// =============================================\n\nmodel User {\n  id String @id @default(cuid())\n\n  // Auth fields\n  email         String?   @unique\n  emailVerified DateTime? @map("email_verified")\n  passwordHash  String?   @map("password_hash")\n  name          String?\n  image         String?\n  role          UserRole  @default(USER)\n\n  // WhatsApp (connection with bot)\n  chatId   String? @unique @map("chat_id")\n  locale   String  @default("es")\n  timezone String  @default("America/Argentina/Buenos_Aires")\n  // Currency expense totals are consolidated into (ARS, USD or EUR)\n  currency String  @default("ARS")\n\n  // Daily digest settings\n  digestEnabled Boolean @default(true) @map("digest_enabled")\n  digestHour    Int     @default(8) @map("digest_hour")\n\n  // Local hours non-urgent emails are batched into one summary; empty notifies each one\n  emailDigestHours Int[] @default([]) @map("email_digest_hours")\n\n  // Google Calendar import: minutes before an event to send its reminder\n  calendarLeadMinutes Int @default(15) @map("calendar_lead_minutes")\n\n  // Phone of a second contact told about insistent reminders never acknowledged\n  escalationPhone String? @map("escalation_phone")\n\n  // Mercado Pago alias, CVU or CBU that group members settle up to\n  paymentAlias String? @map("payment_alias")\n\n  createdAt DateTime @default(now()) @map("created_at")\n  updatedAt DateTime @updatedAt @map("updated_at")\n\n  // Auth.js relations\n  accounts Account[]\n  sessions Session[]\n\n  // App relations\n  reminders           Reminder[]\n  subscription        Subscription?\n  emailTokens         EmailToken[]\n  imapAccounts        ImapAccount[]\n  googleAuthToken     GoogleAuthToken?\n  mercadoLibreToken   MercadoLibreToken?\n  processedEmails     ProcessedEmail[]\n  emailRules          EmailRule[]\n  expenses            Expense[]\n  budgets             Budget[]\n  recurringCharges    RecurringCharge[]\n  categoryRules       CategoryRule[]\n  customCategories    CustomCategory[]\n  expenseGroups       ExpenseGroupMember[]\n  expenseShares       ExpenseShare[]\n  incomes             Income[]\n  expenseAnomalies    ExpenseAnomaly[]\n  settlementsPaid     GroupSettlement[]    @relation("SettlementFrom")\n  settlementsReceived GroupSettlement[]    @relation("SettlementTo")\n\n  @@map("users")\n}\n\nenum UserRole {\n  USER\n  ADMIN\n}\n\nmodel Account {\n  id                String  @id @default(cuid())\n  userId            String  @map("user_id")\n  type              String\n  provider          String\n  providerAccountId String  @map("provider_account_id")\n  refresh_token     String? @db.Text\n  access_token      String? @db.Text\n  expires_at        Int?\n  token_type        String?\n  scope             String?\n  id_token          String? @db.Text\n  session_state     String?\n\n  user User @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@unique([provider, providerAccountId])\n  @@map("accounts")\n}\n\nmodel Session {\n  id           String   @id @default(cuid())\n  sessionToken String   @unique @map("session_token")\n  userId       String   @map("user_id")\n  expires      DateTime\n  user         User     @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  @@map("sessions")\n}\n\nmodel VerificationToken {\n  identifier String\n  token      String   @unique\n  expires    DateTime\n\n  @@unique([identifier, token])\n  @@map("verification_tokens")\n}\n\n// =============================================\n// PLANS & SUBSCRIPTIONS\n// =============================================\n\nmodel Plan {\n  id          String  @id @default(cuid())\n  name        String\n  description String?\n\n  // Prices in cents\n  priceMonthly Int    @map("price_monthly")\n  priceYearly  Int    @map("price_yearly")\n  currency     String @default("ARS")\n\n  // Mercado Pago Plan IDs\n  mpPlanIdMonthly String? @unique @map("mp_plan_id_monthly")\n  mpPlanIdYearly  String? @unique @map("mp_plan_id_yearly")\n\n  // Features and limits\n  features         Json    @default("[]")\n  maxReminders     Int?    @map("max_reminders")\n  maxEmailAccounts Int?    @map("max_email_accounts")\n  hasCalendarSync  Boolean @default(false) @map("has_calendar_sync")\n  hasEmailSync     Boolean @default(false) @map("has_email_sync")\n  hasEmailReply    Boolean @default(false) @map("has_email_reply")\n\n  trialDays Int     @default(0) @map("trial_days")\n  isActive  Boolean @default(true) @map("is_active")\n  sortOrder Int     @default(0) @map("sort_order")\n\n  createdAt DateTime @default(now()) @map("created_at")\n  updatedAt DateTime @updatedAt @map("updated_at")\n\n  subscriptions Subscription[]\n\n  @@map("plans")\n}\n\nmodel Subscription {\n  id     String @id @default(cuid())\n  userId String @unique @map("user_id")\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  planId String @map("plan_id")\n  plan   Plan   @relation(fields: [planId], references: [id])\n\n  status       SubscriptionStatus @default(TRIALING)\n  billingCycle BillingCycle       @map("billing_cycle")\n\n  // Mercado Pago\n  mpSubscriptionId String? @unique @map("mp_subscription_id")\n  mpPayerId        String? @map("mp_payer_id")\n\n  // Periods\n  currentPeriodStart DateTime  @map("current_period_start")\n  currentPeriodEnd   DateTime  @map("current_period_end")\n  trialEndsAt        DateTime? @map("trial_ends_at")\n  cancelledAt        DateTime? @map("cancelled_at")\n\n  createdAt DateTime @default(now()) @map("created_at")\n  updatedAt DateTime @updatedAt @map("updated_at")\n\n  payments Payment[]\n\n  @@map("subscriptions")\n}\n\nenum SubscriptionStatus {\n  TRIALING\n  ACTIVE\n  PAST_DUE\n  CANCELLED\n  PAUSED\n}\n\nenum BillingCycle {\n  MONTHLY\n  YEARLY\n}\n\nmodel Payment {\n  id             String       @id @default(cuid())\n  subscriptionId String       @map("subscription_id")\n  subscription   Subscription @relation(fields: [subscriptionId], references: [id], onDelete: Cascade)\n\n  amount   Int // Cents\n  currency String        @default("ARS")\n  status   PaymentStatus\n\n  mpPaymentId String? @unique @map("mp_payment_id")\n  mpStatus    String? @map("mp_status")\n\n  paidAt    DateTime? @map("paid_at")\n  createdAt DateTime  @default(now()) @map("created_at")\n\n  @@index([subscriptionId, createdAt])\n  @@map("payments")\n}\n\nenum PaymentStatus {\n  PENDING\n  APPROVED\n  REJECTED\n  REFUNDED\n}\n\n// =============================================\n// REMINDERS (Updated with FK to User)\n// =============================================\n\nmodel Reminder {\n  id           String   @id @default(cuid())\n  originalText String   @map("original_text")\n  reminderText String   @map("reminder_text")\n  scheduledAt  DateTime @map("scheduled_at")\n\n  // FK to User\n  userId String? @map("user_id")\n  user   User?   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  // Keep chatId for bot compatibility\n  chatId String @map("chat_id")\n\n  status          ReminderStatus @default(PENDING)\n  calendarEventId String?        @map("calendar_event_id")\n  source          ReminderSource @default(BOT)\n\n  recurrence            RecurrenceType @default(NONE)\n  recurrenceDay         Int?           @map("recurrence_day")\n  recurrenceTime        String?        @map("recurrence_time")\n  // RFC 5545 rule, e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH". Takes precedence\n  // over recurrenceDay; null on reminders created before RRULE support\n  rrule                 String?\n  // 1-based position in the series, to honour COUNT\n  occurrenceIndex       Int            @default(1) @map("occurrence_index")\n  // WhatsApp id of the delivered notification, so quoted replies find the reminder\n  notificationMessageId String?        @map("notification_message_id")\n\n  // Insist mode: re-send at a growing interval until acknowledged\n  insist      Boolean   @default(false)\n  nagCount    Int       @default(0) @map("nag_count")\n  nextNagAt   DateTime? @map("next_nag_at")\n  escalatedAt DateTime? @map("escalated_at")\n\n  createdAt DateTime  @default(now()) @map("created_at")\n  updatedAt DateTime  @updatedAt @map("updated_at")\n  sentAt    DateTime? @map("sent_at")\n\n  @@index([status, scheduledAt])\n  @@index([chatId, recurrence])\n  @@index([userId, status])\n  @@index([chatId, calendarEventId])\n  @@index([notificationMessageId])\n  @@index([status, nextNagAt])\n  @@map("reminders")\n}\n\nenum ReminderStatus {\n  PENDING\n  SENT\n  // User marked a delivered reminder as done\n  ACKNOWLEDGED\n  FAILED\n  CANCELLED\n}\n\nenum RecurrenceType {\n  NONE\n  DAILY\n  WEEKLY\n  MONTHLY\n}\n\nenum ReminderSource {\n  BOT // Created from WhatsApp/email, pushed to Calendar\n  CALENDAR // Imported from a Google Calendar event\n}\n\n// =============================================\n// BOT-SPECIFIC MODELS\n// =============================================\n\n// WhatsApp session storage for baileys\nmodel WhatsAppSession {\n  id        String   @id @default("default")\n  data      Json\n  createdAt DateTime @default(now()) @map("created_at")\n  updatedAt DateTime @updatedAt @map("updated_at")\n\n  @@map("whatsapp_sessions")\n}\n\n// Pending conversational flows per chat (reply confirmations, transfers, etc.)\nmodel ConversationState {\n  id        String   @id @default(cuid())\n  chatId    String   @map("chat_id")\n  type      String\n  data      Json\n  expiresAt DateTime @map("expires_at")\n  createdAt DateTime @default(now()) @map("created_at")\n  updatedAt DateTime @updatedAt @map("updated_at")\n\n  @@unique([chatId, type])\n  @@index([expiresAt])\n  @@map("conversation_states")\n}\n\n// Google Calendar OAuth tokens (per user)\nmodel GoogleAuthToken {\n  id     String @id @default(cuid())\n  userId String @unique @map("user_id")\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  accessToken  String   @map("access_token")\n  refreshToken String   @map("refresh_token")\n  expiresAt    DateTime @map("expires_at")\n  scope        String\n  tokenType    String   @default("Bearer") @map("token_type")\n\n  // Incremental event sync\n  syncToken      String?   @map("sync_token")\n  lastFullSyncAt DateTime? @map("last_full_sync_at")\n\n  createdAt DateTime @default(now()) @map("created_at")\n  updatedAt DateTime @updatedAt @map("updated_at")\n\n  @@map("google_auth_tokens")\n}\n\n// Gmail OAuth tokens, one per linked mailbox (separate from calendar tokens)\nmodel EmailToken {\n  id     String @id @default(cuid())\n  userId String @map("user_id")\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  // Name the user picks the mailbox by ("personal", "trabajo")\n  label String  @default("personal")\n  email String?\n\n  accessToken  String    @map("access_token")\n  refreshToken String    @map("refresh_token")\n  expiresAt    DateTime  @map("expires_at")\n  scope        String\n  tokenType    String    @default("Bearer") @map("token_type")\n  historyId    String?   @map("history_id")\n  lastSyncAt   DateTime? @map("last_sync_at")\n\n  // Gmail push (users.watch) expiry; renewed by the sync before it lapses\n  watchExpiresAt DateTime? @map("watch_expires_at")\n\n  createdAt DateTime @default(now()) @map("created_at")\n  updatedAt DateTime @updatedAt @map("updated_at")\n\n  @@unique([userId, label])\n  @@index([email])\n  @@map("email_tokens")\n}\n\n// IMAP/SMTP mailbox (Outlook, Yahoo, corporate servers), alternative to Gmail OAuth\nmodel ImapAccount {\n  id     String @id @default(cuid())\n  userId String @map("user_id")\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  label    String @default("personal")\n  email    String\n  username String\n  password String\n  imapHost String @map("imap_host")\n  imapPort Int    @default(993) @map("imap_port")\n  smtpHost String @map("smtp_host")\n  smtpPort Int    @default(465) @map("smtp_port")\n\n  // Incremental sync: UIDs are only comparable within the same UIDVALIDITY\n  uidValidity String?   @map("uid_validity")\n  lastUid     Int?      @map("last_uid")\n  lastSyncAt  DateTime? @map("last_sync_at")\n\n  createdAt DateTime @default(now()) @map("created_at")\n  updatedAt DateTime @updatedAt @map("updated_at")\n\n  @@unique([userId, label])\n  @@map("imap_accounts")\n}\n\n// MercadoLibre OAuth tokens (per user)\nmodel MercadoLibreToken {\n  id           String   @id @default(cuid())\n  userId       String   @unique @map("user_id")\n  user         User     @relation(fields: [userId], references: [id], onDelete: Cascade)\n  accessToken  String   @map("access_token")\n  refreshToken String   @map("refresh_token")\n  expiresAt    DateTime @map("expires_at")\n  scope        String   @default("")\n  tokenType    String   @default("Bearer") @map("token_type")\n  mlUserId     String   @map("ml_user_id")\n  createdAt    DateTime @default(now()) @map("created_at")\n  updatedAt    DateTime @updatedAt @map("updated_at")\n\n  @@map("mercadolibre_tokens")\n}\n\n// Track processed emails to avoid duplicates\nmodel ProcessedEmail {\n  id     String @id @default(cuid())\n  userId String @map("user_id")\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  // Mailbox the email came from (EmailToken or ImapAccount id); null before multi-account\n  accountId      String?  @map("account_id")\n  // Provider message id: Gmail id, or "<uidValidity>:<uid>" for IMAP\n  gmailMessageId String   @map("gmail_message_id")\n  threadId       String?  @map("thread_id")\n  subject        String?\n  sender         String?\n  receivedAt     DateTime @map("received_at")\n  processedAt    DateTime @default(now()) @map("processed_at")\n\n  emailType     EmailType @map("email_type")\n  extractedData Json?     @map("extracted_data")\n\n  reminderId    String?              @unique @map("reminder_id")\n  status        ProcessedEmailStatus @default(PROCESSED)\n  // Held for the user\'s next email summary instead of notified right away\n  digestPending Boolean              @default(false) @map("digest_pending")\n\n  expense Expense?\n  income  Income?\n\n  @@unique([userId, accountId, gmailMessageId])\n  @@index([userId, processedAt])\n  @@index([userId, digestPending])\n  @@map("processed_emails")\n}\n\n// =============================================\n// EXPENSES (from Gmail purchase emails)\n// =============================================\n\nmodel Expense {\n  id     String @id @default(cuid())\n  userId String @map("user_id")\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  processedEmailId String?         @unique @map("processed_email_id")\n  processedEmail   ProcessedEmail? @relation(fields: [processedEmailId], references: [id])\n\n  merchant    String?\n  amount      Decimal         @db.Decimal(12, 2)\n  currency    String          @default("ARS")\n  category    ExpenseCategory @default(OTHER)\n  description String?\n  date        DateTime\n\n  // User-defined category shown instead of `category` (which budgets still use)\n  customCategoryId String?         @map("custom_category_id")\n  customCategory   CustomCategory? @relation(fields: [customCategoryId], references: [id], onDelete: SetNull)\n  // Free-form labels, lowercase without "#" ("trabajo", "viaje-bariloche")\n  tags             String[]        @default([])\n\n  // ARS rates of the expense\'s date, used to consolidate totals across currencies\n  exchangeRateId String?       @map("exchange_rate_id")\n  exchangeRate   ExchangeRate? @relation(fields: [exchangeRateId], references: [id])\n\n  // What the other members of a group owe for it\n  shares  ExpenseShare[]\n  // Set when the charge looked unusual as it was recorded\n  anomaly ExpenseAnomaly?\n\n  createdAt DateTime @default(now()) @map("created_at")\n  updatedAt DateTime @updatedAt @map("updated_at")\n\n  @@index([userId, date])\n  @@index([userId, currency, date])\n  @@index([userId, customCategoryId])\n  @@map("expenses")\n}\n\n// Unusual charge flagged when the expense was recorded, until the user reviews it\nmodel ExpenseAnomaly {\n  id        String  @id @default(cuid())\n  userId    String  @map("user_id")\n  user      User    @relation(fields: [userId], references: [id], onDelete: Cascade)\n  expenseId String  @unique @map("expense_id")\n  expense   Expense @relation(fields: [expenseId], references: [id], onDelete: Cascade)\n\n  reasons       AnomalyReason[]\n  // Typical amount at the merchant or in the category (unusual amounts)\n  usualAmount   Decimal?        @map("usual_amount") @db.Decimal(12, 2)\n  // Earlier expense this one seems to repeat\n  duplicateOfId String?         @map("duplicate_of_id")\n\n  status     AnomalyStatus @default(OPEN)\n  resolvedAt DateTime?     @map("resolved_at")\n  createdAt  DateTime      @default(now()) @map("created_at")\n\n  @@index([userId, status])\n  @@map("expense_anomalies")\n}\n\nenum AnomalyReason {\n  UNUSUAL_FOR_MERCHANT\n  UNUSUAL_FOR_CATEGORY\n  DUPLICATE\n  NEW_MERCHANT\n}\n\nenum AnomalyStatus {\n  OPEN\n  DISMISSED\n  FRAUD\n}\n\n// Salary, transfers received and other money in, for the cash-flow report\nmodel Income {\n  id     String @id @default(cuid())\n  userId String @map("user_id")\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  // Set when detected from a "te transfirieron" email\n  processedEmailId String?         @unique @map("processed_email_id")\n  processedEmail   ProcessedEmail? @relation(fields: [processedEmailId], references: [id])\n\n  // Employer, client or person who sent the money\n  source      String?\n  amount      Decimal        @db.Decimal(12, 2)\n  currency    String         @default("ARS")\n  category    IncomeCategory @default(OTHER)\n  description String?\n  date        DateTime\n\n  exchangeRateId String?       @map("exchange_rate_id")\n  exchangeRate   ExchangeRate? @relation(fields: [exchangeRateId], references: [id])\n\n  createdAt DateTime @default(now()) @map("created_at")\n  updatedAt DateTime @updatedAt @map("updated_at")\n\n  @@index([userId, date])\n  @@map("incomes")\n}\n\nenum IncomeCategory {\n  SALARY\n  FREELANCE\n  TRANSFER\n  INVESTMENT\n  RENTAL\n  REFUND\n  OTHER\n}\n\n// Category the user created on top of the built-in ones ("auto", "chicos")\nmodel CustomCategory {\n  id     String @id @default(cuid())\n  userId String @map("user_id")\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  key      String // Normalized name, for matching\n  name     String\n  expenses Expense[]\n\n  createdAt DateTime @default(now()) @map("created_at")\n\n  @@unique([userId, key])\n  @@map("custom_categories")\n}\n\n// Household or roommates sharing expenses between linked users\nmodel ExpenseGroup {\n  id          String @id @default(cuid())\n  name        String\n  createdById String @map("created_by_id")\n\n  members     ExpenseGroupMember[]\n  shares      ExpenseShare[]\n  settlements GroupSettlement[]\n\n  createdAt DateTime @default(now()) @map("created_at")\n\n  @@map("expense_groups")\n}\n\nenum GroupMemberStatus {\n  INVITED\n  ACTIVE\n}\n\nmodel ExpenseGroupMember {\n  id      String       @id @default(cuid())\n  groupId String       @map("group_id")\n  group   ExpenseGroup @relation(fields: [groupId], references: [id], onDelete: Cascade)\n  userId  String       @map("user_id")\n  user    User         @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  status GroupMemberStatus @default(INVITED)\n\n  createdAt DateTime @default(now()) @map("created_at")\n  updatedAt DateTime @updatedAt @map("updated_at")\n\n  @@unique([groupId, userId])\n  @@index([userId])\n  @@map("expense_group_members")\n}\n\n// One row per member who owes part of an expense paid by someone else\nmodel ExpenseShare {\n  id        String       @id @default(cuid())\n  groupId   String       @map("group_id")\n  group     ExpenseGroup @relation(fields: [groupId], references: [id], onDelete: Cascade)\n  expenseId String       @map("expense_id")\n  expense   Expense      @relation(fields: [expenseId], references: [id], onDelete: Cascade)\n  userId    String       @map("user_id")\n  user      User         @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  amount Decimal @db.Decimal(12, 2)\n\n  createdAt DateTime @default(now()) @map("created_at")\n\n  @@unique([expenseId, userId])\n  @@index([groupId])\n  @@map("expense_shares")\n}\n\nmodel GroupSettlement {\n  id         String       @id @default(cuid())\n  groupId    String       @map("group_id")\n  group      ExpenseGroup @relation(fields: [groupId], references: [id], onDelete: Cascade)\n  fromUserId String       @map("from_user_id")\n  fromUser   User         @relation("SettlementFrom", fields: [fromUserId], references: [id], onDelete: Cascade)\n  toUserId   String       @map("to_user_id")\n  toUser     User         @relation("SettlementTo", fields: [toUserId], references: [id], onDelete: Cascade)\n\n  amount   Decimal @db.Decimal(12, 2)\n  currency String  @default("ARS")\n\n  createdAt DateTime @default(now()) @map("created_at")\n\n  @@index([groupId])\n  @@map("group_settlements")\n}\n\n// Daily ARS selling rates (Bluelytics), cached once per Argentine calendar day\nmodel ExchangeRate {\n  id          String  @id @default(cuid())\n  day         String  @unique // "YYYY-MM-DD"\n  officialUsd Decimal @map("official_usd") @db.Decimal(12, 4)\n  blueUsd     Decimal @map("blue_usd") @db.Decimal(12, 4)\n  officialEur Decimal @map("official_eur") @db.Decimal(12, 4)\n  blueEur     Decimal @map("blue_eur") @db.Decimal(12, 4)\n\n  expenses Expense[]\n  incomes  Income[]\n\n  createdAt DateTime @default(now()) @map("created_at")\n\n  @@map("exchange_rates")\n}\n\n// Monthly spending limit for one category in one currency\nmodel Budget {\n  id     String @id @default(cuid())\n  userId String @map("user_id")\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  category ExpenseCategory\n  currency String          @default("ARS")\n  amount   Decimal         @db.Decimal(12, 2)\n\n  // Highest threshold (50/80/100 %) already alerted in alertedPeriod ("YYYY-MM")\n  alertedPercent Int     @default(0) @map("alerted_percent")\n  alertedPeriod  String? @map("alerted_period")\n\n  createdAt DateTime @default(now()) @map("created_at")\n  updatedAt DateTime @updatedAt @map("updated_at")\n\n  @@unique([userId, category, currency])\n  @@map("budgets")\n}\n\n// Category the user chose for a merchant, applied over the LLM\'s guess\nmodel CategoryRule {\n  id     String @id @default(cuid())\n  userId String @map("user_id")\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  merchantKey String          @map("merchant_key") // Normalized merchant name\n  merchant    String\n  category    ExpenseCategory\n\n  createdAt DateTime @default(now()) @map("created_at")\n  updatedAt DateTime @updatedAt @map("updated_at")\n\n  @@unique([userId, merchantKey])\n  @@map("category_rules")\n}\n\nenum RecurringPeriod {\n  WEEKLY\n  MONTHLY\n  YEARLY\n}\n\n// A charge that repeats with a stable amount (streaming, gym, ISP...), detected from expenses\nmodel RecurringCharge {\n  id     String @id @default(cuid())\n  userId String @map("user_id")\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  merchantKey    String          @map("merchant_key") // Normalized merchant name\n  merchant       String\n  currency       String\n  period         RecurringPeriod\n  amount         Decimal         @db.Decimal(12, 2) // Latest charge\n  previousAmount Decimal?        @map("previous_amount") @db.Decimal(12, 2) // Before a price increase\n  lastChargeAt   DateTime        @map("last_charge_at")\n  nextExpectedAt DateTime        @map("next_expected_at")\n\n  // Alerts already sent: price increase of the charge at lastChargeAt, missing charge due at missedAlertedFor\n  priceAlertedAt   DateTime? @map("price_alerted_at")\n  missedAlertedFor DateTime? @map("missed_alerted_for")\n\n  // Reminder the user asked for before each charge\n  reminderId String? @map("reminder_id")\n\n  createdAt DateTime @default(now()) @map("created_at")\n  updatedAt DateTime @updatedAt @map("updated_at")\n\n  @@unique([userId, merchantKey, currency])\n  @@map("recurring_charges")\n}\n\nenum ExpenseCategory {\n  FOOD\n  TRANSPORT\n  SHOPPING\n  UTILITIES\n  ENTERTAINMENT\n  HEALTH\n  EDUCATION\n  TRAVEL\n  SERVICES\n  OTHER\n}\n\nenum EmailType {\n  PURCHASE\n  INCOME\n  DELIVERY\n  APPOINTMENT\n  MEETING\n  FLIGHT\n  LEGAL_HEARING\n  SECURITY\n  DEADLINE\n  COURSE\n  TASK\n  LEGAL_INFO\n  EVENT\n  OTHER\n}\n\n// Email notification rule the user set by chat ("nunca me avises de X",\n// "no quiero avisos de DELIVERY", "solo seguridad de noche")\nmodel EmailRule {\n  id     String @id @default(cuid())\n  userId String @map("user_id")\n  user   User   @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  action    EmailRuleAction\n  // Matches the sender (lowercased fragment of the From header) or a type; neither = every email\n  sender    String?\n  emailType EmailType?      @map("email_type")\n  // Local hours it applies in, end exclusive and wrapping midnight; null = all day\n  startHour Int?            @map("start_hour")\n  endHour   Int?            @map("end_hour")\n  // Sender/type and hours in one key, so a new rule replaces the one it contradicts\n  ruleKey   String          @map("rule_key")\n\n  createdAt DateTime @default(now()) @map("created_at")\n\n  @@unique([userId, ruleKey])\n  @@map("email_rules")\n}\n\nenum EmailRuleAction {\n  ALLOW\n  BLOCK\n}\n\nenum ProcessedEmailStatus {\n  PROCESSED\n  REMINDER_CREATED\n  SKIPPED\n  FAILED\n}\n\n// =============================================\n// SCHEDULED PAYMENTS (recurring MP transfer reminders)\n// =============================================\n\nmodel ScheduledPayment {\n  id          String               @id @default(cuid())\n  chatId      String               @map("chat_id")\n  userId      String?              @map("user_id")\n  recipient   String // alias, CVU or CBU\n  amount      Decimal              @db.Decimal(12, 2)\n  description String?\n  mode        ScheduledPaymentMode @default(REMINDER)\n\n  recurrence     RecurrenceType @default(NONE)\n  recurrenceDay  Int?           @map("recurrence_day")\n  recurrenceTime String?        @map("recurrence_time")\n\n  nextPaymentAt     DateTime               @map("next_payment_at")\n  totalPayments     Int?                   @map("total_payments")\n  paidCount         Int                    @default(0) @map("paid_count")\n  status            ScheduledPaymentStatus @default(ACTIVE)\n  lastTransactionId String?                @map("last_transaction_id")\n  lastError         String?                @map("last_error")\n\n  createdAt DateTime @default(now()) @map("created_at")\n  updatedAt DateTime @updatedAt @map("updated_at")\n\n  @@index([status, nextPaymentAt])\n  @@index([chatId, status])\n  @@map("scheduled_payments")\n}\n\nenum ScheduledPaymentStatus {\n  ACTIVE\n  PROCESSING\n  CANCELLED\n  COMPLETED\n  FAILED\n}\n\nenum ScheduledPaymentMode {\n  REMINDER // sends a Mercado Pago link for the user to pay\n  TRANSFER // executes the transfer automatically via MeliTransferService\n}\n\n// =============================================\n// COMMITS (GitHub webhook tracking)\n// =============================================\n\nmodel Commit {\n  id         String   @id @default(cuid())\n  sha        String   @unique\n  message    String\n  author     String\n  url        String\n  repository String\n  branch     String\n  timestamp  DateTime\n\n  createdAt DateTime @default(now()) @map("created_at")\n\n  @@index([repository, timestamp])\n  @@map("commits")\n}\n\n// =============================================\n// LINKING CODES (WhatsApp ↔ Website)\n// =============================================\n\nmodel LinkingCode {\n  id        String    @id @default(cuid())\n  code      String    @unique\n  chatId    String    @map("chat_id")\n  expiresAt DateTime  @map("expires_at")\n  usedAt    DateTime? @map("used_at")\n  usedBy    String?   @map("used_by")\n  createdAt DateTime  @default(now()) @map("created_at")\n\n  @@index([code, expiresAt])\n  @@map("linking_codes")\n}\n',
   runtimeDataModel: {
     models: {},
     enums: {},
@@ -28,7 +28,7 @@ const config: runtime.GetPrismaClientConfig = {
 };
 
 config.runtimeDataModel = JSON.parse(
-  '{"models":{"User":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"email","kind":"scalar","type":"String"},{"name":"emailVerified","kind":"scalar","type":"DateTime","dbName":"email_verified"},{"name":"passwordHash","kind":"scalar","type":"String","dbName":"password_hash"},{"name":"name","kind":"scalar","type":"String"},{"name":"image","kind":"scalar","type":"String"},{"name":"role","kind":"enum","type":"UserRole"},{"name":"chatId","kind":"scalar","type":"String","dbName":"chat_id"},{"name":"locale","kind":"scalar","type":"String"},{"name":"digestEnabled","kind":"scalar","type":"Boolean","dbName":"digest_enabled"},{"name":"digestHour","kind":"scalar","type":"Int","dbName":"digest_hour"},{"name":"createdAt","kind":"scalar","type":"DateTime","dbName":"created_at"},{"name":"updatedAt","kind":"scalar","type":"DateTime","dbName":"updated_at"},{"name":"accounts","kind":"object","type":"Account","relationName":"AccountToUser"},{"name":"sessions","kind":"object","type":"Session","relationName":"SessionToUser"},{"name":"reminders","kind":"object","type":"Reminder","relationName":"ReminderToUser"},{"name":"subscription","kind":"object","type":"Subscription","relationName":"SubscriptionToUser"},{"name":"emailToken","kind":"object","type":"EmailToken","relationName":"EmailTokenToUser"},{"name":"mercadoLibreToken","kind":"object","type":"MercadoLibreToken","relationName":"MercadoLibreTokenToUser"},{"name":"processedEmails","kind":"object","type":"ProcessedEmail","relationName":"ProcessedEmailToUser"},{"name":"expenses","kind":"object","type":"Expense","relationName":"ExpenseToUser"}],"dbName":"users"},"Account":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String","dbName":"user_id"},{"name":"type","kind":"scalar","type":"String"},{"name":"provider","kind":"scalar","type":"String"},{"name":"providerAccountId","kind":"scalar","type":"String","dbName":"provider_account_id"},{"name":"refresh_token","kind":"scalar","type":"String"},{"name":"access_token","kind":"scalar","type":"String"},{"name":"expires_at","kind":"scalar","type":"Int"},{"name":"token_type","kind":"scalar","type":"String"},{"name":"scope","kind":"scalar","type":"String"},{"name":"id_token","kind":"scalar","type":"String"},{"name":"session_state","kind":"scalar","type":"String"},{"name":"user","kind":"object","type":"User","relationName":"AccountToUser"}],"dbName":"accounts"},"Session":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"sessionToken","kind":"scalar","type":"String","dbName":"session_token"},{"name":"userId","kind":"scalar","type":"String","dbName":"user_id"},{"name":"expires","kind":"scalar","type":"DateTime"},{"name":"user","kind":"object","type":"User","relationName":"SessionToUser"}],"dbName":"sessions"},"VerificationToken":{"fields":[{"name":"identifier","kind":"scalar","type":"String"},{"name":"token","kind":"scalar","type":"String"},{"name":"expires","kind":"scalar","type":"DateTime"}],"dbName":"verification_tokens"},"Plan":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"name","kind":"scalar","type":"String"},{"name":"description","kind":"scalar","type":"String"},{"name":"priceMonthly","kind":"scalar","type":"Int","dbName":"price_monthly"},{"name":"priceYearly","kind":"scalar","type":"Int","dbName":"price_yearly"},{"name":"currency","kind":"scalar","type":"String"},{"name":"mpPlanIdMonthly","kind":"scalar","type":"String","dbName":"mp_plan_id_monthly"},{"name":"mpPlanIdYearly","kind":"scalar","type":"String","dbName":"mp_plan_id_yearly"},{"name":"features","kind":"scalar","type":"Json"},{"name":"maxReminders","kind":"scalar","type":"Int","dbName":"max_reminders"},{"name":"maxEmailAccounts","kind":"scalar","type":"Int","dbName":"max_email_accounts"},{"name":"hasCalendarSync","kind":"scalar","type":"Boolean","dbName":"has_calendar_sync"},{"name":"hasEmailSync","kind":"scalar","type":"Boolean","dbName":"has_email_sync"},{"name":"hasEmailReply","kind":"scalar","type":"Boolean","dbName":"has_email_reply"},{"name":"trialDays","kind":"scalar","type":"Int","dbName":"trial_days"},{"name":"isActive","kind":"scalar","type":"Boolean","dbName":"is_active"},{"name":"sortOrder","kind":"scalar","type":"Int","dbName":"sort_order"},{"name":"createdAt","kind":"scalar","type":"DateTime","dbName":"created_at"},{"name":"updatedAt","kind":"scalar","type":"DateTime","dbName":"updated_at"},{"name":"subscriptions","kind":"object","type":"Subscription","relationName":"PlanToSubscription"}],"dbName":"plans"},"Subscription":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String","dbName":"user_id"},{"name":"user","kind":"object","type":"User","relationName":"SubscriptionToUser"},{"name":"planId","kind":"scalar","type":"String","dbName":"plan_id"},{"name":"plan","kind":"object","type":"Plan","relationName":"PlanToSubscription"},{"name":"status","kind":"enum","type":"SubscriptionStatus"},{"name":"billingCycle","kind":"enum","type":"BillingCycle","dbName":"billing_cycle"},{"name":"mpSubscriptionId","kind":"scalar","type":"String","dbName":"mp_subscription_id"},{"name":"mpPayerId","kind":"scalar","type":"String","dbName":"mp_payer_id"},{"name":"currentPeriodStart","kind":"scalar","type":"DateTime","dbName":"current_period_start"},{"name":"currentPeriodEnd","kind":"scalar","type":"DateTime","dbName":"current_period_end"},{"name":"trialEndsAt","kind":"scalar","type":"DateTime","dbName":"trial_ends_at"},{"name":"cancelledAt","kind":"scalar","type":"DateTime","dbName":"cancelled_at"},{"name":"createdAt","kind":"scalar","type":"DateTime","dbName":"created_at"},{"name":"updatedAt","kind":"scalar","type":"DateTime","dbName":"updated_at"},{"name":"payments","kind":"object","type":"Payment","relationName":"PaymentToSubscription"}],"dbName":"subscriptions"},"Payment":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"subscriptionId","kind":"scalar","type":"String","dbName":"subscription_id"},{"name":"subscription","kind":"object","type":"Subscription","relationName":"PaymentToSubscription"},{"name":"amount","kind":"scalar","type":"Int"},{"name":"currency","kind":"scalar","type":"String"},{"name":"status","kind":"enum","type":"PaymentStatus"},{"name":"mpPaymentId","kind":"scalar","type":"String","dbName":"mp_payment_id"},{"name":"mpStatus","kind":"scalar","type":"String","dbName":"mp_status"},{"name":"paidAt","kind":"scalar","type":"DateTime","dbName":"paid_at"},{"name":"createdAt","kind":"scalar","type":"DateTime","dbName":"created_at"}],"dbName":"payments"},"Reminder":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"originalText","kind":"scalar","type":"String","dbName":"original_text"},{"name":"reminderText","kind":"scalar","type":"String","dbName":"reminder_text"},{"name":"scheduledAt","kind":"scalar","type":"DateTime","dbName":"scheduled_at"},{"name":"userId","kind":"scalar","type":"String","dbName":"user_id"},{"name":"user","kind":"object","type":"User","relationName":"ReminderToUser"},{"name":"chatId","kind":"scalar","type":"String","dbName":"chat_id"},{"name":"status","kind":"enum","type":"ReminderStatus"},{"name":"calendarEventId","kind":"scalar","type":"String","dbName":"calendar_event_id"},{"name":"recurrence","kind":"enum","type":"RecurrenceType"},{"name":"recurrenceDay","kind":"scalar","type":"Int","dbName":"recurrence_day"},{"name":"recurrenceTime","kind":"scalar","type":"String","dbName":"recurrence_time"},{"name":"createdAt","kind":"scalar","type":"DateTime","dbName":"created_at"},{"name":"updatedAt","kind":"scalar","type":"DateTime","dbName":"updated_at"},{"name":"sentAt","kind":"scalar","type":"DateTime","dbName":"sent_at"}],"dbName":"reminders"},"WhatsAppSession":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"data","kind":"scalar","type":"Json"},{"name":"createdAt","kind":"scalar","type":"DateTime","dbName":"created_at"},{"name":"updatedAt","kind":"scalar","type":"DateTime","dbName":"updated_at"}],"dbName":"whatsapp_sessions"},"GoogleAuthToken":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"accessToken","kind":"scalar","type":"String","dbName":"access_token"},{"name":"refreshToken","kind":"scalar","type":"String","dbName":"refresh_token"},{"name":"expiresAt","kind":"scalar","type":"DateTime","dbName":"expires_at"},{"name":"scope","kind":"scalar","type":"String"},{"name":"tokenType","kind":"scalar","type":"String","dbName":"token_type"},{"name":"createdAt","kind":"scalar","type":"DateTime","dbName":"created_at"},{"name":"updatedAt","kind":"scalar","type":"DateTime","dbName":"updated_at"}],"dbName":"google_auth_tokens"},"EmailToken":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String","dbName":"user_id"},{"name":"user","kind":"object","type":"User","relationName":"EmailTokenToUser"},{"name":"accessToken","kind":"scalar","type":"String","dbName":"access_token"},{"name":"refreshToken","kind":"scalar","type":"String","dbName":"refresh_token"},{"name":"expiresAt","kind":"scalar","type":"DateTime","dbName":"expires_at"},{"name":"scope","kind":"scalar","type":"String"},{"name":"tokenType","kind":"scalar","type":"String","dbName":"token_type"},{"name":"historyId","kind":"scalar","type":"String","dbName":"history_id"},{"name":"lastSyncAt","kind":"scalar","type":"DateTime","dbName":"last_sync_at"},{"name":"createdAt","kind":"scalar","type":"DateTime","dbName":"created_at"},{"name":"updatedAt","kind":"scalar","type":"DateTime","dbName":"updated_at"}],"dbName":"email_tokens"},"MercadoLibreToken":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String","dbName":"user_id"},{"name":"user","kind":"object","type":"User","relationName":"MercadoLibreTokenToUser"},{"name":"accessToken","kind":"scalar","type":"String","dbName":"access_token"},{"name":"refreshToken","kind":"scalar","type":"String","dbName":"refresh_token"},{"name":"expiresAt","kind":"scalar","type":"DateTime","dbName":"expires_at"},{"name":"scope","kind":"scalar","type":"String"},{"name":"tokenType","kind":"scalar","type":"String","dbName":"token_type"},{"name":"mlUserId","kind":"scalar","type":"String","dbName":"ml_user_id"},{"name":"createdAt","kind":"scalar","type":"DateTime","dbName":"created_at"},{"name":"updatedAt","kind":"scalar","type":"DateTime","dbName":"updated_at"}],"dbName":"mercadolibre_tokens"},"ProcessedEmail":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String","dbName":"user_id"},{"name":"user","kind":"object","type":"User","relationName":"ProcessedEmailToUser"},{"name":"gmailMessageId","kind":"scalar","type":"String","dbName":"gmail_message_id"},{"name":"threadId","kind":"scalar","type":"String","dbName":"thread_id"},{"name":"subject","kind":"scalar","type":"String"},{"name":"sender","kind":"scalar","type":"String"},{"name":"receivedAt","kind":"scalar","type":"DateTime","dbName":"received_at"},{"name":"processedAt","kind":"scalar","type":"DateTime","dbName":"processed_at"},{"name":"emailType","kind":"enum","type":"EmailType","dbName":"email_type"},{"name":"extractedData","kind":"scalar","type":"Json","dbName":"extracted_data"},{"name":"reminderId","kind":"scalar","type":"String","dbName":"reminder_id"},{"name":"status","kind":"enum","type":"ProcessedEmailStatus"},{"name":"expense","kind":"object","type":"Expense","relationName":"ExpenseToProcessedEmail"}],"dbName":"processed_emails"},"Expense":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String","dbName":"user_id"},{"name":"user","kind":"object","type":"User","relationName":"ExpenseToUser"},{"name":"processedEmailId","kind":"scalar","type":"String","dbName":"processed_email_id"},{"name":"processedEmail","kind":"object","type":"ProcessedEmail","relationName":"ExpenseToProcessedEmail"},{"name":"merchant","kind":"scalar","type":"String"},{"name":"amount","kind":"scalar","type":"Decimal"},{"name":"currency","kind":"scalar","type":"String"},{"name":"category","kind":"enum","type":"ExpenseCategory"},{"name":"description","kind":"scalar","type":"String"},{"name":"date","kind":"scalar","type":"DateTime"},{"name":"createdAt","kind":"scalar","type":"DateTime","dbName":"created_at"},{"name":"updatedAt","kind":"scalar","type":"DateTime","dbName":"updated_at"}],"dbName":"expenses"},"ScheduledPayment":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"chatId","kind":"scalar","type":"String","dbName":"chat_id"},{"name":"recipient","kind":"scalar","type":"String"},{"name":"amount","kind":"scalar","type":"Decimal"},{"name":"description","kind":"scalar","type":"String"},{"name":"recurrence","kind":"enum","type":"RecurrenceType"},{"name":"recurrenceDay","kind":"scalar","type":"Int","dbName":"recurrence_day"},{"name":"recurrenceTime","kind":"scalar","type":"String","dbName":"recurrence_time"},{"name":"nextPaymentAt","kind":"scalar","type":"DateTime","dbName":"next_payment_at"},{"name":"totalPayments","kind":"scalar","type":"Int","dbName":"total_payments"},{"name":"paidCount","kind":"scalar","type":"Int","dbName":"paid_count"},{"name":"status","kind":"enum","type":"ScheduledPaymentStatus"},{"name":"createdAt","kind":"scalar","type":"DateTime","dbName":"created_at"},{"name":"updatedAt","kind":"scalar","type":"DateTime","dbName":"updated_at"}],"dbName":"scheduled_payments"},"Commit":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"sha","kind":"scalar","type":"String"},{"name":"message","kind":"scalar","type":"String"},{"name":"author","kind":"scalar","type":"String"},{"name":"url","kind":"scalar","type":"String"},{"name":"repository","kind":"scalar","type":"String"},{"name":"branch","kind":"scalar","type":"String"},{"name":"timestamp","kind":"scalar","type":"DateTime"},{"name":"createdAt","kind":"scalar","type":"DateTime","dbName":"created_at"}],"dbName":"commits"},"LinkingCode":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"code","kind":"scalar","type":"String"},{"name":"chatId","kind":"scalar","type":"String","dbName":"chat_id"},{"name":"expiresAt","kind":"scalar","type":"DateTime","dbName":"expires_at"},{"name":"usedAt","kind":"scalar","type":"DateTime","dbName":"used_at"},{"name":"usedBy","kind":"scalar","type":"String","dbName":"used_by"},{"name":"createdAt","kind":"scalar","type":"DateTime","dbName":"created_at"}],"dbName":"linking_codes"}},"enums":{},"types":{}}'
+  '{"models":{"User":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"email","kind":"scalar","type":"String"},{"name":"emailVerified","kind":"scalar","type":"DateTime","dbName":"email_verified"},{"name":"passwordHash","kind":"scalar","type":"String","dbName":"password_hash"},{"name":"name","kind":"scalar","type":"String"},{"name":"image","kind":"scalar","type":"String"},{"name":"role","kind":"enum","type":"UserRole"},{"name":"chatId","kind":"scalar","type":"String","dbName":"chat_id"},{"name":"locale","kind":"scalar","type":"String"},{"name":"timezone","kind":"scalar","type":"String"},{"name":"currency","kind":"scalar","type":"String"},{"name":"digestEnabled","kind":"scalar","type":"Boolean","dbName":"digest_enabled"},{"name":"digestHour","kind":"scalar","type":"Int","dbName":"digest_hour"},{"name":"emailDigestHours","kind":"scalar","type":"Int","dbName":"email_digest_hours"},{"name":"calendarLeadMinutes","kind":"scalar","type":"Int","dbName":"calendar_lead_minutes"},{"name":"escalationPhone","kind":"scalar","type":"String","dbName":"escalation_phone"},{"name":"paymentAlias","kind":"scalar","type":"String","dbName":"payment_alias"},{"name":"createdAt","kind":"scalar","type":"DateTime","dbName":"created_at"},{"name":"updatedAt","kind":"scalar","type":"DateTime","dbName":"updated_at"},{"name":"accounts","kind":"object","type":"Account","relationName":"AccountToUser"},{"name":"sessions","kind":"object","type":"Session","relationName":"SessionToUser"},{"name":"reminders","kind":"object","type":"Reminder","relationName":"ReminderToUser"},{"name":"subscription","kind":"object","type":"Subscription","relationName":"SubscriptionToUser"},{"name":"emailTokens","kind":"object","type":"EmailToken","relationName":"EmailTokenToUser"},{"name":"imapAccounts","kind":"object","type":"ImapAccount","relationName":"ImapAccountToUser"},{"name":"googleAuthToken","kind":"object","type":"GoogleAuthToken","relationName":"GoogleAuthTokenToUser"},{"name":"mercadoLibreToken","kind":"object","type":"MercadoLibreToken","relationName":"MercadoLibreTokenToUser"},{"name":"processedEmails","kind":"object","type":"ProcessedEmail","relationName":"ProcessedEmailToUser"},{"name":"emailRules","kind":"object","type":"EmailRule","relationName":"EmailRuleToUser"},{"name":"expenses","kind":"object","type":"Expense","relationName":"ExpenseToUser"},{"name":"budgets","kind":"object","type":"Budget","relationName":"BudgetToUser"},{"name":"recurringCharges","kind":"object","type":"RecurringCharge","relationName":"RecurringChargeToUser"},{"name":"categoryRules","kind":"object","type":"CategoryRule","relationName":"CategoryRuleToUser"},{"name":"customCategories","kind":"object","type":"CustomCategory","relationName":"CustomCategoryToUser"},{"name":"expenseGroups","kind":"object","type":"ExpenseGroupMember","relationName":"ExpenseGroupMemberToUser"},{"name":"expenseShares","kind":"object","type":"ExpenseShare","relationName":"ExpenseShareToUser"},{"name":"incomes","kind":"object","type":"Income","relationName":"IncomeToUser"},{"name":"expenseAnomalies","kind":"object","type":"ExpenseAnomaly","relationName":"ExpenseAnomalyToUser"},{"name":"settlementsPaid","kind":"object","type":"GroupSettlement","relationName":"SettlementFrom"},{"name":"settlementsReceived","kind":"object","type":"GroupSettlement","relationName":"SettlementTo"}],"dbName":"users"},"Account":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String","dbName":"user_id"},{"name":"type","kind":"scalar","type":"String"},{"name":"provider","kind":"scalar","type":"String"},{"name":"providerAccountId","kind":"scalar","type":"String","dbName":"provider_account_id"},{"name":"refresh_token","kind":"scalar","type":"String"},{"name":"access_token","kind":"scalar","type":"String"},{"name":"expires_at","kind":"scalar","type":"Int"},{"name":"token_type","kind":"scalar","type":"String"},{"name":"scope","kind":"scalar","type":"String"},{"name":"id_token","kind":"scalar","type":"String"},{"name":"session_state","kind":"scalar","type":"String"},{"name":"user","kind":"object","type":"User","relationName":"AccountToUser"}],"dbName":"accounts"},"Session":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"sessionToken","kind":"scalar","type":"String","dbName":"session_token"},{"name":"userId","kind":"scalar","type":"String","dbName":"user_id"},{"name":"expires","kind":"scalar","type":"DateTime"},{"name":"user","kind":"object","type":"User","relationName":"SessionToUser"}],"dbName":"sessions"},"VerificationToken":{"fields":[{"name":"identifier","kind":"scalar","type":"String"},{"name":"token","kind":"scalar","type":"String"},{"name":"expires","kind":"scalar","type":"DateTime"}],"dbName":"verification_tokens"},"Plan":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"name","kind":"scalar","type":"String"},{"name":"description","kind":"scalar","type":"String"},{"name":"priceMonthly","kind":"scalar","type":"Int","dbName":"price_monthly"},{"name":"priceYearly","kind":"scalar","type":"Int","dbName":"price_yearly"},{"name":"currency","kind":"scalar","type":"String"},{"name":"mpPlanIdMonthly","kind":"scalar","type":"String","dbName":"mp_plan_id_monthly"},{"name":"mpPlanIdYearly","kind":"scalar","type":"String","dbName":"mp_plan_id_yearly"},{"name":"features","kind":"scalar","type":"Json"},{"name":"maxReminders","kind":"scalar","type":"Int","dbName":"max_reminders"},{"name":"maxEmailAccounts","kind":"scalar","type":"Int","dbName":"max_email_accounts"},{"name":"hasCalendarSync","kind":"scalar","type":"Boolean","dbName":"has_calendar_sync"},{"name":"hasEmailSync","kind":"scalar","type":"Boolean","dbName":"has_email_sync"},{"name":"hasEmailReply","kind":"scalar","type":"Boolean","dbName":"has_email_reply"},{"name":"trialDays","kind":"scalar","type":"Int","dbName":"trial_days"},{"name":"isActive","kind":"scalar","type":"Boolean","dbName":"is_active"},{"name":"sortOrder","kind":"scalar","type":"Int","dbName":"sort_order"},{"name":"createdAt","kind":"scalar","type":"DateTime","dbName":"created_at"},{"name":"updatedAt","kind":"scalar","type":"DateTime","dbName":"updated_at"},{"name":"subscriptions","kind":"object","type":"Subscription","relationName":"PlanToSubscription"}],"dbName":"plans"},"Subscription":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String","dbName":"user_id"},{"name":"user","kind":"object","type":"User","relationName":"SubscriptionToUser"},{"name":"planId","kind":"scalar","type":"String","dbName":"plan_id"},{"name":"plan","kind":"object","type":"Plan","relationName":"PlanToSubscription"},{"name":"status","kind":"enum","type":"SubscriptionStatus"},{"name":"billingCycle","kind":"enum","type":"BillingCycle","dbName":"billing_cycle"},{"name":"mpSubscriptionId","kind":"scalar","type":"String","dbName":"mp_subscription_id"},{"name":"mpPayerId","kind":"scalar","type":"String","dbName":"mp_payer_id"},{"name":"currentPeriodStart","kind":"scalar","type":"DateTime","dbName":"current_period_start"},{"name":"currentPeriodEnd","kind":"scalar","type":"DateTime","dbName":"current_period_end"},{"name":"trialEndsAt","kind":"scalar","type":"DateTime","dbName":"trial_ends_at"},{"name":"cancelledAt","kind":"scalar","type":"DateTime","dbName":"cancelled_at"},{"name":"createdAt","kind":"scalar","type":"DateTime","dbName":"created_at"},{"name":"updatedAt","kind":"scalar","type":"DateTime","dbName":"updated_at"},{"name":"payments","kind":"object","type":"Payment","relationName":"PaymentToSubscription"}],"dbName":"subscriptions"},"Payment":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"subscriptionId","kind":"scalar","type":"String","dbName":"subscription_id"},{"name":"subscription","kind":"object","type":"Subscription","relationName":"PaymentToSubscription"},{"name":"amount","kind":"scalar","type":"Int"},{"name":"currency","kind":"scalar","type":"String"},{"name":"status","kind":"enum","type":"PaymentStatus"},{"name":"mpPaymentId","kind":"scalar","type":"String","dbName":"mp_payment_id"},{"name":"mpStatus","kind":"scalar","type":"String","dbName":"mp_status"},{"name":"paidAt","kind":"scalar","type":"DateTime","dbName":"paid_at"},{"name":"createdAt","kind":"scalar","type":"DateTime","dbName":"created_at"}],"dbName":"payments"},"Reminder":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"originalText","kind":"scalar","type":"String","dbName":"original_text"},{"name":"reminderText","kind":"scalar","type":"String","dbName":"reminder_text"},{"name":"scheduledAt","kind":"scalar","type":"DateTime","dbName":"scheduled_at"},{"name":"userId","kind":"scalar","type":"String","dbName":"user_id"},{"name":"user","kind":"object","type":"User","relationName":"ReminderToUser"},{"name":"chatId","kind":"scalar","type":"String","dbName":"chat_id"},{"name":"status","kind":"enum","type":"ReminderStatus"},{"name":"calendarEventId","kind":"scalar","type":"String","dbName":"calendar_event_id"},{"name":"source","kind":"enum","type":"ReminderSource"},{"name":"recurrence","kind":"enum","type":"RecurrenceType"},{"name":"recurrenceDay","kind":"scalar","type":"Int","dbName":"recurrence_day"},{"name":"recurrenceTime","kind":"scalar","type":"String","dbName":"recurrence_time"},{"name":"rrule","kind":"scalar","type":"String"},{"name":"occurrenceIndex","kind":"scalar","type":"Int","dbName":"occurrence_index"},{"name":"notificationMessageId","kind":"scalar","type":"String","dbName":"notification_message_id"},{"name":"insist","kind":"scalar","type":"Boolean"},{"name":"nagCount","kind":"scalar","type":"Int","dbName":"nag_count"},{"name":"nextNagAt","kind":"scalar","type":"DateTime","dbName":"next_nag_at"},{"name":"escalatedAt","kind":"scalar","type":"DateTime","dbName":"escalated_at"},{"name":"createdAt","kind":"scalar","type":"DateTime","dbName":"created_at"},{"name":"updatedAt","kind":"scalar","type":"DateTime","dbName":"updated_at"},{"name":"sentAt","kind":"scalar","type":"DateTime","dbName":"sent_at"}],"dbName":"reminders"},"WhatsAppSession":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"data","kind":"scalar","type":"Json"},{"name":"createdAt","kind":"scalar","type":"DateTime","dbName":"created_at"},{"name":"updatedAt","kind":"scalar","type":"DateTime","dbName":"updated_at"}],"dbName":"whatsapp_sessions"},"ConversationState":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"chatId","kind":"scalar","type":"String","dbName":"chat_id"},{"name":"type","kind":"scalar","type":"String"},{"name":"data","kind":"scalar","type":"Json"},{"name":"expiresAt","kind":"scalar","type":"DateTime","dbName":"expires_at"},{"name":"createdAt","kind":"scalar","type":"DateTime","dbName":"created_at"},{"name":"updatedAt","kind":"scalar","type":"DateTime","dbName":"updated_at"}],"dbName":"conversation_states"},"GoogleAuthToken":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String","dbName":"user_id"},{"name":"user","kind":"object","type":"User","relationName":"GoogleAuthTokenToUser"},{"name":"accessToken","kind":"scalar","type":"String","dbName":"access_token"},{"name":"refreshToken","kind":"scalar","type":"String","dbName":"refresh_token"},{"name":"expiresAt","kind":"scalar","type":"DateTime","dbName":"expires_at"},{"name":"scope","kind":"scalar","type":"String"},{"name":"tokenType","kind":"scalar","type":"String","dbName":"token_type"},{"name":"syncToken","kind":"scalar","type":"String","dbName":"sync_token"},{"name":"lastFullSyncAt","kind":"scalar","type":"DateTime","dbName":"last_full_sync_at"},{"name":"createdAt","kind":"scalar","type":"DateTime","dbName":"created_at"},{"name":"updatedAt","kind":"scalar","type":"DateTime","dbName":"updated_at"}],"dbName":"google_auth_tokens"},"EmailToken":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String","dbName":"user_id"},{"name":"user","kind":"object","type":"User","relationName":"EmailTokenToUser"},{"name":"label","kind":"scalar","type":"String"},{"name":"email","kind":"scalar","type":"String"},{"name":"accessToken","kind":"scalar","type":"String","dbName":"access_token"},{"name":"refreshToken","kind":"scalar","type":"String","dbName":"refresh_token"},{"name":"expiresAt","kind":"scalar","type":"DateTime","dbName":"expires_at"},{"name":"scope","kind":"scalar","type":"String"},{"name":"tokenType","kind":"scalar","type":"String","dbName":"token_type"},{"name":"historyId","kind":"scalar","type":"String","dbName":"history_id"},{"name":"lastSyncAt","kind":"scalar","type":"DateTime","dbName":"last_sync_at"},{"name":"watchExpiresAt","kind":"scalar","type":"DateTime","dbName":"watch_expires_at"},{"name":"createdAt","kind":"scalar","type":"DateTime","dbName":"created_at"},{"name":"updatedAt","kind":"scalar","type":"DateTime","dbName":"updated_at"}],"dbName":"email_tokens"},"ImapAccount":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String","dbName":"user_id"},{"name":"user","kind":"object","type":"User","relationName":"ImapAccountToUser"},{"name":"label","kind":"scalar","type":"String"},{"name":"email","kind":"scalar","type":"String"},{"name":"username","kind":"scalar","type":"String"},{"name":"password","kind":"scalar","type":"String"},{"name":"imapHost","kind":"scalar","type":"String","dbName":"imap_host"},{"name":"imapPort","kind":"scalar","type":"Int","dbName":"imap_port"},{"name":"smtpHost","kind":"scalar","type":"String","dbName":"smtp_host"},{"name":"smtpPort","kind":"scalar","type":"Int","dbName":"smtp_port"},{"name":"uidValidity","kind":"scalar","type":"String","dbName":"uid_validity"},{"name":"lastUid","kind":"scalar","type":"Int","dbName":"last_uid"},{"name":"lastSyncAt","kind":"scalar","type":"DateTime","dbName":"last_sync_at"},{"name":"createdAt","kind":"scalar","type":"DateTime","dbName":"created_at"},{"name":"updatedAt","kind":"scalar","type":"DateTime","dbName":"updated_at"}],"dbName":"imap_accounts"},"MercadoLibreToken":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String","dbName":"user_id"},{"name":"user","kind":"object","type":"User","relationName":"MercadoLibreTokenToUser"},{"name":"accessToken","kind":"scalar","type":"String","dbName":"access_token"},{"name":"refreshToken","kind":"scalar","type":"String","dbName":"refresh_token"},{"name":"expiresAt","kind":"scalar","type":"DateTime","dbName":"expires_at"},{"name":"scope","kind":"scalar","type":"String"},{"name":"tokenType","kind":"scalar","type":"String","dbName":"token_type"},{"name":"mlUserId","kind":"scalar","type":"String","dbName":"ml_user_id"},{"name":"createdAt","kind":"scalar","type":"DateTime","dbName":"created_at"},{"name":"updatedAt","kind":"scalar","type":"DateTime","dbName":"updated_at"}],"dbName":"mercadolibre_tokens"},"ProcessedEmail":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String","dbName":"user_id"},{"name":"user","kind":"object","type":"User","relationName":"ProcessedEmailToUser"},{"name":"accountId","kind":"scalar","type":"String","dbName":"account_id"},{"name":"gmailMessageId","kind":"scalar","type":"String","dbName":"gmail_message_id"},{"name":"threadId","kind":"scalar","type":"String","dbName":"thread_id"},{"name":"subject","kind":"scalar","type":"String"},{"name":"sender","kind":"scalar","type":"String"},{"name":"receivedAt","kind":"scalar","type":"DateTime","dbName":"received_at"},{"name":"processedAt","kind":"scalar","type":"DateTime","dbName":"processed_at"},{"name":"emailType","kind":"enum","type":"EmailType","dbName":"email_type"},{"name":"extractedData","kind":"scalar","type":"Json","dbName":"extracted_data"},{"name":"reminderId","kind":"scalar","type":"String","dbName":"reminder_id"},{"name":"status","kind":"enum","type":"ProcessedEmailStatus"},{"name":"digestPending","kind":"scalar","type":"Boolean","dbName":"digest_pending"},{"name":"expense","kind":"object","type":"Expense","relationName":"ExpenseToProcessedEmail"},{"name":"income","kind":"object","type":"Income","relationName":"IncomeToProcessedEmail"}],"dbName":"processed_emails"},"Expense":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String","dbName":"user_id"},{"name":"user","kind":"object","type":"User","relationName":"ExpenseToUser"},{"name":"processedEmailId","kind":"scalar","type":"String","dbName":"processed_email_id"},{"name":"processedEmail","kind":"object","type":"ProcessedEmail","relationName":"ExpenseToProcessedEmail"},{"name":"merchant","kind":"scalar","type":"String"},{"name":"amount","kind":"scalar","type":"Decimal"},{"name":"currency","kind":"scalar","type":"String"},{"name":"category","kind":"enum","type":"ExpenseCategory"},{"name":"description","kind":"scalar","type":"String"},{"name":"date","kind":"scalar","type":"DateTime"},{"name":"customCategoryId","kind":"scalar","type":"String","dbName":"custom_category_id"},{"name":"customCategory","kind":"object","type":"CustomCategory","relationName":"CustomCategoryToExpense"},{"name":"tags","kind":"scalar","type":"String"},{"name":"exchangeRateId","kind":"scalar","type":"String","dbName":"exchange_rate_id"},{"name":"exchangeRate","kind":"object","type":"ExchangeRate","relationName":"ExchangeRateToExpense"},{"name":"shares","kind":"object","type":"ExpenseShare","relationName":"ExpenseToExpenseShare"},{"name":"anomaly","kind":"object","type":"ExpenseAnomaly","relationName":"ExpenseToExpenseAnomaly"},{"name":"createdAt","kind":"scalar","type":"DateTime","dbName":"created_at"},{"name":"updatedAt","kind":"scalar","type":"DateTime","dbName":"updated_at"}],"dbName":"expenses"},"ExpenseAnomaly":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String","dbName":"user_id"},{"name":"user","kind":"object","type":"User","relationName":"ExpenseAnomalyToUser"},{"name":"expenseId","kind":"scalar","type":"String","dbName":"expense_id"},{"name":"expense","kind":"object","type":"Expense","relationName":"ExpenseToExpenseAnomaly"},{"name":"reasons","kind":"enum","type":"AnomalyReason"},{"name":"usualAmount","kind":"scalar","type":"Decimal","dbName":"usual_amount"},{"name":"duplicateOfId","kind":"scalar","type":"String","dbName":"duplicate_of_id"},{"name":"status","kind":"enum","type":"AnomalyStatus"},{"name":"resolvedAt","kind":"scalar","type":"DateTime","dbName":"resolved_at"},{"name":"createdAt","kind":"scalar","type":"DateTime","dbName":"created_at"}],"dbName":"expense_anomalies"},"Income":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String","dbName":"user_id"},{"name":"user","kind":"object","type":"User","relationName":"IncomeToUser"},{"name":"processedEmailId","kind":"scalar","type":"String","dbName":"processed_email_id"},{"name":"processedEmail","kind":"object","type":"ProcessedEmail","relationName":"IncomeToProcessedEmail"},{"name":"source","kind":"scalar","type":"String"},{"name":"amount","kind":"scalar","type":"Decimal"},{"name":"currency","kind":"scalar","type":"String"},{"name":"category","kind":"enum","type":"IncomeCategory"},{"name":"description","kind":"scalar","type":"String"},{"name":"date","kind":"scalar","type":"DateTime"},{"name":"exchangeRateId","kind":"scalar","type":"String","dbName":"exchange_rate_id"},{"name":"exchangeRate","kind":"object","type":"ExchangeRate","relationName":"ExchangeRateToIncome"},{"name":"createdAt","kind":"scalar","type":"DateTime","dbName":"created_at"},{"name":"updatedAt","kind":"scalar","type":"DateTime","dbName":"updated_at"}],"dbName":"incomes"},"CustomCategory":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String","dbName":"user_id"},{"name":"user","kind":"object","type":"User","relationName":"CustomCategoryToUser"},{"name":"key","kind":"scalar","type":"String"},{"name":"name","kind":"scalar","type":"String"},{"name":"expenses","kind":"object","type":"Expense","relationName":"CustomCategoryToExpense"},{"name":"createdAt","kind":"scalar","type":"DateTime","dbName":"created_at"}],"dbName":"custom_categories"},"ExpenseGroup":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"name","kind":"scalar","type":"String"},{"name":"createdById","kind":"scalar","type":"String","dbName":"created_by_id"},{"name":"members","kind":"object","type":"ExpenseGroupMember","relationName":"ExpenseGroupToExpenseGroupMember"},{"name":"shares","kind":"object","type":"ExpenseShare","relationName":"ExpenseGroupToExpenseShare"},{"name":"settlements","kind":"object","type":"GroupSettlement","relationName":"ExpenseGroupToGroupSettlement"},{"name":"createdAt","kind":"scalar","type":"DateTime","dbName":"created_at"}],"dbName":"expense_groups"},"ExpenseGroupMember":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"groupId","kind":"scalar","type":"String","dbName":"group_id"},{"name":"group","kind":"object","type":"ExpenseGroup","relationName":"ExpenseGroupToExpenseGroupMember"},{"name":"userId","kind":"scalar","type":"String","dbName":"user_id"},{"name":"user","kind":"object","type":"User","relationName":"ExpenseGroupMemberToUser"},{"name":"status","kind":"enum","type":"GroupMemberStatus"},{"name":"createdAt","kind":"scalar","type":"DateTime","dbName":"created_at"},{"name":"updatedAt","kind":"scalar","type":"DateTime","dbName":"updated_at"}],"dbName":"expense_group_members"},"ExpenseShare":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"groupId","kind":"scalar","type":"String","dbName":"group_id"},{"name":"group","kind":"object","type":"ExpenseGroup","relationName":"ExpenseGroupToExpenseShare"},{"name":"expenseId","kind":"scalar","type":"String","dbName":"expense_id"},{"name":"expense","kind":"object","type":"Expense","relationName":"ExpenseToExpenseShare"},{"name":"userId","kind":"scalar","type":"String","dbName":"user_id"},{"name":"user","kind":"object","type":"User","relationName":"ExpenseShareToUser"},{"name":"amount","kind":"scalar","type":"Decimal"},{"name":"createdAt","kind":"scalar","type":"DateTime","dbName":"created_at"}],"dbName":"expense_shares"},"GroupSettlement":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"groupId","kind":"scalar","type":"String","dbName":"group_id"},{"name":"group","kind":"object","type":"ExpenseGroup","relationName":"ExpenseGroupToGroupSettlement"},{"name":"fromUserId","kind":"scalar","type":"String","dbName":"from_user_id"},{"name":"fromUser","kind":"object","type":"User","relationName":"SettlementFrom"},{"name":"toUserId","kind":"scalar","type":"String","dbName":"to_user_id"},{"name":"toUser","kind":"object","type":"User","relationName":"SettlementTo"},{"name":"amount","kind":"scalar","type":"Decimal"},{"name":"currency","kind":"scalar","type":"String"},{"name":"createdAt","kind":"scalar","type":"DateTime","dbName":"created_at"}],"dbName":"group_settlements"},"ExchangeRate":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"day","kind":"scalar","type":"String"},{"name":"officialUsd","kind":"scalar","type":"Decimal","dbName":"official_usd"},{"name":"blueUsd","kind":"scalar","type":"Decimal","dbName":"blue_usd"},{"name":"officialEur","kind":"scalar","type":"Decimal","dbName":"official_eur"},{"name":"blueEur","kind":"scalar","type":"Decimal","dbName":"blue_eur"},{"name":"expenses","kind":"object","type":"Expense","relationName":"ExchangeRateToExpense"},{"name":"incomes","kind":"object","type":"Income","relationName":"ExchangeRateToIncome"},{"name":"createdAt","kind":"scalar","type":"DateTime","dbName":"created_at"}],"dbName":"exchange_rates"},"Budget":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String","dbName":"user_id"},{"name":"user","kind":"object","type":"User","relationName":"BudgetToUser"},{"name":"category","kind":"enum","type":"ExpenseCategory"},{"name":"currency","kind":"scalar","type":"String"},{"name":"amount","kind":"scalar","type":"Decimal"},{"name":"alertedPercent","kind":"scalar","type":"Int","dbName":"alerted_percent"},{"name":"alertedPeriod","kind":"scalar","type":"String","dbName":"alerted_period"},{"name":"createdAt","kind":"scalar","type":"DateTime","dbName":"created_at"},{"name":"updatedAt","kind":"scalar","type":"DateTime","dbName":"updated_at"}],"dbName":"budgets"},"CategoryRule":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String","dbName":"user_id"},{"name":"user","kind":"object","type":"User","relationName":"CategoryRuleToUser"},{"name":"merchantKey","kind":"scalar","type":"String","dbName":"merchant_key"},{"name":"merchant","kind":"scalar","type":"String"},{"name":"category","kind":"enum","type":"ExpenseCategory"},{"name":"createdAt","kind":"scalar","type":"DateTime","dbName":"created_at"},{"name":"updatedAt","kind":"scalar","type":"DateTime","dbName":"updated_at"}],"dbName":"category_rules"},"RecurringCharge":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String","dbName":"user_id"},{"name":"user","kind":"object","type":"User","relationName":"RecurringChargeToUser"},{"name":"merchantKey","kind":"scalar","type":"String","dbName":"merchant_key"},{"name":"merchant","kind":"scalar","type":"String"},{"name":"currency","kind":"scalar","type":"String"},{"name":"period","kind":"enum","type":"RecurringPeriod"},{"name":"amount","kind":"scalar","type":"Decimal"},{"name":"previousAmount","kind":"scalar","type":"Decimal","dbName":"previous_amount"},{"name":"lastChargeAt","kind":"scalar","type":"DateTime","dbName":"last_charge_at"},{"name":"nextExpectedAt","kind":"scalar","type":"DateTime","dbName":"next_expected_at"},{"name":"priceAlertedAt","kind":"scalar","type":"DateTime","dbName":"price_alerted_at"},{"name":"missedAlertedFor","kind":"scalar","type":"DateTime","dbName":"missed_alerted_for"},{"name":"reminderId","kind":"scalar","type":"String","dbName":"reminder_id"},{"name":"createdAt","kind":"scalar","type":"DateTime","dbName":"created_at"},{"name":"updatedAt","kind":"scalar","type":"DateTime","dbName":"updated_at"}],"dbName":"recurring_charges"},"EmailRule":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"userId","kind":"scalar","type":"String","dbName":"user_id"},{"name":"user","kind":"object","type":"User","relationName":"EmailRuleToUser"},{"name":"action","kind":"enum","type":"EmailRuleAction"},{"name":"sender","kind":"scalar","type":"String"},{"name":"emailType","kind":"enum","type":"EmailType","dbName":"email_type"},{"name":"startHour","kind":"scalar","type":"Int","dbName":"start_hour"},{"name":"endHour","kind":"scalar","type":"Int","dbName":"end_hour"},{"name":"ruleKey","kind":"scalar","type":"String","dbName":"rule_key"},{"name":"createdAt","kind":"scalar","type":"DateTime","dbName":"created_at"}],"dbName":"email_rules"},"ScheduledPayment":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"chatId","kind":"scalar","type":"String","dbName":"chat_id"},{"name":"userId","kind":"scalar","type":"String","dbName":"user_id"},{"name":"recipient","kind":"scalar","type":"String"},{"name":"amount","kind":"scalar","type":"Decimal"},{"name":"description","kind":"scalar","type":"String"},{"name":"mode","kind":"enum","type":"ScheduledPaymentMode"},{"name":"recurrence","kind":"enum","type":"RecurrenceType"},{"name":"recurrenceDay","kind":"scalar","type":"Int","dbName":"recurrence_day"},{"name":"recurrenceTime","kind":"scalar","type":"String","dbName":"recurrence_time"},{"name":"nextPaymentAt","kind":"scalar","type":"DateTime","dbName":"next_payment_at"},{"name":"totalPayments","kind":"scalar","type":"Int","dbName":"total_payments"},{"name":"paidCount","kind":"scalar","type":"Int","dbName":"paid_count"},{"name":"status","kind":"enum","type":"ScheduledPaymentStatus"},{"name":"lastTransactionId","kind":"scalar","type":"String","dbName":"last_transaction_id"},{"name":"lastError","kind":"scalar","type":"String","dbName":"last_error"},{"name":"createdAt","kind":"scalar","type":"DateTime","dbName":"created_at"},{"name":"updatedAt","kind":"scalar","type":"DateTime","dbName":"updated_at"}],"dbName":"scheduled_payments"},"Commit":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"sha","kind":"scalar","type":"String"},{"name":"message","kind":"scalar","type":"String"},{"name":"author","kind":"scalar","type":"String"},{"name":"url","kind":"scalar","type":"String"},{"name":"repository","kind":"scalar","type":"String"},{"name":"branch","kind":"scalar","type":"String"},{"name":"timestamp","kind":"scalar","type":"DateTime"},{"name":"createdAt","kind":"scalar","type":"DateTime","dbName":"created_at"}],"dbName":"commits"},"LinkingCode":{"fields":[{"name":"id","kind":"scalar","type":"String"},{"name":"code","kind":"scalar","type":"String"},{"name":"chatId","kind":"scalar","type":"String","dbName":"chat_id"},{"name":"expiresAt","kind":"scalar","type":"DateTime","dbName":"expires_at"},{"name":"usedAt","kind":"scalar","type":"DateTime","dbName":"used_at"},{"name":"usedBy","kind":"scalar","type":"String","dbName":"used_by"},{"name":"createdAt","kind":"scalar","type":"DateTime","dbName":"created_at"}],"dbName":"linking_codes"}},"enums":{},"types":{}}'
 );
 
 async function decodeBase64AsWasm(wasmBase64: string): Promise<WebAssembly.Module> {
@@ -302,6 +302,16 @@ export interface PrismaClient<
    */
   get whatsAppSession(): Prisma.WhatsAppSessionDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.conversationState`: Exposes CRUD operations for the **ConversationState** model.
+   * Example usage:
+   * ```ts
+   * // Fetch zero or more ConversationStates
+   * const conversationStates = await prisma.conversationState.findMany()
+   * ```
+   */
+  get conversationState(): Prisma.ConversationStateDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.googleAuthToken`: Exposes CRUD operations for the **GoogleAuthToken** model.
    * Example usage:
@@ -322,6 +332,16 @@ export interface PrismaClient<
    */
   get emailToken(): Prisma.EmailTokenDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.imapAccount`: Exposes CRUD operations for the **ImapAccount** model.
+   * Example usage:
+   * ```ts
+   * // Fetch zero or more ImapAccounts
+   * const imapAccounts = await prisma.imapAccount.findMany()
+   * ```
+   */
+  get imapAccount(): Prisma.ImapAccountDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.mercadoLibreToken`: Exposes CRUD operations for the **MercadoLibreToken** model.
    * Example usage:
@@ -352,6 +372,126 @@ export interface PrismaClient<
    */
   get expense(): Prisma.ExpenseDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.expenseAnomaly`: Exposes CRUD operations for the **ExpenseAnomaly** model.
+   * Example usage:
+   * ```ts
+   * // Fetch zero or more ExpenseAnomalies
+   * const expenseAnomalies = await prisma.expenseAnomaly.findMany()
+   * ```
+   */
+  get expenseAnomaly(): Prisma.ExpenseAnomalyDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.income`: Exposes CRUD operations for the **Income** model.
+   * Example usage:
+   * ```ts
+   * // Fetch zero or more Incomes
+   * const incomes = await prisma.income.findMany()
+   * ```
+   */
+  get income(): Prisma.IncomeDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.customCategory`: Exposes CRUD operations for the **CustomCategory** model.
+   * Example usage:
+   * ```ts
+   * // Fetch zero or more CustomCategories
+   * const customCategories = await prisma.customCategory.findMany()
+   * ```
+   */
+  get customCategory(): Prisma.CustomCategoryDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.expenseGroup`: Exposes CRUD operations for the **ExpenseGroup** model.
+   * Example usage:
+   * ```ts
+   * // Fetch zero or more ExpenseGroups
+   * const expenseGroups = await prisma.expenseGroup.findMany()
+   * ```
+   */
+  get expenseGroup(): Prisma.ExpenseGroupDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.expenseGroupMember`: Exposes CRUD operations for the **ExpenseGroupMember** model.
+   * Example usage:
+   * ```ts
+   * // Fetch zero or more ExpenseGroupMembers
+   * const expenseGroupMembers = await prisma.expenseGroupMember.findMany()
+   * ```
+   */
+  get expenseGroupMember(): Prisma.ExpenseGroupMemberDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.expenseShare`: Exposes CRUD operations for the **ExpenseShare** model.
+   * Example usage:
+   * ```ts
+   * // Fetch zero or more ExpenseShares
+   * const expenseShares = await prisma.expenseShare.findMany()
+   * ```
+   */
+  get expenseShare(): Prisma.ExpenseShareDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.groupSettlement`: Exposes CRUD operations for the **GroupSettlement** model.
+   * Example usage:
+   * ```ts
+   * // Fetch zero or more GroupSettlements
+   * const groupSettlements = await prisma.groupSettlement.findMany()
+   * ```
+   */
+  get groupSettlement(): Prisma.GroupSettlementDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.exchangeRate`: Exposes CRUD operations for the **ExchangeRate** model.
+   * Example usage:
+   * ```ts
+   * // Fetch zero or more ExchangeRates
+   * const exchangeRates = await prisma.exchangeRate.findMany()
+   * ```
+   */
+  get exchangeRate(): Prisma.ExchangeRateDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.budget`: Exposes CRUD operations for the **Budget** model.
+   * Example usage:
+   * ```ts
+   * // Fetch zero or more Budgets
+   * const budgets = await prisma.budget.findMany()
+   * ```
+   */
+  get budget(): Prisma.BudgetDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.categoryRule`: Exposes CRUD operations for the **CategoryRule** model.
+   * Example usage:
+   * ```ts
+   * // Fetch zero or more CategoryRules
+   * const categoryRules = await prisma.categoryRule.findMany()
+   * ```
+   */
+  get categoryRule(): Prisma.CategoryRuleDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.recurringCharge`: Exposes CRUD operations for the **RecurringCharge** model.
+   * Example usage:
+   * ```ts
+   * // Fetch zero or more RecurringCharges
+   * const recurringCharges = await prisma.recurringCharge.findMany()
+   * ```
+   */
+  get recurringCharge(): Prisma.RecurringChargeDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.emailRule`: Exposes CRUD operations for the **EmailRule** model.
+   * Example usage:
+   * ```ts
+   * // Fetch zero or more EmailRules
+   * const emailRules = await prisma.emailRule.findMany()
+   * ```
+   */
+  get emailRule(): Prisma.EmailRuleDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.scheduledPayment`: Exposes CRUD operations for the **ScheduledPayment** model.
    * Example usage:
@@ -384,11 +384,25 @@ export const ModelName = {
   Payment: "Payment",
   Reminder: "Reminder",
   WhatsAppSession: "WhatsAppSession",
+  ConversationState: "ConversationState",
   GoogleAuthToken: "GoogleAuthToken",
   EmailToken: "EmailToken",
+  ImapAccount: "ImapAccount",
   MercadoLibreToken: "MercadoLibreToken",
   ProcessedEmail: "ProcessedEmail",
   Expense: "Expense",
+  ExpenseAnomaly: "ExpenseAnomaly",
+  Income: "Income",
+  CustomCategory: "CustomCategory",
+  ExpenseGroup: "ExpenseGroup",
+  ExpenseGroupMember: "ExpenseGroupMember",
+  ExpenseShare: "ExpenseShare",
+  GroupSettlement: "GroupSettlement",
+  ExchangeRate: "ExchangeRate",
+  Budget: "Budget",
+  CategoryRule: "CategoryRule",
+  RecurringCharge: "RecurringCharge",
+  EmailRule: "EmailRule",
   ScheduledPayment: "ScheduledPayment",
   Commit: "Commit",
   LinkingCode: "LinkingCode"
@@ -421,11 +435,25 @@ export type TypeMap<
       | "payment"
       | "reminder"
       | "whatsAppSession"
+      | "conversationState"
       | "googleAuthToken"
       | "emailToken"
+      | "imapAccount"
       | "mercadoLibreToken"
       | "processedEmail"
       | "expense"
+      | "expenseAnomaly"
+      | "income"
+      | "customCategory"
+      | "expenseGroup"
+      | "expenseGroupMember"
+      | "expenseShare"
+      | "groupSettlement"
+      | "exchangeRate"
+      | "budget"
+      | "categoryRule"
+      | "recurringCharge"
+      | "emailRule"
       | "scheduledPayment"
       | "commit"
       | "linkingCode";
@@ -1104,6 +1132,82 @@ export type TypeMap<
         };
       };
     };
+    ConversationState: {
+      payload: Prisma.$ConversationStatePayload<ExtArgs>;
+      fields: Prisma.ConversationStateFieldRefs;
+      operations: {
+        findUnique: {
+          args: Prisma.ConversationStateFindUniqueArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ConversationStatePayload> | null;
+        };
+        findUniqueOrThrow: {
+          args: Prisma.ConversationStateFindUniqueOrThrowArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ConversationStatePayload>;
+        };
+        findFirst: {
+          args: Prisma.ConversationStateFindFirstArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ConversationStatePayload> | null;
+        };
+        findFirstOrThrow: {
+          args: Prisma.ConversationStateFindFirstOrThrowArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ConversationStatePayload>;
+        };
+        findMany: {
+          args: Prisma.ConversationStateFindManyArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ConversationStatePayload>[];
+        };
+        create: {
+          args: Prisma.ConversationStateCreateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ConversationStatePayload>;
+        };
+        createMany: {
+          args: Prisma.ConversationStateCreateManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        createManyAndReturn: {
+          args: Prisma.ConversationStateCreateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ConversationStatePayload>[];
+        };
+        delete: {
+          args: Prisma.ConversationStateDeleteArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ConversationStatePayload>;
+        };
+        update: {
+          args: Prisma.ConversationStateUpdateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ConversationStatePayload>;
+        };
+        deleteMany: {
+          args: Prisma.ConversationStateDeleteManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        updateMany: {
+          args: Prisma.ConversationStateUpdateManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        updateManyAndReturn: {
+          args: Prisma.ConversationStateUpdateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ConversationStatePayload>[];
+        };
+        upsert: {
+          args: Prisma.ConversationStateUpsertArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ConversationStatePayload>;
+        };
+        aggregate: {
+          args: Prisma.ConversationStateAggregateArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.AggregateConversationState>;
+        };
+        groupBy: {
+          args: Prisma.ConversationStateGroupByArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.ConversationStateGroupByOutputType>[];
+        };
+        count: {
+          args: Prisma.ConversationStateCountArgs<ExtArgs>;
+          result:
+            | runtime.Types.Utils.Optional<Prisma.ConversationStateCountAggregateOutputType>
+            | number;
+        };
+      };
+    };
     GoogleAuthToken: {
       payload: Prisma.$GoogleAuthTokenPayload<ExtArgs>;
       fields: Prisma.GoogleAuthTokenFieldRefs;
@@ -1254,6 +1358,80 @@ export type TypeMap<
         };
       };
     };
+    ImapAccount: {
+      payload: Prisma.$ImapAccountPayload<ExtArgs>;
+      fields: Prisma.ImapAccountFieldRefs;
+      operations: {
+        findUnique: {
+          args: Prisma.ImapAccountFindUniqueArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ImapAccountPayload> | null;
+        };
+        findUniqueOrThrow: {
+          args: Prisma.ImapAccountFindUniqueOrThrowArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ImapAccountPayload>;
+        };
+        findFirst: {
+          args: Prisma.ImapAccountFindFirstArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ImapAccountPayload> | null;
+        };
+        findFirstOrThrow: {
+          args: Prisma.ImapAccountFindFirstOrThrowArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ImapAccountPayload>;
+        };
+        findMany: {
+          args: Prisma.ImapAccountFindManyArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ImapAccountPayload>[];
+        };
+        create: {
+          args: Prisma.ImapAccountCreateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ImapAccountPayload>;
+        };
+        createMany: {
+          args: Prisma.ImapAccountCreateManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        createManyAndReturn: {
+          args: Prisma.ImapAccountCreateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ImapAccountPayload>[];
+        };
+        delete: {
+          args: Prisma.ImapAccountDeleteArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ImapAccountPayload>;
+        };
+        update: {
+          args: Prisma.ImapAccountUpdateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ImapAccountPayload>;
+        };
+        deleteMany: {
+          args: Prisma.ImapAccountDeleteManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        updateMany: {
+          args: Prisma.ImapAccountUpdateManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        updateManyAndReturn: {
+          args: Prisma.ImapAccountUpdateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ImapAccountPayload>[];
+        };
+        upsert: {
+          args: Prisma.ImapAccountUpsertArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ImapAccountPayload>;
+        };
+        aggregate: {
+          args: Prisma.ImapAccountAggregateArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.AggregateImapAccount>;
+        };
+        groupBy: {
+          args: Prisma.ImapAccountGroupByArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.ImapAccountGroupByOutputType>[];
+        };
+        count: {
+          args: Prisma.ImapAccountCountArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.ImapAccountCountAggregateOutputType> | number;
+        };
+      };
+    };
     MercadoLibreToken: {
       payload: Prisma.$MercadoLibreTokenPayload<ExtArgs>;
       fields: Prisma.MercadoLibreTokenFieldRefs;
@@ -1359,124 +1537,1030 @@ export type TypeMap<
           result: runtime.Types.Utils.PayloadToResult<Prisma.$ProcessedEmailPayload>;
         };
         createMany: {
-          args: Prisma.ProcessedEmailCreateManyArgs<ExtArgs>;
+          args: Prisma.ProcessedEmailCreateManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        createManyAndReturn: {
+          args: Prisma.ProcessedEmailCreateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProcessedEmailPayload>[];
+        };
+        delete: {
+          args: Prisma.ProcessedEmailDeleteArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProcessedEmailPayload>;
+        };
+        update: {
+          args: Prisma.ProcessedEmailUpdateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProcessedEmailPayload>;
+        };
+        deleteMany: {
+          args: Prisma.ProcessedEmailDeleteManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        updateMany: {
+          args: Prisma.ProcessedEmailUpdateManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        updateManyAndReturn: {
+          args: Prisma.ProcessedEmailUpdateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProcessedEmailPayload>[];
+        };
+        upsert: {
+          args: Prisma.ProcessedEmailUpsertArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProcessedEmailPayload>;
+        };
+        aggregate: {
+          args: Prisma.ProcessedEmailAggregateArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.AggregateProcessedEmail>;
+        };
+        groupBy: {
+          args: Prisma.ProcessedEmailGroupByArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.ProcessedEmailGroupByOutputType>[];
+        };
+        count: {
+          args: Prisma.ProcessedEmailCountArgs<ExtArgs>;
+          result:
+            | runtime.Types.Utils.Optional<Prisma.ProcessedEmailCountAggregateOutputType>
+            | number;
+        };
+      };
+    };
+    Expense: {
+      payload: Prisma.$ExpensePayload<ExtArgs>;
+      fields: Prisma.ExpenseFieldRefs;
+      operations: {
+        findUnique: {
+          args: Prisma.ExpenseFindUniqueArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpensePayload> | null;
+        };
+        findUniqueOrThrow: {
+          args: Prisma.ExpenseFindUniqueOrThrowArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpensePayload>;
+        };
+        findFirst: {
+          args: Prisma.ExpenseFindFirstArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpensePayload> | null;
+        };
+        findFirstOrThrow: {
+          args: Prisma.ExpenseFindFirstOrThrowArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpensePayload>;
+        };
+        findMany: {
+          args: Prisma.ExpenseFindManyArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpensePayload>[];
+        };
+        create: {
+          args: Prisma.ExpenseCreateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpensePayload>;
+        };
+        createMany: {
+          args: Prisma.ExpenseCreateManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        createManyAndReturn: {
+          args: Prisma.ExpenseCreateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpensePayload>[];
+        };
+        delete: {
+          args: Prisma.ExpenseDeleteArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpensePayload>;
+        };
+        update: {
+          args: Prisma.ExpenseUpdateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpensePayload>;
+        };
+        deleteMany: {
+          args: Prisma.ExpenseDeleteManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        updateMany: {
+          args: Prisma.ExpenseUpdateManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        updateManyAndReturn: {
+          args: Prisma.ExpenseUpdateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpensePayload>[];
+        };
+        upsert: {
+          args: Prisma.ExpenseUpsertArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpensePayload>;
+        };
+        aggregate: {
+          args: Prisma.ExpenseAggregateArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.AggregateExpense>;
+        };
+        groupBy: {
+          args: Prisma.ExpenseGroupByArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.ExpenseGroupByOutputType>[];
+        };
+        count: {
+          args: Prisma.ExpenseCountArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.ExpenseCountAggregateOutputType> | number;
+        };
+      };
+    };
+    ExpenseAnomaly: {
+      payload: Prisma.$ExpenseAnomalyPayload<ExtArgs>;
+      fields: Prisma.ExpenseAnomalyFieldRefs;
+      operations: {
+        findUnique: {
+          args: Prisma.ExpenseAnomalyFindUniqueArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseAnomalyPayload> | null;
+        };
+        findUniqueOrThrow: {
+          args: Prisma.ExpenseAnomalyFindUniqueOrThrowArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseAnomalyPayload>;
+        };
+        findFirst: {
+          args: Prisma.ExpenseAnomalyFindFirstArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseAnomalyPayload> | null;
+        };
+        findFirstOrThrow: {
+          args: Prisma.ExpenseAnomalyFindFirstOrThrowArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseAnomalyPayload>;
+        };
+        findMany: {
+          args: Prisma.ExpenseAnomalyFindManyArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseAnomalyPayload>[];
+        };
+        create: {
+          args: Prisma.ExpenseAnomalyCreateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseAnomalyPayload>;
+        };
+        createMany: {
+          args: Prisma.ExpenseAnomalyCreateManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        createManyAndReturn: {
+          args: Prisma.ExpenseAnomalyCreateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseAnomalyPayload>[];
+        };
+        delete: {
+          args: Prisma.ExpenseAnomalyDeleteArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseAnomalyPayload>;
+        };
+        update: {
+          args: Prisma.ExpenseAnomalyUpdateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseAnomalyPayload>;
+        };
+        deleteMany: {
+          args: Prisma.ExpenseAnomalyDeleteManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        updateMany: {
+          args: Prisma.ExpenseAnomalyUpdateManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        updateManyAndReturn: {
+          args: Prisma.ExpenseAnomalyUpdateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseAnomalyPayload>[];
+        };
+        upsert: {
+          args: Prisma.ExpenseAnomalyUpsertArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseAnomalyPayload>;
+        };
+        aggregate: {
+          args: Prisma.ExpenseAnomalyAggregateArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.AggregateExpenseAnomaly>;
+        };
+        groupBy: {
+          args: Prisma.ExpenseAnomalyGroupByArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.ExpenseAnomalyGroupByOutputType>[];
+        };
+        count: {
+          args: Prisma.ExpenseAnomalyCountArgs<ExtArgs>;
+          result:
+            | runtime.Types.Utils.Optional<Prisma.ExpenseAnomalyCountAggregateOutputType>
+            | number;
+        };
+      };
+    };
+    Income: {
+      payload: Prisma.$IncomePayload<ExtArgs>;
+      fields: Prisma.IncomeFieldRefs;
+      operations: {
+        findUnique: {
+          args: Prisma.IncomeFindUniqueArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IncomePayload> | null;
+        };
+        findUniqueOrThrow: {
+          args: Prisma.IncomeFindUniqueOrThrowArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IncomePayload>;
+        };
+        findFirst: {
+          args: Prisma.IncomeFindFirstArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IncomePayload> | null;
+        };
+        findFirstOrThrow: {
+          args: Prisma.IncomeFindFirstOrThrowArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IncomePayload>;
+        };
+        findMany: {
+          args: Prisma.IncomeFindManyArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IncomePayload>[];
+        };
+        create: {
+          args: Prisma.IncomeCreateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IncomePayload>;
+        };
+        createMany: {
+          args: Prisma.IncomeCreateManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        createManyAndReturn: {
+          args: Prisma.IncomeCreateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IncomePayload>[];
+        };
+        delete: {
+          args: Prisma.IncomeDeleteArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IncomePayload>;
+        };
+        update: {
+          args: Prisma.IncomeUpdateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IncomePayload>;
+        };
+        deleteMany: {
+          args: Prisma.IncomeDeleteManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        updateMany: {
+          args: Prisma.IncomeUpdateManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        updateManyAndReturn: {
+          args: Prisma.IncomeUpdateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IncomePayload>[];
+        };
+        upsert: {
+          args: Prisma.IncomeUpsertArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$IncomePayload>;
+        };
+        aggregate: {
+          args: Prisma.IncomeAggregateArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.AggregateIncome>;
+        };
+        groupBy: {
+          args: Prisma.IncomeGroupByArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.IncomeGroupByOutputType>[];
+        };
+        count: {
+          args: Prisma.IncomeCountArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.IncomeCountAggregateOutputType> | number;
+        };
+      };
+    };
+    CustomCategory: {
+      payload: Prisma.$CustomCategoryPayload<ExtArgs>;
+      fields: Prisma.CustomCategoryFieldRefs;
+      operations: {
+        findUnique: {
+          args: Prisma.CustomCategoryFindUniqueArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CustomCategoryPayload> | null;
+        };
+        findUniqueOrThrow: {
+          args: Prisma.CustomCategoryFindUniqueOrThrowArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CustomCategoryPayload>;
+        };
+        findFirst: {
+          args: Prisma.CustomCategoryFindFirstArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CustomCategoryPayload> | null;
+        };
+        findFirstOrThrow: {
+          args: Prisma.CustomCategoryFindFirstOrThrowArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CustomCategoryPayload>;
+        };
+        findMany: {
+          args: Prisma.CustomCategoryFindManyArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CustomCategoryPayload>[];
+        };
+        create: {
+          args: Prisma.CustomCategoryCreateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CustomCategoryPayload>;
+        };
+        createMany: {
+          args: Prisma.CustomCategoryCreateManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        createManyAndReturn: {
+          args: Prisma.CustomCategoryCreateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CustomCategoryPayload>[];
+        };
+        delete: {
+          args: Prisma.CustomCategoryDeleteArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CustomCategoryPayload>;
+        };
+        update: {
+          args: Prisma.CustomCategoryUpdateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CustomCategoryPayload>;
+        };
+        deleteMany: {
+          args: Prisma.CustomCategoryDeleteManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        updateMany: {
+          args: Prisma.CustomCategoryUpdateManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        updateManyAndReturn: {
+          args: Prisma.CustomCategoryUpdateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CustomCategoryPayload>[];
+        };
+        upsert: {
+          args: Prisma.CustomCategoryUpsertArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CustomCategoryPayload>;
+        };
+        aggregate: {
+          args: Prisma.CustomCategoryAggregateArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.AggregateCustomCategory>;
+        };
+        groupBy: {
+          args: Prisma.CustomCategoryGroupByArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.CustomCategoryGroupByOutputType>[];
+        };
+        count: {
+          args: Prisma.CustomCategoryCountArgs<ExtArgs>;
+          result:
+            | runtime.Types.Utils.Optional<Prisma.CustomCategoryCountAggregateOutputType>
+            | number;
+        };
+      };
+    };
+    ExpenseGroup: {
+      payload: Prisma.$ExpenseGroupPayload<ExtArgs>;
+      fields: Prisma.ExpenseGroupFieldRefs;
+      operations: {
+        findUnique: {
+          args: Prisma.ExpenseGroupFindUniqueArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseGroupPayload> | null;
+        };
+        findUniqueOrThrow: {
+          args: Prisma.ExpenseGroupFindUniqueOrThrowArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseGroupPayload>;
+        };
+        findFirst: {
+          args: Prisma.ExpenseGroupFindFirstArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseGroupPayload> | null;
+        };
+        findFirstOrThrow: {
+          args: Prisma.ExpenseGroupFindFirstOrThrowArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseGroupPayload>;
+        };
+        findMany: {
+          args: Prisma.ExpenseGroupFindManyArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseGroupPayload>[];
+        };
+        create: {
+          args: Prisma.ExpenseGroupCreateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseGroupPayload>;
+        };
+        createMany: {
+          args: Prisma.ExpenseGroupCreateManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        createManyAndReturn: {
+          args: Prisma.ExpenseGroupCreateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseGroupPayload>[];
+        };
+        delete: {
+          args: Prisma.ExpenseGroupDeleteArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseGroupPayload>;
+        };
+        update: {
+          args: Prisma.ExpenseGroupUpdateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseGroupPayload>;
+        };
+        deleteMany: {
+          args: Prisma.ExpenseGroupDeleteManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        updateMany: {
+          args: Prisma.ExpenseGroupUpdateManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        updateManyAndReturn: {
+          args: Prisma.ExpenseGroupUpdateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseGroupPayload>[];
+        };
+        upsert: {
+          args: Prisma.ExpenseGroupUpsertArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseGroupPayload>;
+        };
+        aggregate: {
+          args: Prisma.ExpenseGroupAggregateArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.AggregateExpenseGroup>;
+        };
+        groupBy: {
+          args: Prisma.ExpenseGroupGroupByArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.ExpenseGroupGroupByOutputType>[];
+        };
+        count: {
+          args: Prisma.ExpenseGroupCountArgs<ExtArgs>;
+          result:
+            | runtime.Types.Utils.Optional<Prisma.ExpenseGroupCountAggregateOutputType>
+            | number;
+        };
+      };
+    };
+    ExpenseGroupMember: {
+      payload: Prisma.$ExpenseGroupMemberPayload<ExtArgs>;
+      fields: Prisma.ExpenseGroupMemberFieldRefs;
+      operations: {
+        findUnique: {
+          args: Prisma.ExpenseGroupMemberFindUniqueArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseGroupMemberPayload> | null;
+        };
+        findUniqueOrThrow: {
+          args: Prisma.ExpenseGroupMemberFindUniqueOrThrowArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseGroupMemberPayload>;
+        };
+        findFirst: {
+          args: Prisma.ExpenseGroupMemberFindFirstArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseGroupMemberPayload> | null;
+        };
+        findFirstOrThrow: {
+          args: Prisma.ExpenseGroupMemberFindFirstOrThrowArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseGroupMemberPayload>;
+        };
+        findMany: {
+          args: Prisma.ExpenseGroupMemberFindManyArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseGroupMemberPayload>[];
+        };
+        create: {
+          args: Prisma.ExpenseGroupMemberCreateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseGroupMemberPayload>;
+        };
+        createMany: {
+          args: Prisma.ExpenseGroupMemberCreateManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        createManyAndReturn: {
+          args: Prisma.ExpenseGroupMemberCreateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseGroupMemberPayload>[];
+        };
+        delete: {
+          args: Prisma.ExpenseGroupMemberDeleteArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseGroupMemberPayload>;
+        };
+        update: {
+          args: Prisma.ExpenseGroupMemberUpdateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseGroupMemberPayload>;
+        };
+        deleteMany: {
+          args: Prisma.ExpenseGroupMemberDeleteManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        updateMany: {
+          args: Prisma.ExpenseGroupMemberUpdateManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        updateManyAndReturn: {
+          args: Prisma.ExpenseGroupMemberUpdateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseGroupMemberPayload>[];
+        };
+        upsert: {
+          args: Prisma.ExpenseGroupMemberUpsertArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseGroupMemberPayload>;
+        };
+        aggregate: {
+          args: Prisma.ExpenseGroupMemberAggregateArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.AggregateExpenseGroupMember>;
+        };
+        groupBy: {
+          args: Prisma.ExpenseGroupMemberGroupByArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.ExpenseGroupMemberGroupByOutputType>[];
+        };
+        count: {
+          args: Prisma.ExpenseGroupMemberCountArgs<ExtArgs>;
+          result:
+            | runtime.Types.Utils.Optional<Prisma.ExpenseGroupMemberCountAggregateOutputType>
+            | number;
+        };
+      };
+    };
+    ExpenseShare: {
+      payload: Prisma.$ExpenseSharePayload<ExtArgs>;
+      fields: Prisma.ExpenseShareFieldRefs;
+      operations: {
+        findUnique: {
+          args: Prisma.ExpenseShareFindUniqueArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseSharePayload> | null;
+        };
+        findUniqueOrThrow: {
+          args: Prisma.ExpenseShareFindUniqueOrThrowArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseSharePayload>;
+        };
+        findFirst: {
+          args: Prisma.ExpenseShareFindFirstArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseSharePayload> | null;
+        };
+        findFirstOrThrow: {
+          args: Prisma.ExpenseShareFindFirstOrThrowArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseSharePayload>;
+        };
+        findMany: {
+          args: Prisma.ExpenseShareFindManyArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseSharePayload>[];
+        };
+        create: {
+          args: Prisma.ExpenseShareCreateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseSharePayload>;
+        };
+        createMany: {
+          args: Prisma.ExpenseShareCreateManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        createManyAndReturn: {
+          args: Prisma.ExpenseShareCreateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseSharePayload>[];
+        };
+        delete: {
+          args: Prisma.ExpenseShareDeleteArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseSharePayload>;
+        };
+        update: {
+          args: Prisma.ExpenseShareUpdateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseSharePayload>;
+        };
+        deleteMany: {
+          args: Prisma.ExpenseShareDeleteManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        updateMany: {
+          args: Prisma.ExpenseShareUpdateManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        updateManyAndReturn: {
+          args: Prisma.ExpenseShareUpdateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseSharePayload>[];
+        };
+        upsert: {
+          args: Prisma.ExpenseShareUpsertArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpenseSharePayload>;
+        };
+        aggregate: {
+          args: Prisma.ExpenseShareAggregateArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.AggregateExpenseShare>;
+        };
+        groupBy: {
+          args: Prisma.ExpenseShareGroupByArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.ExpenseShareGroupByOutputType>[];
+        };
+        count: {
+          args: Prisma.ExpenseShareCountArgs<ExtArgs>;
+          result:
+            | runtime.Types.Utils.Optional<Prisma.ExpenseShareCountAggregateOutputType>
+            | number;
+        };
+      };
+    };
+    GroupSettlement: {
+      payload: Prisma.$GroupSettlementPayload<ExtArgs>;
+      fields: Prisma.GroupSettlementFieldRefs;
+      operations: {
+        findUnique: {
+          args: Prisma.GroupSettlementFindUniqueArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GroupSettlementPayload> | null;
+        };
+        findUniqueOrThrow: {
+          args: Prisma.GroupSettlementFindUniqueOrThrowArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GroupSettlementPayload>;
+        };
+        findFirst: {
+          args: Prisma.GroupSettlementFindFirstArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GroupSettlementPayload> | null;
+        };
+        findFirstOrThrow: {
+          args: Prisma.GroupSettlementFindFirstOrThrowArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GroupSettlementPayload>;
+        };
+        findMany: {
+          args: Prisma.GroupSettlementFindManyArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GroupSettlementPayload>[];
+        };
+        create: {
+          args: Prisma.GroupSettlementCreateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GroupSettlementPayload>;
+        };
+        createMany: {
+          args: Prisma.GroupSettlementCreateManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        createManyAndReturn: {
+          args: Prisma.GroupSettlementCreateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GroupSettlementPayload>[];
+        };
+        delete: {
+          args: Prisma.GroupSettlementDeleteArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GroupSettlementPayload>;
+        };
+        update: {
+          args: Prisma.GroupSettlementUpdateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GroupSettlementPayload>;
+        };
+        deleteMany: {
+          args: Prisma.GroupSettlementDeleteManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        updateMany: {
+          args: Prisma.GroupSettlementUpdateManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        updateManyAndReturn: {
+          args: Prisma.GroupSettlementUpdateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GroupSettlementPayload>[];
+        };
+        upsert: {
+          args: Prisma.GroupSettlementUpsertArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GroupSettlementPayload>;
+        };
+        aggregate: {
+          args: Prisma.GroupSettlementAggregateArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.AggregateGroupSettlement>;
+        };
+        groupBy: {
+          args: Prisma.GroupSettlementGroupByArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.GroupSettlementGroupByOutputType>[];
+        };
+        count: {
+          args: Prisma.GroupSettlementCountArgs<ExtArgs>;
+          result:
+            | runtime.Types.Utils.Optional<Prisma.GroupSettlementCountAggregateOutputType>
+            | number;
+        };
+      };
+    };
+    ExchangeRate: {
+      payload: Prisma.$ExchangeRatePayload<ExtArgs>;
+      fields: Prisma.ExchangeRateFieldRefs;
+      operations: {
+        findUnique: {
+          args: Prisma.ExchangeRateFindUniqueArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExchangeRatePayload> | null;
+        };
+        findUniqueOrThrow: {
+          args: Prisma.ExchangeRateFindUniqueOrThrowArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExchangeRatePayload>;
+        };
+        findFirst: {
+          args: Prisma.ExchangeRateFindFirstArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExchangeRatePayload> | null;
+        };
+        findFirstOrThrow: {
+          args: Prisma.ExchangeRateFindFirstOrThrowArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExchangeRatePayload>;
+        };
+        findMany: {
+          args: Prisma.ExchangeRateFindManyArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExchangeRatePayload>[];
+        };
+        create: {
+          args: Prisma.ExchangeRateCreateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExchangeRatePayload>;
+        };
+        createMany: {
+          args: Prisma.ExchangeRateCreateManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        createManyAndReturn: {
+          args: Prisma.ExchangeRateCreateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExchangeRatePayload>[];
+        };
+        delete: {
+          args: Prisma.ExchangeRateDeleteArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExchangeRatePayload>;
+        };
+        update: {
+          args: Prisma.ExchangeRateUpdateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExchangeRatePayload>;
+        };
+        deleteMany: {
+          args: Prisma.ExchangeRateDeleteManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        updateMany: {
+          args: Prisma.ExchangeRateUpdateManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        updateManyAndReturn: {
+          args: Prisma.ExchangeRateUpdateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExchangeRatePayload>[];
+        };
+        upsert: {
+          args: Prisma.ExchangeRateUpsertArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExchangeRatePayload>;
+        };
+        aggregate: {
+          args: Prisma.ExchangeRateAggregateArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.AggregateExchangeRate>;
+        };
+        groupBy: {
+          args: Prisma.ExchangeRateGroupByArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.ExchangeRateGroupByOutputType>[];
+        };
+        count: {
+          args: Prisma.ExchangeRateCountArgs<ExtArgs>;
+          result:
+            | runtime.Types.Utils.Optional<Prisma.ExchangeRateCountAggregateOutputType>
+            | number;
+        };
+      };
+    };
+    Budget: {
+      payload: Prisma.$BudgetPayload<ExtArgs>;
+      fields: Prisma.BudgetFieldRefs;
+      operations: {
+        findUnique: {
+          args: Prisma.BudgetFindUniqueArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BudgetPayload> | null;
+        };
+        findUniqueOrThrow: {
+          args: Prisma.BudgetFindUniqueOrThrowArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BudgetPayload>;
+        };
+        findFirst: {
+          args: Prisma.BudgetFindFirstArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BudgetPayload> | null;
+        };
+        findFirstOrThrow: {
+          args: Prisma.BudgetFindFirstOrThrowArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BudgetPayload>;
+        };
+        findMany: {
+          args: Prisma.BudgetFindManyArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BudgetPayload>[];
+        };
+        create: {
+          args: Prisma.BudgetCreateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BudgetPayload>;
+        };
+        createMany: {
+          args: Prisma.BudgetCreateManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        createManyAndReturn: {
+          args: Prisma.BudgetCreateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BudgetPayload>[];
+        };
+        delete: {
+          args: Prisma.BudgetDeleteArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BudgetPayload>;
+        };
+        update: {
+          args: Prisma.BudgetUpdateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BudgetPayload>;
+        };
+        deleteMany: {
+          args: Prisma.BudgetDeleteManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        updateMany: {
+          args: Prisma.BudgetUpdateManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        updateManyAndReturn: {
+          args: Prisma.BudgetUpdateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BudgetPayload>[];
+        };
+        upsert: {
+          args: Prisma.BudgetUpsertArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BudgetPayload>;
+        };
+        aggregate: {
+          args: Prisma.BudgetAggregateArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.AggregateBudget>;
+        };
+        groupBy: {
+          args: Prisma.BudgetGroupByArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.BudgetGroupByOutputType>[];
+        };
+        count: {
+          args: Prisma.BudgetCountArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.BudgetCountAggregateOutputType> | number;
+        };
+      };
+    };
+    CategoryRule: {
+      payload: Prisma.$CategoryRulePayload<ExtArgs>;
+      fields: Prisma.CategoryRuleFieldRefs;
+      operations: {
+        findUnique: {
+          args: Prisma.CategoryRuleFindUniqueArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CategoryRulePayload> | null;
+        };
+        findUniqueOrThrow: {
+          args: Prisma.CategoryRuleFindUniqueOrThrowArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CategoryRulePayload>;
+        };
+        findFirst: {
+          args: Prisma.CategoryRuleFindFirstArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CategoryRulePayload> | null;
+        };
+        findFirstOrThrow: {
+          args: Prisma.CategoryRuleFindFirstOrThrowArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CategoryRulePayload>;
+        };
+        findMany: {
+          args: Prisma.CategoryRuleFindManyArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CategoryRulePayload>[];
+        };
+        create: {
+          args: Prisma.CategoryRuleCreateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CategoryRulePayload>;
+        };
+        createMany: {
+          args: Prisma.CategoryRuleCreateManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        createManyAndReturn: {
+          args: Prisma.CategoryRuleCreateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CategoryRulePayload>[];
+        };
+        delete: {
+          args: Prisma.CategoryRuleDeleteArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CategoryRulePayload>;
+        };
+        update: {
+          args: Prisma.CategoryRuleUpdateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CategoryRulePayload>;
+        };
+        deleteMany: {
+          args: Prisma.CategoryRuleDeleteManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        updateMany: {
+          args: Prisma.CategoryRuleUpdateManyArgs<ExtArgs>;
+          result: BatchPayload;
+        };
+        updateManyAndReturn: {
+          args: Prisma.CategoryRuleUpdateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CategoryRulePayload>[];
+        };
+        upsert: {
+          args: Prisma.CategoryRuleUpsertArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CategoryRulePayload>;
+        };
+        aggregate: {
+          args: Prisma.CategoryRuleAggregateArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.AggregateCategoryRule>;
+        };
+        groupBy: {
+          args: Prisma.CategoryRuleGroupByArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.CategoryRuleGroupByOutputType>[];
+        };
+        count: {
+          args: Prisma.CategoryRuleCountArgs<ExtArgs>;
+          result:
+            | runtime.Types.Utils.Optional<Prisma.CategoryRuleCountAggregateOutputType>
+            | number;
+        };
+      };
+    };
+    RecurringCharge: {
+      payload: Prisma.$RecurringChargePayload<ExtArgs>;
+      fields: Prisma.RecurringChargeFieldRefs;
+      operations: {
+        findUnique: {
+          args: Prisma.RecurringChargeFindUniqueArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecurringChargePayload> | null;
+        };
+        findUniqueOrThrow: {
+          args: Prisma.RecurringChargeFindUniqueOrThrowArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecurringChargePayload>;
+        };
+        findFirst: {
+          args: Prisma.RecurringChargeFindFirstArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecurringChargePayload> | null;
+        };
+        findFirstOrThrow: {
+          args: Prisma.RecurringChargeFindFirstOrThrowArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecurringChargePayload>;
+        };
+        findMany: {
+          args: Prisma.RecurringChargeFindManyArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecurringChargePayload>[];
+        };
+        create: {
+          args: Prisma.RecurringChargeCreateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecurringChargePayload>;
+        };
+        createMany: {
+          args: Prisma.RecurringChargeCreateManyArgs<ExtArgs>;
           result: BatchPayload;
         };
         createManyAndReturn: {
-          args: Prisma.ProcessedEmailCreateManyAndReturnArgs<ExtArgs>;
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProcessedEmailPayload>[];
+          args: Prisma.RecurringChargeCreateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecurringChargePayload>[];
         };
         delete: {
-          args: Prisma.ProcessedEmailDeleteArgs<ExtArgs>;
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProcessedEmailPayload>;
+          args: Prisma.RecurringChargeDeleteArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecurringChargePayload>;
         };
         update: {
-          args: Prisma.ProcessedEmailUpdateArgs<ExtArgs>;
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProcessedEmailPayload>;
+          args: Prisma.RecurringChargeUpdateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecurringChargePayload>;
         };
         deleteMany: {
-          args: Prisma.ProcessedEmailDeleteManyArgs<ExtArgs>;
+          args: Prisma.RecurringChargeDeleteManyArgs<ExtArgs>;
           result: BatchPayload;
         };
         updateMany: {
-          args: Prisma.ProcessedEmailUpdateManyArgs<ExtArgs>;
+          args: Prisma.RecurringChargeUpdateManyArgs<ExtArgs>;
           result: BatchPayload;
         };
         updateManyAndReturn: {
-          args: Prisma.ProcessedEmailUpdateManyAndReturnArgs<ExtArgs>;
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProcessedEmailPayload>[];
+          args: Prisma.RecurringChargeUpdateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecurringChargePayload>[];
         };
         upsert: {
-          args: Prisma.ProcessedEmailUpsertArgs<ExtArgs>;
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ProcessedEmailPayload>;
+          args: Prisma.RecurringChargeUpsertArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$RecurringChargePayload>;
         };
         aggregate: {
-          args: Prisma.ProcessedEmailAggregateArgs<ExtArgs>;
-          result: runtime.Types.Utils.Optional<Prisma.AggregateProcessedEmail>;
+          args: Prisma.RecurringChargeAggregateArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.AggregateRecurringCharge>;
         };
         groupBy: {
-          args: Prisma.ProcessedEmailGroupByArgs<ExtArgs>;
-          result: runtime.Types.Utils.Optional<Prisma.ProcessedEmailGroupByOutputType>[];
+          args: Prisma.RecurringChargeGroupByArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.RecurringChargeGroupByOutputType>[];
         };
         count: {
-          args: Prisma.ProcessedEmailCountArgs<ExtArgs>;
+          args: Prisma.RecurringChargeCountArgs<ExtArgs>;
           result:
-            | runtime.Types.Utils.Optional<Prisma.ProcessedEmailCountAggregateOutputType>
+            | runtime.Types.Utils.Optional<Prisma.RecurringChargeCountAggregateOutputType>
             | number;
         };
       };
     };
-    Expense: {
-      payload: Prisma.$ExpensePayload<ExtArgs>;
-      fields: Prisma.ExpenseFieldRefs;
+    EmailRule: {
+      payload: Prisma.$EmailRulePayload<ExtArgs>;
+      fields: Prisma.EmailRuleFieldRefs;
       operations: {
         findUnique: {
-          args: Prisma.ExpenseFindUniqueArgs<ExtArgs>;
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpensePayload> | null;
+          args: Prisma.EmailRuleFindUniqueArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EmailRulePayload> | null;
         };
         findUniqueOrThrow: {
-          args: Prisma.ExpenseFindUniqueOrThrowArgs<ExtArgs>;
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpensePayload>;
+          args: Prisma.EmailRuleFindUniqueOrThrowArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EmailRulePayload>;
         };
         findFirst: {
-          args: Prisma.ExpenseFindFirstArgs<ExtArgs>;
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpensePayload> | null;
+          args: Prisma.EmailRuleFindFirstArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EmailRulePayload> | null;
         };
         findFirstOrThrow: {
-          args: Prisma.ExpenseFindFirstOrThrowArgs<ExtArgs>;
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpensePayload>;
+          args: Prisma.EmailRuleFindFirstOrThrowArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EmailRulePayload>;
         };
         findMany: {
-          args: Prisma.ExpenseFindManyArgs<ExtArgs>;
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpensePayload>[];
+          args: Prisma.EmailRuleFindManyArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EmailRulePayload>[];
         };
         create: {
-          args: Prisma.ExpenseCreateArgs<ExtArgs>;
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpensePayload>;
+          args: Prisma.EmailRuleCreateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EmailRulePayload>;
         };
         createMany: {
-          args: Prisma.ExpenseCreateManyArgs<ExtArgs>;
+          args: Prisma.EmailRuleCreateManyArgs<ExtArgs>;
           result: BatchPayload;
         };
         createManyAndReturn: {
-          args: Prisma.ExpenseCreateManyAndReturnArgs<ExtArgs>;
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpensePayload>[];
+          args: Prisma.EmailRuleCreateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EmailRulePayload>[];
         };
         delete: {
-          args: Prisma.ExpenseDeleteArgs<ExtArgs>;
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpensePayload>;
+          args: Prisma.EmailRuleDeleteArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EmailRulePayload>;
         };
         update: {
-          args: Prisma.ExpenseUpdateArgs<ExtArgs>;
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpensePayload>;
+          args: Prisma.EmailRuleUpdateArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EmailRulePayload>;
         };
         deleteMany: {
-          args: Prisma.ExpenseDeleteManyArgs<ExtArgs>;
+          args: Prisma.EmailRuleDeleteManyArgs<ExtArgs>;
           result: BatchPayload;
         };
         updateMany: {
-          args: Prisma.ExpenseUpdateManyArgs<ExtArgs>;
+          args: Prisma.EmailRuleUpdateManyArgs<ExtArgs>;
           result: BatchPayload;
         };
         updateManyAndReturn: {
-          args: Prisma.ExpenseUpdateManyAndReturnArgs<ExtArgs>;
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpensePayload>[];
+          args: Prisma.EmailRuleUpdateManyAndReturnArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EmailRulePayload>[];
         };
         upsert: {
-          args: Prisma.ExpenseUpsertArgs<ExtArgs>;
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$ExpensePayload>;
+          args: Prisma.EmailRuleUpsertArgs<ExtArgs>;
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$EmailRulePayload>;
         };
         aggregate: {
-          args: Prisma.ExpenseAggregateArgs<ExtArgs>;
-          result: runtime.Types.Utils.Optional<Prisma.AggregateExpense>;
+          args: Prisma.EmailRuleAggregateArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.AggregateEmailRule>;
         };
         groupBy: {
-          args: Prisma.ExpenseGroupByArgs<ExtArgs>;
-          result: runtime.Types.Utils.Optional<Prisma.ExpenseGroupByOutputType>[];
+          args: Prisma.EmailRuleGroupByArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.EmailRuleGroupByOutputType>[];
         };
         count: {
-          args: Prisma.ExpenseCountArgs<ExtArgs>;
-          result: runtime.Types.Utils.Optional<Prisma.ExpenseCountAggregateOutputType> | number;
+          args: Prisma.EmailRuleCountArgs<ExtArgs>;
+          result: runtime.Types.Utils.Optional<Prisma.EmailRuleCountAggregateOutputType> | number;
         };
       };
     };
@@ -1753,8 +2837,14 @@ export const UserScalarFieldEnum = {
   role: "role",
   chatId: "chatId",
   locale: "locale",
+  timezone: "timezone",
+  currency: "currency",
   digestEnabled: "digestEnabled",
   digestHour: "digestHour",
+  emailDigestHours: "emailDigestHours",
+  calendarLeadMinutes: "calendarLeadMinutes",
+  escalationPhone: "escalationPhone",
+  paymentAlias: "paymentAlias",
   createdAt: "createdAt",
   updatedAt: "updatedAt"
 } as const;
@@ -1865,9 +2955,17 @@ export const ReminderScalarFieldEnum = {
   chatId: "chatId",
   status: "status",
   calendarEventId: "calendarEventId",
+  source: "source",
   recurrence: "recurrence",
   recurrenceDay: "recurrenceDay",
   recurrenceTime: "recurrenceTime",
+  rrule: "rrule",
+  occurrenceIndex: "occurrenceIndex",
+  notificationMessageId: "notificationMessageId",
+  insist: "insist",
+  nagCount: "nagCount",
+  nextNagAt: "nextNagAt",
+  escalatedAt: "escalatedAt",
   createdAt: "createdAt",
   updatedAt: "updatedAt",
   sentAt: "sentAt"
@@ -1886,13 +2984,29 @@ export const WhatsAppSessionScalarFieldEnum = {
 export type WhatsAppSessionScalarFieldEnum =
   (typeof WhatsAppSessionScalarFieldEnum)[keyof typeof WhatsAppSessionScalarFieldEnum];
 
+export const ConversationStateScalarFieldEnum = {
+  id: "id",
+  chatId: "chatId",
+  type: "type",
+  data: "data",
+  expiresAt: "expiresAt",
+  createdAt: "createdAt",
+  updatedAt: "updatedAt"
+} as const;
+
+export type ConversationStateScalarFieldEnum =
+  (typeof ConversationStateScalarFieldEnum)[keyof typeof ConversationStateScalarFieldEnum];
+
 export const GoogleAuthTokenScalarFieldEnum = {
   id: "id",
+  userId: "userId",
   accessToken: "accessToken",
   refreshToken: "refreshToken",
   expiresAt: "expiresAt",
   scope: "scope",
   tokenType: "tokenType",
+  syncToken: "syncToken",
+  lastFullSyncAt: "lastFullSyncAt",
   createdAt: "createdAt",
   updatedAt: "updatedAt"
 } as const;
@@ -1903,6 +3017,8 @@ export type GoogleAuthTokenScalarFieldEnum =
 export const EmailTokenScalarFieldEnum = {
   id: "id",
   userId: "userId",
+  label: "label",
+  email: "email",
   accessToken: "accessToken",
   refreshToken: "refreshToken",
   expiresAt: "expiresAt",
@@ -1910,6 +3026,7 @@ export const EmailTokenScalarFieldEnum = {
   tokenType: "tokenType",
   historyId: "historyId",
   lastSyncAt: "lastSyncAt",
+  watchExpiresAt: "watchExpiresAt",
   createdAt: "createdAt",
   updatedAt: "updatedAt"
 } as const;
@@ -1917,6 +3034,27 @@ export const EmailTokenScalarFieldEnum = {
 export type EmailTokenScalarFieldEnum =
   (typeof EmailTokenScalarFieldEnum)[keyof typeof EmailTokenScalarFieldEnum];
 
+export const ImapAccountScalarFieldEnum = {
+  id: "id",
+  userId: "userId",
+  label: "label",
+  email: "email",
+  username: "username",
+  password: "password",
+  imapHost: "imapHost",
+  imapPort: "imapPort",
+  smtpHost: "smtpHost",
+  smtpPort: "smtpPort",
+  uidValidity: "uidValidity",
+  lastUid: "lastUid",
+  lastSyncAt: "lastSyncAt",
+  createdAt: "createdAt",
+  updatedAt: "updatedAt"
+} as const;
+
+export type ImapAccountScalarFieldEnum =
+  (typeof ImapAccountScalarFieldEnum)[keyof typeof ImapAccountScalarFieldEnum];
+
 export const MercadoLibreTokenScalarFieldEnum = {
   id: "id",
   userId: "userId",
@@ -1936,6 +3074,7 @@ export type MercadoLibreTokenScalarFieldEnum =
 export const ProcessedEmailScalarFieldEnum = {
   id: "id",
   userId: "userId",
+  accountId: "accountId",
   gmailMessageId: "gmailMessageId",
   threadId: "threadId",
   subject: "subject",
@@ -1945,7 +3084,8 @@ export const ProcessedEmailScalarFieldEnum = {
   emailType: "emailType",
   extractedData: "extractedData",
   reminderId: "reminderId",
-  status: "status"
+  status: "status",
+  digestPending: "digestPending"
 } as const;
 
 export type ProcessedEmailScalarFieldEnum =
@@ -1961,6 +3101,9 @@ export const ExpenseScalarFieldEnum = {
   category: "category",
   description: "description",
   date: "date",
+  customCategoryId: "customCategoryId",
+  tags: "tags",
+  exchangeRateId: "exchangeRateId",
   createdAt: "createdAt",
   updatedAt: "updatedAt"
 } as const;
@@ -1968,12 +3111,182 @@ export const ExpenseScalarFieldEnum = {
 export type ExpenseScalarFieldEnum =
   (typeof ExpenseScalarFieldEnum)[keyof typeof ExpenseScalarFieldEnum];
 
+export const ExpenseAnomalyScalarFieldEnum = {
+  id: "id",
+  userId: "userId",
+  expenseId: "expenseId",
+  reasons: "reasons",
+  usualAmount: "usualAmount",
+  duplicateOfId: "duplicateOfId",
+  status: "status",
+  resolvedAt: "resolvedAt",
+  createdAt: "createdAt"
+} as const;
+
+export type ExpenseAnomalyScalarFieldEnum =
+  (typeof ExpenseAnomalyScalarFieldEnum)[keyof typeof ExpenseAnomalyScalarFieldEnum];
+
+export const IncomeScalarFieldEnum = {
+  id: "id",
+  userId: "userId",
+  processedEmailId: "processedEmailId",
+  source: "source",
+  amount: "amount",
+  currency: "currency",
+  category: "category",
+  description: "description",
+  date: "date",
+  exchangeRateId: "exchangeRateId",
+  createdAt: "createdAt",
+  updatedAt: "updatedAt"
+} as const;
+
+export type IncomeScalarFieldEnum =
+  (typeof IncomeScalarFieldEnum)[keyof typeof IncomeScalarFieldEnum];
+
+export const CustomCategoryScalarFieldEnum = {
+  id: "id",
+  userId: "userId",
+  key: "key",
+  name: "name",
+  createdAt: "createdAt"
+} as const;
+
+export type CustomCategoryScalarFieldEnum =
+  (typeof CustomCategoryScalarFieldEnum)[keyof typeof CustomCategoryScalarFieldEnum];
+
+export const ExpenseGroupScalarFieldEnum = {
+  id: "id",
+  name: "name",
+  createdById: "createdById",
+  createdAt: "createdAt"
+} as const;
+
+export type ExpenseGroupScalarFieldEnum =
+  (typeof ExpenseGroupScalarFieldEnum)[keyof typeof ExpenseGroupScalarFieldEnum];
+
+export const ExpenseGroupMemberScalarFieldEnum = {
+  id: "id",
+  groupId: "groupId",
+  userId: "userId",
+  status: "status",
+  createdAt: "createdAt",
+  updatedAt: "updatedAt"
+} as const;
+
+export type ExpenseGroupMemberScalarFieldEnum =
+  (typeof ExpenseGroupMemberScalarFieldEnum)[keyof typeof ExpenseGroupMemberScalarFieldEnum];
+
+export const ExpenseShareScalarFieldEnum = {
+  id: "id",
+  groupId: "groupId",
+  expenseId: "expenseId",
+  userId: "userId",
+  amount: "amount",
+  createdAt: "createdAt"
+} as const;
+
+export type ExpenseShareScalarFieldEnum =
+  (typeof ExpenseShareScalarFieldEnum)[keyof typeof ExpenseShareScalarFieldEnum];
+
+export const GroupSettlementScalarFieldEnum = {
+  id: "id",
+  groupId: "groupId",
+  fromUserId: "fromUserId",
+  toUserId: "toUserId",
+  amount: "amount",
+  currency: "currency",
+  createdAt: "createdAt"
+} as const;
+
+export type GroupSettlementScalarFieldEnum =
+  (typeof GroupSettlementScalarFieldEnum)[keyof typeof GroupSettlementScalarFieldEnum];
+
+export const ExchangeRateScalarFieldEnum = {
+  id: "id",
+  day: "day",
+  officialUsd: "officialUsd",
+  blueUsd: "blueUsd",
+  officialEur: "officialEur",
+  blueEur: "blueEur",
+  createdAt: "createdAt"
+} as const;
+
+export type ExchangeRateScalarFieldEnum =
+  (typeof ExchangeRateScalarFieldEnum)[keyof typeof ExchangeRateScalarFieldEnum];
+
+export const BudgetScalarFieldEnum = {
+  id: "id",
+  userId: "userId",
+  category: "category",
+  currency: "currency",
+  amount: "amount",
+  alertedPercent: "alertedPercent",
+  alertedPeriod: "alertedPeriod",
+  createdAt: "createdAt",
+  updatedAt: "updatedAt"
+} as const;
+
+export type BudgetScalarFieldEnum =
+  (typeof BudgetScalarFieldEnum)[keyof typeof BudgetScalarFieldEnum];
+
+export const CategoryRuleScalarFieldEnum = {
+  id: "id",
+  userId: "userId",
+  merchantKey: "merchantKey",
+  merchant: "merchant",
+  category: "category",
+  createdAt: "createdAt",
+  updatedAt: "updatedAt"
+} as const;
+
+export type CategoryRuleScalarFieldEnum =
+  (typeof CategoryRuleScalarFieldEnum)[keyof typeof CategoryRuleScalarFieldEnum];
+
+export const RecurringChargeScalarFieldEnum = {
+  id: "id",
+  userId: "userId",
+  merchantKey: "merchantKey",
+  merchant: "merchant",
+  currency: "currency",
+  period: "period",
+  amount: "amount",
+  previousAmount: "previousAmount",
+  lastChargeAt: "lastChargeAt",
+  nextExpectedAt: "nextExpectedAt",
+  priceAlertedAt: "priceAlertedAt",
+  missedAlertedFor: "missedAlertedFor",
+  reminderId: "reminderId",
+  createdAt: "createdAt",
+  updatedAt: "updatedAt"
+} as const;
+
+export type RecurringChargeScalarFieldEnum =
+  (typeof RecurringChargeScalarFieldEnum)[keyof typeof RecurringChargeScalarFieldEnum];
+
+export const EmailRuleScalarFieldEnum = {
+  id: "id",
+  userId: "userId",
+  action: "action",
+  sender: "sender",
+  emailType: "emailType",
+  startHour: "startHour",
+  endHour: "endHour",
+  ruleKey: "ruleKey",
+  createdAt: "createdAt"
+} as const;
+
+export type EmailRuleScalarFieldEnum =
+  (typeof EmailRuleScalarFieldEnum)[keyof typeof EmailRuleScalarFieldEnum];
+
 export const ScheduledPaymentScalarFieldEnum = {
   id: "id",
   chatId: "chatId",
+  userId: "userId",
   recipient: "recipient",
   amount: "amount",
   description: "description",
+  mode: "mode",
   recurrence: "recurrence",
   recurrenceDay: "recurrenceDay",
   recurrenceTime: "recurrenceTime",
@@ -1981,6 +3294,8 @@ export const ScheduledPaymentScalarFieldEnum = {
   totalPayments: "totalPayments",
   paidCount: "paidCount",
   status: "status",
+  lastTransactionId: "lastTransactionId",
+  lastError: "lastError",
   createdAt: "createdAt",
   updatedAt: "updatedAt"
 } as const;
@@ -2185,6 +3500,22 @@ export type ListEnumReminderStatusFieldRefInput<$PrismaModel> = FieldRefInputTyp
   "ReminderStatus[]"
 >;
 
+/**
+ * Reference to a field of type 'ReminderSource'
+ */
+export type EnumReminderSourceFieldRefInput<$PrismaModel> = FieldRefInputType<
+  $PrismaModel,
+  "ReminderSource"
+>;
+
+/**
+ * Reference to a field of type 'ReminderSource[]'
+ */
+export type ListEnumReminderSourceFieldRefInput<$PrismaModel> = FieldRefInputType<
+  $PrismaModel,
+  "ReminderSource[]"
+>;
+
 /**
  * Reference to a field of type 'RecurrenceType'
  */
@@ -2256,6 +3587,118 @@ export type ListEnumExpenseCategoryFieldRefInput<$PrismaModel> = FieldRefInputTy
   "ExpenseCategory[]"
 >;
 
+/**
+ * Reference to a field of type 'AnomalyReason[]'
+ */
+export type ListEnumAnomalyReasonFieldRefInput<$PrismaModel> = FieldRefInputType<
+  $PrismaModel,
+  "AnomalyReason[]"
+>;
+
+/**
+ * Reference to a field of type 'AnomalyReason'
+ */
+export type EnumAnomalyReasonFieldRefInput<$PrismaModel> = FieldRefInputType<
+  $PrismaModel,
+  "AnomalyReason"
+>;
+
+/**
+ * Reference to a field of type 'AnomalyStatus'
+ */
+export type EnumAnomalyStatusFieldRefInput<$PrismaModel> = FieldRefInputType<
+  $PrismaModel,
+  "AnomalyStatus"
+>;
+
+/**
+ * Reference to a field of type 'AnomalyStatus[]'
+ */
+export type ListEnumAnomalyStatusFieldRefInput<$PrismaModel> = FieldRefInputType<
+  $PrismaModel,
+  "AnomalyStatus[]"
+>;
+
+/**
+ * Reference to a field of type 'IncomeCategory'
+ */
+export type EnumIncomeCategoryFieldRefInput<$PrismaModel> = FieldRefInputType<
+  $PrismaModel,
+  "IncomeCategory"
+>;
+
+/**
+ * Reference to a field of type 'IncomeCategory[]'
+ */
+export type ListEnumIncomeCategoryFieldRefInput<$PrismaModel> = FieldRefInputType<
+  $PrismaModel,
+  "IncomeCategory[]"
+>;
+
+/**
+ * Reference to a field of type 'GroupMemberStatus'
+ */
+export type EnumGroupMemberStatusFieldRefInput<$PrismaModel> = FieldRefInputType<
+  $PrismaModel,
+  "GroupMemberStatus"
+>;
+
+/**
+ * Reference to a field of type 'GroupMemberStatus[]'
+ */
+export type ListEnumGroupMemberStatusFieldRefInput<$PrismaModel> = FieldRefInputType<
+  $PrismaModel,
+  "GroupMemberStatus[]"
+>;
+
+/**
+ * Reference to a field of type 'RecurringPeriod'
+ */
+export type EnumRecurringPeriodFieldRefInput<$PrismaModel> = FieldRefInputType<
+  $PrismaModel,
+  "RecurringPeriod"
+>;
+
+/**
+ * Reference to a field of type 'RecurringPeriod[]'
+ */
+export type ListEnumRecurringPeriodFieldRefInput<$PrismaModel> = FieldRefInputType<
+  $PrismaModel,
+  "RecurringPeriod[]"
+>;
+
+/**
+ * Reference to a field of type 'EmailRuleAction'
+ */
+export type EnumEmailRuleActionFieldRefInput<$PrismaModel> = FieldRefInputType<
+  $PrismaModel,
+  "EmailRuleAction"
+>;
+
+/**
+ * Reference to a field of type 'EmailRuleAction[]'
+ */
+export type ListEnumEmailRuleActionFieldRefInput<$PrismaModel> = FieldRefInputType<
+  $PrismaModel,
+  "EmailRuleAction[]"
+>;
+
+/**
+ * Reference to a field of type 'ScheduledPaymentMode'
+ */
+export type EnumScheduledPaymentModeFieldRefInput<$PrismaModel> = FieldRefInputType<
+  $PrismaModel,
+  "ScheduledPaymentMode"
+>;
+
+/**
+ * Reference to a field of type 'ScheduledPaymentMode[]'
+ */
+export type ListEnumScheduledPaymentModeFieldRefInput<$PrismaModel> = FieldRefInputType<
+  $PrismaModel,
+  "ScheduledPaymentMode[]"
+>;
+
 /**
  * Reference to a field of type 'ScheduledPaymentStatus'
  */
@@ -2394,11 +3837,25 @@ export type GlobalOmitConfig = {
   payment?: Prisma.PaymentOmit;
   reminder?: Prisma.ReminderOmit;
   whatsAppSession?: Prisma.WhatsAppSessionOmit;
+  conversationState?: Prisma.ConversationStateOmit;
   googleAuthToken?: Prisma.GoogleAuthTokenOmit;
   emailToken?: Prisma.EmailTokenOmit;
+  imapAccount?: Prisma.ImapAccountOmit;
   mercadoLibreToken?: Prisma.MercadoLibreTokenOmit;
   processedEmail?: Prisma.ProcessedEmailOmit;
   expense?: Prisma.ExpenseOmit;
+  expenseAnomaly?: Prisma.ExpenseAnomalyOmit;
+  income?: Prisma.IncomeOmit;
+  customCategory?: Prisma.CustomCategoryOmit;
+  expenseGroup?: Prisma.ExpenseGroupOmit;
+  expenseGroupMember?: Prisma.ExpenseGroupMemberOmit;
+  expenseShare?: Prisma.ExpenseShareOmit;
+  groupSettlement?: Prisma.GroupSettlementOmit;
+  exchangeRate?: Prisma.ExchangeRateOmit;
+  budget?: Prisma.BudgetOmit;
+  categoryRule?: Prisma.CategoryRuleOmit;
+  recurringCharge?: Prisma.RecurringChargeOmit;
+  emailRule?: Prisma.EmailRuleOmit;
   scheduledPayment?: Prisma.ScheduledPaymentOmit;
   commit?: Prisma.CommitOmit;
   linkingCode?: Prisma.LinkingCodeOmit;
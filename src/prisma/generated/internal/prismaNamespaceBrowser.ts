@@ -57,11 +57,25 @@ export const ModelName = {
   Payment: "Payment",
   Reminder: "Reminder",
   WhatsAppSession: "WhatsAppSession",
+  ConversationState: "ConversationState",
   GoogleAuthToken: "GoogleAuthToken",
   EmailToken: "EmailToken",
+  ImapAccount: "ImapAccount",
   MercadoLibreToken: "MercadoLibreToken",
   ProcessedEmail: "ProcessedEmail",
   Expense: "Expense",
+  ExpenseAnomaly: "ExpenseAnomaly",
+  Income: "Income",
+  CustomCategory: "CustomCategory",
+  ExpenseGroup: "ExpenseGroup",
+  ExpenseGroupMember: "ExpenseGroupMember",
+  ExpenseShare: "ExpenseShare",
+  GroupSettlement: "GroupSettlement",
+  ExchangeRate: "ExchangeRate",
+  Budget: "Budget",
+  CategoryRule: "CategoryRule",
+  RecurringCharge: "RecurringCharge",
+  EmailRule: "EmailRule",
   ScheduledPayment: "ScheduledPayment",
   Commit: "Commit",
   LinkingCode: "LinkingCode"
@@ -93,8 +107,14 @@ export const UserScalarFieldEnum = {
   role: "role",
   chatId: "chatId",
   locale: "locale",
+  timezone: "timezone",
+  currency: "currency",
   digestEnabled: "digestEnabled",
   digestHour: "digestHour",
+  emailDigestHours: "emailDigestHours",
+  calendarLeadMinutes: "calendarLeadMinutes",
+  escalationPhone: "escalationPhone",
+  paymentAlias: "paymentAlias",
   createdAt: "createdAt",
   updatedAt: "updatedAt"
 } as const;
@@ -205,9 +225,17 @@ export const ReminderScalarFieldEnum = {
   chatId: "chatId",
   status: "status",
   calendarEventId: "calendarEventId",
+  source: "source",
   recurrence: "recurrence",
   recurrenceDay: "recurrenceDay",
   recurrenceTime: "recurrenceTime",
+  rrule: "rrule",
+  occurrenceIndex: "occurrenceIndex",
+  notificationMessageId: "notificationMessageId",
+  insist: "insist",
+  nagCount: "nagCount",
+  nextNagAt: "nextNagAt",
+  escalatedAt: "escalatedAt",
   createdAt: "createdAt",
   updatedAt: "updatedAt",
   sentAt: "sentAt"
@@ -226,13 +254,29 @@ export const WhatsAppSessionScalarFieldEnum = {
 export type WhatsAppSessionScalarFieldEnum =
   (typeof WhatsAppSessionScalarFieldEnum)[keyof typeof WhatsAppSessionScalarFieldEnum];
 
+export const ConversationStateScalarFieldEnum = {
+  id: "id",
+  chatId: "chatId",
+  type: "type",
+  data: "data",
+  expiresAt: "expiresAt",
+  createdAt: "createdAt",
+  updatedAt: "updatedAt"
+} as const;
+
+export type ConversationStateScalarFieldEnum =
+  (typeof ConversationStateScalarFieldEnum)[keyof typeof ConversationStateScalarFieldEnum];
+
 export const GoogleAuthTokenScalarFieldEnum = {
   id: "id",
+  userId: "userId",
   accessToken: "accessToken",
   refreshToken: "refreshToken",
   expiresAt: "expiresAt",
   scope: "scope",
   tokenType: "tokenType",
+  syncToken: "syncToken",
+  lastFullSyncAt: "lastFullSyncAt",
   createdAt: "createdAt",
   updatedAt: "updatedAt"
 } as const;
@@ -243,6 +287,8 @@ export type GoogleAuthTokenScalarFieldEnum =
 export const EmailTokenScalarFieldEnum = {
   id: "id",
   userId: "userId",
+  label: "label",
+  email: "email",
   accessToken: "accessToken",
   refreshToken: "refreshToken",
   expiresAt: "expiresAt",
@@ -250,6 +296,7 @@ export const EmailTokenScalarFieldEnum = {
   tokenType: "tokenType",
   historyId: "historyId",
   lastSyncAt: "lastSyncAt",
+  watchExpiresAt: "watchExpiresAt",
   createdAt: "createdAt",
   updatedAt: "updatedAt"
 } as const;
@@ -257,6 +304,27 @@ export const EmailTokenScalarFieldEnum = {
 export type EmailTokenScalarFieldEnum =
   (typeof EmailTokenScalarFieldEnum)[keyof typeof EmailTokenScalarFieldEnum];
 
+export const ImapAccountScalarFieldEnum = {
+  id: "id",
+  userId: "userId",
+  label: "label",
+  email: "email",
+  username: "username",
+  password: "password",
+  imapHost: "imapHost",
+  imapPort: "imapPort",
+  smtpHost: "smtpHost",
+  smtpPort: "smtpPort",
+  uidValidity: "uidValidity",
+  lastUid: "lastUid",
+  lastSyncAt: "lastSyncAt",
+  createdAt: "createdAt",
+  updatedAt: "updatedAt"
+} as const;
+
+export type ImapAccountScalarFieldEnum =
+  (typeof ImapAccountScalarFieldEnum)[keyof typeof ImapAccountScalarFieldEnum];
+
 export const MercadoLibreTokenScalarFieldEnum = {
   id: "id",
   userId: "userId",
@@ -276,6 +344,7 @@ export type MercadoLibreTokenScalarFieldEnum =
 export const ProcessedEmailScalarFieldEnum = {
   id: "id",
   userId: "userId",
+  accountId: "accountId",
   gmailMessageId: "gmailMessageId",
   threadId: "threadId",
   subject: "subject",
@@ -285,7 +354,8 @@ export const ProcessedEmailScalarFieldEnum = {
   emailType: "emailType",
   extractedData: "extractedData",
   reminderId: "reminderId",
-  status: "status"
+  status: "status",
+  digestPending: "digestPending"
 } as const;
 
 export type ProcessedEmailScalarFieldEnum =
@@ -301,6 +371,9 @@ export const ExpenseScalarFieldEnum = {
   category: "category",
   description: "description",
   date: "date",
+  customCategoryId: "customCategoryId",
+  tags: "tags",
+  exchangeRateId: "exchangeRateId",
   createdAt: "createdAt",
   updatedAt: "updatedAt"
 } as const;
@@ -308,12 +381,182 @@ export const ExpenseScalarFieldEnum = {
 export type ExpenseScalarFieldEnum =
   (typeof ExpenseScalarFieldEnum)[keyof typeof ExpenseScalarFieldEnum];
 
+export const ExpenseAnomalyScalarFieldEnum = {
+  id: "id",
+  userId: "userId",
+  expenseId: "expenseId",
+  reasons: "reasons",
+  usualAmount: "usualAmount",
+  duplicateOfId: "duplicateOfId",
+  status: "status",
+  resolvedAt: "resolvedAt",
+  createdAt: "createdAt"
+} as const;
+
+export type ExpenseAnomalyScalarFieldEnum =
+  (typeof ExpenseAnomalyScalarFieldEnum)[keyof typeof ExpenseAnomalyScalarFieldEnum];
+
+export const IncomeScalarFieldEnum = {
+  id: "id",
+  userId: "userId",
+  processedEmailId: "processedEmailId",
+  source: "source",
+  amount: "amount",
+  currency: "currency",
+  category: "category",
+  description: "description",
+  date: "date",
+  exchangeRateId: "exchangeRateId",
+  createdAt: "createdAt",
+  updatedAt: "updatedAt"
+} as const;
+
+export type IncomeScalarFieldEnum =
+  (typeof IncomeScalarFieldEnum)[keyof typeof IncomeScalarFieldEnum];
+
+export const CustomCategoryScalarFieldEnum = {
+  id: "id",
+  userId: "userId",
+  key: "key",
+  name: "name",
+  createdAt: "createdAt"
+} as const;
+
+export type CustomCategoryScalarFieldEnum =
+  (typeof CustomCategoryScalarFieldEnum)[keyof typeof CustomCategoryScalarFieldEnum];
+
+export const ExpenseGroupScalarFieldEnum = {
+  id: "id",
+  name: "name",
+  createdById: "createdById",
+  createdAt: "createdAt"
+} as const;
+
+export type ExpenseGroupScalarFieldEnum =
+  (typeof ExpenseGroupScalarFieldEnum)[keyof typeof ExpenseGroupScalarFieldEnum];
+
+export const ExpenseGroupMemberScalarFieldEnum = {
+  id: "id",
+  groupId: "groupId",
+  userId: "userId",
+  status: "status",
+  createdAt: "createdAt",
+  updatedAt: "updatedAt"
+} as const;
+
+export type ExpenseGroupMemberScalarFieldEnum =
+  (typeof ExpenseGroupMemberScalarFieldEnum)[keyof typeof ExpenseGroupMemberScalarFieldEnum];
+
+export const ExpenseShareScalarFieldEnum = {
+  id: "id",
+  groupId: "groupId",
+  expenseId: "expenseId",
+  userId: "userId",
+  amount: "amount",
+  createdAt: "createdAt"
+} as const;
+
+export type ExpenseShareScalarFieldEnum =
+  (typeof ExpenseShareScalarFieldEnum)[keyof typeof ExpenseShareScalarFieldEnum];
+
+export const GroupSettlementScalarFieldEnum = {
+  id: "id",
+  groupId: "groupId",
+  fromUserId: "fromUserId",
+  toUserId: "toUserId",
+  amount: "amount",
+  currency: "currency",
+  createdAt: "createdAt"
+} as const;
+
+export type GroupSettlementScalarFieldEnum =
+  (typeof GroupSettlementScalarFieldEnum)[keyof typeof GroupSettlementScalarFieldEnum];
+
+export const ExchangeRateScalarFieldEnum = {
+  id: "id",
+  day: "day",
+  officialUsd: "officialUsd",
+  blueUsd: "blueUsd",
+  officialEur: "officialEur",
+  blueEur: "blueEur",
+  createdAt: "createdAt"
+} as const;
+
+export type ExchangeRateScalarFieldEnum =
+  (typeof ExchangeRateScalarFieldEnum)[keyof typeof ExchangeRateScalarFieldEnum];
+
+export const BudgetScalarFieldEnum = {
+  id: "id",
+  userId: "userId",
+  category: "category",
+  currency: "currency",
+  amount: "amount",
+  alertedPercent: "alertedPercent",
+  alertedPeriod: "alertedPeriod",
+  createdAt: "createdAt",
+  updatedAt: "updatedAt"
+} as const;
+
+export type BudgetScalarFieldEnum =
+  (typeof BudgetScalarFieldEnum)[keyof typeof BudgetScalarFieldEnum];
+
+export const CategoryRuleScalarFieldEnum = {
+  id: "id",
+  userId: "userId",
+  merchantKey: "merchantKey",
+  merchant: "merchant",
+  category: "category",
+  createdAt: "createdAt",
+  updatedAt: "updatedAt"
+} as const;
+
+export type CategoryRuleScalarFieldEnum =
+  (typeof CategoryRuleScalarFieldEnum)[keyof typeof CategoryRuleScalarFieldEnum];
+
+export const RecurringChargeScalarFieldEnum = {
+  id: "id",
+  userId: "userId",
+  merchantKey: "merchantKey",
+  merchant: "merchant",
+  currency: "currency",
+  period: "period",
+  amount: "amount",
+  previousAmount: "previousAmount",
+  lastChargeAt: "lastChargeAt",
+  nextExpectedAt: "nextExpectedAt",
+  priceAlertedAt: "priceAlertedAt",
+  missedAlertedFor: "missedAlertedFor",
+  reminderId: "reminderId",
+  createdAt: "createdAt",
+  updatedAt: "updatedAt"
+} as const;
+
+export type RecurringChargeScalarFieldEnum =
+  (typeof RecurringChargeScalarFieldEnum)[keyof typeof RecurringChargeScalarFieldEnum];
+
+export const EmailRuleScalarFieldEnum = {
+  id: "id",
+  userId: "userId",
+  action: "action",
+  sender: "sender",
+  emailType: "emailType",
+  startHour: "startHour",
+  endHour: "endHour",
+  ruleKey: "ruleKey",
+  createdAt: "createdAt"
+} as const;
+
+export type EmailRuleScalarFieldEnum =
+  (typeof EmailRuleScalarFieldEnum)[keyof typeof EmailRuleScalarFieldEnum];
+
 export const ScheduledPaymentScalarFieldEnum = {
   id: "id",
   chatId: "chatId",
+  userId: "userId",
   recipient: "recipient",
   amount: "amount",
   description: "description",
+  mode: "mode",
   recurrence: "recurrence",
   recurrenceDay: "recurrenceDay",
   recurrenceTime: "recurrenceTime",
@@ -321,6 +564,8 @@ export const ScheduledPaymentScalarFieldEnum = {
   totalPayments: "totalPayments",
   paidCount: "paidCount",
   status: "status",
+  lastTransactionId: "lastTransactionId",
+  lastError: "lastError",
   createdAt: "createdAt",
   updatedAt: "updatedAt"
 } as const;
@@ -16,11 +16,25 @@ export type * from "./models/Subscription";
 export type * from "./models/Payment";
 export type * from "./models/Reminder";
 export type * from "./models/WhatsAppSession";
+export type * from "./models/ConversationState";
 export type * from "./models/GoogleAuthToken";
 export type * from "./models/EmailToken";
+export type * from "./models/ImapAccount";
 export type * from "./models/MercadoLibreToken";
 export type * from "./models/ProcessedEmail";
 export type * from "./models/Expense";
+export type * from "./models/ExpenseAnomaly";
+export type * from "./models/Income";
+export type * from "./models/CustomCategory";
+export type * from "./models/ExpenseGroup";
+export type * from "./models/ExpenseGroupMember";
+export type * from "./models/ExpenseShare";
+export type * from "./models/GroupSettlement";
+export type * from "./models/ExchangeRate";
+export type * from "./models/Budget";
+export type * from "./models/CategoryRule";
+export type * from "./models/RecurringCharge";
+export type * from "./models/EmailRule";
 export type * from "./models/ScheduledPayment";
 export type * from "./models/Commit";
 export type * from "./models/LinkingCode";
@@ -0,0 +1,1711 @@
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck
+/*
+ * This file exports the `CategoryRule` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client";
+import type * as $Enums from "../enums";
+import type * as Prisma from "../internal/prismaNamespace";
+
+/**
+ * Model CategoryRule
+ *
+ */
+export type CategoryRuleModel = runtime.Types.Result.DefaultSelection<Prisma.$CategoryRulePayload>;
+
+export type AggregateCategoryRule = {
+  _count: CategoryRuleCountAggregateOutputType | null;
+  _min: CategoryRuleMinAggregateOutputType | null;
+  _max: CategoryRuleMaxAggregateOutputType | null;
+};
+
+export type CategoryRuleMinAggregateOutputType = {
+  id: string | null;
+  userId: string | null;
+  merchantKey: string | null;
+  merchant: string | null;
+  category: $Enums.ExpenseCategory | null;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+};
+
+export type CategoryRuleMaxAggregateOutputType = {
+  id: string | null;
+  userId: string | null;
+  merchantKey: string | null;
+  merchant: string | null;
+  category: $Enums.ExpenseCategory | null;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+};
+
+export type CategoryRuleCountAggregateOutputType = {
+  id: number;
+  userId: number;
+  merchantKey: number;
+  merchant: number;
+  category: number;
+  createdAt: number;
+  updatedAt: number;
+  _all: number;
+};
+
+export type CategoryRuleMinAggregateInputType = {
+  id?: true;
+  userId?: true;
+  merchantKey?: true;
+  merchant?: true;
+  category?: true;
+  createdAt?: true;
+  updatedAt?: true;
+};
+
+export type CategoryRuleMaxAggregateInputType = {
+  id?: true;
+  userId?: true;
+  merchantKey?: true;
+  merchant?: true;
+  category?: true;
+  createdAt?: true;
+  updatedAt?: true;
+};
+
+export type CategoryRuleCountAggregateInputType = {
+  id?: true;
+  userId?: true;
+  merchantKey?: true;
+  merchant?: true;
+  category?: true;
+  createdAt?: true;
+  updatedAt?: true;
+  _all?: true;
+};
+
+export type CategoryRuleAggregateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Filter which CategoryRule to aggregate.
+   */
+  where?: Prisma.CategoryRuleWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of CategoryRules to fetch.
+   */
+  orderBy?:
+    | Prisma.CategoryRuleOrderByWithRelationInput
+    | Prisma.CategoryRuleOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the start position
+   */
+  cursor?: Prisma.CategoryRuleWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` CategoryRules from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` CategoryRules.
+   */
+  skip?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Count returned CategoryRules
+   **/
+  _count?: true | CategoryRuleCountAggregateInputType;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to find the minimum value
+   **/
+  _min?: CategoryRuleMinAggregateInputType;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to find the maximum value
+   **/
+  _max?: CategoryRuleMaxAggregateInputType;
+};
+
+export type GetCategoryRuleAggregateType<T extends CategoryRuleAggregateArgs> = {
+  [P in keyof T & keyof AggregateCategoryRule]: P extends "_count" | "count"
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateCategoryRule[P]>
+    : Prisma.GetScalarType<T[P], AggregateCategoryRule[P]>;
+};
+
+export type CategoryRuleGroupByArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  where?: Prisma.CategoryRuleWhereInput;
+  orderBy?:
+    | Prisma.CategoryRuleOrderByWithAggregationInput
+    | Prisma.CategoryRuleOrderByWithAggregationInput[];
+  by: Prisma.CategoryRuleScalarFieldEnum[] | Prisma.CategoryRuleScalarFieldEnum;
+  having?: Prisma.CategoryRuleScalarWhereWithAggregatesInput;
+  take?: number;
+  skip?: number;
+  _count?: CategoryRuleCountAggregateInputType | true;
+  _min?: CategoryRuleMinAggregateInputType;
+  _max?: CategoryRuleMaxAggregateInputType;
+};
+
+export type CategoryRuleGroupByOutputType = {
+  id: string;
+  userId: string;
+  merchantKey: string;
+  merchant: string;
+  category: $Enums.ExpenseCategory;
+  createdAt: Date;
+  updatedAt: Date;
+  _count: CategoryRuleCountAggregateOutputType | null;
+  _min: CategoryRuleMinAggregateOutputType | null;
+  _max: CategoryRuleMaxAggregateOutputType | null;
+};
+
+type GetCategoryRuleGroupByPayload<T extends CategoryRuleGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<CategoryRuleGroupByOutputType, T["by"]> & {
+      [P in keyof T & keyof CategoryRuleGroupByOutputType]: P extends "_count"
+        ? T[P] extends boolean
+          ? number
+          : Prisma.GetScalarType<T[P], CategoryRuleGroupByOutputType[P]>
+        : Prisma.GetScalarType<T[P], CategoryRuleGroupByOutputType[P]>;
+    }
+  >
+>;
+
+export type CategoryRuleWhereInput = {
+  AND?: Prisma.CategoryRuleWhereInput | Prisma.CategoryRuleWhereInput[];
+  OR?: Prisma.CategoryRuleWhereInput[];
+  NOT?: Prisma.CategoryRuleWhereInput | Prisma.CategoryRuleWhereInput[];
+  id?: Prisma.StringFilter<"CategoryRule"> | string;
+  userId?: Prisma.StringFilter<"CategoryRule"> | string;
+  merchantKey?: Prisma.StringFilter<"CategoryRule"> | string;
+  merchant?: Prisma.StringFilter<"CategoryRule"> | string;
+  category?: Prisma.EnumExpenseCategoryFilter<"CategoryRule"> | $Enums.ExpenseCategory;
+  createdAt?: Prisma.DateTimeFilter<"CategoryRule"> | Date | string;
+  updatedAt?: Prisma.DateTimeFilter<"CategoryRule"> | Date | string;
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>;
+};
+
+export type CategoryRuleOrderByWithRelationInput = {
+  id?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  merchantKey?: Prisma.SortOrder;
+  merchant?: Prisma.SortOrder;
+  category?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  updatedAt?: Prisma.SortOrder;
+  user?: Prisma.UserOrderByWithRelationInput;
+};
+
+export type CategoryRuleWhereUniqueInput = Prisma.AtLeast<
+  {
+    id?: string;
+    userId_merchantKey?: Prisma.CategoryRuleUserIdMerchantKeyCompoundUniqueInput;
+    AND?: Prisma.CategoryRuleWhereInput | Prisma.CategoryRuleWhereInput[];
+    OR?: Prisma.CategoryRuleWhereInput[];
+    NOT?: Prisma.CategoryRuleWhereInput | Prisma.CategoryRuleWhereInput[];
+    userId?: Prisma.StringFilter<"CategoryRule"> | string;
+    merchantKey?: Prisma.StringFilter<"CategoryRule"> | string;
+    merchant?: Prisma.StringFilter<"CategoryRule"> | string;
+    category?: Prisma.EnumExpenseCategoryFilter<"CategoryRule"> | $Enums.ExpenseCategory;
+    createdAt?: Prisma.DateTimeFilter<"CategoryRule"> | Date | string;
+    updatedAt?: Prisma.DateTimeFilter<"CategoryRule"> | Date | string;
+    user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>;
+  },
+  "id" | "userId_merchantKey"
+>;
+
+export type CategoryRuleOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  merchantKey?: Prisma.SortOrder;
+  merchant?: Prisma.SortOrder;
+  category?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  updatedAt?: Prisma.SortOrder;
+  _count?: Prisma.CategoryRuleCountOrderByAggregateInput;
+  _max?: Prisma.CategoryRuleMaxOrderByAggregateInput;
+  _min?: Prisma.CategoryRuleMinOrderByAggregateInput;
+};
+
+export type CategoryRuleScalarWhereWithAggregatesInput = {
+  AND?:
+    | Prisma.CategoryRuleScalarWhereWithAggregatesInput
+    | Prisma.CategoryRuleScalarWhereWithAggregatesInput[];
+  OR?: Prisma.CategoryRuleScalarWhereWithAggregatesInput[];
+  NOT?:
+    | Prisma.CategoryRuleScalarWhereWithAggregatesInput
+    | Prisma.CategoryRuleScalarWhereWithAggregatesInput[];
+  id?: Prisma.StringWithAggregatesFilter<"CategoryRule"> | string;
+  userId?: Prisma.StringWithAggregatesFilter<"CategoryRule"> | string;
+  merchantKey?: Prisma.StringWithAggregatesFilter<"CategoryRule"> | string;
+  merchant?: Prisma.StringWithAggregatesFilter<"CategoryRule"> | string;
+  category?:
+    | Prisma.EnumExpenseCategoryWithAggregatesFilter<"CategoryRule">
+    | $Enums.ExpenseCategory;
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"CategoryRule"> | Date | string;
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"CategoryRule"> | Date | string;
+};
+
+export type CategoryRuleCreateInput = {
+  id?: string;
+  merchantKey: string;
+  merchant: string;
+  category: $Enums.ExpenseCategory;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  user: Prisma.UserCreateNestedOneWithoutCategoryRulesInput;
+};
+
+export type CategoryRuleUncheckedCreateInput = {
+  id?: string;
+  userId: string;
+  merchantKey: string;
+  merchant: string;
+  category: $Enums.ExpenseCategory;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+};
+
+export type CategoryRuleUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  merchantKey?: Prisma.StringFieldUpdateOperationsInput | string;
+  merchant?: Prisma.StringFieldUpdateOperationsInput | string;
+  category?: Prisma.EnumExpenseCategoryFieldUpdateOperationsInput | $Enums.ExpenseCategory;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  user?: Prisma.UserUpdateOneRequiredWithoutCategoryRulesNestedInput;
+};
+
+export type CategoryRuleUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  userId?: Prisma.StringFieldUpdateOperationsInput | string;
+  merchantKey?: Prisma.StringFieldUpdateOperationsInput | string;
+  merchant?: Prisma.StringFieldUpdateOperationsInput | string;
+  category?: Prisma.EnumExpenseCategoryFieldUpdateOperationsInput | $Enums.ExpenseCategory;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type CategoryRuleCreateManyInput = {
+  id?: string;
+  userId: string;
+  merchantKey: string;
+  merchant: string;
+  category: $Enums.ExpenseCategory;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+};
+
+export type CategoryRuleUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  merchantKey?: Prisma.StringFieldUpdateOperationsInput | string;
+  merchant?: Prisma.StringFieldUpdateOperationsInput | string;
+  category?: Prisma.EnumExpenseCategoryFieldUpdateOperationsInput | $Enums.ExpenseCategory;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type CategoryRuleUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  userId?: Prisma.StringFieldUpdateOperationsInput | string;
+  merchantKey?: Prisma.StringFieldUpdateOperationsInput | string;
+  merchant?: Prisma.StringFieldUpdateOperationsInput | string;
+  category?: Prisma.EnumExpenseCategoryFieldUpdateOperationsInput | $Enums.ExpenseCategory;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type CategoryRuleListRelationFilter = {
+  every?: Prisma.CategoryRuleWhereInput;
+  some?: Prisma.CategoryRuleWhereInput;
+  none?: Prisma.CategoryRuleWhereInput;
+};
+
+export type CategoryRuleOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder;
+};
+
+export type CategoryRuleUserIdMerchantKeyCompoundUniqueInput = {
+  userId: string;
+  merchantKey: string;
+};
+
+export type CategoryRuleCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  merchantKey?: Prisma.SortOrder;
+  merchant?: Prisma.SortOrder;
+  category?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  updatedAt?: Prisma.SortOrder;
+};
+
+export type CategoryRuleMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  merchantKey?: Prisma.SortOrder;
+  merchant?: Prisma.SortOrder;
+  category?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  updatedAt?: Prisma.SortOrder;
+};
+
+export type CategoryRuleMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  merchantKey?: Prisma.SortOrder;
+  merchant?: Prisma.SortOrder;
+  category?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  updatedAt?: Prisma.SortOrder;
+};
+
+export type CategoryRuleCreateNestedManyWithoutUserInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.CategoryRuleCreateWithoutUserInput,
+        Prisma.CategoryRuleUncheckedCreateWithoutUserInput
+      >
+    | Prisma.CategoryRuleCreateWithoutUserInput[]
+    | Prisma.CategoryRuleUncheckedCreateWithoutUserInput[];
+  connectOrCreate?:
+    | Prisma.CategoryRuleCreateOrConnectWithoutUserInput
+    | Prisma.CategoryRuleCreateOrConnectWithoutUserInput[];
+  createMany?: Prisma.CategoryRuleCreateManyUserInputEnvelope;
+  connect?: Prisma.CategoryRuleWhereUniqueInput | Prisma.CategoryRuleWhereUniqueInput[];
+};
+
+export type CategoryRuleUncheckedCreateNestedManyWithoutUserInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.CategoryRuleCreateWithoutUserInput,
+        Prisma.CategoryRuleUncheckedCreateWithoutUserInput
+      >
+    | Prisma.CategoryRuleCreateWithoutUserInput[]
+    | Prisma.CategoryRuleUncheckedCreateWithoutUserInput[];
+  connectOrCreate?:
+    | Prisma.CategoryRuleCreateOrConnectWithoutUserInput
+    | Prisma.CategoryRuleCreateOrConnectWithoutUserInput[];
+  createMany?: Prisma.CategoryRuleCreateManyUserInputEnvelope;
+  connect?: Prisma.CategoryRuleWhereUniqueInput | Prisma.CategoryRuleWhereUniqueInput[];
+};
+
+export type CategoryRuleUpdateManyWithoutUserNestedInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.CategoryRuleCreateWithoutUserInput,
+        Prisma.CategoryRuleUncheckedCreateWithoutUserInput
+      >
+    | Prisma.CategoryRuleCreateWithoutUserInput[]
+    | Prisma.CategoryRuleUncheckedCreateWithoutUserInput[];
+  connectOrCreate?:
+    | Prisma.CategoryRuleCreateOrConnectWithoutUserInput
+    | Prisma.CategoryRuleCreateOrConnectWithoutUserInput[];
+  upsert?:
+    | Prisma.CategoryRuleUpsertWithWhereUniqueWithoutUserInput
+    | Prisma.CategoryRuleUpsertWithWhereUniqueWithoutUserInput[];
+  createMany?: Prisma.CategoryRuleCreateManyUserInputEnvelope;
+  set?: Prisma.CategoryRuleWhereUniqueInput | Prisma.CategoryRuleWhereUniqueInput[];
+  disconnect?: Prisma.CategoryRuleWhereUniqueInput | Prisma.CategoryRuleWhereUniqueInput[];
+  delete?: Prisma.CategoryRuleWhereUniqueInput | Prisma.CategoryRuleWhereUniqueInput[];
+  connect?: Prisma.CategoryRuleWhereUniqueInput | Prisma.CategoryRuleWhereUniqueInput[];
+  update?:
+    | Prisma.CategoryRuleUpdateWithWhereUniqueWithoutUserInput
+    | Prisma.CategoryRuleUpdateWithWhereUniqueWithoutUserInput[];
+  updateMany?:
+    | Prisma.CategoryRuleUpdateManyWithWhereWithoutUserInput
+    | Prisma.CategoryRuleUpdateManyWithWhereWithoutUserInput[];
+  deleteMany?: Prisma.CategoryRuleScalarWhereInput | Prisma.CategoryRuleScalarWhereInput[];
+};
+
+export type CategoryRuleUncheckedUpdateManyWithoutUserNestedInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.CategoryRuleCreateWithoutUserInput,
+        Prisma.CategoryRuleUncheckedCreateWithoutUserInput
+      >
+    | Prisma.CategoryRuleCreateWithoutUserInput[]
+    | Prisma.CategoryRuleUncheckedCreateWithoutUserInput[];
+  connectOrCreate?:
+    | Prisma.CategoryRuleCreateOrConnectWithoutUserInput
+    | Prisma.CategoryRuleCreateOrConnectWithoutUserInput[];
+  upsert?:
+    | Prisma.CategoryRuleUpsertWithWhereUniqueWithoutUserInput
+    | Prisma.CategoryRuleUpsertWithWhereUniqueWithoutUserInput[];
+  createMany?: Prisma.CategoryRuleCreateManyUserInputEnvelope;
+  set?: Prisma.CategoryRuleWhereUniqueInput | Prisma.CategoryRuleWhereUniqueInput[];
+  disconnect?: Prisma.CategoryRuleWhereUniqueInput | Prisma.CategoryRuleWhereUniqueInput[];
+  delete?: Prisma.CategoryRuleWhereUniqueInput | Prisma.CategoryRuleWhereUniqueInput[];
+  connect?: Prisma.CategoryRuleWhereUniqueInput | Prisma.CategoryRuleWhereUniqueInput[];
+  update?:
+    | Prisma.CategoryRuleUpdateWithWhereUniqueWithoutUserInput
+    | Prisma.CategoryRuleUpdateWithWhereUniqueWithoutUserInput[];
+  updateMany?:
+    | Prisma.CategoryRuleUpdateManyWithWhereWithoutUserInput
+    | Prisma.CategoryRuleUpdateManyWithWhereWithoutUserInput[];
+  deleteMany?: Prisma.CategoryRuleScalarWhereInput | Prisma.CategoryRuleScalarWhereInput[];
+};
+
+export type CategoryRuleCreateWithoutUserInput = {
+  id?: string;
+  merchantKey: string;
+  merchant: string;
+  category: $Enums.ExpenseCategory;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+};
+
+export type CategoryRuleUncheckedCreateWithoutUserInput = {
+  id?: string;
+  merchantKey: string;
+  merchant: string;
+  category: $Enums.ExpenseCategory;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+};
+
+export type CategoryRuleCreateOrConnectWithoutUserInput = {
+  where: Prisma.CategoryRuleWhereUniqueInput;
+  create: Prisma.XOR<
+    Prisma.CategoryRuleCreateWithoutUserInput,
+    Prisma.CategoryRuleUncheckedCreateWithoutUserInput
+  >;
+};
+
+export type CategoryRuleCreateManyUserInputEnvelope = {
+  data: Prisma.CategoryRuleCreateManyUserInput | Prisma.CategoryRuleCreateManyUserInput[];
+  skipDuplicates?: boolean;
+};
+
+export type CategoryRuleUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.CategoryRuleWhereUniqueInput;
+  update: Prisma.XOR<
+    Prisma.CategoryRuleUpdateWithoutUserInput,
+    Prisma.CategoryRuleUncheckedUpdateWithoutUserInput
+  >;
+  create: Prisma.XOR<
+    Prisma.CategoryRuleCreateWithoutUserInput,
+    Prisma.CategoryRuleUncheckedCreateWithoutUserInput
+  >;
+};
+
+export type CategoryRuleUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.CategoryRuleWhereUniqueInput;
+  data: Prisma.XOR<
+    Prisma.CategoryRuleUpdateWithoutUserInput,
+    Prisma.CategoryRuleUncheckedUpdateWithoutUserInput
+  >;
+};
+
+export type CategoryRuleUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.CategoryRuleScalarWhereInput;
+  data: Prisma.XOR<
+    Prisma.CategoryRuleUpdateManyMutationInput,
+    Prisma.CategoryRuleUncheckedUpdateManyWithoutUserInput
+  >;
+};
+
+export type CategoryRuleScalarWhereInput = {
+  AND?: Prisma.CategoryRuleScalarWhereInput | Prisma.CategoryRuleScalarWhereInput[];
+  OR?: Prisma.CategoryRuleScalarWhereInput[];
+  NOT?: Prisma.CategoryRuleScalarWhereInput | Prisma.CategoryRuleScalarWhereInput[];
+  id?: Prisma.StringFilter<"CategoryRule"> | string;
+  userId?: Prisma.StringFilter<"CategoryRule"> | string;
+  merchantKey?: Prisma.StringFilter<"CategoryRule"> | string;
+  merchant?: Prisma.StringFilter<"CategoryRule"> | string;
+  category?: Prisma.EnumExpenseCategoryFilter<"CategoryRule"> | $Enums.ExpenseCategory;
+  createdAt?: Prisma.DateTimeFilter<"CategoryRule"> | Date | string;
+  updatedAt?: Prisma.DateTimeFilter<"CategoryRule"> | Date | string;
+};
+
+export type CategoryRuleCreateManyUserInput = {
+  id?: string;
+  merchantKey: string;
+  merchant: string;
+  category: $Enums.ExpenseCategory;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+};
+
+export type CategoryRuleUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  merchantKey?: Prisma.StringFieldUpdateOperationsInput | string;
+  merchant?: Prisma.StringFieldUpdateOperationsInput | string;
+  category?: Prisma.EnumExpenseCategoryFieldUpdateOperationsInput | $Enums.ExpenseCategory;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type CategoryRuleUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  merchantKey?: Prisma.StringFieldUpdateOperationsInput | string;
+  merchant?: Prisma.StringFieldUpdateOperationsInput | string;
+  category?: Prisma.EnumExpenseCategoryFieldUpdateOperationsInput | $Enums.ExpenseCategory;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type CategoryRuleUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  merchantKey?: Prisma.StringFieldUpdateOperationsInput | string;
+  merchant?: Prisma.StringFieldUpdateOperationsInput | string;
+  category?: Prisma.EnumExpenseCategoryFieldUpdateOperationsInput | $Enums.ExpenseCategory;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type CategoryRuleSelect<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean;
+    userId?: boolean;
+    merchantKey?: boolean;
+    merchant?: boolean;
+    category?: boolean;
+    createdAt?: boolean;
+    updatedAt?: boolean;
+    user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+  },
+  ExtArgs["result"]["categoryRule"]
+>;
+
+export type CategoryRuleSelectCreateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean;
+    userId?: boolean;
+    merchantKey?: boolean;
+    merchant?: boolean;
+    category?: boolean;
+    createdAt?: boolean;
+    updatedAt?: boolean;
+    user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+  },
+  ExtArgs["result"]["categoryRule"]
+>;
+
+export type CategoryRuleSelectUpdateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean;
+    userId?: boolean;
+    merchantKey?: boolean;
+    merchant?: boolean;
+    category?: boolean;
+    createdAt?: boolean;
+    updatedAt?: boolean;
+    user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+  },
+  ExtArgs["result"]["categoryRule"]
+>;
+
+export type CategoryRuleSelectScalar = {
+  id?: boolean;
+  userId?: boolean;
+  merchantKey?: boolean;
+  merchant?: boolean;
+  category?: boolean;
+  createdAt?: boolean;
+  updatedAt?: boolean;
+};
+
+export type CategoryRuleOmit<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetOmit<
+  "id" | "userId" | "merchantKey" | "merchant" | "category" | "createdAt" | "updatedAt",
+  ExtArgs["result"]["categoryRule"]
+>;
+export type CategoryRuleInclude<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+};
+export type CategoryRuleIncludeCreateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+};
+export type CategoryRuleIncludeUpdateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+};
+
+export type $CategoryRulePayload<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  name: "CategoryRule";
+  objects: {
+    user: Prisma.$UserPayload<ExtArgs>;
+  };
+  scalars: runtime.Types.Extensions.GetPayloadResult<
+    {
+      id: string;
+      userId: string;
+      merchantKey: string;
+      merchant: string;
+      category: $Enums.ExpenseCategory;
+      createdAt: Date;
+      updatedAt: Date;
+    },
+    ExtArgs["result"]["categoryRule"]
+  >;
+  composites: {};
+};
+
+export type CategoryRuleGetPayload<S extends boolean | null | undefined | CategoryRuleDefaultArgs> =
+  runtime.Types.Result.GetResult<Prisma.$CategoryRulePayload, S>;
+
+export type CategoryRuleCountArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = Omit<CategoryRuleFindManyArgs, "select" | "include" | "distinct" | "omit"> & {
+  select?: CategoryRuleCountAggregateInputType | true;
+};
+
+export interface CategoryRuleDelegate<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+  GlobalOmitOptions = {}
+> {
+  [K: symbol]: {
+    types: Prisma.TypeMap<ExtArgs>["model"]["CategoryRule"];
+    meta: { name: "CategoryRule" };
+  };
+  /**
+   * Find zero or one CategoryRule that matches the filter.
+   * @param {CategoryRuleFindUniqueArgs} args - Arguments to find a CategoryRule
+   * @example
+   * // Get one CategoryRule
+   * const categoryRule = await prisma.categoryRule.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends CategoryRuleFindUniqueArgs>(
+    args: Prisma.SelectSubset<T, CategoryRuleFindUniqueArgs<ExtArgs>>
+  ): Prisma.Prisma__CategoryRuleClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$CategoryRulePayload<ExtArgs>,
+      T,
+      "findUnique",
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find one CategoryRule that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {CategoryRuleFindUniqueOrThrowArgs} args - Arguments to find a CategoryRule
+   * @example
+   * // Get one CategoryRule
+   * const categoryRule = await prisma.categoryRule.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends CategoryRuleFindUniqueOrThrowArgs>(
+    args: Prisma.SelectSubset<T, CategoryRuleFindUniqueOrThrowArgs<ExtArgs>>
+  ): Prisma.Prisma__CategoryRuleClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$CategoryRulePayload<ExtArgs>,
+      T,
+      "findUniqueOrThrow",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find the first CategoryRule that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CategoryRuleFindFirstArgs} args - Arguments to find a CategoryRule
+   * @example
+   * // Get one CategoryRule
+   * const categoryRule = await prisma.categoryRule.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends CategoryRuleFindFirstArgs>(
+    args?: Prisma.SelectSubset<T, CategoryRuleFindFirstArgs<ExtArgs>>
+  ): Prisma.Prisma__CategoryRuleClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$CategoryRulePayload<ExtArgs>,
+      T,
+      "findFirst",
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find the first CategoryRule that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CategoryRuleFindFirstOrThrowArgs} args - Arguments to find a CategoryRule
+   * @example
+   * // Get one CategoryRule
+   * const categoryRule = await prisma.categoryRule.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends CategoryRuleFindFirstOrThrowArgs>(
+    args?: Prisma.SelectSubset<T, CategoryRuleFindFirstOrThrowArgs<ExtArgs>>
+  ): Prisma.Prisma__CategoryRuleClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$CategoryRulePayload<ExtArgs>,
+      T,
+      "findFirstOrThrow",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find zero or more CategoryRules that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CategoryRuleFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all CategoryRules
+   * const categoryRules = await prisma.categoryRule.findMany()
+   *
+   * // Get first 10 CategoryRules
+   * const categoryRules = await prisma.categoryRule.findMany({ take: 10 })
+   *
+   * // Only select the `id`
+   * const categoryRuleWithIdOnly = await prisma.categoryRule.findMany({ select: { id: true } })
+   *
+   */
+  findMany<T extends CategoryRuleFindManyArgs>(
+    args?: Prisma.SelectSubset<T, CategoryRuleFindManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$CategoryRulePayload<ExtArgs>,
+      T,
+      "findMany",
+      GlobalOmitOptions
+    >
+  >;
+
+  /**
+   * Create a CategoryRule.
+   * @param {CategoryRuleCreateArgs} args - Arguments to create a CategoryRule.
+   * @example
+   * // Create one CategoryRule
+   * const CategoryRule = await prisma.categoryRule.create({
+   *   data: {
+   *     // ... data to create a CategoryRule
+   *   }
+   * })
+   *
+   */
+  create<T extends CategoryRuleCreateArgs>(
+    args: Prisma.SelectSubset<T, CategoryRuleCreateArgs<ExtArgs>>
+  ): Prisma.Prisma__CategoryRuleClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$CategoryRulePayload<ExtArgs>,
+      T,
+      "create",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Create many CategoryRules.
+   * @param {CategoryRuleCreateManyArgs} args - Arguments to create many CategoryRules.
+   * @example
+   * // Create many CategoryRules
+   * const categoryRule = await prisma.categoryRule.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   */
+  createMany<T extends CategoryRuleCreateManyArgs>(
+    args?: Prisma.SelectSubset<T, CategoryRuleCreateManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+  /**
+   * Create many CategoryRules and returns the data saved in the database.
+   * @param {CategoryRuleCreateManyAndReturnArgs} args - Arguments to create many CategoryRules.
+   * @example
+   * // Create many CategoryRules
+   * const categoryRule = await prisma.categoryRule.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   * // Create many CategoryRules and only return the `id`
+   * const categoryRuleWithIdOnly = await prisma.categoryRule.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   *
+   */
+  createManyAndReturn<T extends CategoryRuleCreateManyAndReturnArgs>(
+    args?: Prisma.SelectSubset<T, CategoryRuleCreateManyAndReturnArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$CategoryRulePayload<ExtArgs>,
+      T,
+      "createManyAndReturn",
+      GlobalOmitOptions
+    >
+  >;
+
+  /**
+   * Delete a CategoryRule.
+   * @param {CategoryRuleDeleteArgs} args - Arguments to delete one CategoryRule.
+   * @example
+   * // Delete one CategoryRule
+   * const CategoryRule = await prisma.categoryRule.delete({
+   *   where: {
+   *     // ... filter to delete one CategoryRule
+   *   }
+   * })
+   *
+   */
+  delete<T extends CategoryRuleDeleteArgs>(
+    args: Prisma.SelectSubset<T, CategoryRuleDeleteArgs<ExtArgs>>
+  ): Prisma.Prisma__CategoryRuleClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$CategoryRulePayload<ExtArgs>,
+      T,
+      "delete",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Update one CategoryRule.
+   * @param {CategoryRuleUpdateArgs} args - Arguments to update one CategoryRule.
+   * @example
+   * // Update one CategoryRule
+   * const categoryRule = await prisma.categoryRule.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   *
+   */
+  update<T extends CategoryRuleUpdateArgs>(
+    args: Prisma.SelectSubset<T, CategoryRuleUpdateArgs<ExtArgs>>
+  ): Prisma.Prisma__CategoryRuleClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$CategoryRulePayload<ExtArgs>,
+      T,
+      "update",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Delete zero or more CategoryRules.
+   * @param {CategoryRuleDeleteManyArgs} args - Arguments to filter CategoryRules to delete.
+   * @example
+   * // Delete a few CategoryRules
+   * const { count } = await prisma.categoryRule.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   *
+   */
+  deleteMany<T extends CategoryRuleDeleteManyArgs>(
+    args?: Prisma.SelectSubset<T, CategoryRuleDeleteManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+  /**
+   * Update zero or more CategoryRules.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CategoryRuleUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many CategoryRules
+   * const categoryRule = await prisma.categoryRule.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   *
+   */
+  updateMany<T extends CategoryRuleUpdateManyArgs>(
+    args: Prisma.SelectSubset<T, CategoryRuleUpdateManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+  /**
+   * Update zero or more CategoryRules and returns the data updated in the database.
+   * @param {CategoryRuleUpdateManyAndReturnArgs} args - Arguments to update many CategoryRules.
+   * @example
+   * // Update many CategoryRules
+   * const categoryRule = await prisma.categoryRule.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   * // Update zero or more CategoryRules and only return the `id`
+   * const categoryRuleWithIdOnly = await prisma.categoryRule.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   *
+   */
+  updateManyAndReturn<T extends CategoryRuleUpdateManyAndReturnArgs>(
+    args: Prisma.SelectSubset<T, CategoryRuleUpdateManyAndReturnArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$CategoryRulePayload<ExtArgs>,
+      T,
+      "updateManyAndReturn",
+      GlobalOmitOptions
+    >
+  >;
+
+  /**
+   * Create or update one CategoryRule.
+   * @param {CategoryRuleUpsertArgs} args - Arguments to update or create a CategoryRule.
+   * @example
+   * // Update or create a CategoryRule
+   * const categoryRule = await prisma.categoryRule.upsert({
+   *   create: {
+   *     // ... data to create a CategoryRule
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the CategoryRule we want to update
+   *   }
+   * })
+   */
+  upsert<T extends CategoryRuleUpsertArgs>(
+    args: Prisma.SelectSubset<T, CategoryRuleUpsertArgs<ExtArgs>>
+  ): Prisma.Prisma__CategoryRuleClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$CategoryRulePayload<ExtArgs>,
+      T,
+      "upsert",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Count the number of CategoryRules.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CategoryRuleCountArgs} args - Arguments to filter CategoryRules to count.
+   * @example
+   * // Count the number of CategoryRules
+   * const count = await prisma.categoryRule.count({
+   *   where: {
+   *     // ... the filter for the CategoryRules we want to count
+   *   }
+   * })
+   **/
+  count<T extends CategoryRuleCountArgs>(
+    args?: Prisma.Subset<T, CategoryRuleCountArgs>
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<"select", any>
+      ? T["select"] extends true
+        ? number
+        : Prisma.GetScalarType<T["select"], CategoryRuleCountAggregateOutputType>
+      : number
+  >;
+
+  /**
+   * Allows you to perform aggregations operations on a CategoryRule.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CategoryRuleAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+   **/
+  aggregate<T extends CategoryRuleAggregateArgs>(
+    args: Prisma.Subset<T, CategoryRuleAggregateArgs>
+  ): Prisma.PrismaPromise<GetCategoryRuleAggregateType<T>>;
+
+  /**
+   * Group by CategoryRule.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CategoryRuleGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   *
+   **/
+  groupBy<
+    T extends CategoryRuleGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<"skip", Prisma.Keys<T>>,
+      Prisma.Extends<"take", Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: CategoryRuleGroupByArgs["orderBy"] }
+      : { orderBy?: CategoryRuleGroupByArgs["orderBy"] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<
+      Prisma.Keys<Prisma.MaybeTupleToUnion<T["orderBy"]>>
+    >,
+    ByFields extends Prisma.MaybeTupleToUnion<T["by"]>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T["having"]>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T["by"] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends Prisma.False
+        ? {
+            [P in HavingFields]: P extends ByFields
+              ? never
+              : P extends string
+                ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+                : [Error, "Field ", P, ` in "having" needs to be provided in "by"`];
+          }[HavingFields]
+        : "take" extends Prisma.Keys<T>
+          ? "orderBy" extends Prisma.Keys<T>
+            ? ByValid extends Prisma.True
+              ? {}
+              : {
+                  [P in OrderFields]: P extends ByFields
+                    ? never
+                    : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                }[OrderFields]
+            : 'Error: If you provide "take", you also need to provide "orderBy"'
+          : "skip" extends Prisma.Keys<T>
+            ? "orderBy" extends Prisma.Keys<T>
+              ? ByValid extends Prisma.True
+                ? {}
+                : {
+                    [P in OrderFields]: P extends ByFields
+                      ? never
+                      : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                  }[OrderFields]
+              : 'Error: If you provide "skip", you also need to provide "orderBy"'
+            : ByValid extends Prisma.True
+              ? {}
+              : {
+                  [P in OrderFields]: P extends ByFields
+                    ? never
+                    : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                }[OrderFields]
+  >(
+    args: Prisma.SubsetIntersection<T, CategoryRuleGroupByArgs, OrderByArg> & InputErrors
+  ): {} extends InputErrors ? GetCategoryRuleGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>;
+  /**
+   * Fields of the CategoryRule model
+   */
+  readonly fields: CategoryRuleFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for CategoryRule.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__CategoryRuleClient<
+  T,
+  Null = never,
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+  GlobalOmitOptions = {}
+> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise";
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>
+  ): Prisma.Prisma__UserClient<
+    | runtime.Types.Result.GetResult<
+        Prisma.$UserPayload<ExtArgs>,
+        T,
+        "findUniqueOrThrow",
+        GlobalOmitOptions
+      >
+    | Null,
+    Null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(
+    onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null
+  ): runtime.Types.Utils.JsPromise<TResult1 | TResult2>;
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(
+    onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null
+  ): runtime.Types.Utils.JsPromise<T | TResult>;
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>;
+}
+
+/**
+ * Fields of the CategoryRule model
+ */
+export interface CategoryRuleFieldRefs {
+  readonly id: Prisma.FieldRef<"CategoryRule", "String">;
+  readonly userId: Prisma.FieldRef<"CategoryRule", "String">;
+  readonly merchantKey: Prisma.FieldRef<"CategoryRule", "String">;
+  readonly merchant: Prisma.FieldRef<"CategoryRule", "String">;
+  readonly category: Prisma.FieldRef<"CategoryRule", "ExpenseCategory">;
+  readonly createdAt: Prisma.FieldRef<"CategoryRule", "DateTime">;
+  readonly updatedAt: Prisma.FieldRef<"CategoryRule", "DateTime">;
+}
+
+// Custom InputTypes
+/**
+ * CategoryRule findUnique
+ */
+export type CategoryRuleFindUniqueArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the CategoryRule
+   */
+  select?: Prisma.CategoryRuleSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the CategoryRule
+   */
+  omit?: Prisma.CategoryRuleOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CategoryRuleInclude<ExtArgs> | null;
+  /**
+   * Filter, which CategoryRule to fetch.
+   */
+  where: Prisma.CategoryRuleWhereUniqueInput;
+};
+
+/**
+ * CategoryRule findUniqueOrThrow
+ */
+export type CategoryRuleFindUniqueOrThrowArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the CategoryRule
+   */
+  select?: Prisma.CategoryRuleSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the CategoryRule
+   */
+  omit?: Prisma.CategoryRuleOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CategoryRuleInclude<ExtArgs> | null;
+  /**
+   * Filter, which CategoryRule to fetch.
+   */
+  where: Prisma.CategoryRuleWhereUniqueInput;
+};
+
+/**
+ * CategoryRule findFirst
+ */
+export type CategoryRuleFindFirstArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the CategoryRule
+   */
+  select?: Prisma.CategoryRuleSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the CategoryRule
+   */
+  omit?: Prisma.CategoryRuleOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CategoryRuleInclude<ExtArgs> | null;
+  /**
+   * Filter, which CategoryRule to fetch.
+   */
+  where?: Prisma.CategoryRuleWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of CategoryRules to fetch.
+   */
+  orderBy?:
+    | Prisma.CategoryRuleOrderByWithRelationInput
+    | Prisma.CategoryRuleOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for searching for CategoryRules.
+   */
+  cursor?: Prisma.CategoryRuleWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` CategoryRules from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` CategoryRules.
+   */
+  skip?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   *
+   * Filter by unique combinations of CategoryRules.
+   */
+  distinct?: Prisma.CategoryRuleScalarFieldEnum | Prisma.CategoryRuleScalarFieldEnum[];
+};
+
+/**
+ * CategoryRule findFirstOrThrow
+ */
+export type CategoryRuleFindFirstOrThrowArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the CategoryRule
+   */
+  select?: Prisma.CategoryRuleSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the CategoryRule
+   */
+  omit?: Prisma.CategoryRuleOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CategoryRuleInclude<ExtArgs> | null;
+  /**
+   * Filter, which CategoryRule to fetch.
+   */
+  where?: Prisma.CategoryRuleWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of CategoryRules to fetch.
+   */
+  orderBy?:
+    | Prisma.CategoryRuleOrderByWithRelationInput
+    | Prisma.CategoryRuleOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for searching for CategoryRules.
+   */
+  cursor?: Prisma.CategoryRuleWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` CategoryRules from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` CategoryRules.
+   */
+  skip?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   *
+   * Filter by unique combinations of CategoryRules.
+   */
+  distinct?: Prisma.CategoryRuleScalarFieldEnum | Prisma.CategoryRuleScalarFieldEnum[];
+};
+
+/**
+ * CategoryRule findMany
+ */
+export type CategoryRuleFindManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the CategoryRule
+   */
+  select?: Prisma.CategoryRuleSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the CategoryRule
+   */
+  omit?: Prisma.CategoryRuleOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CategoryRuleInclude<ExtArgs> | null;
+  /**
+   * Filter, which CategoryRules to fetch.
+   */
+  where?: Prisma.CategoryRuleWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of CategoryRules to fetch.
+   */
+  orderBy?:
+    | Prisma.CategoryRuleOrderByWithRelationInput
+    | Prisma.CategoryRuleOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for listing CategoryRules.
+   */
+  cursor?: Prisma.CategoryRuleWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` CategoryRules from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` CategoryRules.
+   */
+  skip?: number;
+  distinct?: Prisma.CategoryRuleScalarFieldEnum | Prisma.CategoryRuleScalarFieldEnum[];
+};
+
+/**
+ * CategoryRule create
+ */
+export type CategoryRuleCreateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the CategoryRule
+   */
+  select?: Prisma.CategoryRuleSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the CategoryRule
+   */
+  omit?: Prisma.CategoryRuleOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CategoryRuleInclude<ExtArgs> | null;
+  /**
+   * The data needed to create a CategoryRule.
+   */
+  data: Prisma.XOR<Prisma.CategoryRuleCreateInput, Prisma.CategoryRuleUncheckedCreateInput>;
+};
+
+/**
+ * CategoryRule createMany
+ */
+export type CategoryRuleCreateManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * The data used to create many CategoryRules.
+   */
+  data: Prisma.CategoryRuleCreateManyInput | Prisma.CategoryRuleCreateManyInput[];
+  skipDuplicates?: boolean;
+};
+
+/**
+ * CategoryRule createManyAndReturn
+ */
+export type CategoryRuleCreateManyAndReturnArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the CategoryRule
+   */
+  select?: Prisma.CategoryRuleSelectCreateManyAndReturn<ExtArgs> | null;
+  /**
+   * Omit specific fields from the CategoryRule
+   */
+  omit?: Prisma.CategoryRuleOmit<ExtArgs> | null;
+  /**
+   * The data used to create many CategoryRules.
+   */
+  data: Prisma.CategoryRuleCreateManyInput | Prisma.CategoryRuleCreateManyInput[];
+  skipDuplicates?: boolean;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CategoryRuleIncludeCreateManyAndReturn<ExtArgs> | null;
+};
+
+/**
+ * CategoryRule update
+ */
+export type CategoryRuleUpdateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the CategoryRule
+   */
+  select?: Prisma.CategoryRuleSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the CategoryRule
+   */
+  omit?: Prisma.CategoryRuleOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CategoryRuleInclude<ExtArgs> | null;
+  /**
+   * The data needed to update a CategoryRule.
+   */
+  data: Prisma.XOR<Prisma.CategoryRuleUpdateInput, Prisma.CategoryRuleUncheckedUpdateInput>;
+  /**
+   * Choose, which CategoryRule to update.
+   */
+  where: Prisma.CategoryRuleWhereUniqueInput;
+};
+
+/**
+ * CategoryRule updateMany
+ */
+export type CategoryRuleUpdateManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * The data used to update CategoryRules.
+   */
+  data: Prisma.XOR<
+    Prisma.CategoryRuleUpdateManyMutationInput,
+    Prisma.CategoryRuleUncheckedUpdateManyInput
+  >;
+  /**
+   * Filter which CategoryRules to update
+   */
+  where?: Prisma.CategoryRuleWhereInput;
+  /**
+   * Limit how many CategoryRules to update.
+   */
+  limit?: number;
+};
+
+/**
+ * CategoryRule updateManyAndReturn
+ */
+export type CategoryRuleUpdateManyAndReturnArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the CategoryRule
+   */
+  select?: Prisma.CategoryRuleSelectUpdateManyAndReturn<ExtArgs> | null;
+  /**
+   * Omit specific fields from the CategoryRule
+   */
+  omit?: Prisma.CategoryRuleOmit<ExtArgs> | null;
+  /**
+   * The data used to update CategoryRules.
+   */
+  data: Prisma.XOR<
+    Prisma.CategoryRuleUpdateManyMutationInput,
+    Prisma.CategoryRuleUncheckedUpdateManyInput
+  >;
+  /**
+   * Filter which CategoryRules to update
+   */
+  where?: Prisma.CategoryRuleWhereInput;
+  /**
+   * Limit how many CategoryRules to update.
+   */
+  limit?: number;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CategoryRuleIncludeUpdateManyAndReturn<ExtArgs> | null;
+};
+
+/**
+ * CategoryRule upsert
+ */
+export type CategoryRuleUpsertArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the CategoryRule
+   */
+  select?: Prisma.CategoryRuleSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the CategoryRule
+   */
+  omit?: Prisma.CategoryRuleOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CategoryRuleInclude<ExtArgs> | null;
+  /**
+   * The filter to search for the CategoryRule to update in case it exists.
+   */
+  where: Prisma.CategoryRuleWhereUniqueInput;
+  /**
+   * In case the CategoryRule found by the `where` argument doesn't exist, create a new CategoryRule with this data.
+   */
+  create: Prisma.XOR<Prisma.CategoryRuleCreateInput, Prisma.CategoryRuleUncheckedCreateInput>;
+  /**
+   * In case the CategoryRule was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.CategoryRuleUpdateInput, Prisma.CategoryRuleUncheckedUpdateInput>;
+};
+
+/**
+ * CategoryRule delete
+ */
+export type CategoryRuleDeleteArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the CategoryRule
+   */
+  select?: Prisma.CategoryRuleSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the CategoryRule
+   */
+  omit?: Prisma.CategoryRuleOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CategoryRuleInclude<ExtArgs> | null;
+  /**
+   * Filter which CategoryRule to delete.
+   */
+  where: Prisma.CategoryRuleWhereUniqueInput;
+};
+
+/**
+ * CategoryRule deleteMany
+ */
+export type CategoryRuleDeleteManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Filter which CategoryRules to delete
+   */
+  where?: Prisma.CategoryRuleWhereInput;
+  /**
+   * Limit how many CategoryRules to delete.
+   */
+  limit?: number;
+};
+
+/**
+ * CategoryRule without action
+ */
+export type CategoryRuleDefaultArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the CategoryRule
+   */
+  select?: Prisma.CategoryRuleSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the CategoryRule
+   */
+  omit?: Prisma.CategoryRuleOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CategoryRuleInclude<ExtArgs> | null;
+};
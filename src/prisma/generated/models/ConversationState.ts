@@ -0,0 +1,1432 @@
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck
+/*
+ * This file exports the `ConversationState` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client";
+import type * as $Enums from "../enums";
+import type * as Prisma from "../internal/prismaNamespace";
+
+/**
+ * Model ConversationState
+ *
+ */
+export type ConversationStateModel =
+  runtime.Types.Result.DefaultSelection<Prisma.$ConversationStatePayload>;
+
+export type AggregateConversationState = {
+  _count: ConversationStateCountAggregateOutputType | null;
+  _min: ConversationStateMinAggregateOutputType | null;
+  _max: ConversationStateMaxAggregateOutputType | null;
+};
+
+export type ConversationStateMinAggregateOutputType = {
+  id: string | null;
+  chatId: string | null;
+  type: string | null;
+  expiresAt: Date | null;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+};
+
+export type ConversationStateMaxAggregateOutputType = {
+  id: string | null;
+  chatId: string | null;
+  type: string | null;
+  expiresAt: Date | null;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+};
+
+export type ConversationStateCountAggregateOutputType = {
+  id: number;
+  chatId: number;
+  type: number;
+  data: number;
+  expiresAt: number;
+  createdAt: number;
+  updatedAt: number;
+  _all: number;
+};
+
+export type ConversationStateMinAggregateInputType = {
+  id?: true;
+  chatId?: true;
+  type?: true;
+  expiresAt?: true;
+  createdAt?: true;
+  updatedAt?: true;
+};
+
+export type ConversationStateMaxAggregateInputType = {
+  id?: true;
+  chatId?: true;
+  type?: true;
+  expiresAt?: true;
+  createdAt?: true;
+  updatedAt?: true;
+};
+
+export type ConversationStateCountAggregateInputType = {
+  id?: true;
+  chatId?: true;
+  type?: true;
+  data?: true;
+  expiresAt?: true;
+  createdAt?: true;
+  updatedAt?: true;
+  _all?: true;
+};
+
+export type ConversationStateAggregateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Filter which ConversationState to aggregate.
+   */
+  where?: Prisma.ConversationStateWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of ConversationStates to fetch.
+   */
+  orderBy?:
+    | Prisma.ConversationStateOrderByWithRelationInput
+    | Prisma.ConversationStateOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the start position
+   */
+  cursor?: Prisma.ConversationStateWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` ConversationStates from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` ConversationStates.
+   */
+  skip?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Count returned ConversationStates
+   **/
+  _count?: true | ConversationStateCountAggregateInputType;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to find the minimum value
+   **/
+  _min?: ConversationStateMinAggregateInputType;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to find the maximum value
+   **/
+  _max?: ConversationStateMaxAggregateInputType;
+};
+
+export type GetConversationStateAggregateType<T extends ConversationStateAggregateArgs> = {
+  [P in keyof T & keyof AggregateConversationState]: P extends "_count" | "count"
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateConversationState[P]>
+    : Prisma.GetScalarType<T[P], AggregateConversationState[P]>;
+};
+
+export type ConversationStateGroupByArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  where?: Prisma.ConversationStateWhereInput;
+  orderBy?:
+    | Prisma.ConversationStateOrderByWithAggregationInput
+    | Prisma.ConversationStateOrderByWithAggregationInput[];
+  by: Prisma.ConversationStateScalarFieldEnum[] | Prisma.ConversationStateScalarFieldEnum;
+  having?: Prisma.ConversationStateScalarWhereWithAggregatesInput;
+  take?: number;
+  skip?: number;
+  _count?: ConversationStateCountAggregateInputType | true;
+  _min?: ConversationStateMinAggregateInputType;
+  _max?: ConversationStateMaxAggregateInputType;
+};
+
+export type ConversationStateGroupByOutputType = {
+  id: string;
+  chatId: string;
+  type: string;
+  data: runtime.JsonValue;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+  _count: ConversationStateCountAggregateOutputType | null;
+  _min: ConversationStateMinAggregateOutputType | null;
+  _max: ConversationStateMaxAggregateOutputType | null;
+};
+
+type GetConversationStateGroupByPayload<T extends ConversationStateGroupByArgs> =
+  Prisma.PrismaPromise<
+    Array<
+      Prisma.PickEnumerable<ConversationStateGroupByOutputType, T["by"]> & {
+        [P in keyof T & keyof ConversationStateGroupByOutputType]: P extends "_count"
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ConversationStateGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ConversationStateGroupByOutputType[P]>;
+      }
+    >
+  >;
+
+export type ConversationStateWhereInput = {
+  AND?: Prisma.ConversationStateWhereInput | Prisma.ConversationStateWhereInput[];
+  OR?: Prisma.ConversationStateWhereInput[];
+  NOT?: Prisma.ConversationStateWhereInput | Prisma.ConversationStateWhereInput[];
+  id?: Prisma.StringFilter<"ConversationState"> | string;
+  chatId?: Prisma.StringFilter<"ConversationState"> | string;
+  type?: Prisma.StringFilter<"ConversationState"> | string;
+  data?: Prisma.JsonFilter<"ConversationState">;
+  expiresAt?: Prisma.DateTimeFilter<"ConversationState"> | Date | string;
+  createdAt?: Prisma.DateTimeFilter<"ConversationState"> | Date | string;
+  updatedAt?: Prisma.DateTimeFilter<"ConversationState"> | Date | string;
+};
+
+export type ConversationStateOrderByWithRelationInput = {
+  id?: Prisma.SortOrder;
+  chatId?: Prisma.SortOrder;
+  type?: Prisma.SortOrder;
+  data?: Prisma.SortOrder;
+  expiresAt?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  updatedAt?: Prisma.SortOrder;
+};
+
+export type ConversationStateWhereUniqueInput = Prisma.AtLeast<
+  {
+    id?: string;
+    chatId_type?: Prisma.ConversationStateChatIdTypeCompoundUniqueInput;
+    AND?: Prisma.ConversationStateWhereInput | Prisma.ConversationStateWhereInput[];
+    OR?: Prisma.ConversationStateWhereInput[];
+    NOT?: Prisma.ConversationStateWhereInput | Prisma.ConversationStateWhereInput[];
+    chatId?: Prisma.StringFilter<"ConversationState"> | string;
+    type?: Prisma.StringFilter<"ConversationState"> | string;
+    data?: Prisma.JsonFilter<"ConversationState">;
+    expiresAt?: Prisma.DateTimeFilter<"ConversationState"> | Date | string;
+    createdAt?: Prisma.DateTimeFilter<"ConversationState"> | Date | string;
+    updatedAt?: Prisma.DateTimeFilter<"ConversationState"> | Date | string;
+  },
+  "id" | "chatId_type"
+>;
+
+export type ConversationStateOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder;
+  chatId?: Prisma.SortOrder;
+  type?: Prisma.SortOrder;
+  data?: Prisma.SortOrder;
+  expiresAt?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  updatedAt?: Prisma.SortOrder;
+  _count?: Prisma.ConversationStateCountOrderByAggregateInput;
+  _max?: Prisma.ConversationStateMaxOrderByAggregateInput;
+  _min?: Prisma.ConversationStateMinOrderByAggregateInput;
+};
+
+export type ConversationStateScalarWhereWithAggregatesInput = {
+  AND?:
+    | Prisma.ConversationStateScalarWhereWithAggregatesInput
+    | Prisma.ConversationStateScalarWhereWithAggregatesInput[];
+  OR?: Prisma.ConversationStateScalarWhereWithAggregatesInput[];
+  NOT?:
+    | Prisma.ConversationStateScalarWhereWithAggregatesInput
+    | Prisma.ConversationStateScalarWhereWithAggregatesInput[];
+  id?: Prisma.StringWithAggregatesFilter<"ConversationState"> | string;
+  chatId?: Prisma.StringWithAggregatesFilter<"ConversationState"> | string;
+  type?: Prisma.StringWithAggregatesFilter<"ConversationState"> | string;
+  data?: Prisma.JsonWithAggregatesFilter<"ConversationState">;
+  expiresAt?: Prisma.DateTimeWithAggregatesFilter<"ConversationState"> | Date | string;
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ConversationState"> | Date | string;
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"ConversationState"> | Date | string;
+};
+
+export type ConversationStateCreateInput = {
+  id?: string;
+  chatId: string;
+  type: string;
+  data: Prisma.JsonNullValueInput | runtime.InputJsonValue;
+  expiresAt: Date | string;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+};
+
+export type ConversationStateUncheckedCreateInput = {
+  id?: string;
+  chatId: string;
+  type: string;
+  data: Prisma.JsonNullValueInput | runtime.InputJsonValue;
+  expiresAt: Date | string;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+};
+
+export type ConversationStateUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  chatId?: Prisma.StringFieldUpdateOperationsInput | string;
+  type?: Prisma.StringFieldUpdateOperationsInput | string;
+  data?: Prisma.JsonNullValueInput | runtime.InputJsonValue;
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type ConversationStateUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  chatId?: Prisma.StringFieldUpdateOperationsInput | string;
+  type?: Prisma.StringFieldUpdateOperationsInput | string;
+  data?: Prisma.JsonNullValueInput | runtime.InputJsonValue;
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type ConversationStateCreateManyInput = {
+  id?: string;
+  chatId: string;
+  type: string;
+  data: Prisma.JsonNullValueInput | runtime.InputJsonValue;
+  expiresAt: Date | string;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+};
+
+export type ConversationStateUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  chatId?: Prisma.StringFieldUpdateOperationsInput | string;
+  type?: Prisma.StringFieldUpdateOperationsInput | string;
+  data?: Prisma.JsonNullValueInput | runtime.InputJsonValue;
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type ConversationStateUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  chatId?: Prisma.StringFieldUpdateOperationsInput | string;
+  type?: Prisma.StringFieldUpdateOperationsInput | string;
+  data?: Prisma.JsonNullValueInput | runtime.InputJsonValue;
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type ConversationStateChatIdTypeCompoundUniqueInput = {
+  chatId: string;
+  type: string;
+};
+
+export type ConversationStateCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder;
+  chatId?: Prisma.SortOrder;
+  type?: Prisma.SortOrder;
+  data?: Prisma.SortOrder;
+  expiresAt?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  updatedAt?: Prisma.SortOrder;
+};
+
+export type ConversationStateMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder;
+  chatId?: Prisma.SortOrder;
+  type?: Prisma.SortOrder;
+  expiresAt?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  updatedAt?: Prisma.SortOrder;
+};
+
+export type ConversationStateMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder;
+  chatId?: Prisma.SortOrder;
+  type?: Prisma.SortOrder;
+  expiresAt?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  updatedAt?: Prisma.SortOrder;
+};
+
+export type ConversationStateSelect<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean;
+    chatId?: boolean;
+    type?: boolean;
+    data?: boolean;
+    expiresAt?: boolean;
+    createdAt?: boolean;
+    updatedAt?: boolean;
+  },
+  ExtArgs["result"]["conversationState"]
+>;
+
+export type ConversationStateSelectCreateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean;
+    chatId?: boolean;
+    type?: boolean;
+    data?: boolean;
+    expiresAt?: boolean;
+    createdAt?: boolean;
+    updatedAt?: boolean;
+  },
+  ExtArgs["result"]["conversationState"]
+>;
+
+export type ConversationStateSelectUpdateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean;
+    chatId?: boolean;
+    type?: boolean;
+    data?: boolean;
+    expiresAt?: boolean;
+    createdAt?: boolean;
+    updatedAt?: boolean;
+  },
+  ExtArgs["result"]["conversationState"]
+>;
+
+export type ConversationStateSelectScalar = {
+  id?: boolean;
+  chatId?: boolean;
+  type?: boolean;
+  data?: boolean;
+  expiresAt?: boolean;
+  createdAt?: boolean;
+  updatedAt?: boolean;
+};
+
+export type ConversationStateOmit<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetOmit<
+  "id" | "chatId" | "type" | "data" | "expiresAt" | "createdAt" | "updatedAt",
+  ExtArgs["result"]["conversationState"]
+>;
+
+export type $ConversationStatePayload<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  name: "ConversationState";
+  objects: {};
+  scalars: runtime.Types.Extensions.GetPayloadResult<
+    {
+      id: string;
+      chatId: string;
+      type: string;
+      data: runtime.JsonValue;
+      expiresAt: Date;
+      createdAt: Date;
+      updatedAt: Date;
+    },
+    ExtArgs["result"]["conversationState"]
+  >;
+  composites: {};
+};
+
+export type ConversationStateGetPayload<
+  S extends boolean | null | undefined | ConversationStateDefaultArgs
+> = runtime.Types.Result.GetResult<Prisma.$ConversationStatePayload, S>;
+
+export type ConversationStateCountArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = Omit<ConversationStateFindManyArgs, "select" | "include" | "distinct" | "omit"> & {
+  select?: ConversationStateCountAggregateInputType | true;
+};
+
+export interface ConversationStateDelegate<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+  GlobalOmitOptions = {}
+> {
+  [K: symbol]: {
+    types: Prisma.TypeMap<ExtArgs>["model"]["ConversationState"];
+    meta: { name: "ConversationState" };
+  };
+  /**
+   * Find zero or one ConversationState that matches the filter.
+   * @param {ConversationStateFindUniqueArgs} args - Arguments to find a ConversationState
+   * @example
+   * // Get one ConversationState
+   * const conversationState = await prisma.conversationState.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ConversationStateFindUniqueArgs>(
+    args: Prisma.SelectSubset<T, ConversationStateFindUniqueArgs<ExtArgs>>
+  ): Prisma.Prisma__ConversationStateClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ConversationStatePayload<ExtArgs>,
+      T,
+      "findUnique",
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find one ConversationState that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ConversationStateFindUniqueOrThrowArgs} args - Arguments to find a ConversationState
+   * @example
+   * // Get one ConversationState
+   * const conversationState = await prisma.conversationState.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ConversationStateFindUniqueOrThrowArgs>(
+    args: Prisma.SelectSubset<T, ConversationStateFindUniqueOrThrowArgs<ExtArgs>>
+  ): Prisma.Prisma__ConversationStateClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ConversationStatePayload<ExtArgs>,
+      T,
+      "findUniqueOrThrow",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find the first ConversationState that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ConversationStateFindFirstArgs} args - Arguments to find a ConversationState
+   * @example
+   * // Get one ConversationState
+   * const conversationState = await prisma.conversationState.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ConversationStateFindFirstArgs>(
+    args?: Prisma.SelectSubset<T, ConversationStateFindFirstArgs<ExtArgs>>
+  ): Prisma.Prisma__ConversationStateClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ConversationStatePayload<ExtArgs>,
+      T,
+      "findFirst",
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find the first ConversationState that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ConversationStateFindFirstOrThrowArgs} args - Arguments to find a ConversationState
+   * @example
+   * // Get one ConversationState
+   * const conversationState = await prisma.conversationState.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ConversationStateFindFirstOrThrowArgs>(
+    args?: Prisma.SelectSubset<T, ConversationStateFindFirstOrThrowArgs<ExtArgs>>
+  ): Prisma.Prisma__ConversationStateClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ConversationStatePayload<ExtArgs>,
+      T,
+      "findFirstOrThrow",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find zero or more ConversationStates that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ConversationStateFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ConversationStates
+   * const conversationStates = await prisma.conversationState.findMany()
+   *
+   * // Get first 10 ConversationStates
+   * const conversationStates = await prisma.conversationState.findMany({ take: 10 })
+   *
+   * // Only select the `id`
+   * const conversationStateWithIdOnly = await prisma.conversationState.findMany({ select: { id: true } })
+   *
+   */
+  findMany<T extends ConversationStateFindManyArgs>(
+    args?: Prisma.SelectSubset<T, ConversationStateFindManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$ConversationStatePayload<ExtArgs>,
+      T,
+      "findMany",
+      GlobalOmitOptions
+    >
+  >;
+
+  /**
+   * Create a ConversationState.
+   * @param {ConversationStateCreateArgs} args - Arguments to create a ConversationState.
+   * @example
+   * // Create one ConversationState
+   * const ConversationState = await prisma.conversationState.create({
+   *   data: {
+   *     // ... data to create a ConversationState
+   *   }
+   * })
+   *
+   */
+  create<T extends ConversationStateCreateArgs>(
+    args: Prisma.SelectSubset<T, ConversationStateCreateArgs<ExtArgs>>
+  ): Prisma.Prisma__ConversationStateClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ConversationStatePayload<ExtArgs>,
+      T,
+      "create",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Create many ConversationStates.
+   * @param {ConversationStateCreateManyArgs} args - Arguments to create many ConversationStates.
+   * @example
+   * // Create many ConversationStates
+   * const conversationState = await prisma.conversationState.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   */
+  createMany<T extends ConversationStateCreateManyArgs>(
+    args?: Prisma.SelectSubset<T, ConversationStateCreateManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+  /**
+   * Create many ConversationStates and returns the data saved in the database.
+   * @param {ConversationStateCreateManyAndReturnArgs} args - Arguments to create many ConversationStates.
+   * @example
+   * // Create many ConversationStates
+   * const conversationState = await prisma.conversationState.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   * // Create many ConversationStates and only return the `id`
+   * const conversationStateWithIdOnly = await prisma.conversationState.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   *
+   */
+  createManyAndReturn<T extends ConversationStateCreateManyAndReturnArgs>(
+    args?: Prisma.SelectSubset<T, ConversationStateCreateManyAndReturnArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$ConversationStatePayload<ExtArgs>,
+      T,
+      "createManyAndReturn",
+      GlobalOmitOptions
+    >
+  >;
+
+  /**
+   * Delete a ConversationState.
+   * @param {ConversationStateDeleteArgs} args - Arguments to delete one ConversationState.
+   * @example
+   * // Delete one ConversationState
+   * const ConversationState = await prisma.conversationState.delete({
+   *   where: {
+   *     // ... filter to delete one ConversationState
+   *   }
+   * })
+   *
+   */
+  delete<T extends ConversationStateDeleteArgs>(
+    args: Prisma.SelectSubset<T, ConversationStateDeleteArgs<ExtArgs>>
+  ): Prisma.Prisma__ConversationStateClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ConversationStatePayload<ExtArgs>,
+      T,
+      "delete",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Update one ConversationState.
+   * @param {ConversationStateUpdateArgs} args - Arguments to update one ConversationState.
+   * @example
+   * // Update one ConversationState
+   * const conversationState = await prisma.conversationState.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   *
+   */
+  update<T extends ConversationStateUpdateArgs>(
+    args: Prisma.SelectSubset<T, ConversationStateUpdateArgs<ExtArgs>>
+  ): Prisma.Prisma__ConversationStateClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ConversationStatePayload<ExtArgs>,
+      T,
+      "update",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Delete zero or more ConversationStates.
+   * @param {ConversationStateDeleteManyArgs} args - Arguments to filter ConversationStates to delete.
+   * @example
+   * // Delete a few ConversationStates
+   * const { count } = await prisma.conversationState.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   *
+   */
+  deleteMany<T extends ConversationStateDeleteManyArgs>(
+    args?: Prisma.SelectSubset<T, ConversationStateDeleteManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+  /**
+   * Update zero or more ConversationStates.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ConversationStateUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ConversationStates
+   * const conversationState = await prisma.conversationState.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   *
+   */
+  updateMany<T extends ConversationStateUpdateManyArgs>(
+    args: Prisma.SelectSubset<T, ConversationStateUpdateManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+  /**
+   * Update zero or more ConversationStates and returns the data updated in the database.
+   * @param {ConversationStateUpdateManyAndReturnArgs} args - Arguments to update many ConversationStates.
+   * @example
+   * // Update many ConversationStates
+   * const conversationState = await prisma.conversationState.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   * // Update zero or more ConversationStates and only return the `id`
+   * const conversationStateWithIdOnly = await prisma.conversationState.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   *
+   */
+  updateManyAndReturn<T extends ConversationStateUpdateManyAndReturnArgs>(
+    args: Prisma.SelectSubset<T, ConversationStateUpdateManyAndReturnArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$ConversationStatePayload<ExtArgs>,
+      T,
+      "updateManyAndReturn",
+      GlobalOmitOptions
+    >
+  >;
+
+  /**
+   * Create or update one ConversationState.
+   * @param {ConversationStateUpsertArgs} args - Arguments to update or create a ConversationState.
+   * @example
+   * // Update or create a ConversationState
+   * const conversationState = await prisma.conversationState.upsert({
+   *   create: {
+   *     // ... data to create a ConversationState
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ConversationState we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ConversationStateUpsertArgs>(
+    args: Prisma.SelectSubset<T, ConversationStateUpsertArgs<ExtArgs>>
+  ): Prisma.Prisma__ConversationStateClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ConversationStatePayload<ExtArgs>,
+      T,
+      "upsert",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Count the number of ConversationStates.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ConversationStateCountArgs} args - Arguments to filter ConversationStates to count.
+   * @example
+   * // Count the number of ConversationStates
+   * const count = await prisma.conversationState.count({
+   *   where: {
+   *     // ... the filter for the ConversationStates we want to count
+   *   }
+   * })
+   **/
+  count<T extends ConversationStateCountArgs>(
+    args?: Prisma.Subset<T, ConversationStateCountArgs>
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<"select", any>
+      ? T["select"] extends true
+        ? number
+        : Prisma.GetScalarType<T["select"], ConversationStateCountAggregateOutputType>
+      : number
+  >;
+
+  /**
+   * Allows you to perform aggregations operations on a ConversationState.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ConversationStateAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+   **/
+  aggregate<T extends ConversationStateAggregateArgs>(
+    args: Prisma.Subset<T, ConversationStateAggregateArgs>
+  ): Prisma.PrismaPromise<GetConversationStateAggregateType<T>>;
+
+  /**
+   * Group by ConversationState.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ConversationStateGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   *
+   **/
+  groupBy<
+    T extends ConversationStateGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<"skip", Prisma.Keys<T>>,
+      Prisma.Extends<"take", Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ConversationStateGroupByArgs["orderBy"] }
+      : { orderBy?: ConversationStateGroupByArgs["orderBy"] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<
+      Prisma.Keys<Prisma.MaybeTupleToUnion<T["orderBy"]>>
+    >,
+    ByFields extends Prisma.MaybeTupleToUnion<T["by"]>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T["having"]>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T["by"] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends Prisma.False
+        ? {
+            [P in HavingFields]: P extends ByFields
+              ? never
+              : P extends string
+                ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+                : [Error, "Field ", P, ` in "having" needs to be provided in "by"`];
+          }[HavingFields]
+        : "take" extends Prisma.Keys<T>
+          ? "orderBy" extends Prisma.Keys<T>
+            ? ByValid extends Prisma.True
+              ? {}
+              : {
+                  [P in OrderFields]: P extends ByFields
+                    ? never
+                    : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                }[OrderFields]
+            : 'Error: If you provide "take", you also need to provide "orderBy"'
+          : "skip" extends Prisma.Keys<T>
+            ? "orderBy" extends Prisma.Keys<T>
+              ? ByValid extends Prisma.True
+                ? {}
+                : {
+                    [P in OrderFields]: P extends ByFields
+                      ? never
+                      : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                  }[OrderFields]
+              : 'Error: If you provide "skip", you also need to provide "orderBy"'
+            : ByValid extends Prisma.True
+              ? {}
+              : {
+                  [P in OrderFields]: P extends ByFields
+                    ? never
+                    : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                }[OrderFields]
+  >(
+    args: Prisma.SubsetIntersection<T, ConversationStateGroupByArgs, OrderByArg> & InputErrors
+  ): {} extends InputErrors
+    ? GetConversationStateGroupByPayload<T>
+    : Prisma.PrismaPromise<InputErrors>;
+  /**
+   * Fields of the ConversationState model
+   */
+  readonly fields: ConversationStateFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ConversationState.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ConversationStateClient<
+  T,
+  Null = never,
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+  GlobalOmitOptions = {}
+> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise";
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(
+    onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null
+  ): runtime.Types.Utils.JsPromise<TResult1 | TResult2>;
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(
+    onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null
+  ): runtime.Types.Utils.JsPromise<T | TResult>;
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>;
+}
+
+/**
+ * Fields of the ConversationState model
+ */
+export interface ConversationStateFieldRefs {
+  readonly id: Prisma.FieldRef<"ConversationState", "String">;
+  readonly chatId: Prisma.FieldRef<"ConversationState", "String">;
+  readonly type: Prisma.FieldRef<"ConversationState", "String">;
+  readonly data: Prisma.FieldRef<"ConversationState", "Json">;
+  readonly expiresAt: Prisma.FieldRef<"ConversationState", "DateTime">;
+  readonly createdAt: Prisma.FieldRef<"ConversationState", "DateTime">;
+  readonly updatedAt: Prisma.FieldRef<"ConversationState", "DateTime">;
+}
+
+// Custom InputTypes
+/**
+ * ConversationState findUnique
+ */
+export type ConversationStateFindUniqueArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ConversationState
+   */
+  select?: Prisma.ConversationStateSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ConversationState
+   */
+  omit?: Prisma.ConversationStateOmit<ExtArgs> | null;
+  /**
+   * Filter, which ConversationState to fetch.
+   */
+  where: Prisma.ConversationStateWhereUniqueInput;
+};
+
+/**
+ * ConversationState findUniqueOrThrow
+ */
+export type ConversationStateFindUniqueOrThrowArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ConversationState
+   */
+  select?: Prisma.ConversationStateSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ConversationState
+   */
+  omit?: Prisma.ConversationStateOmit<ExtArgs> | null;
+  /**
+   * Filter, which ConversationState to fetch.
+   */
+  where: Prisma.ConversationStateWhereUniqueInput;
+};
+
+/**
+ * ConversationState findFirst
+ */
+export type ConversationStateFindFirstArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ConversationState
+   */
+  select?: Prisma.ConversationStateSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ConversationState
+   */
+  omit?: Prisma.ConversationStateOmit<ExtArgs> | null;
+  /**
+   * Filter, which ConversationState to fetch.
+   */
+  where?: Prisma.ConversationStateWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of ConversationStates to fetch.
+   */
+  orderBy?:
+    | Prisma.ConversationStateOrderByWithRelationInput
+    | Prisma.ConversationStateOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for searching for ConversationStates.
+   */
+  cursor?: Prisma.ConversationStateWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` ConversationStates from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` ConversationStates.
+   */
+  skip?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   *
+   * Filter by unique combinations of ConversationStates.
+   */
+  distinct?: Prisma.ConversationStateScalarFieldEnum | Prisma.ConversationStateScalarFieldEnum[];
+};
+
+/**
+ * ConversationState findFirstOrThrow
+ */
+export type ConversationStateFindFirstOrThrowArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ConversationState
+   */
+  select?: Prisma.ConversationStateSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ConversationState
+   */
+  omit?: Prisma.ConversationStateOmit<ExtArgs> | null;
+  /**
+   * Filter, which ConversationState to fetch.
+   */
+  where?: Prisma.ConversationStateWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of ConversationStates to fetch.
+   */
+  orderBy?:
+    | Prisma.ConversationStateOrderByWithRelationInput
+    | Prisma.ConversationStateOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for searching for ConversationStates.
+   */
+  cursor?: Prisma.ConversationStateWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` ConversationStates from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` ConversationStates.
+   */
+  skip?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   *
+   * Filter by unique combinations of ConversationStates.
+   */
+  distinct?: Prisma.ConversationStateScalarFieldEnum | Prisma.ConversationStateScalarFieldEnum[];
+};
+
+/**
+ * ConversationState findMany
+ */
+export type ConversationStateFindManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ConversationState
+   */
+  select?: Prisma.ConversationStateSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ConversationState
+   */
+  omit?: Prisma.ConversationStateOmit<ExtArgs> | null;
+  /**
+   * Filter, which ConversationStates to fetch.
+   */
+  where?: Prisma.ConversationStateWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of ConversationStates to fetch.
+   */
+  orderBy?:
+    | Prisma.ConversationStateOrderByWithRelationInput
+    | Prisma.ConversationStateOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for listing ConversationStates.
+   */
+  cursor?: Prisma.ConversationStateWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` ConversationStates from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` ConversationStates.
+   */
+  skip?: number;
+  distinct?: Prisma.ConversationStateScalarFieldEnum | Prisma.ConversationStateScalarFieldEnum[];
+};
+
+/**
+ * ConversationState create
+ */
+export type ConversationStateCreateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ConversationState
+   */
+  select?: Prisma.ConversationStateSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ConversationState
+   */
+  omit?: Prisma.ConversationStateOmit<ExtArgs> | null;
+  /**
+   * The data needed to create a ConversationState.
+   */
+  data: Prisma.XOR<
+    Prisma.ConversationStateCreateInput,
+    Prisma.ConversationStateUncheckedCreateInput
+  >;
+};
+
+/**
+ * ConversationState createMany
+ */
+export type ConversationStateCreateManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * The data used to create many ConversationStates.
+   */
+  data: Prisma.ConversationStateCreateManyInput | Prisma.ConversationStateCreateManyInput[];
+  skipDuplicates?: boolean;
+};
+
+/**
+ * ConversationState createManyAndReturn
+ */
+export type ConversationStateCreateManyAndReturnArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ConversationState
+   */
+  select?: Prisma.ConversationStateSelectCreateManyAndReturn<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ConversationState
+   */
+  omit?: Prisma.ConversationStateOmit<ExtArgs> | null;
+  /**
+   * The data used to create many ConversationStates.
+   */
+  data: Prisma.ConversationStateCreateManyInput | Prisma.ConversationStateCreateManyInput[];
+  skipDuplicates?: boolean;
+};
+
+/**
+ * ConversationState update
+ */
+export type ConversationStateUpdateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ConversationState
+   */
+  select?: Prisma.ConversationStateSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ConversationState
+   */
+  omit?: Prisma.ConversationStateOmit<ExtArgs> | null;
+  /**
+   * The data needed to update a ConversationState.
+   */
+  data: Prisma.XOR<
+    Prisma.ConversationStateUpdateInput,
+    Prisma.ConversationStateUncheckedUpdateInput
+  >;
+  /**
+   * Choose, which ConversationState to update.
+   */
+  where: Prisma.ConversationStateWhereUniqueInput;
+};
+
+/**
+ * ConversationState updateMany
+ */
+export type ConversationStateUpdateManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * The data used to update ConversationStates.
+   */
+  data: Prisma.XOR<
+    Prisma.ConversationStateUpdateManyMutationInput,
+    Prisma.ConversationStateUncheckedUpdateManyInput
+  >;
+  /**
+   * Filter which ConversationStates to update
+   */
+  where?: Prisma.ConversationStateWhereInput;
+  /**
+   * Limit how many ConversationStates to update.
+   */
+  limit?: number;
+};
+
+/**
+ * ConversationState updateManyAndReturn
+ */
+export type ConversationStateUpdateManyAndReturnArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ConversationState
+   */
+  select?: Prisma.ConversationStateSelectUpdateManyAndReturn<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ConversationState
+   */
+  omit?: Prisma.ConversationStateOmit<ExtArgs> | null;
+  /**
+   * The data used to update ConversationStates.
+   */
+  data: Prisma.XOR<
+    Prisma.ConversationStateUpdateManyMutationInput,
+    Prisma.ConversationStateUncheckedUpdateManyInput
+  >;
+  /**
+   * Filter which ConversationStates to update
+   */
+  where?: Prisma.ConversationStateWhereInput;
+  /**
+   * Limit how many ConversationStates to update.
+   */
+  limit?: number;
+};
+
+/**
+ * ConversationState upsert
+ */
+export type ConversationStateUpsertArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ConversationState
+   */
+  select?: Prisma.ConversationStateSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ConversationState
+   */
+  omit?: Prisma.ConversationStateOmit<ExtArgs> | null;
+  /**
+   * The filter to search for the ConversationState to update in case it exists.
+   */
+  where: Prisma.ConversationStateWhereUniqueInput;
+  /**
+   * In case the ConversationState found by the `where` argument doesn't exist, create a new ConversationState with this data.
+   */
+  create: Prisma.XOR<
+    Prisma.ConversationStateCreateInput,
+    Prisma.ConversationStateUncheckedCreateInput
+  >;
+  /**
+   * In case the ConversationState was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<
+    Prisma.ConversationStateUpdateInput,
+    Prisma.ConversationStateUncheckedUpdateInput
+  >;
+};
+
+/**
+ * ConversationState delete
+ */
+export type ConversationStateDeleteArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ConversationState
+   */
+  select?: Prisma.ConversationStateSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ConversationState
+   */
+  omit?: Prisma.ConversationStateOmit<ExtArgs> | null;
+  /**
+   * Filter which ConversationState to delete.
+   */
+  where: Prisma.ConversationStateWhereUniqueInput;
+};
+
+/**
+ * ConversationState deleteMany
+ */
+export type ConversationStateDeleteManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Filter which ConversationStates to delete
+   */
+  where?: Prisma.ConversationStateWhereInput;
+  /**
+   * Limit how many ConversationStates to delete.
+   */
+  limit?: number;
+};
+
+/**
+ * ConversationState without action
+ */
+export type ConversationStateDefaultArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ConversationState
+   */
+  select?: Prisma.ConversationStateSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ConversationState
+   */
+  omit?: Prisma.ConversationStateOmit<ExtArgs> | null;
+};
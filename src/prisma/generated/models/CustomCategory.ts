@@ -0,0 +1,1824 @@
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck
+/*
+ * This file exports the `CustomCategory` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client";
+import type * as $Enums from "../enums";
+import type * as Prisma from "../internal/prismaNamespace";
+
+/**
+ * Model CustomCategory
+ *
+ */
+export type CustomCategoryModel =
+  runtime.Types.Result.DefaultSelection<Prisma.$CustomCategoryPayload>;
+
+export type AggregateCustomCategory = {
+  _count: CustomCategoryCountAggregateOutputType | null;
+  _min: CustomCategoryMinAggregateOutputType | null;
+  _max: CustomCategoryMaxAggregateOutputType | null;
+};
+
+export type CustomCategoryMinAggregateOutputType = {
+  id: string | null;
+  userId: string | null;
+  key: string | null;
+  name: string | null;
+  createdAt: Date | null;
+};
+
+export type CustomCategoryMaxAggregateOutputType = {
+  id: string | null;
+  userId: string | null;
+  key: string | null;
+  name: string | null;
+  createdAt: Date | null;
+};
+
+export type CustomCategoryCountAggregateOutputType = {
+  id: number;
+  userId: number;
+  key: number;
+  name: number;
+  createdAt: number;
+  _all: number;
+};
+
+export type CustomCategoryMinAggregateInputType = {
+  id?: true;
+  userId?: true;
+  key?: true;
+  name?: true;
+  createdAt?: true;
+};
+
+export type CustomCategoryMaxAggregateInputType = {
+  id?: true;
+  userId?: true;
+  key?: true;
+  name?: true;
+  createdAt?: true;
+};
+
+export type CustomCategoryCountAggregateInputType = {
+  id?: true;
+  userId?: true;
+  key?: true;
+  name?: true;
+  createdAt?: true;
+  _all?: true;
+};
+
+export type CustomCategoryAggregateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Filter which CustomCategory to aggregate.
+   */
+  where?: Prisma.CustomCategoryWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of CustomCategories to fetch.
+   */
+  orderBy?:
+    | Prisma.CustomCategoryOrderByWithRelationInput
+    | Prisma.CustomCategoryOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the start position
+   */
+  cursor?: Prisma.CustomCategoryWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` CustomCategories from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` CustomCategories.
+   */
+  skip?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Count returned CustomCategories
+   **/
+  _count?: true | CustomCategoryCountAggregateInputType;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to find the minimum value
+   **/
+  _min?: CustomCategoryMinAggregateInputType;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to find the maximum value
+   **/
+  _max?: CustomCategoryMaxAggregateInputType;
+};
+
+export type GetCustomCategoryAggregateType<T extends CustomCategoryAggregateArgs> = {
+  [P in keyof T & keyof AggregateCustomCategory]: P extends "_count" | "count"
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateCustomCategory[P]>
+    : Prisma.GetScalarType<T[P], AggregateCustomCategory[P]>;
+};
+
+export type CustomCategoryGroupByArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  where?: Prisma.CustomCategoryWhereInput;
+  orderBy?:
+    | Prisma.CustomCategoryOrderByWithAggregationInput
+    | Prisma.CustomCategoryOrderByWithAggregationInput[];
+  by: Prisma.CustomCategoryScalarFieldEnum[] | Prisma.CustomCategoryScalarFieldEnum;
+  having?: Prisma.CustomCategoryScalarWhereWithAggregatesInput;
+  take?: number;
+  skip?: number;
+  _count?: CustomCategoryCountAggregateInputType | true;
+  _min?: CustomCategoryMinAggregateInputType;
+  _max?: CustomCategoryMaxAggregateInputType;
+};
+
+export type CustomCategoryGroupByOutputType = {
+  id: string;
+  userId: string;
+  key: string;
+  name: string;
+  createdAt: Date;
+  _count: CustomCategoryCountAggregateOutputType | null;
+  _min: CustomCategoryMinAggregateOutputType | null;
+  _max: CustomCategoryMaxAggregateOutputType | null;
+};
+
+type GetCustomCategoryGroupByPayload<T extends CustomCategoryGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<CustomCategoryGroupByOutputType, T["by"]> & {
+      [P in keyof T & keyof CustomCategoryGroupByOutputType]: P extends "_count"
+        ? T[P] extends boolean
+          ? number
+          : Prisma.GetScalarType<T[P], CustomCategoryGroupByOutputType[P]>
+        : Prisma.GetScalarType<T[P], CustomCategoryGroupByOutputType[P]>;
+    }
+  >
+>;
+
+export type CustomCategoryWhereInput = {
+  AND?: Prisma.CustomCategoryWhereInput | Prisma.CustomCategoryWhereInput[];
+  OR?: Prisma.CustomCategoryWhereInput[];
+  NOT?: Prisma.CustomCategoryWhereInput | Prisma.CustomCategoryWhereInput[];
+  id?: Prisma.StringFilter<"CustomCategory"> | string;
+  userId?: Prisma.StringFilter<"CustomCategory"> | string;
+  key?: Prisma.StringFilter<"CustomCategory"> | string;
+  name?: Prisma.StringFilter<"CustomCategory"> | string;
+  createdAt?: Prisma.DateTimeFilter<"CustomCategory"> | Date | string;
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>;
+  expenses?: Prisma.ExpenseListRelationFilter;
+};
+
+export type CustomCategoryOrderByWithRelationInput = {
+  id?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  key?: Prisma.SortOrder;
+  name?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  user?: Prisma.UserOrderByWithRelationInput;
+  expenses?: Prisma.ExpenseOrderByRelationAggregateInput;
+};
+
+export type CustomCategoryWhereUniqueInput = Prisma.AtLeast<
+  {
+    id?: string;
+    userId_key?: Prisma.CustomCategoryUserIdKeyCompoundUniqueInput;
+    AND?: Prisma.CustomCategoryWhereInput | Prisma.CustomCategoryWhereInput[];
+    OR?: Prisma.CustomCategoryWhereInput[];
+    NOT?: Prisma.CustomCategoryWhereInput | Prisma.CustomCategoryWhereInput[];
+    userId?: Prisma.StringFilter<"CustomCategory"> | string;
+    key?: Prisma.StringFilter<"CustomCategory"> | string;
+    name?: Prisma.StringFilter<"CustomCategory"> | string;
+    createdAt?: Prisma.DateTimeFilter<"CustomCategory"> | Date | string;
+    user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>;
+    expenses?: Prisma.ExpenseListRelationFilter;
+  },
+  "id" | "userId_key"
+>;
+
+export type CustomCategoryOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  key?: Prisma.SortOrder;
+  name?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  _count?: Prisma.CustomCategoryCountOrderByAggregateInput;
+  _max?: Prisma.CustomCategoryMaxOrderByAggregateInput;
+  _min?: Prisma.CustomCategoryMinOrderByAggregateInput;
+};
+
+export type CustomCategoryScalarWhereWithAggregatesInput = {
+  AND?:
+    | Prisma.CustomCategoryScalarWhereWithAggregatesInput
+    | Prisma.CustomCategoryScalarWhereWithAggregatesInput[];
+  OR?: Prisma.CustomCategoryScalarWhereWithAggregatesInput[];
+  NOT?:
+    | Prisma.CustomCategoryScalarWhereWithAggregatesInput
+    | Prisma.CustomCategoryScalarWhereWithAggregatesInput[];
+  id?: Prisma.StringWithAggregatesFilter<"CustomCategory"> | string;
+  userId?: Prisma.StringWithAggregatesFilter<"CustomCategory"> | string;
+  key?: Prisma.StringWithAggregatesFilter<"CustomCategory"> | string;
+  name?: Prisma.StringWithAggregatesFilter<"CustomCategory"> | string;
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"CustomCategory"> | Date | string;
+};
+
+export type CustomCategoryCreateInput = {
+  id?: string;
+  key: string;
+  name: string;
+  createdAt?: Date | string;
+  user: Prisma.UserCreateNestedOneWithoutCustomCategoriesInput;
+  expenses?: Prisma.ExpenseCreateNestedManyWithoutCustomCategoryInput;
+};
+
+export type CustomCategoryUncheckedCreateInput = {
+  id?: string;
+  userId: string;
+  key: string;
+  name: string;
+  createdAt?: Date | string;
+  expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutCustomCategoryInput;
+};
+
+export type CustomCategoryUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  key?: Prisma.StringFieldUpdateOperationsInput | string;
+  name?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  user?: Prisma.UserUpdateOneRequiredWithoutCustomCategoriesNestedInput;
+  expenses?: Prisma.ExpenseUpdateManyWithoutCustomCategoryNestedInput;
+};
+
+export type CustomCategoryUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  userId?: Prisma.StringFieldUpdateOperationsInput | string;
+  key?: Prisma.StringFieldUpdateOperationsInput | string;
+  name?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutCustomCategoryNestedInput;
+};
+
+export type CustomCategoryCreateManyInput = {
+  id?: string;
+  userId: string;
+  key: string;
+  name: string;
+  createdAt?: Date | string;
+};
+
+export type CustomCategoryUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  key?: Prisma.StringFieldUpdateOperationsInput | string;
+  name?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type CustomCategoryUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  userId?: Prisma.StringFieldUpdateOperationsInput | string;
+  key?: Prisma.StringFieldUpdateOperationsInput | string;
+  name?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type CustomCategoryListRelationFilter = {
+  every?: Prisma.CustomCategoryWhereInput;
+  some?: Prisma.CustomCategoryWhereInput;
+  none?: Prisma.CustomCategoryWhereInput;
+};
+
+export type CustomCategoryOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder;
+};
+
+export type CustomCategoryNullableScalarRelationFilter = {
+  is?: Prisma.CustomCategoryWhereInput | null;
+  isNot?: Prisma.CustomCategoryWhereInput | null;
+};
+
+export type CustomCategoryUserIdKeyCompoundUniqueInput = {
+  userId: string;
+  key: string;
+};
+
+export type CustomCategoryCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  key?: Prisma.SortOrder;
+  name?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+};
+
+export type CustomCategoryMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  key?: Prisma.SortOrder;
+  name?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+};
+
+export type CustomCategoryMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  key?: Prisma.SortOrder;
+  name?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+};
+
+export type CustomCategoryCreateNestedManyWithoutUserInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.CustomCategoryCreateWithoutUserInput,
+        Prisma.CustomCategoryUncheckedCreateWithoutUserInput
+      >
+    | Prisma.CustomCategoryCreateWithoutUserInput[]
+    | Prisma.CustomCategoryUncheckedCreateWithoutUserInput[];
+  connectOrCreate?:
+    | Prisma.CustomCategoryCreateOrConnectWithoutUserInput
+    | Prisma.CustomCategoryCreateOrConnectWithoutUserInput[];
+  createMany?: Prisma.CustomCategoryCreateManyUserInputEnvelope;
+  connect?: Prisma.CustomCategoryWhereUniqueInput | Prisma.CustomCategoryWhereUniqueInput[];
+};
+
+export type CustomCategoryUncheckedCreateNestedManyWithoutUserInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.CustomCategoryCreateWithoutUserInput,
+        Prisma.CustomCategoryUncheckedCreateWithoutUserInput
+      >
+    | Prisma.CustomCategoryCreateWithoutUserInput[]
+    | Prisma.CustomCategoryUncheckedCreateWithoutUserInput[];
+  connectOrCreate?:
+    | Prisma.CustomCategoryCreateOrConnectWithoutUserInput
+    | Prisma.CustomCategoryCreateOrConnectWithoutUserInput[];
+  createMany?: Prisma.CustomCategoryCreateManyUserInputEnvelope;
+  connect?: Prisma.CustomCategoryWhereUniqueInput | Prisma.CustomCategoryWhereUniqueInput[];
+};
+
+export type CustomCategoryUpdateManyWithoutUserNestedInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.CustomCategoryCreateWithoutUserInput,
+        Prisma.CustomCategoryUncheckedCreateWithoutUserInput
+      >
+    | Prisma.CustomCategoryCreateWithoutUserInput[]
+    | Prisma.CustomCategoryUncheckedCreateWithoutUserInput[];
+  connectOrCreate?:
+    | Prisma.CustomCategoryCreateOrConnectWithoutUserInput
+    | Prisma.CustomCategoryCreateOrConnectWithoutUserInput[];
+  upsert?:
+    | Prisma.CustomCategoryUpsertWithWhereUniqueWithoutUserInput
+    | Prisma.CustomCategoryUpsertWithWhereUniqueWithoutUserInput[];
+  createMany?: Prisma.CustomCategoryCreateManyUserInputEnvelope;
+  set?: Prisma.CustomCategoryWhereUniqueInput | Prisma.CustomCategoryWhereUniqueInput[];
+  disconnect?: Prisma.CustomCategoryWhereUniqueInput | Prisma.CustomCategoryWhereUniqueInput[];
+  delete?: Prisma.CustomCategoryWhereUniqueInput | Prisma.CustomCategoryWhereUniqueInput[];
+  connect?: Prisma.CustomCategoryWhereUniqueInput | Prisma.CustomCategoryWhereUniqueInput[];
+  update?:
+    | Prisma.CustomCategoryUpdateWithWhereUniqueWithoutUserInput
+    | Prisma.CustomCategoryUpdateWithWhereUniqueWithoutUserInput[];
+  updateMany?:
+    | Prisma.CustomCategoryUpdateManyWithWhereWithoutUserInput
+    | Prisma.CustomCategoryUpdateManyWithWhereWithoutUserInput[];
+  deleteMany?: Prisma.CustomCategoryScalarWhereInput | Prisma.CustomCategoryScalarWhereInput[];
+};
+
+export type CustomCategoryUncheckedUpdateManyWithoutUserNestedInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.CustomCategoryCreateWithoutUserInput,
+        Prisma.CustomCategoryUncheckedCreateWithoutUserInput
+      >
+    | Prisma.CustomCategoryCreateWithoutUserInput[]
+    | Prisma.CustomCategoryUncheckedCreateWithoutUserInput[];
+  connectOrCreate?:
+    | Prisma.CustomCategoryCreateOrConnectWithoutUserInput
+    | Prisma.CustomCategoryCreateOrConnectWithoutUserInput[];
+  upsert?:
+    | Prisma.CustomCategoryUpsertWithWhereUniqueWithoutUserInput
+    | Prisma.CustomCategoryUpsertWithWhereUniqueWithoutUserInput[];
+  createMany?: Prisma.CustomCategoryCreateManyUserInputEnvelope;
+  set?: Prisma.CustomCategoryWhereUniqueInput | Prisma.CustomCategoryWhereUniqueInput[];
+  disconnect?: Prisma.CustomCategoryWhereUniqueInput | Prisma.CustomCategoryWhereUniqueInput[];
+  delete?: Prisma.CustomCategoryWhereUniqueInput | Prisma.CustomCategoryWhereUniqueInput[];
+  connect?: Prisma.CustomCategoryWhereUniqueInput | Prisma.CustomCategoryWhereUniqueInput[];
+  update?:
+    | Prisma.CustomCategoryUpdateWithWhereUniqueWithoutUserInput
+    | Prisma.CustomCategoryUpdateWithWhereUniqueWithoutUserInput[];
+  updateMany?:
+    | Prisma.CustomCategoryUpdateManyWithWhereWithoutUserInput
+    | Prisma.CustomCategoryUpdateManyWithWhereWithoutUserInput[];
+  deleteMany?: Prisma.CustomCategoryScalarWhereInput | Prisma.CustomCategoryScalarWhereInput[];
+};
+
+export type CustomCategoryCreateNestedOneWithoutExpensesInput = {
+  create?: Prisma.XOR<
+    Prisma.CustomCategoryCreateWithoutExpensesInput,
+    Prisma.CustomCategoryUncheckedCreateWithoutExpensesInput
+  >;
+  connectOrCreate?: Prisma.CustomCategoryCreateOrConnectWithoutExpensesInput;
+  connect?: Prisma.CustomCategoryWhereUniqueInput;
+};
+
+export type CustomCategoryUpdateOneWithoutExpensesNestedInput = {
+  create?: Prisma.XOR<
+    Prisma.CustomCategoryCreateWithoutExpensesInput,
+    Prisma.CustomCategoryUncheckedCreateWithoutExpensesInput
+  >;
+  connectOrCreate?: Prisma.CustomCategoryCreateOrConnectWithoutExpensesInput;
+  upsert?: Prisma.CustomCategoryUpsertWithoutExpensesInput;
+  disconnect?: Prisma.CustomCategoryWhereInput | boolean;
+  delete?: Prisma.CustomCategoryWhereInput | boolean;
+  connect?: Prisma.CustomCategoryWhereUniqueInput;
+  update?: Prisma.XOR<
+    Prisma.XOR<
+      Prisma.CustomCategoryUpdateToOneWithWhereWithoutExpensesInput,
+      Prisma.CustomCategoryUpdateWithoutExpensesInput
+    >,
+    Prisma.CustomCategoryUncheckedUpdateWithoutExpensesInput
+  >;
+};
+
+export type CustomCategoryCreateWithoutUserInput = {
+  id?: string;
+  key: string;
+  name: string;
+  createdAt?: Date | string;
+  expenses?: Prisma.ExpenseCreateNestedManyWithoutCustomCategoryInput;
+};
+
+export type CustomCategoryUncheckedCreateWithoutUserInput = {
+  id?: string;
+  key: string;
+  name: string;
+  createdAt?: Date | string;
+  expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutCustomCategoryInput;
+};
+
+export type CustomCategoryCreateOrConnectWithoutUserInput = {
+  where: Prisma.CustomCategoryWhereUniqueInput;
+  create: Prisma.XOR<
+    Prisma.CustomCategoryCreateWithoutUserInput,
+    Prisma.CustomCategoryUncheckedCreateWithoutUserInput
+  >;
+};
+
+export type CustomCategoryCreateManyUserInputEnvelope = {
+  data: Prisma.CustomCategoryCreateManyUserInput | Prisma.CustomCategoryCreateManyUserInput[];
+  skipDuplicates?: boolean;
+};
+
+export type CustomCategoryUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.CustomCategoryWhereUniqueInput;
+  update: Prisma.XOR<
+    Prisma.CustomCategoryUpdateWithoutUserInput,
+    Prisma.CustomCategoryUncheckedUpdateWithoutUserInput
+  >;
+  create: Prisma.XOR<
+    Prisma.CustomCategoryCreateWithoutUserInput,
+    Prisma.CustomCategoryUncheckedCreateWithoutUserInput
+  >;
+};
+
+export type CustomCategoryUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.CustomCategoryWhereUniqueInput;
+  data: Prisma.XOR<
+    Prisma.CustomCategoryUpdateWithoutUserInput,
+    Prisma.CustomCategoryUncheckedUpdateWithoutUserInput
+  >;
+};
+
+export type CustomCategoryUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.CustomCategoryScalarWhereInput;
+  data: Prisma.XOR<
+    Prisma.CustomCategoryUpdateManyMutationInput,
+    Prisma.CustomCategoryUncheckedUpdateManyWithoutUserInput
+  >;
+};
+
+export type CustomCategoryScalarWhereInput = {
+  AND?: Prisma.CustomCategoryScalarWhereInput | Prisma.CustomCategoryScalarWhereInput[];
+  OR?: Prisma.CustomCategoryScalarWhereInput[];
+  NOT?: Prisma.CustomCategoryScalarWhereInput | Prisma.CustomCategoryScalarWhereInput[];
+  id?: Prisma.StringFilter<"CustomCategory"> | string;
+  userId?: Prisma.StringFilter<"CustomCategory"> | string;
+  key?: Prisma.StringFilter<"CustomCategory"> | string;
+  name?: Prisma.StringFilter<"CustomCategory"> | string;
+  createdAt?: Prisma.DateTimeFilter<"CustomCategory"> | Date | string;
+};
+
+export type CustomCategoryCreateWithoutExpensesInput = {
+  id?: string;
+  key: string;
+  name: string;
+  createdAt?: Date | string;
+  user: Prisma.UserCreateNestedOneWithoutCustomCategoriesInput;
+};
+
+export type CustomCategoryUncheckedCreateWithoutExpensesInput = {
+  id?: string;
+  userId: string;
+  key: string;
+  name: string;
+  createdAt?: Date | string;
+};
+
+export type CustomCategoryCreateOrConnectWithoutExpensesInput = {
+  where: Prisma.CustomCategoryWhereUniqueInput;
+  create: Prisma.XOR<
+    Prisma.CustomCategoryCreateWithoutExpensesInput,
+    Prisma.CustomCategoryUncheckedCreateWithoutExpensesInput
+  >;
+};
+
+export type CustomCategoryUpsertWithoutExpensesInput = {
+  update: Prisma.XOR<
+    Prisma.CustomCategoryUpdateWithoutExpensesInput,
+    Prisma.CustomCategoryUncheckedUpdateWithoutExpensesInput
+  >;
+  create: Prisma.XOR<
+    Prisma.CustomCategoryCreateWithoutExpensesInput,
+    Prisma.CustomCategoryUncheckedCreateWithoutExpensesInput
+  >;
+  where?: Prisma.CustomCategoryWhereInput;
+};
+
+export type CustomCategoryUpdateToOneWithWhereWithoutExpensesInput = {
+  where?: Prisma.CustomCategoryWhereInput;
+  data: Prisma.XOR<
+    Prisma.CustomCategoryUpdateWithoutExpensesInput,
+    Prisma.CustomCategoryUncheckedUpdateWithoutExpensesInput
+  >;
+};
+
+export type CustomCategoryUpdateWithoutExpensesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  key?: Prisma.StringFieldUpdateOperationsInput | string;
+  name?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  user?: Prisma.UserUpdateOneRequiredWithoutCustomCategoriesNestedInput;
+};
+
+export type CustomCategoryUncheckedUpdateWithoutExpensesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  userId?: Prisma.StringFieldUpdateOperationsInput | string;
+  key?: Prisma.StringFieldUpdateOperationsInput | string;
+  name?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type CustomCategoryCreateManyUserInput = {
+  id?: string;
+  key: string;
+  name: string;
+  createdAt?: Date | string;
+};
+
+export type CustomCategoryUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  key?: Prisma.StringFieldUpdateOperationsInput | string;
+  name?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  expenses?: Prisma.ExpenseUpdateManyWithoutCustomCategoryNestedInput;
+};
+
+export type CustomCategoryUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  key?: Prisma.StringFieldUpdateOperationsInput | string;
+  name?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutCustomCategoryNestedInput;
+};
+
+export type CustomCategoryUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  key?: Prisma.StringFieldUpdateOperationsInput | string;
+  name?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+/**
+ * Count Type CustomCategoryCountOutputType
+ */
+
+export type CustomCategoryCountOutputType = {
+  expenses: number;
+};
+
+export type CustomCategoryCountOutputTypeSelect<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  expenses?: boolean | CustomCategoryCountOutputTypeCountExpensesArgs;
+};
+
+/**
+ * CustomCategoryCountOutputType without action
+ */
+export type CustomCategoryCountOutputTypeDefaultArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the CustomCategoryCountOutputType
+   */
+  select?: Prisma.CustomCategoryCountOutputTypeSelect<ExtArgs> | null;
+};
+
+/**
+ * CustomCategoryCountOutputType without action
+ */
+export type CustomCategoryCountOutputTypeCountExpensesArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  where?: Prisma.ExpenseWhereInput;
+};
+
+export type CustomCategorySelect<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean;
+    userId?: boolean;
+    key?: boolean;
+    name?: boolean;
+    createdAt?: boolean;
+    user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+    expenses?: boolean | Prisma.CustomCategory$expensesArgs<ExtArgs>;
+    _count?: boolean | Prisma.CustomCategoryCountOutputTypeDefaultArgs<ExtArgs>;
+  },
+  ExtArgs["result"]["customCategory"]
+>;
+
+export type CustomCategorySelectCreateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean;
+    userId?: boolean;
+    key?: boolean;
+    name?: boolean;
+    createdAt?: boolean;
+    user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+  },
+  ExtArgs["result"]["customCategory"]
+>;
+
+export type CustomCategorySelectUpdateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean;
+    userId?: boolean;
+    key?: boolean;
+    name?: boolean;
+    createdAt?: boolean;
+    user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+  },
+  ExtArgs["result"]["customCategory"]
+>;
+
+export type CustomCategorySelectScalar = {
+  id?: boolean;
+  userId?: boolean;
+  key?: boolean;
+  name?: boolean;
+  createdAt?: boolean;
+};
+
+export type CustomCategoryOmit<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetOmit<
+  "id" | "userId" | "key" | "name" | "createdAt",
+  ExtArgs["result"]["customCategory"]
+>;
+export type CustomCategoryInclude<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+  expenses?: boolean | Prisma.CustomCategory$expensesArgs<ExtArgs>;
+  _count?: boolean | Prisma.CustomCategoryCountOutputTypeDefaultArgs<ExtArgs>;
+};
+export type CustomCategoryIncludeCreateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+};
+export type CustomCategoryIncludeUpdateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+};
+
+export type $CustomCategoryPayload<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  name: "CustomCategory";
+  objects: {
+    user: Prisma.$UserPayload<ExtArgs>;
+    expenses: Prisma.$ExpensePayload<ExtArgs>[];
+  };
+  scalars: runtime.Types.Extensions.GetPayloadResult<
+    {
+      id: string;
+      userId: string;
+      key: string;
+      name: string;
+      createdAt: Date;
+    },
+    ExtArgs["result"]["customCategory"]
+  >;
+  composites: {};
+};
+
+export type CustomCategoryGetPayload<
+  S extends boolean | null | undefined | CustomCategoryDefaultArgs
+> = runtime.Types.Result.GetResult<Prisma.$CustomCategoryPayload, S>;
+
+export type CustomCategoryCountArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = Omit<CustomCategoryFindManyArgs, "select" | "include" | "distinct" | "omit"> & {
+  select?: CustomCategoryCountAggregateInputType | true;
+};
+
+export interface CustomCategoryDelegate<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+  GlobalOmitOptions = {}
+> {
+  [K: symbol]: {
+    types: Prisma.TypeMap<ExtArgs>["model"]["CustomCategory"];
+    meta: { name: "CustomCategory" };
+  };
+  /**
+   * Find zero or one CustomCategory that matches the filter.
+   * @param {CustomCategoryFindUniqueArgs} args - Arguments to find a CustomCategory
+   * @example
+   * // Get one CustomCategory
+   * const customCategory = await prisma.customCategory.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends CustomCategoryFindUniqueArgs>(
+    args: Prisma.SelectSubset<T, CustomCategoryFindUniqueArgs<ExtArgs>>
+  ): Prisma.Prisma__CustomCategoryClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$CustomCategoryPayload<ExtArgs>,
+      T,
+      "findUnique",
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find one CustomCategory that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {CustomCategoryFindUniqueOrThrowArgs} args - Arguments to find a CustomCategory
+   * @example
+   * // Get one CustomCategory
+   * const customCategory = await prisma.customCategory.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends CustomCategoryFindUniqueOrThrowArgs>(
+    args: Prisma.SelectSubset<T, CustomCategoryFindUniqueOrThrowArgs<ExtArgs>>
+  ): Prisma.Prisma__CustomCategoryClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$CustomCategoryPayload<ExtArgs>,
+      T,
+      "findUniqueOrThrow",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find the first CustomCategory that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CustomCategoryFindFirstArgs} args - Arguments to find a CustomCategory
+   * @example
+   * // Get one CustomCategory
+   * const customCategory = await prisma.customCategory.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends CustomCategoryFindFirstArgs>(
+    args?: Prisma.SelectSubset<T, CustomCategoryFindFirstArgs<ExtArgs>>
+  ): Prisma.Prisma__CustomCategoryClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$CustomCategoryPayload<ExtArgs>,
+      T,
+      "findFirst",
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find the first CustomCategory that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CustomCategoryFindFirstOrThrowArgs} args - Arguments to find a CustomCategory
+   * @example
+   * // Get one CustomCategory
+   * const customCategory = await prisma.customCategory.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends CustomCategoryFindFirstOrThrowArgs>(
+    args?: Prisma.SelectSubset<T, CustomCategoryFindFirstOrThrowArgs<ExtArgs>>
+  ): Prisma.Prisma__CustomCategoryClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$CustomCategoryPayload<ExtArgs>,
+      T,
+      "findFirstOrThrow",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find zero or more CustomCategories that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CustomCategoryFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all CustomCategories
+   * const customCategories = await prisma.customCategory.findMany()
+   *
+   * // Get first 10 CustomCategories
+   * const customCategories = await prisma.customCategory.findMany({ take: 10 })
+   *
+   * // Only select the `id`
+   * const customCategoryWithIdOnly = await prisma.customCategory.findMany({ select: { id: true } })
+   *
+   */
+  findMany<T extends CustomCategoryFindManyArgs>(
+    args?: Prisma.SelectSubset<T, CustomCategoryFindManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$CustomCategoryPayload<ExtArgs>,
+      T,
+      "findMany",
+      GlobalOmitOptions
+    >
+  >;
+
+  /**
+   * Create a CustomCategory.
+   * @param {CustomCategoryCreateArgs} args - Arguments to create a CustomCategory.
+   * @example
+   * // Create one CustomCategory
+   * const CustomCategory = await prisma.customCategory.create({
+   *   data: {
+   *     // ... data to create a CustomCategory
+   *   }
+   * })
+   *
+   */
+  create<T extends CustomCategoryCreateArgs>(
+    args: Prisma.SelectSubset<T, CustomCategoryCreateArgs<ExtArgs>>
+  ): Prisma.Prisma__CustomCategoryClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$CustomCategoryPayload<ExtArgs>,
+      T,
+      "create",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Create many CustomCategories.
+   * @param {CustomCategoryCreateManyArgs} args - Arguments to create many CustomCategories.
+   * @example
+   * // Create many CustomCategories
+   * const customCategory = await prisma.customCategory.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   */
+  createMany<T extends CustomCategoryCreateManyArgs>(
+    args?: Prisma.SelectSubset<T, CustomCategoryCreateManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+  /**
+   * Create many CustomCategories and returns the data saved in the database.
+   * @param {CustomCategoryCreateManyAndReturnArgs} args - Arguments to create many CustomCategories.
+   * @example
+   * // Create many CustomCategories
+   * const customCategory = await prisma.customCategory.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   * // Create many CustomCategories and only return the `id`
+   * const customCategoryWithIdOnly = await prisma.customCategory.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   *
+   */
+  createManyAndReturn<T extends CustomCategoryCreateManyAndReturnArgs>(
+    args?: Prisma.SelectSubset<T, CustomCategoryCreateManyAndReturnArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$CustomCategoryPayload<ExtArgs>,
+      T,
+      "createManyAndReturn",
+      GlobalOmitOptions
+    >
+  >;
+
+  /**
+   * Delete a CustomCategory.
+   * @param {CustomCategoryDeleteArgs} args - Arguments to delete one CustomCategory.
+   * @example
+   * // Delete one CustomCategory
+   * const CustomCategory = await prisma.customCategory.delete({
+   *   where: {
+   *     // ... filter to delete one CustomCategory
+   *   }
+   * })
+   *
+   */
+  delete<T extends CustomCategoryDeleteArgs>(
+    args: Prisma.SelectSubset<T, CustomCategoryDeleteArgs<ExtArgs>>
+  ): Prisma.Prisma__CustomCategoryClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$CustomCategoryPayload<ExtArgs>,
+      T,
+      "delete",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Update one CustomCategory.
+   * @param {CustomCategoryUpdateArgs} args - Arguments to update one CustomCategory.
+   * @example
+   * // Update one CustomCategory
+   * const customCategory = await prisma.customCategory.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   *
+   */
+  update<T extends CustomCategoryUpdateArgs>(
+    args: Prisma.SelectSubset<T, CustomCategoryUpdateArgs<ExtArgs>>
+  ): Prisma.Prisma__CustomCategoryClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$CustomCategoryPayload<ExtArgs>,
+      T,
+      "update",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Delete zero or more CustomCategories.
+   * @param {CustomCategoryDeleteManyArgs} args - Arguments to filter CustomCategories to delete.
+   * @example
+   * // Delete a few CustomCategories
+   * const { count } = await prisma.customCategory.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   *
+   */
+  deleteMany<T extends CustomCategoryDeleteManyArgs>(
+    args?: Prisma.SelectSubset<T, CustomCategoryDeleteManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+  /**
+   * Update zero or more CustomCategories.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CustomCategoryUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many CustomCategories
+   * const customCategory = await prisma.customCategory.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   *
+   */
+  updateMany<T extends CustomCategoryUpdateManyArgs>(
+    args: Prisma.SelectSubset<T, CustomCategoryUpdateManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+  /**
+   * Update zero or more CustomCategories and returns the data updated in the database.
+   * @param {CustomCategoryUpdateManyAndReturnArgs} args - Arguments to update many CustomCategories.
+   * @example
+   * // Update many CustomCategories
+   * const customCategory = await prisma.customCategory.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   * // Update zero or more CustomCategories and only return the `id`
+   * const customCategoryWithIdOnly = await prisma.customCategory.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   *
+   */
+  updateManyAndReturn<T extends CustomCategoryUpdateManyAndReturnArgs>(
+    args: Prisma.SelectSubset<T, CustomCategoryUpdateManyAndReturnArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$CustomCategoryPayload<ExtArgs>,
+      T,
+      "updateManyAndReturn",
+      GlobalOmitOptions
+    >
+  >;
+
+  /**
+   * Create or update one CustomCategory.
+   * @param {CustomCategoryUpsertArgs} args - Arguments to update or create a CustomCategory.
+   * @example
+   * // Update or create a CustomCategory
+   * const customCategory = await prisma.customCategory.upsert({
+   *   create: {
+   *     // ... data to create a CustomCategory
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the CustomCategory we want to update
+   *   }
+   * })
+   */
+  upsert<T extends CustomCategoryUpsertArgs>(
+    args: Prisma.SelectSubset<T, CustomCategoryUpsertArgs<ExtArgs>>
+  ): Prisma.Prisma__CustomCategoryClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$CustomCategoryPayload<ExtArgs>,
+      T,
+      "upsert",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Count the number of CustomCategories.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CustomCategoryCountArgs} args - Arguments to filter CustomCategories to count.
+   * @example
+   * // Count the number of CustomCategories
+   * const count = await prisma.customCategory.count({
+   *   where: {
+   *     // ... the filter for the CustomCategories we want to count
+   *   }
+   * })
+   **/
+  count<T extends CustomCategoryCountArgs>(
+    args?: Prisma.Subset<T, CustomCategoryCountArgs>
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<"select", any>
+      ? T["select"] extends true
+        ? number
+        : Prisma.GetScalarType<T["select"], CustomCategoryCountAggregateOutputType>
+      : number
+  >;
+
+  /**
+   * Allows you to perform aggregations operations on a CustomCategory.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CustomCategoryAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+   **/
+  aggregate<T extends CustomCategoryAggregateArgs>(
+    args: Prisma.Subset<T, CustomCategoryAggregateArgs>
+  ): Prisma.PrismaPromise<GetCustomCategoryAggregateType<T>>;
+
+  /**
+   * Group by CustomCategory.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {CustomCategoryGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   *
+   **/
+  groupBy<
+    T extends CustomCategoryGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<"skip", Prisma.Keys<T>>,
+      Prisma.Extends<"take", Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: CustomCategoryGroupByArgs["orderBy"] }
+      : { orderBy?: CustomCategoryGroupByArgs["orderBy"] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<
+      Prisma.Keys<Prisma.MaybeTupleToUnion<T["orderBy"]>>
+    >,
+    ByFields extends Prisma.MaybeTupleToUnion<T["by"]>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T["having"]>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T["by"] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends Prisma.False
+        ? {
+            [P in HavingFields]: P extends ByFields
+              ? never
+              : P extends string
+                ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+                : [Error, "Field ", P, ` in "having" needs to be provided in "by"`];
+          }[HavingFields]
+        : "take" extends Prisma.Keys<T>
+          ? "orderBy" extends Prisma.Keys<T>
+            ? ByValid extends Prisma.True
+              ? {}
+              : {
+                  [P in OrderFields]: P extends ByFields
+                    ? never
+                    : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                }[OrderFields]
+            : 'Error: If you provide "take", you also need to provide "orderBy"'
+          : "skip" extends Prisma.Keys<T>
+            ? "orderBy" extends Prisma.Keys<T>
+              ? ByValid extends Prisma.True
+                ? {}
+                : {
+                    [P in OrderFields]: P extends ByFields
+                      ? never
+                      : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                  }[OrderFields]
+              : 'Error: If you provide "skip", you also need to provide "orderBy"'
+            : ByValid extends Prisma.True
+              ? {}
+              : {
+                  [P in OrderFields]: P extends ByFields
+                    ? never
+                    : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                }[OrderFields]
+  >(
+    args: Prisma.SubsetIntersection<T, CustomCategoryGroupByArgs, OrderByArg> & InputErrors
+  ): {} extends InputErrors
+    ? GetCustomCategoryGroupByPayload<T>
+    : Prisma.PrismaPromise<InputErrors>;
+  /**
+   * Fields of the CustomCategory model
+   */
+  readonly fields: CustomCategoryFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for CustomCategory.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__CustomCategoryClient<
+  T,
+  Null = never,
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+  GlobalOmitOptions = {}
+> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise";
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>
+  ): Prisma.Prisma__UserClient<
+    | runtime.Types.Result.GetResult<
+        Prisma.$UserPayload<ExtArgs>,
+        T,
+        "findUniqueOrThrow",
+        GlobalOmitOptions
+      >
+    | Null,
+    Null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+  expenses<T extends Prisma.CustomCategory$expensesArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.CustomCategory$expensesArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    | runtime.Types.Result.GetResult<
+        Prisma.$ExpensePayload<ExtArgs>,
+        T,
+        "findMany",
+        GlobalOmitOptions
+      >
+    | Null
+  >;
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(
+    onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null
+  ): runtime.Types.Utils.JsPromise<TResult1 | TResult2>;
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(
+    onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null
+  ): runtime.Types.Utils.JsPromise<T | TResult>;
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>;
+}
+
+/**
+ * Fields of the CustomCategory model
+ */
+export interface CustomCategoryFieldRefs {
+  readonly id: Prisma.FieldRef<"CustomCategory", "String">;
+  readonly userId: Prisma.FieldRef<"CustomCategory", "String">;
+  readonly key: Prisma.FieldRef<"CustomCategory", "String">;
+  readonly name: Prisma.FieldRef<"CustomCategory", "String">;
+  readonly createdAt: Prisma.FieldRef<"CustomCategory", "DateTime">;
+}
+
+// Custom InputTypes
+/**
+ * CustomCategory findUnique
+ */
+export type CustomCategoryFindUniqueArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the CustomCategory
+   */
+  select?: Prisma.CustomCategorySelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the CustomCategory
+   */
+  omit?: Prisma.CustomCategoryOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CustomCategoryInclude<ExtArgs> | null;
+  /**
+   * Filter, which CustomCategory to fetch.
+   */
+  where: Prisma.CustomCategoryWhereUniqueInput;
+};
+
+/**
+ * CustomCategory findUniqueOrThrow
+ */
+export type CustomCategoryFindUniqueOrThrowArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the CustomCategory
+   */
+  select?: Prisma.CustomCategorySelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the CustomCategory
+   */
+  omit?: Prisma.CustomCategoryOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CustomCategoryInclude<ExtArgs> | null;
+  /**
+   * Filter, which CustomCategory to fetch.
+   */
+  where: Prisma.CustomCategoryWhereUniqueInput;
+};
+
+/**
+ * CustomCategory findFirst
+ */
+export type CustomCategoryFindFirstArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the CustomCategory
+   */
+  select?: Prisma.CustomCategorySelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the CustomCategory
+   */
+  omit?: Prisma.CustomCategoryOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CustomCategoryInclude<ExtArgs> | null;
+  /**
+   * Filter, which CustomCategory to fetch.
+   */
+  where?: Prisma.CustomCategoryWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of CustomCategories to fetch.
+   */
+  orderBy?:
+    | Prisma.CustomCategoryOrderByWithRelationInput
+    | Prisma.CustomCategoryOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for searching for CustomCategories.
+   */
+  cursor?: Prisma.CustomCategoryWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` CustomCategories from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` CustomCategories.
+   */
+  skip?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   *
+   * Filter by unique combinations of CustomCategories.
+   */
+  distinct?: Prisma.CustomCategoryScalarFieldEnum | Prisma.CustomCategoryScalarFieldEnum[];
+};
+
+/**
+ * CustomCategory findFirstOrThrow
+ */
+export type CustomCategoryFindFirstOrThrowArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the CustomCategory
+   */
+  select?: Prisma.CustomCategorySelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the CustomCategory
+   */
+  omit?: Prisma.CustomCategoryOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CustomCategoryInclude<ExtArgs> | null;
+  /**
+   * Filter, which CustomCategory to fetch.
+   */
+  where?: Prisma.CustomCategoryWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of CustomCategories to fetch.
+   */
+  orderBy?:
+    | Prisma.CustomCategoryOrderByWithRelationInput
+    | Prisma.CustomCategoryOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for searching for CustomCategories.
+   */
+  cursor?: Prisma.CustomCategoryWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` CustomCategories from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` CustomCategories.
+   */
+  skip?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   *
+   * Filter by unique combinations of CustomCategories.
+   */
+  distinct?: Prisma.CustomCategoryScalarFieldEnum | Prisma.CustomCategoryScalarFieldEnum[];
+};
+
+/**
+ * CustomCategory findMany
+ */
+export type CustomCategoryFindManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the CustomCategory
+   */
+  select?: Prisma.CustomCategorySelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the CustomCategory
+   */
+  omit?: Prisma.CustomCategoryOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CustomCategoryInclude<ExtArgs> | null;
+  /**
+   * Filter, which CustomCategories to fetch.
+   */
+  where?: Prisma.CustomCategoryWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of CustomCategories to fetch.
+   */
+  orderBy?:
+    | Prisma.CustomCategoryOrderByWithRelationInput
+    | Prisma.CustomCategoryOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for listing CustomCategories.
+   */
+  cursor?: Prisma.CustomCategoryWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` CustomCategories from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` CustomCategories.
+   */
+  skip?: number;
+  distinct?: Prisma.CustomCategoryScalarFieldEnum | Prisma.CustomCategoryScalarFieldEnum[];
+};
+
+/**
+ * CustomCategory create
+ */
+export type CustomCategoryCreateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the CustomCategory
+   */
+  select?: Prisma.CustomCategorySelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the CustomCategory
+   */
+  omit?: Prisma.CustomCategoryOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CustomCategoryInclude<ExtArgs> | null;
+  /**
+   * The data needed to create a CustomCategory.
+   */
+  data: Prisma.XOR<Prisma.CustomCategoryCreateInput, Prisma.CustomCategoryUncheckedCreateInput>;
+};
+
+/**
+ * CustomCategory createMany
+ */
+export type CustomCategoryCreateManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * The data used to create many CustomCategories.
+   */
+  data: Prisma.CustomCategoryCreateManyInput | Prisma.CustomCategoryCreateManyInput[];
+  skipDuplicates?: boolean;
+};
+
+/**
+ * CustomCategory createManyAndReturn
+ */
+export type CustomCategoryCreateManyAndReturnArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the CustomCategory
+   */
+  select?: Prisma.CustomCategorySelectCreateManyAndReturn<ExtArgs> | null;
+  /**
+   * Omit specific fields from the CustomCategory
+   */
+  omit?: Prisma.CustomCategoryOmit<ExtArgs> | null;
+  /**
+   * The data used to create many CustomCategories.
+   */
+  data: Prisma.CustomCategoryCreateManyInput | Prisma.CustomCategoryCreateManyInput[];
+  skipDuplicates?: boolean;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CustomCategoryIncludeCreateManyAndReturn<ExtArgs> | null;
+};
+
+/**
+ * CustomCategory update
+ */
+export type CustomCategoryUpdateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the CustomCategory
+   */
+  select?: Prisma.CustomCategorySelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the CustomCategory
+   */
+  omit?: Prisma.CustomCategoryOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CustomCategoryInclude<ExtArgs> | null;
+  /**
+   * The data needed to update a CustomCategory.
+   */
+  data: Prisma.XOR<Prisma.CustomCategoryUpdateInput, Prisma.CustomCategoryUncheckedUpdateInput>;
+  /**
+   * Choose, which CustomCategory to update.
+   */
+  where: Prisma.CustomCategoryWhereUniqueInput;
+};
+
+/**
+ * CustomCategory updateMany
+ */
+export type CustomCategoryUpdateManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * The data used to update CustomCategories.
+   */
+  data: Prisma.XOR<
+    Prisma.CustomCategoryUpdateManyMutationInput,
+    Prisma.CustomCategoryUncheckedUpdateManyInput
+  >;
+  /**
+   * Filter which CustomCategories to update
+   */
+  where?: Prisma.CustomCategoryWhereInput;
+  /**
+   * Limit how many CustomCategories to update.
+   */
+  limit?: number;
+};
+
+/**
+ * CustomCategory updateManyAndReturn
+ */
+export type CustomCategoryUpdateManyAndReturnArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the CustomCategory
+   */
+  select?: Prisma.CustomCategorySelectUpdateManyAndReturn<ExtArgs> | null;
+  /**
+   * Omit specific fields from the CustomCategory
+   */
+  omit?: Prisma.CustomCategoryOmit<ExtArgs> | null;
+  /**
+   * The data used to update CustomCategories.
+   */
+  data: Prisma.XOR<
+    Prisma.CustomCategoryUpdateManyMutationInput,
+    Prisma.CustomCategoryUncheckedUpdateManyInput
+  >;
+  /**
+   * Filter which CustomCategories to update
+   */
+  where?: Prisma.CustomCategoryWhereInput;
+  /**
+   * Limit how many CustomCategories to update.
+   */
+  limit?: number;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CustomCategoryIncludeUpdateManyAndReturn<ExtArgs> | null;
+};
+
+/**
+ * CustomCategory upsert
+ */
+export type CustomCategoryUpsertArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the CustomCategory
+   */
+  select?: Prisma.CustomCategorySelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the CustomCategory
+   */
+  omit?: Prisma.CustomCategoryOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CustomCategoryInclude<ExtArgs> | null;
+  /**
+   * The filter to search for the CustomCategory to update in case it exists.
+   */
+  where: Prisma.CustomCategoryWhereUniqueInput;
+  /**
+   * In case the CustomCategory found by the `where` argument doesn't exist, create a new CustomCategory with this data.
+   */
+  create: Prisma.XOR<Prisma.CustomCategoryCreateInput, Prisma.CustomCategoryUncheckedCreateInput>;
+  /**
+   * In case the CustomCategory was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.CustomCategoryUpdateInput, Prisma.CustomCategoryUncheckedUpdateInput>;
+};
+
+/**
+ * CustomCategory delete
+ */
+export type CustomCategoryDeleteArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the CustomCategory
+   */
+  select?: Prisma.CustomCategorySelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the CustomCategory
+   */
+  omit?: Prisma.CustomCategoryOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CustomCategoryInclude<ExtArgs> | null;
+  /**
+   * Filter which CustomCategory to delete.
+   */
+  where: Prisma.CustomCategoryWhereUniqueInput;
+};
+
+/**
+ * CustomCategory deleteMany
+ */
+export type CustomCategoryDeleteManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Filter which CustomCategories to delete
+   */
+  where?: Prisma.CustomCategoryWhereInput;
+  /**
+   * Limit how many CustomCategories to delete.
+   */
+  limit?: number;
+};
+
+/**
+ * CustomCategory.expenses
+ */
+export type CustomCategory$expensesArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the Expense
+   */
+  select?: Prisma.ExpenseSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the Expense
+   */
+  omit?: Prisma.ExpenseOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseInclude<ExtArgs> | null;
+  where?: Prisma.ExpenseWhereInput;
+  orderBy?: Prisma.ExpenseOrderByWithRelationInput | Prisma.ExpenseOrderByWithRelationInput[];
+  cursor?: Prisma.ExpenseWhereUniqueInput;
+  take?: number;
+  skip?: number;
+  distinct?: Prisma.ExpenseScalarFieldEnum | Prisma.ExpenseScalarFieldEnum[];
+};
+
+/**
+ * CustomCategory without action
+ */
+export type CustomCategoryDefaultArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the CustomCategory
+   */
+  select?: Prisma.CustomCategorySelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the CustomCategory
+   */
+  omit?: Prisma.CustomCategoryOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CustomCategoryInclude<ExtArgs> | null;
+};
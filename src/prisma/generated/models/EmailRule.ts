@@ -0,0 +1,1840 @@
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck
+/*
+ * This file exports the `EmailRule` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client";
+import type * as $Enums from "../enums";
+import type * as Prisma from "../internal/prismaNamespace";
+
+/**
+ * Model EmailRule
+ *
+ */
+export type EmailRuleModel = runtime.Types.Result.DefaultSelection<Prisma.$EmailRulePayload>;
+
+export type AggregateEmailRule = {
+  _count: EmailRuleCountAggregateOutputType | null;
+  _avg: EmailRuleAvgAggregateOutputType | null;
+  _sum: EmailRuleSumAggregateOutputType | null;
+  _min: EmailRuleMinAggregateOutputType | null;
+  _max: EmailRuleMaxAggregateOutputType | null;
+};
+
+export type EmailRuleAvgAggregateOutputType = {
+  startHour: number | null;
+  endHour: number | null;
+};
+
+export type EmailRuleSumAggregateOutputType = {
+  startHour: number | null;
+  endHour: number | null;
+};
+
+export type EmailRuleMinAggregateOutputType = {
+  id: string | null;
+  userId: string | null;
+  action: $Enums.EmailRuleAction | null;
+  sender: string | null;
+  emailType: $Enums.EmailType | null;
+  startHour: number | null;
+  endHour: number | null;
+  ruleKey: string | null;
+  createdAt: Date | null;
+};
+
+export type EmailRuleMaxAggregateOutputType = {
+  id: string | null;
+  userId: string | null;
+  action: $Enums.EmailRuleAction | null;
+  sender: string | null;
+  emailType: $Enums.EmailType | null;
+  startHour: number | null;
+  endHour: number | null;
+  ruleKey: string | null;
+  createdAt: Date | null;
+};
+
+export type EmailRuleCountAggregateOutputType = {
+  id: number;
+  userId: number;
+  action: number;
+  sender: number;
+  emailType: number;
+  startHour: number;
+  endHour: number;
+  ruleKey: number;
+  createdAt: number;
+  _all: number;
+};
+
+export type EmailRuleAvgAggregateInputType = {
+  startHour?: true;
+  endHour?: true;
+};
+
+export type EmailRuleSumAggregateInputType = {
+  startHour?: true;
+  endHour?: true;
+};
+
+export type EmailRuleMinAggregateInputType = {
+  id?: true;
+  userId?: true;
+  action?: true;
+  sender?: true;
+  emailType?: true;
+  startHour?: true;
+  endHour?: true;
+  ruleKey?: true;
+  createdAt?: true;
+};
+
+export type EmailRuleMaxAggregateInputType = {
+  id?: true;
+  userId?: true;
+  action?: true;
+  sender?: true;
+  emailType?: true;
+  startHour?: true;
+  endHour?: true;
+  ruleKey?: true;
+  createdAt?: true;
+};
+
+export type EmailRuleCountAggregateInputType = {
+  id?: true;
+  userId?: true;
+  action?: true;
+  sender?: true;
+  emailType?: true;
+  startHour?: true;
+  endHour?: true;
+  ruleKey?: true;
+  createdAt?: true;
+  _all?: true;
+};
+
+export type EmailRuleAggregateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Filter which EmailRule to aggregate.
+   */
+  where?: Prisma.EmailRuleWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of EmailRules to fetch.
+   */
+  orderBy?: Prisma.EmailRuleOrderByWithRelationInput | Prisma.EmailRuleOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the start position
+   */
+  cursor?: Prisma.EmailRuleWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` EmailRules from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` EmailRules.
+   */
+  skip?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Count returned EmailRules
+   **/
+  _count?: true | EmailRuleCountAggregateInputType;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to average
+   **/
+  _avg?: EmailRuleAvgAggregateInputType;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to sum
+   **/
+  _sum?: EmailRuleSumAggregateInputType;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to find the minimum value
+   **/
+  _min?: EmailRuleMinAggregateInputType;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to find the maximum value
+   **/
+  _max?: EmailRuleMaxAggregateInputType;
+};
+
+export type GetEmailRuleAggregateType<T extends EmailRuleAggregateArgs> = {
+  [P in keyof T & keyof AggregateEmailRule]: P extends "_count" | "count"
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateEmailRule[P]>
+    : Prisma.GetScalarType<T[P], AggregateEmailRule[P]>;
+};
+
+export type EmailRuleGroupByArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  where?: Prisma.EmailRuleWhereInput;
+  orderBy?:
+    | Prisma.EmailRuleOrderByWithAggregationInput
+    | Prisma.EmailRuleOrderByWithAggregationInput[];
+  by: Prisma.EmailRuleScalarFieldEnum[] | Prisma.EmailRuleScalarFieldEnum;
+  having?: Prisma.EmailRuleScalarWhereWithAggregatesInput;
+  take?: number;
+  skip?: number;
+  _count?: EmailRuleCountAggregateInputType | true;
+  _avg?: EmailRuleAvgAggregateInputType;
+  _sum?: EmailRuleSumAggregateInputType;
+  _min?: EmailRuleMinAggregateInputType;
+  _max?: EmailRuleMaxAggregateInputType;
+};
+
+export type EmailRuleGroupByOutputType = {
+  id: string;
+  userId: string;
+  action: $Enums.EmailRuleAction;
+  sender: string | null;
+  emailType: $Enums.EmailType | null;
+  startHour: number | null;
+  endHour: number | null;
+  ruleKey: string;
+  createdAt: Date;
+  _count: EmailRuleCountAggregateOutputType | null;
+  _avg: EmailRuleAvgAggregateOutputType | null;
+  _sum: EmailRuleSumAggregateOutputType | null;
+  _min: EmailRuleMinAggregateOutputType | null;
+  _max: EmailRuleMaxAggregateOutputType | null;
+};
+
+type GetEmailRuleGroupByPayload<T extends EmailRuleGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<EmailRuleGroupByOutputType, T["by"]> & {
+      [P in keyof T & keyof EmailRuleGroupByOutputType]: P extends "_count"
+        ? T[P] extends boolean
+          ? number
+          : Prisma.GetScalarType<T[P], EmailRuleGroupByOutputType[P]>
+        : Prisma.GetScalarType<T[P], EmailRuleGroupByOutputType[P]>;
+    }
+  >
+>;
+
+export type EmailRuleWhereInput = {
+  AND?: Prisma.EmailRuleWhereInput | Prisma.EmailRuleWhereInput[];
+  OR?: Prisma.EmailRuleWhereInput[];
+  NOT?: Prisma.EmailRuleWhereInput | Prisma.EmailRuleWhereInput[];
+  id?: Prisma.StringFilter<"EmailRule"> | string;
+  userId?: Prisma.StringFilter<"EmailRule"> | string;
+  action?: Prisma.EnumEmailRuleActionFilter<"EmailRule"> | $Enums.EmailRuleAction;
+  sender?: Prisma.StringNullableFilter<"EmailRule"> | string | null;
+  emailType?: Prisma.EnumEmailTypeNullableFilter<"EmailRule"> | $Enums.EmailType | null;
+  startHour?: Prisma.IntNullableFilter<"EmailRule"> | number | null;
+  endHour?: Prisma.IntNullableFilter<"EmailRule"> | number | null;
+  ruleKey?: Prisma.StringFilter<"EmailRule"> | string;
+  createdAt?: Prisma.DateTimeFilter<"EmailRule"> | Date | string;
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>;
+};
+
+export type EmailRuleOrderByWithRelationInput = {
+  id?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  action?: Prisma.SortOrder;
+  sender?: Prisma.SortOrderInput | Prisma.SortOrder;
+  emailType?: Prisma.SortOrderInput | Prisma.SortOrder;
+  startHour?: Prisma.SortOrderInput | Prisma.SortOrder;
+  endHour?: Prisma.SortOrderInput | Prisma.SortOrder;
+  ruleKey?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  user?: Prisma.UserOrderByWithRelationInput;
+};
+
+export type EmailRuleWhereUniqueInput = Prisma.AtLeast<
+  {
+    id?: string;
+    userId_ruleKey?: Prisma.EmailRuleUserIdRuleKeyCompoundUniqueInput;
+    AND?: Prisma.EmailRuleWhereInput | Prisma.EmailRuleWhereInput[];
+    OR?: Prisma.EmailRuleWhereInput[];
+    NOT?: Prisma.EmailRuleWhereInput | Prisma.EmailRuleWhereInput[];
+    userId?: Prisma.StringFilter<"EmailRule"> | string;
+    action?: Prisma.EnumEmailRuleActionFilter<"EmailRule"> | $Enums.EmailRuleAction;
+    sender?: Prisma.StringNullableFilter<"EmailRule"> | string | null;
+    emailType?: Prisma.EnumEmailTypeNullableFilter<"EmailRule"> | $Enums.EmailType | null;
+    startHour?: Prisma.IntNullableFilter<"EmailRule"> | number | null;
+    endHour?: Prisma.IntNullableFilter<"EmailRule"> | number | null;
+    ruleKey?: Prisma.StringFilter<"EmailRule"> | string;
+    createdAt?: Prisma.DateTimeFilter<"EmailRule"> | Date | string;
+    user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>;
+  },
+  "id" | "userId_ruleKey"
+>;
+
+export type EmailRuleOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  action?: Prisma.SortOrder;
+  sender?: Prisma.SortOrderInput | Prisma.SortOrder;
+  emailType?: Prisma.SortOrderInput | Prisma.SortOrder;
+  startHour?: Prisma.SortOrderInput | Prisma.SortOrder;
+  endHour?: Prisma.SortOrderInput | Prisma.SortOrder;
+  ruleKey?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  _count?: Prisma.EmailRuleCountOrderByAggregateInput;
+  _avg?: Prisma.EmailRuleAvgOrderByAggregateInput;
+  _max?: Prisma.EmailRuleMaxOrderByAggregateInput;
+  _min?: Prisma.EmailRuleMinOrderByAggregateInput;
+  _sum?: Prisma.EmailRuleSumOrderByAggregateInput;
+};
+
+export type EmailRuleScalarWhereWithAggregatesInput = {
+  AND?:
+    | Prisma.EmailRuleScalarWhereWithAggregatesInput
+    | Prisma.EmailRuleScalarWhereWithAggregatesInput[];
+  OR?: Prisma.EmailRuleScalarWhereWithAggregatesInput[];
+  NOT?:
+    | Prisma.EmailRuleScalarWhereWithAggregatesInput
+    | Prisma.EmailRuleScalarWhereWithAggregatesInput[];
+  id?: Prisma.StringWithAggregatesFilter<"EmailRule"> | string;
+  userId?: Prisma.StringWithAggregatesFilter<"EmailRule"> | string;
+  action?: Prisma.EnumEmailRuleActionWithAggregatesFilter<"EmailRule"> | $Enums.EmailRuleAction;
+  sender?: Prisma.StringNullableWithAggregatesFilter<"EmailRule"> | string | null;
+  emailType?:
+    | Prisma.EnumEmailTypeNullableWithAggregatesFilter<"EmailRule">
+    | $Enums.EmailType
+    | null;
+  startHour?: Prisma.IntNullableWithAggregatesFilter<"EmailRule"> | number | null;
+  endHour?: Prisma.IntNullableWithAggregatesFilter<"EmailRule"> | number | null;
+  ruleKey?: Prisma.StringWithAggregatesFilter<"EmailRule"> | string;
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"EmailRule"> | Date | string;
+};
+
+export type EmailRuleCreateInput = {
+  id?: string;
+  action: $Enums.EmailRuleAction;
+  sender?: string | null;
+  emailType?: $Enums.EmailType | null;
+  startHour?: number | null;
+  endHour?: number | null;
+  ruleKey: string;
+  createdAt?: Date | string;
+  user: Prisma.UserCreateNestedOneWithoutEmailRulesInput;
+};
+
+export type EmailRuleUncheckedCreateInput = {
+  id?: string;
+  userId: string;
+  action: $Enums.EmailRuleAction;
+  sender?: string | null;
+  emailType?: $Enums.EmailType | null;
+  startHour?: number | null;
+  endHour?: number | null;
+  ruleKey: string;
+  createdAt?: Date | string;
+};
+
+export type EmailRuleUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  action?: Prisma.EnumEmailRuleActionFieldUpdateOperationsInput | $Enums.EmailRuleAction;
+  sender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  emailType?: Prisma.NullableEnumEmailTypeFieldUpdateOperationsInput | $Enums.EmailType | null;
+  startHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null;
+  endHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null;
+  ruleKey?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  user?: Prisma.UserUpdateOneRequiredWithoutEmailRulesNestedInput;
+};
+
+export type EmailRuleUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  userId?: Prisma.StringFieldUpdateOperationsInput | string;
+  action?: Prisma.EnumEmailRuleActionFieldUpdateOperationsInput | $Enums.EmailRuleAction;
+  sender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  emailType?: Prisma.NullableEnumEmailTypeFieldUpdateOperationsInput | $Enums.EmailType | null;
+  startHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null;
+  endHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null;
+  ruleKey?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type EmailRuleCreateManyInput = {
+  id?: string;
+  userId: string;
+  action: $Enums.EmailRuleAction;
+  sender?: string | null;
+  emailType?: $Enums.EmailType | null;
+  startHour?: number | null;
+  endHour?: number | null;
+  ruleKey: string;
+  createdAt?: Date | string;
+};
+
+export type EmailRuleUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  action?: Prisma.EnumEmailRuleActionFieldUpdateOperationsInput | $Enums.EmailRuleAction;
+  sender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  emailType?: Prisma.NullableEnumEmailTypeFieldUpdateOperationsInput | $Enums.EmailType | null;
+  startHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null;
+  endHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null;
+  ruleKey?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type EmailRuleUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  userId?: Prisma.StringFieldUpdateOperationsInput | string;
+  action?: Prisma.EnumEmailRuleActionFieldUpdateOperationsInput | $Enums.EmailRuleAction;
+  sender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  emailType?: Prisma.NullableEnumEmailTypeFieldUpdateOperationsInput | $Enums.EmailType | null;
+  startHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null;
+  endHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null;
+  ruleKey?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type EmailRuleListRelationFilter = {
+  every?: Prisma.EmailRuleWhereInput;
+  some?: Prisma.EmailRuleWhereInput;
+  none?: Prisma.EmailRuleWhereInput;
+};
+
+export type EmailRuleOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder;
+};
+
+export type EmailRuleUserIdRuleKeyCompoundUniqueInput = {
+  userId: string;
+  ruleKey: string;
+};
+
+export type EmailRuleCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  action?: Prisma.SortOrder;
+  sender?: Prisma.SortOrder;
+  emailType?: Prisma.SortOrder;
+  startHour?: Prisma.SortOrder;
+  endHour?: Prisma.SortOrder;
+  ruleKey?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+};
+
+export type EmailRuleAvgOrderByAggregateInput = {
+  startHour?: Prisma.SortOrder;
+  endHour?: Prisma.SortOrder;
+};
+
+export type EmailRuleMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  action?: Prisma.SortOrder;
+  sender?: Prisma.SortOrder;
+  emailType?: Prisma.SortOrder;
+  startHour?: Prisma.SortOrder;
+  endHour?: Prisma.SortOrder;
+  ruleKey?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+};
+
+export type EmailRuleMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  action?: Prisma.SortOrder;
+  sender?: Prisma.SortOrder;
+  emailType?: Prisma.SortOrder;
+  startHour?: Prisma.SortOrder;
+  endHour?: Prisma.SortOrder;
+  ruleKey?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+};
+
+export type EmailRuleSumOrderByAggregateInput = {
+  startHour?: Prisma.SortOrder;
+  endHour?: Prisma.SortOrder;
+};
+
+export type EmailRuleCreateNestedManyWithoutUserInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.EmailRuleCreateWithoutUserInput,
+        Prisma.EmailRuleUncheckedCreateWithoutUserInput
+      >
+    | Prisma.EmailRuleCreateWithoutUserInput[]
+    | Prisma.EmailRuleUncheckedCreateWithoutUserInput[];
+  connectOrCreate?:
+    | Prisma.EmailRuleCreateOrConnectWithoutUserInput
+    | Prisma.EmailRuleCreateOrConnectWithoutUserInput[];
+  createMany?: Prisma.EmailRuleCreateManyUserInputEnvelope;
+  connect?: Prisma.EmailRuleWhereUniqueInput | Prisma.EmailRuleWhereUniqueInput[];
+};
+
+export type EmailRuleUncheckedCreateNestedManyWithoutUserInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.EmailRuleCreateWithoutUserInput,
+        Prisma.EmailRuleUncheckedCreateWithoutUserInput
+      >
+    | Prisma.EmailRuleCreateWithoutUserInput[]
+    | Prisma.EmailRuleUncheckedCreateWithoutUserInput[];
+  connectOrCreate?:
+    | Prisma.EmailRuleCreateOrConnectWithoutUserInput
+    | Prisma.EmailRuleCreateOrConnectWithoutUserInput[];
+  createMany?: Prisma.EmailRuleCreateManyUserInputEnvelope;
+  connect?: Prisma.EmailRuleWhereUniqueInput | Prisma.EmailRuleWhereUniqueInput[];
+};
+
+export type EmailRuleUpdateManyWithoutUserNestedInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.EmailRuleCreateWithoutUserInput,
+        Prisma.EmailRuleUncheckedCreateWithoutUserInput
+      >
+    | Prisma.EmailRuleCreateWithoutUserInput[]
+    | Prisma.EmailRuleUncheckedCreateWithoutUserInput[];
+  connectOrCreate?:
+    | Prisma.EmailRuleCreateOrConnectWithoutUserInput
+    | Prisma.EmailRuleCreateOrConnectWithoutUserInput[];
+  upsert?:
+    | Prisma.EmailRuleUpsertWithWhereUniqueWithoutUserInput
+    | Prisma.EmailRuleUpsertWithWhereUniqueWithoutUserInput[];
+  createMany?: Prisma.EmailRuleCreateManyUserInputEnvelope;
+  set?: Prisma.EmailRuleWhereUniqueInput | Prisma.EmailRuleWhereUniqueInput[];
+  disconnect?: Prisma.EmailRuleWhereUniqueInput | Prisma.EmailRuleWhereUniqueInput[];
+  delete?: Prisma.EmailRuleWhereUniqueInput | Prisma.EmailRuleWhereUniqueInput[];
+  connect?: Prisma.EmailRuleWhereUniqueInput | Prisma.EmailRuleWhereUniqueInput[];
+  update?:
+    | Prisma.EmailRuleUpdateWithWhereUniqueWithoutUserInput
+    | Prisma.EmailRuleUpdateWithWhereUniqueWithoutUserInput[];
+  updateMany?:
+    | Prisma.EmailRuleUpdateManyWithWhereWithoutUserInput
+    | Prisma.EmailRuleUpdateManyWithWhereWithoutUserInput[];
+  deleteMany?: Prisma.EmailRuleScalarWhereInput | Prisma.EmailRuleScalarWhereInput[];
+};
+
+export type EmailRuleUncheckedUpdateManyWithoutUserNestedInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.EmailRuleCreateWithoutUserInput,
+        Prisma.EmailRuleUncheckedCreateWithoutUserInput
+      >
+    | Prisma.EmailRuleCreateWithoutUserInput[]
+    | Prisma.EmailRuleUncheckedCreateWithoutUserInput[];
+  connectOrCreate?:
+    | Prisma.EmailRuleCreateOrConnectWithoutUserInput
+    | Prisma.EmailRuleCreateOrConnectWithoutUserInput[];
+  upsert?:
+    | Prisma.EmailRuleUpsertWithWhereUniqueWithoutUserInput
+    | Prisma.EmailRuleUpsertWithWhereUniqueWithoutUserInput[];
+  createMany?: Prisma.EmailRuleCreateManyUserInputEnvelope;
+  set?: Prisma.EmailRuleWhereUniqueInput | Prisma.EmailRuleWhereUniqueInput[];
+  disconnect?: Prisma.EmailRuleWhereUniqueInput | Prisma.EmailRuleWhereUniqueInput[];
+  delete?: Prisma.EmailRuleWhereUniqueInput | Prisma.EmailRuleWhereUniqueInput[];
+  connect?: Prisma.EmailRuleWhereUniqueInput | Prisma.EmailRuleWhereUniqueInput[];
+  update?:
+    | Prisma.EmailRuleUpdateWithWhereUniqueWithoutUserInput
+    | Prisma.EmailRuleUpdateWithWhereUniqueWithoutUserInput[];
+  updateMany?:
+    | Prisma.EmailRuleUpdateManyWithWhereWithoutUserInput
+    | Prisma.EmailRuleUpdateManyWithWhereWithoutUserInput[];
+  deleteMany?: Prisma.EmailRuleScalarWhereInput | Prisma.EmailRuleScalarWhereInput[];
+};
+
+export type EnumEmailRuleActionFieldUpdateOperationsInput = {
+  set?: $Enums.EmailRuleAction;
+};
+
+export type NullableEnumEmailTypeFieldUpdateOperationsInput = {
+  set?: $Enums.EmailType | null;
+};
+
+export type EmailRuleCreateWithoutUserInput = {
+  id?: string;
+  action: $Enums.EmailRuleAction;
+  sender?: string | null;
+  emailType?: $Enums.EmailType | null;
+  startHour?: number | null;
+  endHour?: number | null;
+  ruleKey: string;
+  createdAt?: Date | string;
+};
+
+export type EmailRuleUncheckedCreateWithoutUserInput = {
+  id?: string;
+  action: $Enums.EmailRuleAction;
+  sender?: string | null;
+  emailType?: $Enums.EmailType | null;
+  startHour?: number | null;
+  endHour?: number | null;
+  ruleKey: string;
+  createdAt?: Date | string;
+};
+
+export type EmailRuleCreateOrConnectWithoutUserInput = {
+  where: Prisma.EmailRuleWhereUniqueInput;
+  create: Prisma.XOR<
+    Prisma.EmailRuleCreateWithoutUserInput,
+    Prisma.EmailRuleUncheckedCreateWithoutUserInput
+  >;
+};
+
+export type EmailRuleCreateManyUserInputEnvelope = {
+  data: Prisma.EmailRuleCreateManyUserInput | Prisma.EmailRuleCreateManyUserInput[];
+  skipDuplicates?: boolean;
+};
+
+export type EmailRuleUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.EmailRuleWhereUniqueInput;
+  update: Prisma.XOR<
+    Prisma.EmailRuleUpdateWithoutUserInput,
+    Prisma.EmailRuleUncheckedUpdateWithoutUserInput
+  >;
+  create: Prisma.XOR<
+    Prisma.EmailRuleCreateWithoutUserInput,
+    Prisma.EmailRuleUncheckedCreateWithoutUserInput
+  >;
+};
+
+export type EmailRuleUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.EmailRuleWhereUniqueInput;
+  data: Prisma.XOR<
+    Prisma.EmailRuleUpdateWithoutUserInput,
+    Prisma.EmailRuleUncheckedUpdateWithoutUserInput
+  >;
+};
+
+export type EmailRuleUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.EmailRuleScalarWhereInput;
+  data: Prisma.XOR<
+    Prisma.EmailRuleUpdateManyMutationInput,
+    Prisma.EmailRuleUncheckedUpdateManyWithoutUserInput
+  >;
+};
+
+export type EmailRuleScalarWhereInput = {
+  AND?: Prisma.EmailRuleScalarWhereInput | Prisma.EmailRuleScalarWhereInput[];
+  OR?: Prisma.EmailRuleScalarWhereInput[];
+  NOT?: Prisma.EmailRuleScalarWhereInput | Prisma.EmailRuleScalarWhereInput[];
+  id?: Prisma.StringFilter<"EmailRule"> | string;
+  userId?: Prisma.StringFilter<"EmailRule"> | string;
+  action?: Prisma.EnumEmailRuleActionFilter<"EmailRule"> | $Enums.EmailRuleAction;
+  sender?: Prisma.StringNullableFilter<"EmailRule"> | string | null;
+  emailType?: Prisma.EnumEmailTypeNullableFilter<"EmailRule"> | $Enums.EmailType | null;
+  startHour?: Prisma.IntNullableFilter<"EmailRule"> | number | null;
+  endHour?: Prisma.IntNullableFilter<"EmailRule"> | number | null;
+  ruleKey?: Prisma.StringFilter<"EmailRule"> | string;
+  createdAt?: Prisma.DateTimeFilter<"EmailRule"> | Date | string;
+};
+
+export type EmailRuleCreateManyUserInput = {
+  id?: string;
+  action: $Enums.EmailRuleAction;
+  sender?: string | null;
+  emailType?: $Enums.EmailType | null;
+  startHour?: number | null;
+  endHour?: number | null;
+  ruleKey: string;
+  createdAt?: Date | string;
+};
+
+export type EmailRuleUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  action?: Prisma.EnumEmailRuleActionFieldUpdateOperationsInput | $Enums.EmailRuleAction;
+  sender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  emailType?: Prisma.NullableEnumEmailTypeFieldUpdateOperationsInput | $Enums.EmailType | null;
+  startHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null;
+  endHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null;
+  ruleKey?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type EmailRuleUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  action?: Prisma.EnumEmailRuleActionFieldUpdateOperationsInput | $Enums.EmailRuleAction;
+  sender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  emailType?: Prisma.NullableEnumEmailTypeFieldUpdateOperationsInput | $Enums.EmailType | null;
+  startHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null;
+  endHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null;
+  ruleKey?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type EmailRuleUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  action?: Prisma.EnumEmailRuleActionFieldUpdateOperationsInput | $Enums.EmailRuleAction;
+  sender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  emailType?: Prisma.NullableEnumEmailTypeFieldUpdateOperationsInput | $Enums.EmailType | null;
+  startHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null;
+  endHour?: Prisma.NullableIntFieldUpdateOperationsInput | number | null;
+  ruleKey?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type EmailRuleSelect<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean;
+    userId?: boolean;
+    action?: boolean;
+    sender?: boolean;
+    emailType?: boolean;
+    startHour?: boolean;
+    endHour?: boolean;
+    ruleKey?: boolean;
+    createdAt?: boolean;
+    user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+  },
+  ExtArgs["result"]["emailRule"]
+>;
+
+export type EmailRuleSelectCreateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean;
+    userId?: boolean;
+    action?: boolean;
+    sender?: boolean;
+    emailType?: boolean;
+    startHour?: boolean;
+    endHour?: boolean;
+    ruleKey?: boolean;
+    createdAt?: boolean;
+    user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+  },
+  ExtArgs["result"]["emailRule"]
+>;
+
+export type EmailRuleSelectUpdateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean;
+    userId?: boolean;
+    action?: boolean;
+    sender?: boolean;
+    emailType?: boolean;
+    startHour?: boolean;
+    endHour?: boolean;
+    ruleKey?: boolean;
+    createdAt?: boolean;
+    user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+  },
+  ExtArgs["result"]["emailRule"]
+>;
+
+export type EmailRuleSelectScalar = {
+  id?: boolean;
+  userId?: boolean;
+  action?: boolean;
+  sender?: boolean;
+  emailType?: boolean;
+  startHour?: boolean;
+  endHour?: boolean;
+  ruleKey?: boolean;
+  createdAt?: boolean;
+};
+
+export type EmailRuleOmit<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetOmit<
+  | "id"
+  | "userId"
+  | "action"
+  | "sender"
+  | "emailType"
+  | "startHour"
+  | "endHour"
+  | "ruleKey"
+  | "createdAt",
+  ExtArgs["result"]["emailRule"]
+>;
+export type EmailRuleInclude<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+};
+export type EmailRuleIncludeCreateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+};
+export type EmailRuleIncludeUpdateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+};
+
+export type $EmailRulePayload<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  name: "EmailRule";
+  objects: {
+    user: Prisma.$UserPayload<ExtArgs>;
+  };
+  scalars: runtime.Types.Extensions.GetPayloadResult<
+    {
+      id: string;
+      userId: string;
+      action: $Enums.EmailRuleAction;
+      sender: string | null;
+      emailType: $Enums.EmailType | null;
+      startHour: number | null;
+      endHour: number | null;
+      ruleKey: string;
+      createdAt: Date;
+    },
+    ExtArgs["result"]["emailRule"]
+  >;
+  composites: {};
+};
+
+export type EmailRuleGetPayload<S extends boolean | null | undefined | EmailRuleDefaultArgs> =
+  runtime.Types.Result.GetResult<Prisma.$EmailRulePayload, S>;
+
+export type EmailRuleCountArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = Omit<EmailRuleFindManyArgs, "select" | "include" | "distinct" | "omit"> & {
+  select?: EmailRuleCountAggregateInputType | true;
+};
+
+export interface EmailRuleDelegate<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+  GlobalOmitOptions = {}
+> {
+  [K: symbol]: {
+    types: Prisma.TypeMap<ExtArgs>["model"]["EmailRule"];
+    meta: { name: "EmailRule" };
+  };
+  /**
+   * Find zero or one EmailRule that matches the filter.
+   * @param {EmailRuleFindUniqueArgs} args - Arguments to find a EmailRule
+   * @example
+   * // Get one EmailRule
+   * const emailRule = await prisma.emailRule.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends EmailRuleFindUniqueArgs>(
+    args: Prisma.SelectSubset<T, EmailRuleFindUniqueArgs<ExtArgs>>
+  ): Prisma.Prisma__EmailRuleClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$EmailRulePayload<ExtArgs>,
+      T,
+      "findUnique",
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find one EmailRule that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {EmailRuleFindUniqueOrThrowArgs} args - Arguments to find a EmailRule
+   * @example
+   * // Get one EmailRule
+   * const emailRule = await prisma.emailRule.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends EmailRuleFindUniqueOrThrowArgs>(
+    args: Prisma.SelectSubset<T, EmailRuleFindUniqueOrThrowArgs<ExtArgs>>
+  ): Prisma.Prisma__EmailRuleClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$EmailRulePayload<ExtArgs>,
+      T,
+      "findUniqueOrThrow",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find the first EmailRule that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EmailRuleFindFirstArgs} args - Arguments to find a EmailRule
+   * @example
+   * // Get one EmailRule
+   * const emailRule = await prisma.emailRule.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends EmailRuleFindFirstArgs>(
+    args?: Prisma.SelectSubset<T, EmailRuleFindFirstArgs<ExtArgs>>
+  ): Prisma.Prisma__EmailRuleClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$EmailRulePayload<ExtArgs>,
+      T,
+      "findFirst",
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find the first EmailRule that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EmailRuleFindFirstOrThrowArgs} args - Arguments to find a EmailRule
+   * @example
+   * // Get one EmailRule
+   * const emailRule = await prisma.emailRule.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends EmailRuleFindFirstOrThrowArgs>(
+    args?: Prisma.SelectSubset<T, EmailRuleFindFirstOrThrowArgs<ExtArgs>>
+  ): Prisma.Prisma__EmailRuleClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$EmailRulePayload<ExtArgs>,
+      T,
+      "findFirstOrThrow",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find zero or more EmailRules that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EmailRuleFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all EmailRules
+   * const emailRules = await prisma.emailRule.findMany()
+   *
+   * // Get first 10 EmailRules
+   * const emailRules = await prisma.emailRule.findMany({ take: 10 })
+   *
+   * // Only select the `id`
+   * const emailRuleWithIdOnly = await prisma.emailRule.findMany({ select: { id: true } })
+   *
+   */
+  findMany<T extends EmailRuleFindManyArgs>(
+    args?: Prisma.SelectSubset<T, EmailRuleFindManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$EmailRulePayload<ExtArgs>,
+      T,
+      "findMany",
+      GlobalOmitOptions
+    >
+  >;
+
+  /**
+   * Create a EmailRule.
+   * @param {EmailRuleCreateArgs} args - Arguments to create a EmailRule.
+   * @example
+   * // Create one EmailRule
+   * const EmailRule = await prisma.emailRule.create({
+   *   data: {
+   *     // ... data to create a EmailRule
+   *   }
+   * })
+   *
+   */
+  create<T extends EmailRuleCreateArgs>(
+    args: Prisma.SelectSubset<T, EmailRuleCreateArgs<ExtArgs>>
+  ): Prisma.Prisma__EmailRuleClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$EmailRulePayload<ExtArgs>,
+      T,
+      "create",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Create many EmailRules.
+   * @param {EmailRuleCreateManyArgs} args - Arguments to create many EmailRules.
+   * @example
+   * // Create many EmailRules
+   * const emailRule = await prisma.emailRule.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   */
+  createMany<T extends EmailRuleCreateManyArgs>(
+    args?: Prisma.SelectSubset<T, EmailRuleCreateManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+  /**
+   * Create many EmailRules and returns the data saved in the database.
+   * @param {EmailRuleCreateManyAndReturnArgs} args - Arguments to create many EmailRules.
+   * @example
+   * // Create many EmailRules
+   * const emailRule = await prisma.emailRule.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   * // Create many EmailRules and only return the `id`
+   * const emailRuleWithIdOnly = await prisma.emailRule.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   *
+   */
+  createManyAndReturn<T extends EmailRuleCreateManyAndReturnArgs>(
+    args?: Prisma.SelectSubset<T, EmailRuleCreateManyAndReturnArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$EmailRulePayload<ExtArgs>,
+      T,
+      "createManyAndReturn",
+      GlobalOmitOptions
+    >
+  >;
+
+  /**
+   * Delete a EmailRule.
+   * @param {EmailRuleDeleteArgs} args - Arguments to delete one EmailRule.
+   * @example
+   * // Delete one EmailRule
+   * const EmailRule = await prisma.emailRule.delete({
+   *   where: {
+   *     // ... filter to delete one EmailRule
+   *   }
+   * })
+   *
+   */
+  delete<T extends EmailRuleDeleteArgs>(
+    args: Prisma.SelectSubset<T, EmailRuleDeleteArgs<ExtArgs>>
+  ): Prisma.Prisma__EmailRuleClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$EmailRulePayload<ExtArgs>,
+      T,
+      "delete",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Update one EmailRule.
+   * @param {EmailRuleUpdateArgs} args - Arguments to update one EmailRule.
+   * @example
+   * // Update one EmailRule
+   * const emailRule = await prisma.emailRule.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   *
+   */
+  update<T extends EmailRuleUpdateArgs>(
+    args: Prisma.SelectSubset<T, EmailRuleUpdateArgs<ExtArgs>>
+  ): Prisma.Prisma__EmailRuleClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$EmailRulePayload<ExtArgs>,
+      T,
+      "update",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Delete zero or more EmailRules.
+   * @param {EmailRuleDeleteManyArgs} args - Arguments to filter EmailRules to delete.
+   * @example
+   * // Delete a few EmailRules
+   * const { count } = await prisma.emailRule.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   *
+   */
+  deleteMany<T extends EmailRuleDeleteManyArgs>(
+    args?: Prisma.SelectSubset<T, EmailRuleDeleteManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+  /**
+   * Update zero or more EmailRules.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EmailRuleUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many EmailRules
+   * const emailRule = await prisma.emailRule.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   *
+   */
+  updateMany<T extends EmailRuleUpdateManyArgs>(
+    args: Prisma.SelectSubset<T, EmailRuleUpdateManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+  /**
+   * Update zero or more EmailRules and returns the data updated in the database.
+   * @param {EmailRuleUpdateManyAndReturnArgs} args - Arguments to update many EmailRules.
+   * @example
+   * // Update many EmailRules
+   * const emailRule = await prisma.emailRule.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   * // Update zero or more EmailRules and only return the `id`
+   * const emailRuleWithIdOnly = await prisma.emailRule.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   *
+   */
+  updateManyAndReturn<T extends EmailRuleUpdateManyAndReturnArgs>(
+    args: Prisma.SelectSubset<T, EmailRuleUpdateManyAndReturnArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$EmailRulePayload<ExtArgs>,
+      T,
+      "updateManyAndReturn",
+      GlobalOmitOptions
+    >
+  >;
+
+  /**
+   * Create or update one EmailRule.
+   * @param {EmailRuleUpsertArgs} args - Arguments to update or create a EmailRule.
+   * @example
+   * // Update or create a EmailRule
+   * const emailRule = await prisma.emailRule.upsert({
+   *   create: {
+   *     // ... data to create a EmailRule
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the EmailRule we want to update
+   *   }
+   * })
+   */
+  upsert<T extends EmailRuleUpsertArgs>(
+    args: Prisma.SelectSubset<T, EmailRuleUpsertArgs<ExtArgs>>
+  ): Prisma.Prisma__EmailRuleClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$EmailRulePayload<ExtArgs>,
+      T,
+      "upsert",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Count the number of EmailRules.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EmailRuleCountArgs} args - Arguments to filter EmailRules to count.
+   * @example
+   * // Count the number of EmailRules
+   * const count = await prisma.emailRule.count({
+   *   where: {
+   *     // ... the filter for the EmailRules we want to count
+   *   }
+   * })
+   **/
+  count<T extends EmailRuleCountArgs>(
+    args?: Prisma.Subset<T, EmailRuleCountArgs>
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<"select", any>
+      ? T["select"] extends true
+        ? number
+        : Prisma.GetScalarType<T["select"], EmailRuleCountAggregateOutputType>
+      : number
+  >;
+
+  /**
+   * Allows you to perform aggregations operations on a EmailRule.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EmailRuleAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+   **/
+  aggregate<T extends EmailRuleAggregateArgs>(
+    args: Prisma.Subset<T, EmailRuleAggregateArgs>
+  ): Prisma.PrismaPromise<GetEmailRuleAggregateType<T>>;
+
+  /**
+   * Group by EmailRule.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {EmailRuleGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   *
+   **/
+  groupBy<
+    T extends EmailRuleGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<"skip", Prisma.Keys<T>>,
+      Prisma.Extends<"take", Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: EmailRuleGroupByArgs["orderBy"] }
+      : { orderBy?: EmailRuleGroupByArgs["orderBy"] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<
+      Prisma.Keys<Prisma.MaybeTupleToUnion<T["orderBy"]>>
+    >,
+    ByFields extends Prisma.MaybeTupleToUnion<T["by"]>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T["having"]>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T["by"] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends Prisma.False
+        ? {
+            [P in HavingFields]: P extends ByFields
+              ? never
+              : P extends string
+                ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+                : [Error, "Field ", P, ` in "having" needs to be provided in "by"`];
+          }[HavingFields]
+        : "take" extends Prisma.Keys<T>
+          ? "orderBy" extends Prisma.Keys<T>
+            ? ByValid extends Prisma.True
+              ? {}
+              : {
+                  [P in OrderFields]: P extends ByFields
+                    ? never
+                    : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                }[OrderFields]
+            : 'Error: If you provide "take", you also need to provide "orderBy"'
+          : "skip" extends Prisma.Keys<T>
+            ? "orderBy" extends Prisma.Keys<T>
+              ? ByValid extends Prisma.True
+                ? {}
+                : {
+                    [P in OrderFields]: P extends ByFields
+                      ? never
+                      : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                  }[OrderFields]
+              : 'Error: If you provide "skip", you also need to provide "orderBy"'
+            : ByValid extends Prisma.True
+              ? {}
+              : {
+                  [P in OrderFields]: P extends ByFields
+                    ? never
+                    : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                }[OrderFields]
+  >(
+    args: Prisma.SubsetIntersection<T, EmailRuleGroupByArgs, OrderByArg> & InputErrors
+  ): {} extends InputErrors ? GetEmailRuleGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>;
+  /**
+   * Fields of the EmailRule model
+   */
+  readonly fields: EmailRuleFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for EmailRule.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__EmailRuleClient<
+  T,
+  Null = never,
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+  GlobalOmitOptions = {}
+> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise";
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>
+  ): Prisma.Prisma__UserClient<
+    | runtime.Types.Result.GetResult<
+        Prisma.$UserPayload<ExtArgs>,
+        T,
+        "findUniqueOrThrow",
+        GlobalOmitOptions
+      >
+    | Null,
+    Null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(
+    onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null
+  ): runtime.Types.Utils.JsPromise<TResult1 | TResult2>;
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(
+    onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null
+  ): runtime.Types.Utils.JsPromise<T | TResult>;
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>;
+}
+
+/**
+ * Fields of the EmailRule model
+ */
+export interface EmailRuleFieldRefs {
+  readonly id: Prisma.FieldRef<"EmailRule", "String">;
+  readonly userId: Prisma.FieldRef<"EmailRule", "String">;
+  readonly action: Prisma.FieldRef<"EmailRule", "EmailRuleAction">;
+  readonly sender: Prisma.FieldRef<"EmailRule", "String">;
+  readonly emailType: Prisma.FieldRef<"EmailRule", "EmailType">;
+  readonly startHour: Prisma.FieldRef<"EmailRule", "Int">;
+  readonly endHour: Prisma.FieldRef<"EmailRule", "Int">;
+  readonly ruleKey: Prisma.FieldRef<"EmailRule", "String">;
+  readonly createdAt: Prisma.FieldRef<"EmailRule", "DateTime">;
+}
+
+// Custom InputTypes
+/**
+ * EmailRule findUnique
+ */
+export type EmailRuleFindUniqueArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the EmailRule
+   */
+  select?: Prisma.EmailRuleSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the EmailRule
+   */
+  omit?: Prisma.EmailRuleOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EmailRuleInclude<ExtArgs> | null;
+  /**
+   * Filter, which EmailRule to fetch.
+   */
+  where: Prisma.EmailRuleWhereUniqueInput;
+};
+
+/**
+ * EmailRule findUniqueOrThrow
+ */
+export type EmailRuleFindUniqueOrThrowArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the EmailRule
+   */
+  select?: Prisma.EmailRuleSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the EmailRule
+   */
+  omit?: Prisma.EmailRuleOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EmailRuleInclude<ExtArgs> | null;
+  /**
+   * Filter, which EmailRule to fetch.
+   */
+  where: Prisma.EmailRuleWhereUniqueInput;
+};
+
+/**
+ * EmailRule findFirst
+ */
+export type EmailRuleFindFirstArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the EmailRule
+   */
+  select?: Prisma.EmailRuleSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the EmailRule
+   */
+  omit?: Prisma.EmailRuleOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EmailRuleInclude<ExtArgs> | null;
+  /**
+   * Filter, which EmailRule to fetch.
+   */
+  where?: Prisma.EmailRuleWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of EmailRules to fetch.
+   */
+  orderBy?: Prisma.EmailRuleOrderByWithRelationInput | Prisma.EmailRuleOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for searching for EmailRules.
+   */
+  cursor?: Prisma.EmailRuleWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` EmailRules from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` EmailRules.
+   */
+  skip?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   *
+   * Filter by unique combinations of EmailRules.
+   */
+  distinct?: Prisma.EmailRuleScalarFieldEnum | Prisma.EmailRuleScalarFieldEnum[];
+};
+
+/**
+ * EmailRule findFirstOrThrow
+ */
+export type EmailRuleFindFirstOrThrowArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the EmailRule
+   */
+  select?: Prisma.EmailRuleSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the EmailRule
+   */
+  omit?: Prisma.EmailRuleOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EmailRuleInclude<ExtArgs> | null;
+  /**
+   * Filter, which EmailRule to fetch.
+   */
+  where?: Prisma.EmailRuleWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of EmailRules to fetch.
+   */
+  orderBy?: Prisma.EmailRuleOrderByWithRelationInput | Prisma.EmailRuleOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for searching for EmailRules.
+   */
+  cursor?: Prisma.EmailRuleWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` EmailRules from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` EmailRules.
+   */
+  skip?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   *
+   * Filter by unique combinations of EmailRules.
+   */
+  distinct?: Prisma.EmailRuleScalarFieldEnum | Prisma.EmailRuleScalarFieldEnum[];
+};
+
+/**
+ * EmailRule findMany
+ */
+export type EmailRuleFindManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the EmailRule
+   */
+  select?: Prisma.EmailRuleSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the EmailRule
+   */
+  omit?: Prisma.EmailRuleOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EmailRuleInclude<ExtArgs> | null;
+  /**
+   * Filter, which EmailRules to fetch.
+   */
+  where?: Prisma.EmailRuleWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of EmailRules to fetch.
+   */
+  orderBy?: Prisma.EmailRuleOrderByWithRelationInput | Prisma.EmailRuleOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for listing EmailRules.
+   */
+  cursor?: Prisma.EmailRuleWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` EmailRules from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` EmailRules.
+   */
+  skip?: number;
+  distinct?: Prisma.EmailRuleScalarFieldEnum | Prisma.EmailRuleScalarFieldEnum[];
+};
+
+/**
+ * EmailRule create
+ */
+export type EmailRuleCreateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the EmailRule
+   */
+  select?: Prisma.EmailRuleSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the EmailRule
+   */
+  omit?: Prisma.EmailRuleOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EmailRuleInclude<ExtArgs> | null;
+  /**
+   * The data needed to create a EmailRule.
+   */
+  data: Prisma.XOR<Prisma.EmailRuleCreateInput, Prisma.EmailRuleUncheckedCreateInput>;
+};
+
+/**
+ * EmailRule createMany
+ */
+export type EmailRuleCreateManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * The data used to create many EmailRules.
+   */
+  data: Prisma.EmailRuleCreateManyInput | Prisma.EmailRuleCreateManyInput[];
+  skipDuplicates?: boolean;
+};
+
+/**
+ * EmailRule createManyAndReturn
+ */
+export type EmailRuleCreateManyAndReturnArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the EmailRule
+   */
+  select?: Prisma.EmailRuleSelectCreateManyAndReturn<ExtArgs> | null;
+  /**
+   * Omit specific fields from the EmailRule
+   */
+  omit?: Prisma.EmailRuleOmit<ExtArgs> | null;
+  /**
+   * The data used to create many EmailRules.
+   */
+  data: Prisma.EmailRuleCreateManyInput | Prisma.EmailRuleCreateManyInput[];
+  skipDuplicates?: boolean;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EmailRuleIncludeCreateManyAndReturn<ExtArgs> | null;
+};
+
+/**
+ * EmailRule update
+ */
+export type EmailRuleUpdateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the EmailRule
+   */
+  select?: Prisma.EmailRuleSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the EmailRule
+   */
+  omit?: Prisma.EmailRuleOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EmailRuleInclude<ExtArgs> | null;
+  /**
+   * The data needed to update a EmailRule.
+   */
+  data: Prisma.XOR<Prisma.EmailRuleUpdateInput, Prisma.EmailRuleUncheckedUpdateInput>;
+  /**
+   * Choose, which EmailRule to update.
+   */
+  where: Prisma.EmailRuleWhereUniqueInput;
+};
+
+/**
+ * EmailRule updateMany
+ */
+export type EmailRuleUpdateManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * The data used to update EmailRules.
+   */
+  data: Prisma.XOR<
+    Prisma.EmailRuleUpdateManyMutationInput,
+    Prisma.EmailRuleUncheckedUpdateManyInput
+  >;
+  /**
+   * Filter which EmailRules to update
+   */
+  where?: Prisma.EmailRuleWhereInput;
+  /**
+   * Limit how many EmailRules to update.
+   */
+  limit?: number;
+};
+
+/**
+ * EmailRule updateManyAndReturn
+ */
+export type EmailRuleUpdateManyAndReturnArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the EmailRule
+   */
+  select?: Prisma.EmailRuleSelectUpdateManyAndReturn<ExtArgs> | null;
+  /**
+   * Omit specific fields from the EmailRule
+   */
+  omit?: Prisma.EmailRuleOmit<ExtArgs> | null;
+  /**
+   * The data used to update EmailRules.
+   */
+  data: Prisma.XOR<
+    Prisma.EmailRuleUpdateManyMutationInput,
+    Prisma.EmailRuleUncheckedUpdateManyInput
+  >;
+  /**
+   * Filter which EmailRules to update
+   */
+  where?: Prisma.EmailRuleWhereInput;
+  /**
+   * Limit how many EmailRules to update.
+   */
+  limit?: number;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EmailRuleIncludeUpdateManyAndReturn<ExtArgs> | null;
+};
+
+/**
+ * EmailRule upsert
+ */
+export type EmailRuleUpsertArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the EmailRule
+   */
+  select?: Prisma.EmailRuleSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the EmailRule
+   */
+  omit?: Prisma.EmailRuleOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EmailRuleInclude<ExtArgs> | null;
+  /**
+   * The filter to search for the EmailRule to update in case it exists.
+   */
+  where: Prisma.EmailRuleWhereUniqueInput;
+  /**
+   * In case the EmailRule found by the `where` argument doesn't exist, create a new EmailRule with this data.
+   */
+  create: Prisma.XOR<Prisma.EmailRuleCreateInput, Prisma.EmailRuleUncheckedCreateInput>;
+  /**
+   * In case the EmailRule was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.EmailRuleUpdateInput, Prisma.EmailRuleUncheckedUpdateInput>;
+};
+
+/**
+ * EmailRule delete
+ */
+export type EmailRuleDeleteArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the EmailRule
+   */
+  select?: Prisma.EmailRuleSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the EmailRule
+   */
+  omit?: Prisma.EmailRuleOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EmailRuleInclude<ExtArgs> | null;
+  /**
+   * Filter which EmailRule to delete.
+   */
+  where: Prisma.EmailRuleWhereUniqueInput;
+};
+
+/**
+ * EmailRule deleteMany
+ */
+export type EmailRuleDeleteManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Filter which EmailRules to delete
+   */
+  where?: Prisma.EmailRuleWhereInput;
+  /**
+   * Limit how many EmailRules to delete.
+   */
+  limit?: number;
+};
+
+/**
+ * EmailRule without action
+ */
+export type EmailRuleDefaultArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the EmailRule
+   */
+  select?: Prisma.EmailRuleSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the EmailRule
+   */
+  omit?: Prisma.EmailRuleOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EmailRuleInclude<ExtArgs> | null;
+};
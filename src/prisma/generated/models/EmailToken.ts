@@ -26,6 +26,8 @@ export type AggregateEmailToken = {
 export type EmailTokenMinAggregateOutputType = {
   id: string | null;
   userId: string | null;
+  label: string | null;
+  email: string | null;
   accessToken: string | null;
   refreshToken: string | null;
   expiresAt: Date | null;
@@ -33,6 +35,7 @@ export type EmailTokenMinAggregateOutputType = {
   tokenType: string | null;
   historyId: string | null;
   lastSyncAt: Date | null;
+  watchExpiresAt: Date | null;
   createdAt: Date | null;
   updatedAt: Date | null;
 };
@@ -40,6 +43,8 @@ export type EmailTokenMinAggregateOutputType = {
 export type EmailTokenMaxAggregateOutputType = {
   id: string | null;
   userId: string | null;
+  label: string | null;
+  email: string | null;
   accessToken: string | null;
   refreshToken: string | null;
   expiresAt: Date | null;
@@ -47,6 +52,7 @@ export type EmailTokenMaxAggregateOutputType = {
   tokenType: string | null;
   historyId: string | null;
   lastSyncAt: Date | null;
+  watchExpiresAt: Date | null;
   createdAt: Date | null;
   updatedAt: Date | null;
 };
@@ -54,6 +60,8 @@ export type EmailTokenMaxAggregateOutputType = {
 export type EmailTokenCountAggregateOutputType = {
   id: number;
   userId: number;
+  label: number;
+  email: number;
   accessToken: number;
   refreshToken: number;
   expiresAt: number;
@@ -61,6 +69,7 @@ export type EmailTokenCountAggregateOutputType = {
   tokenType: number;
   historyId: number;
   lastSyncAt: number;
+  watchExpiresAt: number;
   createdAt: number;
   updatedAt: number;
   _all: number;
@@ -69,6 +78,8 @@ export type EmailTokenCountAggregateOutputType = {
 export type EmailTokenMinAggregateInputType = {
   id?: true;
   userId?: true;
+  label?: true;
+  email?: true;
   accessToken?: true;
   refreshToken?: true;
   expiresAt?: true;
@@ -76,6 +87,7 @@ export type EmailTokenMinAggregateInputType = {
   tokenType?: true;
   historyId?: true;
   lastSyncAt?: true;
+  watchExpiresAt?: true;
   createdAt?: true;
   updatedAt?: true;
 };
@@ -83,6 +95,8 @@ export type EmailTokenMinAggregateInputType = {
 export type EmailTokenMaxAggregateInputType = {
   id?: true;
   userId?: true;
+  label?: true;
+  email?: true;
   accessToken?: true;
   refreshToken?: true;
   expiresAt?: true;
@@ -90,6 +104,7 @@ export type EmailTokenMaxAggregateInputType = {
   tokenType?: true;
   historyId?: true;
   lastSyncAt?: true;
+  watchExpiresAt?: true;
   createdAt?: true;
   updatedAt?: true;
 };
@@ -97,6 +112,8 @@ export type EmailTokenMaxAggregateInputType = {
 export type EmailTokenCountAggregateInputType = {
   id?: true;
   userId?: true;
+  label?: true;
+  email?: true;
   accessToken?: true;
   refreshToken?: true;
   expiresAt?: true;
@@ -104,6 +121,7 @@ export type EmailTokenCountAggregateInputType = {
   tokenType?: true;
   historyId?: true;
   lastSyncAt?: true;
+  watchExpiresAt?: true;
   createdAt?: true;
   updatedAt?: true;
   _all?: true;
@@ -187,6 +205,8 @@ export type EmailTokenGroupByArgs<
 export type EmailTokenGroupByOutputType = {
   id: string;
   userId: string;
+  label: string;
+  email: string | null;
   accessToken: string;
   refreshToken: string;
   expiresAt: Date;
@@ -194,6 +214,7 @@ export type EmailTokenGroupByOutputType = {
   tokenType: string;
   historyId: string | null;
   lastSyncAt: Date | null;
+  watchExpiresAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
   _count: EmailTokenCountAggregateOutputType | null;
@@ -219,6 +240,8 @@ export type EmailTokenWhereInput = {
   NOT?: Prisma.EmailTokenWhereInput | Prisma.EmailTokenWhereInput[];
   id?: Prisma.StringFilter<"EmailToken"> | string;
   userId?: Prisma.StringFilter<"EmailToken"> | string;
+  label?: Prisma.StringFilter<"EmailToken"> | string;
+  email?: Prisma.StringNullableFilter<"EmailToken"> | string | null;
   accessToken?: Prisma.StringFilter<"EmailToken"> | string;
   refreshToken?: Prisma.StringFilter<"EmailToken"> | string;
   expiresAt?: Prisma.DateTimeFilter<"EmailToken"> | Date | string;
@@ -226,6 +249,7 @@ export type EmailTokenWhereInput = {
   tokenType?: Prisma.StringFilter<"EmailToken"> | string;
   historyId?: Prisma.StringNullableFilter<"EmailToken"> | string | null;
   lastSyncAt?: Prisma.DateTimeNullableFilter<"EmailToken"> | Date | string | null;
+  watchExpiresAt?: Prisma.DateTimeNullableFilter<"EmailToken"> | Date | string | null;
   createdAt?: Prisma.DateTimeFilter<"EmailToken"> | Date | string;
   updatedAt?: Prisma.DateTimeFilter<"EmailToken"> | Date | string;
   user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>;
@@ -234,6 +258,8 @@ export type EmailTokenWhereInput = {
 export type EmailTokenOrderByWithRelationInput = {
   id?: Prisma.SortOrder;
   userId?: Prisma.SortOrder;
+  label?: Prisma.SortOrder;
+  email?: Prisma.SortOrderInput | Prisma.SortOrder;
   accessToken?: Prisma.SortOrder;
   refreshToken?: Prisma.SortOrder;
   expiresAt?: Prisma.SortOrder;
@@ -241,6 +267,7 @@ export type EmailTokenOrderByWithRelationInput = {
   tokenType?: Prisma.SortOrder;
   historyId?: Prisma.SortOrderInput | Prisma.SortOrder;
   lastSyncAt?: Prisma.SortOrderInput | Prisma.SortOrder;
+  watchExpiresAt?: Prisma.SortOrderInput | Prisma.SortOrder;
   createdAt?: Prisma.SortOrder;
   updatedAt?: Prisma.SortOrder;
   user?: Prisma.UserOrderByWithRelationInput;
@@ -249,10 +276,13 @@ export type EmailTokenOrderByWithRelationInput = {
 export type EmailTokenWhereUniqueInput = Prisma.AtLeast<
   {
     id?: string;
-    userId?: string;
+    userId_label?: Prisma.EmailTokenUserIdLabelCompoundUniqueInput;
     AND?: Prisma.EmailTokenWhereInput | Prisma.EmailTokenWhereInput[];
     OR?: Prisma.EmailTokenWhereInput[];
     NOT?: Prisma.EmailTokenWhereInput | Prisma.EmailTokenWhereInput[];
+    userId?: Prisma.StringFilter<"EmailToken"> | string;
+    label?: Prisma.StringFilter<"EmailToken"> | string;
+    email?: Prisma.StringNullableFilter<"EmailToken"> | string | null;
     accessToken?: Prisma.StringFilter<"EmailToken"> | string;
     refreshToken?: Prisma.StringFilter<"EmailToken"> | string;
     expiresAt?: Prisma.DateTimeFilter<"EmailToken"> | Date | string;
@@ -260,16 +290,19 @@ export type EmailTokenWhereUniqueInput = Prisma.AtLeast<
     tokenType?: Prisma.StringFilter<"EmailToken"> | string;
     historyId?: Prisma.StringNullableFilter<"EmailToken"> | string | null;
     lastSyncAt?: Prisma.DateTimeNullableFilter<"EmailToken"> | Date | string | null;
+    watchExpiresAt?: Prisma.DateTimeNullableFilter<"EmailToken"> | Date | string | null;
     createdAt?: Prisma.DateTimeFilter<"EmailToken"> | Date | string;
     updatedAt?: Prisma.DateTimeFilter<"EmailToken"> | Date | string;
     user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>;
   },
-  "id" | "userId"
+  "id" | "userId_label"
 >;
 
 export type EmailTokenOrderByWithAggregationInput = {
   id?: Prisma.SortOrder;
   userId?: Prisma.SortOrder;
+  label?: Prisma.SortOrder;
+  email?: Prisma.SortOrderInput | Prisma.SortOrder;
   accessToken?: Prisma.SortOrder;
   refreshToken?: Prisma.SortOrder;
   expiresAt?: Prisma.SortOrder;
@@ -277,6 +310,7 @@ export type EmailTokenOrderByWithAggregationInput = {
   tokenType?: Prisma.SortOrder;
   historyId?: Prisma.SortOrderInput | Prisma.SortOrder;
   lastSyncAt?: Prisma.SortOrderInput | Prisma.SortOrder;
+  watchExpiresAt?: Prisma.SortOrderInput | Prisma.SortOrder;
   createdAt?: Prisma.SortOrder;
   updatedAt?: Prisma.SortOrder;
   _count?: Prisma.EmailTokenCountOrderByAggregateInput;
@@ -294,6 +328,8 @@ export type EmailTokenScalarWhereWithAggregatesInput = {
     | Prisma.EmailTokenScalarWhereWithAggregatesInput[];
   id?: Prisma.StringWithAggregatesFilter<"EmailToken"> | string;
   userId?: Prisma.StringWithAggregatesFilter<"EmailToken"> | string;
+  label?: Prisma.StringWithAggregatesFilter<"EmailToken"> | string;
+  email?: Prisma.StringNullableWithAggregatesFilter<"EmailToken"> | string | null;
   accessToken?: Prisma.StringWithAggregatesFilter<"EmailToken"> | string;
   refreshToken?: Prisma.StringWithAggregatesFilter<"EmailToken"> | string;
   expiresAt?: Prisma.DateTimeWithAggregatesFilter<"EmailToken"> | Date | string;
@@ -301,12 +337,15 @@ export type EmailTokenScalarWhereWithAggregatesInput = {
   tokenType?: Prisma.StringWithAggregatesFilter<"EmailToken"> | string;
   historyId?: Prisma.StringNullableWithAggregatesFilter<"EmailToken"> | string | null;
   lastSyncAt?: Prisma.DateTimeNullableWithAggregatesFilter<"EmailToken"> | Date | string | null;
+  watchExpiresAt?: Prisma.DateTimeNullableWithAggregatesFilter<"EmailToken"> | Date | string | null;
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"EmailToken"> | Date | string;
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"EmailToken"> | Date | string;
 };
 
 export type EmailTokenCreateInput = {
   id?: string;
+  label?: string;
+  email?: string | null;
   accessToken: string;
   refreshToken: string;
   expiresAt: Date | string;
@@ -314,14 +353,17 @@ export type EmailTokenCreateInput = {
   tokenType?: string;
   historyId?: string | null;
   lastSyncAt?: Date | string | null;
+  watchExpiresAt?: Date | string | null;
   createdAt?: Date | string;
   updatedAt?: Date | string;
-  user: Prisma.UserCreateNestedOneWithoutEmailTokenInput;
+  user: Prisma.UserCreateNestedOneWithoutEmailTokensInput;
 };
 
 export type EmailTokenUncheckedCreateInput = {
   id?: string;
   userId: string;
+  label?: string;
+  email?: string | null;
   accessToken: string;
   refreshToken: string;
   expiresAt: Date | string;
@@ -329,12 +371,15 @@ export type EmailTokenUncheckedCreateInput = {
   tokenType?: string;
   historyId?: string | null;
   lastSyncAt?: Date | string | null;
+  watchExpiresAt?: Date | string | null;
   createdAt?: Date | string;
   updatedAt?: Date | string;
 };
 
 export type EmailTokenUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
+  label?: Prisma.StringFieldUpdateOperationsInput | string;
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   accessToken?: Prisma.StringFieldUpdateOperationsInput | string;
   refreshToken?: Prisma.StringFieldUpdateOperationsInput | string;
   expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
@@ -342,14 +387,17 @@ export type EmailTokenUpdateInput = {
   tokenType?: Prisma.StringFieldUpdateOperationsInput | string;
   historyId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   lastSyncAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  watchExpiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
-  user?: Prisma.UserUpdateOneRequiredWithoutEmailTokenNestedInput;
+  user?: Prisma.UserUpdateOneRequiredWithoutEmailTokensNestedInput;
 };
 
 export type EmailTokenUncheckedUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
   userId?: Prisma.StringFieldUpdateOperationsInput | string;
+  label?: Prisma.StringFieldUpdateOperationsInput | string;
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   accessToken?: Prisma.StringFieldUpdateOperationsInput | string;
   refreshToken?: Prisma.StringFieldUpdateOperationsInput | string;
   expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
@@ -357,6 +405,7 @@ export type EmailTokenUncheckedUpdateInput = {
   tokenType?: Prisma.StringFieldUpdateOperationsInput | string;
   historyId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   lastSyncAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  watchExpiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 };
@@ -364,6 +413,8 @@ export type EmailTokenUncheckedUpdateInput = {
 export type EmailTokenCreateManyInput = {
   id?: string;
   userId: string;
+  label?: string;
+  email?: string | null;
   accessToken: string;
   refreshToken: string;
   expiresAt: Date | string;
@@ -371,12 +422,15 @@ export type EmailTokenCreateManyInput = {
   tokenType?: string;
   historyId?: string | null;
   lastSyncAt?: Date | string | null;
+  watchExpiresAt?: Date | string | null;
   createdAt?: Date | string;
   updatedAt?: Date | string;
 };
 
 export type EmailTokenUpdateManyMutationInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
+  label?: Prisma.StringFieldUpdateOperationsInput | string;
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   accessToken?: Prisma.StringFieldUpdateOperationsInput | string;
   refreshToken?: Prisma.StringFieldUpdateOperationsInput | string;
   expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
@@ -384,6 +438,7 @@ export type EmailTokenUpdateManyMutationInput = {
   tokenType?: Prisma.StringFieldUpdateOperationsInput | string;
   historyId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   lastSyncAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  watchExpiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 };
@@ -391,6 +446,8 @@ export type EmailTokenUpdateManyMutationInput = {
 export type EmailTokenUncheckedUpdateManyInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
   userId?: Prisma.StringFieldUpdateOperationsInput | string;
+  label?: Prisma.StringFieldUpdateOperationsInput | string;
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   accessToken?: Prisma.StringFieldUpdateOperationsInput | string;
   refreshToken?: Prisma.StringFieldUpdateOperationsInput | string;
   expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
@@ -398,18 +455,31 @@ export type EmailTokenUncheckedUpdateManyInput = {
   tokenType?: Prisma.StringFieldUpdateOperationsInput | string;
   historyId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   lastSyncAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  watchExpiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 };
 
-export type EmailTokenNullableScalarRelationFilter = {
-  is?: Prisma.EmailTokenWhereInput | null;
-  isNot?: Prisma.EmailTokenWhereInput | null;
+export type EmailTokenListRelationFilter = {
+  every?: Prisma.EmailTokenWhereInput;
+  some?: Prisma.EmailTokenWhereInput;
+  none?: Prisma.EmailTokenWhereInput;
+};
+
+export type EmailTokenOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder;
+};
+
+export type EmailTokenUserIdLabelCompoundUniqueInput = {
+  userId: string;
+  label: string;
 };
 
 export type EmailTokenCountOrderByAggregateInput = {
   id?: Prisma.SortOrder;
   userId?: Prisma.SortOrder;
+  label?: Prisma.SortOrder;
+  email?: Prisma.SortOrder;
   accessToken?: Prisma.SortOrder;
   refreshToken?: Prisma.SortOrder;
   expiresAt?: Prisma.SortOrder;
@@ -417,6 +487,7 @@ export type EmailTokenCountOrderByAggregateInput = {
   tokenType?: Prisma.SortOrder;
   historyId?: Prisma.SortOrder;
   lastSyncAt?: Prisma.SortOrder;
+  watchExpiresAt?: Prisma.SortOrder;
   createdAt?: Prisma.SortOrder;
   updatedAt?: Prisma.SortOrder;
 };
@@ -424,6 +495,8 @@ export type EmailTokenCountOrderByAggregateInput = {
 export type EmailTokenMaxOrderByAggregateInput = {
   id?: Prisma.SortOrder;
   userId?: Prisma.SortOrder;
+  label?: Prisma.SortOrder;
+  email?: Prisma.SortOrder;
   accessToken?: Prisma.SortOrder;
   refreshToken?: Prisma.SortOrder;
   expiresAt?: Prisma.SortOrder;
@@ -431,6 +504,7 @@ export type EmailTokenMaxOrderByAggregateInput = {
   tokenType?: Prisma.SortOrder;
   historyId?: Prisma.SortOrder;
   lastSyncAt?: Prisma.SortOrder;
+  watchExpiresAt?: Prisma.SortOrder;
   createdAt?: Prisma.SortOrder;
   updatedAt?: Prisma.SortOrder;
 };
@@ -438,6 +512,8 @@ export type EmailTokenMaxOrderByAggregateInput = {
 export type EmailTokenMinOrderByAggregateInput = {
   id?: Prisma.SortOrder;
   userId?: Prisma.SortOrder;
+  label?: Prisma.SortOrder;
+  email?: Prisma.SortOrder;
   accessToken?: Prisma.SortOrder;
   refreshToken?: Prisma.SortOrder;
   expiresAt?: Prisma.SortOrder;
@@ -445,68 +521,101 @@ export type EmailTokenMinOrderByAggregateInput = {
   tokenType?: Prisma.SortOrder;
   historyId?: Prisma.SortOrder;
   lastSyncAt?: Prisma.SortOrder;
+  watchExpiresAt?: Prisma.SortOrder;
   createdAt?: Prisma.SortOrder;
   updatedAt?: Prisma.SortOrder;
 };
 
-export type EmailTokenCreateNestedOneWithoutUserInput = {
-  create?: Prisma.XOR<
-    Prisma.EmailTokenCreateWithoutUserInput,
-    Prisma.EmailTokenUncheckedCreateWithoutUserInput
-  >;
-  connectOrCreate?: Prisma.EmailTokenCreateOrConnectWithoutUserInput;
-  connect?: Prisma.EmailTokenWhereUniqueInput;
+export type EmailTokenCreateNestedManyWithoutUserInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.EmailTokenCreateWithoutUserInput,
+        Prisma.EmailTokenUncheckedCreateWithoutUserInput
+      >
+    | Prisma.EmailTokenCreateWithoutUserInput[]
+    | Prisma.EmailTokenUncheckedCreateWithoutUserInput[];
+  connectOrCreate?:
+    | Prisma.EmailTokenCreateOrConnectWithoutUserInput
+    | Prisma.EmailTokenCreateOrConnectWithoutUserInput[];
+  createMany?: Prisma.EmailTokenCreateManyUserInputEnvelope;
+  connect?: Prisma.EmailTokenWhereUniqueInput | Prisma.EmailTokenWhereUniqueInput[];
 };
 
-export type EmailTokenUncheckedCreateNestedOneWithoutUserInput = {
-  create?: Prisma.XOR<
-    Prisma.EmailTokenCreateWithoutUserInput,
-    Prisma.EmailTokenUncheckedCreateWithoutUserInput
-  >;
-  connectOrCreate?: Prisma.EmailTokenCreateOrConnectWithoutUserInput;
-  connect?: Prisma.EmailTokenWhereUniqueInput;
+export type EmailTokenUncheckedCreateNestedManyWithoutUserInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.EmailTokenCreateWithoutUserInput,
+        Prisma.EmailTokenUncheckedCreateWithoutUserInput
+      >
+    | Prisma.EmailTokenCreateWithoutUserInput[]
+    | Prisma.EmailTokenUncheckedCreateWithoutUserInput[];
+  connectOrCreate?:
+    | Prisma.EmailTokenCreateOrConnectWithoutUserInput
+    | Prisma.EmailTokenCreateOrConnectWithoutUserInput[];
+  createMany?: Prisma.EmailTokenCreateManyUserInputEnvelope;
+  connect?: Prisma.EmailTokenWhereUniqueInput | Prisma.EmailTokenWhereUniqueInput[];
 };
 
-export type EmailTokenUpdateOneWithoutUserNestedInput = {
-  create?: Prisma.XOR<
-    Prisma.EmailTokenCreateWithoutUserInput,
-    Prisma.EmailTokenUncheckedCreateWithoutUserInput
-  >;
-  connectOrCreate?: Prisma.EmailTokenCreateOrConnectWithoutUserInput;
-  upsert?: Prisma.EmailTokenUpsertWithoutUserInput;
-  disconnect?: Prisma.EmailTokenWhereInput | boolean;
-  delete?: Prisma.EmailTokenWhereInput | boolean;
-  connect?: Prisma.EmailTokenWhereUniqueInput;
-  update?: Prisma.XOR<
-    Prisma.XOR<
-      Prisma.EmailTokenUpdateToOneWithWhereWithoutUserInput,
-      Prisma.EmailTokenUpdateWithoutUserInput
-    >,
-    Prisma.EmailTokenUncheckedUpdateWithoutUserInput
-  >;
+export type EmailTokenUpdateManyWithoutUserNestedInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.EmailTokenCreateWithoutUserInput,
+        Prisma.EmailTokenUncheckedCreateWithoutUserInput
+      >
+    | Prisma.EmailTokenCreateWithoutUserInput[]
+    | Prisma.EmailTokenUncheckedCreateWithoutUserInput[];
+  connectOrCreate?:
+    | Prisma.EmailTokenCreateOrConnectWithoutUserInput
+    | Prisma.EmailTokenCreateOrConnectWithoutUserInput[];
+  upsert?:
+    | Prisma.EmailTokenUpsertWithWhereUniqueWithoutUserInput
+    | Prisma.EmailTokenUpsertWithWhereUniqueWithoutUserInput[];
+  createMany?: Prisma.EmailTokenCreateManyUserInputEnvelope;
+  set?: Prisma.EmailTokenWhereUniqueInput | Prisma.EmailTokenWhereUniqueInput[];
+  disconnect?: Prisma.EmailTokenWhereUniqueInput | Prisma.EmailTokenWhereUniqueInput[];
+  delete?: Prisma.EmailTokenWhereUniqueInput | Prisma.EmailTokenWhereUniqueInput[];
+  connect?: Prisma.EmailTokenWhereUniqueInput | Prisma.EmailTokenWhereUniqueInput[];
+  update?:
+    | Prisma.EmailTokenUpdateWithWhereUniqueWithoutUserInput
+    | Prisma.EmailTokenUpdateWithWhereUniqueWithoutUserInput[];
+  updateMany?:
+    | Prisma.EmailTokenUpdateManyWithWhereWithoutUserInput
+    | Prisma.EmailTokenUpdateManyWithWhereWithoutUserInput[];
+  deleteMany?: Prisma.EmailTokenScalarWhereInput | Prisma.EmailTokenScalarWhereInput[];
 };
 
-export type EmailTokenUncheckedUpdateOneWithoutUserNestedInput = {
-  create?: Prisma.XOR<
-    Prisma.EmailTokenCreateWithoutUserInput,
-    Prisma.EmailTokenUncheckedCreateWithoutUserInput
-  >;
-  connectOrCreate?: Prisma.EmailTokenCreateOrConnectWithoutUserInput;
-  upsert?: Prisma.EmailTokenUpsertWithoutUserInput;
-  disconnect?: Prisma.EmailTokenWhereInput | boolean;
-  delete?: Prisma.EmailTokenWhereInput | boolean;
-  connect?: Prisma.EmailTokenWhereUniqueInput;
-  update?: Prisma.XOR<
-    Prisma.XOR<
-      Prisma.EmailTokenUpdateToOneWithWhereWithoutUserInput,
-      Prisma.EmailTokenUpdateWithoutUserInput
-    >,
-    Prisma.EmailTokenUncheckedUpdateWithoutUserInput
-  >;
+export type EmailTokenUncheckedUpdateManyWithoutUserNestedInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.EmailTokenCreateWithoutUserInput,
+        Prisma.EmailTokenUncheckedCreateWithoutUserInput
+      >
+    | Prisma.EmailTokenCreateWithoutUserInput[]
+    | Prisma.EmailTokenUncheckedCreateWithoutUserInput[];
+  connectOrCreate?:
+    | Prisma.EmailTokenCreateOrConnectWithoutUserInput
+    | Prisma.EmailTokenCreateOrConnectWithoutUserInput[];
+  upsert?:
+    | Prisma.EmailTokenUpsertWithWhereUniqueWithoutUserInput
+    | Prisma.EmailTokenUpsertWithWhereUniqueWithoutUserInput[];
+  createMany?: Prisma.EmailTokenCreateManyUserInputEnvelope;
+  set?: Prisma.EmailTokenWhereUniqueInput | Prisma.EmailTokenWhereUniqueInput[];
+  disconnect?: Prisma.EmailTokenWhereUniqueInput | Prisma.EmailTokenWhereUniqueInput[];
+  delete?: Prisma.EmailTokenWhereUniqueInput | Prisma.EmailTokenWhereUniqueInput[];
+  connect?: Prisma.EmailTokenWhereUniqueInput | Prisma.EmailTokenWhereUniqueInput[];
+  update?:
+    | Prisma.EmailTokenUpdateWithWhereUniqueWithoutUserInput
+    | Prisma.EmailTokenUpdateWithWhereUniqueWithoutUserInput[];
+  updateMany?:
+    | Prisma.EmailTokenUpdateManyWithWhereWithoutUserInput
+    | Prisma.EmailTokenUpdateManyWithWhereWithoutUserInput[];
+  deleteMany?: Prisma.EmailTokenScalarWhereInput | Prisma.EmailTokenScalarWhereInput[];
 };
 
 export type EmailTokenCreateWithoutUserInput = {
   id?: string;
+  label?: string;
+  email?: string | null;
   accessToken: string;
   refreshToken: string;
   expiresAt: Date | string;
@@ -514,12 +623,15 @@ export type EmailTokenCreateWithoutUserInput = {
   tokenType?: string;
   historyId?: string | null;
   lastSyncAt?: Date | string | null;
+  watchExpiresAt?: Date | string | null;
   createdAt?: Date | string;
   updatedAt?: Date | string;
 };
 
 export type EmailTokenUncheckedCreateWithoutUserInput = {
   id?: string;
+  label?: string;
+  email?: string | null;
   accessToken: string;
   refreshToken: string;
   expiresAt: Date | string;
@@ -527,6 +639,7 @@ export type EmailTokenUncheckedCreateWithoutUserInput = {
   tokenType?: string;
   historyId?: string | null;
   lastSyncAt?: Date | string | null;
+  watchExpiresAt?: Date | string | null;
   createdAt?: Date | string;
   updatedAt?: Date | string;
 };
@@ -539,7 +652,13 @@ export type EmailTokenCreateOrConnectWithoutUserInput = {
   >;
 };
 
-export type EmailTokenUpsertWithoutUserInput = {
+export type EmailTokenCreateManyUserInputEnvelope = {
+  data: Prisma.EmailTokenCreateManyUserInput | Prisma.EmailTokenCreateManyUserInput[];
+  skipDuplicates?: boolean;
+};
+
+export type EmailTokenUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.EmailTokenWhereUniqueInput;
   update: Prisma.XOR<
     Prisma.EmailTokenUpdateWithoutUserInput,
     Prisma.EmailTokenUncheckedUpdateWithoutUserInput
@@ -548,19 +667,64 @@ export type EmailTokenUpsertWithoutUserInput = {
     Prisma.EmailTokenCreateWithoutUserInput,
     Prisma.EmailTokenUncheckedCreateWithoutUserInput
   >;
-  where?: Prisma.EmailTokenWhereInput;
 };
 
-export type EmailTokenUpdateToOneWithWhereWithoutUserInput = {
-  where?: Prisma.EmailTokenWhereInput;
+export type EmailTokenUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.EmailTokenWhereUniqueInput;
   data: Prisma.XOR<
     Prisma.EmailTokenUpdateWithoutUserInput,
     Prisma.EmailTokenUncheckedUpdateWithoutUserInput
   >;
 };
 
+export type EmailTokenUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.EmailTokenScalarWhereInput;
+  data: Prisma.XOR<
+    Prisma.EmailTokenUpdateManyMutationInput,
+    Prisma.EmailTokenUncheckedUpdateManyWithoutUserInput
+  >;
+};
+
+export type EmailTokenScalarWhereInput = {
+  AND?: Prisma.EmailTokenScalarWhereInput | Prisma.EmailTokenScalarWhereInput[];
+  OR?: Prisma.EmailTokenScalarWhereInput[];
+  NOT?: Prisma.EmailTokenScalarWhereInput | Prisma.EmailTokenScalarWhereInput[];
+  id?: Prisma.StringFilter<"EmailToken"> | string;
+  userId?: Prisma.StringFilter<"EmailToken"> | string;
+  label?: Prisma.StringFilter<"EmailToken"> | string;
+  email?: Prisma.StringNullableFilter<"EmailToken"> | string | null;
+  accessToken?: Prisma.StringFilter<"EmailToken"> | string;
+  refreshToken?: Prisma.StringFilter<"EmailToken"> | string;
+  expiresAt?: Prisma.DateTimeFilter<"EmailToken"> | Date | string;
+  scope?: Prisma.StringFilter<"EmailToken"> | string;
+  tokenType?: Prisma.StringFilter<"EmailToken"> | string;
+  historyId?: Prisma.StringNullableFilter<"EmailToken"> | string | null;
+  lastSyncAt?: Prisma.DateTimeNullableFilter<"EmailToken"> | Date | string | null;
+  watchExpiresAt?: Prisma.DateTimeNullableFilter<"EmailToken"> | Date | string | null;
+  createdAt?: Prisma.DateTimeFilter<"EmailToken"> | Date | string;
+  updatedAt?: Prisma.DateTimeFilter<"EmailToken"> | Date | string;
+};
+
+export type EmailTokenCreateManyUserInput = {
+  id?: string;
+  label?: string;
+  email?: string | null;
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: Date | string;
+  scope: string;
+  tokenType?: string;
+  historyId?: string | null;
+  lastSyncAt?: Date | string | null;
+  watchExpiresAt?: Date | string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+};
+
 export type EmailTokenUpdateWithoutUserInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
+  label?: Prisma.StringFieldUpdateOperationsInput | string;
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   accessToken?: Prisma.StringFieldUpdateOperationsInput | string;
   refreshToken?: Prisma.StringFieldUpdateOperationsInput | string;
   expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
@@ -568,12 +732,31 @@ export type EmailTokenUpdateWithoutUserInput = {
   tokenType?: Prisma.StringFieldUpdateOperationsInput | string;
   historyId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   lastSyncAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  watchExpiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 };
 
 export type EmailTokenUncheckedUpdateWithoutUserInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
+  label?: Prisma.StringFieldUpdateOperationsInput | string;
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  accessToken?: Prisma.StringFieldUpdateOperationsInput | string;
+  refreshToken?: Prisma.StringFieldUpdateOperationsInput | string;
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  scope?: Prisma.StringFieldUpdateOperationsInput | string;
+  tokenType?: Prisma.StringFieldUpdateOperationsInput | string;
+  historyId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  lastSyncAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  watchExpiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type EmailTokenUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  label?: Prisma.StringFieldUpdateOperationsInput | string;
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   accessToken?: Prisma.StringFieldUpdateOperationsInput | string;
   refreshToken?: Prisma.StringFieldUpdateOperationsInput | string;
   expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
@@ -581,6 +764,7 @@ export type EmailTokenUncheckedUpdateWithoutUserInput = {
   tokenType?: Prisma.StringFieldUpdateOperationsInput | string;
   historyId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   lastSyncAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  watchExpiresAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 };
@@ -591,6 +775,8 @@ export type EmailTokenSelect<
   {
     id?: boolean;
     userId?: boolean;
+    label?: boolean;
+    email?: boolean;
     accessToken?: boolean;
     refreshToken?: boolean;
     expiresAt?: boolean;
@@ -598,6 +784,7 @@ export type EmailTokenSelect<
     tokenType?: boolean;
     historyId?: boolean;
     lastSyncAt?: boolean;
+    watchExpiresAt?: boolean;
     createdAt?: boolean;
     updatedAt?: boolean;
     user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
@@ -611,6 +798,8 @@ export type EmailTokenSelectCreateManyAndReturn<
   {
     id?: boolean;
     userId?: boolean;
+    label?: boolean;
+    email?: boolean;
     accessToken?: boolean;
     refreshToken?: boolean;
     expiresAt?: boolean;
@@ -618,6 +807,7 @@ export type EmailTokenSelectCreateManyAndReturn<
     tokenType?: boolean;
     historyId?: boolean;
     lastSyncAt?: boolean;
+    watchExpiresAt?: boolean;
     createdAt?: boolean;
     updatedAt?: boolean;
     user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
@@ -631,6 +821,8 @@ export type EmailTokenSelectUpdateManyAndReturn<
   {
     id?: boolean;
     userId?: boolean;
+    label?: boolean;
+    email?: boolean;
     accessToken?: boolean;
     refreshToken?: boolean;
     expiresAt?: boolean;
@@ -638,6 +830,7 @@ export type EmailTokenSelectUpdateManyAndReturn<
     tokenType?: boolean;
     historyId?: boolean;
     lastSyncAt?: boolean;
+    watchExpiresAt?: boolean;
     createdAt?: boolean;
     updatedAt?: boolean;
     user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
@@ -648,6 +841,8 @@ export type EmailTokenSelectUpdateManyAndReturn<
 export type EmailTokenSelectScalar = {
   id?: boolean;
   userId?: boolean;
+  label?: boolean;
+  email?: boolean;
   accessToken?: boolean;
   refreshToken?: boolean;
   expiresAt?: boolean;
@@ -655,6 +850,7 @@ export type EmailTokenSelectScalar = {
   tokenType?: boolean;
   historyId?: boolean;
   lastSyncAt?: boolean;
+  watchExpiresAt?: boolean;
   createdAt?: boolean;
   updatedAt?: boolean;
 };
@@ -664,6 +860,8 @@ export type EmailTokenOmit<
 > = runtime.Types.Extensions.GetOmit<
   | "id"
   | "userId"
+  | "label"
+  | "email"
   | "accessToken"
   | "refreshToken"
   | "expiresAt"
@@ -671,6 +869,7 @@ export type EmailTokenOmit<
   | "tokenType"
   | "historyId"
   | "lastSyncAt"
+  | "watchExpiresAt"
   | "createdAt"
   | "updatedAt",
   ExtArgs["result"]["emailToken"]
@@ -702,6 +901,8 @@ export type $EmailTokenPayload<
     {
       id: string;
       userId: string;
+      label: string;
+      email: string | null;
       accessToken: string;
       refreshToken: string;
       expiresAt: Date;
@@ -709,6 +910,7 @@ export type $EmailTokenPayload<
       tokenType: string;
       historyId: string | null;
       lastSyncAt: Date | null;
+      watchExpiresAt: Date | null;
       createdAt: Date;
       updatedAt: Date;
     },
@@ -1296,6 +1498,8 @@ export interface Prisma__EmailTokenClient<
 export interface EmailTokenFieldRefs {
   readonly id: Prisma.FieldRef<"EmailToken", "String">;
   readonly userId: Prisma.FieldRef<"EmailToken", "String">;
+  readonly label: Prisma.FieldRef<"EmailToken", "String">;
+  readonly email: Prisma.FieldRef<"EmailToken", "String">;
   readonly accessToken: Prisma.FieldRef<"EmailToken", "String">;
   readonly refreshToken: Prisma.FieldRef<"EmailToken", "String">;
   readonly expiresAt: Prisma.FieldRef<"EmailToken", "DateTime">;
@@ -1303,6 +1507,7 @@ export interface EmailTokenFieldRefs {
   readonly tokenType: Prisma.FieldRef<"EmailToken", "String">;
   readonly historyId: Prisma.FieldRef<"EmailToken", "String">;
   readonly lastSyncAt: Prisma.FieldRef<"EmailToken", "DateTime">;
+  readonly watchExpiresAt: Prisma.FieldRef<"EmailToken", "DateTime">;
   readonly createdAt: Prisma.FieldRef<"EmailToken", "DateTime">;
   readonly updatedAt: Prisma.FieldRef<"EmailToken", "DateTime">;
 }
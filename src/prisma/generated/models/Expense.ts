@@ -43,6 +43,8 @@ export type ExpenseMinAggregateOutputType = {
   category: $Enums.ExpenseCategory | null;
   description: string | null;
   date: Date | null;
+  customCategoryId: string | null;
+  exchangeRateId: string | null;
   createdAt: Date | null;
   updatedAt: Date | null;
 };
@@ -57,6 +59,8 @@ export type ExpenseMaxAggregateOutputType = {
   category: $Enums.ExpenseCategory | null;
   description: string | null;
   date: Date | null;
+  customCategoryId: string | null;
+  exchangeRateId: string | null;
   createdAt: Date | null;
   updatedAt: Date | null;
 };
@@ -71,6 +75,9 @@ export type ExpenseCountAggregateOutputType = {
   category: number;
   description: number;
   date: number;
+  customCategoryId: number;
+  tags: number;
+  exchangeRateId: number;
   createdAt: number;
   updatedAt: number;
   _all: number;
@@ -94,6 +101,8 @@ export type ExpenseMinAggregateInputType = {
   category?: true;
   description?: true;
   date?: true;
+  customCategoryId?: true;
+  exchangeRateId?: true;
   createdAt?: true;
   updatedAt?: true;
 };
@@ -108,6 +117,8 @@ export type ExpenseMaxAggregateInputType = {
   category?: true;
   description?: true;
   date?: true;
+  customCategoryId?: true;
+  exchangeRateId?: true;
   createdAt?: true;
   updatedAt?: true;
 };
@@ -122,6 +133,9 @@ export type ExpenseCountAggregateInputType = {
   category?: true;
   description?: true;
   date?: true;
+  customCategoryId?: true;
+  tags?: true;
+  exchangeRateId?: true;
   createdAt?: true;
   updatedAt?: true;
   _all?: true;
@@ -224,6 +238,9 @@ export type ExpenseGroupByOutputType = {
   category: $Enums.ExpenseCategory;
   description: string | null;
   date: Date;
+  customCategoryId: string | null;
+  tags: string[];
+  exchangeRateId: string | null;
   createdAt: Date;
   updatedAt: Date;
   _count: ExpenseCountAggregateOutputType | null;
@@ -263,6 +280,9 @@ export type ExpenseWhereInput = {
   category?: Prisma.EnumExpenseCategoryFilter<"Expense"> | $Enums.ExpenseCategory;
   description?: Prisma.StringNullableFilter<"Expense"> | string | null;
   date?: Prisma.DateTimeFilter<"Expense"> | Date | string;
+  customCategoryId?: Prisma.StringNullableFilter<"Expense"> | string | null;
+  tags?: Prisma.StringNullableListFilter<"Expense">;
+  exchangeRateId?: Prisma.StringNullableFilter<"Expense"> | string | null;
   createdAt?: Prisma.DateTimeFilter<"Expense"> | Date | string;
   updatedAt?: Prisma.DateTimeFilter<"Expense"> | Date | string;
   user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>;
@@ -270,6 +290,19 @@ export type ExpenseWhereInput = {
     Prisma.ProcessedEmailNullableScalarRelationFilter,
     Prisma.ProcessedEmailWhereInput
   > | null;
+  customCategory?: Prisma.XOR<
+    Prisma.CustomCategoryNullableScalarRelationFilter,
+    Prisma.CustomCategoryWhereInput
+  > | null;
+  exchangeRate?: Prisma.XOR<
+    Prisma.ExchangeRateNullableScalarRelationFilter,
+    Prisma.ExchangeRateWhereInput
+  > | null;
+  shares?: Prisma.ExpenseShareListRelationFilter;
+  anomaly?: Prisma.XOR<
+    Prisma.ExpenseAnomalyNullableScalarRelationFilter,
+    Prisma.ExpenseAnomalyWhereInput
+  > | null;
 };
 
 export type ExpenseOrderByWithRelationInput = {
@@ -282,10 +315,17 @@ export type ExpenseOrderByWithRelationInput = {
   category?: Prisma.SortOrder;
   description?: Prisma.SortOrderInput | Prisma.SortOrder;
   date?: Prisma.SortOrder;
+  customCategoryId?: Prisma.SortOrderInput | Prisma.SortOrder;
+  tags?: Prisma.SortOrder;
+  exchangeRateId?: Prisma.SortOrderInput | Prisma.SortOrder;
   createdAt?: Prisma.SortOrder;
   updatedAt?: Prisma.SortOrder;
   user?: Prisma.UserOrderByWithRelationInput;
   processedEmail?: Prisma.ProcessedEmailOrderByWithRelationInput;
+  customCategory?: Prisma.CustomCategoryOrderByWithRelationInput;
+  exchangeRate?: Prisma.ExchangeRateOrderByWithRelationInput;
+  shares?: Prisma.ExpenseShareOrderByRelationAggregateInput;
+  anomaly?: Prisma.ExpenseAnomalyOrderByWithRelationInput;
 };
 
 export type ExpenseWhereUniqueInput = Prisma.AtLeast<
@@ -307,6 +347,9 @@ export type ExpenseWhereUniqueInput = Prisma.AtLeast<
     category?: Prisma.EnumExpenseCategoryFilter<"Expense"> | $Enums.ExpenseCategory;
     description?: Prisma.StringNullableFilter<"Expense"> | string | null;
     date?: Prisma.DateTimeFilter<"Expense"> | Date | string;
+    customCategoryId?: Prisma.StringNullableFilter<"Expense"> | string | null;
+    tags?: Prisma.StringNullableListFilter<"Expense">;
+    exchangeRateId?: Prisma.StringNullableFilter<"Expense"> | string | null;
     createdAt?: Prisma.DateTimeFilter<"Expense"> | Date | string;
     updatedAt?: Prisma.DateTimeFilter<"Expense"> | Date | string;
     user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>;
@@ -314,6 +357,19 @@ export type ExpenseWhereUniqueInput = Prisma.AtLeast<
       Prisma.ProcessedEmailNullableScalarRelationFilter,
       Prisma.ProcessedEmailWhereInput
     > | null;
+    customCategory?: Prisma.XOR<
+      Prisma.CustomCategoryNullableScalarRelationFilter,
+      Prisma.CustomCategoryWhereInput
+    > | null;
+    exchangeRate?: Prisma.XOR<
+      Prisma.ExchangeRateNullableScalarRelationFilter,
+      Prisma.ExchangeRateWhereInput
+    > | null;
+    shares?: Prisma.ExpenseShareListRelationFilter;
+    anomaly?: Prisma.XOR<
+      Prisma.ExpenseAnomalyNullableScalarRelationFilter,
+      Prisma.ExpenseAnomalyWhereInput
+    > | null;
   },
   "id" | "processedEmailId"
 >;
@@ -328,6 +384,9 @@ export type ExpenseOrderByWithAggregationInput = {
   category?: Prisma.SortOrder;
   description?: Prisma.SortOrderInput | Prisma.SortOrder;
   date?: Prisma.SortOrder;
+  customCategoryId?: Prisma.SortOrderInput | Prisma.SortOrder;
+  tags?: Prisma.SortOrder;
+  exchangeRateId?: Prisma.SortOrderInput | Prisma.SortOrder;
   createdAt?: Prisma.SortOrder;
   updatedAt?: Prisma.SortOrder;
   _count?: Prisma.ExpenseCountOrderByAggregateInput;
@@ -359,6 +418,9 @@ export type ExpenseScalarWhereWithAggregatesInput = {
   category?: Prisma.EnumExpenseCategoryWithAggregatesFilter<"Expense"> | $Enums.ExpenseCategory;
   description?: Prisma.StringNullableWithAggregatesFilter<"Expense"> | string | null;
   date?: Prisma.DateTimeWithAggregatesFilter<"Expense"> | Date | string;
+  customCategoryId?: Prisma.StringNullableWithAggregatesFilter<"Expense"> | string | null;
+  tags?: Prisma.StringNullableListFilter<"Expense">;
+  exchangeRateId?: Prisma.StringNullableWithAggregatesFilter<"Expense"> | string | null;
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"Expense"> | Date | string;
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Expense"> | Date | string;
 };
@@ -371,10 +433,15 @@ export type ExpenseCreateInput = {
   category?: $Enums.ExpenseCategory;
   description?: string | null;
   date: Date | string;
+  tags?: Prisma.ExpenseCreatetagsInput | string[];
   createdAt?: Date | string;
   updatedAt?: Date | string;
   user: Prisma.UserCreateNestedOneWithoutExpensesInput;
   processedEmail?: Prisma.ProcessedEmailCreateNestedOneWithoutExpenseInput;
+  customCategory?: Prisma.CustomCategoryCreateNestedOneWithoutExpensesInput;
+  exchangeRate?: Prisma.ExchangeRateCreateNestedOneWithoutExpensesInput;
+  shares?: Prisma.ExpenseShareCreateNestedManyWithoutExpenseInput;
+  anomaly?: Prisma.ExpenseAnomalyCreateNestedOneWithoutExpenseInput;
 };
 
 export type ExpenseUncheckedCreateInput = {
@@ -387,8 +454,13 @@ export type ExpenseUncheckedCreateInput = {
   category?: $Enums.ExpenseCategory;
   description?: string | null;
   date: Date | string;
+  customCategoryId?: string | null;
+  tags?: Prisma.ExpenseCreatetagsInput | string[];
+  exchangeRateId?: string | null;
   createdAt?: Date | string;
   updatedAt?: Date | string;
+  shares?: Prisma.ExpenseShareUncheckedCreateNestedManyWithoutExpenseInput;
+  anomaly?: Prisma.ExpenseAnomalyUncheckedCreateNestedOneWithoutExpenseInput;
 };
 
 export type ExpenseUpdateInput = {
@@ -404,10 +476,15 @@ export type ExpenseUpdateInput = {
   category?: Prisma.EnumExpenseCategoryFieldUpdateOperationsInput | $Enums.ExpenseCategory;
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  tags?: Prisma.ExpenseUpdatetagsInput | string[];
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   user?: Prisma.UserUpdateOneRequiredWithoutExpensesNestedInput;
   processedEmail?: Prisma.ProcessedEmailUpdateOneWithoutExpenseNestedInput;
+  customCategory?: Prisma.CustomCategoryUpdateOneWithoutExpensesNestedInput;
+  exchangeRate?: Prisma.ExchangeRateUpdateOneWithoutExpensesNestedInput;
+  shares?: Prisma.ExpenseShareUpdateManyWithoutExpenseNestedInput;
+  anomaly?: Prisma.ExpenseAnomalyUpdateOneWithoutExpenseNestedInput;
 };
 
 export type ExpenseUncheckedUpdateInput = {
@@ -425,8 +502,13 @@ export type ExpenseUncheckedUpdateInput = {
   category?: Prisma.EnumExpenseCategoryFieldUpdateOperationsInput | $Enums.ExpenseCategory;
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  customCategoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  tags?: Prisma.ExpenseUpdatetagsInput | string[];
+  exchangeRateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  shares?: Prisma.ExpenseShareUncheckedUpdateManyWithoutExpenseNestedInput;
+  anomaly?: Prisma.ExpenseAnomalyUncheckedUpdateOneWithoutExpenseNestedInput;
 };
 
 export type ExpenseCreateManyInput = {
@@ -439,6 +521,9 @@ export type ExpenseCreateManyInput = {
   category?: $Enums.ExpenseCategory;
   description?: string | null;
   date: Date | string;
+  customCategoryId?: string | null;
+  tags?: Prisma.ExpenseCreatetagsInput | string[];
+  exchangeRateId?: string | null;
   createdAt?: Date | string;
   updatedAt?: Date | string;
 };
@@ -456,6 +541,7 @@ export type ExpenseUpdateManyMutationInput = {
   category?: Prisma.EnumExpenseCategoryFieldUpdateOperationsInput | $Enums.ExpenseCategory;
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  tags?: Prisma.ExpenseUpdatetagsInput | string[];
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 };
@@ -475,6 +561,9 @@ export type ExpenseUncheckedUpdateManyInput = {
   category?: Prisma.EnumExpenseCategoryFieldUpdateOperationsInput | $Enums.ExpenseCategory;
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  customCategoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  tags?: Prisma.ExpenseUpdatetagsInput | string[];
+  exchangeRateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 };
@@ -494,6 +583,14 @@ export type ExpenseNullableScalarRelationFilter = {
   isNot?: Prisma.ExpenseWhereInput | null;
 };
 
+export type StringNullableListFilter<$PrismaModel = never> = {
+  equals?: string[] | Prisma.ListStringFieldRefInput<$PrismaModel> | null;
+  has?: string | Prisma.StringFieldRefInput<$PrismaModel> | null;
+  hasEvery?: string[] | Prisma.ListStringFieldRefInput<$PrismaModel>;
+  hasSome?: string[] | Prisma.ListStringFieldRefInput<$PrismaModel>;
+  isEmpty?: boolean;
+};
+
 export type ExpenseCountOrderByAggregateInput = {
   id?: Prisma.SortOrder;
   userId?: Prisma.SortOrder;
@@ -504,6 +601,9 @@ export type ExpenseCountOrderByAggregateInput = {
   category?: Prisma.SortOrder;
   description?: Prisma.SortOrder;
   date?: Prisma.SortOrder;
+  customCategoryId?: Prisma.SortOrder;
+  tags?: Prisma.SortOrder;
+  exchangeRateId?: Prisma.SortOrder;
   createdAt?: Prisma.SortOrder;
   updatedAt?: Prisma.SortOrder;
 };
@@ -522,6 +622,8 @@ export type ExpenseMaxOrderByAggregateInput = {
   category?: Prisma.SortOrder;
   description?: Prisma.SortOrder;
   date?: Prisma.SortOrder;
+  customCategoryId?: Prisma.SortOrder;
+  exchangeRateId?: Prisma.SortOrder;
   createdAt?: Prisma.SortOrder;
   updatedAt?: Prisma.SortOrder;
 };
@@ -536,6 +638,8 @@ export type ExpenseMinOrderByAggregateInput = {
   category?: Prisma.SortOrder;
   description?: Prisma.SortOrder;
   date?: Prisma.SortOrder;
+  customCategoryId?: Prisma.SortOrder;
+  exchangeRateId?: Prisma.SortOrder;
   createdAt?: Prisma.SortOrder;
   updatedAt?: Prisma.SortOrder;
 };
@@ -544,6 +648,11 @@ export type ExpenseSumOrderByAggregateInput = {
   amount?: Prisma.SortOrder;
 };
 
+export type ExpenseScalarRelationFilter = {
+  is?: Prisma.ExpenseWhereInput;
+  isNot?: Prisma.ExpenseWhereInput;
+};
+
 export type ExpenseCreateNestedManyWithoutUserInput = {
   create?:
     | Prisma.XOR<
@@ -686,6 +795,10 @@ export type ExpenseUncheckedUpdateOneWithoutProcessedEmailNestedInput = {
   >;
 };
 
+export type ExpenseCreatetagsInput = {
+  set: string[];
+};
+
 export type DecimalFieldUpdateOperationsInput = {
   set?: runtime.Decimal | runtime.DecimalJsLike | number | string;
   increment?: runtime.Decimal | runtime.DecimalJsLike | number | string;
@@ -698,6 +811,235 @@ export type EnumExpenseCategoryFieldUpdateOperationsInput = {
   set?: $Enums.ExpenseCategory;
 };
 
+export type ExpenseUpdatetagsInput = {
+  set?: string[];
+  push?: string | string[];
+};
+
+export type ExpenseCreateNestedOneWithoutAnomalyInput = {
+  create?: Prisma.XOR<
+    Prisma.ExpenseCreateWithoutAnomalyInput,
+    Prisma.ExpenseUncheckedCreateWithoutAnomalyInput
+  >;
+  connectOrCreate?: Prisma.ExpenseCreateOrConnectWithoutAnomalyInput;
+  connect?: Prisma.ExpenseWhereUniqueInput;
+};
+
+export type ExpenseUpdateOneRequiredWithoutAnomalyNestedInput = {
+  create?: Prisma.XOR<
+    Prisma.ExpenseCreateWithoutAnomalyInput,
+    Prisma.ExpenseUncheckedCreateWithoutAnomalyInput
+  >;
+  connectOrCreate?: Prisma.ExpenseCreateOrConnectWithoutAnomalyInput;
+  upsert?: Prisma.ExpenseUpsertWithoutAnomalyInput;
+  connect?: Prisma.ExpenseWhereUniqueInput;
+  update?: Prisma.XOR<
+    Prisma.XOR<
+      Prisma.ExpenseUpdateToOneWithWhereWithoutAnomalyInput,
+      Prisma.ExpenseUpdateWithoutAnomalyInput
+    >,
+    Prisma.ExpenseUncheckedUpdateWithoutAnomalyInput
+  >;
+};
+
+export type ExpenseCreateNestedManyWithoutCustomCategoryInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.ExpenseCreateWithoutCustomCategoryInput,
+        Prisma.ExpenseUncheckedCreateWithoutCustomCategoryInput
+      >
+    | Prisma.ExpenseCreateWithoutCustomCategoryInput[]
+    | Prisma.ExpenseUncheckedCreateWithoutCustomCategoryInput[];
+  connectOrCreate?:
+    | Prisma.ExpenseCreateOrConnectWithoutCustomCategoryInput
+    | Prisma.ExpenseCreateOrConnectWithoutCustomCategoryInput[];
+  createMany?: Prisma.ExpenseCreateManyCustomCategoryInputEnvelope;
+  connect?: Prisma.ExpenseWhereUniqueInput | Prisma.ExpenseWhereUniqueInput[];
+};
+
+export type ExpenseUncheckedCreateNestedManyWithoutCustomCategoryInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.ExpenseCreateWithoutCustomCategoryInput,
+        Prisma.ExpenseUncheckedCreateWithoutCustomCategoryInput
+      >
+    | Prisma.ExpenseCreateWithoutCustomCategoryInput[]
+    | Prisma.ExpenseUncheckedCreateWithoutCustomCategoryInput[];
+  connectOrCreate?:
+    | Prisma.ExpenseCreateOrConnectWithoutCustomCategoryInput
+    | Prisma.ExpenseCreateOrConnectWithoutCustomCategoryInput[];
+  createMany?: Prisma.ExpenseCreateManyCustomCategoryInputEnvelope;
+  connect?: Prisma.ExpenseWhereUniqueInput | Prisma.ExpenseWhereUniqueInput[];
+};
+
+export type ExpenseUpdateManyWithoutCustomCategoryNestedInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.ExpenseCreateWithoutCustomCategoryInput,
+        Prisma.ExpenseUncheckedCreateWithoutCustomCategoryInput
+      >
+    | Prisma.ExpenseCreateWithoutCustomCategoryInput[]
+    | Prisma.ExpenseUncheckedCreateWithoutCustomCategoryInput[];
+  connectOrCreate?:
+    | Prisma.ExpenseCreateOrConnectWithoutCustomCategoryInput
+    | Prisma.ExpenseCreateOrConnectWithoutCustomCategoryInput[];
+  upsert?:
+    | Prisma.ExpenseUpsertWithWhereUniqueWithoutCustomCategoryInput
+    | Prisma.ExpenseUpsertWithWhereUniqueWithoutCustomCategoryInput[];
+  createMany?: Prisma.ExpenseCreateManyCustomCategoryInputEnvelope;
+  set?: Prisma.ExpenseWhereUniqueInput | Prisma.ExpenseWhereUniqueInput[];
+  disconnect?: Prisma.ExpenseWhereUniqueInput | Prisma.ExpenseWhereUniqueInput[];
+  delete?: Prisma.ExpenseWhereUniqueInput | Prisma.ExpenseWhereUniqueInput[];
+  connect?: Prisma.ExpenseWhereUniqueInput | Prisma.ExpenseWhereUniqueInput[];
+  update?:
+    | Prisma.ExpenseUpdateWithWhereUniqueWithoutCustomCategoryInput
+    | Prisma.ExpenseUpdateWithWhereUniqueWithoutCustomCategoryInput[];
+  updateMany?:
+    | Prisma.ExpenseUpdateManyWithWhereWithoutCustomCategoryInput
+    | Prisma.ExpenseUpdateManyWithWhereWithoutCustomCategoryInput[];
+  deleteMany?: Prisma.ExpenseScalarWhereInput | Prisma.ExpenseScalarWhereInput[];
+};
+
+export type ExpenseUncheckedUpdateManyWithoutCustomCategoryNestedInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.ExpenseCreateWithoutCustomCategoryInput,
+        Prisma.ExpenseUncheckedCreateWithoutCustomCategoryInput
+      >
+    | Prisma.ExpenseCreateWithoutCustomCategoryInput[]
+    | Prisma.ExpenseUncheckedCreateWithoutCustomCategoryInput[];
+  connectOrCreate?:
+    | Prisma.ExpenseCreateOrConnectWithoutCustomCategoryInput
+    | Prisma.ExpenseCreateOrConnectWithoutCustomCategoryInput[];
+  upsert?:
+    | Prisma.ExpenseUpsertWithWhereUniqueWithoutCustomCategoryInput
+    | Prisma.ExpenseUpsertWithWhereUniqueWithoutCustomCategoryInput[];
+  createMany?: Prisma.ExpenseCreateManyCustomCategoryInputEnvelope;
+  set?: Prisma.ExpenseWhereUniqueInput | Prisma.ExpenseWhereUniqueInput[];
+  disconnect?: Prisma.ExpenseWhereUniqueInput | Prisma.ExpenseWhereUniqueInput[];
+  delete?: Prisma.ExpenseWhereUniqueInput | Prisma.ExpenseWhereUniqueInput[];
+  connect?: Prisma.ExpenseWhereUniqueInput | Prisma.ExpenseWhereUniqueInput[];
+  update?:
+    | Prisma.ExpenseUpdateWithWhereUniqueWithoutCustomCategoryInput
+    | Prisma.ExpenseUpdateWithWhereUniqueWithoutCustomCategoryInput[];
+  updateMany?:
+    | Prisma.ExpenseUpdateManyWithWhereWithoutCustomCategoryInput
+    | Prisma.ExpenseUpdateManyWithWhereWithoutCustomCategoryInput[];
+  deleteMany?: Prisma.ExpenseScalarWhereInput | Prisma.ExpenseScalarWhereInput[];
+};
+
+export type ExpenseCreateNestedOneWithoutSharesInput = {
+  create?: Prisma.XOR<
+    Prisma.ExpenseCreateWithoutSharesInput,
+    Prisma.ExpenseUncheckedCreateWithoutSharesInput
+  >;
+  connectOrCreate?: Prisma.ExpenseCreateOrConnectWithoutSharesInput;
+  connect?: Prisma.ExpenseWhereUniqueInput;
+};
+
+export type ExpenseUpdateOneRequiredWithoutSharesNestedInput = {
+  create?: Prisma.XOR<
+    Prisma.ExpenseCreateWithoutSharesInput,
+    Prisma.ExpenseUncheckedCreateWithoutSharesInput
+  >;
+  connectOrCreate?: Prisma.ExpenseCreateOrConnectWithoutSharesInput;
+  upsert?: Prisma.ExpenseUpsertWithoutSharesInput;
+  connect?: Prisma.ExpenseWhereUniqueInput;
+  update?: Prisma.XOR<
+    Prisma.XOR<
+      Prisma.ExpenseUpdateToOneWithWhereWithoutSharesInput,
+      Prisma.ExpenseUpdateWithoutSharesInput
+    >,
+    Prisma.ExpenseUncheckedUpdateWithoutSharesInput
+  >;
+};
+
+export type ExpenseCreateNestedManyWithoutExchangeRateInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.ExpenseCreateWithoutExchangeRateInput,
+        Prisma.ExpenseUncheckedCreateWithoutExchangeRateInput
+      >
+    | Prisma.ExpenseCreateWithoutExchangeRateInput[]
+    | Prisma.ExpenseUncheckedCreateWithoutExchangeRateInput[];
+  connectOrCreate?:
+    | Prisma.ExpenseCreateOrConnectWithoutExchangeRateInput
+    | Prisma.ExpenseCreateOrConnectWithoutExchangeRateInput[];
+  createMany?: Prisma.ExpenseCreateManyExchangeRateInputEnvelope;
+  connect?: Prisma.ExpenseWhereUniqueInput | Prisma.ExpenseWhereUniqueInput[];
+};
+
+export type ExpenseUncheckedCreateNestedManyWithoutExchangeRateInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.ExpenseCreateWithoutExchangeRateInput,
+        Prisma.ExpenseUncheckedCreateWithoutExchangeRateInput
+      >
+    | Prisma.ExpenseCreateWithoutExchangeRateInput[]
+    | Prisma.ExpenseUncheckedCreateWithoutExchangeRateInput[];
+  connectOrCreate?:
+    | Prisma.ExpenseCreateOrConnectWithoutExchangeRateInput
+    | Prisma.ExpenseCreateOrConnectWithoutExchangeRateInput[];
+  createMany?: Prisma.ExpenseCreateManyExchangeRateInputEnvelope;
+  connect?: Prisma.ExpenseWhereUniqueInput | Prisma.ExpenseWhereUniqueInput[];
+};
+
+export type ExpenseUpdateManyWithoutExchangeRateNestedInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.ExpenseCreateWithoutExchangeRateInput,
+        Prisma.ExpenseUncheckedCreateWithoutExchangeRateInput
+      >
+    | Prisma.ExpenseCreateWithoutExchangeRateInput[]
+    | Prisma.ExpenseUncheckedCreateWithoutExchangeRateInput[];
+  connectOrCreate?:
+    | Prisma.ExpenseCreateOrConnectWithoutExchangeRateInput
+    | Prisma.ExpenseCreateOrConnectWithoutExchangeRateInput[];
+  upsert?:
+    | Prisma.ExpenseUpsertWithWhereUniqueWithoutExchangeRateInput
+    | Prisma.ExpenseUpsertWithWhereUniqueWithoutExchangeRateInput[];
+  createMany?: Prisma.ExpenseCreateManyExchangeRateInputEnvelope;
+  set?: Prisma.ExpenseWhereUniqueInput | Prisma.ExpenseWhereUniqueInput[];
+  disconnect?: Prisma.ExpenseWhereUniqueInput | Prisma.ExpenseWhereUniqueInput[];
+  delete?: Prisma.ExpenseWhereUniqueInput | Prisma.ExpenseWhereUniqueInput[];
+  connect?: Prisma.ExpenseWhereUniqueInput | Prisma.ExpenseWhereUniqueInput[];
+  update?:
+    | Prisma.ExpenseUpdateWithWhereUniqueWithoutExchangeRateInput
+    | Prisma.ExpenseUpdateWithWhereUniqueWithoutExchangeRateInput[];
+  updateMany?:
+    | Prisma.ExpenseUpdateManyWithWhereWithoutExchangeRateInput
+    | Prisma.ExpenseUpdateManyWithWhereWithoutExchangeRateInput[];
+  deleteMany?: Prisma.ExpenseScalarWhereInput | Prisma.ExpenseScalarWhereInput[];
+};
+
+export type ExpenseUncheckedUpdateManyWithoutExchangeRateNestedInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.ExpenseCreateWithoutExchangeRateInput,
+        Prisma.ExpenseUncheckedCreateWithoutExchangeRateInput
+      >
+    | Prisma.ExpenseCreateWithoutExchangeRateInput[]
+    | Prisma.ExpenseUncheckedCreateWithoutExchangeRateInput[];
+  connectOrCreate?:
+    | Prisma.ExpenseCreateOrConnectWithoutExchangeRateInput
+    | Prisma.ExpenseCreateOrConnectWithoutExchangeRateInput[];
+  upsert?:
+    | Prisma.ExpenseUpsertWithWhereUniqueWithoutExchangeRateInput
+    | Prisma.ExpenseUpsertWithWhereUniqueWithoutExchangeRateInput[];
+  createMany?: Prisma.ExpenseCreateManyExchangeRateInputEnvelope;
+  set?: Prisma.ExpenseWhereUniqueInput | Prisma.ExpenseWhereUniqueInput[];
+  disconnect?: Prisma.ExpenseWhereUniqueInput | Prisma.ExpenseWhereUniqueInput[];
+  delete?: Prisma.ExpenseWhereUniqueInput | Prisma.ExpenseWhereUniqueInput[];
+  connect?: Prisma.ExpenseWhereUniqueInput | Prisma.ExpenseWhereUniqueInput[];
+  update?:
+    | Prisma.ExpenseUpdateWithWhereUniqueWithoutExchangeRateInput
+    | Prisma.ExpenseUpdateWithWhereUniqueWithoutExchangeRateInput[];
+  updateMany?:
+    | Prisma.ExpenseUpdateManyWithWhereWithoutExchangeRateInput
+    | Prisma.ExpenseUpdateManyWithWhereWithoutExchangeRateInput[];
+  deleteMany?: Prisma.ExpenseScalarWhereInput | Prisma.ExpenseScalarWhereInput[];
+};
+
 export type ExpenseCreateWithoutUserInput = {
   id?: string;
   merchant?: string | null;
@@ -706,9 +1048,14 @@ export type ExpenseCreateWithoutUserInput = {
   category?: $Enums.ExpenseCategory;
   description?: string | null;
   date: Date | string;
+  tags?: Prisma.ExpenseCreatetagsInput | string[];
   createdAt?: Date | string;
   updatedAt?: Date | string;
   processedEmail?: Prisma.ProcessedEmailCreateNestedOneWithoutExpenseInput;
+  customCategory?: Prisma.CustomCategoryCreateNestedOneWithoutExpensesInput;
+  exchangeRate?: Prisma.ExchangeRateCreateNestedOneWithoutExpensesInput;
+  shares?: Prisma.ExpenseShareCreateNestedManyWithoutExpenseInput;
+  anomaly?: Prisma.ExpenseAnomalyCreateNestedOneWithoutExpenseInput;
 };
 
 export type ExpenseUncheckedCreateWithoutUserInput = {
@@ -720,8 +1067,13 @@ export type ExpenseUncheckedCreateWithoutUserInput = {
   category?: $Enums.ExpenseCategory;
   description?: string | null;
   date: Date | string;
+  customCategoryId?: string | null;
+  tags?: Prisma.ExpenseCreatetagsInput | string[];
+  exchangeRateId?: string | null;
   createdAt?: Date | string;
   updatedAt?: Date | string;
+  shares?: Prisma.ExpenseShareUncheckedCreateNestedManyWithoutExpenseInput;
+  anomaly?: Prisma.ExpenseAnomalyUncheckedCreateNestedOneWithoutExpenseInput;
 };
 
 export type ExpenseCreateOrConnectWithoutUserInput = {
@@ -783,11 +1135,421 @@ export type ExpenseScalarWhereInput = {
   category?: Prisma.EnumExpenseCategoryFilter<"Expense"> | $Enums.ExpenseCategory;
   description?: Prisma.StringNullableFilter<"Expense"> | string | null;
   date?: Prisma.DateTimeFilter<"Expense"> | Date | string;
+  customCategoryId?: Prisma.StringNullableFilter<"Expense"> | string | null;
+  tags?: Prisma.StringNullableListFilter<"Expense">;
+  exchangeRateId?: Prisma.StringNullableFilter<"Expense"> | string | null;
   createdAt?: Prisma.DateTimeFilter<"Expense"> | Date | string;
   updatedAt?: Prisma.DateTimeFilter<"Expense"> | Date | string;
 };
 
-export type ExpenseCreateWithoutProcessedEmailInput = {
+export type ExpenseCreateWithoutProcessedEmailInput = {
+  id?: string;
+  merchant?: string | null;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  currency?: string;
+  category?: $Enums.ExpenseCategory;
+  description?: string | null;
+  date: Date | string;
+  tags?: Prisma.ExpenseCreatetagsInput | string[];
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  user: Prisma.UserCreateNestedOneWithoutExpensesInput;
+  customCategory?: Prisma.CustomCategoryCreateNestedOneWithoutExpensesInput;
+  exchangeRate?: Prisma.ExchangeRateCreateNestedOneWithoutExpensesInput;
+  shares?: Prisma.ExpenseShareCreateNestedManyWithoutExpenseInput;
+  anomaly?: Prisma.ExpenseAnomalyCreateNestedOneWithoutExpenseInput;
+};
+
+export type ExpenseUncheckedCreateWithoutProcessedEmailInput = {
+  id?: string;
+  userId: string;
+  merchant?: string | null;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  currency?: string;
+  category?: $Enums.ExpenseCategory;
+  description?: string | null;
+  date: Date | string;
+  customCategoryId?: string | null;
+  tags?: Prisma.ExpenseCreatetagsInput | string[];
+  exchangeRateId?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  shares?: Prisma.ExpenseShareUncheckedCreateNestedManyWithoutExpenseInput;
+  anomaly?: Prisma.ExpenseAnomalyUncheckedCreateNestedOneWithoutExpenseInput;
+};
+
+export type ExpenseCreateOrConnectWithoutProcessedEmailInput = {
+  where: Prisma.ExpenseWhereUniqueInput;
+  create: Prisma.XOR<
+    Prisma.ExpenseCreateWithoutProcessedEmailInput,
+    Prisma.ExpenseUncheckedCreateWithoutProcessedEmailInput
+  >;
+};
+
+export type ExpenseUpsertWithoutProcessedEmailInput = {
+  update: Prisma.XOR<
+    Prisma.ExpenseUpdateWithoutProcessedEmailInput,
+    Prisma.ExpenseUncheckedUpdateWithoutProcessedEmailInput
+  >;
+  create: Prisma.XOR<
+    Prisma.ExpenseCreateWithoutProcessedEmailInput,
+    Prisma.ExpenseUncheckedCreateWithoutProcessedEmailInput
+  >;
+  where?: Prisma.ExpenseWhereInput;
+};
+
+export type ExpenseUpdateToOneWithWhereWithoutProcessedEmailInput = {
+  where?: Prisma.ExpenseWhereInput;
+  data: Prisma.XOR<
+    Prisma.ExpenseUpdateWithoutProcessedEmailInput,
+    Prisma.ExpenseUncheckedUpdateWithoutProcessedEmailInput
+  >;
+};
+
+export type ExpenseUpdateWithoutProcessedEmailInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  merchant?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  category?: Prisma.EnumExpenseCategoryFieldUpdateOperationsInput | $Enums.ExpenseCategory;
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  tags?: Prisma.ExpenseUpdatetagsInput | string[];
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  user?: Prisma.UserUpdateOneRequiredWithoutExpensesNestedInput;
+  customCategory?: Prisma.CustomCategoryUpdateOneWithoutExpensesNestedInput;
+  exchangeRate?: Prisma.ExchangeRateUpdateOneWithoutExpensesNestedInput;
+  shares?: Prisma.ExpenseShareUpdateManyWithoutExpenseNestedInput;
+  anomaly?: Prisma.ExpenseAnomalyUpdateOneWithoutExpenseNestedInput;
+};
+
+export type ExpenseUncheckedUpdateWithoutProcessedEmailInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  userId?: Prisma.StringFieldUpdateOperationsInput | string;
+  merchant?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  category?: Prisma.EnumExpenseCategoryFieldUpdateOperationsInput | $Enums.ExpenseCategory;
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  customCategoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  tags?: Prisma.ExpenseUpdatetagsInput | string[];
+  exchangeRateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  shares?: Prisma.ExpenseShareUncheckedUpdateManyWithoutExpenseNestedInput;
+  anomaly?: Prisma.ExpenseAnomalyUncheckedUpdateOneWithoutExpenseNestedInput;
+};
+
+export type ExpenseCreateWithoutAnomalyInput = {
+  id?: string;
+  merchant?: string | null;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  currency?: string;
+  category?: $Enums.ExpenseCategory;
+  description?: string | null;
+  date: Date | string;
+  tags?: Prisma.ExpenseCreatetagsInput | string[];
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  user: Prisma.UserCreateNestedOneWithoutExpensesInput;
+  processedEmail?: Prisma.ProcessedEmailCreateNestedOneWithoutExpenseInput;
+  customCategory?: Prisma.CustomCategoryCreateNestedOneWithoutExpensesInput;
+  exchangeRate?: Prisma.ExchangeRateCreateNestedOneWithoutExpensesInput;
+  shares?: Prisma.ExpenseShareCreateNestedManyWithoutExpenseInput;
+};
+
+export type ExpenseUncheckedCreateWithoutAnomalyInput = {
+  id?: string;
+  userId: string;
+  processedEmailId?: string | null;
+  merchant?: string | null;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  currency?: string;
+  category?: $Enums.ExpenseCategory;
+  description?: string | null;
+  date: Date | string;
+  customCategoryId?: string | null;
+  tags?: Prisma.ExpenseCreatetagsInput | string[];
+  exchangeRateId?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  shares?: Prisma.ExpenseShareUncheckedCreateNestedManyWithoutExpenseInput;
+};
+
+export type ExpenseCreateOrConnectWithoutAnomalyInput = {
+  where: Prisma.ExpenseWhereUniqueInput;
+  create: Prisma.XOR<
+    Prisma.ExpenseCreateWithoutAnomalyInput,
+    Prisma.ExpenseUncheckedCreateWithoutAnomalyInput
+  >;
+};
+
+export type ExpenseUpsertWithoutAnomalyInput = {
+  update: Prisma.XOR<
+    Prisma.ExpenseUpdateWithoutAnomalyInput,
+    Prisma.ExpenseUncheckedUpdateWithoutAnomalyInput
+  >;
+  create: Prisma.XOR<
+    Prisma.ExpenseCreateWithoutAnomalyInput,
+    Prisma.ExpenseUncheckedCreateWithoutAnomalyInput
+  >;
+  where?: Prisma.ExpenseWhereInput;
+};
+
+export type ExpenseUpdateToOneWithWhereWithoutAnomalyInput = {
+  where?: Prisma.ExpenseWhereInput;
+  data: Prisma.XOR<
+    Prisma.ExpenseUpdateWithoutAnomalyInput,
+    Prisma.ExpenseUncheckedUpdateWithoutAnomalyInput
+  >;
+};
+
+export type ExpenseUpdateWithoutAnomalyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  merchant?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  category?: Prisma.EnumExpenseCategoryFieldUpdateOperationsInput | $Enums.ExpenseCategory;
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  tags?: Prisma.ExpenseUpdatetagsInput | string[];
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  user?: Prisma.UserUpdateOneRequiredWithoutExpensesNestedInput;
+  processedEmail?: Prisma.ProcessedEmailUpdateOneWithoutExpenseNestedInput;
+  customCategory?: Prisma.CustomCategoryUpdateOneWithoutExpensesNestedInput;
+  exchangeRate?: Prisma.ExchangeRateUpdateOneWithoutExpensesNestedInput;
+  shares?: Prisma.ExpenseShareUpdateManyWithoutExpenseNestedInput;
+};
+
+export type ExpenseUncheckedUpdateWithoutAnomalyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  userId?: Prisma.StringFieldUpdateOperationsInput | string;
+  processedEmailId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  merchant?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  category?: Prisma.EnumExpenseCategoryFieldUpdateOperationsInput | $Enums.ExpenseCategory;
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  customCategoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  tags?: Prisma.ExpenseUpdatetagsInput | string[];
+  exchangeRateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  shares?: Prisma.ExpenseShareUncheckedUpdateManyWithoutExpenseNestedInput;
+};
+
+export type ExpenseCreateWithoutCustomCategoryInput = {
+  id?: string;
+  merchant?: string | null;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  currency?: string;
+  category?: $Enums.ExpenseCategory;
+  description?: string | null;
+  date: Date | string;
+  tags?: Prisma.ExpenseCreatetagsInput | string[];
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  user: Prisma.UserCreateNestedOneWithoutExpensesInput;
+  processedEmail?: Prisma.ProcessedEmailCreateNestedOneWithoutExpenseInput;
+  exchangeRate?: Prisma.ExchangeRateCreateNestedOneWithoutExpensesInput;
+  shares?: Prisma.ExpenseShareCreateNestedManyWithoutExpenseInput;
+  anomaly?: Prisma.ExpenseAnomalyCreateNestedOneWithoutExpenseInput;
+};
+
+export type ExpenseUncheckedCreateWithoutCustomCategoryInput = {
+  id?: string;
+  userId: string;
+  processedEmailId?: string | null;
+  merchant?: string | null;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  currency?: string;
+  category?: $Enums.ExpenseCategory;
+  description?: string | null;
+  date: Date | string;
+  tags?: Prisma.ExpenseCreatetagsInput | string[];
+  exchangeRateId?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  shares?: Prisma.ExpenseShareUncheckedCreateNestedManyWithoutExpenseInput;
+  anomaly?: Prisma.ExpenseAnomalyUncheckedCreateNestedOneWithoutExpenseInput;
+};
+
+export type ExpenseCreateOrConnectWithoutCustomCategoryInput = {
+  where: Prisma.ExpenseWhereUniqueInput;
+  create: Prisma.XOR<
+    Prisma.ExpenseCreateWithoutCustomCategoryInput,
+    Prisma.ExpenseUncheckedCreateWithoutCustomCategoryInput
+  >;
+};
+
+export type ExpenseCreateManyCustomCategoryInputEnvelope = {
+  data: Prisma.ExpenseCreateManyCustomCategoryInput | Prisma.ExpenseCreateManyCustomCategoryInput[];
+  skipDuplicates?: boolean;
+};
+
+export type ExpenseUpsertWithWhereUniqueWithoutCustomCategoryInput = {
+  where: Prisma.ExpenseWhereUniqueInput;
+  update: Prisma.XOR<
+    Prisma.ExpenseUpdateWithoutCustomCategoryInput,
+    Prisma.ExpenseUncheckedUpdateWithoutCustomCategoryInput
+  >;
+  create: Prisma.XOR<
+    Prisma.ExpenseCreateWithoutCustomCategoryInput,
+    Prisma.ExpenseUncheckedCreateWithoutCustomCategoryInput
+  >;
+};
+
+export type ExpenseUpdateWithWhereUniqueWithoutCustomCategoryInput = {
+  where: Prisma.ExpenseWhereUniqueInput;
+  data: Prisma.XOR<
+    Prisma.ExpenseUpdateWithoutCustomCategoryInput,
+    Prisma.ExpenseUncheckedUpdateWithoutCustomCategoryInput
+  >;
+};
+
+export type ExpenseUpdateManyWithWhereWithoutCustomCategoryInput = {
+  where: Prisma.ExpenseScalarWhereInput;
+  data: Prisma.XOR<
+    Prisma.ExpenseUpdateManyMutationInput,
+    Prisma.ExpenseUncheckedUpdateManyWithoutCustomCategoryInput
+  >;
+};
+
+export type ExpenseCreateWithoutSharesInput = {
+  id?: string;
+  merchant?: string | null;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  currency?: string;
+  category?: $Enums.ExpenseCategory;
+  description?: string | null;
+  date: Date | string;
+  tags?: Prisma.ExpenseCreatetagsInput | string[];
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  user: Prisma.UserCreateNestedOneWithoutExpensesInput;
+  processedEmail?: Prisma.ProcessedEmailCreateNestedOneWithoutExpenseInput;
+  customCategory?: Prisma.CustomCategoryCreateNestedOneWithoutExpensesInput;
+  exchangeRate?: Prisma.ExchangeRateCreateNestedOneWithoutExpensesInput;
+  anomaly?: Prisma.ExpenseAnomalyCreateNestedOneWithoutExpenseInput;
+};
+
+export type ExpenseUncheckedCreateWithoutSharesInput = {
+  id?: string;
+  userId: string;
+  processedEmailId?: string | null;
+  merchant?: string | null;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  currency?: string;
+  category?: $Enums.ExpenseCategory;
+  description?: string | null;
+  date: Date | string;
+  customCategoryId?: string | null;
+  tags?: Prisma.ExpenseCreatetagsInput | string[];
+  exchangeRateId?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  anomaly?: Prisma.ExpenseAnomalyUncheckedCreateNestedOneWithoutExpenseInput;
+};
+
+export type ExpenseCreateOrConnectWithoutSharesInput = {
+  where: Prisma.ExpenseWhereUniqueInput;
+  create: Prisma.XOR<
+    Prisma.ExpenseCreateWithoutSharesInput,
+    Prisma.ExpenseUncheckedCreateWithoutSharesInput
+  >;
+};
+
+export type ExpenseUpsertWithoutSharesInput = {
+  update: Prisma.XOR<
+    Prisma.ExpenseUpdateWithoutSharesInput,
+    Prisma.ExpenseUncheckedUpdateWithoutSharesInput
+  >;
+  create: Prisma.XOR<
+    Prisma.ExpenseCreateWithoutSharesInput,
+    Prisma.ExpenseUncheckedCreateWithoutSharesInput
+  >;
+  where?: Prisma.ExpenseWhereInput;
+};
+
+export type ExpenseUpdateToOneWithWhereWithoutSharesInput = {
+  where?: Prisma.ExpenseWhereInput;
+  data: Prisma.XOR<
+    Prisma.ExpenseUpdateWithoutSharesInput,
+    Prisma.ExpenseUncheckedUpdateWithoutSharesInput
+  >;
+};
+
+export type ExpenseUpdateWithoutSharesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  merchant?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  category?: Prisma.EnumExpenseCategoryFieldUpdateOperationsInput | $Enums.ExpenseCategory;
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  tags?: Prisma.ExpenseUpdatetagsInput | string[];
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  user?: Prisma.UserUpdateOneRequiredWithoutExpensesNestedInput;
+  processedEmail?: Prisma.ProcessedEmailUpdateOneWithoutExpenseNestedInput;
+  customCategory?: Prisma.CustomCategoryUpdateOneWithoutExpensesNestedInput;
+  exchangeRate?: Prisma.ExchangeRateUpdateOneWithoutExpensesNestedInput;
+  anomaly?: Prisma.ExpenseAnomalyUpdateOneWithoutExpenseNestedInput;
+};
+
+export type ExpenseUncheckedUpdateWithoutSharesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  userId?: Prisma.StringFieldUpdateOperationsInput | string;
+  processedEmailId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  merchant?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  category?: Prisma.EnumExpenseCategoryFieldUpdateOperationsInput | $Enums.ExpenseCategory;
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  customCategoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  tags?: Prisma.ExpenseUpdatetagsInput | string[];
+  exchangeRateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  anomaly?: Prisma.ExpenseAnomalyUncheckedUpdateOneWithoutExpenseNestedInput;
+};
+
+export type ExpenseCreateWithoutExchangeRateInput = {
   id?: string;
   merchant?: string | null;
   amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
@@ -795,53 +1557,175 @@ export type ExpenseCreateWithoutProcessedEmailInput = {
   category?: $Enums.ExpenseCategory;
   description?: string | null;
   date: Date | string;
+  tags?: Prisma.ExpenseCreatetagsInput | string[];
   createdAt?: Date | string;
   updatedAt?: Date | string;
   user: Prisma.UserCreateNestedOneWithoutExpensesInput;
+  processedEmail?: Prisma.ProcessedEmailCreateNestedOneWithoutExpenseInput;
+  customCategory?: Prisma.CustomCategoryCreateNestedOneWithoutExpensesInput;
+  shares?: Prisma.ExpenseShareCreateNestedManyWithoutExpenseInput;
+  anomaly?: Prisma.ExpenseAnomalyCreateNestedOneWithoutExpenseInput;
 };
 
-export type ExpenseUncheckedCreateWithoutProcessedEmailInput = {
+export type ExpenseUncheckedCreateWithoutExchangeRateInput = {
   id?: string;
   userId: string;
+  processedEmailId?: string | null;
   merchant?: string | null;
   amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
   currency?: string;
   category?: $Enums.ExpenseCategory;
   description?: string | null;
   date: Date | string;
+  customCategoryId?: string | null;
+  tags?: Prisma.ExpenseCreatetagsInput | string[];
   createdAt?: Date | string;
   updatedAt?: Date | string;
+  shares?: Prisma.ExpenseShareUncheckedCreateNestedManyWithoutExpenseInput;
+  anomaly?: Prisma.ExpenseAnomalyUncheckedCreateNestedOneWithoutExpenseInput;
 };
 
-export type ExpenseCreateOrConnectWithoutProcessedEmailInput = {
+export type ExpenseCreateOrConnectWithoutExchangeRateInput = {
   where: Prisma.ExpenseWhereUniqueInput;
   create: Prisma.XOR<
-    Prisma.ExpenseCreateWithoutProcessedEmailInput,
-    Prisma.ExpenseUncheckedCreateWithoutProcessedEmailInput
+    Prisma.ExpenseCreateWithoutExchangeRateInput,
+    Prisma.ExpenseUncheckedCreateWithoutExchangeRateInput
   >;
 };
 
-export type ExpenseUpsertWithoutProcessedEmailInput = {
+export type ExpenseCreateManyExchangeRateInputEnvelope = {
+  data: Prisma.ExpenseCreateManyExchangeRateInput | Prisma.ExpenseCreateManyExchangeRateInput[];
+  skipDuplicates?: boolean;
+};
+
+export type ExpenseUpsertWithWhereUniqueWithoutExchangeRateInput = {
+  where: Prisma.ExpenseWhereUniqueInput;
   update: Prisma.XOR<
-    Prisma.ExpenseUpdateWithoutProcessedEmailInput,
-    Prisma.ExpenseUncheckedUpdateWithoutProcessedEmailInput
+    Prisma.ExpenseUpdateWithoutExchangeRateInput,
+    Prisma.ExpenseUncheckedUpdateWithoutExchangeRateInput
   >;
   create: Prisma.XOR<
-    Prisma.ExpenseCreateWithoutProcessedEmailInput,
-    Prisma.ExpenseUncheckedCreateWithoutProcessedEmailInput
+    Prisma.ExpenseCreateWithoutExchangeRateInput,
+    Prisma.ExpenseUncheckedCreateWithoutExchangeRateInput
   >;
-  where?: Prisma.ExpenseWhereInput;
 };
 
-export type ExpenseUpdateToOneWithWhereWithoutProcessedEmailInput = {
-  where?: Prisma.ExpenseWhereInput;
+export type ExpenseUpdateWithWhereUniqueWithoutExchangeRateInput = {
+  where: Prisma.ExpenseWhereUniqueInput;
   data: Prisma.XOR<
-    Prisma.ExpenseUpdateWithoutProcessedEmailInput,
-    Prisma.ExpenseUncheckedUpdateWithoutProcessedEmailInput
+    Prisma.ExpenseUpdateWithoutExchangeRateInput,
+    Prisma.ExpenseUncheckedUpdateWithoutExchangeRateInput
   >;
 };
 
-export type ExpenseUpdateWithoutProcessedEmailInput = {
+export type ExpenseUpdateManyWithWhereWithoutExchangeRateInput = {
+  where: Prisma.ExpenseScalarWhereInput;
+  data: Prisma.XOR<
+    Prisma.ExpenseUpdateManyMutationInput,
+    Prisma.ExpenseUncheckedUpdateManyWithoutExchangeRateInput
+  >;
+};
+
+export type ExpenseCreateManyUserInput = {
+  id?: string;
+  processedEmailId?: string | null;
+  merchant?: string | null;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  currency?: string;
+  category?: $Enums.ExpenseCategory;
+  description?: string | null;
+  date: Date | string;
+  customCategoryId?: string | null;
+  tags?: Prisma.ExpenseCreatetagsInput | string[];
+  exchangeRateId?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+};
+
+export type ExpenseUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  merchant?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  category?: Prisma.EnumExpenseCategoryFieldUpdateOperationsInput | $Enums.ExpenseCategory;
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  tags?: Prisma.ExpenseUpdatetagsInput | string[];
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  processedEmail?: Prisma.ProcessedEmailUpdateOneWithoutExpenseNestedInput;
+  customCategory?: Prisma.CustomCategoryUpdateOneWithoutExpensesNestedInput;
+  exchangeRate?: Prisma.ExchangeRateUpdateOneWithoutExpensesNestedInput;
+  shares?: Prisma.ExpenseShareUpdateManyWithoutExpenseNestedInput;
+  anomaly?: Prisma.ExpenseAnomalyUpdateOneWithoutExpenseNestedInput;
+};
+
+export type ExpenseUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  processedEmailId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  merchant?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  category?: Prisma.EnumExpenseCategoryFieldUpdateOperationsInput | $Enums.ExpenseCategory;
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  customCategoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  tags?: Prisma.ExpenseUpdatetagsInput | string[];
+  exchangeRateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  shares?: Prisma.ExpenseShareUncheckedUpdateManyWithoutExpenseNestedInput;
+  anomaly?: Prisma.ExpenseAnomalyUncheckedUpdateOneWithoutExpenseNestedInput;
+};
+
+export type ExpenseUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  processedEmailId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  merchant?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  category?: Prisma.EnumExpenseCategoryFieldUpdateOperationsInput | $Enums.ExpenseCategory;
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  customCategoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  tags?: Prisma.ExpenseUpdatetagsInput | string[];
+  exchangeRateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type ExpenseCreateManyCustomCategoryInput = {
+  id?: string;
+  userId: string;
+  processedEmailId?: string | null;
+  merchant?: string | null;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  currency?: string;
+  category?: $Enums.ExpenseCategory;
+  description?: string | null;
+  date: Date | string;
+  tags?: Prisma.ExpenseCreatetagsInput | string[];
+  exchangeRateId?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+};
+
+export type ExpenseUpdateWithoutCustomCategoryInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
   merchant?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   amount?:
@@ -854,14 +1738,20 @@ export type ExpenseUpdateWithoutProcessedEmailInput = {
   category?: Prisma.EnumExpenseCategoryFieldUpdateOperationsInput | $Enums.ExpenseCategory;
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  tags?: Prisma.ExpenseUpdatetagsInput | string[];
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   user?: Prisma.UserUpdateOneRequiredWithoutExpensesNestedInput;
+  processedEmail?: Prisma.ProcessedEmailUpdateOneWithoutExpenseNestedInput;
+  exchangeRate?: Prisma.ExchangeRateUpdateOneWithoutExpensesNestedInput;
+  shares?: Prisma.ExpenseShareUpdateManyWithoutExpenseNestedInput;
+  anomaly?: Prisma.ExpenseAnomalyUpdateOneWithoutExpenseNestedInput;
 };
 
-export type ExpenseUncheckedUpdateWithoutProcessedEmailInput = {
+export type ExpenseUncheckedUpdateWithoutCustomCategoryInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
   userId?: Prisma.StringFieldUpdateOperationsInput | string;
+  processedEmailId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   merchant?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   amount?:
     | Prisma.DecimalFieldUpdateOperationsInput
@@ -873,12 +1763,38 @@ export type ExpenseUncheckedUpdateWithoutProcessedEmailInput = {
   category?: Prisma.EnumExpenseCategoryFieldUpdateOperationsInput | $Enums.ExpenseCategory;
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  tags?: Prisma.ExpenseUpdatetagsInput | string[];
+  exchangeRateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  shares?: Prisma.ExpenseShareUncheckedUpdateManyWithoutExpenseNestedInput;
+  anomaly?: Prisma.ExpenseAnomalyUncheckedUpdateOneWithoutExpenseNestedInput;
 };
 
-export type ExpenseCreateManyUserInput = {
+export type ExpenseUncheckedUpdateManyWithoutCustomCategoryInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  userId?: Prisma.StringFieldUpdateOperationsInput | string;
+  processedEmailId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  merchant?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  category?: Prisma.EnumExpenseCategoryFieldUpdateOperationsInput | $Enums.ExpenseCategory;
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  tags?: Prisma.ExpenseUpdatetagsInput | string[];
+  exchangeRateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type ExpenseCreateManyExchangeRateInput = {
   id?: string;
+  userId: string;
   processedEmailId?: string | null;
   merchant?: string | null;
   amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
@@ -886,11 +1802,13 @@ export type ExpenseCreateManyUserInput = {
   category?: $Enums.ExpenseCategory;
   description?: string | null;
   date: Date | string;
+  customCategoryId?: string | null;
+  tags?: Prisma.ExpenseCreatetagsInput | string[];
   createdAt?: Date | string;
   updatedAt?: Date | string;
 };
 
-export type ExpenseUpdateWithoutUserInput = {
+export type ExpenseUpdateWithoutExchangeRateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
   merchant?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   amount?:
@@ -903,13 +1821,19 @@ export type ExpenseUpdateWithoutUserInput = {
   category?: Prisma.EnumExpenseCategoryFieldUpdateOperationsInput | $Enums.ExpenseCategory;
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  tags?: Prisma.ExpenseUpdatetagsInput | string[];
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  user?: Prisma.UserUpdateOneRequiredWithoutExpensesNestedInput;
   processedEmail?: Prisma.ProcessedEmailUpdateOneWithoutExpenseNestedInput;
+  customCategory?: Prisma.CustomCategoryUpdateOneWithoutExpensesNestedInput;
+  shares?: Prisma.ExpenseShareUpdateManyWithoutExpenseNestedInput;
+  anomaly?: Prisma.ExpenseAnomalyUpdateOneWithoutExpenseNestedInput;
 };
 
-export type ExpenseUncheckedUpdateWithoutUserInput = {
+export type ExpenseUncheckedUpdateWithoutExchangeRateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
+  userId?: Prisma.StringFieldUpdateOperationsInput | string;
   processedEmailId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   merchant?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   amount?:
@@ -922,12 +1846,17 @@ export type ExpenseUncheckedUpdateWithoutUserInput = {
   category?: Prisma.EnumExpenseCategoryFieldUpdateOperationsInput | $Enums.ExpenseCategory;
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  customCategoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  tags?: Prisma.ExpenseUpdatetagsInput | string[];
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  shares?: Prisma.ExpenseShareUncheckedUpdateManyWithoutExpenseNestedInput;
+  anomaly?: Prisma.ExpenseAnomalyUncheckedUpdateOneWithoutExpenseNestedInput;
 };
 
-export type ExpenseUncheckedUpdateManyWithoutUserInput = {
+export type ExpenseUncheckedUpdateManyWithoutExchangeRateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
+  userId?: Prisma.StringFieldUpdateOperationsInput | string;
   processedEmailId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   merchant?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   amount?:
@@ -940,10 +1869,47 @@ export type ExpenseUncheckedUpdateManyWithoutUserInput = {
   category?: Prisma.EnumExpenseCategoryFieldUpdateOperationsInput | $Enums.ExpenseCategory;
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  customCategoryId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  tags?: Prisma.ExpenseUpdatetagsInput | string[];
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 };
 
+/**
+ * Count Type ExpenseCountOutputType
+ */
+
+export type ExpenseCountOutputType = {
+  shares: number;
+};
+
+export type ExpenseCountOutputTypeSelect<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  shares?: boolean | ExpenseCountOutputTypeCountSharesArgs;
+};
+
+/**
+ * ExpenseCountOutputType without action
+ */
+export type ExpenseCountOutputTypeDefaultArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseCountOutputType
+   */
+  select?: Prisma.ExpenseCountOutputTypeSelect<ExtArgs> | null;
+};
+
+/**
+ * ExpenseCountOutputType without action
+ */
+export type ExpenseCountOutputTypeCountSharesArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  where?: Prisma.ExpenseShareWhereInput;
+};
+
 export type ExpenseSelect<
   ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
 > = runtime.Types.Extensions.GetSelect<
@@ -957,10 +1923,18 @@ export type ExpenseSelect<
     category?: boolean;
     description?: boolean;
     date?: boolean;
+    customCategoryId?: boolean;
+    tags?: boolean;
+    exchangeRateId?: boolean;
     createdAt?: boolean;
     updatedAt?: boolean;
     user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
     processedEmail?: boolean | Prisma.Expense$processedEmailArgs<ExtArgs>;
+    customCategory?: boolean | Prisma.Expense$customCategoryArgs<ExtArgs>;
+    exchangeRate?: boolean | Prisma.Expense$exchangeRateArgs<ExtArgs>;
+    shares?: boolean | Prisma.Expense$sharesArgs<ExtArgs>;
+    anomaly?: boolean | Prisma.Expense$anomalyArgs<ExtArgs>;
+    _count?: boolean | Prisma.ExpenseCountOutputTypeDefaultArgs<ExtArgs>;
   },
   ExtArgs["result"]["expense"]
 >;
@@ -978,10 +1952,15 @@ export type ExpenseSelectCreateManyAndReturn<
     category?: boolean;
     description?: boolean;
     date?: boolean;
+    customCategoryId?: boolean;
+    tags?: boolean;
+    exchangeRateId?: boolean;
     createdAt?: boolean;
     updatedAt?: boolean;
     user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
     processedEmail?: boolean | Prisma.Expense$processedEmailArgs<ExtArgs>;
+    customCategory?: boolean | Prisma.Expense$customCategoryArgs<ExtArgs>;
+    exchangeRate?: boolean | Prisma.Expense$exchangeRateArgs<ExtArgs>;
   },
   ExtArgs["result"]["expense"]
 >;
@@ -999,10 +1978,15 @@ export type ExpenseSelectUpdateManyAndReturn<
     category?: boolean;
     description?: boolean;
     date?: boolean;
+    customCategoryId?: boolean;
+    tags?: boolean;
+    exchangeRateId?: boolean;
     createdAt?: boolean;
     updatedAt?: boolean;
     user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
     processedEmail?: boolean | Prisma.Expense$processedEmailArgs<ExtArgs>;
+    customCategory?: boolean | Prisma.Expense$customCategoryArgs<ExtArgs>;
+    exchangeRate?: boolean | Prisma.Expense$exchangeRateArgs<ExtArgs>;
   },
   ExtArgs["result"]["expense"]
 >;
@@ -1017,6 +2001,9 @@ export type ExpenseSelectScalar = {
   category?: boolean;
   description?: boolean;
   date?: boolean;
+  customCategoryId?: boolean;
+  tags?: boolean;
+  exchangeRateId?: boolean;
   createdAt?: boolean;
   updatedAt?: boolean;
 };
@@ -1033,6 +2020,9 @@ export type ExpenseOmit<
   | "category"
   | "description"
   | "date"
+  | "customCategoryId"
+  | "tags"
+  | "exchangeRateId"
   | "createdAt"
   | "updatedAt",
   ExtArgs["result"]["expense"]
@@ -1042,18 +2032,27 @@ export type ExpenseInclude<
 > = {
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
   processedEmail?: boolean | Prisma.Expense$processedEmailArgs<ExtArgs>;
+  customCategory?: boolean | Prisma.Expense$customCategoryArgs<ExtArgs>;
+  exchangeRate?: boolean | Prisma.Expense$exchangeRateArgs<ExtArgs>;
+  shares?: boolean | Prisma.Expense$sharesArgs<ExtArgs>;
+  anomaly?: boolean | Prisma.Expense$anomalyArgs<ExtArgs>;
+  _count?: boolean | Prisma.ExpenseCountOutputTypeDefaultArgs<ExtArgs>;
 };
 export type ExpenseIncludeCreateManyAndReturn<
   ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
 > = {
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
   processedEmail?: boolean | Prisma.Expense$processedEmailArgs<ExtArgs>;
+  customCategory?: boolean | Prisma.Expense$customCategoryArgs<ExtArgs>;
+  exchangeRate?: boolean | Prisma.Expense$exchangeRateArgs<ExtArgs>;
 };
 export type ExpenseIncludeUpdateManyAndReturn<
   ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
 > = {
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
   processedEmail?: boolean | Prisma.Expense$processedEmailArgs<ExtArgs>;
+  customCategory?: boolean | Prisma.Expense$customCategoryArgs<ExtArgs>;
+  exchangeRate?: boolean | Prisma.Expense$exchangeRateArgs<ExtArgs>;
 };
 
 export type $ExpensePayload<
@@ -1063,6 +2062,10 @@ export type $ExpensePayload<
   objects: {
     user: Prisma.$UserPayload<ExtArgs>;
     processedEmail: Prisma.$ProcessedEmailPayload<ExtArgs> | null;
+    customCategory: Prisma.$CustomCategoryPayload<ExtArgs> | null;
+    exchangeRate: Prisma.$ExchangeRatePayload<ExtArgs> | null;
+    shares: Prisma.$ExpenseSharePayload<ExtArgs>[];
+    anomaly: Prisma.$ExpenseAnomalyPayload<ExtArgs> | null;
   };
   scalars: runtime.Types.Extensions.GetPayloadResult<
     {
@@ -1075,6 +2078,9 @@ export type $ExpensePayload<
       category: $Enums.ExpenseCategory;
       description: string | null;
       date: Date;
+      customCategoryId: string | null;
+      tags: string[];
+      exchangeRateId: string | null;
       createdAt: Date;
       updatedAt: Date;
     },
@@ -1619,6 +2625,56 @@ export interface Prisma__ExpenseClient<
     ExtArgs,
     GlobalOmitOptions
   >;
+  customCategory<T extends Prisma.Expense$customCategoryArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.Expense$customCategoryArgs<ExtArgs>>
+  ): Prisma.Prisma__CustomCategoryClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$CustomCategoryPayload<ExtArgs>,
+      T,
+      "findUniqueOrThrow",
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+  exchangeRate<T extends Prisma.Expense$exchangeRateArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.Expense$exchangeRateArgs<ExtArgs>>
+  ): Prisma.Prisma__ExchangeRateClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExchangeRatePayload<ExtArgs>,
+      T,
+      "findUniqueOrThrow",
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+  shares<T extends Prisma.Expense$sharesArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.Expense$sharesArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    | runtime.Types.Result.GetResult<
+        Prisma.$ExpenseSharePayload<ExtArgs>,
+        T,
+        "findMany",
+        GlobalOmitOptions
+      >
+    | Null
+  >;
+  anomaly<T extends Prisma.Expense$anomalyArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.Expense$anomalyArgs<ExtArgs>>
+  ): Prisma.Prisma__ExpenseAnomalyClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseAnomalyPayload<ExtArgs>,
+      T,
+      "findUniqueOrThrow",
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1659,6 +2715,9 @@ export interface ExpenseFieldRefs {
   readonly category: Prisma.FieldRef<"Expense", "ExpenseCategory">;
   readonly description: Prisma.FieldRef<"Expense", "String">;
   readonly date: Prisma.FieldRef<"Expense", "DateTime">;
+  readonly customCategoryId: Prisma.FieldRef<"Expense", "String">;
+  readonly tags: Prisma.FieldRef<"Expense", "String[]">;
+  readonly exchangeRateId: Prisma.FieldRef<"Expense", "String">;
   readonly createdAt: Prisma.FieldRef<"Expense", "DateTime">;
   readonly updatedAt: Prisma.FieldRef<"Expense", "DateTime">;
 }
@@ -2104,6 +3163,97 @@ export type Expense$processedEmailArgs<
   where?: Prisma.ProcessedEmailWhereInput;
 };
 
+/**
+ * Expense.customCategory
+ */
+export type Expense$customCategoryArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the CustomCategory
+   */
+  select?: Prisma.CustomCategorySelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the CustomCategory
+   */
+  omit?: Prisma.CustomCategoryOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CustomCategoryInclude<ExtArgs> | null;
+  where?: Prisma.CustomCategoryWhereInput;
+};
+
+/**
+ * Expense.exchangeRate
+ */
+export type Expense$exchangeRateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExchangeRate
+   */
+  select?: Prisma.ExchangeRateSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExchangeRate
+   */
+  omit?: Prisma.ExchangeRateOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExchangeRateInclude<ExtArgs> | null;
+  where?: Prisma.ExchangeRateWhereInput;
+};
+
+/**
+ * Expense.shares
+ */
+export type Expense$sharesArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseShare
+   */
+  select?: Prisma.ExpenseShareSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseShare
+   */
+  omit?: Prisma.ExpenseShareOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseShareInclude<ExtArgs> | null;
+  where?: Prisma.ExpenseShareWhereInput;
+  orderBy?:
+    | Prisma.ExpenseShareOrderByWithRelationInput
+    | Prisma.ExpenseShareOrderByWithRelationInput[];
+  cursor?: Prisma.ExpenseShareWhereUniqueInput;
+  take?: number;
+  skip?: number;
+  distinct?: Prisma.ExpenseShareScalarFieldEnum | Prisma.ExpenseShareScalarFieldEnum[];
+};
+
+/**
+ * Expense.anomaly
+ */
+export type Expense$anomalyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseAnomaly
+   */
+  select?: Prisma.ExpenseAnomalySelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseAnomaly
+   */
+  omit?: Prisma.ExpenseAnomalyOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseAnomalyInclude<ExtArgs> | null;
+  where?: Prisma.ExpenseAnomalyWhereInput;
+};
+
 /**
  * Expense without action
  */
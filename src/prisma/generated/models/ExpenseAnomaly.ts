@@ -0,0 +1,2086 @@
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck
+/*
+ * This file exports the `ExpenseAnomaly` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client";
+import type * as $Enums from "../enums";
+import type * as Prisma from "../internal/prismaNamespace";
+
+/**
+ * Model ExpenseAnomaly
+ *
+ */
+export type ExpenseAnomalyModel =
+  runtime.Types.Result.DefaultSelection<Prisma.$ExpenseAnomalyPayload>;
+
+export type AggregateExpenseAnomaly = {
+  _count: ExpenseAnomalyCountAggregateOutputType | null;
+  _avg: ExpenseAnomalyAvgAggregateOutputType | null;
+  _sum: ExpenseAnomalySumAggregateOutputType | null;
+  _min: ExpenseAnomalyMinAggregateOutputType | null;
+  _max: ExpenseAnomalyMaxAggregateOutputType | null;
+};
+
+export type ExpenseAnomalyAvgAggregateOutputType = {
+  usualAmount: runtime.Decimal | null;
+};
+
+export type ExpenseAnomalySumAggregateOutputType = {
+  usualAmount: runtime.Decimal | null;
+};
+
+export type ExpenseAnomalyMinAggregateOutputType = {
+  id: string | null;
+  userId: string | null;
+  expenseId: string | null;
+  usualAmount: runtime.Decimal | null;
+  duplicateOfId: string | null;
+  status: $Enums.AnomalyStatus | null;
+  resolvedAt: Date | null;
+  createdAt: Date | null;
+};
+
+export type ExpenseAnomalyMaxAggregateOutputType = {
+  id: string | null;
+  userId: string | null;
+  expenseId: string | null;
+  usualAmount: runtime.Decimal | null;
+  duplicateOfId: string | null;
+  status: $Enums.AnomalyStatus | null;
+  resolvedAt: Date | null;
+  createdAt: Date | null;
+};
+
+export type ExpenseAnomalyCountAggregateOutputType = {
+  id: number;
+  userId: number;
+  expenseId: number;
+  reasons: number;
+  usualAmount: number;
+  duplicateOfId: number;
+  status: number;
+  resolvedAt: number;
+  createdAt: number;
+  _all: number;
+};
+
+export type ExpenseAnomalyAvgAggregateInputType = {
+  usualAmount?: true;
+};
+
+export type ExpenseAnomalySumAggregateInputType = {
+  usualAmount?: true;
+};
+
+export type ExpenseAnomalyMinAggregateInputType = {
+  id?: true;
+  userId?: true;
+  expenseId?: true;
+  usualAmount?: true;
+  duplicateOfId?: true;
+  status?: true;
+  resolvedAt?: true;
+  createdAt?: true;
+};
+
+export type ExpenseAnomalyMaxAggregateInputType = {
+  id?: true;
+  userId?: true;
+  expenseId?: true;
+  usualAmount?: true;
+  duplicateOfId?: true;
+  status?: true;
+  resolvedAt?: true;
+  createdAt?: true;
+};
+
+export type ExpenseAnomalyCountAggregateInputType = {
+  id?: true;
+  userId?: true;
+  expenseId?: true;
+  reasons?: true;
+  usualAmount?: true;
+  duplicateOfId?: true;
+  status?: true;
+  resolvedAt?: true;
+  createdAt?: true;
+  _all?: true;
+};
+
+export type ExpenseAnomalyAggregateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Filter which ExpenseAnomaly to aggregate.
+   */
+  where?: Prisma.ExpenseAnomalyWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of ExpenseAnomalies to fetch.
+   */
+  orderBy?:
+    | Prisma.ExpenseAnomalyOrderByWithRelationInput
+    | Prisma.ExpenseAnomalyOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the start position
+   */
+  cursor?: Prisma.ExpenseAnomalyWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` ExpenseAnomalies from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` ExpenseAnomalies.
+   */
+  skip?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Count returned ExpenseAnomalies
+   **/
+  _count?: true | ExpenseAnomalyCountAggregateInputType;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to average
+   **/
+  _avg?: ExpenseAnomalyAvgAggregateInputType;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to sum
+   **/
+  _sum?: ExpenseAnomalySumAggregateInputType;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to find the minimum value
+   **/
+  _min?: ExpenseAnomalyMinAggregateInputType;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to find the maximum value
+   **/
+  _max?: ExpenseAnomalyMaxAggregateInputType;
+};
+
+export type GetExpenseAnomalyAggregateType<T extends ExpenseAnomalyAggregateArgs> = {
+  [P in keyof T & keyof AggregateExpenseAnomaly]: P extends "_count" | "count"
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateExpenseAnomaly[P]>
+    : Prisma.GetScalarType<T[P], AggregateExpenseAnomaly[P]>;
+};
+
+export type ExpenseAnomalyGroupByArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  where?: Prisma.ExpenseAnomalyWhereInput;
+  orderBy?:
+    | Prisma.ExpenseAnomalyOrderByWithAggregationInput
+    | Prisma.ExpenseAnomalyOrderByWithAggregationInput[];
+  by: Prisma.ExpenseAnomalyScalarFieldEnum[] | Prisma.ExpenseAnomalyScalarFieldEnum;
+  having?: Prisma.ExpenseAnomalyScalarWhereWithAggregatesInput;
+  take?: number;
+  skip?: number;
+  _count?: ExpenseAnomalyCountAggregateInputType | true;
+  _avg?: ExpenseAnomalyAvgAggregateInputType;
+  _sum?: ExpenseAnomalySumAggregateInputType;
+  _min?: ExpenseAnomalyMinAggregateInputType;
+  _max?: ExpenseAnomalyMaxAggregateInputType;
+};
+
+export type ExpenseAnomalyGroupByOutputType = {
+  id: string;
+  userId: string;
+  expenseId: string;
+  reasons: $Enums.AnomalyReason[];
+  usualAmount: runtime.Decimal | null;
+  duplicateOfId: string | null;
+  status: $Enums.AnomalyStatus;
+  resolvedAt: Date | null;
+  createdAt: Date;
+  _count: ExpenseAnomalyCountAggregateOutputType | null;
+  _avg: ExpenseAnomalyAvgAggregateOutputType | null;
+  _sum: ExpenseAnomalySumAggregateOutputType | null;
+  _min: ExpenseAnomalyMinAggregateOutputType | null;
+  _max: ExpenseAnomalyMaxAggregateOutputType | null;
+};
+
+type GetExpenseAnomalyGroupByPayload<T extends ExpenseAnomalyGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ExpenseAnomalyGroupByOutputType, T["by"]> & {
+      [P in keyof T & keyof ExpenseAnomalyGroupByOutputType]: P extends "_count"
+        ? T[P] extends boolean
+          ? number
+          : Prisma.GetScalarType<T[P], ExpenseAnomalyGroupByOutputType[P]>
+        : Prisma.GetScalarType<T[P], ExpenseAnomalyGroupByOutputType[P]>;
+    }
+  >
+>;
+
+export type ExpenseAnomalyWhereInput = {
+  AND?: Prisma.ExpenseAnomalyWhereInput | Prisma.ExpenseAnomalyWhereInput[];
+  OR?: Prisma.ExpenseAnomalyWhereInput[];
+  NOT?: Prisma.ExpenseAnomalyWhereInput | Prisma.ExpenseAnomalyWhereInput[];
+  id?: Prisma.StringFilter<"ExpenseAnomaly"> | string;
+  userId?: Prisma.StringFilter<"ExpenseAnomaly"> | string;
+  expenseId?: Prisma.StringFilter<"ExpenseAnomaly"> | string;
+  reasons?: Prisma.EnumAnomalyReasonNullableListFilter<"ExpenseAnomaly">;
+  usualAmount?:
+    | Prisma.DecimalNullableFilter<"ExpenseAnomaly">
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  duplicateOfId?: Prisma.StringNullableFilter<"ExpenseAnomaly"> | string | null;
+  status?: Prisma.EnumAnomalyStatusFilter<"ExpenseAnomaly"> | $Enums.AnomalyStatus;
+  resolvedAt?: Prisma.DateTimeNullableFilter<"ExpenseAnomaly"> | Date | string | null;
+  createdAt?: Prisma.DateTimeFilter<"ExpenseAnomaly"> | Date | string;
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>;
+  expense?: Prisma.XOR<Prisma.ExpenseScalarRelationFilter, Prisma.ExpenseWhereInput>;
+};
+
+export type ExpenseAnomalyOrderByWithRelationInput = {
+  id?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  expenseId?: Prisma.SortOrder;
+  reasons?: Prisma.SortOrder;
+  usualAmount?: Prisma.SortOrderInput | Prisma.SortOrder;
+  duplicateOfId?: Prisma.SortOrderInput | Prisma.SortOrder;
+  status?: Prisma.SortOrder;
+  resolvedAt?: Prisma.SortOrderInput | Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  user?: Prisma.UserOrderByWithRelationInput;
+  expense?: Prisma.ExpenseOrderByWithRelationInput;
+};
+
+export type ExpenseAnomalyWhereUniqueInput = Prisma.AtLeast<
+  {
+    id?: string;
+    expenseId?: string;
+    AND?: Prisma.ExpenseAnomalyWhereInput | Prisma.ExpenseAnomalyWhereInput[];
+    OR?: Prisma.ExpenseAnomalyWhereInput[];
+    NOT?: Prisma.ExpenseAnomalyWhereInput | Prisma.ExpenseAnomalyWhereInput[];
+    userId?: Prisma.StringFilter<"ExpenseAnomaly"> | string;
+    reasons?: Prisma.EnumAnomalyReasonNullableListFilter<"ExpenseAnomaly">;
+    usualAmount?:
+      | Prisma.DecimalNullableFilter<"ExpenseAnomaly">
+      | runtime.Decimal
+      | runtime.DecimalJsLike
+      | number
+      | string
+      | null;
+    duplicateOfId?: Prisma.StringNullableFilter<"ExpenseAnomaly"> | string | null;
+    status?: Prisma.EnumAnomalyStatusFilter<"ExpenseAnomaly"> | $Enums.AnomalyStatus;
+    resolvedAt?: Prisma.DateTimeNullableFilter<"ExpenseAnomaly"> | Date | string | null;
+    createdAt?: Prisma.DateTimeFilter<"ExpenseAnomaly"> | Date | string;
+    user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>;
+    expense?: Prisma.XOR<Prisma.ExpenseScalarRelationFilter, Prisma.ExpenseWhereInput>;
+  },
+  "id" | "expenseId"
+>;
+
+export type ExpenseAnomalyOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  expenseId?: Prisma.SortOrder;
+  reasons?: Prisma.SortOrder;
+  usualAmount?: Prisma.SortOrderInput | Prisma.SortOrder;
+  duplicateOfId?: Prisma.SortOrderInput | Prisma.SortOrder;
+  status?: Prisma.SortOrder;
+  resolvedAt?: Prisma.SortOrderInput | Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  _count?: Prisma.ExpenseAnomalyCountOrderByAggregateInput;
+  _avg?: Prisma.ExpenseAnomalyAvgOrderByAggregateInput;
+  _max?: Prisma.ExpenseAnomalyMaxOrderByAggregateInput;
+  _min?: Prisma.ExpenseAnomalyMinOrderByAggregateInput;
+  _sum?: Prisma.ExpenseAnomalySumOrderByAggregateInput;
+};
+
+export type ExpenseAnomalyScalarWhereWithAggregatesInput = {
+  AND?:
+    | Prisma.ExpenseAnomalyScalarWhereWithAggregatesInput
+    | Prisma.ExpenseAnomalyScalarWhereWithAggregatesInput[];
+  OR?: Prisma.ExpenseAnomalyScalarWhereWithAggregatesInput[];
+  NOT?:
+    | Prisma.ExpenseAnomalyScalarWhereWithAggregatesInput
+    | Prisma.ExpenseAnomalyScalarWhereWithAggregatesInput[];
+  id?: Prisma.StringWithAggregatesFilter<"ExpenseAnomaly"> | string;
+  userId?: Prisma.StringWithAggregatesFilter<"ExpenseAnomaly"> | string;
+  expenseId?: Prisma.StringWithAggregatesFilter<"ExpenseAnomaly"> | string;
+  reasons?: Prisma.EnumAnomalyReasonNullableListFilter<"ExpenseAnomaly">;
+  usualAmount?:
+    | Prisma.DecimalNullableWithAggregatesFilter<"ExpenseAnomaly">
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  duplicateOfId?: Prisma.StringNullableWithAggregatesFilter<"ExpenseAnomaly"> | string | null;
+  status?: Prisma.EnumAnomalyStatusWithAggregatesFilter<"ExpenseAnomaly"> | $Enums.AnomalyStatus;
+  resolvedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"ExpenseAnomaly"> | Date | string | null;
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ExpenseAnomaly"> | Date | string;
+};
+
+export type ExpenseAnomalyCreateInput = {
+  id?: string;
+  reasons?: Prisma.ExpenseAnomalyCreatereasonsInput | $Enums.AnomalyReason[];
+  usualAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  duplicateOfId?: string | null;
+  status?: $Enums.AnomalyStatus;
+  resolvedAt?: Date | string | null;
+  createdAt?: Date | string;
+  user: Prisma.UserCreateNestedOneWithoutExpenseAnomaliesInput;
+  expense: Prisma.ExpenseCreateNestedOneWithoutAnomalyInput;
+};
+
+export type ExpenseAnomalyUncheckedCreateInput = {
+  id?: string;
+  userId: string;
+  expenseId: string;
+  reasons?: Prisma.ExpenseAnomalyCreatereasonsInput | $Enums.AnomalyReason[];
+  usualAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  duplicateOfId?: string | null;
+  status?: $Enums.AnomalyStatus;
+  resolvedAt?: Date | string | null;
+  createdAt?: Date | string;
+};
+
+export type ExpenseAnomalyUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  reasons?: Prisma.ExpenseAnomalyUpdatereasonsInput | $Enums.AnomalyReason[];
+  usualAmount?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  duplicateOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  status?: Prisma.EnumAnomalyStatusFieldUpdateOperationsInput | $Enums.AnomalyStatus;
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  user?: Prisma.UserUpdateOneRequiredWithoutExpenseAnomaliesNestedInput;
+  expense?: Prisma.ExpenseUpdateOneRequiredWithoutAnomalyNestedInput;
+};
+
+export type ExpenseAnomalyUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  userId?: Prisma.StringFieldUpdateOperationsInput | string;
+  expenseId?: Prisma.StringFieldUpdateOperationsInput | string;
+  reasons?: Prisma.ExpenseAnomalyUpdatereasonsInput | $Enums.AnomalyReason[];
+  usualAmount?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  duplicateOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  status?: Prisma.EnumAnomalyStatusFieldUpdateOperationsInput | $Enums.AnomalyStatus;
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type ExpenseAnomalyCreateManyInput = {
+  id?: string;
+  userId: string;
+  expenseId: string;
+  reasons?: Prisma.ExpenseAnomalyCreatereasonsInput | $Enums.AnomalyReason[];
+  usualAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  duplicateOfId?: string | null;
+  status?: $Enums.AnomalyStatus;
+  resolvedAt?: Date | string | null;
+  createdAt?: Date | string;
+};
+
+export type ExpenseAnomalyUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  reasons?: Prisma.ExpenseAnomalyUpdatereasonsInput | $Enums.AnomalyReason[];
+  usualAmount?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  duplicateOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  status?: Prisma.EnumAnomalyStatusFieldUpdateOperationsInput | $Enums.AnomalyStatus;
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type ExpenseAnomalyUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  userId?: Prisma.StringFieldUpdateOperationsInput | string;
+  expenseId?: Prisma.StringFieldUpdateOperationsInput | string;
+  reasons?: Prisma.ExpenseAnomalyUpdatereasonsInput | $Enums.AnomalyReason[];
+  usualAmount?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  duplicateOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  status?: Prisma.EnumAnomalyStatusFieldUpdateOperationsInput | $Enums.AnomalyStatus;
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type ExpenseAnomalyListRelationFilter = {
+  every?: Prisma.ExpenseAnomalyWhereInput;
+  some?: Prisma.ExpenseAnomalyWhereInput;
+  none?: Prisma.ExpenseAnomalyWhereInput;
+};
+
+export type ExpenseAnomalyOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder;
+};
+
+export type ExpenseAnomalyNullableScalarRelationFilter = {
+  is?: Prisma.ExpenseAnomalyWhereInput | null;
+  isNot?: Prisma.ExpenseAnomalyWhereInput | null;
+};
+
+export type EnumAnomalyReasonNullableListFilter<$PrismaModel = never> = {
+  equals?: $Enums.AnomalyReason[] | Prisma.ListEnumAnomalyReasonFieldRefInput<$PrismaModel> | null;
+  has?: $Enums.AnomalyReason | Prisma.EnumAnomalyReasonFieldRefInput<$PrismaModel> | null;
+  hasEvery?: $Enums.AnomalyReason[] | Prisma.ListEnumAnomalyReasonFieldRefInput<$PrismaModel>;
+  hasSome?: $Enums.AnomalyReason[] | Prisma.ListEnumAnomalyReasonFieldRefInput<$PrismaModel>;
+  isEmpty?: boolean;
+};
+
+export type ExpenseAnomalyCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  expenseId?: Prisma.SortOrder;
+  reasons?: Prisma.SortOrder;
+  usualAmount?: Prisma.SortOrder;
+  duplicateOfId?: Prisma.SortOrder;
+  status?: Prisma.SortOrder;
+  resolvedAt?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+};
+
+export type ExpenseAnomalyAvgOrderByAggregateInput = {
+  usualAmount?: Prisma.SortOrder;
+};
+
+export type ExpenseAnomalyMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  expenseId?: Prisma.SortOrder;
+  usualAmount?: Prisma.SortOrder;
+  duplicateOfId?: Prisma.SortOrder;
+  status?: Prisma.SortOrder;
+  resolvedAt?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+};
+
+export type ExpenseAnomalyMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  expenseId?: Prisma.SortOrder;
+  usualAmount?: Prisma.SortOrder;
+  duplicateOfId?: Prisma.SortOrder;
+  status?: Prisma.SortOrder;
+  resolvedAt?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+};
+
+export type ExpenseAnomalySumOrderByAggregateInput = {
+  usualAmount?: Prisma.SortOrder;
+};
+
+export type ExpenseAnomalyCreateNestedManyWithoutUserInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.ExpenseAnomalyCreateWithoutUserInput,
+        Prisma.ExpenseAnomalyUncheckedCreateWithoutUserInput
+      >
+    | Prisma.ExpenseAnomalyCreateWithoutUserInput[]
+    | Prisma.ExpenseAnomalyUncheckedCreateWithoutUserInput[];
+  connectOrCreate?:
+    | Prisma.ExpenseAnomalyCreateOrConnectWithoutUserInput
+    | Prisma.ExpenseAnomalyCreateOrConnectWithoutUserInput[];
+  createMany?: Prisma.ExpenseAnomalyCreateManyUserInputEnvelope;
+  connect?: Prisma.ExpenseAnomalyWhereUniqueInput | Prisma.ExpenseAnomalyWhereUniqueInput[];
+};
+
+export type ExpenseAnomalyUncheckedCreateNestedManyWithoutUserInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.ExpenseAnomalyCreateWithoutUserInput,
+        Prisma.ExpenseAnomalyUncheckedCreateWithoutUserInput
+      >
+    | Prisma.ExpenseAnomalyCreateWithoutUserInput[]
+    | Prisma.ExpenseAnomalyUncheckedCreateWithoutUserInput[];
+  connectOrCreate?:
+    | Prisma.ExpenseAnomalyCreateOrConnectWithoutUserInput
+    | Prisma.ExpenseAnomalyCreateOrConnectWithoutUserInput[];
+  createMany?: Prisma.ExpenseAnomalyCreateManyUserInputEnvelope;
+  connect?: Prisma.ExpenseAnomalyWhereUniqueInput | Prisma.ExpenseAnomalyWhereUniqueInput[];
+};
+
+export type ExpenseAnomalyUpdateManyWithoutUserNestedInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.ExpenseAnomalyCreateWithoutUserInput,
+        Prisma.ExpenseAnomalyUncheckedCreateWithoutUserInput
+      >
+    | Prisma.ExpenseAnomalyCreateWithoutUserInput[]
+    | Prisma.ExpenseAnomalyUncheckedCreateWithoutUserInput[];
+  connectOrCreate?:
+    | Prisma.ExpenseAnomalyCreateOrConnectWithoutUserInput
+    | Prisma.ExpenseAnomalyCreateOrConnectWithoutUserInput[];
+  upsert?:
+    | Prisma.ExpenseAnomalyUpsertWithWhereUniqueWithoutUserInput
+    | Prisma.ExpenseAnomalyUpsertWithWhereUniqueWithoutUserInput[];
+  createMany?: Prisma.ExpenseAnomalyCreateManyUserInputEnvelope;
+  set?: Prisma.ExpenseAnomalyWhereUniqueInput | Prisma.ExpenseAnomalyWhereUniqueInput[];
+  disconnect?: Prisma.ExpenseAnomalyWhereUniqueInput | Prisma.ExpenseAnomalyWhereUniqueInput[];
+  delete?: Prisma.ExpenseAnomalyWhereUniqueInput | Prisma.ExpenseAnomalyWhereUniqueInput[];
+  connect?: Prisma.ExpenseAnomalyWhereUniqueInput | Prisma.ExpenseAnomalyWhereUniqueInput[];
+  update?:
+    | Prisma.ExpenseAnomalyUpdateWithWhereUniqueWithoutUserInput
+    | Prisma.ExpenseAnomalyUpdateWithWhereUniqueWithoutUserInput[];
+  updateMany?:
+    | Prisma.ExpenseAnomalyUpdateManyWithWhereWithoutUserInput
+    | Prisma.ExpenseAnomalyUpdateManyWithWhereWithoutUserInput[];
+  deleteMany?: Prisma.ExpenseAnomalyScalarWhereInput | Prisma.ExpenseAnomalyScalarWhereInput[];
+};
+
+export type ExpenseAnomalyUncheckedUpdateManyWithoutUserNestedInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.ExpenseAnomalyCreateWithoutUserInput,
+        Prisma.ExpenseAnomalyUncheckedCreateWithoutUserInput
+      >
+    | Prisma.ExpenseAnomalyCreateWithoutUserInput[]
+    | Prisma.ExpenseAnomalyUncheckedCreateWithoutUserInput[];
+  connectOrCreate?:
+    | Prisma.ExpenseAnomalyCreateOrConnectWithoutUserInput
+    | Prisma.ExpenseAnomalyCreateOrConnectWithoutUserInput[];
+  upsert?:
+    | Prisma.ExpenseAnomalyUpsertWithWhereUniqueWithoutUserInput
+    | Prisma.ExpenseAnomalyUpsertWithWhereUniqueWithoutUserInput[];
+  createMany?: Prisma.ExpenseAnomalyCreateManyUserInputEnvelope;
+  set?: Prisma.ExpenseAnomalyWhereUniqueInput | Prisma.ExpenseAnomalyWhereUniqueInput[];
+  disconnect?: Prisma.ExpenseAnomalyWhereUniqueInput | Prisma.ExpenseAnomalyWhereUniqueInput[];
+  delete?: Prisma.ExpenseAnomalyWhereUniqueInput | Prisma.ExpenseAnomalyWhereUniqueInput[];
+  connect?: Prisma.ExpenseAnomalyWhereUniqueInput | Prisma.ExpenseAnomalyWhereUniqueInput[];
+  update?:
+    | Prisma.ExpenseAnomalyUpdateWithWhereUniqueWithoutUserInput
+    | Prisma.ExpenseAnomalyUpdateWithWhereUniqueWithoutUserInput[];
+  updateMany?:
+    | Prisma.ExpenseAnomalyUpdateManyWithWhereWithoutUserInput
+    | Prisma.ExpenseAnomalyUpdateManyWithWhereWithoutUserInput[];
+  deleteMany?: Prisma.ExpenseAnomalyScalarWhereInput | Prisma.ExpenseAnomalyScalarWhereInput[];
+};
+
+export type ExpenseAnomalyCreateNestedOneWithoutExpenseInput = {
+  create?: Prisma.XOR<
+    Prisma.ExpenseAnomalyCreateWithoutExpenseInput,
+    Prisma.ExpenseAnomalyUncheckedCreateWithoutExpenseInput
+  >;
+  connectOrCreate?: Prisma.ExpenseAnomalyCreateOrConnectWithoutExpenseInput;
+  connect?: Prisma.ExpenseAnomalyWhereUniqueInput;
+};
+
+export type ExpenseAnomalyUncheckedCreateNestedOneWithoutExpenseInput = {
+  create?: Prisma.XOR<
+    Prisma.ExpenseAnomalyCreateWithoutExpenseInput,
+    Prisma.ExpenseAnomalyUncheckedCreateWithoutExpenseInput
+  >;
+  connectOrCreate?: Prisma.ExpenseAnomalyCreateOrConnectWithoutExpenseInput;
+  connect?: Prisma.ExpenseAnomalyWhereUniqueInput;
+};
+
+export type ExpenseAnomalyUpdateOneWithoutExpenseNestedInput = {
+  create?: Prisma.XOR<
+    Prisma.ExpenseAnomalyCreateWithoutExpenseInput,
+    Prisma.ExpenseAnomalyUncheckedCreateWithoutExpenseInput
+  >;
+  connectOrCreate?: Prisma.ExpenseAnomalyCreateOrConnectWithoutExpenseInput;
+  upsert?: Prisma.ExpenseAnomalyUpsertWithoutExpenseInput;
+  disconnect?: Prisma.ExpenseAnomalyWhereInput | boolean;
+  delete?: Prisma.ExpenseAnomalyWhereInput | boolean;
+  connect?: Prisma.ExpenseAnomalyWhereUniqueInput;
+  update?: Prisma.XOR<
+    Prisma.XOR<
+      Prisma.ExpenseAnomalyUpdateToOneWithWhereWithoutExpenseInput,
+      Prisma.ExpenseAnomalyUpdateWithoutExpenseInput
+    >,
+    Prisma.ExpenseAnomalyUncheckedUpdateWithoutExpenseInput
+  >;
+};
+
+export type ExpenseAnomalyUncheckedUpdateOneWithoutExpenseNestedInput = {
+  create?: Prisma.XOR<
+    Prisma.ExpenseAnomalyCreateWithoutExpenseInput,
+    Prisma.ExpenseAnomalyUncheckedCreateWithoutExpenseInput
+  >;
+  connectOrCreate?: Prisma.ExpenseAnomalyCreateOrConnectWithoutExpenseInput;
+  upsert?: Prisma.ExpenseAnomalyUpsertWithoutExpenseInput;
+  disconnect?: Prisma.ExpenseAnomalyWhereInput | boolean;
+  delete?: Prisma.ExpenseAnomalyWhereInput | boolean;
+  connect?: Prisma.ExpenseAnomalyWhereUniqueInput;
+  update?: Prisma.XOR<
+    Prisma.XOR<
+      Prisma.ExpenseAnomalyUpdateToOneWithWhereWithoutExpenseInput,
+      Prisma.ExpenseAnomalyUpdateWithoutExpenseInput
+    >,
+    Prisma.ExpenseAnomalyUncheckedUpdateWithoutExpenseInput
+  >;
+};
+
+export type ExpenseAnomalyCreatereasonsInput = {
+  set: $Enums.AnomalyReason[];
+};
+
+export type ExpenseAnomalyUpdatereasonsInput = {
+  set?: $Enums.AnomalyReason[];
+  push?: $Enums.AnomalyReason | $Enums.AnomalyReason[];
+};
+
+export type NullableDecimalFieldUpdateOperationsInput = {
+  set?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  increment?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  decrement?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  multiply?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  divide?: runtime.Decimal | runtime.DecimalJsLike | number | string;
+};
+
+export type EnumAnomalyStatusFieldUpdateOperationsInput = {
+  set?: $Enums.AnomalyStatus;
+};
+
+export type ExpenseAnomalyCreateWithoutUserInput = {
+  id?: string;
+  reasons?: Prisma.ExpenseAnomalyCreatereasonsInput | $Enums.AnomalyReason[];
+  usualAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  duplicateOfId?: string | null;
+  status?: $Enums.AnomalyStatus;
+  resolvedAt?: Date | string | null;
+  createdAt?: Date | string;
+  expense: Prisma.ExpenseCreateNestedOneWithoutAnomalyInput;
+};
+
+export type ExpenseAnomalyUncheckedCreateWithoutUserInput = {
+  id?: string;
+  expenseId: string;
+  reasons?: Prisma.ExpenseAnomalyCreatereasonsInput | $Enums.AnomalyReason[];
+  usualAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  duplicateOfId?: string | null;
+  status?: $Enums.AnomalyStatus;
+  resolvedAt?: Date | string | null;
+  createdAt?: Date | string;
+};
+
+export type ExpenseAnomalyCreateOrConnectWithoutUserInput = {
+  where: Prisma.ExpenseAnomalyWhereUniqueInput;
+  create: Prisma.XOR<
+    Prisma.ExpenseAnomalyCreateWithoutUserInput,
+    Prisma.ExpenseAnomalyUncheckedCreateWithoutUserInput
+  >;
+};
+
+export type ExpenseAnomalyCreateManyUserInputEnvelope = {
+  data: Prisma.ExpenseAnomalyCreateManyUserInput | Prisma.ExpenseAnomalyCreateManyUserInput[];
+  skipDuplicates?: boolean;
+};
+
+export type ExpenseAnomalyUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.ExpenseAnomalyWhereUniqueInput;
+  update: Prisma.XOR<
+    Prisma.ExpenseAnomalyUpdateWithoutUserInput,
+    Prisma.ExpenseAnomalyUncheckedUpdateWithoutUserInput
+  >;
+  create: Prisma.XOR<
+    Prisma.ExpenseAnomalyCreateWithoutUserInput,
+    Prisma.ExpenseAnomalyUncheckedCreateWithoutUserInput
+  >;
+};
+
+export type ExpenseAnomalyUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.ExpenseAnomalyWhereUniqueInput;
+  data: Prisma.XOR<
+    Prisma.ExpenseAnomalyUpdateWithoutUserInput,
+    Prisma.ExpenseAnomalyUncheckedUpdateWithoutUserInput
+  >;
+};
+
+export type ExpenseAnomalyUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.ExpenseAnomalyScalarWhereInput;
+  data: Prisma.XOR<
+    Prisma.ExpenseAnomalyUpdateManyMutationInput,
+    Prisma.ExpenseAnomalyUncheckedUpdateManyWithoutUserInput
+  >;
+};
+
+export type ExpenseAnomalyScalarWhereInput = {
+  AND?: Prisma.ExpenseAnomalyScalarWhereInput | Prisma.ExpenseAnomalyScalarWhereInput[];
+  OR?: Prisma.ExpenseAnomalyScalarWhereInput[];
+  NOT?: Prisma.ExpenseAnomalyScalarWhereInput | Prisma.ExpenseAnomalyScalarWhereInput[];
+  id?: Prisma.StringFilter<"ExpenseAnomaly"> | string;
+  userId?: Prisma.StringFilter<"ExpenseAnomaly"> | string;
+  expenseId?: Prisma.StringFilter<"ExpenseAnomaly"> | string;
+  reasons?: Prisma.EnumAnomalyReasonNullableListFilter<"ExpenseAnomaly">;
+  usualAmount?:
+    | Prisma.DecimalNullableFilter<"ExpenseAnomaly">
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  duplicateOfId?: Prisma.StringNullableFilter<"ExpenseAnomaly"> | string | null;
+  status?: Prisma.EnumAnomalyStatusFilter<"ExpenseAnomaly"> | $Enums.AnomalyStatus;
+  resolvedAt?: Prisma.DateTimeNullableFilter<"ExpenseAnomaly"> | Date | string | null;
+  createdAt?: Prisma.DateTimeFilter<"ExpenseAnomaly"> | Date | string;
+};
+
+export type ExpenseAnomalyCreateWithoutExpenseInput = {
+  id?: string;
+  reasons?: Prisma.ExpenseAnomalyCreatereasonsInput | $Enums.AnomalyReason[];
+  usualAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  duplicateOfId?: string | null;
+  status?: $Enums.AnomalyStatus;
+  resolvedAt?: Date | string | null;
+  createdAt?: Date | string;
+  user: Prisma.UserCreateNestedOneWithoutExpenseAnomaliesInput;
+};
+
+export type ExpenseAnomalyUncheckedCreateWithoutExpenseInput = {
+  id?: string;
+  userId: string;
+  reasons?: Prisma.ExpenseAnomalyCreatereasonsInput | $Enums.AnomalyReason[];
+  usualAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  duplicateOfId?: string | null;
+  status?: $Enums.AnomalyStatus;
+  resolvedAt?: Date | string | null;
+  createdAt?: Date | string;
+};
+
+export type ExpenseAnomalyCreateOrConnectWithoutExpenseInput = {
+  where: Prisma.ExpenseAnomalyWhereUniqueInput;
+  create: Prisma.XOR<
+    Prisma.ExpenseAnomalyCreateWithoutExpenseInput,
+    Prisma.ExpenseAnomalyUncheckedCreateWithoutExpenseInput
+  >;
+};
+
+export type ExpenseAnomalyUpsertWithoutExpenseInput = {
+  update: Prisma.XOR<
+    Prisma.ExpenseAnomalyUpdateWithoutExpenseInput,
+    Prisma.ExpenseAnomalyUncheckedUpdateWithoutExpenseInput
+  >;
+  create: Prisma.XOR<
+    Prisma.ExpenseAnomalyCreateWithoutExpenseInput,
+    Prisma.ExpenseAnomalyUncheckedCreateWithoutExpenseInput
+  >;
+  where?: Prisma.ExpenseAnomalyWhereInput;
+};
+
+export type ExpenseAnomalyUpdateToOneWithWhereWithoutExpenseInput = {
+  where?: Prisma.ExpenseAnomalyWhereInput;
+  data: Prisma.XOR<
+    Prisma.ExpenseAnomalyUpdateWithoutExpenseInput,
+    Prisma.ExpenseAnomalyUncheckedUpdateWithoutExpenseInput
+  >;
+};
+
+export type ExpenseAnomalyUpdateWithoutExpenseInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  reasons?: Prisma.ExpenseAnomalyUpdatereasonsInput | $Enums.AnomalyReason[];
+  usualAmount?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  duplicateOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  status?: Prisma.EnumAnomalyStatusFieldUpdateOperationsInput | $Enums.AnomalyStatus;
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  user?: Prisma.UserUpdateOneRequiredWithoutExpenseAnomaliesNestedInput;
+};
+
+export type ExpenseAnomalyUncheckedUpdateWithoutExpenseInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  userId?: Prisma.StringFieldUpdateOperationsInput | string;
+  reasons?: Prisma.ExpenseAnomalyUpdatereasonsInput | $Enums.AnomalyReason[];
+  usualAmount?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  duplicateOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  status?: Prisma.EnumAnomalyStatusFieldUpdateOperationsInput | $Enums.AnomalyStatus;
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type ExpenseAnomalyCreateManyUserInput = {
+  id?: string;
+  expenseId: string;
+  reasons?: Prisma.ExpenseAnomalyCreatereasonsInput | $Enums.AnomalyReason[];
+  usualAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  duplicateOfId?: string | null;
+  status?: $Enums.AnomalyStatus;
+  resolvedAt?: Date | string | null;
+  createdAt?: Date | string;
+};
+
+export type ExpenseAnomalyUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  reasons?: Prisma.ExpenseAnomalyUpdatereasonsInput | $Enums.AnomalyReason[];
+  usualAmount?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  duplicateOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  status?: Prisma.EnumAnomalyStatusFieldUpdateOperationsInput | $Enums.AnomalyStatus;
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  expense?: Prisma.ExpenseUpdateOneRequiredWithoutAnomalyNestedInput;
+};
+
+export type ExpenseAnomalyUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  expenseId?: Prisma.StringFieldUpdateOperationsInput | string;
+  reasons?: Prisma.ExpenseAnomalyUpdatereasonsInput | $Enums.AnomalyReason[];
+  usualAmount?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  duplicateOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  status?: Prisma.EnumAnomalyStatusFieldUpdateOperationsInput | $Enums.AnomalyStatus;
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type ExpenseAnomalyUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  expenseId?: Prisma.StringFieldUpdateOperationsInput | string;
+  reasons?: Prisma.ExpenseAnomalyUpdatereasonsInput | $Enums.AnomalyReason[];
+  usualAmount?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  duplicateOfId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  status?: Prisma.EnumAnomalyStatusFieldUpdateOperationsInput | $Enums.AnomalyStatus;
+  resolvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type ExpenseAnomalySelect<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean;
+    userId?: boolean;
+    expenseId?: boolean;
+    reasons?: boolean;
+    usualAmount?: boolean;
+    duplicateOfId?: boolean;
+    status?: boolean;
+    resolvedAt?: boolean;
+    createdAt?: boolean;
+    user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+    expense?: boolean | Prisma.ExpenseDefaultArgs<ExtArgs>;
+  },
+  ExtArgs["result"]["expenseAnomaly"]
+>;
+
+export type ExpenseAnomalySelectCreateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean;
+    userId?: boolean;
+    expenseId?: boolean;
+    reasons?: boolean;
+    usualAmount?: boolean;
+    duplicateOfId?: boolean;
+    status?: boolean;
+    resolvedAt?: boolean;
+    createdAt?: boolean;
+    user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+    expense?: boolean | Prisma.ExpenseDefaultArgs<ExtArgs>;
+  },
+  ExtArgs["result"]["expenseAnomaly"]
+>;
+
+export type ExpenseAnomalySelectUpdateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean;
+    userId?: boolean;
+    expenseId?: boolean;
+    reasons?: boolean;
+    usualAmount?: boolean;
+    duplicateOfId?: boolean;
+    status?: boolean;
+    resolvedAt?: boolean;
+    createdAt?: boolean;
+    user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+    expense?: boolean | Prisma.ExpenseDefaultArgs<ExtArgs>;
+  },
+  ExtArgs["result"]["expenseAnomaly"]
+>;
+
+export type ExpenseAnomalySelectScalar = {
+  id?: boolean;
+  userId?: boolean;
+  expenseId?: boolean;
+  reasons?: boolean;
+  usualAmount?: boolean;
+  duplicateOfId?: boolean;
+  status?: boolean;
+  resolvedAt?: boolean;
+  createdAt?: boolean;
+};
+
+export type ExpenseAnomalyOmit<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetOmit<
+  | "id"
+  | "userId"
+  | "expenseId"
+  | "reasons"
+  | "usualAmount"
+  | "duplicateOfId"
+  | "status"
+  | "resolvedAt"
+  | "createdAt",
+  ExtArgs["result"]["expenseAnomaly"]
+>;
+export type ExpenseAnomalyInclude<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+  expense?: boolean | Prisma.ExpenseDefaultArgs<ExtArgs>;
+};
+export type ExpenseAnomalyIncludeCreateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+  expense?: boolean | Prisma.ExpenseDefaultArgs<ExtArgs>;
+};
+export type ExpenseAnomalyIncludeUpdateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+  expense?: boolean | Prisma.ExpenseDefaultArgs<ExtArgs>;
+};
+
+export type $ExpenseAnomalyPayload<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  name: "ExpenseAnomaly";
+  objects: {
+    user: Prisma.$UserPayload<ExtArgs>;
+    expense: Prisma.$ExpensePayload<ExtArgs>;
+  };
+  scalars: runtime.Types.Extensions.GetPayloadResult<
+    {
+      id: string;
+      userId: string;
+      expenseId: string;
+      reasons: $Enums.AnomalyReason[];
+      usualAmount: runtime.Decimal | null;
+      duplicateOfId: string | null;
+      status: $Enums.AnomalyStatus;
+      resolvedAt: Date | null;
+      createdAt: Date;
+    },
+    ExtArgs["result"]["expenseAnomaly"]
+  >;
+  composites: {};
+};
+
+export type ExpenseAnomalyGetPayload<
+  S extends boolean | null | undefined | ExpenseAnomalyDefaultArgs
+> = runtime.Types.Result.GetResult<Prisma.$ExpenseAnomalyPayload, S>;
+
+export type ExpenseAnomalyCountArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = Omit<ExpenseAnomalyFindManyArgs, "select" | "include" | "distinct" | "omit"> & {
+  select?: ExpenseAnomalyCountAggregateInputType | true;
+};
+
+export interface ExpenseAnomalyDelegate<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+  GlobalOmitOptions = {}
+> {
+  [K: symbol]: {
+    types: Prisma.TypeMap<ExtArgs>["model"]["ExpenseAnomaly"];
+    meta: { name: "ExpenseAnomaly" };
+  };
+  /**
+   * Find zero or one ExpenseAnomaly that matches the filter.
+   * @param {ExpenseAnomalyFindUniqueArgs} args - Arguments to find a ExpenseAnomaly
+   * @example
+   * // Get one ExpenseAnomaly
+   * const expenseAnomaly = await prisma.expenseAnomaly.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ExpenseAnomalyFindUniqueArgs>(
+    args: Prisma.SelectSubset<T, ExpenseAnomalyFindUniqueArgs<ExtArgs>>
+  ): Prisma.Prisma__ExpenseAnomalyClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseAnomalyPayload<ExtArgs>,
+      T,
+      "findUnique",
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find one ExpenseAnomaly that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ExpenseAnomalyFindUniqueOrThrowArgs} args - Arguments to find a ExpenseAnomaly
+   * @example
+   * // Get one ExpenseAnomaly
+   * const expenseAnomaly = await prisma.expenseAnomaly.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ExpenseAnomalyFindUniqueOrThrowArgs>(
+    args: Prisma.SelectSubset<T, ExpenseAnomalyFindUniqueOrThrowArgs<ExtArgs>>
+  ): Prisma.Prisma__ExpenseAnomalyClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseAnomalyPayload<ExtArgs>,
+      T,
+      "findUniqueOrThrow",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find the first ExpenseAnomaly that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExpenseAnomalyFindFirstArgs} args - Arguments to find a ExpenseAnomaly
+   * @example
+   * // Get one ExpenseAnomaly
+   * const expenseAnomaly = await prisma.expenseAnomaly.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ExpenseAnomalyFindFirstArgs>(
+    args?: Prisma.SelectSubset<T, ExpenseAnomalyFindFirstArgs<ExtArgs>>
+  ): Prisma.Prisma__ExpenseAnomalyClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseAnomalyPayload<ExtArgs>,
+      T,
+      "findFirst",
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find the first ExpenseAnomaly that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExpenseAnomalyFindFirstOrThrowArgs} args - Arguments to find a ExpenseAnomaly
+   * @example
+   * // Get one ExpenseAnomaly
+   * const expenseAnomaly = await prisma.expenseAnomaly.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ExpenseAnomalyFindFirstOrThrowArgs>(
+    args?: Prisma.SelectSubset<T, ExpenseAnomalyFindFirstOrThrowArgs<ExtArgs>>
+  ): Prisma.Prisma__ExpenseAnomalyClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseAnomalyPayload<ExtArgs>,
+      T,
+      "findFirstOrThrow",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find zero or more ExpenseAnomalies that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExpenseAnomalyFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ExpenseAnomalies
+   * const expenseAnomalies = await prisma.expenseAnomaly.findMany()
+   *
+   * // Get first 10 ExpenseAnomalies
+   * const expenseAnomalies = await prisma.expenseAnomaly.findMany({ take: 10 })
+   *
+   * // Only select the `id`
+   * const expenseAnomalyWithIdOnly = await prisma.expenseAnomaly.findMany({ select: { id: true } })
+   *
+   */
+  findMany<T extends ExpenseAnomalyFindManyArgs>(
+    args?: Prisma.SelectSubset<T, ExpenseAnomalyFindManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseAnomalyPayload<ExtArgs>,
+      T,
+      "findMany",
+      GlobalOmitOptions
+    >
+  >;
+
+  /**
+   * Create a ExpenseAnomaly.
+   * @param {ExpenseAnomalyCreateArgs} args - Arguments to create a ExpenseAnomaly.
+   * @example
+   * // Create one ExpenseAnomaly
+   * const ExpenseAnomaly = await prisma.expenseAnomaly.create({
+   *   data: {
+   *     // ... data to create a ExpenseAnomaly
+   *   }
+   * })
+   *
+   */
+  create<T extends ExpenseAnomalyCreateArgs>(
+    args: Prisma.SelectSubset<T, ExpenseAnomalyCreateArgs<ExtArgs>>
+  ): Prisma.Prisma__ExpenseAnomalyClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseAnomalyPayload<ExtArgs>,
+      T,
+      "create",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Create many ExpenseAnomalies.
+   * @param {ExpenseAnomalyCreateManyArgs} args - Arguments to create many ExpenseAnomalies.
+   * @example
+   * // Create many ExpenseAnomalies
+   * const expenseAnomaly = await prisma.expenseAnomaly.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   */
+  createMany<T extends ExpenseAnomalyCreateManyArgs>(
+    args?: Prisma.SelectSubset<T, ExpenseAnomalyCreateManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+  /**
+   * Create many ExpenseAnomalies and returns the data saved in the database.
+   * @param {ExpenseAnomalyCreateManyAndReturnArgs} args - Arguments to create many ExpenseAnomalies.
+   * @example
+   * // Create many ExpenseAnomalies
+   * const expenseAnomaly = await prisma.expenseAnomaly.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   * // Create many ExpenseAnomalies and only return the `id`
+   * const expenseAnomalyWithIdOnly = await prisma.expenseAnomaly.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   *
+   */
+  createManyAndReturn<T extends ExpenseAnomalyCreateManyAndReturnArgs>(
+    args?: Prisma.SelectSubset<T, ExpenseAnomalyCreateManyAndReturnArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseAnomalyPayload<ExtArgs>,
+      T,
+      "createManyAndReturn",
+      GlobalOmitOptions
+    >
+  >;
+
+  /**
+   * Delete a ExpenseAnomaly.
+   * @param {ExpenseAnomalyDeleteArgs} args - Arguments to delete one ExpenseAnomaly.
+   * @example
+   * // Delete one ExpenseAnomaly
+   * const ExpenseAnomaly = await prisma.expenseAnomaly.delete({
+   *   where: {
+   *     // ... filter to delete one ExpenseAnomaly
+   *   }
+   * })
+   *
+   */
+  delete<T extends ExpenseAnomalyDeleteArgs>(
+    args: Prisma.SelectSubset<T, ExpenseAnomalyDeleteArgs<ExtArgs>>
+  ): Prisma.Prisma__ExpenseAnomalyClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseAnomalyPayload<ExtArgs>,
+      T,
+      "delete",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Update one ExpenseAnomaly.
+   * @param {ExpenseAnomalyUpdateArgs} args - Arguments to update one ExpenseAnomaly.
+   * @example
+   * // Update one ExpenseAnomaly
+   * const expenseAnomaly = await prisma.expenseAnomaly.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   *
+   */
+  update<T extends ExpenseAnomalyUpdateArgs>(
+    args: Prisma.SelectSubset<T, ExpenseAnomalyUpdateArgs<ExtArgs>>
+  ): Prisma.Prisma__ExpenseAnomalyClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseAnomalyPayload<ExtArgs>,
+      T,
+      "update",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Delete zero or more ExpenseAnomalies.
+   * @param {ExpenseAnomalyDeleteManyArgs} args - Arguments to filter ExpenseAnomalies to delete.
+   * @example
+   * // Delete a few ExpenseAnomalies
+   * const { count } = await prisma.expenseAnomaly.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   *
+   */
+  deleteMany<T extends ExpenseAnomalyDeleteManyArgs>(
+    args?: Prisma.SelectSubset<T, ExpenseAnomalyDeleteManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+  /**
+   * Update zero or more ExpenseAnomalies.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExpenseAnomalyUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ExpenseAnomalies
+   * const expenseAnomaly = await prisma.expenseAnomaly.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   *
+   */
+  updateMany<T extends ExpenseAnomalyUpdateManyArgs>(
+    args: Prisma.SelectSubset<T, ExpenseAnomalyUpdateManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+  /**
+   * Update zero or more ExpenseAnomalies and returns the data updated in the database.
+   * @param {ExpenseAnomalyUpdateManyAndReturnArgs} args - Arguments to update many ExpenseAnomalies.
+   * @example
+   * // Update many ExpenseAnomalies
+   * const expenseAnomaly = await prisma.expenseAnomaly.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   * // Update zero or more ExpenseAnomalies and only return the `id`
+   * const expenseAnomalyWithIdOnly = await prisma.expenseAnomaly.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   *
+   */
+  updateManyAndReturn<T extends ExpenseAnomalyUpdateManyAndReturnArgs>(
+    args: Prisma.SelectSubset<T, ExpenseAnomalyUpdateManyAndReturnArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseAnomalyPayload<ExtArgs>,
+      T,
+      "updateManyAndReturn",
+      GlobalOmitOptions
+    >
+  >;
+
+  /**
+   * Create or update one ExpenseAnomaly.
+   * @param {ExpenseAnomalyUpsertArgs} args - Arguments to update or create a ExpenseAnomaly.
+   * @example
+   * // Update or create a ExpenseAnomaly
+   * const expenseAnomaly = await prisma.expenseAnomaly.upsert({
+   *   create: {
+   *     // ... data to create a ExpenseAnomaly
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ExpenseAnomaly we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ExpenseAnomalyUpsertArgs>(
+    args: Prisma.SelectSubset<T, ExpenseAnomalyUpsertArgs<ExtArgs>>
+  ): Prisma.Prisma__ExpenseAnomalyClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseAnomalyPayload<ExtArgs>,
+      T,
+      "upsert",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Count the number of ExpenseAnomalies.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExpenseAnomalyCountArgs} args - Arguments to filter ExpenseAnomalies to count.
+   * @example
+   * // Count the number of ExpenseAnomalies
+   * const count = await prisma.expenseAnomaly.count({
+   *   where: {
+   *     // ... the filter for the ExpenseAnomalies we want to count
+   *   }
+   * })
+   **/
+  count<T extends ExpenseAnomalyCountArgs>(
+    args?: Prisma.Subset<T, ExpenseAnomalyCountArgs>
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<"select", any>
+      ? T["select"] extends true
+        ? number
+        : Prisma.GetScalarType<T["select"], ExpenseAnomalyCountAggregateOutputType>
+      : number
+  >;
+
+  /**
+   * Allows you to perform aggregations operations on a ExpenseAnomaly.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExpenseAnomalyAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+   **/
+  aggregate<T extends ExpenseAnomalyAggregateArgs>(
+    args: Prisma.Subset<T, ExpenseAnomalyAggregateArgs>
+  ): Prisma.PrismaPromise<GetExpenseAnomalyAggregateType<T>>;
+
+  /**
+   * Group by ExpenseAnomaly.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExpenseAnomalyGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   *
+   **/
+  groupBy<
+    T extends ExpenseAnomalyGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<"skip", Prisma.Keys<T>>,
+      Prisma.Extends<"take", Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ExpenseAnomalyGroupByArgs["orderBy"] }
+      : { orderBy?: ExpenseAnomalyGroupByArgs["orderBy"] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<
+      Prisma.Keys<Prisma.MaybeTupleToUnion<T["orderBy"]>>
+    >,
+    ByFields extends Prisma.MaybeTupleToUnion<T["by"]>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T["having"]>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T["by"] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends Prisma.False
+        ? {
+            [P in HavingFields]: P extends ByFields
+              ? never
+              : P extends string
+                ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+                : [Error, "Field ", P, ` in "having" needs to be provided in "by"`];
+          }[HavingFields]
+        : "take" extends Prisma.Keys<T>
+          ? "orderBy" extends Prisma.Keys<T>
+            ? ByValid extends Prisma.True
+              ? {}
+              : {
+                  [P in OrderFields]: P extends ByFields
+                    ? never
+                    : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                }[OrderFields]
+            : 'Error: If you provide "take", you also need to provide "orderBy"'
+          : "skip" extends Prisma.Keys<T>
+            ? "orderBy" extends Prisma.Keys<T>
+              ? ByValid extends Prisma.True
+                ? {}
+                : {
+                    [P in OrderFields]: P extends ByFields
+                      ? never
+                      : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                  }[OrderFields]
+              : 'Error: If you provide "skip", you also need to provide "orderBy"'
+            : ByValid extends Prisma.True
+              ? {}
+              : {
+                  [P in OrderFields]: P extends ByFields
+                    ? never
+                    : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                }[OrderFields]
+  >(
+    args: Prisma.SubsetIntersection<T, ExpenseAnomalyGroupByArgs, OrderByArg> & InputErrors
+  ): {} extends InputErrors
+    ? GetExpenseAnomalyGroupByPayload<T>
+    : Prisma.PrismaPromise<InputErrors>;
+  /**
+   * Fields of the ExpenseAnomaly model
+   */
+  readonly fields: ExpenseAnomalyFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ExpenseAnomaly.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ExpenseAnomalyClient<
+  T,
+  Null = never,
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+  GlobalOmitOptions = {}
+> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise";
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>
+  ): Prisma.Prisma__UserClient<
+    | runtime.Types.Result.GetResult<
+        Prisma.$UserPayload<ExtArgs>,
+        T,
+        "findUniqueOrThrow",
+        GlobalOmitOptions
+      >
+    | Null,
+    Null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+  expense<T extends Prisma.ExpenseDefaultArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.ExpenseDefaultArgs<ExtArgs>>
+  ): Prisma.Prisma__ExpenseClient<
+    | runtime.Types.Result.GetResult<
+        Prisma.$ExpensePayload<ExtArgs>,
+        T,
+        "findUniqueOrThrow",
+        GlobalOmitOptions
+      >
+    | Null,
+    Null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(
+    onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null
+  ): runtime.Types.Utils.JsPromise<TResult1 | TResult2>;
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(
+    onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null
+  ): runtime.Types.Utils.JsPromise<T | TResult>;
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>;
+}
+
+/**
+ * Fields of the ExpenseAnomaly model
+ */
+export interface ExpenseAnomalyFieldRefs {
+  readonly id: Prisma.FieldRef<"ExpenseAnomaly", "String">;
+  readonly userId: Prisma.FieldRef<"ExpenseAnomaly", "String">;
+  readonly expenseId: Prisma.FieldRef<"ExpenseAnomaly", "String">;
+  readonly reasons: Prisma.FieldRef<"ExpenseAnomaly", "AnomalyReason[]">;
+  readonly usualAmount: Prisma.FieldRef<"ExpenseAnomaly", "Decimal">;
+  readonly duplicateOfId: Prisma.FieldRef<"ExpenseAnomaly", "String">;
+  readonly status: Prisma.FieldRef<"ExpenseAnomaly", "AnomalyStatus">;
+  readonly resolvedAt: Prisma.FieldRef<"ExpenseAnomaly", "DateTime">;
+  readonly createdAt: Prisma.FieldRef<"ExpenseAnomaly", "DateTime">;
+}
+
+// Custom InputTypes
+/**
+ * ExpenseAnomaly findUnique
+ */
+export type ExpenseAnomalyFindUniqueArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseAnomaly
+   */
+  select?: Prisma.ExpenseAnomalySelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseAnomaly
+   */
+  omit?: Prisma.ExpenseAnomalyOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseAnomalyInclude<ExtArgs> | null;
+  /**
+   * Filter, which ExpenseAnomaly to fetch.
+   */
+  where: Prisma.ExpenseAnomalyWhereUniqueInput;
+};
+
+/**
+ * ExpenseAnomaly findUniqueOrThrow
+ */
+export type ExpenseAnomalyFindUniqueOrThrowArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseAnomaly
+   */
+  select?: Prisma.ExpenseAnomalySelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseAnomaly
+   */
+  omit?: Prisma.ExpenseAnomalyOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseAnomalyInclude<ExtArgs> | null;
+  /**
+   * Filter, which ExpenseAnomaly to fetch.
+   */
+  where: Prisma.ExpenseAnomalyWhereUniqueInput;
+};
+
+/**
+ * ExpenseAnomaly findFirst
+ */
+export type ExpenseAnomalyFindFirstArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseAnomaly
+   */
+  select?: Prisma.ExpenseAnomalySelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseAnomaly
+   */
+  omit?: Prisma.ExpenseAnomalyOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseAnomalyInclude<ExtArgs> | null;
+  /**
+   * Filter, which ExpenseAnomaly to fetch.
+   */
+  where?: Prisma.ExpenseAnomalyWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of ExpenseAnomalies to fetch.
+   */
+  orderBy?:
+    | Prisma.ExpenseAnomalyOrderByWithRelationInput
+    | Prisma.ExpenseAnomalyOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for searching for ExpenseAnomalies.
+   */
+  cursor?: Prisma.ExpenseAnomalyWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` ExpenseAnomalies from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` ExpenseAnomalies.
+   */
+  skip?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   *
+   * Filter by unique combinations of ExpenseAnomalies.
+   */
+  distinct?: Prisma.ExpenseAnomalyScalarFieldEnum | Prisma.ExpenseAnomalyScalarFieldEnum[];
+};
+
+/**
+ * ExpenseAnomaly findFirstOrThrow
+ */
+export type ExpenseAnomalyFindFirstOrThrowArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseAnomaly
+   */
+  select?: Prisma.ExpenseAnomalySelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseAnomaly
+   */
+  omit?: Prisma.ExpenseAnomalyOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseAnomalyInclude<ExtArgs> | null;
+  /**
+   * Filter, which ExpenseAnomaly to fetch.
+   */
+  where?: Prisma.ExpenseAnomalyWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of ExpenseAnomalies to fetch.
+   */
+  orderBy?:
+    | Prisma.ExpenseAnomalyOrderByWithRelationInput
+    | Prisma.ExpenseAnomalyOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for searching for ExpenseAnomalies.
+   */
+  cursor?: Prisma.ExpenseAnomalyWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` ExpenseAnomalies from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` ExpenseAnomalies.
+   */
+  skip?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   *
+   * Filter by unique combinations of ExpenseAnomalies.
+   */
+  distinct?: Prisma.ExpenseAnomalyScalarFieldEnum | Prisma.ExpenseAnomalyScalarFieldEnum[];
+};
+
+/**
+ * ExpenseAnomaly findMany
+ */
+export type ExpenseAnomalyFindManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseAnomaly
+   */
+  select?: Prisma.ExpenseAnomalySelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseAnomaly
+   */
+  omit?: Prisma.ExpenseAnomalyOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseAnomalyInclude<ExtArgs> | null;
+  /**
+   * Filter, which ExpenseAnomalies to fetch.
+   */
+  where?: Prisma.ExpenseAnomalyWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of ExpenseAnomalies to fetch.
+   */
+  orderBy?:
+    | Prisma.ExpenseAnomalyOrderByWithRelationInput
+    | Prisma.ExpenseAnomalyOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for listing ExpenseAnomalies.
+   */
+  cursor?: Prisma.ExpenseAnomalyWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` ExpenseAnomalies from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` ExpenseAnomalies.
+   */
+  skip?: number;
+  distinct?: Prisma.ExpenseAnomalyScalarFieldEnum | Prisma.ExpenseAnomalyScalarFieldEnum[];
+};
+
+/**
+ * ExpenseAnomaly create
+ */
+export type ExpenseAnomalyCreateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseAnomaly
+   */
+  select?: Prisma.ExpenseAnomalySelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseAnomaly
+   */
+  omit?: Prisma.ExpenseAnomalyOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseAnomalyInclude<ExtArgs> | null;
+  /**
+   * The data needed to create a ExpenseAnomaly.
+   */
+  data: Prisma.XOR<Prisma.ExpenseAnomalyCreateInput, Prisma.ExpenseAnomalyUncheckedCreateInput>;
+};
+
+/**
+ * ExpenseAnomaly createMany
+ */
+export type ExpenseAnomalyCreateManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * The data used to create many ExpenseAnomalies.
+   */
+  data: Prisma.ExpenseAnomalyCreateManyInput | Prisma.ExpenseAnomalyCreateManyInput[];
+  skipDuplicates?: boolean;
+};
+
+/**
+ * ExpenseAnomaly createManyAndReturn
+ */
+export type ExpenseAnomalyCreateManyAndReturnArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseAnomaly
+   */
+  select?: Prisma.ExpenseAnomalySelectCreateManyAndReturn<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseAnomaly
+   */
+  omit?: Prisma.ExpenseAnomalyOmit<ExtArgs> | null;
+  /**
+   * The data used to create many ExpenseAnomalies.
+   */
+  data: Prisma.ExpenseAnomalyCreateManyInput | Prisma.ExpenseAnomalyCreateManyInput[];
+  skipDuplicates?: boolean;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseAnomalyIncludeCreateManyAndReturn<ExtArgs> | null;
+};
+
+/**
+ * ExpenseAnomaly update
+ */
+export type ExpenseAnomalyUpdateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseAnomaly
+   */
+  select?: Prisma.ExpenseAnomalySelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseAnomaly
+   */
+  omit?: Prisma.ExpenseAnomalyOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseAnomalyInclude<ExtArgs> | null;
+  /**
+   * The data needed to update a ExpenseAnomaly.
+   */
+  data: Prisma.XOR<Prisma.ExpenseAnomalyUpdateInput, Prisma.ExpenseAnomalyUncheckedUpdateInput>;
+  /**
+   * Choose, which ExpenseAnomaly to update.
+   */
+  where: Prisma.ExpenseAnomalyWhereUniqueInput;
+};
+
+/**
+ * ExpenseAnomaly updateMany
+ */
+export type ExpenseAnomalyUpdateManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * The data used to update ExpenseAnomalies.
+   */
+  data: Prisma.XOR<
+    Prisma.ExpenseAnomalyUpdateManyMutationInput,
+    Prisma.ExpenseAnomalyUncheckedUpdateManyInput
+  >;
+  /**
+   * Filter which ExpenseAnomalies to update
+   */
+  where?: Prisma.ExpenseAnomalyWhereInput;
+  /**
+   * Limit how many ExpenseAnomalies to update.
+   */
+  limit?: number;
+};
+
+/**
+ * ExpenseAnomaly updateManyAndReturn
+ */
+export type ExpenseAnomalyUpdateManyAndReturnArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseAnomaly
+   */
+  select?: Prisma.ExpenseAnomalySelectUpdateManyAndReturn<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseAnomaly
+   */
+  omit?: Prisma.ExpenseAnomalyOmit<ExtArgs> | null;
+  /**
+   * The data used to update ExpenseAnomalies.
+   */
+  data: Prisma.XOR<
+    Prisma.ExpenseAnomalyUpdateManyMutationInput,
+    Prisma.ExpenseAnomalyUncheckedUpdateManyInput
+  >;
+  /**
+   * Filter which ExpenseAnomalies to update
+   */
+  where?: Prisma.ExpenseAnomalyWhereInput;
+  /**
+   * Limit how many ExpenseAnomalies to update.
+   */
+  limit?: number;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseAnomalyIncludeUpdateManyAndReturn<ExtArgs> | null;
+};
+
+/**
+ * ExpenseAnomaly upsert
+ */
+export type ExpenseAnomalyUpsertArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseAnomaly
+   */
+  select?: Prisma.ExpenseAnomalySelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseAnomaly
+   */
+  omit?: Prisma.ExpenseAnomalyOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseAnomalyInclude<ExtArgs> | null;
+  /**
+   * The filter to search for the ExpenseAnomaly to update in case it exists.
+   */
+  where: Prisma.ExpenseAnomalyWhereUniqueInput;
+  /**
+   * In case the ExpenseAnomaly found by the `where` argument doesn't exist, create a new ExpenseAnomaly with this data.
+   */
+  create: Prisma.XOR<Prisma.ExpenseAnomalyCreateInput, Prisma.ExpenseAnomalyUncheckedCreateInput>;
+  /**
+   * In case the ExpenseAnomaly was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ExpenseAnomalyUpdateInput, Prisma.ExpenseAnomalyUncheckedUpdateInput>;
+};
+
+/**
+ * ExpenseAnomaly delete
+ */
+export type ExpenseAnomalyDeleteArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseAnomaly
+   */
+  select?: Prisma.ExpenseAnomalySelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseAnomaly
+   */
+  omit?: Prisma.ExpenseAnomalyOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseAnomalyInclude<ExtArgs> | null;
+  /**
+   * Filter which ExpenseAnomaly to delete.
+   */
+  where: Prisma.ExpenseAnomalyWhereUniqueInput;
+};
+
+/**
+ * ExpenseAnomaly deleteMany
+ */
+export type ExpenseAnomalyDeleteManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Filter which ExpenseAnomalies to delete
+   */
+  where?: Prisma.ExpenseAnomalyWhereInput;
+  /**
+   * Limit how many ExpenseAnomalies to delete.
+   */
+  limit?: number;
+};
+
+/**
+ * ExpenseAnomaly without action
+ */
+export type ExpenseAnomalyDefaultArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseAnomaly
+   */
+  select?: Prisma.ExpenseAnomalySelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseAnomaly
+   */
+  omit?: Prisma.ExpenseAnomalyOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseAnomalyInclude<ExtArgs> | null;
+};
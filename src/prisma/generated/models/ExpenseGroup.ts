@@ -0,0 +1,1863 @@
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck
+/*
+ * This file exports the `ExpenseGroup` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client";
+import type * as $Enums from "../enums";
+import type * as Prisma from "../internal/prismaNamespace";
+
+/**
+ * Model ExpenseGroup
+ *
+ */
+export type ExpenseGroupModel = runtime.Types.Result.DefaultSelection<Prisma.$ExpenseGroupPayload>;
+
+export type AggregateExpenseGroup = {
+  _count: ExpenseGroupCountAggregateOutputType | null;
+  _min: ExpenseGroupMinAggregateOutputType | null;
+  _max: ExpenseGroupMaxAggregateOutputType | null;
+};
+
+export type ExpenseGroupMinAggregateOutputType = {
+  id: string | null;
+  name: string | null;
+  createdById: string | null;
+  createdAt: Date | null;
+};
+
+export type ExpenseGroupMaxAggregateOutputType = {
+  id: string | null;
+  name: string | null;
+  createdById: string | null;
+  createdAt: Date | null;
+};
+
+export type ExpenseGroupCountAggregateOutputType = {
+  id: number;
+  name: number;
+  createdById: number;
+  createdAt: number;
+  _all: number;
+};
+
+export type ExpenseGroupMinAggregateInputType = {
+  id?: true;
+  name?: true;
+  createdById?: true;
+  createdAt?: true;
+};
+
+export type ExpenseGroupMaxAggregateInputType = {
+  id?: true;
+  name?: true;
+  createdById?: true;
+  createdAt?: true;
+};
+
+export type ExpenseGroupCountAggregateInputType = {
+  id?: true;
+  name?: true;
+  createdById?: true;
+  createdAt?: true;
+  _all?: true;
+};
+
+export type ExpenseGroupAggregateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Filter which ExpenseGroup to aggregate.
+   */
+  where?: Prisma.ExpenseGroupWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of ExpenseGroups to fetch.
+   */
+  orderBy?:
+    | Prisma.ExpenseGroupOrderByWithRelationInput
+    | Prisma.ExpenseGroupOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the start position
+   */
+  cursor?: Prisma.ExpenseGroupWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` ExpenseGroups from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` ExpenseGroups.
+   */
+  skip?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Count returned ExpenseGroups
+   **/
+  _count?: true | ExpenseGroupCountAggregateInputType;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to find the minimum value
+   **/
+  _min?: ExpenseGroupMinAggregateInputType;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to find the maximum value
+   **/
+  _max?: ExpenseGroupMaxAggregateInputType;
+};
+
+export type GetExpenseGroupAggregateType<T extends ExpenseGroupAggregateArgs> = {
+  [P in keyof T & keyof AggregateExpenseGroup]: P extends "_count" | "count"
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateExpenseGroup[P]>
+    : Prisma.GetScalarType<T[P], AggregateExpenseGroup[P]>;
+};
+
+export type ExpenseGroupGroupByArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  where?: Prisma.ExpenseGroupWhereInput;
+  orderBy?:
+    | Prisma.ExpenseGroupOrderByWithAggregationInput
+    | Prisma.ExpenseGroupOrderByWithAggregationInput[];
+  by: Prisma.ExpenseGroupScalarFieldEnum[] | Prisma.ExpenseGroupScalarFieldEnum;
+  having?: Prisma.ExpenseGroupScalarWhereWithAggregatesInput;
+  take?: number;
+  skip?: number;
+  _count?: ExpenseGroupCountAggregateInputType | true;
+  _min?: ExpenseGroupMinAggregateInputType;
+  _max?: ExpenseGroupMaxAggregateInputType;
+};
+
+export type ExpenseGroupGroupByOutputType = {
+  id: string;
+  name: string;
+  createdById: string;
+  createdAt: Date;
+  _count: ExpenseGroupCountAggregateOutputType | null;
+  _min: ExpenseGroupMinAggregateOutputType | null;
+  _max: ExpenseGroupMaxAggregateOutputType | null;
+};
+
+type GetExpenseGroupGroupByPayload<T extends ExpenseGroupGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ExpenseGroupGroupByOutputType, T["by"]> & {
+      [P in keyof T & keyof ExpenseGroupGroupByOutputType]: P extends "_count"
+        ? T[P] extends boolean
+          ? number
+          : Prisma.GetScalarType<T[P], ExpenseGroupGroupByOutputType[P]>
+        : Prisma.GetScalarType<T[P], ExpenseGroupGroupByOutputType[P]>;
+    }
+  >
+>;
+
+export type ExpenseGroupWhereInput = {
+  AND?: Prisma.ExpenseGroupWhereInput | Prisma.ExpenseGroupWhereInput[];
+  OR?: Prisma.ExpenseGroupWhereInput[];
+  NOT?: Prisma.ExpenseGroupWhereInput | Prisma.ExpenseGroupWhereInput[];
+  id?: Prisma.StringFilter<"ExpenseGroup"> | string;
+  name?: Prisma.StringFilter<"ExpenseGroup"> | string;
+  createdById?: Prisma.StringFilter<"ExpenseGroup"> | string;
+  createdAt?: Prisma.DateTimeFilter<"ExpenseGroup"> | Date | string;
+  members?: Prisma.ExpenseGroupMemberListRelationFilter;
+  shares?: Prisma.ExpenseShareListRelationFilter;
+  settlements?: Prisma.GroupSettlementListRelationFilter;
+};
+
+export type ExpenseGroupOrderByWithRelationInput = {
+  id?: Prisma.SortOrder;
+  name?: Prisma.SortOrder;
+  createdById?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  members?: Prisma.ExpenseGroupMemberOrderByRelationAggregateInput;
+  shares?: Prisma.ExpenseShareOrderByRelationAggregateInput;
+  settlements?: Prisma.GroupSettlementOrderByRelationAggregateInput;
+};
+
+export type ExpenseGroupWhereUniqueInput = Prisma.AtLeast<
+  {
+    id?: string;
+    AND?: Prisma.ExpenseGroupWhereInput | Prisma.ExpenseGroupWhereInput[];
+    OR?: Prisma.ExpenseGroupWhereInput[];
+    NOT?: Prisma.ExpenseGroupWhereInput | Prisma.ExpenseGroupWhereInput[];
+    name?: Prisma.StringFilter<"ExpenseGroup"> | string;
+    createdById?: Prisma.StringFilter<"ExpenseGroup"> | string;
+    createdAt?: Prisma.DateTimeFilter<"ExpenseGroup"> | Date | string;
+    members?: Prisma.ExpenseGroupMemberListRelationFilter;
+    shares?: Prisma.ExpenseShareListRelationFilter;
+    settlements?: Prisma.GroupSettlementListRelationFilter;
+  },
+  "id"
+>;
+
+export type ExpenseGroupOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder;
+  name?: Prisma.SortOrder;
+  createdById?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  _count?: Prisma.ExpenseGroupCountOrderByAggregateInput;
+  _max?: Prisma.ExpenseGroupMaxOrderByAggregateInput;
+  _min?: Prisma.ExpenseGroupMinOrderByAggregateInput;
+};
+
+export type ExpenseGroupScalarWhereWithAggregatesInput = {
+  AND?:
+    | Prisma.ExpenseGroupScalarWhereWithAggregatesInput
+    | Prisma.ExpenseGroupScalarWhereWithAggregatesInput[];
+  OR?: Prisma.ExpenseGroupScalarWhereWithAggregatesInput[];
+  NOT?:
+    | Prisma.ExpenseGroupScalarWhereWithAggregatesInput
+    | Prisma.ExpenseGroupScalarWhereWithAggregatesInput[];
+  id?: Prisma.StringWithAggregatesFilter<"ExpenseGroup"> | string;
+  name?: Prisma.StringWithAggregatesFilter<"ExpenseGroup"> | string;
+  createdById?: Prisma.StringWithAggregatesFilter<"ExpenseGroup"> | string;
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ExpenseGroup"> | Date | string;
+};
+
+export type ExpenseGroupCreateInput = {
+  id?: string;
+  name: string;
+  createdById: string;
+  createdAt?: Date | string;
+  members?: Prisma.ExpenseGroupMemberCreateNestedManyWithoutGroupInput;
+  shares?: Prisma.ExpenseShareCreateNestedManyWithoutGroupInput;
+  settlements?: Prisma.GroupSettlementCreateNestedManyWithoutGroupInput;
+};
+
+export type ExpenseGroupUncheckedCreateInput = {
+  id?: string;
+  name: string;
+  createdById: string;
+  createdAt?: Date | string;
+  members?: Prisma.ExpenseGroupMemberUncheckedCreateNestedManyWithoutGroupInput;
+  shares?: Prisma.ExpenseShareUncheckedCreateNestedManyWithoutGroupInput;
+  settlements?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutGroupInput;
+};
+
+export type ExpenseGroupUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  name?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdById?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  members?: Prisma.ExpenseGroupMemberUpdateManyWithoutGroupNestedInput;
+  shares?: Prisma.ExpenseShareUpdateManyWithoutGroupNestedInput;
+  settlements?: Prisma.GroupSettlementUpdateManyWithoutGroupNestedInput;
+};
+
+export type ExpenseGroupUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  name?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdById?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  members?: Prisma.ExpenseGroupMemberUncheckedUpdateManyWithoutGroupNestedInput;
+  shares?: Prisma.ExpenseShareUncheckedUpdateManyWithoutGroupNestedInput;
+  settlements?: Prisma.GroupSettlementUncheckedUpdateManyWithoutGroupNestedInput;
+};
+
+export type ExpenseGroupCreateManyInput = {
+  id?: string;
+  name: string;
+  createdById: string;
+  createdAt?: Date | string;
+};
+
+export type ExpenseGroupUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  name?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdById?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type ExpenseGroupUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  name?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdById?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type ExpenseGroupCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder;
+  name?: Prisma.SortOrder;
+  createdById?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+};
+
+export type ExpenseGroupMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder;
+  name?: Prisma.SortOrder;
+  createdById?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+};
+
+export type ExpenseGroupMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder;
+  name?: Prisma.SortOrder;
+  createdById?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+};
+
+export type ExpenseGroupScalarRelationFilter = {
+  is?: Prisma.ExpenseGroupWhereInput;
+  isNot?: Prisma.ExpenseGroupWhereInput;
+};
+
+export type ExpenseGroupCreateNestedOneWithoutMembersInput = {
+  create?: Prisma.XOR<
+    Prisma.ExpenseGroupCreateWithoutMembersInput,
+    Prisma.ExpenseGroupUncheckedCreateWithoutMembersInput
+  >;
+  connectOrCreate?: Prisma.ExpenseGroupCreateOrConnectWithoutMembersInput;
+  connect?: Prisma.ExpenseGroupWhereUniqueInput;
+};
+
+export type ExpenseGroupUpdateOneRequiredWithoutMembersNestedInput = {
+  create?: Prisma.XOR<
+    Prisma.ExpenseGroupCreateWithoutMembersInput,
+    Prisma.ExpenseGroupUncheckedCreateWithoutMembersInput
+  >;
+  connectOrCreate?: Prisma.ExpenseGroupCreateOrConnectWithoutMembersInput;
+  upsert?: Prisma.ExpenseGroupUpsertWithoutMembersInput;
+  connect?: Prisma.ExpenseGroupWhereUniqueInput;
+  update?: Prisma.XOR<
+    Prisma.XOR<
+      Prisma.ExpenseGroupUpdateToOneWithWhereWithoutMembersInput,
+      Prisma.ExpenseGroupUpdateWithoutMembersInput
+    >,
+    Prisma.ExpenseGroupUncheckedUpdateWithoutMembersInput
+  >;
+};
+
+export type ExpenseGroupCreateNestedOneWithoutSharesInput = {
+  create?: Prisma.XOR<
+    Prisma.ExpenseGroupCreateWithoutSharesInput,
+    Prisma.ExpenseGroupUncheckedCreateWithoutSharesInput
+  >;
+  connectOrCreate?: Prisma.ExpenseGroupCreateOrConnectWithoutSharesInput;
+  connect?: Prisma.ExpenseGroupWhereUniqueInput;
+};
+
+export type ExpenseGroupUpdateOneRequiredWithoutSharesNestedInput = {
+  create?: Prisma.XOR<
+    Prisma.ExpenseGroupCreateWithoutSharesInput,
+    Prisma.ExpenseGroupUncheckedCreateWithoutSharesInput
+  >;
+  connectOrCreate?: Prisma.ExpenseGroupCreateOrConnectWithoutSharesInput;
+  upsert?: Prisma.ExpenseGroupUpsertWithoutSharesInput;
+  connect?: Prisma.ExpenseGroupWhereUniqueInput;
+  update?: Prisma.XOR<
+    Prisma.XOR<
+      Prisma.ExpenseGroupUpdateToOneWithWhereWithoutSharesInput,
+      Prisma.ExpenseGroupUpdateWithoutSharesInput
+    >,
+    Prisma.ExpenseGroupUncheckedUpdateWithoutSharesInput
+  >;
+};
+
+export type ExpenseGroupCreateNestedOneWithoutSettlementsInput = {
+  create?: Prisma.XOR<
+    Prisma.ExpenseGroupCreateWithoutSettlementsInput,
+    Prisma.ExpenseGroupUncheckedCreateWithoutSettlementsInput
+  >;
+  connectOrCreate?: Prisma.ExpenseGroupCreateOrConnectWithoutSettlementsInput;
+  connect?: Prisma.ExpenseGroupWhereUniqueInput;
+};
+
+export type ExpenseGroupUpdateOneRequiredWithoutSettlementsNestedInput = {
+  create?: Prisma.XOR<
+    Prisma.ExpenseGroupCreateWithoutSettlementsInput,
+    Prisma.ExpenseGroupUncheckedCreateWithoutSettlementsInput
+  >;
+  connectOrCreate?: Prisma.ExpenseGroupCreateOrConnectWithoutSettlementsInput;
+  upsert?: Prisma.ExpenseGroupUpsertWithoutSettlementsInput;
+  connect?: Prisma.ExpenseGroupWhereUniqueInput;
+  update?: Prisma.XOR<
+    Prisma.XOR<
+      Prisma.ExpenseGroupUpdateToOneWithWhereWithoutSettlementsInput,
+      Prisma.ExpenseGroupUpdateWithoutSettlementsInput
+    >,
+    Prisma.ExpenseGroupUncheckedUpdateWithoutSettlementsInput
+  >;
+};
+
+export type ExpenseGroupCreateWithoutMembersInput = {
+  id?: string;
+  name: string;
+  createdById: string;
+  createdAt?: Date | string;
+  shares?: Prisma.ExpenseShareCreateNestedManyWithoutGroupInput;
+  settlements?: Prisma.GroupSettlementCreateNestedManyWithoutGroupInput;
+};
+
+export type ExpenseGroupUncheckedCreateWithoutMembersInput = {
+  id?: string;
+  name: string;
+  createdById: string;
+  createdAt?: Date | string;
+  shares?: Prisma.ExpenseShareUncheckedCreateNestedManyWithoutGroupInput;
+  settlements?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutGroupInput;
+};
+
+export type ExpenseGroupCreateOrConnectWithoutMembersInput = {
+  where: Prisma.ExpenseGroupWhereUniqueInput;
+  create: Prisma.XOR<
+    Prisma.ExpenseGroupCreateWithoutMembersInput,
+    Prisma.ExpenseGroupUncheckedCreateWithoutMembersInput
+  >;
+};
+
+export type ExpenseGroupUpsertWithoutMembersInput = {
+  update: Prisma.XOR<
+    Prisma.ExpenseGroupUpdateWithoutMembersInput,
+    Prisma.ExpenseGroupUncheckedUpdateWithoutMembersInput
+  >;
+  create: Prisma.XOR<
+    Prisma.ExpenseGroupCreateWithoutMembersInput,
+    Prisma.ExpenseGroupUncheckedCreateWithoutMembersInput
+  >;
+  where?: Prisma.ExpenseGroupWhereInput;
+};
+
+export type ExpenseGroupUpdateToOneWithWhereWithoutMembersInput = {
+  where?: Prisma.ExpenseGroupWhereInput;
+  data: Prisma.XOR<
+    Prisma.ExpenseGroupUpdateWithoutMembersInput,
+    Prisma.ExpenseGroupUncheckedUpdateWithoutMembersInput
+  >;
+};
+
+export type ExpenseGroupUpdateWithoutMembersInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  name?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdById?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  shares?: Prisma.ExpenseShareUpdateManyWithoutGroupNestedInput;
+  settlements?: Prisma.GroupSettlementUpdateManyWithoutGroupNestedInput;
+};
+
+export type ExpenseGroupUncheckedUpdateWithoutMembersInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  name?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdById?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  shares?: Prisma.ExpenseShareUncheckedUpdateManyWithoutGroupNestedInput;
+  settlements?: Prisma.GroupSettlementUncheckedUpdateManyWithoutGroupNestedInput;
+};
+
+export type ExpenseGroupCreateWithoutSharesInput = {
+  id?: string;
+  name: string;
+  createdById: string;
+  createdAt?: Date | string;
+  members?: Prisma.ExpenseGroupMemberCreateNestedManyWithoutGroupInput;
+  settlements?: Prisma.GroupSettlementCreateNestedManyWithoutGroupInput;
+};
+
+export type ExpenseGroupUncheckedCreateWithoutSharesInput = {
+  id?: string;
+  name: string;
+  createdById: string;
+  createdAt?: Date | string;
+  members?: Prisma.ExpenseGroupMemberUncheckedCreateNestedManyWithoutGroupInput;
+  settlements?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutGroupInput;
+};
+
+export type ExpenseGroupCreateOrConnectWithoutSharesInput = {
+  where: Prisma.ExpenseGroupWhereUniqueInput;
+  create: Prisma.XOR<
+    Prisma.ExpenseGroupCreateWithoutSharesInput,
+    Prisma.ExpenseGroupUncheckedCreateWithoutSharesInput
+  >;
+};
+
+export type ExpenseGroupUpsertWithoutSharesInput = {
+  update: Prisma.XOR<
+    Prisma.ExpenseGroupUpdateWithoutSharesInput,
+    Prisma.ExpenseGroupUncheckedUpdateWithoutSharesInput
+  >;
+  create: Prisma.XOR<
+    Prisma.ExpenseGroupCreateWithoutSharesInput,
+    Prisma.ExpenseGroupUncheckedCreateWithoutSharesInput
+  >;
+  where?: Prisma.ExpenseGroupWhereInput;
+};
+
+export type ExpenseGroupUpdateToOneWithWhereWithoutSharesInput = {
+  where?: Prisma.ExpenseGroupWhereInput;
+  data: Prisma.XOR<
+    Prisma.ExpenseGroupUpdateWithoutSharesInput,
+    Prisma.ExpenseGroupUncheckedUpdateWithoutSharesInput
+  >;
+};
+
+export type ExpenseGroupUpdateWithoutSharesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  name?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdById?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  members?: Prisma.ExpenseGroupMemberUpdateManyWithoutGroupNestedInput;
+  settlements?: Prisma.GroupSettlementUpdateManyWithoutGroupNestedInput;
+};
+
+export type ExpenseGroupUncheckedUpdateWithoutSharesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  name?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdById?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  members?: Prisma.ExpenseGroupMemberUncheckedUpdateManyWithoutGroupNestedInput;
+  settlements?: Prisma.GroupSettlementUncheckedUpdateManyWithoutGroupNestedInput;
+};
+
+export type ExpenseGroupCreateWithoutSettlementsInput = {
+  id?: string;
+  name: string;
+  createdById: string;
+  createdAt?: Date | string;
+  members?: Prisma.ExpenseGroupMemberCreateNestedManyWithoutGroupInput;
+  shares?: Prisma.ExpenseShareCreateNestedManyWithoutGroupInput;
+};
+
+export type ExpenseGroupUncheckedCreateWithoutSettlementsInput = {
+  id?: string;
+  name: string;
+  createdById: string;
+  createdAt?: Date | string;
+  members?: Prisma.ExpenseGroupMemberUncheckedCreateNestedManyWithoutGroupInput;
+  shares?: Prisma.ExpenseShareUncheckedCreateNestedManyWithoutGroupInput;
+};
+
+export type ExpenseGroupCreateOrConnectWithoutSettlementsInput = {
+  where: Prisma.ExpenseGroupWhereUniqueInput;
+  create: Prisma.XOR<
+    Prisma.ExpenseGroupCreateWithoutSettlementsInput,
+    Prisma.ExpenseGroupUncheckedCreateWithoutSettlementsInput
+  >;
+};
+
+export type ExpenseGroupUpsertWithoutSettlementsInput = {
+  update: Prisma.XOR<
+    Prisma.ExpenseGroupUpdateWithoutSettlementsInput,
+    Prisma.ExpenseGroupUncheckedUpdateWithoutSettlementsInput
+  >;
+  create: Prisma.XOR<
+    Prisma.ExpenseGroupCreateWithoutSettlementsInput,
+    Prisma.ExpenseGroupUncheckedCreateWithoutSettlementsInput
+  >;
+  where?: Prisma.ExpenseGroupWhereInput;
+};
+
+export type ExpenseGroupUpdateToOneWithWhereWithoutSettlementsInput = {
+  where?: Prisma.ExpenseGroupWhereInput;
+  data: Prisma.XOR<
+    Prisma.ExpenseGroupUpdateWithoutSettlementsInput,
+    Prisma.ExpenseGroupUncheckedUpdateWithoutSettlementsInput
+  >;
+};
+
+export type ExpenseGroupUpdateWithoutSettlementsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  name?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdById?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  members?: Prisma.ExpenseGroupMemberUpdateManyWithoutGroupNestedInput;
+  shares?: Prisma.ExpenseShareUpdateManyWithoutGroupNestedInput;
+};
+
+export type ExpenseGroupUncheckedUpdateWithoutSettlementsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  name?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdById?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  members?: Prisma.ExpenseGroupMemberUncheckedUpdateManyWithoutGroupNestedInput;
+  shares?: Prisma.ExpenseShareUncheckedUpdateManyWithoutGroupNestedInput;
+};
+
+/**
+ * Count Type ExpenseGroupCountOutputType
+ */
+
+export type ExpenseGroupCountOutputType = {
+  members: number;
+  shares: number;
+  settlements: number;
+};
+
+export type ExpenseGroupCountOutputTypeSelect<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  members?: boolean | ExpenseGroupCountOutputTypeCountMembersArgs;
+  shares?: boolean | ExpenseGroupCountOutputTypeCountSharesArgs;
+  settlements?: boolean | ExpenseGroupCountOutputTypeCountSettlementsArgs;
+};
+
+/**
+ * ExpenseGroupCountOutputType without action
+ */
+export type ExpenseGroupCountOutputTypeDefaultArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseGroupCountOutputType
+   */
+  select?: Prisma.ExpenseGroupCountOutputTypeSelect<ExtArgs> | null;
+};
+
+/**
+ * ExpenseGroupCountOutputType without action
+ */
+export type ExpenseGroupCountOutputTypeCountMembersArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  where?: Prisma.ExpenseGroupMemberWhereInput;
+};
+
+/**
+ * ExpenseGroupCountOutputType without action
+ */
+export type ExpenseGroupCountOutputTypeCountSharesArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  where?: Prisma.ExpenseShareWhereInput;
+};
+
+/**
+ * ExpenseGroupCountOutputType without action
+ */
+export type ExpenseGroupCountOutputTypeCountSettlementsArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  where?: Prisma.GroupSettlementWhereInput;
+};
+
+export type ExpenseGroupSelect<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean;
+    name?: boolean;
+    createdById?: boolean;
+    createdAt?: boolean;
+    members?: boolean | Prisma.ExpenseGroup$membersArgs<ExtArgs>;
+    shares?: boolean | Prisma.ExpenseGroup$sharesArgs<ExtArgs>;
+    settlements?: boolean | Prisma.ExpenseGroup$settlementsArgs<ExtArgs>;
+    _count?: boolean | Prisma.ExpenseGroupCountOutputTypeDefaultArgs<ExtArgs>;
+  },
+  ExtArgs["result"]["expenseGroup"]
+>;
+
+export type ExpenseGroupSelectCreateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean;
+    name?: boolean;
+    createdById?: boolean;
+    createdAt?: boolean;
+  },
+  ExtArgs["result"]["expenseGroup"]
+>;
+
+export type ExpenseGroupSelectUpdateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean;
+    name?: boolean;
+    createdById?: boolean;
+    createdAt?: boolean;
+  },
+  ExtArgs["result"]["expenseGroup"]
+>;
+
+export type ExpenseGroupSelectScalar = {
+  id?: boolean;
+  name?: boolean;
+  createdById?: boolean;
+  createdAt?: boolean;
+};
+
+export type ExpenseGroupOmit<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetOmit<
+  "id" | "name" | "createdById" | "createdAt",
+  ExtArgs["result"]["expenseGroup"]
+>;
+export type ExpenseGroupInclude<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  members?: boolean | Prisma.ExpenseGroup$membersArgs<ExtArgs>;
+  shares?: boolean | Prisma.ExpenseGroup$sharesArgs<ExtArgs>;
+  settlements?: boolean | Prisma.ExpenseGroup$settlementsArgs<ExtArgs>;
+  _count?: boolean | Prisma.ExpenseGroupCountOutputTypeDefaultArgs<ExtArgs>;
+};
+export type ExpenseGroupIncludeCreateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {};
+export type ExpenseGroupIncludeUpdateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {};
+
+export type $ExpenseGroupPayload<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  name: "ExpenseGroup";
+  objects: {
+    members: Prisma.$ExpenseGroupMemberPayload<ExtArgs>[];
+    shares: Prisma.$ExpenseSharePayload<ExtArgs>[];
+    settlements: Prisma.$GroupSettlementPayload<ExtArgs>[];
+  };
+  scalars: runtime.Types.Extensions.GetPayloadResult<
+    {
+      id: string;
+      name: string;
+      createdById: string;
+      createdAt: Date;
+    },
+    ExtArgs["result"]["expenseGroup"]
+  >;
+  composites: {};
+};
+
+export type ExpenseGroupGetPayload<S extends boolean | null | undefined | ExpenseGroupDefaultArgs> =
+  runtime.Types.Result.GetResult<Prisma.$ExpenseGroupPayload, S>;
+
+export type ExpenseGroupCountArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = Omit<ExpenseGroupFindManyArgs, "select" | "include" | "distinct" | "omit"> & {
+  select?: ExpenseGroupCountAggregateInputType | true;
+};
+
+export interface ExpenseGroupDelegate<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+  GlobalOmitOptions = {}
+> {
+  [K: symbol]: {
+    types: Prisma.TypeMap<ExtArgs>["model"]["ExpenseGroup"];
+    meta: { name: "ExpenseGroup" };
+  };
+  /**
+   * Find zero or one ExpenseGroup that matches the filter.
+   * @param {ExpenseGroupFindUniqueArgs} args - Arguments to find a ExpenseGroup
+   * @example
+   * // Get one ExpenseGroup
+   * const expenseGroup = await prisma.expenseGroup.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ExpenseGroupFindUniqueArgs>(
+    args: Prisma.SelectSubset<T, ExpenseGroupFindUniqueArgs<ExtArgs>>
+  ): Prisma.Prisma__ExpenseGroupClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseGroupPayload<ExtArgs>,
+      T,
+      "findUnique",
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find one ExpenseGroup that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ExpenseGroupFindUniqueOrThrowArgs} args - Arguments to find a ExpenseGroup
+   * @example
+   * // Get one ExpenseGroup
+   * const expenseGroup = await prisma.expenseGroup.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ExpenseGroupFindUniqueOrThrowArgs>(
+    args: Prisma.SelectSubset<T, ExpenseGroupFindUniqueOrThrowArgs<ExtArgs>>
+  ): Prisma.Prisma__ExpenseGroupClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseGroupPayload<ExtArgs>,
+      T,
+      "findUniqueOrThrow",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find the first ExpenseGroup that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExpenseGroupFindFirstArgs} args - Arguments to find a ExpenseGroup
+   * @example
+   * // Get one ExpenseGroup
+   * const expenseGroup = await prisma.expenseGroup.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ExpenseGroupFindFirstArgs>(
+    args?: Prisma.SelectSubset<T, ExpenseGroupFindFirstArgs<ExtArgs>>
+  ): Prisma.Prisma__ExpenseGroupClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseGroupPayload<ExtArgs>,
+      T,
+      "findFirst",
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find the first ExpenseGroup that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExpenseGroupFindFirstOrThrowArgs} args - Arguments to find a ExpenseGroup
+   * @example
+   * // Get one ExpenseGroup
+   * const expenseGroup = await prisma.expenseGroup.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ExpenseGroupFindFirstOrThrowArgs>(
+    args?: Prisma.SelectSubset<T, ExpenseGroupFindFirstOrThrowArgs<ExtArgs>>
+  ): Prisma.Prisma__ExpenseGroupClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseGroupPayload<ExtArgs>,
+      T,
+      "findFirstOrThrow",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find zero or more ExpenseGroups that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExpenseGroupFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ExpenseGroups
+   * const expenseGroups = await prisma.expenseGroup.findMany()
+   *
+   * // Get first 10 ExpenseGroups
+   * const expenseGroups = await prisma.expenseGroup.findMany({ take: 10 })
+   *
+   * // Only select the `id`
+   * const expenseGroupWithIdOnly = await prisma.expenseGroup.findMany({ select: { id: true } })
+   *
+   */
+  findMany<T extends ExpenseGroupFindManyArgs>(
+    args?: Prisma.SelectSubset<T, ExpenseGroupFindManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseGroupPayload<ExtArgs>,
+      T,
+      "findMany",
+      GlobalOmitOptions
+    >
+  >;
+
+  /**
+   * Create a ExpenseGroup.
+   * @param {ExpenseGroupCreateArgs} args - Arguments to create a ExpenseGroup.
+   * @example
+   * // Create one ExpenseGroup
+   * const ExpenseGroup = await prisma.expenseGroup.create({
+   *   data: {
+   *     // ... data to create a ExpenseGroup
+   *   }
+   * })
+   *
+   */
+  create<T extends ExpenseGroupCreateArgs>(
+    args: Prisma.SelectSubset<T, ExpenseGroupCreateArgs<ExtArgs>>
+  ): Prisma.Prisma__ExpenseGroupClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseGroupPayload<ExtArgs>,
+      T,
+      "create",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Create many ExpenseGroups.
+   * @param {ExpenseGroupCreateManyArgs} args - Arguments to create many ExpenseGroups.
+   * @example
+   * // Create many ExpenseGroups
+   * const expenseGroup = await prisma.expenseGroup.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   */
+  createMany<T extends ExpenseGroupCreateManyArgs>(
+    args?: Prisma.SelectSubset<T, ExpenseGroupCreateManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+  /**
+   * Create many ExpenseGroups and returns the data saved in the database.
+   * @param {ExpenseGroupCreateManyAndReturnArgs} args - Arguments to create many ExpenseGroups.
+   * @example
+   * // Create many ExpenseGroups
+   * const expenseGroup = await prisma.expenseGroup.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   * // Create many ExpenseGroups and only return the `id`
+   * const expenseGroupWithIdOnly = await prisma.expenseGroup.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   *
+   */
+  createManyAndReturn<T extends ExpenseGroupCreateManyAndReturnArgs>(
+    args?: Prisma.SelectSubset<T, ExpenseGroupCreateManyAndReturnArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseGroupPayload<ExtArgs>,
+      T,
+      "createManyAndReturn",
+      GlobalOmitOptions
+    >
+  >;
+
+  /**
+   * Delete a ExpenseGroup.
+   * @param {ExpenseGroupDeleteArgs} args - Arguments to delete one ExpenseGroup.
+   * @example
+   * // Delete one ExpenseGroup
+   * const ExpenseGroup = await prisma.expenseGroup.delete({
+   *   where: {
+   *     // ... filter to delete one ExpenseGroup
+   *   }
+   * })
+   *
+   */
+  delete<T extends ExpenseGroupDeleteArgs>(
+    args: Prisma.SelectSubset<T, ExpenseGroupDeleteArgs<ExtArgs>>
+  ): Prisma.Prisma__ExpenseGroupClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseGroupPayload<ExtArgs>,
+      T,
+      "delete",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Update one ExpenseGroup.
+   * @param {ExpenseGroupUpdateArgs} args - Arguments to update one ExpenseGroup.
+   * @example
+   * // Update one ExpenseGroup
+   * const expenseGroup = await prisma.expenseGroup.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   *
+   */
+  update<T extends ExpenseGroupUpdateArgs>(
+    args: Prisma.SelectSubset<T, ExpenseGroupUpdateArgs<ExtArgs>>
+  ): Prisma.Prisma__ExpenseGroupClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseGroupPayload<ExtArgs>,
+      T,
+      "update",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Delete zero or more ExpenseGroups.
+   * @param {ExpenseGroupDeleteManyArgs} args - Arguments to filter ExpenseGroups to delete.
+   * @example
+   * // Delete a few ExpenseGroups
+   * const { count } = await prisma.expenseGroup.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   *
+   */
+  deleteMany<T extends ExpenseGroupDeleteManyArgs>(
+    args?: Prisma.SelectSubset<T, ExpenseGroupDeleteManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+  /**
+   * Update zero or more ExpenseGroups.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExpenseGroupUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ExpenseGroups
+   * const expenseGroup = await prisma.expenseGroup.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   *
+   */
+  updateMany<T extends ExpenseGroupUpdateManyArgs>(
+    args: Prisma.SelectSubset<T, ExpenseGroupUpdateManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+  /**
+   * Update zero or more ExpenseGroups and returns the data updated in the database.
+   * @param {ExpenseGroupUpdateManyAndReturnArgs} args - Arguments to update many ExpenseGroups.
+   * @example
+   * // Update many ExpenseGroups
+   * const expenseGroup = await prisma.expenseGroup.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   * // Update zero or more ExpenseGroups and only return the `id`
+   * const expenseGroupWithIdOnly = await prisma.expenseGroup.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   *
+   */
+  updateManyAndReturn<T extends ExpenseGroupUpdateManyAndReturnArgs>(
+    args: Prisma.SelectSubset<T, ExpenseGroupUpdateManyAndReturnArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseGroupPayload<ExtArgs>,
+      T,
+      "updateManyAndReturn",
+      GlobalOmitOptions
+    >
+  >;
+
+  /**
+   * Create or update one ExpenseGroup.
+   * @param {ExpenseGroupUpsertArgs} args - Arguments to update or create a ExpenseGroup.
+   * @example
+   * // Update or create a ExpenseGroup
+   * const expenseGroup = await prisma.expenseGroup.upsert({
+   *   create: {
+   *     // ... data to create a ExpenseGroup
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ExpenseGroup we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ExpenseGroupUpsertArgs>(
+    args: Prisma.SelectSubset<T, ExpenseGroupUpsertArgs<ExtArgs>>
+  ): Prisma.Prisma__ExpenseGroupClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseGroupPayload<ExtArgs>,
+      T,
+      "upsert",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Count the number of ExpenseGroups.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExpenseGroupCountArgs} args - Arguments to filter ExpenseGroups to count.
+   * @example
+   * // Count the number of ExpenseGroups
+   * const count = await prisma.expenseGroup.count({
+   *   where: {
+   *     // ... the filter for the ExpenseGroups we want to count
+   *   }
+   * })
+   **/
+  count<T extends ExpenseGroupCountArgs>(
+    args?: Prisma.Subset<T, ExpenseGroupCountArgs>
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<"select", any>
+      ? T["select"] extends true
+        ? number
+        : Prisma.GetScalarType<T["select"], ExpenseGroupCountAggregateOutputType>
+      : number
+  >;
+
+  /**
+   * Allows you to perform aggregations operations on a ExpenseGroup.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExpenseGroupAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+   **/
+  aggregate<T extends ExpenseGroupAggregateArgs>(
+    args: Prisma.Subset<T, ExpenseGroupAggregateArgs>
+  ): Prisma.PrismaPromise<GetExpenseGroupAggregateType<T>>;
+
+  /**
+   * Group by ExpenseGroup.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExpenseGroupGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   *
+   **/
+  groupBy<
+    T extends ExpenseGroupGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<"skip", Prisma.Keys<T>>,
+      Prisma.Extends<"take", Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ExpenseGroupGroupByArgs["orderBy"] }
+      : { orderBy?: ExpenseGroupGroupByArgs["orderBy"] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<
+      Prisma.Keys<Prisma.MaybeTupleToUnion<T["orderBy"]>>
+    >,
+    ByFields extends Prisma.MaybeTupleToUnion<T["by"]>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T["having"]>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T["by"] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends Prisma.False
+        ? {
+            [P in HavingFields]: P extends ByFields
+              ? never
+              : P extends string
+                ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+                : [Error, "Field ", P, ` in "having" needs to be provided in "by"`];
+          }[HavingFields]
+        : "take" extends Prisma.Keys<T>
+          ? "orderBy" extends Prisma.Keys<T>
+            ? ByValid extends Prisma.True
+              ? {}
+              : {
+                  [P in OrderFields]: P extends ByFields
+                    ? never
+                    : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                }[OrderFields]
+            : 'Error: If you provide "take", you also need to provide "orderBy"'
+          : "skip" extends Prisma.Keys<T>
+            ? "orderBy" extends Prisma.Keys<T>
+              ? ByValid extends Prisma.True
+                ? {}
+                : {
+                    [P in OrderFields]: P extends ByFields
+                      ? never
+                      : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                  }[OrderFields]
+              : 'Error: If you provide "skip", you also need to provide "orderBy"'
+            : ByValid extends Prisma.True
+              ? {}
+              : {
+                  [P in OrderFields]: P extends ByFields
+                    ? never
+                    : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                }[OrderFields]
+  >(
+    args: Prisma.SubsetIntersection<T, ExpenseGroupGroupByArgs, OrderByArg> & InputErrors
+  ): {} extends InputErrors ? GetExpenseGroupGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>;
+  /**
+   * Fields of the ExpenseGroup model
+   */
+  readonly fields: ExpenseGroupFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ExpenseGroup.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ExpenseGroupClient<
+  T,
+  Null = never,
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+  GlobalOmitOptions = {}
+> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise";
+  members<T extends Prisma.ExpenseGroup$membersArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.ExpenseGroup$membersArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    | runtime.Types.Result.GetResult<
+        Prisma.$ExpenseGroupMemberPayload<ExtArgs>,
+        T,
+        "findMany",
+        GlobalOmitOptions
+      >
+    | Null
+  >;
+  shares<T extends Prisma.ExpenseGroup$sharesArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.ExpenseGroup$sharesArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    | runtime.Types.Result.GetResult<
+        Prisma.$ExpenseSharePayload<ExtArgs>,
+        T,
+        "findMany",
+        GlobalOmitOptions
+      >
+    | Null
+  >;
+  settlements<T extends Prisma.ExpenseGroup$settlementsArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.ExpenseGroup$settlementsArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    | runtime.Types.Result.GetResult<
+        Prisma.$GroupSettlementPayload<ExtArgs>,
+        T,
+        "findMany",
+        GlobalOmitOptions
+      >
+    | Null
+  >;
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(
+    onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null
+  ): runtime.Types.Utils.JsPromise<TResult1 | TResult2>;
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(
+    onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null
+  ): runtime.Types.Utils.JsPromise<T | TResult>;
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>;
+}
+
+/**
+ * Fields of the ExpenseGroup model
+ */
+export interface ExpenseGroupFieldRefs {
+  readonly id: Prisma.FieldRef<"ExpenseGroup", "String">;
+  readonly name: Prisma.FieldRef<"ExpenseGroup", "String">;
+  readonly createdById: Prisma.FieldRef<"ExpenseGroup", "String">;
+  readonly createdAt: Prisma.FieldRef<"ExpenseGroup", "DateTime">;
+}
+
+// Custom InputTypes
+/**
+ * ExpenseGroup findUnique
+ */
+export type ExpenseGroupFindUniqueArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseGroup
+   */
+  select?: Prisma.ExpenseGroupSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseGroup
+   */
+  omit?: Prisma.ExpenseGroupOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseGroupInclude<ExtArgs> | null;
+  /**
+   * Filter, which ExpenseGroup to fetch.
+   */
+  where: Prisma.ExpenseGroupWhereUniqueInput;
+};
+
+/**
+ * ExpenseGroup findUniqueOrThrow
+ */
+export type ExpenseGroupFindUniqueOrThrowArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseGroup
+   */
+  select?: Prisma.ExpenseGroupSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseGroup
+   */
+  omit?: Prisma.ExpenseGroupOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseGroupInclude<ExtArgs> | null;
+  /**
+   * Filter, which ExpenseGroup to fetch.
+   */
+  where: Prisma.ExpenseGroupWhereUniqueInput;
+};
+
+/**
+ * ExpenseGroup findFirst
+ */
+export type ExpenseGroupFindFirstArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseGroup
+   */
+  select?: Prisma.ExpenseGroupSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseGroup
+   */
+  omit?: Prisma.ExpenseGroupOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseGroupInclude<ExtArgs> | null;
+  /**
+   * Filter, which ExpenseGroup to fetch.
+   */
+  where?: Prisma.ExpenseGroupWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of ExpenseGroups to fetch.
+   */
+  orderBy?:
+    | Prisma.ExpenseGroupOrderByWithRelationInput
+    | Prisma.ExpenseGroupOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for searching for ExpenseGroups.
+   */
+  cursor?: Prisma.ExpenseGroupWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` ExpenseGroups from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` ExpenseGroups.
+   */
+  skip?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   *
+   * Filter by unique combinations of ExpenseGroups.
+   */
+  distinct?: Prisma.ExpenseGroupScalarFieldEnum | Prisma.ExpenseGroupScalarFieldEnum[];
+};
+
+/**
+ * ExpenseGroup findFirstOrThrow
+ */
+export type ExpenseGroupFindFirstOrThrowArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseGroup
+   */
+  select?: Prisma.ExpenseGroupSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseGroup
+   */
+  omit?: Prisma.ExpenseGroupOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseGroupInclude<ExtArgs> | null;
+  /**
+   * Filter, which ExpenseGroup to fetch.
+   */
+  where?: Prisma.ExpenseGroupWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of ExpenseGroups to fetch.
+   */
+  orderBy?:
+    | Prisma.ExpenseGroupOrderByWithRelationInput
+    | Prisma.ExpenseGroupOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for searching for ExpenseGroups.
+   */
+  cursor?: Prisma.ExpenseGroupWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` ExpenseGroups from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` ExpenseGroups.
+   */
+  skip?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   *
+   * Filter by unique combinations of ExpenseGroups.
+   */
+  distinct?: Prisma.ExpenseGroupScalarFieldEnum | Prisma.ExpenseGroupScalarFieldEnum[];
+};
+
+/**
+ * ExpenseGroup findMany
+ */
+export type ExpenseGroupFindManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseGroup
+   */
+  select?: Prisma.ExpenseGroupSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseGroup
+   */
+  omit?: Prisma.ExpenseGroupOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseGroupInclude<ExtArgs> | null;
+  /**
+   * Filter, which ExpenseGroups to fetch.
+   */
+  where?: Prisma.ExpenseGroupWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of ExpenseGroups to fetch.
+   */
+  orderBy?:
+    | Prisma.ExpenseGroupOrderByWithRelationInput
+    | Prisma.ExpenseGroupOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for listing ExpenseGroups.
+   */
+  cursor?: Prisma.ExpenseGroupWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` ExpenseGroups from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` ExpenseGroups.
+   */
+  skip?: number;
+  distinct?: Prisma.ExpenseGroupScalarFieldEnum | Prisma.ExpenseGroupScalarFieldEnum[];
+};
+
+/**
+ * ExpenseGroup create
+ */
+export type ExpenseGroupCreateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseGroup
+   */
+  select?: Prisma.ExpenseGroupSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseGroup
+   */
+  omit?: Prisma.ExpenseGroupOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseGroupInclude<ExtArgs> | null;
+  /**
+   * The data needed to create a ExpenseGroup.
+   */
+  data: Prisma.XOR<Prisma.ExpenseGroupCreateInput, Prisma.ExpenseGroupUncheckedCreateInput>;
+};
+
+/**
+ * ExpenseGroup createMany
+ */
+export type ExpenseGroupCreateManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * The data used to create many ExpenseGroups.
+   */
+  data: Prisma.ExpenseGroupCreateManyInput | Prisma.ExpenseGroupCreateManyInput[];
+  skipDuplicates?: boolean;
+};
+
+/**
+ * ExpenseGroup createManyAndReturn
+ */
+export type ExpenseGroupCreateManyAndReturnArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseGroup
+   */
+  select?: Prisma.ExpenseGroupSelectCreateManyAndReturn<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseGroup
+   */
+  omit?: Prisma.ExpenseGroupOmit<ExtArgs> | null;
+  /**
+   * The data used to create many ExpenseGroups.
+   */
+  data: Prisma.ExpenseGroupCreateManyInput | Prisma.ExpenseGroupCreateManyInput[];
+  skipDuplicates?: boolean;
+};
+
+/**
+ * ExpenseGroup update
+ */
+export type ExpenseGroupUpdateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseGroup
+   */
+  select?: Prisma.ExpenseGroupSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseGroup
+   */
+  omit?: Prisma.ExpenseGroupOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseGroupInclude<ExtArgs> | null;
+  /**
+   * The data needed to update a ExpenseGroup.
+   */
+  data: Prisma.XOR<Prisma.ExpenseGroupUpdateInput, Prisma.ExpenseGroupUncheckedUpdateInput>;
+  /**
+   * Choose, which ExpenseGroup to update.
+   */
+  where: Prisma.ExpenseGroupWhereUniqueInput;
+};
+
+/**
+ * ExpenseGroup updateMany
+ */
+export type ExpenseGroupUpdateManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * The data used to update ExpenseGroups.
+   */
+  data: Prisma.XOR<
+    Prisma.ExpenseGroupUpdateManyMutationInput,
+    Prisma.ExpenseGroupUncheckedUpdateManyInput
+  >;
+  /**
+   * Filter which ExpenseGroups to update
+   */
+  where?: Prisma.ExpenseGroupWhereInput;
+  /**
+   * Limit how many ExpenseGroups to update.
+   */
+  limit?: number;
+};
+
+/**
+ * ExpenseGroup updateManyAndReturn
+ */
+export type ExpenseGroupUpdateManyAndReturnArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseGroup
+   */
+  select?: Prisma.ExpenseGroupSelectUpdateManyAndReturn<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseGroup
+   */
+  omit?: Prisma.ExpenseGroupOmit<ExtArgs> | null;
+  /**
+   * The data used to update ExpenseGroups.
+   */
+  data: Prisma.XOR<
+    Prisma.ExpenseGroupUpdateManyMutationInput,
+    Prisma.ExpenseGroupUncheckedUpdateManyInput
+  >;
+  /**
+   * Filter which ExpenseGroups to update
+   */
+  where?: Prisma.ExpenseGroupWhereInput;
+  /**
+   * Limit how many ExpenseGroups to update.
+   */
+  limit?: number;
+};
+
+/**
+ * ExpenseGroup upsert
+ */
+export type ExpenseGroupUpsertArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseGroup
+   */
+  select?: Prisma.ExpenseGroupSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseGroup
+   */
+  omit?: Prisma.ExpenseGroupOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseGroupInclude<ExtArgs> | null;
+  /**
+   * The filter to search for the ExpenseGroup to update in case it exists.
+   */
+  where: Prisma.ExpenseGroupWhereUniqueInput;
+  /**
+   * In case the ExpenseGroup found by the `where` argument doesn't exist, create a new ExpenseGroup with this data.
+   */
+  create: Prisma.XOR<Prisma.ExpenseGroupCreateInput, Prisma.ExpenseGroupUncheckedCreateInput>;
+  /**
+   * In case the ExpenseGroup was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ExpenseGroupUpdateInput, Prisma.ExpenseGroupUncheckedUpdateInput>;
+};
+
+/**
+ * ExpenseGroup delete
+ */
+export type ExpenseGroupDeleteArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseGroup
+   */
+  select?: Prisma.ExpenseGroupSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseGroup
+   */
+  omit?: Prisma.ExpenseGroupOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseGroupInclude<ExtArgs> | null;
+  /**
+   * Filter which ExpenseGroup to delete.
+   */
+  where: Prisma.ExpenseGroupWhereUniqueInput;
+};
+
+/**
+ * ExpenseGroup deleteMany
+ */
+export type ExpenseGroupDeleteManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Filter which ExpenseGroups to delete
+   */
+  where?: Prisma.ExpenseGroupWhereInput;
+  /**
+   * Limit how many ExpenseGroups to delete.
+   */
+  limit?: number;
+};
+
+/**
+ * ExpenseGroup.members
+ */
+export type ExpenseGroup$membersArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseGroupMember
+   */
+  select?: Prisma.ExpenseGroupMemberSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseGroupMember
+   */
+  omit?: Prisma.ExpenseGroupMemberOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseGroupMemberInclude<ExtArgs> | null;
+  where?: Prisma.ExpenseGroupMemberWhereInput;
+  orderBy?:
+    | Prisma.ExpenseGroupMemberOrderByWithRelationInput
+    | Prisma.ExpenseGroupMemberOrderByWithRelationInput[];
+  cursor?: Prisma.ExpenseGroupMemberWhereUniqueInput;
+  take?: number;
+  skip?: number;
+  distinct?: Prisma.ExpenseGroupMemberScalarFieldEnum | Prisma.ExpenseGroupMemberScalarFieldEnum[];
+};
+
+/**
+ * ExpenseGroup.shares
+ */
+export type ExpenseGroup$sharesArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseShare
+   */
+  select?: Prisma.ExpenseShareSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseShare
+   */
+  omit?: Prisma.ExpenseShareOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseShareInclude<ExtArgs> | null;
+  where?: Prisma.ExpenseShareWhereInput;
+  orderBy?:
+    | Prisma.ExpenseShareOrderByWithRelationInput
+    | Prisma.ExpenseShareOrderByWithRelationInput[];
+  cursor?: Prisma.ExpenseShareWhereUniqueInput;
+  take?: number;
+  skip?: number;
+  distinct?: Prisma.ExpenseShareScalarFieldEnum | Prisma.ExpenseShareScalarFieldEnum[];
+};
+
+/**
+ * ExpenseGroup.settlements
+ */
+export type ExpenseGroup$settlementsArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the GroupSettlement
+   */
+  select?: Prisma.GroupSettlementSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the GroupSettlement
+   */
+  omit?: Prisma.GroupSettlementOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GroupSettlementInclude<ExtArgs> | null;
+  where?: Prisma.GroupSettlementWhereInput;
+  orderBy?:
+    | Prisma.GroupSettlementOrderByWithRelationInput
+    | Prisma.GroupSettlementOrderByWithRelationInput[];
+  cursor?: Prisma.GroupSettlementWhereUniqueInput;
+  take?: number;
+  skip?: number;
+  distinct?: Prisma.GroupSettlementScalarFieldEnum | Prisma.GroupSettlementScalarFieldEnum[];
+};
+
+/**
+ * ExpenseGroup without action
+ */
+export type ExpenseGroupDefaultArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseGroup
+   */
+  select?: Prisma.ExpenseGroupSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseGroup
+   */
+  omit?: Prisma.ExpenseGroupOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseGroupInclude<ExtArgs> | null;
+};
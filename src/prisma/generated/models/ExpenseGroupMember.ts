@@ -0,0 +1,1915 @@
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck
+/*
+ * This file exports the `ExpenseGroupMember` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client";
+import type * as $Enums from "../enums";
+import type * as Prisma from "../internal/prismaNamespace";
+
+/**
+ * Model ExpenseGroupMember
+ *
+ */
+export type ExpenseGroupMemberModel =
+  runtime.Types.Result.DefaultSelection<Prisma.$ExpenseGroupMemberPayload>;
+
+export type AggregateExpenseGroupMember = {
+  _count: ExpenseGroupMemberCountAggregateOutputType | null;
+  _min: ExpenseGroupMemberMinAggregateOutputType | null;
+  _max: ExpenseGroupMemberMaxAggregateOutputType | null;
+};
+
+export type ExpenseGroupMemberMinAggregateOutputType = {
+  id: string | null;
+  groupId: string | null;
+  userId: string | null;
+  status: $Enums.GroupMemberStatus | null;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+};
+
+export type ExpenseGroupMemberMaxAggregateOutputType = {
+  id: string | null;
+  groupId: string | null;
+  userId: string | null;
+  status: $Enums.GroupMemberStatus | null;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+};
+
+export type ExpenseGroupMemberCountAggregateOutputType = {
+  id: number;
+  groupId: number;
+  userId: number;
+  status: number;
+  createdAt: number;
+  updatedAt: number;
+  _all: number;
+};
+
+export type ExpenseGroupMemberMinAggregateInputType = {
+  id?: true;
+  groupId?: true;
+  userId?: true;
+  status?: true;
+  createdAt?: true;
+  updatedAt?: true;
+};
+
+export type ExpenseGroupMemberMaxAggregateInputType = {
+  id?: true;
+  groupId?: true;
+  userId?: true;
+  status?: true;
+  createdAt?: true;
+  updatedAt?: true;
+};
+
+export type ExpenseGroupMemberCountAggregateInputType = {
+  id?: true;
+  groupId?: true;
+  userId?: true;
+  status?: true;
+  createdAt?: true;
+  updatedAt?: true;
+  _all?: true;
+};
+
+export type ExpenseGroupMemberAggregateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Filter which ExpenseGroupMember to aggregate.
+   */
+  where?: Prisma.ExpenseGroupMemberWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of ExpenseGroupMembers to fetch.
+   */
+  orderBy?:
+    | Prisma.ExpenseGroupMemberOrderByWithRelationInput
+    | Prisma.ExpenseGroupMemberOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the start position
+   */
+  cursor?: Prisma.ExpenseGroupMemberWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` ExpenseGroupMembers from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` ExpenseGroupMembers.
+   */
+  skip?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Count returned ExpenseGroupMembers
+   **/
+  _count?: true | ExpenseGroupMemberCountAggregateInputType;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to find the minimum value
+   **/
+  _min?: ExpenseGroupMemberMinAggregateInputType;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to find the maximum value
+   **/
+  _max?: ExpenseGroupMemberMaxAggregateInputType;
+};
+
+export type GetExpenseGroupMemberAggregateType<T extends ExpenseGroupMemberAggregateArgs> = {
+  [P in keyof T & keyof AggregateExpenseGroupMember]: P extends "_count" | "count"
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateExpenseGroupMember[P]>
+    : Prisma.GetScalarType<T[P], AggregateExpenseGroupMember[P]>;
+};
+
+export type ExpenseGroupMemberGroupByArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  where?: Prisma.ExpenseGroupMemberWhereInput;
+  orderBy?:
+    | Prisma.ExpenseGroupMemberOrderByWithAggregationInput
+    | Prisma.ExpenseGroupMemberOrderByWithAggregationInput[];
+  by: Prisma.ExpenseGroupMemberScalarFieldEnum[] | Prisma.ExpenseGroupMemberScalarFieldEnum;
+  having?: Prisma.ExpenseGroupMemberScalarWhereWithAggregatesInput;
+  take?: number;
+  skip?: number;
+  _count?: ExpenseGroupMemberCountAggregateInputType | true;
+  _min?: ExpenseGroupMemberMinAggregateInputType;
+  _max?: ExpenseGroupMemberMaxAggregateInputType;
+};
+
+export type ExpenseGroupMemberGroupByOutputType = {
+  id: string;
+  groupId: string;
+  userId: string;
+  status: $Enums.GroupMemberStatus;
+  createdAt: Date;
+  updatedAt: Date;
+  _count: ExpenseGroupMemberCountAggregateOutputType | null;
+  _min: ExpenseGroupMemberMinAggregateOutputType | null;
+  _max: ExpenseGroupMemberMaxAggregateOutputType | null;
+};
+
+type GetExpenseGroupMemberGroupByPayload<T extends ExpenseGroupMemberGroupByArgs> =
+  Prisma.PrismaPromise<
+    Array<
+      Prisma.PickEnumerable<ExpenseGroupMemberGroupByOutputType, T["by"]> & {
+        [P in keyof T & keyof ExpenseGroupMemberGroupByOutputType]: P extends "_count"
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ExpenseGroupMemberGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ExpenseGroupMemberGroupByOutputType[P]>;
+      }
+    >
+  >;
+
+export type ExpenseGroupMemberWhereInput = {
+  AND?: Prisma.ExpenseGroupMemberWhereInput | Prisma.ExpenseGroupMemberWhereInput[];
+  OR?: Prisma.ExpenseGroupMemberWhereInput[];
+  NOT?: Prisma.ExpenseGroupMemberWhereInput | Prisma.ExpenseGroupMemberWhereInput[];
+  id?: Prisma.StringFilter<"ExpenseGroupMember"> | string;
+  groupId?: Prisma.StringFilter<"ExpenseGroupMember"> | string;
+  userId?: Prisma.StringFilter<"ExpenseGroupMember"> | string;
+  status?: Prisma.EnumGroupMemberStatusFilter<"ExpenseGroupMember"> | $Enums.GroupMemberStatus;
+  createdAt?: Prisma.DateTimeFilter<"ExpenseGroupMember"> | Date | string;
+  updatedAt?: Prisma.DateTimeFilter<"ExpenseGroupMember"> | Date | string;
+  group?: Prisma.XOR<Prisma.ExpenseGroupScalarRelationFilter, Prisma.ExpenseGroupWhereInput>;
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>;
+};
+
+export type ExpenseGroupMemberOrderByWithRelationInput = {
+  id?: Prisma.SortOrder;
+  groupId?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  status?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  updatedAt?: Prisma.SortOrder;
+  group?: Prisma.ExpenseGroupOrderByWithRelationInput;
+  user?: Prisma.UserOrderByWithRelationInput;
+};
+
+export type ExpenseGroupMemberWhereUniqueInput = Prisma.AtLeast<
+  {
+    id?: string;
+    groupId_userId?: Prisma.ExpenseGroupMemberGroupIdUserIdCompoundUniqueInput;
+    AND?: Prisma.ExpenseGroupMemberWhereInput | Prisma.ExpenseGroupMemberWhereInput[];
+    OR?: Prisma.ExpenseGroupMemberWhereInput[];
+    NOT?: Prisma.ExpenseGroupMemberWhereInput | Prisma.ExpenseGroupMemberWhereInput[];
+    groupId?: Prisma.StringFilter<"ExpenseGroupMember"> | string;
+    userId?: Prisma.StringFilter<"ExpenseGroupMember"> | string;
+    status?: Prisma.EnumGroupMemberStatusFilter<"ExpenseGroupMember"> | $Enums.GroupMemberStatus;
+    createdAt?: Prisma.DateTimeFilter<"ExpenseGroupMember"> | Date | string;
+    updatedAt?: Prisma.DateTimeFilter<"ExpenseGroupMember"> | Date | string;
+    group?: Prisma.XOR<Prisma.ExpenseGroupScalarRelationFilter, Prisma.ExpenseGroupWhereInput>;
+    user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>;
+  },
+  "id" | "groupId_userId"
+>;
+
+export type ExpenseGroupMemberOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder;
+  groupId?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  status?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  updatedAt?: Prisma.SortOrder;
+  _count?: Prisma.ExpenseGroupMemberCountOrderByAggregateInput;
+  _max?: Prisma.ExpenseGroupMemberMaxOrderByAggregateInput;
+  _min?: Prisma.ExpenseGroupMemberMinOrderByAggregateInput;
+};
+
+export type ExpenseGroupMemberScalarWhereWithAggregatesInput = {
+  AND?:
+    | Prisma.ExpenseGroupMemberScalarWhereWithAggregatesInput
+    | Prisma.ExpenseGroupMemberScalarWhereWithAggregatesInput[];
+  OR?: Prisma.ExpenseGroupMemberScalarWhereWithAggregatesInput[];
+  NOT?:
+    | Prisma.ExpenseGroupMemberScalarWhereWithAggregatesInput
+    | Prisma.ExpenseGroupMemberScalarWhereWithAggregatesInput[];
+  id?: Prisma.StringWithAggregatesFilter<"ExpenseGroupMember"> | string;
+  groupId?: Prisma.StringWithAggregatesFilter<"ExpenseGroupMember"> | string;
+  userId?: Prisma.StringWithAggregatesFilter<"ExpenseGroupMember"> | string;
+  status?:
+    | Prisma.EnumGroupMemberStatusWithAggregatesFilter<"ExpenseGroupMember">
+    | $Enums.GroupMemberStatus;
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ExpenseGroupMember"> | Date | string;
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"ExpenseGroupMember"> | Date | string;
+};
+
+export type ExpenseGroupMemberCreateInput = {
+  id?: string;
+  status?: $Enums.GroupMemberStatus;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  group: Prisma.ExpenseGroupCreateNestedOneWithoutMembersInput;
+  user: Prisma.UserCreateNestedOneWithoutExpenseGroupsInput;
+};
+
+export type ExpenseGroupMemberUncheckedCreateInput = {
+  id?: string;
+  groupId: string;
+  userId: string;
+  status?: $Enums.GroupMemberStatus;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+};
+
+export type ExpenseGroupMemberUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  status?: Prisma.EnumGroupMemberStatusFieldUpdateOperationsInput | $Enums.GroupMemberStatus;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  group?: Prisma.ExpenseGroupUpdateOneRequiredWithoutMembersNestedInput;
+  user?: Prisma.UserUpdateOneRequiredWithoutExpenseGroupsNestedInput;
+};
+
+export type ExpenseGroupMemberUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  groupId?: Prisma.StringFieldUpdateOperationsInput | string;
+  userId?: Prisma.StringFieldUpdateOperationsInput | string;
+  status?: Prisma.EnumGroupMemberStatusFieldUpdateOperationsInput | $Enums.GroupMemberStatus;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type ExpenseGroupMemberCreateManyInput = {
+  id?: string;
+  groupId: string;
+  userId: string;
+  status?: $Enums.GroupMemberStatus;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+};
+
+export type ExpenseGroupMemberUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  status?: Prisma.EnumGroupMemberStatusFieldUpdateOperationsInput | $Enums.GroupMemberStatus;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type ExpenseGroupMemberUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  groupId?: Prisma.StringFieldUpdateOperationsInput | string;
+  userId?: Prisma.StringFieldUpdateOperationsInput | string;
+  status?: Prisma.EnumGroupMemberStatusFieldUpdateOperationsInput | $Enums.GroupMemberStatus;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type ExpenseGroupMemberListRelationFilter = {
+  every?: Prisma.ExpenseGroupMemberWhereInput;
+  some?: Prisma.ExpenseGroupMemberWhereInput;
+  none?: Prisma.ExpenseGroupMemberWhereInput;
+};
+
+export type ExpenseGroupMemberOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder;
+};
+
+export type ExpenseGroupMemberGroupIdUserIdCompoundUniqueInput = {
+  groupId: string;
+  userId: string;
+};
+
+export type ExpenseGroupMemberCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder;
+  groupId?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  status?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  updatedAt?: Prisma.SortOrder;
+};
+
+export type ExpenseGroupMemberMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder;
+  groupId?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  status?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  updatedAt?: Prisma.SortOrder;
+};
+
+export type ExpenseGroupMemberMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder;
+  groupId?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  status?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  updatedAt?: Prisma.SortOrder;
+};
+
+export type ExpenseGroupMemberCreateNestedManyWithoutUserInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.ExpenseGroupMemberCreateWithoutUserInput,
+        Prisma.ExpenseGroupMemberUncheckedCreateWithoutUserInput
+      >
+    | Prisma.ExpenseGroupMemberCreateWithoutUserInput[]
+    | Prisma.ExpenseGroupMemberUncheckedCreateWithoutUserInput[];
+  connectOrCreate?:
+    | Prisma.ExpenseGroupMemberCreateOrConnectWithoutUserInput
+    | Prisma.ExpenseGroupMemberCreateOrConnectWithoutUserInput[];
+  createMany?: Prisma.ExpenseGroupMemberCreateManyUserInputEnvelope;
+  connect?: Prisma.ExpenseGroupMemberWhereUniqueInput | Prisma.ExpenseGroupMemberWhereUniqueInput[];
+};
+
+export type ExpenseGroupMemberUncheckedCreateNestedManyWithoutUserInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.ExpenseGroupMemberCreateWithoutUserInput,
+        Prisma.ExpenseGroupMemberUncheckedCreateWithoutUserInput
+      >
+    | Prisma.ExpenseGroupMemberCreateWithoutUserInput[]
+    | Prisma.ExpenseGroupMemberUncheckedCreateWithoutUserInput[];
+  connectOrCreate?:
+    | Prisma.ExpenseGroupMemberCreateOrConnectWithoutUserInput
+    | Prisma.ExpenseGroupMemberCreateOrConnectWithoutUserInput[];
+  createMany?: Prisma.ExpenseGroupMemberCreateManyUserInputEnvelope;
+  connect?: Prisma.ExpenseGroupMemberWhereUniqueInput | Prisma.ExpenseGroupMemberWhereUniqueInput[];
+};
+
+export type ExpenseGroupMemberUpdateManyWithoutUserNestedInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.ExpenseGroupMemberCreateWithoutUserInput,
+        Prisma.ExpenseGroupMemberUncheckedCreateWithoutUserInput
+      >
+    | Prisma.ExpenseGroupMemberCreateWithoutUserInput[]
+    | Prisma.ExpenseGroupMemberUncheckedCreateWithoutUserInput[];
+  connectOrCreate?:
+    | Prisma.ExpenseGroupMemberCreateOrConnectWithoutUserInput
+    | Prisma.ExpenseGroupMemberCreateOrConnectWithoutUserInput[];
+  upsert?:
+    | Prisma.ExpenseGroupMemberUpsertWithWhereUniqueWithoutUserInput
+    | Prisma.ExpenseGroupMemberUpsertWithWhereUniqueWithoutUserInput[];
+  createMany?: Prisma.ExpenseGroupMemberCreateManyUserInputEnvelope;
+  set?: Prisma.ExpenseGroupMemberWhereUniqueInput | Prisma.ExpenseGroupMemberWhereUniqueInput[];
+  disconnect?:
+    | Prisma.ExpenseGroupMemberWhereUniqueInput
+    | Prisma.ExpenseGroupMemberWhereUniqueInput[];
+  delete?: Prisma.ExpenseGroupMemberWhereUniqueInput | Prisma.ExpenseGroupMemberWhereUniqueInput[];
+  connect?: Prisma.ExpenseGroupMemberWhereUniqueInput | Prisma.ExpenseGroupMemberWhereUniqueInput[];
+  update?:
+    | Prisma.ExpenseGroupMemberUpdateWithWhereUniqueWithoutUserInput
+    | Prisma.ExpenseGroupMemberUpdateWithWhereUniqueWithoutUserInput[];
+  updateMany?:
+    | Prisma.ExpenseGroupMemberUpdateManyWithWhereWithoutUserInput
+    | Prisma.ExpenseGroupMemberUpdateManyWithWhereWithoutUserInput[];
+  deleteMany?:
+    | Prisma.ExpenseGroupMemberScalarWhereInput
+    | Prisma.ExpenseGroupMemberScalarWhereInput[];
+};
+
+export type ExpenseGroupMemberUncheckedUpdateManyWithoutUserNestedInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.ExpenseGroupMemberCreateWithoutUserInput,
+        Prisma.ExpenseGroupMemberUncheckedCreateWithoutUserInput
+      >
+    | Prisma.ExpenseGroupMemberCreateWithoutUserInput[]
+    | Prisma.ExpenseGroupMemberUncheckedCreateWithoutUserInput[];
+  connectOrCreate?:
+    | Prisma.ExpenseGroupMemberCreateOrConnectWithoutUserInput
+    | Prisma.ExpenseGroupMemberCreateOrConnectWithoutUserInput[];
+  upsert?:
+    | Prisma.ExpenseGroupMemberUpsertWithWhereUniqueWithoutUserInput
+    | Prisma.ExpenseGroupMemberUpsertWithWhereUniqueWithoutUserInput[];
+  createMany?: Prisma.ExpenseGroupMemberCreateManyUserInputEnvelope;
+  set?: Prisma.ExpenseGroupMemberWhereUniqueInput | Prisma.ExpenseGroupMemberWhereUniqueInput[];
+  disconnect?:
+    | Prisma.ExpenseGroupMemberWhereUniqueInput
+    | Prisma.ExpenseGroupMemberWhereUniqueInput[];
+  delete?: Prisma.ExpenseGroupMemberWhereUniqueInput | Prisma.ExpenseGroupMemberWhereUniqueInput[];
+  connect?: Prisma.ExpenseGroupMemberWhereUniqueInput | Prisma.ExpenseGroupMemberWhereUniqueInput[];
+  update?:
+    | Prisma.ExpenseGroupMemberUpdateWithWhereUniqueWithoutUserInput
+    | Prisma.ExpenseGroupMemberUpdateWithWhereUniqueWithoutUserInput[];
+  updateMany?:
+    | Prisma.ExpenseGroupMemberUpdateManyWithWhereWithoutUserInput
+    | Prisma.ExpenseGroupMemberUpdateManyWithWhereWithoutUserInput[];
+  deleteMany?:
+    | Prisma.ExpenseGroupMemberScalarWhereInput
+    | Prisma.ExpenseGroupMemberScalarWhereInput[];
+};
+
+export type ExpenseGroupMemberCreateNestedManyWithoutGroupInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.ExpenseGroupMemberCreateWithoutGroupInput,
+        Prisma.ExpenseGroupMemberUncheckedCreateWithoutGroupInput
+      >
+    | Prisma.ExpenseGroupMemberCreateWithoutGroupInput[]
+    | Prisma.ExpenseGroupMemberUncheckedCreateWithoutGroupInput[];
+  connectOrCreate?:
+    | Prisma.ExpenseGroupMemberCreateOrConnectWithoutGroupInput
+    | Prisma.ExpenseGroupMemberCreateOrConnectWithoutGroupInput[];
+  createMany?: Prisma.ExpenseGroupMemberCreateManyGroupInputEnvelope;
+  connect?: Prisma.ExpenseGroupMemberWhereUniqueInput | Prisma.ExpenseGroupMemberWhereUniqueInput[];
+};
+
+export type ExpenseGroupMemberUncheckedCreateNestedManyWithoutGroupInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.ExpenseGroupMemberCreateWithoutGroupInput,
+        Prisma.ExpenseGroupMemberUncheckedCreateWithoutGroupInput
+      >
+    | Prisma.ExpenseGroupMemberCreateWithoutGroupInput[]
+    | Prisma.ExpenseGroupMemberUncheckedCreateWithoutGroupInput[];
+  connectOrCreate?:
+    | Prisma.ExpenseGroupMemberCreateOrConnectWithoutGroupInput
+    | Prisma.ExpenseGroupMemberCreateOrConnectWithoutGroupInput[];
+  createMany?: Prisma.ExpenseGroupMemberCreateManyGroupInputEnvelope;
+  connect?: Prisma.ExpenseGroupMemberWhereUniqueInput | Prisma.ExpenseGroupMemberWhereUniqueInput[];
+};
+
+export type ExpenseGroupMemberUpdateManyWithoutGroupNestedInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.ExpenseGroupMemberCreateWithoutGroupInput,
+        Prisma.ExpenseGroupMemberUncheckedCreateWithoutGroupInput
+      >
+    | Prisma.ExpenseGroupMemberCreateWithoutGroupInput[]
+    | Prisma.ExpenseGroupMemberUncheckedCreateWithoutGroupInput[];
+  connectOrCreate?:
+    | Prisma.ExpenseGroupMemberCreateOrConnectWithoutGroupInput
+    | Prisma.ExpenseGroupMemberCreateOrConnectWithoutGroupInput[];
+  upsert?:
+    | Prisma.ExpenseGroupMemberUpsertWithWhereUniqueWithoutGroupInput
+    | Prisma.ExpenseGroupMemberUpsertWithWhereUniqueWithoutGroupInput[];
+  createMany?: Prisma.ExpenseGroupMemberCreateManyGroupInputEnvelope;
+  set?: Prisma.ExpenseGroupMemberWhereUniqueInput | Prisma.ExpenseGroupMemberWhereUniqueInput[];
+  disconnect?:
+    | Prisma.ExpenseGroupMemberWhereUniqueInput
+    | Prisma.ExpenseGroupMemberWhereUniqueInput[];
+  delete?: Prisma.ExpenseGroupMemberWhereUniqueInput | Prisma.ExpenseGroupMemberWhereUniqueInput[];
+  connect?: Prisma.ExpenseGroupMemberWhereUniqueInput | Prisma.ExpenseGroupMemberWhereUniqueInput[];
+  update?:
+    | Prisma.ExpenseGroupMemberUpdateWithWhereUniqueWithoutGroupInput
+    | Prisma.ExpenseGroupMemberUpdateWithWhereUniqueWithoutGroupInput[];
+  updateMany?:
+    | Prisma.ExpenseGroupMemberUpdateManyWithWhereWithoutGroupInput
+    | Prisma.ExpenseGroupMemberUpdateManyWithWhereWithoutGroupInput[];
+  deleteMany?:
+    | Prisma.ExpenseGroupMemberScalarWhereInput
+    | Prisma.ExpenseGroupMemberScalarWhereInput[];
+};
+
+export type ExpenseGroupMemberUncheckedUpdateManyWithoutGroupNestedInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.ExpenseGroupMemberCreateWithoutGroupInput,
+        Prisma.ExpenseGroupMemberUncheckedCreateWithoutGroupInput
+      >
+    | Prisma.ExpenseGroupMemberCreateWithoutGroupInput[]
+    | Prisma.ExpenseGroupMemberUncheckedCreateWithoutGroupInput[];
+  connectOrCreate?:
+    | Prisma.ExpenseGroupMemberCreateOrConnectWithoutGroupInput
+    | Prisma.ExpenseGroupMemberCreateOrConnectWithoutGroupInput[];
+  upsert?:
+    | Prisma.ExpenseGroupMemberUpsertWithWhereUniqueWithoutGroupInput
+    | Prisma.ExpenseGroupMemberUpsertWithWhereUniqueWithoutGroupInput[];
+  createMany?: Prisma.ExpenseGroupMemberCreateManyGroupInputEnvelope;
+  set?: Prisma.ExpenseGroupMemberWhereUniqueInput | Prisma.ExpenseGroupMemberWhereUniqueInput[];
+  disconnect?:
+    | Prisma.ExpenseGroupMemberWhereUniqueInput
+    | Prisma.ExpenseGroupMemberWhereUniqueInput[];
+  delete?: Prisma.ExpenseGroupMemberWhereUniqueInput | Prisma.ExpenseGroupMemberWhereUniqueInput[];
+  connect?: Prisma.ExpenseGroupMemberWhereUniqueInput | Prisma.ExpenseGroupMemberWhereUniqueInput[];
+  update?:
+    | Prisma.ExpenseGroupMemberUpdateWithWhereUniqueWithoutGroupInput
+    | Prisma.ExpenseGroupMemberUpdateWithWhereUniqueWithoutGroupInput[];
+  updateMany?:
+    | Prisma.ExpenseGroupMemberUpdateManyWithWhereWithoutGroupInput
+    | Prisma.ExpenseGroupMemberUpdateManyWithWhereWithoutGroupInput[];
+  deleteMany?:
+    | Prisma.ExpenseGroupMemberScalarWhereInput
+    | Prisma.ExpenseGroupMemberScalarWhereInput[];
+};
+
+export type EnumGroupMemberStatusFieldUpdateOperationsInput = {
+  set?: $Enums.GroupMemberStatus;
+};
+
+export type ExpenseGroupMemberCreateWithoutUserInput = {
+  id?: string;
+  status?: $Enums.GroupMemberStatus;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  group: Prisma.ExpenseGroupCreateNestedOneWithoutMembersInput;
+};
+
+export type ExpenseGroupMemberUncheckedCreateWithoutUserInput = {
+  id?: string;
+  groupId: string;
+  status?: $Enums.GroupMemberStatus;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+};
+
+export type ExpenseGroupMemberCreateOrConnectWithoutUserInput = {
+  where: Prisma.ExpenseGroupMemberWhereUniqueInput;
+  create: Prisma.XOR<
+    Prisma.ExpenseGroupMemberCreateWithoutUserInput,
+    Prisma.ExpenseGroupMemberUncheckedCreateWithoutUserInput
+  >;
+};
+
+export type ExpenseGroupMemberCreateManyUserInputEnvelope = {
+  data:
+    | Prisma.ExpenseGroupMemberCreateManyUserInput
+    | Prisma.ExpenseGroupMemberCreateManyUserInput[];
+  skipDuplicates?: boolean;
+};
+
+export type ExpenseGroupMemberUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.ExpenseGroupMemberWhereUniqueInput;
+  update: Prisma.XOR<
+    Prisma.ExpenseGroupMemberUpdateWithoutUserInput,
+    Prisma.ExpenseGroupMemberUncheckedUpdateWithoutUserInput
+  >;
+  create: Prisma.XOR<
+    Prisma.ExpenseGroupMemberCreateWithoutUserInput,
+    Prisma.ExpenseGroupMemberUncheckedCreateWithoutUserInput
+  >;
+};
+
+export type ExpenseGroupMemberUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.ExpenseGroupMemberWhereUniqueInput;
+  data: Prisma.XOR<
+    Prisma.ExpenseGroupMemberUpdateWithoutUserInput,
+    Prisma.ExpenseGroupMemberUncheckedUpdateWithoutUserInput
+  >;
+};
+
+export type ExpenseGroupMemberUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.ExpenseGroupMemberScalarWhereInput;
+  data: Prisma.XOR<
+    Prisma.ExpenseGroupMemberUpdateManyMutationInput,
+    Prisma.ExpenseGroupMemberUncheckedUpdateManyWithoutUserInput
+  >;
+};
+
+export type ExpenseGroupMemberScalarWhereInput = {
+  AND?: Prisma.ExpenseGroupMemberScalarWhereInput | Prisma.ExpenseGroupMemberScalarWhereInput[];
+  OR?: Prisma.ExpenseGroupMemberScalarWhereInput[];
+  NOT?: Prisma.ExpenseGroupMemberScalarWhereInput | Prisma.ExpenseGroupMemberScalarWhereInput[];
+  id?: Prisma.StringFilter<"ExpenseGroupMember"> | string;
+  groupId?: Prisma.StringFilter<"ExpenseGroupMember"> | string;
+  userId?: Prisma.StringFilter<"ExpenseGroupMember"> | string;
+  status?: Prisma.EnumGroupMemberStatusFilter<"ExpenseGroupMember"> | $Enums.GroupMemberStatus;
+  createdAt?: Prisma.DateTimeFilter<"ExpenseGroupMember"> | Date | string;
+  updatedAt?: Prisma.DateTimeFilter<"ExpenseGroupMember"> | Date | string;
+};
+
+export type ExpenseGroupMemberCreateWithoutGroupInput = {
+  id?: string;
+  status?: $Enums.GroupMemberStatus;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  user: Prisma.UserCreateNestedOneWithoutExpenseGroupsInput;
+};
+
+export type ExpenseGroupMemberUncheckedCreateWithoutGroupInput = {
+  id?: string;
+  userId: string;
+  status?: $Enums.GroupMemberStatus;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+};
+
+export type ExpenseGroupMemberCreateOrConnectWithoutGroupInput = {
+  where: Prisma.ExpenseGroupMemberWhereUniqueInput;
+  create: Prisma.XOR<
+    Prisma.ExpenseGroupMemberCreateWithoutGroupInput,
+    Prisma.ExpenseGroupMemberUncheckedCreateWithoutGroupInput
+  >;
+};
+
+export type ExpenseGroupMemberCreateManyGroupInputEnvelope = {
+  data:
+    | Prisma.ExpenseGroupMemberCreateManyGroupInput
+    | Prisma.ExpenseGroupMemberCreateManyGroupInput[];
+  skipDuplicates?: boolean;
+};
+
+export type ExpenseGroupMemberUpsertWithWhereUniqueWithoutGroupInput = {
+  where: Prisma.ExpenseGroupMemberWhereUniqueInput;
+  update: Prisma.XOR<
+    Prisma.ExpenseGroupMemberUpdateWithoutGroupInput,
+    Prisma.ExpenseGroupMemberUncheckedUpdateWithoutGroupInput
+  >;
+  create: Prisma.XOR<
+    Prisma.ExpenseGroupMemberCreateWithoutGroupInput,
+    Prisma.ExpenseGroupMemberUncheckedCreateWithoutGroupInput
+  >;
+};
+
+export type ExpenseGroupMemberUpdateWithWhereUniqueWithoutGroupInput = {
+  where: Prisma.ExpenseGroupMemberWhereUniqueInput;
+  data: Prisma.XOR<
+    Prisma.ExpenseGroupMemberUpdateWithoutGroupInput,
+    Prisma.ExpenseGroupMemberUncheckedUpdateWithoutGroupInput
+  >;
+};
+
+export type ExpenseGroupMemberUpdateManyWithWhereWithoutGroupInput = {
+  where: Prisma.ExpenseGroupMemberScalarWhereInput;
+  data: Prisma.XOR<
+    Prisma.ExpenseGroupMemberUpdateManyMutationInput,
+    Prisma.ExpenseGroupMemberUncheckedUpdateManyWithoutGroupInput
+  >;
+};
+
+export type ExpenseGroupMemberCreateManyUserInput = {
+  id?: string;
+  groupId: string;
+  status?: $Enums.GroupMemberStatus;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+};
+
+export type ExpenseGroupMemberUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  status?: Prisma.EnumGroupMemberStatusFieldUpdateOperationsInput | $Enums.GroupMemberStatus;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  group?: Prisma.ExpenseGroupUpdateOneRequiredWithoutMembersNestedInput;
+};
+
+export type ExpenseGroupMemberUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  groupId?: Prisma.StringFieldUpdateOperationsInput | string;
+  status?: Prisma.EnumGroupMemberStatusFieldUpdateOperationsInput | $Enums.GroupMemberStatus;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type ExpenseGroupMemberUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  groupId?: Prisma.StringFieldUpdateOperationsInput | string;
+  status?: Prisma.EnumGroupMemberStatusFieldUpdateOperationsInput | $Enums.GroupMemberStatus;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type ExpenseGroupMemberCreateManyGroupInput = {
+  id?: string;
+  userId: string;
+  status?: $Enums.GroupMemberStatus;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+};
+
+export type ExpenseGroupMemberUpdateWithoutGroupInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  status?: Prisma.EnumGroupMemberStatusFieldUpdateOperationsInput | $Enums.GroupMemberStatus;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  user?: Prisma.UserUpdateOneRequiredWithoutExpenseGroupsNestedInput;
+};
+
+export type ExpenseGroupMemberUncheckedUpdateWithoutGroupInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  userId?: Prisma.StringFieldUpdateOperationsInput | string;
+  status?: Prisma.EnumGroupMemberStatusFieldUpdateOperationsInput | $Enums.GroupMemberStatus;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type ExpenseGroupMemberUncheckedUpdateManyWithoutGroupInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  userId?: Prisma.StringFieldUpdateOperationsInput | string;
+  status?: Prisma.EnumGroupMemberStatusFieldUpdateOperationsInput | $Enums.GroupMemberStatus;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type ExpenseGroupMemberSelect<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean;
+    groupId?: boolean;
+    userId?: boolean;
+    status?: boolean;
+    createdAt?: boolean;
+    updatedAt?: boolean;
+    group?: boolean | Prisma.ExpenseGroupDefaultArgs<ExtArgs>;
+    user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+  },
+  ExtArgs["result"]["expenseGroupMember"]
+>;
+
+export type ExpenseGroupMemberSelectCreateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean;
+    groupId?: boolean;
+    userId?: boolean;
+    status?: boolean;
+    createdAt?: boolean;
+    updatedAt?: boolean;
+    group?: boolean | Prisma.ExpenseGroupDefaultArgs<ExtArgs>;
+    user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+  },
+  ExtArgs["result"]["expenseGroupMember"]
+>;
+
+export type ExpenseGroupMemberSelectUpdateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean;
+    groupId?: boolean;
+    userId?: boolean;
+    status?: boolean;
+    createdAt?: boolean;
+    updatedAt?: boolean;
+    group?: boolean | Prisma.ExpenseGroupDefaultArgs<ExtArgs>;
+    user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+  },
+  ExtArgs["result"]["expenseGroupMember"]
+>;
+
+export type ExpenseGroupMemberSelectScalar = {
+  id?: boolean;
+  groupId?: boolean;
+  userId?: boolean;
+  status?: boolean;
+  createdAt?: boolean;
+  updatedAt?: boolean;
+};
+
+export type ExpenseGroupMemberOmit<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetOmit<
+  "id" | "groupId" | "userId" | "status" | "createdAt" | "updatedAt",
+  ExtArgs["result"]["expenseGroupMember"]
+>;
+export type ExpenseGroupMemberInclude<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  group?: boolean | Prisma.ExpenseGroupDefaultArgs<ExtArgs>;
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+};
+export type ExpenseGroupMemberIncludeCreateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  group?: boolean | Prisma.ExpenseGroupDefaultArgs<ExtArgs>;
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+};
+export type ExpenseGroupMemberIncludeUpdateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  group?: boolean | Prisma.ExpenseGroupDefaultArgs<ExtArgs>;
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+};
+
+export type $ExpenseGroupMemberPayload<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  name: "ExpenseGroupMember";
+  objects: {
+    group: Prisma.$ExpenseGroupPayload<ExtArgs>;
+    user: Prisma.$UserPayload<ExtArgs>;
+  };
+  scalars: runtime.Types.Extensions.GetPayloadResult<
+    {
+      id: string;
+      groupId: string;
+      userId: string;
+      status: $Enums.GroupMemberStatus;
+      createdAt: Date;
+      updatedAt: Date;
+    },
+    ExtArgs["result"]["expenseGroupMember"]
+  >;
+  composites: {};
+};
+
+export type ExpenseGroupMemberGetPayload<
+  S extends boolean | null | undefined | ExpenseGroupMemberDefaultArgs
+> = runtime.Types.Result.GetResult<Prisma.$ExpenseGroupMemberPayload, S>;
+
+export type ExpenseGroupMemberCountArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = Omit<ExpenseGroupMemberFindManyArgs, "select" | "include" | "distinct" | "omit"> & {
+  select?: ExpenseGroupMemberCountAggregateInputType | true;
+};
+
+export interface ExpenseGroupMemberDelegate<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+  GlobalOmitOptions = {}
+> {
+  [K: symbol]: {
+    types: Prisma.TypeMap<ExtArgs>["model"]["ExpenseGroupMember"];
+    meta: { name: "ExpenseGroupMember" };
+  };
+  /**
+   * Find zero or one ExpenseGroupMember that matches the filter.
+   * @param {ExpenseGroupMemberFindUniqueArgs} args - Arguments to find a ExpenseGroupMember
+   * @example
+   * // Get one ExpenseGroupMember
+   * const expenseGroupMember = await prisma.expenseGroupMember.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ExpenseGroupMemberFindUniqueArgs>(
+    args: Prisma.SelectSubset<T, ExpenseGroupMemberFindUniqueArgs<ExtArgs>>
+  ): Prisma.Prisma__ExpenseGroupMemberClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseGroupMemberPayload<ExtArgs>,
+      T,
+      "findUnique",
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find one ExpenseGroupMember that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ExpenseGroupMemberFindUniqueOrThrowArgs} args - Arguments to find a ExpenseGroupMember
+   * @example
+   * // Get one ExpenseGroupMember
+   * const expenseGroupMember = await prisma.expenseGroupMember.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ExpenseGroupMemberFindUniqueOrThrowArgs>(
+    args: Prisma.SelectSubset<T, ExpenseGroupMemberFindUniqueOrThrowArgs<ExtArgs>>
+  ): Prisma.Prisma__ExpenseGroupMemberClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseGroupMemberPayload<ExtArgs>,
+      T,
+      "findUniqueOrThrow",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find the first ExpenseGroupMember that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExpenseGroupMemberFindFirstArgs} args - Arguments to find a ExpenseGroupMember
+   * @example
+   * // Get one ExpenseGroupMember
+   * const expenseGroupMember = await prisma.expenseGroupMember.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ExpenseGroupMemberFindFirstArgs>(
+    args?: Prisma.SelectSubset<T, ExpenseGroupMemberFindFirstArgs<ExtArgs>>
+  ): Prisma.Prisma__ExpenseGroupMemberClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseGroupMemberPayload<ExtArgs>,
+      T,
+      "findFirst",
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find the first ExpenseGroupMember that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExpenseGroupMemberFindFirstOrThrowArgs} args - Arguments to find a ExpenseGroupMember
+   * @example
+   * // Get one ExpenseGroupMember
+   * const expenseGroupMember = await prisma.expenseGroupMember.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ExpenseGroupMemberFindFirstOrThrowArgs>(
+    args?: Prisma.SelectSubset<T, ExpenseGroupMemberFindFirstOrThrowArgs<ExtArgs>>
+  ): Prisma.Prisma__ExpenseGroupMemberClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseGroupMemberPayload<ExtArgs>,
+      T,
+      "findFirstOrThrow",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find zero or more ExpenseGroupMembers that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExpenseGroupMemberFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ExpenseGroupMembers
+   * const expenseGroupMembers = await prisma.expenseGroupMember.findMany()
+   *
+   * // Get first 10 ExpenseGroupMembers
+   * const expenseGroupMembers = await prisma.expenseGroupMember.findMany({ take: 10 })
+   *
+   * // Only select the `id`
+   * const expenseGroupMemberWithIdOnly = await prisma.expenseGroupMember.findMany({ select: { id: true } })
+   *
+   */
+  findMany<T extends ExpenseGroupMemberFindManyArgs>(
+    args?: Prisma.SelectSubset<T, ExpenseGroupMemberFindManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseGroupMemberPayload<ExtArgs>,
+      T,
+      "findMany",
+      GlobalOmitOptions
+    >
+  >;
+
+  /**
+   * Create a ExpenseGroupMember.
+   * @param {ExpenseGroupMemberCreateArgs} args - Arguments to create a ExpenseGroupMember.
+   * @example
+   * // Create one ExpenseGroupMember
+   * const ExpenseGroupMember = await prisma.expenseGroupMember.create({
+   *   data: {
+   *     // ... data to create a ExpenseGroupMember
+   *   }
+   * })
+   *
+   */
+  create<T extends ExpenseGroupMemberCreateArgs>(
+    args: Prisma.SelectSubset<T, ExpenseGroupMemberCreateArgs<ExtArgs>>
+  ): Prisma.Prisma__ExpenseGroupMemberClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseGroupMemberPayload<ExtArgs>,
+      T,
+      "create",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Create many ExpenseGroupMembers.
+   * @param {ExpenseGroupMemberCreateManyArgs} args - Arguments to create many ExpenseGroupMembers.
+   * @example
+   * // Create many ExpenseGroupMembers
+   * const expenseGroupMember = await prisma.expenseGroupMember.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   */
+  createMany<T extends ExpenseGroupMemberCreateManyArgs>(
+    args?: Prisma.SelectSubset<T, ExpenseGroupMemberCreateManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+  /**
+   * Create many ExpenseGroupMembers and returns the data saved in the database.
+   * @param {ExpenseGroupMemberCreateManyAndReturnArgs} args - Arguments to create many ExpenseGroupMembers.
+   * @example
+   * // Create many ExpenseGroupMembers
+   * const expenseGroupMember = await prisma.expenseGroupMember.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   * // Create many ExpenseGroupMembers and only return the `id`
+   * const expenseGroupMemberWithIdOnly = await prisma.expenseGroupMember.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   *
+   */
+  createManyAndReturn<T extends ExpenseGroupMemberCreateManyAndReturnArgs>(
+    args?: Prisma.SelectSubset<T, ExpenseGroupMemberCreateManyAndReturnArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseGroupMemberPayload<ExtArgs>,
+      T,
+      "createManyAndReturn",
+      GlobalOmitOptions
+    >
+  >;
+
+  /**
+   * Delete a ExpenseGroupMember.
+   * @param {ExpenseGroupMemberDeleteArgs} args - Arguments to delete one ExpenseGroupMember.
+   * @example
+   * // Delete one ExpenseGroupMember
+   * const ExpenseGroupMember = await prisma.expenseGroupMember.delete({
+   *   where: {
+   *     // ... filter to delete one ExpenseGroupMember
+   *   }
+   * })
+   *
+   */
+  delete<T extends ExpenseGroupMemberDeleteArgs>(
+    args: Prisma.SelectSubset<T, ExpenseGroupMemberDeleteArgs<ExtArgs>>
+  ): Prisma.Prisma__ExpenseGroupMemberClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseGroupMemberPayload<ExtArgs>,
+      T,
+      "delete",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Update one ExpenseGroupMember.
+   * @param {ExpenseGroupMemberUpdateArgs} args - Arguments to update one ExpenseGroupMember.
+   * @example
+   * // Update one ExpenseGroupMember
+   * const expenseGroupMember = await prisma.expenseGroupMember.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   *
+   */
+  update<T extends ExpenseGroupMemberUpdateArgs>(
+    args: Prisma.SelectSubset<T, ExpenseGroupMemberUpdateArgs<ExtArgs>>
+  ): Prisma.Prisma__ExpenseGroupMemberClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseGroupMemberPayload<ExtArgs>,
+      T,
+      "update",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Delete zero or more ExpenseGroupMembers.
+   * @param {ExpenseGroupMemberDeleteManyArgs} args - Arguments to filter ExpenseGroupMembers to delete.
+   * @example
+   * // Delete a few ExpenseGroupMembers
+   * const { count } = await prisma.expenseGroupMember.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   *
+   */
+  deleteMany<T extends ExpenseGroupMemberDeleteManyArgs>(
+    args?: Prisma.SelectSubset<T, ExpenseGroupMemberDeleteManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+  /**
+   * Update zero or more ExpenseGroupMembers.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExpenseGroupMemberUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ExpenseGroupMembers
+   * const expenseGroupMember = await prisma.expenseGroupMember.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   *
+   */
+  updateMany<T extends ExpenseGroupMemberUpdateManyArgs>(
+    args: Prisma.SelectSubset<T, ExpenseGroupMemberUpdateManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+  /**
+   * Update zero or more ExpenseGroupMembers and returns the data updated in the database.
+   * @param {ExpenseGroupMemberUpdateManyAndReturnArgs} args - Arguments to update many ExpenseGroupMembers.
+   * @example
+   * // Update many ExpenseGroupMembers
+   * const expenseGroupMember = await prisma.expenseGroupMember.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   * // Update zero or more ExpenseGroupMembers and only return the `id`
+   * const expenseGroupMemberWithIdOnly = await prisma.expenseGroupMember.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   *
+   */
+  updateManyAndReturn<T extends ExpenseGroupMemberUpdateManyAndReturnArgs>(
+    args: Prisma.SelectSubset<T, ExpenseGroupMemberUpdateManyAndReturnArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseGroupMemberPayload<ExtArgs>,
+      T,
+      "updateManyAndReturn",
+      GlobalOmitOptions
+    >
+  >;
+
+  /**
+   * Create or update one ExpenseGroupMember.
+   * @param {ExpenseGroupMemberUpsertArgs} args - Arguments to update or create a ExpenseGroupMember.
+   * @example
+   * // Update or create a ExpenseGroupMember
+   * const expenseGroupMember = await prisma.expenseGroupMember.upsert({
+   *   create: {
+   *     // ... data to create a ExpenseGroupMember
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ExpenseGroupMember we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ExpenseGroupMemberUpsertArgs>(
+    args: Prisma.SelectSubset<T, ExpenseGroupMemberUpsertArgs<ExtArgs>>
+  ): Prisma.Prisma__ExpenseGroupMemberClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseGroupMemberPayload<ExtArgs>,
+      T,
+      "upsert",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Count the number of ExpenseGroupMembers.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExpenseGroupMemberCountArgs} args - Arguments to filter ExpenseGroupMembers to count.
+   * @example
+   * // Count the number of ExpenseGroupMembers
+   * const count = await prisma.expenseGroupMember.count({
+   *   where: {
+   *     // ... the filter for the ExpenseGroupMembers we want to count
+   *   }
+   * })
+   **/
+  count<T extends ExpenseGroupMemberCountArgs>(
+    args?: Prisma.Subset<T, ExpenseGroupMemberCountArgs>
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<"select", any>
+      ? T["select"] extends true
+        ? number
+        : Prisma.GetScalarType<T["select"], ExpenseGroupMemberCountAggregateOutputType>
+      : number
+  >;
+
+  /**
+   * Allows you to perform aggregations operations on a ExpenseGroupMember.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExpenseGroupMemberAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+   **/
+  aggregate<T extends ExpenseGroupMemberAggregateArgs>(
+    args: Prisma.Subset<T, ExpenseGroupMemberAggregateArgs>
+  ): Prisma.PrismaPromise<GetExpenseGroupMemberAggregateType<T>>;
+
+  /**
+   * Group by ExpenseGroupMember.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExpenseGroupMemberGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   *
+   **/
+  groupBy<
+    T extends ExpenseGroupMemberGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<"skip", Prisma.Keys<T>>,
+      Prisma.Extends<"take", Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ExpenseGroupMemberGroupByArgs["orderBy"] }
+      : { orderBy?: ExpenseGroupMemberGroupByArgs["orderBy"] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<
+      Prisma.Keys<Prisma.MaybeTupleToUnion<T["orderBy"]>>
+    >,
+    ByFields extends Prisma.MaybeTupleToUnion<T["by"]>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T["having"]>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T["by"] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends Prisma.False
+        ? {
+            [P in HavingFields]: P extends ByFields
+              ? never
+              : P extends string
+                ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+                : [Error, "Field ", P, ` in "having" needs to be provided in "by"`];
+          }[HavingFields]
+        : "take" extends Prisma.Keys<T>
+          ? "orderBy" extends Prisma.Keys<T>
+            ? ByValid extends Prisma.True
+              ? {}
+              : {
+                  [P in OrderFields]: P extends ByFields
+                    ? never
+                    : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                }[OrderFields]
+            : 'Error: If you provide "take", you also need to provide "orderBy"'
+          : "skip" extends Prisma.Keys<T>
+            ? "orderBy" extends Prisma.Keys<T>
+              ? ByValid extends Prisma.True
+                ? {}
+                : {
+                    [P in OrderFields]: P extends ByFields
+                      ? never
+                      : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                  }[OrderFields]
+              : 'Error: If you provide "skip", you also need to provide "orderBy"'
+            : ByValid extends Prisma.True
+              ? {}
+              : {
+                  [P in OrderFields]: P extends ByFields
+                    ? never
+                    : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                }[OrderFields]
+  >(
+    args: Prisma.SubsetIntersection<T, ExpenseGroupMemberGroupByArgs, OrderByArg> & InputErrors
+  ): {} extends InputErrors
+    ? GetExpenseGroupMemberGroupByPayload<T>
+    : Prisma.PrismaPromise<InputErrors>;
+  /**
+   * Fields of the ExpenseGroupMember model
+   */
+  readonly fields: ExpenseGroupMemberFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ExpenseGroupMember.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ExpenseGroupMemberClient<
+  T,
+  Null = never,
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+  GlobalOmitOptions = {}
+> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise";
+  group<T extends Prisma.ExpenseGroupDefaultArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.ExpenseGroupDefaultArgs<ExtArgs>>
+  ): Prisma.Prisma__ExpenseGroupClient<
+    | runtime.Types.Result.GetResult<
+        Prisma.$ExpenseGroupPayload<ExtArgs>,
+        T,
+        "findUniqueOrThrow",
+        GlobalOmitOptions
+      >
+    | Null,
+    Null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>
+  ): Prisma.Prisma__UserClient<
+    | runtime.Types.Result.GetResult<
+        Prisma.$UserPayload<ExtArgs>,
+        T,
+        "findUniqueOrThrow",
+        GlobalOmitOptions
+      >
+    | Null,
+    Null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(
+    onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null
+  ): runtime.Types.Utils.JsPromise<TResult1 | TResult2>;
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(
+    onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null
+  ): runtime.Types.Utils.JsPromise<T | TResult>;
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>;
+}
+
+/**
+ * Fields of the ExpenseGroupMember model
+ */
+export interface ExpenseGroupMemberFieldRefs {
+  readonly id: Prisma.FieldRef<"ExpenseGroupMember", "String">;
+  readonly groupId: Prisma.FieldRef<"ExpenseGroupMember", "String">;
+  readonly userId: Prisma.FieldRef<"ExpenseGroupMember", "String">;
+  readonly status: Prisma.FieldRef<"ExpenseGroupMember", "GroupMemberStatus">;
+  readonly createdAt: Prisma.FieldRef<"ExpenseGroupMember", "DateTime">;
+  readonly updatedAt: Prisma.FieldRef<"ExpenseGroupMember", "DateTime">;
+}
+
+// Custom InputTypes
+/**
+ * ExpenseGroupMember findUnique
+ */
+export type ExpenseGroupMemberFindUniqueArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseGroupMember
+   */
+  select?: Prisma.ExpenseGroupMemberSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseGroupMember
+   */
+  omit?: Prisma.ExpenseGroupMemberOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseGroupMemberInclude<ExtArgs> | null;
+  /**
+   * Filter, which ExpenseGroupMember to fetch.
+   */
+  where: Prisma.ExpenseGroupMemberWhereUniqueInput;
+};
+
+/**
+ * ExpenseGroupMember findUniqueOrThrow
+ */
+export type ExpenseGroupMemberFindUniqueOrThrowArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseGroupMember
+   */
+  select?: Prisma.ExpenseGroupMemberSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseGroupMember
+   */
+  omit?: Prisma.ExpenseGroupMemberOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseGroupMemberInclude<ExtArgs> | null;
+  /**
+   * Filter, which ExpenseGroupMember to fetch.
+   */
+  where: Prisma.ExpenseGroupMemberWhereUniqueInput;
+};
+
+/**
+ * ExpenseGroupMember findFirst
+ */
+export type ExpenseGroupMemberFindFirstArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseGroupMember
+   */
+  select?: Prisma.ExpenseGroupMemberSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseGroupMember
+   */
+  omit?: Prisma.ExpenseGroupMemberOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseGroupMemberInclude<ExtArgs> | null;
+  /**
+   * Filter, which ExpenseGroupMember to fetch.
+   */
+  where?: Prisma.ExpenseGroupMemberWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of ExpenseGroupMembers to fetch.
+   */
+  orderBy?:
+    | Prisma.ExpenseGroupMemberOrderByWithRelationInput
+    | Prisma.ExpenseGroupMemberOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for searching for ExpenseGroupMembers.
+   */
+  cursor?: Prisma.ExpenseGroupMemberWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` ExpenseGroupMembers from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` ExpenseGroupMembers.
+   */
+  skip?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   *
+   * Filter by unique combinations of ExpenseGroupMembers.
+   */
+  distinct?: Prisma.ExpenseGroupMemberScalarFieldEnum | Prisma.ExpenseGroupMemberScalarFieldEnum[];
+};
+
+/**
+ * ExpenseGroupMember findFirstOrThrow
+ */
+export type ExpenseGroupMemberFindFirstOrThrowArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseGroupMember
+   */
+  select?: Prisma.ExpenseGroupMemberSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseGroupMember
+   */
+  omit?: Prisma.ExpenseGroupMemberOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseGroupMemberInclude<ExtArgs> | null;
+  /**
+   * Filter, which ExpenseGroupMember to fetch.
+   */
+  where?: Prisma.ExpenseGroupMemberWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of ExpenseGroupMembers to fetch.
+   */
+  orderBy?:
+    | Prisma.ExpenseGroupMemberOrderByWithRelationInput
+    | Prisma.ExpenseGroupMemberOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for searching for ExpenseGroupMembers.
+   */
+  cursor?: Prisma.ExpenseGroupMemberWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` ExpenseGroupMembers from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` ExpenseGroupMembers.
+   */
+  skip?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   *
+   * Filter by unique combinations of ExpenseGroupMembers.
+   */
+  distinct?: Prisma.ExpenseGroupMemberScalarFieldEnum | Prisma.ExpenseGroupMemberScalarFieldEnum[];
+};
+
+/**
+ * ExpenseGroupMember findMany
+ */
+export type ExpenseGroupMemberFindManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseGroupMember
+   */
+  select?: Prisma.ExpenseGroupMemberSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseGroupMember
+   */
+  omit?: Prisma.ExpenseGroupMemberOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseGroupMemberInclude<ExtArgs> | null;
+  /**
+   * Filter, which ExpenseGroupMembers to fetch.
+   */
+  where?: Prisma.ExpenseGroupMemberWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of ExpenseGroupMembers to fetch.
+   */
+  orderBy?:
+    | Prisma.ExpenseGroupMemberOrderByWithRelationInput
+    | Prisma.ExpenseGroupMemberOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for listing ExpenseGroupMembers.
+   */
+  cursor?: Prisma.ExpenseGroupMemberWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` ExpenseGroupMembers from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` ExpenseGroupMembers.
+   */
+  skip?: number;
+  distinct?: Prisma.ExpenseGroupMemberScalarFieldEnum | Prisma.ExpenseGroupMemberScalarFieldEnum[];
+};
+
+/**
+ * ExpenseGroupMember create
+ */
+export type ExpenseGroupMemberCreateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseGroupMember
+   */
+  select?: Prisma.ExpenseGroupMemberSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseGroupMember
+   */
+  omit?: Prisma.ExpenseGroupMemberOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseGroupMemberInclude<ExtArgs> | null;
+  /**
+   * The data needed to create a ExpenseGroupMember.
+   */
+  data: Prisma.XOR<
+    Prisma.ExpenseGroupMemberCreateInput,
+    Prisma.ExpenseGroupMemberUncheckedCreateInput
+  >;
+};
+
+/**
+ * ExpenseGroupMember createMany
+ */
+export type ExpenseGroupMemberCreateManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * The data used to create many ExpenseGroupMembers.
+   */
+  data: Prisma.ExpenseGroupMemberCreateManyInput | Prisma.ExpenseGroupMemberCreateManyInput[];
+  skipDuplicates?: boolean;
+};
+
+/**
+ * ExpenseGroupMember createManyAndReturn
+ */
+export type ExpenseGroupMemberCreateManyAndReturnArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseGroupMember
+   */
+  select?: Prisma.ExpenseGroupMemberSelectCreateManyAndReturn<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseGroupMember
+   */
+  omit?: Prisma.ExpenseGroupMemberOmit<ExtArgs> | null;
+  /**
+   * The data used to create many ExpenseGroupMembers.
+   */
+  data: Prisma.ExpenseGroupMemberCreateManyInput | Prisma.ExpenseGroupMemberCreateManyInput[];
+  skipDuplicates?: boolean;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseGroupMemberIncludeCreateManyAndReturn<ExtArgs> | null;
+};
+
+/**
+ * ExpenseGroupMember update
+ */
+export type ExpenseGroupMemberUpdateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseGroupMember
+   */
+  select?: Prisma.ExpenseGroupMemberSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseGroupMember
+   */
+  omit?: Prisma.ExpenseGroupMemberOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseGroupMemberInclude<ExtArgs> | null;
+  /**
+   * The data needed to update a ExpenseGroupMember.
+   */
+  data: Prisma.XOR<
+    Prisma.ExpenseGroupMemberUpdateInput,
+    Prisma.ExpenseGroupMemberUncheckedUpdateInput
+  >;
+  /**
+   * Choose, which ExpenseGroupMember to update.
+   */
+  where: Prisma.ExpenseGroupMemberWhereUniqueInput;
+};
+
+/**
+ * ExpenseGroupMember updateMany
+ */
+export type ExpenseGroupMemberUpdateManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * The data used to update ExpenseGroupMembers.
+   */
+  data: Prisma.XOR<
+    Prisma.ExpenseGroupMemberUpdateManyMutationInput,
+    Prisma.ExpenseGroupMemberUncheckedUpdateManyInput
+  >;
+  /**
+   * Filter which ExpenseGroupMembers to update
+   */
+  where?: Prisma.ExpenseGroupMemberWhereInput;
+  /**
+   * Limit how many ExpenseGroupMembers to update.
+   */
+  limit?: number;
+};
+
+/**
+ * ExpenseGroupMember updateManyAndReturn
+ */
+export type ExpenseGroupMemberUpdateManyAndReturnArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseGroupMember
+   */
+  select?: Prisma.ExpenseGroupMemberSelectUpdateManyAndReturn<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseGroupMember
+   */
+  omit?: Prisma.ExpenseGroupMemberOmit<ExtArgs> | null;
+  /**
+   * The data used to update ExpenseGroupMembers.
+   */
+  data: Prisma.XOR<
+    Prisma.ExpenseGroupMemberUpdateManyMutationInput,
+    Prisma.ExpenseGroupMemberUncheckedUpdateManyInput
+  >;
+  /**
+   * Filter which ExpenseGroupMembers to update
+   */
+  where?: Prisma.ExpenseGroupMemberWhereInput;
+  /**
+   * Limit how many ExpenseGroupMembers to update.
+   */
+  limit?: number;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseGroupMemberIncludeUpdateManyAndReturn<ExtArgs> | null;
+};
+
+/**
+ * ExpenseGroupMember upsert
+ */
+export type ExpenseGroupMemberUpsertArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseGroupMember
+   */
+  select?: Prisma.ExpenseGroupMemberSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseGroupMember
+   */
+  omit?: Prisma.ExpenseGroupMemberOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseGroupMemberInclude<ExtArgs> | null;
+  /**
+   * The filter to search for the ExpenseGroupMember to update in case it exists.
+   */
+  where: Prisma.ExpenseGroupMemberWhereUniqueInput;
+  /**
+   * In case the ExpenseGroupMember found by the `where` argument doesn't exist, create a new ExpenseGroupMember with this data.
+   */
+  create: Prisma.XOR<
+    Prisma.ExpenseGroupMemberCreateInput,
+    Prisma.ExpenseGroupMemberUncheckedCreateInput
+  >;
+  /**
+   * In case the ExpenseGroupMember was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<
+    Prisma.ExpenseGroupMemberUpdateInput,
+    Prisma.ExpenseGroupMemberUncheckedUpdateInput
+  >;
+};
+
+/**
+ * ExpenseGroupMember delete
+ */
+export type ExpenseGroupMemberDeleteArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseGroupMember
+   */
+  select?: Prisma.ExpenseGroupMemberSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseGroupMember
+   */
+  omit?: Prisma.ExpenseGroupMemberOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseGroupMemberInclude<ExtArgs> | null;
+  /**
+   * Filter which ExpenseGroupMember to delete.
+   */
+  where: Prisma.ExpenseGroupMemberWhereUniqueInput;
+};
+
+/**
+ * ExpenseGroupMember deleteMany
+ */
+export type ExpenseGroupMemberDeleteManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Filter which ExpenseGroupMembers to delete
+   */
+  where?: Prisma.ExpenseGroupMemberWhereInput;
+  /**
+   * Limit how many ExpenseGroupMembers to delete.
+   */
+  limit?: number;
+};
+
+/**
+ * ExpenseGroupMember without action
+ */
+export type ExpenseGroupMemberDefaultArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseGroupMember
+   */
+  select?: Prisma.ExpenseGroupMemberSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseGroupMember
+   */
+  omit?: Prisma.ExpenseGroupMemberOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseGroupMemberInclude<ExtArgs> | null;
+};
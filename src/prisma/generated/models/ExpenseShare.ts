@@ -0,0 +1,2199 @@
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck
+/*
+ * This file exports the `ExpenseShare` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client";
+import type * as $Enums from "../enums";
+import type * as Prisma from "../internal/prismaNamespace";
+
+/**
+ * Model ExpenseShare
+ *
+ */
+export type ExpenseShareModel = runtime.Types.Result.DefaultSelection<Prisma.$ExpenseSharePayload>;
+
+export type AggregateExpenseShare = {
+  _count: ExpenseShareCountAggregateOutputType | null;
+  _avg: ExpenseShareAvgAggregateOutputType | null;
+  _sum: ExpenseShareSumAggregateOutputType | null;
+  _min: ExpenseShareMinAggregateOutputType | null;
+  _max: ExpenseShareMaxAggregateOutputType | null;
+};
+
+export type ExpenseShareAvgAggregateOutputType = {
+  amount: runtime.Decimal | null;
+};
+
+export type ExpenseShareSumAggregateOutputType = {
+  amount: runtime.Decimal | null;
+};
+
+export type ExpenseShareMinAggregateOutputType = {
+  id: string | null;
+  groupId: string | null;
+  expenseId: string | null;
+  userId: string | null;
+  amount: runtime.Decimal | null;
+  createdAt: Date | null;
+};
+
+export type ExpenseShareMaxAggregateOutputType = {
+  id: string | null;
+  groupId: string | null;
+  expenseId: string | null;
+  userId: string | null;
+  amount: runtime.Decimal | null;
+  createdAt: Date | null;
+};
+
+export type ExpenseShareCountAggregateOutputType = {
+  id: number;
+  groupId: number;
+  expenseId: number;
+  userId: number;
+  amount: number;
+  createdAt: number;
+  _all: number;
+};
+
+export type ExpenseShareAvgAggregateInputType = {
+  amount?: true;
+};
+
+export type ExpenseShareSumAggregateInputType = {
+  amount?: true;
+};
+
+export type ExpenseShareMinAggregateInputType = {
+  id?: true;
+  groupId?: true;
+  expenseId?: true;
+  userId?: true;
+  amount?: true;
+  createdAt?: true;
+};
+
+export type ExpenseShareMaxAggregateInputType = {
+  id?: true;
+  groupId?: true;
+  expenseId?: true;
+  userId?: true;
+  amount?: true;
+  createdAt?: true;
+};
+
+export type ExpenseShareCountAggregateInputType = {
+  id?: true;
+  groupId?: true;
+  expenseId?: true;
+  userId?: true;
+  amount?: true;
+  createdAt?: true;
+  _all?: true;
+};
+
+export type ExpenseShareAggregateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Filter which ExpenseShare to aggregate.
+   */
+  where?: Prisma.ExpenseShareWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of ExpenseShares to fetch.
+   */
+  orderBy?:
+    | Prisma.ExpenseShareOrderByWithRelationInput
+    | Prisma.ExpenseShareOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the start position
+   */
+  cursor?: Prisma.ExpenseShareWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` ExpenseShares from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` ExpenseShares.
+   */
+  skip?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Count returned ExpenseShares
+   **/
+  _count?: true | ExpenseShareCountAggregateInputType;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to average
+   **/
+  _avg?: ExpenseShareAvgAggregateInputType;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to sum
+   **/
+  _sum?: ExpenseShareSumAggregateInputType;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to find the minimum value
+   **/
+  _min?: ExpenseShareMinAggregateInputType;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to find the maximum value
+   **/
+  _max?: ExpenseShareMaxAggregateInputType;
+};
+
+export type GetExpenseShareAggregateType<T extends ExpenseShareAggregateArgs> = {
+  [P in keyof T & keyof AggregateExpenseShare]: P extends "_count" | "count"
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateExpenseShare[P]>
+    : Prisma.GetScalarType<T[P], AggregateExpenseShare[P]>;
+};
+
+export type ExpenseShareGroupByArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  where?: Prisma.ExpenseShareWhereInput;
+  orderBy?:
+    | Prisma.ExpenseShareOrderByWithAggregationInput
+    | Prisma.ExpenseShareOrderByWithAggregationInput[];
+  by: Prisma.ExpenseShareScalarFieldEnum[] | Prisma.ExpenseShareScalarFieldEnum;
+  having?: Prisma.ExpenseShareScalarWhereWithAggregatesInput;
+  take?: number;
+  skip?: number;
+  _count?: ExpenseShareCountAggregateInputType | true;
+  _avg?: ExpenseShareAvgAggregateInputType;
+  _sum?: ExpenseShareSumAggregateInputType;
+  _min?: ExpenseShareMinAggregateInputType;
+  _max?: ExpenseShareMaxAggregateInputType;
+};
+
+export type ExpenseShareGroupByOutputType = {
+  id: string;
+  groupId: string;
+  expenseId: string;
+  userId: string;
+  amount: runtime.Decimal;
+  createdAt: Date;
+  _count: ExpenseShareCountAggregateOutputType | null;
+  _avg: ExpenseShareAvgAggregateOutputType | null;
+  _sum: ExpenseShareSumAggregateOutputType | null;
+  _min: ExpenseShareMinAggregateOutputType | null;
+  _max: ExpenseShareMaxAggregateOutputType | null;
+};
+
+type GetExpenseShareGroupByPayload<T extends ExpenseShareGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ExpenseShareGroupByOutputType, T["by"]> & {
+      [P in keyof T & keyof ExpenseShareGroupByOutputType]: P extends "_count"
+        ? T[P] extends boolean
+          ? number
+          : Prisma.GetScalarType<T[P], ExpenseShareGroupByOutputType[P]>
+        : Prisma.GetScalarType<T[P], ExpenseShareGroupByOutputType[P]>;
+    }
+  >
+>;
+
+export type ExpenseShareWhereInput = {
+  AND?: Prisma.ExpenseShareWhereInput | Prisma.ExpenseShareWhereInput[];
+  OR?: Prisma.ExpenseShareWhereInput[];
+  NOT?: Prisma.ExpenseShareWhereInput | Prisma.ExpenseShareWhereInput[];
+  id?: Prisma.StringFilter<"ExpenseShare"> | string;
+  groupId?: Prisma.StringFilter<"ExpenseShare"> | string;
+  expenseId?: Prisma.StringFilter<"ExpenseShare"> | string;
+  userId?: Prisma.StringFilter<"ExpenseShare"> | string;
+  amount?:
+    | Prisma.DecimalFilter<"ExpenseShare">
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  createdAt?: Prisma.DateTimeFilter<"ExpenseShare"> | Date | string;
+  group?: Prisma.XOR<Prisma.ExpenseGroupScalarRelationFilter, Prisma.ExpenseGroupWhereInput>;
+  expense?: Prisma.XOR<Prisma.ExpenseScalarRelationFilter, Prisma.ExpenseWhereInput>;
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>;
+};
+
+export type ExpenseShareOrderByWithRelationInput = {
+  id?: Prisma.SortOrder;
+  groupId?: Prisma.SortOrder;
+  expenseId?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  amount?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  group?: Prisma.ExpenseGroupOrderByWithRelationInput;
+  expense?: Prisma.ExpenseOrderByWithRelationInput;
+  user?: Prisma.UserOrderByWithRelationInput;
+};
+
+export type ExpenseShareWhereUniqueInput = Prisma.AtLeast<
+  {
+    id?: string;
+    expenseId_userId?: Prisma.ExpenseShareExpenseIdUserIdCompoundUniqueInput;
+    AND?: Prisma.ExpenseShareWhereInput | Prisma.ExpenseShareWhereInput[];
+    OR?: Prisma.ExpenseShareWhereInput[];
+    NOT?: Prisma.ExpenseShareWhereInput | Prisma.ExpenseShareWhereInput[];
+    groupId?: Prisma.StringFilter<"ExpenseShare"> | string;
+    expenseId?: Prisma.StringFilter<"ExpenseShare"> | string;
+    userId?: Prisma.StringFilter<"ExpenseShare"> | string;
+    amount?:
+      | Prisma.DecimalFilter<"ExpenseShare">
+      | runtime.Decimal
+      | runtime.DecimalJsLike
+      | number
+      | string;
+    createdAt?: Prisma.DateTimeFilter<"ExpenseShare"> | Date | string;
+    group?: Prisma.XOR<Prisma.ExpenseGroupScalarRelationFilter, Prisma.ExpenseGroupWhereInput>;
+    expense?: Prisma.XOR<Prisma.ExpenseScalarRelationFilter, Prisma.ExpenseWhereInput>;
+    user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>;
+  },
+  "id" | "expenseId_userId"
+>;
+
+export type ExpenseShareOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder;
+  groupId?: Prisma.SortOrder;
+  expenseId?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  amount?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  _count?: Prisma.ExpenseShareCountOrderByAggregateInput;
+  _avg?: Prisma.ExpenseShareAvgOrderByAggregateInput;
+  _max?: Prisma.ExpenseShareMaxOrderByAggregateInput;
+  _min?: Prisma.ExpenseShareMinOrderByAggregateInput;
+  _sum?: Prisma.ExpenseShareSumOrderByAggregateInput;
+};
+
+export type ExpenseShareScalarWhereWithAggregatesInput = {
+  AND?:
+    | Prisma.ExpenseShareScalarWhereWithAggregatesInput
+    | Prisma.ExpenseShareScalarWhereWithAggregatesInput[];
+  OR?: Prisma.ExpenseShareScalarWhereWithAggregatesInput[];
+  NOT?:
+    | Prisma.ExpenseShareScalarWhereWithAggregatesInput
+    | Prisma.ExpenseShareScalarWhereWithAggregatesInput[];
+  id?: Prisma.StringWithAggregatesFilter<"ExpenseShare"> | string;
+  groupId?: Prisma.StringWithAggregatesFilter<"ExpenseShare"> | string;
+  expenseId?: Prisma.StringWithAggregatesFilter<"ExpenseShare"> | string;
+  userId?: Prisma.StringWithAggregatesFilter<"ExpenseShare"> | string;
+  amount?:
+    | Prisma.DecimalWithAggregatesFilter<"ExpenseShare">
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ExpenseShare"> | Date | string;
+};
+
+export type ExpenseShareCreateInput = {
+  id?: string;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  createdAt?: Date | string;
+  group: Prisma.ExpenseGroupCreateNestedOneWithoutSharesInput;
+  expense: Prisma.ExpenseCreateNestedOneWithoutSharesInput;
+  user: Prisma.UserCreateNestedOneWithoutExpenseSharesInput;
+};
+
+export type ExpenseShareUncheckedCreateInput = {
+  id?: string;
+  groupId: string;
+  expenseId: string;
+  userId: string;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  createdAt?: Date | string;
+};
+
+export type ExpenseShareUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  group?: Prisma.ExpenseGroupUpdateOneRequiredWithoutSharesNestedInput;
+  expense?: Prisma.ExpenseUpdateOneRequiredWithoutSharesNestedInput;
+  user?: Prisma.UserUpdateOneRequiredWithoutExpenseSharesNestedInput;
+};
+
+export type ExpenseShareUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  groupId?: Prisma.StringFieldUpdateOperationsInput | string;
+  expenseId?: Prisma.StringFieldUpdateOperationsInput | string;
+  userId?: Prisma.StringFieldUpdateOperationsInput | string;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type ExpenseShareCreateManyInput = {
+  id?: string;
+  groupId: string;
+  expenseId: string;
+  userId: string;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  createdAt?: Date | string;
+};
+
+export type ExpenseShareUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type ExpenseShareUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  groupId?: Prisma.StringFieldUpdateOperationsInput | string;
+  expenseId?: Prisma.StringFieldUpdateOperationsInput | string;
+  userId?: Prisma.StringFieldUpdateOperationsInput | string;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type ExpenseShareListRelationFilter = {
+  every?: Prisma.ExpenseShareWhereInput;
+  some?: Prisma.ExpenseShareWhereInput;
+  none?: Prisma.ExpenseShareWhereInput;
+};
+
+export type ExpenseShareOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder;
+};
+
+export type ExpenseShareExpenseIdUserIdCompoundUniqueInput = {
+  expenseId: string;
+  userId: string;
+};
+
+export type ExpenseShareCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder;
+  groupId?: Prisma.SortOrder;
+  expenseId?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  amount?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+};
+
+export type ExpenseShareAvgOrderByAggregateInput = {
+  amount?: Prisma.SortOrder;
+};
+
+export type ExpenseShareMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder;
+  groupId?: Prisma.SortOrder;
+  expenseId?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  amount?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+};
+
+export type ExpenseShareMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder;
+  groupId?: Prisma.SortOrder;
+  expenseId?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  amount?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+};
+
+export type ExpenseShareSumOrderByAggregateInput = {
+  amount?: Prisma.SortOrder;
+};
+
+export type ExpenseShareCreateNestedManyWithoutUserInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.ExpenseShareCreateWithoutUserInput,
+        Prisma.ExpenseShareUncheckedCreateWithoutUserInput
+      >
+    | Prisma.ExpenseShareCreateWithoutUserInput[]
+    | Prisma.ExpenseShareUncheckedCreateWithoutUserInput[];
+  connectOrCreate?:
+    | Prisma.ExpenseShareCreateOrConnectWithoutUserInput
+    | Prisma.ExpenseShareCreateOrConnectWithoutUserInput[];
+  createMany?: Prisma.ExpenseShareCreateManyUserInputEnvelope;
+  connect?: Prisma.ExpenseShareWhereUniqueInput | Prisma.ExpenseShareWhereUniqueInput[];
+};
+
+export type ExpenseShareUncheckedCreateNestedManyWithoutUserInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.ExpenseShareCreateWithoutUserInput,
+        Prisma.ExpenseShareUncheckedCreateWithoutUserInput
+      >
+    | Prisma.ExpenseShareCreateWithoutUserInput[]
+    | Prisma.ExpenseShareUncheckedCreateWithoutUserInput[];
+  connectOrCreate?:
+    | Prisma.ExpenseShareCreateOrConnectWithoutUserInput
+    | Prisma.ExpenseShareCreateOrConnectWithoutUserInput[];
+  createMany?: Prisma.ExpenseShareCreateManyUserInputEnvelope;
+  connect?: Prisma.ExpenseShareWhereUniqueInput | Prisma.ExpenseShareWhereUniqueInput[];
+};
+
+export type ExpenseShareUpdateManyWithoutUserNestedInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.ExpenseShareCreateWithoutUserInput,
+        Prisma.ExpenseShareUncheckedCreateWithoutUserInput
+      >
+    | Prisma.ExpenseShareCreateWithoutUserInput[]
+    | Prisma.ExpenseShareUncheckedCreateWithoutUserInput[];
+  connectOrCreate?:
+    | Prisma.ExpenseShareCreateOrConnectWithoutUserInput
+    | Prisma.ExpenseShareCreateOrConnectWithoutUserInput[];
+  upsert?:
+    | Prisma.ExpenseShareUpsertWithWhereUniqueWithoutUserInput
+    | Prisma.ExpenseShareUpsertWithWhereUniqueWithoutUserInput[];
+  createMany?: Prisma.ExpenseShareCreateManyUserInputEnvelope;
+  set?: Prisma.ExpenseShareWhereUniqueInput | Prisma.ExpenseShareWhereUniqueInput[];
+  disconnect?: Prisma.ExpenseShareWhereUniqueInput | Prisma.ExpenseShareWhereUniqueInput[];
+  delete?: Prisma.ExpenseShareWhereUniqueInput | Prisma.ExpenseShareWhereUniqueInput[];
+  connect?: Prisma.ExpenseShareWhereUniqueInput | Prisma.ExpenseShareWhereUniqueInput[];
+  update?:
+    | Prisma.ExpenseShareUpdateWithWhereUniqueWithoutUserInput
+    | Prisma.ExpenseShareUpdateWithWhereUniqueWithoutUserInput[];
+  updateMany?:
+    | Prisma.ExpenseShareUpdateManyWithWhereWithoutUserInput
+    | Prisma.ExpenseShareUpdateManyWithWhereWithoutUserInput[];
+  deleteMany?: Prisma.ExpenseShareScalarWhereInput | Prisma.ExpenseShareScalarWhereInput[];
+};
+
+export type ExpenseShareUncheckedUpdateManyWithoutUserNestedInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.ExpenseShareCreateWithoutUserInput,
+        Prisma.ExpenseShareUncheckedCreateWithoutUserInput
+      >
+    | Prisma.ExpenseShareCreateWithoutUserInput[]
+    | Prisma.ExpenseShareUncheckedCreateWithoutUserInput[];
+  connectOrCreate?:
+    | Prisma.ExpenseShareCreateOrConnectWithoutUserInput
+    | Prisma.ExpenseShareCreateOrConnectWithoutUserInput[];
+  upsert?:
+    | Prisma.ExpenseShareUpsertWithWhereUniqueWithoutUserInput
+    | Prisma.ExpenseShareUpsertWithWhereUniqueWithoutUserInput[];
+  createMany?: Prisma.ExpenseShareCreateManyUserInputEnvelope;
+  set?: Prisma.ExpenseShareWhereUniqueInput | Prisma.ExpenseShareWhereUniqueInput[];
+  disconnect?: Prisma.ExpenseShareWhereUniqueInput | Prisma.ExpenseShareWhereUniqueInput[];
+  delete?: Prisma.ExpenseShareWhereUniqueInput | Prisma.ExpenseShareWhereUniqueInput[];
+  connect?: Prisma.ExpenseShareWhereUniqueInput | Prisma.ExpenseShareWhereUniqueInput[];
+  update?:
+    | Prisma.ExpenseShareUpdateWithWhereUniqueWithoutUserInput
+    | Prisma.ExpenseShareUpdateWithWhereUniqueWithoutUserInput[];
+  updateMany?:
+    | Prisma.ExpenseShareUpdateManyWithWhereWithoutUserInput
+    | Prisma.ExpenseShareUpdateManyWithWhereWithoutUserInput[];
+  deleteMany?: Prisma.ExpenseShareScalarWhereInput | Prisma.ExpenseShareScalarWhereInput[];
+};
+
+export type ExpenseShareCreateNestedManyWithoutExpenseInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.ExpenseShareCreateWithoutExpenseInput,
+        Prisma.ExpenseShareUncheckedCreateWithoutExpenseInput
+      >
+    | Prisma.ExpenseShareCreateWithoutExpenseInput[]
+    | Prisma.ExpenseShareUncheckedCreateWithoutExpenseInput[];
+  connectOrCreate?:
+    | Prisma.ExpenseShareCreateOrConnectWithoutExpenseInput
+    | Prisma.ExpenseShareCreateOrConnectWithoutExpenseInput[];
+  createMany?: Prisma.ExpenseShareCreateManyExpenseInputEnvelope;
+  connect?: Prisma.ExpenseShareWhereUniqueInput | Prisma.ExpenseShareWhereUniqueInput[];
+};
+
+export type ExpenseShareUncheckedCreateNestedManyWithoutExpenseInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.ExpenseShareCreateWithoutExpenseInput,
+        Prisma.ExpenseShareUncheckedCreateWithoutExpenseInput
+      >
+    | Prisma.ExpenseShareCreateWithoutExpenseInput[]
+    | Prisma.ExpenseShareUncheckedCreateWithoutExpenseInput[];
+  connectOrCreate?:
+    | Prisma.ExpenseShareCreateOrConnectWithoutExpenseInput
+    | Prisma.ExpenseShareCreateOrConnectWithoutExpenseInput[];
+  createMany?: Prisma.ExpenseShareCreateManyExpenseInputEnvelope;
+  connect?: Prisma.ExpenseShareWhereUniqueInput | Prisma.ExpenseShareWhereUniqueInput[];
+};
+
+export type ExpenseShareUpdateManyWithoutExpenseNestedInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.ExpenseShareCreateWithoutExpenseInput,
+        Prisma.ExpenseShareUncheckedCreateWithoutExpenseInput
+      >
+    | Prisma.ExpenseShareCreateWithoutExpenseInput[]
+    | Prisma.ExpenseShareUncheckedCreateWithoutExpenseInput[];
+  connectOrCreate?:
+    | Prisma.ExpenseShareCreateOrConnectWithoutExpenseInput
+    | Prisma.ExpenseShareCreateOrConnectWithoutExpenseInput[];
+  upsert?:
+    | Prisma.ExpenseShareUpsertWithWhereUniqueWithoutExpenseInput
+    | Prisma.ExpenseShareUpsertWithWhereUniqueWithoutExpenseInput[];
+  createMany?: Prisma.ExpenseShareCreateManyExpenseInputEnvelope;
+  set?: Prisma.ExpenseShareWhereUniqueInput | Prisma.ExpenseShareWhereUniqueInput[];
+  disconnect?: Prisma.ExpenseShareWhereUniqueInput | Prisma.ExpenseShareWhereUniqueInput[];
+  delete?: Prisma.ExpenseShareWhereUniqueInput | Prisma.ExpenseShareWhereUniqueInput[];
+  connect?: Prisma.ExpenseShareWhereUniqueInput | Prisma.ExpenseShareWhereUniqueInput[];
+  update?:
+    | Prisma.ExpenseShareUpdateWithWhereUniqueWithoutExpenseInput
+    | Prisma.ExpenseShareUpdateWithWhereUniqueWithoutExpenseInput[];
+  updateMany?:
+    | Prisma.ExpenseShareUpdateManyWithWhereWithoutExpenseInput
+    | Prisma.ExpenseShareUpdateManyWithWhereWithoutExpenseInput[];
+  deleteMany?: Prisma.ExpenseShareScalarWhereInput | Prisma.ExpenseShareScalarWhereInput[];
+};
+
+export type ExpenseShareUncheckedUpdateManyWithoutExpenseNestedInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.ExpenseShareCreateWithoutExpenseInput,
+        Prisma.ExpenseShareUncheckedCreateWithoutExpenseInput
+      >
+    | Prisma.ExpenseShareCreateWithoutExpenseInput[]
+    | Prisma.ExpenseShareUncheckedCreateWithoutExpenseInput[];
+  connectOrCreate?:
+    | Prisma.ExpenseShareCreateOrConnectWithoutExpenseInput
+    | Prisma.ExpenseShareCreateOrConnectWithoutExpenseInput[];
+  upsert?:
+    | Prisma.ExpenseShareUpsertWithWhereUniqueWithoutExpenseInput
+    | Prisma.ExpenseShareUpsertWithWhereUniqueWithoutExpenseInput[];
+  createMany?: Prisma.ExpenseShareCreateManyExpenseInputEnvelope;
+  set?: Prisma.ExpenseShareWhereUniqueInput | Prisma.ExpenseShareWhereUniqueInput[];
+  disconnect?: Prisma.ExpenseShareWhereUniqueInput | Prisma.ExpenseShareWhereUniqueInput[];
+  delete?: Prisma.ExpenseShareWhereUniqueInput | Prisma.ExpenseShareWhereUniqueInput[];
+  connect?: Prisma.ExpenseShareWhereUniqueInput | Prisma.ExpenseShareWhereUniqueInput[];
+  update?:
+    | Prisma.ExpenseShareUpdateWithWhereUniqueWithoutExpenseInput
+    | Prisma.ExpenseShareUpdateWithWhereUniqueWithoutExpenseInput[];
+  updateMany?:
+    | Prisma.ExpenseShareUpdateManyWithWhereWithoutExpenseInput
+    | Prisma.ExpenseShareUpdateManyWithWhereWithoutExpenseInput[];
+  deleteMany?: Prisma.ExpenseShareScalarWhereInput | Prisma.ExpenseShareScalarWhereInput[];
+};
+
+export type ExpenseShareCreateNestedManyWithoutGroupInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.ExpenseShareCreateWithoutGroupInput,
+        Prisma.ExpenseShareUncheckedCreateWithoutGroupInput
+      >
+    | Prisma.ExpenseShareCreateWithoutGroupInput[]
+    | Prisma.ExpenseShareUncheckedCreateWithoutGroupInput[];
+  connectOrCreate?:
+    | Prisma.ExpenseShareCreateOrConnectWithoutGroupInput
+    | Prisma.ExpenseShareCreateOrConnectWithoutGroupInput[];
+  createMany?: Prisma.ExpenseShareCreateManyGroupInputEnvelope;
+  connect?: Prisma.ExpenseShareWhereUniqueInput | Prisma.ExpenseShareWhereUniqueInput[];
+};
+
+export type ExpenseShareUncheckedCreateNestedManyWithoutGroupInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.ExpenseShareCreateWithoutGroupInput,
+        Prisma.ExpenseShareUncheckedCreateWithoutGroupInput
+      >
+    | Prisma.ExpenseShareCreateWithoutGroupInput[]
+    | Prisma.ExpenseShareUncheckedCreateWithoutGroupInput[];
+  connectOrCreate?:
+    | Prisma.ExpenseShareCreateOrConnectWithoutGroupInput
+    | Prisma.ExpenseShareCreateOrConnectWithoutGroupInput[];
+  createMany?: Prisma.ExpenseShareCreateManyGroupInputEnvelope;
+  connect?: Prisma.ExpenseShareWhereUniqueInput | Prisma.ExpenseShareWhereUniqueInput[];
+};
+
+export type ExpenseShareUpdateManyWithoutGroupNestedInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.ExpenseShareCreateWithoutGroupInput,
+        Prisma.ExpenseShareUncheckedCreateWithoutGroupInput
+      >
+    | Prisma.ExpenseShareCreateWithoutGroupInput[]
+    | Prisma.ExpenseShareUncheckedCreateWithoutGroupInput[];
+  connectOrCreate?:
+    | Prisma.ExpenseShareCreateOrConnectWithoutGroupInput
+    | Prisma.ExpenseShareCreateOrConnectWithoutGroupInput[];
+  upsert?:
+    | Prisma.ExpenseShareUpsertWithWhereUniqueWithoutGroupInput
+    | Prisma.ExpenseShareUpsertWithWhereUniqueWithoutGroupInput[];
+  createMany?: Prisma.ExpenseShareCreateManyGroupInputEnvelope;
+  set?: Prisma.ExpenseShareWhereUniqueInput | Prisma.ExpenseShareWhereUniqueInput[];
+  disconnect?: Prisma.ExpenseShareWhereUniqueInput | Prisma.ExpenseShareWhereUniqueInput[];
+  delete?: Prisma.ExpenseShareWhereUniqueInput | Prisma.ExpenseShareWhereUniqueInput[];
+  connect?: Prisma.ExpenseShareWhereUniqueInput | Prisma.ExpenseShareWhereUniqueInput[];
+  update?:
+    | Prisma.ExpenseShareUpdateWithWhereUniqueWithoutGroupInput
+    | Prisma.ExpenseShareUpdateWithWhereUniqueWithoutGroupInput[];
+  updateMany?:
+    | Prisma.ExpenseShareUpdateManyWithWhereWithoutGroupInput
+    | Prisma.ExpenseShareUpdateManyWithWhereWithoutGroupInput[];
+  deleteMany?: Prisma.ExpenseShareScalarWhereInput | Prisma.ExpenseShareScalarWhereInput[];
+};
+
+export type ExpenseShareUncheckedUpdateManyWithoutGroupNestedInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.ExpenseShareCreateWithoutGroupInput,
+        Prisma.ExpenseShareUncheckedCreateWithoutGroupInput
+      >
+    | Prisma.ExpenseShareCreateWithoutGroupInput[]
+    | Prisma.ExpenseShareUncheckedCreateWithoutGroupInput[];
+  connectOrCreate?:
+    | Prisma.ExpenseShareCreateOrConnectWithoutGroupInput
+    | Prisma.ExpenseShareCreateOrConnectWithoutGroupInput[];
+  upsert?:
+    | Prisma.ExpenseShareUpsertWithWhereUniqueWithoutGroupInput
+    | Prisma.ExpenseShareUpsertWithWhereUniqueWithoutGroupInput[];
+  createMany?: Prisma.ExpenseShareCreateManyGroupInputEnvelope;
+  set?: Prisma.ExpenseShareWhereUniqueInput | Prisma.ExpenseShareWhereUniqueInput[];
+  disconnect?: Prisma.ExpenseShareWhereUniqueInput | Prisma.ExpenseShareWhereUniqueInput[];
+  delete?: Prisma.ExpenseShareWhereUniqueInput | Prisma.ExpenseShareWhereUniqueInput[];
+  connect?: Prisma.ExpenseShareWhereUniqueInput | Prisma.ExpenseShareWhereUniqueInput[];
+  update?:
+    | Prisma.ExpenseShareUpdateWithWhereUniqueWithoutGroupInput
+    | Prisma.ExpenseShareUpdateWithWhereUniqueWithoutGroupInput[];
+  updateMany?:
+    | Prisma.ExpenseShareUpdateManyWithWhereWithoutGroupInput
+    | Prisma.ExpenseShareUpdateManyWithWhereWithoutGroupInput[];
+  deleteMany?: Prisma.ExpenseShareScalarWhereInput | Prisma.ExpenseShareScalarWhereInput[];
+};
+
+export type ExpenseShareCreateWithoutUserInput = {
+  id?: string;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  createdAt?: Date | string;
+  group: Prisma.ExpenseGroupCreateNestedOneWithoutSharesInput;
+  expense: Prisma.ExpenseCreateNestedOneWithoutSharesInput;
+};
+
+export type ExpenseShareUncheckedCreateWithoutUserInput = {
+  id?: string;
+  groupId: string;
+  expenseId: string;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  createdAt?: Date | string;
+};
+
+export type ExpenseShareCreateOrConnectWithoutUserInput = {
+  where: Prisma.ExpenseShareWhereUniqueInput;
+  create: Prisma.XOR<
+    Prisma.ExpenseShareCreateWithoutUserInput,
+    Prisma.ExpenseShareUncheckedCreateWithoutUserInput
+  >;
+};
+
+export type ExpenseShareCreateManyUserInputEnvelope = {
+  data: Prisma.ExpenseShareCreateManyUserInput | Prisma.ExpenseShareCreateManyUserInput[];
+  skipDuplicates?: boolean;
+};
+
+export type ExpenseShareUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.ExpenseShareWhereUniqueInput;
+  update: Prisma.XOR<
+    Prisma.ExpenseShareUpdateWithoutUserInput,
+    Prisma.ExpenseShareUncheckedUpdateWithoutUserInput
+  >;
+  create: Prisma.XOR<
+    Prisma.ExpenseShareCreateWithoutUserInput,
+    Prisma.ExpenseShareUncheckedCreateWithoutUserInput
+  >;
+};
+
+export type ExpenseShareUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.ExpenseShareWhereUniqueInput;
+  data: Prisma.XOR<
+    Prisma.ExpenseShareUpdateWithoutUserInput,
+    Prisma.ExpenseShareUncheckedUpdateWithoutUserInput
+  >;
+};
+
+export type ExpenseShareUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.ExpenseShareScalarWhereInput;
+  data: Prisma.XOR<
+    Prisma.ExpenseShareUpdateManyMutationInput,
+    Prisma.ExpenseShareUncheckedUpdateManyWithoutUserInput
+  >;
+};
+
+export type ExpenseShareScalarWhereInput = {
+  AND?: Prisma.ExpenseShareScalarWhereInput | Prisma.ExpenseShareScalarWhereInput[];
+  OR?: Prisma.ExpenseShareScalarWhereInput[];
+  NOT?: Prisma.ExpenseShareScalarWhereInput | Prisma.ExpenseShareScalarWhereInput[];
+  id?: Prisma.StringFilter<"ExpenseShare"> | string;
+  groupId?: Prisma.StringFilter<"ExpenseShare"> | string;
+  expenseId?: Prisma.StringFilter<"ExpenseShare"> | string;
+  userId?: Prisma.StringFilter<"ExpenseShare"> | string;
+  amount?:
+    | Prisma.DecimalFilter<"ExpenseShare">
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  createdAt?: Prisma.DateTimeFilter<"ExpenseShare"> | Date | string;
+};
+
+export type ExpenseShareCreateWithoutExpenseInput = {
+  id?: string;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  createdAt?: Date | string;
+  group: Prisma.ExpenseGroupCreateNestedOneWithoutSharesInput;
+  user: Prisma.UserCreateNestedOneWithoutExpenseSharesInput;
+};
+
+export type ExpenseShareUncheckedCreateWithoutExpenseInput = {
+  id?: string;
+  groupId: string;
+  userId: string;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  createdAt?: Date | string;
+};
+
+export type ExpenseShareCreateOrConnectWithoutExpenseInput = {
+  where: Prisma.ExpenseShareWhereUniqueInput;
+  create: Prisma.XOR<
+    Prisma.ExpenseShareCreateWithoutExpenseInput,
+    Prisma.ExpenseShareUncheckedCreateWithoutExpenseInput
+  >;
+};
+
+export type ExpenseShareCreateManyExpenseInputEnvelope = {
+  data: Prisma.ExpenseShareCreateManyExpenseInput | Prisma.ExpenseShareCreateManyExpenseInput[];
+  skipDuplicates?: boolean;
+};
+
+export type ExpenseShareUpsertWithWhereUniqueWithoutExpenseInput = {
+  where: Prisma.ExpenseShareWhereUniqueInput;
+  update: Prisma.XOR<
+    Prisma.ExpenseShareUpdateWithoutExpenseInput,
+    Prisma.ExpenseShareUncheckedUpdateWithoutExpenseInput
+  >;
+  create: Prisma.XOR<
+    Prisma.ExpenseShareCreateWithoutExpenseInput,
+    Prisma.ExpenseShareUncheckedCreateWithoutExpenseInput
+  >;
+};
+
+export type ExpenseShareUpdateWithWhereUniqueWithoutExpenseInput = {
+  where: Prisma.ExpenseShareWhereUniqueInput;
+  data: Prisma.XOR<
+    Prisma.ExpenseShareUpdateWithoutExpenseInput,
+    Prisma.ExpenseShareUncheckedUpdateWithoutExpenseInput
+  >;
+};
+
+export type ExpenseShareUpdateManyWithWhereWithoutExpenseInput = {
+  where: Prisma.ExpenseShareScalarWhereInput;
+  data: Prisma.XOR<
+    Prisma.ExpenseShareUpdateManyMutationInput,
+    Prisma.ExpenseShareUncheckedUpdateManyWithoutExpenseInput
+  >;
+};
+
+export type ExpenseShareCreateWithoutGroupInput = {
+  id?: string;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  createdAt?: Date | string;
+  expense: Prisma.ExpenseCreateNestedOneWithoutSharesInput;
+  user: Prisma.UserCreateNestedOneWithoutExpenseSharesInput;
+};
+
+export type ExpenseShareUncheckedCreateWithoutGroupInput = {
+  id?: string;
+  expenseId: string;
+  userId: string;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  createdAt?: Date | string;
+};
+
+export type ExpenseShareCreateOrConnectWithoutGroupInput = {
+  where: Prisma.ExpenseShareWhereUniqueInput;
+  create: Prisma.XOR<
+    Prisma.ExpenseShareCreateWithoutGroupInput,
+    Prisma.ExpenseShareUncheckedCreateWithoutGroupInput
+  >;
+};
+
+export type ExpenseShareCreateManyGroupInputEnvelope = {
+  data: Prisma.ExpenseShareCreateManyGroupInput | Prisma.ExpenseShareCreateManyGroupInput[];
+  skipDuplicates?: boolean;
+};
+
+export type ExpenseShareUpsertWithWhereUniqueWithoutGroupInput = {
+  where: Prisma.ExpenseShareWhereUniqueInput;
+  update: Prisma.XOR<
+    Prisma.ExpenseShareUpdateWithoutGroupInput,
+    Prisma.ExpenseShareUncheckedUpdateWithoutGroupInput
+  >;
+  create: Prisma.XOR<
+    Prisma.ExpenseShareCreateWithoutGroupInput,
+    Prisma.ExpenseShareUncheckedCreateWithoutGroupInput
+  >;
+};
+
+export type ExpenseShareUpdateWithWhereUniqueWithoutGroupInput = {
+  where: Prisma.ExpenseShareWhereUniqueInput;
+  data: Prisma.XOR<
+    Prisma.ExpenseShareUpdateWithoutGroupInput,
+    Prisma.ExpenseShareUncheckedUpdateWithoutGroupInput
+  >;
+};
+
+export type ExpenseShareUpdateManyWithWhereWithoutGroupInput = {
+  where: Prisma.ExpenseShareScalarWhereInput;
+  data: Prisma.XOR<
+    Prisma.ExpenseShareUpdateManyMutationInput,
+    Prisma.ExpenseShareUncheckedUpdateManyWithoutGroupInput
+  >;
+};
+
+export type ExpenseShareCreateManyUserInput = {
+  id?: string;
+  groupId: string;
+  expenseId: string;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  createdAt?: Date | string;
+};
+
+export type ExpenseShareUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  group?: Prisma.ExpenseGroupUpdateOneRequiredWithoutSharesNestedInput;
+  expense?: Prisma.ExpenseUpdateOneRequiredWithoutSharesNestedInput;
+};
+
+export type ExpenseShareUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  groupId?: Prisma.StringFieldUpdateOperationsInput | string;
+  expenseId?: Prisma.StringFieldUpdateOperationsInput | string;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type ExpenseShareUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  groupId?: Prisma.StringFieldUpdateOperationsInput | string;
+  expenseId?: Prisma.StringFieldUpdateOperationsInput | string;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type ExpenseShareCreateManyExpenseInput = {
+  id?: string;
+  groupId: string;
+  userId: string;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  createdAt?: Date | string;
+};
+
+export type ExpenseShareUpdateWithoutExpenseInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  group?: Prisma.ExpenseGroupUpdateOneRequiredWithoutSharesNestedInput;
+  user?: Prisma.UserUpdateOneRequiredWithoutExpenseSharesNestedInput;
+};
+
+export type ExpenseShareUncheckedUpdateWithoutExpenseInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  groupId?: Prisma.StringFieldUpdateOperationsInput | string;
+  userId?: Prisma.StringFieldUpdateOperationsInput | string;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type ExpenseShareUncheckedUpdateManyWithoutExpenseInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  groupId?: Prisma.StringFieldUpdateOperationsInput | string;
+  userId?: Prisma.StringFieldUpdateOperationsInput | string;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type ExpenseShareCreateManyGroupInput = {
+  id?: string;
+  expenseId: string;
+  userId: string;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  createdAt?: Date | string;
+};
+
+export type ExpenseShareUpdateWithoutGroupInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  expense?: Prisma.ExpenseUpdateOneRequiredWithoutSharesNestedInput;
+  user?: Prisma.UserUpdateOneRequiredWithoutExpenseSharesNestedInput;
+};
+
+export type ExpenseShareUncheckedUpdateWithoutGroupInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  expenseId?: Prisma.StringFieldUpdateOperationsInput | string;
+  userId?: Prisma.StringFieldUpdateOperationsInput | string;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type ExpenseShareUncheckedUpdateManyWithoutGroupInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  expenseId?: Prisma.StringFieldUpdateOperationsInput | string;
+  userId?: Prisma.StringFieldUpdateOperationsInput | string;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type ExpenseShareSelect<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean;
+    groupId?: boolean;
+    expenseId?: boolean;
+    userId?: boolean;
+    amount?: boolean;
+    createdAt?: boolean;
+    group?: boolean | Prisma.ExpenseGroupDefaultArgs<ExtArgs>;
+    expense?: boolean | Prisma.ExpenseDefaultArgs<ExtArgs>;
+    user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+  },
+  ExtArgs["result"]["expenseShare"]
+>;
+
+export type ExpenseShareSelectCreateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean;
+    groupId?: boolean;
+    expenseId?: boolean;
+    userId?: boolean;
+    amount?: boolean;
+    createdAt?: boolean;
+    group?: boolean | Prisma.ExpenseGroupDefaultArgs<ExtArgs>;
+    expense?: boolean | Prisma.ExpenseDefaultArgs<ExtArgs>;
+    user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+  },
+  ExtArgs["result"]["expenseShare"]
+>;
+
+export type ExpenseShareSelectUpdateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean;
+    groupId?: boolean;
+    expenseId?: boolean;
+    userId?: boolean;
+    amount?: boolean;
+    createdAt?: boolean;
+    group?: boolean | Prisma.ExpenseGroupDefaultArgs<ExtArgs>;
+    expense?: boolean | Prisma.ExpenseDefaultArgs<ExtArgs>;
+    user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+  },
+  ExtArgs["result"]["expenseShare"]
+>;
+
+export type ExpenseShareSelectScalar = {
+  id?: boolean;
+  groupId?: boolean;
+  expenseId?: boolean;
+  userId?: boolean;
+  amount?: boolean;
+  createdAt?: boolean;
+};
+
+export type ExpenseShareOmit<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetOmit<
+  "id" | "groupId" | "expenseId" | "userId" | "amount" | "createdAt",
+  ExtArgs["result"]["expenseShare"]
+>;
+export type ExpenseShareInclude<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  group?: boolean | Prisma.ExpenseGroupDefaultArgs<ExtArgs>;
+  expense?: boolean | Prisma.ExpenseDefaultArgs<ExtArgs>;
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+};
+export type ExpenseShareIncludeCreateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  group?: boolean | Prisma.ExpenseGroupDefaultArgs<ExtArgs>;
+  expense?: boolean | Prisma.ExpenseDefaultArgs<ExtArgs>;
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+};
+export type ExpenseShareIncludeUpdateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  group?: boolean | Prisma.ExpenseGroupDefaultArgs<ExtArgs>;
+  expense?: boolean | Prisma.ExpenseDefaultArgs<ExtArgs>;
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+};
+
+export type $ExpenseSharePayload<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  name: "ExpenseShare";
+  objects: {
+    group: Prisma.$ExpenseGroupPayload<ExtArgs>;
+    expense: Prisma.$ExpensePayload<ExtArgs>;
+    user: Prisma.$UserPayload<ExtArgs>;
+  };
+  scalars: runtime.Types.Extensions.GetPayloadResult<
+    {
+      id: string;
+      groupId: string;
+      expenseId: string;
+      userId: string;
+      amount: runtime.Decimal;
+      createdAt: Date;
+    },
+    ExtArgs["result"]["expenseShare"]
+  >;
+  composites: {};
+};
+
+export type ExpenseShareGetPayload<S extends boolean | null | undefined | ExpenseShareDefaultArgs> =
+  runtime.Types.Result.GetResult<Prisma.$ExpenseSharePayload, S>;
+
+export type ExpenseShareCountArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = Omit<ExpenseShareFindManyArgs, "select" | "include" | "distinct" | "omit"> & {
+  select?: ExpenseShareCountAggregateInputType | true;
+};
+
+export interface ExpenseShareDelegate<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+  GlobalOmitOptions = {}
+> {
+  [K: symbol]: {
+    types: Prisma.TypeMap<ExtArgs>["model"]["ExpenseShare"];
+    meta: { name: "ExpenseShare" };
+  };
+  /**
+   * Find zero or one ExpenseShare that matches the filter.
+   * @param {ExpenseShareFindUniqueArgs} args - Arguments to find a ExpenseShare
+   * @example
+   * // Get one ExpenseShare
+   * const expenseShare = await prisma.expenseShare.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ExpenseShareFindUniqueArgs>(
+    args: Prisma.SelectSubset<T, ExpenseShareFindUniqueArgs<ExtArgs>>
+  ): Prisma.Prisma__ExpenseShareClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseSharePayload<ExtArgs>,
+      T,
+      "findUnique",
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find one ExpenseShare that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ExpenseShareFindUniqueOrThrowArgs} args - Arguments to find a ExpenseShare
+   * @example
+   * // Get one ExpenseShare
+   * const expenseShare = await prisma.expenseShare.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ExpenseShareFindUniqueOrThrowArgs>(
+    args: Prisma.SelectSubset<T, ExpenseShareFindUniqueOrThrowArgs<ExtArgs>>
+  ): Prisma.Prisma__ExpenseShareClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseSharePayload<ExtArgs>,
+      T,
+      "findUniqueOrThrow",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find the first ExpenseShare that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExpenseShareFindFirstArgs} args - Arguments to find a ExpenseShare
+   * @example
+   * // Get one ExpenseShare
+   * const expenseShare = await prisma.expenseShare.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ExpenseShareFindFirstArgs>(
+    args?: Prisma.SelectSubset<T, ExpenseShareFindFirstArgs<ExtArgs>>
+  ): Prisma.Prisma__ExpenseShareClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseSharePayload<ExtArgs>,
+      T,
+      "findFirst",
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find the first ExpenseShare that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExpenseShareFindFirstOrThrowArgs} args - Arguments to find a ExpenseShare
+   * @example
+   * // Get one ExpenseShare
+   * const expenseShare = await prisma.expenseShare.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ExpenseShareFindFirstOrThrowArgs>(
+    args?: Prisma.SelectSubset<T, ExpenseShareFindFirstOrThrowArgs<ExtArgs>>
+  ): Prisma.Prisma__ExpenseShareClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseSharePayload<ExtArgs>,
+      T,
+      "findFirstOrThrow",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find zero or more ExpenseShares that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExpenseShareFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ExpenseShares
+   * const expenseShares = await prisma.expenseShare.findMany()
+   *
+   * // Get first 10 ExpenseShares
+   * const expenseShares = await prisma.expenseShare.findMany({ take: 10 })
+   *
+   * // Only select the `id`
+   * const expenseShareWithIdOnly = await prisma.expenseShare.findMany({ select: { id: true } })
+   *
+   */
+  findMany<T extends ExpenseShareFindManyArgs>(
+    args?: Prisma.SelectSubset<T, ExpenseShareFindManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseSharePayload<ExtArgs>,
+      T,
+      "findMany",
+      GlobalOmitOptions
+    >
+  >;
+
+  /**
+   * Create a ExpenseShare.
+   * @param {ExpenseShareCreateArgs} args - Arguments to create a ExpenseShare.
+   * @example
+   * // Create one ExpenseShare
+   * const ExpenseShare = await prisma.expenseShare.create({
+   *   data: {
+   *     // ... data to create a ExpenseShare
+   *   }
+   * })
+   *
+   */
+  create<T extends ExpenseShareCreateArgs>(
+    args: Prisma.SelectSubset<T, ExpenseShareCreateArgs<ExtArgs>>
+  ): Prisma.Prisma__ExpenseShareClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseSharePayload<ExtArgs>,
+      T,
+      "create",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Create many ExpenseShares.
+   * @param {ExpenseShareCreateManyArgs} args - Arguments to create many ExpenseShares.
+   * @example
+   * // Create many ExpenseShares
+   * const expenseShare = await prisma.expenseShare.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   */
+  createMany<T extends ExpenseShareCreateManyArgs>(
+    args?: Prisma.SelectSubset<T, ExpenseShareCreateManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+  /**
+   * Create many ExpenseShares and returns the data saved in the database.
+   * @param {ExpenseShareCreateManyAndReturnArgs} args - Arguments to create many ExpenseShares.
+   * @example
+   * // Create many ExpenseShares
+   * const expenseShare = await prisma.expenseShare.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   * // Create many ExpenseShares and only return the `id`
+   * const expenseShareWithIdOnly = await prisma.expenseShare.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   *
+   */
+  createManyAndReturn<T extends ExpenseShareCreateManyAndReturnArgs>(
+    args?: Prisma.SelectSubset<T, ExpenseShareCreateManyAndReturnArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseSharePayload<ExtArgs>,
+      T,
+      "createManyAndReturn",
+      GlobalOmitOptions
+    >
+  >;
+
+  /**
+   * Delete a ExpenseShare.
+   * @param {ExpenseShareDeleteArgs} args - Arguments to delete one ExpenseShare.
+   * @example
+   * // Delete one ExpenseShare
+   * const ExpenseShare = await prisma.expenseShare.delete({
+   *   where: {
+   *     // ... filter to delete one ExpenseShare
+   *   }
+   * })
+   *
+   */
+  delete<T extends ExpenseShareDeleteArgs>(
+    args: Prisma.SelectSubset<T, ExpenseShareDeleteArgs<ExtArgs>>
+  ): Prisma.Prisma__ExpenseShareClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseSharePayload<ExtArgs>,
+      T,
+      "delete",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Update one ExpenseShare.
+   * @param {ExpenseShareUpdateArgs} args - Arguments to update one ExpenseShare.
+   * @example
+   * // Update one ExpenseShare
+   * const expenseShare = await prisma.expenseShare.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   *
+   */
+  update<T extends ExpenseShareUpdateArgs>(
+    args: Prisma.SelectSubset<T, ExpenseShareUpdateArgs<ExtArgs>>
+  ): Prisma.Prisma__ExpenseShareClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseSharePayload<ExtArgs>,
+      T,
+      "update",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Delete zero or more ExpenseShares.
+   * @param {ExpenseShareDeleteManyArgs} args - Arguments to filter ExpenseShares to delete.
+   * @example
+   * // Delete a few ExpenseShares
+   * const { count } = await prisma.expenseShare.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   *
+   */
+  deleteMany<T extends ExpenseShareDeleteManyArgs>(
+    args?: Prisma.SelectSubset<T, ExpenseShareDeleteManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+  /**
+   * Update zero or more ExpenseShares.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExpenseShareUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ExpenseShares
+   * const expenseShare = await prisma.expenseShare.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   *
+   */
+  updateMany<T extends ExpenseShareUpdateManyArgs>(
+    args: Prisma.SelectSubset<T, ExpenseShareUpdateManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+  /**
+   * Update zero or more ExpenseShares and returns the data updated in the database.
+   * @param {ExpenseShareUpdateManyAndReturnArgs} args - Arguments to update many ExpenseShares.
+   * @example
+   * // Update many ExpenseShares
+   * const expenseShare = await prisma.expenseShare.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   * // Update zero or more ExpenseShares and only return the `id`
+   * const expenseShareWithIdOnly = await prisma.expenseShare.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   *
+   */
+  updateManyAndReturn<T extends ExpenseShareUpdateManyAndReturnArgs>(
+    args: Prisma.SelectSubset<T, ExpenseShareUpdateManyAndReturnArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseSharePayload<ExtArgs>,
+      T,
+      "updateManyAndReturn",
+      GlobalOmitOptions
+    >
+  >;
+
+  /**
+   * Create or update one ExpenseShare.
+   * @param {ExpenseShareUpsertArgs} args - Arguments to update or create a ExpenseShare.
+   * @example
+   * // Update or create a ExpenseShare
+   * const expenseShare = await prisma.expenseShare.upsert({
+   *   create: {
+   *     // ... data to create a ExpenseShare
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ExpenseShare we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ExpenseShareUpsertArgs>(
+    args: Prisma.SelectSubset<T, ExpenseShareUpsertArgs<ExtArgs>>
+  ): Prisma.Prisma__ExpenseShareClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExpenseSharePayload<ExtArgs>,
+      T,
+      "upsert",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Count the number of ExpenseShares.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExpenseShareCountArgs} args - Arguments to filter ExpenseShares to count.
+   * @example
+   * // Count the number of ExpenseShares
+   * const count = await prisma.expenseShare.count({
+   *   where: {
+   *     // ... the filter for the ExpenseShares we want to count
+   *   }
+   * })
+   **/
+  count<T extends ExpenseShareCountArgs>(
+    args?: Prisma.Subset<T, ExpenseShareCountArgs>
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<"select", any>
+      ? T["select"] extends true
+        ? number
+        : Prisma.GetScalarType<T["select"], ExpenseShareCountAggregateOutputType>
+      : number
+  >;
+
+  /**
+   * Allows you to perform aggregations operations on a ExpenseShare.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExpenseShareAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+   **/
+  aggregate<T extends ExpenseShareAggregateArgs>(
+    args: Prisma.Subset<T, ExpenseShareAggregateArgs>
+  ): Prisma.PrismaPromise<GetExpenseShareAggregateType<T>>;
+
+  /**
+   * Group by ExpenseShare.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ExpenseShareGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   *
+   **/
+  groupBy<
+    T extends ExpenseShareGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<"skip", Prisma.Keys<T>>,
+      Prisma.Extends<"take", Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ExpenseShareGroupByArgs["orderBy"] }
+      : { orderBy?: ExpenseShareGroupByArgs["orderBy"] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<
+      Prisma.Keys<Prisma.MaybeTupleToUnion<T["orderBy"]>>
+    >,
+    ByFields extends Prisma.MaybeTupleToUnion<T["by"]>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T["having"]>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T["by"] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends Prisma.False
+        ? {
+            [P in HavingFields]: P extends ByFields
+              ? never
+              : P extends string
+                ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+                : [Error, "Field ", P, ` in "having" needs to be provided in "by"`];
+          }[HavingFields]
+        : "take" extends Prisma.Keys<T>
+          ? "orderBy" extends Prisma.Keys<T>
+            ? ByValid extends Prisma.True
+              ? {}
+              : {
+                  [P in OrderFields]: P extends ByFields
+                    ? never
+                    : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                }[OrderFields]
+            : 'Error: If you provide "take", you also need to provide "orderBy"'
+          : "skip" extends Prisma.Keys<T>
+            ? "orderBy" extends Prisma.Keys<T>
+              ? ByValid extends Prisma.True
+                ? {}
+                : {
+                    [P in OrderFields]: P extends ByFields
+                      ? never
+                      : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                  }[OrderFields]
+              : 'Error: If you provide "skip", you also need to provide "orderBy"'
+            : ByValid extends Prisma.True
+              ? {}
+              : {
+                  [P in OrderFields]: P extends ByFields
+                    ? never
+                    : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                }[OrderFields]
+  >(
+    args: Prisma.SubsetIntersection<T, ExpenseShareGroupByArgs, OrderByArg> & InputErrors
+  ): {} extends InputErrors ? GetExpenseShareGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>;
+  /**
+   * Fields of the ExpenseShare model
+   */
+  readonly fields: ExpenseShareFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ExpenseShare.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ExpenseShareClient<
+  T,
+  Null = never,
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+  GlobalOmitOptions = {}
+> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise";
+  group<T extends Prisma.ExpenseGroupDefaultArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.ExpenseGroupDefaultArgs<ExtArgs>>
+  ): Prisma.Prisma__ExpenseGroupClient<
+    | runtime.Types.Result.GetResult<
+        Prisma.$ExpenseGroupPayload<ExtArgs>,
+        T,
+        "findUniqueOrThrow",
+        GlobalOmitOptions
+      >
+    | Null,
+    Null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+  expense<T extends Prisma.ExpenseDefaultArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.ExpenseDefaultArgs<ExtArgs>>
+  ): Prisma.Prisma__ExpenseClient<
+    | runtime.Types.Result.GetResult<
+        Prisma.$ExpensePayload<ExtArgs>,
+        T,
+        "findUniqueOrThrow",
+        GlobalOmitOptions
+      >
+    | Null,
+    Null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>
+  ): Prisma.Prisma__UserClient<
+    | runtime.Types.Result.GetResult<
+        Prisma.$UserPayload<ExtArgs>,
+        T,
+        "findUniqueOrThrow",
+        GlobalOmitOptions
+      >
+    | Null,
+    Null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(
+    onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null
+  ): runtime.Types.Utils.JsPromise<TResult1 | TResult2>;
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(
+    onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null
+  ): runtime.Types.Utils.JsPromise<T | TResult>;
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>;
+}
+
+/**
+ * Fields of the ExpenseShare model
+ */
+export interface ExpenseShareFieldRefs {
+  readonly id: Prisma.FieldRef<"ExpenseShare", "String">;
+  readonly groupId: Prisma.FieldRef<"ExpenseShare", "String">;
+  readonly expenseId: Prisma.FieldRef<"ExpenseShare", "String">;
+  readonly userId: Prisma.FieldRef<"ExpenseShare", "String">;
+  readonly amount: Prisma.FieldRef<"ExpenseShare", "Decimal">;
+  readonly createdAt: Prisma.FieldRef<"ExpenseShare", "DateTime">;
+}
+
+// Custom InputTypes
+/**
+ * ExpenseShare findUnique
+ */
+export type ExpenseShareFindUniqueArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseShare
+   */
+  select?: Prisma.ExpenseShareSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseShare
+   */
+  omit?: Prisma.ExpenseShareOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseShareInclude<ExtArgs> | null;
+  /**
+   * Filter, which ExpenseShare to fetch.
+   */
+  where: Prisma.ExpenseShareWhereUniqueInput;
+};
+
+/**
+ * ExpenseShare findUniqueOrThrow
+ */
+export type ExpenseShareFindUniqueOrThrowArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseShare
+   */
+  select?: Prisma.ExpenseShareSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseShare
+   */
+  omit?: Prisma.ExpenseShareOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseShareInclude<ExtArgs> | null;
+  /**
+   * Filter, which ExpenseShare to fetch.
+   */
+  where: Prisma.ExpenseShareWhereUniqueInput;
+};
+
+/**
+ * ExpenseShare findFirst
+ */
+export type ExpenseShareFindFirstArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseShare
+   */
+  select?: Prisma.ExpenseShareSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseShare
+   */
+  omit?: Prisma.ExpenseShareOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseShareInclude<ExtArgs> | null;
+  /**
+   * Filter, which ExpenseShare to fetch.
+   */
+  where?: Prisma.ExpenseShareWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of ExpenseShares to fetch.
+   */
+  orderBy?:
+    | Prisma.ExpenseShareOrderByWithRelationInput
+    | Prisma.ExpenseShareOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for searching for ExpenseShares.
+   */
+  cursor?: Prisma.ExpenseShareWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` ExpenseShares from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` ExpenseShares.
+   */
+  skip?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   *
+   * Filter by unique combinations of ExpenseShares.
+   */
+  distinct?: Prisma.ExpenseShareScalarFieldEnum | Prisma.ExpenseShareScalarFieldEnum[];
+};
+
+/**
+ * ExpenseShare findFirstOrThrow
+ */
+export type ExpenseShareFindFirstOrThrowArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseShare
+   */
+  select?: Prisma.ExpenseShareSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseShare
+   */
+  omit?: Prisma.ExpenseShareOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseShareInclude<ExtArgs> | null;
+  /**
+   * Filter, which ExpenseShare to fetch.
+   */
+  where?: Prisma.ExpenseShareWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of ExpenseShares to fetch.
+   */
+  orderBy?:
+    | Prisma.ExpenseShareOrderByWithRelationInput
+    | Prisma.ExpenseShareOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for searching for ExpenseShares.
+   */
+  cursor?: Prisma.ExpenseShareWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` ExpenseShares from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` ExpenseShares.
+   */
+  skip?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   *
+   * Filter by unique combinations of ExpenseShares.
+   */
+  distinct?: Prisma.ExpenseShareScalarFieldEnum | Prisma.ExpenseShareScalarFieldEnum[];
+};
+
+/**
+ * ExpenseShare findMany
+ */
+export type ExpenseShareFindManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseShare
+   */
+  select?: Prisma.ExpenseShareSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseShare
+   */
+  omit?: Prisma.ExpenseShareOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseShareInclude<ExtArgs> | null;
+  /**
+   * Filter, which ExpenseShares to fetch.
+   */
+  where?: Prisma.ExpenseShareWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of ExpenseShares to fetch.
+   */
+  orderBy?:
+    | Prisma.ExpenseShareOrderByWithRelationInput
+    | Prisma.ExpenseShareOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for listing ExpenseShares.
+   */
+  cursor?: Prisma.ExpenseShareWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` ExpenseShares from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` ExpenseShares.
+   */
+  skip?: number;
+  distinct?: Prisma.ExpenseShareScalarFieldEnum | Prisma.ExpenseShareScalarFieldEnum[];
+};
+
+/**
+ * ExpenseShare create
+ */
+export type ExpenseShareCreateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseShare
+   */
+  select?: Prisma.ExpenseShareSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseShare
+   */
+  omit?: Prisma.ExpenseShareOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseShareInclude<ExtArgs> | null;
+  /**
+   * The data needed to create a ExpenseShare.
+   */
+  data: Prisma.XOR<Prisma.ExpenseShareCreateInput, Prisma.ExpenseShareUncheckedCreateInput>;
+};
+
+/**
+ * ExpenseShare createMany
+ */
+export type ExpenseShareCreateManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * The data used to create many ExpenseShares.
+   */
+  data: Prisma.ExpenseShareCreateManyInput | Prisma.ExpenseShareCreateManyInput[];
+  skipDuplicates?: boolean;
+};
+
+/**
+ * ExpenseShare createManyAndReturn
+ */
+export type ExpenseShareCreateManyAndReturnArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseShare
+   */
+  select?: Prisma.ExpenseShareSelectCreateManyAndReturn<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseShare
+   */
+  omit?: Prisma.ExpenseShareOmit<ExtArgs> | null;
+  /**
+   * The data used to create many ExpenseShares.
+   */
+  data: Prisma.ExpenseShareCreateManyInput | Prisma.ExpenseShareCreateManyInput[];
+  skipDuplicates?: boolean;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseShareIncludeCreateManyAndReturn<ExtArgs> | null;
+};
+
+/**
+ * ExpenseShare update
+ */
+export type ExpenseShareUpdateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseShare
+   */
+  select?: Prisma.ExpenseShareSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseShare
+   */
+  omit?: Prisma.ExpenseShareOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseShareInclude<ExtArgs> | null;
+  /**
+   * The data needed to update a ExpenseShare.
+   */
+  data: Prisma.XOR<Prisma.ExpenseShareUpdateInput, Prisma.ExpenseShareUncheckedUpdateInput>;
+  /**
+   * Choose, which ExpenseShare to update.
+   */
+  where: Prisma.ExpenseShareWhereUniqueInput;
+};
+
+/**
+ * ExpenseShare updateMany
+ */
+export type ExpenseShareUpdateManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * The data used to update ExpenseShares.
+   */
+  data: Prisma.XOR<
+    Prisma.ExpenseShareUpdateManyMutationInput,
+    Prisma.ExpenseShareUncheckedUpdateManyInput
+  >;
+  /**
+   * Filter which ExpenseShares to update
+   */
+  where?: Prisma.ExpenseShareWhereInput;
+  /**
+   * Limit how many ExpenseShares to update.
+   */
+  limit?: number;
+};
+
+/**
+ * ExpenseShare updateManyAndReturn
+ */
+export type ExpenseShareUpdateManyAndReturnArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseShare
+   */
+  select?: Prisma.ExpenseShareSelectUpdateManyAndReturn<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseShare
+   */
+  omit?: Prisma.ExpenseShareOmit<ExtArgs> | null;
+  /**
+   * The data used to update ExpenseShares.
+   */
+  data: Prisma.XOR<
+    Prisma.ExpenseShareUpdateManyMutationInput,
+    Prisma.ExpenseShareUncheckedUpdateManyInput
+  >;
+  /**
+   * Filter which ExpenseShares to update
+   */
+  where?: Prisma.ExpenseShareWhereInput;
+  /**
+   * Limit how many ExpenseShares to update.
+   */
+  limit?: number;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseShareIncludeUpdateManyAndReturn<ExtArgs> | null;
+};
+
+/**
+ * ExpenseShare upsert
+ */
+export type ExpenseShareUpsertArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseShare
+   */
+  select?: Prisma.ExpenseShareSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseShare
+   */
+  omit?: Prisma.ExpenseShareOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseShareInclude<ExtArgs> | null;
+  /**
+   * The filter to search for the ExpenseShare to update in case it exists.
+   */
+  where: Prisma.ExpenseShareWhereUniqueInput;
+  /**
+   * In case the ExpenseShare found by the `where` argument doesn't exist, create a new ExpenseShare with this data.
+   */
+  create: Prisma.XOR<Prisma.ExpenseShareCreateInput, Prisma.ExpenseShareUncheckedCreateInput>;
+  /**
+   * In case the ExpenseShare was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ExpenseShareUpdateInput, Prisma.ExpenseShareUncheckedUpdateInput>;
+};
+
+/**
+ * ExpenseShare delete
+ */
+export type ExpenseShareDeleteArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseShare
+   */
+  select?: Prisma.ExpenseShareSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseShare
+   */
+  omit?: Prisma.ExpenseShareOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseShareInclude<ExtArgs> | null;
+  /**
+   * Filter which ExpenseShare to delete.
+   */
+  where: Prisma.ExpenseShareWhereUniqueInput;
+};
+
+/**
+ * ExpenseShare deleteMany
+ */
+export type ExpenseShareDeleteManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Filter which ExpenseShares to delete
+   */
+  where?: Prisma.ExpenseShareWhereInput;
+  /**
+   * Limit how many ExpenseShares to delete.
+   */
+  limit?: number;
+};
+
+/**
+ * ExpenseShare without action
+ */
+export type ExpenseShareDefaultArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseShare
+   */
+  select?: Prisma.ExpenseShareSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseShare
+   */
+  omit?: Prisma.ExpenseShareOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseShareInclude<ExtArgs> | null;
+};
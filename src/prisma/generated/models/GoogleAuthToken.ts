@@ -26,33 +26,42 @@ export type AggregateGoogleAuthToken = {
 
 export type GoogleAuthTokenMinAggregateOutputType = {
   id: string | null;
+  userId: string | null;
   accessToken: string | null;
   refreshToken: string | null;
   expiresAt: Date | null;
   scope: string | null;
   tokenType: string | null;
+  syncToken: string | null;
+  lastFullSyncAt: Date | null;
   createdAt: Date | null;
   updatedAt: Date | null;
 };
 
 export type GoogleAuthTokenMaxAggregateOutputType = {
   id: string | null;
+  userId: string | null;
   accessToken: string | null;
   refreshToken: string | null;
   expiresAt: Date | null;
   scope: string | null;
   tokenType: string | null;
+  syncToken: string | null;
+  lastFullSyncAt: Date | null;
   createdAt: Date | null;
   updatedAt: Date | null;
 };
 
 export type GoogleAuthTokenCountAggregateOutputType = {
   id: number;
+  userId: number;
   accessToken: number;
   refreshToken: number;
   expiresAt: number;
   scope: number;
   tokenType: number;
+  syncToken: number;
+  lastFullSyncAt: number;
   createdAt: number;
   updatedAt: number;
   _all: number;
@@ -60,33 +69,42 @@ export type GoogleAuthTokenCountAggregateOutputType = {
 
 export type GoogleAuthTokenMinAggregateInputType = {
   id?: true;
+  userId?: true;
   accessToken?: true;
   refreshToken?: true;
   expiresAt?: true;
   scope?: true;
   tokenType?: true;
+  syncToken?: true;
+  lastFullSyncAt?: true;
   createdAt?: true;
   updatedAt?: true;
 };
 
 export type GoogleAuthTokenMaxAggregateInputType = {
   id?: true;
+  userId?: true;
   accessToken?: true;
   refreshToken?: true;
   expiresAt?: true;
   scope?: true;
   tokenType?: true;
+  syncToken?: true;
+  lastFullSyncAt?: true;
   createdAt?: true;
   updatedAt?: true;
 };
 
 export type GoogleAuthTokenCountAggregateInputType = {
   id?: true;
+  userId?: true;
   accessToken?: true;
   refreshToken?: true;
   expiresAt?: true;
   scope?: true;
   tokenType?: true;
+  syncToken?: true;
+  lastFullSyncAt?: true;
   createdAt?: true;
   updatedAt?: true;
   _all?: true;
@@ -171,11 +189,14 @@ export type GoogleAuthTokenGroupByArgs<
 
 export type GoogleAuthTokenGroupByOutputType = {
   id: string;
+  userId: string;
   accessToken: string;
   refreshToken: string;
   expiresAt: Date;
   scope: string;
   tokenType: string;
+  syncToken: string | null;
+  lastFullSyncAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
   _count: GoogleAuthTokenCountAggregateOutputType | null;
@@ -200,29 +221,38 @@ export type GoogleAuthTokenWhereInput = {
   OR?: Prisma.GoogleAuthTokenWhereInput[];
   NOT?: Prisma.GoogleAuthTokenWhereInput | Prisma.GoogleAuthTokenWhereInput[];
   id?: Prisma.StringFilter<"GoogleAuthToken"> | string;
+  userId?: Prisma.StringFilter<"GoogleAuthToken"> | string;
   accessToken?: Prisma.StringFilter<"GoogleAuthToken"> | string;
   refreshToken?: Prisma.StringFilter<"GoogleAuthToken"> | string;
   expiresAt?: Prisma.DateTimeFilter<"GoogleAuthToken"> | Date | string;
   scope?: Prisma.StringFilter<"GoogleAuthToken"> | string;
   tokenType?: Prisma.StringFilter<"GoogleAuthToken"> | string;
+  syncToken?: Prisma.StringNullableFilter<"GoogleAuthToken"> | string | null;
+  lastFullSyncAt?: Prisma.DateTimeNullableFilter<"GoogleAuthToken"> | Date | string | null;
   createdAt?: Prisma.DateTimeFilter<"GoogleAuthToken"> | Date | string;
   updatedAt?: Prisma.DateTimeFilter<"GoogleAuthToken"> | Date | string;
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>;
 };
 
 export type GoogleAuthTokenOrderByWithRelationInput = {
   id?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
   accessToken?: Prisma.SortOrder;
   refreshToken?: Prisma.SortOrder;
   expiresAt?: Prisma.SortOrder;
   scope?: Prisma.SortOrder;
   tokenType?: Prisma.SortOrder;
+  syncToken?: Prisma.SortOrderInput | Prisma.SortOrder;
+  lastFullSyncAt?: Prisma.SortOrderInput | Prisma.SortOrder;
   createdAt?: Prisma.SortOrder;
   updatedAt?: Prisma.SortOrder;
+  user?: Prisma.UserOrderByWithRelationInput;
 };
 
 export type GoogleAuthTokenWhereUniqueInput = Prisma.AtLeast<
   {
     id?: string;
+    userId?: string;
     AND?: Prisma.GoogleAuthTokenWhereInput | Prisma.GoogleAuthTokenWhereInput[];
     OR?: Prisma.GoogleAuthTokenWhereInput[];
     NOT?: Prisma.GoogleAuthTokenWhereInput | Prisma.GoogleAuthTokenWhereInput[];
@@ -231,19 +261,25 @@ export type GoogleAuthTokenWhereUniqueInput = Prisma.AtLeast<
     expiresAt?: Prisma.DateTimeFilter<"GoogleAuthToken"> | Date | string;
     scope?: Prisma.StringFilter<"GoogleAuthToken"> | string;
     tokenType?: Prisma.StringFilter<"GoogleAuthToken"> | string;
+    syncToken?: Prisma.StringNullableFilter<"GoogleAuthToken"> | string | null;
+    lastFullSyncAt?: Prisma.DateTimeNullableFilter<"GoogleAuthToken"> | Date | string | null;
     createdAt?: Prisma.DateTimeFilter<"GoogleAuthToken"> | Date | string;
     updatedAt?: Prisma.DateTimeFilter<"GoogleAuthToken"> | Date | string;
+    user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>;
   },
-  "id"
+  "id" | "userId"
 >;
 
 export type GoogleAuthTokenOrderByWithAggregationInput = {
   id?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
   accessToken?: Prisma.SortOrder;
   refreshToken?: Prisma.SortOrder;
   expiresAt?: Prisma.SortOrder;
   scope?: Prisma.SortOrder;
   tokenType?: Prisma.SortOrder;
+  syncToken?: Prisma.SortOrderInput | Prisma.SortOrder;
+  lastFullSyncAt?: Prisma.SortOrderInput | Prisma.SortOrder;
   createdAt?: Prisma.SortOrder;
   updatedAt?: Prisma.SortOrder;
   _count?: Prisma.GoogleAuthTokenCountOrderByAggregateInput;
@@ -260,11 +296,18 @@ export type GoogleAuthTokenScalarWhereWithAggregatesInput = {
     | Prisma.GoogleAuthTokenScalarWhereWithAggregatesInput
     | Prisma.GoogleAuthTokenScalarWhereWithAggregatesInput[];
   id?: Prisma.StringWithAggregatesFilter<"GoogleAuthToken"> | string;
+  userId?: Prisma.StringWithAggregatesFilter<"GoogleAuthToken"> | string;
   accessToken?: Prisma.StringWithAggregatesFilter<"GoogleAuthToken"> | string;
   refreshToken?: Prisma.StringWithAggregatesFilter<"GoogleAuthToken"> | string;
   expiresAt?: Prisma.DateTimeWithAggregatesFilter<"GoogleAuthToken"> | Date | string;
   scope?: Prisma.StringWithAggregatesFilter<"GoogleAuthToken"> | string;
   tokenType?: Prisma.StringWithAggregatesFilter<"GoogleAuthToken"> | string;
+  syncToken?: Prisma.StringNullableWithAggregatesFilter<"GoogleAuthToken"> | string | null;
+  lastFullSyncAt?:
+    | Prisma.DateTimeNullableWithAggregatesFilter<"GoogleAuthToken">
+    | Date
+    | string
+    | null;
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"GoogleAuthToken"> | Date | string;
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"GoogleAuthToken"> | Date | string;
 };
@@ -276,17 +319,23 @@ export type GoogleAuthTokenCreateInput = {
   expiresAt: Date | string;
   scope: string;
   tokenType?: string;
+  syncToken?: string | null;
+  lastFullSyncAt?: Date | string | null;
   createdAt?: Date | string;
   updatedAt?: Date | string;
+  user: Prisma.UserCreateNestedOneWithoutGoogleAuthTokenInput;
 };
 
 export type GoogleAuthTokenUncheckedCreateInput = {
   id?: string;
+  userId: string;
   accessToken: string;
   refreshToken: string;
   expiresAt: Date | string;
   scope: string;
   tokenType?: string;
+  syncToken?: string | null;
+  lastFullSyncAt?: Date | string | null;
   createdAt?: Date | string;
   updatedAt?: Date | string;
 };
@@ -298,28 +347,37 @@ export type GoogleAuthTokenUpdateInput = {
   expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   scope?: Prisma.StringFieldUpdateOperationsInput | string;
   tokenType?: Prisma.StringFieldUpdateOperationsInput | string;
+  syncToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  lastFullSyncAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  user?: Prisma.UserUpdateOneRequiredWithoutGoogleAuthTokenNestedInput;
 };
 
 export type GoogleAuthTokenUncheckedUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
+  userId?: Prisma.StringFieldUpdateOperationsInput | string;
   accessToken?: Prisma.StringFieldUpdateOperationsInput | string;
   refreshToken?: Prisma.StringFieldUpdateOperationsInput | string;
   expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   scope?: Prisma.StringFieldUpdateOperationsInput | string;
   tokenType?: Prisma.StringFieldUpdateOperationsInput | string;
+  syncToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  lastFullSyncAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 };
 
 export type GoogleAuthTokenCreateManyInput = {
   id?: string;
+  userId: string;
   accessToken: string;
   refreshToken: string;
   expiresAt: Date | string;
   scope: string;
   tokenType?: string;
+  syncToken?: string | null;
+  lastFullSyncAt?: Date | string | null;
   createdAt?: Date | string;
   updatedAt?: Date | string;
 };
@@ -331,66 +389,225 @@ export type GoogleAuthTokenUpdateManyMutationInput = {
   expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   scope?: Prisma.StringFieldUpdateOperationsInput | string;
   tokenType?: Prisma.StringFieldUpdateOperationsInput | string;
+  syncToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  lastFullSyncAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 };
 
 export type GoogleAuthTokenUncheckedUpdateManyInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
+  userId?: Prisma.StringFieldUpdateOperationsInput | string;
   accessToken?: Prisma.StringFieldUpdateOperationsInput | string;
   refreshToken?: Prisma.StringFieldUpdateOperationsInput | string;
   expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   scope?: Prisma.StringFieldUpdateOperationsInput | string;
   tokenType?: Prisma.StringFieldUpdateOperationsInput | string;
+  syncToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  lastFullSyncAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 };
 
+export type GoogleAuthTokenNullableScalarRelationFilter = {
+  is?: Prisma.GoogleAuthTokenWhereInput | null;
+  isNot?: Prisma.GoogleAuthTokenWhereInput | null;
+};
+
 export type GoogleAuthTokenCountOrderByAggregateInput = {
   id?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
   accessToken?: Prisma.SortOrder;
   refreshToken?: Prisma.SortOrder;
   expiresAt?: Prisma.SortOrder;
   scope?: Prisma.SortOrder;
   tokenType?: Prisma.SortOrder;
+  syncToken?: Prisma.SortOrder;
+  lastFullSyncAt?: Prisma.SortOrder;
   createdAt?: Prisma.SortOrder;
   updatedAt?: Prisma.SortOrder;
 };
 
 export type GoogleAuthTokenMaxOrderByAggregateInput = {
   id?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
   accessToken?: Prisma.SortOrder;
   refreshToken?: Prisma.SortOrder;
   expiresAt?: Prisma.SortOrder;
   scope?: Prisma.SortOrder;
   tokenType?: Prisma.SortOrder;
+  syncToken?: Prisma.SortOrder;
+  lastFullSyncAt?: Prisma.SortOrder;
   createdAt?: Prisma.SortOrder;
   updatedAt?: Prisma.SortOrder;
 };
 
 export type GoogleAuthTokenMinOrderByAggregateInput = {
   id?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
   accessToken?: Prisma.SortOrder;
   refreshToken?: Prisma.SortOrder;
   expiresAt?: Prisma.SortOrder;
   scope?: Prisma.SortOrder;
   tokenType?: Prisma.SortOrder;
+  syncToken?: Prisma.SortOrder;
+  lastFullSyncAt?: Prisma.SortOrder;
   createdAt?: Prisma.SortOrder;
   updatedAt?: Prisma.SortOrder;
 };
 
+export type GoogleAuthTokenCreateNestedOneWithoutUserInput = {
+  create?: Prisma.XOR<
+    Prisma.GoogleAuthTokenCreateWithoutUserInput,
+    Prisma.GoogleAuthTokenUncheckedCreateWithoutUserInput
+  >;
+  connectOrCreate?: Prisma.GoogleAuthTokenCreateOrConnectWithoutUserInput;
+  connect?: Prisma.GoogleAuthTokenWhereUniqueInput;
+};
+
+export type GoogleAuthTokenUncheckedCreateNestedOneWithoutUserInput = {
+  create?: Prisma.XOR<
+    Prisma.GoogleAuthTokenCreateWithoutUserInput,
+    Prisma.GoogleAuthTokenUncheckedCreateWithoutUserInput
+  >;
+  connectOrCreate?: Prisma.GoogleAuthTokenCreateOrConnectWithoutUserInput;
+  connect?: Prisma.GoogleAuthTokenWhereUniqueInput;
+};
+
+export type GoogleAuthTokenUpdateOneWithoutUserNestedInput = {
+  create?: Prisma.XOR<
+    Prisma.GoogleAuthTokenCreateWithoutUserInput,
+    Prisma.GoogleAuthTokenUncheckedCreateWithoutUserInput
+  >;
+  connectOrCreate?: Prisma.GoogleAuthTokenCreateOrConnectWithoutUserInput;
+  upsert?: Prisma.GoogleAuthTokenUpsertWithoutUserInput;
+  disconnect?: Prisma.GoogleAuthTokenWhereInput | boolean;
+  delete?: Prisma.GoogleAuthTokenWhereInput | boolean;
+  connect?: Prisma.GoogleAuthTokenWhereUniqueInput;
+  update?: Prisma.XOR<
+    Prisma.XOR<
+      Prisma.GoogleAuthTokenUpdateToOneWithWhereWithoutUserInput,
+      Prisma.GoogleAuthTokenUpdateWithoutUserInput
+    >,
+    Prisma.GoogleAuthTokenUncheckedUpdateWithoutUserInput
+  >;
+};
+
+export type GoogleAuthTokenUncheckedUpdateOneWithoutUserNestedInput = {
+  create?: Prisma.XOR<
+    Prisma.GoogleAuthTokenCreateWithoutUserInput,
+    Prisma.GoogleAuthTokenUncheckedCreateWithoutUserInput
+  >;
+  connectOrCreate?: Prisma.GoogleAuthTokenCreateOrConnectWithoutUserInput;
+  upsert?: Prisma.GoogleAuthTokenUpsertWithoutUserInput;
+  disconnect?: Prisma.GoogleAuthTokenWhereInput | boolean;
+  delete?: Prisma.GoogleAuthTokenWhereInput | boolean;
+  connect?: Prisma.GoogleAuthTokenWhereUniqueInput;
+  update?: Prisma.XOR<
+    Prisma.XOR<
+      Prisma.GoogleAuthTokenUpdateToOneWithWhereWithoutUserInput,
+      Prisma.GoogleAuthTokenUpdateWithoutUserInput
+    >,
+    Prisma.GoogleAuthTokenUncheckedUpdateWithoutUserInput
+  >;
+};
+
+export type GoogleAuthTokenCreateWithoutUserInput = {
+  id?: string;
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: Date | string;
+  scope: string;
+  tokenType?: string;
+  syncToken?: string | null;
+  lastFullSyncAt?: Date | string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+};
+
+export type GoogleAuthTokenUncheckedCreateWithoutUserInput = {
+  id?: string;
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: Date | string;
+  scope: string;
+  tokenType?: string;
+  syncToken?: string | null;
+  lastFullSyncAt?: Date | string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+};
+
+export type GoogleAuthTokenCreateOrConnectWithoutUserInput = {
+  where: Prisma.GoogleAuthTokenWhereUniqueInput;
+  create: Prisma.XOR<
+    Prisma.GoogleAuthTokenCreateWithoutUserInput,
+    Prisma.GoogleAuthTokenUncheckedCreateWithoutUserInput
+  >;
+};
+
+export type GoogleAuthTokenUpsertWithoutUserInput = {
+  update: Prisma.XOR<
+    Prisma.GoogleAuthTokenUpdateWithoutUserInput,
+    Prisma.GoogleAuthTokenUncheckedUpdateWithoutUserInput
+  >;
+  create: Prisma.XOR<
+    Prisma.GoogleAuthTokenCreateWithoutUserInput,
+    Prisma.GoogleAuthTokenUncheckedCreateWithoutUserInput
+  >;
+  where?: Prisma.GoogleAuthTokenWhereInput;
+};
+
+export type GoogleAuthTokenUpdateToOneWithWhereWithoutUserInput = {
+  where?: Prisma.GoogleAuthTokenWhereInput;
+  data: Prisma.XOR<
+    Prisma.GoogleAuthTokenUpdateWithoutUserInput,
+    Prisma.GoogleAuthTokenUncheckedUpdateWithoutUserInput
+  >;
+};
+
+export type GoogleAuthTokenUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  accessToken?: Prisma.StringFieldUpdateOperationsInput | string;
+  refreshToken?: Prisma.StringFieldUpdateOperationsInput | string;
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  scope?: Prisma.StringFieldUpdateOperationsInput | string;
+  tokenType?: Prisma.StringFieldUpdateOperationsInput | string;
+  syncToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  lastFullSyncAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type GoogleAuthTokenUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  accessToken?: Prisma.StringFieldUpdateOperationsInput | string;
+  refreshToken?: Prisma.StringFieldUpdateOperationsInput | string;
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  scope?: Prisma.StringFieldUpdateOperationsInput | string;
+  tokenType?: Prisma.StringFieldUpdateOperationsInput | string;
+  syncToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  lastFullSyncAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
 export type GoogleAuthTokenSelect<
   ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
 > = runtime.Types.Extensions.GetSelect<
   {
     id?: boolean;
+    userId?: boolean;
     accessToken?: boolean;
     refreshToken?: boolean;
     expiresAt?: boolean;
     scope?: boolean;
     tokenType?: boolean;
+    syncToken?: boolean;
+    lastFullSyncAt?: boolean;
     createdAt?: boolean;
     updatedAt?: boolean;
+    user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
   },
   ExtArgs["result"]["googleAuthToken"]
 >;
@@ -400,13 +617,17 @@ export type GoogleAuthTokenSelectCreateManyAndReturn<
 > = runtime.Types.Extensions.GetSelect<
   {
     id?: boolean;
+    userId?: boolean;
     accessToken?: boolean;
     refreshToken?: boolean;
     expiresAt?: boolean;
     scope?: boolean;
     tokenType?: boolean;
+    syncToken?: boolean;
+    lastFullSyncAt?: boolean;
     createdAt?: boolean;
     updatedAt?: boolean;
+    user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
   },
   ExtArgs["result"]["googleAuthToken"]
 >;
@@ -416,24 +637,31 @@ export type GoogleAuthTokenSelectUpdateManyAndReturn<
 > = runtime.Types.Extensions.GetSelect<
   {
     id?: boolean;
+    userId?: boolean;
     accessToken?: boolean;
     refreshToken?: boolean;
     expiresAt?: boolean;
     scope?: boolean;
     tokenType?: boolean;
+    syncToken?: boolean;
+    lastFullSyncAt?: boolean;
     createdAt?: boolean;
     updatedAt?: boolean;
+    user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
   },
   ExtArgs["result"]["googleAuthToken"]
 >;
 
 export type GoogleAuthTokenSelectScalar = {
   id?: boolean;
+  userId?: boolean;
   accessToken?: boolean;
   refreshToken?: boolean;
   expiresAt?: boolean;
   scope?: boolean;
   tokenType?: boolean;
+  syncToken?: boolean;
+  lastFullSyncAt?: boolean;
   createdAt?: boolean;
   updatedAt?: boolean;
 };
@@ -442,29 +670,52 @@ export type GoogleAuthTokenOmit<
   ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
 > = runtime.Types.Extensions.GetOmit<
   | "id"
+  | "userId"
   | "accessToken"
   | "refreshToken"
   | "expiresAt"
   | "scope"
   | "tokenType"
+  | "syncToken"
+  | "lastFullSyncAt"
   | "createdAt"
   | "updatedAt",
   ExtArgs["result"]["googleAuthToken"]
 >;
+export type GoogleAuthTokenInclude<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+};
+export type GoogleAuthTokenIncludeCreateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+};
+export type GoogleAuthTokenIncludeUpdateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+};
 
 export type $GoogleAuthTokenPayload<
   ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
 > = {
   name: "GoogleAuthToken";
-  objects: {};
+  objects: {
+    user: Prisma.$UserPayload<ExtArgs>;
+  };
   scalars: runtime.Types.Extensions.GetPayloadResult<
     {
       id: string;
+      userId: string;
       accessToken: string;
       refreshToken: string;
       expiresAt: Date;
       scope: string;
       tokenType: string;
+      syncToken: string | null;
+      lastFullSyncAt: Date | null;
       createdAt: Date;
       updatedAt: Date;
     },
@@ -1008,6 +1259,20 @@ export interface Prisma__GoogleAuthTokenClient<
   GlobalOmitOptions = {}
 > extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise";
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>
+  ): Prisma.Prisma__UserClient<
+    | runtime.Types.Result.GetResult<
+        Prisma.$UserPayload<ExtArgs>,
+        T,
+        "findUniqueOrThrow",
+        GlobalOmitOptions
+      >
+    | Null,
+    Null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1040,11 +1305,14 @@ export interface Prisma__GoogleAuthTokenClient<
  */
 export interface GoogleAuthTokenFieldRefs {
   readonly id: Prisma.FieldRef<"GoogleAuthToken", "String">;
+  readonly userId: Prisma.FieldRef<"GoogleAuthToken", "String">;
   readonly accessToken: Prisma.FieldRef<"GoogleAuthToken", "String">;
   readonly refreshToken: Prisma.FieldRef<"GoogleAuthToken", "String">;
   readonly expiresAt: Prisma.FieldRef<"GoogleAuthToken", "DateTime">;
   readonly scope: Prisma.FieldRef<"GoogleAuthToken", "String">;
   readonly tokenType: Prisma.FieldRef<"GoogleAuthToken", "String">;
+  readonly syncToken: Prisma.FieldRef<"GoogleAuthToken", "String">;
+  readonly lastFullSyncAt: Prisma.FieldRef<"GoogleAuthToken", "DateTime">;
   readonly createdAt: Prisma.FieldRef<"GoogleAuthToken", "DateTime">;
   readonly updatedAt: Prisma.FieldRef<"GoogleAuthToken", "DateTime">;
 }
@@ -1064,6 +1332,10 @@ export type GoogleAuthTokenFindUniqueArgs<
    * Omit specific fields from the GoogleAuthToken
    */
   omit?: Prisma.GoogleAuthTokenOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GoogleAuthTokenInclude<ExtArgs> | null;
   /**
    * Filter, which GoogleAuthToken to fetch.
    */
@@ -1084,6 +1356,10 @@ export type GoogleAuthTokenFindUniqueOrThrowArgs<
    * Omit specific fields from the GoogleAuthToken
    */
   omit?: Prisma.GoogleAuthTokenOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GoogleAuthTokenInclude<ExtArgs> | null;
   /**
    * Filter, which GoogleAuthToken to fetch.
    */
@@ -1104,6 +1380,10 @@ export type GoogleAuthTokenFindFirstArgs<
    * Omit specific fields from the GoogleAuthToken
    */
   omit?: Prisma.GoogleAuthTokenOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GoogleAuthTokenInclude<ExtArgs> | null;
   /**
    * Filter, which GoogleAuthToken to fetch.
    */
@@ -1156,6 +1436,10 @@ export type GoogleAuthTokenFindFirstOrThrowArgs<
    * Omit specific fields from the GoogleAuthToken
    */
   omit?: Prisma.GoogleAuthTokenOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GoogleAuthTokenInclude<ExtArgs> | null;
   /**
    * Filter, which GoogleAuthToken to fetch.
    */
@@ -1208,6 +1492,10 @@ export type GoogleAuthTokenFindManyArgs<
    * Omit specific fields from the GoogleAuthToken
    */
   omit?: Prisma.GoogleAuthTokenOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GoogleAuthTokenInclude<ExtArgs> | null;
   /**
    * Filter, which GoogleAuthTokens to fetch.
    */
@@ -1255,6 +1543,10 @@ export type GoogleAuthTokenCreateArgs<
    * Omit specific fields from the GoogleAuthToken
    */
   omit?: Prisma.GoogleAuthTokenOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GoogleAuthTokenInclude<ExtArgs> | null;
   /**
    * The data needed to create a GoogleAuthToken.
    */
@@ -1293,6 +1585,10 @@ export type GoogleAuthTokenCreateManyAndReturnArgs<
    */
   data: Prisma.GoogleAuthTokenCreateManyInput | Prisma.GoogleAuthTokenCreateManyInput[];
   skipDuplicates?: boolean;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GoogleAuthTokenIncludeCreateManyAndReturn<ExtArgs> | null;
 };
 
 /**
@@ -1309,6 +1605,10 @@ export type GoogleAuthTokenUpdateArgs<
    * Omit specific fields from the GoogleAuthToken
    */
   omit?: Prisma.GoogleAuthTokenOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GoogleAuthTokenInclude<ExtArgs> | null;
   /**
    * The data needed to update a GoogleAuthToken.
    */
@@ -1371,6 +1671,10 @@ export type GoogleAuthTokenUpdateManyAndReturnArgs<
    * Limit how many GoogleAuthTokens to update.
    */
   limit?: number;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GoogleAuthTokenIncludeUpdateManyAndReturn<ExtArgs> | null;
 };
 
 /**
@@ -1387,6 +1691,10 @@ export type GoogleAuthTokenUpsertArgs<
    * Omit specific fields from the GoogleAuthToken
    */
   omit?: Prisma.GoogleAuthTokenOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GoogleAuthTokenInclude<ExtArgs> | null;
   /**
    * The filter to search for the GoogleAuthToken to update in case it exists.
    */
@@ -1415,6 +1723,10 @@ export type GoogleAuthTokenDeleteArgs<
    * Omit specific fields from the GoogleAuthToken
    */
   omit?: Prisma.GoogleAuthTokenOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GoogleAuthTokenInclude<ExtArgs> | null;
   /**
    * Filter which GoogleAuthToken to delete.
    */
@@ -1451,4 +1763,8 @@ export type GoogleAuthTokenDefaultArgs<
    * Omit specific fields from the GoogleAuthToken
    */
   omit?: Prisma.GoogleAuthTokenOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GoogleAuthTokenInclude<ExtArgs> | null;
 };
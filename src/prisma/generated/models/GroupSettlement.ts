@@ -0,0 +1,2246 @@
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck
+/*
+ * This file exports the `GroupSettlement` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client";
+import type * as $Enums from "../enums";
+import type * as Prisma from "../internal/prismaNamespace";
+
+/**
+ * Model GroupSettlement
+ *
+ */
+export type GroupSettlementModel =
+  runtime.Types.Result.DefaultSelection<Prisma.$GroupSettlementPayload>;
+
+export type AggregateGroupSettlement = {
+  _count: GroupSettlementCountAggregateOutputType | null;
+  _avg: GroupSettlementAvgAggregateOutputType | null;
+  _sum: GroupSettlementSumAggregateOutputType | null;
+  _min: GroupSettlementMinAggregateOutputType | null;
+  _max: GroupSettlementMaxAggregateOutputType | null;
+};
+
+export type GroupSettlementAvgAggregateOutputType = {
+  amount: runtime.Decimal | null;
+};
+
+export type GroupSettlementSumAggregateOutputType = {
+  amount: runtime.Decimal | null;
+};
+
+export type GroupSettlementMinAggregateOutputType = {
+  id: string | null;
+  groupId: string | null;
+  fromUserId: string | null;
+  toUserId: string | null;
+  amount: runtime.Decimal | null;
+  currency: string | null;
+  createdAt: Date | null;
+};
+
+export type GroupSettlementMaxAggregateOutputType = {
+  id: string | null;
+  groupId: string | null;
+  fromUserId: string | null;
+  toUserId: string | null;
+  amount: runtime.Decimal | null;
+  currency: string | null;
+  createdAt: Date | null;
+};
+
+export type GroupSettlementCountAggregateOutputType = {
+  id: number;
+  groupId: number;
+  fromUserId: number;
+  toUserId: number;
+  amount: number;
+  currency: number;
+  createdAt: number;
+  _all: number;
+};
+
+export type GroupSettlementAvgAggregateInputType = {
+  amount?: true;
+};
+
+export type GroupSettlementSumAggregateInputType = {
+  amount?: true;
+};
+
+export type GroupSettlementMinAggregateInputType = {
+  id?: true;
+  groupId?: true;
+  fromUserId?: true;
+  toUserId?: true;
+  amount?: true;
+  currency?: true;
+  createdAt?: true;
+};
+
+export type GroupSettlementMaxAggregateInputType = {
+  id?: true;
+  groupId?: true;
+  fromUserId?: true;
+  toUserId?: true;
+  amount?: true;
+  currency?: true;
+  createdAt?: true;
+};
+
+export type GroupSettlementCountAggregateInputType = {
+  id?: true;
+  groupId?: true;
+  fromUserId?: true;
+  toUserId?: true;
+  amount?: true;
+  currency?: true;
+  createdAt?: true;
+  _all?: true;
+};
+
+export type GroupSettlementAggregateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Filter which GroupSettlement to aggregate.
+   */
+  where?: Prisma.GroupSettlementWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of GroupSettlements to fetch.
+   */
+  orderBy?:
+    | Prisma.GroupSettlementOrderByWithRelationInput
+    | Prisma.GroupSettlementOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the start position
+   */
+  cursor?: Prisma.GroupSettlementWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` GroupSettlements from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` GroupSettlements.
+   */
+  skip?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Count returned GroupSettlements
+   **/
+  _count?: true | GroupSettlementCountAggregateInputType;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to average
+   **/
+  _avg?: GroupSettlementAvgAggregateInputType;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to sum
+   **/
+  _sum?: GroupSettlementSumAggregateInputType;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to find the minimum value
+   **/
+  _min?: GroupSettlementMinAggregateInputType;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to find the maximum value
+   **/
+  _max?: GroupSettlementMaxAggregateInputType;
+};
+
+export type GetGroupSettlementAggregateType<T extends GroupSettlementAggregateArgs> = {
+  [P in keyof T & keyof AggregateGroupSettlement]: P extends "_count" | "count"
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateGroupSettlement[P]>
+    : Prisma.GetScalarType<T[P], AggregateGroupSettlement[P]>;
+};
+
+export type GroupSettlementGroupByArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  where?: Prisma.GroupSettlementWhereInput;
+  orderBy?:
+    | Prisma.GroupSettlementOrderByWithAggregationInput
+    | Prisma.GroupSettlementOrderByWithAggregationInput[];
+  by: Prisma.GroupSettlementScalarFieldEnum[] | Prisma.GroupSettlementScalarFieldEnum;
+  having?: Prisma.GroupSettlementScalarWhereWithAggregatesInput;
+  take?: number;
+  skip?: number;
+  _count?: GroupSettlementCountAggregateInputType | true;
+  _avg?: GroupSettlementAvgAggregateInputType;
+  _sum?: GroupSettlementSumAggregateInputType;
+  _min?: GroupSettlementMinAggregateInputType;
+  _max?: GroupSettlementMaxAggregateInputType;
+};
+
+export type GroupSettlementGroupByOutputType = {
+  id: string;
+  groupId: string;
+  fromUserId: string;
+  toUserId: string;
+  amount: runtime.Decimal;
+  currency: string;
+  createdAt: Date;
+  _count: GroupSettlementCountAggregateOutputType | null;
+  _avg: GroupSettlementAvgAggregateOutputType | null;
+  _sum: GroupSettlementSumAggregateOutputType | null;
+  _min: GroupSettlementMinAggregateOutputType | null;
+  _max: GroupSettlementMaxAggregateOutputType | null;
+};
+
+type GetGroupSettlementGroupByPayload<T extends GroupSettlementGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<GroupSettlementGroupByOutputType, T["by"]> & {
+      [P in keyof T & keyof GroupSettlementGroupByOutputType]: P extends "_count"
+        ? T[P] extends boolean
+          ? number
+          : Prisma.GetScalarType<T[P], GroupSettlementGroupByOutputType[P]>
+        : Prisma.GetScalarType<T[P], GroupSettlementGroupByOutputType[P]>;
+    }
+  >
+>;
+
+export type GroupSettlementWhereInput = {
+  AND?: Prisma.GroupSettlementWhereInput | Prisma.GroupSettlementWhereInput[];
+  OR?: Prisma.GroupSettlementWhereInput[];
+  NOT?: Prisma.GroupSettlementWhereInput | Prisma.GroupSettlementWhereInput[];
+  id?: Prisma.StringFilter<"GroupSettlement"> | string;
+  groupId?: Prisma.StringFilter<"GroupSettlement"> | string;
+  fromUserId?: Prisma.StringFilter<"GroupSettlement"> | string;
+  toUserId?: Prisma.StringFilter<"GroupSettlement"> | string;
+  amount?:
+    | Prisma.DecimalFilter<"GroupSettlement">
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currency?: Prisma.StringFilter<"GroupSettlement"> | string;
+  createdAt?: Prisma.DateTimeFilter<"GroupSettlement"> | Date | string;
+  group?: Prisma.XOR<Prisma.ExpenseGroupScalarRelationFilter, Prisma.ExpenseGroupWhereInput>;
+  fromUser?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>;
+  toUser?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>;
+};
+
+export type GroupSettlementOrderByWithRelationInput = {
+  id?: Prisma.SortOrder;
+  groupId?: Prisma.SortOrder;
+  fromUserId?: Prisma.SortOrder;
+  toUserId?: Prisma.SortOrder;
+  amount?: Prisma.SortOrder;
+  currency?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  group?: Prisma.ExpenseGroupOrderByWithRelationInput;
+  fromUser?: Prisma.UserOrderByWithRelationInput;
+  toUser?: Prisma.UserOrderByWithRelationInput;
+};
+
+export type GroupSettlementWhereUniqueInput = Prisma.AtLeast<
+  {
+    id?: string;
+    AND?: Prisma.GroupSettlementWhereInput | Prisma.GroupSettlementWhereInput[];
+    OR?: Prisma.GroupSettlementWhereInput[];
+    NOT?: Prisma.GroupSettlementWhereInput | Prisma.GroupSettlementWhereInput[];
+    groupId?: Prisma.StringFilter<"GroupSettlement"> | string;
+    fromUserId?: Prisma.StringFilter<"GroupSettlement"> | string;
+    toUserId?: Prisma.StringFilter<"GroupSettlement"> | string;
+    amount?:
+      | Prisma.DecimalFilter<"GroupSettlement">
+      | runtime.Decimal
+      | runtime.DecimalJsLike
+      | number
+      | string;
+    currency?: Prisma.StringFilter<"GroupSettlement"> | string;
+    createdAt?: Prisma.DateTimeFilter<"GroupSettlement"> | Date | string;
+    group?: Prisma.XOR<Prisma.ExpenseGroupScalarRelationFilter, Prisma.ExpenseGroupWhereInput>;
+    fromUser?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>;
+    toUser?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>;
+  },
+  "id"
+>;
+
+export type GroupSettlementOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder;
+  groupId?: Prisma.SortOrder;
+  fromUserId?: Prisma.SortOrder;
+  toUserId?: Prisma.SortOrder;
+  amount?: Prisma.SortOrder;
+  currency?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  _count?: Prisma.GroupSettlementCountOrderByAggregateInput;
+  _avg?: Prisma.GroupSettlementAvgOrderByAggregateInput;
+  _max?: Prisma.GroupSettlementMaxOrderByAggregateInput;
+  _min?: Prisma.GroupSettlementMinOrderByAggregateInput;
+  _sum?: Prisma.GroupSettlementSumOrderByAggregateInput;
+};
+
+export type GroupSettlementScalarWhereWithAggregatesInput = {
+  AND?:
+    | Prisma.GroupSettlementScalarWhereWithAggregatesInput
+    | Prisma.GroupSettlementScalarWhereWithAggregatesInput[];
+  OR?: Prisma.GroupSettlementScalarWhereWithAggregatesInput[];
+  NOT?:
+    | Prisma.GroupSettlementScalarWhereWithAggregatesInput
+    | Prisma.GroupSettlementScalarWhereWithAggregatesInput[];
+  id?: Prisma.StringWithAggregatesFilter<"GroupSettlement"> | string;
+  groupId?: Prisma.StringWithAggregatesFilter<"GroupSettlement"> | string;
+  fromUserId?: Prisma.StringWithAggregatesFilter<"GroupSettlement"> | string;
+  toUserId?: Prisma.StringWithAggregatesFilter<"GroupSettlement"> | string;
+  amount?:
+    | Prisma.DecimalWithAggregatesFilter<"GroupSettlement">
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currency?: Prisma.StringWithAggregatesFilter<"GroupSettlement"> | string;
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"GroupSettlement"> | Date | string;
+};
+
+export type GroupSettlementCreateInput = {
+  id?: string;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  currency?: string;
+  createdAt?: Date | string;
+  group: Prisma.ExpenseGroupCreateNestedOneWithoutSettlementsInput;
+  fromUser: Prisma.UserCreateNestedOneWithoutSettlementsPaidInput;
+  toUser: Prisma.UserCreateNestedOneWithoutSettlementsReceivedInput;
+};
+
+export type GroupSettlementUncheckedCreateInput = {
+  id?: string;
+  groupId: string;
+  fromUserId: string;
+  toUserId: string;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  currency?: string;
+  createdAt?: Date | string;
+};
+
+export type GroupSettlementUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  group?: Prisma.ExpenseGroupUpdateOneRequiredWithoutSettlementsNestedInput;
+  fromUser?: Prisma.UserUpdateOneRequiredWithoutSettlementsPaidNestedInput;
+  toUser?: Prisma.UserUpdateOneRequiredWithoutSettlementsReceivedNestedInput;
+};
+
+export type GroupSettlementUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  groupId?: Prisma.StringFieldUpdateOperationsInput | string;
+  fromUserId?: Prisma.StringFieldUpdateOperationsInput | string;
+  toUserId?: Prisma.StringFieldUpdateOperationsInput | string;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type GroupSettlementCreateManyInput = {
+  id?: string;
+  groupId: string;
+  fromUserId: string;
+  toUserId: string;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  currency?: string;
+  createdAt?: Date | string;
+};
+
+export type GroupSettlementUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type GroupSettlementUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  groupId?: Prisma.StringFieldUpdateOperationsInput | string;
+  fromUserId?: Prisma.StringFieldUpdateOperationsInput | string;
+  toUserId?: Prisma.StringFieldUpdateOperationsInput | string;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type GroupSettlementListRelationFilter = {
+  every?: Prisma.GroupSettlementWhereInput;
+  some?: Prisma.GroupSettlementWhereInput;
+  none?: Prisma.GroupSettlementWhereInput;
+};
+
+export type GroupSettlementOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder;
+};
+
+export type GroupSettlementCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder;
+  groupId?: Prisma.SortOrder;
+  fromUserId?: Prisma.SortOrder;
+  toUserId?: Prisma.SortOrder;
+  amount?: Prisma.SortOrder;
+  currency?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+};
+
+export type GroupSettlementAvgOrderByAggregateInput = {
+  amount?: Prisma.SortOrder;
+};
+
+export type GroupSettlementMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder;
+  groupId?: Prisma.SortOrder;
+  fromUserId?: Prisma.SortOrder;
+  toUserId?: Prisma.SortOrder;
+  amount?: Prisma.SortOrder;
+  currency?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+};
+
+export type GroupSettlementMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder;
+  groupId?: Prisma.SortOrder;
+  fromUserId?: Prisma.SortOrder;
+  toUserId?: Prisma.SortOrder;
+  amount?: Prisma.SortOrder;
+  currency?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+};
+
+export type GroupSettlementSumOrderByAggregateInput = {
+  amount?: Prisma.SortOrder;
+};
+
+export type GroupSettlementCreateNestedManyWithoutFromUserInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.GroupSettlementCreateWithoutFromUserInput,
+        Prisma.GroupSettlementUncheckedCreateWithoutFromUserInput
+      >
+    | Prisma.GroupSettlementCreateWithoutFromUserInput[]
+    | Prisma.GroupSettlementUncheckedCreateWithoutFromUserInput[];
+  connectOrCreate?:
+    | Prisma.GroupSettlementCreateOrConnectWithoutFromUserInput
+    | Prisma.GroupSettlementCreateOrConnectWithoutFromUserInput[];
+  createMany?: Prisma.GroupSettlementCreateManyFromUserInputEnvelope;
+  connect?: Prisma.GroupSettlementWhereUniqueInput | Prisma.GroupSettlementWhereUniqueInput[];
+};
+
+export type GroupSettlementCreateNestedManyWithoutToUserInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.GroupSettlementCreateWithoutToUserInput,
+        Prisma.GroupSettlementUncheckedCreateWithoutToUserInput
+      >
+    | Prisma.GroupSettlementCreateWithoutToUserInput[]
+    | Prisma.GroupSettlementUncheckedCreateWithoutToUserInput[];
+  connectOrCreate?:
+    | Prisma.GroupSettlementCreateOrConnectWithoutToUserInput
+    | Prisma.GroupSettlementCreateOrConnectWithoutToUserInput[];
+  createMany?: Prisma.GroupSettlementCreateManyToUserInputEnvelope;
+  connect?: Prisma.GroupSettlementWhereUniqueInput | Prisma.GroupSettlementWhereUniqueInput[];
+};
+
+export type GroupSettlementUncheckedCreateNestedManyWithoutFromUserInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.GroupSettlementCreateWithoutFromUserInput,
+        Prisma.GroupSettlementUncheckedCreateWithoutFromUserInput
+      >
+    | Prisma.GroupSettlementCreateWithoutFromUserInput[]
+    | Prisma.GroupSettlementUncheckedCreateWithoutFromUserInput[];
+  connectOrCreate?:
+    | Prisma.GroupSettlementCreateOrConnectWithoutFromUserInput
+    | Prisma.GroupSettlementCreateOrConnectWithoutFromUserInput[];
+  createMany?: Prisma.GroupSettlementCreateManyFromUserInputEnvelope;
+  connect?: Prisma.GroupSettlementWhereUniqueInput | Prisma.GroupSettlementWhereUniqueInput[];
+};
+
+export type GroupSettlementUncheckedCreateNestedManyWithoutToUserInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.GroupSettlementCreateWithoutToUserInput,
+        Prisma.GroupSettlementUncheckedCreateWithoutToUserInput
+      >
+    | Prisma.GroupSettlementCreateWithoutToUserInput[]
+    | Prisma.GroupSettlementUncheckedCreateWithoutToUserInput[];
+  connectOrCreate?:
+    | Prisma.GroupSettlementCreateOrConnectWithoutToUserInput
+    | Prisma.GroupSettlementCreateOrConnectWithoutToUserInput[];
+  createMany?: Prisma.GroupSettlementCreateManyToUserInputEnvelope;
+  connect?: Prisma.GroupSettlementWhereUniqueInput | Prisma.GroupSettlementWhereUniqueInput[];
+};
+
+export type GroupSettlementUpdateManyWithoutFromUserNestedInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.GroupSettlementCreateWithoutFromUserInput,
+        Prisma.GroupSettlementUncheckedCreateWithoutFromUserInput
+      >
+    | Prisma.GroupSettlementCreateWithoutFromUserInput[]
+    | Prisma.GroupSettlementUncheckedCreateWithoutFromUserInput[];
+  connectOrCreate?:
+    | Prisma.GroupSettlementCreateOrConnectWithoutFromUserInput
+    | Prisma.GroupSettlementCreateOrConnectWithoutFromUserInput[];
+  upsert?:
+    | Prisma.GroupSettlementUpsertWithWhereUniqueWithoutFromUserInput
+    | Prisma.GroupSettlementUpsertWithWhereUniqueWithoutFromUserInput[];
+  createMany?: Prisma.GroupSettlementCreateManyFromUserInputEnvelope;
+  set?: Prisma.GroupSettlementWhereUniqueInput | Prisma.GroupSettlementWhereUniqueInput[];
+  disconnect?: Prisma.GroupSettlementWhereUniqueInput | Prisma.GroupSettlementWhereUniqueInput[];
+  delete?: Prisma.GroupSettlementWhereUniqueInput | Prisma.GroupSettlementWhereUniqueInput[];
+  connect?: Prisma.GroupSettlementWhereUniqueInput | Prisma.GroupSettlementWhereUniqueInput[];
+  update?:
+    | Prisma.GroupSettlementUpdateWithWhereUniqueWithoutFromUserInput
+    | Prisma.GroupSettlementUpdateWithWhereUniqueWithoutFromUserInput[];
+  updateMany?:
+    | Prisma.GroupSettlementUpdateManyWithWhereWithoutFromUserInput
+    | Prisma.GroupSettlementUpdateManyWithWhereWithoutFromUserInput[];
+  deleteMany?: Prisma.GroupSettlementScalarWhereInput | Prisma.GroupSettlementScalarWhereInput[];
+};
+
+export type GroupSettlementUpdateManyWithoutToUserNestedInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.GroupSettlementCreateWithoutToUserInput,
+        Prisma.GroupSettlementUncheckedCreateWithoutToUserInput
+      >
+    | Prisma.GroupSettlementCreateWithoutToUserInput[]
+    | Prisma.GroupSettlementUncheckedCreateWithoutToUserInput[];
+  connectOrCreate?:
+    | Prisma.GroupSettlementCreateOrConnectWithoutToUserInput
+    | Prisma.GroupSettlementCreateOrConnectWithoutToUserInput[];
+  upsert?:
+    | Prisma.GroupSettlementUpsertWithWhereUniqueWithoutToUserInput
+    | Prisma.GroupSettlementUpsertWithWhereUniqueWithoutToUserInput[];
+  createMany?: Prisma.GroupSettlementCreateManyToUserInputEnvelope;
+  set?: Prisma.GroupSettlementWhereUniqueInput | Prisma.GroupSettlementWhereUniqueInput[];
+  disconnect?: Prisma.GroupSettlementWhereUniqueInput | Prisma.GroupSettlementWhereUniqueInput[];
+  delete?: Prisma.GroupSettlementWhereUniqueInput | Prisma.GroupSettlementWhereUniqueInput[];
+  connect?: Prisma.GroupSettlementWhereUniqueInput | Prisma.GroupSettlementWhereUniqueInput[];
+  update?:
+    | Prisma.GroupSettlementUpdateWithWhereUniqueWithoutToUserInput
+    | Prisma.GroupSettlementUpdateWithWhereUniqueWithoutToUserInput[];
+  updateMany?:
+    | Prisma.GroupSettlementUpdateManyWithWhereWithoutToUserInput
+    | Prisma.GroupSettlementUpdateManyWithWhereWithoutToUserInput[];
+  deleteMany?: Prisma.GroupSettlementScalarWhereInput | Prisma.GroupSettlementScalarWhereInput[];
+};
+
+export type GroupSettlementUncheckedUpdateManyWithoutFromUserNestedInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.GroupSettlementCreateWithoutFromUserInput,
+        Prisma.GroupSettlementUncheckedCreateWithoutFromUserInput
+      >
+    | Prisma.GroupSettlementCreateWithoutFromUserInput[]
+    | Prisma.GroupSettlementUncheckedCreateWithoutFromUserInput[];
+  connectOrCreate?:
+    | Prisma.GroupSettlementCreateOrConnectWithoutFromUserInput
+    | Prisma.GroupSettlementCreateOrConnectWithoutFromUserInput[];
+  upsert?:
+    | Prisma.GroupSettlementUpsertWithWhereUniqueWithoutFromUserInput
+    | Prisma.GroupSettlementUpsertWithWhereUniqueWithoutFromUserInput[];
+  createMany?: Prisma.GroupSettlementCreateManyFromUserInputEnvelope;
+  set?: Prisma.GroupSettlementWhereUniqueInput | Prisma.GroupSettlementWhereUniqueInput[];
+  disconnect?: Prisma.GroupSettlementWhereUniqueInput | Prisma.GroupSettlementWhereUniqueInput[];
+  delete?: Prisma.GroupSettlementWhereUniqueInput | Prisma.GroupSettlementWhereUniqueInput[];
+  connect?: Prisma.GroupSettlementWhereUniqueInput | Prisma.GroupSettlementWhereUniqueInput[];
+  update?:
+    | Prisma.GroupSettlementUpdateWithWhereUniqueWithoutFromUserInput
+    | Prisma.GroupSettlementUpdateWithWhereUniqueWithoutFromUserInput[];
+  updateMany?:
+    | Prisma.GroupSettlementUpdateManyWithWhereWithoutFromUserInput
+    | Prisma.GroupSettlementUpdateManyWithWhereWithoutFromUserInput[];
+  deleteMany?: Prisma.GroupSettlementScalarWhereInput | Prisma.GroupSettlementScalarWhereInput[];
+};
+
+export type GroupSettlementUncheckedUpdateManyWithoutToUserNestedInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.GroupSettlementCreateWithoutToUserInput,
+        Prisma.GroupSettlementUncheckedCreateWithoutToUserInput
+      >
+    | Prisma.GroupSettlementCreateWithoutToUserInput[]
+    | Prisma.GroupSettlementUncheckedCreateWithoutToUserInput[];
+  connectOrCreate?:
+    | Prisma.GroupSettlementCreateOrConnectWithoutToUserInput
+    | Prisma.GroupSettlementCreateOrConnectWithoutToUserInput[];
+  upsert?:
+    | Prisma.GroupSettlementUpsertWithWhereUniqueWithoutToUserInput
+    | Prisma.GroupSettlementUpsertWithWhereUniqueWithoutToUserInput[];
+  createMany?: Prisma.GroupSettlementCreateManyToUserInputEnvelope;
+  set?: Prisma.GroupSettlementWhereUniqueInput | Prisma.GroupSettlementWhereUniqueInput[];
+  disconnect?: Prisma.GroupSettlementWhereUniqueInput | Prisma.GroupSettlementWhereUniqueInput[];
+  delete?: Prisma.GroupSettlementWhereUniqueInput | Prisma.GroupSettlementWhereUniqueInput[];
+  connect?: Prisma.GroupSettlementWhereUniqueInput | Prisma.GroupSettlementWhereUniqueInput[];
+  update?:
+    | Prisma.GroupSettlementUpdateWithWhereUniqueWithoutToUserInput
+    | Prisma.GroupSettlementUpdateWithWhereUniqueWithoutToUserInput[];
+  updateMany?:
+    | Prisma.GroupSettlementUpdateManyWithWhereWithoutToUserInput
+    | Prisma.GroupSettlementUpdateManyWithWhereWithoutToUserInput[];
+  deleteMany?: Prisma.GroupSettlementScalarWhereInput | Prisma.GroupSettlementScalarWhereInput[];
+};
+
+export type GroupSettlementCreateNestedManyWithoutGroupInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.GroupSettlementCreateWithoutGroupInput,
+        Prisma.GroupSettlementUncheckedCreateWithoutGroupInput
+      >
+    | Prisma.GroupSettlementCreateWithoutGroupInput[]
+    | Prisma.GroupSettlementUncheckedCreateWithoutGroupInput[];
+  connectOrCreate?:
+    | Prisma.GroupSettlementCreateOrConnectWithoutGroupInput
+    | Prisma.GroupSettlementCreateOrConnectWithoutGroupInput[];
+  createMany?: Prisma.GroupSettlementCreateManyGroupInputEnvelope;
+  connect?: Prisma.GroupSettlementWhereUniqueInput | Prisma.GroupSettlementWhereUniqueInput[];
+};
+
+export type GroupSettlementUncheckedCreateNestedManyWithoutGroupInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.GroupSettlementCreateWithoutGroupInput,
+        Prisma.GroupSettlementUncheckedCreateWithoutGroupInput
+      >
+    | Prisma.GroupSettlementCreateWithoutGroupInput[]
+    | Prisma.GroupSettlementUncheckedCreateWithoutGroupInput[];
+  connectOrCreate?:
+    | Prisma.GroupSettlementCreateOrConnectWithoutGroupInput
+    | Prisma.GroupSettlementCreateOrConnectWithoutGroupInput[];
+  createMany?: Prisma.GroupSettlementCreateManyGroupInputEnvelope;
+  connect?: Prisma.GroupSettlementWhereUniqueInput | Prisma.GroupSettlementWhereUniqueInput[];
+};
+
+export type GroupSettlementUpdateManyWithoutGroupNestedInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.GroupSettlementCreateWithoutGroupInput,
+        Prisma.GroupSettlementUncheckedCreateWithoutGroupInput
+      >
+    | Prisma.GroupSettlementCreateWithoutGroupInput[]
+    | Prisma.GroupSettlementUncheckedCreateWithoutGroupInput[];
+  connectOrCreate?:
+    | Prisma.GroupSettlementCreateOrConnectWithoutGroupInput
+    | Prisma.GroupSettlementCreateOrConnectWithoutGroupInput[];
+  upsert?:
+    | Prisma.GroupSettlementUpsertWithWhereUniqueWithoutGroupInput
+    | Prisma.GroupSettlementUpsertWithWhereUniqueWithoutGroupInput[];
+  createMany?: Prisma.GroupSettlementCreateManyGroupInputEnvelope;
+  set?: Prisma.GroupSettlementWhereUniqueInput | Prisma.GroupSettlementWhereUniqueInput[];
+  disconnect?: Prisma.GroupSettlementWhereUniqueInput | Prisma.GroupSettlementWhereUniqueInput[];
+  delete?: Prisma.GroupSettlementWhereUniqueInput | Prisma.GroupSettlementWhereUniqueInput[];
+  connect?: Prisma.GroupSettlementWhereUniqueInput | Prisma.GroupSettlementWhereUniqueInput[];
+  update?:
+    | Prisma.GroupSettlementUpdateWithWhereUniqueWithoutGroupInput
+    | Prisma.GroupSettlementUpdateWithWhereUniqueWithoutGroupInput[];
+  updateMany?:
+    | Prisma.GroupSettlementUpdateManyWithWhereWithoutGroupInput
+    | Prisma.GroupSettlementUpdateManyWithWhereWithoutGroupInput[];
+  deleteMany?: Prisma.GroupSettlementScalarWhereInput | Prisma.GroupSettlementScalarWhereInput[];
+};
+
+export type GroupSettlementUncheckedUpdateManyWithoutGroupNestedInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.GroupSettlementCreateWithoutGroupInput,
+        Prisma.GroupSettlementUncheckedCreateWithoutGroupInput
+      >
+    | Prisma.GroupSettlementCreateWithoutGroupInput[]
+    | Prisma.GroupSettlementUncheckedCreateWithoutGroupInput[];
+  connectOrCreate?:
+    | Prisma.GroupSettlementCreateOrConnectWithoutGroupInput
+    | Prisma.GroupSettlementCreateOrConnectWithoutGroupInput[];
+  upsert?:
+    | Prisma.GroupSettlementUpsertWithWhereUniqueWithoutGroupInput
+    | Prisma.GroupSettlementUpsertWithWhereUniqueWithoutGroupInput[];
+  createMany?: Prisma.GroupSettlementCreateManyGroupInputEnvelope;
+  set?: Prisma.GroupSettlementWhereUniqueInput | Prisma.GroupSettlementWhereUniqueInput[];
+  disconnect?: Prisma.GroupSettlementWhereUniqueInput | Prisma.GroupSettlementWhereUniqueInput[];
+  delete?: Prisma.GroupSettlementWhereUniqueInput | Prisma.GroupSettlementWhereUniqueInput[];
+  connect?: Prisma.GroupSettlementWhereUniqueInput | Prisma.GroupSettlementWhereUniqueInput[];
+  update?:
+    | Prisma.GroupSettlementUpdateWithWhereUniqueWithoutGroupInput
+    | Prisma.GroupSettlementUpdateWithWhereUniqueWithoutGroupInput[];
+  updateMany?:
+    | Prisma.GroupSettlementUpdateManyWithWhereWithoutGroupInput
+    | Prisma.GroupSettlementUpdateManyWithWhereWithoutGroupInput[];
+  deleteMany?: Prisma.GroupSettlementScalarWhereInput | Prisma.GroupSettlementScalarWhereInput[];
+};
+
+export type GroupSettlementCreateWithoutFromUserInput = {
+  id?: string;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  currency?: string;
+  createdAt?: Date | string;
+  group: Prisma.ExpenseGroupCreateNestedOneWithoutSettlementsInput;
+  toUser: Prisma.UserCreateNestedOneWithoutSettlementsReceivedInput;
+};
+
+export type GroupSettlementUncheckedCreateWithoutFromUserInput = {
+  id?: string;
+  groupId: string;
+  toUserId: string;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  currency?: string;
+  createdAt?: Date | string;
+};
+
+export type GroupSettlementCreateOrConnectWithoutFromUserInput = {
+  where: Prisma.GroupSettlementWhereUniqueInput;
+  create: Prisma.XOR<
+    Prisma.GroupSettlementCreateWithoutFromUserInput,
+    Prisma.GroupSettlementUncheckedCreateWithoutFromUserInput
+  >;
+};
+
+export type GroupSettlementCreateManyFromUserInputEnvelope = {
+  data:
+    | Prisma.GroupSettlementCreateManyFromUserInput
+    | Prisma.GroupSettlementCreateManyFromUserInput[];
+  skipDuplicates?: boolean;
+};
+
+export type GroupSettlementCreateWithoutToUserInput = {
+  id?: string;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  currency?: string;
+  createdAt?: Date | string;
+  group: Prisma.ExpenseGroupCreateNestedOneWithoutSettlementsInput;
+  fromUser: Prisma.UserCreateNestedOneWithoutSettlementsPaidInput;
+};
+
+export type GroupSettlementUncheckedCreateWithoutToUserInput = {
+  id?: string;
+  groupId: string;
+  fromUserId: string;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  currency?: string;
+  createdAt?: Date | string;
+};
+
+export type GroupSettlementCreateOrConnectWithoutToUserInput = {
+  where: Prisma.GroupSettlementWhereUniqueInput;
+  create: Prisma.XOR<
+    Prisma.GroupSettlementCreateWithoutToUserInput,
+    Prisma.GroupSettlementUncheckedCreateWithoutToUserInput
+  >;
+};
+
+export type GroupSettlementCreateManyToUserInputEnvelope = {
+  data: Prisma.GroupSettlementCreateManyToUserInput | Prisma.GroupSettlementCreateManyToUserInput[];
+  skipDuplicates?: boolean;
+};
+
+export type GroupSettlementUpsertWithWhereUniqueWithoutFromUserInput = {
+  where: Prisma.GroupSettlementWhereUniqueInput;
+  update: Prisma.XOR<
+    Prisma.GroupSettlementUpdateWithoutFromUserInput,
+    Prisma.GroupSettlementUncheckedUpdateWithoutFromUserInput
+  >;
+  create: Prisma.XOR<
+    Prisma.GroupSettlementCreateWithoutFromUserInput,
+    Prisma.GroupSettlementUncheckedCreateWithoutFromUserInput
+  >;
+};
+
+export type GroupSettlementUpdateWithWhereUniqueWithoutFromUserInput = {
+  where: Prisma.GroupSettlementWhereUniqueInput;
+  data: Prisma.XOR<
+    Prisma.GroupSettlementUpdateWithoutFromUserInput,
+    Prisma.GroupSettlementUncheckedUpdateWithoutFromUserInput
+  >;
+};
+
+export type GroupSettlementUpdateManyWithWhereWithoutFromUserInput = {
+  where: Prisma.GroupSettlementScalarWhereInput;
+  data: Prisma.XOR<
+    Prisma.GroupSettlementUpdateManyMutationInput,
+    Prisma.GroupSettlementUncheckedUpdateManyWithoutFromUserInput
+  >;
+};
+
+export type GroupSettlementScalarWhereInput = {
+  AND?: Prisma.GroupSettlementScalarWhereInput | Prisma.GroupSettlementScalarWhereInput[];
+  OR?: Prisma.GroupSettlementScalarWhereInput[];
+  NOT?: Prisma.GroupSettlementScalarWhereInput | Prisma.GroupSettlementScalarWhereInput[];
+  id?: Prisma.StringFilter<"GroupSettlement"> | string;
+  groupId?: Prisma.StringFilter<"GroupSettlement"> | string;
+  fromUserId?: Prisma.StringFilter<"GroupSettlement"> | string;
+  toUserId?: Prisma.StringFilter<"GroupSettlement"> | string;
+  amount?:
+    | Prisma.DecimalFilter<"GroupSettlement">
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currency?: Prisma.StringFilter<"GroupSettlement"> | string;
+  createdAt?: Prisma.DateTimeFilter<"GroupSettlement"> | Date | string;
+};
+
+export type GroupSettlementUpsertWithWhereUniqueWithoutToUserInput = {
+  where: Prisma.GroupSettlementWhereUniqueInput;
+  update: Prisma.XOR<
+    Prisma.GroupSettlementUpdateWithoutToUserInput,
+    Prisma.GroupSettlementUncheckedUpdateWithoutToUserInput
+  >;
+  create: Prisma.XOR<
+    Prisma.GroupSettlementCreateWithoutToUserInput,
+    Prisma.GroupSettlementUncheckedCreateWithoutToUserInput
+  >;
+};
+
+export type GroupSettlementUpdateWithWhereUniqueWithoutToUserInput = {
+  where: Prisma.GroupSettlementWhereUniqueInput;
+  data: Prisma.XOR<
+    Prisma.GroupSettlementUpdateWithoutToUserInput,
+    Prisma.GroupSettlementUncheckedUpdateWithoutToUserInput
+  >;
+};
+
+export type GroupSettlementUpdateManyWithWhereWithoutToUserInput = {
+  where: Prisma.GroupSettlementScalarWhereInput;
+  data: Prisma.XOR<
+    Prisma.GroupSettlementUpdateManyMutationInput,
+    Prisma.GroupSettlementUncheckedUpdateManyWithoutToUserInput
+  >;
+};
+
+export type GroupSettlementCreateWithoutGroupInput = {
+  id?: string;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  currency?: string;
+  createdAt?: Date | string;
+  fromUser: Prisma.UserCreateNestedOneWithoutSettlementsPaidInput;
+  toUser: Prisma.UserCreateNestedOneWithoutSettlementsReceivedInput;
+};
+
+export type GroupSettlementUncheckedCreateWithoutGroupInput = {
+  id?: string;
+  fromUserId: string;
+  toUserId: string;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  currency?: string;
+  createdAt?: Date | string;
+};
+
+export type GroupSettlementCreateOrConnectWithoutGroupInput = {
+  where: Prisma.GroupSettlementWhereUniqueInput;
+  create: Prisma.XOR<
+    Prisma.GroupSettlementCreateWithoutGroupInput,
+    Prisma.GroupSettlementUncheckedCreateWithoutGroupInput
+  >;
+};
+
+export type GroupSettlementCreateManyGroupInputEnvelope = {
+  data: Prisma.GroupSettlementCreateManyGroupInput | Prisma.GroupSettlementCreateManyGroupInput[];
+  skipDuplicates?: boolean;
+};
+
+export type GroupSettlementUpsertWithWhereUniqueWithoutGroupInput = {
+  where: Prisma.GroupSettlementWhereUniqueInput;
+  update: Prisma.XOR<
+    Prisma.GroupSettlementUpdateWithoutGroupInput,
+    Prisma.GroupSettlementUncheckedUpdateWithoutGroupInput
+  >;
+  create: Prisma.XOR<
+    Prisma.GroupSettlementCreateWithoutGroupInput,
+    Prisma.GroupSettlementUncheckedCreateWithoutGroupInput
+  >;
+};
+
+export type GroupSettlementUpdateWithWhereUniqueWithoutGroupInput = {
+  where: Prisma.GroupSettlementWhereUniqueInput;
+  data: Prisma.XOR<
+    Prisma.GroupSettlementUpdateWithoutGroupInput,
+    Prisma.GroupSettlementUncheckedUpdateWithoutGroupInput
+  >;
+};
+
+export type GroupSettlementUpdateManyWithWhereWithoutGroupInput = {
+  where: Prisma.GroupSettlementScalarWhereInput;
+  data: Prisma.XOR<
+    Prisma.GroupSettlementUpdateManyMutationInput,
+    Prisma.GroupSettlementUncheckedUpdateManyWithoutGroupInput
+  >;
+};
+
+export type GroupSettlementCreateManyFromUserInput = {
+  id?: string;
+  groupId: string;
+  toUserId: string;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  currency?: string;
+  createdAt?: Date | string;
+};
+
+export type GroupSettlementCreateManyToUserInput = {
+  id?: string;
+  groupId: string;
+  fromUserId: string;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  currency?: string;
+  createdAt?: Date | string;
+};
+
+export type GroupSettlementUpdateWithoutFromUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  group?: Prisma.ExpenseGroupUpdateOneRequiredWithoutSettlementsNestedInput;
+  toUser?: Prisma.UserUpdateOneRequiredWithoutSettlementsReceivedNestedInput;
+};
+
+export type GroupSettlementUncheckedUpdateWithoutFromUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  groupId?: Prisma.StringFieldUpdateOperationsInput | string;
+  toUserId?: Prisma.StringFieldUpdateOperationsInput | string;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type GroupSettlementUncheckedUpdateManyWithoutFromUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  groupId?: Prisma.StringFieldUpdateOperationsInput | string;
+  toUserId?: Prisma.StringFieldUpdateOperationsInput | string;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type GroupSettlementUpdateWithoutToUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  group?: Prisma.ExpenseGroupUpdateOneRequiredWithoutSettlementsNestedInput;
+  fromUser?: Prisma.UserUpdateOneRequiredWithoutSettlementsPaidNestedInput;
+};
+
+export type GroupSettlementUncheckedUpdateWithoutToUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  groupId?: Prisma.StringFieldUpdateOperationsInput | string;
+  fromUserId?: Prisma.StringFieldUpdateOperationsInput | string;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type GroupSettlementUncheckedUpdateManyWithoutToUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  groupId?: Prisma.StringFieldUpdateOperationsInput | string;
+  fromUserId?: Prisma.StringFieldUpdateOperationsInput | string;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type GroupSettlementCreateManyGroupInput = {
+  id?: string;
+  fromUserId: string;
+  toUserId: string;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  currency?: string;
+  createdAt?: Date | string;
+};
+
+export type GroupSettlementUpdateWithoutGroupInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  fromUser?: Prisma.UserUpdateOneRequiredWithoutSettlementsPaidNestedInput;
+  toUser?: Prisma.UserUpdateOneRequiredWithoutSettlementsReceivedNestedInput;
+};
+
+export type GroupSettlementUncheckedUpdateWithoutGroupInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  fromUserId?: Prisma.StringFieldUpdateOperationsInput | string;
+  toUserId?: Prisma.StringFieldUpdateOperationsInput | string;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type GroupSettlementUncheckedUpdateManyWithoutGroupInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  fromUserId?: Prisma.StringFieldUpdateOperationsInput | string;
+  toUserId?: Prisma.StringFieldUpdateOperationsInput | string;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type GroupSettlementSelect<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean;
+    groupId?: boolean;
+    fromUserId?: boolean;
+    toUserId?: boolean;
+    amount?: boolean;
+    currency?: boolean;
+    createdAt?: boolean;
+    group?: boolean | Prisma.ExpenseGroupDefaultArgs<ExtArgs>;
+    fromUser?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+    toUser?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+  },
+  ExtArgs["result"]["groupSettlement"]
+>;
+
+export type GroupSettlementSelectCreateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean;
+    groupId?: boolean;
+    fromUserId?: boolean;
+    toUserId?: boolean;
+    amount?: boolean;
+    currency?: boolean;
+    createdAt?: boolean;
+    group?: boolean | Prisma.ExpenseGroupDefaultArgs<ExtArgs>;
+    fromUser?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+    toUser?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+  },
+  ExtArgs["result"]["groupSettlement"]
+>;
+
+export type GroupSettlementSelectUpdateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean;
+    groupId?: boolean;
+    fromUserId?: boolean;
+    toUserId?: boolean;
+    amount?: boolean;
+    currency?: boolean;
+    createdAt?: boolean;
+    group?: boolean | Prisma.ExpenseGroupDefaultArgs<ExtArgs>;
+    fromUser?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+    toUser?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+  },
+  ExtArgs["result"]["groupSettlement"]
+>;
+
+export type GroupSettlementSelectScalar = {
+  id?: boolean;
+  groupId?: boolean;
+  fromUserId?: boolean;
+  toUserId?: boolean;
+  amount?: boolean;
+  currency?: boolean;
+  createdAt?: boolean;
+};
+
+export type GroupSettlementOmit<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetOmit<
+  "id" | "groupId" | "fromUserId" | "toUserId" | "amount" | "currency" | "createdAt",
+  ExtArgs["result"]["groupSettlement"]
+>;
+export type GroupSettlementInclude<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  group?: boolean | Prisma.ExpenseGroupDefaultArgs<ExtArgs>;
+  fromUser?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+  toUser?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+};
+export type GroupSettlementIncludeCreateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  group?: boolean | Prisma.ExpenseGroupDefaultArgs<ExtArgs>;
+  fromUser?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+  toUser?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+};
+export type GroupSettlementIncludeUpdateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  group?: boolean | Prisma.ExpenseGroupDefaultArgs<ExtArgs>;
+  fromUser?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+  toUser?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+};
+
+export type $GroupSettlementPayload<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  name: "GroupSettlement";
+  objects: {
+    group: Prisma.$ExpenseGroupPayload<ExtArgs>;
+    fromUser: Prisma.$UserPayload<ExtArgs>;
+    toUser: Prisma.$UserPayload<ExtArgs>;
+  };
+  scalars: runtime.Types.Extensions.GetPayloadResult<
+    {
+      id: string;
+      groupId: string;
+      fromUserId: string;
+      toUserId: string;
+      amount: runtime.Decimal;
+      currency: string;
+      createdAt: Date;
+    },
+    ExtArgs["result"]["groupSettlement"]
+  >;
+  composites: {};
+};
+
+export type GroupSettlementGetPayload<
+  S extends boolean | null | undefined | GroupSettlementDefaultArgs
+> = runtime.Types.Result.GetResult<Prisma.$GroupSettlementPayload, S>;
+
+export type GroupSettlementCountArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = Omit<GroupSettlementFindManyArgs, "select" | "include" | "distinct" | "omit"> & {
+  select?: GroupSettlementCountAggregateInputType | true;
+};
+
+export interface GroupSettlementDelegate<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+  GlobalOmitOptions = {}
+> {
+  [K: symbol]: {
+    types: Prisma.TypeMap<ExtArgs>["model"]["GroupSettlement"];
+    meta: { name: "GroupSettlement" };
+  };
+  /**
+   * Find zero or one GroupSettlement that matches the filter.
+   * @param {GroupSettlementFindUniqueArgs} args - Arguments to find a GroupSettlement
+   * @example
+   * // Get one GroupSettlement
+   * const groupSettlement = await prisma.groupSettlement.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends GroupSettlementFindUniqueArgs>(
+    args: Prisma.SelectSubset<T, GroupSettlementFindUniqueArgs<ExtArgs>>
+  ): Prisma.Prisma__GroupSettlementClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$GroupSettlementPayload<ExtArgs>,
+      T,
+      "findUnique",
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find one GroupSettlement that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {GroupSettlementFindUniqueOrThrowArgs} args - Arguments to find a GroupSettlement
+   * @example
+   * // Get one GroupSettlement
+   * const groupSettlement = await prisma.groupSettlement.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends GroupSettlementFindUniqueOrThrowArgs>(
+    args: Prisma.SelectSubset<T, GroupSettlementFindUniqueOrThrowArgs<ExtArgs>>
+  ): Prisma.Prisma__GroupSettlementClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$GroupSettlementPayload<ExtArgs>,
+      T,
+      "findUniqueOrThrow",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find the first GroupSettlement that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {GroupSettlementFindFirstArgs} args - Arguments to find a GroupSettlement
+   * @example
+   * // Get one GroupSettlement
+   * const groupSettlement = await prisma.groupSettlement.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends GroupSettlementFindFirstArgs>(
+    args?: Prisma.SelectSubset<T, GroupSettlementFindFirstArgs<ExtArgs>>
+  ): Prisma.Prisma__GroupSettlementClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$GroupSettlementPayload<ExtArgs>,
+      T,
+      "findFirst",
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find the first GroupSettlement that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {GroupSettlementFindFirstOrThrowArgs} args - Arguments to find a GroupSettlement
+   * @example
+   * // Get one GroupSettlement
+   * const groupSettlement = await prisma.groupSettlement.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends GroupSettlementFindFirstOrThrowArgs>(
+    args?: Prisma.SelectSubset<T, GroupSettlementFindFirstOrThrowArgs<ExtArgs>>
+  ): Prisma.Prisma__GroupSettlementClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$GroupSettlementPayload<ExtArgs>,
+      T,
+      "findFirstOrThrow",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find zero or more GroupSettlements that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {GroupSettlementFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all GroupSettlements
+   * const groupSettlements = await prisma.groupSettlement.findMany()
+   *
+   * // Get first 10 GroupSettlements
+   * const groupSettlements = await prisma.groupSettlement.findMany({ take: 10 })
+   *
+   * // Only select the `id`
+   * const groupSettlementWithIdOnly = await prisma.groupSettlement.findMany({ select: { id: true } })
+   *
+   */
+  findMany<T extends GroupSettlementFindManyArgs>(
+    args?: Prisma.SelectSubset<T, GroupSettlementFindManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$GroupSettlementPayload<ExtArgs>,
+      T,
+      "findMany",
+      GlobalOmitOptions
+    >
+  >;
+
+  /**
+   * Create a GroupSettlement.
+   * @param {GroupSettlementCreateArgs} args - Arguments to create a GroupSettlement.
+   * @example
+   * // Create one GroupSettlement
+   * const GroupSettlement = await prisma.groupSettlement.create({
+   *   data: {
+   *     // ... data to create a GroupSettlement
+   *   }
+   * })
+   *
+   */
+  create<T extends GroupSettlementCreateArgs>(
+    args: Prisma.SelectSubset<T, GroupSettlementCreateArgs<ExtArgs>>
+  ): Prisma.Prisma__GroupSettlementClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$GroupSettlementPayload<ExtArgs>,
+      T,
+      "create",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Create many GroupSettlements.
+   * @param {GroupSettlementCreateManyArgs} args - Arguments to create many GroupSettlements.
+   * @example
+   * // Create many GroupSettlements
+   * const groupSettlement = await prisma.groupSettlement.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   */
+  createMany<T extends GroupSettlementCreateManyArgs>(
+    args?: Prisma.SelectSubset<T, GroupSettlementCreateManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+  /**
+   * Create many GroupSettlements and returns the data saved in the database.
+   * @param {GroupSettlementCreateManyAndReturnArgs} args - Arguments to create many GroupSettlements.
+   * @example
+   * // Create many GroupSettlements
+   * const groupSettlement = await prisma.groupSettlement.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   * // Create many GroupSettlements and only return the `id`
+   * const groupSettlementWithIdOnly = await prisma.groupSettlement.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   *
+   */
+  createManyAndReturn<T extends GroupSettlementCreateManyAndReturnArgs>(
+    args?: Prisma.SelectSubset<T, GroupSettlementCreateManyAndReturnArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$GroupSettlementPayload<ExtArgs>,
+      T,
+      "createManyAndReturn",
+      GlobalOmitOptions
+    >
+  >;
+
+  /**
+   * Delete a GroupSettlement.
+   * @param {GroupSettlementDeleteArgs} args - Arguments to delete one GroupSettlement.
+   * @example
+   * // Delete one GroupSettlement
+   * const GroupSettlement = await prisma.groupSettlement.delete({
+   *   where: {
+   *     // ... filter to delete one GroupSettlement
+   *   }
+   * })
+   *
+   */
+  delete<T extends GroupSettlementDeleteArgs>(
+    args: Prisma.SelectSubset<T, GroupSettlementDeleteArgs<ExtArgs>>
+  ): Prisma.Prisma__GroupSettlementClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$GroupSettlementPayload<ExtArgs>,
+      T,
+      "delete",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Update one GroupSettlement.
+   * @param {GroupSettlementUpdateArgs} args - Arguments to update one GroupSettlement.
+   * @example
+   * // Update one GroupSettlement
+   * const groupSettlement = await prisma.groupSettlement.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   *
+   */
+  update<T extends GroupSettlementUpdateArgs>(
+    args: Prisma.SelectSubset<T, GroupSettlementUpdateArgs<ExtArgs>>
+  ): Prisma.Prisma__GroupSettlementClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$GroupSettlementPayload<ExtArgs>,
+      T,
+      "update",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Delete zero or more GroupSettlements.
+   * @param {GroupSettlementDeleteManyArgs} args - Arguments to filter GroupSettlements to delete.
+   * @example
+   * // Delete a few GroupSettlements
+   * const { count } = await prisma.groupSettlement.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   *
+   */
+  deleteMany<T extends GroupSettlementDeleteManyArgs>(
+    args?: Prisma.SelectSubset<T, GroupSettlementDeleteManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+  /**
+   * Update zero or more GroupSettlements.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {GroupSettlementUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many GroupSettlements
+   * const groupSettlement = await prisma.groupSettlement.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   *
+   */
+  updateMany<T extends GroupSettlementUpdateManyArgs>(
+    args: Prisma.SelectSubset<T, GroupSettlementUpdateManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+  /**
+   * Update zero or more GroupSettlements and returns the data updated in the database.
+   * @param {GroupSettlementUpdateManyAndReturnArgs} args - Arguments to update many GroupSettlements.
+   * @example
+   * // Update many GroupSettlements
+   * const groupSettlement = await prisma.groupSettlement.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   * // Update zero or more GroupSettlements and only return the `id`
+   * const groupSettlementWithIdOnly = await prisma.groupSettlement.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   *
+   */
+  updateManyAndReturn<T extends GroupSettlementUpdateManyAndReturnArgs>(
+    args: Prisma.SelectSubset<T, GroupSettlementUpdateManyAndReturnArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$GroupSettlementPayload<ExtArgs>,
+      T,
+      "updateManyAndReturn",
+      GlobalOmitOptions
+    >
+  >;
+
+  /**
+   * Create or update one GroupSettlement.
+   * @param {GroupSettlementUpsertArgs} args - Arguments to update or create a GroupSettlement.
+   * @example
+   * // Update or create a GroupSettlement
+   * const groupSettlement = await prisma.groupSettlement.upsert({
+   *   create: {
+   *     // ... data to create a GroupSettlement
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the GroupSettlement we want to update
+   *   }
+   * })
+   */
+  upsert<T extends GroupSettlementUpsertArgs>(
+    args: Prisma.SelectSubset<T, GroupSettlementUpsertArgs<ExtArgs>>
+  ): Prisma.Prisma__GroupSettlementClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$GroupSettlementPayload<ExtArgs>,
+      T,
+      "upsert",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Count the number of GroupSettlements.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {GroupSettlementCountArgs} args - Arguments to filter GroupSettlements to count.
+   * @example
+   * // Count the number of GroupSettlements
+   * const count = await prisma.groupSettlement.count({
+   *   where: {
+   *     // ... the filter for the GroupSettlements we want to count
+   *   }
+   * })
+   **/
+  count<T extends GroupSettlementCountArgs>(
+    args?: Prisma.Subset<T, GroupSettlementCountArgs>
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<"select", any>
+      ? T["select"] extends true
+        ? number
+        : Prisma.GetScalarType<T["select"], GroupSettlementCountAggregateOutputType>
+      : number
+  >;
+
+  /**
+   * Allows you to perform aggregations operations on a GroupSettlement.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {GroupSettlementAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+   **/
+  aggregate<T extends GroupSettlementAggregateArgs>(
+    args: Prisma.Subset<T, GroupSettlementAggregateArgs>
+  ): Prisma.PrismaPromise<GetGroupSettlementAggregateType<T>>;
+
+  /**
+   * Group by GroupSettlement.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {GroupSettlementGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   *
+   **/
+  groupBy<
+    T extends GroupSettlementGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<"skip", Prisma.Keys<T>>,
+      Prisma.Extends<"take", Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: GroupSettlementGroupByArgs["orderBy"] }
+      : { orderBy?: GroupSettlementGroupByArgs["orderBy"] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<
+      Prisma.Keys<Prisma.MaybeTupleToUnion<T["orderBy"]>>
+    >,
+    ByFields extends Prisma.MaybeTupleToUnion<T["by"]>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T["having"]>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T["by"] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends Prisma.False
+        ? {
+            [P in HavingFields]: P extends ByFields
+              ? never
+              : P extends string
+                ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+                : [Error, "Field ", P, ` in "having" needs to be provided in "by"`];
+          }[HavingFields]
+        : "take" extends Prisma.Keys<T>
+          ? "orderBy" extends Prisma.Keys<T>
+            ? ByValid extends Prisma.True
+              ? {}
+              : {
+                  [P in OrderFields]: P extends ByFields
+                    ? never
+                    : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                }[OrderFields]
+            : 'Error: If you provide "take", you also need to provide "orderBy"'
+          : "skip" extends Prisma.Keys<T>
+            ? "orderBy" extends Prisma.Keys<T>
+              ? ByValid extends Prisma.True
+                ? {}
+                : {
+                    [P in OrderFields]: P extends ByFields
+                      ? never
+                      : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                  }[OrderFields]
+              : 'Error: If you provide "skip", you also need to provide "orderBy"'
+            : ByValid extends Prisma.True
+              ? {}
+              : {
+                  [P in OrderFields]: P extends ByFields
+                    ? never
+                    : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                }[OrderFields]
+  >(
+    args: Prisma.SubsetIntersection<T, GroupSettlementGroupByArgs, OrderByArg> & InputErrors
+  ): {} extends InputErrors
+    ? GetGroupSettlementGroupByPayload<T>
+    : Prisma.PrismaPromise<InputErrors>;
+  /**
+   * Fields of the GroupSettlement model
+   */
+  readonly fields: GroupSettlementFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for GroupSettlement.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__GroupSettlementClient<
+  T,
+  Null = never,
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+  GlobalOmitOptions = {}
+> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise";
+  group<T extends Prisma.ExpenseGroupDefaultArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.ExpenseGroupDefaultArgs<ExtArgs>>
+  ): Prisma.Prisma__ExpenseGroupClient<
+    | runtime.Types.Result.GetResult<
+        Prisma.$ExpenseGroupPayload<ExtArgs>,
+        T,
+        "findUniqueOrThrow",
+        GlobalOmitOptions
+      >
+    | Null,
+    Null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+  fromUser<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>
+  ): Prisma.Prisma__UserClient<
+    | runtime.Types.Result.GetResult<
+        Prisma.$UserPayload<ExtArgs>,
+        T,
+        "findUniqueOrThrow",
+        GlobalOmitOptions
+      >
+    | Null,
+    Null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+  toUser<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>
+  ): Prisma.Prisma__UserClient<
+    | runtime.Types.Result.GetResult<
+        Prisma.$UserPayload<ExtArgs>,
+        T,
+        "findUniqueOrThrow",
+        GlobalOmitOptions
+      >
+    | Null,
+    Null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(
+    onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null
+  ): runtime.Types.Utils.JsPromise<TResult1 | TResult2>;
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(
+    onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null
+  ): runtime.Types.Utils.JsPromise<T | TResult>;
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>;
+}
+
+/**
+ * Fields of the GroupSettlement model
+ */
+export interface GroupSettlementFieldRefs {
+  readonly id: Prisma.FieldRef<"GroupSettlement", "String">;
+  readonly groupId: Prisma.FieldRef<"GroupSettlement", "String">;
+  readonly fromUserId: Prisma.FieldRef<"GroupSettlement", "String">;
+  readonly toUserId: Prisma.FieldRef<"GroupSettlement", "String">;
+  readonly amount: Prisma.FieldRef<"GroupSettlement", "Decimal">;
+  readonly currency: Prisma.FieldRef<"GroupSettlement", "String">;
+  readonly createdAt: Prisma.FieldRef<"GroupSettlement", "DateTime">;
+}
+
+// Custom InputTypes
+/**
+ * GroupSettlement findUnique
+ */
+export type GroupSettlementFindUniqueArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the GroupSettlement
+   */
+  select?: Prisma.GroupSettlementSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the GroupSettlement
+   */
+  omit?: Prisma.GroupSettlementOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GroupSettlementInclude<ExtArgs> | null;
+  /**
+   * Filter, which GroupSettlement to fetch.
+   */
+  where: Prisma.GroupSettlementWhereUniqueInput;
+};
+
+/**
+ * GroupSettlement findUniqueOrThrow
+ */
+export type GroupSettlementFindUniqueOrThrowArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the GroupSettlement
+   */
+  select?: Prisma.GroupSettlementSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the GroupSettlement
+   */
+  omit?: Prisma.GroupSettlementOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GroupSettlementInclude<ExtArgs> | null;
+  /**
+   * Filter, which GroupSettlement to fetch.
+   */
+  where: Prisma.GroupSettlementWhereUniqueInput;
+};
+
+/**
+ * GroupSettlement findFirst
+ */
+export type GroupSettlementFindFirstArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the GroupSettlement
+   */
+  select?: Prisma.GroupSettlementSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the GroupSettlement
+   */
+  omit?: Prisma.GroupSettlementOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GroupSettlementInclude<ExtArgs> | null;
+  /**
+   * Filter, which GroupSettlement to fetch.
+   */
+  where?: Prisma.GroupSettlementWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of GroupSettlements to fetch.
+   */
+  orderBy?:
+    | Prisma.GroupSettlementOrderByWithRelationInput
+    | Prisma.GroupSettlementOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for searching for GroupSettlements.
+   */
+  cursor?: Prisma.GroupSettlementWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` GroupSettlements from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` GroupSettlements.
+   */
+  skip?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   *
+   * Filter by unique combinations of GroupSettlements.
+   */
+  distinct?: Prisma.GroupSettlementScalarFieldEnum | Prisma.GroupSettlementScalarFieldEnum[];
+};
+
+/**
+ * GroupSettlement findFirstOrThrow
+ */
+export type GroupSettlementFindFirstOrThrowArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the GroupSettlement
+   */
+  select?: Prisma.GroupSettlementSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the GroupSettlement
+   */
+  omit?: Prisma.GroupSettlementOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GroupSettlementInclude<ExtArgs> | null;
+  /**
+   * Filter, which GroupSettlement to fetch.
+   */
+  where?: Prisma.GroupSettlementWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of GroupSettlements to fetch.
+   */
+  orderBy?:
+    | Prisma.GroupSettlementOrderByWithRelationInput
+    | Prisma.GroupSettlementOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for searching for GroupSettlements.
+   */
+  cursor?: Prisma.GroupSettlementWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` GroupSettlements from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` GroupSettlements.
+   */
+  skip?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   *
+   * Filter by unique combinations of GroupSettlements.
+   */
+  distinct?: Prisma.GroupSettlementScalarFieldEnum | Prisma.GroupSettlementScalarFieldEnum[];
+};
+
+/**
+ * GroupSettlement findMany
+ */
+export type GroupSettlementFindManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the GroupSettlement
+   */
+  select?: Prisma.GroupSettlementSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the GroupSettlement
+   */
+  omit?: Prisma.GroupSettlementOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GroupSettlementInclude<ExtArgs> | null;
+  /**
+   * Filter, which GroupSettlements to fetch.
+   */
+  where?: Prisma.GroupSettlementWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of GroupSettlements to fetch.
+   */
+  orderBy?:
+    | Prisma.GroupSettlementOrderByWithRelationInput
+    | Prisma.GroupSettlementOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for listing GroupSettlements.
+   */
+  cursor?: Prisma.GroupSettlementWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` GroupSettlements from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` GroupSettlements.
+   */
+  skip?: number;
+  distinct?: Prisma.GroupSettlementScalarFieldEnum | Prisma.GroupSettlementScalarFieldEnum[];
+};
+
+/**
+ * GroupSettlement create
+ */
+export type GroupSettlementCreateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the GroupSettlement
+   */
+  select?: Prisma.GroupSettlementSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the GroupSettlement
+   */
+  omit?: Prisma.GroupSettlementOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GroupSettlementInclude<ExtArgs> | null;
+  /**
+   * The data needed to create a GroupSettlement.
+   */
+  data: Prisma.XOR<Prisma.GroupSettlementCreateInput, Prisma.GroupSettlementUncheckedCreateInput>;
+};
+
+/**
+ * GroupSettlement createMany
+ */
+export type GroupSettlementCreateManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * The data used to create many GroupSettlements.
+   */
+  data: Prisma.GroupSettlementCreateManyInput | Prisma.GroupSettlementCreateManyInput[];
+  skipDuplicates?: boolean;
+};
+
+/**
+ * GroupSettlement createManyAndReturn
+ */
+export type GroupSettlementCreateManyAndReturnArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the GroupSettlement
+   */
+  select?: Prisma.GroupSettlementSelectCreateManyAndReturn<ExtArgs> | null;
+  /**
+   * Omit specific fields from the GroupSettlement
+   */
+  omit?: Prisma.GroupSettlementOmit<ExtArgs> | null;
+  /**
+   * The data used to create many GroupSettlements.
+   */
+  data: Prisma.GroupSettlementCreateManyInput | Prisma.GroupSettlementCreateManyInput[];
+  skipDuplicates?: boolean;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GroupSettlementIncludeCreateManyAndReturn<ExtArgs> | null;
+};
+
+/**
+ * GroupSettlement update
+ */
+export type GroupSettlementUpdateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the GroupSettlement
+   */
+  select?: Prisma.GroupSettlementSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the GroupSettlement
+   */
+  omit?: Prisma.GroupSettlementOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GroupSettlementInclude<ExtArgs> | null;
+  /**
+   * The data needed to update a GroupSettlement.
+   */
+  data: Prisma.XOR<Prisma.GroupSettlementUpdateInput, Prisma.GroupSettlementUncheckedUpdateInput>;
+  /**
+   * Choose, which GroupSettlement to update.
+   */
+  where: Prisma.GroupSettlementWhereUniqueInput;
+};
+
+/**
+ * GroupSettlement updateMany
+ */
+export type GroupSettlementUpdateManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * The data used to update GroupSettlements.
+   */
+  data: Prisma.XOR<
+    Prisma.GroupSettlementUpdateManyMutationInput,
+    Prisma.GroupSettlementUncheckedUpdateManyInput
+  >;
+  /**
+   * Filter which GroupSettlements to update
+   */
+  where?: Prisma.GroupSettlementWhereInput;
+  /**
+   * Limit how many GroupSettlements to update.
+   */
+  limit?: number;
+};
+
+/**
+ * GroupSettlement updateManyAndReturn
+ */
+export type GroupSettlementUpdateManyAndReturnArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the GroupSettlement
+   */
+  select?: Prisma.GroupSettlementSelectUpdateManyAndReturn<ExtArgs> | null;
+  /**
+   * Omit specific fields from the GroupSettlement
+   */
+  omit?: Prisma.GroupSettlementOmit<ExtArgs> | null;
+  /**
+   * The data used to update GroupSettlements.
+   */
+  data: Prisma.XOR<
+    Prisma.GroupSettlementUpdateManyMutationInput,
+    Prisma.GroupSettlementUncheckedUpdateManyInput
+  >;
+  /**
+   * Filter which GroupSettlements to update
+   */
+  where?: Prisma.GroupSettlementWhereInput;
+  /**
+   * Limit how many GroupSettlements to update.
+   */
+  limit?: number;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GroupSettlementIncludeUpdateManyAndReturn<ExtArgs> | null;
+};
+
+/**
+ * GroupSettlement upsert
+ */
+export type GroupSettlementUpsertArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the GroupSettlement
+   */
+  select?: Prisma.GroupSettlementSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the GroupSettlement
+   */
+  omit?: Prisma.GroupSettlementOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GroupSettlementInclude<ExtArgs> | null;
+  /**
+   * The filter to search for the GroupSettlement to update in case it exists.
+   */
+  where: Prisma.GroupSettlementWhereUniqueInput;
+  /**
+   * In case the GroupSettlement found by the `where` argument doesn't exist, create a new GroupSettlement with this data.
+   */
+  create: Prisma.XOR<Prisma.GroupSettlementCreateInput, Prisma.GroupSettlementUncheckedCreateInput>;
+  /**
+   * In case the GroupSettlement was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.GroupSettlementUpdateInput, Prisma.GroupSettlementUncheckedUpdateInput>;
+};
+
+/**
+ * GroupSettlement delete
+ */
+export type GroupSettlementDeleteArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the GroupSettlement
+   */
+  select?: Prisma.GroupSettlementSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the GroupSettlement
+   */
+  omit?: Prisma.GroupSettlementOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GroupSettlementInclude<ExtArgs> | null;
+  /**
+   * Filter which GroupSettlement to delete.
+   */
+  where: Prisma.GroupSettlementWhereUniqueInput;
+};
+
+/**
+ * GroupSettlement deleteMany
+ */
+export type GroupSettlementDeleteManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Filter which GroupSettlements to delete
+   */
+  where?: Prisma.GroupSettlementWhereInput;
+  /**
+   * Limit how many GroupSettlements to delete.
+   */
+  limit?: number;
+};
+
+/**
+ * GroupSettlement without action
+ */
+export type GroupSettlementDefaultArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the GroupSettlement
+   */
+  select?: Prisma.GroupSettlementSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the GroupSettlement
+   */
+  omit?: Prisma.GroupSettlementOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GroupSettlementInclude<ExtArgs> | null;
+};
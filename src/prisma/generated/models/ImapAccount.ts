@@ -0,0 +1,2059 @@
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck
+/*
+ * This file exports the `ImapAccount` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client";
+import type * as $Enums from "../enums";
+import type * as Prisma from "../internal/prismaNamespace";
+
+/**
+ * Model ImapAccount
+ *
+ */
+export type ImapAccountModel = runtime.Types.Result.DefaultSelection<Prisma.$ImapAccountPayload>;
+
+export type AggregateImapAccount = {
+  _count: ImapAccountCountAggregateOutputType | null;
+  _avg: ImapAccountAvgAggregateOutputType | null;
+  _sum: ImapAccountSumAggregateOutputType | null;
+  _min: ImapAccountMinAggregateOutputType | null;
+  _max: ImapAccountMaxAggregateOutputType | null;
+};
+
+export type ImapAccountAvgAggregateOutputType = {
+  imapPort: number | null;
+  smtpPort: number | null;
+  lastUid: number | null;
+};
+
+export type ImapAccountSumAggregateOutputType = {
+  imapPort: number | null;
+  smtpPort: number | null;
+  lastUid: number | null;
+};
+
+export type ImapAccountMinAggregateOutputType = {
+  id: string | null;
+  userId: string | null;
+  label: string | null;
+  email: string | null;
+  username: string | null;
+  password: string | null;
+  imapHost: string | null;
+  imapPort: number | null;
+  smtpHost: string | null;
+  smtpPort: number | null;
+  uidValidity: string | null;
+  lastUid: number | null;
+  lastSyncAt: Date | null;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+};
+
+export type ImapAccountMaxAggregateOutputType = {
+  id: string | null;
+  userId: string | null;
+  label: string | null;
+  email: string | null;
+  username: string | null;
+  password: string | null;
+  imapHost: string | null;
+  imapPort: number | null;
+  smtpHost: string | null;
+  smtpPort: number | null;
+  uidValidity: string | null;
+  lastUid: number | null;
+  lastSyncAt: Date | null;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+};
+
+export type ImapAccountCountAggregateOutputType = {
+  id: number;
+  userId: number;
+  label: number;
+  email: number;
+  username: number;
+  password: number;
+  imapHost: number;
+  imapPort: number;
+  smtpHost: number;
+  smtpPort: number;
+  uidValidity: number;
+  lastUid: number;
+  lastSyncAt: number;
+  createdAt: number;
+  updatedAt: number;
+  _all: number;
+};
+
+export type ImapAccountAvgAggregateInputType = {
+  imapPort?: true;
+  smtpPort?: true;
+  lastUid?: true;
+};
+
+export type ImapAccountSumAggregateInputType = {
+  imapPort?: true;
+  smtpPort?: true;
+  lastUid?: true;
+};
+
+export type ImapAccountMinAggregateInputType = {
+  id?: true;
+  userId?: true;
+  label?: true;
+  email?: true;
+  username?: true;
+  password?: true;
+  imapHost?: true;
+  imapPort?: true;
+  smtpHost?: true;
+  smtpPort?: true;
+  uidValidity?: true;
+  lastUid?: true;
+  lastSyncAt?: true;
+  createdAt?: true;
+  updatedAt?: true;
+};
+
+export type ImapAccountMaxAggregateInputType = {
+  id?: true;
+  userId?: true;
+  label?: true;
+  email?: true;
+  username?: true;
+  password?: true;
+  imapHost?: true;
+  imapPort?: true;
+  smtpHost?: true;
+  smtpPort?: true;
+  uidValidity?: true;
+  lastUid?: true;
+  lastSyncAt?: true;
+  createdAt?: true;
+  updatedAt?: true;
+};
+
+export type ImapAccountCountAggregateInputType = {
+  id?: true;
+  userId?: true;
+  label?: true;
+  email?: true;
+  username?: true;
+  password?: true;
+  imapHost?: true;
+  imapPort?: true;
+  smtpHost?: true;
+  smtpPort?: true;
+  uidValidity?: true;
+  lastUid?: true;
+  lastSyncAt?: true;
+  createdAt?: true;
+  updatedAt?: true;
+  _all?: true;
+};
+
+export type ImapAccountAggregateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Filter which ImapAccount to aggregate.
+   */
+  where?: Prisma.ImapAccountWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of ImapAccounts to fetch.
+   */
+  orderBy?:
+    | Prisma.ImapAccountOrderByWithRelationInput
+    | Prisma.ImapAccountOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the start position
+   */
+  cursor?: Prisma.ImapAccountWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` ImapAccounts from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` ImapAccounts.
+   */
+  skip?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Count returned ImapAccounts
+   **/
+  _count?: true | ImapAccountCountAggregateInputType;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to average
+   **/
+  _avg?: ImapAccountAvgAggregateInputType;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to sum
+   **/
+  _sum?: ImapAccountSumAggregateInputType;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to find the minimum value
+   **/
+  _min?: ImapAccountMinAggregateInputType;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to find the maximum value
+   **/
+  _max?: ImapAccountMaxAggregateInputType;
+};
+
+export type GetImapAccountAggregateType<T extends ImapAccountAggregateArgs> = {
+  [P in keyof T & keyof AggregateImapAccount]: P extends "_count" | "count"
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateImapAccount[P]>
+    : Prisma.GetScalarType<T[P], AggregateImapAccount[P]>;
+};
+
+export type ImapAccountGroupByArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  where?: Prisma.ImapAccountWhereInput;
+  orderBy?:
+    | Prisma.ImapAccountOrderByWithAggregationInput
+    | Prisma.ImapAccountOrderByWithAggregationInput[];
+  by: Prisma.ImapAccountScalarFieldEnum[] | Prisma.ImapAccountScalarFieldEnum;
+  having?: Prisma.ImapAccountScalarWhereWithAggregatesInput;
+  take?: number;
+  skip?: number;
+  _count?: ImapAccountCountAggregateInputType | true;
+  _avg?: ImapAccountAvgAggregateInputType;
+  _sum?: ImapAccountSumAggregateInputType;
+  _min?: ImapAccountMinAggregateInputType;
+  _max?: ImapAccountMaxAggregateInputType;
+};
+
+export type ImapAccountGroupByOutputType = {
+  id: string;
+  userId: string;
+  label: string;
+  email: string;
+  username: string;
+  password: string;
+  imapHost: string;
+  imapPort: number;
+  smtpHost: string;
+  smtpPort: number;
+  uidValidity: string | null;
+  lastUid: number | null;
+  lastSyncAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+  _count: ImapAccountCountAggregateOutputType | null;
+  _avg: ImapAccountAvgAggregateOutputType | null;
+  _sum: ImapAccountSumAggregateOutputType | null;
+  _min: ImapAccountMinAggregateOutputType | null;
+  _max: ImapAccountMaxAggregateOutputType | null;
+};
+
+type GetImapAccountGroupByPayload<T extends ImapAccountGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ImapAccountGroupByOutputType, T["by"]> & {
+      [P in keyof T & keyof ImapAccountGroupByOutputType]: P extends "_count"
+        ? T[P] extends boolean
+          ? number
+          : Prisma.GetScalarType<T[P], ImapAccountGroupByOutputType[P]>
+        : Prisma.GetScalarType<T[P], ImapAccountGroupByOutputType[P]>;
+    }
+  >
+>;
+
+export type ImapAccountWhereInput = {
+  AND?: Prisma.ImapAccountWhereInput | Prisma.ImapAccountWhereInput[];
+  OR?: Prisma.ImapAccountWhereInput[];
+  NOT?: Prisma.ImapAccountWhereInput | Prisma.ImapAccountWhereInput[];
+  id?: Prisma.StringFilter<"ImapAccount"> | string;
+  userId?: Prisma.StringFilter<"ImapAccount"> | string;
+  label?: Prisma.StringFilter<"ImapAccount"> | string;
+  email?: Prisma.StringFilter<"ImapAccount"> | string;
+  username?: Prisma.StringFilter<"ImapAccount"> | string;
+  password?: Prisma.StringFilter<"ImapAccount"> | string;
+  imapHost?: Prisma.StringFilter<"ImapAccount"> | string;
+  imapPort?: Prisma.IntFilter<"ImapAccount"> | number;
+  smtpHost?: Prisma.StringFilter<"ImapAccount"> | string;
+  smtpPort?: Prisma.IntFilter<"ImapAccount"> | number;
+  uidValidity?: Prisma.StringNullableFilter<"ImapAccount"> | string | null;
+  lastUid?: Prisma.IntNullableFilter<"ImapAccount"> | number | null;
+  lastSyncAt?: Prisma.DateTimeNullableFilter<"ImapAccount"> | Date | string | null;
+  createdAt?: Prisma.DateTimeFilter<"ImapAccount"> | Date | string;
+  updatedAt?: Prisma.DateTimeFilter<"ImapAccount"> | Date | string;
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>;
+};
+
+export type ImapAccountOrderByWithRelationInput = {
+  id?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  label?: Prisma.SortOrder;
+  email?: Prisma.SortOrder;
+  username?: Prisma.SortOrder;
+  password?: Prisma.SortOrder;
+  imapHost?: Prisma.SortOrder;
+  imapPort?: Prisma.SortOrder;
+  smtpHost?: Prisma.SortOrder;
+  smtpPort?: Prisma.SortOrder;
+  uidValidity?: Prisma.SortOrderInput | Prisma.SortOrder;
+  lastUid?: Prisma.SortOrderInput | Prisma.SortOrder;
+  lastSyncAt?: Prisma.SortOrderInput | Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  updatedAt?: Prisma.SortOrder;
+  user?: Prisma.UserOrderByWithRelationInput;
+};
+
+export type ImapAccountWhereUniqueInput = Prisma.AtLeast<
+  {
+    id?: string;
+    userId_label?: Prisma.ImapAccountUserIdLabelCompoundUniqueInput;
+    AND?: Prisma.ImapAccountWhereInput | Prisma.ImapAccountWhereInput[];
+    OR?: Prisma.ImapAccountWhereInput[];
+    NOT?: Prisma.ImapAccountWhereInput | Prisma.ImapAccountWhereInput[];
+    userId?: Prisma.StringFilter<"ImapAccount"> | string;
+    label?: Prisma.StringFilter<"ImapAccount"> | string;
+    email?: Prisma.StringFilter<"ImapAccount"> | string;
+    username?: Prisma.StringFilter<"ImapAccount"> | string;
+    password?: Prisma.StringFilter<"ImapAccount"> | string;
+    imapHost?: Prisma.StringFilter<"ImapAccount"> | string;
+    imapPort?: Prisma.IntFilter<"ImapAccount"> | number;
+    smtpHost?: Prisma.StringFilter<"ImapAccount"> | string;
+    smtpPort?: Prisma.IntFilter<"ImapAccount"> | number;
+    uidValidity?: Prisma.StringNullableFilter<"ImapAccount"> | string | null;
+    lastUid?: Prisma.IntNullableFilter<"ImapAccount"> | number | null;
+    lastSyncAt?: Prisma.DateTimeNullableFilter<"ImapAccount"> | Date | string | null;
+    createdAt?: Prisma.DateTimeFilter<"ImapAccount"> | Date | string;
+    updatedAt?: Prisma.DateTimeFilter<"ImapAccount"> | Date | string;
+    user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>;
+  },
+  "id" | "userId_label"
+>;
+
+export type ImapAccountOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  label?: Prisma.SortOrder;
+  email?: Prisma.SortOrder;
+  username?: Prisma.SortOrder;
+  password?: Prisma.SortOrder;
+  imapHost?: Prisma.SortOrder;
+  imapPort?: Prisma.SortOrder;
+  smtpHost?: Prisma.SortOrder;
+  smtpPort?: Prisma.SortOrder;
+  uidValidity?: Prisma.SortOrderInput | Prisma.SortOrder;
+  lastUid?: Prisma.SortOrderInput | Prisma.SortOrder;
+  lastSyncAt?: Prisma.SortOrderInput | Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  updatedAt?: Prisma.SortOrder;
+  _count?: Prisma.ImapAccountCountOrderByAggregateInput;
+  _avg?: Prisma.ImapAccountAvgOrderByAggregateInput;
+  _max?: Prisma.ImapAccountMaxOrderByAggregateInput;
+  _min?: Prisma.ImapAccountMinOrderByAggregateInput;
+  _sum?: Prisma.ImapAccountSumOrderByAggregateInput;
+};
+
+export type ImapAccountScalarWhereWithAggregatesInput = {
+  AND?:
+    | Prisma.ImapAccountScalarWhereWithAggregatesInput
+    | Prisma.ImapAccountScalarWhereWithAggregatesInput[];
+  OR?: Prisma.ImapAccountScalarWhereWithAggregatesInput[];
+  NOT?:
+    | Prisma.ImapAccountScalarWhereWithAggregatesInput
+    | Prisma.ImapAccountScalarWhereWithAggregatesInput[];
+  id?: Prisma.StringWithAggregatesFilter<"ImapAccount"> | string;
+  userId?: Prisma.StringWithAggregatesFilter<"ImapAccount"> | string;
+  label?: Prisma.StringWithAggregatesFilter<"ImapAccount"> | string;
+  email?: Prisma.StringWithAggregatesFilter<"ImapAccount"> | string;
+  username?: Prisma.StringWithAggregatesFilter<"ImapAccount"> | string;
+  password?: Prisma.StringWithAggregatesFilter<"ImapAccount"> | string;
+  imapHost?: Prisma.StringWithAggregatesFilter<"ImapAccount"> | string;
+  imapPort?: Prisma.IntWithAggregatesFilter<"ImapAccount"> | number;
+  smtpHost?: Prisma.StringWithAggregatesFilter<"ImapAccount"> | string;
+  smtpPort?: Prisma.IntWithAggregatesFilter<"ImapAccount"> | number;
+  uidValidity?: Prisma.StringNullableWithAggregatesFilter<"ImapAccount"> | string | null;
+  lastUid?: Prisma.IntNullableWithAggregatesFilter<"ImapAccount"> | number | null;
+  lastSyncAt?: Prisma.DateTimeNullableWithAggregatesFilter<"ImapAccount"> | Date | string | null;
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ImapAccount"> | Date | string;
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"ImapAccount"> | Date | string;
+};
+
+export type ImapAccountCreateInput = {
+  id?: string;
+  label?: string;
+  email: string;
+  username: string;
+  password: string;
+  imapHost: string;
+  imapPort?: number;
+  smtpHost: string;
+  smtpPort?: number;
+  uidValidity?: string | null;
+  lastUid?: number | null;
+  lastSyncAt?: Date | string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  user: Prisma.UserCreateNestedOneWithoutImapAccountsInput;
+};
+
+export type ImapAccountUncheckedCreateInput = {
+  id?: string;
+  userId: string;
+  label?: string;
+  email: string;
+  username: string;
+  password: string;
+  imapHost: string;
+  imapPort?: number;
+  smtpHost: string;
+  smtpPort?: number;
+  uidValidity?: string | null;
+  lastUid?: number | null;
+  lastSyncAt?: Date | string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+};
+
+export type ImapAccountUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  label?: Prisma.StringFieldUpdateOperationsInput | string;
+  email?: Prisma.StringFieldUpdateOperationsInput | string;
+  username?: Prisma.StringFieldUpdateOperationsInput | string;
+  password?: Prisma.StringFieldUpdateOperationsInput | string;
+  imapHost?: Prisma.StringFieldUpdateOperationsInput | string;
+  imapPort?: Prisma.IntFieldUpdateOperationsInput | number;
+  smtpHost?: Prisma.StringFieldUpdateOperationsInput | string;
+  smtpPort?: Prisma.IntFieldUpdateOperationsInput | number;
+  uidValidity?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  lastUid?: Prisma.NullableIntFieldUpdateOperationsInput | number | null;
+  lastSyncAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  user?: Prisma.UserUpdateOneRequiredWithoutImapAccountsNestedInput;
+};
+
+export type ImapAccountUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  userId?: Prisma.StringFieldUpdateOperationsInput | string;
+  label?: Prisma.StringFieldUpdateOperationsInput | string;
+  email?: Prisma.StringFieldUpdateOperationsInput | string;
+  username?: Prisma.StringFieldUpdateOperationsInput | string;
+  password?: Prisma.StringFieldUpdateOperationsInput | string;
+  imapHost?: Prisma.StringFieldUpdateOperationsInput | string;
+  imapPort?: Prisma.IntFieldUpdateOperationsInput | number;
+  smtpHost?: Prisma.StringFieldUpdateOperationsInput | string;
+  smtpPort?: Prisma.IntFieldUpdateOperationsInput | number;
+  uidValidity?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  lastUid?: Prisma.NullableIntFieldUpdateOperationsInput | number | null;
+  lastSyncAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type ImapAccountCreateManyInput = {
+  id?: string;
+  userId: string;
+  label?: string;
+  email: string;
+  username: string;
+  password: string;
+  imapHost: string;
+  imapPort?: number;
+  smtpHost: string;
+  smtpPort?: number;
+  uidValidity?: string | null;
+  lastUid?: number | null;
+  lastSyncAt?: Date | string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+};
+
+export type ImapAccountUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  label?: Prisma.StringFieldUpdateOperationsInput | string;
+  email?: Prisma.StringFieldUpdateOperationsInput | string;
+  username?: Prisma.StringFieldUpdateOperationsInput | string;
+  password?: Prisma.StringFieldUpdateOperationsInput | string;
+  imapHost?: Prisma.StringFieldUpdateOperationsInput | string;
+  imapPort?: Prisma.IntFieldUpdateOperationsInput | number;
+  smtpHost?: Prisma.StringFieldUpdateOperationsInput | string;
+  smtpPort?: Prisma.IntFieldUpdateOperationsInput | number;
+  uidValidity?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  lastUid?: Prisma.NullableIntFieldUpdateOperationsInput | number | null;
+  lastSyncAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type ImapAccountUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  userId?: Prisma.StringFieldUpdateOperationsInput | string;
+  label?: Prisma.StringFieldUpdateOperationsInput | string;
+  email?: Prisma.StringFieldUpdateOperationsInput | string;
+  username?: Prisma.StringFieldUpdateOperationsInput | string;
+  password?: Prisma.StringFieldUpdateOperationsInput | string;
+  imapHost?: Prisma.StringFieldUpdateOperationsInput | string;
+  imapPort?: Prisma.IntFieldUpdateOperationsInput | number;
+  smtpHost?: Prisma.StringFieldUpdateOperationsInput | string;
+  smtpPort?: Prisma.IntFieldUpdateOperationsInput | number;
+  uidValidity?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  lastUid?: Prisma.NullableIntFieldUpdateOperationsInput | number | null;
+  lastSyncAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type ImapAccountListRelationFilter = {
+  every?: Prisma.ImapAccountWhereInput;
+  some?: Prisma.ImapAccountWhereInput;
+  none?: Prisma.ImapAccountWhereInput;
+};
+
+export type ImapAccountOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder;
+};
+
+export type ImapAccountUserIdLabelCompoundUniqueInput = {
+  userId: string;
+  label: string;
+};
+
+export type ImapAccountCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  label?: Prisma.SortOrder;
+  email?: Prisma.SortOrder;
+  username?: Prisma.SortOrder;
+  password?: Prisma.SortOrder;
+  imapHost?: Prisma.SortOrder;
+  imapPort?: Prisma.SortOrder;
+  smtpHost?: Prisma.SortOrder;
+  smtpPort?: Prisma.SortOrder;
+  uidValidity?: Prisma.SortOrder;
+  lastUid?: Prisma.SortOrder;
+  lastSyncAt?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  updatedAt?: Prisma.SortOrder;
+};
+
+export type ImapAccountAvgOrderByAggregateInput = {
+  imapPort?: Prisma.SortOrder;
+  smtpPort?: Prisma.SortOrder;
+  lastUid?: Prisma.SortOrder;
+};
+
+export type ImapAccountMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  label?: Prisma.SortOrder;
+  email?: Prisma.SortOrder;
+  username?: Prisma.SortOrder;
+  password?: Prisma.SortOrder;
+  imapHost?: Prisma.SortOrder;
+  imapPort?: Prisma.SortOrder;
+  smtpHost?: Prisma.SortOrder;
+  smtpPort?: Prisma.SortOrder;
+  uidValidity?: Prisma.SortOrder;
+  lastUid?: Prisma.SortOrder;
+  lastSyncAt?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  updatedAt?: Prisma.SortOrder;
+};
+
+export type ImapAccountMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  label?: Prisma.SortOrder;
+  email?: Prisma.SortOrder;
+  username?: Prisma.SortOrder;
+  password?: Prisma.SortOrder;
+  imapHost?: Prisma.SortOrder;
+  imapPort?: Prisma.SortOrder;
+  smtpHost?: Prisma.SortOrder;
+  smtpPort?: Prisma.SortOrder;
+  uidValidity?: Prisma.SortOrder;
+  lastUid?: Prisma.SortOrder;
+  lastSyncAt?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  updatedAt?: Prisma.SortOrder;
+};
+
+export type ImapAccountSumOrderByAggregateInput = {
+  imapPort?: Prisma.SortOrder;
+  smtpPort?: Prisma.SortOrder;
+  lastUid?: Prisma.SortOrder;
+};
+
+export type ImapAccountCreateNestedManyWithoutUserInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.ImapAccountCreateWithoutUserInput,
+        Prisma.ImapAccountUncheckedCreateWithoutUserInput
+      >
+    | Prisma.ImapAccountCreateWithoutUserInput[]
+    | Prisma.ImapAccountUncheckedCreateWithoutUserInput[];
+  connectOrCreate?:
+    | Prisma.ImapAccountCreateOrConnectWithoutUserInput
+    | Prisma.ImapAccountCreateOrConnectWithoutUserInput[];
+  createMany?: Prisma.ImapAccountCreateManyUserInputEnvelope;
+  connect?: Prisma.ImapAccountWhereUniqueInput | Prisma.ImapAccountWhereUniqueInput[];
+};
+
+export type ImapAccountUncheckedCreateNestedManyWithoutUserInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.ImapAccountCreateWithoutUserInput,
+        Prisma.ImapAccountUncheckedCreateWithoutUserInput
+      >
+    | Prisma.ImapAccountCreateWithoutUserInput[]
+    | Prisma.ImapAccountUncheckedCreateWithoutUserInput[];
+  connectOrCreate?:
+    | Prisma.ImapAccountCreateOrConnectWithoutUserInput
+    | Prisma.ImapAccountCreateOrConnectWithoutUserInput[];
+  createMany?: Prisma.ImapAccountCreateManyUserInputEnvelope;
+  connect?: Prisma.ImapAccountWhereUniqueInput | Prisma.ImapAccountWhereUniqueInput[];
+};
+
+export type ImapAccountUpdateManyWithoutUserNestedInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.ImapAccountCreateWithoutUserInput,
+        Prisma.ImapAccountUncheckedCreateWithoutUserInput
+      >
+    | Prisma.ImapAccountCreateWithoutUserInput[]
+    | Prisma.ImapAccountUncheckedCreateWithoutUserInput[];
+  connectOrCreate?:
+    | Prisma.ImapAccountCreateOrConnectWithoutUserInput
+    | Prisma.ImapAccountCreateOrConnectWithoutUserInput[];
+  upsert?:
+    | Prisma.ImapAccountUpsertWithWhereUniqueWithoutUserInput
+    | Prisma.ImapAccountUpsertWithWhereUniqueWithoutUserInput[];
+  createMany?: Prisma.ImapAccountCreateManyUserInputEnvelope;
+  set?: Prisma.ImapAccountWhereUniqueInput | Prisma.ImapAccountWhereUniqueInput[];
+  disconnect?: Prisma.ImapAccountWhereUniqueInput | Prisma.ImapAccountWhereUniqueInput[];
+  delete?: Prisma.ImapAccountWhereUniqueInput | Prisma.ImapAccountWhereUniqueInput[];
+  connect?: Prisma.ImapAccountWhereUniqueInput | Prisma.ImapAccountWhereUniqueInput[];
+  update?:
+    | Prisma.ImapAccountUpdateWithWhereUniqueWithoutUserInput
+    | Prisma.ImapAccountUpdateWithWhereUniqueWithoutUserInput[];
+  updateMany?:
+    | Prisma.ImapAccountUpdateManyWithWhereWithoutUserInput
+    | Prisma.ImapAccountUpdateManyWithWhereWithoutUserInput[];
+  deleteMany?: Prisma.ImapAccountScalarWhereInput | Prisma.ImapAccountScalarWhereInput[];
+};
+
+export type ImapAccountUncheckedUpdateManyWithoutUserNestedInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.ImapAccountCreateWithoutUserInput,
+        Prisma.ImapAccountUncheckedCreateWithoutUserInput
+      >
+    | Prisma.ImapAccountCreateWithoutUserInput[]
+    | Prisma.ImapAccountUncheckedCreateWithoutUserInput[];
+  connectOrCreate?:
+    | Prisma.ImapAccountCreateOrConnectWithoutUserInput
+    | Prisma.ImapAccountCreateOrConnectWithoutUserInput[];
+  upsert?:
+    | Prisma.ImapAccountUpsertWithWhereUniqueWithoutUserInput
+    | Prisma.ImapAccountUpsertWithWhereUniqueWithoutUserInput[];
+  createMany?: Prisma.ImapAccountCreateManyUserInputEnvelope;
+  set?: Prisma.ImapAccountWhereUniqueInput | Prisma.ImapAccountWhereUniqueInput[];
+  disconnect?: Prisma.ImapAccountWhereUniqueInput | Prisma.ImapAccountWhereUniqueInput[];
+  delete?: Prisma.ImapAccountWhereUniqueInput | Prisma.ImapAccountWhereUniqueInput[];
+  connect?: Prisma.ImapAccountWhereUniqueInput | Prisma.ImapAccountWhereUniqueInput[];
+  update?:
+    | Prisma.ImapAccountUpdateWithWhereUniqueWithoutUserInput
+    | Prisma.ImapAccountUpdateWithWhereUniqueWithoutUserInput[];
+  updateMany?:
+    | Prisma.ImapAccountUpdateManyWithWhereWithoutUserInput
+    | Prisma.ImapAccountUpdateManyWithWhereWithoutUserInput[];
+  deleteMany?: Prisma.ImapAccountScalarWhereInput | Prisma.ImapAccountScalarWhereInput[];
+};
+
+export type ImapAccountCreateWithoutUserInput = {
+  id?: string;
+  label?: string;
+  email: string;
+  username: string;
+  password: string;
+  imapHost: string;
+  imapPort?: number;
+  smtpHost: string;
+  smtpPort?: number;
+  uidValidity?: string | null;
+  lastUid?: number | null;
+  lastSyncAt?: Date | string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+};
+
+export type ImapAccountUncheckedCreateWithoutUserInput = {
+  id?: string;
+  label?: string;
+  email: string;
+  username: string;
+  password: string;
+  imapHost: string;
+  imapPort?: number;
+  smtpHost: string;
+  smtpPort?: number;
+  uidValidity?: string | null;
+  lastUid?: number | null;
+  lastSyncAt?: Date | string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+};
+
+export type ImapAccountCreateOrConnectWithoutUserInput = {
+  where: Prisma.ImapAccountWhereUniqueInput;
+  create: Prisma.XOR<
+    Prisma.ImapAccountCreateWithoutUserInput,
+    Prisma.ImapAccountUncheckedCreateWithoutUserInput
+  >;
+};
+
+export type ImapAccountCreateManyUserInputEnvelope = {
+  data: Prisma.ImapAccountCreateManyUserInput | Prisma.ImapAccountCreateManyUserInput[];
+  skipDuplicates?: boolean;
+};
+
+export type ImapAccountUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.ImapAccountWhereUniqueInput;
+  update: Prisma.XOR<
+    Prisma.ImapAccountUpdateWithoutUserInput,
+    Prisma.ImapAccountUncheckedUpdateWithoutUserInput
+  >;
+  create: Prisma.XOR<
+    Prisma.ImapAccountCreateWithoutUserInput,
+    Prisma.ImapAccountUncheckedCreateWithoutUserInput
+  >;
+};
+
+export type ImapAccountUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.ImapAccountWhereUniqueInput;
+  data: Prisma.XOR<
+    Prisma.ImapAccountUpdateWithoutUserInput,
+    Prisma.ImapAccountUncheckedUpdateWithoutUserInput
+  >;
+};
+
+export type ImapAccountUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.ImapAccountScalarWhereInput;
+  data: Prisma.XOR<
+    Prisma.ImapAccountUpdateManyMutationInput,
+    Prisma.ImapAccountUncheckedUpdateManyWithoutUserInput
+  >;
+};
+
+export type ImapAccountScalarWhereInput = {
+  AND?: Prisma.ImapAccountScalarWhereInput | Prisma.ImapAccountScalarWhereInput[];
+  OR?: Prisma.ImapAccountScalarWhereInput[];
+  NOT?: Prisma.ImapAccountScalarWhereInput | Prisma.ImapAccountScalarWhereInput[];
+  id?: Prisma.StringFilter<"ImapAccount"> | string;
+  userId?: Prisma.StringFilter<"ImapAccount"> | string;
+  label?: Prisma.StringFilter<"ImapAccount"> | string;
+  email?: Prisma.StringFilter<"ImapAccount"> | string;
+  username?: Prisma.StringFilter<"ImapAccount"> | string;
+  password?: Prisma.StringFilter<"ImapAccount"> | string;
+  imapHost?: Prisma.StringFilter<"ImapAccount"> | string;
+  imapPort?: Prisma.IntFilter<"ImapAccount"> | number;
+  smtpHost?: Prisma.StringFilter<"ImapAccount"> | string;
+  smtpPort?: Prisma.IntFilter<"ImapAccount"> | number;
+  uidValidity?: Prisma.StringNullableFilter<"ImapAccount"> | string | null;
+  lastUid?: Prisma.IntNullableFilter<"ImapAccount"> | number | null;
+  lastSyncAt?: Prisma.DateTimeNullableFilter<"ImapAccount"> | Date | string | null;
+  createdAt?: Prisma.DateTimeFilter<"ImapAccount"> | Date | string;
+  updatedAt?: Prisma.DateTimeFilter<"ImapAccount"> | Date | string;
+};
+
+export type ImapAccountCreateManyUserInput = {
+  id?: string;
+  label?: string;
+  email: string;
+  username: string;
+  password: string;
+  imapHost: string;
+  imapPort?: number;
+  smtpHost: string;
+  smtpPort?: number;
+  uidValidity?: string | null;
+  lastUid?: number | null;
+  lastSyncAt?: Date | string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+};
+
+export type ImapAccountUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  label?: Prisma.StringFieldUpdateOperationsInput | string;
+  email?: Prisma.StringFieldUpdateOperationsInput | string;
+  username?: Prisma.StringFieldUpdateOperationsInput | string;
+  password?: Prisma.StringFieldUpdateOperationsInput | string;
+  imapHost?: Prisma.StringFieldUpdateOperationsInput | string;
+  imapPort?: Prisma.IntFieldUpdateOperationsInput | number;
+  smtpHost?: Prisma.StringFieldUpdateOperationsInput | string;
+  smtpPort?: Prisma.IntFieldUpdateOperationsInput | number;
+  uidValidity?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  lastUid?: Prisma.NullableIntFieldUpdateOperationsInput | number | null;
+  lastSyncAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type ImapAccountUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  label?: Prisma.StringFieldUpdateOperationsInput | string;
+  email?: Prisma.StringFieldUpdateOperationsInput | string;
+  username?: Prisma.StringFieldUpdateOperationsInput | string;
+  password?: Prisma.StringFieldUpdateOperationsInput | string;
+  imapHost?: Prisma.StringFieldUpdateOperationsInput | string;
+  imapPort?: Prisma.IntFieldUpdateOperationsInput | number;
+  smtpHost?: Prisma.StringFieldUpdateOperationsInput | string;
+  smtpPort?: Prisma.IntFieldUpdateOperationsInput | number;
+  uidValidity?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  lastUid?: Prisma.NullableIntFieldUpdateOperationsInput | number | null;
+  lastSyncAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type ImapAccountUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  label?: Prisma.StringFieldUpdateOperationsInput | string;
+  email?: Prisma.StringFieldUpdateOperationsInput | string;
+  username?: Prisma.StringFieldUpdateOperationsInput | string;
+  password?: Prisma.StringFieldUpdateOperationsInput | string;
+  imapHost?: Prisma.StringFieldUpdateOperationsInput | string;
+  imapPort?: Prisma.IntFieldUpdateOperationsInput | number;
+  smtpHost?: Prisma.StringFieldUpdateOperationsInput | string;
+  smtpPort?: Prisma.IntFieldUpdateOperationsInput | number;
+  uidValidity?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  lastUid?: Prisma.NullableIntFieldUpdateOperationsInput | number | null;
+  lastSyncAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type ImapAccountSelect<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean;
+    userId?: boolean;
+    label?: boolean;
+    email?: boolean;
+    username?: boolean;
+    password?: boolean;
+    imapHost?: boolean;
+    imapPort?: boolean;
+    smtpHost?: boolean;
+    smtpPort?: boolean;
+    uidValidity?: boolean;
+    lastUid?: boolean;
+    lastSyncAt?: boolean;
+    createdAt?: boolean;
+    updatedAt?: boolean;
+    user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+  },
+  ExtArgs["result"]["imapAccount"]
+>;
+
+export type ImapAccountSelectCreateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean;
+    userId?: boolean;
+    label?: boolean;
+    email?: boolean;
+    username?: boolean;
+    password?: boolean;
+    imapHost?: boolean;
+    imapPort?: boolean;
+    smtpHost?: boolean;
+    smtpPort?: boolean;
+    uidValidity?: boolean;
+    lastUid?: boolean;
+    lastSyncAt?: boolean;
+    createdAt?: boolean;
+    updatedAt?: boolean;
+    user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+  },
+  ExtArgs["result"]["imapAccount"]
+>;
+
+export type ImapAccountSelectUpdateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean;
+    userId?: boolean;
+    label?: boolean;
+    email?: boolean;
+    username?: boolean;
+    password?: boolean;
+    imapHost?: boolean;
+    imapPort?: boolean;
+    smtpHost?: boolean;
+    smtpPort?: boolean;
+    uidValidity?: boolean;
+    lastUid?: boolean;
+    lastSyncAt?: boolean;
+    createdAt?: boolean;
+    updatedAt?: boolean;
+    user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+  },
+  ExtArgs["result"]["imapAccount"]
+>;
+
+export type ImapAccountSelectScalar = {
+  id?: boolean;
+  userId?: boolean;
+  label?: boolean;
+  email?: boolean;
+  username?: boolean;
+  password?: boolean;
+  imapHost?: boolean;
+  imapPort?: boolean;
+  smtpHost?: boolean;
+  smtpPort?: boolean;
+  uidValidity?: boolean;
+  lastUid?: boolean;
+  lastSyncAt?: boolean;
+  createdAt?: boolean;
+  updatedAt?: boolean;
+};
+
+export type ImapAccountOmit<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetOmit<
+  | "id"
+  | "userId"
+  | "label"
+  | "email"
+  | "username"
+  | "password"
+  | "imapHost"
+  | "imapPort"
+  | "smtpHost"
+  | "smtpPort"
+  | "uidValidity"
+  | "lastUid"
+  | "lastSyncAt"
+  | "createdAt"
+  | "updatedAt",
+  ExtArgs["result"]["imapAccount"]
+>;
+export type ImapAccountInclude<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+};
+export type ImapAccountIncludeCreateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+};
+export type ImapAccountIncludeUpdateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+};
+
+export type $ImapAccountPayload<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  name: "ImapAccount";
+  objects: {
+    user: Prisma.$UserPayload<ExtArgs>;
+  };
+  scalars: runtime.Types.Extensions.GetPayloadResult<
+    {
+      id: string;
+      userId: string;
+      label: string;
+      email: string;
+      username: string;
+      password: string;
+      imapHost: string;
+      imapPort: number;
+      smtpHost: string;
+      smtpPort: number;
+      uidValidity: string | null;
+      lastUid: number | null;
+      lastSyncAt: Date | null;
+      createdAt: Date;
+      updatedAt: Date;
+    },
+    ExtArgs["result"]["imapAccount"]
+  >;
+  composites: {};
+};
+
+export type ImapAccountGetPayload<S extends boolean | null | undefined | ImapAccountDefaultArgs> =
+  runtime.Types.Result.GetResult<Prisma.$ImapAccountPayload, S>;
+
+export type ImapAccountCountArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = Omit<ImapAccountFindManyArgs, "select" | "include" | "distinct" | "omit"> & {
+  select?: ImapAccountCountAggregateInputType | true;
+};
+
+export interface ImapAccountDelegate<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+  GlobalOmitOptions = {}
+> {
+  [K: symbol]: {
+    types: Prisma.TypeMap<ExtArgs>["model"]["ImapAccount"];
+    meta: { name: "ImapAccount" };
+  };
+  /**
+   * Find zero or one ImapAccount that matches the filter.
+   * @param {ImapAccountFindUniqueArgs} args - Arguments to find a ImapAccount
+   * @example
+   * // Get one ImapAccount
+   * const imapAccount = await prisma.imapAccount.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ImapAccountFindUniqueArgs>(
+    args: Prisma.SelectSubset<T, ImapAccountFindUniqueArgs<ExtArgs>>
+  ): Prisma.Prisma__ImapAccountClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ImapAccountPayload<ExtArgs>,
+      T,
+      "findUnique",
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find one ImapAccount that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ImapAccountFindUniqueOrThrowArgs} args - Arguments to find a ImapAccount
+   * @example
+   * // Get one ImapAccount
+   * const imapAccount = await prisma.imapAccount.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ImapAccountFindUniqueOrThrowArgs>(
+    args: Prisma.SelectSubset<T, ImapAccountFindUniqueOrThrowArgs<ExtArgs>>
+  ): Prisma.Prisma__ImapAccountClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ImapAccountPayload<ExtArgs>,
+      T,
+      "findUniqueOrThrow",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find the first ImapAccount that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ImapAccountFindFirstArgs} args - Arguments to find a ImapAccount
+   * @example
+   * // Get one ImapAccount
+   * const imapAccount = await prisma.imapAccount.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ImapAccountFindFirstArgs>(
+    args?: Prisma.SelectSubset<T, ImapAccountFindFirstArgs<ExtArgs>>
+  ): Prisma.Prisma__ImapAccountClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ImapAccountPayload<ExtArgs>,
+      T,
+      "findFirst",
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find the first ImapAccount that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ImapAccountFindFirstOrThrowArgs} args - Arguments to find a ImapAccount
+   * @example
+   * // Get one ImapAccount
+   * const imapAccount = await prisma.imapAccount.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ImapAccountFindFirstOrThrowArgs>(
+    args?: Prisma.SelectSubset<T, ImapAccountFindFirstOrThrowArgs<ExtArgs>>
+  ): Prisma.Prisma__ImapAccountClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ImapAccountPayload<ExtArgs>,
+      T,
+      "findFirstOrThrow",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find zero or more ImapAccounts that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ImapAccountFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ImapAccounts
+   * const imapAccounts = await prisma.imapAccount.findMany()
+   *
+   * // Get first 10 ImapAccounts
+   * const imapAccounts = await prisma.imapAccount.findMany({ take: 10 })
+   *
+   * // Only select the `id`
+   * const imapAccountWithIdOnly = await prisma.imapAccount.findMany({ select: { id: true } })
+   *
+   */
+  findMany<T extends ImapAccountFindManyArgs>(
+    args?: Prisma.SelectSubset<T, ImapAccountFindManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$ImapAccountPayload<ExtArgs>,
+      T,
+      "findMany",
+      GlobalOmitOptions
+    >
+  >;
+
+  /**
+   * Create a ImapAccount.
+   * @param {ImapAccountCreateArgs} args - Arguments to create a ImapAccount.
+   * @example
+   * // Create one ImapAccount
+   * const ImapAccount = await prisma.imapAccount.create({
+   *   data: {
+   *     // ... data to create a ImapAccount
+   *   }
+   * })
+   *
+   */
+  create<T extends ImapAccountCreateArgs>(
+    args: Prisma.SelectSubset<T, ImapAccountCreateArgs<ExtArgs>>
+  ): Prisma.Prisma__ImapAccountClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ImapAccountPayload<ExtArgs>,
+      T,
+      "create",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Create many ImapAccounts.
+   * @param {ImapAccountCreateManyArgs} args - Arguments to create many ImapAccounts.
+   * @example
+   * // Create many ImapAccounts
+   * const imapAccount = await prisma.imapAccount.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   */
+  createMany<T extends ImapAccountCreateManyArgs>(
+    args?: Prisma.SelectSubset<T, ImapAccountCreateManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+  /**
+   * Create many ImapAccounts and returns the data saved in the database.
+   * @param {ImapAccountCreateManyAndReturnArgs} args - Arguments to create many ImapAccounts.
+   * @example
+   * // Create many ImapAccounts
+   * const imapAccount = await prisma.imapAccount.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   * // Create many ImapAccounts and only return the `id`
+   * const imapAccountWithIdOnly = await prisma.imapAccount.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   *
+   */
+  createManyAndReturn<T extends ImapAccountCreateManyAndReturnArgs>(
+    args?: Prisma.SelectSubset<T, ImapAccountCreateManyAndReturnArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$ImapAccountPayload<ExtArgs>,
+      T,
+      "createManyAndReturn",
+      GlobalOmitOptions
+    >
+  >;
+
+  /**
+   * Delete a ImapAccount.
+   * @param {ImapAccountDeleteArgs} args - Arguments to delete one ImapAccount.
+   * @example
+   * // Delete one ImapAccount
+   * const ImapAccount = await prisma.imapAccount.delete({
+   *   where: {
+   *     // ... filter to delete one ImapAccount
+   *   }
+   * })
+   *
+   */
+  delete<T extends ImapAccountDeleteArgs>(
+    args: Prisma.SelectSubset<T, ImapAccountDeleteArgs<ExtArgs>>
+  ): Prisma.Prisma__ImapAccountClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ImapAccountPayload<ExtArgs>,
+      T,
+      "delete",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Update one ImapAccount.
+   * @param {ImapAccountUpdateArgs} args - Arguments to update one ImapAccount.
+   * @example
+   * // Update one ImapAccount
+   * const imapAccount = await prisma.imapAccount.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   *
+   */
+  update<T extends ImapAccountUpdateArgs>(
+    args: Prisma.SelectSubset<T, ImapAccountUpdateArgs<ExtArgs>>
+  ): Prisma.Prisma__ImapAccountClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ImapAccountPayload<ExtArgs>,
+      T,
+      "update",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Delete zero or more ImapAccounts.
+   * @param {ImapAccountDeleteManyArgs} args - Arguments to filter ImapAccounts to delete.
+   * @example
+   * // Delete a few ImapAccounts
+   * const { count } = await prisma.imapAccount.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   *
+   */
+  deleteMany<T extends ImapAccountDeleteManyArgs>(
+    args?: Prisma.SelectSubset<T, ImapAccountDeleteManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+  /**
+   * Update zero or more ImapAccounts.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ImapAccountUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ImapAccounts
+   * const imapAccount = await prisma.imapAccount.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   *
+   */
+  updateMany<T extends ImapAccountUpdateManyArgs>(
+    args: Prisma.SelectSubset<T, ImapAccountUpdateManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+  /**
+   * Update zero or more ImapAccounts and returns the data updated in the database.
+   * @param {ImapAccountUpdateManyAndReturnArgs} args - Arguments to update many ImapAccounts.
+   * @example
+   * // Update many ImapAccounts
+   * const imapAccount = await prisma.imapAccount.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   * // Update zero or more ImapAccounts and only return the `id`
+   * const imapAccountWithIdOnly = await prisma.imapAccount.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   *
+   */
+  updateManyAndReturn<T extends ImapAccountUpdateManyAndReturnArgs>(
+    args: Prisma.SelectSubset<T, ImapAccountUpdateManyAndReturnArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$ImapAccountPayload<ExtArgs>,
+      T,
+      "updateManyAndReturn",
+      GlobalOmitOptions
+    >
+  >;
+
+  /**
+   * Create or update one ImapAccount.
+   * @param {ImapAccountUpsertArgs} args - Arguments to update or create a ImapAccount.
+   * @example
+   * // Update or create a ImapAccount
+   * const imapAccount = await prisma.imapAccount.upsert({
+   *   create: {
+   *     // ... data to create a ImapAccount
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ImapAccount we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ImapAccountUpsertArgs>(
+    args: Prisma.SelectSubset<T, ImapAccountUpsertArgs<ExtArgs>>
+  ): Prisma.Prisma__ImapAccountClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ImapAccountPayload<ExtArgs>,
+      T,
+      "upsert",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Count the number of ImapAccounts.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ImapAccountCountArgs} args - Arguments to filter ImapAccounts to count.
+   * @example
+   * // Count the number of ImapAccounts
+   * const count = await prisma.imapAccount.count({
+   *   where: {
+   *     // ... the filter for the ImapAccounts we want to count
+   *   }
+   * })
+   **/
+  count<T extends ImapAccountCountArgs>(
+    args?: Prisma.Subset<T, ImapAccountCountArgs>
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<"select", any>
+      ? T["select"] extends true
+        ? number
+        : Prisma.GetScalarType<T["select"], ImapAccountCountAggregateOutputType>
+      : number
+  >;
+
+  /**
+   * Allows you to perform aggregations operations on a ImapAccount.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ImapAccountAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+   **/
+  aggregate<T extends ImapAccountAggregateArgs>(
+    args: Prisma.Subset<T, ImapAccountAggregateArgs>
+  ): Prisma.PrismaPromise<GetImapAccountAggregateType<T>>;
+
+  /**
+   * Group by ImapAccount.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ImapAccountGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   *
+   **/
+  groupBy<
+    T extends ImapAccountGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<"skip", Prisma.Keys<T>>,
+      Prisma.Extends<"take", Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ImapAccountGroupByArgs["orderBy"] }
+      : { orderBy?: ImapAccountGroupByArgs["orderBy"] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<
+      Prisma.Keys<Prisma.MaybeTupleToUnion<T["orderBy"]>>
+    >,
+    ByFields extends Prisma.MaybeTupleToUnion<T["by"]>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T["having"]>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T["by"] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends Prisma.False
+        ? {
+            [P in HavingFields]: P extends ByFields
+              ? never
+              : P extends string
+                ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+                : [Error, "Field ", P, ` in "having" needs to be provided in "by"`];
+          }[HavingFields]
+        : "take" extends Prisma.Keys<T>
+          ? "orderBy" extends Prisma.Keys<T>
+            ? ByValid extends Prisma.True
+              ? {}
+              : {
+                  [P in OrderFields]: P extends ByFields
+                    ? never
+                    : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                }[OrderFields]
+            : 'Error: If you provide "take", you also need to provide "orderBy"'
+          : "skip" extends Prisma.Keys<T>
+            ? "orderBy" extends Prisma.Keys<T>
+              ? ByValid extends Prisma.True
+                ? {}
+                : {
+                    [P in OrderFields]: P extends ByFields
+                      ? never
+                      : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                  }[OrderFields]
+              : 'Error: If you provide "skip", you also need to provide "orderBy"'
+            : ByValid extends Prisma.True
+              ? {}
+              : {
+                  [P in OrderFields]: P extends ByFields
+                    ? never
+                    : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                }[OrderFields]
+  >(
+    args: Prisma.SubsetIntersection<T, ImapAccountGroupByArgs, OrderByArg> & InputErrors
+  ): {} extends InputErrors ? GetImapAccountGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>;
+  /**
+   * Fields of the ImapAccount model
+   */
+  readonly fields: ImapAccountFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ImapAccount.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ImapAccountClient<
+  T,
+  Null = never,
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+  GlobalOmitOptions = {}
+> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise";
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>
+  ): Prisma.Prisma__UserClient<
+    | runtime.Types.Result.GetResult<
+        Prisma.$UserPayload<ExtArgs>,
+        T,
+        "findUniqueOrThrow",
+        GlobalOmitOptions
+      >
+    | Null,
+    Null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(
+    onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null
+  ): runtime.Types.Utils.JsPromise<TResult1 | TResult2>;
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(
+    onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null
+  ): runtime.Types.Utils.JsPromise<T | TResult>;
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>;
+}
+
+/**
+ * Fields of the ImapAccount model
+ */
+export interface ImapAccountFieldRefs {
+  readonly id: Prisma.FieldRef<"ImapAccount", "String">;
+  readonly userId: Prisma.FieldRef<"ImapAccount", "String">;
+  readonly label: Prisma.FieldRef<"ImapAccount", "String">;
+  readonly email: Prisma.FieldRef<"ImapAccount", "String">;
+  readonly username: Prisma.FieldRef<"ImapAccount", "String">;
+  readonly password: Prisma.FieldRef<"ImapAccount", "String">;
+  readonly imapHost: Prisma.FieldRef<"ImapAccount", "String">;
+  readonly imapPort: Prisma.FieldRef<"ImapAccount", "Int">;
+  readonly smtpHost: Prisma.FieldRef<"ImapAccount", "String">;
+  readonly smtpPort: Prisma.FieldRef<"ImapAccount", "Int">;
+  readonly uidValidity: Prisma.FieldRef<"ImapAccount", "String">;
+  readonly lastUid: Prisma.FieldRef<"ImapAccount", "Int">;
+  readonly lastSyncAt: Prisma.FieldRef<"ImapAccount", "DateTime">;
+  readonly createdAt: Prisma.FieldRef<"ImapAccount", "DateTime">;
+  readonly updatedAt: Prisma.FieldRef<"ImapAccount", "DateTime">;
+}
+
+// Custom InputTypes
+/**
+ * ImapAccount findUnique
+ */
+export type ImapAccountFindUniqueArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ImapAccount
+   */
+  select?: Prisma.ImapAccountSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ImapAccount
+   */
+  omit?: Prisma.ImapAccountOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ImapAccountInclude<ExtArgs> | null;
+  /**
+   * Filter, which ImapAccount to fetch.
+   */
+  where: Prisma.ImapAccountWhereUniqueInput;
+};
+
+/**
+ * ImapAccount findUniqueOrThrow
+ */
+export type ImapAccountFindUniqueOrThrowArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ImapAccount
+   */
+  select?: Prisma.ImapAccountSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ImapAccount
+   */
+  omit?: Prisma.ImapAccountOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ImapAccountInclude<ExtArgs> | null;
+  /**
+   * Filter, which ImapAccount to fetch.
+   */
+  where: Prisma.ImapAccountWhereUniqueInput;
+};
+
+/**
+ * ImapAccount findFirst
+ */
+export type ImapAccountFindFirstArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ImapAccount
+   */
+  select?: Prisma.ImapAccountSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ImapAccount
+   */
+  omit?: Prisma.ImapAccountOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ImapAccountInclude<ExtArgs> | null;
+  /**
+   * Filter, which ImapAccount to fetch.
+   */
+  where?: Prisma.ImapAccountWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of ImapAccounts to fetch.
+   */
+  orderBy?:
+    | Prisma.ImapAccountOrderByWithRelationInput
+    | Prisma.ImapAccountOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for searching for ImapAccounts.
+   */
+  cursor?: Prisma.ImapAccountWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` ImapAccounts from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` ImapAccounts.
+   */
+  skip?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   *
+   * Filter by unique combinations of ImapAccounts.
+   */
+  distinct?: Prisma.ImapAccountScalarFieldEnum | Prisma.ImapAccountScalarFieldEnum[];
+};
+
+/**
+ * ImapAccount findFirstOrThrow
+ */
+export type ImapAccountFindFirstOrThrowArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ImapAccount
+   */
+  select?: Prisma.ImapAccountSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ImapAccount
+   */
+  omit?: Prisma.ImapAccountOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ImapAccountInclude<ExtArgs> | null;
+  /**
+   * Filter, which ImapAccount to fetch.
+   */
+  where?: Prisma.ImapAccountWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of ImapAccounts to fetch.
+   */
+  orderBy?:
+    | Prisma.ImapAccountOrderByWithRelationInput
+    | Prisma.ImapAccountOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for searching for ImapAccounts.
+   */
+  cursor?: Prisma.ImapAccountWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` ImapAccounts from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` ImapAccounts.
+   */
+  skip?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   *
+   * Filter by unique combinations of ImapAccounts.
+   */
+  distinct?: Prisma.ImapAccountScalarFieldEnum | Prisma.ImapAccountScalarFieldEnum[];
+};
+
+/**
+ * ImapAccount findMany
+ */
+export type ImapAccountFindManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ImapAccount
+   */
+  select?: Prisma.ImapAccountSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ImapAccount
+   */
+  omit?: Prisma.ImapAccountOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ImapAccountInclude<ExtArgs> | null;
+  /**
+   * Filter, which ImapAccounts to fetch.
+   */
+  where?: Prisma.ImapAccountWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of ImapAccounts to fetch.
+   */
+  orderBy?:
+    | Prisma.ImapAccountOrderByWithRelationInput
+    | Prisma.ImapAccountOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for listing ImapAccounts.
+   */
+  cursor?: Prisma.ImapAccountWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` ImapAccounts from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` ImapAccounts.
+   */
+  skip?: number;
+  distinct?: Prisma.ImapAccountScalarFieldEnum | Prisma.ImapAccountScalarFieldEnum[];
+};
+
+/**
+ * ImapAccount create
+ */
+export type ImapAccountCreateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ImapAccount
+   */
+  select?: Prisma.ImapAccountSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ImapAccount
+   */
+  omit?: Prisma.ImapAccountOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ImapAccountInclude<ExtArgs> | null;
+  /**
+   * The data needed to create a ImapAccount.
+   */
+  data: Prisma.XOR<Prisma.ImapAccountCreateInput, Prisma.ImapAccountUncheckedCreateInput>;
+};
+
+/**
+ * ImapAccount createMany
+ */
+export type ImapAccountCreateManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * The data used to create many ImapAccounts.
+   */
+  data: Prisma.ImapAccountCreateManyInput | Prisma.ImapAccountCreateManyInput[];
+  skipDuplicates?: boolean;
+};
+
+/**
+ * ImapAccount createManyAndReturn
+ */
+export type ImapAccountCreateManyAndReturnArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ImapAccount
+   */
+  select?: Prisma.ImapAccountSelectCreateManyAndReturn<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ImapAccount
+   */
+  omit?: Prisma.ImapAccountOmit<ExtArgs> | null;
+  /**
+   * The data used to create many ImapAccounts.
+   */
+  data: Prisma.ImapAccountCreateManyInput | Prisma.ImapAccountCreateManyInput[];
+  skipDuplicates?: boolean;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ImapAccountIncludeCreateManyAndReturn<ExtArgs> | null;
+};
+
+/**
+ * ImapAccount update
+ */
+export type ImapAccountUpdateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ImapAccount
+   */
+  select?: Prisma.ImapAccountSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ImapAccount
+   */
+  omit?: Prisma.ImapAccountOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ImapAccountInclude<ExtArgs> | null;
+  /**
+   * The data needed to update a ImapAccount.
+   */
+  data: Prisma.XOR<Prisma.ImapAccountUpdateInput, Prisma.ImapAccountUncheckedUpdateInput>;
+  /**
+   * Choose, which ImapAccount to update.
+   */
+  where: Prisma.ImapAccountWhereUniqueInput;
+};
+
+/**
+ * ImapAccount updateMany
+ */
+export type ImapAccountUpdateManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * The data used to update ImapAccounts.
+   */
+  data: Prisma.XOR<
+    Prisma.ImapAccountUpdateManyMutationInput,
+    Prisma.ImapAccountUncheckedUpdateManyInput
+  >;
+  /**
+   * Filter which ImapAccounts to update
+   */
+  where?: Prisma.ImapAccountWhereInput;
+  /**
+   * Limit how many ImapAccounts to update.
+   */
+  limit?: number;
+};
+
+/**
+ * ImapAccount updateManyAndReturn
+ */
+export type ImapAccountUpdateManyAndReturnArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ImapAccount
+   */
+  select?: Prisma.ImapAccountSelectUpdateManyAndReturn<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ImapAccount
+   */
+  omit?: Prisma.ImapAccountOmit<ExtArgs> | null;
+  /**
+   * The data used to update ImapAccounts.
+   */
+  data: Prisma.XOR<
+    Prisma.ImapAccountUpdateManyMutationInput,
+    Prisma.ImapAccountUncheckedUpdateManyInput
+  >;
+  /**
+   * Filter which ImapAccounts to update
+   */
+  where?: Prisma.ImapAccountWhereInput;
+  /**
+   * Limit how many ImapAccounts to update.
+   */
+  limit?: number;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ImapAccountIncludeUpdateManyAndReturn<ExtArgs> | null;
+};
+
+/**
+ * ImapAccount upsert
+ */
+export type ImapAccountUpsertArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ImapAccount
+   */
+  select?: Prisma.ImapAccountSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ImapAccount
+   */
+  omit?: Prisma.ImapAccountOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ImapAccountInclude<ExtArgs> | null;
+  /**
+   * The filter to search for the ImapAccount to update in case it exists.
+   */
+  where: Prisma.ImapAccountWhereUniqueInput;
+  /**
+   * In case the ImapAccount found by the `where` argument doesn't exist, create a new ImapAccount with this data.
+   */
+  create: Prisma.XOR<Prisma.ImapAccountCreateInput, Prisma.ImapAccountUncheckedCreateInput>;
+  /**
+   * In case the ImapAccount was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ImapAccountUpdateInput, Prisma.ImapAccountUncheckedUpdateInput>;
+};
+
+/**
+ * ImapAccount delete
+ */
+export type ImapAccountDeleteArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ImapAccount
+   */
+  select?: Prisma.ImapAccountSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ImapAccount
+   */
+  omit?: Prisma.ImapAccountOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ImapAccountInclude<ExtArgs> | null;
+  /**
+   * Filter which ImapAccount to delete.
+   */
+  where: Prisma.ImapAccountWhereUniqueInput;
+};
+
+/**
+ * ImapAccount deleteMany
+ */
+export type ImapAccountDeleteManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Filter which ImapAccounts to delete
+   */
+  where?: Prisma.ImapAccountWhereInput;
+  /**
+   * Limit how many ImapAccounts to delete.
+   */
+  limit?: number;
+};
+
+/**
+ * ImapAccount without action
+ */
+export type ImapAccountDefaultArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ImapAccount
+   */
+  select?: Prisma.ImapAccountSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ImapAccount
+   */
+  omit?: Prisma.ImapAccountOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ImapAccountInclude<ExtArgs> | null;
+};
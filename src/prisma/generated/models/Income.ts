@@ -0,0 +1,2411 @@
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck
+/*
+ * This file exports the `Income` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client";
+import type * as $Enums from "../enums";
+import type * as Prisma from "../internal/prismaNamespace";
+
+/**
+ * Model Income
+ *
+ */
+export type IncomeModel = runtime.Types.Result.DefaultSelection<Prisma.$IncomePayload>;
+
+export type AggregateIncome = {
+  _count: IncomeCountAggregateOutputType | null;
+  _avg: IncomeAvgAggregateOutputType | null;
+  _sum: IncomeSumAggregateOutputType | null;
+  _min: IncomeMinAggregateOutputType | null;
+  _max: IncomeMaxAggregateOutputType | null;
+};
+
+export type IncomeAvgAggregateOutputType = {
+  amount: runtime.Decimal | null;
+};
+
+export type IncomeSumAggregateOutputType = {
+  amount: runtime.Decimal | null;
+};
+
+export type IncomeMinAggregateOutputType = {
+  id: string | null;
+  userId: string | null;
+  processedEmailId: string | null;
+  source: string | null;
+  amount: runtime.Decimal | null;
+  currency: string | null;
+  category: $Enums.IncomeCategory | null;
+  description: string | null;
+  date: Date | null;
+  exchangeRateId: string | null;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+};
+
+export type IncomeMaxAggregateOutputType = {
+  id: string | null;
+  userId: string | null;
+  processedEmailId: string | null;
+  source: string | null;
+  amount: runtime.Decimal | null;
+  currency: string | null;
+  category: $Enums.IncomeCategory | null;
+  description: string | null;
+  date: Date | null;
+  exchangeRateId: string | null;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+};
+
+export type IncomeCountAggregateOutputType = {
+  id: number;
+  userId: number;
+  processedEmailId: number;
+  source: number;
+  amount: number;
+  currency: number;
+  category: number;
+  description: number;
+  date: number;
+  exchangeRateId: number;
+  createdAt: number;
+  updatedAt: number;
+  _all: number;
+};
+
+export type IncomeAvgAggregateInputType = {
+  amount?: true;
+};
+
+export type IncomeSumAggregateInputType = {
+  amount?: true;
+};
+
+export type IncomeMinAggregateInputType = {
+  id?: true;
+  userId?: true;
+  processedEmailId?: true;
+  source?: true;
+  amount?: true;
+  currency?: true;
+  category?: true;
+  description?: true;
+  date?: true;
+  exchangeRateId?: true;
+  createdAt?: true;
+  updatedAt?: true;
+};
+
+export type IncomeMaxAggregateInputType = {
+  id?: true;
+  userId?: true;
+  processedEmailId?: true;
+  source?: true;
+  amount?: true;
+  currency?: true;
+  category?: true;
+  description?: true;
+  date?: true;
+  exchangeRateId?: true;
+  createdAt?: true;
+  updatedAt?: true;
+};
+
+export type IncomeCountAggregateInputType = {
+  id?: true;
+  userId?: true;
+  processedEmailId?: true;
+  source?: true;
+  amount?: true;
+  currency?: true;
+  category?: true;
+  description?: true;
+  date?: true;
+  exchangeRateId?: true;
+  createdAt?: true;
+  updatedAt?: true;
+  _all?: true;
+};
+
+export type IncomeAggregateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Filter which Income to aggregate.
+   */
+  where?: Prisma.IncomeWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of Incomes to fetch.
+   */
+  orderBy?: Prisma.IncomeOrderByWithRelationInput | Prisma.IncomeOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the start position
+   */
+  cursor?: Prisma.IncomeWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` Incomes from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` Incomes.
+   */
+  skip?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Count returned Incomes
+   **/
+  _count?: true | IncomeCountAggregateInputType;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to average
+   **/
+  _avg?: IncomeAvgAggregateInputType;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to sum
+   **/
+  _sum?: IncomeSumAggregateInputType;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to find the minimum value
+   **/
+  _min?: IncomeMinAggregateInputType;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to find the maximum value
+   **/
+  _max?: IncomeMaxAggregateInputType;
+};
+
+export type GetIncomeAggregateType<T extends IncomeAggregateArgs> = {
+  [P in keyof T & keyof AggregateIncome]: P extends "_count" | "count"
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateIncome[P]>
+    : Prisma.GetScalarType<T[P], AggregateIncome[P]>;
+};
+
+export type IncomeGroupByArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  where?: Prisma.IncomeWhereInput;
+  orderBy?: Prisma.IncomeOrderByWithAggregationInput | Prisma.IncomeOrderByWithAggregationInput[];
+  by: Prisma.IncomeScalarFieldEnum[] | Prisma.IncomeScalarFieldEnum;
+  having?: Prisma.IncomeScalarWhereWithAggregatesInput;
+  take?: number;
+  skip?: number;
+  _count?: IncomeCountAggregateInputType | true;
+  _avg?: IncomeAvgAggregateInputType;
+  _sum?: IncomeSumAggregateInputType;
+  _min?: IncomeMinAggregateInputType;
+  _max?: IncomeMaxAggregateInputType;
+};
+
+export type IncomeGroupByOutputType = {
+  id: string;
+  userId: string;
+  processedEmailId: string | null;
+  source: string | null;
+  amount: runtime.Decimal;
+  currency: string;
+  category: $Enums.IncomeCategory;
+  description: string | null;
+  date: Date;
+  exchangeRateId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  _count: IncomeCountAggregateOutputType | null;
+  _avg: IncomeAvgAggregateOutputType | null;
+  _sum: IncomeSumAggregateOutputType | null;
+  _min: IncomeMinAggregateOutputType | null;
+  _max: IncomeMaxAggregateOutputType | null;
+};
+
+type GetIncomeGroupByPayload<T extends IncomeGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<IncomeGroupByOutputType, T["by"]> & {
+      [P in keyof T & keyof IncomeGroupByOutputType]: P extends "_count"
+        ? T[P] extends boolean
+          ? number
+          : Prisma.GetScalarType<T[P], IncomeGroupByOutputType[P]>
+        : Prisma.GetScalarType<T[P], IncomeGroupByOutputType[P]>;
+    }
+  >
+>;
+
+export type IncomeWhereInput = {
+  AND?: Prisma.IncomeWhereInput | Prisma.IncomeWhereInput[];
+  OR?: Prisma.IncomeWhereInput[];
+  NOT?: Prisma.IncomeWhereInput | Prisma.IncomeWhereInput[];
+  id?: Prisma.StringFilter<"Income"> | string;
+  userId?: Prisma.StringFilter<"Income"> | string;
+  processedEmailId?: Prisma.StringNullableFilter<"Income"> | string | null;
+  source?: Prisma.StringNullableFilter<"Income"> | string | null;
+  amount?:
+    | Prisma.DecimalFilter<"Income">
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currency?: Prisma.StringFilter<"Income"> | string;
+  category?: Prisma.EnumIncomeCategoryFilter<"Income"> | $Enums.IncomeCategory;
+  description?: Prisma.StringNullableFilter<"Income"> | string | null;
+  date?: Prisma.DateTimeFilter<"Income"> | Date | string;
+  exchangeRateId?: Prisma.StringNullableFilter<"Income"> | string | null;
+  createdAt?: Prisma.DateTimeFilter<"Income"> | Date | string;
+  updatedAt?: Prisma.DateTimeFilter<"Income"> | Date | string;
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>;
+  processedEmail?: Prisma.XOR<
+    Prisma.ProcessedEmailNullableScalarRelationFilter,
+    Prisma.ProcessedEmailWhereInput
+  > | null;
+  exchangeRate?: Prisma.XOR<
+    Prisma.ExchangeRateNullableScalarRelationFilter,
+    Prisma.ExchangeRateWhereInput
+  > | null;
+};
+
+export type IncomeOrderByWithRelationInput = {
+  id?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  processedEmailId?: Prisma.SortOrderInput | Prisma.SortOrder;
+  source?: Prisma.SortOrderInput | Prisma.SortOrder;
+  amount?: Prisma.SortOrder;
+  currency?: Prisma.SortOrder;
+  category?: Prisma.SortOrder;
+  description?: Prisma.SortOrderInput | Prisma.SortOrder;
+  date?: Prisma.SortOrder;
+  exchangeRateId?: Prisma.SortOrderInput | Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  updatedAt?: Prisma.SortOrder;
+  user?: Prisma.UserOrderByWithRelationInput;
+  processedEmail?: Prisma.ProcessedEmailOrderByWithRelationInput;
+  exchangeRate?: Prisma.ExchangeRateOrderByWithRelationInput;
+};
+
+export type IncomeWhereUniqueInput = Prisma.AtLeast<
+  {
+    id?: string;
+    processedEmailId?: string;
+    AND?: Prisma.IncomeWhereInput | Prisma.IncomeWhereInput[];
+    OR?: Prisma.IncomeWhereInput[];
+    NOT?: Prisma.IncomeWhereInput | Prisma.IncomeWhereInput[];
+    userId?: Prisma.StringFilter<"Income"> | string;
+    source?: Prisma.StringNullableFilter<"Income"> | string | null;
+    amount?:
+      | Prisma.DecimalFilter<"Income">
+      | runtime.Decimal
+      | runtime.DecimalJsLike
+      | number
+      | string;
+    currency?: Prisma.StringFilter<"Income"> | string;
+    category?: Prisma.EnumIncomeCategoryFilter<"Income"> | $Enums.IncomeCategory;
+    description?: Prisma.StringNullableFilter<"Income"> | string | null;
+    date?: Prisma.DateTimeFilter<"Income"> | Date | string;
+    exchangeRateId?: Prisma.StringNullableFilter<"Income"> | string | null;
+    createdAt?: Prisma.DateTimeFilter<"Income"> | Date | string;
+    updatedAt?: Prisma.DateTimeFilter<"Income"> | Date | string;
+    user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>;
+    processedEmail?: Prisma.XOR<
+      Prisma.ProcessedEmailNullableScalarRelationFilter,
+      Prisma.ProcessedEmailWhereInput
+    > | null;
+    exchangeRate?: Prisma.XOR<
+      Prisma.ExchangeRateNullableScalarRelationFilter,
+      Prisma.ExchangeRateWhereInput
+    > | null;
+  },
+  "id" | "processedEmailId"
+>;
+
+export type IncomeOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  processedEmailId?: Prisma.SortOrderInput | Prisma.SortOrder;
+  source?: Prisma.SortOrderInput | Prisma.SortOrder;
+  amount?: Prisma.SortOrder;
+  currency?: Prisma.SortOrder;
+  category?: Prisma.SortOrder;
+  description?: Prisma.SortOrderInput | Prisma.SortOrder;
+  date?: Prisma.SortOrder;
+  exchangeRateId?: Prisma.SortOrderInput | Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  updatedAt?: Prisma.SortOrder;
+  _count?: Prisma.IncomeCountOrderByAggregateInput;
+  _avg?: Prisma.IncomeAvgOrderByAggregateInput;
+  _max?: Prisma.IncomeMaxOrderByAggregateInput;
+  _min?: Prisma.IncomeMinOrderByAggregateInput;
+  _sum?: Prisma.IncomeSumOrderByAggregateInput;
+};
+
+export type IncomeScalarWhereWithAggregatesInput = {
+  AND?: Prisma.IncomeScalarWhereWithAggregatesInput | Prisma.IncomeScalarWhereWithAggregatesInput[];
+  OR?: Prisma.IncomeScalarWhereWithAggregatesInput[];
+  NOT?: Prisma.IncomeScalarWhereWithAggregatesInput | Prisma.IncomeScalarWhereWithAggregatesInput[];
+  id?: Prisma.StringWithAggregatesFilter<"Income"> | string;
+  userId?: Prisma.StringWithAggregatesFilter<"Income"> | string;
+  processedEmailId?: Prisma.StringNullableWithAggregatesFilter<"Income"> | string | null;
+  source?: Prisma.StringNullableWithAggregatesFilter<"Income"> | string | null;
+  amount?:
+    | Prisma.DecimalWithAggregatesFilter<"Income">
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currency?: Prisma.StringWithAggregatesFilter<"Income"> | string;
+  category?: Prisma.EnumIncomeCategoryWithAggregatesFilter<"Income"> | $Enums.IncomeCategory;
+  description?: Prisma.StringNullableWithAggregatesFilter<"Income"> | string | null;
+  date?: Prisma.DateTimeWithAggregatesFilter<"Income"> | Date | string;
+  exchangeRateId?: Prisma.StringNullableWithAggregatesFilter<"Income"> | string | null;
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"Income"> | Date | string;
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Income"> | Date | string;
+};
+
+export type IncomeCreateInput = {
+  id?: string;
+  source?: string | null;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  currency?: string;
+  category?: $Enums.IncomeCategory;
+  description?: string | null;
+  date: Date | string;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  user: Prisma.UserCreateNestedOneWithoutIncomesInput;
+  processedEmail?: Prisma.ProcessedEmailCreateNestedOneWithoutIncomeInput;
+  exchangeRate?: Prisma.ExchangeRateCreateNestedOneWithoutIncomesInput;
+};
+
+export type IncomeUncheckedCreateInput = {
+  id?: string;
+  userId: string;
+  processedEmailId?: string | null;
+  source?: string | null;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  currency?: string;
+  category?: $Enums.IncomeCategory;
+  description?: string | null;
+  date: Date | string;
+  exchangeRateId?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+};
+
+export type IncomeUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  category?: Prisma.EnumIncomeCategoryFieldUpdateOperationsInput | $Enums.IncomeCategory;
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  user?: Prisma.UserUpdateOneRequiredWithoutIncomesNestedInput;
+  processedEmail?: Prisma.ProcessedEmailUpdateOneWithoutIncomeNestedInput;
+  exchangeRate?: Prisma.ExchangeRateUpdateOneWithoutIncomesNestedInput;
+};
+
+export type IncomeUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  userId?: Prisma.StringFieldUpdateOperationsInput | string;
+  processedEmailId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  category?: Prisma.EnumIncomeCategoryFieldUpdateOperationsInput | $Enums.IncomeCategory;
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  exchangeRateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type IncomeCreateManyInput = {
+  id?: string;
+  userId: string;
+  processedEmailId?: string | null;
+  source?: string | null;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  currency?: string;
+  category?: $Enums.IncomeCategory;
+  description?: string | null;
+  date: Date | string;
+  exchangeRateId?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+};
+
+export type IncomeUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  category?: Prisma.EnumIncomeCategoryFieldUpdateOperationsInput | $Enums.IncomeCategory;
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type IncomeUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  userId?: Prisma.StringFieldUpdateOperationsInput | string;
+  processedEmailId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  category?: Prisma.EnumIncomeCategoryFieldUpdateOperationsInput | $Enums.IncomeCategory;
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  exchangeRateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type IncomeListRelationFilter = {
+  every?: Prisma.IncomeWhereInput;
+  some?: Prisma.IncomeWhereInput;
+  none?: Prisma.IncomeWhereInput;
+};
+
+export type IncomeOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder;
+};
+
+export type IncomeNullableScalarRelationFilter = {
+  is?: Prisma.IncomeWhereInput | null;
+  isNot?: Prisma.IncomeWhereInput | null;
+};
+
+export type IncomeCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  processedEmailId?: Prisma.SortOrder;
+  source?: Prisma.SortOrder;
+  amount?: Prisma.SortOrder;
+  currency?: Prisma.SortOrder;
+  category?: Prisma.SortOrder;
+  description?: Prisma.SortOrder;
+  date?: Prisma.SortOrder;
+  exchangeRateId?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  updatedAt?: Prisma.SortOrder;
+};
+
+export type IncomeAvgOrderByAggregateInput = {
+  amount?: Prisma.SortOrder;
+};
+
+export type IncomeMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  processedEmailId?: Prisma.SortOrder;
+  source?: Prisma.SortOrder;
+  amount?: Prisma.SortOrder;
+  currency?: Prisma.SortOrder;
+  category?: Prisma.SortOrder;
+  description?: Prisma.SortOrder;
+  date?: Prisma.SortOrder;
+  exchangeRateId?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  updatedAt?: Prisma.SortOrder;
+};
+
+export type IncomeMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  processedEmailId?: Prisma.SortOrder;
+  source?: Prisma.SortOrder;
+  amount?: Prisma.SortOrder;
+  currency?: Prisma.SortOrder;
+  category?: Prisma.SortOrder;
+  description?: Prisma.SortOrder;
+  date?: Prisma.SortOrder;
+  exchangeRateId?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  updatedAt?: Prisma.SortOrder;
+};
+
+export type IncomeSumOrderByAggregateInput = {
+  amount?: Prisma.SortOrder;
+};
+
+export type IncomeCreateNestedManyWithoutUserInput = {
+  create?:
+    | Prisma.XOR<Prisma.IncomeCreateWithoutUserInput, Prisma.IncomeUncheckedCreateWithoutUserInput>
+    | Prisma.IncomeCreateWithoutUserInput[]
+    | Prisma.IncomeUncheckedCreateWithoutUserInput[];
+  connectOrCreate?:
+    | Prisma.IncomeCreateOrConnectWithoutUserInput
+    | Prisma.IncomeCreateOrConnectWithoutUserInput[];
+  createMany?: Prisma.IncomeCreateManyUserInputEnvelope;
+  connect?: Prisma.IncomeWhereUniqueInput | Prisma.IncomeWhereUniqueInput[];
+};
+
+export type IncomeUncheckedCreateNestedManyWithoutUserInput = {
+  create?:
+    | Prisma.XOR<Prisma.IncomeCreateWithoutUserInput, Prisma.IncomeUncheckedCreateWithoutUserInput>
+    | Prisma.IncomeCreateWithoutUserInput[]
+    | Prisma.IncomeUncheckedCreateWithoutUserInput[];
+  connectOrCreate?:
+    | Prisma.IncomeCreateOrConnectWithoutUserInput
+    | Prisma.IncomeCreateOrConnectWithoutUserInput[];
+  createMany?: Prisma.IncomeCreateManyUserInputEnvelope;
+  connect?: Prisma.IncomeWhereUniqueInput | Prisma.IncomeWhereUniqueInput[];
+};
+
+export type IncomeUpdateManyWithoutUserNestedInput = {
+  create?:
+    | Prisma.XOR<Prisma.IncomeCreateWithoutUserInput, Prisma.IncomeUncheckedCreateWithoutUserInput>
+    | Prisma.IncomeCreateWithoutUserInput[]
+    | Prisma.IncomeUncheckedCreateWithoutUserInput[];
+  connectOrCreate?:
+    | Prisma.IncomeCreateOrConnectWithoutUserInput
+    | Prisma.IncomeCreateOrConnectWithoutUserInput[];
+  upsert?:
+    | Prisma.IncomeUpsertWithWhereUniqueWithoutUserInput
+    | Prisma.IncomeUpsertWithWhereUniqueWithoutUserInput[];
+  createMany?: Prisma.IncomeCreateManyUserInputEnvelope;
+  set?: Prisma.IncomeWhereUniqueInput | Prisma.IncomeWhereUniqueInput[];
+  disconnect?: Prisma.IncomeWhereUniqueInput | Prisma.IncomeWhereUniqueInput[];
+  delete?: Prisma.IncomeWhereUniqueInput | Prisma.IncomeWhereUniqueInput[];
+  connect?: Prisma.IncomeWhereUniqueInput | Prisma.IncomeWhereUniqueInput[];
+  update?:
+    | Prisma.IncomeUpdateWithWhereUniqueWithoutUserInput
+    | Prisma.IncomeUpdateWithWhereUniqueWithoutUserInput[];
+  updateMany?:
+    | Prisma.IncomeUpdateManyWithWhereWithoutUserInput
+    | Prisma.IncomeUpdateManyWithWhereWithoutUserInput[];
+  deleteMany?: Prisma.IncomeScalarWhereInput | Prisma.IncomeScalarWhereInput[];
+};
+
+export type IncomeUncheckedUpdateManyWithoutUserNestedInput = {
+  create?:
+    | Prisma.XOR<Prisma.IncomeCreateWithoutUserInput, Prisma.IncomeUncheckedCreateWithoutUserInput>
+    | Prisma.IncomeCreateWithoutUserInput[]
+    | Prisma.IncomeUncheckedCreateWithoutUserInput[];
+  connectOrCreate?:
+    | Prisma.IncomeCreateOrConnectWithoutUserInput
+    | Prisma.IncomeCreateOrConnectWithoutUserInput[];
+  upsert?:
+    | Prisma.IncomeUpsertWithWhereUniqueWithoutUserInput
+    | Prisma.IncomeUpsertWithWhereUniqueWithoutUserInput[];
+  createMany?: Prisma.IncomeCreateManyUserInputEnvelope;
+  set?: Prisma.IncomeWhereUniqueInput | Prisma.IncomeWhereUniqueInput[];
+  disconnect?: Prisma.IncomeWhereUniqueInput | Prisma.IncomeWhereUniqueInput[];
+  delete?: Prisma.IncomeWhereUniqueInput | Prisma.IncomeWhereUniqueInput[];
+  connect?: Prisma.IncomeWhereUniqueInput | Prisma.IncomeWhereUniqueInput[];
+  update?:
+    | Prisma.IncomeUpdateWithWhereUniqueWithoutUserInput
+    | Prisma.IncomeUpdateWithWhereUniqueWithoutUserInput[];
+  updateMany?:
+    | Prisma.IncomeUpdateManyWithWhereWithoutUserInput
+    | Prisma.IncomeUpdateManyWithWhereWithoutUserInput[];
+  deleteMany?: Prisma.IncomeScalarWhereInput | Prisma.IncomeScalarWhereInput[];
+};
+
+export type IncomeCreateNestedOneWithoutProcessedEmailInput = {
+  create?: Prisma.XOR<
+    Prisma.IncomeCreateWithoutProcessedEmailInput,
+    Prisma.IncomeUncheckedCreateWithoutProcessedEmailInput
+  >;
+  connectOrCreate?: Prisma.IncomeCreateOrConnectWithoutProcessedEmailInput;
+  connect?: Prisma.IncomeWhereUniqueInput;
+};
+
+export type IncomeUncheckedCreateNestedOneWithoutProcessedEmailInput = {
+  create?: Prisma.XOR<
+    Prisma.IncomeCreateWithoutProcessedEmailInput,
+    Prisma.IncomeUncheckedCreateWithoutProcessedEmailInput
+  >;
+  connectOrCreate?: Prisma.IncomeCreateOrConnectWithoutProcessedEmailInput;
+  connect?: Prisma.IncomeWhereUniqueInput;
+};
+
+export type IncomeUpdateOneWithoutProcessedEmailNestedInput = {
+  create?: Prisma.XOR<
+    Prisma.IncomeCreateWithoutProcessedEmailInput,
+    Prisma.IncomeUncheckedCreateWithoutProcessedEmailInput
+  >;
+  connectOrCreate?: Prisma.IncomeCreateOrConnectWithoutProcessedEmailInput;
+  upsert?: Prisma.IncomeUpsertWithoutProcessedEmailInput;
+  disconnect?: Prisma.IncomeWhereInput | boolean;
+  delete?: Prisma.IncomeWhereInput | boolean;
+  connect?: Prisma.IncomeWhereUniqueInput;
+  update?: Prisma.XOR<
+    Prisma.XOR<
+      Prisma.IncomeUpdateToOneWithWhereWithoutProcessedEmailInput,
+      Prisma.IncomeUpdateWithoutProcessedEmailInput
+    >,
+    Prisma.IncomeUncheckedUpdateWithoutProcessedEmailInput
+  >;
+};
+
+export type IncomeUncheckedUpdateOneWithoutProcessedEmailNestedInput = {
+  create?: Prisma.XOR<
+    Prisma.IncomeCreateWithoutProcessedEmailInput,
+    Prisma.IncomeUncheckedCreateWithoutProcessedEmailInput
+  >;
+  connectOrCreate?: Prisma.IncomeCreateOrConnectWithoutProcessedEmailInput;
+  upsert?: Prisma.IncomeUpsertWithoutProcessedEmailInput;
+  disconnect?: Prisma.IncomeWhereInput | boolean;
+  delete?: Prisma.IncomeWhereInput | boolean;
+  connect?: Prisma.IncomeWhereUniqueInput;
+  update?: Prisma.XOR<
+    Prisma.XOR<
+      Prisma.IncomeUpdateToOneWithWhereWithoutProcessedEmailInput,
+      Prisma.IncomeUpdateWithoutProcessedEmailInput
+    >,
+    Prisma.IncomeUncheckedUpdateWithoutProcessedEmailInput
+  >;
+};
+
+export type EnumIncomeCategoryFieldUpdateOperationsInput = {
+  set?: $Enums.IncomeCategory;
+};
+
+export type IncomeCreateNestedManyWithoutExchangeRateInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.IncomeCreateWithoutExchangeRateInput,
+        Prisma.IncomeUncheckedCreateWithoutExchangeRateInput
+      >
+    | Prisma.IncomeCreateWithoutExchangeRateInput[]
+    | Prisma.IncomeUncheckedCreateWithoutExchangeRateInput[];
+  connectOrCreate?:
+    | Prisma.IncomeCreateOrConnectWithoutExchangeRateInput
+    | Prisma.IncomeCreateOrConnectWithoutExchangeRateInput[];
+  createMany?: Prisma.IncomeCreateManyExchangeRateInputEnvelope;
+  connect?: Prisma.IncomeWhereUniqueInput | Prisma.IncomeWhereUniqueInput[];
+};
+
+export type IncomeUncheckedCreateNestedManyWithoutExchangeRateInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.IncomeCreateWithoutExchangeRateInput,
+        Prisma.IncomeUncheckedCreateWithoutExchangeRateInput
+      >
+    | Prisma.IncomeCreateWithoutExchangeRateInput[]
+    | Prisma.IncomeUncheckedCreateWithoutExchangeRateInput[];
+  connectOrCreate?:
+    | Prisma.IncomeCreateOrConnectWithoutExchangeRateInput
+    | Prisma.IncomeCreateOrConnectWithoutExchangeRateInput[];
+  createMany?: Prisma.IncomeCreateManyExchangeRateInputEnvelope;
+  connect?: Prisma.IncomeWhereUniqueInput | Prisma.IncomeWhereUniqueInput[];
+};
+
+export type IncomeUpdateManyWithoutExchangeRateNestedInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.IncomeCreateWithoutExchangeRateInput,
+        Prisma.IncomeUncheckedCreateWithoutExchangeRateInput
+      >
+    | Prisma.IncomeCreateWithoutExchangeRateInput[]
+    | Prisma.IncomeUncheckedCreateWithoutExchangeRateInput[];
+  connectOrCreate?:
+    | Prisma.IncomeCreateOrConnectWithoutExchangeRateInput
+    | Prisma.IncomeCreateOrConnectWithoutExchangeRateInput[];
+  upsert?:
+    | Prisma.IncomeUpsertWithWhereUniqueWithoutExchangeRateInput
+    | Prisma.IncomeUpsertWithWhereUniqueWithoutExchangeRateInput[];
+  createMany?: Prisma.IncomeCreateManyExchangeRateInputEnvelope;
+  set?: Prisma.IncomeWhereUniqueInput | Prisma.IncomeWhereUniqueInput[];
+  disconnect?: Prisma.IncomeWhereUniqueInput | Prisma.IncomeWhereUniqueInput[];
+  delete?: Prisma.IncomeWhereUniqueInput | Prisma.IncomeWhereUniqueInput[];
+  connect?: Prisma.IncomeWhereUniqueInput | Prisma.IncomeWhereUniqueInput[];
+  update?:
+    | Prisma.IncomeUpdateWithWhereUniqueWithoutExchangeRateInput
+    | Prisma.IncomeUpdateWithWhereUniqueWithoutExchangeRateInput[];
+  updateMany?:
+    | Prisma.IncomeUpdateManyWithWhereWithoutExchangeRateInput
+    | Prisma.IncomeUpdateManyWithWhereWithoutExchangeRateInput[];
+  deleteMany?: Prisma.IncomeScalarWhereInput | Prisma.IncomeScalarWhereInput[];
+};
+
+export type IncomeUncheckedUpdateManyWithoutExchangeRateNestedInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.IncomeCreateWithoutExchangeRateInput,
+        Prisma.IncomeUncheckedCreateWithoutExchangeRateInput
+      >
+    | Prisma.IncomeCreateWithoutExchangeRateInput[]
+    | Prisma.IncomeUncheckedCreateWithoutExchangeRateInput[];
+  connectOrCreate?:
+    | Prisma.IncomeCreateOrConnectWithoutExchangeRateInput
+    | Prisma.IncomeCreateOrConnectWithoutExchangeRateInput[];
+  upsert?:
+    | Prisma.IncomeUpsertWithWhereUniqueWithoutExchangeRateInput
+    | Prisma.IncomeUpsertWithWhereUniqueWithoutExchangeRateInput[];
+  createMany?: Prisma.IncomeCreateManyExchangeRateInputEnvelope;
+  set?: Prisma.IncomeWhereUniqueInput | Prisma.IncomeWhereUniqueInput[];
+  disconnect?: Prisma.IncomeWhereUniqueInput | Prisma.IncomeWhereUniqueInput[];
+  delete?: Prisma.IncomeWhereUniqueInput | Prisma.IncomeWhereUniqueInput[];
+  connect?: Prisma.IncomeWhereUniqueInput | Prisma.IncomeWhereUniqueInput[];
+  update?:
+    | Prisma.IncomeUpdateWithWhereUniqueWithoutExchangeRateInput
+    | Prisma.IncomeUpdateWithWhereUniqueWithoutExchangeRateInput[];
+  updateMany?:
+    | Prisma.IncomeUpdateManyWithWhereWithoutExchangeRateInput
+    | Prisma.IncomeUpdateManyWithWhereWithoutExchangeRateInput[];
+  deleteMany?: Prisma.IncomeScalarWhereInput | Prisma.IncomeScalarWhereInput[];
+};
+
+export type IncomeCreateWithoutUserInput = {
+  id?: string;
+  source?: string | null;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  currency?: string;
+  category?: $Enums.IncomeCategory;
+  description?: string | null;
+  date: Date | string;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  processedEmail?: Prisma.ProcessedEmailCreateNestedOneWithoutIncomeInput;
+  exchangeRate?: Prisma.ExchangeRateCreateNestedOneWithoutIncomesInput;
+};
+
+export type IncomeUncheckedCreateWithoutUserInput = {
+  id?: string;
+  processedEmailId?: string | null;
+  source?: string | null;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  currency?: string;
+  category?: $Enums.IncomeCategory;
+  description?: string | null;
+  date: Date | string;
+  exchangeRateId?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+};
+
+export type IncomeCreateOrConnectWithoutUserInput = {
+  where: Prisma.IncomeWhereUniqueInput;
+  create: Prisma.XOR<
+    Prisma.IncomeCreateWithoutUserInput,
+    Prisma.IncomeUncheckedCreateWithoutUserInput
+  >;
+};
+
+export type IncomeCreateManyUserInputEnvelope = {
+  data: Prisma.IncomeCreateManyUserInput | Prisma.IncomeCreateManyUserInput[];
+  skipDuplicates?: boolean;
+};
+
+export type IncomeUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.IncomeWhereUniqueInput;
+  update: Prisma.XOR<
+    Prisma.IncomeUpdateWithoutUserInput,
+    Prisma.IncomeUncheckedUpdateWithoutUserInput
+  >;
+  create: Prisma.XOR<
+    Prisma.IncomeCreateWithoutUserInput,
+    Prisma.IncomeUncheckedCreateWithoutUserInput
+  >;
+};
+
+export type IncomeUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.IncomeWhereUniqueInput;
+  data: Prisma.XOR<
+    Prisma.IncomeUpdateWithoutUserInput,
+    Prisma.IncomeUncheckedUpdateWithoutUserInput
+  >;
+};
+
+export type IncomeUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.IncomeScalarWhereInput;
+  data: Prisma.XOR<
+    Prisma.IncomeUpdateManyMutationInput,
+    Prisma.IncomeUncheckedUpdateManyWithoutUserInput
+  >;
+};
+
+export type IncomeScalarWhereInput = {
+  AND?: Prisma.IncomeScalarWhereInput | Prisma.IncomeScalarWhereInput[];
+  OR?: Prisma.IncomeScalarWhereInput[];
+  NOT?: Prisma.IncomeScalarWhereInput | Prisma.IncomeScalarWhereInput[];
+  id?: Prisma.StringFilter<"Income"> | string;
+  userId?: Prisma.StringFilter<"Income"> | string;
+  processedEmailId?: Prisma.StringNullableFilter<"Income"> | string | null;
+  source?: Prisma.StringNullableFilter<"Income"> | string | null;
+  amount?:
+    | Prisma.DecimalFilter<"Income">
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currency?: Prisma.StringFilter<"Income"> | string;
+  category?: Prisma.EnumIncomeCategoryFilter<"Income"> | $Enums.IncomeCategory;
+  description?: Prisma.StringNullableFilter<"Income"> | string | null;
+  date?: Prisma.DateTimeFilter<"Income"> | Date | string;
+  exchangeRateId?: Prisma.StringNullableFilter<"Income"> | string | null;
+  createdAt?: Prisma.DateTimeFilter<"Income"> | Date | string;
+  updatedAt?: Prisma.DateTimeFilter<"Income"> | Date | string;
+};
+
+export type IncomeCreateWithoutProcessedEmailInput = {
+  id?: string;
+  source?: string | null;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  currency?: string;
+  category?: $Enums.IncomeCategory;
+  description?: string | null;
+  date: Date | string;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  user: Prisma.UserCreateNestedOneWithoutIncomesInput;
+  exchangeRate?: Prisma.ExchangeRateCreateNestedOneWithoutIncomesInput;
+};
+
+export type IncomeUncheckedCreateWithoutProcessedEmailInput = {
+  id?: string;
+  userId: string;
+  source?: string | null;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  currency?: string;
+  category?: $Enums.IncomeCategory;
+  description?: string | null;
+  date: Date | string;
+  exchangeRateId?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+};
+
+export type IncomeCreateOrConnectWithoutProcessedEmailInput = {
+  where: Prisma.IncomeWhereUniqueInput;
+  create: Prisma.XOR<
+    Prisma.IncomeCreateWithoutProcessedEmailInput,
+    Prisma.IncomeUncheckedCreateWithoutProcessedEmailInput
+  >;
+};
+
+export type IncomeUpsertWithoutProcessedEmailInput = {
+  update: Prisma.XOR<
+    Prisma.IncomeUpdateWithoutProcessedEmailInput,
+    Prisma.IncomeUncheckedUpdateWithoutProcessedEmailInput
+  >;
+  create: Prisma.XOR<
+    Prisma.IncomeCreateWithoutProcessedEmailInput,
+    Prisma.IncomeUncheckedCreateWithoutProcessedEmailInput
+  >;
+  where?: Prisma.IncomeWhereInput;
+};
+
+export type IncomeUpdateToOneWithWhereWithoutProcessedEmailInput = {
+  where?: Prisma.IncomeWhereInput;
+  data: Prisma.XOR<
+    Prisma.IncomeUpdateWithoutProcessedEmailInput,
+    Prisma.IncomeUncheckedUpdateWithoutProcessedEmailInput
+  >;
+};
+
+export type IncomeUpdateWithoutProcessedEmailInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  category?: Prisma.EnumIncomeCategoryFieldUpdateOperationsInput | $Enums.IncomeCategory;
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  user?: Prisma.UserUpdateOneRequiredWithoutIncomesNestedInput;
+  exchangeRate?: Prisma.ExchangeRateUpdateOneWithoutIncomesNestedInput;
+};
+
+export type IncomeUncheckedUpdateWithoutProcessedEmailInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  userId?: Prisma.StringFieldUpdateOperationsInput | string;
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  category?: Prisma.EnumIncomeCategoryFieldUpdateOperationsInput | $Enums.IncomeCategory;
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  exchangeRateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type IncomeCreateWithoutExchangeRateInput = {
+  id?: string;
+  source?: string | null;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  currency?: string;
+  category?: $Enums.IncomeCategory;
+  description?: string | null;
+  date: Date | string;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  user: Prisma.UserCreateNestedOneWithoutIncomesInput;
+  processedEmail?: Prisma.ProcessedEmailCreateNestedOneWithoutIncomeInput;
+};
+
+export type IncomeUncheckedCreateWithoutExchangeRateInput = {
+  id?: string;
+  userId: string;
+  processedEmailId?: string | null;
+  source?: string | null;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  currency?: string;
+  category?: $Enums.IncomeCategory;
+  description?: string | null;
+  date: Date | string;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+};
+
+export type IncomeCreateOrConnectWithoutExchangeRateInput = {
+  where: Prisma.IncomeWhereUniqueInput;
+  create: Prisma.XOR<
+    Prisma.IncomeCreateWithoutExchangeRateInput,
+    Prisma.IncomeUncheckedCreateWithoutExchangeRateInput
+  >;
+};
+
+export type IncomeCreateManyExchangeRateInputEnvelope = {
+  data: Prisma.IncomeCreateManyExchangeRateInput | Prisma.IncomeCreateManyExchangeRateInput[];
+  skipDuplicates?: boolean;
+};
+
+export type IncomeUpsertWithWhereUniqueWithoutExchangeRateInput = {
+  where: Prisma.IncomeWhereUniqueInput;
+  update: Prisma.XOR<
+    Prisma.IncomeUpdateWithoutExchangeRateInput,
+    Prisma.IncomeUncheckedUpdateWithoutExchangeRateInput
+  >;
+  create: Prisma.XOR<
+    Prisma.IncomeCreateWithoutExchangeRateInput,
+    Prisma.IncomeUncheckedCreateWithoutExchangeRateInput
+  >;
+};
+
+export type IncomeUpdateWithWhereUniqueWithoutExchangeRateInput = {
+  where: Prisma.IncomeWhereUniqueInput;
+  data: Prisma.XOR<
+    Prisma.IncomeUpdateWithoutExchangeRateInput,
+    Prisma.IncomeUncheckedUpdateWithoutExchangeRateInput
+  >;
+};
+
+export type IncomeUpdateManyWithWhereWithoutExchangeRateInput = {
+  where: Prisma.IncomeScalarWhereInput;
+  data: Prisma.XOR<
+    Prisma.IncomeUpdateManyMutationInput,
+    Prisma.IncomeUncheckedUpdateManyWithoutExchangeRateInput
+  >;
+};
+
+export type IncomeCreateManyUserInput = {
+  id?: string;
+  processedEmailId?: string | null;
+  source?: string | null;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  currency?: string;
+  category?: $Enums.IncomeCategory;
+  description?: string | null;
+  date: Date | string;
+  exchangeRateId?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+};
+
+export type IncomeUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  category?: Prisma.EnumIncomeCategoryFieldUpdateOperationsInput | $Enums.IncomeCategory;
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  processedEmail?: Prisma.ProcessedEmailUpdateOneWithoutIncomeNestedInput;
+  exchangeRate?: Prisma.ExchangeRateUpdateOneWithoutIncomesNestedInput;
+};
+
+export type IncomeUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  processedEmailId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  category?: Prisma.EnumIncomeCategoryFieldUpdateOperationsInput | $Enums.IncomeCategory;
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  exchangeRateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type IncomeUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  processedEmailId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  category?: Prisma.EnumIncomeCategoryFieldUpdateOperationsInput | $Enums.IncomeCategory;
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  exchangeRateId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type IncomeCreateManyExchangeRateInput = {
+  id?: string;
+  userId: string;
+  processedEmailId?: string | null;
+  source?: string | null;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  currency?: string;
+  category?: $Enums.IncomeCategory;
+  description?: string | null;
+  date: Date | string;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+};
+
+export type IncomeUpdateWithoutExchangeRateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  category?: Prisma.EnumIncomeCategoryFieldUpdateOperationsInput | $Enums.IncomeCategory;
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  user?: Prisma.UserUpdateOneRequiredWithoutIncomesNestedInput;
+  processedEmail?: Prisma.ProcessedEmailUpdateOneWithoutIncomeNestedInput;
+};
+
+export type IncomeUncheckedUpdateWithoutExchangeRateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  userId?: Prisma.StringFieldUpdateOperationsInput | string;
+  processedEmailId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  category?: Prisma.EnumIncomeCategoryFieldUpdateOperationsInput | $Enums.IncomeCategory;
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type IncomeUncheckedUpdateManyWithoutExchangeRateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  userId?: Prisma.StringFieldUpdateOperationsInput | string;
+  processedEmailId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  category?: Prisma.EnumIncomeCategoryFieldUpdateOperationsInput | $Enums.IncomeCategory;
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type IncomeSelect<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean;
+    userId?: boolean;
+    processedEmailId?: boolean;
+    source?: boolean;
+    amount?: boolean;
+    currency?: boolean;
+    category?: boolean;
+    description?: boolean;
+    date?: boolean;
+    exchangeRateId?: boolean;
+    createdAt?: boolean;
+    updatedAt?: boolean;
+    user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+    processedEmail?: boolean | Prisma.Income$processedEmailArgs<ExtArgs>;
+    exchangeRate?: boolean | Prisma.Income$exchangeRateArgs<ExtArgs>;
+  },
+  ExtArgs["result"]["income"]
+>;
+
+export type IncomeSelectCreateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean;
+    userId?: boolean;
+    processedEmailId?: boolean;
+    source?: boolean;
+    amount?: boolean;
+    currency?: boolean;
+    category?: boolean;
+    description?: boolean;
+    date?: boolean;
+    exchangeRateId?: boolean;
+    createdAt?: boolean;
+    updatedAt?: boolean;
+    user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+    processedEmail?: boolean | Prisma.Income$processedEmailArgs<ExtArgs>;
+    exchangeRate?: boolean | Prisma.Income$exchangeRateArgs<ExtArgs>;
+  },
+  ExtArgs["result"]["income"]
+>;
+
+export type IncomeSelectUpdateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean;
+    userId?: boolean;
+    processedEmailId?: boolean;
+    source?: boolean;
+    amount?: boolean;
+    currency?: boolean;
+    category?: boolean;
+    description?: boolean;
+    date?: boolean;
+    exchangeRateId?: boolean;
+    createdAt?: boolean;
+    updatedAt?: boolean;
+    user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+    processedEmail?: boolean | Prisma.Income$processedEmailArgs<ExtArgs>;
+    exchangeRate?: boolean | Prisma.Income$exchangeRateArgs<ExtArgs>;
+  },
+  ExtArgs["result"]["income"]
+>;
+
+export type IncomeSelectScalar = {
+  id?: boolean;
+  userId?: boolean;
+  processedEmailId?: boolean;
+  source?: boolean;
+  amount?: boolean;
+  currency?: boolean;
+  category?: boolean;
+  description?: boolean;
+  date?: boolean;
+  exchangeRateId?: boolean;
+  createdAt?: boolean;
+  updatedAt?: boolean;
+};
+
+export type IncomeOmit<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetOmit<
+  | "id"
+  | "userId"
+  | "processedEmailId"
+  | "source"
+  | "amount"
+  | "currency"
+  | "category"
+  | "description"
+  | "date"
+  | "exchangeRateId"
+  | "createdAt"
+  | "updatedAt",
+  ExtArgs["result"]["income"]
+>;
+export type IncomeInclude<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+  processedEmail?: boolean | Prisma.Income$processedEmailArgs<ExtArgs>;
+  exchangeRate?: boolean | Prisma.Income$exchangeRateArgs<ExtArgs>;
+};
+export type IncomeIncludeCreateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+  processedEmail?: boolean | Prisma.Income$processedEmailArgs<ExtArgs>;
+  exchangeRate?: boolean | Prisma.Income$exchangeRateArgs<ExtArgs>;
+};
+export type IncomeIncludeUpdateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+  processedEmail?: boolean | Prisma.Income$processedEmailArgs<ExtArgs>;
+  exchangeRate?: boolean | Prisma.Income$exchangeRateArgs<ExtArgs>;
+};
+
+export type $IncomePayload<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  name: "Income";
+  objects: {
+    user: Prisma.$UserPayload<ExtArgs>;
+    processedEmail: Prisma.$ProcessedEmailPayload<ExtArgs> | null;
+    exchangeRate: Prisma.$ExchangeRatePayload<ExtArgs> | null;
+  };
+  scalars: runtime.Types.Extensions.GetPayloadResult<
+    {
+      id: string;
+      userId: string;
+      processedEmailId: string | null;
+      source: string | null;
+      amount: runtime.Decimal;
+      currency: string;
+      category: $Enums.IncomeCategory;
+      description: string | null;
+      date: Date;
+      exchangeRateId: string | null;
+      createdAt: Date;
+      updatedAt: Date;
+    },
+    ExtArgs["result"]["income"]
+  >;
+  composites: {};
+};
+
+export type IncomeGetPayload<S extends boolean | null | undefined | IncomeDefaultArgs> =
+  runtime.Types.Result.GetResult<Prisma.$IncomePayload, S>;
+
+export type IncomeCountArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = Omit<IncomeFindManyArgs, "select" | "include" | "distinct" | "omit"> & {
+  select?: IncomeCountAggregateInputType | true;
+};
+
+export interface IncomeDelegate<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+  GlobalOmitOptions = {}
+> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>["model"]["Income"]; meta: { name: "Income" } };
+  /**
+   * Find zero or one Income that matches the filter.
+   * @param {IncomeFindUniqueArgs} args - Arguments to find a Income
+   * @example
+   * // Get one Income
+   * const income = await prisma.income.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends IncomeFindUniqueArgs>(
+    args: Prisma.SelectSubset<T, IncomeFindUniqueArgs<ExtArgs>>
+  ): Prisma.Prisma__IncomeClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$IncomePayload<ExtArgs>,
+      T,
+      "findUnique",
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find one Income that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {IncomeFindUniqueOrThrowArgs} args - Arguments to find a Income
+   * @example
+   * // Get one Income
+   * const income = await prisma.income.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends IncomeFindUniqueOrThrowArgs>(
+    args: Prisma.SelectSubset<T, IncomeFindUniqueOrThrowArgs<ExtArgs>>
+  ): Prisma.Prisma__IncomeClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$IncomePayload<ExtArgs>,
+      T,
+      "findUniqueOrThrow",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find the first Income that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {IncomeFindFirstArgs} args - Arguments to find a Income
+   * @example
+   * // Get one Income
+   * const income = await prisma.income.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends IncomeFindFirstArgs>(
+    args?: Prisma.SelectSubset<T, IncomeFindFirstArgs<ExtArgs>>
+  ): Prisma.Prisma__IncomeClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$IncomePayload<ExtArgs>,
+      T,
+      "findFirst",
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find the first Income that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {IncomeFindFirstOrThrowArgs} args - Arguments to find a Income
+   * @example
+   * // Get one Income
+   * const income = await prisma.income.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends IncomeFindFirstOrThrowArgs>(
+    args?: Prisma.SelectSubset<T, IncomeFindFirstOrThrowArgs<ExtArgs>>
+  ): Prisma.Prisma__IncomeClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$IncomePayload<ExtArgs>,
+      T,
+      "findFirstOrThrow",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find zero or more Incomes that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {IncomeFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all Incomes
+   * const incomes = await prisma.income.findMany()
+   *
+   * // Get first 10 Incomes
+   * const incomes = await prisma.income.findMany({ take: 10 })
+   *
+   * // Only select the `id`
+   * const incomeWithIdOnly = await prisma.income.findMany({ select: { id: true } })
+   *
+   */
+  findMany<T extends IncomeFindManyArgs>(
+    args?: Prisma.SelectSubset<T, IncomeFindManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<Prisma.$IncomePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>
+  >;
+
+  /**
+   * Create a Income.
+   * @param {IncomeCreateArgs} args - Arguments to create a Income.
+   * @example
+   * // Create one Income
+   * const Income = await prisma.income.create({
+   *   data: {
+   *     // ... data to create a Income
+   *   }
+   * })
+   *
+   */
+  create<T extends IncomeCreateArgs>(
+    args: Prisma.SelectSubset<T, IncomeCreateArgs<ExtArgs>>
+  ): Prisma.Prisma__IncomeClient<
+    runtime.Types.Result.GetResult<Prisma.$IncomePayload<ExtArgs>, T, "create", GlobalOmitOptions>,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Create many Incomes.
+   * @param {IncomeCreateManyArgs} args - Arguments to create many Incomes.
+   * @example
+   * // Create many Incomes
+   * const income = await prisma.income.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   */
+  createMany<T extends IncomeCreateManyArgs>(
+    args?: Prisma.SelectSubset<T, IncomeCreateManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+  /**
+   * Create many Incomes and returns the data saved in the database.
+   * @param {IncomeCreateManyAndReturnArgs} args - Arguments to create many Incomes.
+   * @example
+   * // Create many Incomes
+   * const income = await prisma.income.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   * // Create many Incomes and only return the `id`
+   * const incomeWithIdOnly = await prisma.income.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   *
+   */
+  createManyAndReturn<T extends IncomeCreateManyAndReturnArgs>(
+    args?: Prisma.SelectSubset<T, IncomeCreateManyAndReturnArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$IncomePayload<ExtArgs>,
+      T,
+      "createManyAndReturn",
+      GlobalOmitOptions
+    >
+  >;
+
+  /**
+   * Delete a Income.
+   * @param {IncomeDeleteArgs} args - Arguments to delete one Income.
+   * @example
+   * // Delete one Income
+   * const Income = await prisma.income.delete({
+   *   where: {
+   *     // ... filter to delete one Income
+   *   }
+   * })
+   *
+   */
+  delete<T extends IncomeDeleteArgs>(
+    args: Prisma.SelectSubset<T, IncomeDeleteArgs<ExtArgs>>
+  ): Prisma.Prisma__IncomeClient<
+    runtime.Types.Result.GetResult<Prisma.$IncomePayload<ExtArgs>, T, "delete", GlobalOmitOptions>,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Update one Income.
+   * @param {IncomeUpdateArgs} args - Arguments to update one Income.
+   * @example
+   * // Update one Income
+   * const income = await prisma.income.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   *
+   */
+  update<T extends IncomeUpdateArgs>(
+    args: Prisma.SelectSubset<T, IncomeUpdateArgs<ExtArgs>>
+  ): Prisma.Prisma__IncomeClient<
+    runtime.Types.Result.GetResult<Prisma.$IncomePayload<ExtArgs>, T, "update", GlobalOmitOptions>,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Delete zero or more Incomes.
+   * @param {IncomeDeleteManyArgs} args - Arguments to filter Incomes to delete.
+   * @example
+   * // Delete a few Incomes
+   * const { count } = await prisma.income.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   *
+   */
+  deleteMany<T extends IncomeDeleteManyArgs>(
+    args?: Prisma.SelectSubset<T, IncomeDeleteManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+  /**
+   * Update zero or more Incomes.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {IncomeUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many Incomes
+   * const income = await prisma.income.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   *
+   */
+  updateMany<T extends IncomeUpdateManyArgs>(
+    args: Prisma.SelectSubset<T, IncomeUpdateManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+  /**
+   * Update zero or more Incomes and returns the data updated in the database.
+   * @param {IncomeUpdateManyAndReturnArgs} args - Arguments to update many Incomes.
+   * @example
+   * // Update many Incomes
+   * const income = await prisma.income.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   * // Update zero or more Incomes and only return the `id`
+   * const incomeWithIdOnly = await prisma.income.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   *
+   */
+  updateManyAndReturn<T extends IncomeUpdateManyAndReturnArgs>(
+    args: Prisma.SelectSubset<T, IncomeUpdateManyAndReturnArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$IncomePayload<ExtArgs>,
+      T,
+      "updateManyAndReturn",
+      GlobalOmitOptions
+    >
+  >;
+
+  /**
+   * Create or update one Income.
+   * @param {IncomeUpsertArgs} args - Arguments to update or create a Income.
+   * @example
+   * // Update or create a Income
+   * const income = await prisma.income.upsert({
+   *   create: {
+   *     // ... data to create a Income
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the Income we want to update
+   *   }
+   * })
+   */
+  upsert<T extends IncomeUpsertArgs>(
+    args: Prisma.SelectSubset<T, IncomeUpsertArgs<ExtArgs>>
+  ): Prisma.Prisma__IncomeClient<
+    runtime.Types.Result.GetResult<Prisma.$IncomePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Count the number of Incomes.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {IncomeCountArgs} args - Arguments to filter Incomes to count.
+   * @example
+   * // Count the number of Incomes
+   * const count = await prisma.income.count({
+   *   where: {
+   *     // ... the filter for the Incomes we want to count
+   *   }
+   * })
+   **/
+  count<T extends IncomeCountArgs>(
+    args?: Prisma.Subset<T, IncomeCountArgs>
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<"select", any>
+      ? T["select"] extends true
+        ? number
+        : Prisma.GetScalarType<T["select"], IncomeCountAggregateOutputType>
+      : number
+  >;
+
+  /**
+   * Allows you to perform aggregations operations on a Income.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {IncomeAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+   **/
+  aggregate<T extends IncomeAggregateArgs>(
+    args: Prisma.Subset<T, IncomeAggregateArgs>
+  ): Prisma.PrismaPromise<GetIncomeAggregateType<T>>;
+
+  /**
+   * Group by Income.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {IncomeGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   *
+   **/
+  groupBy<
+    T extends IncomeGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<"skip", Prisma.Keys<T>>,
+      Prisma.Extends<"take", Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: IncomeGroupByArgs["orderBy"] }
+      : { orderBy?: IncomeGroupByArgs["orderBy"] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<
+      Prisma.Keys<Prisma.MaybeTupleToUnion<T["orderBy"]>>
+    >,
+    ByFields extends Prisma.MaybeTupleToUnion<T["by"]>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T["having"]>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T["by"] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends Prisma.False
+        ? {
+            [P in HavingFields]: P extends ByFields
+              ? never
+              : P extends string
+                ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+                : [Error, "Field ", P, ` in "having" needs to be provided in "by"`];
+          }[HavingFields]
+        : "take" extends Prisma.Keys<T>
+          ? "orderBy" extends Prisma.Keys<T>
+            ? ByValid extends Prisma.True
+              ? {}
+              : {
+                  [P in OrderFields]: P extends ByFields
+                    ? never
+                    : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                }[OrderFields]
+            : 'Error: If you provide "take", you also need to provide "orderBy"'
+          : "skip" extends Prisma.Keys<T>
+            ? "orderBy" extends Prisma.Keys<T>
+              ? ByValid extends Prisma.True
+                ? {}
+                : {
+                    [P in OrderFields]: P extends ByFields
+                      ? never
+                      : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                  }[OrderFields]
+              : 'Error: If you provide "skip", you also need to provide "orderBy"'
+            : ByValid extends Prisma.True
+              ? {}
+              : {
+                  [P in OrderFields]: P extends ByFields
+                    ? never
+                    : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                }[OrderFields]
+  >(
+    args: Prisma.SubsetIntersection<T, IncomeGroupByArgs, OrderByArg> & InputErrors
+  ): {} extends InputErrors ? GetIncomeGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>;
+  /**
+   * Fields of the Income model
+   */
+  readonly fields: IncomeFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for Income.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__IncomeClient<
+  T,
+  Null = never,
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+  GlobalOmitOptions = {}
+> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise";
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>
+  ): Prisma.Prisma__UserClient<
+    | runtime.Types.Result.GetResult<
+        Prisma.$UserPayload<ExtArgs>,
+        T,
+        "findUniqueOrThrow",
+        GlobalOmitOptions
+      >
+    | Null,
+    Null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+  processedEmail<T extends Prisma.Income$processedEmailArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.Income$processedEmailArgs<ExtArgs>>
+  ): Prisma.Prisma__ProcessedEmailClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ProcessedEmailPayload<ExtArgs>,
+      T,
+      "findUniqueOrThrow",
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+  exchangeRate<T extends Prisma.Income$exchangeRateArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.Income$exchangeRateArgs<ExtArgs>>
+  ): Prisma.Prisma__ExchangeRateClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$ExchangeRatePayload<ExtArgs>,
+      T,
+      "findUniqueOrThrow",
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(
+    onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null
+  ): runtime.Types.Utils.JsPromise<TResult1 | TResult2>;
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(
+    onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null
+  ): runtime.Types.Utils.JsPromise<T | TResult>;
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>;
+}
+
+/**
+ * Fields of the Income model
+ */
+export interface IncomeFieldRefs {
+  readonly id: Prisma.FieldRef<"Income", "String">;
+  readonly userId: Prisma.FieldRef<"Income", "String">;
+  readonly processedEmailId: Prisma.FieldRef<"Income", "String">;
+  readonly source: Prisma.FieldRef<"Income", "String">;
+  readonly amount: Prisma.FieldRef<"Income", "Decimal">;
+  readonly currency: Prisma.FieldRef<"Income", "String">;
+  readonly category: Prisma.FieldRef<"Income", "IncomeCategory">;
+  readonly description: Prisma.FieldRef<"Income", "String">;
+  readonly date: Prisma.FieldRef<"Income", "DateTime">;
+  readonly exchangeRateId: Prisma.FieldRef<"Income", "String">;
+  readonly createdAt: Prisma.FieldRef<"Income", "DateTime">;
+  readonly updatedAt: Prisma.FieldRef<"Income", "DateTime">;
+}
+
+// Custom InputTypes
+/**
+ * Income findUnique
+ */
+export type IncomeFindUniqueArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the Income
+   */
+  select?: Prisma.IncomeSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the Income
+   */
+  omit?: Prisma.IncomeOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IncomeInclude<ExtArgs> | null;
+  /**
+   * Filter, which Income to fetch.
+   */
+  where: Prisma.IncomeWhereUniqueInput;
+};
+
+/**
+ * Income findUniqueOrThrow
+ */
+export type IncomeFindUniqueOrThrowArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the Income
+   */
+  select?: Prisma.IncomeSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the Income
+   */
+  omit?: Prisma.IncomeOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IncomeInclude<ExtArgs> | null;
+  /**
+   * Filter, which Income to fetch.
+   */
+  where: Prisma.IncomeWhereUniqueInput;
+};
+
+/**
+ * Income findFirst
+ */
+export type IncomeFindFirstArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the Income
+   */
+  select?: Prisma.IncomeSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the Income
+   */
+  omit?: Prisma.IncomeOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IncomeInclude<ExtArgs> | null;
+  /**
+   * Filter, which Income to fetch.
+   */
+  where?: Prisma.IncomeWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of Incomes to fetch.
+   */
+  orderBy?: Prisma.IncomeOrderByWithRelationInput | Prisma.IncomeOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for searching for Incomes.
+   */
+  cursor?: Prisma.IncomeWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` Incomes from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` Incomes.
+   */
+  skip?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   *
+   * Filter by unique combinations of Incomes.
+   */
+  distinct?: Prisma.IncomeScalarFieldEnum | Prisma.IncomeScalarFieldEnum[];
+};
+
+/**
+ * Income findFirstOrThrow
+ */
+export type IncomeFindFirstOrThrowArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the Income
+   */
+  select?: Prisma.IncomeSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the Income
+   */
+  omit?: Prisma.IncomeOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IncomeInclude<ExtArgs> | null;
+  /**
+   * Filter, which Income to fetch.
+   */
+  where?: Prisma.IncomeWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of Incomes to fetch.
+   */
+  orderBy?: Prisma.IncomeOrderByWithRelationInput | Prisma.IncomeOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for searching for Incomes.
+   */
+  cursor?: Prisma.IncomeWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` Incomes from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` Incomes.
+   */
+  skip?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   *
+   * Filter by unique combinations of Incomes.
+   */
+  distinct?: Prisma.IncomeScalarFieldEnum | Prisma.IncomeScalarFieldEnum[];
+};
+
+/**
+ * Income findMany
+ */
+export type IncomeFindManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the Income
+   */
+  select?: Prisma.IncomeSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the Income
+   */
+  omit?: Prisma.IncomeOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IncomeInclude<ExtArgs> | null;
+  /**
+   * Filter, which Incomes to fetch.
+   */
+  where?: Prisma.IncomeWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of Incomes to fetch.
+   */
+  orderBy?: Prisma.IncomeOrderByWithRelationInput | Prisma.IncomeOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for listing Incomes.
+   */
+  cursor?: Prisma.IncomeWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` Incomes from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` Incomes.
+   */
+  skip?: number;
+  distinct?: Prisma.IncomeScalarFieldEnum | Prisma.IncomeScalarFieldEnum[];
+};
+
+/**
+ * Income create
+ */
+export type IncomeCreateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the Income
+   */
+  select?: Prisma.IncomeSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the Income
+   */
+  omit?: Prisma.IncomeOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IncomeInclude<ExtArgs> | null;
+  /**
+   * The data needed to create a Income.
+   */
+  data: Prisma.XOR<Prisma.IncomeCreateInput, Prisma.IncomeUncheckedCreateInput>;
+};
+
+/**
+ * Income createMany
+ */
+export type IncomeCreateManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * The data used to create many Incomes.
+   */
+  data: Prisma.IncomeCreateManyInput | Prisma.IncomeCreateManyInput[];
+  skipDuplicates?: boolean;
+};
+
+/**
+ * Income createManyAndReturn
+ */
+export type IncomeCreateManyAndReturnArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the Income
+   */
+  select?: Prisma.IncomeSelectCreateManyAndReturn<ExtArgs> | null;
+  /**
+   * Omit specific fields from the Income
+   */
+  omit?: Prisma.IncomeOmit<ExtArgs> | null;
+  /**
+   * The data used to create many Incomes.
+   */
+  data: Prisma.IncomeCreateManyInput | Prisma.IncomeCreateManyInput[];
+  skipDuplicates?: boolean;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IncomeIncludeCreateManyAndReturn<ExtArgs> | null;
+};
+
+/**
+ * Income update
+ */
+export type IncomeUpdateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the Income
+   */
+  select?: Prisma.IncomeSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the Income
+   */
+  omit?: Prisma.IncomeOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IncomeInclude<ExtArgs> | null;
+  /**
+   * The data needed to update a Income.
+   */
+  data: Prisma.XOR<Prisma.IncomeUpdateInput, Prisma.IncomeUncheckedUpdateInput>;
+  /**
+   * Choose, which Income to update.
+   */
+  where: Prisma.IncomeWhereUniqueInput;
+};
+
+/**
+ * Income updateMany
+ */
+export type IncomeUpdateManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * The data used to update Incomes.
+   */
+  data: Prisma.XOR<Prisma.IncomeUpdateManyMutationInput, Prisma.IncomeUncheckedUpdateManyInput>;
+  /**
+   * Filter which Incomes to update
+   */
+  where?: Prisma.IncomeWhereInput;
+  /**
+   * Limit how many Incomes to update.
+   */
+  limit?: number;
+};
+
+/**
+ * Income updateManyAndReturn
+ */
+export type IncomeUpdateManyAndReturnArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the Income
+   */
+  select?: Prisma.IncomeSelectUpdateManyAndReturn<ExtArgs> | null;
+  /**
+   * Omit specific fields from the Income
+   */
+  omit?: Prisma.IncomeOmit<ExtArgs> | null;
+  /**
+   * The data used to update Incomes.
+   */
+  data: Prisma.XOR<Prisma.IncomeUpdateManyMutationInput, Prisma.IncomeUncheckedUpdateManyInput>;
+  /**
+   * Filter which Incomes to update
+   */
+  where?: Prisma.IncomeWhereInput;
+  /**
+   * Limit how many Incomes to update.
+   */
+  limit?: number;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IncomeIncludeUpdateManyAndReturn<ExtArgs> | null;
+};
+
+/**
+ * Income upsert
+ */
+export type IncomeUpsertArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the Income
+   */
+  select?: Prisma.IncomeSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the Income
+   */
+  omit?: Prisma.IncomeOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IncomeInclude<ExtArgs> | null;
+  /**
+   * The filter to search for the Income to update in case it exists.
+   */
+  where: Prisma.IncomeWhereUniqueInput;
+  /**
+   * In case the Income found by the `where` argument doesn't exist, create a new Income with this data.
+   */
+  create: Prisma.XOR<Prisma.IncomeCreateInput, Prisma.IncomeUncheckedCreateInput>;
+  /**
+   * In case the Income was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.IncomeUpdateInput, Prisma.IncomeUncheckedUpdateInput>;
+};
+
+/**
+ * Income delete
+ */
+export type IncomeDeleteArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the Income
+   */
+  select?: Prisma.IncomeSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the Income
+   */
+  omit?: Prisma.IncomeOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IncomeInclude<ExtArgs> | null;
+  /**
+   * Filter which Income to delete.
+   */
+  where: Prisma.IncomeWhereUniqueInput;
+};
+
+/**
+ * Income deleteMany
+ */
+export type IncomeDeleteManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Filter which Incomes to delete
+   */
+  where?: Prisma.IncomeWhereInput;
+  /**
+   * Limit how many Incomes to delete.
+   */
+  limit?: number;
+};
+
+/**
+ * Income.processedEmail
+ */
+export type Income$processedEmailArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ProcessedEmail
+   */
+  select?: Prisma.ProcessedEmailSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ProcessedEmail
+   */
+  omit?: Prisma.ProcessedEmailOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ProcessedEmailInclude<ExtArgs> | null;
+  where?: Prisma.ProcessedEmailWhereInput;
+};
+
+/**
+ * Income.exchangeRate
+ */
+export type Income$exchangeRateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExchangeRate
+   */
+  select?: Prisma.ExchangeRateSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExchangeRate
+   */
+  omit?: Prisma.ExchangeRateOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExchangeRateInclude<ExtArgs> | null;
+  where?: Prisma.ExchangeRateWhereInput;
+};
+
+/**
+ * Income without action
+ */
+export type IncomeDefaultArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the Income
+   */
+  select?: Prisma.IncomeSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the Income
+   */
+  omit?: Prisma.IncomeOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IncomeInclude<ExtArgs> | null;
+};
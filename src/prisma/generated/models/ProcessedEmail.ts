@@ -27,6 +27,7 @@ export type AggregateProcessedEmail = {
 export type ProcessedEmailMinAggregateOutputType = {
   id: string | null;
   userId: string | null;
+  accountId: string | null;
   gmailMessageId: string | null;
   threadId: string | null;
   subject: string | null;
@@ -36,11 +37,13 @@ export type ProcessedEmailMinAggregateOutputType = {
   emailType: $Enums.EmailType | null;
   reminderId: string | null;
   status: $Enums.ProcessedEmailStatus | null;
+  digestPending: boolean | null;
 };
 
 export type ProcessedEmailMaxAggregateOutputType = {
   id: string | null;
   userId: string | null;
+  accountId: string | null;
   gmailMessageId: string | null;
   threadId: string | null;
   subject: string | null;
@@ -50,11 +53,13 @@ export type ProcessedEmailMaxAggregateOutputType = {
   emailType: $Enums.EmailType | null;
   reminderId: string | null;
   status: $Enums.ProcessedEmailStatus | null;
+  digestPending: boolean | null;
 };
 
 export type ProcessedEmailCountAggregateOutputType = {
   id: number;
   userId: number;
+  accountId: number;
   gmailMessageId: number;
   threadId: number;
   subject: number;
@@ -65,12 +70,14 @@ export type ProcessedEmailCountAggregateOutputType = {
   extractedData: number;
   reminderId: number;
   status: number;
+  digestPending: number;
   _all: number;
 };
 
 export type ProcessedEmailMinAggregateInputType = {
   id?: true;
   userId?: true;
+  accountId?: true;
   gmailMessageId?: true;
   threadId?: true;
   subject?: true;
@@ -80,11 +87,13 @@ export type ProcessedEmailMinAggregateInputType = {
   emailType?: true;
   reminderId?: true;
   status?: true;
+  digestPending?: true;
 };
 
 export type ProcessedEmailMaxAggregateInputType = {
   id?: true;
   userId?: true;
+  accountId?: true;
   gmailMessageId?: true;
   threadId?: true;
   subject?: true;
@@ -94,11 +103,13 @@ export type ProcessedEmailMaxAggregateInputType = {
   emailType?: true;
   reminderId?: true;
   status?: true;
+  digestPending?: true;
 };
 
 export type ProcessedEmailCountAggregateInputType = {
   id?: true;
   userId?: true;
+  accountId?: true;
   gmailMessageId?: true;
   threadId?: true;
   subject?: true;
@@ -109,6 +120,7 @@ export type ProcessedEmailCountAggregateInputType = {
   extractedData?: true;
   reminderId?: true;
   status?: true;
+  digestPending?: true;
   _all?: true;
 };
 
@@ -192,6 +204,7 @@ export type ProcessedEmailGroupByArgs<
 export type ProcessedEmailGroupByOutputType = {
   id: string;
   userId: string;
+  accountId: string | null;
   gmailMessageId: string;
   threadId: string | null;
   subject: string | null;
@@ -202,6 +215,7 @@ export type ProcessedEmailGroupByOutputType = {
   extractedData: runtime.JsonValue | null;
   reminderId: string | null;
   status: $Enums.ProcessedEmailStatus;
+  digestPending: boolean;
   _count: ProcessedEmailCountAggregateOutputType | null;
   _min: ProcessedEmailMinAggregateOutputType | null;
   _max: ProcessedEmailMaxAggregateOutputType | null;
@@ -225,6 +239,7 @@ export type ProcessedEmailWhereInput = {
   NOT?: Prisma.ProcessedEmailWhereInput | Prisma.ProcessedEmailWhereInput[];
   id?: Prisma.StringFilter<"ProcessedEmail"> | string;
   userId?: Prisma.StringFilter<"ProcessedEmail"> | string;
+  accountId?: Prisma.StringNullableFilter<"ProcessedEmail"> | string | null;
   gmailMessageId?: Prisma.StringFilter<"ProcessedEmail"> | string;
   threadId?: Prisma.StringNullableFilter<"ProcessedEmail"> | string | null;
   subject?: Prisma.StringNullableFilter<"ProcessedEmail"> | string | null;
@@ -235,13 +250,16 @@ export type ProcessedEmailWhereInput = {
   extractedData?: Prisma.JsonNullableFilter<"ProcessedEmail">;
   reminderId?: Prisma.StringNullableFilter<"ProcessedEmail"> | string | null;
   status?: Prisma.EnumProcessedEmailStatusFilter<"ProcessedEmail"> | $Enums.ProcessedEmailStatus;
+  digestPending?: Prisma.BoolFilter<"ProcessedEmail"> | boolean;
   user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>;
   expense?: Prisma.XOR<Prisma.ExpenseNullableScalarRelationFilter, Prisma.ExpenseWhereInput> | null;
+  income?: Prisma.XOR<Prisma.IncomeNullableScalarRelationFilter, Prisma.IncomeWhereInput> | null;
 };
 
 export type ProcessedEmailOrderByWithRelationInput = {
   id?: Prisma.SortOrder;
   userId?: Prisma.SortOrder;
+  accountId?: Prisma.SortOrderInput | Prisma.SortOrder;
   gmailMessageId?: Prisma.SortOrder;
   threadId?: Prisma.SortOrderInput | Prisma.SortOrder;
   subject?: Prisma.SortOrderInput | Prisma.SortOrder;
@@ -252,19 +270,22 @@ export type ProcessedEmailOrderByWithRelationInput = {
   extractedData?: Prisma.SortOrderInput | Prisma.SortOrder;
   reminderId?: Prisma.SortOrderInput | Prisma.SortOrder;
   status?: Prisma.SortOrder;
+  digestPending?: Prisma.SortOrder;
   user?: Prisma.UserOrderByWithRelationInput;
   expense?: Prisma.ExpenseOrderByWithRelationInput;
+  income?: Prisma.IncomeOrderByWithRelationInput;
 };
 
 export type ProcessedEmailWhereUniqueInput = Prisma.AtLeast<
   {
     id?: string;
     reminderId?: string;
-    userId_gmailMessageId?: Prisma.ProcessedEmailUserIdGmailMessageIdCompoundUniqueInput;
+    userId_accountId_gmailMessageId?: Prisma.ProcessedEmailUserIdAccountIdGmailMessageIdCompoundUniqueInput;
     AND?: Prisma.ProcessedEmailWhereInput | Prisma.ProcessedEmailWhereInput[];
     OR?: Prisma.ProcessedEmailWhereInput[];
     NOT?: Prisma.ProcessedEmailWhereInput | Prisma.ProcessedEmailWhereInput[];
     userId?: Prisma.StringFilter<"ProcessedEmail"> | string;
+    accountId?: Prisma.StringNullableFilter<"ProcessedEmail"> | string | null;
     gmailMessageId?: Prisma.StringFilter<"ProcessedEmail"> | string;
     threadId?: Prisma.StringNullableFilter<"ProcessedEmail"> | string | null;
     subject?: Prisma.StringNullableFilter<"ProcessedEmail"> | string | null;
@@ -274,18 +295,21 @@ export type ProcessedEmailWhereUniqueInput = Prisma.AtLeast<
     emailType?: Prisma.EnumEmailTypeFilter<"ProcessedEmail"> | $Enums.EmailType;
     extractedData?: Prisma.JsonNullableFilter<"ProcessedEmail">;
     status?: Prisma.EnumProcessedEmailStatusFilter<"ProcessedEmail"> | $Enums.ProcessedEmailStatus;
+    digestPending?: Prisma.BoolFilter<"ProcessedEmail"> | boolean;
     user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>;
     expense?: Prisma.XOR<
       Prisma.ExpenseNullableScalarRelationFilter,
       Prisma.ExpenseWhereInput
     > | null;
+    income?: Prisma.XOR<Prisma.IncomeNullableScalarRelationFilter, Prisma.IncomeWhereInput> | null;
   },
-  "id" | "reminderId" | "userId_gmailMessageId"
+  "id" | "reminderId" | "userId_accountId_gmailMessageId"
 >;
 
 export type ProcessedEmailOrderByWithAggregationInput = {
   id?: Prisma.SortOrder;
   userId?: Prisma.SortOrder;
+  accountId?: Prisma.SortOrderInput | Prisma.SortOrder;
   gmailMessageId?: Prisma.SortOrder;
   threadId?: Prisma.SortOrderInput | Prisma.SortOrder;
   subject?: Prisma.SortOrderInput | Prisma.SortOrder;
@@ -296,6 +320,7 @@ export type ProcessedEmailOrderByWithAggregationInput = {
   extractedData?: Prisma.SortOrderInput | Prisma.SortOrder;
   reminderId?: Prisma.SortOrderInput | Prisma.SortOrder;
   status?: Prisma.SortOrder;
+  digestPending?: Prisma.SortOrder;
   _count?: Prisma.ProcessedEmailCountOrderByAggregateInput;
   _max?: Prisma.ProcessedEmailMaxOrderByAggregateInput;
   _min?: Prisma.ProcessedEmailMinOrderByAggregateInput;
@@ -311,6 +336,7 @@ export type ProcessedEmailScalarWhereWithAggregatesInput = {
     | Prisma.ProcessedEmailScalarWhereWithAggregatesInput[];
   id?: Prisma.StringWithAggregatesFilter<"ProcessedEmail"> | string;
   userId?: Prisma.StringWithAggregatesFilter<"ProcessedEmail"> | string;
+  accountId?: Prisma.StringNullableWithAggregatesFilter<"ProcessedEmail"> | string | null;
   gmailMessageId?: Prisma.StringWithAggregatesFilter<"ProcessedEmail"> | string;
   threadId?: Prisma.StringNullableWithAggregatesFilter<"ProcessedEmail"> | string | null;
   subject?: Prisma.StringNullableWithAggregatesFilter<"ProcessedEmail"> | string | null;
@@ -323,10 +349,12 @@ export type ProcessedEmailScalarWhereWithAggregatesInput = {
   status?:
     | Prisma.EnumProcessedEmailStatusWithAggregatesFilter<"ProcessedEmail">
     | $Enums.ProcessedEmailStatus;
+  digestPending?: Prisma.BoolWithAggregatesFilter<"ProcessedEmail"> | boolean;
 };
 
 export type ProcessedEmailCreateInput = {
   id?: string;
+  accountId?: string | null;
   gmailMessageId: string;
   threadId?: string | null;
   subject?: string | null;
@@ -337,13 +365,16 @@ export type ProcessedEmailCreateInput = {
   extractedData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
   reminderId?: string | null;
   status?: $Enums.ProcessedEmailStatus;
+  digestPending?: boolean;
   user: Prisma.UserCreateNestedOneWithoutProcessedEmailsInput;
   expense?: Prisma.ExpenseCreateNestedOneWithoutProcessedEmailInput;
+  income?: Prisma.IncomeCreateNestedOneWithoutProcessedEmailInput;
 };
 
 export type ProcessedEmailUncheckedCreateInput = {
   id?: string;
   userId: string;
+  accountId?: string | null;
   gmailMessageId: string;
   threadId?: string | null;
   subject?: string | null;
@@ -354,11 +385,14 @@ export type ProcessedEmailUncheckedCreateInput = {
   extractedData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
   reminderId?: string | null;
   status?: $Enums.ProcessedEmailStatus;
+  digestPending?: boolean;
   expense?: Prisma.ExpenseUncheckedCreateNestedOneWithoutProcessedEmailInput;
+  income?: Prisma.IncomeUncheckedCreateNestedOneWithoutProcessedEmailInput;
 };
 
 export type ProcessedEmailUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
+  accountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   gmailMessageId?: Prisma.StringFieldUpdateOperationsInput | string;
   threadId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   subject?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
@@ -369,13 +403,16 @@ export type ProcessedEmailUpdateInput = {
   extractedData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
   reminderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   status?: Prisma.EnumProcessedEmailStatusFieldUpdateOperationsInput | $Enums.ProcessedEmailStatus;
+  digestPending?: Prisma.BoolFieldUpdateOperationsInput | boolean;
   user?: Prisma.UserUpdateOneRequiredWithoutProcessedEmailsNestedInput;
   expense?: Prisma.ExpenseUpdateOneWithoutProcessedEmailNestedInput;
+  income?: Prisma.IncomeUpdateOneWithoutProcessedEmailNestedInput;
 };
 
 export type ProcessedEmailUncheckedUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
   userId?: Prisma.StringFieldUpdateOperationsInput | string;
+  accountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   gmailMessageId?: Prisma.StringFieldUpdateOperationsInput | string;
   threadId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   subject?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
@@ -386,12 +423,15 @@ export type ProcessedEmailUncheckedUpdateInput = {
   extractedData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
   reminderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   status?: Prisma.EnumProcessedEmailStatusFieldUpdateOperationsInput | $Enums.ProcessedEmailStatus;
+  digestPending?: Prisma.BoolFieldUpdateOperationsInput | boolean;
   expense?: Prisma.ExpenseUncheckedUpdateOneWithoutProcessedEmailNestedInput;
+  income?: Prisma.IncomeUncheckedUpdateOneWithoutProcessedEmailNestedInput;
 };
 
 export type ProcessedEmailCreateManyInput = {
   id?: string;
   userId: string;
+  accountId?: string | null;
   gmailMessageId: string;
   threadId?: string | null;
   subject?: string | null;
@@ -402,10 +442,12 @@ export type ProcessedEmailCreateManyInput = {
   extractedData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
   reminderId?: string | null;
   status?: $Enums.ProcessedEmailStatus;
+  digestPending?: boolean;
 };
 
 export type ProcessedEmailUpdateManyMutationInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
+  accountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   gmailMessageId?: Prisma.StringFieldUpdateOperationsInput | string;
   threadId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   subject?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
@@ -416,11 +458,13 @@ export type ProcessedEmailUpdateManyMutationInput = {
   extractedData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
   reminderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   status?: Prisma.EnumProcessedEmailStatusFieldUpdateOperationsInput | $Enums.ProcessedEmailStatus;
+  digestPending?: Prisma.BoolFieldUpdateOperationsInput | boolean;
 };
 
 export type ProcessedEmailUncheckedUpdateManyInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
   userId?: Prisma.StringFieldUpdateOperationsInput | string;
+  accountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   gmailMessageId?: Prisma.StringFieldUpdateOperationsInput | string;
   threadId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   subject?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
@@ -431,6 +475,7 @@ export type ProcessedEmailUncheckedUpdateManyInput = {
   extractedData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
   reminderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   status?: Prisma.EnumProcessedEmailStatusFieldUpdateOperationsInput | $Enums.ProcessedEmailStatus;
+  digestPending?: Prisma.BoolFieldUpdateOperationsInput | boolean;
 };
 
 export type ProcessedEmailListRelationFilter = {
@@ -443,14 +488,16 @@ export type ProcessedEmailOrderByRelationAggregateInput = {
   _count?: Prisma.SortOrder;
 };
 
-export type ProcessedEmailUserIdGmailMessageIdCompoundUniqueInput = {
+export type ProcessedEmailUserIdAccountIdGmailMessageIdCompoundUniqueInput = {
   userId: string;
+  accountId: string;
   gmailMessageId: string;
 };
 
 export type ProcessedEmailCountOrderByAggregateInput = {
   id?: Prisma.SortOrder;
   userId?: Prisma.SortOrder;
+  accountId?: Prisma.SortOrder;
   gmailMessageId?: Prisma.SortOrder;
   threadId?: Prisma.SortOrder;
   subject?: Prisma.SortOrder;
@@ -461,11 +508,13 @@ export type ProcessedEmailCountOrderByAggregateInput = {
   extractedData?: Prisma.SortOrder;
   reminderId?: Prisma.SortOrder;
   status?: Prisma.SortOrder;
+  digestPending?: Prisma.SortOrder;
 };
 
 export type ProcessedEmailMaxOrderByAggregateInput = {
   id?: Prisma.SortOrder;
   userId?: Prisma.SortOrder;
+  accountId?: Prisma.SortOrder;
   gmailMessageId?: Prisma.SortOrder;
   threadId?: Prisma.SortOrder;
   subject?: Prisma.SortOrder;
@@ -475,11 +524,13 @@ export type ProcessedEmailMaxOrderByAggregateInput = {
   emailType?: Prisma.SortOrder;
   reminderId?: Prisma.SortOrder;
   status?: Prisma.SortOrder;
+  digestPending?: Prisma.SortOrder;
 };
 
 export type ProcessedEmailMinOrderByAggregateInput = {
   id?: Prisma.SortOrder;
   userId?: Prisma.SortOrder;
+  accountId?: Prisma.SortOrder;
   gmailMessageId?: Prisma.SortOrder;
   threadId?: Prisma.SortOrder;
   subject?: Prisma.SortOrder;
@@ -489,6 +540,7 @@ export type ProcessedEmailMinOrderByAggregateInput = {
   emailType?: Prisma.SortOrder;
   reminderId?: Prisma.SortOrder;
   status?: Prisma.SortOrder;
+  digestPending?: Prisma.SortOrder;
 };
 
 export type ProcessedEmailNullableScalarRelationFilter = {
@@ -618,8 +670,37 @@ export type ProcessedEmailUpdateOneWithoutExpenseNestedInput = {
   >;
 };
 
+export type ProcessedEmailCreateNestedOneWithoutIncomeInput = {
+  create?: Prisma.XOR<
+    Prisma.ProcessedEmailCreateWithoutIncomeInput,
+    Prisma.ProcessedEmailUncheckedCreateWithoutIncomeInput
+  >;
+  connectOrCreate?: Prisma.ProcessedEmailCreateOrConnectWithoutIncomeInput;
+  connect?: Prisma.ProcessedEmailWhereUniqueInput;
+};
+
+export type ProcessedEmailUpdateOneWithoutIncomeNestedInput = {
+  create?: Prisma.XOR<
+    Prisma.ProcessedEmailCreateWithoutIncomeInput,
+    Prisma.ProcessedEmailUncheckedCreateWithoutIncomeInput
+  >;
+  connectOrCreate?: Prisma.ProcessedEmailCreateOrConnectWithoutIncomeInput;
+  upsert?: Prisma.ProcessedEmailUpsertWithoutIncomeInput;
+  disconnect?: Prisma.ProcessedEmailWhereInput | boolean;
+  delete?: Prisma.ProcessedEmailWhereInput | boolean;
+  connect?: Prisma.ProcessedEmailWhereUniqueInput;
+  update?: Prisma.XOR<
+    Prisma.XOR<
+      Prisma.ProcessedEmailUpdateToOneWithWhereWithoutIncomeInput,
+      Prisma.ProcessedEmailUpdateWithoutIncomeInput
+    >,
+    Prisma.ProcessedEmailUncheckedUpdateWithoutIncomeInput
+  >;
+};
+
 export type ProcessedEmailCreateWithoutUserInput = {
   id?: string;
+  accountId?: string | null;
   gmailMessageId: string;
   threadId?: string | null;
   subject?: string | null;
@@ -630,11 +711,14 @@ export type ProcessedEmailCreateWithoutUserInput = {
   extractedData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
   reminderId?: string | null;
   status?: $Enums.ProcessedEmailStatus;
+  digestPending?: boolean;
   expense?: Prisma.ExpenseCreateNestedOneWithoutProcessedEmailInput;
+  income?: Prisma.IncomeCreateNestedOneWithoutProcessedEmailInput;
 };
 
 export type ProcessedEmailUncheckedCreateWithoutUserInput = {
   id?: string;
+  accountId?: string | null;
   gmailMessageId: string;
   threadId?: string | null;
   subject?: string | null;
@@ -645,7 +729,9 @@ export type ProcessedEmailUncheckedCreateWithoutUserInput = {
   extractedData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
   reminderId?: string | null;
   status?: $Enums.ProcessedEmailStatus;
+  digestPending?: boolean;
   expense?: Prisma.ExpenseUncheckedCreateNestedOneWithoutProcessedEmailInput;
+  income?: Prisma.IncomeUncheckedCreateNestedOneWithoutProcessedEmailInput;
 };
 
 export type ProcessedEmailCreateOrConnectWithoutUserInput = {
@@ -695,6 +781,7 @@ export type ProcessedEmailScalarWhereInput = {
   NOT?: Prisma.ProcessedEmailScalarWhereInput | Prisma.ProcessedEmailScalarWhereInput[];
   id?: Prisma.StringFilter<"ProcessedEmail"> | string;
   userId?: Prisma.StringFilter<"ProcessedEmail"> | string;
+  accountId?: Prisma.StringNullableFilter<"ProcessedEmail"> | string | null;
   gmailMessageId?: Prisma.StringFilter<"ProcessedEmail"> | string;
   threadId?: Prisma.StringNullableFilter<"ProcessedEmail"> | string | null;
   subject?: Prisma.StringNullableFilter<"ProcessedEmail"> | string | null;
@@ -705,10 +792,12 @@ export type ProcessedEmailScalarWhereInput = {
   extractedData?: Prisma.JsonNullableFilter<"ProcessedEmail">;
   reminderId?: Prisma.StringNullableFilter<"ProcessedEmail"> | string | null;
   status?: Prisma.EnumProcessedEmailStatusFilter<"ProcessedEmail"> | $Enums.ProcessedEmailStatus;
+  digestPending?: Prisma.BoolFilter<"ProcessedEmail"> | boolean;
 };
 
 export type ProcessedEmailCreateWithoutExpenseInput = {
   id?: string;
+  accountId?: string | null;
   gmailMessageId: string;
   threadId?: string | null;
   subject?: string | null;
@@ -719,12 +808,15 @@ export type ProcessedEmailCreateWithoutExpenseInput = {
   extractedData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
   reminderId?: string | null;
   status?: $Enums.ProcessedEmailStatus;
+  digestPending?: boolean;
   user: Prisma.UserCreateNestedOneWithoutProcessedEmailsInput;
+  income?: Prisma.IncomeCreateNestedOneWithoutProcessedEmailInput;
 };
 
 export type ProcessedEmailUncheckedCreateWithoutExpenseInput = {
   id?: string;
   userId: string;
+  accountId?: string | null;
   gmailMessageId: string;
   threadId?: string | null;
   subject?: string | null;
@@ -735,6 +827,8 @@ export type ProcessedEmailUncheckedCreateWithoutExpenseInput = {
   extractedData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
   reminderId?: string | null;
   status?: $Enums.ProcessedEmailStatus;
+  digestPending?: boolean;
+  income?: Prisma.IncomeUncheckedCreateNestedOneWithoutProcessedEmailInput;
 };
 
 export type ProcessedEmailCreateOrConnectWithoutExpenseInput = {
@@ -767,6 +861,7 @@ export type ProcessedEmailUpdateToOneWithWhereWithoutExpenseInput = {
 
 export type ProcessedEmailUpdateWithoutExpenseInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
+  accountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   gmailMessageId?: Prisma.StringFieldUpdateOperationsInput | string;
   threadId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   subject?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
@@ -777,12 +872,15 @@ export type ProcessedEmailUpdateWithoutExpenseInput = {
   extractedData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
   reminderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   status?: Prisma.EnumProcessedEmailStatusFieldUpdateOperationsInput | $Enums.ProcessedEmailStatus;
+  digestPending?: Prisma.BoolFieldUpdateOperationsInput | boolean;
   user?: Prisma.UserUpdateOneRequiredWithoutProcessedEmailsNestedInput;
+  income?: Prisma.IncomeUpdateOneWithoutProcessedEmailNestedInput;
 };
 
 export type ProcessedEmailUncheckedUpdateWithoutExpenseInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
   userId?: Prisma.StringFieldUpdateOperationsInput | string;
+  accountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   gmailMessageId?: Prisma.StringFieldUpdateOperationsInput | string;
   threadId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   subject?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
@@ -793,10 +891,113 @@ export type ProcessedEmailUncheckedUpdateWithoutExpenseInput = {
   extractedData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
   reminderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   status?: Prisma.EnumProcessedEmailStatusFieldUpdateOperationsInput | $Enums.ProcessedEmailStatus;
+  digestPending?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  income?: Prisma.IncomeUncheckedUpdateOneWithoutProcessedEmailNestedInput;
+};
+
+export type ProcessedEmailCreateWithoutIncomeInput = {
+  id?: string;
+  accountId?: string | null;
+  gmailMessageId: string;
+  threadId?: string | null;
+  subject?: string | null;
+  sender?: string | null;
+  receivedAt: Date | string;
+  processedAt?: Date | string;
+  emailType: $Enums.EmailType;
+  extractedData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
+  reminderId?: string | null;
+  status?: $Enums.ProcessedEmailStatus;
+  digestPending?: boolean;
+  user: Prisma.UserCreateNestedOneWithoutProcessedEmailsInput;
+  expense?: Prisma.ExpenseCreateNestedOneWithoutProcessedEmailInput;
+};
+
+export type ProcessedEmailUncheckedCreateWithoutIncomeInput = {
+  id?: string;
+  userId: string;
+  accountId?: string | null;
+  gmailMessageId: string;
+  threadId?: string | null;
+  subject?: string | null;
+  sender?: string | null;
+  receivedAt: Date | string;
+  processedAt?: Date | string;
+  emailType: $Enums.EmailType;
+  extractedData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
+  reminderId?: string | null;
+  status?: $Enums.ProcessedEmailStatus;
+  digestPending?: boolean;
+  expense?: Prisma.ExpenseUncheckedCreateNestedOneWithoutProcessedEmailInput;
+};
+
+export type ProcessedEmailCreateOrConnectWithoutIncomeInput = {
+  where: Prisma.ProcessedEmailWhereUniqueInput;
+  create: Prisma.XOR<
+    Prisma.ProcessedEmailCreateWithoutIncomeInput,
+    Prisma.ProcessedEmailUncheckedCreateWithoutIncomeInput
+  >;
+};
+
+export type ProcessedEmailUpsertWithoutIncomeInput = {
+  update: Prisma.XOR<
+    Prisma.ProcessedEmailUpdateWithoutIncomeInput,
+    Prisma.ProcessedEmailUncheckedUpdateWithoutIncomeInput
+  >;
+  create: Prisma.XOR<
+    Prisma.ProcessedEmailCreateWithoutIncomeInput,
+    Prisma.ProcessedEmailUncheckedCreateWithoutIncomeInput
+  >;
+  where?: Prisma.ProcessedEmailWhereInput;
+};
+
+export type ProcessedEmailUpdateToOneWithWhereWithoutIncomeInput = {
+  where?: Prisma.ProcessedEmailWhereInput;
+  data: Prisma.XOR<
+    Prisma.ProcessedEmailUpdateWithoutIncomeInput,
+    Prisma.ProcessedEmailUncheckedUpdateWithoutIncomeInput
+  >;
+};
+
+export type ProcessedEmailUpdateWithoutIncomeInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  accountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  gmailMessageId?: Prisma.StringFieldUpdateOperationsInput | string;
+  threadId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  subject?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  sender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  receivedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  processedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  emailType?: Prisma.EnumEmailTypeFieldUpdateOperationsInput | $Enums.EmailType;
+  extractedData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
+  reminderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  status?: Prisma.EnumProcessedEmailStatusFieldUpdateOperationsInput | $Enums.ProcessedEmailStatus;
+  digestPending?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  user?: Prisma.UserUpdateOneRequiredWithoutProcessedEmailsNestedInput;
+  expense?: Prisma.ExpenseUpdateOneWithoutProcessedEmailNestedInput;
+};
+
+export type ProcessedEmailUncheckedUpdateWithoutIncomeInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  userId?: Prisma.StringFieldUpdateOperationsInput | string;
+  accountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  gmailMessageId?: Prisma.StringFieldUpdateOperationsInput | string;
+  threadId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  subject?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  sender?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  receivedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  processedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  emailType?: Prisma.EnumEmailTypeFieldUpdateOperationsInput | $Enums.EmailType;
+  extractedData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
+  reminderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  status?: Prisma.EnumProcessedEmailStatusFieldUpdateOperationsInput | $Enums.ProcessedEmailStatus;
+  digestPending?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  expense?: Prisma.ExpenseUncheckedUpdateOneWithoutProcessedEmailNestedInput;
 };
 
 export type ProcessedEmailCreateManyUserInput = {
   id?: string;
+  accountId?: string | null;
   gmailMessageId: string;
   threadId?: string | null;
   subject?: string | null;
@@ -807,10 +1008,12 @@ export type ProcessedEmailCreateManyUserInput = {
   extractedData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
   reminderId?: string | null;
   status?: $Enums.ProcessedEmailStatus;
+  digestPending?: boolean;
 };
 
 export type ProcessedEmailUpdateWithoutUserInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
+  accountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   gmailMessageId?: Prisma.StringFieldUpdateOperationsInput | string;
   threadId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   subject?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
@@ -821,11 +1024,14 @@ export type ProcessedEmailUpdateWithoutUserInput = {
   extractedData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
   reminderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   status?: Prisma.EnumProcessedEmailStatusFieldUpdateOperationsInput | $Enums.ProcessedEmailStatus;
+  digestPending?: Prisma.BoolFieldUpdateOperationsInput | boolean;
   expense?: Prisma.ExpenseUpdateOneWithoutProcessedEmailNestedInput;
+  income?: Prisma.IncomeUpdateOneWithoutProcessedEmailNestedInput;
 };
 
 export type ProcessedEmailUncheckedUpdateWithoutUserInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
+  accountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   gmailMessageId?: Prisma.StringFieldUpdateOperationsInput | string;
   threadId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   subject?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
@@ -836,11 +1042,14 @@ export type ProcessedEmailUncheckedUpdateWithoutUserInput = {
   extractedData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
   reminderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   status?: Prisma.EnumProcessedEmailStatusFieldUpdateOperationsInput | $Enums.ProcessedEmailStatus;
+  digestPending?: Prisma.BoolFieldUpdateOperationsInput | boolean;
   expense?: Prisma.ExpenseUncheckedUpdateOneWithoutProcessedEmailNestedInput;
+  income?: Prisma.IncomeUncheckedUpdateOneWithoutProcessedEmailNestedInput;
 };
 
 export type ProcessedEmailUncheckedUpdateManyWithoutUserInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
+  accountId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   gmailMessageId?: Prisma.StringFieldUpdateOperationsInput | string;
   threadId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   subject?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
@@ -851,6 +1060,7 @@ export type ProcessedEmailUncheckedUpdateManyWithoutUserInput = {
   extractedData?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue;
   reminderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   status?: Prisma.EnumProcessedEmailStatusFieldUpdateOperationsInput | $Enums.ProcessedEmailStatus;
+  digestPending?: Prisma.BoolFieldUpdateOperationsInput | boolean;
 };
 
 export type ProcessedEmailSelect<
@@ -859,6 +1069,7 @@ export type ProcessedEmailSelect<
   {
     id?: boolean;
     userId?: boolean;
+    accountId?: boolean;
     gmailMessageId?: boolean;
     threadId?: boolean;
     subject?: boolean;
@@ -869,8 +1080,10 @@ export type ProcessedEmailSelect<
     extractedData?: boolean;
     reminderId?: boolean;
     status?: boolean;
+    digestPending?: boolean;
     user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
     expense?: boolean | Prisma.ProcessedEmail$expenseArgs<ExtArgs>;
+    income?: boolean | Prisma.ProcessedEmail$incomeArgs<ExtArgs>;
   },
   ExtArgs["result"]["processedEmail"]
 >;
@@ -881,6 +1094,7 @@ export type ProcessedEmailSelectCreateManyAndReturn<
   {
     id?: boolean;
     userId?: boolean;
+    accountId?: boolean;
     gmailMessageId?: boolean;
     threadId?: boolean;
     subject?: boolean;
@@ -891,6 +1105,7 @@ export type ProcessedEmailSelectCreateManyAndReturn<
     extractedData?: boolean;
     reminderId?: boolean;
     status?: boolean;
+    digestPending?: boolean;
     user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
   },
   ExtArgs["result"]["processedEmail"]
@@ -902,6 +1117,7 @@ export type ProcessedEmailSelectUpdateManyAndReturn<
   {
     id?: boolean;
     userId?: boolean;
+    accountId?: boolean;
     gmailMessageId?: boolean;
     threadId?: boolean;
     subject?: boolean;
@@ -912,6 +1128,7 @@ export type ProcessedEmailSelectUpdateManyAndReturn<
     extractedData?: boolean;
     reminderId?: boolean;
     status?: boolean;
+    digestPending?: boolean;
     user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
   },
   ExtArgs["result"]["processedEmail"]
@@ -920,6 +1137,7 @@ export type ProcessedEmailSelectUpdateManyAndReturn<
 export type ProcessedEmailSelectScalar = {
   id?: boolean;
   userId?: boolean;
+  accountId?: boolean;
   gmailMessageId?: boolean;
   threadId?: boolean;
   subject?: boolean;
@@ -930,6 +1148,7 @@ export type ProcessedEmailSelectScalar = {
   extractedData?: boolean;
   reminderId?: boolean;
   status?: boolean;
+  digestPending?: boolean;
 };
 
 export type ProcessedEmailOmit<
@@ -937,6 +1156,7 @@ export type ProcessedEmailOmit<
 > = runtime.Types.Extensions.GetOmit<
   | "id"
   | "userId"
+  | "accountId"
   | "gmailMessageId"
   | "threadId"
   | "subject"
@@ -946,7 +1166,8 @@ export type ProcessedEmailOmit<
   | "emailType"
   | "extractedData"
   | "reminderId"
-  | "status",
+  | "status"
+  | "digestPending",
   ExtArgs["result"]["processedEmail"]
 >;
 export type ProcessedEmailInclude<
@@ -954,6 +1175,7 @@ export type ProcessedEmailInclude<
 > = {
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
   expense?: boolean | Prisma.ProcessedEmail$expenseArgs<ExtArgs>;
+  income?: boolean | Prisma.ProcessedEmail$incomeArgs<ExtArgs>;
 };
 export type ProcessedEmailIncludeCreateManyAndReturn<
   ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
@@ -973,11 +1195,13 @@ export type $ProcessedEmailPayload<
   objects: {
     user: Prisma.$UserPayload<ExtArgs>;
     expense: Prisma.$ExpensePayload<ExtArgs> | null;
+    income: Prisma.$IncomePayload<ExtArgs> | null;
   };
   scalars: runtime.Types.Extensions.GetPayloadResult<
     {
       id: string;
       userId: string;
+      accountId: string | null;
       gmailMessageId: string;
       threadId: string | null;
       subject: string | null;
@@ -988,6 +1212,7 @@ export type $ProcessedEmailPayload<
       extractedData: runtime.JsonValue | null;
       reminderId: string | null;
       status: $Enums.ProcessedEmailStatus;
+      digestPending: boolean;
     },
     ExtArgs["result"]["processedEmail"]
   >;
@@ -1556,6 +1781,19 @@ export interface Prisma__ProcessedEmailClient<
     ExtArgs,
     GlobalOmitOptions
   >;
+  income<T extends Prisma.ProcessedEmail$incomeArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.ProcessedEmail$incomeArgs<ExtArgs>>
+  ): Prisma.Prisma__IncomeClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$IncomePayload<ExtArgs>,
+      T,
+      "findUniqueOrThrow",
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1589,6 +1827,7 @@ export interface Prisma__ProcessedEmailClient<
 export interface ProcessedEmailFieldRefs {
   readonly id: Prisma.FieldRef<"ProcessedEmail", "String">;
   readonly userId: Prisma.FieldRef<"ProcessedEmail", "String">;
+  readonly accountId: Prisma.FieldRef<"ProcessedEmail", "String">;
   readonly gmailMessageId: Prisma.FieldRef<"ProcessedEmail", "String">;
   readonly threadId: Prisma.FieldRef<"ProcessedEmail", "String">;
   readonly subject: Prisma.FieldRef<"ProcessedEmail", "String">;
@@ -1599,6 +1838,7 @@ export interface ProcessedEmailFieldRefs {
   readonly extractedData: Prisma.FieldRef<"ProcessedEmail", "Json">;
   readonly reminderId: Prisma.FieldRef<"ProcessedEmail", "String">;
   readonly status: Prisma.FieldRef<"ProcessedEmail", "ProcessedEmailStatus">;
+  readonly digestPending: Prisma.FieldRef<"ProcessedEmail", "Boolean">;
 }
 
 // Custom InputTypes
@@ -2054,6 +2294,27 @@ export type ProcessedEmail$expenseArgs<
   where?: Prisma.ExpenseWhereInput;
 };
 
+/**
+ * ProcessedEmail.income
+ */
+export type ProcessedEmail$incomeArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the Income
+   */
+  select?: Prisma.IncomeSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the Income
+   */
+  omit?: Prisma.IncomeOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IncomeInclude<ExtArgs> | null;
+  where?: Prisma.IncomeWhereInput;
+};
+
 /**
  * ProcessedEmail without action
  */
@@ -0,0 +1,2193 @@
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck
+/*
+ * This file exports the `RecurringCharge` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client";
+import type * as $Enums from "../enums";
+import type * as Prisma from "../internal/prismaNamespace";
+
+/**
+ * Model RecurringCharge
+ *
+ */
+export type RecurringChargeModel =
+  runtime.Types.Result.DefaultSelection<Prisma.$RecurringChargePayload>;
+
+export type AggregateRecurringCharge = {
+  _count: RecurringChargeCountAggregateOutputType | null;
+  _avg: RecurringChargeAvgAggregateOutputType | null;
+  _sum: RecurringChargeSumAggregateOutputType | null;
+  _min: RecurringChargeMinAggregateOutputType | null;
+  _max: RecurringChargeMaxAggregateOutputType | null;
+};
+
+export type RecurringChargeAvgAggregateOutputType = {
+  amount: runtime.Decimal | null;
+  previousAmount: runtime.Decimal | null;
+};
+
+export type RecurringChargeSumAggregateOutputType = {
+  amount: runtime.Decimal | null;
+  previousAmount: runtime.Decimal | null;
+};
+
+export type RecurringChargeMinAggregateOutputType = {
+  id: string | null;
+  userId: string | null;
+  merchantKey: string | null;
+  merchant: string | null;
+  currency: string | null;
+  period: $Enums.RecurringPeriod | null;
+  amount: runtime.Decimal | null;
+  previousAmount: runtime.Decimal | null;
+  lastChargeAt: Date | null;
+  nextExpectedAt: Date | null;
+  priceAlertedAt: Date | null;
+  missedAlertedFor: Date | null;
+  reminderId: string | null;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+};
+
+export type RecurringChargeMaxAggregateOutputType = {
+  id: string | null;
+  userId: string | null;
+  merchantKey: string | null;
+  merchant: string | null;
+  currency: string | null;
+  period: $Enums.RecurringPeriod | null;
+  amount: runtime.Decimal | null;
+  previousAmount: runtime.Decimal | null;
+  lastChargeAt: Date | null;
+  nextExpectedAt: Date | null;
+  priceAlertedAt: Date | null;
+  missedAlertedFor: Date | null;
+  reminderId: string | null;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+};
+
+export type RecurringChargeCountAggregateOutputType = {
+  id: number;
+  userId: number;
+  merchantKey: number;
+  merchant: number;
+  currency: number;
+  period: number;
+  amount: number;
+  previousAmount: number;
+  lastChargeAt: number;
+  nextExpectedAt: number;
+  priceAlertedAt: number;
+  missedAlertedFor: number;
+  reminderId: number;
+  createdAt: number;
+  updatedAt: number;
+  _all: number;
+};
+
+export type RecurringChargeAvgAggregateInputType = {
+  amount?: true;
+  previousAmount?: true;
+};
+
+export type RecurringChargeSumAggregateInputType = {
+  amount?: true;
+  previousAmount?: true;
+};
+
+export type RecurringChargeMinAggregateInputType = {
+  id?: true;
+  userId?: true;
+  merchantKey?: true;
+  merchant?: true;
+  currency?: true;
+  period?: true;
+  amount?: true;
+  previousAmount?: true;
+  lastChargeAt?: true;
+  nextExpectedAt?: true;
+  priceAlertedAt?: true;
+  missedAlertedFor?: true;
+  reminderId?: true;
+  createdAt?: true;
+  updatedAt?: true;
+};
+
+export type RecurringChargeMaxAggregateInputType = {
+  id?: true;
+  userId?: true;
+  merchantKey?: true;
+  merchant?: true;
+  currency?: true;
+  period?: true;
+  amount?: true;
+  previousAmount?: true;
+  lastChargeAt?: true;
+  nextExpectedAt?: true;
+  priceAlertedAt?: true;
+  missedAlertedFor?: true;
+  reminderId?: true;
+  createdAt?: true;
+  updatedAt?: true;
+};
+
+export type RecurringChargeCountAggregateInputType = {
+  id?: true;
+  userId?: true;
+  merchantKey?: true;
+  merchant?: true;
+  currency?: true;
+  period?: true;
+  amount?: true;
+  previousAmount?: true;
+  lastChargeAt?: true;
+  nextExpectedAt?: true;
+  priceAlertedAt?: true;
+  missedAlertedFor?: true;
+  reminderId?: true;
+  createdAt?: true;
+  updatedAt?: true;
+  _all?: true;
+};
+
+export type RecurringChargeAggregateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Filter which RecurringCharge to aggregate.
+   */
+  where?: Prisma.RecurringChargeWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of RecurringCharges to fetch.
+   */
+  orderBy?:
+    | Prisma.RecurringChargeOrderByWithRelationInput
+    | Prisma.RecurringChargeOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the start position
+   */
+  cursor?: Prisma.RecurringChargeWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` RecurringCharges from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` RecurringCharges.
+   */
+  skip?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Count returned RecurringCharges
+   **/
+  _count?: true | RecurringChargeCountAggregateInputType;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to average
+   **/
+  _avg?: RecurringChargeAvgAggregateInputType;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to sum
+   **/
+  _sum?: RecurringChargeSumAggregateInputType;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to find the minimum value
+   **/
+  _min?: RecurringChargeMinAggregateInputType;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   *
+   * Select which fields to find the maximum value
+   **/
+  _max?: RecurringChargeMaxAggregateInputType;
+};
+
+export type GetRecurringChargeAggregateType<T extends RecurringChargeAggregateArgs> = {
+  [P in keyof T & keyof AggregateRecurringCharge]: P extends "_count" | "count"
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateRecurringCharge[P]>
+    : Prisma.GetScalarType<T[P], AggregateRecurringCharge[P]>;
+};
+
+export type RecurringChargeGroupByArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  where?: Prisma.RecurringChargeWhereInput;
+  orderBy?:
+    | Prisma.RecurringChargeOrderByWithAggregationInput
+    | Prisma.RecurringChargeOrderByWithAggregationInput[];
+  by: Prisma.RecurringChargeScalarFieldEnum[] | Prisma.RecurringChargeScalarFieldEnum;
+  having?: Prisma.RecurringChargeScalarWhereWithAggregatesInput;
+  take?: number;
+  skip?: number;
+  _count?: RecurringChargeCountAggregateInputType | true;
+  _avg?: RecurringChargeAvgAggregateInputType;
+  _sum?: RecurringChargeSumAggregateInputType;
+  _min?: RecurringChargeMinAggregateInputType;
+  _max?: RecurringChargeMaxAggregateInputType;
+};
+
+export type RecurringChargeGroupByOutputType = {
+  id: string;
+  userId: string;
+  merchantKey: string;
+  merchant: string;
+  currency: string;
+  period: $Enums.RecurringPeriod;
+  amount: runtime.Decimal;
+  previousAmount: runtime.Decimal | null;
+  lastChargeAt: Date;
+  nextExpectedAt: Date;
+  priceAlertedAt: Date | null;
+  missedAlertedFor: Date | null;
+  reminderId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  _count: RecurringChargeCountAggregateOutputType | null;
+  _avg: RecurringChargeAvgAggregateOutputType | null;
+  _sum: RecurringChargeSumAggregateOutputType | null;
+  _min: RecurringChargeMinAggregateOutputType | null;
+  _max: RecurringChargeMaxAggregateOutputType | null;
+};
+
+type GetRecurringChargeGroupByPayload<T extends RecurringChargeGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<RecurringChargeGroupByOutputType, T["by"]> & {
+      [P in keyof T & keyof RecurringChargeGroupByOutputType]: P extends "_count"
+        ? T[P] extends boolean
+          ? number
+          : Prisma.GetScalarType<T[P], RecurringChargeGroupByOutputType[P]>
+        : Prisma.GetScalarType<T[P], RecurringChargeGroupByOutputType[P]>;
+    }
+  >
+>;
+
+export type RecurringChargeWhereInput = {
+  AND?: Prisma.RecurringChargeWhereInput | Prisma.RecurringChargeWhereInput[];
+  OR?: Prisma.RecurringChargeWhereInput[];
+  NOT?: Prisma.RecurringChargeWhereInput | Prisma.RecurringChargeWhereInput[];
+  id?: Prisma.StringFilter<"RecurringCharge"> | string;
+  userId?: Prisma.StringFilter<"RecurringCharge"> | string;
+  merchantKey?: Prisma.StringFilter<"RecurringCharge"> | string;
+  merchant?: Prisma.StringFilter<"RecurringCharge"> | string;
+  currency?: Prisma.StringFilter<"RecurringCharge"> | string;
+  period?: Prisma.EnumRecurringPeriodFilter<"RecurringCharge"> | $Enums.RecurringPeriod;
+  amount?:
+    | Prisma.DecimalFilter<"RecurringCharge">
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  previousAmount?:
+    | Prisma.DecimalNullableFilter<"RecurringCharge">
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  lastChargeAt?: Prisma.DateTimeFilter<"RecurringCharge"> | Date | string;
+  nextExpectedAt?: Prisma.DateTimeFilter<"RecurringCharge"> | Date | string;
+  priceAlertedAt?: Prisma.DateTimeNullableFilter<"RecurringCharge"> | Date | string | null;
+  missedAlertedFor?: Prisma.DateTimeNullableFilter<"RecurringCharge"> | Date | string | null;
+  reminderId?: Prisma.StringNullableFilter<"RecurringCharge"> | string | null;
+  createdAt?: Prisma.DateTimeFilter<"RecurringCharge"> | Date | string;
+  updatedAt?: Prisma.DateTimeFilter<"RecurringCharge"> | Date | string;
+  user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>;
+};
+
+export type RecurringChargeOrderByWithRelationInput = {
+  id?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  merchantKey?: Prisma.SortOrder;
+  merchant?: Prisma.SortOrder;
+  currency?: Prisma.SortOrder;
+  period?: Prisma.SortOrder;
+  amount?: Prisma.SortOrder;
+  previousAmount?: Prisma.SortOrderInput | Prisma.SortOrder;
+  lastChargeAt?: Prisma.SortOrder;
+  nextExpectedAt?: Prisma.SortOrder;
+  priceAlertedAt?: Prisma.SortOrderInput | Prisma.SortOrder;
+  missedAlertedFor?: Prisma.SortOrderInput | Prisma.SortOrder;
+  reminderId?: Prisma.SortOrderInput | Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  updatedAt?: Prisma.SortOrder;
+  user?: Prisma.UserOrderByWithRelationInput;
+};
+
+export type RecurringChargeWhereUniqueInput = Prisma.AtLeast<
+  {
+    id?: string;
+    userId_merchantKey_currency?: Prisma.RecurringChargeUserIdMerchantKeyCurrencyCompoundUniqueInput;
+    AND?: Prisma.RecurringChargeWhereInput | Prisma.RecurringChargeWhereInput[];
+    OR?: Prisma.RecurringChargeWhereInput[];
+    NOT?: Prisma.RecurringChargeWhereInput | Prisma.RecurringChargeWhereInput[];
+    userId?: Prisma.StringFilter<"RecurringCharge"> | string;
+    merchantKey?: Prisma.StringFilter<"RecurringCharge"> | string;
+    merchant?: Prisma.StringFilter<"RecurringCharge"> | string;
+    currency?: Prisma.StringFilter<"RecurringCharge"> | string;
+    period?: Prisma.EnumRecurringPeriodFilter<"RecurringCharge"> | $Enums.RecurringPeriod;
+    amount?:
+      | Prisma.DecimalFilter<"RecurringCharge">
+      | runtime.Decimal
+      | runtime.DecimalJsLike
+      | number
+      | string;
+    previousAmount?:
+      | Prisma.DecimalNullableFilter<"RecurringCharge">
+      | runtime.Decimal
+      | runtime.DecimalJsLike
+      | number
+      | string
+      | null;
+    lastChargeAt?: Prisma.DateTimeFilter<"RecurringCharge"> | Date | string;
+    nextExpectedAt?: Prisma.DateTimeFilter<"RecurringCharge"> | Date | string;
+    priceAlertedAt?: Prisma.DateTimeNullableFilter<"RecurringCharge"> | Date | string | null;
+    missedAlertedFor?: Prisma.DateTimeNullableFilter<"RecurringCharge"> | Date | string | null;
+    reminderId?: Prisma.StringNullableFilter<"RecurringCharge"> | string | null;
+    createdAt?: Prisma.DateTimeFilter<"RecurringCharge"> | Date | string;
+    updatedAt?: Prisma.DateTimeFilter<"RecurringCharge"> | Date | string;
+    user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>;
+  },
+  "id" | "userId_merchantKey_currency"
+>;
+
+export type RecurringChargeOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  merchantKey?: Prisma.SortOrder;
+  merchant?: Prisma.SortOrder;
+  currency?: Prisma.SortOrder;
+  period?: Prisma.SortOrder;
+  amount?: Prisma.SortOrder;
+  previousAmount?: Prisma.SortOrderInput | Prisma.SortOrder;
+  lastChargeAt?: Prisma.SortOrder;
+  nextExpectedAt?: Prisma.SortOrder;
+  priceAlertedAt?: Prisma.SortOrderInput | Prisma.SortOrder;
+  missedAlertedFor?: Prisma.SortOrderInput | Prisma.SortOrder;
+  reminderId?: Prisma.SortOrderInput | Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  updatedAt?: Prisma.SortOrder;
+  _count?: Prisma.RecurringChargeCountOrderByAggregateInput;
+  _avg?: Prisma.RecurringChargeAvgOrderByAggregateInput;
+  _max?: Prisma.RecurringChargeMaxOrderByAggregateInput;
+  _min?: Prisma.RecurringChargeMinOrderByAggregateInput;
+  _sum?: Prisma.RecurringChargeSumOrderByAggregateInput;
+};
+
+export type RecurringChargeScalarWhereWithAggregatesInput = {
+  AND?:
+    | Prisma.RecurringChargeScalarWhereWithAggregatesInput
+    | Prisma.RecurringChargeScalarWhereWithAggregatesInput[];
+  OR?: Prisma.RecurringChargeScalarWhereWithAggregatesInput[];
+  NOT?:
+    | Prisma.RecurringChargeScalarWhereWithAggregatesInput
+    | Prisma.RecurringChargeScalarWhereWithAggregatesInput[];
+  id?: Prisma.StringWithAggregatesFilter<"RecurringCharge"> | string;
+  userId?: Prisma.StringWithAggregatesFilter<"RecurringCharge"> | string;
+  merchantKey?: Prisma.StringWithAggregatesFilter<"RecurringCharge"> | string;
+  merchant?: Prisma.StringWithAggregatesFilter<"RecurringCharge"> | string;
+  currency?: Prisma.StringWithAggregatesFilter<"RecurringCharge"> | string;
+  period?:
+    | Prisma.EnumRecurringPeriodWithAggregatesFilter<"RecurringCharge">
+    | $Enums.RecurringPeriod;
+  amount?:
+    | Prisma.DecimalWithAggregatesFilter<"RecurringCharge">
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  previousAmount?:
+    | Prisma.DecimalNullableWithAggregatesFilter<"RecurringCharge">
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  lastChargeAt?: Prisma.DateTimeWithAggregatesFilter<"RecurringCharge"> | Date | string;
+  nextExpectedAt?: Prisma.DateTimeWithAggregatesFilter<"RecurringCharge"> | Date | string;
+  priceAlertedAt?:
+    | Prisma.DateTimeNullableWithAggregatesFilter<"RecurringCharge">
+    | Date
+    | string
+    | null;
+  missedAlertedFor?:
+    | Prisma.DateTimeNullableWithAggregatesFilter<"RecurringCharge">
+    | Date
+    | string
+    | null;
+  reminderId?: Prisma.StringNullableWithAggregatesFilter<"RecurringCharge"> | string | null;
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"RecurringCharge"> | Date | string;
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"RecurringCharge"> | Date | string;
+};
+
+export type RecurringChargeCreateInput = {
+  id?: string;
+  merchantKey: string;
+  merchant: string;
+  currency: string;
+  period: $Enums.RecurringPeriod;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  previousAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  lastChargeAt: Date | string;
+  nextExpectedAt: Date | string;
+  priceAlertedAt?: Date | string | null;
+  missedAlertedFor?: Date | string | null;
+  reminderId?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  user: Prisma.UserCreateNestedOneWithoutRecurringChargesInput;
+};
+
+export type RecurringChargeUncheckedCreateInput = {
+  id?: string;
+  userId: string;
+  merchantKey: string;
+  merchant: string;
+  currency: string;
+  period: $Enums.RecurringPeriod;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  previousAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  lastChargeAt: Date | string;
+  nextExpectedAt: Date | string;
+  priceAlertedAt?: Date | string | null;
+  missedAlertedFor?: Date | string | null;
+  reminderId?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+};
+
+export type RecurringChargeUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  merchantKey?: Prisma.StringFieldUpdateOperationsInput | string;
+  merchant?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  period?: Prisma.EnumRecurringPeriodFieldUpdateOperationsInput | $Enums.RecurringPeriod;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  previousAmount?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  lastChargeAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  nextExpectedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  priceAlertedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  missedAlertedFor?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  reminderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  user?: Prisma.UserUpdateOneRequiredWithoutRecurringChargesNestedInput;
+};
+
+export type RecurringChargeUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  userId?: Prisma.StringFieldUpdateOperationsInput | string;
+  merchantKey?: Prisma.StringFieldUpdateOperationsInput | string;
+  merchant?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  period?: Prisma.EnumRecurringPeriodFieldUpdateOperationsInput | $Enums.RecurringPeriod;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  previousAmount?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  lastChargeAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  nextExpectedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  priceAlertedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  missedAlertedFor?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  reminderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type RecurringChargeCreateManyInput = {
+  id?: string;
+  userId: string;
+  merchantKey: string;
+  merchant: string;
+  currency: string;
+  period: $Enums.RecurringPeriod;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  previousAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  lastChargeAt: Date | string;
+  nextExpectedAt: Date | string;
+  priceAlertedAt?: Date | string | null;
+  missedAlertedFor?: Date | string | null;
+  reminderId?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+};
+
+export type RecurringChargeUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  merchantKey?: Prisma.StringFieldUpdateOperationsInput | string;
+  merchant?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  period?: Prisma.EnumRecurringPeriodFieldUpdateOperationsInput | $Enums.RecurringPeriod;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  previousAmount?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  lastChargeAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  nextExpectedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  priceAlertedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  missedAlertedFor?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  reminderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type RecurringChargeUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  userId?: Prisma.StringFieldUpdateOperationsInput | string;
+  merchantKey?: Prisma.StringFieldUpdateOperationsInput | string;
+  merchant?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  period?: Prisma.EnumRecurringPeriodFieldUpdateOperationsInput | $Enums.RecurringPeriod;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  previousAmount?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  lastChargeAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  nextExpectedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  priceAlertedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  missedAlertedFor?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  reminderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type RecurringChargeListRelationFilter = {
+  every?: Prisma.RecurringChargeWhereInput;
+  some?: Prisma.RecurringChargeWhereInput;
+  none?: Prisma.RecurringChargeWhereInput;
+};
+
+export type RecurringChargeOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder;
+};
+
+export type RecurringChargeUserIdMerchantKeyCurrencyCompoundUniqueInput = {
+  userId: string;
+  merchantKey: string;
+  currency: string;
+};
+
+export type RecurringChargeCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  merchantKey?: Prisma.SortOrder;
+  merchant?: Prisma.SortOrder;
+  currency?: Prisma.SortOrder;
+  period?: Prisma.SortOrder;
+  amount?: Prisma.SortOrder;
+  previousAmount?: Prisma.SortOrder;
+  lastChargeAt?: Prisma.SortOrder;
+  nextExpectedAt?: Prisma.SortOrder;
+  priceAlertedAt?: Prisma.SortOrder;
+  missedAlertedFor?: Prisma.SortOrder;
+  reminderId?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  updatedAt?: Prisma.SortOrder;
+};
+
+export type RecurringChargeAvgOrderByAggregateInput = {
+  amount?: Prisma.SortOrder;
+  previousAmount?: Prisma.SortOrder;
+};
+
+export type RecurringChargeMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  merchantKey?: Prisma.SortOrder;
+  merchant?: Prisma.SortOrder;
+  currency?: Prisma.SortOrder;
+  period?: Prisma.SortOrder;
+  amount?: Prisma.SortOrder;
+  previousAmount?: Prisma.SortOrder;
+  lastChargeAt?: Prisma.SortOrder;
+  nextExpectedAt?: Prisma.SortOrder;
+  priceAlertedAt?: Prisma.SortOrder;
+  missedAlertedFor?: Prisma.SortOrder;
+  reminderId?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  updatedAt?: Prisma.SortOrder;
+};
+
+export type RecurringChargeMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
+  merchantKey?: Prisma.SortOrder;
+  merchant?: Prisma.SortOrder;
+  currency?: Prisma.SortOrder;
+  period?: Prisma.SortOrder;
+  amount?: Prisma.SortOrder;
+  previousAmount?: Prisma.SortOrder;
+  lastChargeAt?: Prisma.SortOrder;
+  nextExpectedAt?: Prisma.SortOrder;
+  priceAlertedAt?: Prisma.SortOrder;
+  missedAlertedFor?: Prisma.SortOrder;
+  reminderId?: Prisma.SortOrder;
+  createdAt?: Prisma.SortOrder;
+  updatedAt?: Prisma.SortOrder;
+};
+
+export type RecurringChargeSumOrderByAggregateInput = {
+  amount?: Prisma.SortOrder;
+  previousAmount?: Prisma.SortOrder;
+};
+
+export type RecurringChargeCreateNestedManyWithoutUserInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.RecurringChargeCreateWithoutUserInput,
+        Prisma.RecurringChargeUncheckedCreateWithoutUserInput
+      >
+    | Prisma.RecurringChargeCreateWithoutUserInput[]
+    | Prisma.RecurringChargeUncheckedCreateWithoutUserInput[];
+  connectOrCreate?:
+    | Prisma.RecurringChargeCreateOrConnectWithoutUserInput
+    | Prisma.RecurringChargeCreateOrConnectWithoutUserInput[];
+  createMany?: Prisma.RecurringChargeCreateManyUserInputEnvelope;
+  connect?: Prisma.RecurringChargeWhereUniqueInput | Prisma.RecurringChargeWhereUniqueInput[];
+};
+
+export type RecurringChargeUncheckedCreateNestedManyWithoutUserInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.RecurringChargeCreateWithoutUserInput,
+        Prisma.RecurringChargeUncheckedCreateWithoutUserInput
+      >
+    | Prisma.RecurringChargeCreateWithoutUserInput[]
+    | Prisma.RecurringChargeUncheckedCreateWithoutUserInput[];
+  connectOrCreate?:
+    | Prisma.RecurringChargeCreateOrConnectWithoutUserInput
+    | Prisma.RecurringChargeCreateOrConnectWithoutUserInput[];
+  createMany?: Prisma.RecurringChargeCreateManyUserInputEnvelope;
+  connect?: Prisma.RecurringChargeWhereUniqueInput | Prisma.RecurringChargeWhereUniqueInput[];
+};
+
+export type RecurringChargeUpdateManyWithoutUserNestedInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.RecurringChargeCreateWithoutUserInput,
+        Prisma.RecurringChargeUncheckedCreateWithoutUserInput
+      >
+    | Prisma.RecurringChargeCreateWithoutUserInput[]
+    | Prisma.RecurringChargeUncheckedCreateWithoutUserInput[];
+  connectOrCreate?:
+    | Prisma.RecurringChargeCreateOrConnectWithoutUserInput
+    | Prisma.RecurringChargeCreateOrConnectWithoutUserInput[];
+  upsert?:
+    | Prisma.RecurringChargeUpsertWithWhereUniqueWithoutUserInput
+    | Prisma.RecurringChargeUpsertWithWhereUniqueWithoutUserInput[];
+  createMany?: Prisma.RecurringChargeCreateManyUserInputEnvelope;
+  set?: Prisma.RecurringChargeWhereUniqueInput | Prisma.RecurringChargeWhereUniqueInput[];
+  disconnect?: Prisma.RecurringChargeWhereUniqueInput | Prisma.RecurringChargeWhereUniqueInput[];
+  delete?: Prisma.RecurringChargeWhereUniqueInput | Prisma.RecurringChargeWhereUniqueInput[];
+  connect?: Prisma.RecurringChargeWhereUniqueInput | Prisma.RecurringChargeWhereUniqueInput[];
+  update?:
+    | Prisma.RecurringChargeUpdateWithWhereUniqueWithoutUserInput
+    | Prisma.RecurringChargeUpdateWithWhereUniqueWithoutUserInput[];
+  updateMany?:
+    | Prisma.RecurringChargeUpdateManyWithWhereWithoutUserInput
+    | Prisma.RecurringChargeUpdateManyWithWhereWithoutUserInput[];
+  deleteMany?: Prisma.RecurringChargeScalarWhereInput | Prisma.RecurringChargeScalarWhereInput[];
+};
+
+export type RecurringChargeUncheckedUpdateManyWithoutUserNestedInput = {
+  create?:
+    | Prisma.XOR<
+        Prisma.RecurringChargeCreateWithoutUserInput,
+        Prisma.RecurringChargeUncheckedCreateWithoutUserInput
+      >
+    | Prisma.RecurringChargeCreateWithoutUserInput[]
+    | Prisma.RecurringChargeUncheckedCreateWithoutUserInput[];
+  connectOrCreate?:
+    | Prisma.RecurringChargeCreateOrConnectWithoutUserInput
+    | Prisma.RecurringChargeCreateOrConnectWithoutUserInput[];
+  upsert?:
+    | Prisma.RecurringChargeUpsertWithWhereUniqueWithoutUserInput
+    | Prisma.RecurringChargeUpsertWithWhereUniqueWithoutUserInput[];
+  createMany?: Prisma.RecurringChargeCreateManyUserInputEnvelope;
+  set?: Prisma.RecurringChargeWhereUniqueInput | Prisma.RecurringChargeWhereUniqueInput[];
+  disconnect?: Prisma.RecurringChargeWhereUniqueInput | Prisma.RecurringChargeWhereUniqueInput[];
+  delete?: Prisma.RecurringChargeWhereUniqueInput | Prisma.RecurringChargeWhereUniqueInput[];
+  connect?: Prisma.RecurringChargeWhereUniqueInput | Prisma.RecurringChargeWhereUniqueInput[];
+  update?:
+    | Prisma.RecurringChargeUpdateWithWhereUniqueWithoutUserInput
+    | Prisma.RecurringChargeUpdateWithWhereUniqueWithoutUserInput[];
+  updateMany?:
+    | Prisma.RecurringChargeUpdateManyWithWhereWithoutUserInput
+    | Prisma.RecurringChargeUpdateManyWithWhereWithoutUserInput[];
+  deleteMany?: Prisma.RecurringChargeScalarWhereInput | Prisma.RecurringChargeScalarWhereInput[];
+};
+
+export type EnumRecurringPeriodFieldUpdateOperationsInput = {
+  set?: $Enums.RecurringPeriod;
+};
+
+export type RecurringChargeCreateWithoutUserInput = {
+  id?: string;
+  merchantKey: string;
+  merchant: string;
+  currency: string;
+  period: $Enums.RecurringPeriod;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  previousAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  lastChargeAt: Date | string;
+  nextExpectedAt: Date | string;
+  priceAlertedAt?: Date | string | null;
+  missedAlertedFor?: Date | string | null;
+  reminderId?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+};
+
+export type RecurringChargeUncheckedCreateWithoutUserInput = {
+  id?: string;
+  merchantKey: string;
+  merchant: string;
+  currency: string;
+  period: $Enums.RecurringPeriod;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  previousAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  lastChargeAt: Date | string;
+  nextExpectedAt: Date | string;
+  priceAlertedAt?: Date | string | null;
+  missedAlertedFor?: Date | string | null;
+  reminderId?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+};
+
+export type RecurringChargeCreateOrConnectWithoutUserInput = {
+  where: Prisma.RecurringChargeWhereUniqueInput;
+  create: Prisma.XOR<
+    Prisma.RecurringChargeCreateWithoutUserInput,
+    Prisma.RecurringChargeUncheckedCreateWithoutUserInput
+  >;
+};
+
+export type RecurringChargeCreateManyUserInputEnvelope = {
+  data: Prisma.RecurringChargeCreateManyUserInput | Prisma.RecurringChargeCreateManyUserInput[];
+  skipDuplicates?: boolean;
+};
+
+export type RecurringChargeUpsertWithWhereUniqueWithoutUserInput = {
+  where: Prisma.RecurringChargeWhereUniqueInput;
+  update: Prisma.XOR<
+    Prisma.RecurringChargeUpdateWithoutUserInput,
+    Prisma.RecurringChargeUncheckedUpdateWithoutUserInput
+  >;
+  create: Prisma.XOR<
+    Prisma.RecurringChargeCreateWithoutUserInput,
+    Prisma.RecurringChargeUncheckedCreateWithoutUserInput
+  >;
+};
+
+export type RecurringChargeUpdateWithWhereUniqueWithoutUserInput = {
+  where: Prisma.RecurringChargeWhereUniqueInput;
+  data: Prisma.XOR<
+    Prisma.RecurringChargeUpdateWithoutUserInput,
+    Prisma.RecurringChargeUncheckedUpdateWithoutUserInput
+  >;
+};
+
+export type RecurringChargeUpdateManyWithWhereWithoutUserInput = {
+  where: Prisma.RecurringChargeScalarWhereInput;
+  data: Prisma.XOR<
+    Prisma.RecurringChargeUpdateManyMutationInput,
+    Prisma.RecurringChargeUncheckedUpdateManyWithoutUserInput
+  >;
+};
+
+export type RecurringChargeScalarWhereInput = {
+  AND?: Prisma.RecurringChargeScalarWhereInput | Prisma.RecurringChargeScalarWhereInput[];
+  OR?: Prisma.RecurringChargeScalarWhereInput[];
+  NOT?: Prisma.RecurringChargeScalarWhereInput | Prisma.RecurringChargeScalarWhereInput[];
+  id?: Prisma.StringFilter<"RecurringCharge"> | string;
+  userId?: Prisma.StringFilter<"RecurringCharge"> | string;
+  merchantKey?: Prisma.StringFilter<"RecurringCharge"> | string;
+  merchant?: Prisma.StringFilter<"RecurringCharge"> | string;
+  currency?: Prisma.StringFilter<"RecurringCharge"> | string;
+  period?: Prisma.EnumRecurringPeriodFilter<"RecurringCharge"> | $Enums.RecurringPeriod;
+  amount?:
+    | Prisma.DecimalFilter<"RecurringCharge">
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  previousAmount?:
+    | Prisma.DecimalNullableFilter<"RecurringCharge">
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  lastChargeAt?: Prisma.DateTimeFilter<"RecurringCharge"> | Date | string;
+  nextExpectedAt?: Prisma.DateTimeFilter<"RecurringCharge"> | Date | string;
+  priceAlertedAt?: Prisma.DateTimeNullableFilter<"RecurringCharge"> | Date | string | null;
+  missedAlertedFor?: Prisma.DateTimeNullableFilter<"RecurringCharge"> | Date | string | null;
+  reminderId?: Prisma.StringNullableFilter<"RecurringCharge"> | string | null;
+  createdAt?: Prisma.DateTimeFilter<"RecurringCharge"> | Date | string;
+  updatedAt?: Prisma.DateTimeFilter<"RecurringCharge"> | Date | string;
+};
+
+export type RecurringChargeCreateManyUserInput = {
+  id?: string;
+  merchantKey: string;
+  merchant: string;
+  currency: string;
+  period: $Enums.RecurringPeriod;
+  amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
+  previousAmount?: runtime.Decimal | runtime.DecimalJsLike | number | string | null;
+  lastChargeAt: Date | string;
+  nextExpectedAt: Date | string;
+  priceAlertedAt?: Date | string | null;
+  missedAlertedFor?: Date | string | null;
+  reminderId?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+};
+
+export type RecurringChargeUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  merchantKey?: Prisma.StringFieldUpdateOperationsInput | string;
+  merchant?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  period?: Prisma.EnumRecurringPeriodFieldUpdateOperationsInput | $Enums.RecurringPeriod;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  previousAmount?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  lastChargeAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  nextExpectedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  priceAlertedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  missedAlertedFor?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  reminderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type RecurringChargeUncheckedUpdateWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  merchantKey?: Prisma.StringFieldUpdateOperationsInput | string;
+  merchant?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  period?: Prisma.EnumRecurringPeriodFieldUpdateOperationsInput | $Enums.RecurringPeriod;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  previousAmount?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  lastChargeAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  nextExpectedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  priceAlertedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  missedAlertedFor?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  reminderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type RecurringChargeUncheckedUpdateManyWithoutUserInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  merchantKey?: Prisma.StringFieldUpdateOperationsInput | string;
+  merchant?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  period?: Prisma.EnumRecurringPeriodFieldUpdateOperationsInput | $Enums.RecurringPeriod;
+  amount?:
+    | Prisma.DecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string;
+  previousAmount?:
+    | Prisma.NullableDecimalFieldUpdateOperationsInput
+    | runtime.Decimal
+    | runtime.DecimalJsLike
+    | number
+    | string
+    | null;
+  lastChargeAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  nextExpectedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  priceAlertedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  missedAlertedFor?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  reminderId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+};
+
+export type RecurringChargeSelect<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean;
+    userId?: boolean;
+    merchantKey?: boolean;
+    merchant?: boolean;
+    currency?: boolean;
+    period?: boolean;
+    amount?: boolean;
+    previousAmount?: boolean;
+    lastChargeAt?: boolean;
+    nextExpectedAt?: boolean;
+    priceAlertedAt?: boolean;
+    missedAlertedFor?: boolean;
+    reminderId?: boolean;
+    createdAt?: boolean;
+    updatedAt?: boolean;
+    user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+  },
+  ExtArgs["result"]["recurringCharge"]
+>;
+
+export type RecurringChargeSelectCreateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean;
+    userId?: boolean;
+    merchantKey?: boolean;
+    merchant?: boolean;
+    currency?: boolean;
+    period?: boolean;
+    amount?: boolean;
+    previousAmount?: boolean;
+    lastChargeAt?: boolean;
+    nextExpectedAt?: boolean;
+    priceAlertedAt?: boolean;
+    missedAlertedFor?: boolean;
+    reminderId?: boolean;
+    createdAt?: boolean;
+    updatedAt?: boolean;
+    user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+  },
+  ExtArgs["result"]["recurringCharge"]
+>;
+
+export type RecurringChargeSelectUpdateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetSelect<
+  {
+    id?: boolean;
+    userId?: boolean;
+    merchantKey?: boolean;
+    merchant?: boolean;
+    currency?: boolean;
+    period?: boolean;
+    amount?: boolean;
+    previousAmount?: boolean;
+    lastChargeAt?: boolean;
+    nextExpectedAt?: boolean;
+    priceAlertedAt?: boolean;
+    missedAlertedFor?: boolean;
+    reminderId?: boolean;
+    createdAt?: boolean;
+    updatedAt?: boolean;
+    user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+  },
+  ExtArgs["result"]["recurringCharge"]
+>;
+
+export type RecurringChargeSelectScalar = {
+  id?: boolean;
+  userId?: boolean;
+  merchantKey?: boolean;
+  merchant?: boolean;
+  currency?: boolean;
+  period?: boolean;
+  amount?: boolean;
+  previousAmount?: boolean;
+  lastChargeAt?: boolean;
+  nextExpectedAt?: boolean;
+  priceAlertedAt?: boolean;
+  missedAlertedFor?: boolean;
+  reminderId?: boolean;
+  createdAt?: boolean;
+  updatedAt?: boolean;
+};
+
+export type RecurringChargeOmit<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = runtime.Types.Extensions.GetOmit<
+  | "id"
+  | "userId"
+  | "merchantKey"
+  | "merchant"
+  | "currency"
+  | "period"
+  | "amount"
+  | "previousAmount"
+  | "lastChargeAt"
+  | "nextExpectedAt"
+  | "priceAlertedAt"
+  | "missedAlertedFor"
+  | "reminderId"
+  | "createdAt"
+  | "updatedAt",
+  ExtArgs["result"]["recurringCharge"]
+>;
+export type RecurringChargeInclude<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+};
+export type RecurringChargeIncludeCreateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+};
+export type RecurringChargeIncludeUpdateManyAndReturn<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  user?: boolean | Prisma.UserDefaultArgs<ExtArgs>;
+};
+
+export type $RecurringChargePayload<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  name: "RecurringCharge";
+  objects: {
+    user: Prisma.$UserPayload<ExtArgs>;
+  };
+  scalars: runtime.Types.Extensions.GetPayloadResult<
+    {
+      id: string;
+      userId: string;
+      merchantKey: string;
+      merchant: string;
+      currency: string;
+      period: $Enums.RecurringPeriod;
+      amount: runtime.Decimal;
+      previousAmount: runtime.Decimal | null;
+      lastChargeAt: Date;
+      nextExpectedAt: Date;
+      priceAlertedAt: Date | null;
+      missedAlertedFor: Date | null;
+      reminderId: string | null;
+      createdAt: Date;
+      updatedAt: Date;
+    },
+    ExtArgs["result"]["recurringCharge"]
+  >;
+  composites: {};
+};
+
+export type RecurringChargeGetPayload<
+  S extends boolean | null | undefined | RecurringChargeDefaultArgs
+> = runtime.Types.Result.GetResult<Prisma.$RecurringChargePayload, S>;
+
+export type RecurringChargeCountArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = Omit<RecurringChargeFindManyArgs, "select" | "include" | "distinct" | "omit"> & {
+  select?: RecurringChargeCountAggregateInputType | true;
+};
+
+export interface RecurringChargeDelegate<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+  GlobalOmitOptions = {}
+> {
+  [K: symbol]: {
+    types: Prisma.TypeMap<ExtArgs>["model"]["RecurringCharge"];
+    meta: { name: "RecurringCharge" };
+  };
+  /**
+   * Find zero or one RecurringCharge that matches the filter.
+   * @param {RecurringChargeFindUniqueArgs} args - Arguments to find a RecurringCharge
+   * @example
+   * // Get one RecurringCharge
+   * const recurringCharge = await prisma.recurringCharge.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends RecurringChargeFindUniqueArgs>(
+    args: Prisma.SelectSubset<T, RecurringChargeFindUniqueArgs<ExtArgs>>
+  ): Prisma.Prisma__RecurringChargeClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$RecurringChargePayload<ExtArgs>,
+      T,
+      "findUnique",
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find one RecurringCharge that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {RecurringChargeFindUniqueOrThrowArgs} args - Arguments to find a RecurringCharge
+   * @example
+   * // Get one RecurringCharge
+   * const recurringCharge = await prisma.recurringCharge.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends RecurringChargeFindUniqueOrThrowArgs>(
+    args: Prisma.SelectSubset<T, RecurringChargeFindUniqueOrThrowArgs<ExtArgs>>
+  ): Prisma.Prisma__RecurringChargeClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$RecurringChargePayload<ExtArgs>,
+      T,
+      "findUniqueOrThrow",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find the first RecurringCharge that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RecurringChargeFindFirstArgs} args - Arguments to find a RecurringCharge
+   * @example
+   * // Get one RecurringCharge
+   * const recurringCharge = await prisma.recurringCharge.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends RecurringChargeFindFirstArgs>(
+    args?: Prisma.SelectSubset<T, RecurringChargeFindFirstArgs<ExtArgs>>
+  ): Prisma.Prisma__RecurringChargeClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$RecurringChargePayload<ExtArgs>,
+      T,
+      "findFirst",
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find the first RecurringCharge that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RecurringChargeFindFirstOrThrowArgs} args - Arguments to find a RecurringCharge
+   * @example
+   * // Get one RecurringCharge
+   * const recurringCharge = await prisma.recurringCharge.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends RecurringChargeFindFirstOrThrowArgs>(
+    args?: Prisma.SelectSubset<T, RecurringChargeFindFirstOrThrowArgs<ExtArgs>>
+  ): Prisma.Prisma__RecurringChargeClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$RecurringChargePayload<ExtArgs>,
+      T,
+      "findFirstOrThrow",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Find zero or more RecurringCharges that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RecurringChargeFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all RecurringCharges
+   * const recurringCharges = await prisma.recurringCharge.findMany()
+   *
+   * // Get first 10 RecurringCharges
+   * const recurringCharges = await prisma.recurringCharge.findMany({ take: 10 })
+   *
+   * // Only select the `id`
+   * const recurringChargeWithIdOnly = await prisma.recurringCharge.findMany({ select: { id: true } })
+   *
+   */
+  findMany<T extends RecurringChargeFindManyArgs>(
+    args?: Prisma.SelectSubset<T, RecurringChargeFindManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$RecurringChargePayload<ExtArgs>,
+      T,
+      "findMany",
+      GlobalOmitOptions
+    >
+  >;
+
+  /**
+   * Create a RecurringCharge.
+   * @param {RecurringChargeCreateArgs} args - Arguments to create a RecurringCharge.
+   * @example
+   * // Create one RecurringCharge
+   * const RecurringCharge = await prisma.recurringCharge.create({
+   *   data: {
+   *     // ... data to create a RecurringCharge
+   *   }
+   * })
+   *
+   */
+  create<T extends RecurringChargeCreateArgs>(
+    args: Prisma.SelectSubset<T, RecurringChargeCreateArgs<ExtArgs>>
+  ): Prisma.Prisma__RecurringChargeClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$RecurringChargePayload<ExtArgs>,
+      T,
+      "create",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Create many RecurringCharges.
+   * @param {RecurringChargeCreateManyArgs} args - Arguments to create many RecurringCharges.
+   * @example
+   * // Create many RecurringCharges
+   * const recurringCharge = await prisma.recurringCharge.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   */
+  createMany<T extends RecurringChargeCreateManyArgs>(
+    args?: Prisma.SelectSubset<T, RecurringChargeCreateManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+  /**
+   * Create many RecurringCharges and returns the data saved in the database.
+   * @param {RecurringChargeCreateManyAndReturnArgs} args - Arguments to create many RecurringCharges.
+   * @example
+   * // Create many RecurringCharges
+   * const recurringCharge = await prisma.recurringCharge.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   * // Create many RecurringCharges and only return the `id`
+   * const recurringChargeWithIdOnly = await prisma.recurringCharge.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   *
+   */
+  createManyAndReturn<T extends RecurringChargeCreateManyAndReturnArgs>(
+    args?: Prisma.SelectSubset<T, RecurringChargeCreateManyAndReturnArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$RecurringChargePayload<ExtArgs>,
+      T,
+      "createManyAndReturn",
+      GlobalOmitOptions
+    >
+  >;
+
+  /**
+   * Delete a RecurringCharge.
+   * @param {RecurringChargeDeleteArgs} args - Arguments to delete one RecurringCharge.
+   * @example
+   * // Delete one RecurringCharge
+   * const RecurringCharge = await prisma.recurringCharge.delete({
+   *   where: {
+   *     // ... filter to delete one RecurringCharge
+   *   }
+   * })
+   *
+   */
+  delete<T extends RecurringChargeDeleteArgs>(
+    args: Prisma.SelectSubset<T, RecurringChargeDeleteArgs<ExtArgs>>
+  ): Prisma.Prisma__RecurringChargeClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$RecurringChargePayload<ExtArgs>,
+      T,
+      "delete",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Update one RecurringCharge.
+   * @param {RecurringChargeUpdateArgs} args - Arguments to update one RecurringCharge.
+   * @example
+   * // Update one RecurringCharge
+   * const recurringCharge = await prisma.recurringCharge.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   *
+   */
+  update<T extends RecurringChargeUpdateArgs>(
+    args: Prisma.SelectSubset<T, RecurringChargeUpdateArgs<ExtArgs>>
+  ): Prisma.Prisma__RecurringChargeClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$RecurringChargePayload<ExtArgs>,
+      T,
+      "update",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Delete zero or more RecurringCharges.
+   * @param {RecurringChargeDeleteManyArgs} args - Arguments to filter RecurringCharges to delete.
+   * @example
+   * // Delete a few RecurringCharges
+   * const { count } = await prisma.recurringCharge.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   *
+   */
+  deleteMany<T extends RecurringChargeDeleteManyArgs>(
+    args?: Prisma.SelectSubset<T, RecurringChargeDeleteManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+  /**
+   * Update zero or more RecurringCharges.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RecurringChargeUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many RecurringCharges
+   * const recurringCharge = await prisma.recurringCharge.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   *
+   */
+  updateMany<T extends RecurringChargeUpdateManyArgs>(
+    args: Prisma.SelectSubset<T, RecurringChargeUpdateManyArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<Prisma.BatchPayload>;
+
+  /**
+   * Update zero or more RecurringCharges and returns the data updated in the database.
+   * @param {RecurringChargeUpdateManyAndReturnArgs} args - Arguments to update many RecurringCharges.
+   * @example
+   * // Update many RecurringCharges
+   * const recurringCharge = await prisma.recurringCharge.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *
+   * // Update zero or more RecurringCharges and only return the `id`
+   * const recurringChargeWithIdOnly = await prisma.recurringCharge.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   *
+   */
+  updateManyAndReturn<T extends RecurringChargeUpdateManyAndReturnArgs>(
+    args: Prisma.SelectSubset<T, RecurringChargeUpdateManyAndReturnArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    runtime.Types.Result.GetResult<
+      Prisma.$RecurringChargePayload<ExtArgs>,
+      T,
+      "updateManyAndReturn",
+      GlobalOmitOptions
+    >
+  >;
+
+  /**
+   * Create or update one RecurringCharge.
+   * @param {RecurringChargeUpsertArgs} args - Arguments to update or create a RecurringCharge.
+   * @example
+   * // Update or create a RecurringCharge
+   * const recurringCharge = await prisma.recurringCharge.upsert({
+   *   create: {
+   *     // ... data to create a RecurringCharge
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the RecurringCharge we want to update
+   *   }
+   * })
+   */
+  upsert<T extends RecurringChargeUpsertArgs>(
+    args: Prisma.SelectSubset<T, RecurringChargeUpsertArgs<ExtArgs>>
+  ): Prisma.Prisma__RecurringChargeClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$RecurringChargePayload<ExtArgs>,
+      T,
+      "upsert",
+      GlobalOmitOptions
+    >,
+    never,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+
+  /**
+   * Count the number of RecurringCharges.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RecurringChargeCountArgs} args - Arguments to filter RecurringCharges to count.
+   * @example
+   * // Count the number of RecurringCharges
+   * const count = await prisma.recurringCharge.count({
+   *   where: {
+   *     // ... the filter for the RecurringCharges we want to count
+   *   }
+   * })
+   **/
+  count<T extends RecurringChargeCountArgs>(
+    args?: Prisma.Subset<T, RecurringChargeCountArgs>
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<"select", any>
+      ? T["select"] extends true
+        ? number
+        : Prisma.GetScalarType<T["select"], RecurringChargeCountAggregateOutputType>
+      : number
+  >;
+
+  /**
+   * Allows you to perform aggregations operations on a RecurringCharge.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RecurringChargeAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+   **/
+  aggregate<T extends RecurringChargeAggregateArgs>(
+    args: Prisma.Subset<T, RecurringChargeAggregateArgs>
+  ): Prisma.PrismaPromise<GetRecurringChargeAggregateType<T>>;
+
+  /**
+   * Group by RecurringCharge.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {RecurringChargeGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   *
+   **/
+  groupBy<
+    T extends RecurringChargeGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<"skip", Prisma.Keys<T>>,
+      Prisma.Extends<"take", Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: RecurringChargeGroupByArgs["orderBy"] }
+      : { orderBy?: RecurringChargeGroupByArgs["orderBy"] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<
+      Prisma.Keys<Prisma.MaybeTupleToUnion<T["orderBy"]>>
+    >,
+    ByFields extends Prisma.MaybeTupleToUnion<T["by"]>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T["having"]>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T["by"] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+      ? `Error: "by" must not be empty.`
+      : HavingValid extends Prisma.False
+        ? {
+            [P in HavingFields]: P extends ByFields
+              ? never
+              : P extends string
+                ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+                : [Error, "Field ", P, ` in "having" needs to be provided in "by"`];
+          }[HavingFields]
+        : "take" extends Prisma.Keys<T>
+          ? "orderBy" extends Prisma.Keys<T>
+            ? ByValid extends Prisma.True
+              ? {}
+              : {
+                  [P in OrderFields]: P extends ByFields
+                    ? never
+                    : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                }[OrderFields]
+            : 'Error: If you provide "take", you also need to provide "orderBy"'
+          : "skip" extends Prisma.Keys<T>
+            ? "orderBy" extends Prisma.Keys<T>
+              ? ByValid extends Prisma.True
+                ? {}
+                : {
+                    [P in OrderFields]: P extends ByFields
+                      ? never
+                      : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                  }[OrderFields]
+              : 'Error: If you provide "skip", you also need to provide "orderBy"'
+            : ByValid extends Prisma.True
+              ? {}
+              : {
+                  [P in OrderFields]: P extends ByFields
+                    ? never
+                    : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`;
+                }[OrderFields]
+  >(
+    args: Prisma.SubsetIntersection<T, RecurringChargeGroupByArgs, OrderByArg> & InputErrors
+  ): {} extends InputErrors
+    ? GetRecurringChargeGroupByPayload<T>
+    : Prisma.PrismaPromise<InputErrors>;
+  /**
+   * Fields of the RecurringCharge model
+   */
+  readonly fields: RecurringChargeFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for RecurringCharge.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__RecurringChargeClient<
+  T,
+  Null = never,
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs,
+  GlobalOmitOptions = {}
+> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise";
+  user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>
+  ): Prisma.Prisma__UserClient<
+    | runtime.Types.Result.GetResult<
+        Prisma.$UserPayload<ExtArgs>,
+        T,
+        "findUniqueOrThrow",
+        GlobalOmitOptions
+      >
+    | Null,
+    Null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(
+    onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null
+  ): runtime.Types.Utils.JsPromise<TResult1 | TResult2>;
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(
+    onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null
+  ): runtime.Types.Utils.JsPromise<T | TResult>;
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>;
+}
+
+/**
+ * Fields of the RecurringCharge model
+ */
+export interface RecurringChargeFieldRefs {
+  readonly id: Prisma.FieldRef<"RecurringCharge", "String">;
+  readonly userId: Prisma.FieldRef<"RecurringCharge", "String">;
+  readonly merchantKey: Prisma.FieldRef<"RecurringCharge", "String">;
+  readonly merchant: Prisma.FieldRef<"RecurringCharge", "String">;
+  readonly currency: Prisma.FieldRef<"RecurringCharge", "String">;
+  readonly period: Prisma.FieldRef<"RecurringCharge", "RecurringPeriod">;
+  readonly amount: Prisma.FieldRef<"RecurringCharge", "Decimal">;
+  readonly previousAmount: Prisma.FieldRef<"RecurringCharge", "Decimal">;
+  readonly lastChargeAt: Prisma.FieldRef<"RecurringCharge", "DateTime">;
+  readonly nextExpectedAt: Prisma.FieldRef<"RecurringCharge", "DateTime">;
+  readonly priceAlertedAt: Prisma.FieldRef<"RecurringCharge", "DateTime">;
+  readonly missedAlertedFor: Prisma.FieldRef<"RecurringCharge", "DateTime">;
+  readonly reminderId: Prisma.FieldRef<"RecurringCharge", "String">;
+  readonly createdAt: Prisma.FieldRef<"RecurringCharge", "DateTime">;
+  readonly updatedAt: Prisma.FieldRef<"RecurringCharge", "DateTime">;
+}
+
+// Custom InputTypes
+/**
+ * RecurringCharge findUnique
+ */
+export type RecurringChargeFindUniqueArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the RecurringCharge
+   */
+  select?: Prisma.RecurringChargeSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the RecurringCharge
+   */
+  omit?: Prisma.RecurringChargeOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecurringChargeInclude<ExtArgs> | null;
+  /**
+   * Filter, which RecurringCharge to fetch.
+   */
+  where: Prisma.RecurringChargeWhereUniqueInput;
+};
+
+/**
+ * RecurringCharge findUniqueOrThrow
+ */
+export type RecurringChargeFindUniqueOrThrowArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the RecurringCharge
+   */
+  select?: Prisma.RecurringChargeSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the RecurringCharge
+   */
+  omit?: Prisma.RecurringChargeOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecurringChargeInclude<ExtArgs> | null;
+  /**
+   * Filter, which RecurringCharge to fetch.
+   */
+  where: Prisma.RecurringChargeWhereUniqueInput;
+};
+
+/**
+ * RecurringCharge findFirst
+ */
+export type RecurringChargeFindFirstArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the RecurringCharge
+   */
+  select?: Prisma.RecurringChargeSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the RecurringCharge
+   */
+  omit?: Prisma.RecurringChargeOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecurringChargeInclude<ExtArgs> | null;
+  /**
+   * Filter, which RecurringCharge to fetch.
+   */
+  where?: Prisma.RecurringChargeWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of RecurringCharges to fetch.
+   */
+  orderBy?:
+    | Prisma.RecurringChargeOrderByWithRelationInput
+    | Prisma.RecurringChargeOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for searching for RecurringCharges.
+   */
+  cursor?: Prisma.RecurringChargeWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` RecurringCharges from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` RecurringCharges.
+   */
+  skip?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   *
+   * Filter by unique combinations of RecurringCharges.
+   */
+  distinct?: Prisma.RecurringChargeScalarFieldEnum | Prisma.RecurringChargeScalarFieldEnum[];
+};
+
+/**
+ * RecurringCharge findFirstOrThrow
+ */
+export type RecurringChargeFindFirstOrThrowArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the RecurringCharge
+   */
+  select?: Prisma.RecurringChargeSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the RecurringCharge
+   */
+  omit?: Prisma.RecurringChargeOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecurringChargeInclude<ExtArgs> | null;
+  /**
+   * Filter, which RecurringCharge to fetch.
+   */
+  where?: Prisma.RecurringChargeWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of RecurringCharges to fetch.
+   */
+  orderBy?:
+    | Prisma.RecurringChargeOrderByWithRelationInput
+    | Prisma.RecurringChargeOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for searching for RecurringCharges.
+   */
+  cursor?: Prisma.RecurringChargeWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` RecurringCharges from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` RecurringCharges.
+   */
+  skip?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   *
+   * Filter by unique combinations of RecurringCharges.
+   */
+  distinct?: Prisma.RecurringChargeScalarFieldEnum | Prisma.RecurringChargeScalarFieldEnum[];
+};
+
+/**
+ * RecurringCharge findMany
+ */
+export type RecurringChargeFindManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the RecurringCharge
+   */
+  select?: Prisma.RecurringChargeSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the RecurringCharge
+   */
+  omit?: Prisma.RecurringChargeOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecurringChargeInclude<ExtArgs> | null;
+  /**
+   * Filter, which RecurringCharges to fetch.
+   */
+  where?: Prisma.RecurringChargeWhereInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   *
+   * Determine the order of RecurringCharges to fetch.
+   */
+  orderBy?:
+    | Prisma.RecurringChargeOrderByWithRelationInput
+    | Prisma.RecurringChargeOrderByWithRelationInput[];
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   *
+   * Sets the position for listing RecurringCharges.
+   */
+  cursor?: Prisma.RecurringChargeWhereUniqueInput;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Take `±n` RecurringCharges from the position of the cursor.
+   */
+  take?: number;
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   *
+   * Skip the first `n` RecurringCharges.
+   */
+  skip?: number;
+  distinct?: Prisma.RecurringChargeScalarFieldEnum | Prisma.RecurringChargeScalarFieldEnum[];
+};
+
+/**
+ * RecurringCharge create
+ */
+export type RecurringChargeCreateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the RecurringCharge
+   */
+  select?: Prisma.RecurringChargeSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the RecurringCharge
+   */
+  omit?: Prisma.RecurringChargeOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecurringChargeInclude<ExtArgs> | null;
+  /**
+   * The data needed to create a RecurringCharge.
+   */
+  data: Prisma.XOR<Prisma.RecurringChargeCreateInput, Prisma.RecurringChargeUncheckedCreateInput>;
+};
+
+/**
+ * RecurringCharge createMany
+ */
+export type RecurringChargeCreateManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * The data used to create many RecurringCharges.
+   */
+  data: Prisma.RecurringChargeCreateManyInput | Prisma.RecurringChargeCreateManyInput[];
+  skipDuplicates?: boolean;
+};
+
+/**
+ * RecurringCharge createManyAndReturn
+ */
+export type RecurringChargeCreateManyAndReturnArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the RecurringCharge
+   */
+  select?: Prisma.RecurringChargeSelectCreateManyAndReturn<ExtArgs> | null;
+  /**
+   * Omit specific fields from the RecurringCharge
+   */
+  omit?: Prisma.RecurringChargeOmit<ExtArgs> | null;
+  /**
+   * The data used to create many RecurringCharges.
+   */
+  data: Prisma.RecurringChargeCreateManyInput | Prisma.RecurringChargeCreateManyInput[];
+  skipDuplicates?: boolean;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecurringChargeIncludeCreateManyAndReturn<ExtArgs> | null;
+};
+
+/**
+ * RecurringCharge update
+ */
+export type RecurringChargeUpdateArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the RecurringCharge
+   */
+  select?: Prisma.RecurringChargeSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the RecurringCharge
+   */
+  omit?: Prisma.RecurringChargeOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecurringChargeInclude<ExtArgs> | null;
+  /**
+   * The data needed to update a RecurringCharge.
+   */
+  data: Prisma.XOR<Prisma.RecurringChargeUpdateInput, Prisma.RecurringChargeUncheckedUpdateInput>;
+  /**
+   * Choose, which RecurringCharge to update.
+   */
+  where: Prisma.RecurringChargeWhereUniqueInput;
+};
+
+/**
+ * RecurringCharge updateMany
+ */
+export type RecurringChargeUpdateManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * The data used to update RecurringCharges.
+   */
+  data: Prisma.XOR<
+    Prisma.RecurringChargeUpdateManyMutationInput,
+    Prisma.RecurringChargeUncheckedUpdateManyInput
+  >;
+  /**
+   * Filter which RecurringCharges to update
+   */
+  where?: Prisma.RecurringChargeWhereInput;
+  /**
+   * Limit how many RecurringCharges to update.
+   */
+  limit?: number;
+};
+
+/**
+ * RecurringCharge updateManyAndReturn
+ */
+export type RecurringChargeUpdateManyAndReturnArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the RecurringCharge
+   */
+  select?: Prisma.RecurringChargeSelectUpdateManyAndReturn<ExtArgs> | null;
+  /**
+   * Omit specific fields from the RecurringCharge
+   */
+  omit?: Prisma.RecurringChargeOmit<ExtArgs> | null;
+  /**
+   * The data used to update RecurringCharges.
+   */
+  data: Prisma.XOR<
+    Prisma.RecurringChargeUpdateManyMutationInput,
+    Prisma.RecurringChargeUncheckedUpdateManyInput
+  >;
+  /**
+   * Filter which RecurringCharges to update
+   */
+  where?: Prisma.RecurringChargeWhereInput;
+  /**
+   * Limit how many RecurringCharges to update.
+   */
+  limit?: number;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecurringChargeIncludeUpdateManyAndReturn<ExtArgs> | null;
+};
+
+/**
+ * RecurringCharge upsert
+ */
+export type RecurringChargeUpsertArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the RecurringCharge
+   */
+  select?: Prisma.RecurringChargeSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the RecurringCharge
+   */
+  omit?: Prisma.RecurringChargeOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecurringChargeInclude<ExtArgs> | null;
+  /**
+   * The filter to search for the RecurringCharge to update in case it exists.
+   */
+  where: Prisma.RecurringChargeWhereUniqueInput;
+  /**
+   * In case the RecurringCharge found by the `where` argument doesn't exist, create a new RecurringCharge with this data.
+   */
+  create: Prisma.XOR<Prisma.RecurringChargeCreateInput, Prisma.RecurringChargeUncheckedCreateInput>;
+  /**
+   * In case the RecurringCharge was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.RecurringChargeUpdateInput, Prisma.RecurringChargeUncheckedUpdateInput>;
+};
+
+/**
+ * RecurringCharge delete
+ */
+export type RecurringChargeDeleteArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the RecurringCharge
+   */
+  select?: Prisma.RecurringChargeSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the RecurringCharge
+   */
+  omit?: Prisma.RecurringChargeOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecurringChargeInclude<ExtArgs> | null;
+  /**
+   * Filter which RecurringCharge to delete.
+   */
+  where: Prisma.RecurringChargeWhereUniqueInput;
+};
+
+/**
+ * RecurringCharge deleteMany
+ */
+export type RecurringChargeDeleteManyArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Filter which RecurringCharges to delete
+   */
+  where?: Prisma.RecurringChargeWhereInput;
+  /**
+   * Limit how many RecurringCharges to delete.
+   */
+  limit?: number;
+};
+
+/**
+ * RecurringCharge without action
+ */
+export type RecurringChargeDefaultArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the RecurringCharge
+   */
+  select?: Prisma.RecurringChargeSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the RecurringCharge
+   */
+  omit?: Prisma.RecurringChargeOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecurringChargeInclude<ExtArgs> | null;
+};
@@ -27,10 +27,14 @@ export type AggregateReminder = {
 
 export type ReminderAvgAggregateOutputType = {
   recurrenceDay: number | null;
+  occurrenceIndex: number | null;
+  nagCount: number | null;
 };
 
 export type ReminderSumAggregateOutputType = {
   recurrenceDay: number | null;
+  occurrenceIndex: number | null;
+  nagCount: number | null;
 };
 
 export type ReminderMinAggregateOutputType = {
@@ -42,9 +46,17 @@ export type ReminderMinAggregateOutputType = {
   chatId: string | null;
   status: $Enums.ReminderStatus | null;
   calendarEventId: string | null;
+  source: $Enums.ReminderSource | null;
   recurrence: $Enums.RecurrenceType | null;
   recurrenceDay: number | null;
   recurrenceTime: string | null;
+  rrule: string | null;
+  occurrenceIndex: number | null;
+  notificationMessageId: string | null;
+  insist: boolean | null;
+  nagCount: number | null;
+  nextNagAt: Date | null;
+  escalatedAt: Date | null;
   createdAt: Date | null;
   updatedAt: Date | null;
   sentAt: Date | null;
@@ -59,9 +71,17 @@ export type ReminderMaxAggregateOutputType = {
   chatId: string | null;
   status: $Enums.ReminderStatus | null;
   calendarEventId: string | null;
+  source: $Enums.ReminderSource | null;
   recurrence: $Enums.RecurrenceType | null;
   recurrenceDay: number | null;
   recurrenceTime: string | null;
+  rrule: string | null;
+  occurrenceIndex: number | null;
+  notificationMessageId: string | null;
+  insist: boolean | null;
+  nagCount: number | null;
+  nextNagAt: Date | null;
+  escalatedAt: Date | null;
   createdAt: Date | null;
   updatedAt: Date | null;
   sentAt: Date | null;
@@ -76,9 +96,17 @@ export type ReminderCountAggregateOutputType = {
   chatId: number;
   status: number;
   calendarEventId: number;
+  source: number;
   recurrence: number;
   recurrenceDay: number;
   recurrenceTime: number;
+  rrule: number;
+  occurrenceIndex: number;
+  notificationMessageId: number;
+  insist: number;
+  nagCount: number;
+  nextNagAt: number;
+  escalatedAt: number;
   createdAt: number;
   updatedAt: number;
   sentAt: number;
@@ -87,10 +115,14 @@ export type ReminderCountAggregateOutputType = {
 
 export type ReminderAvgAggregateInputType = {
   recurrenceDay?: true;
+  occurrenceIndex?: true;
+  nagCount?: true;
 };
 
 export type ReminderSumAggregateInputType = {
   recurrenceDay?: true;
+  occurrenceIndex?: true;
+  nagCount?: true;
 };
 
 export type ReminderMinAggregateInputType = {
@@ -102,9 +134,17 @@ export type ReminderMinAggregateInputType = {
   chatId?: true;
   status?: true;
   calendarEventId?: true;
+  source?: true;
   recurrence?: true;
   recurrenceDay?: true;
   recurrenceTime?: true;
+  rrule?: true;
+  occurrenceIndex?: true;
+  notificationMessageId?: true;
+  insist?: true;
+  nagCount?: true;
+  nextNagAt?: true;
+  escalatedAt?: true;
   createdAt?: true;
   updatedAt?: true;
   sentAt?: true;
@@ -119,9 +159,17 @@ export type ReminderMaxAggregateInputType = {
   chatId?: true;
   status?: true;
   calendarEventId?: true;
+  source?: true;
   recurrence?: true;
   recurrenceDay?: true;
   recurrenceTime?: true;
+  rrule?: true;
+  occurrenceIndex?: true;
+  notificationMessageId?: true;
+  insist?: true;
+  nagCount?: true;
+  nextNagAt?: true;
+  escalatedAt?: true;
   createdAt?: true;
   updatedAt?: true;
   sentAt?: true;
@@ -136,9 +184,17 @@ export type ReminderCountAggregateInputType = {
   chatId?: true;
   status?: true;
   calendarEventId?: true;
+  source?: true;
   recurrence?: true;
   recurrenceDay?: true;
   recurrenceTime?: true;
+  rrule?: true;
+  occurrenceIndex?: true;
+  notificationMessageId?: true;
+  insist?: true;
+  nagCount?: true;
+  nextNagAt?: true;
+  escalatedAt?: true;
   createdAt?: true;
   updatedAt?: true;
   sentAt?: true;
@@ -243,9 +299,17 @@ export type ReminderGroupByOutputType = {
   chatId: string;
   status: $Enums.ReminderStatus;
   calendarEventId: string | null;
+  source: $Enums.ReminderSource;
   recurrence: $Enums.RecurrenceType;
   recurrenceDay: number | null;
   recurrenceTime: string | null;
+  rrule: string | null;
+  occurrenceIndex: number;
+  notificationMessageId: string | null;
+  insist: boolean;
+  nagCount: number;
+  nextNagAt: Date | null;
+  escalatedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
   sentAt: Date | null;
@@ -280,9 +344,17 @@ export type ReminderWhereInput = {
   chatId?: Prisma.StringFilter<"Reminder"> | string;
   status?: Prisma.EnumReminderStatusFilter<"Reminder"> | $Enums.ReminderStatus;
   calendarEventId?: Prisma.StringNullableFilter<"Reminder"> | string | null;
+  source?: Prisma.EnumReminderSourceFilter<"Reminder"> | $Enums.ReminderSource;
   recurrence?: Prisma.EnumRecurrenceTypeFilter<"Reminder"> | $Enums.RecurrenceType;
   recurrenceDay?: Prisma.IntNullableFilter<"Reminder"> | number | null;
   recurrenceTime?: Prisma.StringNullableFilter<"Reminder"> | string | null;
+  rrule?: Prisma.StringNullableFilter<"Reminder"> | string | null;
+  occurrenceIndex?: Prisma.IntFilter<"Reminder"> | number;
+  notificationMessageId?: Prisma.StringNullableFilter<"Reminder"> | string | null;
+  insist?: Prisma.BoolFilter<"Reminder"> | boolean;
+  nagCount?: Prisma.IntFilter<"Reminder"> | number;
+  nextNagAt?: Prisma.DateTimeNullableFilter<"Reminder"> | Date | string | null;
+  escalatedAt?: Prisma.DateTimeNullableFilter<"Reminder"> | Date | string | null;
   createdAt?: Prisma.DateTimeFilter<"Reminder"> | Date | string;
   updatedAt?: Prisma.DateTimeFilter<"Reminder"> | Date | string;
   sentAt?: Prisma.DateTimeNullableFilter<"Reminder"> | Date | string | null;
@@ -298,9 +370,17 @@ export type ReminderOrderByWithRelationInput = {
   chatId?: Prisma.SortOrder;
   status?: Prisma.SortOrder;
   calendarEventId?: Prisma.SortOrderInput | Prisma.SortOrder;
+  source?: Prisma.SortOrder;
   recurrence?: Prisma.SortOrder;
   recurrenceDay?: Prisma.SortOrderInput | Prisma.SortOrder;
   recurrenceTime?: Prisma.SortOrderInput | Prisma.SortOrder;
+  rrule?: Prisma.SortOrderInput | Prisma.SortOrder;
+  occurrenceIndex?: Prisma.SortOrder;
+  notificationMessageId?: Prisma.SortOrderInput | Prisma.SortOrder;
+  insist?: Prisma.SortOrder;
+  nagCount?: Prisma.SortOrder;
+  nextNagAt?: Prisma.SortOrderInput | Prisma.SortOrder;
+  escalatedAt?: Prisma.SortOrderInput | Prisma.SortOrder;
   createdAt?: Prisma.SortOrder;
   updatedAt?: Prisma.SortOrder;
   sentAt?: Prisma.SortOrderInput | Prisma.SortOrder;
@@ -320,9 +400,17 @@ export type ReminderWhereUniqueInput = Prisma.AtLeast<
     chatId?: Prisma.StringFilter<"Reminder"> | string;
     status?: Prisma.EnumReminderStatusFilter<"Reminder"> | $Enums.ReminderStatus;
     calendarEventId?: Prisma.StringNullableFilter<"Reminder"> | string | null;
+    source?: Prisma.EnumReminderSourceFilter<"Reminder"> | $Enums.ReminderSource;
     recurrence?: Prisma.EnumRecurrenceTypeFilter<"Reminder"> | $Enums.RecurrenceType;
     recurrenceDay?: Prisma.IntNullableFilter<"Reminder"> | number | null;
     recurrenceTime?: Prisma.StringNullableFilter<"Reminder"> | string | null;
+    rrule?: Prisma.StringNullableFilter<"Reminder"> | string | null;
+    occurrenceIndex?: Prisma.IntFilter<"Reminder"> | number;
+    notificationMessageId?: Prisma.StringNullableFilter<"Reminder"> | string | null;
+    insist?: Prisma.BoolFilter<"Reminder"> | boolean;
+    nagCount?: Prisma.IntFilter<"Reminder"> | number;
+    nextNagAt?: Prisma.DateTimeNullableFilter<"Reminder"> | Date | string | null;
+    escalatedAt?: Prisma.DateTimeNullableFilter<"Reminder"> | Date | string | null;
     createdAt?: Prisma.DateTimeFilter<"Reminder"> | Date | string;
     updatedAt?: Prisma.DateTimeFilter<"Reminder"> | Date | string;
     sentAt?: Prisma.DateTimeNullableFilter<"Reminder"> | Date | string | null;
@@ -340,9 +428,17 @@ export type ReminderOrderByWithAggregationInput = {
   chatId?: Prisma.SortOrder;
   status?: Prisma.SortOrder;
   calendarEventId?: Prisma.SortOrderInput | Prisma.SortOrder;
+  source?: Prisma.SortOrder;
   recurrence?: Prisma.SortOrder;
   recurrenceDay?: Prisma.SortOrderInput | Prisma.SortOrder;
   recurrenceTime?: Prisma.SortOrderInput | Prisma.SortOrder;
+  rrule?: Prisma.SortOrderInput | Prisma.SortOrder;
+  occurrenceIndex?: Prisma.SortOrder;
+  notificationMessageId?: Prisma.SortOrderInput | Prisma.SortOrder;
+  insist?: Prisma.SortOrder;
+  nagCount?: Prisma.SortOrder;
+  nextNagAt?: Prisma.SortOrderInput | Prisma.SortOrder;
+  escalatedAt?: Prisma.SortOrderInput | Prisma.SortOrder;
   createdAt?: Prisma.SortOrder;
   updatedAt?: Prisma.SortOrder;
   sentAt?: Prisma.SortOrderInput | Prisma.SortOrder;
@@ -369,9 +465,17 @@ export type ReminderScalarWhereWithAggregatesInput = {
   chatId?: Prisma.StringWithAggregatesFilter<"Reminder"> | string;
   status?: Prisma.EnumReminderStatusWithAggregatesFilter<"Reminder"> | $Enums.ReminderStatus;
   calendarEventId?: Prisma.StringNullableWithAggregatesFilter<"Reminder"> | string | null;
+  source?: Prisma.EnumReminderSourceWithAggregatesFilter<"Reminder"> | $Enums.ReminderSource;
   recurrence?: Prisma.EnumRecurrenceTypeWithAggregatesFilter<"Reminder"> | $Enums.RecurrenceType;
   recurrenceDay?: Prisma.IntNullableWithAggregatesFilter<"Reminder"> | number | null;
   recurrenceTime?: Prisma.StringNullableWithAggregatesFilter<"Reminder"> | string | null;
+  rrule?: Prisma.StringNullableWithAggregatesFilter<"Reminder"> | string | null;
+  occurrenceIndex?: Prisma.IntWithAggregatesFilter<"Reminder"> | number;
+  notificationMessageId?: Prisma.StringNullableWithAggregatesFilter<"Reminder"> | string | null;
+  insist?: Prisma.BoolWithAggregatesFilter<"Reminder"> | boolean;
+  nagCount?: Prisma.IntWithAggregatesFilter<"Reminder"> | number;
+  nextNagAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Reminder"> | Date | string | null;
+  escalatedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Reminder"> | Date | string | null;
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"Reminder"> | Date | string;
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Reminder"> | Date | string;
   sentAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Reminder"> | Date | string | null;
@@ -385,9 +489,17 @@ export type ReminderCreateInput = {
   chatId: string;
   status?: $Enums.ReminderStatus;
   calendarEventId?: string | null;
+  source?: $Enums.ReminderSource;
   recurrence?: $Enums.RecurrenceType;
   recurrenceDay?: number | null;
   recurrenceTime?: string | null;
+  rrule?: string | null;
+  occurrenceIndex?: number;
+  notificationMessageId?: string | null;
+  insist?: boolean;
+  nagCount?: number;
+  nextNagAt?: Date | string | null;
+  escalatedAt?: Date | string | null;
   createdAt?: Date | string;
   updatedAt?: Date | string;
   sentAt?: Date | string | null;
@@ -403,9 +515,17 @@ export type ReminderUncheckedCreateInput = {
   chatId: string;
   status?: $Enums.ReminderStatus;
   calendarEventId?: string | null;
+  source?: $Enums.ReminderSource;
   recurrence?: $Enums.RecurrenceType;
   recurrenceDay?: number | null;
   recurrenceTime?: string | null;
+  rrule?: string | null;
+  occurrenceIndex?: number;
+  notificationMessageId?: string | null;
+  insist?: boolean;
+  nagCount?: number;
+  nextNagAt?: Date | string | null;
+  escalatedAt?: Date | string | null;
   createdAt?: Date | string;
   updatedAt?: Date | string;
   sentAt?: Date | string | null;
@@ -419,9 +539,17 @@ export type ReminderUpdateInput = {
   chatId?: Prisma.StringFieldUpdateOperationsInput | string;
   status?: Prisma.EnumReminderStatusFieldUpdateOperationsInput | $Enums.ReminderStatus;
   calendarEventId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  source?: Prisma.EnumReminderSourceFieldUpdateOperationsInput | $Enums.ReminderSource;
   recurrence?: Prisma.EnumRecurrenceTypeFieldUpdateOperationsInput | $Enums.RecurrenceType;
   recurrenceDay?: Prisma.NullableIntFieldUpdateOperationsInput | number | null;
   recurrenceTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  rrule?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  occurrenceIndex?: Prisma.IntFieldUpdateOperationsInput | number;
+  notificationMessageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  insist?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  nagCount?: Prisma.IntFieldUpdateOperationsInput | number;
+  nextNagAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  escalatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
@@ -437,9 +565,17 @@ export type ReminderUncheckedUpdateInput = {
   chatId?: Prisma.StringFieldUpdateOperationsInput | string;
   status?: Prisma.EnumReminderStatusFieldUpdateOperationsInput | $Enums.ReminderStatus;
   calendarEventId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  source?: Prisma.EnumReminderSourceFieldUpdateOperationsInput | $Enums.ReminderSource;
   recurrence?: Prisma.EnumRecurrenceTypeFieldUpdateOperationsInput | $Enums.RecurrenceType;
   recurrenceDay?: Prisma.NullableIntFieldUpdateOperationsInput | number | null;
   recurrenceTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  rrule?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  occurrenceIndex?: Prisma.IntFieldUpdateOperationsInput | number;
+  notificationMessageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  insist?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  nagCount?: Prisma.IntFieldUpdateOperationsInput | number;
+  nextNagAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  escalatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
@@ -454,9 +590,17 @@ export type ReminderCreateManyInput = {
   chatId: string;
   status?: $Enums.ReminderStatus;
   calendarEventId?: string | null;
+  source?: $Enums.ReminderSource;
   recurrence?: $Enums.RecurrenceType;
   recurrenceDay?: number | null;
   recurrenceTime?: string | null;
+  rrule?: string | null;
+  occurrenceIndex?: number;
+  notificationMessageId?: string | null;
+  insist?: boolean;
+  nagCount?: number;
+  nextNagAt?: Date | string | null;
+  escalatedAt?: Date | string | null;
   createdAt?: Date | string;
   updatedAt?: Date | string;
   sentAt?: Date | string | null;
@@ -470,9 +614,17 @@ export type ReminderUpdateManyMutationInput = {
   chatId?: Prisma.StringFieldUpdateOperationsInput | string;
   status?: Prisma.EnumReminderStatusFieldUpdateOperationsInput | $Enums.ReminderStatus;
   calendarEventId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  source?: Prisma.EnumReminderSourceFieldUpdateOperationsInput | $Enums.ReminderSource;
   recurrence?: Prisma.EnumRecurrenceTypeFieldUpdateOperationsInput | $Enums.RecurrenceType;
   recurrenceDay?: Prisma.NullableIntFieldUpdateOperationsInput | number | null;
   recurrenceTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  rrule?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  occurrenceIndex?: Prisma.IntFieldUpdateOperationsInput | number;
+  notificationMessageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  insist?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  nagCount?: Prisma.IntFieldUpdateOperationsInput | number;
+  nextNagAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  escalatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
@@ -487,9 +639,17 @@ export type ReminderUncheckedUpdateManyInput = {
   chatId?: Prisma.StringFieldUpdateOperationsInput | string;
   status?: Prisma.EnumReminderStatusFieldUpdateOperationsInput | $Enums.ReminderStatus;
   calendarEventId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  source?: Prisma.EnumReminderSourceFieldUpdateOperationsInput | $Enums.ReminderSource;
   recurrence?: Prisma.EnumRecurrenceTypeFieldUpdateOperationsInput | $Enums.RecurrenceType;
   recurrenceDay?: Prisma.NullableIntFieldUpdateOperationsInput | number | null;
   recurrenceTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  rrule?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  occurrenceIndex?: Prisma.IntFieldUpdateOperationsInput | number;
+  notificationMessageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  insist?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  nagCount?: Prisma.IntFieldUpdateOperationsInput | number;
+  nextNagAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  escalatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
@@ -514,9 +674,17 @@ export type ReminderCountOrderByAggregateInput = {
   chatId?: Prisma.SortOrder;
   status?: Prisma.SortOrder;
   calendarEventId?: Prisma.SortOrder;
+  source?: Prisma.SortOrder;
   recurrence?: Prisma.SortOrder;
   recurrenceDay?: Prisma.SortOrder;
   recurrenceTime?: Prisma.SortOrder;
+  rrule?: Prisma.SortOrder;
+  occurrenceIndex?: Prisma.SortOrder;
+  notificationMessageId?: Prisma.SortOrder;
+  insist?: Prisma.SortOrder;
+  nagCount?: Prisma.SortOrder;
+  nextNagAt?: Prisma.SortOrder;
+  escalatedAt?: Prisma.SortOrder;
   createdAt?: Prisma.SortOrder;
   updatedAt?: Prisma.SortOrder;
   sentAt?: Prisma.SortOrder;
@@ -524,6 +692,8 @@ export type ReminderCountOrderByAggregateInput = {
 
 export type ReminderAvgOrderByAggregateInput = {
   recurrenceDay?: Prisma.SortOrder;
+  occurrenceIndex?: Prisma.SortOrder;
+  nagCount?: Prisma.SortOrder;
 };
 
 export type ReminderMaxOrderByAggregateInput = {
@@ -535,9 +705,17 @@ export type ReminderMaxOrderByAggregateInput = {
   chatId?: Prisma.SortOrder;
   status?: Prisma.SortOrder;
   calendarEventId?: Prisma.SortOrder;
+  source?: Prisma.SortOrder;
   recurrence?: Prisma.SortOrder;
   recurrenceDay?: Prisma.SortOrder;
   recurrenceTime?: Prisma.SortOrder;
+  rrule?: Prisma.SortOrder;
+  occurrenceIndex?: Prisma.SortOrder;
+  notificationMessageId?: Prisma.SortOrder;
+  insist?: Prisma.SortOrder;
+  nagCount?: Prisma.SortOrder;
+  nextNagAt?: Prisma.SortOrder;
+  escalatedAt?: Prisma.SortOrder;
   createdAt?: Prisma.SortOrder;
   updatedAt?: Prisma.SortOrder;
   sentAt?: Prisma.SortOrder;
@@ -552,9 +730,17 @@ export type ReminderMinOrderByAggregateInput = {
   chatId?: Prisma.SortOrder;
   status?: Prisma.SortOrder;
   calendarEventId?: Prisma.SortOrder;
+  source?: Prisma.SortOrder;
   recurrence?: Prisma.SortOrder;
   recurrenceDay?: Prisma.SortOrder;
   recurrenceTime?: Prisma.SortOrder;
+  rrule?: Prisma.SortOrder;
+  occurrenceIndex?: Prisma.SortOrder;
+  notificationMessageId?: Prisma.SortOrder;
+  insist?: Prisma.SortOrder;
+  nagCount?: Prisma.SortOrder;
+  nextNagAt?: Prisma.SortOrder;
+  escalatedAt?: Prisma.SortOrder;
   createdAt?: Prisma.SortOrder;
   updatedAt?: Prisma.SortOrder;
   sentAt?: Prisma.SortOrder;
@@ -562,6 +748,8 @@ export type ReminderMinOrderByAggregateInput = {
 
 export type ReminderSumOrderByAggregateInput = {
   recurrenceDay?: Prisma.SortOrder;
+  occurrenceIndex?: Prisma.SortOrder;
+  nagCount?: Prisma.SortOrder;
 };
 
 export type ReminderCreateNestedManyWithoutUserInput = {
@@ -654,6 +842,10 @@ export type EnumReminderStatusFieldUpdateOperationsInput = {
   set?: $Enums.ReminderStatus;
 };
 
+export type EnumReminderSourceFieldUpdateOperationsInput = {
+  set?: $Enums.ReminderSource;
+};
+
 export type EnumRecurrenceTypeFieldUpdateOperationsInput = {
   set?: $Enums.RecurrenceType;
 };
@@ -666,9 +858,17 @@ export type ReminderCreateWithoutUserInput = {
   chatId: string;
   status?: $Enums.ReminderStatus;
   calendarEventId?: string | null;
+  source?: $Enums.ReminderSource;
   recurrence?: $Enums.RecurrenceType;
   recurrenceDay?: number | null;
   recurrenceTime?: string | null;
+  rrule?: string | null;
+  occurrenceIndex?: number;
+  notificationMessageId?: string | null;
+  insist?: boolean;
+  nagCount?: number;
+  nextNagAt?: Date | string | null;
+  escalatedAt?: Date | string | null;
   createdAt?: Date | string;
   updatedAt?: Date | string;
   sentAt?: Date | string | null;
@@ -682,9 +882,17 @@ export type ReminderUncheckedCreateWithoutUserInput = {
   chatId: string;
   status?: $Enums.ReminderStatus;
   calendarEventId?: string | null;
+  source?: $Enums.ReminderSource;
   recurrence?: $Enums.RecurrenceType;
   recurrenceDay?: number | null;
   recurrenceTime?: string | null;
+  rrule?: string | null;
+  occurrenceIndex?: number;
+  notificationMessageId?: string | null;
+  insist?: boolean;
+  nagCount?: number;
+  nextNagAt?: Date | string | null;
+  escalatedAt?: Date | string | null;
   createdAt?: Date | string;
   updatedAt?: Date | string;
   sentAt?: Date | string | null;
@@ -743,9 +951,17 @@ export type ReminderScalarWhereInput = {
   chatId?: Prisma.StringFilter<"Reminder"> | string;
   status?: Prisma.EnumReminderStatusFilter<"Reminder"> | $Enums.ReminderStatus;
   calendarEventId?: Prisma.StringNullableFilter<"Reminder"> | string | null;
+  source?: Prisma.EnumReminderSourceFilter<"Reminder"> | $Enums.ReminderSource;
   recurrence?: Prisma.EnumRecurrenceTypeFilter<"Reminder"> | $Enums.RecurrenceType;
   recurrenceDay?: Prisma.IntNullableFilter<"Reminder"> | number | null;
   recurrenceTime?: Prisma.StringNullableFilter<"Reminder"> | string | null;
+  rrule?: Prisma.StringNullableFilter<"Reminder"> | string | null;
+  occurrenceIndex?: Prisma.IntFilter<"Reminder"> | number;
+  notificationMessageId?: Prisma.StringNullableFilter<"Reminder"> | string | null;
+  insist?: Prisma.BoolFilter<"Reminder"> | boolean;
+  nagCount?: Prisma.IntFilter<"Reminder"> | number;
+  nextNagAt?: Prisma.DateTimeNullableFilter<"Reminder"> | Date | string | null;
+  escalatedAt?: Prisma.DateTimeNullableFilter<"Reminder"> | Date | string | null;
   createdAt?: Prisma.DateTimeFilter<"Reminder"> | Date | string;
   updatedAt?: Prisma.DateTimeFilter<"Reminder"> | Date | string;
   sentAt?: Prisma.DateTimeNullableFilter<"Reminder"> | Date | string | null;
@@ -759,9 +975,17 @@ export type ReminderCreateManyUserInput = {
   chatId: string;
   status?: $Enums.ReminderStatus;
   calendarEventId?: string | null;
+  source?: $Enums.ReminderSource;
   recurrence?: $Enums.RecurrenceType;
   recurrenceDay?: number | null;
   recurrenceTime?: string | null;
+  rrule?: string | null;
+  occurrenceIndex?: number;
+  notificationMessageId?: string | null;
+  insist?: boolean;
+  nagCount?: number;
+  nextNagAt?: Date | string | null;
+  escalatedAt?: Date | string | null;
   createdAt?: Date | string;
   updatedAt?: Date | string;
   sentAt?: Date | string | null;
@@ -775,9 +999,17 @@ export type ReminderUpdateWithoutUserInput = {
   chatId?: Prisma.StringFieldUpdateOperationsInput | string;
   status?: Prisma.EnumReminderStatusFieldUpdateOperationsInput | $Enums.ReminderStatus;
   calendarEventId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  source?: Prisma.EnumReminderSourceFieldUpdateOperationsInput | $Enums.ReminderSource;
   recurrence?: Prisma.EnumRecurrenceTypeFieldUpdateOperationsInput | $Enums.RecurrenceType;
   recurrenceDay?: Prisma.NullableIntFieldUpdateOperationsInput | number | null;
   recurrenceTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  rrule?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  occurrenceIndex?: Prisma.IntFieldUpdateOperationsInput | number;
+  notificationMessageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  insist?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  nagCount?: Prisma.IntFieldUpdateOperationsInput | number;
+  nextNagAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  escalatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
@@ -791,9 +1023,17 @@ export type ReminderUncheckedUpdateWithoutUserInput = {
   chatId?: Prisma.StringFieldUpdateOperationsInput | string;
   status?: Prisma.EnumReminderStatusFieldUpdateOperationsInput | $Enums.ReminderStatus;
   calendarEventId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  source?: Prisma.EnumReminderSourceFieldUpdateOperationsInput | $Enums.ReminderSource;
   recurrence?: Prisma.EnumRecurrenceTypeFieldUpdateOperationsInput | $Enums.RecurrenceType;
   recurrenceDay?: Prisma.NullableIntFieldUpdateOperationsInput | number | null;
   recurrenceTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  rrule?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  occurrenceIndex?: Prisma.IntFieldUpdateOperationsInput | number;
+  notificationMessageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  insist?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  nagCount?: Prisma.IntFieldUpdateOperationsInput | number;
+  nextNagAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  escalatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
@@ -807,9 +1047,17 @@ export type ReminderUncheckedUpdateManyWithoutUserInput = {
   chatId?: Prisma.StringFieldUpdateOperationsInput | string;
   status?: Prisma.EnumReminderStatusFieldUpdateOperationsInput | $Enums.ReminderStatus;
   calendarEventId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  source?: Prisma.EnumReminderSourceFieldUpdateOperationsInput | $Enums.ReminderSource;
   recurrence?: Prisma.EnumRecurrenceTypeFieldUpdateOperationsInput | $Enums.RecurrenceType;
   recurrenceDay?: Prisma.NullableIntFieldUpdateOperationsInput | number | null;
   recurrenceTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  rrule?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  occurrenceIndex?: Prisma.IntFieldUpdateOperationsInput | number;
+  notificationMessageId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  insist?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  nagCount?: Prisma.IntFieldUpdateOperationsInput | number;
+  nextNagAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  escalatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
@@ -827,9 +1075,17 @@ export type ReminderSelect<
     chatId?: boolean;
     status?: boolean;
     calendarEventId?: boolean;
+    source?: boolean;
     recurrence?: boolean;
     recurrenceDay?: boolean;
     recurrenceTime?: boolean;
+    rrule?: boolean;
+    occurrenceIndex?: boolean;
+    notificationMessageId?: boolean;
+    insist?: boolean;
+    nagCount?: boolean;
+    nextNagAt?: boolean;
+    escalatedAt?: boolean;
     createdAt?: boolean;
     updatedAt?: boolean;
     sentAt?: boolean;
@@ -850,9 +1106,17 @@ export type ReminderSelectCreateManyAndReturn<
     chatId?: boolean;
     status?: boolean;
     calendarEventId?: boolean;
+    source?: boolean;
     recurrence?: boolean;
     recurrenceDay?: boolean;
     recurrenceTime?: boolean;
+    rrule?: boolean;
+    occurrenceIndex?: boolean;
+    notificationMessageId?: boolean;
+    insist?: boolean;
+    nagCount?: boolean;
+    nextNagAt?: boolean;
+    escalatedAt?: boolean;
     createdAt?: boolean;
     updatedAt?: boolean;
     sentAt?: boolean;
@@ -873,9 +1137,17 @@ export type ReminderSelectUpdateManyAndReturn<
     chatId?: boolean;
     status?: boolean;
     calendarEventId?: boolean;
+    source?: boolean;
     recurrence?: boolean;
     recurrenceDay?: boolean;
     recurrenceTime?: boolean;
+    rrule?: boolean;
+    occurrenceIndex?: boolean;
+    notificationMessageId?: boolean;
+    insist?: boolean;
+    nagCount?: boolean;
+    nextNagAt?: boolean;
+    escalatedAt?: boolean;
     createdAt?: boolean;
     updatedAt?: boolean;
     sentAt?: boolean;
@@ -893,9 +1165,17 @@ export type ReminderSelectScalar = {
   chatId?: boolean;
   status?: boolean;
   calendarEventId?: boolean;
+  source?: boolean;
   recurrence?: boolean;
   recurrenceDay?: boolean;
   recurrenceTime?: boolean;
+  rrule?: boolean;
+  occurrenceIndex?: boolean;
+  notificationMessageId?: boolean;
+  insist?: boolean;
+  nagCount?: boolean;
+  nextNagAt?: boolean;
+  escalatedAt?: boolean;
   createdAt?: boolean;
   updatedAt?: boolean;
   sentAt?: boolean;
@@ -912,9 +1192,17 @@ export type ReminderOmit<
   | "chatId"
   | "status"
   | "calendarEventId"
+  | "source"
   | "recurrence"
   | "recurrenceDay"
   | "recurrenceTime"
+  | "rrule"
+  | "occurrenceIndex"
+  | "notificationMessageId"
+  | "insist"
+  | "nagCount"
+  | "nextNagAt"
+  | "escalatedAt"
   | "createdAt"
   | "updatedAt"
   | "sentAt",
@@ -953,9 +1241,17 @@ export type $ReminderPayload<
       chatId: string;
       status: $Enums.ReminderStatus;
       calendarEventId: string | null;
+      source: $Enums.ReminderSource;
       recurrence: $Enums.RecurrenceType;
       recurrenceDay: number | null;
       recurrenceTime: string | null;
+      rrule: string | null;
+      occurrenceIndex: number;
+      notificationMessageId: string | null;
+      insist: boolean;
+      nagCount: number;
+      nextNagAt: Date | null;
+      escalatedAt: Date | null;
       createdAt: Date;
       updatedAt: Date;
       sentAt: Date | null;
@@ -1546,9 +1842,17 @@ export interface ReminderFieldRefs {
   readonly chatId: Prisma.FieldRef<"Reminder", "String">;
   readonly status: Prisma.FieldRef<"Reminder", "ReminderStatus">;
   readonly calendarEventId: Prisma.FieldRef<"Reminder", "String">;
+  readonly source: Prisma.FieldRef<"Reminder", "ReminderSource">;
   readonly recurrence: Prisma.FieldRef<"Reminder", "RecurrenceType">;
   readonly recurrenceDay: Prisma.FieldRef<"Reminder", "Int">;
   readonly recurrenceTime: Prisma.FieldRef<"Reminder", "String">;
+  readonly rrule: Prisma.FieldRef<"Reminder", "String">;
+  readonly occurrenceIndex: Prisma.FieldRef<"Reminder", "Int">;
+  readonly notificationMessageId: Prisma.FieldRef<"Reminder", "String">;
+  readonly insist: Prisma.FieldRef<"Reminder", "Boolean">;
+  readonly nagCount: Prisma.FieldRef<"Reminder", "Int">;
+  readonly nextNagAt: Prisma.FieldRef<"Reminder", "DateTime">;
+  readonly escalatedAt: Prisma.FieldRef<"Reminder", "DateTime">;
   readonly createdAt: Prisma.FieldRef<"Reminder", "DateTime">;
   readonly updatedAt: Prisma.FieldRef<"Reminder", "DateTime">;
   readonly sentAt: Prisma.FieldRef<"Reminder", "DateTime">;
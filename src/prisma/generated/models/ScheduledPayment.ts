@@ -43,9 +43,11 @@ export type ScheduledPaymentSumAggregateOutputType = {
 export type ScheduledPaymentMinAggregateOutputType = {
   id: string | null;
   chatId: string | null;
+  userId: string | null;
   recipient: string | null;
   amount: runtime.Decimal | null;
   description: string | null;
+  mode: $Enums.ScheduledPaymentMode | null;
   recurrence: $Enums.RecurrenceType | null;
   recurrenceDay: number | null;
   recurrenceTime: string | null;
@@ -53,6 +55,8 @@ export type ScheduledPaymentMinAggregateOutputType = {
   totalPayments: number | null;
   paidCount: number | null;
   status: $Enums.ScheduledPaymentStatus | null;
+  lastTransactionId: string | null;
+  lastError: string | null;
   createdAt: Date | null;
   updatedAt: Date | null;
 };
@@ -60,9 +64,11 @@ export type ScheduledPaymentMinAggregateOutputType = {
 export type ScheduledPaymentMaxAggregateOutputType = {
   id: string | null;
   chatId: string | null;
+  userId: string | null;
   recipient: string | null;
   amount: runtime.Decimal | null;
   description: string | null;
+  mode: $Enums.ScheduledPaymentMode | null;
   recurrence: $Enums.RecurrenceType | null;
   recurrenceDay: number | null;
   recurrenceTime: string | null;
@@ -70,6 +76,8 @@ export type ScheduledPaymentMaxAggregateOutputType = {
   totalPayments: number | null;
   paidCount: number | null;
   status: $Enums.ScheduledPaymentStatus | null;
+  lastTransactionId: string | null;
+  lastError: string | null;
   createdAt: Date | null;
   updatedAt: Date | null;
 };
@@ -77,9 +85,11 @@ export type ScheduledPaymentMaxAggregateOutputType = {
 export type ScheduledPaymentCountAggregateOutputType = {
   id: number;
   chatId: number;
+  userId: number;
   recipient: number;
   amount: number;
   description: number;
+  mode: number;
   recurrence: number;
   recurrenceDay: number;
   recurrenceTime: number;
@@ -87,6 +97,8 @@ export type ScheduledPaymentCountAggregateOutputType = {
   totalPayments: number;
   paidCount: number;
   status: number;
+  lastTransactionId: number;
+  lastError: number;
   createdAt: number;
   updatedAt: number;
   _all: number;
@@ -109,9 +121,11 @@ export type ScheduledPaymentSumAggregateInputType = {
 export type ScheduledPaymentMinAggregateInputType = {
   id?: true;
   chatId?: true;
+  userId?: true;
   recipient?: true;
   amount?: true;
   description?: true;
+  mode?: true;
   recurrence?: true;
   recurrenceDay?: true;
   recurrenceTime?: true;
@@ -119,6 +133,8 @@ export type ScheduledPaymentMinAggregateInputType = {
   totalPayments?: true;
   paidCount?: true;
   status?: true;
+  lastTransactionId?: true;
+  lastError?: true;
   createdAt?: true;
   updatedAt?: true;
 };
@@ -126,9 +142,11 @@ export type ScheduledPaymentMinAggregateInputType = {
 export type ScheduledPaymentMaxAggregateInputType = {
   id?: true;
   chatId?: true;
+  userId?: true;
   recipient?: true;
   amount?: true;
   description?: true;
+  mode?: true;
   recurrence?: true;
   recurrenceDay?: true;
   recurrenceTime?: true;
@@ -136,6 +154,8 @@ export type ScheduledPaymentMaxAggregateInputType = {
   totalPayments?: true;
   paidCount?: true;
   status?: true;
+  lastTransactionId?: true;
+  lastError?: true;
   createdAt?: true;
   updatedAt?: true;
 };
@@ -143,9 +163,11 @@ export type ScheduledPaymentMaxAggregateInputType = {
 export type ScheduledPaymentCountAggregateInputType = {
   id?: true;
   chatId?: true;
+  userId?: true;
   recipient?: true;
   amount?: true;
   description?: true;
+  mode?: true;
   recurrence?: true;
   recurrenceDay?: true;
   recurrenceTime?: true;
@@ -153,6 +175,8 @@ export type ScheduledPaymentCountAggregateInputType = {
   totalPayments?: true;
   paidCount?: true;
   status?: true;
+  lastTransactionId?: true;
+  lastError?: true;
   createdAt?: true;
   updatedAt?: true;
   _all?: true;
@@ -252,9 +276,11 @@ export type ScheduledPaymentGroupByArgs<
 export type ScheduledPaymentGroupByOutputType = {
   id: string;
   chatId: string;
+  userId: string | null;
   recipient: string;
   amount: runtime.Decimal;
   description: string | null;
+  mode: $Enums.ScheduledPaymentMode;
   recurrence: $Enums.RecurrenceType;
   recurrenceDay: number | null;
   recurrenceTime: string | null;
@@ -262,6 +288,8 @@ export type ScheduledPaymentGroupByOutputType = {
   totalPayments: number | null;
   paidCount: number;
   status: $Enums.ScheduledPaymentStatus;
+  lastTransactionId: string | null;
+  lastError: string | null;
   createdAt: Date;
   updatedAt: Date;
   _count: ScheduledPaymentCountAggregateOutputType | null;
@@ -290,6 +318,7 @@ export type ScheduledPaymentWhereInput = {
   NOT?: Prisma.ScheduledPaymentWhereInput | Prisma.ScheduledPaymentWhereInput[];
   id?: Prisma.StringFilter<"ScheduledPayment"> | string;
   chatId?: Prisma.StringFilter<"ScheduledPayment"> | string;
+  userId?: Prisma.StringNullableFilter<"ScheduledPayment"> | string | null;
   recipient?: Prisma.StringFilter<"ScheduledPayment"> | string;
   amount?:
     | Prisma.DecimalFilter<"ScheduledPayment">
@@ -298,6 +327,7 @@ export type ScheduledPaymentWhereInput = {
     | number
     | string;
   description?: Prisma.StringNullableFilter<"ScheduledPayment"> | string | null;
+  mode?: Prisma.EnumScheduledPaymentModeFilter<"ScheduledPayment"> | $Enums.ScheduledPaymentMode;
   recurrence?: Prisma.EnumRecurrenceTypeFilter<"ScheduledPayment"> | $Enums.RecurrenceType;
   recurrenceDay?: Prisma.IntNullableFilter<"ScheduledPayment"> | number | null;
   recurrenceTime?: Prisma.StringNullableFilter<"ScheduledPayment"> | string | null;
@@ -307,6 +337,8 @@ export type ScheduledPaymentWhereInput = {
   status?:
     | Prisma.EnumScheduledPaymentStatusFilter<"ScheduledPayment">
     | $Enums.ScheduledPaymentStatus;
+  lastTransactionId?: Prisma.StringNullableFilter<"ScheduledPayment"> | string | null;
+  lastError?: Prisma.StringNullableFilter<"ScheduledPayment"> | string | null;
   createdAt?: Prisma.DateTimeFilter<"ScheduledPayment"> | Date | string;
   updatedAt?: Prisma.DateTimeFilter<"ScheduledPayment"> | Date | string;
 };
@@ -314,9 +346,11 @@ export type ScheduledPaymentWhereInput = {
 export type ScheduledPaymentOrderByWithRelationInput = {
   id?: Prisma.SortOrder;
   chatId?: Prisma.SortOrder;
+  userId?: Prisma.SortOrderInput | Prisma.SortOrder;
   recipient?: Prisma.SortOrder;
   amount?: Prisma.SortOrder;
   description?: Prisma.SortOrderInput | Prisma.SortOrder;
+  mode?: Prisma.SortOrder;
   recurrence?: Prisma.SortOrder;
   recurrenceDay?: Prisma.SortOrderInput | Prisma.SortOrder;
   recurrenceTime?: Prisma.SortOrderInput | Prisma.SortOrder;
@@ -324,6 +358,8 @@ export type ScheduledPaymentOrderByWithRelationInput = {
   totalPayments?: Prisma.SortOrderInput | Prisma.SortOrder;
   paidCount?: Prisma.SortOrder;
   status?: Prisma.SortOrder;
+  lastTransactionId?: Prisma.SortOrderInput | Prisma.SortOrder;
+  lastError?: Prisma.SortOrderInput | Prisma.SortOrder;
   createdAt?: Prisma.SortOrder;
   updatedAt?: Prisma.SortOrder;
 };
@@ -335,6 +371,7 @@ export type ScheduledPaymentWhereUniqueInput = Prisma.AtLeast<
     OR?: Prisma.ScheduledPaymentWhereInput[];
     NOT?: Prisma.ScheduledPaymentWhereInput | Prisma.ScheduledPaymentWhereInput[];
     chatId?: Prisma.StringFilter<"ScheduledPayment"> | string;
+    userId?: Prisma.StringNullableFilter<"ScheduledPayment"> | string | null;
     recipient?: Prisma.StringFilter<"ScheduledPayment"> | string;
     amount?:
       | Prisma.DecimalFilter<"ScheduledPayment">
@@ -343,6 +380,7 @@ export type ScheduledPaymentWhereUniqueInput = Prisma.AtLeast<
       | number
       | string;
     description?: Prisma.StringNullableFilter<"ScheduledPayment"> | string | null;
+    mode?: Prisma.EnumScheduledPaymentModeFilter<"ScheduledPayment"> | $Enums.ScheduledPaymentMode;
     recurrence?: Prisma.EnumRecurrenceTypeFilter<"ScheduledPayment"> | $Enums.RecurrenceType;
     recurrenceDay?: Prisma.IntNullableFilter<"ScheduledPayment"> | number | null;
     recurrenceTime?: Prisma.StringNullableFilter<"ScheduledPayment"> | string | null;
@@ -352,6 +390,8 @@ export type ScheduledPaymentWhereUniqueInput = Prisma.AtLeast<
     status?:
       | Prisma.EnumScheduledPaymentStatusFilter<"ScheduledPayment">
       | $Enums.ScheduledPaymentStatus;
+    lastTransactionId?: Prisma.StringNullableFilter<"ScheduledPayment"> | string | null;
+    lastError?: Prisma.StringNullableFilter<"ScheduledPayment"> | string | null;
     createdAt?: Prisma.DateTimeFilter<"ScheduledPayment"> | Date | string;
     updatedAt?: Prisma.DateTimeFilter<"ScheduledPayment"> | Date | string;
   },
@@ -361,9 +401,11 @@ export type ScheduledPaymentWhereUniqueInput = Prisma.AtLeast<
 export type ScheduledPaymentOrderByWithAggregationInput = {
   id?: Prisma.SortOrder;
   chatId?: Prisma.SortOrder;
+  userId?: Prisma.SortOrderInput | Prisma.SortOrder;
   recipient?: Prisma.SortOrder;
   amount?: Prisma.SortOrder;
   description?: Prisma.SortOrderInput | Prisma.SortOrder;
+  mode?: Prisma.SortOrder;
   recurrence?: Prisma.SortOrder;
   recurrenceDay?: Prisma.SortOrderInput | Prisma.SortOrder;
   recurrenceTime?: Prisma.SortOrderInput | Prisma.SortOrder;
@@ -371,6 +413,8 @@ export type ScheduledPaymentOrderByWithAggregationInput = {
   totalPayments?: Prisma.SortOrderInput | Prisma.SortOrder;
   paidCount?: Prisma.SortOrder;
   status?: Prisma.SortOrder;
+  lastTransactionId?: Prisma.SortOrderInput | Prisma.SortOrder;
+  lastError?: Prisma.SortOrderInput | Prisma.SortOrder;
   createdAt?: Prisma.SortOrder;
   updatedAt?: Prisma.SortOrder;
   _count?: Prisma.ScheduledPaymentCountOrderByAggregateInput;
@@ -390,6 +434,7 @@ export type ScheduledPaymentScalarWhereWithAggregatesInput = {
     | Prisma.ScheduledPaymentScalarWhereWithAggregatesInput[];
   id?: Prisma.StringWithAggregatesFilter<"ScheduledPayment"> | string;
   chatId?: Prisma.StringWithAggregatesFilter<"ScheduledPayment"> | string;
+  userId?: Prisma.StringNullableWithAggregatesFilter<"ScheduledPayment"> | string | null;
   recipient?: Prisma.StringWithAggregatesFilter<"ScheduledPayment"> | string;
   amount?:
     | Prisma.DecimalWithAggregatesFilter<"ScheduledPayment">
@@ -398,6 +443,9 @@ export type ScheduledPaymentScalarWhereWithAggregatesInput = {
     | number
     | string;
   description?: Prisma.StringNullableWithAggregatesFilter<"ScheduledPayment"> | string | null;
+  mode?:
+    | Prisma.EnumScheduledPaymentModeWithAggregatesFilter<"ScheduledPayment">
+    | $Enums.ScheduledPaymentMode;
   recurrence?:
     | Prisma.EnumRecurrenceTypeWithAggregatesFilter<"ScheduledPayment">
     | $Enums.RecurrenceType;
@@ -409,6 +457,8 @@ export type ScheduledPaymentScalarWhereWithAggregatesInput = {
   status?:
     | Prisma.EnumScheduledPaymentStatusWithAggregatesFilter<"ScheduledPayment">
     | $Enums.ScheduledPaymentStatus;
+  lastTransactionId?: Prisma.StringNullableWithAggregatesFilter<"ScheduledPayment"> | string | null;
+  lastError?: Prisma.StringNullableWithAggregatesFilter<"ScheduledPayment"> | string | null;
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"ScheduledPayment"> | Date | string;
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"ScheduledPayment"> | Date | string;
 };
@@ -416,9 +466,11 @@ export type ScheduledPaymentScalarWhereWithAggregatesInput = {
 export type ScheduledPaymentCreateInput = {
   id?: string;
   chatId: string;
+  userId?: string | null;
   recipient: string;
   amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
   description?: string | null;
+  mode?: $Enums.ScheduledPaymentMode;
   recurrence?: $Enums.RecurrenceType;
   recurrenceDay?: number | null;
   recurrenceTime?: string | null;
@@ -426,6 +478,8 @@ export type ScheduledPaymentCreateInput = {
   totalPayments?: number | null;
   paidCount?: number;
   status?: $Enums.ScheduledPaymentStatus;
+  lastTransactionId?: string | null;
+  lastError?: string | null;
   createdAt?: Date | string;
   updatedAt?: Date | string;
 };
@@ -433,9 +487,11 @@ export type ScheduledPaymentCreateInput = {
 export type ScheduledPaymentUncheckedCreateInput = {
   id?: string;
   chatId: string;
+  userId?: string | null;
   recipient: string;
   amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
   description?: string | null;
+  mode?: $Enums.ScheduledPaymentMode;
   recurrence?: $Enums.RecurrenceType;
   recurrenceDay?: number | null;
   recurrenceTime?: string | null;
@@ -443,6 +499,8 @@ export type ScheduledPaymentUncheckedCreateInput = {
   totalPayments?: number | null;
   paidCount?: number;
   status?: $Enums.ScheduledPaymentStatus;
+  lastTransactionId?: string | null;
+  lastError?: string | null;
   createdAt?: Date | string;
   updatedAt?: Date | string;
 };
@@ -450,6 +508,7 @@ export type ScheduledPaymentUncheckedCreateInput = {
 export type ScheduledPaymentUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
   chatId?: Prisma.StringFieldUpdateOperationsInput | string;
+  userId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   recipient?: Prisma.StringFieldUpdateOperationsInput | string;
   amount?:
     | Prisma.DecimalFieldUpdateOperationsInput
@@ -458,6 +517,7 @@ export type ScheduledPaymentUpdateInput = {
     | number
     | string;
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  mode?: Prisma.EnumScheduledPaymentModeFieldUpdateOperationsInput | $Enums.ScheduledPaymentMode;
   recurrence?: Prisma.EnumRecurrenceTypeFieldUpdateOperationsInput | $Enums.RecurrenceType;
   recurrenceDay?: Prisma.NullableIntFieldUpdateOperationsInput | number | null;
   recurrenceTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
@@ -467,6 +527,8 @@ export type ScheduledPaymentUpdateInput = {
   status?:
     | Prisma.EnumScheduledPaymentStatusFieldUpdateOperationsInput
     | $Enums.ScheduledPaymentStatus;
+  lastTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  lastError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 };
@@ -474,6 +536,7 @@ export type ScheduledPaymentUpdateInput = {
 export type ScheduledPaymentUncheckedUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
   chatId?: Prisma.StringFieldUpdateOperationsInput | string;
+  userId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   recipient?: Prisma.StringFieldUpdateOperationsInput | string;
   amount?:
     | Prisma.DecimalFieldUpdateOperationsInput
@@ -482,6 +545,7 @@ export type ScheduledPaymentUncheckedUpdateInput = {
     | number
     | string;
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  mode?: Prisma.EnumScheduledPaymentModeFieldUpdateOperationsInput | $Enums.ScheduledPaymentMode;
   recurrence?: Prisma.EnumRecurrenceTypeFieldUpdateOperationsInput | $Enums.RecurrenceType;
   recurrenceDay?: Prisma.NullableIntFieldUpdateOperationsInput | number | null;
   recurrenceTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
@@ -491,6 +555,8 @@ export type ScheduledPaymentUncheckedUpdateInput = {
   status?:
     | Prisma.EnumScheduledPaymentStatusFieldUpdateOperationsInput
     | $Enums.ScheduledPaymentStatus;
+  lastTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  lastError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 };
@@ -498,9 +564,11 @@ export type ScheduledPaymentUncheckedUpdateInput = {
 export type ScheduledPaymentCreateManyInput = {
   id?: string;
   chatId: string;
+  userId?: string | null;
   recipient: string;
   amount: runtime.Decimal | runtime.DecimalJsLike | number | string;
   description?: string | null;
+  mode?: $Enums.ScheduledPaymentMode;
   recurrence?: $Enums.RecurrenceType;
   recurrenceDay?: number | null;
   recurrenceTime?: string | null;
@@ -508,6 +576,8 @@ export type ScheduledPaymentCreateManyInput = {
   totalPayments?: number | null;
   paidCount?: number;
   status?: $Enums.ScheduledPaymentStatus;
+  lastTransactionId?: string | null;
+  lastError?: string | null;
   createdAt?: Date | string;
   updatedAt?: Date | string;
 };
@@ -515,6 +585,7 @@ export type ScheduledPaymentCreateManyInput = {
 export type ScheduledPaymentUpdateManyMutationInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
   chatId?: Prisma.StringFieldUpdateOperationsInput | string;
+  userId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   recipient?: Prisma.StringFieldUpdateOperationsInput | string;
   amount?:
     | Prisma.DecimalFieldUpdateOperationsInput
@@ -523,6 +594,7 @@ export type ScheduledPaymentUpdateManyMutationInput = {
     | number
     | string;
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  mode?: Prisma.EnumScheduledPaymentModeFieldUpdateOperationsInput | $Enums.ScheduledPaymentMode;
   recurrence?: Prisma.EnumRecurrenceTypeFieldUpdateOperationsInput | $Enums.RecurrenceType;
   recurrenceDay?: Prisma.NullableIntFieldUpdateOperationsInput | number | null;
   recurrenceTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
@@ -532,6 +604,8 @@ export type ScheduledPaymentUpdateManyMutationInput = {
   status?:
     | Prisma.EnumScheduledPaymentStatusFieldUpdateOperationsInput
     | $Enums.ScheduledPaymentStatus;
+  lastTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  lastError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 };
@@ -539,6 +613,7 @@ export type ScheduledPaymentUpdateManyMutationInput = {
 export type ScheduledPaymentUncheckedUpdateManyInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
   chatId?: Prisma.StringFieldUpdateOperationsInput | string;
+  userId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   recipient?: Prisma.StringFieldUpdateOperationsInput | string;
   amount?:
     | Prisma.DecimalFieldUpdateOperationsInput
@@ -547,6 +622,7 @@ export type ScheduledPaymentUncheckedUpdateManyInput = {
     | number
     | string;
   description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  mode?: Prisma.EnumScheduledPaymentModeFieldUpdateOperationsInput | $Enums.ScheduledPaymentMode;
   recurrence?: Prisma.EnumRecurrenceTypeFieldUpdateOperationsInput | $Enums.RecurrenceType;
   recurrenceDay?: Prisma.NullableIntFieldUpdateOperationsInput | number | null;
   recurrenceTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
@@ -556,6 +632,8 @@ export type ScheduledPaymentUncheckedUpdateManyInput = {
   status?:
     | Prisma.EnumScheduledPaymentStatusFieldUpdateOperationsInput
     | $Enums.ScheduledPaymentStatus;
+  lastTransactionId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  lastError?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 };
@@ -563,9 +641,11 @@ export type ScheduledPaymentUncheckedUpdateManyInput = {
 export type ScheduledPaymentCountOrderByAggregateInput = {
   id?: Prisma.SortOrder;
   chatId?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
   recipient?: Prisma.SortOrder;
   amount?: Prisma.SortOrder;
   description?: Prisma.SortOrder;
+  mode?: Prisma.SortOrder;
   recurrence?: Prisma.SortOrder;
   recurrenceDay?: Prisma.SortOrder;
   recurrenceTime?: Prisma.SortOrder;
@@ -573,6 +653,8 @@ export type ScheduledPaymentCountOrderByAggregateInput = {
   totalPayments?: Prisma.SortOrder;
   paidCount?: Prisma.SortOrder;
   status?: Prisma.SortOrder;
+  lastTransactionId?: Prisma.SortOrder;
+  lastError?: Prisma.SortOrder;
   createdAt?: Prisma.SortOrder;
   updatedAt?: Prisma.SortOrder;
 };
@@ -587,9 +669,11 @@ export type ScheduledPaymentAvgOrderByAggregateInput = {
 export type ScheduledPaymentMaxOrderByAggregateInput = {
   id?: Prisma.SortOrder;
   chatId?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
   recipient?: Prisma.SortOrder;
   amount?: Prisma.SortOrder;
   description?: Prisma.SortOrder;
+  mode?: Prisma.SortOrder;
   recurrence?: Prisma.SortOrder;
   recurrenceDay?: Prisma.SortOrder;
   recurrenceTime?: Prisma.SortOrder;
@@ -597,6 +681,8 @@ export type ScheduledPaymentMaxOrderByAggregateInput = {
   totalPayments?: Prisma.SortOrder;
   paidCount?: Prisma.SortOrder;
   status?: Prisma.SortOrder;
+  lastTransactionId?: Prisma.SortOrder;
+  lastError?: Prisma.SortOrder;
   createdAt?: Prisma.SortOrder;
   updatedAt?: Prisma.SortOrder;
 };
@@ -604,9 +690,11 @@ export type ScheduledPaymentMaxOrderByAggregateInput = {
 export type ScheduledPaymentMinOrderByAggregateInput = {
   id?: Prisma.SortOrder;
   chatId?: Prisma.SortOrder;
+  userId?: Prisma.SortOrder;
   recipient?: Prisma.SortOrder;
   amount?: Prisma.SortOrder;
   description?: Prisma.SortOrder;
+  mode?: Prisma.SortOrder;
   recurrence?: Prisma.SortOrder;
   recurrenceDay?: Prisma.SortOrder;
   recurrenceTime?: Prisma.SortOrder;
@@ -614,6 +702,8 @@ export type ScheduledPaymentMinOrderByAggregateInput = {
   totalPayments?: Prisma.SortOrder;
   paidCount?: Prisma.SortOrder;
   status?: Prisma.SortOrder;
+  lastTransactionId?: Prisma.SortOrder;
+  lastError?: Prisma.SortOrder;
   createdAt?: Prisma.SortOrder;
   updatedAt?: Prisma.SortOrder;
 };
@@ -625,6 +715,10 @@ export type ScheduledPaymentSumOrderByAggregateInput = {
   paidCount?: Prisma.SortOrder;
 };
 
+export type EnumScheduledPaymentModeFieldUpdateOperationsInput = {
+  set?: $Enums.ScheduledPaymentMode;
+};
+
 export type EnumScheduledPaymentStatusFieldUpdateOperationsInput = {
   set?: $Enums.ScheduledPaymentStatus;
 };
@@ -635,9 +729,11 @@ export type ScheduledPaymentSelect<
   {
     id?: boolean;
     chatId?: boolean;
+    userId?: boolean;
     recipient?: boolean;
     amount?: boolean;
     description?: boolean;
+    mode?: boolean;
     recurrence?: boolean;
     recurrenceDay?: boolean;
     recurrenceTime?: boolean;
@@ -645,6 +741,8 @@ export type ScheduledPaymentSelect<
     totalPayments?: boolean;
     paidCount?: boolean;
     status?: boolean;
+    lastTransactionId?: boolean;
+    lastError?: boolean;
     createdAt?: boolean;
     updatedAt?: boolean;
   },
@@ -657,9 +755,11 @@ export type ScheduledPaymentSelectCreateManyAndReturn<
   {
     id?: boolean;
     chatId?: boolean;
+    userId?: boolean;
     recipient?: boolean;
     amount?: boolean;
     description?: boolean;
+    mode?: boolean;
     recurrence?: boolean;
     recurrenceDay?: boolean;
     recurrenceTime?: boolean;
@@ -667,6 +767,8 @@ export type ScheduledPaymentSelectCreateManyAndReturn<
     totalPayments?: boolean;
     paidCount?: boolean;
     status?: boolean;
+    lastTransactionId?: boolean;
+    lastError?: boolean;
     createdAt?: boolean;
     updatedAt?: boolean;
   },
@@ -679,9 +781,11 @@ export type ScheduledPaymentSelectUpdateManyAndReturn<
   {
     id?: boolean;
     chatId?: boolean;
+    userId?: boolean;
     recipient?: boolean;
     amount?: boolean;
     description?: boolean;
+    mode?: boolean;
     recurrence?: boolean;
     recurrenceDay?: boolean;
     recurrenceTime?: boolean;
@@ -689,6 +793,8 @@ export type ScheduledPaymentSelectUpdateManyAndReturn<
     totalPayments?: boolean;
     paidCount?: boolean;
     status?: boolean;
+    lastTransactionId?: boolean;
+    lastError?: boolean;
     createdAt?: boolean;
     updatedAt?: boolean;
   },
@@ -698,9 +804,11 @@ export type ScheduledPaymentSelectUpdateManyAndReturn<
 export type ScheduledPaymentSelectScalar = {
   id?: boolean;
   chatId?: boolean;
+  userId?: boolean;
   recipient?: boolean;
   amount?: boolean;
   description?: boolean;
+  mode?: boolean;
   recurrence?: boolean;
   recurrenceDay?: boolean;
   recurrenceTime?: boolean;
@@ -708,6 +816,8 @@ export type ScheduledPaymentSelectScalar = {
   totalPayments?: boolean;
   paidCount?: boolean;
   status?: boolean;
+  lastTransactionId?: boolean;
+  lastError?: boolean;
   createdAt?: boolean;
   updatedAt?: boolean;
 };
@@ -717,9 +827,11 @@ export type ScheduledPaymentOmit<
 > = runtime.Types.Extensions.GetOmit<
   | "id"
   | "chatId"
+  | "userId"
   | "recipient"
   | "amount"
   | "description"
+  | "mode"
   | "recurrence"
   | "recurrenceDay"
   | "recurrenceTime"
@@ -727,6 +839,8 @@ export type ScheduledPaymentOmit<
   | "totalPayments"
   | "paidCount"
   | "status"
+  | "lastTransactionId"
+  | "lastError"
   | "createdAt"
   | "updatedAt",
   ExtArgs["result"]["scheduledPayment"]
@@ -741,9 +855,11 @@ export type $ScheduledPaymentPayload<
     {
       id: string;
       chatId: string;
+      userId: string | null;
       recipient: string;
       amount: runtime.Decimal;
       description: string | null;
+      mode: $Enums.ScheduledPaymentMode;
       recurrence: $Enums.RecurrenceType;
       recurrenceDay: number | null;
       recurrenceTime: string | null;
@@ -751,6 +867,8 @@ export type $ScheduledPaymentPayload<
       totalPayments: number | null;
       paidCount: number;
       status: $Enums.ScheduledPaymentStatus;
+      lastTransactionId: string | null;
+      lastError: string | null;
       createdAt: Date;
       updatedAt: Date;
     },
@@ -1327,9 +1445,11 @@ export interface Prisma__ScheduledPaymentClient<
 export interface ScheduledPaymentFieldRefs {
   readonly id: Prisma.FieldRef<"ScheduledPayment", "String">;
   readonly chatId: Prisma.FieldRef<"ScheduledPayment", "String">;
+  readonly userId: Prisma.FieldRef<"ScheduledPayment", "String">;
   readonly recipient: Prisma.FieldRef<"ScheduledPayment", "String">;
   readonly amount: Prisma.FieldRef<"ScheduledPayment", "Decimal">;
   readonly description: Prisma.FieldRef<"ScheduledPayment", "String">;
+  readonly mode: Prisma.FieldRef<"ScheduledPayment", "ScheduledPaymentMode">;
   readonly recurrence: Prisma.FieldRef<"ScheduledPayment", "RecurrenceType">;
   readonly recurrenceDay: Prisma.FieldRef<"ScheduledPayment", "Int">;
   readonly recurrenceTime: Prisma.FieldRef<"ScheduledPayment", "String">;
@@ -1337,6 +1457,8 @@ export interface ScheduledPaymentFieldRefs {
   readonly totalPayments: Prisma.FieldRef<"ScheduledPayment", "Int">;
   readonly paidCount: Prisma.FieldRef<"ScheduledPayment", "Int">;
   readonly status: Prisma.FieldRef<"ScheduledPayment", "ScheduledPaymentStatus">;
+  readonly lastTransactionId: Prisma.FieldRef<"ScheduledPayment", "String">;
+  readonly lastError: Prisma.FieldRef<"ScheduledPayment", "String">;
   readonly createdAt: Prisma.FieldRef<"ScheduledPayment", "DateTime">;
   readonly updatedAt: Prisma.FieldRef<"ScheduledPayment", "DateTime">;
 }
@@ -27,10 +27,14 @@ export type AggregateUser = {
 
 export type UserAvgAggregateOutputType = {
   digestHour: number | null;
+  emailDigestHours: number | null;
+  calendarLeadMinutes: number | null;
 };
 
 export type UserSumAggregateOutputType = {
   digestHour: number | null;
+  emailDigestHours: number[];
+  calendarLeadMinutes: number | null;
 };
 
 export type UserMinAggregateOutputType = {
@@ -43,8 +47,13 @@ export type UserMinAggregateOutputType = {
   role: $Enums.UserRole | null;
   chatId: string | null;
   locale: string | null;
+  timezone: string | null;
+  currency: string | null;
   digestEnabled: boolean | null;
   digestHour: number | null;
+  calendarLeadMinutes: number | null;
+  escalationPhone: string | null;
+  paymentAlias: string | null;
   createdAt: Date | null;
   updatedAt: Date | null;
 };
@@ -59,8 +68,13 @@ export type UserMaxAggregateOutputType = {
   role: $Enums.UserRole | null;
   chatId: string | null;
   locale: string | null;
+  timezone: string | null;
+  currency: string | null;
   digestEnabled: boolean | null;
   digestHour: number | null;
+  calendarLeadMinutes: number | null;
+  escalationPhone: string | null;
+  paymentAlias: string | null;
   createdAt: Date | null;
   updatedAt: Date | null;
 };
@@ -75,8 +89,14 @@ export type UserCountAggregateOutputType = {
   role: number;
   chatId: number;
   locale: number;
+  timezone: number;
+  currency: number;
   digestEnabled: number;
   digestHour: number;
+  emailDigestHours: number;
+  calendarLeadMinutes: number;
+  escalationPhone: number;
+  paymentAlias: number;
   createdAt: number;
   updatedAt: number;
   _all: number;
@@ -84,10 +104,14 @@ export type UserCountAggregateOutputType = {
 
 export type UserAvgAggregateInputType = {
   digestHour?: true;
+  emailDigestHours?: true;
+  calendarLeadMinutes?: true;
 };
 
 export type UserSumAggregateInputType = {
   digestHour?: true;
+  emailDigestHours?: true;
+  calendarLeadMinutes?: true;
 };
 
 export type UserMinAggregateInputType = {
@@ -100,8 +124,13 @@ export type UserMinAggregateInputType = {
   role?: true;
   chatId?: true;
   locale?: true;
+  timezone?: true;
+  currency?: true;
   digestEnabled?: true;
   digestHour?: true;
+  calendarLeadMinutes?: true;
+  escalationPhone?: true;
+  paymentAlias?: true;
   createdAt?: true;
   updatedAt?: true;
 };
@@ -116,8 +145,13 @@ export type UserMaxAggregateInputType = {
   role?: true;
   chatId?: true;
   locale?: true;
+  timezone?: true;
+  currency?: true;
   digestEnabled?: true;
   digestHour?: true;
+  calendarLeadMinutes?: true;
+  escalationPhone?: true;
+  paymentAlias?: true;
   createdAt?: true;
   updatedAt?: true;
 };
@@ -132,8 +166,14 @@ export type UserCountAggregateInputType = {
   role?: true;
   chatId?: true;
   locale?: true;
+  timezone?: true;
+  currency?: true;
   digestEnabled?: true;
   digestHour?: true;
+  emailDigestHours?: true;
+  calendarLeadMinutes?: true;
+  escalationPhone?: true;
+  paymentAlias?: true;
   createdAt?: true;
   updatedAt?: true;
   _all?: true;
@@ -236,8 +276,14 @@ export type UserGroupByOutputType = {
   role: $Enums.UserRole;
   chatId: string | null;
   locale: string;
+  timezone: string;
+  currency: string;
   digestEnabled: boolean;
   digestHour: number;
+  emailDigestHours: number[];
+  calendarLeadMinutes: number;
+  escalationPhone: string | null;
+  paymentAlias: string | null;
   createdAt: Date;
   updatedAt: Date;
   _count: UserCountAggregateOutputType | null;
@@ -272,8 +318,14 @@ export type UserWhereInput = {
   role?: Prisma.EnumUserRoleFilter<"User"> | $Enums.UserRole;
   chatId?: Prisma.StringNullableFilter<"User"> | string | null;
   locale?: Prisma.StringFilter<"User"> | string;
+  timezone?: Prisma.StringFilter<"User"> | string;
+  currency?: Prisma.StringFilter<"User"> | string;
   digestEnabled?: Prisma.BoolFilter<"User"> | boolean;
   digestHour?: Prisma.IntFilter<"User"> | number;
+  emailDigestHours?: Prisma.IntNullableListFilter<"User">;
+  calendarLeadMinutes?: Prisma.IntFilter<"User"> | number;
+  escalationPhone?: Prisma.StringNullableFilter<"User"> | string | null;
+  paymentAlias?: Prisma.StringNullableFilter<"User"> | string | null;
   createdAt?: Prisma.DateTimeFilter<"User"> | Date | string;
   updatedAt?: Prisma.DateTimeFilter<"User"> | Date | string;
   accounts?: Prisma.AccountListRelationFilter;
@@ -283,16 +335,29 @@ export type UserWhereInput = {
     Prisma.SubscriptionNullableScalarRelationFilter,
     Prisma.SubscriptionWhereInput
   > | null;
-  emailToken?: Prisma.XOR<
-    Prisma.EmailTokenNullableScalarRelationFilter,
-    Prisma.EmailTokenWhereInput
+  emailTokens?: Prisma.EmailTokenListRelationFilter;
+  imapAccounts?: Prisma.ImapAccountListRelationFilter;
+  googleAuthToken?: Prisma.XOR<
+    Prisma.GoogleAuthTokenNullableScalarRelationFilter,
+    Prisma.GoogleAuthTokenWhereInput
   > | null;
   mercadoLibreToken?: Prisma.XOR<
     Prisma.MercadoLibreTokenNullableScalarRelationFilter,
     Prisma.MercadoLibreTokenWhereInput
   > | null;
   processedEmails?: Prisma.ProcessedEmailListRelationFilter;
+  emailRules?: Prisma.EmailRuleListRelationFilter;
   expenses?: Prisma.ExpenseListRelationFilter;
+  budgets?: Prisma.BudgetListRelationFilter;
+  recurringCharges?: Prisma.RecurringChargeListRelationFilter;
+  categoryRules?: Prisma.CategoryRuleListRelationFilter;
+  customCategories?: Prisma.CustomCategoryListRelationFilter;
+  expenseGroups?: Prisma.ExpenseGroupMemberListRelationFilter;
+  expenseShares?: Prisma.ExpenseShareListRelationFilter;
+  incomes?: Prisma.IncomeListRelationFilter;
+  expenseAnomalies?: Prisma.ExpenseAnomalyListRelationFilter;
+  settlementsPaid?: Prisma.GroupSettlementListRelationFilter;
+  settlementsReceived?: Prisma.GroupSettlementListRelationFilter;
 };
 
 export type UserOrderByWithRelationInput = {
@@ -305,18 +370,37 @@ export type UserOrderByWithRelationInput = {
   role?: Prisma.SortOrder;
   chatId?: Prisma.SortOrderInput | Prisma.SortOrder;
   locale?: Prisma.SortOrder;
+  timezone?: Prisma.SortOrder;
+  currency?: Prisma.SortOrder;
   digestEnabled?: Prisma.SortOrder;
   digestHour?: Prisma.SortOrder;
+  emailDigestHours?: Prisma.SortOrder;
+  calendarLeadMinutes?: Prisma.SortOrder;
+  escalationPhone?: Prisma.SortOrderInput | Prisma.SortOrder;
+  paymentAlias?: Prisma.SortOrderInput | Prisma.SortOrder;
   createdAt?: Prisma.SortOrder;
   updatedAt?: Prisma.SortOrder;
   accounts?: Prisma.AccountOrderByRelationAggregateInput;
   sessions?: Prisma.SessionOrderByRelationAggregateInput;
   reminders?: Prisma.ReminderOrderByRelationAggregateInput;
   subscription?: Prisma.SubscriptionOrderByWithRelationInput;
-  emailToken?: Prisma.EmailTokenOrderByWithRelationInput;
+  emailTokens?: Prisma.EmailTokenOrderByRelationAggregateInput;
+  imapAccounts?: Prisma.ImapAccountOrderByRelationAggregateInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenOrderByWithRelationInput;
   mercadoLibreToken?: Prisma.MercadoLibreTokenOrderByWithRelationInput;
   processedEmails?: Prisma.ProcessedEmailOrderByRelationAggregateInput;
+  emailRules?: Prisma.EmailRuleOrderByRelationAggregateInput;
   expenses?: Prisma.ExpenseOrderByRelationAggregateInput;
+  budgets?: Prisma.BudgetOrderByRelationAggregateInput;
+  recurringCharges?: Prisma.RecurringChargeOrderByRelationAggregateInput;
+  categoryRules?: Prisma.CategoryRuleOrderByRelationAggregateInput;
+  customCategories?: Prisma.CustomCategoryOrderByRelationAggregateInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberOrderByRelationAggregateInput;
+  expenseShares?: Prisma.ExpenseShareOrderByRelationAggregateInput;
+  incomes?: Prisma.IncomeOrderByRelationAggregateInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyOrderByRelationAggregateInput;
+  settlementsPaid?: Prisma.GroupSettlementOrderByRelationAggregateInput;
+  settlementsReceived?: Prisma.GroupSettlementOrderByRelationAggregateInput;
 };
 
 export type UserWhereUniqueInput = Prisma.AtLeast<
@@ -333,8 +417,14 @@ export type UserWhereUniqueInput = Prisma.AtLeast<
     image?: Prisma.StringNullableFilter<"User"> | string | null;
     role?: Prisma.EnumUserRoleFilter<"User"> | $Enums.UserRole;
     locale?: Prisma.StringFilter<"User"> | string;
+    timezone?: Prisma.StringFilter<"User"> | string;
+    currency?: Prisma.StringFilter<"User"> | string;
     digestEnabled?: Prisma.BoolFilter<"User"> | boolean;
     digestHour?: Prisma.IntFilter<"User"> | number;
+    emailDigestHours?: Prisma.IntNullableListFilter<"User">;
+    calendarLeadMinutes?: Prisma.IntFilter<"User"> | number;
+    escalationPhone?: Prisma.StringNullableFilter<"User"> | string | null;
+    paymentAlias?: Prisma.StringNullableFilter<"User"> | string | null;
     createdAt?: Prisma.DateTimeFilter<"User"> | Date | string;
     updatedAt?: Prisma.DateTimeFilter<"User"> | Date | string;
     accounts?: Prisma.AccountListRelationFilter;
@@ -344,16 +434,29 @@ export type UserWhereUniqueInput = Prisma.AtLeast<
       Prisma.SubscriptionNullableScalarRelationFilter,
       Prisma.SubscriptionWhereInput
     > | null;
-    emailToken?: Prisma.XOR<
-      Prisma.EmailTokenNullableScalarRelationFilter,
-      Prisma.EmailTokenWhereInput
+    emailTokens?: Prisma.EmailTokenListRelationFilter;
+    imapAccounts?: Prisma.ImapAccountListRelationFilter;
+    googleAuthToken?: Prisma.XOR<
+      Prisma.GoogleAuthTokenNullableScalarRelationFilter,
+      Prisma.GoogleAuthTokenWhereInput
     > | null;
     mercadoLibreToken?: Prisma.XOR<
       Prisma.MercadoLibreTokenNullableScalarRelationFilter,
       Prisma.MercadoLibreTokenWhereInput
     > | null;
     processedEmails?: Prisma.ProcessedEmailListRelationFilter;
+    emailRules?: Prisma.EmailRuleListRelationFilter;
     expenses?: Prisma.ExpenseListRelationFilter;
+    budgets?: Prisma.BudgetListRelationFilter;
+    recurringCharges?: Prisma.RecurringChargeListRelationFilter;
+    categoryRules?: Prisma.CategoryRuleListRelationFilter;
+    customCategories?: Prisma.CustomCategoryListRelationFilter;
+    expenseGroups?: Prisma.ExpenseGroupMemberListRelationFilter;
+    expenseShares?: Prisma.ExpenseShareListRelationFilter;
+    incomes?: Prisma.IncomeListRelationFilter;
+    expenseAnomalies?: Prisma.ExpenseAnomalyListRelationFilter;
+    settlementsPaid?: Prisma.GroupSettlementListRelationFilter;
+    settlementsReceived?: Prisma.GroupSettlementListRelationFilter;
   },
   "id" | "email" | "chatId"
 >;
@@ -368,8 +471,14 @@ export type UserOrderByWithAggregationInput = {
   role?: Prisma.SortOrder;
   chatId?: Prisma.SortOrderInput | Prisma.SortOrder;
   locale?: Prisma.SortOrder;
+  timezone?: Prisma.SortOrder;
+  currency?: Prisma.SortOrder;
   digestEnabled?: Prisma.SortOrder;
   digestHour?: Prisma.SortOrder;
+  emailDigestHours?: Prisma.SortOrder;
+  calendarLeadMinutes?: Prisma.SortOrder;
+  escalationPhone?: Prisma.SortOrderInput | Prisma.SortOrder;
+  paymentAlias?: Prisma.SortOrderInput | Prisma.SortOrder;
   createdAt?: Prisma.SortOrder;
   updatedAt?: Prisma.SortOrder;
   _count?: Prisma.UserCountOrderByAggregateInput;
@@ -392,8 +501,14 @@ export type UserScalarWhereWithAggregatesInput = {
   role?: Prisma.EnumUserRoleWithAggregatesFilter<"User"> | $Enums.UserRole;
   chatId?: Prisma.StringNullableWithAggregatesFilter<"User"> | string | null;
   locale?: Prisma.StringWithAggregatesFilter<"User"> | string;
+  timezone?: Prisma.StringWithAggregatesFilter<"User"> | string;
+  currency?: Prisma.StringWithAggregatesFilter<"User"> | string;
   digestEnabled?: Prisma.BoolWithAggregatesFilter<"User"> | boolean;
   digestHour?: Prisma.IntWithAggregatesFilter<"User"> | number;
+  emailDigestHours?: Prisma.IntNullableListFilter<"User">;
+  calendarLeadMinutes?: Prisma.IntWithAggregatesFilter<"User"> | number;
+  escalationPhone?: Prisma.StringNullableWithAggregatesFilter<"User"> | string | null;
+  paymentAlias?: Prisma.StringNullableWithAggregatesFilter<"User"> | string | null;
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"User"> | Date | string;
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"User"> | Date | string;
 };
@@ -408,18 +523,37 @@ export type UserCreateInput = {
   role?: $Enums.UserRole;
   chatId?: string | null;
   locale?: string;
+  timezone?: string;
+  currency?: string;
   digestEnabled?: boolean;
   digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
   createdAt?: Date | string;
   updatedAt?: Date | string;
   accounts?: Prisma.AccountCreateNestedManyWithoutUserInput;
   sessions?: Prisma.SessionCreateNestedManyWithoutUserInput;
   reminders?: Prisma.ReminderCreateNestedManyWithoutUserInput;
   subscription?: Prisma.SubscriptionCreateNestedOneWithoutUserInput;
-  emailToken?: Prisma.EmailTokenCreateNestedOneWithoutUserInput;
+  emailTokens?: Prisma.EmailTokenCreateNestedManyWithoutUserInput;
+  imapAccounts?: Prisma.ImapAccountCreateNestedManyWithoutUserInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenCreateNestedOneWithoutUserInput;
   mercadoLibreToken?: Prisma.MercadoLibreTokenCreateNestedOneWithoutUserInput;
   processedEmails?: Prisma.ProcessedEmailCreateNestedManyWithoutUserInput;
+  emailRules?: Prisma.EmailRuleCreateNestedManyWithoutUserInput;
   expenses?: Prisma.ExpenseCreateNestedManyWithoutUserInput;
+  budgets?: Prisma.BudgetCreateNestedManyWithoutUserInput;
+  recurringCharges?: Prisma.RecurringChargeCreateNestedManyWithoutUserInput;
+  categoryRules?: Prisma.CategoryRuleCreateNestedManyWithoutUserInput;
+  customCategories?: Prisma.CustomCategoryCreateNestedManyWithoutUserInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberCreateNestedManyWithoutUserInput;
+  expenseShares?: Prisma.ExpenseShareCreateNestedManyWithoutUserInput;
+  incomes?: Prisma.IncomeCreateNestedManyWithoutUserInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyCreateNestedManyWithoutUserInput;
+  settlementsPaid?: Prisma.GroupSettlementCreateNestedManyWithoutFromUserInput;
+  settlementsReceived?: Prisma.GroupSettlementCreateNestedManyWithoutToUserInput;
 };
 
 export type UserUncheckedCreateInput = {
@@ -432,18 +566,37 @@ export type UserUncheckedCreateInput = {
   role?: $Enums.UserRole;
   chatId?: string | null;
   locale?: string;
+  timezone?: string;
+  currency?: string;
   digestEnabled?: boolean;
   digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
   createdAt?: Date | string;
   updatedAt?: Date | string;
   accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput;
   sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput;
   reminders?: Prisma.ReminderUncheckedCreateNestedManyWithoutUserInput;
   subscription?: Prisma.SubscriptionUncheckedCreateNestedOneWithoutUserInput;
-  emailToken?: Prisma.EmailTokenUncheckedCreateNestedOneWithoutUserInput;
+  emailTokens?: Prisma.EmailTokenUncheckedCreateNestedManyWithoutUserInput;
+  imapAccounts?: Prisma.ImapAccountUncheckedCreateNestedManyWithoutUserInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUncheckedCreateNestedOneWithoutUserInput;
   mercadoLibreToken?: Prisma.MercadoLibreTokenUncheckedCreateNestedOneWithoutUserInput;
   processedEmails?: Prisma.ProcessedEmailUncheckedCreateNestedManyWithoutUserInput;
+  emailRules?: Prisma.EmailRuleUncheckedCreateNestedManyWithoutUserInput;
   expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput;
+  budgets?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput;
+  recurringCharges?: Prisma.RecurringChargeUncheckedCreateNestedManyWithoutUserInput;
+  categoryRules?: Prisma.CategoryRuleUncheckedCreateNestedManyWithoutUserInput;
+  customCategories?: Prisma.CustomCategoryUncheckedCreateNestedManyWithoutUserInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUncheckedCreateNestedManyWithoutUserInput;
+  expenseShares?: Prisma.ExpenseShareUncheckedCreateNestedManyWithoutUserInput;
+  incomes?: Prisma.IncomeUncheckedCreateNestedManyWithoutUserInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUncheckedCreateNestedManyWithoutUserInput;
+  settlementsPaid?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutFromUserInput;
+  settlementsReceived?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutToUserInput;
 };
 
 export type UserUpdateInput = {
@@ -456,18 +609,37 @@ export type UserUpdateInput = {
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
   chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
   digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
   digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput;
   sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput;
   reminders?: Prisma.ReminderUpdateManyWithoutUserNestedInput;
   subscription?: Prisma.SubscriptionUpdateOneWithoutUserNestedInput;
-  emailToken?: Prisma.EmailTokenUpdateOneWithoutUserNestedInput;
+  emailTokens?: Prisma.EmailTokenUpdateManyWithoutUserNestedInput;
+  imapAccounts?: Prisma.ImapAccountUpdateManyWithoutUserNestedInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUpdateOneWithoutUserNestedInput;
   mercadoLibreToken?: Prisma.MercadoLibreTokenUpdateOneWithoutUserNestedInput;
   processedEmails?: Prisma.ProcessedEmailUpdateManyWithoutUserNestedInput;
+  emailRules?: Prisma.EmailRuleUpdateManyWithoutUserNestedInput;
   expenses?: Prisma.ExpenseUpdateManyWithoutUserNestedInput;
+  budgets?: Prisma.BudgetUpdateManyWithoutUserNestedInput;
+  recurringCharges?: Prisma.RecurringChargeUpdateManyWithoutUserNestedInput;
+  categoryRules?: Prisma.CategoryRuleUpdateManyWithoutUserNestedInput;
+  customCategories?: Prisma.CustomCategoryUpdateManyWithoutUserNestedInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUpdateManyWithoutUserNestedInput;
+  expenseShares?: Prisma.ExpenseShareUpdateManyWithoutUserNestedInput;
+  incomes?: Prisma.IncomeUpdateManyWithoutUserNestedInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUpdateManyWithoutUserNestedInput;
+  settlementsPaid?: Prisma.GroupSettlementUpdateManyWithoutFromUserNestedInput;
+  settlementsReceived?: Prisma.GroupSettlementUpdateManyWithoutToUserNestedInput;
 };
 
 export type UserUncheckedUpdateInput = {
@@ -480,18 +652,37 @@ export type UserUncheckedUpdateInput = {
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
   chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
   digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
   digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput;
   sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput;
   reminders?: Prisma.ReminderUncheckedUpdateManyWithoutUserNestedInput;
   subscription?: Prisma.SubscriptionUncheckedUpdateOneWithoutUserNestedInput;
-  emailToken?: Prisma.EmailTokenUncheckedUpdateOneWithoutUserNestedInput;
+  emailTokens?: Prisma.EmailTokenUncheckedUpdateManyWithoutUserNestedInput;
+  imapAccounts?: Prisma.ImapAccountUncheckedUpdateManyWithoutUserNestedInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUncheckedUpdateOneWithoutUserNestedInput;
   mercadoLibreToken?: Prisma.MercadoLibreTokenUncheckedUpdateOneWithoutUserNestedInput;
   processedEmails?: Prisma.ProcessedEmailUncheckedUpdateManyWithoutUserNestedInput;
+  emailRules?: Prisma.EmailRuleUncheckedUpdateManyWithoutUserNestedInput;
   expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput;
+  budgets?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput;
+  recurringCharges?: Prisma.RecurringChargeUncheckedUpdateManyWithoutUserNestedInput;
+  categoryRules?: Prisma.CategoryRuleUncheckedUpdateManyWithoutUserNestedInput;
+  customCategories?: Prisma.CustomCategoryUncheckedUpdateManyWithoutUserNestedInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUncheckedUpdateManyWithoutUserNestedInput;
+  expenseShares?: Prisma.ExpenseShareUncheckedUpdateManyWithoutUserNestedInput;
+  incomes?: Prisma.IncomeUncheckedUpdateManyWithoutUserNestedInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUncheckedUpdateManyWithoutUserNestedInput;
+  settlementsPaid?: Prisma.GroupSettlementUncheckedUpdateManyWithoutFromUserNestedInput;
+  settlementsReceived?: Prisma.GroupSettlementUncheckedUpdateManyWithoutToUserNestedInput;
 };
 
 export type UserCreateManyInput = {
@@ -504,8 +695,14 @@ export type UserCreateManyInput = {
   role?: $Enums.UserRole;
   chatId?: string | null;
   locale?: string;
+  timezone?: string;
+  currency?: string;
   digestEnabled?: boolean;
   digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
   createdAt?: Date | string;
   updatedAt?: Date | string;
 };
@@ -520,8 +717,14 @@ export type UserUpdateManyMutationInput = {
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
   chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
   digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
   digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 };
@@ -536,12 +739,26 @@ export type UserUncheckedUpdateManyInput = {
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
   chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
   digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
   digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
 };
 
+export type IntNullableListFilter<$PrismaModel = never> = {
+  equals?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null;
+  has?: number | Prisma.IntFieldRefInput<$PrismaModel> | null;
+  hasEvery?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>;
+  hasSome?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>;
+  isEmpty?: boolean;
+};
+
 export type UserCountOrderByAggregateInput = {
   id?: Prisma.SortOrder;
   email?: Prisma.SortOrder;
@@ -552,14 +769,22 @@ export type UserCountOrderByAggregateInput = {
   role?: Prisma.SortOrder;
   chatId?: Prisma.SortOrder;
   locale?: Prisma.SortOrder;
+  timezone?: Prisma.SortOrder;
+  currency?: Prisma.SortOrder;
   digestEnabled?: Prisma.SortOrder;
   digestHour?: Prisma.SortOrder;
+  emailDigestHours?: Prisma.SortOrder;
+  calendarLeadMinutes?: Prisma.SortOrder;
+  escalationPhone?: Prisma.SortOrder;
+  paymentAlias?: Prisma.SortOrder;
   createdAt?: Prisma.SortOrder;
   updatedAt?: Prisma.SortOrder;
 };
 
 export type UserAvgOrderByAggregateInput = {
   digestHour?: Prisma.SortOrder;
+  emailDigestHours?: Prisma.SortOrder;
+  calendarLeadMinutes?: Prisma.SortOrder;
 };
 
 export type UserMaxOrderByAggregateInput = {
@@ -572,8 +797,13 @@ export type UserMaxOrderByAggregateInput = {
   role?: Prisma.SortOrder;
   chatId?: Prisma.SortOrder;
   locale?: Prisma.SortOrder;
+  timezone?: Prisma.SortOrder;
+  currency?: Prisma.SortOrder;
   digestEnabled?: Prisma.SortOrder;
   digestHour?: Prisma.SortOrder;
+  calendarLeadMinutes?: Prisma.SortOrder;
+  escalationPhone?: Prisma.SortOrder;
+  paymentAlias?: Prisma.SortOrder;
   createdAt?: Prisma.SortOrder;
   updatedAt?: Prisma.SortOrder;
 };
@@ -588,14 +818,21 @@ export type UserMinOrderByAggregateInput = {
   role?: Prisma.SortOrder;
   chatId?: Prisma.SortOrder;
   locale?: Prisma.SortOrder;
+  timezone?: Prisma.SortOrder;
+  currency?: Prisma.SortOrder;
   digestEnabled?: Prisma.SortOrder;
   digestHour?: Prisma.SortOrder;
+  calendarLeadMinutes?: Prisma.SortOrder;
+  escalationPhone?: Prisma.SortOrder;
+  paymentAlias?: Prisma.SortOrder;
   createdAt?: Prisma.SortOrder;
   updatedAt?: Prisma.SortOrder;
 };
 
 export type UserSumOrderByAggregateInput = {
   digestHour?: Prisma.SortOrder;
+  emailDigestHours?: Prisma.SortOrder;
+  calendarLeadMinutes?: Prisma.SortOrder;
 };
 
 export type UserScalarRelationFilter = {
@@ -608,6 +845,10 @@ export type UserNullableScalarRelationFilter = {
   isNot?: Prisma.UserWhereInput | null;
 };
 
+export type UserCreateemailDigestHoursInput = {
+  set: number[];
+};
+
 export type StringFieldUpdateOperationsInput = {
   set?: string;
 };
@@ -636,6 +877,11 @@ export type IntFieldUpdateOperationsInput = {
   divide?: number;
 };
 
+export type UserUpdateemailDigestHoursInput = {
+  set?: number[];
+  push?: number | number[];
+};
+
 export type DateTimeFieldUpdateOperationsInput = {
   set?: Date | string;
 };
@@ -746,29 +992,81 @@ export type UserUpdateOneWithoutRemindersNestedInput = {
   >;
 };
 
-export type UserCreateNestedOneWithoutEmailTokenInput = {
+export type UserCreateNestedOneWithoutGoogleAuthTokenInput = {
+  create?: Prisma.XOR<
+    Prisma.UserCreateWithoutGoogleAuthTokenInput,
+    Prisma.UserUncheckedCreateWithoutGoogleAuthTokenInput
+  >;
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutGoogleAuthTokenInput;
+  connect?: Prisma.UserWhereUniqueInput;
+};
+
+export type UserUpdateOneRequiredWithoutGoogleAuthTokenNestedInput = {
+  create?: Prisma.XOR<
+    Prisma.UserCreateWithoutGoogleAuthTokenInput,
+    Prisma.UserUncheckedCreateWithoutGoogleAuthTokenInput
+  >;
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutGoogleAuthTokenInput;
+  upsert?: Prisma.UserUpsertWithoutGoogleAuthTokenInput;
+  connect?: Prisma.UserWhereUniqueInput;
+  update?: Prisma.XOR<
+    Prisma.XOR<
+      Prisma.UserUpdateToOneWithWhereWithoutGoogleAuthTokenInput,
+      Prisma.UserUpdateWithoutGoogleAuthTokenInput
+    >,
+    Prisma.UserUncheckedUpdateWithoutGoogleAuthTokenInput
+  >;
+};
+
+export type UserCreateNestedOneWithoutEmailTokensInput = {
+  create?: Prisma.XOR<
+    Prisma.UserCreateWithoutEmailTokensInput,
+    Prisma.UserUncheckedCreateWithoutEmailTokensInput
+  >;
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutEmailTokensInput;
+  connect?: Prisma.UserWhereUniqueInput;
+};
+
+export type UserUpdateOneRequiredWithoutEmailTokensNestedInput = {
+  create?: Prisma.XOR<
+    Prisma.UserCreateWithoutEmailTokensInput,
+    Prisma.UserUncheckedCreateWithoutEmailTokensInput
+  >;
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutEmailTokensInput;
+  upsert?: Prisma.UserUpsertWithoutEmailTokensInput;
+  connect?: Prisma.UserWhereUniqueInput;
+  update?: Prisma.XOR<
+    Prisma.XOR<
+      Prisma.UserUpdateToOneWithWhereWithoutEmailTokensInput,
+      Prisma.UserUpdateWithoutEmailTokensInput
+    >,
+    Prisma.UserUncheckedUpdateWithoutEmailTokensInput
+  >;
+};
+
+export type UserCreateNestedOneWithoutImapAccountsInput = {
   create?: Prisma.XOR<
-    Prisma.UserCreateWithoutEmailTokenInput,
-    Prisma.UserUncheckedCreateWithoutEmailTokenInput
+    Prisma.UserCreateWithoutImapAccountsInput,
+    Prisma.UserUncheckedCreateWithoutImapAccountsInput
   >;
-  connectOrCreate?: Prisma.UserCreateOrConnectWithoutEmailTokenInput;
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutImapAccountsInput;
   connect?: Prisma.UserWhereUniqueInput;
 };
 
-export type UserUpdateOneRequiredWithoutEmailTokenNestedInput = {
+export type UserUpdateOneRequiredWithoutImapAccountsNestedInput = {
   create?: Prisma.XOR<
-    Prisma.UserCreateWithoutEmailTokenInput,
-    Prisma.UserUncheckedCreateWithoutEmailTokenInput
+    Prisma.UserCreateWithoutImapAccountsInput,
+    Prisma.UserUncheckedCreateWithoutImapAccountsInput
   >;
-  connectOrCreate?: Prisma.UserCreateOrConnectWithoutEmailTokenInput;
-  upsert?: Prisma.UserUpsertWithoutEmailTokenInput;
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutImapAccountsInput;
+  upsert?: Prisma.UserUpsertWithoutImapAccountsInput;
   connect?: Prisma.UserWhereUniqueInput;
   update?: Prisma.XOR<
     Prisma.XOR<
-      Prisma.UserUpdateToOneWithWhereWithoutEmailTokenInput,
-      Prisma.UserUpdateWithoutEmailTokenInput
+      Prisma.UserUpdateToOneWithWhereWithoutImapAccountsInput,
+      Prisma.UserUpdateWithoutImapAccountsInput
     >,
-    Prisma.UserUncheckedUpdateWithoutEmailTokenInput
+    Prisma.UserUncheckedUpdateWithoutImapAccountsInput
   >;
 };
 
@@ -850,6 +1148,292 @@ export type UserUpdateOneRequiredWithoutExpensesNestedInput = {
   >;
 };
 
+export type UserCreateNestedOneWithoutExpenseAnomaliesInput = {
+  create?: Prisma.XOR<
+    Prisma.UserCreateWithoutExpenseAnomaliesInput,
+    Prisma.UserUncheckedCreateWithoutExpenseAnomaliesInput
+  >;
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutExpenseAnomaliesInput;
+  connect?: Prisma.UserWhereUniqueInput;
+};
+
+export type UserUpdateOneRequiredWithoutExpenseAnomaliesNestedInput = {
+  create?: Prisma.XOR<
+    Prisma.UserCreateWithoutExpenseAnomaliesInput,
+    Prisma.UserUncheckedCreateWithoutExpenseAnomaliesInput
+  >;
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutExpenseAnomaliesInput;
+  upsert?: Prisma.UserUpsertWithoutExpenseAnomaliesInput;
+  connect?: Prisma.UserWhereUniqueInput;
+  update?: Prisma.XOR<
+    Prisma.XOR<
+      Prisma.UserUpdateToOneWithWhereWithoutExpenseAnomaliesInput,
+      Prisma.UserUpdateWithoutExpenseAnomaliesInput
+    >,
+    Prisma.UserUncheckedUpdateWithoutExpenseAnomaliesInput
+  >;
+};
+
+export type UserCreateNestedOneWithoutIncomesInput = {
+  create?: Prisma.XOR<
+    Prisma.UserCreateWithoutIncomesInput,
+    Prisma.UserUncheckedCreateWithoutIncomesInput
+  >;
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutIncomesInput;
+  connect?: Prisma.UserWhereUniqueInput;
+};
+
+export type UserUpdateOneRequiredWithoutIncomesNestedInput = {
+  create?: Prisma.XOR<
+    Prisma.UserCreateWithoutIncomesInput,
+    Prisma.UserUncheckedCreateWithoutIncomesInput
+  >;
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutIncomesInput;
+  upsert?: Prisma.UserUpsertWithoutIncomesInput;
+  connect?: Prisma.UserWhereUniqueInput;
+  update?: Prisma.XOR<
+    Prisma.XOR<
+      Prisma.UserUpdateToOneWithWhereWithoutIncomesInput,
+      Prisma.UserUpdateWithoutIncomesInput
+    >,
+    Prisma.UserUncheckedUpdateWithoutIncomesInput
+  >;
+};
+
+export type UserCreateNestedOneWithoutCustomCategoriesInput = {
+  create?: Prisma.XOR<
+    Prisma.UserCreateWithoutCustomCategoriesInput,
+    Prisma.UserUncheckedCreateWithoutCustomCategoriesInput
+  >;
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutCustomCategoriesInput;
+  connect?: Prisma.UserWhereUniqueInput;
+};
+
+export type UserUpdateOneRequiredWithoutCustomCategoriesNestedInput = {
+  create?: Prisma.XOR<
+    Prisma.UserCreateWithoutCustomCategoriesInput,
+    Prisma.UserUncheckedCreateWithoutCustomCategoriesInput
+  >;
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutCustomCategoriesInput;
+  upsert?: Prisma.UserUpsertWithoutCustomCategoriesInput;
+  connect?: Prisma.UserWhereUniqueInput;
+  update?: Prisma.XOR<
+    Prisma.XOR<
+      Prisma.UserUpdateToOneWithWhereWithoutCustomCategoriesInput,
+      Prisma.UserUpdateWithoutCustomCategoriesInput
+    >,
+    Prisma.UserUncheckedUpdateWithoutCustomCategoriesInput
+  >;
+};
+
+export type UserCreateNestedOneWithoutExpenseGroupsInput = {
+  create?: Prisma.XOR<
+    Prisma.UserCreateWithoutExpenseGroupsInput,
+    Prisma.UserUncheckedCreateWithoutExpenseGroupsInput
+  >;
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutExpenseGroupsInput;
+  connect?: Prisma.UserWhereUniqueInput;
+};
+
+export type UserUpdateOneRequiredWithoutExpenseGroupsNestedInput = {
+  create?: Prisma.XOR<
+    Prisma.UserCreateWithoutExpenseGroupsInput,
+    Prisma.UserUncheckedCreateWithoutExpenseGroupsInput
+  >;
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutExpenseGroupsInput;
+  upsert?: Prisma.UserUpsertWithoutExpenseGroupsInput;
+  connect?: Prisma.UserWhereUniqueInput;
+  update?: Prisma.XOR<
+    Prisma.XOR<
+      Prisma.UserUpdateToOneWithWhereWithoutExpenseGroupsInput,
+      Prisma.UserUpdateWithoutExpenseGroupsInput
+    >,
+    Prisma.UserUncheckedUpdateWithoutExpenseGroupsInput
+  >;
+};
+
+export type UserCreateNestedOneWithoutExpenseSharesInput = {
+  create?: Prisma.XOR<
+    Prisma.UserCreateWithoutExpenseSharesInput,
+    Prisma.UserUncheckedCreateWithoutExpenseSharesInput
+  >;
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutExpenseSharesInput;
+  connect?: Prisma.UserWhereUniqueInput;
+};
+
+export type UserUpdateOneRequiredWithoutExpenseSharesNestedInput = {
+  create?: Prisma.XOR<
+    Prisma.UserCreateWithoutExpenseSharesInput,
+    Prisma.UserUncheckedCreateWithoutExpenseSharesInput
+  >;
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutExpenseSharesInput;
+  upsert?: Prisma.UserUpsertWithoutExpenseSharesInput;
+  connect?: Prisma.UserWhereUniqueInput;
+  update?: Prisma.XOR<
+    Prisma.XOR<
+      Prisma.UserUpdateToOneWithWhereWithoutExpenseSharesInput,
+      Prisma.UserUpdateWithoutExpenseSharesInput
+    >,
+    Prisma.UserUncheckedUpdateWithoutExpenseSharesInput
+  >;
+};
+
+export type UserCreateNestedOneWithoutSettlementsPaidInput = {
+  create?: Prisma.XOR<
+    Prisma.UserCreateWithoutSettlementsPaidInput,
+    Prisma.UserUncheckedCreateWithoutSettlementsPaidInput
+  >;
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutSettlementsPaidInput;
+  connect?: Prisma.UserWhereUniqueInput;
+};
+
+export type UserCreateNestedOneWithoutSettlementsReceivedInput = {
+  create?: Prisma.XOR<
+    Prisma.UserCreateWithoutSettlementsReceivedInput,
+    Prisma.UserUncheckedCreateWithoutSettlementsReceivedInput
+  >;
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutSettlementsReceivedInput;
+  connect?: Prisma.UserWhereUniqueInput;
+};
+
+export type UserUpdateOneRequiredWithoutSettlementsPaidNestedInput = {
+  create?: Prisma.XOR<
+    Prisma.UserCreateWithoutSettlementsPaidInput,
+    Prisma.UserUncheckedCreateWithoutSettlementsPaidInput
+  >;
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutSettlementsPaidInput;
+  upsert?: Prisma.UserUpsertWithoutSettlementsPaidInput;
+  connect?: Prisma.UserWhereUniqueInput;
+  update?: Prisma.XOR<
+    Prisma.XOR<
+      Prisma.UserUpdateToOneWithWhereWithoutSettlementsPaidInput,
+      Prisma.UserUpdateWithoutSettlementsPaidInput
+    >,
+    Prisma.UserUncheckedUpdateWithoutSettlementsPaidInput
+  >;
+};
+
+export type UserUpdateOneRequiredWithoutSettlementsReceivedNestedInput = {
+  create?: Prisma.XOR<
+    Prisma.UserCreateWithoutSettlementsReceivedInput,
+    Prisma.UserUncheckedCreateWithoutSettlementsReceivedInput
+  >;
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutSettlementsReceivedInput;
+  upsert?: Prisma.UserUpsertWithoutSettlementsReceivedInput;
+  connect?: Prisma.UserWhereUniqueInput;
+  update?: Prisma.XOR<
+    Prisma.XOR<
+      Prisma.UserUpdateToOneWithWhereWithoutSettlementsReceivedInput,
+      Prisma.UserUpdateWithoutSettlementsReceivedInput
+    >,
+    Prisma.UserUncheckedUpdateWithoutSettlementsReceivedInput
+  >;
+};
+
+export type UserCreateNestedOneWithoutBudgetsInput = {
+  create?: Prisma.XOR<
+    Prisma.UserCreateWithoutBudgetsInput,
+    Prisma.UserUncheckedCreateWithoutBudgetsInput
+  >;
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutBudgetsInput;
+  connect?: Prisma.UserWhereUniqueInput;
+};
+
+export type UserUpdateOneRequiredWithoutBudgetsNestedInput = {
+  create?: Prisma.XOR<
+    Prisma.UserCreateWithoutBudgetsInput,
+    Prisma.UserUncheckedCreateWithoutBudgetsInput
+  >;
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutBudgetsInput;
+  upsert?: Prisma.UserUpsertWithoutBudgetsInput;
+  connect?: Prisma.UserWhereUniqueInput;
+  update?: Prisma.XOR<
+    Prisma.XOR<
+      Prisma.UserUpdateToOneWithWhereWithoutBudgetsInput,
+      Prisma.UserUpdateWithoutBudgetsInput
+    >,
+    Prisma.UserUncheckedUpdateWithoutBudgetsInput
+  >;
+};
+
+export type UserCreateNestedOneWithoutCategoryRulesInput = {
+  create?: Prisma.XOR<
+    Prisma.UserCreateWithoutCategoryRulesInput,
+    Prisma.UserUncheckedCreateWithoutCategoryRulesInput
+  >;
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutCategoryRulesInput;
+  connect?: Prisma.UserWhereUniqueInput;
+};
+
+export type UserUpdateOneRequiredWithoutCategoryRulesNestedInput = {
+  create?: Prisma.XOR<
+    Prisma.UserCreateWithoutCategoryRulesInput,
+    Prisma.UserUncheckedCreateWithoutCategoryRulesInput
+  >;
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutCategoryRulesInput;
+  upsert?: Prisma.UserUpsertWithoutCategoryRulesInput;
+  connect?: Prisma.UserWhereUniqueInput;
+  update?: Prisma.XOR<
+    Prisma.XOR<
+      Prisma.UserUpdateToOneWithWhereWithoutCategoryRulesInput,
+      Prisma.UserUpdateWithoutCategoryRulesInput
+    >,
+    Prisma.UserUncheckedUpdateWithoutCategoryRulesInput
+  >;
+};
+
+export type UserCreateNestedOneWithoutRecurringChargesInput = {
+  create?: Prisma.XOR<
+    Prisma.UserCreateWithoutRecurringChargesInput,
+    Prisma.UserUncheckedCreateWithoutRecurringChargesInput
+  >;
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutRecurringChargesInput;
+  connect?: Prisma.UserWhereUniqueInput;
+};
+
+export type UserUpdateOneRequiredWithoutRecurringChargesNestedInput = {
+  create?: Prisma.XOR<
+    Prisma.UserCreateWithoutRecurringChargesInput,
+    Prisma.UserUncheckedCreateWithoutRecurringChargesInput
+  >;
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutRecurringChargesInput;
+  upsert?: Prisma.UserUpsertWithoutRecurringChargesInput;
+  connect?: Prisma.UserWhereUniqueInput;
+  update?: Prisma.XOR<
+    Prisma.XOR<
+      Prisma.UserUpdateToOneWithWhereWithoutRecurringChargesInput,
+      Prisma.UserUpdateWithoutRecurringChargesInput
+    >,
+    Prisma.UserUncheckedUpdateWithoutRecurringChargesInput
+  >;
+};
+
+export type UserCreateNestedOneWithoutEmailRulesInput = {
+  create?: Prisma.XOR<
+    Prisma.UserCreateWithoutEmailRulesInput,
+    Prisma.UserUncheckedCreateWithoutEmailRulesInput
+  >;
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutEmailRulesInput;
+  connect?: Prisma.UserWhereUniqueInput;
+};
+
+export type UserUpdateOneRequiredWithoutEmailRulesNestedInput = {
+  create?: Prisma.XOR<
+    Prisma.UserCreateWithoutEmailRulesInput,
+    Prisma.UserUncheckedCreateWithoutEmailRulesInput
+  >;
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutEmailRulesInput;
+  upsert?: Prisma.UserUpsertWithoutEmailRulesInput;
+  connect?: Prisma.UserWhereUniqueInput;
+  update?: Prisma.XOR<
+    Prisma.XOR<
+      Prisma.UserUpdateToOneWithWhereWithoutEmailRulesInput,
+      Prisma.UserUpdateWithoutEmailRulesInput
+    >,
+    Prisma.UserUncheckedUpdateWithoutEmailRulesInput
+  >;
+};
+
 export type UserCreateWithoutAccountsInput = {
   id?: string;
   email?: string | null;
@@ -860,17 +1444,36 @@ export type UserCreateWithoutAccountsInput = {
   role?: $Enums.UserRole;
   chatId?: string | null;
   locale?: string;
+  timezone?: string;
+  currency?: string;
   digestEnabled?: boolean;
   digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
   createdAt?: Date | string;
   updatedAt?: Date | string;
   sessions?: Prisma.SessionCreateNestedManyWithoutUserInput;
   reminders?: Prisma.ReminderCreateNestedManyWithoutUserInput;
   subscription?: Prisma.SubscriptionCreateNestedOneWithoutUserInput;
-  emailToken?: Prisma.EmailTokenCreateNestedOneWithoutUserInput;
+  emailTokens?: Prisma.EmailTokenCreateNestedManyWithoutUserInput;
+  imapAccounts?: Prisma.ImapAccountCreateNestedManyWithoutUserInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenCreateNestedOneWithoutUserInput;
   mercadoLibreToken?: Prisma.MercadoLibreTokenCreateNestedOneWithoutUserInput;
   processedEmails?: Prisma.ProcessedEmailCreateNestedManyWithoutUserInput;
+  emailRules?: Prisma.EmailRuleCreateNestedManyWithoutUserInput;
   expenses?: Prisma.ExpenseCreateNestedManyWithoutUserInput;
+  budgets?: Prisma.BudgetCreateNestedManyWithoutUserInput;
+  recurringCharges?: Prisma.RecurringChargeCreateNestedManyWithoutUserInput;
+  categoryRules?: Prisma.CategoryRuleCreateNestedManyWithoutUserInput;
+  customCategories?: Prisma.CustomCategoryCreateNestedManyWithoutUserInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberCreateNestedManyWithoutUserInput;
+  expenseShares?: Prisma.ExpenseShareCreateNestedManyWithoutUserInput;
+  incomes?: Prisma.IncomeCreateNestedManyWithoutUserInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyCreateNestedManyWithoutUserInput;
+  settlementsPaid?: Prisma.GroupSettlementCreateNestedManyWithoutFromUserInput;
+  settlementsReceived?: Prisma.GroupSettlementCreateNestedManyWithoutToUserInput;
 };
 
 export type UserUncheckedCreateWithoutAccountsInput = {
@@ -883,17 +1486,36 @@ export type UserUncheckedCreateWithoutAccountsInput = {
   role?: $Enums.UserRole;
   chatId?: string | null;
   locale?: string;
+  timezone?: string;
+  currency?: string;
   digestEnabled?: boolean;
   digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
   createdAt?: Date | string;
   updatedAt?: Date | string;
   sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput;
   reminders?: Prisma.ReminderUncheckedCreateNestedManyWithoutUserInput;
   subscription?: Prisma.SubscriptionUncheckedCreateNestedOneWithoutUserInput;
-  emailToken?: Prisma.EmailTokenUncheckedCreateNestedOneWithoutUserInput;
+  emailTokens?: Prisma.EmailTokenUncheckedCreateNestedManyWithoutUserInput;
+  imapAccounts?: Prisma.ImapAccountUncheckedCreateNestedManyWithoutUserInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUncheckedCreateNestedOneWithoutUserInput;
   mercadoLibreToken?: Prisma.MercadoLibreTokenUncheckedCreateNestedOneWithoutUserInput;
   processedEmails?: Prisma.ProcessedEmailUncheckedCreateNestedManyWithoutUserInput;
+  emailRules?: Prisma.EmailRuleUncheckedCreateNestedManyWithoutUserInput;
   expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput;
+  budgets?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput;
+  recurringCharges?: Prisma.RecurringChargeUncheckedCreateNestedManyWithoutUserInput;
+  categoryRules?: Prisma.CategoryRuleUncheckedCreateNestedManyWithoutUserInput;
+  customCategories?: Prisma.CustomCategoryUncheckedCreateNestedManyWithoutUserInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUncheckedCreateNestedManyWithoutUserInput;
+  expenseShares?: Prisma.ExpenseShareUncheckedCreateNestedManyWithoutUserInput;
+  incomes?: Prisma.IncomeUncheckedCreateNestedManyWithoutUserInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUncheckedCreateNestedManyWithoutUserInput;
+  settlementsPaid?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutFromUserInput;
+  settlementsReceived?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutToUserInput;
 };
 
 export type UserCreateOrConnectWithoutAccountsInput = {
@@ -934,17 +1556,36 @@ export type UserUpdateWithoutAccountsInput = {
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
   chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
   digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
   digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput;
   reminders?: Prisma.ReminderUpdateManyWithoutUserNestedInput;
   subscription?: Prisma.SubscriptionUpdateOneWithoutUserNestedInput;
-  emailToken?: Prisma.EmailTokenUpdateOneWithoutUserNestedInput;
+  emailTokens?: Prisma.EmailTokenUpdateManyWithoutUserNestedInput;
+  imapAccounts?: Prisma.ImapAccountUpdateManyWithoutUserNestedInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUpdateOneWithoutUserNestedInput;
   mercadoLibreToken?: Prisma.MercadoLibreTokenUpdateOneWithoutUserNestedInput;
   processedEmails?: Prisma.ProcessedEmailUpdateManyWithoutUserNestedInput;
+  emailRules?: Prisma.EmailRuleUpdateManyWithoutUserNestedInput;
   expenses?: Prisma.ExpenseUpdateManyWithoutUserNestedInput;
+  budgets?: Prisma.BudgetUpdateManyWithoutUserNestedInput;
+  recurringCharges?: Prisma.RecurringChargeUpdateManyWithoutUserNestedInput;
+  categoryRules?: Prisma.CategoryRuleUpdateManyWithoutUserNestedInput;
+  customCategories?: Prisma.CustomCategoryUpdateManyWithoutUserNestedInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUpdateManyWithoutUserNestedInput;
+  expenseShares?: Prisma.ExpenseShareUpdateManyWithoutUserNestedInput;
+  incomes?: Prisma.IncomeUpdateManyWithoutUserNestedInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUpdateManyWithoutUserNestedInput;
+  settlementsPaid?: Prisma.GroupSettlementUpdateManyWithoutFromUserNestedInput;
+  settlementsReceived?: Prisma.GroupSettlementUpdateManyWithoutToUserNestedInput;
 };
 
 export type UserUncheckedUpdateWithoutAccountsInput = {
@@ -957,17 +1598,36 @@ export type UserUncheckedUpdateWithoutAccountsInput = {
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
   chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
   digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
   digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput;
   reminders?: Prisma.ReminderUncheckedUpdateManyWithoutUserNestedInput;
   subscription?: Prisma.SubscriptionUncheckedUpdateOneWithoutUserNestedInput;
-  emailToken?: Prisma.EmailTokenUncheckedUpdateOneWithoutUserNestedInput;
+  emailTokens?: Prisma.EmailTokenUncheckedUpdateManyWithoutUserNestedInput;
+  imapAccounts?: Prisma.ImapAccountUncheckedUpdateManyWithoutUserNestedInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUncheckedUpdateOneWithoutUserNestedInput;
   mercadoLibreToken?: Prisma.MercadoLibreTokenUncheckedUpdateOneWithoutUserNestedInput;
   processedEmails?: Prisma.ProcessedEmailUncheckedUpdateManyWithoutUserNestedInput;
+  emailRules?: Prisma.EmailRuleUncheckedUpdateManyWithoutUserNestedInput;
   expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput;
+  budgets?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput;
+  recurringCharges?: Prisma.RecurringChargeUncheckedUpdateManyWithoutUserNestedInput;
+  categoryRules?: Prisma.CategoryRuleUncheckedUpdateManyWithoutUserNestedInput;
+  customCategories?: Prisma.CustomCategoryUncheckedUpdateManyWithoutUserNestedInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUncheckedUpdateManyWithoutUserNestedInput;
+  expenseShares?: Prisma.ExpenseShareUncheckedUpdateManyWithoutUserNestedInput;
+  incomes?: Prisma.IncomeUncheckedUpdateManyWithoutUserNestedInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUncheckedUpdateManyWithoutUserNestedInput;
+  settlementsPaid?: Prisma.GroupSettlementUncheckedUpdateManyWithoutFromUserNestedInput;
+  settlementsReceived?: Prisma.GroupSettlementUncheckedUpdateManyWithoutToUserNestedInput;
 };
 
 export type UserCreateWithoutSessionsInput = {
@@ -980,17 +1640,36 @@ export type UserCreateWithoutSessionsInput = {
   role?: $Enums.UserRole;
   chatId?: string | null;
   locale?: string;
+  timezone?: string;
+  currency?: string;
   digestEnabled?: boolean;
   digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
   createdAt?: Date | string;
   updatedAt?: Date | string;
   accounts?: Prisma.AccountCreateNestedManyWithoutUserInput;
   reminders?: Prisma.ReminderCreateNestedManyWithoutUserInput;
   subscription?: Prisma.SubscriptionCreateNestedOneWithoutUserInput;
-  emailToken?: Prisma.EmailTokenCreateNestedOneWithoutUserInput;
+  emailTokens?: Prisma.EmailTokenCreateNestedManyWithoutUserInput;
+  imapAccounts?: Prisma.ImapAccountCreateNestedManyWithoutUserInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenCreateNestedOneWithoutUserInput;
   mercadoLibreToken?: Prisma.MercadoLibreTokenCreateNestedOneWithoutUserInput;
   processedEmails?: Prisma.ProcessedEmailCreateNestedManyWithoutUserInput;
+  emailRules?: Prisma.EmailRuleCreateNestedManyWithoutUserInput;
   expenses?: Prisma.ExpenseCreateNestedManyWithoutUserInput;
+  budgets?: Prisma.BudgetCreateNestedManyWithoutUserInput;
+  recurringCharges?: Prisma.RecurringChargeCreateNestedManyWithoutUserInput;
+  categoryRules?: Prisma.CategoryRuleCreateNestedManyWithoutUserInput;
+  customCategories?: Prisma.CustomCategoryCreateNestedManyWithoutUserInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberCreateNestedManyWithoutUserInput;
+  expenseShares?: Prisma.ExpenseShareCreateNestedManyWithoutUserInput;
+  incomes?: Prisma.IncomeCreateNestedManyWithoutUserInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyCreateNestedManyWithoutUserInput;
+  settlementsPaid?: Prisma.GroupSettlementCreateNestedManyWithoutFromUserInput;
+  settlementsReceived?: Prisma.GroupSettlementCreateNestedManyWithoutToUserInput;
 };
 
 export type UserUncheckedCreateWithoutSessionsInput = {
@@ -1003,17 +1682,36 @@ export type UserUncheckedCreateWithoutSessionsInput = {
   role?: $Enums.UserRole;
   chatId?: string | null;
   locale?: string;
+  timezone?: string;
+  currency?: string;
   digestEnabled?: boolean;
   digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
   createdAt?: Date | string;
   updatedAt?: Date | string;
   accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput;
   reminders?: Prisma.ReminderUncheckedCreateNestedManyWithoutUserInput;
   subscription?: Prisma.SubscriptionUncheckedCreateNestedOneWithoutUserInput;
-  emailToken?: Prisma.EmailTokenUncheckedCreateNestedOneWithoutUserInput;
+  emailTokens?: Prisma.EmailTokenUncheckedCreateNestedManyWithoutUserInput;
+  imapAccounts?: Prisma.ImapAccountUncheckedCreateNestedManyWithoutUserInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUncheckedCreateNestedOneWithoutUserInput;
   mercadoLibreToken?: Prisma.MercadoLibreTokenUncheckedCreateNestedOneWithoutUserInput;
   processedEmails?: Prisma.ProcessedEmailUncheckedCreateNestedManyWithoutUserInput;
+  emailRules?: Prisma.EmailRuleUncheckedCreateNestedManyWithoutUserInput;
   expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput;
+  budgets?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput;
+  recurringCharges?: Prisma.RecurringChargeUncheckedCreateNestedManyWithoutUserInput;
+  categoryRules?: Prisma.CategoryRuleUncheckedCreateNestedManyWithoutUserInput;
+  customCategories?: Prisma.CustomCategoryUncheckedCreateNestedManyWithoutUserInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUncheckedCreateNestedManyWithoutUserInput;
+  expenseShares?: Prisma.ExpenseShareUncheckedCreateNestedManyWithoutUserInput;
+  incomes?: Prisma.IncomeUncheckedCreateNestedManyWithoutUserInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUncheckedCreateNestedManyWithoutUserInput;
+  settlementsPaid?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutFromUserInput;
+  settlementsReceived?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutToUserInput;
 };
 
 export type UserCreateOrConnectWithoutSessionsInput = {
@@ -1054,17 +1752,36 @@ export type UserUpdateWithoutSessionsInput = {
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
   chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
   digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
   digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput;
   reminders?: Prisma.ReminderUpdateManyWithoutUserNestedInput;
   subscription?: Prisma.SubscriptionUpdateOneWithoutUserNestedInput;
-  emailToken?: Prisma.EmailTokenUpdateOneWithoutUserNestedInput;
+  emailTokens?: Prisma.EmailTokenUpdateManyWithoutUserNestedInput;
+  imapAccounts?: Prisma.ImapAccountUpdateManyWithoutUserNestedInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUpdateOneWithoutUserNestedInput;
   mercadoLibreToken?: Prisma.MercadoLibreTokenUpdateOneWithoutUserNestedInput;
   processedEmails?: Prisma.ProcessedEmailUpdateManyWithoutUserNestedInput;
+  emailRules?: Prisma.EmailRuleUpdateManyWithoutUserNestedInput;
   expenses?: Prisma.ExpenseUpdateManyWithoutUserNestedInput;
+  budgets?: Prisma.BudgetUpdateManyWithoutUserNestedInput;
+  recurringCharges?: Prisma.RecurringChargeUpdateManyWithoutUserNestedInput;
+  categoryRules?: Prisma.CategoryRuleUpdateManyWithoutUserNestedInput;
+  customCategories?: Prisma.CustomCategoryUpdateManyWithoutUserNestedInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUpdateManyWithoutUserNestedInput;
+  expenseShares?: Prisma.ExpenseShareUpdateManyWithoutUserNestedInput;
+  incomes?: Prisma.IncomeUpdateManyWithoutUserNestedInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUpdateManyWithoutUserNestedInput;
+  settlementsPaid?: Prisma.GroupSettlementUpdateManyWithoutFromUserNestedInput;
+  settlementsReceived?: Prisma.GroupSettlementUpdateManyWithoutToUserNestedInput;
 };
 
 export type UserUncheckedUpdateWithoutSessionsInput = {
@@ -1077,17 +1794,36 @@ export type UserUncheckedUpdateWithoutSessionsInput = {
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
   chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
   digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
   digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput;
   reminders?: Prisma.ReminderUncheckedUpdateManyWithoutUserNestedInput;
   subscription?: Prisma.SubscriptionUncheckedUpdateOneWithoutUserNestedInput;
-  emailToken?: Prisma.EmailTokenUncheckedUpdateOneWithoutUserNestedInput;
+  emailTokens?: Prisma.EmailTokenUncheckedUpdateManyWithoutUserNestedInput;
+  imapAccounts?: Prisma.ImapAccountUncheckedUpdateManyWithoutUserNestedInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUncheckedUpdateOneWithoutUserNestedInput;
   mercadoLibreToken?: Prisma.MercadoLibreTokenUncheckedUpdateOneWithoutUserNestedInput;
   processedEmails?: Prisma.ProcessedEmailUncheckedUpdateManyWithoutUserNestedInput;
+  emailRules?: Prisma.EmailRuleUncheckedUpdateManyWithoutUserNestedInput;
   expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput;
+  budgets?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput;
+  recurringCharges?: Prisma.RecurringChargeUncheckedUpdateManyWithoutUserNestedInput;
+  categoryRules?: Prisma.CategoryRuleUncheckedUpdateManyWithoutUserNestedInput;
+  customCategories?: Prisma.CustomCategoryUncheckedUpdateManyWithoutUserNestedInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUncheckedUpdateManyWithoutUserNestedInput;
+  expenseShares?: Prisma.ExpenseShareUncheckedUpdateManyWithoutUserNestedInput;
+  incomes?: Prisma.IncomeUncheckedUpdateManyWithoutUserNestedInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUncheckedUpdateManyWithoutUserNestedInput;
+  settlementsPaid?: Prisma.GroupSettlementUncheckedUpdateManyWithoutFromUserNestedInput;
+  settlementsReceived?: Prisma.GroupSettlementUncheckedUpdateManyWithoutToUserNestedInput;
 };
 
 export type UserCreateWithoutSubscriptionInput = {
@@ -1100,17 +1836,36 @@ export type UserCreateWithoutSubscriptionInput = {
   role?: $Enums.UserRole;
   chatId?: string | null;
   locale?: string;
+  timezone?: string;
+  currency?: string;
   digestEnabled?: boolean;
   digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
   createdAt?: Date | string;
   updatedAt?: Date | string;
   accounts?: Prisma.AccountCreateNestedManyWithoutUserInput;
   sessions?: Prisma.SessionCreateNestedManyWithoutUserInput;
   reminders?: Prisma.ReminderCreateNestedManyWithoutUserInput;
-  emailToken?: Prisma.EmailTokenCreateNestedOneWithoutUserInput;
+  emailTokens?: Prisma.EmailTokenCreateNestedManyWithoutUserInput;
+  imapAccounts?: Prisma.ImapAccountCreateNestedManyWithoutUserInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenCreateNestedOneWithoutUserInput;
   mercadoLibreToken?: Prisma.MercadoLibreTokenCreateNestedOneWithoutUserInput;
   processedEmails?: Prisma.ProcessedEmailCreateNestedManyWithoutUserInput;
+  emailRules?: Prisma.EmailRuleCreateNestedManyWithoutUserInput;
   expenses?: Prisma.ExpenseCreateNestedManyWithoutUserInput;
+  budgets?: Prisma.BudgetCreateNestedManyWithoutUserInput;
+  recurringCharges?: Prisma.RecurringChargeCreateNestedManyWithoutUserInput;
+  categoryRules?: Prisma.CategoryRuleCreateNestedManyWithoutUserInput;
+  customCategories?: Prisma.CustomCategoryCreateNestedManyWithoutUserInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberCreateNestedManyWithoutUserInput;
+  expenseShares?: Prisma.ExpenseShareCreateNestedManyWithoutUserInput;
+  incomes?: Prisma.IncomeCreateNestedManyWithoutUserInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyCreateNestedManyWithoutUserInput;
+  settlementsPaid?: Prisma.GroupSettlementCreateNestedManyWithoutFromUserInput;
+  settlementsReceived?: Prisma.GroupSettlementCreateNestedManyWithoutToUserInput;
 };
 
 export type UserUncheckedCreateWithoutSubscriptionInput = {
@@ -1123,17 +1878,36 @@ export type UserUncheckedCreateWithoutSubscriptionInput = {
   role?: $Enums.UserRole;
   chatId?: string | null;
   locale?: string;
+  timezone?: string;
+  currency?: string;
   digestEnabled?: boolean;
   digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
   createdAt?: Date | string;
   updatedAt?: Date | string;
   accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput;
   sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput;
   reminders?: Prisma.ReminderUncheckedCreateNestedManyWithoutUserInput;
-  emailToken?: Prisma.EmailTokenUncheckedCreateNestedOneWithoutUserInput;
+  emailTokens?: Prisma.EmailTokenUncheckedCreateNestedManyWithoutUserInput;
+  imapAccounts?: Prisma.ImapAccountUncheckedCreateNestedManyWithoutUserInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUncheckedCreateNestedOneWithoutUserInput;
   mercadoLibreToken?: Prisma.MercadoLibreTokenUncheckedCreateNestedOneWithoutUserInput;
   processedEmails?: Prisma.ProcessedEmailUncheckedCreateNestedManyWithoutUserInput;
+  emailRules?: Prisma.EmailRuleUncheckedCreateNestedManyWithoutUserInput;
   expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput;
+  budgets?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput;
+  recurringCharges?: Prisma.RecurringChargeUncheckedCreateNestedManyWithoutUserInput;
+  categoryRules?: Prisma.CategoryRuleUncheckedCreateNestedManyWithoutUserInput;
+  customCategories?: Prisma.CustomCategoryUncheckedCreateNestedManyWithoutUserInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUncheckedCreateNestedManyWithoutUserInput;
+  expenseShares?: Prisma.ExpenseShareUncheckedCreateNestedManyWithoutUserInput;
+  incomes?: Prisma.IncomeUncheckedCreateNestedManyWithoutUserInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUncheckedCreateNestedManyWithoutUserInput;
+  settlementsPaid?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutFromUserInput;
+  settlementsReceived?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutToUserInput;
 };
 
 export type UserCreateOrConnectWithoutSubscriptionInput = {
@@ -1174,17 +1948,36 @@ export type UserUpdateWithoutSubscriptionInput = {
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
   chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
   digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
   digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput;
   sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput;
   reminders?: Prisma.ReminderUpdateManyWithoutUserNestedInput;
-  emailToken?: Prisma.EmailTokenUpdateOneWithoutUserNestedInput;
+  emailTokens?: Prisma.EmailTokenUpdateManyWithoutUserNestedInput;
+  imapAccounts?: Prisma.ImapAccountUpdateManyWithoutUserNestedInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUpdateOneWithoutUserNestedInput;
   mercadoLibreToken?: Prisma.MercadoLibreTokenUpdateOneWithoutUserNestedInput;
   processedEmails?: Prisma.ProcessedEmailUpdateManyWithoutUserNestedInput;
+  emailRules?: Prisma.EmailRuleUpdateManyWithoutUserNestedInput;
   expenses?: Prisma.ExpenseUpdateManyWithoutUserNestedInput;
+  budgets?: Prisma.BudgetUpdateManyWithoutUserNestedInput;
+  recurringCharges?: Prisma.RecurringChargeUpdateManyWithoutUserNestedInput;
+  categoryRules?: Prisma.CategoryRuleUpdateManyWithoutUserNestedInput;
+  customCategories?: Prisma.CustomCategoryUpdateManyWithoutUserNestedInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUpdateManyWithoutUserNestedInput;
+  expenseShares?: Prisma.ExpenseShareUpdateManyWithoutUserNestedInput;
+  incomes?: Prisma.IncomeUpdateManyWithoutUserNestedInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUpdateManyWithoutUserNestedInput;
+  settlementsPaid?: Prisma.GroupSettlementUpdateManyWithoutFromUserNestedInput;
+  settlementsReceived?: Prisma.GroupSettlementUpdateManyWithoutToUserNestedInput;
 };
 
 export type UserUncheckedUpdateWithoutSubscriptionInput = {
@@ -1197,17 +1990,36 @@ export type UserUncheckedUpdateWithoutSubscriptionInput = {
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
   chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
   digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
   digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput;
   sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput;
   reminders?: Prisma.ReminderUncheckedUpdateManyWithoutUserNestedInput;
-  emailToken?: Prisma.EmailTokenUncheckedUpdateOneWithoutUserNestedInput;
+  emailTokens?: Prisma.EmailTokenUncheckedUpdateManyWithoutUserNestedInput;
+  imapAccounts?: Prisma.ImapAccountUncheckedUpdateManyWithoutUserNestedInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUncheckedUpdateOneWithoutUserNestedInput;
   mercadoLibreToken?: Prisma.MercadoLibreTokenUncheckedUpdateOneWithoutUserNestedInput;
   processedEmails?: Prisma.ProcessedEmailUncheckedUpdateManyWithoutUserNestedInput;
+  emailRules?: Prisma.EmailRuleUncheckedUpdateManyWithoutUserNestedInput;
   expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput;
+  budgets?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput;
+  recurringCharges?: Prisma.RecurringChargeUncheckedUpdateManyWithoutUserNestedInput;
+  categoryRules?: Prisma.CategoryRuleUncheckedUpdateManyWithoutUserNestedInput;
+  customCategories?: Prisma.CustomCategoryUncheckedUpdateManyWithoutUserNestedInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUncheckedUpdateManyWithoutUserNestedInput;
+  expenseShares?: Prisma.ExpenseShareUncheckedUpdateManyWithoutUserNestedInput;
+  incomes?: Prisma.IncomeUncheckedUpdateManyWithoutUserNestedInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUncheckedUpdateManyWithoutUserNestedInput;
+  settlementsPaid?: Prisma.GroupSettlementUncheckedUpdateManyWithoutFromUserNestedInput;
+  settlementsReceived?: Prisma.GroupSettlementUncheckedUpdateManyWithoutToUserNestedInput;
 };
 
 export type UserCreateWithoutRemindersInput = {
@@ -1220,17 +2032,36 @@ export type UserCreateWithoutRemindersInput = {
   role?: $Enums.UserRole;
   chatId?: string | null;
   locale?: string;
+  timezone?: string;
+  currency?: string;
   digestEnabled?: boolean;
   digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
   createdAt?: Date | string;
   updatedAt?: Date | string;
   accounts?: Prisma.AccountCreateNestedManyWithoutUserInput;
   sessions?: Prisma.SessionCreateNestedManyWithoutUserInput;
   subscription?: Prisma.SubscriptionCreateNestedOneWithoutUserInput;
-  emailToken?: Prisma.EmailTokenCreateNestedOneWithoutUserInput;
+  emailTokens?: Prisma.EmailTokenCreateNestedManyWithoutUserInput;
+  imapAccounts?: Prisma.ImapAccountCreateNestedManyWithoutUserInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenCreateNestedOneWithoutUserInput;
   mercadoLibreToken?: Prisma.MercadoLibreTokenCreateNestedOneWithoutUserInput;
   processedEmails?: Prisma.ProcessedEmailCreateNestedManyWithoutUserInput;
+  emailRules?: Prisma.EmailRuleCreateNestedManyWithoutUserInput;
   expenses?: Prisma.ExpenseCreateNestedManyWithoutUserInput;
+  budgets?: Prisma.BudgetCreateNestedManyWithoutUserInput;
+  recurringCharges?: Prisma.RecurringChargeCreateNestedManyWithoutUserInput;
+  categoryRules?: Prisma.CategoryRuleCreateNestedManyWithoutUserInput;
+  customCategories?: Prisma.CustomCategoryCreateNestedManyWithoutUserInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberCreateNestedManyWithoutUserInput;
+  expenseShares?: Prisma.ExpenseShareCreateNestedManyWithoutUserInput;
+  incomes?: Prisma.IncomeCreateNestedManyWithoutUserInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyCreateNestedManyWithoutUserInput;
+  settlementsPaid?: Prisma.GroupSettlementCreateNestedManyWithoutFromUserInput;
+  settlementsReceived?: Prisma.GroupSettlementCreateNestedManyWithoutToUserInput;
 };
 
 export type UserUncheckedCreateWithoutRemindersInput = {
@@ -1243,17 +2074,36 @@ export type UserUncheckedCreateWithoutRemindersInput = {
   role?: $Enums.UserRole;
   chatId?: string | null;
   locale?: string;
+  timezone?: string;
+  currency?: string;
   digestEnabled?: boolean;
   digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
   createdAt?: Date | string;
   updatedAt?: Date | string;
   accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput;
   sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput;
   subscription?: Prisma.SubscriptionUncheckedCreateNestedOneWithoutUserInput;
-  emailToken?: Prisma.EmailTokenUncheckedCreateNestedOneWithoutUserInput;
+  emailTokens?: Prisma.EmailTokenUncheckedCreateNestedManyWithoutUserInput;
+  imapAccounts?: Prisma.ImapAccountUncheckedCreateNestedManyWithoutUserInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUncheckedCreateNestedOneWithoutUserInput;
   mercadoLibreToken?: Prisma.MercadoLibreTokenUncheckedCreateNestedOneWithoutUserInput;
   processedEmails?: Prisma.ProcessedEmailUncheckedCreateNestedManyWithoutUserInput;
+  emailRules?: Prisma.EmailRuleUncheckedCreateNestedManyWithoutUserInput;
   expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput;
+  budgets?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput;
+  recurringCharges?: Prisma.RecurringChargeUncheckedCreateNestedManyWithoutUserInput;
+  categoryRules?: Prisma.CategoryRuleUncheckedCreateNestedManyWithoutUserInput;
+  customCategories?: Prisma.CustomCategoryUncheckedCreateNestedManyWithoutUserInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUncheckedCreateNestedManyWithoutUserInput;
+  expenseShares?: Prisma.ExpenseShareUncheckedCreateNestedManyWithoutUserInput;
+  incomes?: Prisma.IncomeUncheckedCreateNestedManyWithoutUserInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUncheckedCreateNestedManyWithoutUserInput;
+  settlementsPaid?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutFromUserInput;
+  settlementsReceived?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutToUserInput;
 };
 
 export type UserCreateOrConnectWithoutRemindersInput = {
@@ -1294,17 +2144,36 @@ export type UserUpdateWithoutRemindersInput = {
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
   chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
   digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
   digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput;
   sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput;
   subscription?: Prisma.SubscriptionUpdateOneWithoutUserNestedInput;
-  emailToken?: Prisma.EmailTokenUpdateOneWithoutUserNestedInput;
+  emailTokens?: Prisma.EmailTokenUpdateManyWithoutUserNestedInput;
+  imapAccounts?: Prisma.ImapAccountUpdateManyWithoutUserNestedInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUpdateOneWithoutUserNestedInput;
   mercadoLibreToken?: Prisma.MercadoLibreTokenUpdateOneWithoutUserNestedInput;
   processedEmails?: Prisma.ProcessedEmailUpdateManyWithoutUserNestedInput;
+  emailRules?: Prisma.EmailRuleUpdateManyWithoutUserNestedInput;
   expenses?: Prisma.ExpenseUpdateManyWithoutUserNestedInput;
+  budgets?: Prisma.BudgetUpdateManyWithoutUserNestedInput;
+  recurringCharges?: Prisma.RecurringChargeUpdateManyWithoutUserNestedInput;
+  categoryRules?: Prisma.CategoryRuleUpdateManyWithoutUserNestedInput;
+  customCategories?: Prisma.CustomCategoryUpdateManyWithoutUserNestedInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUpdateManyWithoutUserNestedInput;
+  expenseShares?: Prisma.ExpenseShareUpdateManyWithoutUserNestedInput;
+  incomes?: Prisma.IncomeUpdateManyWithoutUserNestedInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUpdateManyWithoutUserNestedInput;
+  settlementsPaid?: Prisma.GroupSettlementUpdateManyWithoutFromUserNestedInput;
+  settlementsReceived?: Prisma.GroupSettlementUpdateManyWithoutToUserNestedInput;
 };
 
 export type UserUncheckedUpdateWithoutRemindersInput = {
@@ -1317,20 +2186,39 @@ export type UserUncheckedUpdateWithoutRemindersInput = {
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
   chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
   digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
   digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput;
   sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput;
   subscription?: Prisma.SubscriptionUncheckedUpdateOneWithoutUserNestedInput;
-  emailToken?: Prisma.EmailTokenUncheckedUpdateOneWithoutUserNestedInput;
+  emailTokens?: Prisma.EmailTokenUncheckedUpdateManyWithoutUserNestedInput;
+  imapAccounts?: Prisma.ImapAccountUncheckedUpdateManyWithoutUserNestedInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUncheckedUpdateOneWithoutUserNestedInput;
   mercadoLibreToken?: Prisma.MercadoLibreTokenUncheckedUpdateOneWithoutUserNestedInput;
   processedEmails?: Prisma.ProcessedEmailUncheckedUpdateManyWithoutUserNestedInput;
+  emailRules?: Prisma.EmailRuleUncheckedUpdateManyWithoutUserNestedInput;
   expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput;
-};
-
-export type UserCreateWithoutEmailTokenInput = {
+  budgets?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput;
+  recurringCharges?: Prisma.RecurringChargeUncheckedUpdateManyWithoutUserNestedInput;
+  categoryRules?: Prisma.CategoryRuleUncheckedUpdateManyWithoutUserNestedInput;
+  customCategories?: Prisma.CustomCategoryUncheckedUpdateManyWithoutUserNestedInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUncheckedUpdateManyWithoutUserNestedInput;
+  expenseShares?: Prisma.ExpenseShareUncheckedUpdateManyWithoutUserNestedInput;
+  incomes?: Prisma.IncomeUncheckedUpdateManyWithoutUserNestedInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUncheckedUpdateManyWithoutUserNestedInput;
+  settlementsPaid?: Prisma.GroupSettlementUncheckedUpdateManyWithoutFromUserNestedInput;
+  settlementsReceived?: Prisma.GroupSettlementUncheckedUpdateManyWithoutToUserNestedInput;
+};
+
+export type UserCreateWithoutGoogleAuthTokenInput = {
   id?: string;
   email?: string | null;
   emailVerified?: Date | string | null;
@@ -1340,20 +2228,39 @@ export type UserCreateWithoutEmailTokenInput = {
   role?: $Enums.UserRole;
   chatId?: string | null;
   locale?: string;
+  timezone?: string;
+  currency?: string;
   digestEnabled?: boolean;
   digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
   createdAt?: Date | string;
   updatedAt?: Date | string;
   accounts?: Prisma.AccountCreateNestedManyWithoutUserInput;
   sessions?: Prisma.SessionCreateNestedManyWithoutUserInput;
   reminders?: Prisma.ReminderCreateNestedManyWithoutUserInput;
   subscription?: Prisma.SubscriptionCreateNestedOneWithoutUserInput;
+  emailTokens?: Prisma.EmailTokenCreateNestedManyWithoutUserInput;
+  imapAccounts?: Prisma.ImapAccountCreateNestedManyWithoutUserInput;
   mercadoLibreToken?: Prisma.MercadoLibreTokenCreateNestedOneWithoutUserInput;
   processedEmails?: Prisma.ProcessedEmailCreateNestedManyWithoutUserInput;
+  emailRules?: Prisma.EmailRuleCreateNestedManyWithoutUserInput;
   expenses?: Prisma.ExpenseCreateNestedManyWithoutUserInput;
-};
-
-export type UserUncheckedCreateWithoutEmailTokenInput = {
+  budgets?: Prisma.BudgetCreateNestedManyWithoutUserInput;
+  recurringCharges?: Prisma.RecurringChargeCreateNestedManyWithoutUserInput;
+  categoryRules?: Prisma.CategoryRuleCreateNestedManyWithoutUserInput;
+  customCategories?: Prisma.CustomCategoryCreateNestedManyWithoutUserInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberCreateNestedManyWithoutUserInput;
+  expenseShares?: Prisma.ExpenseShareCreateNestedManyWithoutUserInput;
+  incomes?: Prisma.IncomeCreateNestedManyWithoutUserInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyCreateNestedManyWithoutUserInput;
+  settlementsPaid?: Prisma.GroupSettlementCreateNestedManyWithoutFromUserInput;
+  settlementsReceived?: Prisma.GroupSettlementCreateNestedManyWithoutToUserInput;
+};
+
+export type UserUncheckedCreateWithoutGoogleAuthTokenInput = {
   id?: string;
   email?: string | null;
   emailVerified?: Date | string | null;
@@ -1363,48 +2270,67 @@ export type UserUncheckedCreateWithoutEmailTokenInput = {
   role?: $Enums.UserRole;
   chatId?: string | null;
   locale?: string;
+  timezone?: string;
+  currency?: string;
   digestEnabled?: boolean;
   digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
   createdAt?: Date | string;
   updatedAt?: Date | string;
   accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput;
   sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput;
   reminders?: Prisma.ReminderUncheckedCreateNestedManyWithoutUserInput;
   subscription?: Prisma.SubscriptionUncheckedCreateNestedOneWithoutUserInput;
+  emailTokens?: Prisma.EmailTokenUncheckedCreateNestedManyWithoutUserInput;
+  imapAccounts?: Prisma.ImapAccountUncheckedCreateNestedManyWithoutUserInput;
   mercadoLibreToken?: Prisma.MercadoLibreTokenUncheckedCreateNestedOneWithoutUserInput;
   processedEmails?: Prisma.ProcessedEmailUncheckedCreateNestedManyWithoutUserInput;
+  emailRules?: Prisma.EmailRuleUncheckedCreateNestedManyWithoutUserInput;
   expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput;
-};
-
-export type UserCreateOrConnectWithoutEmailTokenInput = {
+  budgets?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput;
+  recurringCharges?: Prisma.RecurringChargeUncheckedCreateNestedManyWithoutUserInput;
+  categoryRules?: Prisma.CategoryRuleUncheckedCreateNestedManyWithoutUserInput;
+  customCategories?: Prisma.CustomCategoryUncheckedCreateNestedManyWithoutUserInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUncheckedCreateNestedManyWithoutUserInput;
+  expenseShares?: Prisma.ExpenseShareUncheckedCreateNestedManyWithoutUserInput;
+  incomes?: Prisma.IncomeUncheckedCreateNestedManyWithoutUserInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUncheckedCreateNestedManyWithoutUserInput;
+  settlementsPaid?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutFromUserInput;
+  settlementsReceived?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutToUserInput;
+};
+
+export type UserCreateOrConnectWithoutGoogleAuthTokenInput = {
   where: Prisma.UserWhereUniqueInput;
   create: Prisma.XOR<
-    Prisma.UserCreateWithoutEmailTokenInput,
-    Prisma.UserUncheckedCreateWithoutEmailTokenInput
+    Prisma.UserCreateWithoutGoogleAuthTokenInput,
+    Prisma.UserUncheckedCreateWithoutGoogleAuthTokenInput
   >;
 };
 
-export type UserUpsertWithoutEmailTokenInput = {
+export type UserUpsertWithoutGoogleAuthTokenInput = {
   update: Prisma.XOR<
-    Prisma.UserUpdateWithoutEmailTokenInput,
-    Prisma.UserUncheckedUpdateWithoutEmailTokenInput
+    Prisma.UserUpdateWithoutGoogleAuthTokenInput,
+    Prisma.UserUncheckedUpdateWithoutGoogleAuthTokenInput
   >;
   create: Prisma.XOR<
-    Prisma.UserCreateWithoutEmailTokenInput,
-    Prisma.UserUncheckedCreateWithoutEmailTokenInput
+    Prisma.UserCreateWithoutGoogleAuthTokenInput,
+    Prisma.UserUncheckedCreateWithoutGoogleAuthTokenInput
   >;
   where?: Prisma.UserWhereInput;
 };
 
-export type UserUpdateToOneWithWhereWithoutEmailTokenInput = {
+export type UserUpdateToOneWithWhereWithoutGoogleAuthTokenInput = {
   where?: Prisma.UserWhereInput;
   data: Prisma.XOR<
-    Prisma.UserUpdateWithoutEmailTokenInput,
-    Prisma.UserUncheckedUpdateWithoutEmailTokenInput
+    Prisma.UserUpdateWithoutGoogleAuthTokenInput,
+    Prisma.UserUncheckedUpdateWithoutGoogleAuthTokenInput
   >;
 };
 
-export type UserUpdateWithoutEmailTokenInput = {
+export type UserUpdateWithoutGoogleAuthTokenInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   emailVerified?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
@@ -1414,20 +2340,39 @@ export type UserUpdateWithoutEmailTokenInput = {
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
   chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
   digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
   digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput;
   sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput;
   reminders?: Prisma.ReminderUpdateManyWithoutUserNestedInput;
   subscription?: Prisma.SubscriptionUpdateOneWithoutUserNestedInput;
+  emailTokens?: Prisma.EmailTokenUpdateManyWithoutUserNestedInput;
+  imapAccounts?: Prisma.ImapAccountUpdateManyWithoutUserNestedInput;
   mercadoLibreToken?: Prisma.MercadoLibreTokenUpdateOneWithoutUserNestedInput;
   processedEmails?: Prisma.ProcessedEmailUpdateManyWithoutUserNestedInput;
+  emailRules?: Prisma.EmailRuleUpdateManyWithoutUserNestedInput;
   expenses?: Prisma.ExpenseUpdateManyWithoutUserNestedInput;
-};
-
-export type UserUncheckedUpdateWithoutEmailTokenInput = {
+  budgets?: Prisma.BudgetUpdateManyWithoutUserNestedInput;
+  recurringCharges?: Prisma.RecurringChargeUpdateManyWithoutUserNestedInput;
+  categoryRules?: Prisma.CategoryRuleUpdateManyWithoutUserNestedInput;
+  customCategories?: Prisma.CustomCategoryUpdateManyWithoutUserNestedInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUpdateManyWithoutUserNestedInput;
+  expenseShares?: Prisma.ExpenseShareUpdateManyWithoutUserNestedInput;
+  incomes?: Prisma.IncomeUpdateManyWithoutUserNestedInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUpdateManyWithoutUserNestedInput;
+  settlementsPaid?: Prisma.GroupSettlementUpdateManyWithoutFromUserNestedInput;
+  settlementsReceived?: Prisma.GroupSettlementUpdateManyWithoutToUserNestedInput;
+};
+
+export type UserUncheckedUpdateWithoutGoogleAuthTokenInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   emailVerified?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
@@ -1437,20 +2382,39 @@ export type UserUncheckedUpdateWithoutEmailTokenInput = {
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
   chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
   digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
   digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput;
   sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput;
   reminders?: Prisma.ReminderUncheckedUpdateManyWithoutUserNestedInput;
   subscription?: Prisma.SubscriptionUncheckedUpdateOneWithoutUserNestedInput;
+  emailTokens?: Prisma.EmailTokenUncheckedUpdateManyWithoutUserNestedInput;
+  imapAccounts?: Prisma.ImapAccountUncheckedUpdateManyWithoutUserNestedInput;
   mercadoLibreToken?: Prisma.MercadoLibreTokenUncheckedUpdateOneWithoutUserNestedInput;
   processedEmails?: Prisma.ProcessedEmailUncheckedUpdateManyWithoutUserNestedInput;
+  emailRules?: Prisma.EmailRuleUncheckedUpdateManyWithoutUserNestedInput;
   expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput;
-};
-
-export type UserCreateWithoutMercadoLibreTokenInput = {
+  budgets?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput;
+  recurringCharges?: Prisma.RecurringChargeUncheckedUpdateManyWithoutUserNestedInput;
+  categoryRules?: Prisma.CategoryRuleUncheckedUpdateManyWithoutUserNestedInput;
+  customCategories?: Prisma.CustomCategoryUncheckedUpdateManyWithoutUserNestedInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUncheckedUpdateManyWithoutUserNestedInput;
+  expenseShares?: Prisma.ExpenseShareUncheckedUpdateManyWithoutUserNestedInput;
+  incomes?: Prisma.IncomeUncheckedUpdateManyWithoutUserNestedInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUncheckedUpdateManyWithoutUserNestedInput;
+  settlementsPaid?: Prisma.GroupSettlementUncheckedUpdateManyWithoutFromUserNestedInput;
+  settlementsReceived?: Prisma.GroupSettlementUncheckedUpdateManyWithoutToUserNestedInput;
+};
+
+export type UserCreateWithoutEmailTokensInput = {
   id?: string;
   email?: string | null;
   emailVerified?: Date | string | null;
@@ -1460,20 +2424,39 @@ export type UserCreateWithoutMercadoLibreTokenInput = {
   role?: $Enums.UserRole;
   chatId?: string | null;
   locale?: string;
+  timezone?: string;
+  currency?: string;
   digestEnabled?: boolean;
   digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
   createdAt?: Date | string;
   updatedAt?: Date | string;
   accounts?: Prisma.AccountCreateNestedManyWithoutUserInput;
   sessions?: Prisma.SessionCreateNestedManyWithoutUserInput;
   reminders?: Prisma.ReminderCreateNestedManyWithoutUserInput;
   subscription?: Prisma.SubscriptionCreateNestedOneWithoutUserInput;
-  emailToken?: Prisma.EmailTokenCreateNestedOneWithoutUserInput;
+  imapAccounts?: Prisma.ImapAccountCreateNestedManyWithoutUserInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenCreateNestedOneWithoutUserInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenCreateNestedOneWithoutUserInput;
   processedEmails?: Prisma.ProcessedEmailCreateNestedManyWithoutUserInput;
+  emailRules?: Prisma.EmailRuleCreateNestedManyWithoutUserInput;
   expenses?: Prisma.ExpenseCreateNestedManyWithoutUserInput;
-};
-
-export type UserUncheckedCreateWithoutMercadoLibreTokenInput = {
+  budgets?: Prisma.BudgetCreateNestedManyWithoutUserInput;
+  recurringCharges?: Prisma.RecurringChargeCreateNestedManyWithoutUserInput;
+  categoryRules?: Prisma.CategoryRuleCreateNestedManyWithoutUserInput;
+  customCategories?: Prisma.CustomCategoryCreateNestedManyWithoutUserInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberCreateNestedManyWithoutUserInput;
+  expenseShares?: Prisma.ExpenseShareCreateNestedManyWithoutUserInput;
+  incomes?: Prisma.IncomeCreateNestedManyWithoutUserInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyCreateNestedManyWithoutUserInput;
+  settlementsPaid?: Prisma.GroupSettlementCreateNestedManyWithoutFromUserInput;
+  settlementsReceived?: Prisma.GroupSettlementCreateNestedManyWithoutToUserInput;
+};
+
+export type UserUncheckedCreateWithoutEmailTokensInput = {
   id?: string;
   email?: string | null;
   emailVerified?: Date | string | null;
@@ -1483,48 +2466,67 @@ export type UserUncheckedCreateWithoutMercadoLibreTokenInput = {
   role?: $Enums.UserRole;
   chatId?: string | null;
   locale?: string;
+  timezone?: string;
+  currency?: string;
   digestEnabled?: boolean;
   digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
   createdAt?: Date | string;
   updatedAt?: Date | string;
   accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput;
   sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput;
   reminders?: Prisma.ReminderUncheckedCreateNestedManyWithoutUserInput;
   subscription?: Prisma.SubscriptionUncheckedCreateNestedOneWithoutUserInput;
-  emailToken?: Prisma.EmailTokenUncheckedCreateNestedOneWithoutUserInput;
+  imapAccounts?: Prisma.ImapAccountUncheckedCreateNestedManyWithoutUserInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUncheckedCreateNestedOneWithoutUserInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenUncheckedCreateNestedOneWithoutUserInput;
   processedEmails?: Prisma.ProcessedEmailUncheckedCreateNestedManyWithoutUserInput;
+  emailRules?: Prisma.EmailRuleUncheckedCreateNestedManyWithoutUserInput;
   expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput;
-};
-
-export type UserCreateOrConnectWithoutMercadoLibreTokenInput = {
+  budgets?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput;
+  recurringCharges?: Prisma.RecurringChargeUncheckedCreateNestedManyWithoutUserInput;
+  categoryRules?: Prisma.CategoryRuleUncheckedCreateNestedManyWithoutUserInput;
+  customCategories?: Prisma.CustomCategoryUncheckedCreateNestedManyWithoutUserInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUncheckedCreateNestedManyWithoutUserInput;
+  expenseShares?: Prisma.ExpenseShareUncheckedCreateNestedManyWithoutUserInput;
+  incomes?: Prisma.IncomeUncheckedCreateNestedManyWithoutUserInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUncheckedCreateNestedManyWithoutUserInput;
+  settlementsPaid?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutFromUserInput;
+  settlementsReceived?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutToUserInput;
+};
+
+export type UserCreateOrConnectWithoutEmailTokensInput = {
   where: Prisma.UserWhereUniqueInput;
   create: Prisma.XOR<
-    Prisma.UserCreateWithoutMercadoLibreTokenInput,
-    Prisma.UserUncheckedCreateWithoutMercadoLibreTokenInput
+    Prisma.UserCreateWithoutEmailTokensInput,
+    Prisma.UserUncheckedCreateWithoutEmailTokensInput
   >;
 };
 
-export type UserUpsertWithoutMercadoLibreTokenInput = {
+export type UserUpsertWithoutEmailTokensInput = {
   update: Prisma.XOR<
-    Prisma.UserUpdateWithoutMercadoLibreTokenInput,
-    Prisma.UserUncheckedUpdateWithoutMercadoLibreTokenInput
+    Prisma.UserUpdateWithoutEmailTokensInput,
+    Prisma.UserUncheckedUpdateWithoutEmailTokensInput
   >;
   create: Prisma.XOR<
-    Prisma.UserCreateWithoutMercadoLibreTokenInput,
-    Prisma.UserUncheckedCreateWithoutMercadoLibreTokenInput
+    Prisma.UserCreateWithoutEmailTokensInput,
+    Prisma.UserUncheckedCreateWithoutEmailTokensInput
   >;
   where?: Prisma.UserWhereInput;
 };
 
-export type UserUpdateToOneWithWhereWithoutMercadoLibreTokenInput = {
+export type UserUpdateToOneWithWhereWithoutEmailTokensInput = {
   where?: Prisma.UserWhereInput;
   data: Prisma.XOR<
-    Prisma.UserUpdateWithoutMercadoLibreTokenInput,
-    Prisma.UserUncheckedUpdateWithoutMercadoLibreTokenInput
+    Prisma.UserUpdateWithoutEmailTokensInput,
+    Prisma.UserUncheckedUpdateWithoutEmailTokensInput
   >;
 };
 
-export type UserUpdateWithoutMercadoLibreTokenInput = {
+export type UserUpdateWithoutEmailTokensInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   emailVerified?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
@@ -1534,20 +2536,39 @@ export type UserUpdateWithoutMercadoLibreTokenInput = {
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
   chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
   digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
   digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput;
   sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput;
   reminders?: Prisma.ReminderUpdateManyWithoutUserNestedInput;
   subscription?: Prisma.SubscriptionUpdateOneWithoutUserNestedInput;
-  emailToken?: Prisma.EmailTokenUpdateOneWithoutUserNestedInput;
+  imapAccounts?: Prisma.ImapAccountUpdateManyWithoutUserNestedInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUpdateOneWithoutUserNestedInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenUpdateOneWithoutUserNestedInput;
   processedEmails?: Prisma.ProcessedEmailUpdateManyWithoutUserNestedInput;
+  emailRules?: Prisma.EmailRuleUpdateManyWithoutUserNestedInput;
   expenses?: Prisma.ExpenseUpdateManyWithoutUserNestedInput;
-};
-
-export type UserUncheckedUpdateWithoutMercadoLibreTokenInput = {
+  budgets?: Prisma.BudgetUpdateManyWithoutUserNestedInput;
+  recurringCharges?: Prisma.RecurringChargeUpdateManyWithoutUserNestedInput;
+  categoryRules?: Prisma.CategoryRuleUpdateManyWithoutUserNestedInput;
+  customCategories?: Prisma.CustomCategoryUpdateManyWithoutUserNestedInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUpdateManyWithoutUserNestedInput;
+  expenseShares?: Prisma.ExpenseShareUpdateManyWithoutUserNestedInput;
+  incomes?: Prisma.IncomeUpdateManyWithoutUserNestedInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUpdateManyWithoutUserNestedInput;
+  settlementsPaid?: Prisma.GroupSettlementUpdateManyWithoutFromUserNestedInput;
+  settlementsReceived?: Prisma.GroupSettlementUpdateManyWithoutToUserNestedInput;
+};
+
+export type UserUncheckedUpdateWithoutEmailTokensInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   emailVerified?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
@@ -1557,20 +2578,39 @@ export type UserUncheckedUpdateWithoutMercadoLibreTokenInput = {
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
   chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
   digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
   digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput;
   sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput;
   reminders?: Prisma.ReminderUncheckedUpdateManyWithoutUserNestedInput;
   subscription?: Prisma.SubscriptionUncheckedUpdateOneWithoutUserNestedInput;
-  emailToken?: Prisma.EmailTokenUncheckedUpdateOneWithoutUserNestedInput;
+  imapAccounts?: Prisma.ImapAccountUncheckedUpdateManyWithoutUserNestedInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUncheckedUpdateOneWithoutUserNestedInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenUncheckedUpdateOneWithoutUserNestedInput;
   processedEmails?: Prisma.ProcessedEmailUncheckedUpdateManyWithoutUserNestedInput;
+  emailRules?: Prisma.EmailRuleUncheckedUpdateManyWithoutUserNestedInput;
   expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput;
-};
-
-export type UserCreateWithoutProcessedEmailsInput = {
+  budgets?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput;
+  recurringCharges?: Prisma.RecurringChargeUncheckedUpdateManyWithoutUserNestedInput;
+  categoryRules?: Prisma.CategoryRuleUncheckedUpdateManyWithoutUserNestedInput;
+  customCategories?: Prisma.CustomCategoryUncheckedUpdateManyWithoutUserNestedInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUncheckedUpdateManyWithoutUserNestedInput;
+  expenseShares?: Prisma.ExpenseShareUncheckedUpdateManyWithoutUserNestedInput;
+  incomes?: Prisma.IncomeUncheckedUpdateManyWithoutUserNestedInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUncheckedUpdateManyWithoutUserNestedInput;
+  settlementsPaid?: Prisma.GroupSettlementUncheckedUpdateManyWithoutFromUserNestedInput;
+  settlementsReceived?: Prisma.GroupSettlementUncheckedUpdateManyWithoutToUserNestedInput;
+};
+
+export type UserCreateWithoutImapAccountsInput = {
   id?: string;
   email?: string | null;
   emailVerified?: Date | string | null;
@@ -1580,20 +2620,39 @@ export type UserCreateWithoutProcessedEmailsInput = {
   role?: $Enums.UserRole;
   chatId?: string | null;
   locale?: string;
+  timezone?: string;
+  currency?: string;
   digestEnabled?: boolean;
   digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
   createdAt?: Date | string;
   updatedAt?: Date | string;
   accounts?: Prisma.AccountCreateNestedManyWithoutUserInput;
   sessions?: Prisma.SessionCreateNestedManyWithoutUserInput;
   reminders?: Prisma.ReminderCreateNestedManyWithoutUserInput;
   subscription?: Prisma.SubscriptionCreateNestedOneWithoutUserInput;
-  emailToken?: Prisma.EmailTokenCreateNestedOneWithoutUserInput;
+  emailTokens?: Prisma.EmailTokenCreateNestedManyWithoutUserInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenCreateNestedOneWithoutUserInput;
   mercadoLibreToken?: Prisma.MercadoLibreTokenCreateNestedOneWithoutUserInput;
+  processedEmails?: Prisma.ProcessedEmailCreateNestedManyWithoutUserInput;
+  emailRules?: Prisma.EmailRuleCreateNestedManyWithoutUserInput;
   expenses?: Prisma.ExpenseCreateNestedManyWithoutUserInput;
-};
-
-export type UserUncheckedCreateWithoutProcessedEmailsInput = {
+  budgets?: Prisma.BudgetCreateNestedManyWithoutUserInput;
+  recurringCharges?: Prisma.RecurringChargeCreateNestedManyWithoutUserInput;
+  categoryRules?: Prisma.CategoryRuleCreateNestedManyWithoutUserInput;
+  customCategories?: Prisma.CustomCategoryCreateNestedManyWithoutUserInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberCreateNestedManyWithoutUserInput;
+  expenseShares?: Prisma.ExpenseShareCreateNestedManyWithoutUserInput;
+  incomes?: Prisma.IncomeCreateNestedManyWithoutUserInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyCreateNestedManyWithoutUserInput;
+  settlementsPaid?: Prisma.GroupSettlementCreateNestedManyWithoutFromUserInput;
+  settlementsReceived?: Prisma.GroupSettlementCreateNestedManyWithoutToUserInput;
+};
+
+export type UserUncheckedCreateWithoutImapAccountsInput = {
   id?: string;
   email?: string | null;
   emailVerified?: Date | string | null;
@@ -1603,48 +2662,67 @@ export type UserUncheckedCreateWithoutProcessedEmailsInput = {
   role?: $Enums.UserRole;
   chatId?: string | null;
   locale?: string;
+  timezone?: string;
+  currency?: string;
   digestEnabled?: boolean;
   digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
   createdAt?: Date | string;
   updatedAt?: Date | string;
   accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput;
   sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput;
   reminders?: Prisma.ReminderUncheckedCreateNestedManyWithoutUserInput;
   subscription?: Prisma.SubscriptionUncheckedCreateNestedOneWithoutUserInput;
-  emailToken?: Prisma.EmailTokenUncheckedCreateNestedOneWithoutUserInput;
+  emailTokens?: Prisma.EmailTokenUncheckedCreateNestedManyWithoutUserInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUncheckedCreateNestedOneWithoutUserInput;
   mercadoLibreToken?: Prisma.MercadoLibreTokenUncheckedCreateNestedOneWithoutUserInput;
+  processedEmails?: Prisma.ProcessedEmailUncheckedCreateNestedManyWithoutUserInput;
+  emailRules?: Prisma.EmailRuleUncheckedCreateNestedManyWithoutUserInput;
   expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput;
-};
-
-export type UserCreateOrConnectWithoutProcessedEmailsInput = {
+  budgets?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput;
+  recurringCharges?: Prisma.RecurringChargeUncheckedCreateNestedManyWithoutUserInput;
+  categoryRules?: Prisma.CategoryRuleUncheckedCreateNestedManyWithoutUserInput;
+  customCategories?: Prisma.CustomCategoryUncheckedCreateNestedManyWithoutUserInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUncheckedCreateNestedManyWithoutUserInput;
+  expenseShares?: Prisma.ExpenseShareUncheckedCreateNestedManyWithoutUserInput;
+  incomes?: Prisma.IncomeUncheckedCreateNestedManyWithoutUserInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUncheckedCreateNestedManyWithoutUserInput;
+  settlementsPaid?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutFromUserInput;
+  settlementsReceived?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutToUserInput;
+};
+
+export type UserCreateOrConnectWithoutImapAccountsInput = {
   where: Prisma.UserWhereUniqueInput;
   create: Prisma.XOR<
-    Prisma.UserCreateWithoutProcessedEmailsInput,
-    Prisma.UserUncheckedCreateWithoutProcessedEmailsInput
+    Prisma.UserCreateWithoutImapAccountsInput,
+    Prisma.UserUncheckedCreateWithoutImapAccountsInput
   >;
 };
 
-export type UserUpsertWithoutProcessedEmailsInput = {
+export type UserUpsertWithoutImapAccountsInput = {
   update: Prisma.XOR<
-    Prisma.UserUpdateWithoutProcessedEmailsInput,
-    Prisma.UserUncheckedUpdateWithoutProcessedEmailsInput
+    Prisma.UserUpdateWithoutImapAccountsInput,
+    Prisma.UserUncheckedUpdateWithoutImapAccountsInput
   >;
   create: Prisma.XOR<
-    Prisma.UserCreateWithoutProcessedEmailsInput,
-    Prisma.UserUncheckedCreateWithoutProcessedEmailsInput
+    Prisma.UserCreateWithoutImapAccountsInput,
+    Prisma.UserUncheckedCreateWithoutImapAccountsInput
   >;
   where?: Prisma.UserWhereInput;
 };
 
-export type UserUpdateToOneWithWhereWithoutProcessedEmailsInput = {
+export type UserUpdateToOneWithWhereWithoutImapAccountsInput = {
   where?: Prisma.UserWhereInput;
   data: Prisma.XOR<
-    Prisma.UserUpdateWithoutProcessedEmailsInput,
-    Prisma.UserUncheckedUpdateWithoutProcessedEmailsInput
+    Prisma.UserUpdateWithoutImapAccountsInput,
+    Prisma.UserUncheckedUpdateWithoutImapAccountsInput
   >;
 };
 
-export type UserUpdateWithoutProcessedEmailsInput = {
+export type UserUpdateWithoutImapAccountsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   emailVerified?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
@@ -1654,20 +2732,39 @@ export type UserUpdateWithoutProcessedEmailsInput = {
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
   chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
   digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
   digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput;
   sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput;
   reminders?: Prisma.ReminderUpdateManyWithoutUserNestedInput;
   subscription?: Prisma.SubscriptionUpdateOneWithoutUserNestedInput;
-  emailToken?: Prisma.EmailTokenUpdateOneWithoutUserNestedInput;
+  emailTokens?: Prisma.EmailTokenUpdateManyWithoutUserNestedInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUpdateOneWithoutUserNestedInput;
   mercadoLibreToken?: Prisma.MercadoLibreTokenUpdateOneWithoutUserNestedInput;
+  processedEmails?: Prisma.ProcessedEmailUpdateManyWithoutUserNestedInput;
+  emailRules?: Prisma.EmailRuleUpdateManyWithoutUserNestedInput;
   expenses?: Prisma.ExpenseUpdateManyWithoutUserNestedInput;
-};
-
-export type UserUncheckedUpdateWithoutProcessedEmailsInput = {
+  budgets?: Prisma.BudgetUpdateManyWithoutUserNestedInput;
+  recurringCharges?: Prisma.RecurringChargeUpdateManyWithoutUserNestedInput;
+  categoryRules?: Prisma.CategoryRuleUpdateManyWithoutUserNestedInput;
+  customCategories?: Prisma.CustomCategoryUpdateManyWithoutUserNestedInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUpdateManyWithoutUserNestedInput;
+  expenseShares?: Prisma.ExpenseShareUpdateManyWithoutUserNestedInput;
+  incomes?: Prisma.IncomeUpdateManyWithoutUserNestedInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUpdateManyWithoutUserNestedInput;
+  settlementsPaid?: Prisma.GroupSettlementUpdateManyWithoutFromUserNestedInput;
+  settlementsReceived?: Prisma.GroupSettlementUpdateManyWithoutToUserNestedInput;
+};
+
+export type UserUncheckedUpdateWithoutImapAccountsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   emailVerified?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
@@ -1677,20 +2774,39 @@ export type UserUncheckedUpdateWithoutProcessedEmailsInput = {
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
   chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
   digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
   digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput;
   sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput;
   reminders?: Prisma.ReminderUncheckedUpdateManyWithoutUserNestedInput;
   subscription?: Prisma.SubscriptionUncheckedUpdateOneWithoutUserNestedInput;
-  emailToken?: Prisma.EmailTokenUncheckedUpdateOneWithoutUserNestedInput;
+  emailTokens?: Prisma.EmailTokenUncheckedUpdateManyWithoutUserNestedInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUncheckedUpdateOneWithoutUserNestedInput;
   mercadoLibreToken?: Prisma.MercadoLibreTokenUncheckedUpdateOneWithoutUserNestedInput;
+  processedEmails?: Prisma.ProcessedEmailUncheckedUpdateManyWithoutUserNestedInput;
+  emailRules?: Prisma.EmailRuleUncheckedUpdateManyWithoutUserNestedInput;
   expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput;
+  budgets?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput;
+  recurringCharges?: Prisma.RecurringChargeUncheckedUpdateManyWithoutUserNestedInput;
+  categoryRules?: Prisma.CategoryRuleUncheckedUpdateManyWithoutUserNestedInput;
+  customCategories?: Prisma.CustomCategoryUncheckedUpdateManyWithoutUserNestedInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUncheckedUpdateManyWithoutUserNestedInput;
+  expenseShares?: Prisma.ExpenseShareUncheckedUpdateManyWithoutUserNestedInput;
+  incomes?: Prisma.IncomeUncheckedUpdateManyWithoutUserNestedInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUncheckedUpdateManyWithoutUserNestedInput;
+  settlementsPaid?: Prisma.GroupSettlementUncheckedUpdateManyWithoutFromUserNestedInput;
+  settlementsReceived?: Prisma.GroupSettlementUncheckedUpdateManyWithoutToUserNestedInput;
 };
 
-export type UserCreateWithoutExpensesInput = {
+export type UserCreateWithoutMercadoLibreTokenInput = {
   id?: string;
   email?: string | null;
   emailVerified?: Date | string | null;
@@ -1700,20 +2816,39 @@ export type UserCreateWithoutExpensesInput = {
   role?: $Enums.UserRole;
   chatId?: string | null;
   locale?: string;
+  timezone?: string;
+  currency?: string;
   digestEnabled?: boolean;
   digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
   createdAt?: Date | string;
   updatedAt?: Date | string;
   accounts?: Prisma.AccountCreateNestedManyWithoutUserInput;
   sessions?: Prisma.SessionCreateNestedManyWithoutUserInput;
   reminders?: Prisma.ReminderCreateNestedManyWithoutUserInput;
   subscription?: Prisma.SubscriptionCreateNestedOneWithoutUserInput;
-  emailToken?: Prisma.EmailTokenCreateNestedOneWithoutUserInput;
-  mercadoLibreToken?: Prisma.MercadoLibreTokenCreateNestedOneWithoutUserInput;
+  emailTokens?: Prisma.EmailTokenCreateNestedManyWithoutUserInput;
+  imapAccounts?: Prisma.ImapAccountCreateNestedManyWithoutUserInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenCreateNestedOneWithoutUserInput;
   processedEmails?: Prisma.ProcessedEmailCreateNestedManyWithoutUserInput;
+  emailRules?: Prisma.EmailRuleCreateNestedManyWithoutUserInput;
+  expenses?: Prisma.ExpenseCreateNestedManyWithoutUserInput;
+  budgets?: Prisma.BudgetCreateNestedManyWithoutUserInput;
+  recurringCharges?: Prisma.RecurringChargeCreateNestedManyWithoutUserInput;
+  categoryRules?: Prisma.CategoryRuleCreateNestedManyWithoutUserInput;
+  customCategories?: Prisma.CustomCategoryCreateNestedManyWithoutUserInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberCreateNestedManyWithoutUserInput;
+  expenseShares?: Prisma.ExpenseShareCreateNestedManyWithoutUserInput;
+  incomes?: Prisma.IncomeCreateNestedManyWithoutUserInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyCreateNestedManyWithoutUserInput;
+  settlementsPaid?: Prisma.GroupSettlementCreateNestedManyWithoutFromUserInput;
+  settlementsReceived?: Prisma.GroupSettlementCreateNestedManyWithoutToUserInput;
 };
 
-export type UserUncheckedCreateWithoutExpensesInput = {
+export type UserUncheckedCreateWithoutMercadoLibreTokenInput = {
   id?: string;
   email?: string | null;
   emailVerified?: Date | string | null;
@@ -1723,48 +2858,2615 @@ export type UserUncheckedCreateWithoutExpensesInput = {
   role?: $Enums.UserRole;
   chatId?: string | null;
   locale?: string;
+  timezone?: string;
+  currency?: string;
   digestEnabled?: boolean;
   digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
   createdAt?: Date | string;
   updatedAt?: Date | string;
   accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput;
   sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput;
   reminders?: Prisma.ReminderUncheckedCreateNestedManyWithoutUserInput;
   subscription?: Prisma.SubscriptionUncheckedCreateNestedOneWithoutUserInput;
-  emailToken?: Prisma.EmailTokenUncheckedCreateNestedOneWithoutUserInput;
+  emailTokens?: Prisma.EmailTokenUncheckedCreateNestedManyWithoutUserInput;
+  imapAccounts?: Prisma.ImapAccountUncheckedCreateNestedManyWithoutUserInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUncheckedCreateNestedOneWithoutUserInput;
+  processedEmails?: Prisma.ProcessedEmailUncheckedCreateNestedManyWithoutUserInput;
+  emailRules?: Prisma.EmailRuleUncheckedCreateNestedManyWithoutUserInput;
+  expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput;
+  budgets?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput;
+  recurringCharges?: Prisma.RecurringChargeUncheckedCreateNestedManyWithoutUserInput;
+  categoryRules?: Prisma.CategoryRuleUncheckedCreateNestedManyWithoutUserInput;
+  customCategories?: Prisma.CustomCategoryUncheckedCreateNestedManyWithoutUserInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUncheckedCreateNestedManyWithoutUserInput;
+  expenseShares?: Prisma.ExpenseShareUncheckedCreateNestedManyWithoutUserInput;
+  incomes?: Prisma.IncomeUncheckedCreateNestedManyWithoutUserInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUncheckedCreateNestedManyWithoutUserInput;
+  settlementsPaid?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutFromUserInput;
+  settlementsReceived?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutToUserInput;
+};
+
+export type UserCreateOrConnectWithoutMercadoLibreTokenInput = {
+  where: Prisma.UserWhereUniqueInput;
+  create: Prisma.XOR<
+    Prisma.UserCreateWithoutMercadoLibreTokenInput,
+    Prisma.UserUncheckedCreateWithoutMercadoLibreTokenInput
+  >;
+};
+
+export type UserUpsertWithoutMercadoLibreTokenInput = {
+  update: Prisma.XOR<
+    Prisma.UserUpdateWithoutMercadoLibreTokenInput,
+    Prisma.UserUncheckedUpdateWithoutMercadoLibreTokenInput
+  >;
+  create: Prisma.XOR<
+    Prisma.UserCreateWithoutMercadoLibreTokenInput,
+    Prisma.UserUncheckedCreateWithoutMercadoLibreTokenInput
+  >;
+  where?: Prisma.UserWhereInput;
+};
+
+export type UserUpdateToOneWithWhereWithoutMercadoLibreTokenInput = {
+  where?: Prisma.UserWhereInput;
+  data: Prisma.XOR<
+    Prisma.UserUpdateWithoutMercadoLibreTokenInput,
+    Prisma.UserUncheckedUpdateWithoutMercadoLibreTokenInput
+  >;
+};
+
+export type UserUpdateWithoutMercadoLibreTokenInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  emailVerified?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
+  chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput;
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput;
+  reminders?: Prisma.ReminderUpdateManyWithoutUserNestedInput;
+  subscription?: Prisma.SubscriptionUpdateOneWithoutUserNestedInput;
+  emailTokens?: Prisma.EmailTokenUpdateManyWithoutUserNestedInput;
+  imapAccounts?: Prisma.ImapAccountUpdateManyWithoutUserNestedInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUpdateOneWithoutUserNestedInput;
+  processedEmails?: Prisma.ProcessedEmailUpdateManyWithoutUserNestedInput;
+  emailRules?: Prisma.EmailRuleUpdateManyWithoutUserNestedInput;
+  expenses?: Prisma.ExpenseUpdateManyWithoutUserNestedInput;
+  budgets?: Prisma.BudgetUpdateManyWithoutUserNestedInput;
+  recurringCharges?: Prisma.RecurringChargeUpdateManyWithoutUserNestedInput;
+  categoryRules?: Prisma.CategoryRuleUpdateManyWithoutUserNestedInput;
+  customCategories?: Prisma.CustomCategoryUpdateManyWithoutUserNestedInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUpdateManyWithoutUserNestedInput;
+  expenseShares?: Prisma.ExpenseShareUpdateManyWithoutUserNestedInput;
+  incomes?: Prisma.IncomeUpdateManyWithoutUserNestedInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUpdateManyWithoutUserNestedInput;
+  settlementsPaid?: Prisma.GroupSettlementUpdateManyWithoutFromUserNestedInput;
+  settlementsReceived?: Prisma.GroupSettlementUpdateManyWithoutToUserNestedInput;
+};
+
+export type UserUncheckedUpdateWithoutMercadoLibreTokenInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  emailVerified?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
+  chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput;
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput;
+  reminders?: Prisma.ReminderUncheckedUpdateManyWithoutUserNestedInput;
+  subscription?: Prisma.SubscriptionUncheckedUpdateOneWithoutUserNestedInput;
+  emailTokens?: Prisma.EmailTokenUncheckedUpdateManyWithoutUserNestedInput;
+  imapAccounts?: Prisma.ImapAccountUncheckedUpdateManyWithoutUserNestedInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUncheckedUpdateOneWithoutUserNestedInput;
+  processedEmails?: Prisma.ProcessedEmailUncheckedUpdateManyWithoutUserNestedInput;
+  emailRules?: Prisma.EmailRuleUncheckedUpdateManyWithoutUserNestedInput;
+  expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput;
+  budgets?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput;
+  recurringCharges?: Prisma.RecurringChargeUncheckedUpdateManyWithoutUserNestedInput;
+  categoryRules?: Prisma.CategoryRuleUncheckedUpdateManyWithoutUserNestedInput;
+  customCategories?: Prisma.CustomCategoryUncheckedUpdateManyWithoutUserNestedInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUncheckedUpdateManyWithoutUserNestedInput;
+  expenseShares?: Prisma.ExpenseShareUncheckedUpdateManyWithoutUserNestedInput;
+  incomes?: Prisma.IncomeUncheckedUpdateManyWithoutUserNestedInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUncheckedUpdateManyWithoutUserNestedInput;
+  settlementsPaid?: Prisma.GroupSettlementUncheckedUpdateManyWithoutFromUserNestedInput;
+  settlementsReceived?: Prisma.GroupSettlementUncheckedUpdateManyWithoutToUserNestedInput;
+};
+
+export type UserCreateWithoutProcessedEmailsInput = {
+  id?: string;
+  email?: string | null;
+  emailVerified?: Date | string | null;
+  passwordHash?: string | null;
+  name?: string | null;
+  image?: string | null;
+  role?: $Enums.UserRole;
+  chatId?: string | null;
+  locale?: string;
+  timezone?: string;
+  currency?: string;
+  digestEnabled?: boolean;
+  digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput;
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput;
+  reminders?: Prisma.ReminderCreateNestedManyWithoutUserInput;
+  subscription?: Prisma.SubscriptionCreateNestedOneWithoutUserInput;
+  emailTokens?: Prisma.EmailTokenCreateNestedManyWithoutUserInput;
+  imapAccounts?: Prisma.ImapAccountCreateNestedManyWithoutUserInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenCreateNestedOneWithoutUserInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenCreateNestedOneWithoutUserInput;
+  emailRules?: Prisma.EmailRuleCreateNestedManyWithoutUserInput;
+  expenses?: Prisma.ExpenseCreateNestedManyWithoutUserInput;
+  budgets?: Prisma.BudgetCreateNestedManyWithoutUserInput;
+  recurringCharges?: Prisma.RecurringChargeCreateNestedManyWithoutUserInput;
+  categoryRules?: Prisma.CategoryRuleCreateNestedManyWithoutUserInput;
+  customCategories?: Prisma.CustomCategoryCreateNestedManyWithoutUserInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberCreateNestedManyWithoutUserInput;
+  expenseShares?: Prisma.ExpenseShareCreateNestedManyWithoutUserInput;
+  incomes?: Prisma.IncomeCreateNestedManyWithoutUserInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyCreateNestedManyWithoutUserInput;
+  settlementsPaid?: Prisma.GroupSettlementCreateNestedManyWithoutFromUserInput;
+  settlementsReceived?: Prisma.GroupSettlementCreateNestedManyWithoutToUserInput;
+};
+
+export type UserUncheckedCreateWithoutProcessedEmailsInput = {
+  id?: string;
+  email?: string | null;
+  emailVerified?: Date | string | null;
+  passwordHash?: string | null;
+  name?: string | null;
+  image?: string | null;
+  role?: $Enums.UserRole;
+  chatId?: string | null;
+  locale?: string;
+  timezone?: string;
+  currency?: string;
+  digestEnabled?: boolean;
+  digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput;
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput;
+  reminders?: Prisma.ReminderUncheckedCreateNestedManyWithoutUserInput;
+  subscription?: Prisma.SubscriptionUncheckedCreateNestedOneWithoutUserInput;
+  emailTokens?: Prisma.EmailTokenUncheckedCreateNestedManyWithoutUserInput;
+  imapAccounts?: Prisma.ImapAccountUncheckedCreateNestedManyWithoutUserInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUncheckedCreateNestedOneWithoutUserInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenUncheckedCreateNestedOneWithoutUserInput;
+  emailRules?: Prisma.EmailRuleUncheckedCreateNestedManyWithoutUserInput;
+  expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput;
+  budgets?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput;
+  recurringCharges?: Prisma.RecurringChargeUncheckedCreateNestedManyWithoutUserInput;
+  categoryRules?: Prisma.CategoryRuleUncheckedCreateNestedManyWithoutUserInput;
+  customCategories?: Prisma.CustomCategoryUncheckedCreateNestedManyWithoutUserInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUncheckedCreateNestedManyWithoutUserInput;
+  expenseShares?: Prisma.ExpenseShareUncheckedCreateNestedManyWithoutUserInput;
+  incomes?: Prisma.IncomeUncheckedCreateNestedManyWithoutUserInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUncheckedCreateNestedManyWithoutUserInput;
+  settlementsPaid?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutFromUserInput;
+  settlementsReceived?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutToUserInput;
+};
+
+export type UserCreateOrConnectWithoutProcessedEmailsInput = {
+  where: Prisma.UserWhereUniqueInput;
+  create: Prisma.XOR<
+    Prisma.UserCreateWithoutProcessedEmailsInput,
+    Prisma.UserUncheckedCreateWithoutProcessedEmailsInput
+  >;
+};
+
+export type UserUpsertWithoutProcessedEmailsInput = {
+  update: Prisma.XOR<
+    Prisma.UserUpdateWithoutProcessedEmailsInput,
+    Prisma.UserUncheckedUpdateWithoutProcessedEmailsInput
+  >;
+  create: Prisma.XOR<
+    Prisma.UserCreateWithoutProcessedEmailsInput,
+    Prisma.UserUncheckedCreateWithoutProcessedEmailsInput
+  >;
+  where?: Prisma.UserWhereInput;
+};
+
+export type UserUpdateToOneWithWhereWithoutProcessedEmailsInput = {
+  where?: Prisma.UserWhereInput;
+  data: Prisma.XOR<
+    Prisma.UserUpdateWithoutProcessedEmailsInput,
+    Prisma.UserUncheckedUpdateWithoutProcessedEmailsInput
+  >;
+};
+
+export type UserUpdateWithoutProcessedEmailsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  emailVerified?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
+  chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput;
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput;
+  reminders?: Prisma.ReminderUpdateManyWithoutUserNestedInput;
+  subscription?: Prisma.SubscriptionUpdateOneWithoutUserNestedInput;
+  emailTokens?: Prisma.EmailTokenUpdateManyWithoutUserNestedInput;
+  imapAccounts?: Prisma.ImapAccountUpdateManyWithoutUserNestedInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUpdateOneWithoutUserNestedInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenUpdateOneWithoutUserNestedInput;
+  emailRules?: Prisma.EmailRuleUpdateManyWithoutUserNestedInput;
+  expenses?: Prisma.ExpenseUpdateManyWithoutUserNestedInput;
+  budgets?: Prisma.BudgetUpdateManyWithoutUserNestedInput;
+  recurringCharges?: Prisma.RecurringChargeUpdateManyWithoutUserNestedInput;
+  categoryRules?: Prisma.CategoryRuleUpdateManyWithoutUserNestedInput;
+  customCategories?: Prisma.CustomCategoryUpdateManyWithoutUserNestedInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUpdateManyWithoutUserNestedInput;
+  expenseShares?: Prisma.ExpenseShareUpdateManyWithoutUserNestedInput;
+  incomes?: Prisma.IncomeUpdateManyWithoutUserNestedInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUpdateManyWithoutUserNestedInput;
+  settlementsPaid?: Prisma.GroupSettlementUpdateManyWithoutFromUserNestedInput;
+  settlementsReceived?: Prisma.GroupSettlementUpdateManyWithoutToUserNestedInput;
+};
+
+export type UserUncheckedUpdateWithoutProcessedEmailsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  emailVerified?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
+  chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput;
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput;
+  reminders?: Prisma.ReminderUncheckedUpdateManyWithoutUserNestedInput;
+  subscription?: Prisma.SubscriptionUncheckedUpdateOneWithoutUserNestedInput;
+  emailTokens?: Prisma.EmailTokenUncheckedUpdateManyWithoutUserNestedInput;
+  imapAccounts?: Prisma.ImapAccountUncheckedUpdateManyWithoutUserNestedInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUncheckedUpdateOneWithoutUserNestedInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenUncheckedUpdateOneWithoutUserNestedInput;
+  emailRules?: Prisma.EmailRuleUncheckedUpdateManyWithoutUserNestedInput;
+  expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput;
+  budgets?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput;
+  recurringCharges?: Prisma.RecurringChargeUncheckedUpdateManyWithoutUserNestedInput;
+  categoryRules?: Prisma.CategoryRuleUncheckedUpdateManyWithoutUserNestedInput;
+  customCategories?: Prisma.CustomCategoryUncheckedUpdateManyWithoutUserNestedInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUncheckedUpdateManyWithoutUserNestedInput;
+  expenseShares?: Prisma.ExpenseShareUncheckedUpdateManyWithoutUserNestedInput;
+  incomes?: Prisma.IncomeUncheckedUpdateManyWithoutUserNestedInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUncheckedUpdateManyWithoutUserNestedInput;
+  settlementsPaid?: Prisma.GroupSettlementUncheckedUpdateManyWithoutFromUserNestedInput;
+  settlementsReceived?: Prisma.GroupSettlementUncheckedUpdateManyWithoutToUserNestedInput;
+};
+
+export type UserCreateWithoutExpensesInput = {
+  id?: string;
+  email?: string | null;
+  emailVerified?: Date | string | null;
+  passwordHash?: string | null;
+  name?: string | null;
+  image?: string | null;
+  role?: $Enums.UserRole;
+  chatId?: string | null;
+  locale?: string;
+  timezone?: string;
+  currency?: string;
+  digestEnabled?: boolean;
+  digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput;
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput;
+  reminders?: Prisma.ReminderCreateNestedManyWithoutUserInput;
+  subscription?: Prisma.SubscriptionCreateNestedOneWithoutUserInput;
+  emailTokens?: Prisma.EmailTokenCreateNestedManyWithoutUserInput;
+  imapAccounts?: Prisma.ImapAccountCreateNestedManyWithoutUserInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenCreateNestedOneWithoutUserInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenCreateNestedOneWithoutUserInput;
+  processedEmails?: Prisma.ProcessedEmailCreateNestedManyWithoutUserInput;
+  emailRules?: Prisma.EmailRuleCreateNestedManyWithoutUserInput;
+  budgets?: Prisma.BudgetCreateNestedManyWithoutUserInput;
+  recurringCharges?: Prisma.RecurringChargeCreateNestedManyWithoutUserInput;
+  categoryRules?: Prisma.CategoryRuleCreateNestedManyWithoutUserInput;
+  customCategories?: Prisma.CustomCategoryCreateNestedManyWithoutUserInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberCreateNestedManyWithoutUserInput;
+  expenseShares?: Prisma.ExpenseShareCreateNestedManyWithoutUserInput;
+  incomes?: Prisma.IncomeCreateNestedManyWithoutUserInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyCreateNestedManyWithoutUserInput;
+  settlementsPaid?: Prisma.GroupSettlementCreateNestedManyWithoutFromUserInput;
+  settlementsReceived?: Prisma.GroupSettlementCreateNestedManyWithoutToUserInput;
+};
+
+export type UserUncheckedCreateWithoutExpensesInput = {
+  id?: string;
+  email?: string | null;
+  emailVerified?: Date | string | null;
+  passwordHash?: string | null;
+  name?: string | null;
+  image?: string | null;
+  role?: $Enums.UserRole;
+  chatId?: string | null;
+  locale?: string;
+  timezone?: string;
+  currency?: string;
+  digestEnabled?: boolean;
+  digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput;
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput;
+  reminders?: Prisma.ReminderUncheckedCreateNestedManyWithoutUserInput;
+  subscription?: Prisma.SubscriptionUncheckedCreateNestedOneWithoutUserInput;
+  emailTokens?: Prisma.EmailTokenUncheckedCreateNestedManyWithoutUserInput;
+  imapAccounts?: Prisma.ImapAccountUncheckedCreateNestedManyWithoutUserInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUncheckedCreateNestedOneWithoutUserInput;
   mercadoLibreToken?: Prisma.MercadoLibreTokenUncheckedCreateNestedOneWithoutUserInput;
   processedEmails?: Prisma.ProcessedEmailUncheckedCreateNestedManyWithoutUserInput;
+  emailRules?: Prisma.EmailRuleUncheckedCreateNestedManyWithoutUserInput;
+  budgets?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput;
+  recurringCharges?: Prisma.RecurringChargeUncheckedCreateNestedManyWithoutUserInput;
+  categoryRules?: Prisma.CategoryRuleUncheckedCreateNestedManyWithoutUserInput;
+  customCategories?: Prisma.CustomCategoryUncheckedCreateNestedManyWithoutUserInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUncheckedCreateNestedManyWithoutUserInput;
+  expenseShares?: Prisma.ExpenseShareUncheckedCreateNestedManyWithoutUserInput;
+  incomes?: Prisma.IncomeUncheckedCreateNestedManyWithoutUserInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUncheckedCreateNestedManyWithoutUserInput;
+  settlementsPaid?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutFromUserInput;
+  settlementsReceived?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutToUserInput;
 };
 
 export type UserCreateOrConnectWithoutExpensesInput = {
   where: Prisma.UserWhereUniqueInput;
   create: Prisma.XOR<
-    Prisma.UserCreateWithoutExpensesInput,
-    Prisma.UserUncheckedCreateWithoutExpensesInput
+    Prisma.UserCreateWithoutExpensesInput,
+    Prisma.UserUncheckedCreateWithoutExpensesInput
+  >;
+};
+
+export type UserUpsertWithoutExpensesInput = {
+  update: Prisma.XOR<
+    Prisma.UserUpdateWithoutExpensesInput,
+    Prisma.UserUncheckedUpdateWithoutExpensesInput
+  >;
+  create: Prisma.XOR<
+    Prisma.UserCreateWithoutExpensesInput,
+    Prisma.UserUncheckedCreateWithoutExpensesInput
+  >;
+  where?: Prisma.UserWhereInput;
+};
+
+export type UserUpdateToOneWithWhereWithoutExpensesInput = {
+  where?: Prisma.UserWhereInput;
+  data: Prisma.XOR<
+    Prisma.UserUpdateWithoutExpensesInput,
+    Prisma.UserUncheckedUpdateWithoutExpensesInput
+  >;
+};
+
+export type UserUpdateWithoutExpensesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  emailVerified?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
+  chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput;
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput;
+  reminders?: Prisma.ReminderUpdateManyWithoutUserNestedInput;
+  subscription?: Prisma.SubscriptionUpdateOneWithoutUserNestedInput;
+  emailTokens?: Prisma.EmailTokenUpdateManyWithoutUserNestedInput;
+  imapAccounts?: Prisma.ImapAccountUpdateManyWithoutUserNestedInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUpdateOneWithoutUserNestedInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenUpdateOneWithoutUserNestedInput;
+  processedEmails?: Prisma.ProcessedEmailUpdateManyWithoutUserNestedInput;
+  emailRules?: Prisma.EmailRuleUpdateManyWithoutUserNestedInput;
+  budgets?: Prisma.BudgetUpdateManyWithoutUserNestedInput;
+  recurringCharges?: Prisma.RecurringChargeUpdateManyWithoutUserNestedInput;
+  categoryRules?: Prisma.CategoryRuleUpdateManyWithoutUserNestedInput;
+  customCategories?: Prisma.CustomCategoryUpdateManyWithoutUserNestedInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUpdateManyWithoutUserNestedInput;
+  expenseShares?: Prisma.ExpenseShareUpdateManyWithoutUserNestedInput;
+  incomes?: Prisma.IncomeUpdateManyWithoutUserNestedInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUpdateManyWithoutUserNestedInput;
+  settlementsPaid?: Prisma.GroupSettlementUpdateManyWithoutFromUserNestedInput;
+  settlementsReceived?: Prisma.GroupSettlementUpdateManyWithoutToUserNestedInput;
+};
+
+export type UserUncheckedUpdateWithoutExpensesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  emailVerified?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
+  chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput;
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput;
+  reminders?: Prisma.ReminderUncheckedUpdateManyWithoutUserNestedInput;
+  subscription?: Prisma.SubscriptionUncheckedUpdateOneWithoutUserNestedInput;
+  emailTokens?: Prisma.EmailTokenUncheckedUpdateManyWithoutUserNestedInput;
+  imapAccounts?: Prisma.ImapAccountUncheckedUpdateManyWithoutUserNestedInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUncheckedUpdateOneWithoutUserNestedInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenUncheckedUpdateOneWithoutUserNestedInput;
+  processedEmails?: Prisma.ProcessedEmailUncheckedUpdateManyWithoutUserNestedInput;
+  emailRules?: Prisma.EmailRuleUncheckedUpdateManyWithoutUserNestedInput;
+  budgets?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput;
+  recurringCharges?: Prisma.RecurringChargeUncheckedUpdateManyWithoutUserNestedInput;
+  categoryRules?: Prisma.CategoryRuleUncheckedUpdateManyWithoutUserNestedInput;
+  customCategories?: Prisma.CustomCategoryUncheckedUpdateManyWithoutUserNestedInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUncheckedUpdateManyWithoutUserNestedInput;
+  expenseShares?: Prisma.ExpenseShareUncheckedUpdateManyWithoutUserNestedInput;
+  incomes?: Prisma.IncomeUncheckedUpdateManyWithoutUserNestedInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUncheckedUpdateManyWithoutUserNestedInput;
+  settlementsPaid?: Prisma.GroupSettlementUncheckedUpdateManyWithoutFromUserNestedInput;
+  settlementsReceived?: Prisma.GroupSettlementUncheckedUpdateManyWithoutToUserNestedInput;
+};
+
+export type UserCreateWithoutExpenseAnomaliesInput = {
+  id?: string;
+  email?: string | null;
+  emailVerified?: Date | string | null;
+  passwordHash?: string | null;
+  name?: string | null;
+  image?: string | null;
+  role?: $Enums.UserRole;
+  chatId?: string | null;
+  locale?: string;
+  timezone?: string;
+  currency?: string;
+  digestEnabled?: boolean;
+  digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput;
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput;
+  reminders?: Prisma.ReminderCreateNestedManyWithoutUserInput;
+  subscription?: Prisma.SubscriptionCreateNestedOneWithoutUserInput;
+  emailTokens?: Prisma.EmailTokenCreateNestedManyWithoutUserInput;
+  imapAccounts?: Prisma.ImapAccountCreateNestedManyWithoutUserInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenCreateNestedOneWithoutUserInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenCreateNestedOneWithoutUserInput;
+  processedEmails?: Prisma.ProcessedEmailCreateNestedManyWithoutUserInput;
+  emailRules?: Prisma.EmailRuleCreateNestedManyWithoutUserInput;
+  expenses?: Prisma.ExpenseCreateNestedManyWithoutUserInput;
+  budgets?: Prisma.BudgetCreateNestedManyWithoutUserInput;
+  recurringCharges?: Prisma.RecurringChargeCreateNestedManyWithoutUserInput;
+  categoryRules?: Prisma.CategoryRuleCreateNestedManyWithoutUserInput;
+  customCategories?: Prisma.CustomCategoryCreateNestedManyWithoutUserInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberCreateNestedManyWithoutUserInput;
+  expenseShares?: Prisma.ExpenseShareCreateNestedManyWithoutUserInput;
+  incomes?: Prisma.IncomeCreateNestedManyWithoutUserInput;
+  settlementsPaid?: Prisma.GroupSettlementCreateNestedManyWithoutFromUserInput;
+  settlementsReceived?: Prisma.GroupSettlementCreateNestedManyWithoutToUserInput;
+};
+
+export type UserUncheckedCreateWithoutExpenseAnomaliesInput = {
+  id?: string;
+  email?: string | null;
+  emailVerified?: Date | string | null;
+  passwordHash?: string | null;
+  name?: string | null;
+  image?: string | null;
+  role?: $Enums.UserRole;
+  chatId?: string | null;
+  locale?: string;
+  timezone?: string;
+  currency?: string;
+  digestEnabled?: boolean;
+  digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput;
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput;
+  reminders?: Prisma.ReminderUncheckedCreateNestedManyWithoutUserInput;
+  subscription?: Prisma.SubscriptionUncheckedCreateNestedOneWithoutUserInput;
+  emailTokens?: Prisma.EmailTokenUncheckedCreateNestedManyWithoutUserInput;
+  imapAccounts?: Prisma.ImapAccountUncheckedCreateNestedManyWithoutUserInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUncheckedCreateNestedOneWithoutUserInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenUncheckedCreateNestedOneWithoutUserInput;
+  processedEmails?: Prisma.ProcessedEmailUncheckedCreateNestedManyWithoutUserInput;
+  emailRules?: Prisma.EmailRuleUncheckedCreateNestedManyWithoutUserInput;
+  expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput;
+  budgets?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput;
+  recurringCharges?: Prisma.RecurringChargeUncheckedCreateNestedManyWithoutUserInput;
+  categoryRules?: Prisma.CategoryRuleUncheckedCreateNestedManyWithoutUserInput;
+  customCategories?: Prisma.CustomCategoryUncheckedCreateNestedManyWithoutUserInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUncheckedCreateNestedManyWithoutUserInput;
+  expenseShares?: Prisma.ExpenseShareUncheckedCreateNestedManyWithoutUserInput;
+  incomes?: Prisma.IncomeUncheckedCreateNestedManyWithoutUserInput;
+  settlementsPaid?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutFromUserInput;
+  settlementsReceived?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutToUserInput;
+};
+
+export type UserCreateOrConnectWithoutExpenseAnomaliesInput = {
+  where: Prisma.UserWhereUniqueInput;
+  create: Prisma.XOR<
+    Prisma.UserCreateWithoutExpenseAnomaliesInput,
+    Prisma.UserUncheckedCreateWithoutExpenseAnomaliesInput
+  >;
+};
+
+export type UserUpsertWithoutExpenseAnomaliesInput = {
+  update: Prisma.XOR<
+    Prisma.UserUpdateWithoutExpenseAnomaliesInput,
+    Prisma.UserUncheckedUpdateWithoutExpenseAnomaliesInput
+  >;
+  create: Prisma.XOR<
+    Prisma.UserCreateWithoutExpenseAnomaliesInput,
+    Prisma.UserUncheckedCreateWithoutExpenseAnomaliesInput
+  >;
+  where?: Prisma.UserWhereInput;
+};
+
+export type UserUpdateToOneWithWhereWithoutExpenseAnomaliesInput = {
+  where?: Prisma.UserWhereInput;
+  data: Prisma.XOR<
+    Prisma.UserUpdateWithoutExpenseAnomaliesInput,
+    Prisma.UserUncheckedUpdateWithoutExpenseAnomaliesInput
+  >;
+};
+
+export type UserUpdateWithoutExpenseAnomaliesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  emailVerified?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
+  chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput;
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput;
+  reminders?: Prisma.ReminderUpdateManyWithoutUserNestedInput;
+  subscription?: Prisma.SubscriptionUpdateOneWithoutUserNestedInput;
+  emailTokens?: Prisma.EmailTokenUpdateManyWithoutUserNestedInput;
+  imapAccounts?: Prisma.ImapAccountUpdateManyWithoutUserNestedInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUpdateOneWithoutUserNestedInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenUpdateOneWithoutUserNestedInput;
+  processedEmails?: Prisma.ProcessedEmailUpdateManyWithoutUserNestedInput;
+  emailRules?: Prisma.EmailRuleUpdateManyWithoutUserNestedInput;
+  expenses?: Prisma.ExpenseUpdateManyWithoutUserNestedInput;
+  budgets?: Prisma.BudgetUpdateManyWithoutUserNestedInput;
+  recurringCharges?: Prisma.RecurringChargeUpdateManyWithoutUserNestedInput;
+  categoryRules?: Prisma.CategoryRuleUpdateManyWithoutUserNestedInput;
+  customCategories?: Prisma.CustomCategoryUpdateManyWithoutUserNestedInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUpdateManyWithoutUserNestedInput;
+  expenseShares?: Prisma.ExpenseShareUpdateManyWithoutUserNestedInput;
+  incomes?: Prisma.IncomeUpdateManyWithoutUserNestedInput;
+  settlementsPaid?: Prisma.GroupSettlementUpdateManyWithoutFromUserNestedInput;
+  settlementsReceived?: Prisma.GroupSettlementUpdateManyWithoutToUserNestedInput;
+};
+
+export type UserUncheckedUpdateWithoutExpenseAnomaliesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  emailVerified?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
+  chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput;
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput;
+  reminders?: Prisma.ReminderUncheckedUpdateManyWithoutUserNestedInput;
+  subscription?: Prisma.SubscriptionUncheckedUpdateOneWithoutUserNestedInput;
+  emailTokens?: Prisma.EmailTokenUncheckedUpdateManyWithoutUserNestedInput;
+  imapAccounts?: Prisma.ImapAccountUncheckedUpdateManyWithoutUserNestedInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUncheckedUpdateOneWithoutUserNestedInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenUncheckedUpdateOneWithoutUserNestedInput;
+  processedEmails?: Prisma.ProcessedEmailUncheckedUpdateManyWithoutUserNestedInput;
+  emailRules?: Prisma.EmailRuleUncheckedUpdateManyWithoutUserNestedInput;
+  expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput;
+  budgets?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput;
+  recurringCharges?: Prisma.RecurringChargeUncheckedUpdateManyWithoutUserNestedInput;
+  categoryRules?: Prisma.CategoryRuleUncheckedUpdateManyWithoutUserNestedInput;
+  customCategories?: Prisma.CustomCategoryUncheckedUpdateManyWithoutUserNestedInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUncheckedUpdateManyWithoutUserNestedInput;
+  expenseShares?: Prisma.ExpenseShareUncheckedUpdateManyWithoutUserNestedInput;
+  incomes?: Prisma.IncomeUncheckedUpdateManyWithoutUserNestedInput;
+  settlementsPaid?: Prisma.GroupSettlementUncheckedUpdateManyWithoutFromUserNestedInput;
+  settlementsReceived?: Prisma.GroupSettlementUncheckedUpdateManyWithoutToUserNestedInput;
+};
+
+export type UserCreateWithoutIncomesInput = {
+  id?: string;
+  email?: string | null;
+  emailVerified?: Date | string | null;
+  passwordHash?: string | null;
+  name?: string | null;
+  image?: string | null;
+  role?: $Enums.UserRole;
+  chatId?: string | null;
+  locale?: string;
+  timezone?: string;
+  currency?: string;
+  digestEnabled?: boolean;
+  digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput;
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput;
+  reminders?: Prisma.ReminderCreateNestedManyWithoutUserInput;
+  subscription?: Prisma.SubscriptionCreateNestedOneWithoutUserInput;
+  emailTokens?: Prisma.EmailTokenCreateNestedManyWithoutUserInput;
+  imapAccounts?: Prisma.ImapAccountCreateNestedManyWithoutUserInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenCreateNestedOneWithoutUserInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenCreateNestedOneWithoutUserInput;
+  processedEmails?: Prisma.ProcessedEmailCreateNestedManyWithoutUserInput;
+  emailRules?: Prisma.EmailRuleCreateNestedManyWithoutUserInput;
+  expenses?: Prisma.ExpenseCreateNestedManyWithoutUserInput;
+  budgets?: Prisma.BudgetCreateNestedManyWithoutUserInput;
+  recurringCharges?: Prisma.RecurringChargeCreateNestedManyWithoutUserInput;
+  categoryRules?: Prisma.CategoryRuleCreateNestedManyWithoutUserInput;
+  customCategories?: Prisma.CustomCategoryCreateNestedManyWithoutUserInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberCreateNestedManyWithoutUserInput;
+  expenseShares?: Prisma.ExpenseShareCreateNestedManyWithoutUserInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyCreateNestedManyWithoutUserInput;
+  settlementsPaid?: Prisma.GroupSettlementCreateNestedManyWithoutFromUserInput;
+  settlementsReceived?: Prisma.GroupSettlementCreateNestedManyWithoutToUserInput;
+};
+
+export type UserUncheckedCreateWithoutIncomesInput = {
+  id?: string;
+  email?: string | null;
+  emailVerified?: Date | string | null;
+  passwordHash?: string | null;
+  name?: string | null;
+  image?: string | null;
+  role?: $Enums.UserRole;
+  chatId?: string | null;
+  locale?: string;
+  timezone?: string;
+  currency?: string;
+  digestEnabled?: boolean;
+  digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput;
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput;
+  reminders?: Prisma.ReminderUncheckedCreateNestedManyWithoutUserInput;
+  subscription?: Prisma.SubscriptionUncheckedCreateNestedOneWithoutUserInput;
+  emailTokens?: Prisma.EmailTokenUncheckedCreateNestedManyWithoutUserInput;
+  imapAccounts?: Prisma.ImapAccountUncheckedCreateNestedManyWithoutUserInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUncheckedCreateNestedOneWithoutUserInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenUncheckedCreateNestedOneWithoutUserInput;
+  processedEmails?: Prisma.ProcessedEmailUncheckedCreateNestedManyWithoutUserInput;
+  emailRules?: Prisma.EmailRuleUncheckedCreateNestedManyWithoutUserInput;
+  expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput;
+  budgets?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput;
+  recurringCharges?: Prisma.RecurringChargeUncheckedCreateNestedManyWithoutUserInput;
+  categoryRules?: Prisma.CategoryRuleUncheckedCreateNestedManyWithoutUserInput;
+  customCategories?: Prisma.CustomCategoryUncheckedCreateNestedManyWithoutUserInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUncheckedCreateNestedManyWithoutUserInput;
+  expenseShares?: Prisma.ExpenseShareUncheckedCreateNestedManyWithoutUserInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUncheckedCreateNestedManyWithoutUserInput;
+  settlementsPaid?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutFromUserInput;
+  settlementsReceived?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutToUserInput;
+};
+
+export type UserCreateOrConnectWithoutIncomesInput = {
+  where: Prisma.UserWhereUniqueInput;
+  create: Prisma.XOR<
+    Prisma.UserCreateWithoutIncomesInput,
+    Prisma.UserUncheckedCreateWithoutIncomesInput
+  >;
+};
+
+export type UserUpsertWithoutIncomesInput = {
+  update: Prisma.XOR<
+    Prisma.UserUpdateWithoutIncomesInput,
+    Prisma.UserUncheckedUpdateWithoutIncomesInput
+  >;
+  create: Prisma.XOR<
+    Prisma.UserCreateWithoutIncomesInput,
+    Prisma.UserUncheckedCreateWithoutIncomesInput
+  >;
+  where?: Prisma.UserWhereInput;
+};
+
+export type UserUpdateToOneWithWhereWithoutIncomesInput = {
+  where?: Prisma.UserWhereInput;
+  data: Prisma.XOR<
+    Prisma.UserUpdateWithoutIncomesInput,
+    Prisma.UserUncheckedUpdateWithoutIncomesInput
+  >;
+};
+
+export type UserUpdateWithoutIncomesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  emailVerified?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
+  chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput;
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput;
+  reminders?: Prisma.ReminderUpdateManyWithoutUserNestedInput;
+  subscription?: Prisma.SubscriptionUpdateOneWithoutUserNestedInput;
+  emailTokens?: Prisma.EmailTokenUpdateManyWithoutUserNestedInput;
+  imapAccounts?: Prisma.ImapAccountUpdateManyWithoutUserNestedInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUpdateOneWithoutUserNestedInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenUpdateOneWithoutUserNestedInput;
+  processedEmails?: Prisma.ProcessedEmailUpdateManyWithoutUserNestedInput;
+  emailRules?: Prisma.EmailRuleUpdateManyWithoutUserNestedInput;
+  expenses?: Prisma.ExpenseUpdateManyWithoutUserNestedInput;
+  budgets?: Prisma.BudgetUpdateManyWithoutUserNestedInput;
+  recurringCharges?: Prisma.RecurringChargeUpdateManyWithoutUserNestedInput;
+  categoryRules?: Prisma.CategoryRuleUpdateManyWithoutUserNestedInput;
+  customCategories?: Prisma.CustomCategoryUpdateManyWithoutUserNestedInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUpdateManyWithoutUserNestedInput;
+  expenseShares?: Prisma.ExpenseShareUpdateManyWithoutUserNestedInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUpdateManyWithoutUserNestedInput;
+  settlementsPaid?: Prisma.GroupSettlementUpdateManyWithoutFromUserNestedInput;
+  settlementsReceived?: Prisma.GroupSettlementUpdateManyWithoutToUserNestedInput;
+};
+
+export type UserUncheckedUpdateWithoutIncomesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  emailVerified?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
+  chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput;
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput;
+  reminders?: Prisma.ReminderUncheckedUpdateManyWithoutUserNestedInput;
+  subscription?: Prisma.SubscriptionUncheckedUpdateOneWithoutUserNestedInput;
+  emailTokens?: Prisma.EmailTokenUncheckedUpdateManyWithoutUserNestedInput;
+  imapAccounts?: Prisma.ImapAccountUncheckedUpdateManyWithoutUserNestedInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUncheckedUpdateOneWithoutUserNestedInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenUncheckedUpdateOneWithoutUserNestedInput;
+  processedEmails?: Prisma.ProcessedEmailUncheckedUpdateManyWithoutUserNestedInput;
+  emailRules?: Prisma.EmailRuleUncheckedUpdateManyWithoutUserNestedInput;
+  expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput;
+  budgets?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput;
+  recurringCharges?: Prisma.RecurringChargeUncheckedUpdateManyWithoutUserNestedInput;
+  categoryRules?: Prisma.CategoryRuleUncheckedUpdateManyWithoutUserNestedInput;
+  customCategories?: Prisma.CustomCategoryUncheckedUpdateManyWithoutUserNestedInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUncheckedUpdateManyWithoutUserNestedInput;
+  expenseShares?: Prisma.ExpenseShareUncheckedUpdateManyWithoutUserNestedInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUncheckedUpdateManyWithoutUserNestedInput;
+  settlementsPaid?: Prisma.GroupSettlementUncheckedUpdateManyWithoutFromUserNestedInput;
+  settlementsReceived?: Prisma.GroupSettlementUncheckedUpdateManyWithoutToUserNestedInput;
+};
+
+export type UserCreateWithoutCustomCategoriesInput = {
+  id?: string;
+  email?: string | null;
+  emailVerified?: Date | string | null;
+  passwordHash?: string | null;
+  name?: string | null;
+  image?: string | null;
+  role?: $Enums.UserRole;
+  chatId?: string | null;
+  locale?: string;
+  timezone?: string;
+  currency?: string;
+  digestEnabled?: boolean;
+  digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput;
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput;
+  reminders?: Prisma.ReminderCreateNestedManyWithoutUserInput;
+  subscription?: Prisma.SubscriptionCreateNestedOneWithoutUserInput;
+  emailTokens?: Prisma.EmailTokenCreateNestedManyWithoutUserInput;
+  imapAccounts?: Prisma.ImapAccountCreateNestedManyWithoutUserInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenCreateNestedOneWithoutUserInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenCreateNestedOneWithoutUserInput;
+  processedEmails?: Prisma.ProcessedEmailCreateNestedManyWithoutUserInput;
+  emailRules?: Prisma.EmailRuleCreateNestedManyWithoutUserInput;
+  expenses?: Prisma.ExpenseCreateNestedManyWithoutUserInput;
+  budgets?: Prisma.BudgetCreateNestedManyWithoutUserInput;
+  recurringCharges?: Prisma.RecurringChargeCreateNestedManyWithoutUserInput;
+  categoryRules?: Prisma.CategoryRuleCreateNestedManyWithoutUserInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberCreateNestedManyWithoutUserInput;
+  expenseShares?: Prisma.ExpenseShareCreateNestedManyWithoutUserInput;
+  incomes?: Prisma.IncomeCreateNestedManyWithoutUserInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyCreateNestedManyWithoutUserInput;
+  settlementsPaid?: Prisma.GroupSettlementCreateNestedManyWithoutFromUserInput;
+  settlementsReceived?: Prisma.GroupSettlementCreateNestedManyWithoutToUserInput;
+};
+
+export type UserUncheckedCreateWithoutCustomCategoriesInput = {
+  id?: string;
+  email?: string | null;
+  emailVerified?: Date | string | null;
+  passwordHash?: string | null;
+  name?: string | null;
+  image?: string | null;
+  role?: $Enums.UserRole;
+  chatId?: string | null;
+  locale?: string;
+  timezone?: string;
+  currency?: string;
+  digestEnabled?: boolean;
+  digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput;
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput;
+  reminders?: Prisma.ReminderUncheckedCreateNestedManyWithoutUserInput;
+  subscription?: Prisma.SubscriptionUncheckedCreateNestedOneWithoutUserInput;
+  emailTokens?: Prisma.EmailTokenUncheckedCreateNestedManyWithoutUserInput;
+  imapAccounts?: Prisma.ImapAccountUncheckedCreateNestedManyWithoutUserInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUncheckedCreateNestedOneWithoutUserInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenUncheckedCreateNestedOneWithoutUserInput;
+  processedEmails?: Prisma.ProcessedEmailUncheckedCreateNestedManyWithoutUserInput;
+  emailRules?: Prisma.EmailRuleUncheckedCreateNestedManyWithoutUserInput;
+  expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput;
+  budgets?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput;
+  recurringCharges?: Prisma.RecurringChargeUncheckedCreateNestedManyWithoutUserInput;
+  categoryRules?: Prisma.CategoryRuleUncheckedCreateNestedManyWithoutUserInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUncheckedCreateNestedManyWithoutUserInput;
+  expenseShares?: Prisma.ExpenseShareUncheckedCreateNestedManyWithoutUserInput;
+  incomes?: Prisma.IncomeUncheckedCreateNestedManyWithoutUserInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUncheckedCreateNestedManyWithoutUserInput;
+  settlementsPaid?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutFromUserInput;
+  settlementsReceived?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutToUserInput;
+};
+
+export type UserCreateOrConnectWithoutCustomCategoriesInput = {
+  where: Prisma.UserWhereUniqueInput;
+  create: Prisma.XOR<
+    Prisma.UserCreateWithoutCustomCategoriesInput,
+    Prisma.UserUncheckedCreateWithoutCustomCategoriesInput
+  >;
+};
+
+export type UserUpsertWithoutCustomCategoriesInput = {
+  update: Prisma.XOR<
+    Prisma.UserUpdateWithoutCustomCategoriesInput,
+    Prisma.UserUncheckedUpdateWithoutCustomCategoriesInput
+  >;
+  create: Prisma.XOR<
+    Prisma.UserCreateWithoutCustomCategoriesInput,
+    Prisma.UserUncheckedCreateWithoutCustomCategoriesInput
+  >;
+  where?: Prisma.UserWhereInput;
+};
+
+export type UserUpdateToOneWithWhereWithoutCustomCategoriesInput = {
+  where?: Prisma.UserWhereInput;
+  data: Prisma.XOR<
+    Prisma.UserUpdateWithoutCustomCategoriesInput,
+    Prisma.UserUncheckedUpdateWithoutCustomCategoriesInput
+  >;
+};
+
+export type UserUpdateWithoutCustomCategoriesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  emailVerified?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
+  chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput;
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput;
+  reminders?: Prisma.ReminderUpdateManyWithoutUserNestedInput;
+  subscription?: Prisma.SubscriptionUpdateOneWithoutUserNestedInput;
+  emailTokens?: Prisma.EmailTokenUpdateManyWithoutUserNestedInput;
+  imapAccounts?: Prisma.ImapAccountUpdateManyWithoutUserNestedInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUpdateOneWithoutUserNestedInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenUpdateOneWithoutUserNestedInput;
+  processedEmails?: Prisma.ProcessedEmailUpdateManyWithoutUserNestedInput;
+  emailRules?: Prisma.EmailRuleUpdateManyWithoutUserNestedInput;
+  expenses?: Prisma.ExpenseUpdateManyWithoutUserNestedInput;
+  budgets?: Prisma.BudgetUpdateManyWithoutUserNestedInput;
+  recurringCharges?: Prisma.RecurringChargeUpdateManyWithoutUserNestedInput;
+  categoryRules?: Prisma.CategoryRuleUpdateManyWithoutUserNestedInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUpdateManyWithoutUserNestedInput;
+  expenseShares?: Prisma.ExpenseShareUpdateManyWithoutUserNestedInput;
+  incomes?: Prisma.IncomeUpdateManyWithoutUserNestedInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUpdateManyWithoutUserNestedInput;
+  settlementsPaid?: Prisma.GroupSettlementUpdateManyWithoutFromUserNestedInput;
+  settlementsReceived?: Prisma.GroupSettlementUpdateManyWithoutToUserNestedInput;
+};
+
+export type UserUncheckedUpdateWithoutCustomCategoriesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  emailVerified?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
+  chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput;
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput;
+  reminders?: Prisma.ReminderUncheckedUpdateManyWithoutUserNestedInput;
+  subscription?: Prisma.SubscriptionUncheckedUpdateOneWithoutUserNestedInput;
+  emailTokens?: Prisma.EmailTokenUncheckedUpdateManyWithoutUserNestedInput;
+  imapAccounts?: Prisma.ImapAccountUncheckedUpdateManyWithoutUserNestedInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUncheckedUpdateOneWithoutUserNestedInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenUncheckedUpdateOneWithoutUserNestedInput;
+  processedEmails?: Prisma.ProcessedEmailUncheckedUpdateManyWithoutUserNestedInput;
+  emailRules?: Prisma.EmailRuleUncheckedUpdateManyWithoutUserNestedInput;
+  expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput;
+  budgets?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput;
+  recurringCharges?: Prisma.RecurringChargeUncheckedUpdateManyWithoutUserNestedInput;
+  categoryRules?: Prisma.CategoryRuleUncheckedUpdateManyWithoutUserNestedInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUncheckedUpdateManyWithoutUserNestedInput;
+  expenseShares?: Prisma.ExpenseShareUncheckedUpdateManyWithoutUserNestedInput;
+  incomes?: Prisma.IncomeUncheckedUpdateManyWithoutUserNestedInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUncheckedUpdateManyWithoutUserNestedInput;
+  settlementsPaid?: Prisma.GroupSettlementUncheckedUpdateManyWithoutFromUserNestedInput;
+  settlementsReceived?: Prisma.GroupSettlementUncheckedUpdateManyWithoutToUserNestedInput;
+};
+
+export type UserCreateWithoutExpenseGroupsInput = {
+  id?: string;
+  email?: string | null;
+  emailVerified?: Date | string | null;
+  passwordHash?: string | null;
+  name?: string | null;
+  image?: string | null;
+  role?: $Enums.UserRole;
+  chatId?: string | null;
+  locale?: string;
+  timezone?: string;
+  currency?: string;
+  digestEnabled?: boolean;
+  digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput;
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput;
+  reminders?: Prisma.ReminderCreateNestedManyWithoutUserInput;
+  subscription?: Prisma.SubscriptionCreateNestedOneWithoutUserInput;
+  emailTokens?: Prisma.EmailTokenCreateNestedManyWithoutUserInput;
+  imapAccounts?: Prisma.ImapAccountCreateNestedManyWithoutUserInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenCreateNestedOneWithoutUserInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenCreateNestedOneWithoutUserInput;
+  processedEmails?: Prisma.ProcessedEmailCreateNestedManyWithoutUserInput;
+  emailRules?: Prisma.EmailRuleCreateNestedManyWithoutUserInput;
+  expenses?: Prisma.ExpenseCreateNestedManyWithoutUserInput;
+  budgets?: Prisma.BudgetCreateNestedManyWithoutUserInput;
+  recurringCharges?: Prisma.RecurringChargeCreateNestedManyWithoutUserInput;
+  categoryRules?: Prisma.CategoryRuleCreateNestedManyWithoutUserInput;
+  customCategories?: Prisma.CustomCategoryCreateNestedManyWithoutUserInput;
+  expenseShares?: Prisma.ExpenseShareCreateNestedManyWithoutUserInput;
+  incomes?: Prisma.IncomeCreateNestedManyWithoutUserInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyCreateNestedManyWithoutUserInput;
+  settlementsPaid?: Prisma.GroupSettlementCreateNestedManyWithoutFromUserInput;
+  settlementsReceived?: Prisma.GroupSettlementCreateNestedManyWithoutToUserInput;
+};
+
+export type UserUncheckedCreateWithoutExpenseGroupsInput = {
+  id?: string;
+  email?: string | null;
+  emailVerified?: Date | string | null;
+  passwordHash?: string | null;
+  name?: string | null;
+  image?: string | null;
+  role?: $Enums.UserRole;
+  chatId?: string | null;
+  locale?: string;
+  timezone?: string;
+  currency?: string;
+  digestEnabled?: boolean;
+  digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput;
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput;
+  reminders?: Prisma.ReminderUncheckedCreateNestedManyWithoutUserInput;
+  subscription?: Prisma.SubscriptionUncheckedCreateNestedOneWithoutUserInput;
+  emailTokens?: Prisma.EmailTokenUncheckedCreateNestedManyWithoutUserInput;
+  imapAccounts?: Prisma.ImapAccountUncheckedCreateNestedManyWithoutUserInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUncheckedCreateNestedOneWithoutUserInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenUncheckedCreateNestedOneWithoutUserInput;
+  processedEmails?: Prisma.ProcessedEmailUncheckedCreateNestedManyWithoutUserInput;
+  emailRules?: Prisma.EmailRuleUncheckedCreateNestedManyWithoutUserInput;
+  expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput;
+  budgets?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput;
+  recurringCharges?: Prisma.RecurringChargeUncheckedCreateNestedManyWithoutUserInput;
+  categoryRules?: Prisma.CategoryRuleUncheckedCreateNestedManyWithoutUserInput;
+  customCategories?: Prisma.CustomCategoryUncheckedCreateNestedManyWithoutUserInput;
+  expenseShares?: Prisma.ExpenseShareUncheckedCreateNestedManyWithoutUserInput;
+  incomes?: Prisma.IncomeUncheckedCreateNestedManyWithoutUserInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUncheckedCreateNestedManyWithoutUserInput;
+  settlementsPaid?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutFromUserInput;
+  settlementsReceived?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutToUserInput;
+};
+
+export type UserCreateOrConnectWithoutExpenseGroupsInput = {
+  where: Prisma.UserWhereUniqueInput;
+  create: Prisma.XOR<
+    Prisma.UserCreateWithoutExpenseGroupsInput,
+    Prisma.UserUncheckedCreateWithoutExpenseGroupsInput
+  >;
+};
+
+export type UserUpsertWithoutExpenseGroupsInput = {
+  update: Prisma.XOR<
+    Prisma.UserUpdateWithoutExpenseGroupsInput,
+    Prisma.UserUncheckedUpdateWithoutExpenseGroupsInput
+  >;
+  create: Prisma.XOR<
+    Prisma.UserCreateWithoutExpenseGroupsInput,
+    Prisma.UserUncheckedCreateWithoutExpenseGroupsInput
+  >;
+  where?: Prisma.UserWhereInput;
+};
+
+export type UserUpdateToOneWithWhereWithoutExpenseGroupsInput = {
+  where?: Prisma.UserWhereInput;
+  data: Prisma.XOR<
+    Prisma.UserUpdateWithoutExpenseGroupsInput,
+    Prisma.UserUncheckedUpdateWithoutExpenseGroupsInput
+  >;
+};
+
+export type UserUpdateWithoutExpenseGroupsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  emailVerified?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
+  chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput;
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput;
+  reminders?: Prisma.ReminderUpdateManyWithoutUserNestedInput;
+  subscription?: Prisma.SubscriptionUpdateOneWithoutUserNestedInput;
+  emailTokens?: Prisma.EmailTokenUpdateManyWithoutUserNestedInput;
+  imapAccounts?: Prisma.ImapAccountUpdateManyWithoutUserNestedInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUpdateOneWithoutUserNestedInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenUpdateOneWithoutUserNestedInput;
+  processedEmails?: Prisma.ProcessedEmailUpdateManyWithoutUserNestedInput;
+  emailRules?: Prisma.EmailRuleUpdateManyWithoutUserNestedInput;
+  expenses?: Prisma.ExpenseUpdateManyWithoutUserNestedInput;
+  budgets?: Prisma.BudgetUpdateManyWithoutUserNestedInput;
+  recurringCharges?: Prisma.RecurringChargeUpdateManyWithoutUserNestedInput;
+  categoryRules?: Prisma.CategoryRuleUpdateManyWithoutUserNestedInput;
+  customCategories?: Prisma.CustomCategoryUpdateManyWithoutUserNestedInput;
+  expenseShares?: Prisma.ExpenseShareUpdateManyWithoutUserNestedInput;
+  incomes?: Prisma.IncomeUpdateManyWithoutUserNestedInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUpdateManyWithoutUserNestedInput;
+  settlementsPaid?: Prisma.GroupSettlementUpdateManyWithoutFromUserNestedInput;
+  settlementsReceived?: Prisma.GroupSettlementUpdateManyWithoutToUserNestedInput;
+};
+
+export type UserUncheckedUpdateWithoutExpenseGroupsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  emailVerified?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
+  chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput;
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput;
+  reminders?: Prisma.ReminderUncheckedUpdateManyWithoutUserNestedInput;
+  subscription?: Prisma.SubscriptionUncheckedUpdateOneWithoutUserNestedInput;
+  emailTokens?: Prisma.EmailTokenUncheckedUpdateManyWithoutUserNestedInput;
+  imapAccounts?: Prisma.ImapAccountUncheckedUpdateManyWithoutUserNestedInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUncheckedUpdateOneWithoutUserNestedInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenUncheckedUpdateOneWithoutUserNestedInput;
+  processedEmails?: Prisma.ProcessedEmailUncheckedUpdateManyWithoutUserNestedInput;
+  emailRules?: Prisma.EmailRuleUncheckedUpdateManyWithoutUserNestedInput;
+  expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput;
+  budgets?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput;
+  recurringCharges?: Prisma.RecurringChargeUncheckedUpdateManyWithoutUserNestedInput;
+  categoryRules?: Prisma.CategoryRuleUncheckedUpdateManyWithoutUserNestedInput;
+  customCategories?: Prisma.CustomCategoryUncheckedUpdateManyWithoutUserNestedInput;
+  expenseShares?: Prisma.ExpenseShareUncheckedUpdateManyWithoutUserNestedInput;
+  incomes?: Prisma.IncomeUncheckedUpdateManyWithoutUserNestedInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUncheckedUpdateManyWithoutUserNestedInput;
+  settlementsPaid?: Prisma.GroupSettlementUncheckedUpdateManyWithoutFromUserNestedInput;
+  settlementsReceived?: Prisma.GroupSettlementUncheckedUpdateManyWithoutToUserNestedInput;
+};
+
+export type UserCreateWithoutExpenseSharesInput = {
+  id?: string;
+  email?: string | null;
+  emailVerified?: Date | string | null;
+  passwordHash?: string | null;
+  name?: string | null;
+  image?: string | null;
+  role?: $Enums.UserRole;
+  chatId?: string | null;
+  locale?: string;
+  timezone?: string;
+  currency?: string;
+  digestEnabled?: boolean;
+  digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput;
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput;
+  reminders?: Prisma.ReminderCreateNestedManyWithoutUserInput;
+  subscription?: Prisma.SubscriptionCreateNestedOneWithoutUserInput;
+  emailTokens?: Prisma.EmailTokenCreateNestedManyWithoutUserInput;
+  imapAccounts?: Prisma.ImapAccountCreateNestedManyWithoutUserInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenCreateNestedOneWithoutUserInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenCreateNestedOneWithoutUserInput;
+  processedEmails?: Prisma.ProcessedEmailCreateNestedManyWithoutUserInput;
+  emailRules?: Prisma.EmailRuleCreateNestedManyWithoutUserInput;
+  expenses?: Prisma.ExpenseCreateNestedManyWithoutUserInput;
+  budgets?: Prisma.BudgetCreateNestedManyWithoutUserInput;
+  recurringCharges?: Prisma.RecurringChargeCreateNestedManyWithoutUserInput;
+  categoryRules?: Prisma.CategoryRuleCreateNestedManyWithoutUserInput;
+  customCategories?: Prisma.CustomCategoryCreateNestedManyWithoutUserInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberCreateNestedManyWithoutUserInput;
+  incomes?: Prisma.IncomeCreateNestedManyWithoutUserInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyCreateNestedManyWithoutUserInput;
+  settlementsPaid?: Prisma.GroupSettlementCreateNestedManyWithoutFromUserInput;
+  settlementsReceived?: Prisma.GroupSettlementCreateNestedManyWithoutToUserInput;
+};
+
+export type UserUncheckedCreateWithoutExpenseSharesInput = {
+  id?: string;
+  email?: string | null;
+  emailVerified?: Date | string | null;
+  passwordHash?: string | null;
+  name?: string | null;
+  image?: string | null;
+  role?: $Enums.UserRole;
+  chatId?: string | null;
+  locale?: string;
+  timezone?: string;
+  currency?: string;
+  digestEnabled?: boolean;
+  digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput;
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput;
+  reminders?: Prisma.ReminderUncheckedCreateNestedManyWithoutUserInput;
+  subscription?: Prisma.SubscriptionUncheckedCreateNestedOneWithoutUserInput;
+  emailTokens?: Prisma.EmailTokenUncheckedCreateNestedManyWithoutUserInput;
+  imapAccounts?: Prisma.ImapAccountUncheckedCreateNestedManyWithoutUserInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUncheckedCreateNestedOneWithoutUserInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenUncheckedCreateNestedOneWithoutUserInput;
+  processedEmails?: Prisma.ProcessedEmailUncheckedCreateNestedManyWithoutUserInput;
+  emailRules?: Prisma.EmailRuleUncheckedCreateNestedManyWithoutUserInput;
+  expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput;
+  budgets?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput;
+  recurringCharges?: Prisma.RecurringChargeUncheckedCreateNestedManyWithoutUserInput;
+  categoryRules?: Prisma.CategoryRuleUncheckedCreateNestedManyWithoutUserInput;
+  customCategories?: Prisma.CustomCategoryUncheckedCreateNestedManyWithoutUserInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUncheckedCreateNestedManyWithoutUserInput;
+  incomes?: Prisma.IncomeUncheckedCreateNestedManyWithoutUserInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUncheckedCreateNestedManyWithoutUserInput;
+  settlementsPaid?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutFromUserInput;
+  settlementsReceived?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutToUserInput;
+};
+
+export type UserCreateOrConnectWithoutExpenseSharesInput = {
+  where: Prisma.UserWhereUniqueInput;
+  create: Prisma.XOR<
+    Prisma.UserCreateWithoutExpenseSharesInput,
+    Prisma.UserUncheckedCreateWithoutExpenseSharesInput
+  >;
+};
+
+export type UserUpsertWithoutExpenseSharesInput = {
+  update: Prisma.XOR<
+    Prisma.UserUpdateWithoutExpenseSharesInput,
+    Prisma.UserUncheckedUpdateWithoutExpenseSharesInput
+  >;
+  create: Prisma.XOR<
+    Prisma.UserCreateWithoutExpenseSharesInput,
+    Prisma.UserUncheckedCreateWithoutExpenseSharesInput
+  >;
+  where?: Prisma.UserWhereInput;
+};
+
+export type UserUpdateToOneWithWhereWithoutExpenseSharesInput = {
+  where?: Prisma.UserWhereInput;
+  data: Prisma.XOR<
+    Prisma.UserUpdateWithoutExpenseSharesInput,
+    Prisma.UserUncheckedUpdateWithoutExpenseSharesInput
+  >;
+};
+
+export type UserUpdateWithoutExpenseSharesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  emailVerified?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
+  chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput;
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput;
+  reminders?: Prisma.ReminderUpdateManyWithoutUserNestedInput;
+  subscription?: Prisma.SubscriptionUpdateOneWithoutUserNestedInput;
+  emailTokens?: Prisma.EmailTokenUpdateManyWithoutUserNestedInput;
+  imapAccounts?: Prisma.ImapAccountUpdateManyWithoutUserNestedInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUpdateOneWithoutUserNestedInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenUpdateOneWithoutUserNestedInput;
+  processedEmails?: Prisma.ProcessedEmailUpdateManyWithoutUserNestedInput;
+  emailRules?: Prisma.EmailRuleUpdateManyWithoutUserNestedInput;
+  expenses?: Prisma.ExpenseUpdateManyWithoutUserNestedInput;
+  budgets?: Prisma.BudgetUpdateManyWithoutUserNestedInput;
+  recurringCharges?: Prisma.RecurringChargeUpdateManyWithoutUserNestedInput;
+  categoryRules?: Prisma.CategoryRuleUpdateManyWithoutUserNestedInput;
+  customCategories?: Prisma.CustomCategoryUpdateManyWithoutUserNestedInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUpdateManyWithoutUserNestedInput;
+  incomes?: Prisma.IncomeUpdateManyWithoutUserNestedInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUpdateManyWithoutUserNestedInput;
+  settlementsPaid?: Prisma.GroupSettlementUpdateManyWithoutFromUserNestedInput;
+  settlementsReceived?: Prisma.GroupSettlementUpdateManyWithoutToUserNestedInput;
+};
+
+export type UserUncheckedUpdateWithoutExpenseSharesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  emailVerified?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
+  chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput;
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput;
+  reminders?: Prisma.ReminderUncheckedUpdateManyWithoutUserNestedInput;
+  subscription?: Prisma.SubscriptionUncheckedUpdateOneWithoutUserNestedInput;
+  emailTokens?: Prisma.EmailTokenUncheckedUpdateManyWithoutUserNestedInput;
+  imapAccounts?: Prisma.ImapAccountUncheckedUpdateManyWithoutUserNestedInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUncheckedUpdateOneWithoutUserNestedInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenUncheckedUpdateOneWithoutUserNestedInput;
+  processedEmails?: Prisma.ProcessedEmailUncheckedUpdateManyWithoutUserNestedInput;
+  emailRules?: Prisma.EmailRuleUncheckedUpdateManyWithoutUserNestedInput;
+  expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput;
+  budgets?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput;
+  recurringCharges?: Prisma.RecurringChargeUncheckedUpdateManyWithoutUserNestedInput;
+  categoryRules?: Prisma.CategoryRuleUncheckedUpdateManyWithoutUserNestedInput;
+  customCategories?: Prisma.CustomCategoryUncheckedUpdateManyWithoutUserNestedInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUncheckedUpdateManyWithoutUserNestedInput;
+  incomes?: Prisma.IncomeUncheckedUpdateManyWithoutUserNestedInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUncheckedUpdateManyWithoutUserNestedInput;
+  settlementsPaid?: Prisma.GroupSettlementUncheckedUpdateManyWithoutFromUserNestedInput;
+  settlementsReceived?: Prisma.GroupSettlementUncheckedUpdateManyWithoutToUserNestedInput;
+};
+
+export type UserCreateWithoutSettlementsPaidInput = {
+  id?: string;
+  email?: string | null;
+  emailVerified?: Date | string | null;
+  passwordHash?: string | null;
+  name?: string | null;
+  image?: string | null;
+  role?: $Enums.UserRole;
+  chatId?: string | null;
+  locale?: string;
+  timezone?: string;
+  currency?: string;
+  digestEnabled?: boolean;
+  digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput;
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput;
+  reminders?: Prisma.ReminderCreateNestedManyWithoutUserInput;
+  subscription?: Prisma.SubscriptionCreateNestedOneWithoutUserInput;
+  emailTokens?: Prisma.EmailTokenCreateNestedManyWithoutUserInput;
+  imapAccounts?: Prisma.ImapAccountCreateNestedManyWithoutUserInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenCreateNestedOneWithoutUserInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenCreateNestedOneWithoutUserInput;
+  processedEmails?: Prisma.ProcessedEmailCreateNestedManyWithoutUserInput;
+  emailRules?: Prisma.EmailRuleCreateNestedManyWithoutUserInput;
+  expenses?: Prisma.ExpenseCreateNestedManyWithoutUserInput;
+  budgets?: Prisma.BudgetCreateNestedManyWithoutUserInput;
+  recurringCharges?: Prisma.RecurringChargeCreateNestedManyWithoutUserInput;
+  categoryRules?: Prisma.CategoryRuleCreateNestedManyWithoutUserInput;
+  customCategories?: Prisma.CustomCategoryCreateNestedManyWithoutUserInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberCreateNestedManyWithoutUserInput;
+  expenseShares?: Prisma.ExpenseShareCreateNestedManyWithoutUserInput;
+  incomes?: Prisma.IncomeCreateNestedManyWithoutUserInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyCreateNestedManyWithoutUserInput;
+  settlementsReceived?: Prisma.GroupSettlementCreateNestedManyWithoutToUserInput;
+};
+
+export type UserUncheckedCreateWithoutSettlementsPaidInput = {
+  id?: string;
+  email?: string | null;
+  emailVerified?: Date | string | null;
+  passwordHash?: string | null;
+  name?: string | null;
+  image?: string | null;
+  role?: $Enums.UserRole;
+  chatId?: string | null;
+  locale?: string;
+  timezone?: string;
+  currency?: string;
+  digestEnabled?: boolean;
+  digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput;
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput;
+  reminders?: Prisma.ReminderUncheckedCreateNestedManyWithoutUserInput;
+  subscription?: Prisma.SubscriptionUncheckedCreateNestedOneWithoutUserInput;
+  emailTokens?: Prisma.EmailTokenUncheckedCreateNestedManyWithoutUserInput;
+  imapAccounts?: Prisma.ImapAccountUncheckedCreateNestedManyWithoutUserInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUncheckedCreateNestedOneWithoutUserInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenUncheckedCreateNestedOneWithoutUserInput;
+  processedEmails?: Prisma.ProcessedEmailUncheckedCreateNestedManyWithoutUserInput;
+  emailRules?: Prisma.EmailRuleUncheckedCreateNestedManyWithoutUserInput;
+  expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput;
+  budgets?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput;
+  recurringCharges?: Prisma.RecurringChargeUncheckedCreateNestedManyWithoutUserInput;
+  categoryRules?: Prisma.CategoryRuleUncheckedCreateNestedManyWithoutUserInput;
+  customCategories?: Prisma.CustomCategoryUncheckedCreateNestedManyWithoutUserInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUncheckedCreateNestedManyWithoutUserInput;
+  expenseShares?: Prisma.ExpenseShareUncheckedCreateNestedManyWithoutUserInput;
+  incomes?: Prisma.IncomeUncheckedCreateNestedManyWithoutUserInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUncheckedCreateNestedManyWithoutUserInput;
+  settlementsReceived?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutToUserInput;
+};
+
+export type UserCreateOrConnectWithoutSettlementsPaidInput = {
+  where: Prisma.UserWhereUniqueInput;
+  create: Prisma.XOR<
+    Prisma.UserCreateWithoutSettlementsPaidInput,
+    Prisma.UserUncheckedCreateWithoutSettlementsPaidInput
+  >;
+};
+
+export type UserCreateWithoutSettlementsReceivedInput = {
+  id?: string;
+  email?: string | null;
+  emailVerified?: Date | string | null;
+  passwordHash?: string | null;
+  name?: string | null;
+  image?: string | null;
+  role?: $Enums.UserRole;
+  chatId?: string | null;
+  locale?: string;
+  timezone?: string;
+  currency?: string;
+  digestEnabled?: boolean;
+  digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput;
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput;
+  reminders?: Prisma.ReminderCreateNestedManyWithoutUserInput;
+  subscription?: Prisma.SubscriptionCreateNestedOneWithoutUserInput;
+  emailTokens?: Prisma.EmailTokenCreateNestedManyWithoutUserInput;
+  imapAccounts?: Prisma.ImapAccountCreateNestedManyWithoutUserInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenCreateNestedOneWithoutUserInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenCreateNestedOneWithoutUserInput;
+  processedEmails?: Prisma.ProcessedEmailCreateNestedManyWithoutUserInput;
+  emailRules?: Prisma.EmailRuleCreateNestedManyWithoutUserInput;
+  expenses?: Prisma.ExpenseCreateNestedManyWithoutUserInput;
+  budgets?: Prisma.BudgetCreateNestedManyWithoutUserInput;
+  recurringCharges?: Prisma.RecurringChargeCreateNestedManyWithoutUserInput;
+  categoryRules?: Prisma.CategoryRuleCreateNestedManyWithoutUserInput;
+  customCategories?: Prisma.CustomCategoryCreateNestedManyWithoutUserInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberCreateNestedManyWithoutUserInput;
+  expenseShares?: Prisma.ExpenseShareCreateNestedManyWithoutUserInput;
+  incomes?: Prisma.IncomeCreateNestedManyWithoutUserInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyCreateNestedManyWithoutUserInput;
+  settlementsPaid?: Prisma.GroupSettlementCreateNestedManyWithoutFromUserInput;
+};
+
+export type UserUncheckedCreateWithoutSettlementsReceivedInput = {
+  id?: string;
+  email?: string | null;
+  emailVerified?: Date | string | null;
+  passwordHash?: string | null;
+  name?: string | null;
+  image?: string | null;
+  role?: $Enums.UserRole;
+  chatId?: string | null;
+  locale?: string;
+  timezone?: string;
+  currency?: string;
+  digestEnabled?: boolean;
+  digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput;
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput;
+  reminders?: Prisma.ReminderUncheckedCreateNestedManyWithoutUserInput;
+  subscription?: Prisma.SubscriptionUncheckedCreateNestedOneWithoutUserInput;
+  emailTokens?: Prisma.EmailTokenUncheckedCreateNestedManyWithoutUserInput;
+  imapAccounts?: Prisma.ImapAccountUncheckedCreateNestedManyWithoutUserInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUncheckedCreateNestedOneWithoutUserInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenUncheckedCreateNestedOneWithoutUserInput;
+  processedEmails?: Prisma.ProcessedEmailUncheckedCreateNestedManyWithoutUserInput;
+  emailRules?: Prisma.EmailRuleUncheckedCreateNestedManyWithoutUserInput;
+  expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput;
+  budgets?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput;
+  recurringCharges?: Prisma.RecurringChargeUncheckedCreateNestedManyWithoutUserInput;
+  categoryRules?: Prisma.CategoryRuleUncheckedCreateNestedManyWithoutUserInput;
+  customCategories?: Prisma.CustomCategoryUncheckedCreateNestedManyWithoutUserInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUncheckedCreateNestedManyWithoutUserInput;
+  expenseShares?: Prisma.ExpenseShareUncheckedCreateNestedManyWithoutUserInput;
+  incomes?: Prisma.IncomeUncheckedCreateNestedManyWithoutUserInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUncheckedCreateNestedManyWithoutUserInput;
+  settlementsPaid?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutFromUserInput;
+};
+
+export type UserCreateOrConnectWithoutSettlementsReceivedInput = {
+  where: Prisma.UserWhereUniqueInput;
+  create: Prisma.XOR<
+    Prisma.UserCreateWithoutSettlementsReceivedInput,
+    Prisma.UserUncheckedCreateWithoutSettlementsReceivedInput
+  >;
+};
+
+export type UserUpsertWithoutSettlementsPaidInput = {
+  update: Prisma.XOR<
+    Prisma.UserUpdateWithoutSettlementsPaidInput,
+    Prisma.UserUncheckedUpdateWithoutSettlementsPaidInput
+  >;
+  create: Prisma.XOR<
+    Prisma.UserCreateWithoutSettlementsPaidInput,
+    Prisma.UserUncheckedCreateWithoutSettlementsPaidInput
+  >;
+  where?: Prisma.UserWhereInput;
+};
+
+export type UserUpdateToOneWithWhereWithoutSettlementsPaidInput = {
+  where?: Prisma.UserWhereInput;
+  data: Prisma.XOR<
+    Prisma.UserUpdateWithoutSettlementsPaidInput,
+    Prisma.UserUncheckedUpdateWithoutSettlementsPaidInput
+  >;
+};
+
+export type UserUpdateWithoutSettlementsPaidInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  emailVerified?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
+  chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput;
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput;
+  reminders?: Prisma.ReminderUpdateManyWithoutUserNestedInput;
+  subscription?: Prisma.SubscriptionUpdateOneWithoutUserNestedInput;
+  emailTokens?: Prisma.EmailTokenUpdateManyWithoutUserNestedInput;
+  imapAccounts?: Prisma.ImapAccountUpdateManyWithoutUserNestedInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUpdateOneWithoutUserNestedInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenUpdateOneWithoutUserNestedInput;
+  processedEmails?: Prisma.ProcessedEmailUpdateManyWithoutUserNestedInput;
+  emailRules?: Prisma.EmailRuleUpdateManyWithoutUserNestedInput;
+  expenses?: Prisma.ExpenseUpdateManyWithoutUserNestedInput;
+  budgets?: Prisma.BudgetUpdateManyWithoutUserNestedInput;
+  recurringCharges?: Prisma.RecurringChargeUpdateManyWithoutUserNestedInput;
+  categoryRules?: Prisma.CategoryRuleUpdateManyWithoutUserNestedInput;
+  customCategories?: Prisma.CustomCategoryUpdateManyWithoutUserNestedInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUpdateManyWithoutUserNestedInput;
+  expenseShares?: Prisma.ExpenseShareUpdateManyWithoutUserNestedInput;
+  incomes?: Prisma.IncomeUpdateManyWithoutUserNestedInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUpdateManyWithoutUserNestedInput;
+  settlementsReceived?: Prisma.GroupSettlementUpdateManyWithoutToUserNestedInput;
+};
+
+export type UserUncheckedUpdateWithoutSettlementsPaidInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  emailVerified?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
+  chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput;
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput;
+  reminders?: Prisma.ReminderUncheckedUpdateManyWithoutUserNestedInput;
+  subscription?: Prisma.SubscriptionUncheckedUpdateOneWithoutUserNestedInput;
+  emailTokens?: Prisma.EmailTokenUncheckedUpdateManyWithoutUserNestedInput;
+  imapAccounts?: Prisma.ImapAccountUncheckedUpdateManyWithoutUserNestedInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUncheckedUpdateOneWithoutUserNestedInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenUncheckedUpdateOneWithoutUserNestedInput;
+  processedEmails?: Prisma.ProcessedEmailUncheckedUpdateManyWithoutUserNestedInput;
+  emailRules?: Prisma.EmailRuleUncheckedUpdateManyWithoutUserNestedInput;
+  expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput;
+  budgets?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput;
+  recurringCharges?: Prisma.RecurringChargeUncheckedUpdateManyWithoutUserNestedInput;
+  categoryRules?: Prisma.CategoryRuleUncheckedUpdateManyWithoutUserNestedInput;
+  customCategories?: Prisma.CustomCategoryUncheckedUpdateManyWithoutUserNestedInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUncheckedUpdateManyWithoutUserNestedInput;
+  expenseShares?: Prisma.ExpenseShareUncheckedUpdateManyWithoutUserNestedInput;
+  incomes?: Prisma.IncomeUncheckedUpdateManyWithoutUserNestedInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUncheckedUpdateManyWithoutUserNestedInput;
+  settlementsReceived?: Prisma.GroupSettlementUncheckedUpdateManyWithoutToUserNestedInput;
+};
+
+export type UserUpsertWithoutSettlementsReceivedInput = {
+  update: Prisma.XOR<
+    Prisma.UserUpdateWithoutSettlementsReceivedInput,
+    Prisma.UserUncheckedUpdateWithoutSettlementsReceivedInput
+  >;
+  create: Prisma.XOR<
+    Prisma.UserCreateWithoutSettlementsReceivedInput,
+    Prisma.UserUncheckedCreateWithoutSettlementsReceivedInput
+  >;
+  where?: Prisma.UserWhereInput;
+};
+
+export type UserUpdateToOneWithWhereWithoutSettlementsReceivedInput = {
+  where?: Prisma.UserWhereInput;
+  data: Prisma.XOR<
+    Prisma.UserUpdateWithoutSettlementsReceivedInput,
+    Prisma.UserUncheckedUpdateWithoutSettlementsReceivedInput
+  >;
+};
+
+export type UserUpdateWithoutSettlementsReceivedInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  emailVerified?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
+  chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput;
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput;
+  reminders?: Prisma.ReminderUpdateManyWithoutUserNestedInput;
+  subscription?: Prisma.SubscriptionUpdateOneWithoutUserNestedInput;
+  emailTokens?: Prisma.EmailTokenUpdateManyWithoutUserNestedInput;
+  imapAccounts?: Prisma.ImapAccountUpdateManyWithoutUserNestedInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUpdateOneWithoutUserNestedInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenUpdateOneWithoutUserNestedInput;
+  processedEmails?: Prisma.ProcessedEmailUpdateManyWithoutUserNestedInput;
+  emailRules?: Prisma.EmailRuleUpdateManyWithoutUserNestedInput;
+  expenses?: Prisma.ExpenseUpdateManyWithoutUserNestedInput;
+  budgets?: Prisma.BudgetUpdateManyWithoutUserNestedInput;
+  recurringCharges?: Prisma.RecurringChargeUpdateManyWithoutUserNestedInput;
+  categoryRules?: Prisma.CategoryRuleUpdateManyWithoutUserNestedInput;
+  customCategories?: Prisma.CustomCategoryUpdateManyWithoutUserNestedInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUpdateManyWithoutUserNestedInput;
+  expenseShares?: Prisma.ExpenseShareUpdateManyWithoutUserNestedInput;
+  incomes?: Prisma.IncomeUpdateManyWithoutUserNestedInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUpdateManyWithoutUserNestedInput;
+  settlementsPaid?: Prisma.GroupSettlementUpdateManyWithoutFromUserNestedInput;
+};
+
+export type UserUncheckedUpdateWithoutSettlementsReceivedInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  emailVerified?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
+  chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput;
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput;
+  reminders?: Prisma.ReminderUncheckedUpdateManyWithoutUserNestedInput;
+  subscription?: Prisma.SubscriptionUncheckedUpdateOneWithoutUserNestedInput;
+  emailTokens?: Prisma.EmailTokenUncheckedUpdateManyWithoutUserNestedInput;
+  imapAccounts?: Prisma.ImapAccountUncheckedUpdateManyWithoutUserNestedInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUncheckedUpdateOneWithoutUserNestedInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenUncheckedUpdateOneWithoutUserNestedInput;
+  processedEmails?: Prisma.ProcessedEmailUncheckedUpdateManyWithoutUserNestedInput;
+  emailRules?: Prisma.EmailRuleUncheckedUpdateManyWithoutUserNestedInput;
+  expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput;
+  budgets?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput;
+  recurringCharges?: Prisma.RecurringChargeUncheckedUpdateManyWithoutUserNestedInput;
+  categoryRules?: Prisma.CategoryRuleUncheckedUpdateManyWithoutUserNestedInput;
+  customCategories?: Prisma.CustomCategoryUncheckedUpdateManyWithoutUserNestedInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUncheckedUpdateManyWithoutUserNestedInput;
+  expenseShares?: Prisma.ExpenseShareUncheckedUpdateManyWithoutUserNestedInput;
+  incomes?: Prisma.IncomeUncheckedUpdateManyWithoutUserNestedInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUncheckedUpdateManyWithoutUserNestedInput;
+  settlementsPaid?: Prisma.GroupSettlementUncheckedUpdateManyWithoutFromUserNestedInput;
+};
+
+export type UserCreateWithoutBudgetsInput = {
+  id?: string;
+  email?: string | null;
+  emailVerified?: Date | string | null;
+  passwordHash?: string | null;
+  name?: string | null;
+  image?: string | null;
+  role?: $Enums.UserRole;
+  chatId?: string | null;
+  locale?: string;
+  timezone?: string;
+  currency?: string;
+  digestEnabled?: boolean;
+  digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput;
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput;
+  reminders?: Prisma.ReminderCreateNestedManyWithoutUserInput;
+  subscription?: Prisma.SubscriptionCreateNestedOneWithoutUserInput;
+  emailTokens?: Prisma.EmailTokenCreateNestedManyWithoutUserInput;
+  imapAccounts?: Prisma.ImapAccountCreateNestedManyWithoutUserInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenCreateNestedOneWithoutUserInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenCreateNestedOneWithoutUserInput;
+  processedEmails?: Prisma.ProcessedEmailCreateNestedManyWithoutUserInput;
+  emailRules?: Prisma.EmailRuleCreateNestedManyWithoutUserInput;
+  expenses?: Prisma.ExpenseCreateNestedManyWithoutUserInput;
+  recurringCharges?: Prisma.RecurringChargeCreateNestedManyWithoutUserInput;
+  categoryRules?: Prisma.CategoryRuleCreateNestedManyWithoutUserInput;
+  customCategories?: Prisma.CustomCategoryCreateNestedManyWithoutUserInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberCreateNestedManyWithoutUserInput;
+  expenseShares?: Prisma.ExpenseShareCreateNestedManyWithoutUserInput;
+  incomes?: Prisma.IncomeCreateNestedManyWithoutUserInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyCreateNestedManyWithoutUserInput;
+  settlementsPaid?: Prisma.GroupSettlementCreateNestedManyWithoutFromUserInput;
+  settlementsReceived?: Prisma.GroupSettlementCreateNestedManyWithoutToUserInput;
+};
+
+export type UserUncheckedCreateWithoutBudgetsInput = {
+  id?: string;
+  email?: string | null;
+  emailVerified?: Date | string | null;
+  passwordHash?: string | null;
+  name?: string | null;
+  image?: string | null;
+  role?: $Enums.UserRole;
+  chatId?: string | null;
+  locale?: string;
+  timezone?: string;
+  currency?: string;
+  digestEnabled?: boolean;
+  digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput;
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput;
+  reminders?: Prisma.ReminderUncheckedCreateNestedManyWithoutUserInput;
+  subscription?: Prisma.SubscriptionUncheckedCreateNestedOneWithoutUserInput;
+  emailTokens?: Prisma.EmailTokenUncheckedCreateNestedManyWithoutUserInput;
+  imapAccounts?: Prisma.ImapAccountUncheckedCreateNestedManyWithoutUserInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUncheckedCreateNestedOneWithoutUserInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenUncheckedCreateNestedOneWithoutUserInput;
+  processedEmails?: Prisma.ProcessedEmailUncheckedCreateNestedManyWithoutUserInput;
+  emailRules?: Prisma.EmailRuleUncheckedCreateNestedManyWithoutUserInput;
+  expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput;
+  recurringCharges?: Prisma.RecurringChargeUncheckedCreateNestedManyWithoutUserInput;
+  categoryRules?: Prisma.CategoryRuleUncheckedCreateNestedManyWithoutUserInput;
+  customCategories?: Prisma.CustomCategoryUncheckedCreateNestedManyWithoutUserInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUncheckedCreateNestedManyWithoutUserInput;
+  expenseShares?: Prisma.ExpenseShareUncheckedCreateNestedManyWithoutUserInput;
+  incomes?: Prisma.IncomeUncheckedCreateNestedManyWithoutUserInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUncheckedCreateNestedManyWithoutUserInput;
+  settlementsPaid?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutFromUserInput;
+  settlementsReceived?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutToUserInput;
+};
+
+export type UserCreateOrConnectWithoutBudgetsInput = {
+  where: Prisma.UserWhereUniqueInput;
+  create: Prisma.XOR<
+    Prisma.UserCreateWithoutBudgetsInput,
+    Prisma.UserUncheckedCreateWithoutBudgetsInput
+  >;
+};
+
+export type UserUpsertWithoutBudgetsInput = {
+  update: Prisma.XOR<
+    Prisma.UserUpdateWithoutBudgetsInput,
+    Prisma.UserUncheckedUpdateWithoutBudgetsInput
+  >;
+  create: Prisma.XOR<
+    Prisma.UserCreateWithoutBudgetsInput,
+    Prisma.UserUncheckedCreateWithoutBudgetsInput
+  >;
+  where?: Prisma.UserWhereInput;
+};
+
+export type UserUpdateToOneWithWhereWithoutBudgetsInput = {
+  where?: Prisma.UserWhereInput;
+  data: Prisma.XOR<
+    Prisma.UserUpdateWithoutBudgetsInput,
+    Prisma.UserUncheckedUpdateWithoutBudgetsInput
+  >;
+};
+
+export type UserUpdateWithoutBudgetsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  emailVerified?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
+  chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput;
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput;
+  reminders?: Prisma.ReminderUpdateManyWithoutUserNestedInput;
+  subscription?: Prisma.SubscriptionUpdateOneWithoutUserNestedInput;
+  emailTokens?: Prisma.EmailTokenUpdateManyWithoutUserNestedInput;
+  imapAccounts?: Prisma.ImapAccountUpdateManyWithoutUserNestedInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUpdateOneWithoutUserNestedInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenUpdateOneWithoutUserNestedInput;
+  processedEmails?: Prisma.ProcessedEmailUpdateManyWithoutUserNestedInput;
+  emailRules?: Prisma.EmailRuleUpdateManyWithoutUserNestedInput;
+  expenses?: Prisma.ExpenseUpdateManyWithoutUserNestedInput;
+  recurringCharges?: Prisma.RecurringChargeUpdateManyWithoutUserNestedInput;
+  categoryRules?: Prisma.CategoryRuleUpdateManyWithoutUserNestedInput;
+  customCategories?: Prisma.CustomCategoryUpdateManyWithoutUserNestedInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUpdateManyWithoutUserNestedInput;
+  expenseShares?: Prisma.ExpenseShareUpdateManyWithoutUserNestedInput;
+  incomes?: Prisma.IncomeUpdateManyWithoutUserNestedInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUpdateManyWithoutUserNestedInput;
+  settlementsPaid?: Prisma.GroupSettlementUpdateManyWithoutFromUserNestedInput;
+  settlementsReceived?: Prisma.GroupSettlementUpdateManyWithoutToUserNestedInput;
+};
+
+export type UserUncheckedUpdateWithoutBudgetsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  emailVerified?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
+  chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput;
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput;
+  reminders?: Prisma.ReminderUncheckedUpdateManyWithoutUserNestedInput;
+  subscription?: Prisma.SubscriptionUncheckedUpdateOneWithoutUserNestedInput;
+  emailTokens?: Prisma.EmailTokenUncheckedUpdateManyWithoutUserNestedInput;
+  imapAccounts?: Prisma.ImapAccountUncheckedUpdateManyWithoutUserNestedInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUncheckedUpdateOneWithoutUserNestedInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenUncheckedUpdateOneWithoutUserNestedInput;
+  processedEmails?: Prisma.ProcessedEmailUncheckedUpdateManyWithoutUserNestedInput;
+  emailRules?: Prisma.EmailRuleUncheckedUpdateManyWithoutUserNestedInput;
+  expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput;
+  recurringCharges?: Prisma.RecurringChargeUncheckedUpdateManyWithoutUserNestedInput;
+  categoryRules?: Prisma.CategoryRuleUncheckedUpdateManyWithoutUserNestedInput;
+  customCategories?: Prisma.CustomCategoryUncheckedUpdateManyWithoutUserNestedInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUncheckedUpdateManyWithoutUserNestedInput;
+  expenseShares?: Prisma.ExpenseShareUncheckedUpdateManyWithoutUserNestedInput;
+  incomes?: Prisma.IncomeUncheckedUpdateManyWithoutUserNestedInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUncheckedUpdateManyWithoutUserNestedInput;
+  settlementsPaid?: Prisma.GroupSettlementUncheckedUpdateManyWithoutFromUserNestedInput;
+  settlementsReceived?: Prisma.GroupSettlementUncheckedUpdateManyWithoutToUserNestedInput;
+};
+
+export type UserCreateWithoutCategoryRulesInput = {
+  id?: string;
+  email?: string | null;
+  emailVerified?: Date | string | null;
+  passwordHash?: string | null;
+  name?: string | null;
+  image?: string | null;
+  role?: $Enums.UserRole;
+  chatId?: string | null;
+  locale?: string;
+  timezone?: string;
+  currency?: string;
+  digestEnabled?: boolean;
+  digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput;
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput;
+  reminders?: Prisma.ReminderCreateNestedManyWithoutUserInput;
+  subscription?: Prisma.SubscriptionCreateNestedOneWithoutUserInput;
+  emailTokens?: Prisma.EmailTokenCreateNestedManyWithoutUserInput;
+  imapAccounts?: Prisma.ImapAccountCreateNestedManyWithoutUserInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenCreateNestedOneWithoutUserInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenCreateNestedOneWithoutUserInput;
+  processedEmails?: Prisma.ProcessedEmailCreateNestedManyWithoutUserInput;
+  emailRules?: Prisma.EmailRuleCreateNestedManyWithoutUserInput;
+  expenses?: Prisma.ExpenseCreateNestedManyWithoutUserInput;
+  budgets?: Prisma.BudgetCreateNestedManyWithoutUserInput;
+  recurringCharges?: Prisma.RecurringChargeCreateNestedManyWithoutUserInput;
+  customCategories?: Prisma.CustomCategoryCreateNestedManyWithoutUserInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberCreateNestedManyWithoutUserInput;
+  expenseShares?: Prisma.ExpenseShareCreateNestedManyWithoutUserInput;
+  incomes?: Prisma.IncomeCreateNestedManyWithoutUserInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyCreateNestedManyWithoutUserInput;
+  settlementsPaid?: Prisma.GroupSettlementCreateNestedManyWithoutFromUserInput;
+  settlementsReceived?: Prisma.GroupSettlementCreateNestedManyWithoutToUserInput;
+};
+
+export type UserUncheckedCreateWithoutCategoryRulesInput = {
+  id?: string;
+  email?: string | null;
+  emailVerified?: Date | string | null;
+  passwordHash?: string | null;
+  name?: string | null;
+  image?: string | null;
+  role?: $Enums.UserRole;
+  chatId?: string | null;
+  locale?: string;
+  timezone?: string;
+  currency?: string;
+  digestEnabled?: boolean;
+  digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput;
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput;
+  reminders?: Prisma.ReminderUncheckedCreateNestedManyWithoutUserInput;
+  subscription?: Prisma.SubscriptionUncheckedCreateNestedOneWithoutUserInput;
+  emailTokens?: Prisma.EmailTokenUncheckedCreateNestedManyWithoutUserInput;
+  imapAccounts?: Prisma.ImapAccountUncheckedCreateNestedManyWithoutUserInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUncheckedCreateNestedOneWithoutUserInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenUncheckedCreateNestedOneWithoutUserInput;
+  processedEmails?: Prisma.ProcessedEmailUncheckedCreateNestedManyWithoutUserInput;
+  emailRules?: Prisma.EmailRuleUncheckedCreateNestedManyWithoutUserInput;
+  expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput;
+  budgets?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput;
+  recurringCharges?: Prisma.RecurringChargeUncheckedCreateNestedManyWithoutUserInput;
+  customCategories?: Prisma.CustomCategoryUncheckedCreateNestedManyWithoutUserInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUncheckedCreateNestedManyWithoutUserInput;
+  expenseShares?: Prisma.ExpenseShareUncheckedCreateNestedManyWithoutUserInput;
+  incomes?: Prisma.IncomeUncheckedCreateNestedManyWithoutUserInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUncheckedCreateNestedManyWithoutUserInput;
+  settlementsPaid?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutFromUserInput;
+  settlementsReceived?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutToUserInput;
+};
+
+export type UserCreateOrConnectWithoutCategoryRulesInput = {
+  where: Prisma.UserWhereUniqueInput;
+  create: Prisma.XOR<
+    Prisma.UserCreateWithoutCategoryRulesInput,
+    Prisma.UserUncheckedCreateWithoutCategoryRulesInput
+  >;
+};
+
+export type UserUpsertWithoutCategoryRulesInput = {
+  update: Prisma.XOR<
+    Prisma.UserUpdateWithoutCategoryRulesInput,
+    Prisma.UserUncheckedUpdateWithoutCategoryRulesInput
+  >;
+  create: Prisma.XOR<
+    Prisma.UserCreateWithoutCategoryRulesInput,
+    Prisma.UserUncheckedCreateWithoutCategoryRulesInput
+  >;
+  where?: Prisma.UserWhereInput;
+};
+
+export type UserUpdateToOneWithWhereWithoutCategoryRulesInput = {
+  where?: Prisma.UserWhereInput;
+  data: Prisma.XOR<
+    Prisma.UserUpdateWithoutCategoryRulesInput,
+    Prisma.UserUncheckedUpdateWithoutCategoryRulesInput
+  >;
+};
+
+export type UserUpdateWithoutCategoryRulesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  emailVerified?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
+  chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput;
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput;
+  reminders?: Prisma.ReminderUpdateManyWithoutUserNestedInput;
+  subscription?: Prisma.SubscriptionUpdateOneWithoutUserNestedInput;
+  emailTokens?: Prisma.EmailTokenUpdateManyWithoutUserNestedInput;
+  imapAccounts?: Prisma.ImapAccountUpdateManyWithoutUserNestedInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUpdateOneWithoutUserNestedInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenUpdateOneWithoutUserNestedInput;
+  processedEmails?: Prisma.ProcessedEmailUpdateManyWithoutUserNestedInput;
+  emailRules?: Prisma.EmailRuleUpdateManyWithoutUserNestedInput;
+  expenses?: Prisma.ExpenseUpdateManyWithoutUserNestedInput;
+  budgets?: Prisma.BudgetUpdateManyWithoutUserNestedInput;
+  recurringCharges?: Prisma.RecurringChargeUpdateManyWithoutUserNestedInput;
+  customCategories?: Prisma.CustomCategoryUpdateManyWithoutUserNestedInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUpdateManyWithoutUserNestedInput;
+  expenseShares?: Prisma.ExpenseShareUpdateManyWithoutUserNestedInput;
+  incomes?: Prisma.IncomeUpdateManyWithoutUserNestedInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUpdateManyWithoutUserNestedInput;
+  settlementsPaid?: Prisma.GroupSettlementUpdateManyWithoutFromUserNestedInput;
+  settlementsReceived?: Prisma.GroupSettlementUpdateManyWithoutToUserNestedInput;
+};
+
+export type UserUncheckedUpdateWithoutCategoryRulesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  emailVerified?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
+  chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput;
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput;
+  reminders?: Prisma.ReminderUncheckedUpdateManyWithoutUserNestedInput;
+  subscription?: Prisma.SubscriptionUncheckedUpdateOneWithoutUserNestedInput;
+  emailTokens?: Prisma.EmailTokenUncheckedUpdateManyWithoutUserNestedInput;
+  imapAccounts?: Prisma.ImapAccountUncheckedUpdateManyWithoutUserNestedInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUncheckedUpdateOneWithoutUserNestedInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenUncheckedUpdateOneWithoutUserNestedInput;
+  processedEmails?: Prisma.ProcessedEmailUncheckedUpdateManyWithoutUserNestedInput;
+  emailRules?: Prisma.EmailRuleUncheckedUpdateManyWithoutUserNestedInput;
+  expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput;
+  budgets?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput;
+  recurringCharges?: Prisma.RecurringChargeUncheckedUpdateManyWithoutUserNestedInput;
+  customCategories?: Prisma.CustomCategoryUncheckedUpdateManyWithoutUserNestedInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUncheckedUpdateManyWithoutUserNestedInput;
+  expenseShares?: Prisma.ExpenseShareUncheckedUpdateManyWithoutUserNestedInput;
+  incomes?: Prisma.IncomeUncheckedUpdateManyWithoutUserNestedInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUncheckedUpdateManyWithoutUserNestedInput;
+  settlementsPaid?: Prisma.GroupSettlementUncheckedUpdateManyWithoutFromUserNestedInput;
+  settlementsReceived?: Prisma.GroupSettlementUncheckedUpdateManyWithoutToUserNestedInput;
+};
+
+export type UserCreateWithoutRecurringChargesInput = {
+  id?: string;
+  email?: string | null;
+  emailVerified?: Date | string | null;
+  passwordHash?: string | null;
+  name?: string | null;
+  image?: string | null;
+  role?: $Enums.UserRole;
+  chatId?: string | null;
+  locale?: string;
+  timezone?: string;
+  currency?: string;
+  digestEnabled?: boolean;
+  digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput;
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput;
+  reminders?: Prisma.ReminderCreateNestedManyWithoutUserInput;
+  subscription?: Prisma.SubscriptionCreateNestedOneWithoutUserInput;
+  emailTokens?: Prisma.EmailTokenCreateNestedManyWithoutUserInput;
+  imapAccounts?: Prisma.ImapAccountCreateNestedManyWithoutUserInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenCreateNestedOneWithoutUserInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenCreateNestedOneWithoutUserInput;
+  processedEmails?: Prisma.ProcessedEmailCreateNestedManyWithoutUserInput;
+  emailRules?: Prisma.EmailRuleCreateNestedManyWithoutUserInput;
+  expenses?: Prisma.ExpenseCreateNestedManyWithoutUserInput;
+  budgets?: Prisma.BudgetCreateNestedManyWithoutUserInput;
+  categoryRules?: Prisma.CategoryRuleCreateNestedManyWithoutUserInput;
+  customCategories?: Prisma.CustomCategoryCreateNestedManyWithoutUserInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberCreateNestedManyWithoutUserInput;
+  expenseShares?: Prisma.ExpenseShareCreateNestedManyWithoutUserInput;
+  incomes?: Prisma.IncomeCreateNestedManyWithoutUserInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyCreateNestedManyWithoutUserInput;
+  settlementsPaid?: Prisma.GroupSettlementCreateNestedManyWithoutFromUserInput;
+  settlementsReceived?: Prisma.GroupSettlementCreateNestedManyWithoutToUserInput;
+};
+
+export type UserUncheckedCreateWithoutRecurringChargesInput = {
+  id?: string;
+  email?: string | null;
+  emailVerified?: Date | string | null;
+  passwordHash?: string | null;
+  name?: string | null;
+  image?: string | null;
+  role?: $Enums.UserRole;
+  chatId?: string | null;
+  locale?: string;
+  timezone?: string;
+  currency?: string;
+  digestEnabled?: boolean;
+  digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput;
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput;
+  reminders?: Prisma.ReminderUncheckedCreateNestedManyWithoutUserInput;
+  subscription?: Prisma.SubscriptionUncheckedCreateNestedOneWithoutUserInput;
+  emailTokens?: Prisma.EmailTokenUncheckedCreateNestedManyWithoutUserInput;
+  imapAccounts?: Prisma.ImapAccountUncheckedCreateNestedManyWithoutUserInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUncheckedCreateNestedOneWithoutUserInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenUncheckedCreateNestedOneWithoutUserInput;
+  processedEmails?: Prisma.ProcessedEmailUncheckedCreateNestedManyWithoutUserInput;
+  emailRules?: Prisma.EmailRuleUncheckedCreateNestedManyWithoutUserInput;
+  expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput;
+  budgets?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput;
+  categoryRules?: Prisma.CategoryRuleUncheckedCreateNestedManyWithoutUserInput;
+  customCategories?: Prisma.CustomCategoryUncheckedCreateNestedManyWithoutUserInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUncheckedCreateNestedManyWithoutUserInput;
+  expenseShares?: Prisma.ExpenseShareUncheckedCreateNestedManyWithoutUserInput;
+  incomes?: Prisma.IncomeUncheckedCreateNestedManyWithoutUserInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUncheckedCreateNestedManyWithoutUserInput;
+  settlementsPaid?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutFromUserInput;
+  settlementsReceived?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutToUserInput;
+};
+
+export type UserCreateOrConnectWithoutRecurringChargesInput = {
+  where: Prisma.UserWhereUniqueInput;
+  create: Prisma.XOR<
+    Prisma.UserCreateWithoutRecurringChargesInput,
+    Prisma.UserUncheckedCreateWithoutRecurringChargesInput
+  >;
+};
+
+export type UserUpsertWithoutRecurringChargesInput = {
+  update: Prisma.XOR<
+    Prisma.UserUpdateWithoutRecurringChargesInput,
+    Prisma.UserUncheckedUpdateWithoutRecurringChargesInput
+  >;
+  create: Prisma.XOR<
+    Prisma.UserCreateWithoutRecurringChargesInput,
+    Prisma.UserUncheckedCreateWithoutRecurringChargesInput
+  >;
+  where?: Prisma.UserWhereInput;
+};
+
+export type UserUpdateToOneWithWhereWithoutRecurringChargesInput = {
+  where?: Prisma.UserWhereInput;
+  data: Prisma.XOR<
+    Prisma.UserUpdateWithoutRecurringChargesInput,
+    Prisma.UserUncheckedUpdateWithoutRecurringChargesInput
+  >;
+};
+
+export type UserUpdateWithoutRecurringChargesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  emailVerified?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
+  chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput;
+  sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput;
+  reminders?: Prisma.ReminderUpdateManyWithoutUserNestedInput;
+  subscription?: Prisma.SubscriptionUpdateOneWithoutUserNestedInput;
+  emailTokens?: Prisma.EmailTokenUpdateManyWithoutUserNestedInput;
+  imapAccounts?: Prisma.ImapAccountUpdateManyWithoutUserNestedInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUpdateOneWithoutUserNestedInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenUpdateOneWithoutUserNestedInput;
+  processedEmails?: Prisma.ProcessedEmailUpdateManyWithoutUserNestedInput;
+  emailRules?: Prisma.EmailRuleUpdateManyWithoutUserNestedInput;
+  expenses?: Prisma.ExpenseUpdateManyWithoutUserNestedInput;
+  budgets?: Prisma.BudgetUpdateManyWithoutUserNestedInput;
+  categoryRules?: Prisma.CategoryRuleUpdateManyWithoutUserNestedInput;
+  customCategories?: Prisma.CustomCategoryUpdateManyWithoutUserNestedInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUpdateManyWithoutUserNestedInput;
+  expenseShares?: Prisma.ExpenseShareUpdateManyWithoutUserNestedInput;
+  incomes?: Prisma.IncomeUpdateManyWithoutUserNestedInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUpdateManyWithoutUserNestedInput;
+  settlementsPaid?: Prisma.GroupSettlementUpdateManyWithoutFromUserNestedInput;
+  settlementsReceived?: Prisma.GroupSettlementUpdateManyWithoutToUserNestedInput;
+};
+
+export type UserUncheckedUpdateWithoutRecurringChargesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string;
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  emailVerified?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
+  passwordHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  name?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
+  chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
+  digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
+  digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
+  accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput;
+  sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput;
+  reminders?: Prisma.ReminderUncheckedUpdateManyWithoutUserNestedInput;
+  subscription?: Prisma.SubscriptionUncheckedUpdateOneWithoutUserNestedInput;
+  emailTokens?: Prisma.EmailTokenUncheckedUpdateManyWithoutUserNestedInput;
+  imapAccounts?: Prisma.ImapAccountUncheckedUpdateManyWithoutUserNestedInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUncheckedUpdateOneWithoutUserNestedInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenUncheckedUpdateOneWithoutUserNestedInput;
+  processedEmails?: Prisma.ProcessedEmailUncheckedUpdateManyWithoutUserNestedInput;
+  emailRules?: Prisma.EmailRuleUncheckedUpdateManyWithoutUserNestedInput;
+  expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput;
+  budgets?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput;
+  categoryRules?: Prisma.CategoryRuleUncheckedUpdateManyWithoutUserNestedInput;
+  customCategories?: Prisma.CustomCategoryUncheckedUpdateManyWithoutUserNestedInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUncheckedUpdateManyWithoutUserNestedInput;
+  expenseShares?: Prisma.ExpenseShareUncheckedUpdateManyWithoutUserNestedInput;
+  incomes?: Prisma.IncomeUncheckedUpdateManyWithoutUserNestedInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUncheckedUpdateManyWithoutUserNestedInput;
+  settlementsPaid?: Prisma.GroupSettlementUncheckedUpdateManyWithoutFromUserNestedInput;
+  settlementsReceived?: Prisma.GroupSettlementUncheckedUpdateManyWithoutToUserNestedInput;
+};
+
+export type UserCreateWithoutEmailRulesInput = {
+  id?: string;
+  email?: string | null;
+  emailVerified?: Date | string | null;
+  passwordHash?: string | null;
+  name?: string | null;
+  image?: string | null;
+  role?: $Enums.UserRole;
+  chatId?: string | null;
+  locale?: string;
+  timezone?: string;
+  currency?: string;
+  digestEnabled?: boolean;
+  digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  accounts?: Prisma.AccountCreateNestedManyWithoutUserInput;
+  sessions?: Prisma.SessionCreateNestedManyWithoutUserInput;
+  reminders?: Prisma.ReminderCreateNestedManyWithoutUserInput;
+  subscription?: Prisma.SubscriptionCreateNestedOneWithoutUserInput;
+  emailTokens?: Prisma.EmailTokenCreateNestedManyWithoutUserInput;
+  imapAccounts?: Prisma.ImapAccountCreateNestedManyWithoutUserInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenCreateNestedOneWithoutUserInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenCreateNestedOneWithoutUserInput;
+  processedEmails?: Prisma.ProcessedEmailCreateNestedManyWithoutUserInput;
+  expenses?: Prisma.ExpenseCreateNestedManyWithoutUserInput;
+  budgets?: Prisma.BudgetCreateNestedManyWithoutUserInput;
+  recurringCharges?: Prisma.RecurringChargeCreateNestedManyWithoutUserInput;
+  categoryRules?: Prisma.CategoryRuleCreateNestedManyWithoutUserInput;
+  customCategories?: Prisma.CustomCategoryCreateNestedManyWithoutUserInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberCreateNestedManyWithoutUserInput;
+  expenseShares?: Prisma.ExpenseShareCreateNestedManyWithoutUserInput;
+  incomes?: Prisma.IncomeCreateNestedManyWithoutUserInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyCreateNestedManyWithoutUserInput;
+  settlementsPaid?: Prisma.GroupSettlementCreateNestedManyWithoutFromUserInput;
+  settlementsReceived?: Prisma.GroupSettlementCreateNestedManyWithoutToUserInput;
+};
+
+export type UserUncheckedCreateWithoutEmailRulesInput = {
+  id?: string;
+  email?: string | null;
+  emailVerified?: Date | string | null;
+  passwordHash?: string | null;
+  name?: string | null;
+  image?: string | null;
+  role?: $Enums.UserRole;
+  chatId?: string | null;
+  locale?: string;
+  timezone?: string;
+  currency?: string;
+  digestEnabled?: boolean;
+  digestHour?: number;
+  emailDigestHours?: Prisma.UserCreateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: number;
+  escalationPhone?: string | null;
+  paymentAlias?: string | null;
+  createdAt?: Date | string;
+  updatedAt?: Date | string;
+  accounts?: Prisma.AccountUncheckedCreateNestedManyWithoutUserInput;
+  sessions?: Prisma.SessionUncheckedCreateNestedManyWithoutUserInput;
+  reminders?: Prisma.ReminderUncheckedCreateNestedManyWithoutUserInput;
+  subscription?: Prisma.SubscriptionUncheckedCreateNestedOneWithoutUserInput;
+  emailTokens?: Prisma.EmailTokenUncheckedCreateNestedManyWithoutUserInput;
+  imapAccounts?: Prisma.ImapAccountUncheckedCreateNestedManyWithoutUserInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUncheckedCreateNestedOneWithoutUserInput;
+  mercadoLibreToken?: Prisma.MercadoLibreTokenUncheckedCreateNestedOneWithoutUserInput;
+  processedEmails?: Prisma.ProcessedEmailUncheckedCreateNestedManyWithoutUserInput;
+  expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutUserInput;
+  budgets?: Prisma.BudgetUncheckedCreateNestedManyWithoutUserInput;
+  recurringCharges?: Prisma.RecurringChargeUncheckedCreateNestedManyWithoutUserInput;
+  categoryRules?: Prisma.CategoryRuleUncheckedCreateNestedManyWithoutUserInput;
+  customCategories?: Prisma.CustomCategoryUncheckedCreateNestedManyWithoutUserInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUncheckedCreateNestedManyWithoutUserInput;
+  expenseShares?: Prisma.ExpenseShareUncheckedCreateNestedManyWithoutUserInput;
+  incomes?: Prisma.IncomeUncheckedCreateNestedManyWithoutUserInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUncheckedCreateNestedManyWithoutUserInput;
+  settlementsPaid?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutFromUserInput;
+  settlementsReceived?: Prisma.GroupSettlementUncheckedCreateNestedManyWithoutToUserInput;
+};
+
+export type UserCreateOrConnectWithoutEmailRulesInput = {
+  where: Prisma.UserWhereUniqueInput;
+  create: Prisma.XOR<
+    Prisma.UserCreateWithoutEmailRulesInput,
+    Prisma.UserUncheckedCreateWithoutEmailRulesInput
   >;
 };
 
-export type UserUpsertWithoutExpensesInput = {
+export type UserUpsertWithoutEmailRulesInput = {
   update: Prisma.XOR<
-    Prisma.UserUpdateWithoutExpensesInput,
-    Prisma.UserUncheckedUpdateWithoutExpensesInput
+    Prisma.UserUpdateWithoutEmailRulesInput,
+    Prisma.UserUncheckedUpdateWithoutEmailRulesInput
   >;
   create: Prisma.XOR<
-    Prisma.UserCreateWithoutExpensesInput,
-    Prisma.UserUncheckedCreateWithoutExpensesInput
+    Prisma.UserCreateWithoutEmailRulesInput,
+    Prisma.UserUncheckedCreateWithoutEmailRulesInput
   >;
   where?: Prisma.UserWhereInput;
 };
 
-export type UserUpdateToOneWithWhereWithoutExpensesInput = {
+export type UserUpdateToOneWithWhereWithoutEmailRulesInput = {
   where?: Prisma.UserWhereInput;
   data: Prisma.XOR<
-    Prisma.UserUpdateWithoutExpensesInput,
-    Prisma.UserUncheckedUpdateWithoutExpensesInput
+    Prisma.UserUpdateWithoutEmailRulesInput,
+    Prisma.UserUncheckedUpdateWithoutEmailRulesInput
   >;
 };
 
-export type UserUpdateWithoutExpensesInput = {
+export type UserUpdateWithoutEmailRulesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   emailVerified?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
@@ -1774,20 +5476,39 @@ export type UserUpdateWithoutExpensesInput = {
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
   chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
   digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
   digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   accounts?: Prisma.AccountUpdateManyWithoutUserNestedInput;
   sessions?: Prisma.SessionUpdateManyWithoutUserNestedInput;
   reminders?: Prisma.ReminderUpdateManyWithoutUserNestedInput;
   subscription?: Prisma.SubscriptionUpdateOneWithoutUserNestedInput;
-  emailToken?: Prisma.EmailTokenUpdateOneWithoutUserNestedInput;
+  emailTokens?: Prisma.EmailTokenUpdateManyWithoutUserNestedInput;
+  imapAccounts?: Prisma.ImapAccountUpdateManyWithoutUserNestedInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUpdateOneWithoutUserNestedInput;
   mercadoLibreToken?: Prisma.MercadoLibreTokenUpdateOneWithoutUserNestedInput;
   processedEmails?: Prisma.ProcessedEmailUpdateManyWithoutUserNestedInput;
-};
-
-export type UserUncheckedUpdateWithoutExpensesInput = {
+  expenses?: Prisma.ExpenseUpdateManyWithoutUserNestedInput;
+  budgets?: Prisma.BudgetUpdateManyWithoutUserNestedInput;
+  recurringCharges?: Prisma.RecurringChargeUpdateManyWithoutUserNestedInput;
+  categoryRules?: Prisma.CategoryRuleUpdateManyWithoutUserNestedInput;
+  customCategories?: Prisma.CustomCategoryUpdateManyWithoutUserNestedInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUpdateManyWithoutUserNestedInput;
+  expenseShares?: Prisma.ExpenseShareUpdateManyWithoutUserNestedInput;
+  incomes?: Prisma.IncomeUpdateManyWithoutUserNestedInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUpdateManyWithoutUserNestedInput;
+  settlementsPaid?: Prisma.GroupSettlementUpdateManyWithoutFromUserNestedInput;
+  settlementsReceived?: Prisma.GroupSettlementUpdateManyWithoutToUserNestedInput;
+};
+
+export type UserUncheckedUpdateWithoutEmailRulesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string;
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   emailVerified?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null;
@@ -1797,17 +5518,36 @@ export type UserUncheckedUpdateWithoutExpensesInput = {
   role?: Prisma.EnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole;
   chatId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   locale?: Prisma.StringFieldUpdateOperationsInput | string;
+  timezone?: Prisma.StringFieldUpdateOperationsInput | string;
+  currency?: Prisma.StringFieldUpdateOperationsInput | string;
   digestEnabled?: Prisma.BoolFieldUpdateOperationsInput | boolean;
   digestHour?: Prisma.IntFieldUpdateOperationsInput | number;
+  emailDigestHours?: Prisma.UserUpdateemailDigestHoursInput | number[];
+  calendarLeadMinutes?: Prisma.IntFieldUpdateOperationsInput | number;
+  escalationPhone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
+  paymentAlias?: Prisma.NullableStringFieldUpdateOperationsInput | string | null;
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string;
   accounts?: Prisma.AccountUncheckedUpdateManyWithoutUserNestedInput;
   sessions?: Prisma.SessionUncheckedUpdateManyWithoutUserNestedInput;
   reminders?: Prisma.ReminderUncheckedUpdateManyWithoutUserNestedInput;
   subscription?: Prisma.SubscriptionUncheckedUpdateOneWithoutUserNestedInput;
-  emailToken?: Prisma.EmailTokenUncheckedUpdateOneWithoutUserNestedInput;
+  emailTokens?: Prisma.EmailTokenUncheckedUpdateManyWithoutUserNestedInput;
+  imapAccounts?: Prisma.ImapAccountUncheckedUpdateManyWithoutUserNestedInput;
+  googleAuthToken?: Prisma.GoogleAuthTokenUncheckedUpdateOneWithoutUserNestedInput;
   mercadoLibreToken?: Prisma.MercadoLibreTokenUncheckedUpdateOneWithoutUserNestedInput;
   processedEmails?: Prisma.ProcessedEmailUncheckedUpdateManyWithoutUserNestedInput;
+  expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutUserNestedInput;
+  budgets?: Prisma.BudgetUncheckedUpdateManyWithoutUserNestedInput;
+  recurringCharges?: Prisma.RecurringChargeUncheckedUpdateManyWithoutUserNestedInput;
+  categoryRules?: Prisma.CategoryRuleUncheckedUpdateManyWithoutUserNestedInput;
+  customCategories?: Prisma.CustomCategoryUncheckedUpdateManyWithoutUserNestedInput;
+  expenseGroups?: Prisma.ExpenseGroupMemberUncheckedUpdateManyWithoutUserNestedInput;
+  expenseShares?: Prisma.ExpenseShareUncheckedUpdateManyWithoutUserNestedInput;
+  incomes?: Prisma.IncomeUncheckedUpdateManyWithoutUserNestedInput;
+  expenseAnomalies?: Prisma.ExpenseAnomalyUncheckedUpdateManyWithoutUserNestedInput;
+  settlementsPaid?: Prisma.GroupSettlementUncheckedUpdateManyWithoutFromUserNestedInput;
+  settlementsReceived?: Prisma.GroupSettlementUncheckedUpdateManyWithoutToUserNestedInput;
 };
 
 /**
@@ -1818,8 +5558,21 @@ export type UserCountOutputType = {
   accounts: number;
   sessions: number;
   reminders: number;
+  emailTokens: number;
+  imapAccounts: number;
   processedEmails: number;
+  emailRules: number;
   expenses: number;
+  budgets: number;
+  recurringCharges: number;
+  categoryRules: number;
+  customCategories: number;
+  expenseGroups: number;
+  expenseShares: number;
+  incomes: number;
+  expenseAnomalies: number;
+  settlementsPaid: number;
+  settlementsReceived: number;
 };
 
 export type UserCountOutputTypeSelect<
@@ -1828,8 +5581,21 @@ export type UserCountOutputTypeSelect<
   accounts?: boolean | UserCountOutputTypeCountAccountsArgs;
   sessions?: boolean | UserCountOutputTypeCountSessionsArgs;
   reminders?: boolean | UserCountOutputTypeCountRemindersArgs;
+  emailTokens?: boolean | UserCountOutputTypeCountEmailTokensArgs;
+  imapAccounts?: boolean | UserCountOutputTypeCountImapAccountsArgs;
   processedEmails?: boolean | UserCountOutputTypeCountProcessedEmailsArgs;
+  emailRules?: boolean | UserCountOutputTypeCountEmailRulesArgs;
   expenses?: boolean | UserCountOutputTypeCountExpensesArgs;
+  budgets?: boolean | UserCountOutputTypeCountBudgetsArgs;
+  recurringCharges?: boolean | UserCountOutputTypeCountRecurringChargesArgs;
+  categoryRules?: boolean | UserCountOutputTypeCountCategoryRulesArgs;
+  customCategories?: boolean | UserCountOutputTypeCountCustomCategoriesArgs;
+  expenseGroups?: boolean | UserCountOutputTypeCountExpenseGroupsArgs;
+  expenseShares?: boolean | UserCountOutputTypeCountExpenseSharesArgs;
+  incomes?: boolean | UserCountOutputTypeCountIncomesArgs;
+  expenseAnomalies?: boolean | UserCountOutputTypeCountExpenseAnomaliesArgs;
+  settlementsPaid?: boolean | UserCountOutputTypeCountSettlementsPaidArgs;
+  settlementsReceived?: boolean | UserCountOutputTypeCountSettlementsReceivedArgs;
 };
 
 /**
@@ -1871,6 +5637,24 @@ export type UserCountOutputTypeCountRemindersArgs<
   where?: Prisma.ReminderWhereInput;
 };
 
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountEmailTokensArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  where?: Prisma.EmailTokenWhereInput;
+};
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountImapAccountsArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  where?: Prisma.ImapAccountWhereInput;
+};
+
 /**
  * UserCountOutputType without action
  */
@@ -1880,6 +5664,15 @@ export type UserCountOutputTypeCountProcessedEmailsArgs<
   where?: Prisma.ProcessedEmailWhereInput;
 };
 
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountEmailRulesArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  where?: Prisma.EmailRuleWhereInput;
+};
+
 /**
  * UserCountOutputType without action
  */
@@ -1889,6 +5682,96 @@ export type UserCountOutputTypeCountExpensesArgs<
   where?: Prisma.ExpenseWhereInput;
 };
 
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountBudgetsArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  where?: Prisma.BudgetWhereInput;
+};
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountRecurringChargesArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  where?: Prisma.RecurringChargeWhereInput;
+};
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountCategoryRulesArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  where?: Prisma.CategoryRuleWhereInput;
+};
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountCustomCategoriesArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  where?: Prisma.CustomCategoryWhereInput;
+};
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountExpenseGroupsArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  where?: Prisma.ExpenseGroupMemberWhereInput;
+};
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountExpenseSharesArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  where?: Prisma.ExpenseShareWhereInput;
+};
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountIncomesArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  where?: Prisma.IncomeWhereInput;
+};
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountExpenseAnomaliesArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  where?: Prisma.ExpenseAnomalyWhereInput;
+};
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountSettlementsPaidArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  where?: Prisma.GroupSettlementWhereInput;
+};
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountSettlementsReceivedArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  where?: Prisma.GroupSettlementWhereInput;
+};
+
 export type UserSelect<
   ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
 > = runtime.Types.Extensions.GetSelect<
@@ -1902,18 +5785,37 @@ export type UserSelect<
     role?: boolean;
     chatId?: boolean;
     locale?: boolean;
+    timezone?: boolean;
+    currency?: boolean;
     digestEnabled?: boolean;
     digestHour?: boolean;
+    emailDigestHours?: boolean;
+    calendarLeadMinutes?: boolean;
+    escalationPhone?: boolean;
+    paymentAlias?: boolean;
     createdAt?: boolean;
     updatedAt?: boolean;
     accounts?: boolean | Prisma.User$accountsArgs<ExtArgs>;
     sessions?: boolean | Prisma.User$sessionsArgs<ExtArgs>;
     reminders?: boolean | Prisma.User$remindersArgs<ExtArgs>;
     subscription?: boolean | Prisma.User$subscriptionArgs<ExtArgs>;
-    emailToken?: boolean | Prisma.User$emailTokenArgs<ExtArgs>;
+    emailTokens?: boolean | Prisma.User$emailTokensArgs<ExtArgs>;
+    imapAccounts?: boolean | Prisma.User$imapAccountsArgs<ExtArgs>;
+    googleAuthToken?: boolean | Prisma.User$googleAuthTokenArgs<ExtArgs>;
     mercadoLibreToken?: boolean | Prisma.User$mercadoLibreTokenArgs<ExtArgs>;
     processedEmails?: boolean | Prisma.User$processedEmailsArgs<ExtArgs>;
+    emailRules?: boolean | Prisma.User$emailRulesArgs<ExtArgs>;
     expenses?: boolean | Prisma.User$expensesArgs<ExtArgs>;
+    budgets?: boolean | Prisma.User$budgetsArgs<ExtArgs>;
+    recurringCharges?: boolean | Prisma.User$recurringChargesArgs<ExtArgs>;
+    categoryRules?: boolean | Prisma.User$categoryRulesArgs<ExtArgs>;
+    customCategories?: boolean | Prisma.User$customCategoriesArgs<ExtArgs>;
+    expenseGroups?: boolean | Prisma.User$expenseGroupsArgs<ExtArgs>;
+    expenseShares?: boolean | Prisma.User$expenseSharesArgs<ExtArgs>;
+    incomes?: boolean | Prisma.User$incomesArgs<ExtArgs>;
+    expenseAnomalies?: boolean | Prisma.User$expenseAnomaliesArgs<ExtArgs>;
+    settlementsPaid?: boolean | Prisma.User$settlementsPaidArgs<ExtArgs>;
+    settlementsReceived?: boolean | Prisma.User$settlementsReceivedArgs<ExtArgs>;
     _count?: boolean | Prisma.UserCountOutputTypeDefaultArgs<ExtArgs>;
   },
   ExtArgs["result"]["user"]
@@ -1932,8 +5834,14 @@ export type UserSelectCreateManyAndReturn<
     role?: boolean;
     chatId?: boolean;
     locale?: boolean;
+    timezone?: boolean;
+    currency?: boolean;
     digestEnabled?: boolean;
     digestHour?: boolean;
+    emailDigestHours?: boolean;
+    calendarLeadMinutes?: boolean;
+    escalationPhone?: boolean;
+    paymentAlias?: boolean;
     createdAt?: boolean;
     updatedAt?: boolean;
   },
@@ -1953,8 +5861,14 @@ export type UserSelectUpdateManyAndReturn<
     role?: boolean;
     chatId?: boolean;
     locale?: boolean;
+    timezone?: boolean;
+    currency?: boolean;
     digestEnabled?: boolean;
     digestHour?: boolean;
+    emailDigestHours?: boolean;
+    calendarLeadMinutes?: boolean;
+    escalationPhone?: boolean;
+    paymentAlias?: boolean;
     createdAt?: boolean;
     updatedAt?: boolean;
   },
@@ -1971,8 +5885,14 @@ export type UserSelectScalar = {
   role?: boolean;
   chatId?: boolean;
   locale?: boolean;
+  timezone?: boolean;
+  currency?: boolean;
   digestEnabled?: boolean;
   digestHour?: boolean;
+  emailDigestHours?: boolean;
+  calendarLeadMinutes?: boolean;
+  escalationPhone?: boolean;
+  paymentAlias?: boolean;
   createdAt?: boolean;
   updatedAt?: boolean;
 };
@@ -1989,8 +5909,14 @@ export type UserOmit<
   | "role"
   | "chatId"
   | "locale"
+  | "timezone"
+  | "currency"
   | "digestEnabled"
   | "digestHour"
+  | "emailDigestHours"
+  | "calendarLeadMinutes"
+  | "escalationPhone"
+  | "paymentAlias"
   | "createdAt"
   | "updatedAt",
   ExtArgs["result"]["user"]
@@ -2002,10 +5928,23 @@ export type UserInclude<
   sessions?: boolean | Prisma.User$sessionsArgs<ExtArgs>;
   reminders?: boolean | Prisma.User$remindersArgs<ExtArgs>;
   subscription?: boolean | Prisma.User$subscriptionArgs<ExtArgs>;
-  emailToken?: boolean | Prisma.User$emailTokenArgs<ExtArgs>;
+  emailTokens?: boolean | Prisma.User$emailTokensArgs<ExtArgs>;
+  imapAccounts?: boolean | Prisma.User$imapAccountsArgs<ExtArgs>;
+  googleAuthToken?: boolean | Prisma.User$googleAuthTokenArgs<ExtArgs>;
   mercadoLibreToken?: boolean | Prisma.User$mercadoLibreTokenArgs<ExtArgs>;
   processedEmails?: boolean | Prisma.User$processedEmailsArgs<ExtArgs>;
+  emailRules?: boolean | Prisma.User$emailRulesArgs<ExtArgs>;
   expenses?: boolean | Prisma.User$expensesArgs<ExtArgs>;
+  budgets?: boolean | Prisma.User$budgetsArgs<ExtArgs>;
+  recurringCharges?: boolean | Prisma.User$recurringChargesArgs<ExtArgs>;
+  categoryRules?: boolean | Prisma.User$categoryRulesArgs<ExtArgs>;
+  customCategories?: boolean | Prisma.User$customCategoriesArgs<ExtArgs>;
+  expenseGroups?: boolean | Prisma.User$expenseGroupsArgs<ExtArgs>;
+  expenseShares?: boolean | Prisma.User$expenseSharesArgs<ExtArgs>;
+  incomes?: boolean | Prisma.User$incomesArgs<ExtArgs>;
+  expenseAnomalies?: boolean | Prisma.User$expenseAnomaliesArgs<ExtArgs>;
+  settlementsPaid?: boolean | Prisma.User$settlementsPaidArgs<ExtArgs>;
+  settlementsReceived?: boolean | Prisma.User$settlementsReceivedArgs<ExtArgs>;
   _count?: boolean | Prisma.UserCountOutputTypeDefaultArgs<ExtArgs>;
 };
 export type UserIncludeCreateManyAndReturn<
@@ -2024,10 +5963,23 @@ export type $UserPayload<
     sessions: Prisma.$SessionPayload<ExtArgs>[];
     reminders: Prisma.$ReminderPayload<ExtArgs>[];
     subscription: Prisma.$SubscriptionPayload<ExtArgs> | null;
-    emailToken: Prisma.$EmailTokenPayload<ExtArgs> | null;
+    emailTokens: Prisma.$EmailTokenPayload<ExtArgs>[];
+    imapAccounts: Prisma.$ImapAccountPayload<ExtArgs>[];
+    googleAuthToken: Prisma.$GoogleAuthTokenPayload<ExtArgs> | null;
     mercadoLibreToken: Prisma.$MercadoLibreTokenPayload<ExtArgs> | null;
     processedEmails: Prisma.$ProcessedEmailPayload<ExtArgs>[];
+    emailRules: Prisma.$EmailRulePayload<ExtArgs>[];
     expenses: Prisma.$ExpensePayload<ExtArgs>[];
+    budgets: Prisma.$BudgetPayload<ExtArgs>[];
+    recurringCharges: Prisma.$RecurringChargePayload<ExtArgs>[];
+    categoryRules: Prisma.$CategoryRulePayload<ExtArgs>[];
+    customCategories: Prisma.$CustomCategoryPayload<ExtArgs>[];
+    expenseGroups: Prisma.$ExpenseGroupMemberPayload<ExtArgs>[];
+    expenseShares: Prisma.$ExpenseSharePayload<ExtArgs>[];
+    incomes: Prisma.$IncomePayload<ExtArgs>[];
+    expenseAnomalies: Prisma.$ExpenseAnomalyPayload<ExtArgs>[];
+    settlementsPaid: Prisma.$GroupSettlementPayload<ExtArgs>[];
+    settlementsReceived: Prisma.$GroupSettlementPayload<ExtArgs>[];
   };
   scalars: runtime.Types.Extensions.GetPayloadResult<
     {
@@ -2040,8 +5992,14 @@ export type $UserPayload<
       role: $Enums.UserRole;
       chatId: string | null;
       locale: string;
+      timezone: string;
+      currency: string;
       digestEnabled: boolean;
       digestHour: number;
+      emailDigestHours: number[];
+      calendarLeadMinutes: number;
+      escalationPhone: string | null;
+      paymentAlias: string | null;
       createdAt: Date;
       updatedAt: Date;
     },
@@ -2558,90 +6516,233 @@ export interface Prisma__UserClient<
     args?: Prisma.Subset<T, Prisma.User$accountsArgs<ExtArgs>>
   ): Prisma.PrismaPromise<
     | runtime.Types.Result.GetResult<
-        Prisma.$AccountPayload<ExtArgs>,
+        Prisma.$AccountPayload<ExtArgs>,
+        T,
+        "findMany",
+        GlobalOmitOptions
+      >
+    | Null
+  >;
+  sessions<T extends Prisma.User$sessionsArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.User$sessionsArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    | runtime.Types.Result.GetResult<
+        Prisma.$SessionPayload<ExtArgs>,
+        T,
+        "findMany",
+        GlobalOmitOptions
+      >
+    | Null
+  >;
+  reminders<T extends Prisma.User$remindersArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.User$remindersArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    | runtime.Types.Result.GetResult<
+        Prisma.$ReminderPayload<ExtArgs>,
+        T,
+        "findMany",
+        GlobalOmitOptions
+      >
+    | Null
+  >;
+  subscription<T extends Prisma.User$subscriptionArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.User$subscriptionArgs<ExtArgs>>
+  ): Prisma.Prisma__SubscriptionClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$SubscriptionPayload<ExtArgs>,
+      T,
+      "findUniqueOrThrow",
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+  emailTokens<T extends Prisma.User$emailTokensArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.User$emailTokensArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    | runtime.Types.Result.GetResult<
+        Prisma.$EmailTokenPayload<ExtArgs>,
+        T,
+        "findMany",
+        GlobalOmitOptions
+      >
+    | Null
+  >;
+  imapAccounts<T extends Prisma.User$imapAccountsArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.User$imapAccountsArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    | runtime.Types.Result.GetResult<
+        Prisma.$ImapAccountPayload<ExtArgs>,
+        T,
+        "findMany",
+        GlobalOmitOptions
+      >
+    | Null
+  >;
+  googleAuthToken<T extends Prisma.User$googleAuthTokenArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.User$googleAuthTokenArgs<ExtArgs>>
+  ): Prisma.Prisma__GoogleAuthTokenClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$GoogleAuthTokenPayload<ExtArgs>,
+      T,
+      "findUniqueOrThrow",
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+  mercadoLibreToken<T extends Prisma.User$mercadoLibreTokenArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.User$mercadoLibreTokenArgs<ExtArgs>>
+  ): Prisma.Prisma__MercadoLibreTokenClient<
+    runtime.Types.Result.GetResult<
+      Prisma.$MercadoLibreTokenPayload<ExtArgs>,
+      T,
+      "findUniqueOrThrow",
+      GlobalOmitOptions
+    > | null,
+    null,
+    ExtArgs,
+    GlobalOmitOptions
+  >;
+  processedEmails<T extends Prisma.User$processedEmailsArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.User$processedEmailsArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    | runtime.Types.Result.GetResult<
+        Prisma.$ProcessedEmailPayload<ExtArgs>,
+        T,
+        "findMany",
+        GlobalOmitOptions
+      >
+    | Null
+  >;
+  emailRules<T extends Prisma.User$emailRulesArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.User$emailRulesArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    | runtime.Types.Result.GetResult<
+        Prisma.$EmailRulePayload<ExtArgs>,
+        T,
+        "findMany",
+        GlobalOmitOptions
+      >
+    | Null
+  >;
+  expenses<T extends Prisma.User$expensesArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.User$expensesArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    | runtime.Types.Result.GetResult<
+        Prisma.$ExpensePayload<ExtArgs>,
+        T,
+        "findMany",
+        GlobalOmitOptions
+      >
+    | Null
+  >;
+  budgets<T extends Prisma.User$budgetsArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.User$budgetsArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    | runtime.Types.Result.GetResult<
+        Prisma.$BudgetPayload<ExtArgs>,
+        T,
+        "findMany",
+        GlobalOmitOptions
+      >
+    | Null
+  >;
+  recurringCharges<T extends Prisma.User$recurringChargesArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.User$recurringChargesArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    | runtime.Types.Result.GetResult<
+        Prisma.$RecurringChargePayload<ExtArgs>,
+        T,
+        "findMany",
+        GlobalOmitOptions
+      >
+    | Null
+  >;
+  categoryRules<T extends Prisma.User$categoryRulesArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.User$categoryRulesArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    | runtime.Types.Result.GetResult<
+        Prisma.$CategoryRulePayload<ExtArgs>,
+        T,
+        "findMany",
+        GlobalOmitOptions
+      >
+    | Null
+  >;
+  customCategories<T extends Prisma.User$customCategoriesArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.User$customCategoriesArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    | runtime.Types.Result.GetResult<
+        Prisma.$CustomCategoryPayload<ExtArgs>,
+        T,
+        "findMany",
+        GlobalOmitOptions
+      >
+    | Null
+  >;
+  expenseGroups<T extends Prisma.User$expenseGroupsArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.User$expenseGroupsArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    | runtime.Types.Result.GetResult<
+        Prisma.$ExpenseGroupMemberPayload<ExtArgs>,
+        T,
+        "findMany",
+        GlobalOmitOptions
+      >
+    | Null
+  >;
+  expenseShares<T extends Prisma.User$expenseSharesArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.User$expenseSharesArgs<ExtArgs>>
+  ): Prisma.PrismaPromise<
+    | runtime.Types.Result.GetResult<
+        Prisma.$ExpenseSharePayload<ExtArgs>,
         T,
         "findMany",
         GlobalOmitOptions
       >
     | Null
   >;
-  sessions<T extends Prisma.User$sessionsArgs<ExtArgs> = {}>(
-    args?: Prisma.Subset<T, Prisma.User$sessionsArgs<ExtArgs>>
+  incomes<T extends Prisma.User$incomesArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.User$incomesArgs<ExtArgs>>
   ): Prisma.PrismaPromise<
     | runtime.Types.Result.GetResult<
-        Prisma.$SessionPayload<ExtArgs>,
+        Prisma.$IncomePayload<ExtArgs>,
         T,
         "findMany",
         GlobalOmitOptions
       >
     | Null
   >;
-  reminders<T extends Prisma.User$remindersArgs<ExtArgs> = {}>(
-    args?: Prisma.Subset<T, Prisma.User$remindersArgs<ExtArgs>>
+  expenseAnomalies<T extends Prisma.User$expenseAnomaliesArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.User$expenseAnomaliesArgs<ExtArgs>>
   ): Prisma.PrismaPromise<
     | runtime.Types.Result.GetResult<
-        Prisma.$ReminderPayload<ExtArgs>,
+        Prisma.$ExpenseAnomalyPayload<ExtArgs>,
         T,
         "findMany",
         GlobalOmitOptions
       >
     | Null
   >;
-  subscription<T extends Prisma.User$subscriptionArgs<ExtArgs> = {}>(
-    args?: Prisma.Subset<T, Prisma.User$subscriptionArgs<ExtArgs>>
-  ): Prisma.Prisma__SubscriptionClient<
-    runtime.Types.Result.GetResult<
-      Prisma.$SubscriptionPayload<ExtArgs>,
-      T,
-      "findUniqueOrThrow",
-      GlobalOmitOptions
-    > | null,
-    null,
-    ExtArgs,
-    GlobalOmitOptions
-  >;
-  emailToken<T extends Prisma.User$emailTokenArgs<ExtArgs> = {}>(
-    args?: Prisma.Subset<T, Prisma.User$emailTokenArgs<ExtArgs>>
-  ): Prisma.Prisma__EmailTokenClient<
-    runtime.Types.Result.GetResult<
-      Prisma.$EmailTokenPayload<ExtArgs>,
-      T,
-      "findUniqueOrThrow",
-      GlobalOmitOptions
-    > | null,
-    null,
-    ExtArgs,
-    GlobalOmitOptions
-  >;
-  mercadoLibreToken<T extends Prisma.User$mercadoLibreTokenArgs<ExtArgs> = {}>(
-    args?: Prisma.Subset<T, Prisma.User$mercadoLibreTokenArgs<ExtArgs>>
-  ): Prisma.Prisma__MercadoLibreTokenClient<
-    runtime.Types.Result.GetResult<
-      Prisma.$MercadoLibreTokenPayload<ExtArgs>,
-      T,
-      "findUniqueOrThrow",
-      GlobalOmitOptions
-    > | null,
-    null,
-    ExtArgs,
-    GlobalOmitOptions
-  >;
-  processedEmails<T extends Prisma.User$processedEmailsArgs<ExtArgs> = {}>(
-    args?: Prisma.Subset<T, Prisma.User$processedEmailsArgs<ExtArgs>>
+  settlementsPaid<T extends Prisma.User$settlementsPaidArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.User$settlementsPaidArgs<ExtArgs>>
   ): Prisma.PrismaPromise<
     | runtime.Types.Result.GetResult<
-        Prisma.$ProcessedEmailPayload<ExtArgs>,
+        Prisma.$GroupSettlementPayload<ExtArgs>,
         T,
         "findMany",
         GlobalOmitOptions
       >
     | Null
   >;
-  expenses<T extends Prisma.User$expensesArgs<ExtArgs> = {}>(
-    args?: Prisma.Subset<T, Prisma.User$expensesArgs<ExtArgs>>
+  settlementsReceived<T extends Prisma.User$settlementsReceivedArgs<ExtArgs> = {}>(
+    args?: Prisma.Subset<T, Prisma.User$settlementsReceivedArgs<ExtArgs>>
   ): Prisma.PrismaPromise<
     | runtime.Types.Result.GetResult<
-        Prisma.$ExpensePayload<ExtArgs>,
+        Prisma.$GroupSettlementPayload<ExtArgs>,
         T,
         "findMany",
         GlobalOmitOptions
@@ -2688,8 +6789,14 @@ export interface UserFieldRefs {
   readonly role: Prisma.FieldRef<"User", "UserRole">;
   readonly chatId: Prisma.FieldRef<"User", "String">;
   readonly locale: Prisma.FieldRef<"User", "String">;
+  readonly timezone: Prisma.FieldRef<"User", "String">;
+  readonly currency: Prisma.FieldRef<"User", "String">;
   readonly digestEnabled: Prisma.FieldRef<"User", "Boolean">;
   readonly digestHour: Prisma.FieldRef<"User", "Int">;
+  readonly emailDigestHours: Prisma.FieldRef<"User", "Int[]">;
+  readonly calendarLeadMinutes: Prisma.FieldRef<"User", "Int">;
+  readonly escalationPhone: Prisma.FieldRef<"User", "String">;
+  readonly paymentAlias: Prisma.FieldRef<"User", "String">;
   readonly createdAt: Prisma.FieldRef<"User", "DateTime">;
   readonly updatedAt: Prisma.FieldRef<"User", "DateTime">;
 }
@@ -3206,9 +7313,9 @@ export type User$subscriptionArgs<
 };
 
 /**
- * User.emailToken
+ * User.emailTokens
  */
-export type User$emailTokenArgs<
+export type User$emailTokensArgs<
   ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
 > = {
   /**
@@ -3224,6 +7331,60 @@ export type User$emailTokenArgs<
    */
   include?: Prisma.EmailTokenInclude<ExtArgs> | null;
   where?: Prisma.EmailTokenWhereInput;
+  orderBy?: Prisma.EmailTokenOrderByWithRelationInput | Prisma.EmailTokenOrderByWithRelationInput[];
+  cursor?: Prisma.EmailTokenWhereUniqueInput;
+  take?: number;
+  skip?: number;
+  distinct?: Prisma.EmailTokenScalarFieldEnum | Prisma.EmailTokenScalarFieldEnum[];
+};
+
+/**
+ * User.imapAccounts
+ */
+export type User$imapAccountsArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ImapAccount
+   */
+  select?: Prisma.ImapAccountSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ImapAccount
+   */
+  omit?: Prisma.ImapAccountOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ImapAccountInclude<ExtArgs> | null;
+  where?: Prisma.ImapAccountWhereInput;
+  orderBy?:
+    | Prisma.ImapAccountOrderByWithRelationInput
+    | Prisma.ImapAccountOrderByWithRelationInput[];
+  cursor?: Prisma.ImapAccountWhereUniqueInput;
+  take?: number;
+  skip?: number;
+  distinct?: Prisma.ImapAccountScalarFieldEnum | Prisma.ImapAccountScalarFieldEnum[];
+};
+
+/**
+ * User.googleAuthToken
+ */
+export type User$googleAuthTokenArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the GoogleAuthToken
+   */
+  select?: Prisma.GoogleAuthTokenSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the GoogleAuthToken
+   */
+  omit?: Prisma.GoogleAuthTokenOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GoogleAuthTokenInclude<ExtArgs> | null;
+  where?: Prisma.GoogleAuthTokenWhereInput;
 };
 
 /**
@@ -3275,6 +7436,32 @@ export type User$processedEmailsArgs<
   distinct?: Prisma.ProcessedEmailScalarFieldEnum | Prisma.ProcessedEmailScalarFieldEnum[];
 };
 
+/**
+ * User.emailRules
+ */
+export type User$emailRulesArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the EmailRule
+   */
+  select?: Prisma.EmailRuleSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the EmailRule
+   */
+  omit?: Prisma.EmailRuleOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.EmailRuleInclude<ExtArgs> | null;
+  where?: Prisma.EmailRuleWhereInput;
+  orderBy?: Prisma.EmailRuleOrderByWithRelationInput | Prisma.EmailRuleOrderByWithRelationInput[];
+  cursor?: Prisma.EmailRuleWhereUniqueInput;
+  take?: number;
+  skip?: number;
+  distinct?: Prisma.EmailRuleScalarFieldEnum | Prisma.EmailRuleScalarFieldEnum[];
+};
+
 /**
  * User.expenses
  */
@@ -3301,6 +7488,282 @@ export type User$expensesArgs<
   distinct?: Prisma.ExpenseScalarFieldEnum | Prisma.ExpenseScalarFieldEnum[];
 };
 
+/**
+ * User.budgets
+ */
+export type User$budgetsArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the Budget
+   */
+  select?: Prisma.BudgetSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the Budget
+   */
+  omit?: Prisma.BudgetOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BudgetInclude<ExtArgs> | null;
+  where?: Prisma.BudgetWhereInput;
+  orderBy?: Prisma.BudgetOrderByWithRelationInput | Prisma.BudgetOrderByWithRelationInput[];
+  cursor?: Prisma.BudgetWhereUniqueInput;
+  take?: number;
+  skip?: number;
+  distinct?: Prisma.BudgetScalarFieldEnum | Prisma.BudgetScalarFieldEnum[];
+};
+
+/**
+ * User.recurringCharges
+ */
+export type User$recurringChargesArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the RecurringCharge
+   */
+  select?: Prisma.RecurringChargeSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the RecurringCharge
+   */
+  omit?: Prisma.RecurringChargeOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.RecurringChargeInclude<ExtArgs> | null;
+  where?: Prisma.RecurringChargeWhereInput;
+  orderBy?:
+    | Prisma.RecurringChargeOrderByWithRelationInput
+    | Prisma.RecurringChargeOrderByWithRelationInput[];
+  cursor?: Prisma.RecurringChargeWhereUniqueInput;
+  take?: number;
+  skip?: number;
+  distinct?: Prisma.RecurringChargeScalarFieldEnum | Prisma.RecurringChargeScalarFieldEnum[];
+};
+
+/**
+ * User.categoryRules
+ */
+export type User$categoryRulesArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the CategoryRule
+   */
+  select?: Prisma.CategoryRuleSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the CategoryRule
+   */
+  omit?: Prisma.CategoryRuleOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CategoryRuleInclude<ExtArgs> | null;
+  where?: Prisma.CategoryRuleWhereInput;
+  orderBy?:
+    | Prisma.CategoryRuleOrderByWithRelationInput
+    | Prisma.CategoryRuleOrderByWithRelationInput[];
+  cursor?: Prisma.CategoryRuleWhereUniqueInput;
+  take?: number;
+  skip?: number;
+  distinct?: Prisma.CategoryRuleScalarFieldEnum | Prisma.CategoryRuleScalarFieldEnum[];
+};
+
+/**
+ * User.customCategories
+ */
+export type User$customCategoriesArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the CustomCategory
+   */
+  select?: Prisma.CustomCategorySelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the CustomCategory
+   */
+  omit?: Prisma.CustomCategoryOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CustomCategoryInclude<ExtArgs> | null;
+  where?: Prisma.CustomCategoryWhereInput;
+  orderBy?:
+    | Prisma.CustomCategoryOrderByWithRelationInput
+    | Prisma.CustomCategoryOrderByWithRelationInput[];
+  cursor?: Prisma.CustomCategoryWhereUniqueInput;
+  take?: number;
+  skip?: number;
+  distinct?: Prisma.CustomCategoryScalarFieldEnum | Prisma.CustomCategoryScalarFieldEnum[];
+};
+
+/**
+ * User.expenseGroups
+ */
+export type User$expenseGroupsArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseGroupMember
+   */
+  select?: Prisma.ExpenseGroupMemberSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseGroupMember
+   */
+  omit?: Prisma.ExpenseGroupMemberOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseGroupMemberInclude<ExtArgs> | null;
+  where?: Prisma.ExpenseGroupMemberWhereInput;
+  orderBy?:
+    | Prisma.ExpenseGroupMemberOrderByWithRelationInput
+    | Prisma.ExpenseGroupMemberOrderByWithRelationInput[];
+  cursor?: Prisma.ExpenseGroupMemberWhereUniqueInput;
+  take?: number;
+  skip?: number;
+  distinct?: Prisma.ExpenseGroupMemberScalarFieldEnum | Prisma.ExpenseGroupMemberScalarFieldEnum[];
+};
+
+/**
+ * User.expenseShares
+ */
+export type User$expenseSharesArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseShare
+   */
+  select?: Prisma.ExpenseShareSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseShare
+   */
+  omit?: Prisma.ExpenseShareOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseShareInclude<ExtArgs> | null;
+  where?: Prisma.ExpenseShareWhereInput;
+  orderBy?:
+    | Prisma.ExpenseShareOrderByWithRelationInput
+    | Prisma.ExpenseShareOrderByWithRelationInput[];
+  cursor?: Prisma.ExpenseShareWhereUniqueInput;
+  take?: number;
+  skip?: number;
+  distinct?: Prisma.ExpenseShareScalarFieldEnum | Prisma.ExpenseShareScalarFieldEnum[];
+};
+
+/**
+ * User.incomes
+ */
+export type User$incomesArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the Income
+   */
+  select?: Prisma.IncomeSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the Income
+   */
+  omit?: Prisma.IncomeOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.IncomeInclude<ExtArgs> | null;
+  where?: Prisma.IncomeWhereInput;
+  orderBy?: Prisma.IncomeOrderByWithRelationInput | Prisma.IncomeOrderByWithRelationInput[];
+  cursor?: Prisma.IncomeWhereUniqueInput;
+  take?: number;
+  skip?: number;
+  distinct?: Prisma.IncomeScalarFieldEnum | Prisma.IncomeScalarFieldEnum[];
+};
+
+/**
+ * User.expenseAnomalies
+ */
+export type User$expenseAnomaliesArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the ExpenseAnomaly
+   */
+  select?: Prisma.ExpenseAnomalySelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the ExpenseAnomaly
+   */
+  omit?: Prisma.ExpenseAnomalyOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ExpenseAnomalyInclude<ExtArgs> | null;
+  where?: Prisma.ExpenseAnomalyWhereInput;
+  orderBy?:
+    | Prisma.ExpenseAnomalyOrderByWithRelationInput
+    | Prisma.ExpenseAnomalyOrderByWithRelationInput[];
+  cursor?: Prisma.ExpenseAnomalyWhereUniqueInput;
+  take?: number;
+  skip?: number;
+  distinct?: Prisma.ExpenseAnomalyScalarFieldEnum | Prisma.ExpenseAnomalyScalarFieldEnum[];
+};
+
+/**
+ * User.settlementsPaid
+ */
+export type User$settlementsPaidArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the GroupSettlement
+   */
+  select?: Prisma.GroupSettlementSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the GroupSettlement
+   */
+  omit?: Prisma.GroupSettlementOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GroupSettlementInclude<ExtArgs> | null;
+  where?: Prisma.GroupSettlementWhereInput;
+  orderBy?:
+    | Prisma.GroupSettlementOrderByWithRelationInput
+    | Prisma.GroupSettlementOrderByWithRelationInput[];
+  cursor?: Prisma.GroupSettlementWhereUniqueInput;
+  take?: number;
+  skip?: number;
+  distinct?: Prisma.GroupSettlementScalarFieldEnum | Prisma.GroupSettlementScalarFieldEnum[];
+};
+
+/**
+ * User.settlementsReceived
+ */
+export type User$settlementsReceivedArgs<
+  ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs
+> = {
+  /**
+   * Select specific fields to fetch from the GroupSettlement
+   */
+  select?: Prisma.GroupSettlementSelect<ExtArgs> | null;
+  /**
+   * Omit specific fields from the GroupSettlement
+   */
+  omit?: Prisma.GroupSettlementOmit<ExtArgs> | null;
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GroupSettlementInclude<ExtArgs> | null;
+  where?: Prisma.GroupSettlementWhereInput;
+  orderBy?:
+    | Prisma.GroupSettlementOrderByWithRelationInput
+    | Prisma.GroupSettlementOrderByWithRelationInput[];
+  cursor?: Prisma.GroupSettlementWhereUniqueInput;
+  take?: number;
+  skip?: number;
+  distinct?: Prisma.GroupSettlementScalarFieldEnum | Prisma.GroupSettlementScalarFieldEnum[];
+};
+
 /**
  * User without action
  */
@@ -0,0 +1,43 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+
+import { env } from "@shared/env/env";
+
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+const VERSION = "v1";
+
+function key(): Buffer {
+  const hex = env().IMAP_ENCRYPTION_KEY;
+  if (!hex) {
+    throw new Error("IMAP_ENCRYPTION_KEY is not set");
+  }
+  return Buffer.from(hex, "hex");
+}
+
+export function isSecretEncryptionConfigured(): boolean {
+  return !!env().IMAP_ENCRYPTION_KEY;
+}
+
+/** AES-256-GCM; the result is "v1:<iv>:<tag>:<ciphertext>", all base64 */
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [VERSION, ...[iv, tag, ciphertext].map((part) => part.toString("base64"))].join(":");
+}
+
+/** Throws if the value was tampered with or encrypted under another key */
+export function decryptSecret(encrypted: string): string {
+  const [version, iv, tag, ciphertext] = encrypted.split(":");
+  if (version !== VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new Error("Unrecognized encrypted secret format");
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, key(), Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, "base64")),
+    decipher.final()
+  ]).toString("utf8");
+}
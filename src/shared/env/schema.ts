@@ -23,6 +23,7 @@ export const envSchema = z.object({
   GOOGLE_CLIENT_ID: z.string().min(1),
   GOOGLE_CLIENT_SECRET: z.string().min(1),
   GOOGLE_REDIRECT_URI: z.string().url().default("http://localhost:3000/auth/google/callback"),
+  CALENDAR_SYNC_INTERVAL_MS: z.coerce.number().default(300000), // 5 minutes
 
   // Security: only process messages from this number (optional)
   ALLOWED_PHONE_NUMBER: z.string().optional(),
@@ -30,6 +31,18 @@ export const envSchema = z.object({
   // Gmail integration
   GMAIL_REDIRECT_URI: z.string().url().default("http://localhost:3000/auth/gmail/callback"),
   EMAIL_SYNC_INTERVAL_MS: z.coerce.number().default(120000), // 2 minutes
+  // Gmail push via Pub/Sub (optional): topic like "projects/<project>/topics/<topic>",
+  // and the token the push subscription sends as ?token= to /webhook/gmail
+  GMAIL_PUBSUB_TOPIC: z.string().min(1).optional(),
+  GMAIL_PUSH_TOKEN: z.string().min(1).optional(),
+  // With push enabled polling is only a fallback; it also renews the watches (keep it under a day)
+  EMAIL_PUSH_FALLBACK_INTERVAL_MS: z.coerce.number().default(1800000), // 30 minutes
+  // Key for IMAP/SMTP passwords at rest: 32 random bytes as hex (openssl rand -hex 32).
+  // Without it IMAP mailboxes can't be connected
+  IMAP_ENCRYPTION_KEY: z
+    .string()
+    .regex(/^[0-9a-fA-F]{64}$/)
+    .optional(),
 
   // Public host URL for OAuth callbacks
   HOST_URL: z.string().url().default("http://localhost:3000"),
@@ -52,7 +65,10 @@ export const envSchema = z.object({
   NEWS_API_KEY: z.string().min(1).optional(),
 
   // OpenRouteService Directions API (optional) — free at openrouteservice.org
-  ORS_API_KEY: z.string().min(1).optional()
+  ORS_API_KEY: z.string().min(1).optional(),
+
+  // Tesseract languages for OCR of receipt photos and scanned PDFs
+  OCR_LANGUAGES: z.string().default("spa+eng")
 });
 
 export type Env = z.infer<typeof envSchema>;
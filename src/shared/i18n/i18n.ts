@@ -0,0 +1,51 @@
+import { en } from "./locales/en";
+import { es, type Messages } from "./locales/es";
+
+export type { Messages } from "./locales/es";
+
+/**
+ * Locales the bot can answer in. To add one (e.g. pt-BR): create
+ * `locales/pt.ts` exporting a `Messages` object, register it below and
+ * add its entries to LANGUAGE_NAMES and INTL_LOCALES.
+ */
+export const SUPPORTED_LOCALES = ["es", "en"] as const;
+
+export type Locale = (typeof SUPPORTED_LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "es";
+
+const CATALOGS: Record<Locale, Messages> = { es, en };
+
+/** Language name as given to the LLM prompts ("answer in ...") */
+const LANGUAGE_NAMES: Record<Locale, string> = {
+  es: "español rioplatense (Argentina), usando vos",
+  en: "English"
+};
+
+/** BCP 47 tag used for Intl date and number formatting */
+const INTL_LOCALES: Record<Locale, string> = {
+  es: "es-AR",
+  en: "en-US"
+};
+
+export function isSupportedLocale(value: string): value is Locale {
+  return (SUPPORTED_LOCALES as readonly string[]).includes(value);
+}
+
+/** Maps a stored/free-form locale ("en-US", "EN", null) to a supported one */
+export function resolveLocale(value?: string | null): Locale {
+  const base = value?.trim().toLowerCase().split(/[-_]/)[0] ?? "";
+  return isSupportedLocale(base) ? base : DEFAULT_LOCALE;
+}
+
+export function getMessages(locale?: string | null): Messages {
+  return CATALOGS[resolveLocale(locale)];
+}
+
+export function getLanguageName(locale?: string | null): string {
+  return LANGUAGE_NAMES[resolveLocale(locale)];
+}
+
+export function toIntlLocale(locale?: string | null): string {
+  return INTL_LOCALES[resolveLocale(locale)];
+}
@@ -0,0 +1,1134 @@
+import type { Messages } from "./es";
+import { capitalize, ordinal } from "./utils";
+
+export const en: Messages = {
+  common: {
+    processingError: "Something went wrong processing your message. Please try again later.",
+    linkError: "Something went wrong generating the link. Please try again later.",
+    noLinkedAccount: "You don't have a linked account.",
+    noLinkedAccountConnect: "You don't have a linked account. Send /connect to link it.",
+    ok: "OK!",
+    unknownSender: "Unknown",
+    noSubject: "(no subject)",
+    rateLimited: (wait: string) =>
+      `I hit my usage limit 😬 You'll have to wait ${wait} before using me again.`,
+    rateLimitDefaultWait: "a few minutes",
+    hours: (n: number) => `${n} hour${n > 1 ? "s" : ""}`,
+    minutes: (n: number) => `${n} minute${n > 1 ? "s" : ""}`,
+    seconds: (n: number) => `${n} seconds`,
+    durationSeparator: " and "
+  },
+
+  audio: {
+    notUnderstood: "I couldn't understand the audio. Please try again."
+  },
+
+  help:
+    "I didn't quite get that 😅 I can help you with:\n" +
+    "• Reminders: 'remind me tomorrow at 3 to call mom'\n" +
+    "• Recurring reminders: 'remind me every day at 8 to take my pill'\n" +
+    "• List tasks: 'what tasks do I have'\n" +
+    "• Cancel: 'cancel task 2'\n" +
+    "• Change time: 'move task 1 to 5pm'\n" +
+    "• Connect email: 'connect my email'\n" +
+    "• Reply to email: 'reply to that email saying I accept'\n" +
+    "• Search email: 'find the email from John about the budget'\n" +
+    "• Search products: 'find me bluetooth headphones'\n" +
+    "• Connect MercadoLibre: 'connect my mercado libre'\n" +
+    "• Track order: 'where is my package'\n" +
+    "• Daily digest: 'enable daily digest' / 'disable daily digest'\n" +
+    "• Expenses: 'how much did I spend this month'\n" +
+    "• Log an expense: 'I spent 4500 at the supermarket'\n" +
+    "• Income: 'got my salary, 850000' / 'cash flow this month'\n" +
+    "• Budgets: 'food budget 200000 per month'\n" +
+    "• Fix categories: 'Rappi is food, not shopping'\n" +
+    "• Your own categories and tags: 'create the pets category' / 'expenses tagged work this month'\n" +
+    "• Export expenses: 'send me September's expenses as excel'\n" +
+    "• Subscriptions: 'which subscriptions do I pay'\n" +
+    "• Shared expenses: 'create the home group' / 'how are the home balances'\n" +
+    "• Financial advice: 'give me saving tips'\n" +
+    "• Dollar: 'what's the dollar rate?'\n" +
+    "• News: 'what's in the news today?'\n" +
+    "• Crypto: 'how much is bitcoin?'\n" +
+    "• Directions: 'how do I get from Palermo to Recoleta'\n" +
+    "• Recurring payments: 'pay 5000 every Monday to alias gonzalez.mp'\n" +
+    "• Scheduled payments: 'my scheduled payments'\n" +
+    "• Cancel payment: 'cancel recurring payment 1'\n" +
+    "• Timezone: 'I'm in Madrid'\n" +
+    "• Language: 'talk to me in Spanish'\n" +
+    "• Link with the web: /connect",
+
+  subscription: {
+    noLinkedAccount:
+      "To use the bot, you first need to link your account.\n\n" +
+      "1. Sign up on the website\n" +
+      "2. Send /connect here to link your WhatsApp\n\n" +
+      "If you already have an account, send /connect to link it.",
+    noActiveSubscription:
+      "You don't have an active subscription.\n\n" +
+      "Go to the website to choose a plan and start using the bot.",
+    reminderLimit: (max: number, plan: string) =>
+      `You reached the limit of ${max} reminders on your ${plan} plan.\n\n` +
+      "Cancel a reminder or upgrade your plan to create more.",
+    emailReplyNotIncluded:
+      "Your plan doesn't include email replies.\n\n" +
+      "Upgrade your plan to reply to emails from WhatsApp.",
+    emailNotIncluded: (plan: string) =>
+      `Your ${plan} plan doesn't include the email integration.\n\n` +
+      "Upgrade to Pro to connect your Gmail and get notifications.",
+    emailAccountLimit: (max: number, plan: string) =>
+      `Your ${plan} plan allows ${max} ${max === 1 ? "mailbox" : "mailboxes"}.\n\n` +
+      "Unlink one or upgrade your plan to connect another."
+  },
+
+  reminders: {
+    weekdays: ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"],
+    defaultDescription: "what you asked",
+    missingDateTime: (description: string) =>
+      `Got it! But I need to know *when* you want me to remind you "${description}" 📅\n\n` +
+      "For example:\n" +
+      "• 'tomorrow at 3'\n" +
+      "• 'on Friday at 10'\n" +
+      "• 'every day at 8'\n" +
+      "• 'every Monday at 9'",
+    notUnderstood: "I didn't quite get what you want to remember 😅 Tell me again: what and when?",
+    createdMany: (count: number) => `✅ Done! I created ${count} reminders:\n\n`,
+    confirmRecurring: (schedule: string, time: string, description: string) =>
+      `✅ Done! I'll remind you "${description}" ${schedule} at ${time} 🔁`,
+    confirmOnce: (date: string, description: string) =>
+      `✅ Done! On ${date} I'll remind you "${description}" 🗓️`,
+    shortRecurring: (description: string, schedule: string, time: string) =>
+      `"${description}" — ${schedule} at ${time} 🔁`,
+    shortOnce: (description: string, date: string) => `"${description}" - ${date}`,
+    listEmpty: "You have no pending tasks! 🎉",
+    listHeader: "📋 *Your pending tasks:*\n\n",
+    listRecurring: (schedule: string, time: string) => `${capitalize(schedule)} ${time}`,
+    listFooter: `_To cancel: "cancel task 2" • To change the time: "move task 1 to 5pm"_`,
+    cancelAskNumber: "Tell me the number of the task to cancel. E.g.: 'cancel task 2'",
+    notFound: (taskNumber: number, count: number) =>
+      `Task ${taskNumber} doesn't exist 🤔 You have ${count} pending task(s).`,
+    cancelled: (taskNumber: number, text: string, wasRecurring: boolean) =>
+      `Done! I cancelled task ${taskNumber}: "${text}" ❌` +
+      (wasRecurring ? "\n_(It won't repeat anymore)_" : ""),
+    modifyAskNumber: "Tell me the number of the task to change. E.g.: 'move task 2 to 5pm'",
+    modifyAskTime: "Tell me the new time. E.g.: 'move task 2 to 5 in the afternoon'",
+    modifyAskNewTime: "What time do you want to move the task to? E.g.: 'tomorrow at 5pm'",
+    modified: (taskNumber: number, date: string) =>
+      `✅ Done! I moved task ${taskNumber} to ${date}`,
+    modifyTimeNotUnderstood: "I couldn't understand the time. Try again with 'move task N to Xpm'.",
+    modifyTimeError: "Something went wrong processing the time. Please try again.",
+    actions: {
+      menuButton: "Snooze / Done",
+      snooze10m: "⏰ In 10 minutes",
+      snooze1h: "⏰ In 1 hour",
+      snoozeTomorrow: "📅 Tomorrow, same time",
+      done: "✅ Done",
+      footer: 'You can also reply "in half an hour" or "done"',
+      snoozed: (date: string) => `⏰ Sure! I'll remind you again on ${date}`,
+      snoozeAskTime: "When should I remind you again? E.g. 'in half an hour', 'tomorrow at 9'",
+      acknowledged: (text: string) => `✅ Great! I marked "${text}" as done 💪`,
+      noTarget: "I'm not sure which reminder you mean 🤔 Reply directly to the reminder message.",
+      inactive: "That reminder is no longer active."
+    },
+    nagging: {
+      repeat: (message: string, n: number, max: number) =>
+        `🔁 *Reminding you again* (${n}/${max})\n\n${message}`,
+      confirmSuffix: "\n_I'll keep insisting until you confirm you did it_ 🔁",
+      shortMark: " ❗",
+      escalatedContact: (who: string, text: string) =>
+        `⚠️ Hi! I'm ${who}'s reminder assistant. I reminded them several times about "${text}" and they haven't confirmed yet. Could you let them know?`,
+      escalatedUser: (phone: string) =>
+        `⚠️ Since you didn't confirm, I let your contact (${phone}) know.`,
+      contactSet: (phone: string) =>
+        `✅ Done! If you don't confirm an important reminder, I'll let ${phone} know.`,
+      contactAskPhone:
+        "Send me the number with its country code. E.g. 'if I don't answer tell +1 555 123 4567'",
+      contactRemoved: "✅ Done, I won't tell anyone if you don't confirm.",
+      contactError: "Something went wrong saving the contact. Please try again later.",
+      contactUnavailable: "The emergency contact feature isn't available right now."
+    },
+    calendarLead: {
+      set: (minutes: number) =>
+        `✅ Done! I'll remind you ${minutes} minutes before each event in your Google Calendar.\n` +
+        "_Events I had already imported are adjusted over the course of the day._",
+      askMinutes:
+        "How many minutes before should I remind you of events? E.g. 'remind me 30 minutes before meetings'",
+      error: "Something went wrong saving the lead time. Please try again later.",
+      unavailable: "This setting isn't available right now.",
+      untitledEvent: "Google Calendar event"
+    },
+    recurrence: {
+      dayNames: ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"],
+      and: "and",
+      daily: "every day",
+      everyNDays: (n: number) => `every ${n} days`,
+      weekdays: "on weekdays",
+      weekly: (days: string) => `every ${days}`,
+      everyNWeeks: (n: number, days: string) => `every ${n} weeks on ${days}`,
+      monthly: (detail: string) => `on ${detail} of every month`,
+      everyNMonths: (n: number, detail: string) => `on ${detail} every ${n} months`,
+      monthDay: (day: number) =>
+        day === -1
+          ? "the last day"
+          : day < 0
+            ? `the ${ordinal(-day)} to last day`
+            : `the ${ordinal(day)}`,
+      nthWeekday: (nth: number, day: string) =>
+        nth === -1
+          ? `the last ${day}`
+          : `the ${["first", "second", "third", "fourth", "fifth"][nth - 1] ?? ordinal(nth)} ${day}`,
+      until: (date: string) => `until ${date}`,
+      times: (count: number) => `${count} times`
+    },
+    notificationTemplates: [
+      (d: string) => `⏰ Hey! Don't forget: *${d}*`,
+      (d: string) => `🔔 Heads up, you have to: *${d}*`,
+      (d: string) => `📌 *Reminder:*\n${d}`,
+      (d: string) => `🎯 It's time to: *${d}*`,
+      (d: string) => `💬 Psst! Don't let this slip: *${d}*`,
+      (d: string) => `⌚ *${capitalize(d)}* — it's now!`,
+      (d: string) => `🚀 You wrote this down and the moment has come:\n*${d}*`,
+      (d: string) => `💡 You have pending: *${d}*`,
+      (d: string) => `🎉 Whoa! This one can't be forgotten: *${d}*`,
+      (d: string) => `⚡ Remember:\n*${d}*`,
+      (d: string) => `📢 *${capitalize(d)}* ← you wrote this 😏`,
+      (d: string) => `🔮 Past you says hi:\n*${d}*`,
+      (d: string) => `👋 Hey, it's me from before: *don't forget to ${d}*`,
+      (d: string) => `🗓️ You scheduled this and it's here:\n*${d}*`,
+      (d: string) => `💭 Yes, yes... *${d}*. That reminder you set.`,
+      (d: string) => `🔔 Hold on! You had something pending:\n*${d}*`,
+      (d: string) => `😤 Come on, you can do it: *${d}*`,
+      (d: string) => `🪄 Poof! Here's your reminder: *${d}*`
+    ]
+  },
+
+  digest: {
+    unavailable: "The daily digest isn't available right now.",
+    enabled: (hour: string) =>
+      `✅ Daily digest enabled at ${hour}:00.\n\nEvery morning I'll send you a summary of the day's reminders.`,
+    enableError: "Something went wrong enabling the daily digest. Please try again later.",
+    disabled:
+      "✅ Daily digest disabled.\n\nI won't send you the morning summary anymore. You can turn it back on whenever you want.",
+    disableError: "Something went wrong disabling the daily digest. Please try again later.",
+    empty: "🌅 *Good morning!*\n\nYou have no reminders for today. Have a great day! ✨",
+    header: (date: string) => `🌅 *Good morning!*\n\nYour reminders for today, ${date}:\n\n`,
+    footer: (count: number) =>
+      `\nYou have ${count} reminder${count > 1 ? "s" : ""} today. Go get them! 💪`
+  },
+
+  email: {
+    unavailable: "Email features aren't available right now.",
+    alreadyLinked: (label: string) =>
+      `Your "${label}" email is already connected! 📧\n\n` +
+      "I'll automatically let you know about deliveries, appointments and meetings.\n\n" +
+      "To add another one, tell me something like 'connect my work email'.",
+    whichAccount: (accounts: string[]) =>
+      `You have several emails connected:\n${accounts.map((a) => `• ${a}`).join("\n")}\n\n` +
+      "Which one? E.g.: 'my work email'",
+    accountNotFound: (label: string, accounts: string[]) =>
+      `You don't have a "${label}" email. Your emails:\n` +
+      accounts.map((a) => `• ${a}`).join("\n"),
+    link: (authUrl: string, includeReply: boolean) =>
+      `📧 *Connect your Gmail*\n\n` +
+      `To link your email, open this link:\n\n` +
+      `${authUrl}\n\n` +
+      `Once you authorize it, I'll be able to notify you about:\n` +
+      `📦 Purchase deliveries\n` +
+      `📅 Appointments\n` +
+      `🗓️ Meetings\n` +
+      `✈️ Flights\n` +
+      (includeReply ? "📧 Replying to emails from WhatsApp\n" : "") +
+      `\n` +
+      `Using Outlook, Yahoo or another provider? Connect it over IMAP from your account's connections page.\n\n` +
+      (includeReply
+        ? "_Your privacy matters: I only access what's needed to read and reply._"
+        : "_Your privacy matters: I only read emails, I never send anything._"),
+    noneLinked: "You don't have any email connected.",
+    notConnected: "You don't have an email connected. Tell me 'connect my email' to link it.",
+    unlinked:
+      "Email disconnected successfully. ✅\n\n" +
+      "I won't get notifications from your inbox anymore.\n" +
+      "If you want to connect it again, tell me 'connect my email'.",
+    unlinkError: "Something went wrong disconnecting the email. Please try again later.",
+    statusNoUser:
+      "📧 *Email status*\n\n" +
+      "You don't have an email connected.\n\n" +
+      "Tell me 'connect my email' to link it.",
+    statusConnected: (accounts: string[]) =>
+      "📧 *Email status*\n\n" +
+      `✅ Connected emails:\n${accounts.map((a) => `• ${a}`).join("\n")}\n\n` +
+      "I'm watching your inbox to let you know about deliveries, appointments, meetings and flights.",
+    statusDisconnected:
+      "📧 *Email status*\n\n" +
+      "❌ Your email isn't connected.\n\n" +
+      "Tell me 'connect my email' to link it.",
+    statusError: "Something went wrong checking the status. Please try again later.",
+    replyUnavailable: "Email replies aren't available right now.",
+    replyAskInstruction:
+      "Tell me what you want to reply. E.g.: 'reply to the email saying I accept the meeting'",
+    replyAskInstructionShort:
+      "Tell me what you want to reply. E.g.: 'tell them I accept the offer'",
+    needsSendScope: (authUrl: string) =>
+      "To reply to emails, you need to re-authorize your Gmail with send permissions.\n\n" +
+      `Open this link: ${authUrl}\n\n` +
+      "Once authorized, ask me again to reply to the email.",
+    noRecentEmail: "I don't have a recent email to reply to.",
+    noViewedEmail: "I don't have a saved email to reply to.",
+    replyPreview: (to: string, subject: string, body: string) =>
+      `*Reply preview:*\n\n` +
+      `*To:* ${to}\n` +
+      `*Subject:* ${subject}\n\n` +
+      `${body}\n\n` +
+      `_Reply "send" to send it or "cancel" to discard it._`,
+    replyError: "Something went wrong preparing the reply. Please try again later.",
+    gmailUnavailable: "Error: Gmail service not available.",
+    sent: "Email sent successfully!",
+    sendError: "Something went wrong sending the email. Please try again later.",
+    replyDiscarded: "Reply discarded.",
+    searchAskQuery:
+      "Tell me which email you're looking for. E.g.: 'find the email from John about the budget'",
+    searching: "Searching your emails... 🔍",
+    searchNoResults: "I couldn't find any email matching your search. Try other terms.",
+    extracted: (query: string, result: string) => `🔍 *${query}:*\n\n${result}`,
+    found: (email: { from: string; subject: string; date: string; preview: string }) =>
+      `📧 *Email found:*\n\n` +
+      `*From:* ${email.from}\n` +
+      `*Subject:* ${email.subject}\n` +
+      `*Date:* ${email.date}\n` +
+      (email.preview ? `\n${email.preview}` : "") +
+      `\n\n_Do you want to reply? Say "yes" or "no"._`,
+    searchError: "Something went wrong searching your emails. Please try again later.",
+    notify: {
+      documentTitles: {
+        DELIVERY: "📦 I found delivery details in your file!",
+        APPOINTMENT: "📅 I found an appointment in your file!",
+        MEETING: "🗓️ I found a meeting in your file!",
+        FLIGHT: "✈️ I found a flight in your file!"
+      } as Record<string, string>,
+      delivery: {
+        title: "📦 I found an email about a delivery!",
+        arrives: "Arrives",
+        footer: "I'll let you know when it's time!"
+      },
+      appointment: {
+        title: "📅 I found an appointment in your email!",
+        when: "When",
+        where: "Where",
+        footer: "I'll remind you beforehand so you don't forget!"
+      },
+      meeting: {
+        title: "🗓️ I found a meeting in your email!",
+        when: "When",
+        organizer: "Organizer",
+        link: "Link",
+        footer: "I'll remind you a few minutes before!"
+      },
+      flight: {
+        title: "✈️ I found a flight in your email!",
+        flight: "Flight",
+        departs: (date: string, airport: string) => `Departs: ${date} from ${airport}`,
+        footer: "I'll remind you with enough time to get to the airport!"
+      },
+      security: {
+        title: "🚨 *SECURITY ALERT*",
+        service: "Service",
+        type: "Type",
+        location: "Location/IP",
+        action: "Recommended action",
+        footer: "_If it wasn't you, act right away._",
+        alertTypes: {
+          login_suspicious: "Suspicious sign-in",
+          password_change: "Password change",
+          phishing: "Possible phishing",
+          data_breach: "Data breach",
+          unrecognized_transaction: "Unrecognized transaction",
+          new_device: "New device",
+          unauthorized_access: "Unauthorized access",
+          unknown_subscription: "Unknown subscription"
+        }
+      },
+      legalHearing: {
+        title: "⚖️ COURT HEARING detected!",
+        caseNumber: "Case",
+        type: "Type",
+        address: "Address",
+        footer: "I'll remind you 24 hours before!"
+      },
+      deadline: {
+        title: "⏰ DEADLINE detected!",
+        due: "Due",
+        action: "Action",
+        caseNumber: "Case",
+        type: "Type",
+        footer: "I'll remind you 48 hours before so you have time to act!"
+      },
+      course: {
+        title: "📚 I found a course/training!",
+        start: "Starts",
+        organizer: "Organizer",
+        instructor: "Instructor",
+        link: "Link",
+        place: "Place",
+        footer: "I'll remind you 1 hour before!"
+      },
+      task: {
+        title: "✅ New task detected!",
+        due: "Due",
+        relatedCase: "Case",
+        assignedBy: "Assigned by",
+        priority: "Priority",
+        footer: "I'll remind you tomorrow so it doesn't slip!"
+      },
+      legalInfo: {
+        title: "📜 Relevant legal information!",
+        source: "Source",
+        footer: "I'll remind you tomorrow to review it!"
+      },
+      event: {
+        title: "🎯 I found an event!",
+        when: "When",
+        organizer: "Organizer",
+        place: "Place",
+        link: "Link",
+        footer: "I'll remind you 30 minutes before!"
+      },
+      allowed: (from: string, subject: string, summary: string) =>
+        `📬 *New email from ${from}*\n\n` +
+        `*${subject}*\n` +
+        `${summary}\n\n` +
+        `_I'm telling you because you have a rule for these emails._`
+    }
+  },
+
+  emailRules: {
+    unavailable: "Email rules aren't available right now.",
+    missingTarget:
+      "Which emails? Tell me a sender (e.g. *never notify me about emails from Rappi*) " +
+      "or a type (e.g. *no delivery alerts*).",
+    added: (rules: string[]) =>
+      `✅ Done, from now on:\n\n${rules.map((rule) => `• ${rule}`).join("\n")}`,
+    list: (rules: string[]) =>
+      `📬 *Your email rules*\n\n` +
+      rules.map((rule, i) => `${i + 1}. ${rule}`).join("\n") +
+      `\n\n_To delete one, tell me *delete rule 2*._`,
+    listEmpty:
+      "You don't have email rules. Try *never notify me about emails from Rappi* " +
+      "or *always notify me about my bank*.",
+    deleted: (rule: string) => `🗑️ Deleted the rule: ${rule}`,
+    notFound: (index: number) => `I couldn't find rule ${index}. Say *my email rules* to see them.`,
+    error: "Something went wrong with your email rules. Please try again later.",
+    ruleSender: (allow: boolean, sender: string) =>
+      allow
+        ? `I always notify you about emails from *${sender}*`
+        : `I never notify you about emails from *${sender}*`,
+    ruleType: (allow: boolean, type: string) =>
+      allow ? `I always notify you about ${type}` : `I never notify you about ${type}`,
+    ruleAll: (allow: boolean) =>
+      allow ? "I notify you about every email" : "I don't notify you about any email",
+    ruleWindow: (rule: string, from: string, to: string) => `${rule} between ${from} and ${to}`,
+    types: {
+      PURCHASE: "purchases",
+      INCOME: "income",
+      DELIVERY: "deliveries",
+      APPOINTMENT: "appointments",
+      MEETING: "meetings",
+      FLIGHT: "flights",
+      LEGAL_HEARING: "court hearings",
+      SECURITY: "security alerts",
+      DEADLINE: "deadlines",
+      COURSE: "courses",
+      TASK: "tasks",
+      LEGAL_INFO: "legal information",
+      EVENT: "events"
+    } as Record<string, string>
+  },
+
+  emailDigest: {
+    unavailable: "The email summary isn't available right now.",
+    enabled: (hours: string[]) =>
+      `✅ Done, I'll collect the emails that aren't urgent and send them to you at ` +
+      `${hours.length > 1 ? `${hours.slice(0, -1).join(", ")} and ${hours[hours.length - 1]}` : hours[0]}.\n\n` +
+      `I'll still tell you about security alerts and upcoming appointments or meetings right away.`,
+    disabled: "✅ Done, I'll go back to telling you about each email as it arrives.",
+    error: "Something went wrong with the email summary. Please try again later.",
+    header: (count: number) =>
+      `📬 *Email summary*\n\n` +
+      `You got ${count} email${count > 1 ? "s" : ""} that weren't urgent:\n\n`,
+    page: (page: number, pages: number) => `📬 *Email summary (${page}/${pages})*\n\n`,
+    noSubject: "(no subject)",
+    button: "See emails",
+    footer: "Pick one to open it",
+    textHint: "To open one, tell me something like *find the email from Amazon*.",
+    openError: "I couldn't open that email. Try finding it with *find the email from ...*."
+  },
+
+  connect: {
+    unavailable: "Account linking isn't available right now.",
+    code: (code: string) =>
+      `🔗 *Link with the web*\n\n` +
+      `Your linking code is:\n\n` +
+      `*${code}*\n\n` +
+      `Enter it on the connections page of your account.\n\n` +
+      `⏳ This code expires in 5 minutes.`,
+    error: "Something went wrong generating the code. Please try again later."
+  },
+
+  linking: {
+    localNetwork: "Local network",
+    unknown: "Unknown",
+    accountLinked: (data: { username: string; ip: string; location: string }) =>
+      `✅ *Account linked successfully*\n\n` +
+      `Your WhatsApp has been linked to the account:\n\n` +
+      `👤 *User:* ${data.username}\n` +
+      `🌐 *IP:* ${data.ip}\n` +
+      `📍 *Location:* ${data.location}\n\n` +
+      `If this wasn't you, unlink your account from the website immediately.`
+  },
+
+  products: {
+    unavailable: "Product search isn't available right now.",
+    askQuery: "Tell me which product you're looking for. E.g.: 'find me bluetooth headphones'",
+    searching: "Searching products... 🔍",
+    noResults: "I couldn't find results for your search. Try other terms.",
+    header: (query: string) => `🛒 *Best prices for "${query}":*\n\n`,
+    bestPrice: " 🏷️ *Best price!*",
+    footer: (count: number) => `_Showing ${count} result${count > 1 ? "s" : ""} sorted by price._`,
+    error: "Something went wrong searching products. Please try again later."
+  },
+
+  meli: {
+    unavailable: "MercadoLibre features aren't available right now.",
+    alreadyLinked:
+      "Your MercadoLibre is already connected! 🛒\n\n" +
+      "I can search products and track your orders.\n\n" +
+      "If you want to disconnect it, tell me 'disconnect mercado libre'.",
+    link: (authUrl: string) =>
+      `🛒 *Connect MercadoLibre*\n\n` +
+      `To link your account, open this link:\n\n` +
+      `${authUrl}\n\n` +
+      `Once you authorize it, I'll be able to:\n` +
+      `🔍 Search products with your account\n` +
+      `📦 Track your orders and shipments\n\n` +
+      `_Your privacy matters: I only access your purchases and searches._`,
+    notLinked: "You don't have MercadoLibre connected.",
+    unlinked:
+      "MercadoLibre disconnected successfully. ✅\n\n" +
+      "I won't be able to track your orders anymore.\n" +
+      "If you want to connect it again, tell me 'connect my mercado libre'.",
+    unlinkError: "Something went wrong disconnecting MercadoLibre. Please try again later.",
+    trackUnavailable: "Order tracking isn't available right now.",
+    trackNoAccount:
+      "You don't have a linked account. Tell me 'connect my mercado libre' to get started.",
+    trackNotLinked:
+      "You don't have MercadoLibre connected. Tell me 'connect my mercado libre' to link it.",
+    trackSearching: "Looking for your recent orders... 📦",
+    noOrders: "I couldn't find recent orders in your MercadoLibre account.",
+    ordersHeader: "📦 *Your recent orders:*\n\n",
+    trackError: "Something went wrong checking your orders. Please try again later.",
+    shipmentStatus: {
+      pending: "Pending",
+      handling: "Being prepared",
+      ready_to_ship: "Ready to ship",
+      shipped: "On its way 🚚",
+      delivered: "Delivered ✅",
+      not_delivered: "Not delivered ❌",
+      cancelled: "Cancelled"
+    }
+  },
+
+  expenses: {
+    unavailable: "Expense tracking isn't available right now.",
+    summaryUnavailable: "Expense summaries aren't available.",
+    noExpenses:
+      "I couldn't find any expenses for this period.\n\n" +
+      "Connect your Gmail so I can analyze your purchases: tell me 'connect my email'.",
+    noFilteredExpenses: (filter: string) =>
+      `I couldn't find any ${filter} expenses in this period.`,
+    filteredPeriod: (period: string, filter: string) => `${period} · ${filter}`,
+    adviceHint: "Want personalized tips based on your spending? Tell me *give me saving tips*.",
+    error: "Something went wrong checking your expenses. Please try again later.",
+    weekPeriod: (start: string, end: string) => `Week of ${start} to ${end}`,
+    summaryTitle: (period: string) => `📊 *Expense summary - ${period}*\n\n`,
+    totalSpent: "💰 *Total spent:*\n",
+    consolidated: (currency: string, official: string, blue: string) =>
+      `≈ *Total in ${currency}:* ${official} (official rate) · ${blue} (blue rate)\n`,
+    unconverted: (count: number) =>
+      `_(${count} expense${count !== 1 ? "s" : ""} in other currencies not converted)_\n`,
+    byCategory: "📂 *By category:*\n",
+    topMerchants: "🏪 *Top merchants:*\n",
+    transactions: (count: number) => `📈 *${count} transaction${count !== 1 ? "s" : ""} processed*`,
+    adviceSection: (advice: string) => `\n\n💡 *Personalized tips:*\n${advice}`,
+    categories: {
+      FOOD: "Food",
+      TRANSPORT: "Transport",
+      SHOPPING: "Shopping",
+      UTILITIES: "Utilities",
+      ENTERTAINMENT: "Entertainment",
+      HEALTH: "Health",
+      EDUCATION: "Education",
+      TRAVEL: "Travel",
+      SERVICES: "Services",
+      OTHER: "Other"
+    },
+    manual: {
+      saved: (line: string) => `✅ Expense logged: ${line}`,
+      undoButton: "↩️ Undo",
+      footer: "To fix it, tell me for example *the last expense was 5000*",
+      undoHint: "If I got it wrong, tell me *undo* or *the last expense was 5000*.",
+      missingAmount:
+        "How much did you spend? Tell me the amount, e.g. *I spent 4500 at the supermarket*.",
+      undone: (line: string) => `↩️ Done, I removed the expense: ${line}`,
+      undoNotFound: "That expense no longer exists.",
+      edited: (line: string) => `✏️ Expense updated: ${line}`,
+      editNothing: "What do you want to change? Tell me the amount, merchant or category.",
+      learned: (merchant: string, category: string) =>
+        `🧠 From now on *${merchant}* goes to *${category}*.`,
+      notFound: (position: number) =>
+        `I couldn't find expense ${position}. Tell me *my latest expenses* to see the list.`,
+      deleted: (lines: string[]) =>
+        `🗑️ Removed ${lines.length} expense${lines.length !== 1 ? "s" : ""}:\n${lines.map((l) => `• ${l}`).join("\n")}`,
+      noneToDelete: "You have no logged expenses to remove.",
+      confirmDelete: (lines: string[]) =>
+        `Remove ${lines.length === 1 ? "this expense" : `these ${lines.length} expenses`}?\n` +
+        `${lines.map((l) => `• ${l}`).join("\n")}\n\n` +
+        "Reply *yes* to remove or *no* to cancel.",
+      deleteCancelled: "Ok, nothing was removed.",
+      recentHeader: "🧾 *Your latest expenses:*\n\n",
+      recentFooter:
+        "\nTo fix one, tell me for example *expense 2 was food* or *delete the last expense*.",
+      recentEmpty:
+        "You haven't logged any expenses yet. Tell me, e.g., *I spent 4500 at the supermarket*.",
+      line: (
+        amount: string,
+        merchant: string | null,
+        category: string,
+        date: string,
+        tags: string[] = []
+      ) =>
+        `*${amount}*${merchant ? ` at ${merchant}` : ""} (${category}, ${date})` +
+        tags.map((tag) => ` #${tag}`).join(""),
+      error: "Something went wrong logging the expense. Please try again later."
+    },
+    export: {
+      filePrefix: "expenses",
+      columns: {
+        date: "Date",
+        merchant: "Merchant",
+        category: "Category",
+        description: "Description",
+        amount: "Amount",
+        currency: "Currency",
+        source: "Source"
+      },
+      sourceEmail: "Email",
+      sourceManual: "Manual",
+      generating: "Building the file... 📎",
+      caption: (count: number, from: string, to: string) =>
+        `📎 ${count} expense${count !== 1 ? "s" : ""} from ${from} to ${to}`,
+      empty: (from: string, to: string) => `I found no expenses from ${from} to ${to}.`,
+      invalidRange: "I didn't get the period. Tell me, for example, *September's expenses*.",
+      error: "Something went wrong exporting your expenses. Please try again later."
+    },
+    rules: {
+      missingMerchant: "Which merchant? Tell me, for example, *Rappi is food, not shopping*.",
+      invalidCategory: (categories: string) =>
+        `Which category does it go in? It can be: ${categories}.`,
+      saved: (merchant: string, category: string, relabelled: number) =>
+        `🧠 Done, *${merchant}* goes to *${category}* from now on` +
+        (relabelled > 0
+          ? ` and I fixed ${relabelled} earlier expense${relabelled !== 1 ? "s" : ""}.`
+          : "."),
+      error: "Something went wrong changing the category. Please try again later."
+    },
+    custom: {
+      missingName: "What's the category called? Tell me, for example, *create the pets category*.",
+      created: (name: string) =>
+        `🏷️ Created the *${name}* category. Use it when logging: *spent 3000 at the vet, category ${name}*.`,
+      exists: (name: string) => `You already have a *${name}* category.`,
+      deleted: (name: string) =>
+        `🗑️ Deleted the *${name}* category. Its expenses go back to their usual category.`,
+      notFound: (name: string) =>
+        `You don't have a *${name}* category. Tell me *my categories* to see yours.`,
+      listHeader: "🏷️ *Your categories:*\n\n",
+      listEmpty:
+        "You haven't created any categories yet. Tell me, for example, *create the pets category*.",
+      listFooter:
+        "\nTo see how much you've spent tell me, for example, *how much did I spend on pets this month*.",
+      error: "Something went wrong with your categories. Please try again later."
+    }
+  },
+
+  advice: {
+    unavailable: "Financial advice isn't available right now.",
+    noData:
+      "I don't have enough expense data to give you personalized tips.\n\n" +
+      "Connect your Gmail so I can analyze your purchases: tell me 'connect my email'.",
+    analyzing: "Analyzing your expenses... 📊",
+    result: (advice: string) => `💡 *Financial tips:*\n\n${advice}`,
+    error: "Something went wrong generating the tips. Please try again later.",
+    notEnoughData: "There isn't enough expense data to generate personalized tips.",
+    generationFailed: "I couldn't generate tips right now. Please try again later."
+  },
+
+  budgets: {
+    unavailable: "Budgets aren't available right now.",
+    invalidCategory: (categories: string) =>
+      `For which category? It can be: ${categories}.\nFor example: *food budget 200000 per month*.`,
+    missingAmount: "What's the most you want to spend per month in that category?",
+    set: (category: string, amount: string) =>
+      `🎯 Done, your *${category}* budget is *${amount}* per month. I'll let you know at 50%, 80% and 100%.`,
+    deleted: (category: string) => `🗑️ I removed the *${category}* budget.`,
+    notFound: (category: string) => `You don't have a *${category}* budget.`,
+    listHeader: "🎯 *Your budgets this month:*\n\n",
+    listEmpty: "You have no budgets. Create one by saying, e.g., *food budget 200000 per month*.",
+    listFooter: "\n\nTo remove one, tell me for example *delete the food budget*.",
+    statusLine: (icon: string, category: string, spent: string, limit: string, percent: number) =>
+      `${icon} ${category}: ${spent} of ${limit} (${percent}%)`,
+    summarySection: (lines: string) => `\n\n🎯 *Budgets:*\n${lines}`,
+    alert: (percent: number, category: string, spent: string, limit: string) =>
+      percent >= 100
+        ? `🔴 You went over your *${category}* budget: ${spent} of ${limit} this month.`
+        : `${percent >= 80 ? "🟡" : "🟢"} You've used *${percent}%* of your *${category}* budget: ${spent} of ${limit} this month.`,
+    error: "Something went wrong with your budgets. Please try again later."
+  },
+
+  recurring: {
+    unavailable: "Subscription detection isn't available right now.",
+    analyzing: "Looking for repeating charges in your expenses... 🔁",
+    empty:
+      "I found no subscriptions or repeating charges. I need at least 3 similar charges from the same merchant (2 for yearly ones).",
+    header: "🔁 *Your subscriptions and fixed charges:*\n\n",
+    periods: {
+      WEEKLY: "per week",
+      MONTHLY: "per month",
+      YEARLY: "per year"
+    },
+    line: (
+      index: number,
+      merchant: string,
+      amount: string,
+      period: string,
+      next: string,
+      previous: string | null
+    ) =>
+      `*${index}.* ${merchant}: *${amount}* ${period}${previous ? ` (was ${previous} 📈)` : ""} · next charge ~${next}`,
+    monthlyTotal: (amount: string) => `💰 *Estimated monthly total:* ${amount}`,
+    remindTitle: "⏰ Charge reminders",
+    remindButton: "Choose",
+    remindFooter: "Pick one and I'll remind you the day before each charge",
+    remindRow: "Remind me the day before",
+    remindHint:
+      "To get a reminder before a charge, tell me, for example, *remind me before Netflix*.",
+    reminderText: (merchant: string, amount: string) =>
+      `${merchant} charges you tomorrow (${amount}) 💳`,
+    reminderSet: (merchant: string, date: string) =>
+      `⏰ Done, I'll remind you the day before each *${merchant}* charge. The first one: ${date}.`,
+    reminderExists: (merchant: string) =>
+      `I'm already reminding you before each *${merchant}* charge.`,
+    notFound: (merchant: string) =>
+      `I didn't find a fixed charge from *${merchant}*. Tell me *my subscriptions* to see the list.`,
+    missingMerchant:
+      "Which charge should I remind you about? For example: *remind me before Netflix*.",
+    priceIncrease: (merchant: string, before: string, now: string, percent: number) =>
+      `📈 *${merchant}* went up from ${before} to *${now}* (+${percent}%).`,
+    missed: (merchant: string, amount: string, date: string) =>
+      `🤔 I didn't see the *${merchant}* charge (${amount}) I expected on ${date}. Did you cancel it or change cards?`,
+    error: "Something went wrong looking up your subscriptions. Please try again later."
+  },
+
+  groups: {
+    unavailable: "Shared expenses are not available right now.",
+    missingName: "What's the group called? Tell me, for example, *create the home group*.",
+    created: (name: string) =>
+      `🏠 Created the *${name}* group. Add someone with *invite +1 555 123 4567 to ${name}*.`,
+    noGroups: "You're not in any group. Create one with *create the home group*.",
+    notFound: (name: string) => `I couldn't find the *${name}* group.`,
+    pickGroup: (names: string) => `Which group? You have: ${names}.`,
+    askPhone: "Who should I invite? Tell me their number, for example *invite +1 555 123 4567*.",
+    notLinked: (phone: string) =>
+      `${phone} doesn't use the bot yet. Ask them to message me and invite them again.`,
+    inviteSelf: "You're already in the group 😄",
+    alreadyMember: (name: string, group: string) => `${name} is already in *${group}*.`,
+    invited: (name: string, group: string) =>
+      `📨 Invited ${name} to *${group}*. I'll let you know when they accept.`,
+    invitation: (inviter: string, group: string) =>
+      `🏠 ${inviter} invited you to share expenses in the *${group}* group.`,
+    acceptButton: "✅ Join",
+    declineButton: "No, thanks",
+    invitationFooter: "You'll see what you owe each other",
+    invitationHint: (group: string) => `To join tell me *join the ${group} group*.`,
+    noInvitation: "You have no pending invitations to that group.",
+    joined: (group: string) =>
+      `✅ You're in *${group}*. To share an expense tell me *the last expense is shared with ${group}*.`,
+    declined: (group: string) => `Okay, I didn't add you to *${group}*.`,
+    memberJoined: (name: string, group: string) => `👋 ${name} joined *${group}*.`,
+    needMembers: (group: string) =>
+      `You're the only one in *${group}* so far. Invite someone with *invite +1 555 123 4567*.`,
+    noExpense: "I couldn't find that expense. Tell me *my latest expenses* to see the list.",
+    shared: (group: string, lines: string[]) =>
+      `🤝 Shared in *${group}*:\n${lines.map((l) => `• ${l}`).join("\n")}`,
+    shareLine: (name: string, amount: string) => `${name} owes you ${amount}`,
+    expenseShared: (
+      payer: string,
+      group: string,
+      total: string,
+      merchant: string | null,
+      share: string
+    ) =>
+      `🤝 ${payer} shared a ${total} expense${merchant ? ` at ${merchant}` : ""} in *${group}*. Your part is ${share}.`,
+    balanceHeader: (group: string) => `⚖️ *${group} balances:*\n\n`,
+    balanceLine: (from: string, to: string, amount: string) => `• ${from} → ${to}: *${amount}*`,
+    balanceFooter: "\n\nTo settle your part tell me *settle up*.",
+    even: (group: string) => `⚖️ Everyone in *${group}* is even.`,
+    you: "You",
+    nothingToSettle: (group: string) => `You don't owe anyone in *${group}* 🙌`,
+    onlyPesos:
+      "I can only transfer pesos through Mercado Pago. Settle debts in other currencies outside the bot.",
+    askAlias: (name: string) =>
+      `I don't have ${name}'s alias. Ask them and tell me *settle up to alias ...*, or have ${name} tell me *my alias is ...*.`,
+    settleDescription: (group: string) => `Shared expenses - ${group}`,
+    settlementRecorded: (name: string, amount: string) =>
+      `⚖️ Noted that you paid ${amount} to ${name}.`,
+    settlementReceived: (name: string, amount: string, group: string) =>
+      `💸 ${name} paid you ${amount} of what they owed in *${group}*.`,
+    aliasSet: (alias: string) => `✅ Saved your alias *${alias}*. Your groups will pay you there.`,
+    aliasMissing: "Tell me your alias, CVU or CBU. For example: *my alias is gonzalez.mp*.",
+    error: "Something went wrong with shared expenses. Please try again later."
+  },
+
+  income: {
+    unavailable: "Income tracking is not available right now.",
+    missingAmount: "How much did you get? Tell me the amount, e.g. *got my salary, 850000*.",
+    saved: (line: string) => `📥 Income logged: ${line}`,
+    undoButton: "↩️ Undo",
+    footer: "To see how much you're saving say *cash flow*",
+    undoHint: "If I got it wrong say *undo*.",
+    undone: (line: string) => `↩️ Done, I deleted the income: ${line}`,
+    undoNotFound: "That income no longer exists.",
+    line: (amount: string, source: string | null, category: string, date: string) =>
+      `*${amount}*${source ? ` from ${source}` : ""} (${category}, ${date})`,
+    fromEmail: (amount: string, source: string | null, category: string) =>
+      `📥 I logged an income of *${amount}*${source ? ` from ${source}` : ""} (${category}).`,
+    categories: {
+      SALARY: "Salary",
+      FREELANCE: "Freelance",
+      TRANSFER: "Transfer",
+      INVESTMENT: "Investments",
+      RENTAL: "Rent",
+      REFUND: "Refund",
+      OTHER: "Other"
+    },
+    error: "Something went wrong logging the income. Please try again later."
+  },
+
+  cashFlow: {
+    unavailable: "Cash flow is not available right now.",
+    title: (month: string) => `💵 *Cash flow - ${month}*\n\n`,
+    income: (amount: string) => `📥 Income: ${amount}\n`,
+    expenses: (amount: string) => `📤 Expenses: ${amount}\n`,
+    net: (amount: string, positive: boolean) =>
+      `${positive ? "🟢" : "🔴"} ${positive ? "Saved" : "Shortfall"}: ${amount}\n`,
+    savingsRate: (rate: number) => `💰 Savings rate: *${rate}%*\n`,
+    noIncome:
+      "_No income logged for the month. Add it by saying, e.g., *got my salary, 850000*._\n",
+    rateChange: (points: number) =>
+      `${points >= 0 ? "📈" : "📉"} ${points >= 0 ? "+" : ""}${points} savings points vs. last month\n`,
+    expensesChange: (percent: number) =>
+      `${percent > 0 ? "🔺" : "🔻"} Expenses ${percent > 0 ? "+" : ""}${percent}% vs. last month\n`,
+    trendTitle: "\n🗓️ *Last months:*\n",
+    trendLine: (month: string, income: string, expenses: string, rate: number | null) =>
+      `• ${month}: ${income} in, ${expenses} out` +
+      (rate !== null ? ` (saved ${rate}%)` : "") +
+      "\n",
+    unconverted: (count: number) =>
+      `\n_(${count} transaction${count !== 1 ? "s" : ""} in other currencies not converted)_\n`,
+    noData: "I have no income or expenses logged for that month.",
+    summarySection: (report: string) => `\n\n${report}`,
+    error: "Something went wrong building your cash flow. Please try again later."
+  },
+
+  anomalies: {
+    title: (amount: string, merchant: string) =>
+      `⚠️ *Check this expense:* ${amount} at ${merchant}`,
+    duplicate: (time: string) =>
+      `Looks repeated: I already logged the same amount there at ${time}`,
+    unusualForMerchant: (usual: string) =>
+      `It's much more than you usually pay there (usually ${usual})`,
+    unusualForCategory: (category: string, usual: string) =>
+      `It's much more than you usually spend on ${category} (usually ${usual})`,
+    newMerchant: "It's your first purchase at this merchant and the amount is high",
+    dismissButton: "👍 It was me",
+    fraudButton: "🚨 Not me",
+    footer: "Do you recognize this expense?",
+    textHint: "If you recognize it say *it was me*; if not, *not me*.",
+    askAction: "I couldn't tell whether you recognize the expense. Say *it was me* or *not me*.",
+    dismissed: "👍 Done, it stays as a regular expense.",
+    fraud:
+      "🚨 I marked it as possible fraud and it no longer counts toward your totals or budgets.\n\n" +
+      "Call your bank or card issuer as soon as possible to dispute the charge and block the card.",
+    notFound: "I have no pending expense alerts.",
+    unavailable: "Expense alerts are not available right now.",
+    error: "Something went wrong with the alert. Please try again later."
+  },
+
+  dollar: {
+    unavailable: "Exchange rates aren't available right now.",
+    fetching: "Checking exchange rates... 💵",
+    error: "I couldn't get the exchange rates right now. Please try again later.",
+    title: "💵 *Dollar exchange rate*",
+    official: "Official",
+    blue: "Blue",
+    euroOfficial: "Official Euro",
+    euroBlue: "Blue Euro",
+    sell: "sell",
+    buy: "buy",
+    updated: (time: string) => `🕐 Updated: ${time}`
+  },
+
+  crypto: {
+    unavailable: "Crypto prices aren't available right now.",
+    fetching: "Checking crypto prices... 🪙",
+    error: "I couldn't get the prices right now. Please try again later.",
+    title: "🪙 *Crypto prices*",
+    footer: "📊 CoinGecko · now"
+  },
+
+  news: {
+    notConfigured: "News isn't configured. A NEWS_API_KEY is required.",
+    fetching: "Looking for news... 📰",
+    error: "I couldn't get the news right now. Please try again later.",
+    headerQuery: (query: string) => `📰 *News about "${query}"*`,
+    headerToday: "📰 *Today's news*",
+    empty: "I couldn't find any news right now.",
+    hoursAgo: (hours: number) => `${hours}h ago`,
+    minutesAgo: (minutes: number) => `${minutes} min ago`
+  },
+
+  directions: {
+    notConfigured: "Maps aren't configured. An ORS_API_KEY (openrouteservice.org) is required.",
+    askDestination: "Tell me where you want to go. E.g.: 'how do I get to Recoleta'",
+    searching: "Looking for the route... 🗺️",
+    askOrigin: "Tell me where you're leaving from or share your location 📍 and then ask me again.",
+    noRoute: "I couldn't find a route between those places. Check the locations and try again.",
+    error: "I couldn't get directions right now. Please try again later.",
+    title: "🗺️ *Directions*",
+    fromTo: (origin: string, destination: string) => `📍 *From:* ${origin} → *To:* ${destination}`,
+    steps: "📋 *Steps:*",
+    viewOnMap: (url: string) => `🔗 View on map: ${url}`,
+    modes: {
+      driving: "By car",
+      transit: "By car",
+      walking: "Walking",
+      bicycling: "By bike"
+    }
+  },
+
+  location: {
+    defaultLabel: "Your location",
+    saved: (placeName?: string) =>
+      `📍 *Location saved!*\n\n` +
+      (placeName ? `*Place:* ${placeName}\n\n` : "") +
+      `Now you can ask me for directions without giving a starting point. E.g.:\n` +
+      `_"How do I get to Recoleta?"_\n` +
+      `_"How long does it take to walk to Constitución?"_\n\n` +
+      `⏳ I'll remember your location for 30 minutes.`
+  },
+
+  timezone: {
+    unavailable: "Timezone settings aren't available right now.",
+    notRecognized:
+      "I didn't recognize that timezone 🤔 Tell me your city or country. E.g.: _'I'm in Madrid'_\n\n" +
+      "You can also send me your location 📍 and I'll detect it.",
+    updated: (timezone: string, localTime: string) =>
+      `🌍 Timezone updated to *${timezone}*.\n\n` +
+      `It's ${localTime} there. Your reminders, daily digest and expense summaries will use this time.`,
+    error: "Something went wrong changing your timezone. Please try again later."
+  },
+
+  documents: {
+    unavailable: "I can't read files yet. Please try again later.",
+    unsupported: "For now I can only read photos and PDFs 📄",
+    tooLarge: (maxMb: number) =>
+      `That file is too big for me to read 😅 Send one up to ${maxMb} MB.`,
+    reading: "🔎 Give me a second while I read your file...",
+    noText: "I couldn't read any text in that file 😕 Try a sharper photo.",
+    nothingFound: "I read the file but didn't find an expense or a date to remind you of 🤔",
+    error: "Something went wrong reading the file. Please try again later.",
+    expenseSaved: (amount: string, merchant: string | null, category: string) =>
+      `🧾 Expense saved: *${amount}*${merchant ? ` at ${merchant}` : ""} (${category})`
+  },
+
+  language: {
+    unavailable: "Language settings aren't available right now.",
+    notSupported: (available: string) =>
+      `I don't speak that language yet 😅 For now I can answer in: ${available}.`,
+    updated: "🗣️ Done! From now on I'll answer in English.",
+    error: "Something went wrong changing the language. Please try again later.",
+    names: { es: "Spanish", en: "English" }
+  },
+
+  currency: {
+    unavailable: "I can't change the currency right now.",
+    notSupported: (available: string) =>
+      `For now I can total your expenses in: ${available}. Which one do you want?`,
+    updated: (currency: string) =>
+      `💱 Done! Your expense totals will be added up in *${currency}*, at the official and blue rates.`,
+    error: "Something went wrong changing the currency. Please try again later."
+  },
+
+  transfers: {
+    unavailable: "Transfers aren't available. You need to connect your Mercado Pago account.",
+    askAmount: "Tell me the amount to transfer. E.g.: _'pay 5000 pesos to alias gonzalez.mp'_",
+    askRecipient: "Tell me the recipient's alias, CVU or CBU. E.g.: _'pay 5000 to gonzalez.mp'_",
+    noLinkedAccount: "You don't have a linked account. Send /connect to link it.",
+    notLinked:
+      "You don't have Mercado Pago connected. Tell me _'connect my mercado libre'_ to link it.",
+    confirm: (transfer: {
+      amount: string;
+      recipient: string;
+      description?: string;
+      scheduledAt?: string;
+    }) =>
+      `💸 *Transfer confirmation*\n\n` +
+      `💰 *Amount:* $${transfer.amount}\n` +
+      `👤 *Recipient:* ${transfer.recipient}` +
+      (transfer.description ? `\n📝 *Description:* ${transfer.description}` : "") +
+      (transfer.scheduledAt ? `\n🕐 *Scheduled for:* ${transfer.scheduledAt}` : "") +
+      `\n\n_Reply *confirm* to execute it or *cancel* to discard it._`,
+    prepareError: "Something went wrong preparing the transfer. Please try again later.",
+    cancelled: "Transfer cancelled. ❌",
+    scheduledUnavailable: "Scheduled transfers aren't available right now.",
+    scheduled: (date: string, amount: string, recipient: string) =>
+      `✅ *Transfer scheduled*\n\n` +
+      `It will run on ${date}.\n` +
+      `Amount: $${amount} → ${recipient}\n\n` +
+      `_To see it: "my scheduled payments"_`,
+    scheduleError: "Something went wrong scheduling the transfer. Please try again later.",
+    processing: "Processing transfer... ⏳",
+    success: (amount: string, recipient: string, transactionId?: string) =>
+      `✅ *Transfer successful!*\n\n` +
+      `💰 $${amount} sent to *${recipient}*\n` +
+      (transactionId ? `🔖 ID: ${transactionId}` : ""),
+    failed: (reason: string) =>
+      `❌ *Transfer failed*\n\n${reason}\n\n` +
+      `Check that you have enough balance and that the alias/CVU is correct.`,
+    executeError: "Something went wrong executing the transfer. Check your balance and try again.",
+    scheduledExecuted: (amount: string, recipient: string, transactionId?: string) =>
+      `✅ *Scheduled transfer executed!*\n\n` +
+      `💰 $${amount} sent to *${recipient}*\n` +
+      (transactionId ? `🔖 ID: ${transactionId}` : ""),
+    scheduledNotExecuted: (amount: string, recipient: string) =>
+      `❌ *I couldn't execute the scheduled transfer*\n\n` +
+      `$${amount} → ${recipient}\n\n` +
+      `Transfers aren't available right now.`,
+    scheduledFailed: (amount: string, recipient: string, reason: string) =>
+      `❌ *Scheduled transfer failed*\n\n` +
+      `$${amount} → ${recipient}\n\n${reason}\n\n` +
+      `Check that you have enough balance and that the alias/CVU is correct.`,
+    scheduledError: (amount: string, recipient: string) =>
+      `❌ *Scheduled transfer failed*\n\n` +
+      `$${amount} → ${recipient}\n\n` +
+      `Something went wrong executing it. Check your balance and try again.`
+  },
+
+  payments: {
+    unavailable: "Scheduled payments aren't available right now.",
+    askAmount: "Tell me the amount to pay. E.g.: _'pay 5000 every Monday to alias gonzalez.mp'_",
+    askRecipient:
+      "Tell me the recipient's alias, CVU or CBU. E.g.: _'pay 5000 monthly to gonzalez.mp'_",
+    askRecurrence:
+      "Tell me how often: 'every Monday', 'monthly', 'every day'. E.g.: _'pay 5000 every Monday to gonzalez.mp'_",
+    recurrence: {
+      DAILY: "Every day",
+      WEEKLY: "Weekly",
+      MONTHLY: "Monthly"
+    },
+    created: (payment: {
+      amount: string;
+      recipient: string;
+      description?: string;
+      recurrence: string;
+      totalCount?: number;
+      nextDate: string;
+    }) =>
+      `✅ *Scheduled payment created!*\n\n` +
+      `💰 *Amount:* $${payment.amount}\n` +
+      `👤 *Recipient:* ${payment.recipient}\n` +
+      (payment.description ? `📝 *Description:* ${payment.description}\n` : "") +
+      `🔁 *Frequency:* ${payment.recurrence}\n` +
+      (payment.totalCount ? `📊 *Total payments:* ${payment.totalCount}\n` : "") +
+      `\n📅 *First reminder:* ${payment.nextDate}\n\n` +
+      `_When the date comes I'll send you a message with a one-tap Mercado Pago link._\n` +
+      `_To see your payments: "my scheduled payments"_`,
+    createError: "Something went wrong creating the scheduled payment. Please try again later.",
+    listEmpty:
+      "You have no active scheduled payments.\n\n_To create one: 'pay 5000 every Monday to gonzalez.mp'_",
+    listHeader: "💸 *Your scheduled payments:*\n\n",
+    weekdaysShort: ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"],
+    frequency: {
+      transfer: "Automatic transfer",
+      once: "One-time payment",
+      daily: "Every day",
+      weekly: (day: string) => `Every ${day}`,
+      monthly: "Monthly"
+    },
+    next: (date: string) => `Next: ${date}`,
+    listFooter: `_To cancel: "cancel scheduled payment 1"_`,
+    listError: "Something went wrong checking your payments. Please try again later.",
+    cancelAskIndex:
+      "Tell me the number of the payment to cancel. E.g.: _'cancel recurring payment 1'_",
+    notFound: (index: number, count: number) =>
+      `Scheduled payment ${index} doesn't exist 🤔 You have ${count} active payment(s).`,
+    cancelled: (amount: string, recipient: string, isTransfer: boolean) =>
+      `✅ Scheduled payment cancelled!\n\n` +
+      `$${amount} → ${recipient} ❌\n\n` +
+      (isTransfer
+        ? "_The transfer won't be executed._"
+        : "_I won't send any more reminders for this payment._"),
+    cancelTooLate: (amount: string, recipient: string) =>
+      `⏳ The $${amount} payment to ${recipient} is already being executed and can't be cancelled.\n\n` +
+      "_I'll let you know as soon as it's done._",
+    cancelError: "Something went wrong cancelling the payment. Please try again later.",
+    reminder: (payment: {
+      amount: string;
+      recipient: string;
+      description?: string;
+      paymentNumber?: number;
+      totalPayments?: number;
+      link: string;
+    }) =>
+      `💸 *Scheduled payment reminder*\n\n` +
+      `💰 *Amount:* $${payment.amount}\n` +
+      `👤 *Recipient:* ${payment.recipient}\n` +
+      (payment.description ? `📝 *Description:* ${payment.description}\n` : "") +
+      (payment.totalPayments
+        ? `📊 Payment ${payment.paymentNumber} of ${payment.totalPayments}\n`
+        : "") +
+      `\n🔗 *Pay with Mercado Pago:*\n${payment.link}\n\n` +
+      `_To cancel: "cancel recurring payment 1"_`
+  },
+
+  notifications: {
+    subscriptionActivated: (data: {
+      planName: string;
+      features: string[];
+      expirationDate: string;
+      maxReminders: number | null;
+      hasCalendarSync: boolean;
+      hasEmailSync: boolean;
+    }) =>
+      `🎉 *Thank you for subscribing to Memorial!*\n\n` +
+      `Your plan: *${data.planName}*\n` +
+      `Expires: ${data.expirationDate}\n\n` +
+      `*Includes:*\n` +
+      `${data.features.map((f) => `✅ ${f}`).join("\n")}\n` +
+      `📅 Calendar sync: ${data.hasCalendarSync ? "Yes" : "No"}\n` +
+      `📧 Email monitoring: ${data.hasEmailSync ? "Yes" : "No"}\n` +
+      `🔔 Reminders: ${data.maxReminders ? `${data.maxReminders}` : "Unlimited"}\n\n` +
+      `*To make the most of your plan:*\n` +
+      `• Connect your Google Calendar from the web\n` +
+      `• Set up email monitoring\n` +
+      `• Send a voice or text message to create your first reminder\n\n` +
+      `Enjoy Memorial! 🚀`
+  }
+};
@@ -0,0 +1,1155 @@
+import { capitalize } from "./utils";
+
+/**
+ * Spanish (rioplatense) catalog. This is the source catalog: its shape defines
+ * the `Messages` type every other locale has to implement.
+ */
+export const es = {
+  common: {
+    processingError: "Hubo un error procesando tu mensaje. Intentá de nuevo más tarde.",
+    linkError: "Hubo un error generando el link. Intentá de nuevo más tarde.",
+    noLinkedAccount: "No tenes cuenta vinculada.",
+    noLinkedAccountConnect: "No tenes cuenta vinculada. Usa /connect para vincularla.",
+    ok: "OK!",
+    unknownSender: "Desconocido",
+    noSubject: "(sin asunto)",
+    rateLimited: (wait: string) =>
+      `Llegué al límite de consultas 😬 Vas a tener que esperar ${wait} para volver a usarme.`,
+    rateLimitDefaultWait: "unos minutos",
+    hours: (n: number) => `${n} hora${n > 1 ? "s" : ""}`,
+    minutes: (n: number) => `${n} minuto${n > 1 ? "s" : ""}`,
+    seconds: (n: number) => `${n} segundos`,
+    durationSeparator: " y "
+  },
+
+  audio: {
+    notUnderstood: "No pude entender el audio. Por favor intenta de nuevo."
+  },
+
+  help:
+    "No entendí bien 😅 Puedo ayudarte con:\n" +
+    "• Recordatorios: 'recuerdame mañana a las 3 llamar a mamá'\n" +
+    "• Recordatorios recurrentes: 'recuerdame todos los días a las 8 tomar la pastilla'\n" +
+    "• Ver tareas: 'qué tareas tengo'\n" +
+    "• Cancelar: 'cancela la tarea 2'\n" +
+    "• Cambiar hora: 'cambia la tarea 1 a las 5pm'\n" +
+    "• Conectar email: 'conecta mi email'\n" +
+    "• Responder email: 'respondele al mail diciendo que acepto'\n" +
+    "• Buscar email: 'buscá el mail de Juan sobre el presupuesto'\n" +
+    "• Buscar productos: 'buscame auriculares bluetooth'\n" +
+    "• Conectar MercadoLibre: 'conecta mi mercado libre'\n" +
+    "• Rastrear pedido: 'dónde está mi paquete'\n" +
+    "• Resumen diario: 'activar resumen diario' / 'desactivar resumen diario'\n" +
+    "• Ver gastos: 'cuánto gasté este mes'\n" +
+    "• Anotar un gasto: 'gasté 4500 en el super'\n" +
+    "• Ingresos: 'cobré el sueldo, 850000' / 'flujo de caja de este mes'\n" +
+    "• Presupuestos: 'presupuesto de comida 200000 por mes'\n" +
+    "• Corregir categorías: 'lo de Rappi es comida, no compras'\n" +
+    "• Categorías y tags propios: 'creá la categoría mascotas' / 'gastos con tag trabajo este mes'\n" +
+    "• Exportar gastos: 'mandame los gastos de septiembre en excel'\n" +
+    "• Suscripciones: 'qué suscripciones pago'\n" +
+    "• Gastos compartidos: 'creá el grupo casa' / 'cómo están las cuentas de la casa'\n" +
+    "• Consejos financieros: 'dame consejos de ahorro'\n" +
+    "• Dólar: '¿a cuánto está el dólar?'\n" +
+    "• Noticias: '¿qué noticias hay hoy?'\n" +
+    "• Cripto: '¿a cuánto está el bitcoin?'\n" +
+    "• Cómo llegar: 'cómo llego de Palermo a Recoleta'\n" +
+    "• Pagos recurrentes: 'pagale 5000 todos los lunes al alias gonzalez.mp'\n" +
+    "• Ver pagos: 'mis pagos programados'\n" +
+    "• Cancelar pago: 'cancela el pago recurrente 1'\n" +
+    "• Zona horaria: 'estoy en Madrid'\n" +
+    "• Idioma: 'hablame en inglés'\n" +
+    "• Vincular con la web: /connect",
+
+  subscription: {
+    noLinkedAccount:
+      "Para usar el bot, primero necesitas vincular tu cuenta.\n\n" +
+      "1. Registrate en la web\n" +
+      "2. Escribi /connect aca para vincular tu WhatsApp\n\n" +
+      "Si ya tenes cuenta, escribi /connect para vincularla.",
+    noActiveSubscription:
+      "No tenes una suscripcion activa.\n\n" +
+      "Ingresa a la web para elegir un plan y empezar a usar el bot.",
+    reminderLimit: (max: number, plan: string) =>
+      `Llegaste al limite de ${max} recordatorios de tu plan ${plan}.\n\n` +
+      "Cancela algun recordatorio o mejora tu plan para crear mas.",
+    emailReplyNotIncluded:
+      "Tu plan no incluye respuesta de emails.\n\n" +
+      "Mejora tu plan para responder emails desde WhatsApp.",
+    emailNotIncluded: (plan: string) =>
+      `Tu plan ${plan} no incluye integracion con email.\n\n` +
+      "Mejora a Pro para conectar tu Gmail y recibir notificaciones.",
+    emailAccountLimit: (max: number, plan: string) =>
+      `Tu plan ${plan} permite ${max} ${max === 1 ? "casilla de email" : "casillas de email"}.\n\n` +
+      "Desvincula alguna o mejora tu plan para conectar otra."
+  },
+
+  reminders: {
+    /** Indexed by weekday (0 = Sunday) */
+    weekdays: ["domingo", "lunes", "martes", "miercoles", "jueves", "viernes", "sabado"],
+    defaultDescription: "lo que me pediste",
+    missingDateTime: (description: string) =>
+      `Anotado! Pero necesito saber *cuándo* querés que te recuerde "${description}" 📅\n\n` +
+      "Por ejemplo:\n" +
+      "• 'mañana a las 3'\n" +
+      "• 'el viernes a las 10'\n" +
+      "• 'todos los días a las 8'\n" +
+      "• 'todos los lunes a las 9'",
+    notUnderstood: "No entendí bien qué querés recordar 😅 Contame de nuevo: ¿qué y cuándo?",
+    createdMany: (count: number) => `✅ Listo! Te creé ${count} recordatorios:\n\n`,
+    confirmRecurring: (schedule: string, time: string, description: string) =>
+      `✅ Listo! Te recuerdo "${description}" ${schedule} a las ${time} 🔁`,
+    confirmOnce: (date: string, description: string) =>
+      `✅ Listo! El ${date} te recuerdo "${description}" 🗓️`,
+    shortRecurring: (description: string, schedule: string, time: string) =>
+      `"${description}" — ${schedule} a las ${time} 🔁`,
+    shortOnce: (description: string, date: string) => `"${description}" - ${date}`,
+    listEmpty: "No tenes tareas pendientes! 🎉",
+    listHeader: "📋 *Tus tareas pendientes:*\n\n",
+    listRecurring: (schedule: string, time: string) => `${capitalize(schedule)} ${time}`,
+    listFooter: `_Para cancelar: "cancela la tarea 2" • Para cambiar hora: "cambia la tarea 1 a las 5pm"_`,
+    cancelAskNumber: "Decime el número de tarea a cancelar. Ej: 'cancela la tarea 2'",
+    notFound: (taskNumber: number, count: number) =>
+      `No existe la tarea ${taskNumber} 🤔 Tenés ${count} tarea(s) pendiente(s).`,
+    cancelled: (taskNumber: number, text: string, wasRecurring: boolean) =>
+      `Listo! Cancelé la tarea ${taskNumber}: "${text}" ❌` +
+      (wasRecurring ? "\n_(Ya no se va a repetir)_" : ""),
+    modifyAskNumber: "Decime el número de tarea a modificar. Ej: 'cambia la tarea 2 a las 5pm'",
+    modifyAskTime: "Decime la nueva hora. Ej: 'cambia la tarea 2 a las 5 de la tarde'",
+    modifyAskNewTime: "¿A qué hora querés cambiar la tarea? Ej: 'mañana a las 5pm'",
+    modified: (taskNumber: number, date: string) =>
+      `✅ Listo! Moví la tarea ${taskNumber} para el ${date}`,
+    modifyTimeNotUnderstood:
+      "No pude entender el horario. Intentá de nuevo con 'cambia la tarea N a las Xpm'.",
+    modifyTimeError: "Hubo un error procesando el horario. Intentá de nuevo.",
+    /** Options on a delivered reminder and their replies */
+    actions: {
+      menuButton: "Posponer / Listo",
+      snooze10m: "⏰ En 10 minutos",
+      snooze1h: "⏰ En 1 hora",
+      snoozeTomorrow: "📅 Mañana a la misma hora",
+      done: "✅ Listo, ya lo hice",
+      footer: 'También podés responder "en media hora" o "listo"',
+      snoozed: (date: string) => `⏰ Dale! Te lo vuelvo a recordar el ${date}`,
+      snoozeAskTime: "¿Para cuándo lo pospongo? Ej: 'en media hora', 'mañana a las 9'",
+      acknowledged: (text: string) => `✅ Genial! Marqué "${text}" como hecho 💪`,
+      noTarget:
+        "No sé a qué recordatorio te referís 🤔 Respondé directamente al mensaje del recordatorio.",
+      inactive: "Ese recordatorio ya no está activo."
+    },
+    /** Insist mode: repeats until acknowledged, escalation to a second contact */
+    nagging: {
+      repeat: (message: string, n: number, max: number) =>
+        `🔁 *Te insisto* (${n}/${max})\n\n${message}`,
+      confirmSuffix: "\n_Te voy a insistir hasta que me confirmes que lo hiciste_ 🔁",
+      shortMark: " ❗",
+      escalatedContact: (who: string, text: string) =>
+        `⚠️ Hola! Soy el asistente de recordatorios de ${who}. Le recordé varias veces "${text}" y todavía no me confirmó. ¿Podés avisarle?`,
+      escalatedUser: (phone: string) =>
+        `⚠️ Como no me confirmaste, le avisé a tu contacto (${phone}).`,
+      contactSet: (phone: string) =>
+        `✅ Listo! Si no confirmás un recordatorio importante, le aviso a ${phone}.`,
+      contactAskPhone:
+        "Pasame el número con código de país. Ej: 'si no contesto avisale a +54 9 11 1234-5678'",
+      contactRemoved: "✅ Listo, ya no le aviso a nadie si no confirmás.",
+      contactError: "Hubo un error guardando el contacto. Intentá de nuevo más tarde.",
+      contactUnavailable: "La función de contacto de emergencia no está disponible en este momento."
+    },
+    /** Lead time of reminders imported from Google Calendar */
+    calendarLead: {
+      set: (minutes: number) =>
+        `✅ Listo! Te aviso ${minutes} minutos antes de cada evento de tu Google Calendar.\n` +
+        "_Los eventos que ya tenía importados se ajustan en el transcurso del día._",
+      askMinutes:
+        "¿Cuántos minutos antes querés que te avise de los eventos? Ej: 'avisame 30 minutos antes de las reuniones'",
+      error: "Hubo un error guardando la anticipación. Intentá de nuevo más tarde.",
+      unavailable: "Esta configuración no está disponible en este momento.",
+      /** Reminder text for imported events that have no title */
+      untitledEvent: "Evento de Google Calendar"
+    },
+    /** Pieces used to describe a recurrence rule, e.g. "cada 2 semanas los martes" */
+    recurrence: {
+      /** Weekday names after "todos los" (0 = Sunday) */
+      dayNames: ["domingos", "lunes", "martes", "miércoles", "jueves", "viernes", "sábados"],
+      and: "y",
+      daily: "todos los días",
+      everyNDays: (n: number) => `cada ${n} días`,
+      weekdays: "de lunes a viernes",
+      weekly: (days: string) => `todos los ${days}`,
+      everyNWeeks: (n: number, days: string) => `cada ${n} semanas los ${days}`,
+      monthly: (detail: string) => `${detail} de cada mes`,
+      everyNMonths: (n: number, detail: string) => `${detail} cada ${n} meses`,
+      monthDay: (day: number) =>
+        day === -1
+          ? "el último día"
+          : day < 0
+            ? `el día ${-day} contando desde el final`
+            : `el día ${day}`,
+      nthWeekday: (nth: number, day: string) =>
+        nth === -1
+          ? `el último ${day}`
+          : `el ${["primer", "segundo", "tercer", "cuarto", "quinto"][nth - 1] ?? `${nth}°`} ${day}`,
+      until: (date: string) => `hasta el ${date}`,
+      times: (count: number) => `${count} veces`
+    },
+    /** Random openers for user-created reminders, so recurring ones don't feel repetitive */
+    notificationTemplates: [
+      (d: string) => `⏰ Ey! No te olvidés: *${d}*`,
+      (d: string) => `🔔 Che, acordate que tenés que: *${d}*`,
+      (d: string) => `📌 *Recordatorio:*\n${d}`,
+      (d: string) => `🎯 Es la hora de: *${d}*`,
+      (d: string) => `💬 Psst! No se te pase: *${d}*`,
+      (d: string) => `⌚ *${capitalize(d)}* — ¡es ahora!`,
+      (d: string) => `🚀 Anotaste esto y llegó el momento:\n*${d}*`,
+      (d: string) => `💡 Tenés pendiente: *${d}*`,
+      (d: string) => `🎉 Opa! Esto no se puede olvidar: *${d}*`,
+      (d: string) => `⚡ Pa! Acordate:\n*${d}*`,
+      (d: string) => `📢 *${capitalize(d)}* ← lo anotaste vos 😏`,
+      (d: string) => `🔮 Tu vos del pasado te manda saludos:\n*${d}*`,
+      (d: string) => `👋 Ey, yo de antes: *no te olvidés de ${d}*`,
+      (d: string) => `🗓️ Agendaste esto y ya llegó:\n*${d}*`,
+      (d: string) => `💭 Sí, sí... *${d}*. Ese recordatorio que pusiste.`,
+      (d: string) => `🔔 Momento! Tenías algo pendiente:\n*${d}*`,
+      (d: string) => `😤 Dale, que podés: *${d}*`,
+      (d: string) => `🪄 ¡Pum! Te recuerdo: *${d}*`
+    ]
+  },
+
+  digest: {
+    unavailable: "La funcion de resumen diario no esta disponible en este momento.",
+    enabled: (hour: string) =>
+      `✅ Resumen diario activado a las ${hour}:00 hs.\n\nCada mañana te voy a mandar un resumen con tus recordatorios del dia.`,
+    enableError: "Hubo un error activando el resumen diario. Intentá de nuevo más tarde.",
+    disabled:
+      "✅ Resumen diario desactivado.\n\nYa no voy a mandarte el resumen matutino. Podes volver a activarlo cuando quieras.",
+    disableError: "Hubo un error desactivando el resumen diario. Intentá de nuevo más tarde.",
+    empty: "🌅 *Buenos días!*\n\nNo tenés recordatorios para hoy. ¡Que tengas un excelente día! ✨",
+    header: (date: string) => `🌅 *Buenos días!*\n\nTus recordatorios para hoy, ${date}:\n\n`,
+    footer: (count: number) =>
+      `\nTenés ${count} recordatorio${count > 1 ? "s" : ""} hoy. ¡A darle con todo! 💪`
+  },
+
+  email: {
+    unavailable: "La funcion de email no esta disponible en este momento.",
+    alreadyLinked: (label: string) =>
+      `Ya tenes conectado tu email "${label}"! 📧\n\n` +
+      "Te aviso automaticamente de entregas, citas y reuniones.\n\n" +
+      "Para sumar otro, decime por ejemplo 'conecta el mail del trabajo'.",
+    /** `accounts` are "label (address)" lines */
+    whichAccount: (accounts: string[]) =>
+      `Tenes varios emails conectados:\n${accounts.map((a) => `• ${a}`).join("\n")}\n\n` +
+      "¿Cual? Ej: 'el mail del trabajo'",
+    accountNotFound: (label: string, accounts: string[]) =>
+      `No tenes ningun email "${label}". Tus emails:\n` + accounts.map((a) => `• ${a}`).join("\n"),
+    link: (authUrl: string, includeReply: boolean) =>
+      `📧 *Conectar tu Gmail*\n\n` +
+      `Para vincular tu email, hace click en este link:\n\n` +
+      `${authUrl}\n\n` +
+      `Una vez que autorices, voy a poder avisarte de:\n` +
+      `📦 Entregas de compras\n` +
+      `📅 Turnos y citas\n` +
+      `🗓️ Reuniones\n` +
+      `✈️ Vuelos\n` +
+      (includeReply ? "📧 Responder emails desde WhatsApp\n" : "") +
+      `\n` +
+      `¿Usas Outlook, Yahoo u otro correo? Conectalo por IMAP desde la pagina de conexiones de tu cuenta.\n\n` +
+      (includeReply
+        ? "_Tu privacidad es importante: solo accedo a lo necesario para leer y responder._"
+        : "_Tu privacidad es importante: solo leo los emails, nunca envio nada._"),
+    noneLinked: "No tenes ningun email conectado.",
+    notConnected: "No tenes email conectado. Decime 'conecta mi email' para vincularlo.",
+    unlinked:
+      "Email desconectado exitosamente. ✅\n\n" +
+      "Ya no voy a recibir notificaciones de tu correo.\n" +
+      "Si queres volver a conectarlo, decime 'conecta mi email'.",
+    unlinkError: "Hubo un error desconectando el email. Intentá de nuevo más tarde.",
+    statusNoUser:
+      "📧 *Estado del Email*\n\n" +
+      "No tenes email conectado.\n\n" +
+      "Decime 'conecta mi email' para vincularlo.",
+    statusConnected: (accounts: string[]) =>
+      "📧 *Estado del Email*\n\n" +
+      `✅ Emails conectados:\n${accounts.map((a) => `• ${a}`).join("\n")}\n\n` +
+      "Estoy monitoreando tus emails para avisarte de entregas, citas, reuniones y vuelos.",
+    statusDisconnected:
+      "📧 *Estado del Email*\n\n" +
+      "❌ Tu email no esta conectado.\n\n" +
+      "Decime 'conecta mi email' para vincularlo.",
+    statusError: "Hubo un error verificando el estado. Intentá de nuevo más tarde.",
+    replyUnavailable: "La funcion de respuesta de email no esta disponible en este momento.",
+    replyAskInstruction:
+      "Decime que queres responder. Ej: 'respondele al mail diciendo que acepto la reunion'",
+    replyAskInstructionShort: "Decime que queres responder. Ej: 'decile que acepto la propuesta'",
+    needsSendScope: (authUrl: string) =>
+      "Para responder emails, necesitas re-autorizar tu Gmail con permisos de envio.\n\n" +
+      `Hace click aca: ${authUrl}\n\n` +
+      "Una vez autorizado, volveme a pedir que responda el email.",
+    noRecentEmail: "No tengo un email reciente al que responder.",
+    noViewedEmail: "No tengo un email guardado para responder.",
+    replyPreview: (to: string, subject: string, body: string) =>
+      `*Preview de tu respuesta:*\n\n` +
+      `*Para:* ${to}\n` +
+      `*Asunto:* ${subject}\n\n` +
+      `${body}\n\n` +
+      `_Respondé "enviar" para enviar o "cancelar" para descartar._`,
+    replyError: "Hubo un error preparando la respuesta. Intentá de nuevo más tarde.",
+    gmailUnavailable: "Error: servicio de Gmail no disponible.",
+    sent: "Email enviado exitosamente!",
+    sendError: "Hubo un error enviando el email. Intentá de nuevo más tarde.",
+    replyDiscarded: "Respuesta descartada.",
+    searchAskQuery: "Decime que email buscas. Ej: 'busca el mail de Juan sobre el presupuesto'",
+    searching: "Buscando en tus emails... 🔍",
+    searchNoResults:
+      "No encontre ningun email que coincida con tu busqueda. Intenta con otros terminos.",
+    extracted: (query: string, result: string) => `🔍 *${query}:*\n\n${result}`,
+    found: (email: { from: string; subject: string; date: string; preview: string }) =>
+      `📧 *Email encontrado:*\n\n` +
+      `*De:* ${email.from}\n` +
+      `*Asunto:* ${email.subject}\n` +
+      `*Fecha:* ${email.date}\n` +
+      (email.preview ? `\n${email.preview}` : "") +
+      `\n\n_¿Querés responder? Decime "si" o "no"._`,
+    searchError: "Hubo un error buscando emails. Intentá de nuevo más tarde.",
+    notify: {
+      /** Replace the "en tu email" titles when the item came from a photo or PDF */
+      documentTitles: {
+        DELIVERY: "📦 Encontre datos de una entrega en tu archivo!",
+        APPOINTMENT: "📅 Encontre un turno/cita en tu archivo!",
+        MEETING: "🗓️ Encontre una reunion en tu archivo!",
+        FLIGHT: "✈️ Encontre un vuelo en tu archivo!"
+      } as Record<string, string>,
+      delivery: {
+        title: "📦 Encontre un email sobre una entrega!",
+        arrives: "Llega",
+        footer: "Te voy a avisar cuando sea el momento!"
+      },
+      appointment: {
+        title: "📅 Encontre un turno/cita en tu email!",
+        when: "Cuando",
+        where: "Donde",
+        footer: "Te aviso antes para que no te olvides!"
+      },
+      meeting: {
+        title: "🗓️ Encontre una reunion en tu email!",
+        when: "Cuando",
+        organizer: "Organiza",
+        link: "Link",
+        footer: "Te aviso unos minutos antes!"
+      },
+      flight: {
+        title: "✈️ Encontre un vuelo en tu email!",
+        flight: "Vuelo",
+        departs: (date: string, airport: string) => `Sale: ${date} desde ${airport}`,
+        footer: "Te aviso con tiempo para que llegues al aeropuerto!"
+      },
+      security: {
+        title: "🚨 *ALERTA DE SEGURIDAD*",
+        service: "Servicio",
+        type: "Tipo",
+        location: "Ubicacion/IP",
+        action: "Accion recomendada",
+        footer: "_Si no fuiste vos, actua de inmediato._",
+        alertTypes: {
+          login_suspicious: "Inicio de sesion sospechoso",
+          password_change: "Cambio de contraseña",
+          phishing: "Posible phishing",
+          data_breach: "Brecha de datos",
+          unrecognized_transaction: "Transaccion no reconocida",
+          new_device: "Nuevo dispositivo",
+          unauthorized_access: "Acceso no autorizado",
+          unknown_subscription: "Suscripcion desconocida"
+        } as Record<string, string>
+      },
+      legalHearing: {
+        title: "⚖️ AUDIENCIA JUDICIAL detectada!",
+        caseNumber: "Exp",
+        type: "Tipo",
+        address: "Direccion",
+        footer: "Te aviso 24 horas antes!"
+      },
+      deadline: {
+        title: "⏰ VENCIMIENTO detectado!",
+        due: "Vence",
+        action: "Accion",
+        caseNumber: "Exp",
+        type: "Tipo",
+        footer: "Te aviso 48 horas antes para que tengas tiempo de actuar!"
+      },
+      course: {
+        title: "📚 Encontre un curso/capacitacion!",
+        start: "Inicio",
+        organizer: "Organiza",
+        instructor: "Instructor",
+        link: "Link",
+        place: "Lugar",
+        footer: "Te aviso 1 hora antes!"
+      },
+      task: {
+        title: "✅ Nueva tarea detectada!",
+        due: "Para",
+        relatedCase: "Caso",
+        assignedBy: "Asignado por",
+        priority: "Prioridad",
+        footer: "Te recuerdo mañana para que no se te pase!"
+      },
+      legalInfo: {
+        title: "📜 Informacion juridica relevante!",
+        source: "Fuente",
+        footer: "Te recuerdo mañana para que lo revises!"
+      },
+      event: {
+        title: "🎯 Encontre un evento!",
+        when: "Cuando",
+        organizer: "Organiza",
+        place: "Lugar",
+        link: "Link",
+        footer: "Te aviso 30 minutos antes!"
+      },
+      /** Emails a rule asked to always notify, when there's no specific message */
+      allowed: (from: string, subject: string, summary: string) =>
+        `📬 *Nuevo email de ${from}*\n\n` +
+        `*${subject}*\n` +
+        `${summary}\n\n` +
+        `_Te aviso porque tenés una regla para estos mails._`
+    }
+  },
+
+  emailRules: {
+    unavailable: "Las reglas de emails no están disponibles en este momento.",
+    missingTarget:
+      "¿De qué mails? Decime un remitente (ej: *nunca me avises de mails de Rappi*) " +
+      "o un tipo (ej: *no quiero avisos de entregas*).",
+    added: (rules: string[]) =>
+      `✅ Listo, desde ahora:\n\n${rules.map((rule) => `• ${rule}`).join("\n")}`,
+    list: (rules: string[]) =>
+      `📬 *Tus reglas de emails*\n\n` +
+      rules.map((rule, i) => `${i + 1}. ${rule}`).join("\n") +
+      `\n\n_Para borrar una decime *borrá la regla 2*._`,
+    listEmpty:
+      "No tenés reglas de emails. Probá con *nunca me avises de mails de Rappi* " +
+      "o *siempre avisame de mi banco*.",
+    deleted: (rule: string) => `🗑️ Borré la regla: ${rule}`,
+    notFound: (index: number) =>
+      `No encontré la regla ${index}. Decime *mis reglas de email* para verlas.`,
+    error: "Hubo un error con las reglas de emails. Intentá de nuevo más tarde.",
+    ruleSender: (allow: boolean, sender: string) =>
+      allow ? `Siempre te aviso de mails de *${sender}*` : `Nunca te aviso de mails de *${sender}*`,
+    ruleType: (allow: boolean, type: string) =>
+      allow ? `Siempre te aviso de ${type}` : `Nunca te aviso de ${type}`,
+    ruleAll: (allow: boolean): string =>
+      allow ? "Te aviso de todos los mails" : "No te aviso de ningún mail",
+    ruleWindow: (rule: string, from: string, to: string) => `${rule} entre las ${from} y las ${to}`,
+    types: {
+      PURCHASE: "compras",
+      INCOME: "ingresos",
+      DELIVERY: "entregas",
+      APPOINTMENT: "turnos",
+      MEETING: "reuniones",
+      FLIGHT: "vuelos",
+      LEGAL_HEARING: "audiencias judiciales",
+      SECURITY: "alertas de seguridad",
+      DEADLINE: "vencimientos",
+      COURSE: "cursos",
+      TASK: "tareas",
+      LEGAL_INFO: "información jurídica",
+      EVENT: "eventos"
+    } as Record<string, string>
+  },
+
+  emailDigest: {
+    unavailable: "El resumen de emails no está disponible en este momento.",
+    enabled: (hours: string[]) =>
+      `✅ Listo, te junto los mails que no son urgentes y te los mando a las ` +
+      `${hours.length > 1 ? `${hours.slice(0, -1).join(", ")} y ${hours[hours.length - 1]}` : hours[0]}.\n\n` +
+      `Las alertas de seguridad y los turnos o reuniones cercanos te los sigo avisando al momento.`,
+    disabled: "✅ Listo, vuelvo a avisarte de cada mail apenas llega.",
+    error: "Hubo un error con el resumen de emails. Intentá de nuevo más tarde.",
+    header: (count: number) =>
+      `📬 *Resumen de emails*\n\n` +
+      `Te llegaron ${count} mail${count > 1 ? "s" : ""} que no eran urgentes:\n\n`,
+    page: (page: number, pages: number) => `📬 *Resumen de emails (${page}/${pages})*\n\n`,
+    noSubject: "(sin asunto)",
+    button: "Ver mails",
+    footer: "Elegí uno para abrirlo",
+    textHint: "Para abrir uno decime, por ejemplo, *busca el mail de Amazon*.",
+    openError: "No pude abrir ese mail. Probá buscándolo con *busca el mail de ...*."
+  },
+
+  connect: {
+    unavailable: "La funcion de vinculacion no esta disponible en este momento.",
+    code: (code: string) =>
+      `🔗 *Vincular con la web*\n\n` +
+      `Tu codigo de vinculacion es:\n\n` +
+      `*${code}*\n\n` +
+      `Ingresalo en la pagina de conexiones de tu cuenta.\n\n` +
+      `⏳ Este codigo expira en 5 minutos.`,
+    error: "Hubo un error generando el codigo. Intentá de nuevo más tarde."
+  },
+
+  linking: {
+    localNetwork: "Red local",
+    unknown: "Desconocida",
+    accountLinked: (data: { username: string; ip: string; location: string }) =>
+      `✅ *Cuenta vinculada exitosamente*\n\n` +
+      `Tu WhatsApp se ha vinculado con la cuenta:\n\n` +
+      `👤 *Usuario:* ${data.username}\n` +
+      `🌐 *IP:* ${data.ip}\n` +
+      `📍 *Ubicación:* ${data.location}\n\n` +
+      `Si no fuiste tú, desvincula tu cuenta desde la web inmediatamente.`
+  },
+
+  products: {
+    unavailable: "La funcion de busqueda de productos no esta disponible en este momento.",
+    askQuery: "Decime que producto buscas. Ej: 'buscame auriculares bluetooth'",
+    searching: "Buscando productos... 🔍",
+    noResults: "No encontre resultados para tu busqueda. Intenta con otros terminos.",
+    header: (query: string) => `🛒 *Mejores precios para "${query}":*\n\n`,
+    bestPrice: " 🏷️ *Mejor precio!*",
+    footer: (count: number) =>
+      `_Mostrando ${count} resultado${count > 1 ? "s" : ""} ordenados por precio._`,
+    error: "Hubo un error buscando productos. Intentá de nuevo más tarde."
+  },
+
+  meli: {
+    unavailable: "La funcion de MercadoLibre no esta disponible en este momento.",
+    alreadyLinked:
+      "Ya tenes tu MercadoLibre conectado! 🛒\n\n" +
+      "Puedo buscar productos y rastrear tus pedidos.\n\n" +
+      "Si queres desconectarlo, decime 'desconecta mercado libre'.",
+    link: (authUrl: string) =>
+      `🛒 *Conectar MercadoLibre*\n\n` +
+      `Para vincular tu cuenta, hace click en este link:\n\n` +
+      `${authUrl}\n\n` +
+      `Una vez que autorices, voy a poder:\n` +
+      `🔍 Buscar productos con tu cuenta\n` +
+      `📦 Rastrear tus pedidos y envios\n\n` +
+      `_Tu privacidad es importante: solo accedo a tus compras y busquedas._`,
+    notLinked: "No tenes MercadoLibre conectado.",
+    unlinked:
+      "MercadoLibre desconectado exitosamente. ✅\n\n" +
+      "Ya no voy a poder rastrear tus pedidos.\n" +
+      "Si queres volver a conectarlo, decime 'conecta mi mercado libre'.",
+    unlinkError: "Hubo un error desconectando MercadoLibre. Intentá de nuevo más tarde.",
+    trackUnavailable: "La funcion de rastreo de pedidos no esta disponible en este momento.",
+    trackNoAccount: "No tenes cuenta vinculada. Decime 'conecta mi mercado libre' para empezar.",
+    trackNotLinked:
+      "No tenes MercadoLibre conectado. Decime 'conecta mi mercado libre' para vincularlo.",
+    trackSearching: "Buscando tus pedidos recientes... 📦",
+    noOrders: "No encontre pedidos recientes en tu cuenta de MercadoLibre.",
+    ordersHeader: "📦 *Tus pedidos recientes:*\n\n",
+    trackError: "Hubo un error consultando tus pedidos. Intentá de nuevo más tarde.",
+    shipmentStatus: {
+      pending: "Pendiente",
+      handling: "En preparacion",
+      ready_to_ship: "Listo para enviar",
+      shipped: "En camino 🚚",
+      delivered: "Entregado ✅",
+      not_delivered: "No entregado ❌",
+      cancelled: "Cancelado"
+    } as Record<string, string>
+  },
+
+  expenses: {
+    unavailable: "La funcion de gastos no esta disponible en este momento.",
+    summaryUnavailable: "La funcion de resumen de gastos no esta disponible.",
+    noExpenses:
+      "No encontre gastos registrados para este periodo.\n\n" +
+      "Conecto tu Gmail para que pueda analizar tus compras: decime 'conecta mi email'.",
+    noFilteredExpenses: (filter: string) => `No encontré gastos de ${filter} en este período.`,
+    filteredPeriod: (period: string, filter: string) => `${period} · ${filter}`,
+    adviceHint:
+      "Queres consejos personalizados basados en tus gastos? Decime *dame consejos de ahorro*.",
+    error: "Hubo un error consultando tus gastos. Intentá de nuevo más tarde.",
+    weekPeriod: (start: string, end: string) => `Semana del ${start} al ${end}`,
+    summaryTitle: (period: string) => `📊 *Resumen de gastos - ${period}*\n\n`,
+    totalSpent: "💰 *Total gastado:*\n",
+    consolidated: (currency: string, official: string, blue: string) =>
+      `≈ *Total en ${currency}:* ${official} (dólar oficial) · ${blue} (dólar blue)\n`,
+    unconverted: (count: number) =>
+      `_(${count} gasto${count !== 1 ? "s" : ""} en otras monedas sin convertir)_\n`,
+    byCategory: "📂 *Por categoria:*\n",
+    topMerchants: "🏪 *Principales comercios:*\n",
+    transactions: (count: number) =>
+      `📈 *${count} transaccion${count !== 1 ? "es" : ""} procesada${count !== 1 ? "s" : ""}*`,
+    adviceSection: (advice: string) => `\n\n💡 *Consejos personalizados:*\n${advice}`,
+    categories: {
+      FOOD: "Comida",
+      TRANSPORT: "Transporte",
+      SHOPPING: "Compras",
+      UTILITIES: "Servicios",
+      ENTERTAINMENT: "Entretenimiento",
+      HEALTH: "Salud",
+      EDUCATION: "Educacion",
+      TRAVEL: "Viajes",
+      SERVICES: "Servicios prof.",
+      OTHER: "Otros"
+    } as Record<string, string>,
+    manual: {
+      saved: (line: string) => `✅ Anoté el gasto: ${line}`,
+      undoButton: "↩️ Deshacer",
+      footer: "Para corregirlo decime, por ejemplo, *el último gasto era 5000*",
+      undoHint: "Si me equivoqué decime *deshacé* o *el último gasto era 5000*.",
+      missingAmount: "¿Cuánto gastaste? Decime el monto, por ejemplo *gasté 4500 en el super*.",
+      undone: (line: string) => `↩️ Listo, borré el gasto: ${line}`,
+      undoNotFound: "Ese gasto ya no existe.",
+      edited: (line: string) => `✏️ Actualicé el gasto: ${line}`,
+      editNothing: "¿Qué querés cambiar del gasto? Decime el monto, el comercio o la categoría.",
+      learned: (merchant: string, category: string) =>
+        `🧠 Desde ahora lo de *${merchant}* va a *${category}*.`,
+      notFound: (position: number) =>
+        `No encontré el gasto ${position}. Decime *mis últimos gastos* para ver la lista.`,
+      deleted: (lines: string[]) =>
+        `🗑️ Borré ${lines.length} gasto${lines.length !== 1 ? "s" : ""}:\n${lines.map((l) => `• ${l}`).join("\n")}`,
+      noneToDelete: "No tenés gastos registrados para borrar.",
+      confirmDelete: (lines: string[]) =>
+        `¿Borro ${lines.length === 1 ? "este gasto" : `estos ${lines.length} gastos`}?\n` +
+        `${lines.map((l) => `• ${l}`).join("\n")}\n\n` +
+        "Respondé *sí* para borrar o *no* para cancelar.",
+      deleteCancelled: "Listo, no borré nada.",
+      recentHeader: "🧾 *Tus últimos gastos:*\n\n",
+      recentFooter:
+        "\nPara corregir uno decime, por ejemplo, *el gasto 2 era de comida* o *borrá el último gasto*.",
+      recentEmpty: "Todavía no registraste gastos. Decime, por ejemplo, *gasté 4500 en el super*.",
+      line: (
+        amount: string,
+        merchant: string | null,
+        category: string,
+        date: string,
+        tags: string[] = []
+      ) =>
+        `*${amount}*${merchant ? ` en ${merchant}` : ""} (${category}, ${date})` +
+        tags.map((tag) => ` #${tag}`).join(""),
+      error: "Hubo un error registrando el gasto. Intentá de nuevo más tarde."
+    },
+    export: {
+      filePrefix: "gastos",
+      columns: {
+        date: "Fecha",
+        merchant: "Comercio",
+        category: "Categoría",
+        description: "Descripción",
+        amount: "Monto",
+        currency: "Moneda",
+        source: "Origen"
+      },
+      sourceEmail: "Email",
+      sourceManual: "Manual",
+      generating: "Armando el archivo... 📎",
+      caption: (count: number, from: string, to: string) =>
+        `📎 ${count} gasto${count !== 1 ? "s" : ""} del ${from} al ${to}`,
+      empty: (from: string, to: string) => `No encontré gastos del ${from} al ${to}.`,
+      invalidRange: "No entendí el período. Decime, por ejemplo, *los gastos de septiembre*.",
+      error: "Hubo un error exportando tus gastos. Intentá de nuevo más tarde."
+    },
+    rules: {
+      missingMerchant:
+        "¿De qué comercio? Decime, por ejemplo, *lo de Rappi es comida, no compras*.",
+      invalidCategory: (categories: string) => `¿En qué categoría va? Puede ser: ${categories}.`,
+      saved: (merchant: string, category: string, relabelled: number) =>
+        `🧠 Listo, lo de *${merchant}* va a *${category}* desde ahora` +
+        (relabelled > 0
+          ? ` y corregí ${relabelled} gasto${relabelled !== 1 ? "s" : ""} anterior${relabelled !== 1 ? "es" : ""}.`
+          : "."),
+      error: "Hubo un error cambiando la categoría. Intentá de nuevo más tarde."
+    },
+    custom: {
+      missingName:
+        "¿Cómo se llama la categoría? Decime, por ejemplo, *creá la categoría mascotas*.",
+      created: (name: string) =>
+        `🏷️ Creé la categoría *${name}*. Usala al anotar: *gasté 3000 en el veterinario, categoría ${name}*.`,
+      exists: (name: string) => `Ya tenés una categoría *${name}*.`,
+      deleted: (name: string) =>
+        `🗑️ Borré la categoría *${name}*. Sus gastos vuelven a su categoría de siempre.`,
+      notFound: (name: string) =>
+        `No tenés una categoría *${name}*. Decime *mis categorías* para ver las tuyas.`,
+      listHeader: "🏷️ *Tus categorías:*\n\n",
+      listEmpty:
+        "Todavía no creaste categorías propias. Decime, por ejemplo, *creá la categoría mascotas*.",
+      listFooter:
+        "\nPara ver cuánto llevás decime, por ejemplo, *cuánto gasté en mascotas este mes*.",
+      error: "Hubo un error con tus categorías. Intentá de nuevo más tarde."
+    }
+  },
+
+  advice: {
+    unavailable: "La funcion de consejos financieros no esta disponible en este momento.",
+    noData:
+      "No tengo suficientes datos de gastos para generar consejos personalizados.\n\n" +
+      "Conecta tu Gmail para que pueda analizar tus compras: decime 'conecta mi email'.",
+    analyzing: "Analizando tus gastos... 📊",
+    result: (advice: string) => `💡 *Consejos financieros:*\n\n${advice}`,
+    error: "Hubo un error generando los consejos. Intentá de nuevo más tarde.",
+    notEnoughData: "No hay suficientes datos de gastos para generar consejos personalizados.",
+    generationFailed: "No pude generar consejos en este momento. Intenta mas tarde."
+  },
+
+  budgets: {
+    unavailable: "Los presupuestos no están disponibles en este momento.",
+    invalidCategory: (categories: string) =>
+      `¿Para qué categoría? Puede ser: ${categories}.\nPor ejemplo: *presupuesto de comida 200000 por mes*.`,
+    missingAmount: "¿Cuánto querés gastar como máximo por mes en esa categoría?",
+    set: (category: string, amount: string) =>
+      `🎯 Listo, tu presupuesto de *${category}* es de *${amount}* por mes. Te aviso al llegar al 50%, 80% y 100%.`,
+    deleted: (category: string) => `🗑️ Borré el presupuesto de *${category}*.`,
+    notFound: (category: string) => `No tenés un presupuesto de *${category}*.`,
+    listHeader: "🎯 *Tus presupuestos de este mes:*\n\n",
+    listEmpty:
+      "No tenés presupuestos. Creá uno diciendo, por ejemplo, *presupuesto de comida 200000 por mes*.",
+    listFooter: "\n\nPara borrar uno decime, por ejemplo, *borrá el presupuesto de comida*.",
+    statusLine: (icon: string, category: string, spent: string, limit: string, percent: number) =>
+      `${icon} ${category}: ${spent} de ${limit} (${percent}%)`,
+    summarySection: (lines: string) => `\n\n🎯 *Presupuestos:*\n${lines}`,
+    alert: (percent: number, category: string, spent: string, limit: string) =>
+      percent >= 100
+        ? `🔴 Te pasaste del presupuesto de *${category}*: llevás ${spent} de ${limit} este mes.`
+        : `${percent >= 80 ? "🟡" : "🟢"} Ya usaste el *${percent}%* del presupuesto de *${category}*: ${spent} de ${limit} este mes.`,
+    error: "Hubo un error con los presupuestos. Intentá de nuevo más tarde."
+  },
+
+  recurring: {
+    unavailable: "La detección de suscripciones no está disponible en este momento.",
+    analyzing: "Buscando cobros que se repiten en tus gastos... 🔁",
+    empty:
+      "No encontré suscripciones ni cobros que se repitan. Necesito ver al menos 3 cobros parecidos del mismo comercio (2 si son anuales).",
+    header: "🔁 *Tus suscripciones y cobros fijos:*\n\n",
+    periods: {
+      WEEKLY: "por semana",
+      MONTHLY: "por mes",
+      YEARLY: "por año"
+    } as Record<string, string>,
+    line: (
+      index: number,
+      merchant: string,
+      amount: string,
+      period: string,
+      next: string,
+      previous: string | null
+    ) =>
+      `*${index}.* ${merchant}: *${amount}* ${period}${previous ? ` (antes ${previous} 📈)` : ""} · próximo cobro ~${next}`,
+    monthlyTotal: (amount: string) => `💰 *Total estimado por mes:* ${amount}`,
+    remindTitle: "⏰ Avisos de cobro",
+    remindButton: "Elegir",
+    remindFooter: "Elegí uno y te aviso el día anterior a cada cobro",
+    remindRow: "Avisarme el día anterior",
+    remindHint:
+      "Para que te avise antes de un cobro decime, por ejemplo, *avisame antes de Netflix*.",
+    reminderText: (merchant: string, amount: string) =>
+      `Mañana te cobran ${merchant} (${amount}) 💳`,
+    reminderSet: (merchant: string, date: string) =>
+      `⏰ Listo, te aviso el día anterior a cada cobro de *${merchant}*. El primero: ${date}.`,
+    reminderExists: (merchant: string) =>
+      `Ya te estoy avisando antes de cada cobro de *${merchant}*.`,
+    notFound: (merchant: string) =>
+      `No encontré un cobro fijo de *${merchant}*. Decime *mis suscripciones* para ver la lista.`,
+    missingMerchant:
+      "¿Antes de qué cobro querés que te avise? Por ejemplo: *avisame antes de Netflix*.",
+    priceIncrease: (merchant: string, before: string, now: string, percent: number) =>
+      `📈 *${merchant}* subió de ${before} a *${now}* (+${percent}%).`,
+    missed: (merchant: string, amount: string, date: string) =>
+      `🤔 No vi el cobro de *${merchant}* (${amount}) que esperaba para el ${date}. ¿Lo diste de baja o cambiaste la tarjeta?`,
+    error: "Hubo un error buscando tus suscripciones. Intentá de nuevo más tarde."
+  },
+
+  groups: {
+    unavailable: "Los gastos compartidos no están disponibles en este momento.",
+    missingName: "¿Cómo se llama el grupo? Decime, por ejemplo, *creá el grupo casa*.",
+    created: (name: string) =>
+      `🏠 Creé el grupo *${name}*. Sumá a alguien con *invitá al 11 5555 1234 al grupo ${name}*.`,
+    noGroups: "No estás en ningún grupo. Creá uno con *creá el grupo casa*.",
+    notFound: (name: string) => `No encontré el grupo *${name}*.`,
+    pickGroup: (names: string) => `¿Qué grupo? Tenés: ${names}.`,
+    askPhone: "¿A quién invito? Decime su número, por ejemplo *invitá al 11 5555 1234*.",
+    notLinked: (phone: string) =>
+      `${phone} todavía no usa el bot. Pedile que me escriba y volvé a invitarlo.`,
+    inviteSelf: "Ya estás en el grupo 😄",
+    alreadyMember: (name: string, group: string) => `${name} ya está en *${group}*.`,
+    invited: (name: string, group: string) =>
+      `📨 Invité a ${name} a *${group}*. Te aviso cuando acepte.`,
+    invitation: (inviter: string, group: string) =>
+      `🏠 ${inviter} te invitó a compartir gastos en el grupo *${group}*.`,
+    acceptButton: "✅ Unirme",
+    declineButton: "No, gracias",
+    invitationFooter: "Vas a ver lo que le debés a cada uno y lo que te deben",
+    invitationHint: (group: string) => `Para sumarte decime *me uno al grupo ${group}*.`,
+    noInvitation: "No tenés invitaciones pendientes a ese grupo.",
+    joined: (group: string) =>
+      `✅ Ya estás en *${group}*. Para compartir un gasto decime *el último gasto es compartido con ${group}*.`,
+    declined: (group: string) => `Listo, no te sumé a *${group}*.`,
+    memberJoined: (name: string, group: string) => `👋 ${name} se sumó a *${group}*.`,
+    needMembers: (group: string) =>
+      `Todavía sos el único en *${group}*. Invitá a alguien con *invitá al 11 5555 1234*.`,
+    noExpense: "No encontré ese gasto. Decime *mis últimos gastos* para ver la lista.",
+    shared: (group: string, lines: string[]) =>
+      `🤝 Compartido en *${group}*:\n${lines.map((l) => `• ${l}`).join("\n")}`,
+    shareLine: (name: string, amount: string) => `${name} te debe ${amount}`,
+    expenseShared: (
+      payer: string,
+      group: string,
+      total: string,
+      merchant: string | null,
+      share: string
+    ) =>
+      `🤝 ${payer} compartió un gasto de ${total}${merchant ? ` en ${merchant}` : ""} en *${group}*. Te toca ${share}.`,
+    balanceHeader: (group: string) => `⚖️ *Cuentas de ${group}:*\n\n`,
+    balanceLine: (from: string, to: string, amount: string) => `• ${from} → ${to}: *${amount}*`,
+    balanceFooter: "\n\nPara saldar lo tuyo decime *saldá las cuentas*.",
+    even: (group: string) => `⚖️ En *${group}* están todos a mano.`,
+    you: "Vos",
+    nothingToSettle: (group: string) => `No le debés nada a nadie en *${group}* 🙌`,
+    onlyPesos:
+      "Por Mercado Pago solo puedo transferir pesos. Las deudas en otras monedas saldalas por fuera.",
+    askAlias: (name: string) =>
+      `No tengo el alias de ${name}. Pedíselo y decime *saldá las cuentas al alias ...*, o que ${name} me diga *mi alias es ...*.`,
+    settleDescription: (group: string) => `Gastos compartidos - ${group}`,
+    settlementRecorded: (name: string, amount: string) =>
+      `⚖️ Anoté que le pagaste ${amount} a ${name}.`,
+    settlementReceived: (name: string, amount: string, group: string) =>
+      `💸 ${name} te pagó ${amount} de lo que debía en *${group}*.`,
+    aliasSet: (alias: string) =>
+      `✅ Guardé tu alias *${alias}*. Los de tus grupos te van a pagar ahí.`,
+    aliasMissing: "Decime tu alias, CVU o CBU. Por ejemplo: *mi alias es gonzalez.mp*.",
+    error: "Hubo un error con los gastos compartidos. Intentá de nuevo más tarde."
+  },
+
+  income: {
+    unavailable: "El registro de ingresos no está disponible en este momento.",
+    missingAmount: "¿Cuánto cobraste? Decime el monto, por ejemplo *cobré el sueldo, 850000*.",
+    saved: (line: string) => `📥 Anoté el ingreso: ${line}`,
+    undoButton: "↩️ Deshacer",
+    footer: "Para ver cuánto ahorrás decime *flujo de caja*",
+    undoHint: "Si me equivoqué decime *deshacé*.",
+    undone: (line: string) => `↩️ Listo, borré el ingreso: ${line}`,
+    undoNotFound: "Ese ingreso ya no existe.",
+    line: (amount: string, source: string | null, category: string, date: string) =>
+      `*${amount}*${source ? ` de ${source}` : ""} (${category}, ${date})`,
+    fromEmail: (amount: string, source: string | null, category: string) =>
+      `📥 Registré un ingreso de *${amount}*${source ? ` de ${source}` : ""} (${category}).`,
+    categories: {
+      SALARY: "Sueldo",
+      FREELANCE: "Trabajo independiente",
+      TRANSFER: "Transferencia",
+      INVESTMENT: "Inversiones",
+      RENTAL: "Alquiler",
+      REFUND: "Reintegro",
+      OTHER: "Otros"
+    } as Record<string, string>,
+    error: "Hubo un error registrando el ingreso. Intentá de nuevo más tarde."
+  },
+
+  cashFlow: {
+    unavailable: "El flujo de caja no está disponible en este momento.",
+    title: (month: string) => `💵 *Flujo de caja - ${month}*\n\n`,
+    income: (amount: string) => `📥 Ingresos: ${amount}\n`,
+    expenses: (amount: string) => `📤 Gastos: ${amount}\n`,
+    net: (amount: string, positive: boolean) =>
+      `${positive ? "🟢" : "🔴"} ${positive ? "Ahorro" : "Déficit"}: ${amount}\n`,
+    savingsRate: (rate: number) => `💰 Tasa de ahorro: *${rate}%*\n`,
+    noIncome:
+      "_Sin ingresos registrados en el mes. Anotalos diciendo, por ejemplo, *cobré el sueldo, 850000*._\n",
+    rateChange: (points: number) =>
+      `${points >= 0 ? "📈" : "📉"} ${points >= 0 ? "+" : ""}${points} puntos de ahorro vs. el mes anterior\n`,
+    expensesChange: (percent: number) =>
+      `${percent > 0 ? "🔺" : "🔻"} Gastos ${percent > 0 ? "+" : ""}${percent}% vs. el mes anterior\n`,
+    trendTitle: "\n🗓️ *Últimos meses:*\n",
+    trendLine: (month: string, income: string, expenses: string, rate: number | null) =>
+      `• ${month}: ${income} de ingresos, ${expenses} de gastos` +
+      (rate !== null ? ` (ahorro ${rate}%)` : "") +
+      "\n",
+    unconverted: (count: number) =>
+      `\n_(${count} movimiento${count !== 1 ? "s" : ""} en otras monedas sin convertir)_\n`,
+    noData: "No tengo ingresos ni gastos registrados para ese mes.",
+    summarySection: (report: string) => `\n\n${report}`,
+    error: "Hubo un error armando el flujo de caja. Intentá de nuevo más tarde."
+  },
+
+  anomalies: {
+    title: (amount: string, merchant: string) => `⚠️ *Revisá este gasto:* ${amount} en ${merchant}`,
+    duplicate: (time: string) => `Parece repetido: ya registré el mismo monto ahí a las ${time}`,
+    unusualForMerchant: (usual: string) =>
+      `Es mucho más de lo que solés pagar ahí (normalmente ${usual})`,
+    unusualForCategory: (category: string, usual: string) =>
+      `Es mucho más de lo que solés gastar en ${category} (normalmente ${usual})`,
+    newMerchant: "Es la primera vez que comprás en este comercio y el monto es alto",
+    dismissButton: "👍 Lo reconozco",
+    fraudButton: "🚨 No fui yo",
+    footer: "¿Reconocés este gasto?",
+    textHint: "Si lo reconocés decime *todo bien*; si no, *no fui yo*.",
+    askAction: "No me quedó claro si reconocés el gasto. Decime *todo bien* o *no fui yo*.",
+    dismissed: "👍 Listo, queda registrado como un gasto normal.",
+    fraud:
+      "🚨 Lo marqué como posible fraude y ya no cuenta en tus totales ni presupuestos.\n\n" +
+      "Llamá cuanto antes a tu banco o al emisor de la tarjeta para desconocer el cargo y bloquearla.",
+    notFound: "No tengo alertas de gastos pendientes.",
+    unavailable: "Las alertas de gastos no están disponibles en este momento.",
+    error: "Hubo un error con la alerta. Intentá de nuevo más tarde."
+  },
+
+  dollar: {
+    unavailable: "La funcion de cotizacion no esta disponible en este momento.",
+    fetching: "Consultando cotizacion... 💵",
+    error: "No pude obtener la cotizacion en este momento. Intentá de nuevo más tarde.",
+    title: "💵 *Cotización del Dólar*",
+    official: "Oficial",
+    blue: "Blue",
+    euroOfficial: "Euro Oficial",
+    euroBlue: "Euro Blue",
+    sell: "venta",
+    buy: "compra",
+    updated: (time: string) => `🕐 Actualizado: ${time} hs`
+  },
+
+  crypto: {
+    unavailable: "La funcion de cripto no esta disponible en este momento.",
+    fetching: "Consultando precios cripto... 🪙",
+    error: "No pude obtener los precios en este momento. Intentá de nuevo más tarde.",
+    title: "🪙 *Precios Cripto*",
+    footer: "📊 CoinGecko · ahora"
+  },
+
+  news: {
+    notConfigured: "La funcion de noticias no esta configurada. Se necesita una NEWS_API_KEY.",
+    fetching: "Buscando noticias... 📰",
+    error: "No pude obtener las noticias en este momento. Intentá de nuevo más tarde.",
+    headerQuery: (query: string) => `📰 *Noticias sobre "${query}"*`,
+    headerToday: "📰 *Noticias de hoy*",
+    empty: "No encontre noticias en este momento.",
+    hoursAgo: (hours: number) => `hace ${hours}h`,
+    minutesAgo: (minutes: number) => `hace ${minutes} min`
+  },
+
+  directions: {
+    notConfigured:
+      "La funcion de mapas no esta configurada. Se necesita una ORS_API_KEY (openrouteservice.org).",
+    askDestination: "Decime adonde querés ir. Ej: 'cómo llego a Recoleta'",
+    searching: "Buscando la ruta... 🗺️",
+    askOrigin: "Decime de dónde salís o compartí tu ubicación 📍 y luego pedime las indicaciones.",
+    noRoute:
+      "No encontré una ruta entre esos puntos. Verificá las ubicaciones e intentalo de nuevo.",
+    error: "No pude obtener las indicaciones en este momento. Intentá de nuevo más tarde.",
+    title: "🗺️ *Cómo llegar*",
+    fromTo: (origin: string, destination: string) => `📍 *De:* ${origin} → *A:* ${destination}`,
+    steps: "📋 *Pasos:*",
+    viewOnMap: (url: string) => `🔗 Ver en mapa: ${url}`,
+    modes: {
+      driving: "En auto",
+      transit: "En auto",
+      walking: "Caminando",
+      bicycling: "En bicicleta"
+    }
+  },
+
+  location: {
+    defaultLabel: "Tu ubicación",
+    saved: (placeName?: string) =>
+      `📍 *Ubicación guardada!*\n\n` +
+      (placeName ? `*Lugar:* ${placeName}\n\n` : "") +
+      `Ahora podés pedirme indicaciones sin especificar el origen. Ej:\n` +
+      `_"¿Cómo llego a Recoleta?"_\n` +
+      `_"¿Cuánto tarda a Constitución caminando?"_\n\n` +
+      `⏳ La ubicación se recuerda por 30 minutos.`
+  },
+
+  timezone: {
+    unavailable: "La funcion de zona horaria no esta disponible en este momento.",
+    notRecognized:
+      "No reconocí esa zona horaria 🤔 Decime tu ciudad o país. Ej: _'estoy en Madrid'_\n\n" +
+      "También podés mandarme tu ubicación 📍 y la detecto sola.",
+    updated: (timezone: string, localTime: string) =>
+      `🌍 Zona horaria actualizada a *${timezone}*.\n\n` +
+      `Allá son las ${localTime} hs. Tus recordatorios, el resumen diario y los resúmenes de gastos van a usar este horario.`,
+    error: "Hubo un error cambiando tu zona horaria. Intentá de nuevo más tarde."
+  },
+
+  documents: {
+    unavailable: "Todavía no puedo leer archivos. Probá más tarde.",
+    unsupported: "Por ahora solo puedo leer fotos y PDFs 📄",
+    tooLarge: (maxMb: number) =>
+      `Ese archivo es muy pesado para leerlo 😅 Mandame uno de hasta ${maxMb} MB.`,
+    reading: "🔎 Dame un segundo que leo tu archivo...",
+    noText: "No pude leer texto en ese archivo 😕 Probá con una foto más nítida.",
+    nothingFound: "Leí el archivo pero no encontré un gasto ni una fecha para recordarte 🤔",
+    error: "Hubo un error leyendo el archivo. Intentá de nuevo más tarde.",
+    expenseSaved: (amount: string, merchant: string | null, category: string) =>
+      `🧾 Registré el gasto: *${amount}*${merchant ? ` en ${merchant}` : ""} (${category})`
+  },
+
+  language: {
+    unavailable: "La funcion de idioma no esta disponible en este momento.",
+    notSupported: (available: string) =>
+      `Todavía no hablo ese idioma 😅 Por ahora puedo responderte en: ${available}.`,
+    updated: "🗣️ Listo! A partir de ahora te respondo en español.",
+    error: "Hubo un error cambiando el idioma. Intentá de nuevo más tarde.",
+    /** Name of each supported language, as shown to the user */
+    names: { es: "español", en: "inglés" } as Record<string, string>
+  },
+
+  currency: {
+    unavailable: "No puedo cambiar la moneda en este momento.",
+    notSupported: (available: string) =>
+      `Por ahora puedo sumar tus gastos en: ${available}. ¿En cuál querés verlos?`,
+    updated: (currency: string) =>
+      `💱 Listo! Los totales de tus gastos se van a sumar en *${currency}*, al dólar oficial y al blue.`,
+    error: "Hubo un error cambiando la moneda. Intentá de nuevo más tarde."
+  },
+
+  transfers: {
+    unavailable:
+      "La función de transferencias no está disponible. Necesitás conectar tu cuenta de Mercado Pago.",
+    askAmount: "Decime el monto a transferir. Ej: _'pagale 5000 pesos al alias gonzalez.mp'_",
+    askRecipient: "Decime el alias, CVU o CBU del destinatario. Ej: _'pagale 5000 a gonzalez.mp'_",
+    noLinkedAccount: "No tenés cuenta vinculada. Usá /connect para vincularla.",
+    notLinked:
+      "No tenés Mercado Pago conectado. Decime _'conecta mi mercado libre'_ para vincularlo.",
+    confirm: (transfer: {
+      amount: string;
+      recipient: string;
+      description?: string;
+      scheduledAt?: string;
+    }) =>
+      `💸 *Confirmación de transferencia*\n\n` +
+      `💰 *Monto:* $${transfer.amount}\n` +
+      `👤 *Destinatario:* ${transfer.recipient}` +
+      (transfer.description ? `\n📝 *Descripción:* ${transfer.description}` : "") +
+      (transfer.scheduledAt ? `\n🕐 *Programada para:* ${transfer.scheduledAt}` : "") +
+      `\n\n_Respondé *confirmar* para ejecutar o *cancelar* para descartar._`,
+    prepareError: "Hubo un error preparando la transferencia. Intentá de nuevo más tarde.",
+    cancelled: "Transferencia cancelada. ❌",
+    scheduledUnavailable:
+      "La función de transferencias programadas no está disponible en este momento.",
+    scheduled: (date: string, amount: string, recipient: string) =>
+      `✅ *Transferencia programada*\n\n` +
+      `Se va a ejecutar el ${date}.\n` +
+      `Monto: $${amount} → ${recipient}\n\n` +
+      `_Para verla: "mis pagos programados"_`,
+    scheduleError: "Hubo un error programando la transferencia. Intentá de nuevo más tarde.",
+    processing: "Procesando transferencia... ⏳",
+    success: (amount: string, recipient: string, transactionId?: string) =>
+      `✅ *Transferencia exitosa!*\n\n` +
+      `💰 $${amount} enviados a *${recipient}*\n` +
+      (transactionId ? `🔖 ID: ${transactionId}` : ""),
+    failed: (reason: string) =>
+      `❌ *Error en la transferencia*\n\n${reason}\n\n` +
+      `Verificá que tenés saldo suficiente y que el alias/CVU es correcto.`,
+    executeError:
+      "Hubo un error ejecutando la transferencia. Verificá tu saldo e intentá de nuevo.",
+    scheduledExecuted: (amount: string, recipient: string, transactionId?: string) =>
+      `✅ *Transferencia programada ejecutada!*\n\n` +
+      `💰 $${amount} enviados a *${recipient}*\n` +
+      (transactionId ? `🔖 ID: ${transactionId}` : ""),
+    scheduledNotExecuted: (amount: string, recipient: string) =>
+      `❌ *No pude ejecutar la transferencia programada*\n\n` +
+      `$${amount} → ${recipient}\n\n` +
+      `La función de transferencias no está disponible en este momento.`,
+    scheduledFailed: (amount: string, recipient: string, reason: string) =>
+      `❌ *Falló la transferencia programada*\n\n` +
+      `$${amount} → ${recipient}\n\n${reason}\n\n` +
+      `Verificá que tenés saldo suficiente y que el alias/CVU es correcto.`,
+    scheduledError: (amount: string, recipient: string) =>
+      `❌ *Falló la transferencia programada*\n\n` +
+      `$${amount} → ${recipient}\n\n` +
+      `Hubo un error ejecutándola. Verificá tu saldo e intentá de nuevo.`
+  },
+
+  payments: {
+    unavailable: "La función de pagos programados no está disponible en este momento.",
+    askAmount: "Decime el monto a pagar. Ej: _'pagale 5000 todos los lunes al alias gonzalez.mp'_",
+    askRecipient:
+      "Decime el alias, CVU o CBU del destinatario. Ej: _'pagale 5000 mensual a gonzalez.mp'_",
+    askRecurrence:
+      "Decime cada cuánto: 'todos los lunes', 'mensual', 'todos los días'. Ej: _'pagale 5000 todos los lunes a gonzalez.mp'_",
+    recurrence: {
+      DAILY: "Todos los días",
+      WEEKLY: "Semanal",
+      MONTHLY: "Mensual"
+    } as Record<string, string>,
+    created: (payment: {
+      amount: string;
+      recipient: string;
+      description?: string;
+      recurrence: string;
+      totalCount?: number;
+      nextDate: string;
+    }) =>
+      `✅ *Pago programado creado!*\n\n` +
+      `💰 *Monto:* $${payment.amount}\n` +
+      `👤 *Destinatario:* ${payment.recipient}\n` +
+      (payment.description ? `📝 *Descripción:* ${payment.description}\n` : "") +
+      `🔁 *Frecuencia:* ${payment.recurrence}\n` +
+      (payment.totalCount ? `📊 *Total de pagos:* ${payment.totalCount}\n` : "") +
+      `\n📅 *Primer recordatorio:* ${payment.nextDate}\n\n` +
+      `_Cuando llegue la fecha te mando un mensaje con el link para pagar con un tap en Mercado Pago._\n` +
+      `_Para ver tus pagos: "mis pagos programados"_`,
+    createError: "Hubo un error creando el pago programado. Intentá de nuevo más tarde.",
+    listEmpty:
+      "No tenés pagos programados activos.\n\n_Para crear uno: 'pagale 5000 todos los lunes a gonzalez.mp'_",
+    listHeader: "💸 *Tus pagos programados:*\n\n",
+    /** Indexed by weekday (0 = Sunday) */
+    weekdaysShort: ["dom", "lun", "mar", "mié", "jue", "vie", "sáb"],
+    frequency: {
+      transfer: "Transferencia automática",
+      once: "Pago único",
+      daily: "Todos los días",
+      weekly: (day: string) => `Todos los ${day}`,
+      monthly: "Mensual"
+    },
+    next: (date: string) => `Próx: ${date}`,
+    listFooter: `_Para cancelar: "cancela el pago programado 1"_`,
+    listError: "Hubo un error consultando tus pagos. Intentá de nuevo más tarde.",
+    cancelAskIndex: "Decime el número de pago a cancelar. Ej: _'cancela el pago recurrente 1'_",
+    notFound: (index: number, count: number) =>
+      `No existe el pago programado ${index} 🤔 Tenés ${count} pago(s) activo(s).`,
+    cancelled: (amount: string, recipient: string, isTransfer: boolean) =>
+      `✅ Pago programado cancelado!\n\n` +
+      `$${amount} → ${recipient} ❌\n\n` +
+      (isTransfer
+        ? "_La transferencia no se va a ejecutar._"
+        : "_Ya no se van a enviar más recordatorios de este pago._"),
+    cancelTooLate: (amount: string, recipient: string) =>
+      `⏳ El pago de $${amount} a ${recipient} ya se está ejecutando y no lo puedo cancelar.\n\n` +
+      "_Te aviso apenas termine._",
+    cancelError: "Hubo un error cancelando el pago. Intentá de nuevo más tarde.",
+    reminder: (payment: {
+      amount: string;
+      recipient: string;
+      description?: string;
+      paymentNumber?: number;
+      totalPayments?: number;
+      link: string;
+    }) =>
+      `💸 *Recordatorio de pago programado*\n\n` +
+      `💰 *Monto:* $${payment.amount}\n` +
+      `👤 *Destinatario:* ${payment.recipient}\n` +
+      (payment.description ? `📝 *Descripción:* ${payment.description}\n` : "") +
+      (payment.totalPayments
+        ? `📊 Pago ${payment.paymentNumber} de ${payment.totalPayments}\n`
+        : "") +
+      `\n🔗 *Pagá con Mercado Pago:*\n${payment.link}\n\n` +
+      `_Para cancelar: "cancela el pago recurrente 1"_`
+  },
+
+  notifications: {
+    subscriptionActivated: (data: {
+      planName: string;
+      features: string[];
+      expirationDate: string;
+      maxReminders: number | null;
+      hasCalendarSync: boolean;
+      hasEmailSync: boolean;
+    }) =>
+      `🎉 *¡Gracias por suscribirte a Memorial!*\n\n` +
+      `Tu plan: *${data.planName}*\n` +
+      `Vence: ${data.expirationDate}\n\n` +
+      `*Incluye:*\n` +
+      `${data.features.map((f) => `✅ ${f}`).join("\n")}\n` +
+      `📅 Sincronización de calendario: ${data.hasCalendarSync ? "Sí" : "No"}\n` +
+      `📧 Monitoreo de emails: ${data.hasEmailSync ? "Sí" : "No"}\n` +
+      `🔔 Recordatorios: ${data.maxReminders ? `${data.maxReminders}` : "Ilimitados"}\n\n` +
+      `*Para aprovechar tu plan al máximo:*\n` +
+      `• Conectá tu Google Calendar desde la web\n` +
+      `• Configurá el monitoreo de emails\n` +
+      `• Enviá un mensaje de voz o texto para crear tu primer recordatorio\n\n` +
+      `¡Disfrutá Memorial! 🚀`
+  }
+};
+
+export type Messages = typeof es;
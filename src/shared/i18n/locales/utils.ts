@@ -0,0 +1,11 @@
+export function capitalize(s: string): string {
+  if (!s) return s;
+  return s.charAt(0).toUpperCase() + s.slice(1);
+}
+
+/** English ordinal: 1 → "1st", 22 → "22nd", 13 → "13th" */
+export function ordinal(n: number): string {
+  const suffixes = ["th", "st", "nd", "rd"];
+  const mod100 = n % 100;
+  return n + (suffixes[(mod100 - 20) % 10] || suffixes[mod100] || suffixes[0]);
+}
@@ -0,0 +1,133 @@
+export const DEFAULT_TIMEZONE = "America/Argentina/Buenos_Aires";
+
+export interface ZonedDateTime {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  /** 0=Sun, 1=Mon ... 6=Sat */
+  weekday: number;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+      weekday: "short"
+    });
+    formatterCache.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Wall-clock fields of `date` as seen in `timezone` */
+export function getZonedParts(date: Date, timezone: string): ZonedDateTime {
+  const parts = getFormatter(timezone).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes): string =>
+    parts.find((p) => p.type === type)?.value ?? "0";
+
+  return {
+    year: Number(get("year")),
+    month: Number(get("month")),
+    day: Number(get("day")),
+    hour: Number(get("hour")),
+    minute: Number(get("minute")),
+    second: Number(get("second")),
+    weekday: WEEKDAYS.indexOf(get("weekday"))
+  };
+}
+
+/** Offset from UTC in minutes at the given instant (e.g. -180 for Buenos Aires) */
+export function getTimezoneOffsetMinutes(date: Date, timezone: string): number {
+  const p = getZonedParts(date, timezone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  const truncated = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((asUtc - truncated) / 60_000);
+}
+
+/** Offset formatted for ISO 8601 strings, e.g. "-03:00" */
+export function formatUtcOffset(date: Date, timezone: string): string {
+  const offset = getTimezoneOffsetMinutes(date, timezone);
+  const sign = offset < 0 ? "-" : "+";
+  const abs = Math.abs(offset);
+  const hours = String(Math.floor(abs / 60)).padStart(2, "0");
+  const minutes = String(abs % 60).padStart(2, "0");
+  return `${sign}${hours}:${minutes}`;
+}
+
+/**
+ * Converts a wall-clock time in `timezone` to a UTC instant.
+ * Out-of-range fields roll over like Date.UTC (day 32 → next month).
+ */
+export function zonedTimeToUtc(
+  fields: { year: number; month: number; day: number; hour?: number; minute?: number },
+  timezone: string
+): Date {
+  const guess = Date.UTC(
+    fields.year,
+    fields.month - 1,
+    fields.day,
+    fields.hour ?? 0,
+    fields.minute ?? 0
+  );
+
+  // Offset may differ on either side of a DST change, so correct once
+  const offset = getTimezoneOffsetMinutes(new Date(guess), timezone);
+  let result = guess - offset * 60_000;
+  const corrected = getTimezoneOffsetMinutes(new Date(result), timezone);
+  if (corrected !== offset) {
+    result = guess - corrected * 60_000;
+  }
+
+  return new Date(result);
+}
+
+/** Start and end (inclusive) of the local day containing `date` */
+export function getZonedDayRange(date: Date, timezone: string): { start: Date; end: Date } {
+  const { year, month, day } = getZonedParts(date, timezone);
+  const start = zonedTimeToUtc({ year, month, day }, timezone);
+  const end = new Date(zonedTimeToUtc({ year, month, day: day + 1 }, timezone).getTime() - 1);
+  return { start, end };
+}
+
+/** Start and end (inclusive) of a local calendar month (month is 1-12) */
+export function getZonedMonthRange(
+  year: number,
+  month: number,
+  timezone: string
+): { start: Date; end: Date } {
+  const start = zonedTimeToUtc({ year, month, day: 1 }, timezone);
+  const end = new Date(zonedTimeToUtc({ year, month: month + 1, day: 1 }, timezone).getTime() - 1);
+  return { start, end };
+}
+
+/** Start of the local week (Monday 00:00) containing `date` */
+export function getZonedWeekStart(date: Date, timezone: string): Date {
+  const { year, month, day, weekday } = getZonedParts(date, timezone);
+  const daysToMonday = weekday === 0 ? 6 : weekday - 1;
+  return zonedTimeToUtc({ year, month, day: day - daysToMonday }, timezone);
+}